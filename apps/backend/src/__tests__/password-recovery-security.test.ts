@@ -156,6 +156,7 @@ describe('Password Recovery Security Tests', () => {
     authController = new AuthController(authService);
     const mockAuthMiddleware = {
       requireAuth: () => (req: any, res: any, next: any) => next(),
+      requireStepUp: () => (req: any, res: any, next: any) => next(),
     } as any;
     
     const authRoutes = createAuthRoutes(authController, mockAuthMiddleware);
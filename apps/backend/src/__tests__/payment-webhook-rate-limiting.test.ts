@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+  createPaymentWebhookRoutes,
+  isPaymentWebhookRequest,
+  PAYMENT_WEBHOOK_PATH,
+} from '../routes/paymentWebhooks';
+
+const mockPaymentWebhookController = {
+  handleWebhook: (_req: any, res: any) => res.json({ received: true }),
+} as any;
+
+describe('Payment webhook rate limiting', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    // Stands in for the global per-IP limiter in index.ts
+    app.use(
+      rateLimit({ windowMs: 60 * 1000, max: 2, skip: isPaymentWebhookRequest })
+    );
+    app.get('/api/health', (_req, res) => res.json({ ok: true }));
+    app.use(
+      PAYMENT_WEBHOOK_PATH,
+      createPaymentWebhookRoutes(mockPaymentWebhookController)
+    );
+  });
+
+  it('should not count webhook deliveries against the global limit', async () => {
+    for (let i = 0; i < 5; i++) {
+      const response = await request(app).post(PAYMENT_WEBHOOK_PATH).send({});
+      expect(response.status).toBe(200);
+    }
+
+    const health = await request(app).get('/api/health');
+    expect(health.status).toBe(200);
+  });
+
+  it('should match the webhook path regardless of case', async () => {
+    for (let i = 0; i < 3; i++) {
+      const response = await request(app)
+        .post('/API/Payments/Webhooks')
+        .send({});
+      expect(response.status).toBe(200);
+    }
+  });
+
+  it('should still limit other routes', async () => {
+    await request(app).get('/api/health');
+    await request(app).get('/api/health');
+
+    const response = await request(app).get('/api/health');
+    expect(response.status).toBe(429);
+  });
+});
@@ -16,6 +16,7 @@ const mockAuthService = {
 
 const mockAuthMiddleware = {
   requireAuth: () => (req: any, res: any, next: any) => next(),
+  requireStepUp: () => (req: any, res: any, next: any) => next(),
 } as any;
 
 describe('Rate Limiting Integration Tests', () => {
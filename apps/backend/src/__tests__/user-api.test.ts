@@ -56,6 +56,7 @@ const mockAuthMiddleware = {
     req.user = mockUser;
     next();
   },
+  requireStepUp: () => (req: any, res: any, next: any) => next(),
 };
 
 describe('User Management API Endpoints', () => {
@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { config } from 'dotenv';
+import { Pool } from 'pg';
+import { MAX_RECOMMENDATION_LIMIT } from '@booking-swap/shared';
+import { createDatabasePool, getDatabaseConfig } from '../database/config';
+import { SwapRecommendationRepository } from '../database/repositories/SwapRecommendationRepository';
+import { createSwapRecommendationService } from '../services/recommendation/factory';
+import {
+  RankingMetrics,
+  evaluateRecommendations,
+} from '../services/recommendation';
+
+// Load environment variables
+config();
+
+interface EvaluateCommandOptions {
+  days: string;
+  limit: string;
+  k: string;
+  json?: boolean;
+}
+
+/**
+ * Recommendation Evaluation CLI Tool
+ * Measures how well the "For you" ranking predicts which listings users go
+ * on to swap with, by replaying accepted browse proposals against the
+ * listings open at the time. Uses the same RECOMMENDATIONS_* settings as the
+ * backend, so settings can be compared before changing them.
+ */
+class EvaluateRecommendationsCLI {
+  private program: Command;
+  private pool?: Pool;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  /**
+   * Setup CLI commands and options
+   */
+  private setupCommands(): void {
+    this.program
+      .name('evaluate-recommendations')
+      .description('Offline hit rate of swap recommendations')
+      .version('1.0.0');
+
+    this.program
+      .command('run', { isDefault: true })
+      .description('Replay accepted proposals and report hit rate and MRR')
+      .option(
+        '-d, --days <days>',
+        'Replay proposals from the last N days',
+        '90'
+      )
+      .option(
+        '-l, --limit <count>',
+        'Replay at most this many proposals',
+        '1000'
+      )
+      .option('-k, --k <k>', 'Count a hit when ranked within the top k', '10')
+      .option('--json', 'Print the report as JSON')
+      .action(async (options: EvaluateCommandOptions) => {
+        await this.evaluate(options);
+      });
+  }
+
+  private async evaluate(options: EvaluateCommandOptions): Promise<void> {
+    const days = parseInt(options.days);
+    const limit = parseInt(options.limit);
+    const k = parseInt(options.k);
+    if (isNaN(days) || days < 1 || isNaN(limit) || limit < 1) {
+      console.error('❌ --days and --limit must be positive numbers');
+      process.exit(1);
+    }
+    if (isNaN(k) || k < 1 || k > MAX_RECOMMENDATION_LIMIT) {
+      console.error(`❌ --k must be between 1 and ${MAX_RECOMMENDATION_LIMIT}`);
+      process.exit(1);
+    }
+
+    this.pool = createDatabasePool(getDatabaseConfig());
+
+    try {
+      const report = await evaluateRecommendations(
+        createSwapRecommendationService(this.pool),
+        new SwapRecommendationRepository(this.pool),
+        {
+          since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+          limit,
+          k,
+          candidateLimit: parseInt(
+            process.env.RECOMMENDATIONS_CANDIDATE_LIMIT || '200'
+          ),
+          historyLimit: 50,
+        }
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      console.log(
+        `📊 Replayed ${report.evaluated} accepted proposals from the last ${days} days\n`
+      );
+      if (report.evaluated === 0) {
+        console.log('No accepted browse proposals to evaluate.');
+        return;
+      }
+
+      this.printMetrics('Recommender', report.recommender, k);
+      this.printMetrics('Newest first', report.newestFirst, k);
+      if (report.outsideCandidatePool > 0) {
+        console.log(
+          `\n⚠️  ${report.outsideCandidatePool} accepted listings were not among the candidates open at the time`
+        );
+      }
+      if (report.skipped > 0) {
+        console.log(
+          `⚠️  Skipped ${report.skipped} proposals whose own swap no longer exists`
+        );
+      }
+    } catch (error) {
+      console.error(
+        '❌ Evaluation failed:',
+        error instanceof Error ? error.message : error
+      );
+      process.exitCode = 1;
+    } finally {
+      await this.pool.end();
+    }
+  }
+
+  private printMetrics(
+    label: string,
+    metrics: RankingMetrics,
+    k: number
+  ): void {
+    console.log(
+      `${label.padEnd(14)} hit rate@${k}: ${(metrics.hitRate * 100).toFixed(1)}% (${metrics.hits})  MRR: ${metrics.mrr.toFixed(3)}`
+    );
+  }
+
+  /**
+   * Run the CLI application
+   */
+  async run(): Promise<void> {
+    try {
+      await this.program.parseAsync(process.argv);
+    } catch (error) {
+      console.error('❌ CLI execution failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Run CLI if this file is executed directly
+if (require.main === module) {
+  const cli = new EvaluateRecommendationsCLI();
+  cli.run().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+export { EvaluateRecommendationsCLI };
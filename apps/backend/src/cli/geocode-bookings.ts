@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { config } from 'dotenv';
+import { Pool } from 'pg';
+import { createDatabasePool, getDatabaseConfig } from '../database/config';
+import { createBookingService } from '../services/booking/factory';
+import { createHederaService } from '../services/hedera/factory';
+
+// Load environment variables
+config();
+
+interface GeocodeCommandOptions {
+  limit: string;
+}
+
+/**
+ * Booking Geocoding CLI Tool
+ * Adds coordinates to bookings listed without them, such as those created
+ * before geocoding was added, so they appear on the browse map. Uses the
+ * geocoder selected by GEOCODER. Bookings it cannot place are left as they
+ * are and are checked again after the bookings not yet tried.
+ */
+class GeocodeBookingsCLI {
+  private program: Command;
+  private pool?: Pool;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  /**
+   * Setup CLI commands and options
+   */
+  private setupCommands(): void {
+    this.program
+      .name('geocode-bookings')
+      .description('Fill in missing booking coordinates from city and country')
+      .version('1.0.0');
+
+    this.program
+      .command('run', { isDefault: true })
+      .description('Geocode bookings without coordinates')
+      .option(
+        '-l, --limit <count>',
+        'Geocode at most this many bookings',
+        '500'
+      )
+      .action(async (options: GeocodeCommandOptions) => {
+        await this.geocode(options);
+      });
+  }
+
+  private async geocode(options: GeocodeCommandOptions): Promise<void> {
+    const limit = parseInt(options.limit);
+    if (isNaN(limit) || limit < 1) {
+      console.error('❌ --limit must be a positive number');
+      process.exit(1);
+    }
+
+    this.pool = createDatabasePool(getDatabaseConfig());
+    const hederaService = createHederaService();
+
+    try {
+      const bookingService = createBookingService(this.pool, hederaService);
+
+      console.log(
+        `🗺️  Geocoding up to ${limit} bookings without coordinates...\n`
+      );
+      const { checked, located } =
+        await bookingService.geocodeMissingCoordinates(limit);
+
+      console.log(`Checked: ${checked}`);
+      console.log(`Located: ${located}`);
+      if (checked > located) {
+        console.log(
+          `⚠️  Not found: ${checked - located} (city and country unknown to the geocoder)`
+        );
+      }
+    } catch (error) {
+      console.error(
+        '❌ Geocoding failed:',
+        error instanceof Error ? error.message : error
+      );
+      process.exitCode = 1;
+    } finally {
+      hederaService.close();
+      await this.pool.end();
+    }
+  }
+
+  /**
+   * Run the CLI application
+   */
+  async run(): Promise<void> {
+    try {
+      await this.program.parseAsync(process.argv);
+    } catch (error) {
+      console.error('❌ CLI execution failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Run CLI if this file is executed directly
+if (require.main === module) {
+  const cli = new GeocodeBookingsCLI();
+  cli.run().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+export { GeocodeBookingsCLI };
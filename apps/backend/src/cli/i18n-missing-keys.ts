@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import {
+  getMissingTranslations,
+  isSupportedLocale,
+  isTranslationComplete,
+  Locale,
+  MissingTranslationsReport,
+  SUPPORTED_LOCALES,
+} from '@booking-swap/shared';
+
+/**
+ * Missing Translation Key CLI Tool
+ * Compares the Spanish and French catalogs and notification templates with
+ * English and lists what still needs translating. Exits non-zero when
+ * anything is missing, so it can gate CI.
+ */
+class I18nMissingKeysCLI {
+  private program: Command;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  /**
+   * Setup CLI commands and options
+   */
+  private setupCommands(): void {
+    this.program
+      .name('i18n-missing-keys')
+      .description(
+        'Report translations missing from the shared locale catalogs'
+      )
+      .version('1.0.0')
+      .option(
+        '-l, --locale <locale>',
+        `Only check one locale (${SUPPORTED_LOCALES.join(', ')})`
+      )
+      .option('--json', 'Print the report as JSON')
+      .action((options: { locale?: string; json?: boolean }) => {
+        this.report(options);
+      });
+  }
+
+  private report(options: { locale?: string; json?: boolean }): void {
+    if (options.locale && !isSupportedLocale(options.locale)) {
+      console.error(`❌ Unsupported locale: ${options.locale}`);
+      process.exit(1);
+    }
+
+    const reports = getMissingTranslations(
+      options.locale ? [options.locale as Locale] : undefined
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2));
+    } else {
+      reports.forEach(report => this.printReport(report));
+    }
+
+    if (!reports.every(isTranslationComplete)) {
+      process.exit(1);
+    }
+  }
+
+  private printReport(report: MissingTranslationsReport): void {
+    if (isTranslationComplete(report)) {
+      console.log(`✅ ${report.locale}: complete`);
+      return;
+    }
+
+    console.log(`❌ ${report.locale}:`);
+    this.printSection('Missing message keys', report.missingKeys);
+    this.printSection('Stale message keys', report.staleKeys);
+    this.printSection(
+      'Messages with different arguments',
+      report.mismatchedArguments.map(
+        mismatch =>
+          `${mismatch.key} (expected ${mismatch.expected.join(', ') || 'none'}, found ${mismatch.actual.join(', ') || 'none'})`
+      )
+    );
+    this.printSection(
+      'Invalid messages',
+      report.invalidMessages.map(message => `${message.key}: ${message.error}`)
+    );
+    this.printSection(
+      'Missing notification templates',
+      report.missingTemplates
+    );
+    this.printSection(
+      'Templates with different placeholders',
+      report.mismatchedTemplates.map(
+        mismatch =>
+          `${mismatch.key} (expected ${mismatch.expected.join(' ') || 'none'}, found ${mismatch.actual.join(' ') || 'none'})`
+      )
+    );
+  }
+
+  private printSection(title: string, lines: string[]): void {
+    if (lines.length === 0) {
+      return;
+    }
+
+    console.log(`  ${title} (${lines.length}):`);
+    lines.forEach(line => console.log(`    - ${line}`));
+  }
+
+  /**
+   * Run the CLI application
+   */
+  async run(): Promise<void> {
+    try {
+      await this.program.parseAsync(process.argv);
+    } catch (error) {
+      console.error('❌ CLI execution failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Run CLI if this file is executed directly
+if (require.main === module) {
+  const cli = new I18nMissingKeysCLI();
+  cli.run().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+export { I18nMissingKeysCLI };
@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { config } from 'dotenv';
+import { Pool } from 'pg';
+import { writeFileSync } from 'fs';
+import { createDatabasePool, getDatabaseConfig } from '../database/config';
+import {
+  LedgerDiscrepancy,
+  LedgerReconciliationResult,
+  LedgerSource,
+} from '../database/repositories/LedgerReconciliationRepository';
+import { createHederaService } from '../services/hedera/factory';
+import { createLedgerReconciliationService } from '../services/reconciliation/factory';
+import { LEDGER_SOURCES } from '../services/reconciliation/LedgerReconciliationService';
+
+// Load environment variables
+config();
+
+interface ReconcileCommandOptions {
+  sources?: string;
+  limit?: string;
+  output?: string;
+  show: string;
+  save: boolean;
+}
+
+/**
+ * Ledger Reconciliation CLI Tool
+ * Compares the transaction IDs and NFTs stored with bookings, swaps, payments
+ * and swap targets against the Hedera mirror node. Exits with code 1 when
+ * discrepancies are found, so it can run from cron or CI.
+ */
+class LedgerReconciliationCLI {
+  private program: Command;
+  private pool?: Pool;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  /**
+   * Setup CLI commands and options
+   */
+  private setupCommands(): void {
+    this.program
+      .name('ledger-reconciliation')
+      .description(
+        'Check database blockchain references against the Hedera mirror node'
+      )
+      .version('1.0.0');
+
+    this.program
+      .command('run', { isDefault: true })
+      .description('Reconcile the database with the ledger')
+      .option(
+        '-s, --sources <sources>',
+        `Comma-separated sources to check (${LEDGER_SOURCES.join(', ')})`
+      )
+      .option(
+        '-l, --limit <count>',
+        'Check at most this many records per source'
+      )
+      .option('-o, --output <file>', 'Write the full result as JSON to a file')
+      .option('--show <count>', 'Number of discrepancies to print', '20')
+      .option(
+        '--save',
+        'Store the run as a report visible to admins (checks every record)',
+        false
+      )
+      .action(async (options: ReconcileCommandOptions) => {
+        await this.reconcile(options);
+      });
+  }
+
+  private async reconcile(options: ReconcileCommandOptions): Promise<void> {
+    const sources = this.parseSources(options.sources);
+    if (options.save && options.limit) {
+      console.error(
+        '❌ --save checks every record and cannot be combined with --limit'
+      );
+      process.exit(1);
+    }
+
+    this.pool = createDatabasePool(getDatabaseConfig());
+
+    try {
+      const service = createLedgerReconciliationService(
+        this.pool,
+        createHederaService()
+      );
+
+      console.log(
+        `🔍 Reconciling ${sources.join(', ')} with the mirror node...\n`
+      );
+
+      let result: LedgerReconciliationResult;
+      if (options.save) {
+        const report = await service.runNewReport('cli', sources);
+        if (report.status === 'failed') {
+          throw new Error(report.error);
+        }
+        console.log(`Report stored: ${report.id}\n`);
+        result = report;
+      } else {
+        result = await service.reconcile({
+          sources,
+          limit: options.limit ? parseInt(options.limit) : undefined,
+        });
+      }
+
+      this.printSummary(result);
+      this.printDiscrepancies(result.discrepancies, parseInt(options.show));
+
+      if (options.output) {
+        writeFileSync(options.output, JSON.stringify(result, null, 2));
+        console.log(`\n📄 Result written to ${options.output}`);
+      }
+
+      if (result.discrepancies.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error(
+        '❌ Reconciliation failed:',
+        error instanceof Error ? error.message : error
+      );
+      process.exitCode = 1;
+    } finally {
+      await this.pool.end();
+    }
+  }
+
+  private parseSources(value?: string): LedgerSource[] {
+    if (!value) {
+      return LEDGER_SOURCES;
+    }
+
+    const sources = value.split(',').map(source => source.trim());
+    const invalid = sources.filter(
+      source => !LEDGER_SOURCES.includes(source as LedgerSource)
+    );
+    if (invalid.length > 0) {
+      console.error(
+        `❌ Unknown sources: ${invalid.join(', ')}. Use ${LEDGER_SOURCES.join(', ')}`
+      );
+      process.exit(1);
+    }
+
+    return sources as LedgerSource[];
+  }
+
+  private printSummary(result: LedgerReconciliationResult): void {
+    console.log('📊 RECONCILIATION SUMMARY');
+    console.log('='.repeat(50));
+
+    for (const [source, summary] of Object.entries(result.summary)) {
+      console.log(`${source}:`);
+      console.log(
+        `   Records: ${summary.records} (${summary.transactionsChecked} transactions, ${summary.nftsChecked} NFTs checked)`
+      );
+      console.log(`   Pending: ${summary.pending}`);
+      console.log(
+        `   Missing: ${summary.missing}  Failed: ${summary.failed}  Mismatched: ${summary.mismatched}`
+      );
+      if (source === 'bookings') {
+        console.log(`   NFT ownership drift: ${summary.nftOwnershipDrift}`);
+      }
+      if (summary.errors > 0) {
+        console.log(`   ⚠️  Could not check: ${summary.errors}`);
+      }
+    }
+
+    console.log(`\nTotal records: ${result.recordsChecked}`);
+    console.log(`Discrepancies: ${result.discrepancies.length}`);
+  }
+
+  private printDiscrepancies(
+    discrepancies: LedgerDiscrepancy[],
+    show: number
+  ): void {
+    if (discrepancies.length === 0) {
+      console.log('\n✅ Database matches the ledger');
+      return;
+    }
+
+    console.log('\n🚨 DISCREPANCIES');
+    console.log('='.repeat(50));
+    discrepancies.slice(0, show).forEach((discrepancy, index) => {
+      console.log(
+        `${index + 1}. [${discrepancy.kind}] ${discrepancy.source} ${discrepancy.recordId} (${discrepancy.field})`
+      );
+      console.log(`   ${discrepancy.message}`);
+      if (discrepancy.transactionId) {
+        console.log(`   Transaction: ${discrepancy.transactionId}`);
+      }
+      if (discrepancy.tokenId) {
+        console.log(
+          `   NFT: ${discrepancy.tokenId} #${discrepancy.serialNumber}`
+        );
+      }
+      if (discrepancy.expected || discrepancy.actual) {
+        console.log(
+          `   Expected: ${discrepancy.expected ?? '-'}  Actual: ${discrepancy.actual ?? '-'}`
+        );
+      }
+    });
+
+    if (discrepancies.length > show) {
+      console.log(`... and ${discrepancies.length - show} more`);
+    }
+  }
+
+  /**
+   * Run the CLI application
+   */
+  async run(): Promise<void> {
+    try {
+      await this.program.parseAsync(process.argv);
+    } catch (error) {
+      console.error('❌ CLI execution failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Run CLI if this file is executed directly
+if (require.main === module) {
+  const cli = new LedgerReconciliationCLI();
+  cli.run().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+export { LedgerReconciliationCLI };
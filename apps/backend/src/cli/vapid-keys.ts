@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { config } from 'dotenv';
+import { generateVapidKeys, validateVapidKeys } from '../services/push/webPush';
+
+// Load environment variables
+config();
+
+/**
+ * VAPID Key CLI Tool
+ * Generates the key pair that identifies this server to browser push
+ * services, and checks the configured pair. Changing the keys invalidates
+ * every existing push subscription; users have to turn push on again.
+ */
+class VapidKeysCLI {
+  private program: Command;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  /**
+   * Setup CLI commands and options
+   */
+  private setupCommands(): void {
+    this.program
+      .name('vapid-keys')
+      .description('Manage the VAPID keys used for Web Push notifications')
+      .version('1.0.0');
+
+    this.program
+      .command('generate', { isDefault: true })
+      .description('Print a new key pair as environment variables')
+      .action(() => {
+        this.generate();
+      });
+
+    this.program
+      .command('check')
+      .description('Check VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY')
+      .action(() => {
+        this.check();
+      });
+  }
+
+  private generate(): void {
+    const keys = generateVapidKeys();
+    console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+    console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
+    console.log('VAPID_SUBJECT=mailto:you@example.com');
+  }
+
+  private check(): void {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      console.error(
+        '❌ VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must both be set'
+      );
+      process.exit(1);
+    }
+
+    try {
+      validateVapidKeys({ publicKey, privateKey });
+    } catch (error) {
+      console.error(
+        `❌ ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+
+    console.log('✅ VAPID keys are valid');
+    if (!process.env.VAPID_SUBJECT) {
+      console.log(
+        '⚠️  VAPID_SUBJECT is not set, FROM_EMAIL is used as contact'
+      );
+    }
+  }
+
+  /**
+   * Run the CLI application
+   */
+  async run(): Promise<void> {
+    try {
+      await this.program.parseAsync(process.argv);
+    } catch (error) {
+      console.error('❌ CLI execution failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Run CLI if this file is executed directly
+if (require.main === module) {
+  const cli = new VapidKeysCLI();
+  cli.run().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
+
+export { VapidKeysCLI };
@@ -1,8 +1,26 @@
 import { Request, Response } from 'express';
 import { AdminService } from '../services/admin/AdminService';
-import { SwapPlatformError } from '@booking-swap/shared';
+import {
+  DisputeError,
+  DisputeErrorCodes,
+  DisputeStatus,
+  SwapPlatformError
+} from '@booking-swap/shared';
 import { logger } from '../utils/logger';
 
+const DISPUTE_ERROR_STATUS: Record<DisputeErrorCodes, number> = {
+  [DisputeErrorCodes.DISPUTE_NOT_FOUND]: 404,
+  [DisputeErrorCodes.SWAP_NOT_FOUND]: 404,
+  [DisputeErrorCodes.SWAP_NOT_DISPUTABLE]: 409,
+  [DisputeErrorCodes.NOT_SWAP_PARTY]: 400,
+  [DisputeErrorCodes.DISPUTE_ALREADY_OPEN]: 409,
+  [DisputeErrorCodes.INVALID_TRANSITION]: 409,
+  [DisputeErrorCodes.INVALID_DISPUTE]: 400,
+  [DisputeErrorCodes.INVALID_EVIDENCE]: 400,
+  [DisputeErrorCodes.EVIDENCE_NOT_FOUND]: 404,
+  [DisputeErrorCodes.RESOLUTION_FAILED]: 502,
+};
+
 export class AdminController {
   constructor(private adminService: AdminService) {}
 
@@ -42,7 +60,7 @@ export class AdminController {
 
   async getDisputes(req: Request, res: Response): Promise<void> {
     try {
-      const status = req.query.status as string;
+      const status = req.query.status as DisputeStatus | undefined;
       const disputes = await this.adminService.getDisputes(status);
       
       res.json({
@@ -58,40 +76,96 @@ export class AdminController {
     }
   }
 
+  async getDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const details = await this.adminService.getDisputeDetails(
+        req.params.disputeId as string,
+        req.admin!.id
+      );
+
+      res.json({
+        success: true,
+        data: details
+      });
+    } catch (error) {
+      this.handleDisputeError(error, res, 'Failed to fetch dispute');
+    }
+  }
+
+  async getDisputeEvidence(req: Request, res: Response): Promise<void> {
+    try {
+      const { evidence, data } = await this.adminService.getDisputeEvidence(
+        req.params.disputeId as string,
+        req.params.evidenceId as string,
+        req.admin!.id
+      );
+
+      res.setHeader('Content-Type', evidence.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${encodeURIComponent(evidence.fileName)}"`
+      );
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(data);
+    } catch (error) {
+      this.handleDisputeError(error, res, 'Failed to fetch evidence');
+    }
+  }
+
   async createDispute(req: Request, res: Response): Promise<void> {
     try {
-      const disputeData = req.body;
-      const dispute = await this.adminService.createDispute(disputeData);
+      const { swapId, reporterId, type, description, priority } = req.body;
+      const dispute = await this.adminService.createDispute({
+        swapId,
+        reporterId,
+        type,
+        description,
+        priority
+      });
       
       res.status(201).json({
         success: true,
         data: dispute
       });
     } catch (error) {
-      logger.error('Error creating dispute', { error });
-      res.status(500).json({
-        success: false,
-        error: 'Failed to create dispute'
+      this.handleDisputeError(error, res, 'Failed to create dispute');
+    }
+  }
+
+  async transitionDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const disputeId = req.params.disputeId as string;
+      const { status, note, awaitingPartyId } = req.body;
+
+      const dispute = await this.adminService.transitionDispute(
+        disputeId,
+        { status, note, awaitingPartyId },
+        req.admin!.id
+      );
+
+      res.json({
+        success: true,
+        data: dispute
       });
+    } catch (error) {
+      this.handleDisputeError(error, res, 'Failed to update dispute status');
     }
   }
 
   async resolveDispute(req: Request, res: Response): Promise<void> {
     try {
-      const { disputeId } = req.params;
-      const { action, notes } = req.body;
+      const disputeId = req.params.disputeId as string;
+      const { action, notes, amount, close } = req.body;
       const adminId = req.admin!.id;
 
-      const resolution = {
-        action,
-        notes,
-        resolvedBy: adminId,
-        resolvedAt: new Date()
-      };
-
       const dispute = await this.adminService.resolveDispute(
         disputeId, 
-        resolution, 
+        {
+          action,
+          notes,
+          amount: amount !== undefined ? Number(amount) : undefined,
+          close: close === true
+        },
         adminId
       );
       
@@ -100,11 +174,7 @@ export class AdminController {
         data: dispute
       });
     } catch (error) {
-      logger.error('Error resolving dispute', { error });
-      res.status(500).json({
-        success: false,
-        error: 'Failed to resolve dispute'
-      });
+      this.handleDisputeError(error, res, 'Failed to resolve dispute');
     }
   }
 
@@ -231,4 +301,21 @@ export class AdminController {
       });
     }
   }
-}
\ No newline at end of file
+
+  private handleDisputeError(error: unknown, res: Response, message: string): void {
+    if (error instanceof DisputeError) {
+      res.status(DISPUTE_ERROR_STATUS[error.code]).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+      return;
+    }
+
+    logger.error(message, { error });
+    res.status(500).json({
+      success: false,
+      error: message
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { ApiKeyError, ApiKeyErrorCodes } from '@booking-swap/shared';
+import { ApiKeyService } from '../services/auth/ApiKeyService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<ApiKeyErrorCodes, number> = {
+  [ApiKeyErrorCodes.API_KEY_NOT_FOUND]: 404,
+  [ApiKeyErrorCodes.API_KEY_LIMIT_REACHED]: 409,
+  [ApiKeyErrorCodes.API_KEY_REVOKED]: 409,
+  [ApiKeyErrorCodes.INVALID_API_KEY_REQUEST]: 400,
+};
+
+/**
+ * Controller for the current user's API keys and their audit trail
+ */
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  /**
+   * GET /api/api-keys
+   */
+  listKeys = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const apiKeys = await this.apiKeyService.listKeys(userId);
+      res.json({ success: true, data: { apiKeys } });
+    } catch (error) {
+      this.handleError(error, res, 'listKeys', userId);
+    }
+  };
+
+  /**
+   * POST /api/api-keys
+   */
+  createKey = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { name, scopes, rateLimitPerMinute, expiresAt } = req.body || {};
+      const apiKey = await this.apiKeyService.createKey(userId, {
+        name,
+        scopes,
+        rateLimitPerMinute,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      });
+      res.status(201).json({ success: true, data: { apiKey } });
+    } catch (error) {
+      this.handleError(error, res, 'createKey', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/api-keys/:id
+   */
+  revokeKey = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const apiKey = await this.apiKeyService.revokeKey(
+        req.params.id as string,
+        userId
+      );
+      res.json({ success: true, data: { apiKey } });
+    } catch (error) {
+      this.handleError(error, res, 'revokeKey', userId);
+    }
+  };
+
+  /**
+   * POST /api/api-keys/:id/rotate
+   */
+  rotateKey = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const apiKey = await this.apiKeyService.rotateKey(
+        req.params.id as string,
+        userId
+      );
+      res.status(201).json({ success: true, data: { apiKey } });
+    } catch (error) {
+      this.handleError(error, res, 'rotateKey', userId);
+    }
+  };
+
+  /**
+   * GET /api/api-keys/:id/usage?limit=...
+   */
+  listUsage = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const usage = await this.apiKeyService.listUsage(
+        req.params.id as string,
+        userId,
+        req.query.limit ? parseInt(req.query.limit as string) : undefined
+      );
+      res.json({ success: true, data: { usage } });
+    } catch (error) {
+      this.handleError(error, res, 'listUsage', userId);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof ApiKeyError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === ApiKeyErrorCodes.INVALID_API_KEY_REQUEST
+              ? 'validation'
+              : 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('API key operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'API key operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
@@ -1,10 +1,12 @@
 import { Request, Response } from 'express';
 import { AuthService, WalletSignatureData } from '../services/auth/AuthService';
+import { SessionService } from '../services/auth/SessionService';
 import { logger } from '../utils/logger';
 import {
   PasswordRecoveryErrorFactory,
   logPasswordRecoverySecurityEvent
 } from '../utils/passwordRecoveryErrorHandling';
+import { LoginMethod, TwoFactorError, User } from '@booking-swap/shared';
 import Joi from '@hapi/joi';
 import bcrypt from 'bcryptjs';
 
@@ -31,6 +33,16 @@ const loginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string().max(32).required(),
+});
+
+const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().required(),
+  newPassword: Joi.string().min(6).max(100).required(),
+});
+
 const passwordResetRequestSchema = Joi.object({
   email: Joi.string().email({ tlds: false }).required(),
   resetBaseUrl: Joi.string().uri().required(),
@@ -45,8 +57,16 @@ const validateTokenSchema = Joi.object({
   token: Joi.string().required(),
 });
 
+interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
 export class AuthController {
-  constructor(private authService: AuthService) { }
+  constructor(
+    private authService: AuthService,
+    private sessionService?: SessionService
+  ) { }
 
   /**
    * Generate challenge message for wallet signing
@@ -101,6 +121,7 @@ export class AuthController {
 
       const signatureData: WalletSignatureData = value;
       const loginResult = await this.authService.authenticateWithWallet(signatureData);
+      const session = await this.startSession(req, loginResult.user, 'wallet');
 
       res.status(200).json({
         user: {
@@ -113,7 +134,8 @@ export class AuthController {
           createdAt: loginResult.user.createdAt,
           updatedAt: loginResult.user.updatedAt,
         },
-        token: loginResult.token,
+        token: session?.token ?? loginResult.token,
+        ...(session && { refreshToken: session.refreshToken }),
         expiresAt: loginResult.expiresAt,
       });
     } catch (error) {
@@ -154,7 +176,12 @@ export class AuthController {
         });
       }
 
-      const newToken = this.authService.generateToken(req.user);
+      // Keep the session and its second factor check when swapping tokens
+      const twoFactorVerifiedAt = req.tokenPayload?.twoFactorVerifiedAt;
+      const sessionId = req.tokenPayload?.sid;
+      const newToken = twoFactorVerifiedAt || sessionId
+        ? this.authService.generateToken(req.user, { twoFactorVerifiedAt, sessionId })
+        : this.authService.generateToken(req.user);
       const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
       res.json({
@@ -612,6 +639,7 @@ export class AuthController {
         username: user.username,
         email: user.email,
       });
+      const session = await this.startSession(req, user, 'email');
 
       res.status(201).json({
         success: true,
@@ -623,7 +651,8 @@ export class AuthController {
           verificationLevel: user.verificationLevel,
           createdAt: user.createdAt,
         },
-        token,
+        token: session?.token ?? token,
+        ...(session && { refreshToken: session.refreshToken }),
       });
     } catch (error) {
       logger.error('Registration failed', { error: error.message });
@@ -656,6 +685,18 @@ export class AuthController {
       // Use AuthService for email authentication
       const loginResult = await this.authService.authenticateWithEmail(email, password);
 
+      if ('twoFactorRequired' in loginResult) {
+        return res.status(200).json({
+          success: true,
+          message: 'Two-factor verification required',
+          twoFactorRequired: true,
+          challengeToken: loginResult.challengeToken,
+          expiresAt: loginResult.expiresAt,
+        });
+      }
+
+      const session = await this.startSession(req, loginResult.user, 'email');
+
       res.status(200).json({
         success: true,
         message: 'Login successful',
@@ -665,7 +706,8 @@ export class AuthController {
           email: loginResult.user.email,
           verificationLevel: loginResult.user.verification?.level || 'basic',
         },
-        token: loginResult.token,
+        token: session?.token ?? loginResult.token,
+        ...(session && { refreshToken: session.refreshToken }),
       });
     } catch (error) {
       logger.error('Login failed', { error: error.message });
@@ -683,4 +725,193 @@ export class AuthController {
       });
     }
   };
-}
\ No newline at end of file
+
+  /**
+   * Finish an email login that was answered with a two-factor challenge
+   */
+  completeTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { error, value } = twoFactorLoginSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      const loginResult = await this.authService.completeTwoFactorLogin(value.challengeToken, value.code);
+      const session = await this.startSession(req, loginResult.user, 'email', Math.floor(Date.now() / 1000));
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        user: {
+          id: loginResult.user.id,
+          username: loginResult.user.username,
+          email: loginResult.user.email,
+          verificationLevel: loginResult.user.verification?.level || 'basic',
+        },
+        token: session?.token ?? loginResult.token,
+        ...(session && { refreshToken: session.refreshToken }),
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        res.status(401).json({
+          success: false,
+          code: error.code,
+          message: error.message,
+        });
+        return;
+      }
+
+      logger.error('Two-factor login failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+
+  /**
+   * Change the signed-in user's password
+   */
+  changePassword = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+          category: 'authentication',
+        },
+      });
+      return;
+    }
+
+    try {
+      const { error, value } = changePasswordSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+            category: 'validation',
+          },
+        });
+        return;
+      }
+
+      await this.authService.changePassword(userId, value.currentPassword, value.newPassword);
+
+      res.json({
+        success: true,
+        message: 'Password changed successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error && (
+        error.message === 'Current password is incorrect' ||
+        error.message === 'Password login is not set up for this account'
+      )) {
+        res.status(400).json({
+          error: {
+            code: 'PASSWORD_CHANGE_REJECTED',
+            message: error.message,
+            category: 'validation',
+          },
+        });
+        return;
+      }
+
+      logger.error('Password change failed', {
+        error: error instanceof Error ? error.message : String(error),
+        userId,
+      });
+      res.status(500).json({
+        error: {
+          code: 'PASSWORD_CHANGE_FAILED',
+          message: 'Failed to change password',
+          category: 'authentication',
+        },
+      });
+    }
+  };
+
+  /**
+   * Sign out: ends the token's login session, or revokes the token itself
+   * if it was issued before session tracking
+   */
+  logout = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Authentication required',
+          category: 'authentication',
+        },
+      });
+      return;
+    }
+
+    try {
+      const sessionId = req.tokenPayload?.sid;
+      if (sessionId && this.sessionService) {
+        await this.sessionService.revokeSession(sessionId, userId);
+      } else {
+        const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+        if (token) {
+          await this.authService.revokeToken(token, 'Logout');
+        }
+      }
+
+      res.json({
+        success: true,
+        message: 'Signed out',
+      });
+    } catch (error) {
+      logger.error('Logout failed', {
+        error: error instanceof Error ? error.message : String(error),
+        userId,
+      });
+      res.status(500).json({
+        error: {
+          code: 'LOGOUT_FAILED',
+          message: 'Failed to sign out',
+          category: 'authentication',
+        },
+      });
+    }
+  };
+
+  /**
+   * Record a login as a session and re-issue its token bound to the
+   * session. Returns null when session tracking is not configured.
+   */
+  private async startSession(
+    req: Request,
+    user: User,
+    loginMethod: LoginMethod,
+    twoFactorVerifiedAt?: number
+  ): Promise<SessionTokens | null> {
+    if (!this.sessionService) {
+      return null;
+    }
+
+    const { session, refreshToken } = await this.sessionService.startSession(
+      user.id,
+      loginMethod,
+      { ipAddress: req.ip, userAgent: req.get('User-Agent') },
+      twoFactorVerifiedAt ? new Date(twoFactorVerifiedAt * 1000) : undefined
+    );
+
+    const token = this.authService.generateToken(
+      loginMethod === 'wallet' ? user : { id: user.id, username: user.username, email: user.email },
+      { sessionId: session.id, twoFactorVerifiedAt }
+    );
+
+    return { token, refreshToken };
+  }
+}
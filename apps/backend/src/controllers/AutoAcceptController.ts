@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { AutoAcceptOutcome } from '@booking-swap/shared';
+import { AutoAcceptService } from '../services/swap/AutoAcceptService';
+import { logger } from '../utils/logger';
+
+const OUTCOMES: AutoAcceptOutcome[] = [
+  'accepted',
+  'would_accept',
+  'skipped',
+  'deferred',
+  'failed',
+];
+
+/**
+ * Controller for the decisions the auto-accept engine made on the current
+ * user's proposals. The criteria themselves are part of the user profile.
+ */
+export class AutoAcceptController {
+  constructor(private autoAcceptService: AutoAcceptService) {}
+
+  /**
+   * GET /api/auto-accept/evaluations?outcome=...&limit=...
+   */
+  listEvaluations = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User authentication required',
+          category: 'authentication',
+        },
+      });
+      return;
+    }
+
+    const outcome = req.query.outcome as AutoAcceptOutcome | undefined;
+    if (outcome && !OUTCOMES.includes(outcome)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `outcome must be one of: ${OUTCOMES.join(', ')}`,
+          category: 'validation',
+        },
+      });
+      return;
+    }
+
+    try {
+      const evaluations = await this.autoAcceptService.listEvaluations(userId, {
+        outcome,
+        limit: parseInt(req.query.limit as string) || undefined,
+      });
+      res.json({ success: true, data: { evaluations } });
+    } catch (error) {
+      logger.error('Failed to list auto-accept evaluations', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list auto-accept decisions',
+          category: 'server_error',
+        },
+      });
+    }
+  };
+}
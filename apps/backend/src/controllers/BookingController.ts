@@ -2,16 +2,119 @@ import { Request, Response } from 'express';
 import { BookingService, CreateBookingRequest } from '../services/booking/BookingService';
 import { BookingSearchCriteria, BookingFilters } from '../database/repositories/BookingRepository';
 import { SwapRepository, SwapFilters } from '../database/repositories/SwapRepository';
-import { BookingType, BookingStatus } from '@booking-swap/shared';
+import {
+  BookingType,
+  BookingStatus,
+  BookingVerificationError,
+  BookingVerificationErrorCodes,
+  DateWindow,
+  MapBounds,
+  MAX_MAP_ZOOM,
+  MIN_MAP_ZOOM,
+} from '@booking-swap/shared';
+import { BookingVerificationService } from '../services/booking/verification/BookingVerificationService';
+import { BOOKING_VERIFICATION_ERROR_STATUS } from './BookingVerificationController';
 import { logger } from '../utils/logger';
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
+function parseNonNegativeInt(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseInt(value as string);
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+/**
+ * Date windows as comma separated start..end pairs,
+ * e.g. windows=2025-07-01..2025-07-31,2025-08-10..2025-08-20
+ */
+function parseDateWindows(value: string): DateWindow[] {
+  return value.split(',').flatMap(pair => {
+    const [start, end] = pair.split('..').map(part => new Date(part.trim()));
+    if (!start || !end || isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return [];
+    }
+    return [{ start, end }];
+  });
+}
+
+/**
+ * Search criteria from the query string shared by the list and map endpoints
+ */
+function parseSearchCriteria(params: Request['query']): BookingSearchCriteria {
+  const {
+    query,
+    city,
+    country,
+    coordinates,
+    radius,
+    checkIn,
+    checkOut,
+    flexible,
+    flexibleDays,
+    windows,
+    minNights,
+    maxNights,
+    minPrice,
+    maxPrice,
+    types,
+  } = params;
+  const searchCriteria: BookingSearchCriteria = {};
+
+  if (query) {
+    searchCriteria.query = query as string;
+  }
+
+  if (city || country || coordinates || radius) {
+    searchCriteria.location = {};
+    if (city) searchCriteria.location.city = city as string;
+    if (country) searchCriteria.location.country = country as string;
+    if (coordinates && radius) {
+      const coords = (coordinates as string).split(',').map(Number);
+      if (coords.length === 2 && !isNaN(coords[0]) && !isNaN(coords[1])) {
+        searchCriteria.location.coordinates = [coords[0], coords[1]];
+        searchCriteria.location.radius = parseFloat(radius as string);
+      }
+    }
+  }
+
+  if (checkIn || checkOut || flexible || flexibleDays || windows || minNights || maxNights) {
+    searchCriteria.dateRange = {};
+    if (checkIn) searchCriteria.dateRange.checkIn = new Date(checkIn as string);
+    if (checkOut) searchCriteria.dateRange.checkOut = new Date(checkOut as string);
+    if (flexible) searchCriteria.dateRange.flexible = flexible === 'true';
+
+    const shiftDays = parseNonNegativeInt(flexibleDays);
+    if (shiftDays !== undefined) searchCriteria.dateRange.flexibleDays = shiftDays;
+    const fewestNights = parseNonNegativeInt(minNights);
+    if (fewestNights !== undefined) searchCriteria.dateRange.minNights = fewestNights;
+    const mostNights = parseNonNegativeInt(maxNights);
+    if (mostNights !== undefined) searchCriteria.dateRange.maxNights = mostNights;
+
+    const dateWindows = windows ? parseDateWindows(windows as string) : [];
+    if (dateWindows.length > 0) searchCriteria.dateRange.windows = dateWindows;
+  }
+
+  if (minPrice || maxPrice) {
+    searchCriteria.priceRange = {};
+    if (minPrice) searchCriteria.priceRange.min = parseFloat(minPrice as string);
+    if (maxPrice) searchCriteria.priceRange.max = parseFloat(maxPrice as string);
+  }
+
+  if (types) {
+    const typeArray = (types as string).split(',') as BookingType[];
+    searchCriteria.types = typeArray;
+  }
+
+  return searchCriteria;
+}
+
 export class BookingController {
   constructor(
     private bookingService: BookingService,
-    private swapRepository?: SwapRepository
+    private swapRepository?: SwapRepository,
+    private verificationService?: BookingVerificationService
   ) { }
 
   /**
@@ -154,6 +257,10 @@ export class BookingController {
         checkIn,
         checkOut,
         flexible,
+        flexibleDays,
+        windows,
+        minNights,
+        maxNights,
         minPrice,
         maxPrice,
         types,
@@ -174,46 +281,11 @@ export class BookingController {
       const parsedOffset = parseInt(offset as string) || 0;
 
       // Determine if this is a search or filter operation
-      const isSearch = query || city || country || coordinates || radius || checkIn || checkOut || minPrice || maxPrice || types;
+      const isSearch = query || city || country || coordinates || radius || checkIn || checkOut || flexibleDays || windows || minNights || maxNights || minPrice || maxPrice || types;
 
       if (isSearch) {
         // Build search criteria
-        const searchCriteria: BookingSearchCriteria = {};
-
-        if (query) {
-          searchCriteria.query = query as string;
-        }
-
-        if (city || country || coordinates || radius) {
-          searchCriteria.location = {};
-          if (city) searchCriteria.location.city = city as string;
-          if (country) searchCriteria.location.country = country as string;
-          if (coordinates && radius) {
-            const coords = (coordinates as string).split(',').map(Number);
-            if (coords.length === 2 && !isNaN(coords[0]) && !isNaN(coords[1])) {
-              searchCriteria.location.coordinates = [coords[0], coords[1]];
-              searchCriteria.location.radius = parseFloat(radius as string);
-            }
-          }
-        }
-
-        if (checkIn || checkOut || flexible) {
-          searchCriteria.dateRange = {};
-          if (checkIn) searchCriteria.dateRange.checkIn = new Date(checkIn as string);
-          if (checkOut) searchCriteria.dateRange.checkOut = new Date(checkOut as string);
-          if (flexible) searchCriteria.dateRange.flexible = flexible === 'true';
-        }
-
-        if (minPrice || maxPrice) {
-          searchCriteria.priceRange = {};
-          if (minPrice) searchCriteria.priceRange.min = parseFloat(minPrice as string);
-          if (maxPrice) searchCriteria.priceRange.max = parseFloat(maxPrice as string);
-        }
-
-        if (types) {
-          const typeArray = (types as string).split(',') as BookingType[];
-          searchCriteria.types = typeArray;
-        }
+        const searchCriteria = parseSearchCriteria(req.query);
 
         const bookings = await this.bookingService.searchBookings(searchCriteria, parsedLimit, parsedOffset);
 
@@ -274,6 +346,74 @@ export class BookingController {
     }
   };
 
+  /**
+   * Get booking clusters inside a map viewport
+   * GET /api/bookings/map?north=&south=&east=&west=&zoom=&swapAvailable=
+   */
+  getBookingMap = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parseNumber = (key: string) => parseFloat(req.query[key] as string);
+      const north = parseNumber('north');
+      const south = parseNumber('south');
+      const east = parseNumber('east');
+      const west = parseNumber('west');
+      const zoom = parseNumber('zoom');
+
+      const validLatitude = (value: number) => !isNaN(value) && value >= -90 && value <= 90;
+      const validLongitude = (value: number) => !isNaN(value) && value >= -180 && value <= 180;
+
+      if (!validLatitude(north) || !validLatitude(south) || north < south || !validLongitude(east) || !validLongitude(west)) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'north, south, east and west must describe a valid map viewport',
+            category: 'validation',
+          },
+        });
+        return;
+      }
+
+      if (isNaN(zoom)) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'zoom is required',
+            category: 'validation',
+          },
+        });
+        return;
+      }
+
+      const bounds: MapBounds = { north, south, east, west };
+      const mapZoom = Math.min(Math.max(Math.round(zoom), MIN_MAP_ZOOM), MAX_MAP_ZOOM);
+
+      const map = await this.bookingService.getMapClusters(
+        bounds,
+        mapZoom,
+        parseSearchCriteria(req.query),
+        {
+          excludeUserId: req.user?.id,
+          swapAvailable: req.query.swapAvailable === 'true',
+        }
+      );
+
+      res.json({
+        success: true,
+        data: map,
+      });
+    } catch (error: any) {
+      logger.error('Failed to get booking map', { error: error.message });
+
+      res.status(500).json({
+        error: {
+          code: 'BOOKING_MAP_FAILED',
+          message: error.message,
+          category: 'business',
+        },
+      });
+    }
+  };
+
   /**
    * Get booking by ID
    * GET /api/bookings/:id
@@ -540,7 +680,8 @@ export class BookingController {
   };
 
   /**
-   * Verify booking with external provider
+   * Verify booking against its uploaded confirmation and the provider.
+   * Without the verification pipeline only the listed details are re-checked.
    * POST /api/bookings/:id/verify
    */
   verifyBooking = async (req: Request, res: Response): Promise<void> => {
@@ -570,6 +711,20 @@ export class BookingController {
         return;
       }
 
+      if (this.verificationService) {
+        const verification = await this.verificationService.verifyBooking(id, userId);
+        const booking = await this.bookingService.getBookingById(id);
+
+        res.json({
+          success: true,
+          data: {
+            booking,
+            verification,
+          },
+        });
+        return;
+      }
+
       const verifiedBooking = await this.bookingService.verifyBooking(id);
 
       res.json({
@@ -579,6 +734,17 @@ export class BookingController {
         },
       });
     } catch (error: any) {
+      if (error instanceof BookingVerificationError) {
+        res.status(BOOKING_VERIFICATION_ERROR_STATUS[error.code]).json({
+          error: {
+            code: error.code,
+            message: error.message,
+            category: error.code === BookingVerificationErrorCodes.DOCUMENT_REQUIRED ? 'validation' : 'business',
+          },
+        });
+        return;
+      }
+
       logger.error('Failed to verify booking', { error: error.message, bookingId: req.params.id, userId: req.user?.id });
 
       const statusCode = error.message.includes('not found') ? 404 : 500;
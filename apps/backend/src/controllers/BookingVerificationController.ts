@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import {
+  BookingVerificationAttemptStatus,
+  BookingVerificationError,
+  BookingVerificationErrorCodes,
+} from '@booking-swap/shared';
+import { BookingVerificationService } from '../services/booking/verification/BookingVerificationService';
+import { logger } from '../utils/logger';
+import { readRawUpload } from '../utils/rawUpload';
+
+export const BOOKING_VERIFICATION_ERROR_STATUS: Record<
+  BookingVerificationErrorCodes,
+  number
+> = {
+  [BookingVerificationErrorCodes.BOOKING_NOT_FOUND]: 404,
+  [BookingVerificationErrorCodes.NOT_BOOKING_OWNER]: 403,
+  [BookingVerificationErrorCodes.ALREADY_VERIFIED]: 409,
+  [BookingVerificationErrorCodes.REVIEW_PENDING]: 409,
+  [BookingVerificationErrorCodes.INVALID_DOCUMENT]: 400,
+  [BookingVerificationErrorCodes.TOO_MANY_DOCUMENTS]: 409,
+  [BookingVerificationErrorCodes.DOCUMENT_NOT_FOUND]: 404,
+  [BookingVerificationErrorCodes.DOCUMENT_REQUIRED]: 400,
+  [BookingVerificationErrorCodes.ATTEMPT_NOT_FOUND]: 404,
+  [BookingVerificationErrorCodes.NOT_AWAITING_REVIEW]: 409,
+  [BookingVerificationErrorCodes.INVALID_REVIEW]: 400,
+};
+
+const VALIDATION_CODES = [
+  BookingVerificationErrorCodes.INVALID_DOCUMENT,
+  BookingVerificationErrorCodes.DOCUMENT_REQUIRED,
+  BookingVerificationErrorCodes.INVALID_REVIEW,
+];
+
+/**
+ * Controller for booking verification documents and the admin review queue.
+ * Verification itself is requested through POST /api/bookings/:id/verify.
+ */
+export class BookingVerificationController {
+  constructor(private verificationService: BookingVerificationService) {}
+
+  /**
+   * GET /api/bookings/:id/verification
+   */
+  getVerification = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const status = await this.verificationService.getVerificationStatus(
+        req.params.id as string,
+        userId
+      );
+      res.json({
+        success: true,
+        data: {
+          status: status.booking.verification.status,
+          latestAttempt: status.latestAttempt,
+          documents: status.documents,
+        },
+      });
+    } catch (error) {
+      this.handleError(error, res, 'getVerification', userId);
+    }
+  };
+
+  /**
+   * POST /api/bookings/:id/verification/documents?fileName=...
+   * The request body is the raw file, typed by its Content-Type header
+   */
+  uploadDocument = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const document = await this.verificationService.uploadDocument(
+        req.params.id as string,
+        userId,
+        readRawUpload(req)
+      );
+      res.status(201).json({ success: true, data: { document } });
+    } catch (error) {
+      this.handleError(error, res, 'uploadDocument', userId);
+    }
+  };
+
+  /**
+   * GET /api/bookings/:id/verification/documents/:documentId
+   */
+  downloadDocument = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { document, data } = await this.verificationService.getDocumentFile(
+        req.params.id as string,
+        req.params.documentId as string,
+        { userId }
+      );
+      this.sendFile(res, document.contentType, document.fileName, data);
+    } catch (error) {
+      this.handleError(error, res, 'downloadDocument', userId);
+    }
+  };
+
+  /**
+   * GET /api/admin/booking-verifications?status=needs_review
+   */
+  listAttempts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const { attempts, total } = await this.verificationService.listAttempts(
+        {
+          status: req.query.status as
+            | BookingVerificationAttemptStatus
+            | undefined,
+          bookingId: req.query.bookingId as string | undefined,
+          userId: req.query.userId as string | undefined,
+        },
+        limit,
+        offset
+      );
+      res.json({ success: true, data: { attempts, total } });
+    } catch (error) {
+      this.handleError(error, res, 'listAttempts', req.admin?.id);
+    }
+  };
+
+  /**
+   * GET /api/admin/booking-verifications/:attemptId
+   */
+  getAttempt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const details = await this.verificationService.getAttemptDetails(
+        req.params.attemptId as string
+      );
+      res.json({ success: true, data: details });
+    } catch (error) {
+      this.handleError(error, res, 'getAttempt', req.admin?.id);
+    }
+  };
+
+  /**
+   * GET /api/admin/booking-verifications/:attemptId/documents/:documentId
+   */
+  downloadAttemptDocument = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { attempt } = await this.verificationService.getAttemptDetails(
+        req.params.attemptId as string
+      );
+      const { document, data } = await this.verificationService.getDocumentFile(
+        attempt.bookingId,
+        req.params.documentId as string,
+        { userId: req.admin!.id, isAdmin: true }
+      );
+      this.sendFile(res, document.contentType, document.fileName, data);
+    } catch (error) {
+      this.handleError(error, res, 'downloadAttemptDocument', req.admin?.id);
+    }
+  };
+
+  /**
+   * PUT /api/admin/booking-verifications/:attemptId/review
+   */
+  reviewAttempt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { approve, notes } = req.body || {};
+      const attempt = await this.verificationService.reviewAttempt(
+        req.params.attemptId as string,
+        req.admin!.id,
+        { approve, notes }
+      );
+      res.json({ success: true, data: { attempt } });
+    } catch (error) {
+      this.handleError(error, res, 'reviewAttempt', req.admin?.id);
+    }
+  };
+
+  private sendFile(
+    res: Response,
+    contentType: string,
+    fileName: string,
+    data: Buffer
+  ): void {
+    res.setHeader('Content-Type', contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${encodeURIComponent(fileName)}"`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(data);
+  }
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof BookingVerificationError) {
+      res.status(BOOKING_VERIFICATION_ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: VALIDATION_CODES.includes(error.code)
+            ? 'validation'
+            : 'business',
+          details: error.details,
+        },
+      });
+      return;
+    }
+
+    logger.error('Booking verification operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Booking verification operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
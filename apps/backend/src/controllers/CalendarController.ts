@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { CalendarError, CalendarErrorCodes } from '@booking-swap/shared';
+import { CalendarService } from '../services/calendar/CalendarService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<CalendarErrorCodes, number> = {
+  [CalendarErrorCodes.CALENDAR_FEED_NOT_FOUND]: 404,
+  [CalendarErrorCodes.CALENDAR_SWAP_NOT_FOUND]: 404,
+};
+
+const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * Controller for the user's calendar subscription URL and the .ics files
+ * served to calendar apps
+ */
+export class CalendarController {
+  constructor(private calendarService: CalendarService) {}
+
+  /**
+   * GET /api/calendar/feed
+   */
+  getFeed = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const feed = await this.calendarService.getFeedStatus(userId);
+      res.json({ success: true, data: { feed } });
+    } catch (error) {
+      this.handleError(error, res, 'getFeed', userId);
+    }
+  };
+
+  /**
+   * POST /api/calendar/feed
+   */
+  createFeed = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const link = await this.calendarService.createFeed(userId);
+      res.status(201).json({ success: true, data: { link } });
+    } catch (error) {
+      this.handleError(error, res, 'createFeed', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/calendar/feed
+   */
+  deleteFeed = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.calendarService.deleteFeed(userId);
+      res.json({ success: true, data: { deleted: true } });
+    } catch (error) {
+      this.handleError(error, res, 'deleteFeed', userId);
+    }
+  };
+
+  /**
+   * GET /api/calendar/feed/:token.ics
+   */
+  serveFeed = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const body = await this.calendarService.renderFeed(
+        req.params.token as string
+      );
+      res
+        .status(200)
+        .type(CALENDAR_CONTENT_TYPE)
+        .set('Content-Disposition', 'inline; filename="booking-swap.ics"')
+        .set('Cache-Control', 'private, no-cache')
+        .send(body);
+    } catch (error) {
+      this.handleError(error, res, 'serveFeed');
+    }
+  };
+
+  /**
+   * GET /api/calendar/swaps/:swapId.ics
+   */
+  downloadSwap = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    const swapId = req.params.swapId as string;
+    try {
+      const body = await this.calendarService.renderSwapCalendar(
+        swapId,
+        userId
+      );
+      res
+        .status(200)
+        .type(CALENDAR_CONTENT_TYPE)
+        .set('Content-Disposition', `attachment; filename="swap-${swapId}.ics"`)
+        .set('Cache-Control', 'private, no-store')
+        .send(body);
+    } catch (error) {
+      this.handleError(error, res, 'downloadSwap', userId);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof CalendarError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('Calendar operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Calendar operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import {
+  CurrencyError,
+  CurrencyErrorCodes,
+  FxRateTable,
+} from '@booking-swap/shared';
+import { CurrencyService } from '../services/currency/CurrencyService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<CurrencyErrorCodes, number> = {
+  [CurrencyErrorCodes.UNSUPPORTED_CURRENCY]: 400,
+  [CurrencyErrorCodes.RATE_UNAVAILABLE]: 503,
+  [CurrencyErrorCodes.RATES_STALE]: 503,
+};
+
+/**
+ * Controller for supported currencies and FX rates
+ */
+export class CurrencyController {
+  constructor(private currencyService: CurrencyService) {}
+
+  /**
+   * GET /api/currencies
+   */
+  getCurrencies = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rates = await this.currencyService.getRates();
+      res.json({
+        success: true,
+        data: {
+          currencies: this.currencyService.getSupportedCurrencies(),
+          rates,
+        },
+      });
+    } catch (error) {
+      this.handleError(error, res, 'getCurrencies');
+    }
+  };
+
+  /**
+   * GET /api/currencies/convert?amount=&from=&to=
+   */
+  convert = async (req: Request, res: Response): Promise<void> => {
+    const amount = parseFloat(req.query.amount as string);
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    if (!Number.isFinite(amount) || !from || !to) {
+      this.sendValidationError(res, 'amount, from and to are required');
+      return;
+    }
+
+    try {
+      const converted = await this.currencyService.convert(amount, from, to);
+      res.json({ success: true, data: { converted } });
+    } catch (error) {
+      this.handleError(error, res, 'convert');
+    }
+  };
+
+  /**
+   * PUT /api/admin/fx-rates
+   */
+  updateRates = async (req: Request, res: Response): Promise<void> => {
+    const { base, rates, asOf, source } = req.body || {};
+    if (!base || !rates || typeof rates !== 'object') {
+      this.sendValidationError(res, 'base and rates are required');
+      return;
+    }
+
+    const invalid = Object.entries(rates).filter(
+      ([, rate]) => typeof rate !== 'number' || !(rate > 0)
+    );
+    if (invalid.length > 0) {
+      this.sendValidationError(
+        res,
+        `Rates must be positive numbers: ${invalid.map(([code]) => code).join(', ')}`
+      );
+      return;
+    }
+
+    const table: FxRateTable = {
+      base: String(base).toUpperCase() as FxRateTable['base'],
+      rates,
+      asOf: asOf ? new Date(asOf) : new Date(),
+      source: source || 'admin',
+    };
+    if (isNaN(table.asOf.getTime())) {
+      this.sendValidationError(res, 'asOf must be a valid date');
+      return;
+    }
+
+    try {
+      await this.currencyService.updateRates(table);
+      logger.info('FX rates updated by admin', {
+        adminId: req.user?.id,
+        base: table.base,
+        currencies: Object.keys(rates),
+      });
+      res.json({
+        success: true,
+        data: { rates: await this.currencyService.getRates() },
+      });
+    } catch (error) {
+      this.handleError(error, res, 'updateRates');
+    }
+  };
+
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message,
+        category: 'validation',
+      },
+    });
+  }
+
+  private handleError(error: unknown, res: Response, operation: string): void {
+    if (error instanceof CurrencyError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === CurrencyErrorCodes.UNSUPPORTED_CURRENCY
+              ? 'validation'
+              : 'server_error',
+        },
+      });
+      return;
+    }
+
+    logger.error('Currency operation failed', {
+      operation,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Currency operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
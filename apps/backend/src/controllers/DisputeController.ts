@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import {
+  DisputeError,
+  DisputeErrorCodes,
+  DisputeStatus,
+} from '@booking-swap/shared';
+import { DisputeService } from '../services/dispute/DisputeService';
+import { logger } from '../utils/logger';
+import { readRawUpload } from '../utils/rawUpload';
+
+const ERROR_STATUS: Record<DisputeErrorCodes, number> = {
+  [DisputeErrorCodes.DISPUTE_NOT_FOUND]: 404,
+  [DisputeErrorCodes.SWAP_NOT_FOUND]: 404,
+  [DisputeErrorCodes.SWAP_NOT_DISPUTABLE]: 409,
+  [DisputeErrorCodes.NOT_SWAP_PARTY]: 403,
+  [DisputeErrorCodes.DISPUTE_ALREADY_OPEN]: 409,
+  [DisputeErrorCodes.INVALID_TRANSITION]: 409,
+  [DisputeErrorCodes.INVALID_DISPUTE]: 400,
+  [DisputeErrorCodes.INVALID_EVIDENCE]: 400,
+  [DisputeErrorCodes.EVIDENCE_NOT_FOUND]: 404,
+  [DisputeErrorCodes.RESOLUTION_FAILED]: 502,
+};
+
+const VALIDATION_CODES = [
+  DisputeErrorCodes.INVALID_DISPUTE,
+  DisputeErrorCodes.INVALID_EVIDENCE,
+];
+
+/**
+ * Controller for disputes raised by swap parties
+ */
+export class DisputeController {
+  constructor(private disputeService: DisputeService) {}
+
+  /**
+   * POST /api/disputes
+   */
+  openDispute = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { swapId, type, description, priority } = req.body || {};
+      const dispute = await this.disputeService.openDispute(userId, {
+        swapId,
+        type,
+        description,
+        priority,
+      });
+      res.status(201).json({ success: true, data: { dispute } });
+    } catch (error) {
+      this.handleError(error, res, 'openDispute', userId);
+    }
+  };
+
+  /**
+   * GET /api/disputes
+   */
+  listDisputes = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const { disputes, total } = await this.disputeService.listDisputesForUser(
+        userId,
+        { status: req.query.status as DisputeStatus | undefined },
+        limit,
+        offset
+      );
+      res.json({ success: true, data: { disputes, total } });
+    } catch (error) {
+      this.handleError(error, res, 'listDisputes', userId);
+    }
+  };
+
+  /**
+   * GET /api/disputes/:id
+   */
+  getDispute = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const details = await this.disputeService.getDisputeDetails(
+        req.params.id as string,
+        { userId }
+      );
+      res.json({ success: true, data: details });
+    } catch (error) {
+      this.handleError(error, res, 'getDispute', userId);
+    }
+  };
+
+  /**
+   * POST /api/disputes/:id/evidence?fileName=...&description=...
+   * The request body is the raw file, typed by its Content-Type header
+   */
+  uploadEvidence = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const evidence = await this.disputeService.addEvidence(
+        req.params.id as string,
+        { userId },
+        {
+          ...readRawUpload(req),
+          description: req.query.description as string | undefined,
+        }
+      );
+      res.status(201).json({ success: true, data: { evidence } });
+    } catch (error) {
+      this.handleError(error, res, 'uploadEvidence', userId);
+    }
+  };
+
+  /**
+   * GET /api/disputes/:id/evidence/:evidenceId
+   */
+  downloadEvidence = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { evidence, data } = await this.disputeService.getEvidenceFile(
+        req.params.id as string,
+        req.params.evidenceId as string,
+        { userId }
+      );
+      res.setHeader('Content-Type', evidence.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${encodeURIComponent(evidence.fileName)}"`
+      );
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.send(data);
+    } catch (error) {
+      this.handleError(error, res, 'downloadEvidence', userId);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof DisputeError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: VALIDATION_CODES.includes(error.code)
+            ? 'validation'
+            : 'business',
+          details: error.details,
+        },
+      });
+      return;
+    }
+
+    logger.error('Dispute operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Dispute operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
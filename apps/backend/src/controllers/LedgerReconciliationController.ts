@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import {
+  LEDGER_SOURCES,
+  LedgerReconciliationService,
+} from '../services/reconciliation/LedgerReconciliationService';
+import { LedgerSource } from '../database/repositories/LedgerReconciliationRepository';
+import { logger } from '../utils/logger';
+
+/**
+ * Admin endpoints to run ledger reconciliation and read its reports
+ */
+export class LedgerReconciliationController {
+  constructor(
+    private ledgerReconciliationService: LedgerReconciliationService
+  ) {}
+
+  async getReports(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const { reports, total } =
+        await this.ledgerReconciliationService.listReports(limit, offset);
+
+      res.json({
+        success: true,
+        data: {
+          reports,
+          pagination: { limit, offset, total },
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching ledger reconciliation reports', { error });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch ledger reconciliation reports',
+      });
+    }
+  }
+
+  async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { reportId } = req.params as { reportId: string };
+      const report = await this.ledgerReconciliationService.getReport(reportId);
+
+      res.json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.handleError(
+        res,
+        error,
+        'Failed to fetch ledger reconciliation report'
+      );
+    }
+  }
+
+  /**
+   * Queue a run; `sources` limits it to some of bookings, swaps, payments
+   * and targeting
+   */
+  async requestReport(req: Request, res: Response): Promise<void> {
+    try {
+      const sources: string[] | undefined = req.body?.sources;
+      if (
+        sources !== undefined &&
+        (!Array.isArray(sources) ||
+          sources.length === 0 ||
+          sources.some(
+            source => !LEDGER_SOURCES.includes(source as LedgerSource)
+          ))
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid sources. Must be a list of: ${LEDGER_SOURCES.join(', ')}`,
+        });
+        return;
+      }
+
+      const report = await this.ledgerReconciliationService.requestReport(
+        req.admin?.id,
+        sources as LedgerSource[] | undefined
+      );
+
+      res.status(202).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to start ledger reconciliation');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+
+    if (message.includes('not found')) {
+      res.status(404).json({ success: false, error: message });
+      return;
+    }
+
+    logger.error(fallback, { error });
+    res.status(500).json({
+      success: false,
+      error: fallback,
+    });
+  }
+}
@@ -0,0 +1,294 @@
+import { Request, Response } from 'express';
+import { MessagingError, MessagingErrorCodes } from '@booking-swap/shared';
+import { MessagingService } from '../services/messaging/MessagingService';
+import { logger } from '../utils/logger';
+import { readRawUpload } from '../utils/rawUpload';
+
+const ERROR_STATUS: Record<MessagingErrorCodes, number> = {
+  [MessagingErrorCodes.CONVERSATION_NOT_FOUND]: 404,
+  [MessagingErrorCodes.SWAP_NOT_FOUND]: 404,
+  [MessagingErrorCodes.PROPOSAL_NOT_FOUND]: 404,
+  [MessagingErrorCodes.NOT_PARTICIPANT]: 403,
+  [MessagingErrorCodes.CANNOT_MESSAGE_SELF]: 409,
+  [MessagingErrorCodes.INVALID_CONVERSATION]: 400,
+  [MessagingErrorCodes.INVALID_MESSAGE]: 400,
+  [MessagingErrorCodes.INVALID_ATTACHMENT]: 400,
+  [MessagingErrorCodes.ATTACHMENT_NOT_FOUND]: 404,
+  [MessagingErrorCodes.DISPUTE_NOT_FOUND]: 404,
+};
+
+const VALIDATION_CODES = [
+  MessagingErrorCodes.INVALID_CONVERSATION,
+  MessagingErrorCodes.INVALID_MESSAGE,
+  MessagingErrorCodes.INVALID_ATTACHMENT,
+];
+
+/**
+ * Controller for direct messages between swap counterparties and the
+ * moderation view support staff use for disputes
+ */
+export class MessagingController {
+  constructor(private messagingService: MessagingService) {}
+
+  /**
+   * GET /api/conversations?swapId=...&proposalId=...
+   */
+  listConversations = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const conversations = await this.messagingService.listConversations(
+        userId,
+        {
+          swapId: req.query.swapId as string | undefined,
+          proposalId: req.query.proposalId as string | undefined,
+        }
+      );
+      res.json({ success: true, data: { conversations } });
+    } catch (error) {
+      this.handleError(error, res, 'listConversations', userId);
+    }
+  };
+
+  /**
+   * POST /api/conversations
+   */
+  openConversation = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { swapId, proposalId } = req.body || {};
+      const conversation = await this.messagingService.openConversation(
+        userId,
+        { swapId, proposalId }
+      );
+      res.json({ success: true, data: { conversation } });
+    } catch (error) {
+      this.handleError(error, res, 'openConversation', userId);
+    }
+  };
+
+  /**
+   * GET /api/conversations/:id?before=...&limit=...
+   */
+  getConversation = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const before = req.query.before
+        ? new Date(req.query.before as string)
+        : undefined;
+      const details = await this.messagingService.getConversation(
+        req.params.id as string,
+        userId,
+        {
+          limit: parseInt(req.query.limit as string) || undefined,
+          before: before && !isNaN(before.getTime()) ? before : undefined,
+        }
+      );
+      res.json({ success: true, data: details });
+    } catch (error) {
+      this.handleError(error, res, 'getConversation', userId);
+    }
+  };
+
+  /**
+   * POST /api/conversations/:id/messages
+   */
+  sendMessage = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const message = await this.messagingService.sendMessage(
+        req.params.id as string,
+        userId,
+        req.body?.body
+      );
+      res.status(201).json({ success: true, data: { message } });
+    } catch (error) {
+      this.handleError(error, res, 'sendMessage', userId);
+    }
+  };
+
+  /**
+   * POST /api/conversations/:id/attachments?fileName=...&caption=...
+   * The request body is the raw file, typed by its Content-Type header
+   */
+  sendAttachment = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const message = await this.messagingService.sendAttachment(
+        req.params.id as string,
+        userId,
+        {
+          ...readRawUpload(req),
+          caption: req.query.caption as string | undefined,
+        }
+      );
+      res.status(201).json({ success: true, data: { message } });
+    } catch (error) {
+      this.handleError(error, res, 'sendAttachment', userId);
+    }
+  };
+
+  /**
+   * POST /api/conversations/:id/read
+   */
+  markRead = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const receipt = await this.messagingService.markRead(
+        req.params.id as string,
+        userId
+      );
+      res.json({ success: true, data: { receipt } });
+    } catch (error) {
+      this.handleError(error, res, 'markRead', userId);
+    }
+  };
+
+  /**
+   * GET /api/conversations/:id/messages/:messageId/attachment
+   */
+  downloadAttachment = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const file = await this.messagingService.getAttachmentFile(
+        req.params.id as string,
+        req.params.messageId as string,
+        { userId }
+      );
+      this.sendFile(res, file);
+    } catch (error) {
+      this.handleError(error, res, 'downloadAttachment', userId);
+    }
+  };
+
+  /**
+   * GET /api/admin/disputes/:disputeId/conversations
+   */
+  getDisputeConversations = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const conversations = await this.messagingService.getDisputeConversations(
+        req.params.disputeId as string,
+        req.admin!.id
+      );
+      res.json({ success: true, data: { conversations } });
+    } catch (error) {
+      this.handleError(error, res, 'getDisputeConversations', req.admin?.id);
+    }
+  };
+
+  /**
+   * GET /api/admin/conversations/:conversationId/messages/:messageId/attachment
+   */
+  downloadAttachmentAsAdmin = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const file = await this.messagingService.getAttachmentFile(
+        req.params.conversationId as string,
+        req.params.messageId as string,
+        { userId: req.admin!.id, isAdmin: true }
+      );
+      this.sendFile(res, file);
+    } catch (error) {
+      this.handleError(error, res, 'downloadAttachmentAsAdmin', req.admin?.id);
+    }
+  };
+
+  private sendFile(
+    res: Response,
+    file: { fileName: string; contentType: string; data: Buffer }
+  ): void {
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${encodeURIComponent(file.fileName)}"`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(file.data);
+  }
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof MessagingError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: VALIDATION_CODES.includes(error.code)
+            ? 'validation'
+            : 'business',
+          details: error.details,
+        },
+      });
+      return;
+    }
+
+    logger.error('Messaging operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Messaging operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { Request, Response } from 'express';
+import { OutboxService } from '../services/outbox/OutboxService';
+import {
+  OutboxDestination,
+  OutboxEventFilters,
+  OutboxEventStatus,
+} from '../database/repositories/OutboxRepository';
+import { logger } from '../utils/logger';
+
+const EVENT_STATUSES: OutboxEventStatus[] = [
+  'pending',
+  'processing',
+  'delivered',
+  'skipped',
+  'dead',
+  'discarded',
+];
+
+const DESTINATIONS: OutboxDestination[] = [
+  'hedera',
+  'email',
+  'sms',
+  'websocket',
+  'push',
+];
+
+/**
+ * Admin endpoints to inspect the outbox and retry or discard dead letters
+ */
+export class OutboxController {
+  constructor(private outboxService: OutboxService) {}
+
+  async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !EVENT_STATUSES.includes(status as OutboxEventStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${EVENT_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const destination = req.query.destination as string | undefined;
+      if (
+        destination &&
+        !DESTINATIONS.includes(destination as OutboxDestination)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid destination. Must be one of: ${DESTINATIONS.join(', ')}`,
+        });
+        return;
+      }
+
+      const filters: OutboxEventFilters = {
+        status: status as OutboxEventStatus | undefined,
+        destination: destination as OutboxDestination | undefined,
+        eventType: req.query.eventType as string | undefined,
+        aggregateId: req.query.aggregateId as string | undefined,
+      };
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const [{ events, total }, counts] = await Promise.all([
+        this.outboxService.listEvents(filters, limit, offset),
+        this.outboxService.getQueueCounts(),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          events,
+          counts,
+          pagination: { limit, offset, total },
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching outbox events', { error });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch outbox events',
+      });
+    }
+  }
+
+  async getEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params as { eventId: string };
+      const event = await this.outboxService.getEvent(eventId);
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch outbox event');
+    }
+  }
+
+  async retryEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params as { eventId: string };
+      const event = await this.outboxService.retryEvent(eventId);
+
+      logger.info('Outbox event requeued by admin', {
+        eventId,
+        adminId: req.admin?.id,
+      });
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to retry outbox event');
+    }
+  }
+
+  async discardEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params as { eventId: string };
+      const event = await this.outboxService.discardEvent(eventId);
+
+      logger.info('Outbox event discarded by admin', {
+        eventId,
+        adminId: req.admin?.id,
+      });
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to discard outbox event');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+
+    if (message.includes('not found')) {
+      res.status(404).json({ success: false, error: message });
+      return;
+    }
+    if (message.startsWith('Invalid event status')) {
+      res.status(409).json({ success: false, error: message });
+      return;
+    }
+
+    logger.error(fallback, { error });
+    res.status(500).json({
+      success: false,
+      error: fallback,
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { PaymentWebhookService } from '../services/payment/PaymentWebhookService';
+import { PaymentGatewayError } from '../services/payment/gateway';
+import { logger } from '../utils/logger';
+
+// Raw request body kept by the JSON parser for webhook signature checks
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Controller for inbound payment gateway webhooks
+ */
+export class PaymentWebhookController {
+  constructor(private paymentWebhookService: PaymentWebhookService) {}
+
+  /**
+   * POST /api/payments/webhooks
+   */
+  handleWebhook = async (req: Request, res: Response): Promise<void> => {
+    const signature = req.get(this.paymentWebhookService.signatureHeader);
+    if (!req.rawBody || !signature) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_WEBHOOK',
+          message: 'Missing webhook body or signature',
+          category: 'validation',
+        },
+      });
+      return;
+    }
+
+    try {
+      const result = await this.paymentWebhookService.handleWebhook(
+        req.rawBody.toString('utf8'),
+        signature
+      );
+      res.json({ success: true, data: { received: true, ...result } });
+    } catch (error) {
+      if (
+        error instanceof PaymentGatewayError &&
+        error.code === 'INVALID_SIGNATURE'
+      ) {
+        logger.warn('Rejected payment webhook with invalid signature', {
+          reason: error.message,
+          ip: req.ip,
+        });
+        res.status(400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            category: 'authentication',
+          },
+        });
+        return;
+      }
+
+      logger.error('Payment webhook processing failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      // A 5xx makes the gateway redeliver the event later
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Payment webhook processing failed',
+          category: 'server_error',
+        },
+      });
+    }
+  };
+}
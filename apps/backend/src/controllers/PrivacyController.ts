@@ -0,0 +1,191 @@
+import { Request, Response } from 'express';
+import { PrivacyError, PrivacyErrorCodes } from '@booking-swap/shared';
+import { PrivacyService } from '../services/privacy/PrivacyService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<PrivacyErrorCodes, number> = {
+  [PrivacyErrorCodes.DATA_EXPORT_NOT_FOUND]: 404,
+  [PrivacyErrorCodes.DATA_EXPORT_NOT_READY]: 409,
+  [PrivacyErrorCodes.DATA_EXPORT_EXPIRED]: 410,
+  [PrivacyErrorCodes.ACCOUNT_DELETION_BLOCKED]: 409,
+  [PrivacyErrorCodes.ACCOUNT_DELETION_CONFIRMATION_REQUIRED]: 400,
+  [PrivacyErrorCodes.ACCOUNT_ALREADY_DELETED]: 409,
+};
+
+const VALIDATION_CODES: PrivacyErrorCodes[] = [
+  PrivacyErrorCodes.ACCOUNT_DELETION_CONFIRMATION_REQUIRED,
+];
+
+/**
+ * Controller for personal data exports and account deletion
+ */
+export class PrivacyController {
+  constructor(private privacyService: PrivacyService) {}
+
+  /**
+   * POST /api/privacy/exports
+   */
+  requestExport = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const dataExport = await this.privacyService.requestExport(userId);
+      res.status(202).json({ success: true, data: { export: dataExport } });
+    } catch (error) {
+      this.handleError(error, res, 'requestExport', userId);
+    }
+  };
+
+  /**
+   * GET /api/privacy/exports
+   */
+  listExports = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const exports = await this.privacyService.listExports(userId);
+      res.json({ success: true, data: { exports } });
+    } catch (error) {
+      this.handleError(error, res, 'listExports', userId);
+    }
+  };
+
+  /**
+   * GET /api/privacy/exports/:id
+   */
+  getExport = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const dataExport = await this.privacyService.getExport(
+        userId,
+        req.params.id as string
+      );
+      res.json({ success: true, data: { export: dataExport } });
+    } catch (error) {
+      this.handleError(error, res, 'getExport', userId);
+    }
+  };
+
+  /**
+   * GET /api/privacy/exports/:id/download
+   */
+  downloadExport = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { fileName, data } = await this.privacyService.downloadExport(
+        userId,
+        req.params.id as string
+      );
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName}"`
+      );
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(data);
+    } catch (error) {
+      this.handleError(error, res, 'downloadExport', userId);
+    }
+  };
+
+  /**
+   * GET /api/privacy/account/deletion
+   */
+  checkAccountDeletion = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const check = await this.privacyService.checkAccountDeletion(userId);
+      res.json({ success: true, data: check });
+    } catch (error) {
+      this.handleError(error, res, 'checkAccountDeletion', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/privacy/account
+   */
+  deleteAccount = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.privacyService.deleteAccount(userId, req.body?.confirmation);
+      res.json({ success: true, data: { deleted: true } });
+    } catch (error) {
+      this.handleError(error, res, 'deleteAccount', userId);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof PrivacyError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: VALIDATION_CODES.includes(error.code)
+            ? 'validation'
+            : 'business',
+          details: error.details,
+        },
+      });
+      return;
+    }
+
+    logger.error('Privacy operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Privacy operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
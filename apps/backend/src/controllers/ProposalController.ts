@@ -3,6 +3,7 @@ import { ProposalAcceptanceService, ProposalAcceptanceRequest } from '../service
 import { SwapRepository } from '../database/repositories/SwapRepository';
 import { SwapCompletionOrchestrator } from '../services/swap/SwapCompletionOrchestrator';
 import { CompletionValidationService } from '../services/swap/CompletionValidationService';
+import { ProposalNegotiationService } from '../services/swap/ProposalNegotiationService';
 import { logger } from '../utils/logger';
 import { handleSwapError, generateRequestId, SWAP_ERROR_CODES } from '../utils/swap-error-handler';
 
@@ -11,7 +12,8 @@ export class ProposalController {
         private proposalAcceptanceService: ProposalAcceptanceService,
         private swapRepository: SwapRepository,
         private completionOrchestrator?: SwapCompletionOrchestrator,
-        private completionValidationService?: CompletionValidationService
+        private completionValidationService?: CompletionValidationService,
+        private negotiationService?: ProposalNegotiationService
     ) { }
 
     /**
@@ -1147,4 +1149,147 @@ export class ProposalController {
             });
         }
     };
-}
\ No newline at end of file
+
+    /**
+     * Get the counter-offer history of a proposal
+     * GET /api/proposals/:proposalId/negotiation
+     */
+    getNegotiation = async (req: Request, res: Response): Promise<void> => {
+        const requestId = generateRequestId('get-negotiation');
+
+        try {
+            const userId = req.user?.id;
+            if (!userId) {
+                throw new Error('User authentication required');
+            }
+
+            const { proposalId } = req.params as { proposalId: string };
+            const thread = await this.getNegotiationService().getNegotiationThread(proposalId, userId);
+
+            res.status(200).json({
+                success: true,
+                data: { negotiation: thread },
+                requestId,
+                timestamp: new Date().toISOString()
+            });
+
+        } catch (error: any) {
+            handleSwapError(error, res, {
+                operation: 'getNegotiation',
+                userId: req.user?.id,
+                requestId,
+                requestData: { proposalId: req.params.proposalId }
+            });
+        }
+    };
+
+    /**
+     * Send a counter-offer with amended terms
+     * POST /api/proposals/:proposalId/counter
+     */
+    counterProposal = async (req: Request, res: Response): Promise<void> => {
+        const requestId = generateRequestId('counter-proposal');
+
+        try {
+            const userId = req.user?.id;
+            if (!userId) {
+                throw new Error('User authentication required');
+            }
+
+            const { proposalId } = req.params as { proposalId: string };
+            const { additionalPayment, conditions, expiresAt, cashOffer, message } = req.body;
+
+            logger.info('Processing counter-offer', {
+                requestId,
+                userId,
+                proposalId
+            });
+
+            const version = await this.getNegotiationService().counterOffer(proposalId, userId, {
+                additionalPayment,
+                conditions,
+                expiresAt,
+                cashOffer,
+                message
+            });
+
+            res.status(201).json({
+                success: true,
+                data: { version },
+                requestId,
+                timestamp: new Date().toISOString()
+            });
+
+        } catch (error: any) {
+            handleSwapError(error, res, {
+                operation: 'counterProposal',
+                userId: req.user?.id,
+                requestId,
+                requestData: { proposalId: req.params.proposalId }
+            });
+        }
+    };
+
+    /**
+     * Accept or reject a counter-offer
+     * POST /api/proposals/:proposalId/counter/:versionId/respond
+     */
+    respondToCounterOffer = async (req: Request, res: Response): Promise<void> => {
+        const requestId = generateRequestId('respond-counter-offer');
+
+        try {
+            const userId = req.user?.id;
+            if (!userId) {
+                throw new Error('User authentication required');
+            }
+
+            const { proposalId, versionId } = req.params as { proposalId: string; versionId: string };
+            const { action, reason } = req.body;
+
+            logger.info('Processing counter-offer response', {
+                requestId,
+                userId,
+                proposalId,
+                versionId,
+                action
+            });
+
+            const result = await this.getNegotiationService().respondToCounterOffer(
+                proposalId,
+                versionId,
+                userId,
+                { action, reason }
+            );
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    version: result.version,
+                    proposal: result.acceptance?.proposal,
+                    blockchain: result.acceptance?.blockchainTransaction
+                },
+                requestId,
+                timestamp: new Date().toISOString()
+            });
+
+        } catch (error: any) {
+            handleSwapError(error, res, {
+                operation: 'respondToCounterOffer',
+                userId: req.user?.id,
+                requestId,
+                requestData: {
+                    proposalId: req.params.proposalId,
+                    versionId: req.params.versionId,
+                    action: req.body?.action
+                }
+            });
+        }
+    };
+
+    private getNegotiationService(): ProposalNegotiationService {
+        if (!this.negotiationService) {
+            throw new Error('Proposal negotiation service unavailable');
+        }
+        return this.negotiationService;
+    }
+}
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { PushError, PushErrorCodes } from '@booking-swap/shared';
+import { PushService } from '../services/push/PushService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<PushErrorCodes, number> = {
+  [PushErrorCodes.PUSH_NOT_CONFIGURED]: 503,
+  [PushErrorCodes.INVALID_SUBSCRIPTION]: 400,
+  [PushErrorCodes.SUBSCRIPTION_NOT_FOUND]: 404,
+  [PushErrorCodes.INVALID_NOTIFICATION_TYPE]: 400,
+};
+
+const VALIDATION_CODES: PushErrorCodes[] = [
+  PushErrorCodes.INVALID_SUBSCRIPTION,
+  PushErrorCodes.INVALID_NOTIFICATION_TYPE,
+];
+
+/**
+ * Controller for Web Push subscriptions and push preferences
+ */
+export class PushController {
+  constructor(private pushService: PushService) {}
+
+  /**
+   * GET /api/push/vapid-public-key
+   */
+  getPublicKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json({
+        success: true,
+        data: { publicKey: this.pushService.getPublicKey() },
+      });
+    } catch (error) {
+      this.handleError(error, res, 'getPublicKey', req.user?.id);
+    }
+  };
+
+  /**
+   * POST /api/push/subscriptions
+   */
+  subscribe = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const subscription = await this.pushService.subscribe(
+        userId,
+        req.body,
+        req.get('user-agent')
+      );
+      res.status(201).json({ success: true, data: { subscription } });
+    } catch (error) {
+      this.handleError(error, res, 'subscribe', userId);
+    }
+  };
+
+  /**
+   * GET /api/push/subscriptions
+   */
+  listSubscriptions = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const subscriptions = await this.pushService.listSubscriptions(userId);
+      res.json({ success: true, data: { subscriptions } });
+    } catch (error) {
+      this.handleError(error, res, 'listSubscriptions', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/push/subscriptions
+   */
+  unsubscribeEndpoint = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    const endpoint = req.body?.endpoint;
+    if (typeof endpoint !== 'string' || !endpoint) {
+      this.handleError(
+        new PushError(
+          PushErrorCodes.INVALID_SUBSCRIPTION,
+          'endpoint is required'
+        ),
+        res,
+        'unsubscribeEndpoint',
+        userId
+      );
+      return;
+    }
+
+    try {
+      await this.pushService.unsubscribeEndpoint(userId, endpoint);
+      res.json({ success: true, data: { unsubscribed: true } });
+    } catch (error) {
+      this.handleError(error, res, 'unsubscribeEndpoint', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/push/subscriptions/:id
+   */
+  unsubscribe = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.pushService.unsubscribe(userId, req.params.id as string);
+      res.json({ success: true, data: { unsubscribed: true } });
+    } catch (error) {
+      this.handleError(error, res, 'unsubscribe', userId);
+    }
+  };
+
+  /**
+   * GET /api/push/preferences
+   */
+  getPreferences = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const preferences = await this.pushService.getPreferences(userId);
+      res.json({ success: true, data: { preferences } });
+    } catch (error) {
+      this.handleError(error, res, 'getPreferences', userId);
+    }
+  };
+
+  /**
+   * PUT /api/push/preferences
+   */
+  updatePreferences = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { push, pushTypes } = req.body || {};
+      const preferences = await this.pushService.updatePreferences(userId, {
+        push: typeof push === 'boolean' ? push : undefined,
+        pushTypes,
+      });
+      res.json({ success: true, data: { preferences } });
+    } catch (error) {
+      this.handleError(error, res, 'updatePreferences', userId);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof PushError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: VALIDATION_CODES.includes(error.code)
+            ? 'validation'
+            : 'business',
+          details: error.details,
+        },
+      });
+      return;
+    }
+
+    logger.error('Push operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Push operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
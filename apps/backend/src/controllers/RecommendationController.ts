@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { SwapRecommendationService } from '../services/recommendation/SwapRecommendationService';
+import { logger } from '../utils/logger';
+
+/**
+ * Controller for the current user's "For you" swap recommendations
+ */
+export class RecommendationController {
+  constructor(private recommendationService: SwapRecommendationService) {}
+
+  /**
+   * GET /api/swaps/recommendations
+   */
+  getRecommendations = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    const limit =
+      req.query.limit !== undefined
+        ? parseInt(String(req.query.limit))
+        : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'limit must be a positive number',
+          category: 'validation',
+        },
+      });
+      return;
+    }
+
+    try {
+      const feed = await this.recommendationService.getRecommendations(userId, {
+        limit,
+        refresh: req.query.refresh === 'true',
+      });
+      res.json({ success: true, data: feed });
+    } catch (error) {
+      logger.error('Failed to get swap recommendations', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'RECOMMENDATIONS_FAILED',
+          message: 'Failed to get swap recommendations',
+          category: 'server_error',
+        },
+      });
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+}
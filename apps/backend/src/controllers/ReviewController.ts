@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { ReviewError, ReviewErrorCodes } from '@booking-swap/shared';
+import { ReviewService } from '../services/review/ReviewService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<ReviewErrorCodes, number> = {
+  [ReviewErrorCodes.SWAP_NOT_FOUND]: 404,
+  [ReviewErrorCodes.NOT_SWAP_PARTY]: 403,
+  [ReviewErrorCodes.SWAP_NOT_COMPLETED]: 409,
+  [ReviewErrorCodes.ALREADY_REVIEWED]: 409,
+  [ReviewErrorCodes.REVIEW_WINDOW_CLOSED]: 410,
+  [ReviewErrorCodes.INVALID_REVIEW]: 400,
+};
+
+/**
+ * Controller for swap reviews and user reputation
+ */
+export class ReviewController {
+  constructor(private reviewService: ReviewService) {}
+
+  /**
+   * POST /api/swaps/:id/reviews
+   */
+  submitReview = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const result = await this.reviewService.submitReview(
+        req.params.id as string,
+        userId,
+        {
+          rating: req.body?.rating,
+          comment: req.body?.comment,
+        }
+      );
+      res.status(201).json({ success: true, data: result });
+    } catch (error) {
+      this.handleError(error, res, 'submitReview', userId);
+    }
+  };
+
+  /**
+   * GET /api/users/:id/reviews
+   */
+  getUserReviews = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const result = await this.reviewService.getUserReviews(
+        req.params.id as string,
+        limit,
+        offset
+      );
+      res.json({
+        success: true,
+        data: {
+          ...result,
+          pagination: {
+            limit,
+            offset,
+            total: result.total,
+            hasMore: offset + result.reviews.length < result.total,
+          },
+        },
+      });
+    } catch (error) {
+      this.handleError(error, res, 'getUserReviews', req.user?.id);
+    }
+  };
+
+  /**
+   * GET /api/users/:id/reputation
+   */
+  getUserReputation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const reputation = await this.reviewService.getUserReputation(
+        req.params.id as string
+      );
+      res.json({ success: true, data: { reputation } });
+    } catch (error) {
+      this.handleError(error, res, 'getUserReputation', req.user?.id);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof ReviewError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === ReviewErrorCodes.INVALID_REVIEW
+              ? 'validation'
+              : 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('Review operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Review operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import {
+  CreateSavedSearchRequest,
+  SavedSearchError,
+  SavedSearchErrorCodes,
+} from '@booking-swap/shared';
+import { SavedSearchService } from '../services/savedSearch/SavedSearchService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<SavedSearchErrorCodes, number> = {
+  [SavedSearchErrorCodes.SAVED_SEARCH_NOT_FOUND]: 404,
+  [SavedSearchErrorCodes.SAVED_SEARCH_LIMIT_REACHED]: 409,
+  [SavedSearchErrorCodes.INVALID_SAVED_SEARCH]: 400,
+};
+
+/**
+ * Controller for the current user's saved searches
+ */
+export class SavedSearchController {
+  constructor(private savedSearchService: SavedSearchService) {}
+
+  /**
+   * GET /api/saved-searches
+   */
+  listSavedSearches = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const savedSearches =
+        await this.savedSearchService.listSavedSearches(userId);
+      res.json({ success: true, data: { savedSearches } });
+    } catch (error) {
+      this.handleError(error, res, 'listSavedSearches', userId);
+    }
+  };
+
+  /**
+   * POST /api/saved-searches
+   */
+  createSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const savedSearch = await this.savedSearchService.createSavedSearch(
+        userId,
+        this.readRequest(req)
+      );
+      res.status(201).json({ success: true, data: { savedSearch } });
+    } catch (error) {
+      this.handleError(error, res, 'createSavedSearch', userId);
+    }
+  };
+
+  /**
+   * PATCH /api/saved-searches/:id
+   */
+  updateSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const savedSearch = await this.savedSearchService.updateSavedSearch(
+        req.params.id as string,
+        userId,
+        this.readRequest(req)
+      );
+      res.json({ success: true, data: { savedSearch } });
+    } catch (error) {
+      this.handleError(error, res, 'updateSavedSearch', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/saved-searches/:id
+   */
+  deleteSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.savedSearchService.deleteSavedSearch(
+        req.params.id as string,
+        userId
+      );
+      res.json({ success: true, data: { deleted: true } });
+    } catch (error) {
+      this.handleError(error, res, 'deleteSavedSearch', userId);
+    }
+  };
+
+  private readRequest(req: Request): CreateSavedSearchRequest {
+    const { name, filters, alertFrequency, channels } = req.body || {};
+    return { name, filters, alertFrequency, channels };
+  }
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof SavedSearchError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === SavedSearchErrorCodes.INVALID_SAVED_SEARCH
+              ? 'validation'
+              : 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('Saved search operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Saved search operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { JobScheduler } from '../services/scheduler/JobScheduler';
+import {
+  ScheduledJobFilters,
+  ScheduledJobStatus,
+} from '../database/repositories/ScheduledJobRepository';
+import { logger } from '../utils/logger';
+
+const JOB_STATUSES: ScheduledJobStatus[] = [
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * Admin endpoints to inspect, cancel and retry scheduled jobs
+ */
+export class ScheduledJobController {
+  constructor(private jobScheduler: JobScheduler) {}
+
+  async getJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !JOB_STATUSES.includes(status as ScheduledJobStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `Invalid status. Must be one of: ${JOB_STATUSES.join(', ')}`,
+        });
+        return;
+      }
+
+      const filters: ScheduledJobFilters = {
+        status: status as ScheduledJobStatus | undefined,
+        type: req.query.type as string | undefined,
+      };
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const [{ jobs, total }, counts] = await Promise.all([
+        this.jobScheduler.listJobs(filters, limit, offset),
+        this.jobScheduler.getQueueCounts(),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          jobs,
+          counts,
+          scheduler: this.jobScheduler.getStatus(),
+          pagination: { limit, offset, total },
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching scheduled jobs', { error });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch scheduled jobs',
+      });
+    }
+  }
+
+  async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobId } = req.params as { jobId: string };
+      const job = await this.jobScheduler.getJob(jobId);
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to fetch scheduled job');
+    }
+  }
+
+  async cancelJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobId } = req.params as { jobId: string };
+      const job = await this.jobScheduler.cancelJob(jobId);
+
+      logger.info('Scheduled job cancelled by admin', {
+        jobId,
+        adminId: req.admin?.id,
+      });
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to cancel scheduled job');
+    }
+  }
+
+  async retryJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobId } = req.params as { jobId: string };
+      const job = await this.jobScheduler.retryJob(jobId);
+
+      logger.info('Scheduled job requeued by admin', {
+        jobId,
+        adminId: req.admin?.id,
+      });
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to retry scheduled job');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+
+    if (message.includes('not found')) {
+      res.status(404).json({ success: false, error: message });
+      return;
+    }
+    if (message.startsWith('Invalid job status')) {
+      res.status(409).json({ success: false, error: message });
+      return;
+    }
+
+    logger.error(fallback, { error });
+    res.status(500).json({
+      success: false,
+      error: fallback,
+    });
+  }
+}
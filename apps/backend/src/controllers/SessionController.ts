@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { SessionError, SessionErrorCodes } from '@booking-swap/shared';
+import { SessionService } from '../services/auth/SessionService';
+import { AuthService } from '../services/auth/AuthService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<SessionErrorCodes, number> = {
+  [SessionErrorCodes.SESSION_NOT_FOUND]: 404,
+  [SessionErrorCodes.INVALID_REFRESH_TOKEN]: 401,
+  [SessionErrorCodes.REFRESH_TOKEN_REUSED]: 401,
+};
+
+/**
+ * Controller for listing and signing out the devices a user is signed in
+ * on, and for exchanging refresh tokens
+ */
+export class SessionController {
+  constructor(
+    private sessionService: SessionService,
+    private authService: AuthService
+  ) {}
+
+  /**
+   * GET /api/auth/sessions
+   */
+  listSessions = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const sessions = await this.sessionService.listSessions(
+        userId,
+        req.tokenPayload?.sid
+      );
+      res.json({ success: true, data: { sessions } });
+    } catch (error) {
+      this.handleError(error, res, 'listSessions', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   */
+  revokeSession = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.sessionService.revokeSession(req.params.id as string, userId);
+      res.json({ success: true, data: { revoked: true } });
+    } catch (error) {
+      this.handleError(error, res, 'revokeSession', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/auth/sessions
+   */
+  revokeOtherSessions = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const revokedCount = await this.sessionService.revokeOtherSessions(
+        userId,
+        req.tokenPayload?.sid
+      );
+      res.json({ success: true, data: { revokedCount } });
+    } catch (error) {
+      this.handleError(error, res, 'revokeOtherSessions', userId);
+    }
+  };
+
+  /**
+   * POST /api/auth/sessions/refresh
+   */
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    const refreshToken = req.body?.refreshToken;
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'refreshToken is required',
+          category: 'validation',
+        },
+      });
+      return;
+    }
+
+    try {
+      const result = await this.authService.refreshSession(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      res.json({
+        success: true,
+        data: {
+          token: result.token,
+          refreshToken: result.refreshToken,
+          expiresAt: result.expiresAt,
+        },
+      });
+    } catch (error) {
+      this.handleError(error, res, 'refresh');
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof SessionError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === SessionErrorCodes.SESSION_NOT_FOUND
+              ? 'business'
+              : 'authentication',
+        },
+      });
+      return;
+    }
+
+    logger.error('Session operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Session operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
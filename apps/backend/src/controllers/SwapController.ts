@@ -47,7 +47,7 @@ import {
 } from '@booking-swap/shared';
 import { logger } from '../utils/logger';
 import { PerformanceMonitor } from '../services/monitoring/PerformanceMonitor';
-import { validateAcceptanceStrategy } from '@/validation/enhanced-swap-validation';
+import { validateAcceptanceStrategy, validateDateFlexibility } from '@/validation/enhanced-swap-validation';
 import {
   handleSwapError,
   generateRequestId,
@@ -2039,6 +2039,21 @@ export class SwapController {
         return;
       }
 
+      // Validate date flexibility
+      if (swapPreferences?.dateFlexibility) {
+        const flexibilityValidation = validateDateFlexibility(swapPreferences.dateFlexibility);
+        if (!flexibilityValidation.isValid) {
+          res.status(400).json({
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: flexibilityValidation.errors.join(', '),
+              category: 'validation',
+            },
+          });
+          return;
+        }
+      }
+
       // Validate expiration date
       const expiresAt = new Date(expirationDate);
       if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
@@ -3818,11 +3833,25 @@ export class SwapController {
         return;
       }
 
-      // Release escrow funds
+      if (
+        releaseAmount !== undefined &&
+        (typeof releaseAmount !== 'number' || !(releaseAmount > 0))
+      ) {
+        res.status(400).json({
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'releaseAmount must be a positive number',
+            category: 'validation',
+          },
+        });
+        return;
+      }
+
+      // Release escrow funds; omitting releaseAmount releases the full escrow
       const result = await this.paymentService.releaseEscrow({
         escrowId,
         recipientId,
-        releaseAmount,
+        amount: releaseAmount,
         reason,
       });
 
@@ -3845,6 +3874,9 @@ export class SwapController {
       } else if (error.message.includes('Cannot release escrow')) {
         statusCode = 409;
         errorCode = 'ESCROW_NOT_RELEASABLE';
+      } else if (error.message.includes('Release amount')) {
+        statusCode = 400;
+        errorCode = 'VALIDATION_ERROR';
       } else if (error.message.includes('does not match')) {
         statusCode = 403;
         errorCode = 'RECIPIENT_MISMATCH';
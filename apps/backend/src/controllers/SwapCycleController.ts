@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { SwapCycleError, SwapCycleErrorCodes } from '@booking-swap/shared';
+import { MultiPartySwapService } from '../services/swap/MultiPartySwapService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<SwapCycleErrorCodes, number> = {
+  [SwapCycleErrorCodes.CYCLE_NOT_FOUND]: 404,
+  [SwapCycleErrorCodes.LEG_NOT_FOUND]: 404,
+  [SwapCycleErrorCodes.NOT_LEG_OWNER]: 403,
+  [SwapCycleErrorCodes.INVALID_CYCLE_STATUS]: 409,
+  [SwapCycleErrorCodes.LEG_ALREADY_RESPONDED]: 409,
+  [SwapCycleErrorCodes.CYCLE_EXPIRED]: 410,
+  [SwapCycleErrorCodes.CYCLE_COMPLETION_FAILED]: 500,
+};
+
+/**
+ * Controller for multi-party swap cycles
+ */
+export class SwapCycleController {
+  constructor(private multiPartySwapService: MultiPartySwapService) {}
+
+  /**
+   * GET /api/swap-cycles
+   */
+  getUserCycles = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const cycles = await this.multiPartySwapService.getUserCycles(userId);
+      res.json({ success: true, data: { cycles } });
+    } catch (error) {
+      this.handleError(error, res, 'getUserCycles', userId);
+    }
+  };
+
+  /**
+   * GET /api/swap-cycles/:cycleId
+   */
+  getCycle = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const cycle = await this.multiPartySwapService.getCycleForUser(
+        req.params.cycleId as string,
+        userId
+      );
+      res.json({ success: true, data: { cycle } });
+    } catch (error) {
+      this.handleError(error, res, 'getCycle', userId);
+    }
+  };
+
+  /**
+   * POST /api/swap-cycles/:cycleId/legs/:legId/accept
+   */
+  acceptLeg = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const result = await this.multiPartySwapService.acceptLeg(
+        req.params.cycleId as string,
+        req.params.legId as string,
+        userId
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      this.handleError(error, res, 'acceptLeg', userId);
+    }
+  };
+
+  /**
+   * POST /api/swap-cycles/:cycleId/legs/:legId/decline
+   */
+  declineLeg = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const result = await this.multiPartySwapService.declineLeg(
+        req.params.cycleId as string,
+        req.params.legId as string,
+        userId
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      this.handleError(error, res, 'declineLeg', userId);
+    }
+  };
+
+  /**
+   * POST /api/swap-cycles/discover (admin)
+   */
+  discoverCycles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result =
+        await this.multiPartySwapService.discoverAndProposeCycles();
+      res.json({ success: true, data: result });
+    } catch (error) {
+      this.handleError(error, res, 'discoverCycles', req.admin?.id);
+    }
+  };
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof SwapCycleError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category: 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('Swap cycle operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Swap cycle operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import { TwoFactorError, TwoFactorErrorCodes } from '@booking-swap/shared';
+import { TwoFactorService } from '../services/auth/TwoFactorService';
+import { AuthService } from '../services/auth/AuthService';
+import { logger } from '../utils/logger';
+
+// Wrong codes are 400 rather than 401 so clients do not treat them as a lost session
+const ERROR_STATUS: Record<TwoFactorErrorCodes, number> = {
+  [TwoFactorErrorCodes.TWO_FACTOR_NOT_ENABLED]: 409,
+  [TwoFactorErrorCodes.TWO_FACTOR_ALREADY_ENABLED]: 409,
+  [TwoFactorErrorCodes.TWO_FACTOR_SETUP_NOT_STARTED]: 409,
+  [TwoFactorErrorCodes.TWO_FACTOR_REQUIRED_FOR_ROLE]: 403,
+  [TwoFactorErrorCodes.INVALID_TWO_FACTOR_CODE]: 400,
+  [TwoFactorErrorCodes.INVALID_TWO_FACTOR_CHALLENGE]: 401,
+};
+
+/**
+ * Controller for enrolling in and managing TOTP two-factor authentication,
+ * and for step-up checks before sensitive operations
+ */
+export class TwoFactorController {
+  constructor(
+    private twoFactorService: TwoFactorService,
+    private authService: AuthService
+  ) {}
+
+  /**
+   * GET /api/auth/2fa
+   */
+  getStatus = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const status = await this.twoFactorService.getStatus(userId);
+      res.json({ success: true, data: { status } });
+    } catch (error) {
+      this.handleError(error, res, 'getStatus', userId);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/setup
+   */
+  beginSetup = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const setup = await this.twoFactorService.beginSetup(userId);
+      res.json({ success: true, data: { setup } });
+    } catch (error) {
+      this.handleError(error, res, 'beginSetup', userId);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/enable
+   */
+  enable = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const recoveryCodes = await this.twoFactorService.enable(
+        userId,
+        this.readCode(req)
+      );
+      res.json({ success: true, data: { recoveryCodes } });
+    } catch (error) {
+      this.handleError(error, res, 'enable', userId);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/disable
+   */
+  disable = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.twoFactorService.disable(userId, this.readCode(req));
+      res.json({ success: true, data: { enabled: false } });
+    } catch (error) {
+      this.handleError(error, res, 'disable', userId);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   */
+  regenerateRecoveryCodes = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+        userId,
+        this.readCode(req)
+      );
+      res.json({ success: true, data: { recoveryCodes } });
+    } catch (error) {
+      this.handleError(error, res, 'regenerateRecoveryCodes', userId);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/verify
+   */
+  verify = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { token, expiresAt } = await this.authService.verifySecondFactor(
+        userId,
+        this.readCode(req),
+        req.tokenPayload?.sid
+      );
+      res.json({ success: true, data: { token, expiresAt } });
+    } catch (error) {
+      this.handleError(error, res, 'verify', userId);
+    }
+  };
+
+  private readCode(req: Request): string {
+    const code = req.body?.code;
+    return typeof code === 'string' ? code : '';
+  }
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof TwoFactorError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === TwoFactorErrorCodes.INVALID_TWO_FACTOR_CODE
+              ? 'validation'
+              : 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('Two-factor operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Two-factor operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
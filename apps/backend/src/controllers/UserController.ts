@@ -2,7 +2,14 @@ import { Request, Response } from 'express';
 import { UserRepository } from '../database/repositories/UserRepository';
 import { BookingRepository } from '../database/repositories/BookingRepository';
 import { SwapRepository } from '../database/repositories/SwapRepository';
-import { User, UserProfile } from '@booking-swap/shared';
+import {
+  getValidationOptions,
+  MAX_AUTO_ACCEPT_DAILY_LIMIT,
+  resolveLocale,
+  SUPPORTED_LOCALES,
+  User,
+  UserProfile,
+} from '@booking-swap/shared';
 import { logger } from '../utils/logger';
 import Joi from '@hapi/joi';
 
@@ -10,12 +17,18 @@ const updateProfileSchema = Joi.object({
   displayName: Joi.string().max(100).optional(),
   email: Joi.string().email({ tlds: false }).optional(),
   phone: Joi.string().pattern(/^\+?[\d\s\-\(\)]+$/).optional(),
+  locale: Joi.string().valid(...SUPPORTED_LOCALES).optional(),
   preferences: Joi.object({
     notifications: Joi.boolean().optional(),
     autoAcceptCriteria: Joi.object({
       maxAdditionalPayment: Joi.number().min(0).optional(),
       preferredLocations: Joi.array().items(Joi.string()).optional(),
       bookingTypes: Joi.array().items(Joi.string()).optional(),
+      enabled: Joi.boolean().optional(),
+      dryRun: Joi.boolean().optional(),
+      minCompatibilityScore: Joi.number().min(0).max(100).optional(),
+      minCounterpartyReputation: Joi.number().min(0).max(5).optional(),
+      dailyLimit: Joi.number().integer().min(1).max(MAX_AUTO_ACCEPT_DAILY_LIMIT).optional(),
     }).optional(),
   }).optional(),
 });
@@ -99,7 +112,9 @@ export class UserController {
         });
       }
 
-      const { error, value } = updateProfileSchema.validate(req.body);
+      // Errors come back in the language the user reads the app in
+      const locale = resolveLocale(req.user.profile.locale || req.headers['accept-language']);
+      const { error, value } = updateProfileSchema.validate(req.body, getValidationOptions(locale));
       if (error) {
         return res.status(400).json({
           error: {
@@ -120,9 +135,21 @@ export class UserController {
         },
       };
 
+      // Auto-accept only applies to proposals received after it was switched on
+      const previousCriteria = req.user.profile.preferences.autoAcceptCriteria;
+      const autoAcceptCriteria = updatedProfile.preferences.autoAcceptCriteria;
+      if (autoAcceptCriteria) {
+        autoAcceptCriteria.enabledAt = autoAcceptCriteria.enabled
+          ? previousCriteria?.enabled
+            ? previousCriteria.enabledAt
+            : new Date()
+          : undefined;
+      }
+
       const updatedUserData = {
         ...req.user,
         profile: updatedProfile,
+        locale: updatedProfile.locale,
       };
 
       const updatedUser = await this.userRepository.update(req.user.id, updatedUserData);
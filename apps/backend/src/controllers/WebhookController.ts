@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import {
+  UpdateWebhookEndpointRequest,
+  WebhookDeliveryStatus,
+  WebhookError,
+  WebhookErrorCodes,
+} from '@booking-swap/shared';
+import { WebhookService } from '../services/webhook/WebhookService';
+import { logger } from '../utils/logger';
+
+const ERROR_STATUS: Record<WebhookErrorCodes, number> = {
+  [WebhookErrorCodes.WEBHOOK_ENDPOINT_NOT_FOUND]: 404,
+  [WebhookErrorCodes.WEBHOOK_DELIVERY_NOT_FOUND]: 404,
+  [WebhookErrorCodes.WEBHOOK_ENDPOINT_LIMIT_REACHED]: 409,
+  [WebhookErrorCodes.WEBHOOK_ENDPOINT_DISABLED]: 409,
+  [WebhookErrorCodes.INVALID_WEBHOOK_ENDPOINT]: 400,
+};
+
+/**
+ * Controller for the current user's webhook endpoints and their delivery log
+ */
+export class WebhookController {
+  constructor(private webhookService: WebhookService) {}
+
+  /**
+   * GET /api/webhooks
+   */
+  listEndpoints = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const endpoints = await this.webhookService.listEndpoints(userId);
+      res.json({ success: true, data: { endpoints } });
+    } catch (error) {
+      this.handleError(error, res, 'listEndpoints', userId);
+    }
+  };
+
+  /**
+   * POST /api/webhooks
+   */
+  createEndpoint = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const { url, eventTypes, description } = this.readRequest(req);
+      const endpoint = await this.webhookService.createEndpoint(userId, {
+        url: url as string,
+        eventTypes: eventTypes || [],
+        description,
+      });
+      res.status(201).json({ success: true, data: { endpoint } });
+    } catch (error) {
+      this.handleError(error, res, 'createEndpoint', userId);
+    }
+  };
+
+  /**
+   * PATCH /api/webhooks/:id
+   */
+  updateEndpoint = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const endpoint = await this.webhookService.updateEndpoint(
+        req.params.id as string,
+        userId,
+        this.readRequest(req)
+      );
+      res.json({ success: true, data: { endpoint } });
+    } catch (error) {
+      this.handleError(error, res, 'updateEndpoint', userId);
+    }
+  };
+
+  /**
+   * DELETE /api/webhooks/:id
+   */
+  deleteEndpoint = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      await this.webhookService.deleteEndpoint(req.params.id as string, userId);
+      res.json({ success: true, data: { deleted: true } });
+    } catch (error) {
+      this.handleError(error, res, 'deleteEndpoint', userId);
+    }
+  };
+
+  /**
+   * POST /api/webhooks/:id/rotate-secret
+   */
+  rotateSecret = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const endpoint = await this.webhookService.rotateSecret(
+        req.params.id as string,
+        userId
+      );
+      res.json({ success: true, data: { endpoint } });
+    } catch (error) {
+      this.handleError(error, res, 'rotateSecret', userId);
+    }
+  };
+
+  /**
+   * GET /api/webhooks/:id/deliveries?status=...&limit=...
+   */
+  listDeliveries = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const deliveries = await this.webhookService.listDeliveries(
+        req.params.id as string,
+        userId,
+        {
+          status: req.query.status as WebhookDeliveryStatus | undefined,
+          limit: req.query.limit
+            ? parseInt(req.query.limit as string)
+            : undefined,
+        }
+      );
+      res.json({ success: true, data: { deliveries } });
+    } catch (error) {
+      this.handleError(error, res, 'listDeliveries', userId);
+    }
+  };
+
+  /**
+   * POST /api/webhooks/deliveries/:deliveryId/redeliver
+   */
+  redeliver = async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) {
+      this.sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const delivery = await this.webhookService.redeliver(
+        req.params.deliveryId as string,
+        userId
+      );
+      res.status(202).json({ success: true, data: { delivery } });
+    } catch (error) {
+      this.handleError(error, res, 'redeliver', userId);
+    }
+  };
+
+  private readRequest(req: Request): UpdateWebhookEndpointRequest {
+    const { url, eventTypes, description, enabled } = req.body || {};
+    return { url, eventTypes, description, enabled };
+  }
+
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'User authentication required',
+        category: 'authentication',
+      },
+    });
+  }
+
+  private handleError(
+    error: unknown,
+    res: Response,
+    operation: string,
+    userId?: string
+  ): void {
+    if (error instanceof WebhookError) {
+      res.status(ERROR_STATUS[error.code]).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          category:
+            error.code === WebhookErrorCodes.INVALID_WEBHOOK_ENDPOINT
+              ? 'validation'
+              : 'business',
+        },
+      });
+      return;
+    }
+
+    logger.error('Webhook operation failed', {
+      operation,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Webhook operation failed',
+        category: 'server_error',
+      },
+    });
+  }
+}
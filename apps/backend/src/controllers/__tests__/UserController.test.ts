@@ -61,6 +61,7 @@ describe('UserController', () => {
     mockRequest = {
       body: {},
       query: {},
+      headers: {},
       user: mockUser,
     };
 
@@ -161,6 +162,25 @@ describe('UserController', () => {
       });
     });
 
+    it('should return validation errors in the requested language', async () => {
+      // Arrange
+      mockRequest.headers = { 'accept-language': 'es-ES,es;q=0.9,en;q=0.8' };
+      mockRequest.body = { locale: 'de' };
+
+      // Act
+      await userController.updateProfile(mockRequest as Request, mockResponse as Response);
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: '"locale" debe ser uno de estos valores: [en, es, fr]',
+          category: 'validation',
+        },
+      });
+    });
+
     it('should return 404 if user not found during update', async () => {
       // Arrange
       mockRequest.body = { displayName: 'New Name' };
@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Pool } from 'pg';
+import { DatabaseMigrator, MigrationError, checksumSql } from '../migrate';
+
+interface MigrationRow {
+  id: string;
+  filename: string;
+  checksum: string | null;
+  executed_at: Date;
+}
+
+/**
+ * In-memory stand-in for the migrations table and advisory lock
+ */
+function createFakePool(options: { lockHeld?: boolean } = {}) {
+  const rows: MigrationRow[] = [];
+  const executed: string[] = [];
+  const state = { lockHeld: options.lockHeld ?? false };
+
+  const query = vi.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('CREATE TABLE IF NOT EXISTS migrations'))
+      return { rows: [] };
+    if (sql.includes('to_regclass')) return { rows: [{ exists: true }] };
+    if (sql.includes('SELECT * FROM migrations')) {
+      return { rows: [...rows].sort((a, b) => a.id.localeCompare(b.id)) };
+    }
+    if (sql.includes('pg_try_advisory_lock')) {
+      if (state.lockHeld) return { rows: [{ locked: false }] };
+      state.lockHeld = true;
+      return { rows: [{ locked: true }] };
+    }
+    if (sql.includes('pg_advisory_unlock')) {
+      state.lockHeld = false;
+      return { rows: [{ pg_advisory_unlock: true }] };
+    }
+    if (sql.startsWith('INSERT INTO migrations')) {
+      rows.push({
+        id: params[0],
+        filename: params[1],
+        checksum: params[2],
+        executed_at: new Date(),
+      });
+      return { rows: [] };
+    }
+    if (sql.startsWith('DELETE FROM migrations')) {
+      rows.splice(
+        rows.findIndex(row => row.id === params[0]),
+        1
+      );
+      return { rows: [] };
+    }
+    if (sql.startsWith('UPDATE migrations SET checksum')) {
+      const row = rows.find(r => r.id === params[1]);
+      if (row && row.checksum === null) row.checksum = params[0];
+      return { rows: [] };
+    }
+    if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(sql)) return { rows: [] };
+
+    executed.push(sql);
+    return { rows: [] };
+  });
+
+  const client = { query, release: vi.fn() };
+  const pool = { query, connect: vi.fn(async () => client) } as unknown as Pool;
+
+  return { pool, rows, executed, state };
+}
+
+describe('DatabaseMigrator', () => {
+  let dir: string;
+
+  const writeMigration = (filename: string, sql: string) => {
+    writeFileSync(join(dir, filename), sql);
+  };
+
+  const markApplied = (
+    rows: MigrationRow[],
+    id: string,
+    checksum: string | null
+  ) => {
+    rows.push({ id, filename: `${id}.sql`, checksum, executed_at: new Date() });
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    writeMigration('001_create_things.sql', 'CREATE TABLE things (id INT);');
+    writeMigration('001_create_things.down.sql', 'DROP TABLE things;');
+    writeMigration(
+      '002_add_name.sql',
+      'ALTER TABLE things ADD COLUMN name TEXT;'
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe('loadMigrations', () => {
+    it('pairs down files with their up migration', async () => {
+      const { pool } = createFakePool();
+      const migrations = await new DatabaseMigrator(pool, dir).loadMigrations();
+
+      expect(migrations.map(m => m.id)).toEqual([
+        '001_create_things',
+        '002_add_name',
+      ]);
+      expect(migrations[0]!.down?.sql).toBe('DROP TABLE things;');
+      expect(migrations[1]!.down).toBeUndefined();
+    });
+
+    it('rejects a down file without an up migration', async () => {
+      writeMigration('003_orphan.down.sql', 'SELECT 1;');
+      const { pool } = createFakePool();
+
+      await expect(
+        new DatabaseMigrator(pool, dir).loadMigrations()
+      ).rejects.toMatchObject({
+        code: 'INVALID_MIGRATION_FILE',
+      });
+    });
+
+    it('ignores line-ending differences in checksums', () => {
+      expect(checksumSql('SELECT 1;\r\nSELECT 2;')).toBe(
+        checksumSql('SELECT 1;\nSELECT 2;')
+      );
+    });
+  });
+
+  describe('migrate', () => {
+    it('applies pending migrations with their checksums under the lock', async () => {
+      const { pool, rows, executed, state } = createFakePool();
+
+      await new DatabaseMigrator(pool, dir).migrate();
+
+      expect(executed).toEqual([
+        'CREATE TABLE things (id INT);',
+        'ALTER TABLE things ADD COLUMN name TEXT;',
+      ]);
+      expect(rows.map(r => r.checksum)).toEqual([
+        checksumSql('CREATE TABLE things (id INT);'),
+        checksumSql('ALTER TABLE things ADD COLUMN name TEXT;'),
+      ]);
+      expect(state.lockHeld).toBe(false);
+    });
+
+    it('only prints the SQL on a dry run', async () => {
+      const { pool, rows, executed } = createFakePool();
+
+      await new DatabaseMigrator(pool, dir).migrate({ dryRun: true });
+
+      expect(executed).toEqual([]);
+      expect(rows).toEqual([]);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE things (id INT);')
+      );
+    });
+
+    it('refuses to run when an applied migration changed', async () => {
+      const { pool, rows, executed } = createFakePool();
+      markApplied(
+        rows,
+        '001_create_things',
+        checksumSql('CREATE TABLE things (id BIGINT);')
+      );
+
+      await expect(
+        new DatabaseMigrator(pool, dir).migrate()
+      ).rejects.toMatchObject({
+        code: 'SCHEMA_DRIFT',
+        details: { changed: ['001_create_things'], missing: [] },
+      });
+      expect(executed).toEqual([]);
+    });
+
+    it('refuses to run when two migrations share a number', async () => {
+      writeMigration(
+        '002_add_colour.sql',
+        'ALTER TABLE things ADD COLUMN colour TEXT;'
+      );
+      const { pool, executed } = createFakePool();
+
+      const error = await new DatabaseMigrator(pool, dir)
+        .migrate()
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(MigrationError);
+      expect(error.code).toBe('VERSION_CONFLICT');
+      expect(error.details.conflicts).toEqual([
+        {
+          version: '002',
+          filenames: ['002_add_colour.sql', '002_add_name.sql'],
+        },
+      ]);
+      expect(executed).toEqual([]);
+    });
+
+    it('records checksums for migrations applied before they were tracked', async () => {
+      const { pool, rows } = createFakePool();
+      markApplied(rows, '001_create_things', null);
+
+      await new DatabaseMigrator(pool, dir).migrate();
+
+      expect(rows[0]!.checksum).toBe(
+        checksumSql('CREATE TABLE things (id INT);')
+      );
+    });
+
+    it('creates the migrations table while holding the lock', async () => {
+      const { pool } = createFakePool();
+
+      await new DatabaseMigrator(pool, dir).migrate();
+
+      const statements = vi
+        .mocked(pool.query)
+        .mock.calls.map(([sql]) => sql as string);
+      expect(
+        statements.findIndex(sql => sql.includes('pg_try_advisory_lock'))
+      ).toBeLessThan(
+        statements.findIndex(sql =>
+          sql.includes('CREATE TABLE IF NOT EXISTS migrations')
+        )
+      );
+    });
+
+    it('gives up when another run holds the lock', async () => {
+      const { pool, executed } = createFakePool({ lockHeld: true });
+      const migrator = new DatabaseMigrator(pool, dir, {
+        lockTimeoutMs: 20,
+        lockRetryMs: 5,
+      });
+
+      await expect(migrator.migrate()).rejects.toMatchObject({
+        code: 'LOCK_TIMEOUT',
+      });
+      expect(executed).toEqual([]);
+    });
+  });
+
+  describe('rollback', () => {
+    it('runs the down file of the latest migration and forgets it', async () => {
+      const { pool, rows, executed } = createFakePool();
+      markApplied(
+        rows,
+        '001_create_things',
+        checksumSql('CREATE TABLE things (id INT);')
+      );
+
+      await new DatabaseMigrator(pool, dir).rollback();
+
+      expect(executed).toEqual(['DROP TABLE things;']);
+      expect(rows).toEqual([]);
+    });
+
+    it('checks every target has a down file before rolling anything back', async () => {
+      const { pool, rows, executed } = createFakePool();
+      markApplied(rows, '001_create_things', null);
+      markApplied(rows, '002_add_name', null);
+
+      await expect(
+        new DatabaseMigrator(pool, dir).rollback({ steps: 2 })
+      ).rejects.toMatchObject({ code: 'MISSING_DOWN_MIGRATION' });
+      expect(executed).toEqual([]);
+      expect(rows).toHaveLength(2);
+    });
+
+    it.each([0, -1, 1.5, NaN])(
+      'rejects %s steps instead of rolling back everything',
+      async steps => {
+        const { pool, rows, executed } = createFakePool();
+        markApplied(rows, '001_create_things', null);
+
+        await expect(
+          new DatabaseMigrator(pool, dir).rollback({ steps })
+        ).rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+        expect(executed).toEqual([]);
+        expect(rows).toHaveLength(1);
+      }
+    );
+
+    it('rejects a target that was never applied', async () => {
+      const { pool } = createFakePool();
+
+      await expect(
+        new DatabaseMigrator(pool, dir).rollback({ to: '001_create_things' })
+      ).rejects.toMatchObject({ code: 'UNKNOWN_MIGRATION' });
+    });
+  });
+
+  describe('getStatus', () => {
+    it('reports pending, missing and unverified migrations', async () => {
+      const { pool, rows } = createFakePool();
+      markApplied(rows, '001_create_things', null);
+      markApplied(rows, '000_removed', 'abc');
+
+      const status = await new DatabaseMigrator(pool, dir).getStatus();
+
+      expect(status.pending.map(m => m.id)).toEqual(['002_add_name']);
+      expect(status.missing.map(m => m.id)).toEqual(['000_removed']);
+      expect(status.unverified).toEqual(['001_create_things']);
+      expect(status.drifted).toEqual([]);
+    });
+
+    it('accepts the numbers that were reused before conflicts were checked', async () => {
+      const { pool } = createFakePool();
+      const migrator = new DatabaseMigrator(
+        pool,
+        join(__dirname, '..', 'migrations')
+      );
+
+      const status = await migrator.getStatus();
+
+      expect(status.conflicts).toEqual([]);
+    });
+  });
+});
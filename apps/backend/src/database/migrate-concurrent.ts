@@ -1,87 +1,21 @@
-import { readFileSync, readdirSync } from 'fs';
-import { join } from 'path';
 import { Pool } from 'pg';
 import { parse } from 'pg-connection-string';
-
-interface Migration {
-    id: string;
-    filename: string;
-    sql: string;
-    hasConcurrentIndexes: boolean;
-}
-
-export class ConcurrentMigrator {
-    private pool: Pool;
-    private migrationsPath: string;
-
-    constructor(pool: Pool, migrationsPath?: string) {
-        this.pool = pool;
-        this.migrationsPath = migrationsPath || join(__dirname, 'migrations');
-    }
-
-    async createMigrationsTable(): Promise<void> {
-        const sql = `
-      CREATE TABLE IF NOT EXISTS migrations (
-        id VARCHAR(255) PRIMARY KEY,
-        filename VARCHAR(255) NOT NULL,
-        executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
-      );
-    `;
-
-        await this.pool.query(sql);
-    }
-
-    async getExecutedMigrations(): Promise<string[]> {
-        const result = await this.pool.query(
-            'SELECT id FROM migrations ORDER BY id'
-        );
-        return result.rows.map(row => row.id);
-    }
-
-    async loadMigrations(): Promise<Migration[]> {
-        const files = readdirSync(this.migrationsPath)
-            .filter(file => file.endsWith('.sql'))
-            .sort();
-
-        return files.map(filename => {
-            const id = filename.replace('.sql', '');
-            const sql = readFileSync(join(this.migrationsPath, filename), 'utf-8');
-            const hasConcurrentIndexes = sql.includes('CREATE INDEX CONCURRENTLY');
-            return { id, filename, sql, hasConcurrentIndexes };
-        });
+import { DatabaseMigrator, Migration, MigrationError } from './migrate';
+
+/**
+ * Migrator that runs CREATE INDEX CONCURRENTLY statements outside a transaction.
+ * Shares the migration lock, checksums and rollback support of DatabaseMigrator.
+ */
+export class ConcurrentMigrator extends DatabaseMigrator {
+    private hasConcurrentIndexes(migration: Migration): boolean {
+        return migration.sql.includes('CREATE INDEX CONCURRENTLY');
     }
 
     async executeMigration(migration: Migration): Promise<void> {
-        if (migration.hasConcurrentIndexes) {
+        if (this.hasConcurrentIndexes(migration)) {
             await this.executeConcurrentMigration(migration);
         } else {
-            await this.executeTransactionalMigration(migration);
-        }
-    }
-
-    private async executeTransactionalMigration(migration: Migration): Promise<void> {
-        const client = await this.pool.connect();
-
-        try {
-            await client.query('BEGIN');
-
-            // Execute the migration SQL
-            await client.query(migration.sql);
-
-            // Record the migration as executed
-            await client.query(
-                'INSERT INTO migrations (id, filename) VALUES ($1, $2)',
-                [migration.id, migration.filename]
-            );
-
-            await client.query('COMMIT');
-            console.log(`✓ Executed migration: ${migration.filename}`);
-        } catch (error) {
-            await client.query('ROLLBACK');
-            console.error(`✗ Failed to execute migration: ${migration.filename}`);
-            throw error;
-        } finally {
-            client.release();
+            await super.executeMigration(migration);
         }
     }
 
@@ -128,8 +62,8 @@ export class ConcurrentMigrator {
         try {
             await client.query('BEGIN');
             await client.query(
-                'INSERT INTO migrations (id, filename) VALUES ($1, $2)',
-                [migration.id, migration.filename]
+                'INSERT INTO migrations (id, filename, checksum) VALUES ($1, $2, $3)',
+                [migration.id, migration.filename, migration.checksum]
             );
             await client.query('COMMIT');
             console.log(`✓ Executed concurrent migration: ${migration.filename}`);
@@ -141,42 +75,6 @@ export class ConcurrentMigrator {
             client.release();
         }
     }
-
-    async migrate(): Promise<void> {
-        console.log('Starting database migration with concurrent index support...');
-
-        // Ensure migrations table exists
-        await this.createMigrationsTable();
-
-        // Get executed migrations
-        const executedMigrations = await this.getExecutedMigrations();
-
-        // Load all migrations
-        const allMigrations = await this.loadMigrations();
-
-        // Filter pending migrations
-        const pendingMigrations = allMigrations.filter(
-            migration => !executedMigrations.includes(migration.id)
-        );
-
-        if (pendingMigrations.length === 0) {
-            console.log('No pending migrations found.');
-            return;
-        }
-
-        console.log(`Found ${pendingMigrations.length} pending migration(s):`);
-        pendingMigrations.forEach(migration => {
-            const type = migration.hasConcurrentIndexes ? '(concurrent)' : '(transactional)';
-            console.log(`  - ${migration.filename} ${type}`);
-        });
-
-        // Execute pending migrations
-        for (const migration of pendingMigrations) {
-            await this.executeMigration(migration);
-        }
-
-        console.log('Migration completed successfully!');
-    }
 }
 
 // CLI runner
@@ -207,13 +105,16 @@ if (require.main === module) {
 
     const migrator = new ConcurrentMigrator(pool);
 
-    migrator.migrate()
+    migrator.migrate({ dryRun: process.argv.includes('--dry-run') })
         .then(() => {
             console.log('All migrations completed successfully!');
             process.exit(0);
         })
         .catch(error => {
-            console.error('Migration failed:', error);
+            console.error('Migration failed:', error instanceof Error ? error.message : error);
+            if (error instanceof MigrationError && error.details) {
+                console.error(JSON.stringify(error.details, null, 2));
+            }
             process.exit(1);
         });
 }
\ No newline at end of file
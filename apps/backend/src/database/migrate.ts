@@ -1,21 +1,127 @@
-import { readFileSync, readdirSync } from 'fs';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { parse } from 'pg-connection-string';
 
-interface Migration {
+export interface Migration {
   id: string;
+  version: string;
   filename: string;
   sql: string;
+  checksum: string;
+  down?: {
+    filename: string;
+    sql: string;
+  };
+}
+
+export interface AppliedMigration {
+  id: string;
+  filename: string;
+  // Missing for migrations applied before checksums were recorded
+  checksum: string | null;
+  executedAt: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Applied migrations whose file changed since they ran
+  drifted: { id: string; recorded: string; current: string }[];
+  // Applied migrations that no longer have a file
+  missing: AppliedMigration[];
+  // Migration numbers used by more than one file
+  conflicts: { version: string; filenames: string[] }[];
+  unverified: string[];
+}
+
+export interface MigrateOptions {
+  dryRun?: boolean;
+}
+
+export interface RollbackOptions {
+  dryRun?: boolean;
+  // Number of applied migrations to roll back, newest first
+  steps?: number;
+  // Roll back everything applied after this migration
+  to?: string;
+}
+
+export interface MigratorOptions {
+  lockTimeoutMs?: number;
+  lockRetryMs?: number;
+}
+
+export type MigrationErrorCode =
+  | 'INVALID_MIGRATION_FILE'
+  | 'VERSION_CONFLICT'
+  | 'SCHEMA_DRIFT'
+  | 'MISSING_DOWN_MIGRATION'
+  | 'UNKNOWN_MIGRATION'
+  | 'INVALID_OPTIONS'
+  | 'LOCK_TIMEOUT';
+
+export class MigrationError extends Error {
+  constructor(
+    public code: MigrationErrorCode,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_[A-Za-z0-9_-]+?(\.down)?\.sql$/;
+
+// Shared by every migrator so two runners never apply migrations at the same time
+export const MIGRATION_LOCK_KEY = 72616001;
+
+// Numbers that were reused before conflicts were detected. Existing databases
+// record both files under their full names, so renaming them would re-run them.
+const LEGACY_DUPLICATE_VERSIONS: Record<string, string[]> = {
+  '010': ['010_add_nft_fields_to_bookings', '010_performance_optimizations'],
+  '014': [
+    '014_fix_enhanced_swaps_user_constraint',
+    '014_optimize_swap_booking_query_performance',
+  ],
+  '015': [
+    '015_create_swap_proposal_metadata_tables',
+    '015_update_booking_verification_default',
+  ],
+  '030': [
+    '030_fix_expires_future_constraint',
+    '030_update_database_functions_for_simplified_schema',
+  ],
+  '031': [
+    '031_enhance_derived_relationships_function',
+    '031_fix_function_syntax',
+  ],
+};
+
+/**
+ * Checksum of a migration's SQL, insensitive to line-ending changes
+ */
+export function checksumSql(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
 }
 
 export class DatabaseMigrator {
-  private pool: Pool;
-  private migrationsPath: string;
+  protected pool: Pool;
+  protected migrationsPath: string;
+  private lockTimeoutMs: number;
+  private lockRetryMs: number;
 
-  constructor(pool: Pool, migrationsPath?: string) {
+  constructor(
+    pool: Pool,
+    migrationsPath?: string,
+    options: MigratorOptions = {}
+  ) {
     this.pool = pool;
     this.migrationsPath = migrationsPath || join(__dirname, 'migrations');
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 60000;
+    this.lockRetryMs = options.lockRetryMs ?? 1000;
   }
 
   async createMigrationsTable(): Promise<void> {
@@ -25,45 +131,151 @@ export class DatabaseMigrator {
         filename VARCHAR(255) NOT NULL,
         executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
       );
+      ALTER TABLE migrations ADD COLUMN IF NOT EXISTS checksum VARCHAR(64);
     `;
-    
+
     await this.pool.query(sql);
   }
 
   async getExecutedMigrations(): Promise<string[]> {
+    const applied = await this.getAppliedMigrations();
+    return applied.map(migration => migration.id);
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const exists = await this.pool.query(
+      "SELECT to_regclass('migrations') IS NOT NULL AS exists"
+    );
+    if (!exists.rows[0]?.exists) {
+      return [];
+    }
+
+    // SELECT * so the status can be read before the checksum column is added
     const result = await this.pool.query(
-      'SELECT id FROM migrations ORDER BY id'
+      'SELECT * FROM migrations ORDER BY id'
     );
-    return result.rows.map(row => row.id);
+    return result.rows.map(row => ({
+      id: row.id,
+      filename: row.filename,
+      checksum: row.checksum ?? null,
+      executedAt: row.executed_at,
+    }));
   }
 
   async loadMigrations(): Promise<Migration[]> {
+    if (!existsSync(this.migrationsPath)) {
+      throw new MigrationError(
+        'INVALID_MIGRATION_FILE',
+        `Migrations directory not found: ${this.migrationsPath}`
+      );
+    }
+
     const files = readdirSync(this.migrationsPath)
       .filter(file => file.endsWith('.sql'))
       .sort();
 
-    return files.map(filename => {
-      const id = filename.replace('.sql', '');
+    const downFiles = new Map<string, string>();
+    const migrations: Migration[] = [];
+
+    for (const filename of files) {
+      const match = MIGRATION_FILE_PATTERN.exec(filename);
+      if (!match) {
+        throw new MigrationError(
+          'INVALID_MIGRATION_FILE',
+          `Migration file ${filename} must be named <number>_<name>.sql or <number>_<name>.down.sql`
+        );
+      }
+
+      if (match[2]) {
+        downFiles.set(filename.replace(/\.down\.sql$/, ''), filename);
+        continue;
+      }
+
       const sql = readFileSync(join(this.migrationsPath, filename), 'utf-8');
-      return { id, filename, sql };
-    });
+      migrations.push({
+        id: filename.replace('.sql', ''),
+        version: match[1]!,
+        filename,
+        sql,
+        checksum: checksumSql(sql),
+      });
+    }
+
+    for (const migration of migrations) {
+      const downFilename = downFiles.get(migration.id);
+      if (downFilename) {
+        migration.down = {
+          filename: downFilename,
+          sql: readFileSync(join(this.migrationsPath, downFilename), 'utf-8'),
+        };
+        downFiles.delete(migration.id);
+      }
+    }
+
+    const orphaned = [...downFiles.values()];
+    if (orphaned.length > 0) {
+      throw new MigrationError(
+        'INVALID_MIGRATION_FILE',
+        `Down migrations without a matching up migration: ${orphaned.join(', ')}`,
+        { filenames: orphaned }
+      );
+    }
+
+    return migrations;
+  }
+
+  /**
+   * Compare the migration files with what the database has applied
+   */
+  async getStatus(): Promise<MigrationStatus> {
+    const migrations = await this.loadMigrations();
+    const applied = await this.getAppliedMigrations();
+    const appliedById = new Map(
+      applied.map(migration => [migration.id, migration])
+    );
+    const migrationIds = new Set(migrations.map(migration => migration.id));
+
+    const drifted: MigrationStatus['drifted'] = [];
+    const unverified: string[] = [];
+    for (const migration of migrations) {
+      const record = appliedById.get(migration.id);
+      if (!record) continue;
+      if (!record.checksum) {
+        unverified.push(migration.id);
+      } else if (record.checksum !== migration.checksum) {
+        drifted.push({
+          id: migration.id,
+          recorded: record.checksum,
+          current: migration.checksum,
+        });
+      }
+    }
+
+    return {
+      applied,
+      pending: migrations.filter(migration => !appliedById.has(migration.id)),
+      drifted,
+      missing: applied.filter(migration => !migrationIds.has(migration.id)),
+      conflicts: this.findVersionConflicts(migrations),
+      unverified,
+    };
   }
 
   async executeMigration(migration: Migration): Promise<void> {
     const client = await this.pool.connect();
-    
+
     try {
       await client.query('BEGIN');
-      
+
       // Execute the migration SQL
       await client.query(migration.sql);
-      
+
       // Record the migration as executed
       await client.query(
-        'INSERT INTO migrations (id, filename) VALUES ($1, $2)',
-        [migration.id, migration.filename]
+        'INSERT INTO migrations (id, filename, checksum) VALUES ($1, $2, $3)',
+        [migration.id, migration.filename, migration.checksum]
       );
-      
+
       await client.query('COMMIT');
       console.log(`✓ Executed migration: ${migration.filename}`);
     } catch (error) {
@@ -75,60 +287,304 @@ export class DatabaseMigrator {
     }
   }
 
-  async migrate(): Promise<void> {
+  async revertMigration(migration: Migration): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.down!.sql);
+      await client.query('DELETE FROM migrations WHERE id = $1', [
+        migration.id,
+      ]);
+      await client.query('COMMIT');
+      console.log(`✓ Rolled back migration: ${migration.filename}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`✗ Failed to roll back migration: ${migration.filename}`);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async migrate(options: MigrateOptions = {}): Promise<void> {
     console.log('Starting database migration...');
-    
-    // Ensure migrations table exists
-    await this.createMigrationsTable();
-    
-    // Get executed migrations
-    const executedMigrations = await this.getExecutedMigrations();
-    
-    // Load all migrations
-    const allMigrations = await this.loadMigrations();
-    
-    // Filter pending migrations
-    const pendingMigrations = allMigrations.filter(
-      migration => !executedMigrations.includes(migration.id)
-    );
-    
-    if (pendingMigrations.length === 0) {
-      console.log('No pending migrations found.');
-      return;
-    }
-    
-    console.log(`Found ${pendingMigrations.length} pending migration(s):`);
-    pendingMigrations.forEach(migration => {
-      console.log(`  - ${migration.filename}`);
+
+    await this.withLock(async () => {
+      // Created under the lock so concurrent first runs do not race on it
+      await this.createMigrationsTable();
+
+      const status = await this.getStatus();
+      this.assertConsistent(status);
+
+      // Migrations applied before checksums were recorded are trusted as they are now
+      if (status.unverified.length > 0 && !options.dryRun) {
+        await this.recordChecksums(status.unverified);
+      }
+
+      const pendingMigrations = status.pending;
+      if (pendingMigrations.length === 0) {
+        console.log('No pending migrations found.');
+        return;
+      }
+
+      console.log(`Found ${pendingMigrations.length} pending migration(s):`);
+      pendingMigrations.forEach(migration => {
+        console.log(`  - ${migration.filename}`);
+      });
+
+      if (options.dryRun) {
+        this.printDryRun(
+          pendingMigrations.map(m => ({ filename: m.filename, sql: m.sql }))
+        );
+        return;
+      }
+
+      // Execute pending migrations
+      for (const migration of pendingMigrations) {
+        await this.executeMigration(migration);
+      }
+
+      console.log('Migration completed successfully!');
+    });
+  }
+
+  /**
+   * Roll back applied migrations with their down files, newest first.
+   * Without options only the latest migration is rolled back.
+   */
+  async rollback(options: RollbackOptions = {}): Promise<void> {
+    if (
+      options.steps !== undefined &&
+      !(Number.isInteger(options.steps) && options.steps > 0)
+    ) {
+      // slice(-0) or slice(NaN) would select every applied migration
+      throw new MigrationError(
+        'INVALID_OPTIONS',
+        `Steps must be a positive integer, got ${options.steps}`
+      );
+    }
+
+    await this.withLock(async () => {
+      await this.createMigrationsTable();
+
+      const migrations = await this.loadMigrations();
+      const applied = await this.getAppliedMigrations();
+      const byId = new Map(
+        migrations.map(migration => [migration.id, migration])
+      );
+
+      let targets: AppliedMigration[];
+      if (options.to) {
+        if (!applied.some(migration => migration.id === options.to)) {
+          throw new MigrationError(
+            'UNKNOWN_MIGRATION',
+            `Migration ${options.to} has not been applied`
+          );
+        }
+        targets = applied.filter(migration => migration.id > options.to!);
+      } else {
+        targets = applied.slice(-(options.steps ?? 1));
+      }
+      targets.reverse();
+
+      if (targets.length === 0) {
+        console.log('No migrations to roll back.');
+        return;
+      }
+
+      // Check every target before touching the schema so a rollback never stops halfway
+      const toRevert: Migration[] = [];
+      for (const target of targets) {
+        const migration = byId.get(target.id);
+        if (!migration) {
+          throw new MigrationError(
+            'UNKNOWN_MIGRATION',
+            `Applied migration ${target.id} has no migration file`
+          );
+        }
+        if (!migration.down) {
+          throw new MigrationError(
+            'MISSING_DOWN_MIGRATION',
+            `Migration ${migration.filename} has no ${migration.id}.down.sql file`
+          );
+        }
+        toRevert.push(migration);
+      }
+
+      console.log(`Rolling back ${toRevert.length} migration(s):`);
+      toRevert.forEach(migration => {
+        console.log(`  - ${migration.filename}`);
+      });
+
+      if (options.dryRun) {
+        this.printDryRun(toRevert.map(m => m.down!));
+        return;
+      }
+
+      for (const migration of toRevert) {
+        await this.revertMigration(migration);
+      }
+
+      console.log('Rollback completed successfully!');
     });
-    
-    // Execute pending migrations
-    for (const migration of pendingMigrations) {
-      await this.executeMigration(migration);
+  }
+
+  /**
+   * Run the callback while holding the migration advisory lock
+   */
+  protected async withLock<T>(callback: () => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await this.acquireLock(client);
+      try {
+        return await callback();
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [
+          MIGRATION_LOCK_KEY,
+        ]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async acquireLock(client: PoolClient): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+    let waiting = false;
+
+    for (;;) {
+      const result = await client.query(
+        'SELECT pg_try_advisory_lock($1) AS locked',
+        [MIGRATION_LOCK_KEY]
+      );
+      if (result.rows[0]?.locked) return;
+
+      if (Date.now() + this.lockRetryMs > deadline) {
+        throw new MigrationError(
+          'LOCK_TIMEOUT',
+          `Another migration is still running after ${this.lockTimeoutMs}ms`
+        );
+      }
+      if (!waiting) {
+        console.log('Waiting for another migration run to finish...');
+        waiting = true;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.lockRetryMs));
     }
-    
-    console.log('Migration completed successfully!');
   }
 
-  async rollback(migrationId?: string): Promise<void> {
-    // This is a simplified rollback - in production you'd want proper down migrations
-    console.warn('Rollback functionality not implemented. Use manual SQL scripts for rollbacks.');
-    
-    if (migrationId) {
+  private assertConsistent(status: MigrationStatus): void {
+    if (status.conflicts.length > 0) {
+      throw new MigrationError(
+        'VERSION_CONFLICT',
+        `Migration numbers used more than once: ${status.conflicts
+          .map(
+            conflict => `${conflict.version} (${conflict.filenames.join(', ')})`
+          )
+          .join('; ')}`,
+        { conflicts: status.conflicts }
+      );
+    }
+
+    if (status.drifted.length > 0 || status.missing.length > 0) {
+      throw new MigrationError(
+        'SCHEMA_DRIFT',
+        'Applied migrations do not match the migration files',
+        {
+          changed: status.drifted.map(migration => migration.id),
+          missing: status.missing.map(migration => migration.id),
+        }
+      );
+    }
+  }
+
+  private findVersionConflicts(
+    migrations: Migration[]
+  ): MigrationStatus['conflicts'] {
+    const byVersion = new Map<string, Migration[]>();
+    for (const migration of migrations) {
+      const group = byVersion.get(migration.version) || [];
+      group.push(migration);
+      byVersion.set(migration.version, group);
+    }
+
+    const conflicts: MigrationStatus['conflicts'] = [];
+    for (const [version, group] of byVersion) {
+      if (group.length < 2) continue;
+      const allowed = LEGACY_DUPLICATE_VERSIONS[version] || [];
+      if (group.every(migration => allowed.includes(migration.id))) continue;
+      conflicts.push({
+        version,
+        filenames: group.map(migration => migration.filename),
+      });
+    }
+    return conflicts;
+  }
+
+  private async recordChecksums(ids: string[]): Promise<void> {
+    const migrations = await this.loadMigrations();
+    for (const migration of migrations.filter(m => ids.includes(m.id))) {
       await this.pool.query(
-        'DELETE FROM migrations WHERE id = $1',
-        [migrationId]
+        'UPDATE migrations SET checksum = $1 WHERE id = $2 AND checksum IS NULL',
+        [migration.checksum, migration.id]
       );
-      console.log(`Marked migration ${migrationId} as not executed.`);
+    }
+    console.log(
+      `Recorded checksums for ${ids.length} previously applied migration(s).`
+    );
+  }
+
+  private printDryRun(files: { filename: string; sql: string }[]): void {
+    console.log('Dry run - no changes will be made.');
+    for (const file of files) {
+      console.log(`\n-- ${file.filename}\n${file.sql.trim()}\n`);
     }
   }
 }
 
+/**
+ * Print the migration status; returns false when the database is not in step with the files
+ */
+export async function printMigrationStatus(
+  migrator: DatabaseMigrator
+): Promise<boolean> {
+  const status = await migrator.getStatus();
+
+  console.log(`Applied: ${status.applied.length}`);
+  console.log(`Pending: ${status.pending.length}`);
+  status.pending.forEach(migration => console.log(`  - ${migration.filename}`));
+  status.drifted.forEach(migration =>
+    console.log(`✗ Changed since it was applied: ${migration.id}`)
+  );
+  status.missing.forEach(migration =>
+    console.log(`✗ Applied but no longer on disk: ${migration.id}`)
+  );
+  status.conflicts.forEach(conflict =>
+    console.log(
+      `✗ Migration number ${conflict.version} used by ${conflict.filenames.join(', ')}`
+    )
+  );
+  if (status.unverified.length > 0) {
+    console.log(
+      `${status.unverified.length} migration(s) have no recorded checksum yet.`
+    );
+  }
+
+  return (
+    status.pending.length === 0 &&
+    status.drifted.length === 0 &&
+    status.missing.length === 0 &&
+    status.conflicts.length === 0
+  );
+}
+
 // CLI runner
 if (require.main === module) {
   // Parse database configuration from DATABASE_URL or individual env vars
   let poolConfig;
-  
+
   if (process.env.DATABASE_URL) {
     const parsed = parse(process.env.DATABASE_URL);
     poolConfig = {
@@ -151,33 +607,67 @@ if (require.main === module) {
   const pool = new Pool(poolConfig);
 
   const migrator = new DatabaseMigrator(pool);
-  
+
   const command = process.argv[2];
-  
+  const args = process.argv.slice(3);
+  const dryRun = args.includes('--dry-run');
+  const flagValue = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const fail = (label: string) => (error: unknown) => {
+    console.error(`${label}:`, error instanceof Error ? error.message : error);
+    if (error instanceof MigrationError && error.details) {
+      console.error(JSON.stringify(error.details, null, 2));
+    }
+    process.exit(1);
+  };
+
   switch (command) {
     case 'migrate':
-      migrator.migrate()
+      migrator
+        .migrate({ dryRun })
         .then(() => process.exit(0))
-        .catch(error => {
-          console.error('Migration failed:', error);
-          process.exit(1);
-        });
+        .catch(fail('Migration failed'));
       break;
-      
-    case 'rollback':
-      const migrationId = process.argv[3];
-      migrator.rollback(migrationId)
+
+    case 'rollback': {
+      // Number() rather than parseInt so "2abc" or a missing value is rejected
+      const steps = args.includes('--steps')
+        ? Number(flagValue('--steps'))
+        : undefined;
+      migrator
+        .rollback({
+          dryRun,
+          to: flagValue('--to'),
+          steps,
+        })
         .then(() => process.exit(0))
-        .catch(error => {
-          console.error('Rollback failed:', error);
-          process.exit(1);
-        });
+        .catch(fail('Rollback failed'));
       break;
-      
+    }
+
+    case 'status':
+      printMigrationStatus(migrator)
+        .then(upToDate => process.exit(upToDate ? 0 : 1))
+        .catch(fail('Status check failed'));
+      break;
+
     default:
       console.log('Usage:');
-      console.log('  npm run migrate        - Run pending migrations');
-      console.log('  npm run migrate rollback [id] - Rollback migration');
+      console.log(
+        '  npm run migrate [-- --dry-run]                 - Run pending migrations'
+      );
+      console.log(
+        '  npm run migrate:rollback [-- --steps N | --to <id>] [--dry-run]'
+      );
+      console.log(
+        '                                                 - Roll back with down migrations'
+      );
+      console.log(
+        '  npm run migrate:status                         - Show pending and drifted migrations'
+      );
       process.exit(1);
   }
-}
\ No newline at end of file
+}
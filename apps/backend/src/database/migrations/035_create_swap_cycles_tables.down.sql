@@ -0,0 +1,6 @@
+-- Rollback: Create multi-party swap cycle tables
+
+DROP TABLE IF EXISTS swap_cycle_legs;
+DROP TABLE IF EXISTS swap_cycles;
+
+ALTER TABLE swaps DROP COLUMN IF EXISTS swap_preferences;
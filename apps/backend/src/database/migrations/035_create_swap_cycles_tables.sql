@@ -0,0 +1,70 @@
+-- Migration: Create multi-party swap cycle tables
+-- Created: 2025-01-15
+-- Description: Persists swap preferences on swaps and adds swap_cycles / swap_cycle_legs
+-- for 3- and 4-party swaps where each party gives their booking to the next party in the cycle
+
+-- Swap preferences drive the "would accept" graph used for cycle detection
+ALTER TABLE swaps ADD COLUMN IF NOT EXISTS swap_preferences JSONB NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS swap_cycles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status VARCHAR(20) NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'accepted', 'completed', 'declined', 'expired', 'failed')),
+    cycle_length INTEGER NOT NULL CHECK (cycle_length BETWEEN 3 AND 4),
+    total_score DECIMAL(5,2) NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- Completion tracking
+    completion_transaction_id VARCHAR(255),
+    blockchain_transaction_id VARCHAR(255),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    failure_reason TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS swap_cycle_legs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    cycle_id UUID NOT NULL REFERENCES swap_cycles(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+
+    -- The giver hands over swap_id's booking and receives receives_swap_id's booking
+    swap_id UUID NOT NULL REFERENCES swaps(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    giver_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    receiver_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    receives_swap_id UUID NOT NULL REFERENCES swaps(id) ON DELETE CASCADE,
+    receives_booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    compatibility_score DECIMAL(5,2) NOT NULL DEFAULT 0,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+    responded_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_cycle_leg_position UNIQUE (cycle_id, position),
+    CONSTRAINT unique_cycle_leg_swap UNIQUE (cycle_id, swap_id),
+    CONSTRAINT cycle_leg_distinct_parties CHECK (giver_user_id != receiver_user_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_swap_cycles_status ON swap_cycles(status);
+CREATE INDEX IF NOT EXISTS idx_swap_cycles_expires_at ON swap_cycles(expires_at) WHERE status = 'proposed';
+CREATE INDEX IF NOT EXISTS idx_swap_cycle_legs_cycle_id ON swap_cycle_legs(cycle_id);
+CREATE INDEX IF NOT EXISTS idx_swap_cycle_legs_swap_id ON swap_cycle_legs(swap_id);
+CREATE INDEX IF NOT EXISTS idx_swap_cycle_legs_giver ON swap_cycle_legs(giver_user_id);
+
+-- Triggers
+CREATE TRIGGER update_swap_cycles_updated_at
+    BEFORE UPDATE ON swap_cycles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_swap_cycle_legs_updated_at
+    BEFORE UPDATE ON swap_cycle_legs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE swap_cycles IS 'Multi-party (3-4 way) swap cycles; completion is all-or-nothing';
+COMMENT ON TABLE swap_cycle_legs IS 'One leg per party in a swap cycle, accepted or declined individually';
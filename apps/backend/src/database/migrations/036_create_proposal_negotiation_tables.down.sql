@@ -0,0 +1,6 @@
+-- Rollback: Create proposal negotiation tables
+
+ALTER TABLE swap_proposals DROP COLUMN IF EXISTS accepted_negotiation_version_id;
+ALTER TABLE swap_proposals DROP COLUMN IF EXISTS additional_payment;
+
+DROP TABLE IF EXISTS proposal_negotiation_versions;
@@ -0,0 +1,50 @@
+-- Migration: Create proposal negotiation tables
+-- Created: 2025-01-22
+-- Description: Adds versioned counter-offers on proposals and records which version was accepted
+
+-- One row per counter-offer. proposal_id may point at swap_proposals (cash) or
+-- swap_targets (booking) so it is not a foreign key.
+CREATE TABLE IF NOT EXISTS proposal_negotiation_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id UUID NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'superseded', 'accepted', 'rejected')),
+
+    -- Amended terms (full snapshot, not a diff)
+    additional_payment DECIMAL(10,2) CHECK (additional_payment >= 0),
+    conditions TEXT[] NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    cash_offer_amount DECIMAL(10,2) CHECK (cash_offer_amount >= 0),
+    cash_offer_currency VARCHAR(3),
+
+    message TEXT,
+    responded_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_proposal_negotiation_version UNIQUE (proposal_id, version),
+    CONSTRAINT check_negotiation_different_users CHECK (author_id != recipient_id)
+);
+
+-- At most one counter-offer awaiting a response per proposal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposal_negotiation_one_open
+    ON proposal_negotiation_versions(proposal_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_proposal_negotiation_proposal
+    ON proposal_negotiation_versions(proposal_id, version);
+CREATE INDEX IF NOT EXISTS idx_proposal_negotiation_recipient
+    ON proposal_negotiation_versions(recipient_id) WHERE status = 'open';
+
+CREATE TRIGGER update_proposal_negotiation_versions_updated_at
+    BEFORE UPDATE ON proposal_negotiation_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Track the negotiated terms that the completion workflow executes
+ALTER TABLE swap_proposals ADD COLUMN IF NOT EXISTS additional_payment DECIMAL(10,2) CHECK (additional_payment >= 0);
+ALTER TABLE swap_proposals ADD COLUMN IF NOT EXISTS accepted_negotiation_version_id UUID
+    REFERENCES proposal_negotiation_versions(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE proposal_negotiation_versions IS 'Versioned counter-offers exchanged between proposer and owner before acceptance';
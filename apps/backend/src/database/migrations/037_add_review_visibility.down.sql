@@ -0,0 +1,6 @@
+-- Rollback: Add review visibility
+
+DROP INDEX IF EXISTS idx_reviews_reviewed_user_visible;
+DROP INDEX IF EXISTS idx_reviews_unique_reviewer_swap;
+
+ALTER TABLE reviews DROP COLUMN IF EXISTS visible_at;
@@ -0,0 +1,15 @@
+-- Migration: Add review visibility
+-- Created: 2025-01-24
+-- Description: Hides reviews until both parties of a swap have reviewed or the review window closes
+
+-- A review becomes visible at visible_at. It is set to the end of the review window
+-- on insert and moved to NOW() for both reviews once the second party submits.
+-- Existing reviews stay visible.
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS visible_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- One review per party per swap
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_unique_reviewer_swap ON reviews(reviewer_id, swap_id);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewed_user_visible ON reviews(reviewed_user_id, visible_at);
+
+COMMENT ON COLUMN reviews.visible_at IS 'When the review becomes visible to others (both parties reviewed or review window closed)';
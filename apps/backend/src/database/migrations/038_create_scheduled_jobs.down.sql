@@ -0,0 +1,3 @@
+-- Rollback: Create scheduled jobs table
+
+DROP TABLE IF EXISTS scheduled_jobs;
@@ -0,0 +1,49 @@
+-- Migration: Create scheduled jobs table
+-- Created: 2025-01-25
+-- Description: Persistent job queue for delayed work (auction end, auto-selection, periodic sweeps)
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    -- At most one pending/running job per dedup key (see index below)
+    dedup_key VARCHAR(255),
+
+    attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+    last_error TEXT,
+
+    -- Lease held by the instance running the job; an expired lease makes it runnable again
+    locked_by VARCHAR(255),
+    locked_until TIMESTAMP WITH TIME ZONE,
+
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_jobs_dedup_key
+    ON scheduled_jobs(dedup_key) WHERE dedup_key IS NOT NULL AND status IN ('pending', 'running');
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due
+    ON scheduled_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_lease
+    ON scheduled_jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_type_status
+    ON scheduled_jobs(type, status, created_at DESC);
+
+CREATE TRIGGER update_scheduled_jobs_updated_at
+    BEFORE UPDATE ON scheduled_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Auctions that are already running were never scheduled, so schedule their end now
+INSERT INTO scheduled_jobs (type, payload, run_at, dedup_key)
+SELECT 'auction.end', jsonb_build_object('auctionId', id), (settings->>'endDate')::timestamptz, 'auction.end:' || id
+FROM swap_auctions
+WHERE status = 'active'
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE scheduled_jobs IS 'Delayed and recurring background jobs, leased by backend instances';
@@ -0,0 +1,11 @@
+-- Rollback: Create payment webhook events table
+
+-- Escrows held for a chargeback go back to funded, the closest earlier status
+UPDATE escrow_accounts SET status = 'funded' WHERE status = 'disputed';
+ALTER TABLE escrow_accounts DROP CONSTRAINT IF EXISTS escrow_accounts_status_check;
+ALTER TABLE escrow_accounts ADD CONSTRAINT escrow_accounts_status_check
+    CHECK (status IN ('created', 'funded', 'released', 'refunded'));
+
+DROP INDEX IF EXISTS idx_payment_transactions_gateway_transaction;
+
+DROP TABLE IF EXISTS payment_webhook_events;
@@ -0,0 +1,28 @@
+-- Migration: Create payment webhook events table
+-- Created: 2025-01-26
+-- Description: Records processed payment gateway webhook events so replays are ignored
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gateway VARCHAR(50) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    gateway_transaction_id VARCHAR(255) NOT NULL,
+    payload JSONB NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT unique_payment_webhook_event UNIQUE (gateway, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_transaction
+    ON payment_webhook_events(gateway_transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_gateway_transaction
+    ON payment_transactions(gateway_transaction_id);
+
+-- Chargebacks put escrowed funds in dispute
+ALTER TABLE escrow_accounts DROP CONSTRAINT IF EXISTS escrow_accounts_status_check;
+ALTER TABLE escrow_accounts ADD CONSTRAINT escrow_accounts_status_check
+    CHECK (status IN ('created', 'funded', 'released', 'refunded', 'disputed'));
+
+COMMENT ON TABLE payment_webhook_events IS 'Payment gateway webhook events already applied, keyed by gateway event id';
@@ -0,0 +1,9 @@
+-- Rollback: Create FX rates table and allow HBAR amounts
+
+-- Fails while HBAR amounts are stored: they have no three-letter currency code
+ALTER TABLE proposal_negotiation_versions ALTER COLUMN cash_offer_currency TYPE VARCHAR(3);
+ALTER TABLE swap_proposals ALTER COLUMN cash_offer_currency TYPE VARCHAR(3);
+ALTER TABLE escrow_accounts ALTER COLUMN currency TYPE VARCHAR(3);
+ALTER TABLE payment_transactions ALTER COLUMN currency TYPE VARCHAR(3);
+
+DROP TABLE IF EXISTS fx_rates;
@@ -0,0 +1,36 @@
+-- Migration: Create FX rates table and allow HBAR amounts
+-- Created: 2025-01-26
+-- Description: Stores exchange rates used to compare cash offers across currencies
+
+-- One row per currency, quoted as units of the currency per unit of base_currency
+CREATE TABLE IF NOT EXISTS fx_rates (
+    currency VARCHAR(10) PRIMARY KEY,
+    base_currency VARCHAR(10) NOT NULL,
+    rate DECIMAL(20,10) NOT NULL CHECK (rate > 0),
+    source VARCHAR(50) NOT NULL,
+    as_of TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_fx_rates_updated_at
+    BEFORE UPDATE ON fx_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Snapshot so conversions work offline until real rates are loaded
+INSERT INTO fx_rates (currency, base_currency, rate, source, as_of) VALUES
+    ('EUR', 'USD', 0.92, 'seed', NOW()),
+    ('GBP', 'USD', 0.79, 'seed', NOW()),
+    ('CAD', 'USD', 1.36, 'seed', NOW()),
+    ('AUD', 'USD', 1.52, 'seed', NOW()),
+    ('HBAR', 'USD', 12.5, 'seed', NOW())
+ON CONFLICT (currency) DO NOTHING;
+
+-- HBAR does not fit the three-letter ISO currency columns
+ALTER TABLE payment_transactions ALTER COLUMN currency TYPE VARCHAR(10);
+ALTER TABLE escrow_accounts ALTER COLUMN currency TYPE VARCHAR(10);
+ALTER TABLE swap_proposals ALTER COLUMN cash_offer_currency TYPE VARCHAR(10);
+ALTER TABLE proposal_negotiation_versions ALTER COLUMN cash_offer_currency TYPE VARCHAR(10);
+
+COMMENT ON TABLE fx_rates IS 'Latest exchange rate per currency against base_currency, used to normalize cash offers';
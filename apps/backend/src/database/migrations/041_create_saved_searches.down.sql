@@ -0,0 +1,4 @@
+-- Rollback: Create saved searches and their matches
+
+DROP TABLE IF EXISTS saved_search_matches;
+DROP TABLE IF EXISTS saved_searches;
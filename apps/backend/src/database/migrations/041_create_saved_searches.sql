@@ -0,0 +1,41 @@
+-- Migration: Create saved searches and their matches
+-- Created: 2025-01-27
+-- Description: Lets users save browse filters and be alerted when new listings match them
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}',
+    alert_frequency VARCHAR(10) NOT NULL DEFAULT 'daily' CHECK (alert_frequency IN ('instant', 'daily', 'off')),
+    channels TEXT[] NOT NULL DEFAULT ARRAY['email', 'in_app'],
+    last_notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerting
+    ON saved_searches(alert_frequency) WHERE alert_frequency <> 'off';
+
+CREATE TRIGGER update_saved_searches_updated_at
+    BEFORE UPDATE ON saved_searches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per listing a saved search has matched; notified_at stays NULL
+-- until the match has gone out in an instant alert or a daily digest
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    matched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    notified_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (saved_search_id, booking_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+    ON saved_search_matches(saved_search_id) WHERE notified_at IS NULL;
+
+COMMENT ON TABLE saved_searches IS 'Browse filters saved by users, evaluated against newly listed and newly swappable bookings';
+COMMENT ON TABLE saved_search_matches IS 'Bookings matched by a saved search, used to avoid duplicate alerts and to build daily digests';
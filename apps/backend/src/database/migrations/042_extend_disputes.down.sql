@@ -0,0 +1,23 @@
+-- Rollback: Dispute workflow, evidence and history
+-- Evidence files stay in the file store; only their rows are dropped
+
+DROP TABLE IF EXISTS dispute_events;
+DROP TABLE IF EXISTS dispute_evidence;
+
+DROP INDEX IF EXISTS idx_disputes_sla_due;
+DROP INDEX IF EXISTS idx_disputes_active_per_reporter;
+
+ALTER TABLE disputes
+    DROP COLUMN IF EXISTS awaiting_party_id,
+    DROP COLUMN IF EXISTS sla_due_at,
+    DROP COLUMN IF EXISTS sla_breached_at,
+    DROP COLUMN IF EXISTS resolution_amount,
+    DROP COLUMN IF EXISTS resolution_currency,
+    DROP COLUMN IF EXISTS resolution_payment_transaction_id,
+    DROP COLUMN IF EXISTS resolution_blockchain_transaction_id;
+
+UPDATE disputes SET status = 'investigating' WHERE status = 'awaiting_party';
+
+ALTER TABLE disputes DROP CONSTRAINT IF EXISTS disputes_status_check;
+ALTER TABLE disputes ADD CONSTRAINT disputes_status_check
+    CHECK (status IN ('open', 'investigating', 'resolved', 'closed'));
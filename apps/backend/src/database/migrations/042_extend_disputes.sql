@@ -0,0 +1,54 @@
+-- Migration: Dispute workflow, evidence and history
+-- Created: 2025-01-28
+-- Description: Adds the awaiting_party status, SLA timers and resolution outcomes to disputes,
+--              plus evidence attachments and an event history per dispute
+
+ALTER TABLE disputes DROP CONSTRAINT IF EXISTS disputes_status_check;
+ALTER TABLE disputes ADD CONSTRAINT disputes_status_check
+    CHECK (status IN ('open', 'investigating', 'awaiting_party', 'resolved', 'closed'));
+
+ALTER TABLE disputes
+    ADD COLUMN IF NOT EXISTS awaiting_party_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS sla_due_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS sla_breached_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS resolution_amount DECIMAL(15,2),
+    ADD COLUMN IF NOT EXISTS resolution_currency VARCHAR(10),
+    ADD COLUMN IF NOT EXISTS resolution_payment_transaction_id UUID,
+    ADD COLUMN IF NOT EXISTS resolution_blockchain_transaction_id VARCHAR(255);
+
+-- Only one unfinished dispute per reporter and swap
+CREATE UNIQUE INDEX IF NOT EXISTS idx_disputes_active_per_reporter
+    ON disputes(swap_id, reporter_id) WHERE status NOT IN ('resolved', 'closed');
+CREATE INDEX IF NOT EXISTS idx_disputes_sla_due
+    ON disputes(sla_due_at) WHERE sla_breached_at IS NULL AND status NOT IN ('resolved', 'closed');
+
+-- Files live in the evidence file store; rows keep the metadata and storage key
+CREATE TABLE IF NOT EXISTS dispute_evidence (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+    uploaded_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+    storage_key VARCHAR(500) NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute ON dispute_evidence(dispute_id, created_at);
+
+CREATE TABLE IF NOT EXISTS dispute_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+    type VARCHAR(30) NOT NULL CHECK (type IN ('opened', 'status_changed', 'evidence_added', 'sla_breached', 'resolved')),
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20),
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_events_dispute ON dispute_events(dispute_id, created_at);
+
+COMMENT ON TABLE dispute_evidence IS 'Files attached to a dispute by its parties or support staff';
+COMMENT ON TABLE dispute_events IS 'Status changes and other events in the life of a dispute';
@@ -0,0 +1,8 @@
+-- Rollback: Booking verification pipeline
+-- Document files stay in the file store; only their rows are dropped
+
+DROP TABLE IF EXISTS booking_verifications;
+DROP TABLE IF EXISTS booking_verification_documents;
+
+ALTER TABLE bookings ALTER COLUMN verification_status SET DEFAULT 'verified';
+COMMENT ON COLUMN bookings.verification_status IS 'Verification status: verified (default), pending, or failed';
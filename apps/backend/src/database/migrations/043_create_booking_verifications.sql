@@ -0,0 +1,57 @@
+-- Migration: Booking verification pipeline
+-- Created: 2025-01-29
+-- Description: Confirmation documents uploaded by booking owners, verification attempts with the
+--              checks behind their outcome, and a review queue for attempts that need a person.
+--              New bookings now start unverified.
+
+ALTER TABLE bookings ALTER COLUMN verification_status SET DEFAULT 'pending';
+COMMENT ON COLUMN bookings.verification_status IS 'Verification status: pending (default), verified, or failed';
+
+-- Files live in the file store; rows keep the metadata, storage key and extracted details
+CREATE TABLE IF NOT EXISTS booking_verification_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    uploaded_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+    storage_key VARCHAR(500) NOT NULL UNIQUE,
+    extractor VARCHAR(50),
+    extracted JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_verification_documents_booking
+    ON booking_verification_documents(booking_id, created_at);
+
+CREATE TABLE IF NOT EXISTS booking_verifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('verified', 'rejected', 'needs_review')),
+    checks JSONB NOT NULL DEFAULT '[]',
+    provider_verifier VARCHAR(50),
+    review_reason TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_verifications_booking
+    ON booking_verifications(booking_id, created_at DESC);
+-- Review queue, oldest first
+CREATE INDEX IF NOT EXISTS idx_booking_verifications_review_queue
+    ON booking_verifications(created_at) WHERE status = 'needs_review';
+-- At most one attempt per booking waiting on a reviewer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_verifications_one_in_review
+    ON booking_verifications(booking_id) WHERE status = 'needs_review';
+
+CREATE TRIGGER update_booking_verifications_updated_at
+    BEFORE UPDATE ON booking_verifications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE booking_verification_documents IS 'Booking confirmations uploaded by owners as proof of their booking';
+COMMENT ON TABLE booking_verifications IS 'Verification attempts for bookings and their admin review';
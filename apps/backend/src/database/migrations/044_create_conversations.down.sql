@@ -0,0 +1,5 @@
+-- Rollback: Direct messaging between swap counterparties
+-- Attachment files stay in the file store; only their rows are dropped
+
+DROP TABLE IF EXISTS conversation_messages;
+DROP TABLE IF EXISTS conversations;
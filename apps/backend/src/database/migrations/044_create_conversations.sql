@@ -0,0 +1,58 @@
+-- Migration: Direct messaging between swap counterparties
+-- Created: 2025-01-31
+-- Description: Conversation threads between a swap owner and one other user, either about the
+--              swap itself or tied to a proposal, with per-party read receipts and messages that
+--              may carry an attachment.
+
+CREATE TABLE IF NOT EXISTS conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    swap_id UUID NOT NULL REFERENCES swaps(id) ON DELETE CASCADE,
+    -- Swap target or swap proposal the thread was opened from; either table, so no foreign key
+    proposal_id UUID,
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    counterparty_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    owner_last_read_at TIMESTAMP WITH TIME ZONE,
+    counterparty_last_read_at TIMESTAMP WITH TIME ZONE,
+    last_message_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT check_conversation_different_users CHECK (owner_id != counterparty_id)
+);
+
+-- One thread per proposal, and one swap thread per swap and counterparty
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_proposal
+    ON conversations(proposal_id) WHERE proposal_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_swap_counterparty
+    ON conversations(swap_id, counterparty_id) WHERE proposal_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_conversations_owner
+    ON conversations(owner_id, last_message_at DESC NULLS LAST);
+CREATE INDEX IF NOT EXISTS idx_conversations_counterparty
+    ON conversations(counterparty_id, last_message_at DESC NULLS LAST);
+
+-- Bodies are stored as written; masking happens when messages are read
+CREATE TABLE IF NOT EXISTS conversation_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL DEFAULT '',
+    contains_contact_details BOOLEAN NOT NULL DEFAULT FALSE,
+    attachment_file_name VARCHAR(255),
+    attachment_content_type VARCHAR(100),
+    attachment_size_bytes INTEGER CHECK (attachment_size_bytes > 0),
+    attachment_storage_key VARCHAR(500) UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT check_message_has_content CHECK (body <> '' OR attachment_storage_key IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation
+    ON conversation_messages(conversation_id, created_at DESC);
+
+CREATE TRIGGER update_conversations_updated_at
+    BEFORE UPDATE ON conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE conversations IS 'Direct message threads between a swap owner and a counterparty';
+COMMENT ON TABLE conversation_messages IS 'Messages in conversations, including attachment metadata';
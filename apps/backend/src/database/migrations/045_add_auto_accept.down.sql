@@ -0,0 +1,12 @@
+-- Rollback: Add proposal auto-accept settings and evaluation log
+
+DROP TABLE IF EXISTS auto_accept_evaluations;
+
+DROP INDEX IF EXISTS idx_users_auto_accept_enabled;
+
+ALTER TABLE users DROP COLUMN IF EXISTS auto_accept_enabled_at;
+ALTER TABLE users DROP COLUMN IF EXISTS auto_accept_daily_limit;
+ALTER TABLE users DROP COLUMN IF EXISTS auto_accept_min_reputation;
+ALTER TABLE users DROP COLUMN IF EXISTS auto_accept_min_compatibility;
+ALTER TABLE users DROP COLUMN IF EXISTS auto_accept_dry_run;
+ALTER TABLE users DROP COLUMN IF EXISTS auto_accept_enabled;
@@ -0,0 +1,37 @@
+-- Migration: Add proposal auto-accept settings and evaluation log
+-- Created: 2025-02-01
+-- Description: Extends the stored auto-accept criteria and records every decision the auto-accept engine makes
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_accept_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_accept_dry_run BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_accept_min_compatibility INTEGER
+    CHECK (auto_accept_min_compatibility BETWEEN 0 AND 100);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_accept_min_reputation DECIMAL(3,2)
+    CHECK (auto_accept_min_reputation BETWEEN 0 AND 5);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_accept_daily_limit INTEGER
+    CHECK (auto_accept_daily_limit > 0);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS auto_accept_enabled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_users_auto_accept_enabled ON users(id) WHERE auto_accept_enabled;
+
+-- One row per proposal the engine has looked at, so each proposal is decided
+-- once. proposal_id may point at swap_proposals or swap_targets so it is not
+-- a foreign key.
+CREATE TABLE IF NOT EXISTS auto_accept_evaluations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id UUID NOT NULL UNIQUE,
+    swap_id UUID NOT NULL REFERENCES swaps(id) ON DELETE CASCADE,
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    proposer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('accepted', 'would_accept', 'skipped', 'failed')),
+    rules JSONB NOT NULL DEFAULT '[]',
+    compatibility_score DECIMAL(5,2),
+    proposer_reputation DECIMAL(3,2),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auto_accept_evaluations_owner
+    ON auto_accept_evaluations(owner_id, created_at DESC);
+
+COMMENT ON TABLE auto_accept_evaluations IS 'Decisions made by the proposal auto-accept engine, including dry-run matches';
@@ -0,0 +1,4 @@
+-- Rollback: Create outbound webhook endpoints and their delivery log
+
+DROP TABLE IF EXISTS webhook_deliveries;
+DROP TABLE IF EXISTS webhook_endpoints;
@@ -0,0 +1,4 @@
+-- Rollback: Create API keys and their usage audit log
+
+DROP TABLE IF EXISTS api_key_usage;
+DROP TABLE IF EXISTS api_keys;
@@ -0,0 +1,4 @@
+-- Rollback: Create TOTP two-factor authentication tables
+
+DROP TABLE IF EXISTS user_two_factor_recovery_codes;
+DROP TABLE IF EXISTS user_two_factor;
@@ -0,0 +1,32 @@
+-- Migration: Create TOTP two-factor authentication tables
+-- Created: 2025-02-07
+-- Description: Stores each user's encrypted TOTP secret and hashed single-use recovery codes
+
+CREATE TABLE IF NOT EXISTS user_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    secret_encrypted TEXT NOT NULL,
+    -- NULL while enrolment is pending confirmation with a first code
+    enabled_at TIMESTAMP WITH TIME ZONE,
+    -- Time step of the last accepted code, so a code cannot be replayed
+    last_used_step BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_user_two_factor_updated_at
+    BEFORE UPDATE ON user_two_factor
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS user_two_factor_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash CHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON user_two_factor_recovery_codes(user_id) WHERE used_at IS NULL;
+
+COMMENT ON TABLE user_two_factor IS 'TOTP secrets encrypted with AES-256-GCM; a row without enabled_at is an unconfirmed enrolment';
+COMMENT ON TABLE user_two_factor_recovery_codes IS 'SHA-256 hashes of single-use recovery codes, replaced whenever new codes are generated';
@@ -0,0 +1,4 @@
+-- Rollback: Create user sessions and refresh tokens tables
+
+DROP TABLE IF EXISTS session_refresh_tokens;
+DROP TABLE IF EXISTS user_sessions;
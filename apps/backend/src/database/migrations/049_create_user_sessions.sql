@@ -0,0 +1,45 @@
+-- Migration: Create user sessions and refresh tokens tables
+-- Created: 2025-02-08
+-- Description: Tracks signed-in devices per user and the rotating refresh tokens that keep them signed in
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    login_method VARCHAR(20) NOT NULL CHECK (login_method IN ('wallet', 'email')),
+    device_name VARCHAR(100) NOT NULL,
+    -- SHA-256 of the user agent, used to spot logins from a new device
+    device_fingerprint CHAR(64) NOT NULL,
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    -- Second factor check carried over to tokens issued by refresh
+    two_factor_verified_at TIMESTAMP WITH TIME ZONE,
+    last_active_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active ON user_sessions(user_id, last_active_at DESC) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_fingerprint ON user_sessions(user_id, device_fingerprint);
+
+CREATE TRIGGER update_user_sessions_updated_at
+    BEFORE UPDATE ON user_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS session_refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Set when the token is exchanged; a second exchange is treated as theft
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_refresh_tokens_session ON session_refresh_tokens(session_id);
+
+COMMENT ON TABLE user_sessions IS 'One row per login; access tokens carry the session id and stop working once the session is revoked';
+COMMENT ON TABLE session_refresh_tokens IS 'SHA-256 hashes of single-use refresh tokens; each exchange issues the next token in the chain';
@@ -0,0 +1,3 @@
+-- Rollback: Create calendar feeds table
+
+DROP TABLE IF EXISTS calendar_feeds;
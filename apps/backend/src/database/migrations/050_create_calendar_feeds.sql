@@ -0,0 +1,19 @@
+-- Migration: Create calendar feeds table
+-- Created: 2025-02-09
+-- Description: Secret per-user iCalendar feed tokens for subscribing to stays and swap deadlines
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    -- SHA-256 of the token in the feed URL; resetting the feed replaces it
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+    BEFORE UPDATE ON calendar_feeds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE calendar_feeds IS 'One secret iCalendar feed per user; events are generated from live booking, swap and auction data on each fetch';
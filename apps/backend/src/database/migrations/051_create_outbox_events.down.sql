@@ -0,0 +1,3 @@
+-- Rollback: Create transactional outbox for blockchain records and notifications
+
+DROP TABLE IF EXISTS outbox_events;
@@ -0,0 +1,4 @@
+-- Rollback: Create ledger reconciliation reports
+
+DROP TABLE IF EXISTS ledger_reconciliation_reports;
+ALTER TABLE swap_targets DROP COLUMN IF EXISTS blockchain_transaction_id;
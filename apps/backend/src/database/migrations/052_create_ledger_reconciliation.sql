@@ -0,0 +1,39 @@
+-- Migration: Create ledger reconciliation reports
+-- Created: 2025-02-11
+-- Description: Stores the results of comparing blockchain references in the database with the Hedera mirror node, and records the Hedera transaction of each swap target
+
+-- Targeting records are written to Hedera through the outbox; the relay stores the resulting transaction here
+ALTER TABLE swap_targets ADD COLUMN IF NOT EXISTS blockchain_transaction_id VARCHAR(255);
+
+CREATE TABLE IF NOT EXISTS ledger_reconciliation_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'admin', 'cli')),
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    sources TEXT[] NOT NULL,
+    mirror_node_url VARCHAR(255),
+    records_checked INTEGER NOT NULL DEFAULT 0,
+    discrepancy_count INTEGER NOT NULL DEFAULT 0,
+    summary JSONB NOT NULL DEFAULT '{}',
+    discrepancies JSONB NOT NULL DEFAULT '[]',
+    -- Records that could not be checked because the mirror node failed
+    check_errors JSONB NOT NULL DEFAULT '[]',
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_reconciliation_reports_created ON ledger_reconciliation_reports(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_reconciliation_reports_active ON ledger_reconciliation_reports(status)
+    WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_ledger_reconciliation_reports_updated_at
+    BEFORE UPDATE ON ledger_reconciliation_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE ledger_reconciliation_reports IS 'Runs of the ledger reconciliation job: missing, failed and mismatched Hedera transactions and NFT ownership drift found for bookings, swaps, payments and swap targets';
+COMMENT ON COLUMN swap_targets.blockchain_transaction_id IS 'Hedera transaction recording the target; set once the outbox event is delivered';
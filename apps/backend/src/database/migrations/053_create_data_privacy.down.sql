@@ -0,0 +1,5 @@
+-- Rollback: Create data export requests and account deletion marker
+
+ALTER TABLE users DROP COLUMN IF EXISTS deleted_at;
+
+DROP TABLE IF EXISTS data_export_requests;
@@ -0,0 +1,32 @@
+-- Migration: Create data export requests and account deletion marker
+-- Created: 2025-02-12
+-- Description: Self-service personal data exports and anonymized account deletion
+
+CREATE TABLE IF NOT EXISTS data_export_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'ready', 'failed', 'expired')),
+    -- Storage key of the archive while it can be downloaded
+    file_key VARCHAR(255),
+    file_size INTEGER,
+    error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_export_requests_user ON data_export_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_export_requests_expiry ON data_export_requests(expires_at) WHERE status = 'ready';
+
+CREATE TRIGGER update_data_export_requests_updated_at
+    BEFORE UPDATE ON data_export_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Deleted accounts keep their row so that swaps, payments and blockchain
+-- records stay attached; personal fields are cleared instead
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON TABLE data_export_requests IS 'Personal data archives requested by users; files are removed when the download expires';
+COMMENT ON COLUMN users.deleted_at IS 'When the account was deleted and its personal data anonymized';
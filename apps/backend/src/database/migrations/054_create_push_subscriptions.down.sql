@@ -0,0 +1,10 @@
+-- Rollback: Create Web Push subscriptions and per-type push opt-in
+
+DELETE FROM outbox_events WHERE destination = 'push';
+ALTER TABLE outbox_events DROP CONSTRAINT IF EXISTS outbox_events_destination_check;
+ALTER TABLE outbox_events ADD CONSTRAINT outbox_events_destination_check
+    CHECK (destination IN ('hedera', 'email', 'sms', 'websocket'));
+
+ALTER TABLE notification_preferences DROP COLUMN IF EXISTS push_types;
+
+DROP TABLE IF EXISTS push_subscriptions;
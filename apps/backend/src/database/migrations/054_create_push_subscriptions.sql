@@ -0,0 +1,39 @@
+-- Migration: Create Web Push subscriptions and per-type push opt-in
+-- Created: 2025-02-13
+-- Description: Browser push subscriptions per device, push_types on notification preferences and a push outbox destination
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Push service URL; identifies the browser profile the subscription belongs to
+    endpoint TEXT NOT NULL UNIQUE,
+    -- Browser keys used to encrypt payloads (base64url)
+    p256dh VARCHAR(255) NOT NULL,
+    auth VARCHAR(255) NOT NULL,
+    device_name VARCHAR(100) NOT NULL,
+    user_agent TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    -- Consecutive failed deliveries, reset on success
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    last_success_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_expiry ON push_subscriptions(expires_at) WHERE expires_at IS NOT NULL;
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+    BEFORE UPDATE ON push_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Push is opt-in per notification type
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS push_types TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE outbox_events DROP CONSTRAINT IF EXISTS outbox_events_destination_check;
+ALTER TABLE outbox_events ADD CONSTRAINT outbox_events_destination_check
+    CHECK (destination IN ('hedera', 'email', 'sms', 'websocket', 'push'));
+
+COMMENT ON TABLE push_subscriptions IS 'Browser Web Push subscriptions; removed when the push service reports them gone, they expire or keep failing';
+COMMENT ON COLUMN notification_preferences.push_types IS 'Notification types the user opted in to receive as push notifications';
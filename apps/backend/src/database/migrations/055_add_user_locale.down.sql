@@ -0,0 +1,4 @@
+-- Rollback: Add user locale preference
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_locale_check;
+ALTER TABLE users DROP COLUMN IF EXISTS locale;
@@ -0,0 +1,10 @@
+-- Migration: Add user locale preference
+-- Created: 2025-02-14
+-- Description: Language the user reads the app and receives notifications in
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale VARCHAR(5) NOT NULL DEFAULT 'en';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_locale_check;
+ALTER TABLE users ADD CONSTRAINT users_locale_check CHECK (locale IN ('en', 'es', 'fr'));
+
+COMMENT ON COLUMN users.locale IS 'Preferred language for the frontend and notification templates; must match a shared translation catalog';
@@ -0,0 +1,4 @@
+-- Rollback: Add booking coordinates index
+
+DROP INDEX IF EXISTS idx_bookings_coordinates;
+COMMENT ON COLUMN bookings.coordinates IS NULL;
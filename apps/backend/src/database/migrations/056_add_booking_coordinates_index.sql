@@ -0,0 +1,7 @@
+-- Migration: Add booking coordinates index
+-- Created: 2025-02-15
+-- Description: GiST index for the map view's bounding-box search. Uses the built-in point operators, so PostGIS is not needed
+
+CREATE INDEX IF NOT EXISTS idx_bookings_coordinates ON bookings USING gist(coordinates) WHERE coordinates IS NOT NULL;
+
+COMMENT ON COLUMN bookings.coordinates IS 'Location as (latitude, longitude); filled by the geocoder from city and country when not supplied';
@@ -0,0 +1,4 @@
+-- Rollback: Add reputation refresh tracking
+
+DROP INDEX IF EXISTS idx_reviews_visible_at;
+ALTER TABLE users DROP COLUMN IF EXISTS reputation_updated_at;
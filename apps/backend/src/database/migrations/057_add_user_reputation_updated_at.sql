@@ -0,0 +1,10 @@
+-- Migration: Add reputation refresh tracking
+-- Created: 2025-02-16
+-- Description: Records when a user's stored reputation was last recomputed, so reviews
+-- that become visible when their review window closes can be counted by a scheduled job
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS reputation_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_visible_at ON reviews(visible_at);
+
+COMMENT ON COLUMN users.reputation_updated_at IS 'When reputation_score was last recomputed; visible reviews newer than this are not counted yet';
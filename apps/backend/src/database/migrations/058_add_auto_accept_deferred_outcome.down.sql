@@ -0,0 +1,12 @@
+-- Rollback: Defer auto-accept decisions held back by the daily limit
+
+-- Deferred proposals were never decided, so dropping their rows hands them back to the engine
+DELETE FROM auto_accept_evaluations WHERE outcome = 'deferred';
+
+DROP INDEX IF EXISTS idx_auto_accept_evaluations_retry;
+
+ALTER TABLE auto_accept_evaluations DROP COLUMN IF EXISTS retry_at;
+
+ALTER TABLE auto_accept_evaluations DROP CONSTRAINT IF EXISTS auto_accept_evaluations_outcome_check;
+ALTER TABLE auto_accept_evaluations ADD CONSTRAINT auto_accept_evaluations_outcome_check
+    CHECK (outcome IN ('accepted', 'would_accept', 'skipped', 'failed'));
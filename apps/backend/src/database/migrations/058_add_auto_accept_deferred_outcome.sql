@@ -0,0 +1,15 @@
+-- Migration: Defer auto-accept decisions held back by the daily limit
+-- Created: 2025-02-16
+-- Description: Proposals that match the owner's criteria but arrive once the daily auto-accept
+-- limit is used up are recorded as deferred and evaluated again when the limit resets
+
+ALTER TABLE auto_accept_evaluations DROP CONSTRAINT IF EXISTS auto_accept_evaluations_outcome_check;
+ALTER TABLE auto_accept_evaluations ADD CONSTRAINT auto_accept_evaluations_outcome_check
+    CHECK (outcome IN ('accepted', 'would_accept', 'skipped', 'deferred', 'failed'));
+
+ALTER TABLE auto_accept_evaluations ADD COLUMN IF NOT EXISTS retry_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_auto_accept_evaluations_retry
+    ON auto_accept_evaluations(retry_at) WHERE outcome = 'deferred';
+
+COMMENT ON COLUMN auto_accept_evaluations.retry_at IS 'When a deferred proposal is evaluated again, once the daily limit has room';
@@ -0,0 +1,4 @@
+-- Rollback: Retire the admin:* API key scope
+
+-- Keys revoked by the migration stay revoked and cannot be told apart from
+-- other revoked keys, so there is nothing to restore
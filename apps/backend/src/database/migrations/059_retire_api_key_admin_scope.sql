@@ -0,0 +1,12 @@
+-- Migration: Retire the admin:* API key scope
+-- Created: 2025-02-16
+-- Description: Admin routes require a recent second factor, which a key cannot pass, so admin:* never reached them;
+-- keys that carried it are revoked rather than silently narrowed, and the scope is removed from stored keys
+
+UPDATE api_keys
+SET revoked_at = NOW()
+WHERE 'admin:*' = ANY(scopes) AND revoked_at IS NULL;
+
+UPDATE api_keys
+SET scopes = array_remove(scopes, 'admin:*')
+WHERE 'admin:*' = ANY(scopes);
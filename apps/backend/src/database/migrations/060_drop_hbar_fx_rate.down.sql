@@ -0,0 +1,5 @@
+-- Rollback: Drop the seeded HBAR exchange rate
+
+INSERT INTO fx_rates (currency, base_currency, rate, source, as_of) VALUES
+    ('HBAR', 'USD', 12.5, 'seed', NOW())
+ON CONFLICT (currency) DO NOTHING;
@@ -0,0 +1,5 @@
+-- Migration: Drop the seeded HBAR exchange rate
+-- Created: 2025-02-16
+-- Description: Cash offers cannot be settled in HBAR, so HBAR is no longer a supported currency and needs no rate
+
+DELETE FROM fx_rates WHERE currency = 'HBAR';
@@ -0,0 +1,3 @@
+-- Rollback: Add booking geocode attempts
+
+ALTER TABLE bookings DROP COLUMN IF EXISTS geocode_attempted_at;
@@ -0,0 +1,7 @@
+-- Migration: Add booking geocode attempts
+-- Created: 2025-02-16
+-- Description: Records when the coordinate backfill last failed to place a booking, so bookings the geocoder cannot place are retried after the others instead of blocking them
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS geocode_attempted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN bookings.geocode_attempted_at IS 'When the geocoder last failed to place this booking; NULL if never tried';
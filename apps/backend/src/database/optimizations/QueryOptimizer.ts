@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import { logger } from '../../utils/logger';
+import { buildDateRangeConditions } from '../repositories/BookingRepository';
 
 export interface QueryOptimizationConfig {
   enableQueryPlan: boolean;
@@ -137,25 +138,10 @@ export class QueryOptimizer {
     }
 
     // Date range filters with composite index
-    if (criteria.dateRange?.checkIn) {
-      if (criteria.dateRange.flexible) {
-        conditions.push(`check_out_date >= $${paramIndex}`);
-      } else {
-        conditions.push(`check_in_date >= $${paramIndex}`);
-      }
-      params.push(criteria.dateRange.checkIn);
-      paramIndex++;
-    }
-
-    if (criteria.dateRange?.checkOut) {
-      if (criteria.dateRange.flexible) {
-        conditions.push(`check_in_date <= $${paramIndex}`);
-      } else {
-        conditions.push(`check_out_date <= $${paramIndex}`);
-      }
-      params.push(criteria.dateRange.checkOut);
-      paramIndex++;
-    }
+    const dateFilters = buildDateRangeConditions(criteria.dateRange, paramIndex);
+    conditions.push(...dateFilters.conditions);
+    params.push(...dateFilters.values);
+    paramIndex += dateFilters.values.length;
 
     // Price range with index
     if (criteria.priceRange?.min !== undefined) {
@@ -0,0 +1,163 @@
+import { Pool } from 'pg';
+import { ApiKey, ApiKeyScope, ApiKeyUsage } from '@booking-swap/shared';
+import { BaseRepository } from './base';
+
+export interface ApiKeyRecord extends ApiKey {
+  keyHash: string;
+}
+
+export interface CreateApiKeyUsageData {
+  apiKeyId: string;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+  requestId?: string;
+}
+
+const MAX_USAGE_PAGE = 100;
+
+export class ApiKeyRepository extends BaseRepository<ApiKeyRecord> {
+  constructor(pool: Pool) {
+    super(pool, 'api_keys');
+  }
+
+  mapRowToEntity(row: any): ApiKeyRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      keyHash: row.key_hash,
+      scopes: (row.scopes || []) as ApiKeyScope[],
+      rateLimitPerMinute: row.rate_limit_per_minute,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      lastUsedIp: row.last_used_ip || undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      replacedBy: row.replaced_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<ApiKeyRecord, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    // A key created without an expiry leaves expires_at out of the insert
+    const row: Record<string, any> = {};
+    if (entity.userId !== undefined) row.user_id = entity.userId;
+    if (entity.name !== undefined) row.name = entity.name;
+    if (entity.keyPrefix !== undefined) row.key_prefix = entity.keyPrefix;
+    if (entity.keyHash !== undefined) row.key_hash = entity.keyHash;
+    if (entity.scopes !== undefined) row.scopes = entity.scopes;
+    if (entity.rateLimitPerMinute !== undefined) {
+      row.rate_limit_per_minute = entity.rateLimitPerMinute;
+    }
+    if (entity.expiresAt !== undefined) row.expires_at = entity.expiresAt;
+    return row;
+  }
+
+  async findByUserId(userId: string): Promise<ApiKeyRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_keys WHERE key_hash = $1`,
+      [keyHash]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Keys of the user that are neither revoked nor expired
+   */
+  async countActiveByUserId(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM api_keys
+       WHERE user_id = $1 AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Point a rotated key at its replacement and cut its lifetime short,
+   * keeping an earlier expiry if it already had one
+   */
+  async markReplaced(
+    id: string,
+    replacedBy: string,
+    expiresAt: Date
+  ): Promise<ApiKeyRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE api_keys
+       SET replaced_by = $2, expires_at = LEAST(COALESCE(expires_at, $3), $3)
+       WHERE id = $1
+       RETURNING *`,
+      [id, replacedBy, expiresAt]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async recordUse(id: string, ip?: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE api_keys SET last_used_at = NOW(), last_used_ip = $2 WHERE id = $1`,
+      [id, ip || null]
+    );
+  }
+
+  async createUsage(data: CreateApiKeyUsageData): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO api_key_usage (api_key_id, method, path, status_code, ip, request_id)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        data.apiKeyId,
+        data.method,
+        data.path,
+        data.statusCode,
+        data.ip || null,
+        data.requestId || null,
+      ]
+    );
+  }
+
+  async findUsageByKey(
+    apiKeyId: string,
+    limit: number = 50
+  ): Promise<ApiKeyUsage[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_key_usage
+       WHERE api_key_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [apiKeyId, Math.min(Math.max(limit, 1), MAX_USAGE_PAGE)]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      apiKeyId: row.api_key_id,
+      method: row.method,
+      path: row.path,
+      statusCode: row.status_code,
+      ip: row.ip || undefined,
+      requestId: row.request_id || undefined,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+}
@@ -0,0 +1,297 @@
+import { Pool } from 'pg';
+import {
+  AutoAcceptEvaluation,
+  AutoAcceptEvaluationFilters,
+  AutoAcceptOutcome,
+  AutoAcceptRuleResult,
+  SwapCriteria,
+} from '@booking-swap/shared';
+
+export interface AutoAcceptBooking {
+  title: string;
+  type: string;
+  city: string;
+  country: string;
+  checkIn: Date;
+  checkOut: Date;
+  swapValue: number;
+}
+
+/**
+ * A pending proposal to a first-match swap whose owner has auto-accept
+ * switched on and that the engine has not decided yet
+ */
+export interface AutoAcceptCandidate {
+  proposalId: string;
+  swapId: string;
+  ownerId: string;
+  proposerId: string;
+  criteria: SwapCriteria;
+  additionalPayment?: number;
+  proposerReputation: number;
+  ownerBooking: AutoAcceptBooking;
+  offeredBooking: AutoAcceptBooking;
+  createdAt: Date;
+}
+
+export interface CreateAutoAcceptEvaluationData {
+  proposalId: string;
+  swapId: string;
+  ownerId: string;
+  proposerId: string;
+  outcome: AutoAcceptOutcome;
+  rules: AutoAcceptRuleResult[];
+  compatibilityScore?: number;
+  proposerReputation?: number;
+  retryAt?: Date;
+}
+
+const MAX_EVALUATIONS_PAGE = 100;
+
+// Shared by both proposal tables: tb/ts are the owner's booking and swap,
+// sb the offered booking, u the owner and pu the proposer
+const CANDIDATE_COLUMNS = `
+  tb.title AS owner_title, tb.type AS owner_type, tb.city AS owner_city,
+  tb.country AS owner_country, tb.check_in_date AS owner_check_in,
+  tb.check_out_date AS owner_check_out, tb.swap_value AS owner_swap_value,
+  sb.title AS offered_title, sb.type AS offered_type, sb.city AS offered_city,
+  sb.country AS offered_country, sb.check_in_date AS offered_check_in,
+  sb.check_out_date AS offered_check_out, sb.swap_value AS offered_swap_value,
+  u.auto_accept_max_payment, u.auto_accept_locations, u.auto_accept_booking_types,
+  u.auto_accept_dry_run, u.auto_accept_min_compatibility, u.auto_accept_min_reputation,
+  u.auto_accept_daily_limit, u.auto_accept_enabled_at,
+  pu.reputation_score AS proposer_reputation`;
+
+const CANDIDATE_CONDITIONS = `
+  u.auto_accept_enabled
+  AND ts.status = 'pending'
+  AND COALESCE(ts.acceptance_strategy->>'type', 'first_match') = 'first_match'`;
+
+export class AutoAcceptRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Undecided proposals received after their owner switched auto-accept on,
+   * oldest first, along with deferred ones that are due again. Proposals with
+   * a counter-offer are being negotiated by hand and are left out.
+   */
+  async findCandidates(limit: number): Promise<AutoAcceptCandidate[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM (
+         SELECT st.id AS proposal_id, st.target_swap_id AS swap_id, st.created_at,
+                tb.user_id AS owner_id, sb.user_id AS proposer_id,
+                ss.additional_payment, ${CANDIDATE_COLUMNS}
+         FROM swap_targets st
+         JOIN swaps ts ON st.target_swap_id = ts.id
+         JOIN bookings tb ON ts.source_booking_id = tb.id
+         JOIN swaps ss ON st.source_swap_id = ss.id
+         JOIN bookings sb ON ss.source_booking_id = sb.id
+         JOIN users u ON u.id = tb.user_id
+         JOIN users pu ON pu.id = sb.user_id
+         WHERE st.status = 'active'
+           AND st.created_at >= u.auto_accept_enabled_at
+           AND ${CANDIDATE_CONDITIONS}
+
+         UNION ALL
+
+         SELECT sp.id AS proposal_id, sp.target_swap_id AS swap_id, sp.created_at,
+                sp.target_user_id AS owner_id, sp.proposer_id,
+                sp.additional_payment, ${CANDIDATE_COLUMNS}
+         FROM swap_proposals sp
+         JOIN swaps ts ON sp.target_swap_id = ts.id
+         JOIN bookings tb ON ts.source_booking_id = tb.id
+         JOIN swaps ss ON sp.source_swap_id = ss.id
+         JOIN bookings sb ON ss.source_booking_id = sb.id
+         JOIN users u ON u.id = sp.target_user_id
+         JOIN users pu ON pu.id = sp.proposer_id
+         WHERE sp.status = 'pending'
+           AND sp.proposal_type = 'booking'
+           AND sp.expires_at > NOW()
+           AND sp.created_at >= u.auto_accept_enabled_at
+           AND ${CANDIDATE_CONDITIONS}
+       ) candidates
+       WHERE NOT EXISTS (
+           SELECT 1 FROM auto_accept_evaluations e
+           WHERE e.proposal_id = candidates.proposal_id
+             AND NOT (e.outcome = 'deferred' AND e.retry_at <= NOW())
+         )
+         AND NOT EXISTS (
+           SELECT 1 FROM proposal_negotiation_versions n WHERE n.proposal_id = candidates.proposal_id
+         )
+       ORDER BY created_at ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(row => this.mapRowToCandidate(row));
+  }
+
+  /**
+   * Record a decision. Returns null when the proposal was already decided,
+   * which is how concurrent runs avoid accepting the same proposal twice. A
+   * deferred decision that is due is replaced, and dated now so an acceptance
+   * counts towards today's limit.
+   */
+  async recordEvaluation(
+    data: CreateAutoAcceptEvaluationData
+  ): Promise<AutoAcceptEvaluation | null> {
+    const result = await this.pool.query(
+      `INSERT INTO auto_accept_evaluations (
+         proposal_id, swap_id, owner_id, proposer_id, outcome, rules,
+         compatibility_score, proposer_reputation, retry_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (proposal_id) DO UPDATE SET
+         outcome = EXCLUDED.outcome,
+         rules = EXCLUDED.rules,
+         compatibility_score = EXCLUDED.compatibility_score,
+         proposer_reputation = EXCLUDED.proposer_reputation,
+         retry_at = EXCLUDED.retry_at,
+         created_at = NOW()
+       WHERE auto_accept_evaluations.outcome = 'deferred'
+         AND auto_accept_evaluations.retry_at <= NOW()
+       RETURNING *`,
+      [
+        data.proposalId,
+        data.swapId,
+        data.ownerId,
+        data.proposerId,
+        data.outcome,
+        JSON.stringify(data.rules),
+        data.compatibilityScore ?? null,
+        data.proposerReputation ?? null,
+        data.retryAt ?? null,
+      ]
+    );
+    return result.rows[0] ? this.mapRowToEvaluation(result.rows[0]) : null;
+  }
+
+  async markFailed(evaluationId: string, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE auto_accept_evaluations SET outcome = 'failed', error = $2 WHERE id = $1`,
+      [evaluationId, error]
+    );
+  }
+
+  /**
+   * How many proposals the owner's criteria accepted (or, in dry-run, would
+   * have accepted) since the given time
+   */
+  async countAcceptedSince(ownerId: string, since: Date): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM auto_accept_evaluations
+       WHERE owner_id = $1
+         AND outcome IN ('accepted', 'would_accept')
+         AND created_at >= $2`,
+      [ownerId, since]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * When the oldest acceptance counted since the given time was made, which
+   * is when the rolling daily limit next frees up a slot
+   */
+  async findOldestAcceptedSince(
+    ownerId: string,
+    since: Date
+  ): Promise<Date | null> {
+    const result = await this.pool.query(
+      `SELECT MIN(created_at) AS oldest FROM auto_accept_evaluations
+       WHERE owner_id = $1
+         AND outcome IN ('accepted', 'would_accept')
+         AND created_at >= $2`,
+      [ownerId, since]
+    );
+    return result.rows[0]?.oldest ? new Date(result.rows[0].oldest) : null;
+  }
+
+  async findByOwner(
+    ownerId: string,
+    filters: AutoAcceptEvaluationFilters = {}
+  ): Promise<AutoAcceptEvaluation[]> {
+    const limit = Math.min(
+      Math.max(filters.limit || 50, 1),
+      MAX_EVALUATIONS_PAGE
+    );
+    const result = await this.pool.query(
+      `SELECT * FROM auto_accept_evaluations
+       WHERE owner_id = $1
+         AND ($2::text IS NULL OR outcome = $2::text)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [ownerId, filters.outcome || null, limit]
+    );
+    return result.rows.map(row => this.mapRowToEvaluation(row));
+  }
+
+  private mapRowToCandidate(row: any): AutoAcceptCandidate {
+    return {
+      proposalId: row.proposal_id,
+      swapId: row.swap_id,
+      ownerId: row.owner_id,
+      proposerId: row.proposer_id,
+      criteria: {
+        enabled: true,
+        maxAdditionalPayment:
+          row.auto_accept_max_payment !== null
+            ? parseFloat(row.auto_accept_max_payment)
+            : undefined,
+        preferredLocations: row.auto_accept_locations || [],
+        bookingTypes: row.auto_accept_booking_types || [],
+        dryRun: row.auto_accept_dry_run,
+        minCompatibilityScore: row.auto_accept_min_compatibility ?? undefined,
+        minCounterpartyReputation:
+          row.auto_accept_min_reputation !== null
+            ? parseFloat(row.auto_accept_min_reputation)
+            : undefined,
+        dailyLimit: row.auto_accept_daily_limit ?? undefined,
+        enabledAt: new Date(row.auto_accept_enabled_at),
+      },
+      additionalPayment:
+        row.additional_payment !== null
+          ? parseFloat(row.additional_payment)
+          : undefined,
+      proposerReputation: parseFloat(row.proposer_reputation || 0),
+      ownerBooking: this.mapBooking(row, 'owner'),
+      offeredBooking: this.mapBooking(row, 'offered'),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapBooking(row: any, prefix: 'owner' | 'offered'): AutoAcceptBooking {
+    return {
+      title: row[`${prefix}_title`],
+      type: row[`${prefix}_type`],
+      city: row[`${prefix}_city`],
+      country: row[`${prefix}_country`],
+      checkIn: new Date(row[`${prefix}_check_in`]),
+      checkOut: new Date(row[`${prefix}_check_out`]),
+      swapValue: parseFloat(row[`${prefix}_swap_value`] || 0),
+    };
+  }
+
+  private mapRowToEvaluation(row: any): AutoAcceptEvaluation {
+    return {
+      id: row.id,
+      proposalId: row.proposal_id,
+      swapId: row.swap_id,
+      ownerId: row.owner_id,
+      proposerId: row.proposer_id,
+      outcome: row.outcome,
+      rules:
+        typeof row.rules === 'string' ? JSON.parse(row.rules) : row.rules || [],
+      compatibilityScore:
+        row.compatibility_score !== null
+          ? parseFloat(row.compatibility_score)
+          : undefined,
+      proposerReputation:
+        row.proposer_reputation !== null
+          ? parseFloat(row.proposer_reputation)
+          : undefined,
+      error: row.error || undefined,
+      retryAt: row.retry_at ? new Date(row.retry_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
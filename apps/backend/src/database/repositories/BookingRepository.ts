@@ -1,5 +1,14 @@
 import { Pool } from 'pg';
-import { Booking, BookingType, BookingStatus, VerificationStatus } from '@booking-swap/shared';
+import {
+  Booking,
+  BookingType,
+  BookingStatus,
+  DateWindow,
+  MapBounds,
+  MapCluster,
+  MAX_MAP_CLUSTERS,
+  VerificationStatus,
+} from '@booking-swap/shared';
 import { BaseRepository } from './base';
 
 export interface BookingFilters {
@@ -26,11 +35,7 @@ export interface BookingSearchCriteria {
     radius?: number; // in km
     coordinates?: [number, number];
   };
-  dateRange?: {
-    checkIn?: Date;
-    checkOut?: Date;
-    flexible?: boolean;
-  };
+  dateRange?: BookingDateRangeCriteria;
   priceRange?: {
     min?: number;
     max?: number;
@@ -38,6 +43,109 @@ export interface BookingSearchCriteria {
   types?: BookingType[];
 }
 
+export interface BookingDateRangeCriteria {
+  checkIn?: Date;
+  checkOut?: Date;
+  flexible?: boolean; // any overlap with checkIn - checkOut
+  flexibleDays?: number; // check-in and check-out each up to ±N days away
+  windows?: DateWindow[]; // overlapping any window by at least minNights
+  minNights?: number;
+  maxNights?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date: Date, days: number): Date =>
+  new Date(new Date(date).getTime() + days * DAY_MS);
+
+/**
+ * WHERE conditions for a search date range, numbering parameters from
+ * startIndex. Shared by the repository, count and optimized search queries
+ * so they all return the same bookings.
+ */
+export const buildDateRangeConditions = (
+  dateRange: BookingDateRangeCriteria | undefined,
+  startIndex: number
+): { conditions: string[]; values: any[] } => {
+  const conditions: string[] = [];
+  const values: any[] = [];
+  let paramIndex = startIndex;
+
+  if (!dateRange) {
+    return { conditions, values };
+  }
+
+  const shiftDays = dateRange.flexibleDays ?? 0;
+
+  if (dateRange.checkIn) {
+    if (shiftDays > 0) {
+      conditions.push(`check_in_date >= $${paramIndex++}`);
+      conditions.push(`check_in_date < $${paramIndex++}`);
+      values.push(
+        shiftDate(dateRange.checkIn, -shiftDays),
+        shiftDate(dateRange.checkIn, shiftDays + 1)
+      );
+    } else if (dateRange.flexible) {
+      // Flexible dates: allow some overlap
+      conditions.push(`check_out_date >= $${paramIndex++}`);
+      values.push(dateRange.checkIn);
+    } else {
+      conditions.push(`check_in_date >= $${paramIndex++}`);
+      values.push(dateRange.checkIn);
+    }
+  }
+
+  if (dateRange.checkOut) {
+    if (shiftDays > 0) {
+      conditions.push(`check_out_date >= $${paramIndex++}`);
+      conditions.push(`check_out_date < $${paramIndex++}`);
+      values.push(
+        shiftDate(dateRange.checkOut, -shiftDays),
+        shiftDate(dateRange.checkOut, shiftDays + 1)
+      );
+    } else if (dateRange.flexible) {
+      conditions.push(`check_in_date <= $${paramIndex++}`);
+      values.push(dateRange.checkOut);
+    } else {
+      conditions.push(`check_out_date <= $${paramIndex++}`);
+      values.push(dateRange.checkOut);
+    }
+  }
+
+  // A partial overlap counts, so "any 5 nights in July" also finds a stay
+  // from June 28 to July 6
+  if (dateRange.windows && dateRange.windows.length > 0) {
+    const minOverlapIndex = paramIndex++;
+    values.push(Math.max(dateRange.minNights ?? 1, 1));
+
+    const windowConditions = dateRange.windows.map(window => {
+      const windowStartIndex = paramIndex++;
+      const windowEndIndex = paramIndex++;
+      values.push(window.start, window.end);
+      return `LEAST(check_out_date::date, $${windowEndIndex}::date) - GREATEST(check_in_date::date, $${windowStartIndex}::date) >= $${minOverlapIndex}`;
+    });
+    conditions.push(`(${windowConditions.join(' OR ')})`);
+  }
+
+  if (dateRange.minNights !== undefined) {
+    conditions.push(`check_out_date::date - check_in_date::date >= $${paramIndex++}`);
+    values.push(dateRange.minNights);
+  }
+
+  if (dateRange.maxNights !== undefined) {
+    conditions.push(`check_out_date::date - check_in_date::date <= $${paramIndex++}`);
+    values.push(dateRange.maxNights);
+  }
+
+  return { conditions, values };
+};
+
+export interface MapClusterOptions {
+  excludeUserId?: string;
+  // Only bookings someone has offered for a swap, like the browse list
+  swapAvailable?: boolean;
+}
+
 export class BookingRepository extends BaseRepository<Booking> {
   constructor(pool: Pool) {
     super(pool, 'bookings');
@@ -135,6 +243,30 @@ export class BookingRepository extends BaseRepository<Booking> {
     return result.rows.map(row => this.mapRowToEntity(row));
   }
 
+  /**
+   * Available bookings listed since the given time, or put up for swap since then
+   */
+  async findListedSince(since: Date, limit: number = 500): Promise<Booking[]> {
+    const query = `
+      SELECT b.* FROM ${this.tableName} b
+      WHERE b.status = 'available'
+        AND (
+          b.created_at >= $1
+          OR EXISTS (
+            SELECT 1 FROM swaps s
+            WHERE s.source_booking_id = b.id
+              AND s.status = 'pending'
+              AND s.created_at >= $1
+          )
+        )
+      ORDER BY b.created_at ASC
+      LIMIT $2
+    `;
+    const result = await this.pool.query(query, [since, limit]);
+
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
   async findByFilters(filters: BookingFilters, limit: number = 100, offset: number = 0): Promise<Booking[]> {
     const conditions: string[] = [];
     const values: any[] = [];
@@ -214,7 +346,11 @@ export class BookingRepository extends BaseRepository<Booking> {
     return result.rows.map(row => this.mapRowToEntity(row));
   }
 
-  async searchBookings(criteria: BookingSearchCriteria, limit: number = 100, offset: number = 0): Promise<Booking[]> {
+  /**
+   * WHERE conditions for searching available bookings. The status is always
+   * $1 and a full-text query always $2, which searchBookings ranks by.
+   */
+  private buildSearchConditions(criteria: BookingSearchCriteria): { conditions: string[]; values: any[] } {
     const conditions: string[] = ['status = $1']; // Only show available bookings
     const values: any[] = ['available'];
     let paramIndex = 2;
@@ -250,26 +386,10 @@ export class BookingRepository extends BaseRepository<Booking> {
     }
 
     // Date range filters
-    if (criteria.dateRange?.checkIn) {
-      if (criteria.dateRange.flexible) {
-        // Flexible dates: allow some overlap
-        conditions.push(`check_out_date >= $${paramIndex++}`);
-        values.push(criteria.dateRange.checkIn);
-      } else {
-        conditions.push(`check_in_date >= $${paramIndex++}`);
-        values.push(criteria.dateRange.checkIn);
-      }
-    }
-
-    if (criteria.dateRange?.checkOut) {
-      if (criteria.dateRange.flexible) {
-        conditions.push(`check_in_date <= $${paramIndex++}`);
-        values.push(criteria.dateRange.checkOut);
-      } else {
-        conditions.push(`check_out_date <= $${paramIndex++}`);
-        values.push(criteria.dateRange.checkOut);
-      }
-    }
+    const dateFilters = buildDateRangeConditions(criteria.dateRange, paramIndex);
+    conditions.push(...dateFilters.conditions);
+    values.push(...dateFilters.values);
+    paramIndex += dateFilters.values.length;
 
     // Price range filters
     if (criteria.priceRange?.min !== undefined) {
@@ -289,6 +409,13 @@ export class BookingRepository extends BaseRepository<Booking> {
       values.push(...criteria.types);
     }
 
+    return { conditions, values };
+  }
+
+  async searchBookings(criteria: BookingSearchCriteria, limit: number = 100, offset: number = 0): Promise<Booking[]> {
+    const { conditions, values } = this.buildSearchConditions(criteria);
+    let paramIndex = values.length + 1;
+
     const whereClause = `WHERE ${conditions.join(' AND ')}`;
     
     // Add ranking for full-text search results
@@ -313,6 +440,152 @@ export class BookingRepository extends BaseRepository<Booking> {
     return result.rows.map(row => this.mapRowToEntity(row));
   }
 
+  /**
+   * Groups available bookings inside the bounds into grid cells of
+   * cellSize degrees. Bookings without coordinates are left out.
+   */
+  async findMapClusters(
+    bounds: MapBounds,
+    cellSize: number,
+    criteria: BookingSearchCriteria = {},
+    options: MapClusterOptions = {},
+    limit: number = MAX_MAP_CLUSTERS
+  ): Promise<{ clusters: MapCluster[]; truncated: boolean }> {
+    const { conditions, values } = this.buildSearchConditions(criteria);
+    let paramIndex = values.length + 1;
+
+    // Points are stored as (lat, lng); a box crossing the antimeridian is split in two
+    conditions.push('coordinates IS NOT NULL');
+    if (bounds.west <= bounds.east) {
+      conditions.push(
+        `coordinates <@ box(point($${paramIndex++}, $${paramIndex++}), point($${paramIndex++}, $${paramIndex++}))`
+      );
+      values.push(bounds.south, bounds.west, bounds.north, bounds.east);
+    } else {
+      conditions.push(`(
+        coordinates <@ box(point($${paramIndex}, $${paramIndex + 1}), point($${paramIndex + 2}, 180))
+        OR coordinates <@ box(point($${paramIndex}, -180), point($${paramIndex + 2}, $${paramIndex + 3}))
+      )`);
+      paramIndex += 4;
+      values.push(bounds.south, bounds.west, bounds.north, bounds.east);
+    }
+
+    if (options.excludeUserId) {
+      conditions.push(`user_id != $${paramIndex++}`);
+      values.push(options.excludeUserId);
+    }
+
+    if (options.swapAvailable) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM swaps WHERE source_booking_id = ${this.tableName}.id AND status = 'pending'
+      )`);
+    }
+
+    const cellParam = paramIndex++;
+    const limitParam = paramIndex++;
+    values.push(cellSize, limit);
+
+    const query = `
+      WITH located AS (
+        SELECT id, swap_value, created_at, coordinates[0] AS lat, coordinates[1] AS lng
+        FROM ${this.tableName}
+        WHERE ${conditions.join(' AND ')}
+      ),
+      cells AS (
+        SELECT
+          FLOOR(lat / $${cellParam}) AS cell_y,
+          FLOOR(lng / $${cellParam}) AS cell_x,
+          COUNT(*)::int AS count,
+          AVG(lat) AS lat,
+          AVG(lng) AS lng,
+          MIN(lat) AS south,
+          MAX(lat) AS north,
+          MIN(lng) AS west,
+          MAX(lng) AS east,
+          MIN(swap_value) AS min_swap_value,
+          MAX(swap_value) AS max_swap_value,
+          (ARRAY_AGG(id ORDER BY created_at DESC))[1] AS booking_id
+        FROM located
+        GROUP BY cell_y, cell_x
+      )
+      SELECT c.*, COUNT(*) OVER ()::int AS total_cells,
+        b.title, b.type, b.city, b.country, s.id AS swap_id
+      FROM cells c
+      LEFT JOIN ${this.tableName} b ON c.count = 1 AND b.id = c.booking_id
+      LEFT JOIN LATERAL (
+        SELECT id FROM swaps
+        WHERE source_booking_id = b.id AND status = 'pending'
+        ORDER BY created_at DESC
+        LIMIT 1
+      ) s ON TRUE
+      ORDER BY c.count DESC, c.cell_y, c.cell_x
+      LIMIT $${limitParam}
+    `;
+
+    const result = await this.pool.query(query, values);
+
+    const clusters = result.rows.map((row): MapCluster => ({
+      id: `${cellSize}:${row.cell_y}:${row.cell_x}`,
+      coordinates: [parseFloat(row.lat), parseFloat(row.lng)] as [number, number],
+      count: row.count,
+      bounds: {
+        north: parseFloat(row.north),
+        south: parseFloat(row.south),
+        east: parseFloat(row.east),
+        west: parseFloat(row.west),
+      },
+      minSwapValue: parseFloat(row.min_swap_value),
+      maxSwapValue: parseFloat(row.max_swap_value),
+      booking: row.count === 1
+        ? {
+          id: row.booking_id,
+          title: row.title,
+          type: row.type,
+          city: row.city,
+          country: row.country,
+          swapValue: parseFloat(row.min_swap_value),
+          swapId: row.swap_id || undefined,
+        }
+        : undefined,
+    }));
+
+    return {
+      clusters,
+      truncated: result.rows.length > 0 && result.rows[0].total_cells > result.rows.length,
+    };
+  }
+
+  /**
+   * Bookings that were never placed on the map. Those never tried come first,
+   * oldest first, then those whose last failed attempt is oldest, so bookings
+   * the geocoder cannot place do not hold up the rest.
+   */
+  async findWithoutCoordinates(limit: number = 100): Promise<Booking[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE coordinates IS NULL AND city IS NOT NULL AND country IS NOT NULL
+      ORDER BY geocode_attempted_at ASC NULLS FIRST, created_at ASC, id ASC
+      LIMIT $1
+    `;
+    const result = await this.pool.query(query, [limit]);
+
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async recordGeocodeAttempt(id: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.tableName} SET geocode_attempted_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async updateCoordinates(id: string, coordinates: [number, number]): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.tableName} SET coordinates = $2, updated_at = NOW() WHERE id = $1`,
+      [id, `(${coordinates[0]},${coordinates[1]})`]
+    );
+  }
+
   async updateStatus(id: string, status: BookingStatus): Promise<Booking | null> {
     const query = `
       UPDATE ${this.tableName}
@@ -355,10 +628,13 @@ export class BookingRepository extends BaseRepository<Booking> {
       values.push(updateData.location.city);
       updates.push(`country = $${paramIndex++}`);
       values.push(updateData.location.country);
-      if (updateData.location.coordinates) {
-        updates.push(`coordinates = $${paramIndex++}`);
-        values.push(`(${updateData.location.coordinates[0]}, ${updateData.location.coordinates[1]})`);
-      }
+      // Coordinates belong to the old city unless new ones came with the location
+      updates.push(`coordinates = $${paramIndex++}`);
+      values.push(
+        updateData.location.coordinates
+          ? `(${updateData.location.coordinates[0]}, ${updateData.location.coordinates[1]})`
+          : null
+      );
     }
 
     if (updateData.dateRange !== undefined) {
@@ -0,0 +1,280 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  BookingVerificationAttempt,
+  BookingVerificationAttemptStatus,
+  BookingVerificationDocument,
+  BookingVerificationFilters,
+  ExtractedBookingDetails,
+  VerificationStatus,
+} from '@booking-swap/shared';
+import { BaseRepository } from './base';
+
+export interface CreateVerificationDocumentData {
+  bookingId: string;
+  uploadedBy: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  storageKey: string;
+  extractor?: string;
+  extracted?: ExtractedBookingDetails;
+}
+
+export interface StoredVerificationDocument
+  extends BookingVerificationDocument {
+  storageKey: string;
+}
+
+/**
+ * Verification status the booking row takes for each attempt outcome.
+ * Attempts in review leave the booking pending.
+ */
+const BOOKING_STATUS_FOR_ATTEMPT: Record<
+  BookingVerificationAttemptStatus,
+  VerificationStatus
+> = {
+  verified: 'verified',
+  rejected: 'failed',
+  needs_review: 'pending',
+};
+
+export class BookingVerificationRepository extends BaseRepository<BookingVerificationAttempt> {
+  constructor(pool: Pool) {
+    super(pool, 'booking_verifications');
+  }
+
+  mapRowToEntity(row: any): BookingVerificationAttempt {
+    return {
+      id: row.id,
+      bookingId: row.booking_id,
+      userId: row.user_id,
+      status: row.status,
+      checks: row.checks || [],
+      providerVerifier: row.provider_verifier || undefined,
+      reviewReason: row.review_reason || undefined,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewNotes: row.review_notes || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<BookingVerificationAttempt, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    // New attempts have no review yet, so the review columns stay unset
+    const row: Record<string, any> = {};
+    if (entity.bookingId !== undefined) row.booking_id = entity.bookingId;
+    if (entity.userId !== undefined) row.user_id = entity.userId;
+    if (entity.status !== undefined) row.status = entity.status;
+    if (entity.checks !== undefined) row.checks = JSON.stringify(entity.checks);
+    if (entity.providerVerifier !== undefined) {
+      row.provider_verifier = entity.providerVerifier;
+    }
+    if (entity.reviewReason !== undefined) {
+      row.review_reason = entity.reviewReason;
+    }
+    if (entity.reviewedBy !== undefined) row.reviewed_by = entity.reviewedBy;
+    if (entity.reviewedAt !== undefined) row.reviewed_at = entity.reviewedAt;
+    if (entity.reviewNotes !== undefined) row.review_notes = entity.reviewNotes;
+    return row;
+  }
+
+  async findByFilters(
+    filters: BookingVerificationFilters,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ attempts: BookingVerificationAttempt[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.bookingId) {
+      values.push(filters.bookingId);
+      conditions.push(`booking_id = $${values.length}`);
+    }
+    if (filters.userId) {
+      values.push(filters.userId);
+      conditions.push(`user_id = $${values.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // The review queue is worked oldest first
+    const order = filters.status === 'needs_review' ? 'ASC' : 'DESC';
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*) AS total FROM booking_verifications ${where}`,
+      values
+    );
+    const result = await this.pool.query(
+      `SELECT * FROM booking_verifications ${where}
+       ORDER BY created_at ${order}
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+
+    return {
+      attempts: result.rows.map(row => this.mapRowToEntity(row)),
+      total: parseInt(countResult.rows[0].total),
+    };
+  }
+
+  async findLatestForBooking(
+    bookingId: string
+  ): Promise<BookingVerificationAttempt | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM booking_verifications
+       WHERE booking_id = $1
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [bookingId]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Insert an attempt and move the booking's verification status to match
+   */
+  async recordAttempt(
+    attempt: Omit<BookingVerificationAttempt, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<BookingVerificationAttempt> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const row = this.mapEntityToRow(attempt);
+      const columns = Object.keys(row);
+      const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+      const result = await client.query(
+        `INSERT INTO booking_verifications (${columns.join(', ')})
+         VALUES (${placeholders.join(', ')})
+         RETURNING *`,
+        Object.values(row)
+      );
+      const created = this.mapRowToEntity(result.rows[0]);
+
+      await this.updateBookingStatus(client, created.bookingId, created.status);
+      return created;
+    });
+  }
+
+  /**
+   * Record the reviewer's decision on an attempt waiting in the review queue.
+   * Returns null when the attempt is no longer waiting.
+   */
+  async completeReview(
+    id: string,
+    review: {
+      status: Exclude<BookingVerificationAttemptStatus, 'needs_review'>;
+      reviewedBy: string;
+      notes: string;
+    }
+  ): Promise<BookingVerificationAttempt | null> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `UPDATE booking_verifications
+         SET status = $2, reviewed_by = $3, reviewed_at = NOW(), review_notes = $4
+         WHERE id = $1 AND status = 'needs_review'
+         RETURNING *`,
+        [id, review.status, review.reviewedBy, review.notes]
+      );
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const updated = this.mapRowToEntity(result.rows[0]);
+      await this.updateBookingStatus(client, updated.bookingId, updated.status);
+      return updated;
+    });
+  }
+
+  /**
+   * Store a document and list it on the booking's verification documents
+   */
+  async addDocument(
+    data: CreateVerificationDocumentData
+  ): Promise<StoredVerificationDocument> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `INSERT INTO booking_verification_documents
+           (booking_id, uploaded_by, file_name, content_type, size_bytes, storage_key, extractor, extracted)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          data.bookingId,
+          data.uploadedBy,
+          data.fileName,
+          data.contentType,
+          data.sizeBytes,
+          data.storageKey,
+          data.extractor || null,
+          data.extracted ? JSON.stringify(data.extracted) : null,
+        ]
+      );
+      const document = this.mapRowToDocument(result.rows[0]);
+
+      await client.query(
+        `UPDATE bookings
+         SET verification_documents = array_append(verification_documents, $2), updated_at = NOW()
+         WHERE id = $1`,
+        [data.bookingId, document.id]
+      );
+      return document;
+    });
+  }
+
+  async findDocuments(
+    bookingId: string
+  ): Promise<StoredVerificationDocument[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM booking_verification_documents
+       WHERE booking_id = $1
+       ORDER BY created_at ASC`,
+      [bookingId]
+    );
+    return result.rows.map(row => this.mapRowToDocument(row));
+  }
+
+  async findDocumentById(
+    bookingId: string,
+    documentId: string
+  ): Promise<StoredVerificationDocument | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM booking_verification_documents WHERE booking_id = $1 AND id = $2`,
+      [bookingId, documentId]
+    );
+    return result.rows[0] ? this.mapRowToDocument(result.rows[0]) : null;
+  }
+
+  private async updateBookingStatus(
+    client: PoolClient,
+    bookingId: string,
+    attemptStatus: BookingVerificationAttemptStatus
+  ): Promise<void> {
+    const status = BOOKING_STATUS_FOR_ATTEMPT[attemptStatus];
+    await client.query(
+      `UPDATE bookings
+       SET verification_status = $2, verified_at = $3, updated_at = NOW()
+       WHERE id = $1`,
+      [bookingId, status, status === 'verified' ? new Date() : null]
+    );
+  }
+
+  private mapRowToDocument(row: any): StoredVerificationDocument {
+    return {
+      id: row.id,
+      bookingId: row.booking_id,
+      uploadedBy: row.uploaded_by,
+      fileName: row.file_name,
+      contentType: row.content_type,
+      sizeBytes: row.size_bytes,
+      storageKey: row.storage_key,
+      extractor: row.extractor || undefined,
+      extracted: row.extracted || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
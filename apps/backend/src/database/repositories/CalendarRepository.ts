@@ -0,0 +1,324 @@
+import { Pool } from 'pg';
+
+export interface CalendarFeedRecord {
+  userId: string;
+  tokenHash: string;
+  lastAccessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CalendarStay {
+  bookingId: string;
+  title: string;
+  city: string;
+  country: string;
+  checkIn: Date;
+  checkOut: Date;
+  status: string;
+  updatedAt: Date;
+}
+
+export interface CalendarSwapDeadline {
+  swapId: string;
+  bookingId: string;
+  bookingTitle: string;
+  city: string;
+  country: string;
+  expiresAt: Date;
+  // Set when the swap is a proposal for another user's swap
+  targetBookingTitle?: string;
+  updatedAt: Date;
+}
+
+export interface CalendarProposalDeadline {
+  proposalSwapId: string;
+  targetSwapId: string;
+  bookingTitle: string;
+  proposedBookingTitle: string;
+  expiresAt: Date;
+  updatedAt: Date;
+}
+
+export interface CalendarAuctionEnd {
+  auctionId: string;
+  swapId: string;
+  bookingTitle: string;
+  city: string;
+  country: string;
+  endDate: Date;
+  // Whether the user runs the auction rather than having bid in it
+  isOwner: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * Feed tokens, and the read-only queries that collect a user's calendar
+ * events. Stays are found through the booking's current owner, so when a swap
+ * completes and ownership moves, the stay moves to the new owner's calendar.
+ */
+export class CalendarRepository {
+  constructor(private pool: Pool) {}
+
+  private mapFeedRow(row: any): CalendarFeedRecord {
+    return {
+      userId: row.user_id,
+      tokenHash: row.token_hash,
+      lastAccessedAt: row.last_accessed_at
+        ? new Date(row.last_accessed_at)
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private mapStayRow(row: any): CalendarStay {
+    return {
+      bookingId: row.booking_id,
+      title: row.title,
+      city: row.city,
+      country: row.country,
+      checkIn: new Date(row.check_in_date),
+      checkOut: new Date(row.check_out_date),
+      status: row.status,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async findFeedByUserId(userId: string): Promise<CalendarFeedRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM calendar_feeds WHERE user_id = $1`,
+      [userId]
+    );
+    return result.rows[0] ? this.mapFeedRow(result.rows[0]) : null;
+  }
+
+  async findFeedByTokenHash(
+    tokenHash: string
+  ): Promise<CalendarFeedRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM calendar_feeds WHERE token_hash = $1`,
+      [tokenHash]
+    );
+    return result.rows[0] ? this.mapFeedRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Create the user's feed, or replace its token so the old URL stops working
+   */
+  async saveFeed(
+    userId: string,
+    tokenHash: string
+  ): Promise<CalendarFeedRecord> {
+    const result = await this.pool.query(
+      `INSERT INTO calendar_feeds (user_id, token_hash)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+       SET token_hash = EXCLUDED.token_hash, last_accessed_at = NULL, created_at = NOW()
+       RETURNING *`,
+      [userId, tokenHash]
+    );
+    return this.mapFeedRow(result.rows[0]);
+  }
+
+  async deleteFeed(userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM calendar_feeds WHERE user_id = $1`,
+      [userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async touchFeed(userId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE calendar_feeds SET last_accessed_at = NOW() WHERE user_id = $1`,
+      [userId]
+    );
+  }
+
+  /**
+   * Bookings the user currently owns whose stay ends after `since`
+   */
+  async findStays(userId: string, since: Date): Promise<CalendarStay[]> {
+    const result = await this.pool.query(
+      `SELECT id AS booking_id, title, city, country, check_in_date, check_out_date, status, updated_at
+       FROM bookings
+       WHERE user_id = $1 AND status <> 'cancelled' AND check_out_date >= $2
+       ORDER BY check_in_date`,
+      [userId, since]
+    );
+    return result.rows.map(row => this.mapStayRow(row));
+  }
+
+  /**
+   * Open swaps and proposals of the user that expire after `since`
+   */
+  async findSwapDeadlines(
+    userId: string,
+    since: Date
+  ): Promise<CalendarSwapDeadline[]> {
+    const result = await this.pool.query(
+      `SELECT s.id AS swap_id, s.expires_at, s.updated_at,
+              b.id AS booking_id, b.title AS booking_title, b.city, b.country,
+              tb.title AS target_booking_title
+       FROM swaps s
+       JOIN bookings b ON s.source_booking_id = b.id
+       LEFT JOIN swap_targets st ON st.source_swap_id = s.id AND st.status = 'active'
+       LEFT JOIN swaps ts ON st.target_swap_id = ts.id
+       LEFT JOIN bookings tb ON ts.source_booking_id = tb.id
+       WHERE b.user_id = $1 AND s.status IN ('pending', 'active') AND s.expires_at >= $2
+       ORDER BY s.expires_at`,
+      [userId, since]
+    );
+    return result.rows.map(row => ({
+      swapId: row.swap_id,
+      bookingId: row.booking_id,
+      bookingTitle: row.booking_title,
+      city: row.city,
+      country: row.country,
+      expiresAt: new Date(row.expires_at),
+      targetBookingTitle: row.target_booking_title || undefined,
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  /**
+   * Proposals other users made for the user's swaps, which the user has to
+   * answer before the proposal expires
+   */
+  async findProposalDeadlines(
+    userId: string,
+    since: Date
+  ): Promise<CalendarProposalDeadline[]> {
+    const result = await this.pool.query(
+      `SELECT ps.id AS proposal_swap_id, ts.id AS target_swap_id, ps.expires_at,
+              GREATEST(ps.updated_at, st.updated_at) AS updated_at,
+              tb.title AS booking_title, pb.title AS proposed_booking_title
+       FROM swap_targets st
+       JOIN swaps ps ON st.source_swap_id = ps.id
+       JOIN bookings pb ON ps.source_booking_id = pb.id
+       JOIN swaps ts ON st.target_swap_id = ts.id
+       JOIN bookings tb ON ts.source_booking_id = tb.id
+       WHERE tb.user_id = $1 AND st.status = 'active'
+         AND ps.status IN ('pending', 'active') AND ps.expires_at >= $2
+       ORDER BY ps.expires_at`,
+      [userId, since]
+    );
+    return result.rows.map(row => ({
+      proposalSwapId: row.proposal_swap_id,
+      targetSwapId: row.target_swap_id,
+      bookingTitle: row.booking_title,
+      proposedBookingTitle: row.proposed_booking_title,
+      expiresAt: new Date(row.expires_at),
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  /**
+   * Active auctions the user runs or has bid in that end after `since`
+   */
+  async findAuctionEnds(
+    userId: string,
+    since: Date
+  ): Promise<CalendarAuctionEnd[]> {
+    const result = await this.pool.query(
+      `SELECT sa.id AS auction_id, sa.swap_id, sa.updated_at,
+              (sa.settings->>'endDate')::timestamptz AS end_date,
+              b.title AS booking_title, b.city, b.country,
+              (b.user_id = $1) AS is_owner
+       FROM swap_auctions sa
+       JOIN swaps s ON sa.swap_id = s.id
+       JOIN bookings b ON s.source_booking_id = b.id
+       WHERE sa.status = 'active'
+         AND (sa.settings->>'endDate')::timestamptz >= $2
+         AND (
+           b.user_id = $1
+           OR EXISTS (
+             SELECT 1 FROM auction_proposals ap
+             WHERE ap.auction_id = sa.id AND ap.proposer_id = $1
+           )
+         )
+       ORDER BY end_date`,
+      [userId, since]
+    );
+    return result.rows.map(row => this.mapAuctionRow(row));
+  }
+
+  /**
+   * The events of a single swap, for users who own it or are on either side
+   * of a proposal involving it. Returns null when the user has no access.
+   */
+  async findSwapForUser(
+    swapId: string,
+    userId: string
+  ): Promise<{
+    stay: CalendarStay;
+    deadline?: CalendarSwapDeadline;
+    auctionEnd?: CalendarAuctionEnd;
+  } | null> {
+    const result = await this.pool.query(
+      `SELECT s.id AS swap_id, s.status AS swap_status, s.expires_at, s.updated_at AS swap_updated_at,
+              b.id AS booking_id, b.title, b.city, b.country, b.check_in_date, b.check_out_date,
+              b.status, b.updated_at,
+              sa.id AS auction_id, sa.status AS auction_status, sa.updated_at AS auction_updated_at,
+              (sa.settings->>'endDate')::timestamptz AS end_date,
+              (b.user_id = $2) AS is_owner
+       FROM swaps s
+       JOIN bookings b ON s.source_booking_id = b.id
+       LEFT JOIN swap_auctions sa ON sa.swap_id = s.id
+       WHERE s.id = $1
+         AND (
+           b.user_id = $2
+           OR EXISTS (
+             SELECT 1 FROM swap_targets st
+             JOIN swaps os ON os.id = CASE WHEN st.source_swap_id = s.id THEN st.target_swap_id ELSE st.source_swap_id END
+             JOIN bookings ob ON os.source_booking_id = ob.id
+             WHERE (st.source_swap_id = s.id OR st.target_swap_id = s.id) AND ob.user_id = $2
+           )
+         )`,
+      [swapId, userId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const open = row.swap_status === 'pending' || row.swap_status === 'active';
+    return {
+      stay: this.mapStayRow(row),
+      deadline: open
+        ? {
+            swapId: row.swap_id,
+            bookingId: row.booking_id,
+            bookingTitle: row.title,
+            city: row.city,
+            country: row.country,
+            expiresAt: new Date(row.expires_at),
+            updatedAt: new Date(row.swap_updated_at),
+          }
+        : undefined,
+      auctionEnd:
+        row.auction_id && row.auction_status === 'active' && row.end_date
+          ? this.mapAuctionRow({
+              ...row,
+              booking_title: row.title,
+              updated_at: row.auction_updated_at,
+            })
+          : undefined,
+    };
+  }
+
+  private mapAuctionRow(row: any): CalendarAuctionEnd {
+    return {
+      auctionId: row.auction_id,
+      swapId: row.swap_id,
+      bookingTitle: row.booking_title,
+      city: row.city,
+      country: row.country,
+      endDate: new Date(row.end_date),
+      isOwner: !!row.is_owner,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
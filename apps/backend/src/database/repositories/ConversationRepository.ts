@@ -0,0 +1,406 @@
+import { Pool } from 'pg';
+import { BaseEntity, ConversationFilters } from '@booking-swap/shared';
+import { BaseRepository } from './base';
+
+/**
+ * Conversation row as stored; the service adds per-viewer fields such as
+ * unread counts and whether contact details are unlocked
+ */
+export interface ConversationRecord extends BaseEntity {
+  swapId: string;
+  proposalId?: string;
+  ownerId: string;
+  counterpartyId: string;
+  ownerLastReadAt?: Date;
+  counterpartyLastReadAt?: Date;
+  lastMessageAt?: Date;
+}
+
+export interface StoredConversationMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  body: string;
+  containsContactDetails: boolean;
+  attachment?: {
+    fileName: string;
+    contentType: string;
+    sizeBytes: number;
+    storageKey: string;
+  };
+  createdAt: Date;
+}
+
+export interface CreateConversationMessageData {
+  conversationId: string;
+  senderId: string;
+  body: string;
+  containsContactDetails: boolean;
+  attachment?: {
+    fileName: string;
+    contentType: string;
+    sizeBytes: number;
+    storageKey: string;
+  };
+}
+
+/**
+ * The swap a swap thread is about, with its owner
+ */
+export interface SwapConversationContext {
+  swapId: string;
+  status: string;
+  ownerId: string;
+}
+
+/**
+ * A swap target or swap proposal a thread can be opened from. The owner
+ * received the proposal; the counterparty made it.
+ */
+export interface ProposalConversationContext {
+  proposalId: string;
+  swapId: string;
+  ownerId: string;
+  counterpartyId: string;
+  accepted: boolean;
+}
+
+export class ConversationRepository extends BaseRepository<ConversationRecord> {
+  constructor(pool: Pool) {
+    super(pool, 'conversations');
+  }
+
+  mapRowToEntity(row: any): ConversationRecord {
+    return {
+      id: row.id,
+      swapId: row.swap_id,
+      proposalId: row.proposal_id || undefined,
+      ownerId: row.owner_id,
+      counterpartyId: row.counterparty_id,
+      ownerLastReadAt: row.owner_last_read_at
+        ? new Date(row.owner_last_read_at)
+        : undefined,
+      counterpartyLastReadAt: row.counterparty_last_read_at
+        ? new Date(row.counterparty_last_read_at)
+        : undefined,
+      lastMessageAt: row.last_message_at
+        ? new Date(row.last_message_at)
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<ConversationRecord, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    return {
+      swap_id: entity.swapId,
+      proposal_id: entity.proposalId || null,
+      owner_id: entity.ownerId,
+      counterparty_id: entity.counterpartyId,
+    };
+  }
+
+  /**
+   * Find the thread for a proposal, or the swap thread with a counterparty,
+   * creating it if there is none. Concurrent opens end up on the same row.
+   */
+  async findOrCreate(data: {
+    swapId: string;
+    proposalId?: string;
+    ownerId: string;
+    counterpartyId: string;
+  }): Promise<{ conversation: ConversationRecord; created: boolean }> {
+    const conflictTarget = data.proposalId
+      ? '(proposal_id) WHERE proposal_id IS NOT NULL'
+      : '(swap_id, counterparty_id) WHERE proposal_id IS NULL';
+
+    const inserted = await this.pool.query(
+      `INSERT INTO conversations (swap_id, proposal_id, owner_id, counterparty_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT ${conflictTarget} DO NOTHING
+       RETURNING *`,
+      [data.swapId, data.proposalId || null, data.ownerId, data.counterpartyId]
+    );
+    if (inserted.rows.length > 0) {
+      return {
+        conversation: this.mapRowToEntity(inserted.rows[0]),
+        created: true,
+      };
+    }
+
+    const existing = data.proposalId
+      ? await this.pool.query(
+          `SELECT * FROM conversations WHERE proposal_id = $1`,
+          [data.proposalId]
+        )
+      : await this.pool.query(
+          `SELECT * FROM conversations
+           WHERE swap_id = $1 AND counterparty_id = $2 AND proposal_id IS NULL`,
+          [data.swapId, data.counterpartyId]
+        );
+    return {
+      conversation: this.mapRowToEntity(existing.rows[0]),
+      created: false,
+    };
+  }
+
+  /**
+   * Conversations the user takes part in, most recently active first, with
+   * the number of messages from the other party the user has not read
+   */
+  async findForUser(
+    userId: string,
+    filters: ConversationFilters = {}
+  ): Promise<Array<{ conversation: ConversationRecord; unreadCount: number }>> {
+    const conditions = ['(c.owner_id = $1 OR c.counterparty_id = $1)'];
+    const values: any[] = [userId];
+
+    if (filters.swapId) {
+      values.push(filters.swapId);
+      conditions.push(`c.swap_id = $${values.length}`);
+    }
+    if (filters.proposalId) {
+      values.push(filters.proposalId);
+      conditions.push(`c.proposal_id = $${values.length}`);
+    }
+
+    const result = await this.pool.query(
+      `SELECT c.*,
+              (SELECT COUNT(*) FROM conversation_messages m
+               WHERE m.conversation_id = c.id
+                 AND m.sender_id != $1
+                 AND m.created_at > COALESCE(
+                   CASE WHEN c.owner_id = $1 THEN c.owner_last_read_at ELSE c.counterparty_last_read_at END,
+                   '-infinity'::timestamptz
+                 )) AS unread_count
+       FROM conversations c
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY COALESCE(c.last_message_at, c.created_at) DESC`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      conversation: this.mapRowToEntity(row),
+      unreadCount: parseInt(row.unread_count),
+    }));
+  }
+
+  /**
+   * Messages from the other party the user has not read yet
+   */
+  async countUnread(conversationId: string, userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS unread_count
+       FROM conversation_messages m
+       JOIN conversations c ON c.id = m.conversation_id
+       WHERE c.id = $1
+         AND m.sender_id != $2
+         AND m.created_at > COALESCE(
+           CASE WHEN c.owner_id = $2 THEN c.owner_last_read_at ELSE c.counterparty_last_read_at END,
+           '-infinity'::timestamptz
+         )`,
+      [conversationId, userId]
+    );
+    return parseInt(result.rows[0].unread_count);
+  }
+
+  /**
+   * Conversations between two users, in either role
+   */
+  async findBetweenUsers(
+    userId: string,
+    otherUserId: string
+  ): Promise<ConversationRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM conversations
+       WHERE (owner_id = $1 AND counterparty_id = $2)
+          OR (owner_id = $2 AND counterparty_id = $1)
+       ORDER BY created_at ASC`,
+      [userId, otherUserId]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Insert a message and bump the conversation's activity. The sender has
+   * read everything up to their own message.
+   */
+  async addMessage(
+    data: CreateConversationMessageData
+  ): Promise<StoredConversationMessage> {
+    return this.executeInTransaction(async client => {
+      const result = await client.query(
+        `INSERT INTO conversation_messages
+           (conversation_id, sender_id, body, contains_contact_details,
+            attachment_file_name, attachment_content_type, attachment_size_bytes, attachment_storage_key)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          data.conversationId,
+          data.senderId,
+          data.body,
+          data.containsContactDetails,
+          data.attachment?.fileName || null,
+          data.attachment?.contentType || null,
+          data.attachment?.sizeBytes || null,
+          data.attachment?.storageKey || null,
+        ]
+      );
+      const message = this.mapRowToMessage(result.rows[0]);
+
+      await client.query(
+        `UPDATE conversations
+         SET last_message_at = $2,
+             owner_last_read_at = CASE WHEN owner_id = $3 THEN $2 ELSE owner_last_read_at END,
+             counterparty_last_read_at = CASE WHEN counterparty_id = $3 THEN $2 ELSE counterparty_last_read_at END
+         WHERE id = $1`,
+        [data.conversationId, message.createdAt, data.senderId]
+      );
+      return message;
+    });
+  }
+
+  /**
+   * A page of messages, newest first, optionally older than a given time
+   */
+  async findMessages(
+    conversationId: string,
+    limit: number,
+    before?: Date
+  ): Promise<StoredConversationMessage[]> {
+    const result = before
+      ? await this.pool.query(
+          `SELECT * FROM conversation_messages
+           WHERE conversation_id = $1 AND created_at < $2
+           ORDER BY created_at DESC
+           LIMIT $3`,
+          [conversationId, before, limit]
+        )
+      : await this.pool.query(
+          `SELECT * FROM conversation_messages
+           WHERE conversation_id = $1
+           ORDER BY created_at DESC
+           LIMIT $2`,
+          [conversationId, limit]
+        );
+    return result.rows.map(row => this.mapRowToMessage(row));
+  }
+
+  async findMessageById(
+    conversationId: string,
+    messageId: string
+  ): Promise<StoredConversationMessage | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM conversation_messages WHERE conversation_id = $1 AND id = $2`,
+      [conversationId, messageId]
+    );
+    return result.rows[0] ? this.mapRowToMessage(result.rows[0]) : null;
+  }
+
+  /**
+   * Move the user's read marker forward; it never moves back
+   */
+  async markRead(
+    conversationId: string,
+    userId: string,
+    readAt: Date
+  ): Promise<ConversationRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE conversations
+       SET owner_last_read_at = CASE
+             WHEN owner_id = $2 THEN GREATEST(COALESCE(owner_last_read_at, $3), $3)
+             ELSE owner_last_read_at END,
+           counterparty_last_read_at = CASE
+             WHEN counterparty_id = $2 THEN GREATEST(COALESCE(counterparty_last_read_at, $3), $3)
+             ELSE counterparty_last_read_at END
+       WHERE id = $1 AND (owner_id = $2 OR counterparty_id = $2)
+       RETURNING *`,
+      [conversationId, userId, readAt]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async findSwapContext(
+    swapId: string
+  ): Promise<SwapConversationContext | null> {
+    // The swap owner is the owner of its source booking
+    const result = await this.pool.query(
+      `SELECT s.id, s.status, b.user_id AS owner_id
+       FROM swaps s
+       JOIN bookings b ON s.source_booking_id = b.id
+       WHERE s.id = $1`,
+      [swapId]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return { swapId: row.id, status: row.status, ownerId: row.owner_id };
+  }
+
+  /**
+   * Look the id up as a swap target first, then as a swap proposal
+   */
+  async findProposalContext(
+    proposalId: string
+  ): Promise<ProposalConversationContext | null> {
+    const targetResult = await this.pool.query(
+      `SELECT st.id, st.target_swap_id AS swap_id, st.status,
+              tb.user_id AS owner_id, sb.user_id AS counterparty_id
+       FROM swap_targets st
+       JOIN swaps ts ON st.target_swap_id = ts.id
+       JOIN bookings tb ON ts.source_booking_id = tb.id
+       JOIN swaps ss ON st.source_swap_id = ss.id
+       JOIN bookings sb ON ss.source_booking_id = sb.id
+       WHERE st.id = $1`,
+      [proposalId]
+    );
+    if (targetResult.rows.length > 0) {
+      return this.mapRowToProposalContext(targetResult.rows[0]);
+    }
+
+    // Cash proposals have no target swap; the offer is for the source swap
+    const proposalResult = await this.pool.query(
+      `SELECT id, COALESCE(target_swap_id, source_swap_id) AS swap_id, status,
+              target_user_id AS owner_id, proposer_id AS counterparty_id
+       FROM swap_proposals
+       WHERE id = $1`,
+      [proposalId]
+    );
+    return proposalResult.rows[0]
+      ? this.mapRowToProposalContext(proposalResult.rows[0])
+      : null;
+  }
+
+  private mapRowToProposalContext(row: any): ProposalConversationContext {
+    return {
+      proposalId: row.id,
+      swapId: row.swap_id,
+      ownerId: row.owner_id,
+      counterpartyId: row.counterparty_id,
+      accepted: row.status === 'accepted',
+    };
+  }
+
+  private mapRowToMessage(row: any): StoredConversationMessage {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      senderId: row.sender_id,
+      body: row.body,
+      containsContactDetails: row.contains_contact_details,
+      attachment: row.attachment_storage_key
+        ? {
+            fileName: row.attachment_file_name,
+            contentType: row.attachment_content_type,
+            sizeBytes: row.attachment_size_bytes,
+            storageKey: row.attachment_storage_key,
+          }
+        : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,408 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  Dispute,
+  DisputeEvent,
+  DisputeEventType,
+  DisputeEvidence,
+  DisputeFilters,
+  DisputeStatus,
+} from '@booking-swap/shared';
+import { BaseRepository } from './base';
+
+export interface CreateDisputeEventData {
+  disputeId: string;
+  type: DisputeEventType;
+  actorId?: string;
+  fromStatus?: DisputeStatus;
+  toStatus?: DisputeStatus;
+  note?: string;
+}
+
+export interface CreateDisputeEvidenceData {
+  disputeId: string;
+  uploadedBy: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  storageKey: string;
+  description?: string;
+}
+
+const CLEARABLE_COLUMNS = {
+  awaitingPartyId: 'awaiting_party_id',
+  slaDueAt: 'sla_due_at',
+  slaBreachedAt: 'sla_breached_at',
+} as const;
+
+export type ClearableDisputeField = keyof typeof CLEARABLE_COLUMNS;
+
+export interface DisputeChange {
+  updates: Partial<Omit<Dispute, 'id' | 'createdAt' | 'updatedAt'>>;
+  event: Omit<CreateDisputeEventData, 'disputeId'>;
+  clear?: ClearableDisputeField[];
+}
+
+export interface StoredDisputeEvidence extends DisputeEvidence {
+  storageKey: string;
+}
+
+export class DisputeRepository extends BaseRepository<Dispute> {
+  constructor(pool: Pool) {
+    super(pool, 'disputes');
+  }
+
+  mapRowToEntity(row: any): Dispute {
+    return {
+      id: row.id,
+      swapId: row.swap_id,
+      reporterId: row.reporter_id,
+      reportedUserId: row.reported_user_id,
+      type: row.type,
+      description: row.description,
+      status: row.status,
+      priority: row.priority,
+      assignedTo: row.assigned_to || undefined,
+      awaitingPartyId: row.awaiting_party_id || undefined,
+      slaDueAt: row.sla_due_at ? new Date(row.sla_due_at) : undefined,
+      slaBreachedAt: row.sla_breached_at
+        ? new Date(row.sla_breached_at)
+        : undefined,
+      resolution: row.resolved_at
+        ? {
+            action: row.resolution_action,
+            notes: row.resolution_notes || '',
+            amount:
+              row.resolution_amount !== null &&
+              row.resolution_amount !== undefined
+                ? parseFloat(row.resolution_amount)
+                : undefined,
+            currency: row.resolution_currency || undefined,
+            resolvedBy: row.resolved_by,
+            resolvedAt: new Date(row.resolved_at),
+            paymentTransactionId:
+              row.resolution_payment_transaction_id || undefined,
+            blockchainTransactionId:
+              row.resolution_blockchain_transaction_id || undefined,
+          }
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(entity: Omit<Dispute, 'id' | 'createdAt' | 'updatedAt'>): any {
+    // Status moves and SLA breaches reach this with only the columns they set
+    const row: Record<string, any> = {};
+    if (entity.swapId !== undefined) row.swap_id = entity.swapId;
+    if (entity.reporterId !== undefined) row.reporter_id = entity.reporterId;
+    if (entity.reportedUserId !== undefined) {
+      row.reported_user_id = entity.reportedUserId;
+    }
+    if (entity.type !== undefined) row.type = entity.type;
+    if (entity.description !== undefined) row.description = entity.description;
+    if (entity.status !== undefined) row.status = entity.status;
+    if (entity.priority !== undefined) row.priority = entity.priority;
+    if (entity.assignedTo !== undefined) row.assigned_to = entity.assignedTo;
+    if (entity.awaitingPartyId !== undefined) {
+      row.awaiting_party_id = entity.awaitingPartyId;
+    }
+    if (entity.slaDueAt !== undefined) row.sla_due_at = entity.slaDueAt;
+    if (entity.slaBreachedAt !== undefined) {
+      row.sla_breached_at = entity.slaBreachedAt;
+    }
+
+    const resolution = entity.resolution;
+    if (resolution) {
+      row.resolution_action = resolution.action;
+      row.resolution_notes = resolution.notes;
+      row.resolution_amount = resolution.amount ?? null;
+      row.resolution_currency = resolution.currency || null;
+      row.resolved_by = resolution.resolvedBy;
+      row.resolved_at = resolution.resolvedAt;
+      row.resolution_payment_transaction_id =
+        resolution.paymentTransactionId || null;
+      row.resolution_blockchain_transaction_id =
+        resolution.blockchainTransactionId || null;
+    }
+    return row;
+  }
+
+  async findByFilters(
+    filters: DisputeFilters,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ disputes: Dispute[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.priority) {
+      values.push(filters.priority);
+      conditions.push(`priority = $${values.length}`);
+    }
+    if (filters.swapId) {
+      values.push(filters.swapId);
+      conditions.push(`swap_id = $${values.length}`);
+    }
+    if (filters.userId) {
+      values.push(filters.userId);
+      conditions.push(
+        `(reporter_id = $${values.length} OR reported_user_id = $${values.length})`
+      );
+    }
+    if (filters.slaBreached !== undefined) {
+      conditions.push(
+        filters.slaBreached
+          ? 'sla_breached_at IS NOT NULL'
+          : 'sla_breached_at IS NULL'
+      );
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*) AS total FROM disputes ${where}`,
+      values
+    );
+    const result = await this.pool.query(
+      `SELECT * FROM disputes ${where}
+       ORDER BY
+         CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+         created_at DESC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+
+    return {
+      disputes: result.rows.map(row => this.mapRowToEntity(row)),
+      total: parseInt(countResult.rows[0].total),
+    };
+  }
+
+  async findActiveForReporter(
+    swapId: string,
+    reporterId: string
+  ): Promise<Dispute | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM disputes
+       WHERE swap_id = $1 AND reporter_id = $2 AND status NOT IN ('resolved', 'closed')
+       LIMIT 1`,
+      [swapId, reporterId]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Active disputes whose SLA deadline has passed and were not yet flagged
+   */
+  async findSlaBreaches(now: Date = new Date()): Promise<Dispute[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM disputes
+       WHERE sla_due_at <= $1
+         AND sla_breached_at IS NULL
+         AND status NOT IN ('resolved', 'closed')
+       ORDER BY sla_due_at ASC`,
+      [now]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Update a dispute and append an event to its history atomically
+   */
+  async updateWithEvent(
+    id: string,
+    updates: Partial<Omit<Dispute, 'id' | 'createdAt' | 'updatedAt'>>,
+    event: Omit<CreateDisputeEventData, 'disputeId'>,
+    // Optional fields to reset to NULL, e.g. the awaited party when leaving awaiting_party
+    clear: ClearableDisputeField[] = []
+  ): Promise<Dispute | null> {
+    return this.executeInTransaction((client: PoolClient) =>
+      this.applyUpdate(client, id, { updates, event, clear })
+    );
+  }
+
+  /**
+   * Re-read a dispute with its row locked and apply the change derived from
+   * it in the same transaction. Concurrent callers queue on the lock, so the
+   * second one sees the status the first one left behind.
+   */
+  async updateLockedWithEvent(
+    id: string,
+    derive: (current: Dispute) => Promise<DisputeChange>
+  ): Promise<Dispute | null> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const locked = await client.query(
+        `SELECT * FROM disputes WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (locked.rows.length === 0) {
+        return null;
+      }
+
+      const change = await derive(this.mapRowToEntity(locked.rows[0]));
+      return this.applyUpdate(client, id, change);
+    });
+  }
+
+  /**
+   * Insert a dispute with its "opened" event
+   */
+  async createWithEvent(
+    dispute: Omit<Dispute, 'id' | 'createdAt' | 'updatedAt'>,
+    note?: string
+  ): Promise<Dispute> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const row = this.mapEntityToRow(dispute);
+      const columns = Object.keys(row);
+      const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+      const result = await client.query(
+        `INSERT INTO disputes (${columns.join(', ')})
+         VALUES (${placeholders.join(', ')})
+         RETURNING *`,
+        Object.values(row)
+      );
+      const created = this.mapRowToEntity(result.rows[0]);
+
+      await this.insertEvent(client, {
+        disputeId: created.id,
+        type: 'opened',
+        actorId: dispute.reporterId,
+        toStatus: created.status,
+        note,
+      });
+      return created;
+    });
+  }
+
+  async findEvents(disputeId: string): Promise<DisputeEvent[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM dispute_events WHERE dispute_id = $1 ORDER BY created_at ASC`,
+      [disputeId]
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      disputeId: row.dispute_id,
+      type: row.type,
+      actorId: row.actor_id || undefined,
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status || undefined,
+      note: row.note || undefined,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  async addEvidence(
+    data: CreateDisputeEvidenceData
+  ): Promise<StoredDisputeEvidence> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `INSERT INTO dispute_evidence
+           (dispute_id, uploaded_by, file_name, content_type, size_bytes, storage_key, description)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          data.disputeId,
+          data.uploadedBy,
+          data.fileName,
+          data.contentType,
+          data.sizeBytes,
+          data.storageKey,
+          data.description || null,
+        ]
+      );
+
+      await this.insertEvent(client, {
+        disputeId: data.disputeId,
+        type: 'evidence_added',
+        actorId: data.uploadedBy,
+        note: data.fileName,
+      });
+      return this.mapRowToEvidence(result.rows[0]);
+    });
+  }
+
+  async findEvidence(disputeId: string): Promise<StoredDisputeEvidence[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM dispute_evidence WHERE dispute_id = $1 ORDER BY created_at ASC`,
+      [disputeId]
+    );
+    return result.rows.map(row => this.mapRowToEvidence(row));
+  }
+
+  async findEvidenceById(
+    disputeId: string,
+    evidenceId: string
+  ): Promise<StoredDisputeEvidence | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM dispute_evidence WHERE dispute_id = $1 AND id = $2`,
+      [disputeId, evidenceId]
+    );
+    return result.rows[0] ? this.mapRowToEvidence(result.rows[0]) : null;
+  }
+
+  private async applyUpdate(
+    client: PoolClient,
+    id: string,
+    { updates, event, clear = [] }: DisputeChange
+  ): Promise<Dispute | null> {
+    const row = this.mapEntityToRow(updates as any);
+    for (const field of clear) {
+      row[CLEARABLE_COLUMNS[field]] = null;
+    }
+    const columns = Object.keys(row);
+    const setClause = columns
+      .map((column, index) => `${column} = $${index + 2}`)
+      .join(', ');
+
+    const result = await client.query(
+      `UPDATE disputes SET ${setClause}${setClause ? ', ' : ''}updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, ...Object.values(row)]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    await this.insertEvent(client, { ...event, disputeId: id });
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  private async insertEvent(
+    client: PoolClient,
+    event: CreateDisputeEventData
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO dispute_events (dispute_id, type, actor_id, from_status, to_status, note)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        event.disputeId,
+        event.type,
+        event.actorId || null,
+        event.fromStatus || null,
+        event.toStatus || null,
+        event.note || null,
+      ]
+    );
+  }
+
+  private mapRowToEvidence(row: any): StoredDisputeEvidence {
+    return {
+      id: row.id,
+      disputeId: row.dispute_id,
+      uploadedBy: row.uploaded_by,
+      fileName: row.file_name,
+      contentType: row.content_type,
+      sizeBytes: row.size_bytes,
+      storageKey: row.storage_key,
+      description: row.description || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
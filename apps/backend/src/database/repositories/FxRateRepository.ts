@@ -0,0 +1,87 @@
+import { Pool } from 'pg';
+import { CurrencyCode, FxRateTable } from '@booking-swap/shared';
+import { logger } from '../../utils/logger';
+
+export class FxRateRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Latest rates as a table. Returns null when no rates are stored.
+   * Rates stored against different bases are not mixed: the most common
+   * base wins and the oldest row's timestamp is reported.
+   */
+  async getRateTable(): Promise<FxRateTable | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT currency, base_currency, rate, source, as_of FROM fx_rates ORDER BY as_of ASC'
+      );
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const baseCounts = new Map<string, number>();
+      for (const row of result.rows) {
+        baseCounts.set(
+          row.base_currency,
+          (baseCounts.get(row.base_currency) || 0) + 1
+        );
+      }
+      const [base] = [...baseCounts.entries()].reduce((best, entry) =>
+        entry[1] > best[1] ? entry : best
+      );
+      const rows = result.rows.filter(row => row.base_currency === base);
+
+      const rates: Partial<Record<CurrencyCode, number>> = {};
+      for (const row of rows) {
+        rates[row.currency as CurrencyCode] = parseFloat(row.rate);
+      }
+
+      return {
+        base: base as CurrencyCode,
+        rates,
+        asOf: new Date(rows[0].as_of),
+        source: rows[rows.length - 1].source,
+      };
+    } catch (error) {
+      logger.error('Failed to load FX rates', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the stored rate for each currency in the table
+   */
+  async saveRateTable(table: FxRateTable): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const [currency, rate] of Object.entries(table.rates)) {
+        await client.query(
+          `INSERT INTO fx_rates (currency, base_currency, rate, source, as_of)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (currency) DO UPDATE
+           SET base_currency = EXCLUDED.base_currency,
+               rate = EXCLUDED.rate,
+               source = EXCLUDED.source,
+               as_of = EXCLUDED.as_of`,
+          [currency, table.base, rate, table.source, table.asOf]
+        );
+      }
+      // The base currency is implicit and must not linger as a quoted row
+      await client.query('DELETE FROM fx_rates WHERE currency = $1', [
+        table.base,
+      ]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to save FX rates', {
+        error,
+        base: table.base,
+        source: table.source,
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,362 @@
+import { Pool } from 'pg';
+
+export type LedgerSource = 'bookings' | 'swaps' | 'payments' | 'targeting';
+
+export type LedgerReconciliationReportStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed';
+
+export type LedgerReconciliationTrigger = 'schedule' | 'admin' | 'cli';
+
+export interface LedgerBookingRecord {
+  id: string;
+  status: string;
+  transactionId?: string;
+  consensusTimestamp?: string;
+  topicId?: string;
+  nftTokenId?: string;
+  nftSerialNumber?: number;
+  nftTransactionId?: string;
+  // Hedera account of the booking's current owner, if they connected a wallet
+  ownerAccountId?: string;
+}
+
+export interface LedgerSwapRecord {
+  id: string;
+  status: string;
+  proposalTransactionId?: string;
+  executionTransactionId?: string;
+  completionTransactionId?: string;
+}
+
+export interface LedgerPaymentRecord {
+  id: string;
+  status: string;
+  transactionId?: string;
+}
+
+export interface LedgerTargetingRecord {
+  id: string;
+  status: string;
+  transactionId?: string;
+  // Status of the outbox event recording the target, while it is kept
+  recordStatus?: string;
+}
+
+export interface LedgerDiscrepancy {
+  kind: 'missing' | 'failed' | 'mismatched' | 'nft_ownership_drift';
+  source: LedgerSource;
+  recordId: string;
+  // Column or property the discrepancy was found in, e.g. nftTransactionId
+  field: string;
+  transactionId?: string;
+  tokenId?: string;
+  serialNumber?: number;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface LedgerCheckError {
+  source: LedgerSource;
+  recordId: string;
+  field: string;
+  message: string;
+}
+
+export interface LedgerSourceSummary {
+  records: number;
+  transactionsChecked: number;
+  nftsChecked: number;
+  // References not yet written to the ledger (pending_ placeholders, queued records)
+  pending: number;
+  missing: number;
+  failed: number;
+  mismatched: number;
+  nftOwnershipDrift: number;
+  errors: number;
+}
+
+export interface LedgerReconciliationReport {
+  id: string;
+  status: LedgerReconciliationReportStatus;
+  trigger: LedgerReconciliationTrigger;
+  requestedBy?: string;
+  sources: LedgerSource[];
+  mirrorNodeUrl?: string;
+  recordsChecked: number;
+  discrepancyCount: number;
+  summary: Partial<Record<LedgerSource, LedgerSourceSummary>>;
+  discrepancies: LedgerDiscrepancy[];
+  checkErrors: LedgerCheckError[];
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LedgerReconciliationResult {
+  recordsChecked: number;
+  summary: Partial<Record<LedgerSource, LedgerSourceSummary>>;
+  discrepancies: LedgerDiscrepancy[];
+  checkErrors: LedgerCheckError[];
+}
+
+/**
+ * Reads the blockchain references stored with bookings, swaps, payments and
+ * swap targets, page by page in id order, and stores reconciliation reports.
+ */
+export class LedgerReconciliationRepository {
+  constructor(private pool: Pool) {}
+
+  private mapReportRow(row: any): LedgerReconciliationReport {
+    return {
+      id: row.id,
+      status: row.status,
+      trigger: row.trigger,
+      requestedBy: row.requested_by || undefined,
+      sources: row.sources,
+      mirrorNodeUrl: row.mirror_node_url || undefined,
+      recordsChecked: row.records_checked,
+      discrepancyCount: row.discrepancy_count,
+      summary: row.summary || {},
+      discrepancies: row.discrepancies || [],
+      checkErrors: row.check_errors || [],
+      error: row.error || undefined,
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async findBookings(
+    afterId: string | null,
+    limit: number
+  ): Promise<LedgerBookingRecord[]> {
+    const result = await this.pool.query(
+      `SELECT b.id, b.status, b.blockchain_transaction_id, b.blockchain_consensus_timestamp,
+              b.blockchain_topic_id, b.nft_token_id, b.nft_serial_number, b.nft_transaction_id,
+              u.wallet_address
+       FROM bookings b
+       LEFT JOIN users u ON u.id = b.user_id
+       WHERE $1::uuid IS NULL OR b.id > $1::uuid
+       ORDER BY b.id
+       LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      transactionId: row.blockchain_transaction_id || undefined,
+      consensusTimestamp: row.blockchain_consensus_timestamp || undefined,
+      topicId: row.blockchain_topic_id || undefined,
+      nftTokenId: row.nft_token_id || undefined,
+      nftSerialNumber:
+        row.nft_serial_number !== null ? row.nft_serial_number : undefined,
+      nftTransactionId: row.nft_transaction_id || undefined,
+      ownerAccountId: row.wallet_address || undefined,
+    }));
+  }
+
+  async findSwaps(
+    afterId: string | null,
+    limit: number
+  ): Promise<LedgerSwapRecord[]> {
+    const result = await this.pool.query(
+      `SELECT id, status, blockchain_proposal_transaction_id,
+              blockchain_execution_transaction_id, blockchain_completion_id
+       FROM swaps
+       WHERE $1::uuid IS NULL OR id > $1::uuid
+       ORDER BY id
+       LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      proposalTransactionId:
+        row.blockchain_proposal_transaction_id || undefined,
+      executionTransactionId:
+        row.blockchain_execution_transaction_id || undefined,
+      completionTransactionId: row.blockchain_completion_id || undefined,
+    }));
+  }
+
+  async findPayments(
+    afterId: string | null,
+    limit: number
+  ): Promise<LedgerPaymentRecord[]> {
+    const result = await this.pool.query(
+      `SELECT id, status, blockchain_transaction_id
+       FROM payment_transactions
+       WHERE $1::uuid IS NULL OR id > $1::uuid
+       ORDER BY id
+       LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      transactionId: row.blockchain_transaction_id || undefined,
+    }));
+  }
+
+  async findTargets(
+    afterId: string | null,
+    limit: number
+  ): Promise<LedgerTargetingRecord[]> {
+    const result = await this.pool.query(
+      `SELECT st.id, st.status, st.blockchain_transaction_id, oe.status AS record_status
+       FROM swap_targets st
+       LEFT JOIN LATERAL (
+         SELECT status FROM outbox_events
+         WHERE aggregate_type = 'swap_target' AND aggregate_id = st.id::text
+           AND destination = 'hedera'
+         ORDER BY created_at DESC
+         LIMIT 1
+       ) oe ON TRUE
+       WHERE $1::uuid IS NULL OR st.id > $1::uuid
+       ORDER BY st.id
+       LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      transactionId: row.blockchain_transaction_id || undefined,
+      recordStatus: row.record_status || undefined,
+    }));
+  }
+
+  async createReport(
+    trigger: LedgerReconciliationTrigger,
+    sources: LedgerSource[],
+    requestedBy?: string
+  ): Promise<LedgerReconciliationReport> {
+    const result = await this.pool.query(
+      `INSERT INTO ledger_reconciliation_reports (trigger, sources, requested_by)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [trigger, sources, requestedBy || null]
+    );
+
+    return this.mapReportRow(result.rows[0]);
+  }
+
+  /**
+   * Move a queued report to running. Returns null if it is not queued, e.g.
+   * because another instance already picked it up.
+   */
+  async startReport(
+    reportId: string,
+    mirrorNodeUrl: string
+  ): Promise<LedgerReconciliationReport | null> {
+    const result = await this.pool.query(
+      `UPDATE ledger_reconciliation_reports
+       SET status = 'running', mirror_node_url = $2, started_at = NOW()
+       WHERE id = $1 AND status = 'queued'
+       RETURNING *`,
+      [reportId, mirrorNodeUrl]
+    );
+
+    return result.rows[0] ? this.mapReportRow(result.rows[0]) : null;
+  }
+
+  async completeReport(
+    reportId: string,
+    reconciliation: LedgerReconciliationResult
+  ): Promise<LedgerReconciliationReport> {
+    const result = await this.pool.query(
+      `UPDATE ledger_reconciliation_reports
+       SET status = 'completed', records_checked = $2, discrepancy_count = $3,
+           summary = $4, discrepancies = $5, check_errors = $6, finished_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        reportId,
+        reconciliation.recordsChecked,
+        reconciliation.discrepancies.length,
+        JSON.stringify(reconciliation.summary),
+        JSON.stringify(reconciliation.discrepancies),
+        JSON.stringify(reconciliation.checkErrors),
+      ]
+    );
+
+    return this.mapReportRow(result.rows[0]);
+  }
+
+  async failReport(
+    reportId: string,
+    errorMessage: string
+  ): Promise<LedgerReconciliationReport> {
+    const result = await this.pool.query(
+      `UPDATE ledger_reconciliation_reports
+       SET status = 'failed', error = $2, finished_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [reportId, errorMessage]
+    );
+
+    return this.mapReportRow(result.rows[0]);
+  }
+
+  async findReportById(
+    reportId: string
+  ): Promise<LedgerReconciliationReport | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM ledger_reconciliation_reports WHERE id = $1',
+      [reportId]
+    );
+
+    return result.rows[0] ? this.mapReportRow(result.rows[0]) : null;
+  }
+
+  /**
+   * The queued or running report, if any
+   */
+  async findActiveReport(): Promise<LedgerReconciliationReport | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM ledger_reconciliation_reports
+       WHERE status IN ('queued', 'running')
+       ORDER BY created_at ASC
+       LIMIT 1`
+    );
+
+    return result.rows[0] ? this.mapReportRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Reports newest first, without their discrepancy lists
+   */
+  async findReports(
+    limit: number,
+    offset: number
+  ): Promise<{ reports: LedgerReconciliationReport[]; total: number }> {
+    const [rows, count] = await Promise.all([
+      this.pool.query(
+        `SELECT id, status, trigger, requested_by, sources, mirror_node_url, records_checked,
+                discrepancy_count, summary, error, started_at, finished_at, created_at, updated_at
+         FROM ledger_reconciliation_reports
+         ORDER BY created_at DESC
+         LIMIT $1 OFFSET $2`,
+        [limit, offset]
+      ),
+      this.pool.query(
+        'SELECT COUNT(*) AS total FROM ledger_reconciliation_reports'
+      ),
+    ]);
+
+    return {
+      reports: rows.rows.map(row => this.mapReportRow(row)),
+      total: parseInt(count.rows[0].total),
+    };
+  }
+}
@@ -0,0 +1,335 @@
+import { Pool, PoolClient } from 'pg';
+import { BaseRepository } from './base';
+
+export type OutboxDestination =
+  | 'hedera'
+  | 'email'
+  | 'sms'
+  | 'websocket'
+  | 'push';
+
+export type OutboxEventStatus =
+  | 'pending'
+  | 'processing'
+  | 'delivered'
+  | 'skipped'
+  | 'dead'
+  | 'discarded';
+
+export interface OutboxEvent {
+  id: string;
+  destination: OutboxDestination;
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Record<string, any>;
+  idempotencyKey: string;
+  status: OutboxEventStatus;
+  attempts: number;
+  maxAttempts: number;
+  availableAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  result?: Record<string, any>;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewOutboxEvent {
+  destination: OutboxDestination;
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Record<string, any>;
+  idempotencyKey: string;
+  maxAttempts: number;
+  availableAt?: Date;
+}
+
+export interface OutboxEventFilters {
+  status?: OutboxEventStatus;
+  destination?: OutboxDestination;
+  eventType?: string;
+  aggregateId?: string;
+}
+
+export class OutboxRepository extends BaseRepository<OutboxEvent> {
+  constructor(pool: Pool) {
+    super(pool, 'outbox_events');
+  }
+
+  mapRowToEntity(row: any): OutboxEvent {
+    return {
+      id: row.id,
+      destination: row.destination,
+      eventType: row.event_type,
+      aggregateType: row.aggregate_type,
+      aggregateId: row.aggregate_id,
+      payload: row.payload || {},
+      idempotencyKey: row.idempotency_key,
+      status: row.status,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      availableAt: new Date(row.available_at),
+      lockedBy: row.locked_by || undefined,
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
+      lastError: row.last_error || undefined,
+      result: row.result || undefined,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<OutboxEvent, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    return {
+      destination: entity.destination,
+      event_type: entity.eventType,
+      aggregate_type: entity.aggregateType,
+      aggregate_id: entity.aggregateId,
+      payload: JSON.stringify(entity.payload),
+      idempotency_key: entity.idempotencyKey,
+      status: entity.status,
+      attempts: entity.attempts,
+      max_attempts: entity.maxAttempts,
+      available_at: entity.availableAt,
+      locked_by: entity.lockedBy || null,
+      locked_until: entity.lockedUntil || null,
+      last_error: entity.lastError || null,
+      result: entity.result ? JSON.stringify(entity.result) : null,
+      delivered_at: entity.deliveredAt || null,
+    };
+  }
+
+  /**
+   * Insert events through `client`, so they commit or roll back with the
+   * caller's transaction. Events whose idempotency key is already queued are
+   * left out; only newly inserted events are returned.
+   */
+  async insert(
+    client: Pool | PoolClient,
+    events: NewOutboxEvent[]
+  ): Promise<OutboxEvent[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    const values: any[] = [];
+    const rows = events.map(event => {
+      values.push(
+        event.destination,
+        event.eventType,
+        event.aggregateType,
+        event.aggregateId,
+        JSON.stringify(event.payload),
+        event.idempotencyKey,
+        event.maxAttempts,
+        event.availableAt || new Date()
+      );
+      const offset = values.length - 8;
+      return `(${Array.from({ length: 8 }, (_, i) => `$${offset + i + 1}`).join(', ')})`;
+    });
+
+    const result = await client.query(
+      `INSERT INTO ${this.tableName}
+         (destination, event_type, aggregate_type, aggregate_id, payload, idempotency_key, max_attempts, available_at)
+       VALUES ${rows.join(', ')}
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING *`,
+      values
+    );
+
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Lease up to `limit` due events for this worker, oldest first. Events whose
+   * lease expired (the relay delivering them died) are picked up again.
+   */
+  async leaseDue(
+    workerId: string,
+    limit: number,
+    leaseMs: number
+  ): Promise<OutboxEvent[]> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'processing',
+           locked_by = $1,
+           locked_until = NOW() + ($3 * INTERVAL '1 millisecond'),
+           attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM ${this.tableName}
+         WHERE (status = 'pending' AND available_at <= NOW())
+            OR (status = 'processing' AND locked_until < NOW())
+         ORDER BY available_at ASC
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId, limit, leaseMs]
+    );
+
+    return result.rows
+      .map(row => this.mapRowToEntity(row))
+      .sort((a, b) => a.availableAt.getTime() - b.availableAt.getTime());
+  }
+
+  /**
+   * Record a finished delivery. Returns false if the lease was lost.
+   */
+  async markDelivered(
+    eventId: string,
+    workerId: string,
+    status: 'delivered' | 'skipped',
+    result: Record<string, any> | null
+  ): Promise<boolean> {
+    const updated = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = $3, result = $4, delivered_at = NOW(), last_error = NULL,
+           locked_by = NULL, locked_until = NULL
+       WHERE id = $1 AND status = 'processing' AND locked_by = $2`,
+      [eventId, workerId, status, result ? JSON.stringify(result) : null]
+    );
+
+    return (updated.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record a failed attempt. The event is tried again at `retryAt`, or becomes
+   * a dead letter when no retry is given. Returns false if the lease was lost.
+   */
+  async markFailed(
+    eventId: string,
+    workerId: string,
+    errorMessage: string,
+    retryAt: Date | null
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = CASE WHEN $4::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+           available_at = COALESCE($4::timestamptz, available_at),
+           last_error = $3,
+           locked_by = NULL, locked_until = NULL
+       WHERE id = $1 AND status = 'processing' AND locked_by = $2`,
+      [eventId, workerId, errorMessage, retryAt]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findEvents(
+    filters: OutboxEventFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ events: OutboxEvent[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.destination) {
+      values.push(filters.destination);
+      conditions.push(`destination = $${values.length}`);
+    }
+    if (filters.eventType) {
+      values.push(filters.eventType);
+      conditions.push(`event_type = $${values.length}`);
+    }
+    if (filters.aggregateId) {
+      values.push(filters.aggregateId);
+      conditions.push(`aggregate_id = $${values.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows, count] = await Promise.all([
+      this.pool.query(
+        `SELECT * FROM ${this.tableName} ${where}
+         ORDER BY created_at DESC
+         LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        [...values, limit, offset]
+      ),
+      this.pool.query(
+        `SELECT COUNT(*) AS total FROM ${this.tableName} ${where}`,
+        values
+      ),
+    ]);
+
+    return {
+      events: rows.rows.map(row => this.mapRowToEntity(row)),
+      total: parseInt(count.rows[0].total),
+    };
+  }
+
+  async countByStatus(): Promise<Record<OutboxEventStatus, number>> {
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*) AS count FROM ${this.tableName} GROUP BY status`
+    );
+
+    const counts: Record<OutboxEventStatus, number> = {
+      pending: 0,
+      processing: 0,
+      delivered: 0,
+      skipped: 0,
+      dead: 0,
+      discarded: 0,
+    };
+    for (const row of result.rows) {
+      counts[row.status as OutboxEventStatus] = parseInt(row.count);
+    }
+
+    return counts;
+  }
+
+  /**
+   * Put a dead or discarded event back in the queue with fresh attempts.
+   * Returns null if the event is in any other state.
+   */
+  async requeue(eventId: string): Promise<OutboxEvent | null> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'pending', available_at = NOW(), attempts = 0, last_error = NULL
+       WHERE id = $1 AND status IN ('dead', 'discarded')
+       RETURNING *`,
+      [eventId]
+    );
+
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Give up on a dead letter. Returns null if the event is not dead.
+   */
+  async discard(eventId: string): Promise<OutboxEvent | null> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'discarded'
+       WHERE id = $1 AND status = 'dead'
+       RETURNING *`,
+      [eventId]
+    );
+
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete delivered and skipped events older than `before`. Dead letters are
+   * kept until an admin deals with them.
+   */
+  async deleteFinishedBefore(before: Date): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM ${this.tableName}
+       WHERE status IN ('delivered', 'skipped', 'discarded') AND updated_at < $1`,
+      [before]
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
@@ -18,6 +18,7 @@ export interface PaymentFilters {
   recipientId?: string;
   swapId?: string;
   proposalId?: string;
+  escrowId?: string;
   amountRange?: {
     min?: number;
     max?: number;
@@ -27,8 +28,10 @@ export interface PaymentFilters {
 }
 
 export interface EscrowFilters {
+  id?: string;
   status?: EscrowStatus;
   transactionId?: string;
+  swapId?: string;
   amountRange?: {
     min?: number;
     max?: number;
@@ -37,6 +40,10 @@ export interface EscrowFilters {
   createdBefore?: Date;
 }
 
+// Swap and party columns of an escrow, read from its payment transaction
+const ESCROW_PARTY_COLUMNS =
+  'pt.swap_id, pt.proposal_id, pt.payer_id, pt.recipient_id';
+
 export class PaymentRepository extends BaseRepository<PaymentTransaction> {
   constructor(pool: Pool) {
     super(pool, 'payment_transactions');
@@ -112,6 +119,12 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
       releasedAt: row.released_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
+      // escrow_accounts has no swap or party columns; they are joined in
+      // from the payment transaction the escrow was opened for
+      swapId: row.swap_id,
+      proposalId: row.proposal_id,
+      payerId: row.payer_id,
+      recipientId: row.recipient_id,
     };
   }
 
@@ -201,6 +214,36 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
     }
   }
 
+  /**
+   * Move a payment to a new status only while it is in one of the expected
+   * statuses. Returns null when it was not, e.g. a later event got there first.
+   */
+  async transitionPaymentStatus(
+    id: string,
+    from: PaymentStatus[],
+    to: PaymentStatus,
+    completedAt?: Date
+  ): Promise<PaymentTransaction | null> {
+    try {
+      const result = await this.pool.query(
+        `UPDATE ${this.tableName}
+         SET status = $3, completed_at = COALESCE($4, completed_at), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = ANY($2)
+         RETURNING *`,
+        [id, from, to, completedAt || null]
+      );
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to transition payment status', {
+        error,
+        id,
+        from,
+        to,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Find payments with filters
    */
@@ -235,6 +278,11 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
         values.push(filters.proposalId);
       }
 
+      if (filters.escrowId) {
+        conditions.push(`escrow_id = $${++paramCount}`);
+        values.push(filters.escrowId);
+      }
+
       if (filters.amountRange) {
         if (filters.amountRange.min !== undefined) {
           conditions.push(`amount >= $${++paramCount}`);
@@ -306,9 +354,14 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
       const values = Object.values(row);
 
       const query = `
-        INSERT INTO escrow_accounts (${columns})
-        VALUES (${placeholders})
-        RETURNING *
+        WITH created AS (
+          INSERT INTO escrow_accounts (${columns})
+          VALUES (${placeholders})
+          RETURNING *
+        )
+        SELECT created.*, ${ESCROW_PARTY_COLUMNS}
+        FROM created
+        JOIN payment_transactions pt ON created.transaction_id = pt.id
       `;
 
       const result = await this.pool.query(query, values);
@@ -325,10 +378,15 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
   async updateEscrowStatus(id: string, status: EscrowStatus, releasedAt?: Date): Promise<EscrowAccount | null> {
     try {
       const query = `
-        UPDATE escrow_accounts
-        SET status = $1, released_at = $2, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $3
-        RETURNING *
+        WITH updated AS (
+          UPDATE escrow_accounts
+          SET status = $1, released_at = $2, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $3
+          RETURNING *
+        )
+        SELECT updated.*, ${ESCROW_PARTY_COLUMNS}
+        FROM updated
+        JOIN payment_transactions pt ON updated.transaction_id = pt.id
       `;
 
       const result = await this.pool.query(query, [status, releasedAt, id]);
@@ -339,6 +397,41 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
     }
   }
 
+  /**
+   * Move an escrow to a new status only while it is in one of the expected
+   * statuses. Returns null when it was not.
+   */
+  async transitionEscrowStatus(
+    id: string,
+    from: EscrowStatus[],
+    to: EscrowStatus
+  ): Promise<EscrowAccount | null> {
+    try {
+      const query = `
+        WITH updated AS (
+          UPDATE escrow_accounts
+          SET status = $3, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND status = ANY($2)
+          RETURNING *
+        )
+        SELECT updated.*, ${ESCROW_PARTY_COLUMNS}
+        FROM updated
+        JOIN payment_transactions pt ON updated.transaction_id = pt.id
+      `;
+
+      const result = await this.pool.query(query, [id, from, to]);
+      return result.rows[0] ? this.mapRowToEscrow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to transition escrow status', {
+        error,
+        id,
+        from,
+        to,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Find escrow accounts with filters
    */
@@ -348,43 +441,55 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
       const values: any[] = [];
       let paramCount = 0;
 
+      if (filters.id) {
+        conditions.push(`ea.id = $${++paramCount}`);
+        values.push(filters.id);
+      }
+
       if (filters.status) {
-        conditions.push(`status = $${++paramCount}`);
+        conditions.push(`ea.status = $${++paramCount}`);
         values.push(filters.status);
       }
 
       if (filters.transactionId) {
-        conditions.push(`transaction_id = $${++paramCount}`);
+        conditions.push(`ea.transaction_id = $${++paramCount}`);
         values.push(filters.transactionId);
       }
 
+      if (filters.swapId) {
+        conditions.push(`pt.swap_id = $${++paramCount}`);
+        values.push(filters.swapId);
+      }
+
       if (filters.amountRange) {
         if (filters.amountRange.min !== undefined) {
-          conditions.push(`amount >= $${++paramCount}`);
+          conditions.push(`ea.amount >= $${++paramCount}`);
           values.push(filters.amountRange.min);
         }
         if (filters.amountRange.max !== undefined) {
-          conditions.push(`amount <= $${++paramCount}`);
+          conditions.push(`ea.amount <= $${++paramCount}`);
           values.push(filters.amountRange.max);
         }
       }
 
       if (filters.createdAfter) {
-        conditions.push(`created_at >= $${++paramCount}`);
+        conditions.push(`ea.created_at >= $${++paramCount}`);
         values.push(filters.createdAfter);
       }
 
       if (filters.createdBefore) {
-        conditions.push(`created_at <= $${++paramCount}`);
+        conditions.push(`ea.created_at <= $${++paramCount}`);
         values.push(filters.createdBefore);
       }
 
       const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
       const query = `
-        SELECT * FROM escrow_accounts
+        SELECT ea.*, ${ESCROW_PARTY_COLUMNS}
+        FROM escrow_accounts ea
+        JOIN payment_transactions pt ON ea.transaction_id = pt.id
         ${whereClause}
-        ORDER BY created_at DESC
+        ORDER BY ea.created_at DESC
         LIMIT $${++paramCount} OFFSET $${++paramCount}
       `;
 
@@ -545,7 +650,8 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
   async findPendingEscrowReleases(): Promise<EscrowAccount[]> {
     try {
       const query = `
-        SELECT ea.* FROM escrow_accounts ea
+        SELECT ea.*, ${ESCROW_PARTY_COLUMNS}
+        FROM escrow_accounts ea
         JOIN payment_transactions pt ON ea.transaction_id = pt.id
         WHERE ea.status = 'funded'
         AND pt.status = 'completed'
@@ -559,4 +665,53 @@ export class PaymentRepository extends BaseRepository<PaymentTransaction> {
       throw error;
     }
   }
+
+  /**
+   * Find the payment transaction a gateway charge belongs to
+   */
+  async findByGatewayTransactionId(gatewayTransactionId: string): Promise<PaymentTransaction | null> {
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM ${this.tableName} WHERE gateway_transaction_id = $1 ORDER BY created_at DESC LIMIT 1`,
+        [gatewayTransactionId]
+      );
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to find payment by gateway transaction', { error, gatewayTransactionId });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a gateway webhook event. Returns false if the event was already
+   * recorded, i.e. the delivery is a replay.
+   */
+  async recordWebhookEvent(
+    gateway: string,
+    event: { id: string; type: string; gatewayTransactionId: string },
+    payload: string
+  ): Promise<boolean> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO payment_webhook_events (gateway, event_id, event_type, gateway_transaction_id, payload)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (gateway, event_id) DO NOTHING`,
+        [gateway, event.id, event.type, event.gatewayTransactionId, payload]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Failed to record payment webhook event', { error, gateway, eventId: event.id });
+      throw error;
+    }
+  }
+
+  /**
+   * Forget a webhook event whose processing failed so the gateway's retry is applied
+   */
+  async deleteWebhookEvent(gateway: string, eventId: string): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM payment_webhook_events WHERE gateway = $1 AND event_id = $2',
+      [gateway, eventId]
+    );
+  }
 }
\ No newline at end of file
@@ -0,0 +1,482 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AccountDeletionBlocker,
+  AccountDeletionBlockerKind,
+  DataExportRequest,
+} from '@booking-swap/shared';
+
+type Queryable = Pool | PoolClient;
+
+/**
+ * Rows of one section of a personal data export, as stored. Each section
+ * becomes a CSV file in the archive.
+ */
+export type PersonalDataRow = Record<string, unknown>;
+
+export interface PersonalDataSections {
+  profile: PersonalDataRow[];
+  bookings: PersonalDataRow[];
+  swaps: PersonalDataRow[];
+  proposals: PersonalDataRow[];
+  auctionProposals: PersonalDataRow[];
+  payments: PersonalDataRow[];
+  notifications: PersonalDataRow[];
+  targetingHistory: PersonalDataRow[];
+}
+
+export interface DataExportRecord extends DataExportRequest {
+  // Storage key of the archive, once built
+  fileKey?: string;
+}
+
+export type AccountAnonymizationOutcome =
+  | { status: 'not_found' }
+  | { status: 'blocked'; blockers: AccountDeletionBlocker[] }
+  | {
+      status: 'anonymized';
+      cancelledBookings: number;
+      cancelledSwaps: number;
+      // Storage keys of export archives, to be removed from the file store
+      exportFileKeys: string[];
+      // Storage keys of attachments the user sent in conversations
+      attachmentFileKeys: string[];
+    };
+
+// Never part of an export
+const PROFILE_EXCLUDED_COLUMNS = ['password_hash'];
+
+// Cannot match any bcrypt hash, so password sign-in is impossible
+const UNUSABLE_PASSWORD_HASH = '!';
+
+const DELETED_DISPLAY_NAME = 'Deleted user';
+
+// Messages stay in the other party's conversation, without their content
+const DELETED_MESSAGE_BODY = 'Message deleted';
+
+interface BlockerQuery {
+  kind: AccountDeletionBlockerKind;
+  message: string;
+  sql: string;
+}
+
+/**
+ * Work that is still in flight and would leave a counterparty, an escrow or
+ * a dispute without a reachable user. Each query returns the ids involved.
+ */
+const BLOCKER_QUERIES: BlockerQuery[] = [
+  {
+    kind: 'swap_in_progress',
+    message: 'Accepted swaps are waiting to be completed',
+    sql: `SELECT s.id FROM swaps s
+          JOIN bookings b ON s.source_booking_id = b.id
+          WHERE b.user_id = $1 AND s.status = 'accepted'`,
+  },
+  {
+    kind: 'swap_targeting_active',
+    message: 'Swaps are targeting, or targeted by, another user',
+    sql: `SELECT st.id FROM swap_targets st
+          JOIN swaps ss ON st.source_swap_id = ss.id
+          JOIN bookings sb ON ss.source_booking_id = sb.id
+          JOIN swaps ts ON st.target_swap_id = ts.id
+          JOIN bookings tb ON ts.source_booking_id = tb.id
+          WHERE st.status = 'active' AND (sb.user_id = $1 OR tb.user_id = $1)`,
+  },
+  {
+    kind: 'proposal_pending',
+    message: 'Proposals are waiting for a response',
+    sql: `SELECT id FROM swap_proposals
+          WHERE status = 'pending' AND (proposer_id = $1 OR target_user_id = $1)`,
+  },
+  {
+    kind: 'swap_cycle_in_progress',
+    message: 'Multi-party swaps are in progress',
+    sql: `SELECT DISTINCT c.id FROM swap_cycles c
+          JOIN swap_cycle_legs l ON l.cycle_id = c.id
+          WHERE c.status IN ('proposed', 'accepted')
+            AND (l.giver_user_id = $1 OR l.receiver_user_id = $1)`,
+  },
+  {
+    kind: 'auction_active',
+    message: 'Auctions are running on, or have bids from, this account',
+    sql: `SELECT sa.id FROM swap_auctions sa
+          WHERE sa.status = 'active'
+            AND (sa.owner_id = $1 OR EXISTS (
+              SELECT 1 FROM auction_proposals ap
+              WHERE ap.auction_id = sa.id AND ap.proposer_id = $1 AND ap.status = 'pending'
+            ))`,
+  },
+  {
+    kind: 'payment_in_progress',
+    message: 'Payments are still being processed',
+    sql: `SELECT id FROM payment_transactions
+          WHERE status IN ('pending', 'processing') AND (payer_id = $1 OR recipient_id = $1)`,
+  },
+  {
+    kind: 'escrow_funded',
+    message: 'Escrowed funds have not been released or refunded',
+    sql: `SELECT e.id FROM escrow_accounts e
+          JOIN payment_transactions p ON e.transaction_id = p.id
+          WHERE e.status IN ('created', 'funded', 'disputed') AND (p.payer_id = $1 OR p.recipient_id = $1)`,
+  },
+  {
+    kind: 'dispute_open',
+    message: 'Disputes are still open',
+    sql: `SELECT id FROM disputes
+          WHERE status IN ('open', 'investigating', 'awaiting_party')
+            AND (reporter_id = $1 OR reported_user_id = $1)`,
+  },
+];
+
+/**
+ * Tables holding credentials, integrations and preferences that only serve
+ * the account itself, cleared when it is deleted
+ */
+const ACCOUNT_TABLES = [
+  'user_sessions',
+  'api_keys',
+  'webhook_endpoints',
+  'user_two_factor_recovery_codes',
+  'user_two_factor',
+  'calendar_feeds',
+  'push_subscriptions',
+  'saved_searches',
+  'password_reset_tokens',
+  'notification_preferences',
+  'notifications',
+  'payment_methods',
+];
+
+/**
+ * Collects everything stored about a user for data exports, tracks export
+ * requests, and anonymizes accounts on deletion.
+ */
+export class PrivacyRepository {
+  constructor(private pool: Pool) {}
+
+  private mapExportRow(row: any): DataExportRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      status: row.status,
+      fileKey: row.file_key || undefined,
+      fileSize: row.file_size ?? undefined,
+      error: row.error || undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async createExport(userId: string): Promise<DataExportRecord> {
+    const result = await this.pool.query(
+      `INSERT INTO data_export_requests (user_id) VALUES ($1) RETURNING *`,
+      [userId]
+    );
+
+    return this.mapExportRow(result.rows[0]);
+  }
+
+  /**
+   * Move a queued export to processing. Returns null if it is not queued.
+   */
+  async startExport(exportId: string): Promise<DataExportRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE data_export_requests SET status = 'processing'
+       WHERE id = $1 AND status = 'queued'
+       RETURNING *`,
+      [exportId]
+    );
+
+    return result.rows[0] ? this.mapExportRow(result.rows[0]) : null;
+  }
+
+  async completeExport(
+    exportId: string,
+    fileKey: string,
+    fileSize: number,
+    expiresAt: Date
+  ): Promise<DataExportRecord> {
+    const result = await this.pool.query(
+      `UPDATE data_export_requests
+       SET status = 'ready', file_key = $2, file_size = $3, expires_at = $4, completed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [exportId, fileKey, fileSize, expiresAt]
+    );
+
+    return this.mapExportRow(result.rows[0]);
+  }
+
+  async failExport(
+    exportId: string,
+    errorMessage: string
+  ): Promise<DataExportRecord> {
+    const result = await this.pool.query(
+      `UPDATE data_export_requests SET status = 'failed', error = $2, completed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [exportId, errorMessage]
+    );
+
+    return this.mapExportRow(result.rows[0]);
+  }
+
+  async findExportById(exportId: string): Promise<DataExportRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM data_export_requests WHERE id = $1`,
+      [exportId]
+    );
+
+    return result.rows[0] ? this.mapExportRow(result.rows[0]) : null;
+  }
+
+  /**
+   * The user's queued or processing export, if any
+   */
+  async findActiveExport(userId: string): Promise<DataExportRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM data_export_requests
+       WHERE user_id = $1 AND status IN ('queued', 'processing')
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [userId]
+    );
+
+    return result.rows[0] ? this.mapExportRow(result.rows[0]) : null;
+  }
+
+  async findExportsByUserId(
+    userId: string,
+    limit: number
+  ): Promise<DataExportRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM data_export_requests
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+
+    return result.rows.map(row => this.mapExportRow(row));
+  }
+
+  /**
+   * Mark ready exports past their expiry as expired, returning the storage
+   * keys of their archives so the files can be removed
+   */
+  async expireExports(now: Date): Promise<string[]> {
+    const result = await this.pool.query(
+      `UPDATE data_export_requests SET status = 'expired'
+       WHERE status = 'ready' AND expires_at <= $1
+       RETURNING file_key`,
+      [now]
+    );
+
+    return result.rows.map(row => row.file_key).filter(Boolean);
+  }
+
+  async findPersonalData(userId: string): Promise<PersonalDataSections> {
+    const [
+      profile,
+      bookings,
+      swaps,
+      proposals,
+      auctionProposals,
+      payments,
+      notifications,
+      targetingHistory,
+    ] = await Promise.all([
+      this.pool.query(`SELECT * FROM users WHERE id = $1`, [userId]),
+      this.pool.query(
+        `SELECT * FROM bookings
+         WHERE user_id = $1 OR original_owner_id = $1
+         ORDER BY created_at`,
+        [userId]
+      ),
+      this.pool.query(
+        `SELECT s.* FROM swaps s
+         JOIN bookings b ON s.source_booking_id = b.id
+         WHERE b.user_id = $1
+         ORDER BY s.created_at`,
+        [userId]
+      ),
+      this.pool.query(
+        `SELECT * FROM swap_proposals
+         WHERE proposer_id = $1 OR target_user_id = $1
+         ORDER BY created_at`,
+        [userId]
+      ),
+      this.pool.query(
+        `SELECT * FROM auction_proposals WHERE proposer_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      this.pool.query(
+        `SELECT p.*, e.status AS escrow_status
+         FROM payment_transactions p
+         LEFT JOIN escrow_accounts e ON e.transaction_id = p.id
+         WHERE p.payer_id = $1 OR p.recipient_id = $1
+         ORDER BY p.created_at`,
+        [userId]
+      ),
+      this.pool.query(
+        `SELECT * FROM notifications WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      ),
+      this.pool.query(
+        `SELECT h.* FROM swap_targeting_history h
+         WHERE EXISTS (
+           SELECT 1 FROM swaps s
+           JOIN bookings b ON s.source_booking_id = b.id
+           WHERE b.user_id = $1 AND (s.id = h.source_swap_id OR s.id = h.target_swap_id)
+         )
+         ORDER BY h.timestamp`,
+        [userId]
+      ),
+    ]);
+
+    return {
+      profile: profile.rows.map(row => {
+        const copy = { ...row };
+        for (const column of PROFILE_EXCLUDED_COLUMNS) {
+          delete copy[column];
+        }
+        return copy;
+      }),
+      bookings: bookings.rows,
+      swaps: swaps.rows,
+      proposals: proposals.rows,
+      auctionProposals: auctionProposals.rows,
+      payments: payments.rows,
+      notifications: notifications.rows,
+      targetingHistory: targetingHistory.rows,
+    };
+  }
+
+  async findDeletionBlockers(
+    userId: string,
+    executor: Queryable = this.pool
+  ): Promise<AccountDeletionBlocker[]> {
+    const blockers: AccountDeletionBlocker[] = [];
+    for (const query of BLOCKER_QUERIES) {
+      const result = await executor.query(query.sql, [userId]);
+      if (result.rows.length > 0) {
+        blockers.push({
+          kind: query.kind,
+          ids: result.rows.map(row => row.id),
+          message: query.message,
+        });
+      }
+    }
+    return blockers;
+  }
+
+  async isDeleted(userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT deleted_at FROM users WHERE id = $1`,
+      [userId]
+    );
+    return Boolean(result.rows[0]?.deleted_at);
+  }
+
+  /**
+   * Clear the user's personal data in one transaction. The users row stays,
+   * so swaps, payments, reviews and blockchain references keep pointing at
+   * it. Blockers are checked again under the row lock; if any appeared since
+   * the caller checked, nothing is changed and they are returned instead.
+   */
+  async anonymizeUser(userId: string): Promise<AccountAnonymizationOutcome> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const locked = await client.query(
+        `SELECT id FROM users WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+        [userId]
+      );
+      if (locked.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return { status: 'not_found' };
+      }
+
+      const blockers = await this.findDeletionBlockers(userId, client);
+      if (blockers.length > 0) {
+        await client.query('ROLLBACK');
+        return { status: 'blocked', blockers };
+      }
+
+      const swaps = await client.query(
+        `UPDATE swaps SET status = 'cancelled'
+         WHERE status IN ('pending', 'active')
+           AND source_booking_id IN (SELECT id FROM bookings WHERE user_id = $1)`,
+        [userId]
+      );
+      const bookings = await client.query(
+        `UPDATE bookings SET status = 'cancelled'
+         WHERE user_id = $1 AND status = 'available'`,
+        [userId]
+      );
+
+      const exports = await client.query(
+        `DELETE FROM data_export_requests WHERE user_id = $1 RETURNING file_key`,
+        [userId]
+      );
+
+      const attachments = await client.query(
+        `SELECT attachment_storage_key FROM conversation_messages
+         WHERE sender_id = $1 AND attachment_storage_key IS NOT NULL`,
+        [userId]
+      );
+      await client.query(
+        `UPDATE conversation_messages
+         SET body = $2,
+             contains_contact_details = FALSE,
+             attachment_file_name = NULL,
+             attachment_content_type = NULL,
+             attachment_size_bytes = NULL,
+             attachment_storage_key = NULL
+         WHERE sender_id = $1`,
+        [userId, DELETED_MESSAGE_BODY]
+      );
+
+      for (const table of ACCOUNT_TABLES) {
+        await client.query(`DELETE FROM ${table} WHERE user_id = $1`, [userId]);
+      }
+
+      await client.query(
+        `UPDATE users
+         SET username = 'deleted_' || id::text,
+             password_hash = $2,
+             wallet_address = NULL,
+             email = NULL,
+             phone = NULL,
+             display_name = $3,
+             notifications_enabled = FALSE,
+             auto_accept_enabled = FALSE,
+             auto_accept_locations = NULL,
+             auto_accept_booking_types = NULL,
+             verification_documents = '{}',
+             deleted_at = NOW()
+         WHERE id = $1`,
+        [userId, UNUSABLE_PASSWORD_HASH, DELETED_DISPLAY_NAME]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        status: 'anonymized',
+        cancelledBookings: bookings.rowCount ?? 0,
+        cancelledSwaps: swaps.rowCount ?? 0,
+        exportFileKeys: exports.rows.map(row => row.file_key).filter(Boolean),
+        attachmentFileKeys: attachments.rows.map(
+          row => row.attachment_storage_key
+        ),
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
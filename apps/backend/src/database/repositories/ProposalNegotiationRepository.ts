@@ -0,0 +1,342 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  NegotiatedTerms,
+  ProposalNegotiationVersion,
+} from '@booking-swap/shared';
+import { BaseRepository } from './base';
+import { logger } from '../../utils/logger';
+
+/**
+ * The two parties of a proposal and the terms it was originally made with.
+ * Cash proposals live in swap_proposals, booking proposals in swap_targets.
+ */
+export interface NegotiableProposal {
+  proposalId: string;
+  sourceTable: 'swap_proposals' | 'swap_targets';
+  proposerId: string;
+  targetUserId: string;
+  status: string;
+  bookingTitle?: string;
+  terms: NegotiatedTerms;
+}
+
+export interface CreateCounterOfferData {
+  proposalId: string;
+  authorId: string;
+  recipientId: string;
+  terms: NegotiatedTerms;
+  message?: string;
+}
+
+export class ProposalNegotiationRepository extends BaseRepository<ProposalNegotiationVersion> {
+  constructor(pool: Pool) {
+    super(pool, 'proposal_negotiation_versions');
+  }
+
+  mapRowToEntity(row: any): ProposalNegotiationVersion {
+    return {
+      id: row.id,
+      proposalId: row.proposal_id,
+      version: row.version,
+      authorId: row.author_id,
+      recipientId: row.recipient_id,
+      status: row.status,
+      terms: {
+        additionalPayment:
+          row.additional_payment !== null &&
+          row.additional_payment !== undefined
+            ? parseFloat(row.additional_payment)
+            : undefined,
+        conditions: row.conditions || [],
+        expiresAt: new Date(row.expires_at),
+        cashOffer:
+          row.cash_offer_amount !== null && row.cash_offer_amount !== undefined
+            ? {
+                amount: parseFloat(row.cash_offer_amount),
+                currency: row.cash_offer_currency || 'USD',
+              }
+            : undefined,
+      },
+      message: row.message || undefined,
+      respondedAt: row.responded_at ? new Date(row.responded_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<ProposalNegotiationVersion, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    return {
+      proposal_id: entity.proposalId,
+      version: entity.version,
+      author_id: entity.authorId,
+      recipient_id: entity.recipientId,
+      status: entity.status,
+      additional_payment: entity.terms.additionalPayment ?? null,
+      conditions: entity.terms.conditions,
+      expires_at: entity.terms.expiresAt,
+      cash_offer_amount: entity.terms.cashOffer?.amount ?? null,
+      cash_offer_currency: entity.terms.cashOffer?.currency ?? null,
+      message: entity.message || null,
+      responded_at: entity.respondedAt || null,
+    };
+  }
+
+  /**
+   * Load a proposal's parties and original terms from swap_proposals, falling back to swap_targets
+   */
+  async findNegotiableProposal(
+    proposalId: string
+  ): Promise<NegotiableProposal | null> {
+    try {
+      const cashResult = await this.pool.query(
+        `SELECT
+           sp.id, sp.proposer_id, sp.target_user_id, sp.status,
+           sp.cash_offer_amount, sp.cash_offer_currency, sp.additional_payment,
+           sp.conditions, sp.expires_at, tb.title AS booking_title
+         FROM swap_proposals sp
+         LEFT JOIN swaps ts ON sp.target_swap_id = ts.id
+         LEFT JOIN bookings tb ON ts.source_booking_id = tb.id
+         WHERE sp.id = $1`,
+        [proposalId]
+      );
+
+      if (cashResult.rows.length > 0) {
+        const row = cashResult.rows[0];
+        return {
+          proposalId: row.id,
+          sourceTable: 'swap_proposals',
+          proposerId: row.proposer_id,
+          targetUserId: row.target_user_id,
+          status: row.status,
+          bookingTitle: row.booking_title || undefined,
+          terms: {
+            additionalPayment:
+              row.additional_payment !== null
+                ? parseFloat(row.additional_payment)
+                : undefined,
+            conditions: row.conditions || [],
+            expiresAt: new Date(row.expires_at),
+            cashOffer:
+              row.cash_offer_amount !== null
+                ? {
+                    amount: parseFloat(row.cash_offer_amount),
+                    currency: row.cash_offer_currency || 'USD',
+                  }
+                : undefined,
+          },
+        };
+      }
+
+      const bookingResult = await this.pool.query(
+        `SELECT
+           st.id, st.status, ss.additional_payment, ss.conditions, ss.expires_at,
+           sb.user_id AS proposer_id, tb.user_id AS target_user_id, tb.title AS booking_title
+         FROM swap_targets st
+         JOIN swaps ss ON st.source_swap_id = ss.id
+         JOIN bookings sb ON ss.source_booking_id = sb.id
+         JOIN swaps ts ON st.target_swap_id = ts.id
+         JOIN bookings tb ON ts.source_booking_id = tb.id
+         WHERE st.id = $1`,
+        [proposalId]
+      );
+
+      if (bookingResult.rows.length === 0) {
+        return null;
+      }
+
+      const row = bookingResult.rows[0];
+      return {
+        proposalId: row.id,
+        sourceTable: 'swap_targets',
+        proposerId: row.proposer_id,
+        targetUserId: row.target_user_id,
+        // swap_targets uses 'active' to mean pending
+        status: row.status === 'active' ? 'pending' : row.status,
+        bookingTitle: row.booking_title || undefined,
+        terms: {
+          additionalPayment:
+            row.additional_payment !== null
+              ? parseFloat(row.additional_payment)
+              : undefined,
+          conditions: row.conditions || [],
+          expiresAt: new Date(row.expires_at),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to load negotiable proposal', { error, proposalId });
+      throw error;
+    }
+  }
+
+  /**
+   * All versions of a proposal's negotiation, oldest first
+   */
+  async findByProposalId(
+    proposalId: string
+  ): Promise<ProposalNegotiationVersion[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM ${this.tableName}
+       WHERE proposal_id = $1
+       ORDER BY version ASC`,
+      [proposalId]
+    );
+
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Supersede the open version (if any) and insert the next one. Returns null
+   * when the open version changed since the caller read it.
+   */
+  async createCounterOffer(
+    data: CreateCounterOfferData,
+    expectedOpenVersionId: string | null
+  ): Promise<ProposalNegotiationVersion | null> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const openResult = await client.query(
+        `SELECT id FROM ${this.tableName}
+         WHERE proposal_id = $1 AND status = 'open'
+         FOR UPDATE`,
+        [data.proposalId]
+      );
+      const openVersionId: string | null = openResult.rows[0]?.id ?? null;
+      if (openVersionId !== expectedOpenVersionId) {
+        return null;
+      }
+
+      if (openVersionId) {
+        await client.query(
+          `UPDATE ${this.tableName}
+           SET status = 'superseded', responded_at = NOW()
+           WHERE id = $1`,
+          [openVersionId]
+        );
+      }
+
+      const insertResult = await client.query(
+        `INSERT INTO ${this.tableName} (
+           proposal_id, version, author_id, recipient_id, status,
+           additional_payment, conditions, expires_at, cash_offer_amount, cash_offer_currency, message
+         )
+         SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, 'open', $4, $5, $6, $7, $8, $9
+         FROM ${this.tableName}
+         WHERE proposal_id = $1
+         RETURNING *`,
+        [
+          data.proposalId,
+          data.authorId,
+          data.recipientId,
+          data.terms.additionalPayment ?? null,
+          data.terms.conditions,
+          data.terms.expiresAt,
+          data.terms.cashOffer?.amount ?? null,
+          data.terms.cashOffer?.currency ?? null,
+          data.message || null,
+        ]
+      );
+
+      return this.mapRowToEntity(insertResult.rows[0]);
+    });
+  }
+
+  /**
+   * Reject an open version. Returns null if it was no longer open.
+   */
+  async rejectVersion(
+    versionId: string
+  ): Promise<ProposalNegotiationVersion | null> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'rejected', responded_at = NOW()
+       WHERE id = $1 AND status = 'open'
+       RETURNING *`,
+      [versionId]
+    );
+
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Accept an open version and copy its terms onto the cash proposal so the
+   * completion workflow executes them. Returns null if it was no longer open.
+   */
+  async acceptVersion(
+    versionId: string
+  ): Promise<ProposalNegotiationVersion | null> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `UPDATE ${this.tableName}
+         SET status = 'accepted', responded_at = NOW()
+         WHERE id = $1 AND status = 'open'
+         RETURNING *`,
+        [versionId]
+      );
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      const version = this.mapRowToEntity(result.rows[0]);
+      await client.query(
+        `UPDATE swap_proposals
+         SET cash_offer_amount = COALESCE($2, cash_offer_amount),
+             cash_offer_currency = COALESCE($3, cash_offer_currency),
+             additional_payment = $4,
+             conditions = $5,
+             expires_at = $6,
+             accepted_negotiation_version_id = $7
+         WHERE id = $1`,
+        [
+          version.proposalId,
+          version.terms.cashOffer?.amount ?? null,
+          version.terms.cashOffer?.currency ?? null,
+          version.terms.additionalPayment ?? null,
+          version.terms.conditions,
+          version.terms.expiresAt,
+          version.id,
+        ]
+      );
+
+      return version;
+    });
+  }
+
+  /**
+   * Undo acceptVersion when the swap could not be completed, so the version
+   * can be answered again
+   */
+  async revertAcceptedVersion(
+    version: ProposalNegotiationVersion,
+    originalTerms: NegotiatedTerms
+  ): Promise<void> {
+    await this.executeInTransaction(async (client: PoolClient) => {
+      await client.query(
+        `UPDATE ${this.tableName}
+         SET status = 'open', responded_at = NULL
+         WHERE id = $1 AND status = 'accepted'`,
+        [version.id]
+      );
+
+      await client.query(
+        `UPDATE swap_proposals
+         SET cash_offer_amount = COALESCE($2, cash_offer_amount),
+             cash_offer_currency = COALESCE($3, cash_offer_currency),
+             additional_payment = $4,
+             conditions = $5,
+             expires_at = $6,
+             accepted_negotiation_version_id = NULL
+         WHERE id = $1 AND accepted_negotiation_version_id = $7`,
+        [
+          version.proposalId,
+          originalTerms.cashOffer?.amount ?? null,
+          originalTerms.cashOffer?.currency ?? null,
+          originalTerms.additionalPayment ?? null,
+          originalTerms.conditions,
+          originalTerms.expiresAt,
+          version.id,
+        ]
+      );
+    });
+  }
+}
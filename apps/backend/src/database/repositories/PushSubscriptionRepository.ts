@@ -0,0 +1,178 @@
+import { Pool } from 'pg';
+import {
+  NotificationType,
+  PushPreferences,
+  WebPushSubscription,
+} from '@booking-swap/shared';
+
+export interface PushSubscriptionRecord extends WebPushSubscription {
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+  failureCount: number;
+}
+
+export interface NewPushSubscription {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  deviceName: string;
+  userAgent?: string;
+  expiresAt?: Date;
+}
+
+/**
+ * Web Push subscriptions per device, and the push columns of the user's
+ * notification preferences
+ */
+export class PushSubscriptionRepository {
+  constructor(private pool: Pool) {}
+
+  private mapRow(row: any): PushSubscriptionRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      endpoint: row.endpoint,
+      p256dh: row.p256dh,
+      auth: row.auth,
+      deviceName: row.device_name,
+      userAgent: row.user_agent || undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      failureCount: row.failure_count,
+      lastSuccessAt: row.last_success_at
+        ? new Date(row.last_success_at)
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Register a subscription. Browsers keep the endpoint when they re-subscribe,
+   * so an existing endpoint is moved to this user with the new keys.
+   */
+  async saveSubscription(
+    userId: string,
+    subscription: NewPushSubscription
+  ): Promise<PushSubscriptionRecord> {
+    const result = await this.pool.query(
+      `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, device_name, user_agent, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (endpoint) DO UPDATE
+       SET user_id = EXCLUDED.user_id, p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth,
+           device_name = EXCLUDED.device_name, user_agent = EXCLUDED.user_agent,
+           expires_at = EXCLUDED.expires_at, failure_count = 0
+       RETURNING *`,
+      [
+        userId,
+        subscription.endpoint,
+        subscription.p256dh,
+        subscription.auth,
+        subscription.deviceName,
+        subscription.userAgent || null,
+        subscription.expiresAt || null,
+      ]
+    );
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findByUserId(userId: string): Promise<PushSubscriptionRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM push_subscriptions
+       WHERE user_id = $1 AND (expires_at IS NULL OR expires_at > NOW())
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async hasSubscriptions(userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM push_subscriptions
+         WHERE user_id = $1 AND (expires_at IS NULL OR expires_at > NOW())
+       ) AS exists`,
+      [userId]
+    );
+    return result.rows[0].exists === true;
+  }
+
+  async deleteSubscription(userId: string, id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM push_subscriptions WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteByEndpoint(userId: string, endpoint: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `DELETE FROM push_subscriptions WHERE endpoint = $1 AND user_id = $2`,
+      [endpoint, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Remove a subscription the push service reported as gone
+   */
+  async deleteById(id: string): Promise<void> {
+    await this.pool.query(`DELETE FROM push_subscriptions WHERE id = $1`, [id]);
+  }
+
+  async recordSuccess(id: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE push_subscriptions SET failure_count = 0, last_success_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async recordFailure(id: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE push_subscriptions SET failure_count = failure_count + 1 WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Delete subscriptions that have expired or failed `maxFailures` deliveries
+   * in a row. Returns how many were removed.
+   */
+  async deleteStale(now: Date, maxFailures: number): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM push_subscriptions
+       WHERE expires_at <= $1 OR failure_count >= $2`,
+      [now, maxFailures]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async findPreferences(userId: string): Promise<PushPreferences | null> {
+    const result = await this.pool.query(
+      `SELECT push, push_types FROM notification_preferences WHERE user_id = $1`,
+      [userId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    return {
+      push: row.push !== false,
+      pushTypes: (row.push_types || []) as NotificationType[],
+    };
+  }
+
+  async savePreferences(
+    userId: string,
+    preferences: PushPreferences
+  ): Promise<PushPreferences> {
+    await this.pool.query(
+      `INSERT INTO notification_preferences (user_id, push, push_types)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE
+       SET push = EXCLUDED.push, push_types = EXCLUDED.push_types`,
+      [userId, preferences.push, preferences.pushTypes]
+    );
+    return preferences;
+  }
+}
@@ -0,0 +1,317 @@
+import { Pool, PoolClient } from 'pg';
+import { Review } from '@booking-swap/shared';
+import { BaseRepository } from './base';
+import { logger } from '../../utils/logger';
+
+/**
+ * A swap and the two users who took part in it
+ */
+export interface ReviewableSwap {
+  swapId: string;
+  status: string;
+  completedAt?: Date;
+  partyIds: string[];
+  // Each party lists its own booking as a swap, so the two reviews of one
+  // exchange can be left on different swap records
+  exchangeSwapIds: string[];
+}
+
+export interface ReviewEntity extends Review {
+  updatedAt: Date;
+}
+
+export interface CreateReviewData {
+  swapId: string;
+  exchangeSwapIds: string[];
+  reviewerId: string;
+  reviewedUserId: string;
+  rating: number;
+  comment?: string;
+  visibleAt: Date;
+}
+
+export interface ReviewRatingStats {
+  reviewCount: number;
+  averageRating: number | null;
+}
+
+export interface SwapOutcomeCounts {
+  completedSwaps: number;
+  cancelledSwaps: number;
+}
+
+export class ReviewRepository extends BaseRepository<ReviewEntity> {
+  constructor(pool: Pool) {
+    super(pool, 'reviews');
+  }
+
+  mapRowToEntity(row: any): ReviewEntity {
+    return {
+      id: row.id,
+      reviewerId: row.reviewer_id,
+      reviewedUserId: row.reviewed_user_id,
+      rating: row.rating,
+      comment: row.comment || undefined,
+      swapId: row.swap_id,
+      visibleAt: row.visible_at ? new Date(row.visible_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<ReviewEntity, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    return {
+      reviewer_id: entity.reviewerId,
+      reviewed_user_id: entity.reviewedUserId,
+      rating: entity.rating,
+      comment: entity.comment || null,
+      swap_id: entity.swapId,
+      visible_at: entity.visibleAt,
+    };
+  }
+
+  /**
+   * Resolve the owner of the swap and the counterparty of its accepted proposal
+   * (cash proposals in swap_proposals, booking proposals in swap_targets)
+   */
+  async findReviewableSwap(swapId: string): Promise<ReviewableSwap | null> {
+    try {
+      // Completed swaps transfer the booking, so the owner is the original owner if set
+      const swapResult = await this.pool.query(
+        `SELECT s.id, s.status, s.completed_at,
+                COALESCE(b.original_owner_id, b.user_id) AS owner_id
+         FROM swaps s
+         JOIN bookings b ON s.source_booking_id = b.id
+         WHERE s.id = $1`,
+        [swapId]
+      );
+      if (swapResult.rows.length === 0) {
+        return null;
+      }
+
+      const swap = swapResult.rows[0];
+      const partyIds = new Set<string>([swap.owner_id]);
+      const exchangeSwapIds = new Set<string>([swap.id]);
+
+      const cashResult = await this.pool.query(
+        `SELECT proposer_id, target_user_id, source_swap_id, target_swap_id
+         FROM swap_proposals
+         WHERE (source_swap_id = $1 OR target_swap_id = $1) AND status = 'accepted'
+         ORDER BY responded_at DESC NULLS LAST
+         LIMIT 1`,
+        [swapId]
+      );
+
+      let accepted: any;
+      if (cashResult.rows.length > 0) {
+        accepted = cashResult.rows[0];
+        partyIds.add(accepted.proposer_id);
+        partyIds.add(accepted.target_user_id);
+      } else {
+        const bookingResult = await this.pool.query(
+          `SELECT COALESCE(ob.original_owner_id, ob.user_id) AS counterparty_id,
+                  st.source_swap_id, st.target_swap_id
+           FROM swap_targets st
+           JOIN swaps os ON os.id = CASE WHEN st.source_swap_id = $1 THEN st.target_swap_id ELSE st.source_swap_id END
+           JOIN bookings ob ON os.source_booking_id = ob.id
+           WHERE (st.source_swap_id = $1 OR st.target_swap_id = $1) AND st.status = 'accepted'
+           ORDER BY st.updated_at DESC
+           LIMIT 1`,
+          [swapId]
+        );
+        if (bookingResult.rows.length > 0) {
+          accepted = bookingResult.rows[0];
+          partyIds.add(accepted.counterparty_id);
+        }
+      }
+
+      // Cash proposals have no target swap
+      for (const id of [accepted?.source_swap_id, accepted?.target_swap_id]) {
+        if (id) exchangeSwapIds.add(id);
+      }
+
+      return {
+        swapId: swap.id,
+        status: swap.status,
+        completedAt: swap.completed_at
+          ? new Date(swap.completed_at)
+          : undefined,
+        partyIds: Array.from(partyIds),
+        exchangeSwapIds: Array.from(exchangeSwapIds),
+      };
+    } catch (error) {
+      logger.error('Failed to resolve reviewable swap', { error, swapId });
+      throw error;
+    }
+  }
+
+  /**
+   * Insert a review. When the other party has already reviewed the exchange
+   * both reviews are made visible immediately. Returns null, without
+   * inserting, when the reviewer has already reviewed the exchange.
+   *
+   * The exchange's swap rows are locked first so two submissions are
+   * serialized: otherwise each could miss the other's uncommitted review and
+   * neither would publish.
+   */
+  async createReview(
+    data: CreateReviewData
+  ): Promise<{ review: Review; published: boolean } | null> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      await client.query(
+        `SELECT id FROM swaps WHERE id = ANY($1) ORDER BY id FOR UPDATE`,
+        [data.exchangeSwapIds]
+      );
+
+      const existing = await client.query(
+        `SELECT 1 FROM ${this.tableName}
+         WHERE swap_id = ANY($1) AND reviewer_id = $2`,
+        [data.exchangeSwapIds, data.reviewerId]
+      );
+      if (existing.rows.length > 0) {
+        return null;
+      }
+
+      const insertResult = await client.query(
+        `INSERT INTO ${this.tableName} (reviewer_id, reviewed_user_id, swap_id, rating, comment, visible_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          data.reviewerId,
+          data.reviewedUserId,
+          data.swapId,
+          data.rating,
+          data.comment || null,
+          data.visibleAt,
+        ]
+      );
+
+      // Publish both reviews once the other party has reviewed as well
+      const publishResult = await client.query(
+        `UPDATE ${this.tableName}
+         SET visible_at = LEAST(visible_at, NOW())
+         WHERE swap_id = ANY($1)
+           AND reviewer_id IN ($2, $3)
+           AND reviewed_user_id IN ($2, $3)
+           AND EXISTS (
+             SELECT 1 FROM ${this.tableName}
+             WHERE swap_id = ANY($1) AND reviewer_id = $3 AND reviewed_user_id = $2
+           )
+         RETURNING *`,
+        [data.exchangeSwapIds, data.reviewerId, data.reviewedUserId]
+      );
+
+      const published = publishResult.rows.length > 0;
+      const reviewRow =
+        publishResult.rows.find(row => row.id === insertResult.rows[0].id) ||
+        insertResult.rows[0];
+
+      return { review: this.mapRowToEntity(reviewRow), published };
+    });
+  }
+
+  /**
+   * Reviews about a user that are visible to others, newest first
+   */
+  async findVisibleByReviewedUser(
+    userId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ reviews: Review[]; total: number }> {
+    const [rows, count] = await Promise.all([
+      this.pool.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE reviewed_user_id = $1 AND visible_at <= NOW()
+         ORDER BY visible_at DESC, created_at DESC
+         LIMIT $2 OFFSET $3`,
+        [userId, limit, offset]
+      ),
+      this.pool.query(
+        `SELECT COUNT(*) AS total FROM ${this.tableName}
+         WHERE reviewed_user_id = $1 AND visible_at <= NOW()`,
+        [userId]
+      ),
+    ]);
+
+    return {
+      reviews: rows.rows.map(row => this.mapRowToEntity(row)),
+      total: parseInt(count.rows[0].total),
+    };
+  }
+
+  async getVisibleRatingStats(userId: string): Promise<ReviewRatingStats> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS review_count, AVG(rating) AS average_rating
+       FROM ${this.tableName}
+       WHERE reviewed_user_id = $1 AND visible_at <= NOW()`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    return {
+      reviewCount: parseInt(row.review_count),
+      averageRating:
+        row.average_rating !== null ? parseFloat(row.average_rating) : null,
+    };
+  }
+
+  /**
+   * Count completed and cancelled swaps the user owned
+   */
+  async getSwapOutcomeCounts(userId: string): Promise<SwapOutcomeCounts> {
+    const result = await this.pool.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE s.status = 'completed') AS completed_swaps,
+         COUNT(*) FILTER (WHERE s.status = 'cancelled') AS cancelled_swaps
+       FROM swaps s
+       JOIN bookings b ON s.source_booking_id = b.id
+       WHERE COALESCE(b.original_owner_id, b.user_id) = $1`,
+      [userId]
+    );
+
+    return {
+      completedSwaps: parseInt(result.rows[0].completed_swaps),
+      cancelledSwaps: parseInt(result.rows[0].cancelled_swaps),
+    };
+  }
+
+  /**
+   * Store the recomputed reputation on the user row
+   */
+  async updateUserReputation(
+    userId: string,
+    score: number,
+    counts: SwapOutcomeCounts
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET reputation_score = $2, completed_swaps = $3, cancelled_swaps = $4,
+           reputation_updated_at = NOW()
+       WHERE id = $1`,
+      [userId, score, counts.completedSwaps, counts.cancelledSwaps]
+    );
+  }
+
+  /**
+   * Users with reviews that became visible after their reputation was last
+   * stored, typically because the review window closed
+   */
+  async findUsersWithUncountedReviews(limit: number): Promise<string[]> {
+    const result = await this.pool.query(
+      `SELECT u.id
+       FROM users u
+       WHERE EXISTS (
+         SELECT 1 FROM ${this.tableName} r
+         WHERE r.reviewed_user_id = u.id
+           AND r.visible_at <= NOW()
+           AND r.visible_at > COALESCE(u.reputation_updated_at, '-infinity')
+       )
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(row => row.id);
+  }
+}
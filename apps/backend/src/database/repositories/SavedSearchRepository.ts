@@ -0,0 +1,194 @@
+import { Pool } from 'pg';
+import {
+  NotificationChannel,
+  SavedSearch,
+  SavedSearchFilters,
+} from '@booking-swap/shared';
+import { BaseRepository } from './base';
+
+/**
+ * An unsent match of a daily-digest search, with the booking fields the
+ * digest needs
+ */
+export interface PendingSavedSearchMatch {
+  matchId: string;
+  savedSearchId: string;
+  searchName: string;
+  userId: string;
+  bookingId: string;
+  bookingTitle: string;
+  city: string;
+  country: string;
+  checkIn: Date;
+  checkOut: Date;
+  swapValue: number;
+  matchedAt: Date;
+}
+
+export class SavedSearchRepository extends BaseRepository<SavedSearch> {
+  constructor(pool: Pool) {
+    super(pool, 'saved_searches');
+  }
+
+  mapRowToEntity(row: any): SavedSearch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      filters: this.parseFilters(row.filters),
+      alertFrequency: row.alert_frequency,
+      channels: (row.channels || []) as NotificationChannel[],
+      lastNotifiedAt: row.last_notified_at
+        ? new Date(row.last_notified_at)
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<SavedSearch, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    // An edit only sends the fields the user changed; leave the rest alone
+    const row: Record<string, any> = {};
+    if (entity.userId !== undefined) row.user_id = entity.userId;
+    if (entity.name !== undefined) row.name = entity.name;
+    if (entity.filters !== undefined) {
+      row.filters = JSON.stringify(entity.filters);
+    }
+    if (entity.alertFrequency !== undefined) {
+      row.alert_frequency = entity.alertFrequency;
+    }
+    if (entity.channels !== undefined) row.channels = entity.channels;
+    if (entity.lastNotifiedAt !== undefined) {
+      row.last_notified_at = entity.lastNotifiedAt;
+    }
+    return row;
+  }
+
+  async findByUserId(userId: string): Promise<SavedSearch[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM saved_searches WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM saved_searches WHERE user_id = $1`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Saved searches that want alerts, excluding the given user's own searches
+   */
+  async findAlerting(excludeUserId?: string): Promise<SavedSearch[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM saved_searches
+       WHERE alert_frequency <> 'off'
+         AND ($1::uuid IS NULL OR user_id <> $1::uuid)`,
+      [excludeUserId || null]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Record that a search matched a booking. Returns the match id, or null if
+   * the search had already matched it.
+   */
+  async recordMatch(
+    savedSearchId: string,
+    bookingId: string
+  ): Promise<string | null> {
+    const result = await this.pool.query(
+      `INSERT INTO saved_search_matches (saved_search_id, booking_id)
+       VALUES ($1, $2)
+       ON CONFLICT (saved_search_id, booking_id) DO NOTHING
+       RETURNING id`,
+      [savedSearchId, bookingId]
+    );
+    return result.rows[0]?.id || null;
+  }
+
+  /**
+   * Mark matches as sent and stamp their searches as notified
+   */
+  async markMatchesNotified(matchIds: string[]): Promise<void> {
+    if (matchIds.length === 0) {
+      return;
+    }
+
+    await this.pool.query(
+      `WITH sent AS (
+         UPDATE saved_search_matches
+         SET notified_at = NOW()
+         WHERE id = ANY($1::uuid[]) AND notified_at IS NULL
+         RETURNING saved_search_id
+       )
+       UPDATE saved_searches
+       SET last_notified_at = NOW()
+       WHERE id IN (SELECT saved_search_id FROM sent)`,
+      [matchIds]
+    );
+  }
+
+  /**
+   * Unsent matches of daily-digest searches, oldest first
+   */
+  async findPendingDigestMatches(
+    limit: number = 1000
+  ): Promise<PendingSavedSearchMatch[]> {
+    const result = await this.pool.query(
+      `SELECT m.id AS match_id, m.saved_search_id, m.booking_id, m.matched_at,
+              ss.name AS search_name, ss.user_id,
+              b.title, b.city, b.country, b.check_in_date, b.check_out_date, b.swap_value
+       FROM saved_search_matches m
+       JOIN saved_searches ss ON ss.id = m.saved_search_id
+       JOIN bookings b ON b.id = m.booking_id
+       WHERE m.notified_at IS NULL
+         AND ss.alert_frequency = 'daily'
+         AND b.status = 'available'
+       ORDER BY m.matched_at ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map(row => ({
+      matchId: row.match_id,
+      savedSearchId: row.saved_search_id,
+      searchName: row.search_name,
+      userId: row.user_id,
+      bookingId: row.booking_id,
+      bookingTitle: row.title,
+      city: row.city,
+      country: row.country,
+      checkIn: new Date(row.check_in_date),
+      checkOut: new Date(row.check_out_date),
+      swapValue: parseFloat(row.swap_value),
+      matchedAt: new Date(row.matched_at),
+    }));
+  }
+
+  // JSONB filters come back with dates as ISO strings
+  private parseFilters(raw: any): SavedSearchFilters {
+    const filters: SavedSearchFilters =
+      typeof raw === 'string' ? JSON.parse(raw) : { ...(raw || {}) };
+
+    if (filters.dateRange) {
+      filters.dateRange = {
+        ...filters.dateRange,
+        checkIn: filters.dateRange.checkIn
+          ? new Date(filters.dateRange.checkIn)
+          : undefined,
+        checkOut: filters.dateRange.checkOut
+          ? new Date(filters.dateRange.checkOut)
+          : undefined,
+      };
+    }
+
+    return filters;
+  }
+}
@@ -0,0 +1,317 @@
+import { Pool } from 'pg';
+import { BaseRepository } from './base';
+import { logger } from '../../utils/logger';
+
+export type ScheduledJobStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface ScheduledJob {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  status: ScheduledJobStatus;
+  runAt: Date;
+  dedupKey?: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EnqueueJobData {
+  type: string;
+  payload: Record<string, any>;
+  runAt: Date;
+  dedupKey?: string;
+  maxAttempts: number;
+}
+
+export interface ScheduledJobFilters {
+  status?: ScheduledJobStatus;
+  type?: string;
+}
+
+export class ScheduledJobRepository extends BaseRepository<ScheduledJob> {
+  constructor(pool: Pool) {
+    super(pool, 'scheduled_jobs');
+  }
+
+  mapRowToEntity(row: any): ScheduledJob {
+    return {
+      id: row.id,
+      type: row.type,
+      payload: row.payload || {},
+      status: row.status,
+      runAt: new Date(row.run_at),
+      dedupKey: row.dedup_key || undefined,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      lastError: row.last_error || undefined,
+      lockedBy: row.locked_by || undefined,
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<ScheduledJob, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    return {
+      type: entity.type,
+      payload: JSON.stringify(entity.payload),
+      status: entity.status,
+      run_at: entity.runAt,
+      dedup_key: entity.dedupKey || null,
+      attempts: entity.attempts,
+      max_attempts: entity.maxAttempts,
+      last_error: entity.lastError || null,
+      locked_by: entity.lockedBy || null,
+      locked_until: entity.lockedUntil || null,
+      completed_at: entity.completedAt || null,
+    };
+  }
+
+  /**
+   * Insert a pending job. If a pending or running job with the same dedup key
+   * exists, that job is returned instead and nothing is inserted.
+   */
+  async enqueue(
+    data: EnqueueJobData
+  ): Promise<{ job: ScheduledJob; created: boolean }> {
+    try {
+      const insertResult = await this.pool.query(
+        `INSERT INTO ${this.tableName} (type, payload, run_at, dedup_key, max_attempts)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (dedup_key) WHERE dedup_key IS NOT NULL AND status IN ('pending', 'running')
+         DO NOTHING
+         RETURNING *`,
+        [
+          data.type,
+          JSON.stringify(data.payload),
+          data.runAt,
+          data.dedupKey || null,
+          data.maxAttempts,
+        ]
+      );
+
+      if (insertResult.rows.length > 0) {
+        return {
+          job: this.mapRowToEntity(insertResult.rows[0]),
+          created: true,
+        };
+      }
+
+      const existingResult = await this.pool.query(
+        `SELECT * FROM ${this.tableName}
+         WHERE dedup_key = $1 AND status IN ('pending', 'running')`,
+        [data.dedupKey]
+      );
+
+      // The existing job finished between the two statements, so try again
+      if (existingResult.rows.length === 0) {
+        return this.enqueue(data);
+      }
+
+      return {
+        job: this.mapRowToEntity(existingResult.rows[0]),
+        created: false,
+      };
+    } catch (error) {
+      logger.error('Failed to enqueue scheduled job', {
+        error,
+        type: data.type,
+        dedupKey: data.dedupKey,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lease up to `limit` due jobs for this worker. Jobs whose lease expired
+   * (the instance running them died) are picked up again. SKIP LOCKED keeps
+   * concurrent instances from leasing the same job.
+   */
+  async leaseDueJobs(
+    workerId: string,
+    limit: number,
+    leaseMs: number
+  ): Promise<ScheduledJob[]> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'running',
+           locked_by = $1,
+           locked_until = NOW() + ($3 * INTERVAL '1 millisecond'),
+           attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM ${this.tableName}
+         WHERE (status = 'pending' AND run_at <= NOW())
+            OR (status = 'running' AND locked_until < NOW())
+         ORDER BY run_at ASC
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId, limit, leaseMs]
+    );
+
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Mark a leased job as completed. Returns false if the lease was lost.
+   */
+  async markCompleted(jobId: string, workerId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'completed', completed_at = NOW(), last_error = NULL,
+           locked_by = NULL, locked_until = NULL
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [jobId, workerId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record a failed attempt. The job runs again at `retryAt`, or is marked
+   * failed for good when no retry is given. Returns false if the lease was lost.
+   */
+  async markFailed(
+    jobId: string,
+    workerId: string,
+    errorMessage: string,
+    retryAt: Date | null
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = CASE WHEN $4::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+           run_at = COALESCE($4::timestamptz, run_at),
+           last_error = $3,
+           locked_by = NULL, locked_until = NULL
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [jobId, workerId, errorMessage, retryAt]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findJobs(
+    filters: ScheduledJobFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ jobs: ScheduledJob[]; total: number }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.type) {
+      values.push(filters.type);
+      conditions.push(`type = $${values.length}`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows, count] = await Promise.all([
+      this.pool.query(
+        `SELECT * FROM ${this.tableName} ${where}
+         ORDER BY run_at DESC
+         LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        [...values, limit, offset]
+      ),
+      this.pool.query(
+        `SELECT COUNT(*) AS total FROM ${this.tableName} ${where}`,
+        values
+      ),
+    ]);
+
+    return {
+      jobs: rows.rows.map(row => this.mapRowToEntity(row)),
+      total: parseInt(count.rows[0].total),
+    };
+  }
+
+  async countByStatus(): Promise<Record<ScheduledJobStatus, number>> {
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*) AS count FROM ${this.tableName} GROUP BY status`
+    );
+
+    const counts: Record<ScheduledJobStatus, number> = {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    for (const row of result.rows) {
+      counts[row.status as ScheduledJobStatus] = parseInt(row.count);
+    }
+
+    return counts;
+  }
+
+  /**
+   * Cancel a pending job. Running jobs cannot be cancelled. Returns null if
+   * the job was not pending.
+   */
+  async cancel(jobId: string): Promise<ScheduledJob | null> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'cancelled'
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [jobId]
+    );
+
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async cancelByDedupKey(dedupKey: string): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'cancelled'
+       WHERE dedup_key = $1 AND status = 'pending'`,
+      [dedupKey]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Put a failed or cancelled job back in the queue to run now with fresh
+   * attempts. Returns null if the job is not failed/cancelled or another job
+   * with the same dedup key is already queued.
+   */
+  async requeue(jobId: string): Promise<ScheduledJob | null> {
+    try {
+      const result = await this.pool.query(
+        `UPDATE ${this.tableName}
+         SET status = 'pending', run_at = NOW(), attempts = 0,
+             last_error = NULL, completed_at = NULL
+         WHERE id = $1 AND status IN ('failed', 'cancelled')
+         RETURNING *`,
+        [jobId]
+      );
+
+      return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Pool } from 'pg';
+import { LoginMethod } from '@booking-swap/shared';
+
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  loginMethod: LoginMethod;
+  deviceName: string;
+  deviceFingerprint: string;
+  ipAddress?: string;
+  userAgent?: string;
+  twoFactorVerifiedAt?: Date;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSessionData {
+  userId: string;
+  loginMethod: LoginMethod;
+  deviceName: string;
+  deviceFingerprint: string;
+  ipAddress?: string;
+  userAgent?: string;
+  twoFactorVerifiedAt?: Date;
+  expiresAt: Date;
+}
+
+export type RefreshTokenConsumption =
+  | { status: 'consumed'; sessionId: string }
+  | { status: 'reused'; sessionId: string }
+  | { status: 'invalid' };
+
+/**
+ * Login sessions and their refresh token chains. Sessions are never deleted
+ * on sign-out, only marked revoked, so the device history stays visible.
+ */
+export class SessionRepository {
+  constructor(private pool: Pool) {}
+
+  private mapRow(row: any): SessionRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      loginMethod: row.login_method,
+      deviceName: row.device_name,
+      deviceFingerprint: row.device_fingerprint,
+      ipAddress: row.ip_address ?? undefined,
+      userAgent: row.user_agent ?? undefined,
+      twoFactorVerifiedAt: row.two_factor_verified_at
+        ? new Date(row.two_factor_verified_at)
+        : undefined,
+      lastActiveAt: new Date(row.last_active_at),
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      revokedReason: row.revoked_reason ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async create(data: CreateSessionData): Promise<SessionRecord> {
+    const result = await this.pool.query(
+      `INSERT INTO user_sessions (
+         user_id, login_method, device_name, device_fingerprint,
+         ip_address, user_agent, two_factor_verified_at, expires_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        data.userId,
+        data.loginMethod,
+        data.deviceName,
+        data.deviceFingerprint,
+        data.ipAddress ?? null,
+        data.userAgent ?? null,
+        data.twoFactorVerifiedAt ?? null,
+        data.expiresAt,
+      ]
+    );
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<SessionRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM user_sessions WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Sessions that are neither revoked nor expired, most recently used first
+   */
+  async findActiveByUserId(userId: string): Promise<SessionRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM user_sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_active_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM user_sessions WHERE user_id = $1`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  async hasFingerprint(userId: string, fingerprint: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1 FROM user_sessions
+       WHERE user_id = $1 AND device_fingerprint = $2
+       LIMIT 1`,
+      [userId, fingerprint]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Slide the session's expiry forward after a refresh
+   */
+  async extend(
+    id: string,
+    expiresAt: Date,
+    ipAddress?: string
+  ): Promise<SessionRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE user_sessions
+       SET expires_at = $2, last_active_at = NOW(), ip_address = COALESCE($3, ip_address)
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [id, expiresAt, ipAddress ?? null]
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE user_sessions SET last_active_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async setTwoFactorVerified(id: string, verifiedAt: Date): Promise<void> {
+    await this.pool.query(
+      `UPDATE user_sessions SET two_factor_verified_at = $2 WHERE id = $1`,
+      [id, verifiedAt]
+    );
+  }
+
+  /**
+   * Revoke one session. Passing a user id limits the update to that user's
+   * sessions. Returns false if nothing active matched.
+   */
+  async revoke(id: string, reason: string, userId?: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE id = $1 AND revoked_at IS NULL AND ($3::uuid IS NULL OR user_id = $3)`,
+      [id, reason, userId ?? null]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one. Returns
+   * how many were revoked.
+   */
+  async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE user_id = $1 AND revoked_at IS NULL AND ($3::uuid IS NULL OR id <> $3)`,
+      [userId, reason, exceptSessionId ?? null]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async addRefreshToken(
+    sessionId: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO session_refresh_tokens (session_id, token_hash, expires_at)
+       VALUES ($1, $2, $3)`,
+      [sessionId, tokenHash, expiresAt]
+    );
+  }
+
+  /**
+   * Mark a refresh token used. The update only matches an unused, unexpired
+   * token, so two concurrent exchanges cannot both succeed. A token that
+   * exists but was already used is reported as reused.
+   */
+  async consumeRefreshToken(
+    tokenHash: string
+  ): Promise<RefreshTokenConsumption> {
+    const consumed = await this.pool.query(
+      `UPDATE session_refresh_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING session_id`,
+      [tokenHash]
+    );
+    if (consumed.rows[0]) {
+      return { status: 'consumed', sessionId: consumed.rows[0].session_id };
+    }
+
+    const existing = await this.pool.query(
+      `SELECT session_id, used_at FROM session_refresh_tokens WHERE token_hash = $1`,
+      [tokenHash]
+    );
+    if (existing.rows[0]?.used_at) {
+      return { status: 'reused', sessionId: existing.rows[0].session_id };
+    }
+    return { status: 'invalid' };
+  }
+}
@@ -0,0 +1,397 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  SwapCycle,
+  SwapCycleLeg,
+  SwapCycleLegStatus,
+  SwapCycleStatus,
+  SwapPreferences,
+} from '@booking-swap/shared';
+import { BaseRepository } from './base';
+import { logger } from '../../utils/logger';
+
+/**
+ * An open first-match swap that can take part in a multi-party cycle
+ */
+export interface SwapCycleCandidateSwap {
+  swapId: string;
+  bookingId: string;
+  ownerId: string;
+  title: string;
+  city: string;
+  country: string;
+  bookingType: string;
+  checkIn: Date;
+  checkOut: Date;
+  swapValue: number;
+  swapPreferences: SwapPreferences;
+}
+
+export interface CreateSwapCycleData {
+  cycleLength: number;
+  totalScore: number;
+  expiresAt: Date;
+  legs: Array<
+    Omit<
+      SwapCycleLeg,
+      'id' | 'cycleId' | 'status' | 'respondedAt' | 'createdAt' | 'updatedAt'
+    >
+  >;
+}
+
+/**
+ * Outcome of answering a leg, counted after the answer was stored
+ */
+export interface SwapCycleLegResponse {
+  /** Null when the leg had already been answered */
+  leg: SwapCycleLeg | null;
+  /** Status of the cycle after this answer */
+  cycleStatus: SwapCycleStatus;
+  acceptedCount: number;
+  legCount: number;
+}
+
+const OPEN_CYCLE_STATUSES: SwapCycleStatus[] = ['proposed', 'accepted'];
+
+export class SwapCycleRepository extends BaseRepository<SwapCycle> {
+  constructor(pool: Pool) {
+    super(pool, 'swap_cycles');
+  }
+
+  /**
+   * Map database row to SwapCycle (legs are attached separately)
+   */
+  mapRowToEntity(row: any): SwapCycle {
+    return {
+      id: row.id,
+      status: row.status,
+      cycleLength: row.cycle_length,
+      totalScore: parseFloat(row.total_score),
+      expiresAt: new Date(row.expires_at),
+      completionTransactionId: row.completion_transaction_id || undefined,
+      blockchainTransactionId: row.blockchain_transaction_id || undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      failureReason: row.failure_reason || undefined,
+      legs: [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<SwapCycle, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    return {
+      status: entity.status,
+      cycle_length: entity.cycleLength,
+      total_score: entity.totalScore,
+      expires_at: entity.expiresAt,
+      completion_transaction_id: entity.completionTransactionId || null,
+      blockchain_transaction_id: entity.blockchainTransactionId || null,
+      completed_at: entity.completedAt || null,
+      failure_reason: entity.failureReason || null,
+    };
+  }
+
+  mapRowToLeg(row: any): SwapCycleLeg {
+    return {
+      id: row.id,
+      cycleId: row.cycle_id,
+      position: row.position,
+      swapId: row.swap_id,
+      bookingId: row.booking_id,
+      giverUserId: row.giver_user_id,
+      receiverUserId: row.receiver_user_id,
+      receivesSwapId: row.receives_swap_id,
+      receivesBookingId: row.receives_booking_id,
+      compatibilityScore: parseFloat(row.compatibility_score),
+      status: row.status,
+      respondedAt: row.responded_at ? new Date(row.responded_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Find open first-match swaps that accept booking exchanges and are not
+   * already part of an open cycle
+   */
+  async findCandidateSwaps(limit: number): Promise<SwapCycleCandidateSwap[]> {
+    try {
+      const query = `
+        SELECT
+          s.id AS swap_id,
+          s.swap_preferences,
+          b.id AS booking_id,
+          b.user_id AS owner_id,
+          b.title,
+          b.city,
+          b.country,
+          b.type AS booking_type,
+          b.check_in_date,
+          b.check_out_date,
+          b.swap_value
+        FROM swaps s
+        JOIN bookings b ON s.source_booking_id = b.id
+        WHERE s.status = 'pending'
+          AND s.expires_at > NOW()
+          AND b.status = 'available'
+          AND COALESCE(s.acceptance_strategy->>'type', 'first_match') = 'first_match'
+          AND COALESCE((s.payment_types->>'bookingExchange')::boolean, true) = true
+          AND NOT EXISTS (
+            SELECT 1
+            FROM swap_cycle_legs l
+            JOIN swap_cycles c ON l.cycle_id = c.id
+            WHERE l.swap_id = s.id AND c.status = ANY($2)
+          )
+        ORDER BY s.created_at DESC
+        LIMIT $1
+      `;
+
+      const result = await this.pool.query(query, [limit, OPEN_CYCLE_STATUSES]);
+      return result.rows.map(row => ({
+        swapId: row.swap_id,
+        bookingId: row.booking_id,
+        ownerId: row.owner_id,
+        title: row.title,
+        city: row.city,
+        country: row.country,
+        bookingType: row.booking_type,
+        checkIn: new Date(row.check_in_date),
+        checkOut: new Date(row.check_out_date),
+        swapValue: parseFloat(row.swap_value),
+        swapPreferences:
+          typeof row.swap_preferences === 'string'
+            ? JSON.parse(row.swap_preferences)
+            : row.swap_preferences || {},
+      }));
+    } catch (error) {
+      logger.error('Failed to find swap cycle candidates', { error, limit });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a cycle together with all of its legs
+   */
+  async createCycle(data: CreateSwapCycleData): Promise<SwapCycle> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const cycleResult = await client.query(
+        `INSERT INTO ${this.tableName} (status, cycle_length, total_score, expires_at)
+         VALUES ('proposed', $1, $2, $3)
+         RETURNING *`,
+        [data.cycleLength, data.totalScore, data.expiresAt]
+      );
+      const cycle = this.mapRowToEntity(cycleResult.rows[0]);
+
+      for (const leg of data.legs) {
+        const legResult = await client.query(
+          `INSERT INTO swap_cycle_legs (
+             cycle_id, position, swap_id, booking_id, giver_user_id, receiver_user_id,
+             receives_swap_id, receives_booking_id, compatibility_score
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           RETURNING *`,
+          [
+            cycle.id,
+            leg.position,
+            leg.swapId,
+            leg.bookingId,
+            leg.giverUserId,
+            leg.receiverUserId,
+            leg.receivesSwapId,
+            leg.receivesBookingId,
+            leg.compatibilityScore,
+          ]
+        );
+        cycle.legs.push(this.mapRowToLeg(legResult.rows[0]));
+      }
+
+      return cycle;
+    });
+  }
+
+  /**
+   * Find a cycle by ID including its legs
+   */
+  async findById(id: string): Promise<SwapCycle | null> {
+    const cycle = await super.findById(id);
+    if (!cycle) {
+      return null;
+    }
+
+    cycle.legs = await this.findLegsByCycleIds([id]);
+    return cycle;
+  }
+
+  /**
+   * Find cycles the user takes part in, newest first
+   */
+  async findByUserId(
+    userId: string,
+    statuses?: SwapCycleStatus[]
+  ): Promise<SwapCycle[]> {
+    try {
+      const params: any[] = [userId];
+      let statusFilter = '';
+      if (statuses && statuses.length > 0) {
+        params.push(statuses);
+        statusFilter = 'AND c.status = ANY($2)';
+      }
+
+      const result = await this.pool.query(
+        `SELECT c.*
+         FROM ${this.tableName} c
+         WHERE EXISTS (
+           SELECT 1 FROM swap_cycle_legs l
+           WHERE l.cycle_id = c.id AND l.giver_user_id = $1
+         )
+         ${statusFilter}
+         ORDER BY c.created_at DESC`,
+        params
+      );
+
+      const cycles = result.rows.map(row => this.mapRowToEntity(row));
+      const legs = await this.findLegsByCycleIds(cycles.map(cycle => cycle.id));
+      for (const cycle of cycles) {
+        cycle.legs = legs.filter(leg => leg.cycleId === cycle.id);
+      }
+
+      return cycles;
+    } catch (error) {
+      logger.error('Failed to find swap cycles by user', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a party's answer to their leg with the cycle row locked, so
+   * answers to the same cycle are applied one at a time. A decline moves the
+   * cycle to declined; the answer that makes every leg accepted moves it to
+   * accepted, which only that one caller observes. Returns null when the
+   * cycle does not exist.
+   */
+  async respondToLeg(
+    cycleId: string,
+    legId: string,
+    status: Extract<SwapCycleLegStatus, 'accepted' | 'declined'>,
+    reason?: string
+  ): Promise<SwapCycleLegResponse | null> {
+    return this.executeInTransaction(async (client: PoolClient) => {
+      const locked = await client.query(
+        `SELECT status FROM ${this.tableName} WHERE id = $1 FOR UPDATE`,
+        [cycleId]
+      );
+      if (locked.rows.length === 0) {
+        return null;
+      }
+
+      let cycleStatus: SwapCycleStatus = locked.rows[0].status;
+      let leg: SwapCycleLeg | null = null;
+      if (cycleStatus === 'proposed') {
+        const legResult = await client.query(
+          `UPDATE swap_cycle_legs
+           SET status = $3, responded_at = NOW()
+           WHERE id = $1 AND cycle_id = $2 AND status = 'pending'
+           RETURNING *`,
+          [legId, cycleId, status]
+        );
+        leg = legResult.rows[0] ? this.mapRowToLeg(legResult.rows[0]) : null;
+      }
+
+      const counts = await client.query(
+        `SELECT
+           COUNT(*) FILTER (WHERE status = 'accepted') AS accepted_count,
+           COUNT(*) AS leg_count
+         FROM swap_cycle_legs
+         WHERE cycle_id = $1`,
+        [cycleId]
+      );
+      const acceptedCount = parseInt(counts.rows[0].accepted_count);
+      const legCount = parseInt(counts.rows[0].leg_count);
+
+      if (leg) {
+        const nextStatus: SwapCycleStatus | null =
+          status === 'declined'
+            ? 'declined'
+            : acceptedCount === legCount
+              ? 'accepted'
+              : null;
+        if (nextStatus) {
+          await client.query(
+            `UPDATE ${this.tableName}
+             SET status = $2, failure_reason = COALESCE($3, failure_reason)
+             WHERE id = $1`,
+            [cycleId, nextStatus, reason || null]
+          );
+          cycleStatus = nextStatus;
+        }
+      }
+
+      return { leg, cycleStatus, acceptedCount, legCount };
+    });
+  }
+
+  /**
+   * Move a cycle from one status to another. Returns false if the cycle was
+   * no longer in the expected status (e.g. another leg declined concurrently).
+   */
+  async transitionStatus(
+    id: string,
+    from: SwapCycleStatus,
+    to: SwapCycleStatus,
+    failureReason?: string
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = $3, failure_reason = COALESCE($4, failure_reason)
+       WHERE id = $1 AND status = $2`,
+      [id, from, to, failureReason || null]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Expire proposed cycles whose response window has passed
+   */
+  async expireStaleCycles(): Promise<string[]> {
+    const result = await this.pool.query(
+      `UPDATE ${this.tableName}
+       SET status = 'expired'
+       WHERE status = 'proposed' AND expires_at <= NOW()
+       RETURNING id`
+    );
+
+    return result.rows.map(row => row.id);
+  }
+
+  async findBookingTitles(bookingIds: string[]): Promise<Map<string, string>> {
+    if (bookingIds.length === 0) {
+      return new Map();
+    }
+
+    const result = await this.pool.query(
+      'SELECT id, title FROM bookings WHERE id = ANY($1)',
+      [bookingIds]
+    );
+
+    return new Map(result.rows.map(row => [row.id, row.title]));
+  }
+
+  private async findLegsByCycleIds(
+    cycleIds: string[]
+  ): Promise<SwapCycleLeg[]> {
+    if (cycleIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM swap_cycle_legs
+       WHERE cycle_id = ANY($1)
+       ORDER BY cycle_id, position`,
+      [cycleIds]
+    );
+
+    return result.rows.map(row => this.mapRowToLeg(row));
+  }
+}
@@ -0,0 +1,242 @@
+import { Pool } from 'pg';
+import { BookingType, SwapPreferences } from '@booking-swap/shared';
+
+/**
+ * A pending swap with the booking and owner fields the recommender scores
+ */
+export interface RecommendationListing {
+  swapId: string;
+  bookingId: string;
+  ownerId: string;
+  title: string;
+  type: BookingType;
+  city: string;
+  country: string;
+  checkIn: Date;
+  checkOut: Date;
+  swapValue: number;
+  listedAt: Date;
+  swapPreferences: SwapPreferences;
+  // 0 to 5, where owners without completed swaps have 0
+  ownerReputation: number;
+  ownerCompletedSwaps: number;
+}
+
+/**
+ * A browse proposal whose owner accepted it, used to evaluate the ranking
+ * offline
+ */
+export interface AcceptedProposalRecord {
+  proposalId: string;
+  proposerId: string;
+  sourceSwapId: string;
+  targetSwapId: string;
+  proposedAt: Date;
+}
+
+const LISTING_COLUMNS = `
+  s.id AS swap_id,
+  s.swap_preferences,
+  s.created_at AS listed_at,
+  b.id AS booking_id,
+  b.user_id AS owner_id,
+  b.title,
+  b.type,
+  b.city,
+  b.country,
+  b.check_in_date,
+  b.check_out_date,
+  b.swap_value,
+  u.reputation_score,
+  u.completed_swaps
+`;
+
+const LISTING_JOINS = `
+  FROM swaps s
+  JOIN bookings b ON b.id = s.source_booking_id
+  JOIN users u ON u.id = b.user_id
+`;
+
+/**
+ * Read-only queries behind the recommendations feed: listings a user could
+ * propose on, the user's own swaps and the listings they proposed on before.
+ * Swaps have no owner column since migration 027, so the owner is the user of
+ * the swap's booking.
+ */
+export class SwapRecommendationRepository {
+  constructor(private pool: Pool) {}
+
+  private mapListingRow(row: any): RecommendationListing {
+    const preferences =
+      typeof row.swap_preferences === 'string'
+        ? JSON.parse(row.swap_preferences)
+        : row.swap_preferences;
+
+    return {
+      swapId: row.swap_id,
+      bookingId: row.booking_id,
+      ownerId: row.owner_id,
+      title: row.title,
+      type: row.type,
+      city: row.city,
+      country: row.country,
+      checkIn: new Date(row.check_in_date),
+      checkOut: new Date(row.check_out_date),
+      swapValue: parseFloat(row.swap_value) || 0,
+      listedAt: new Date(row.listed_at),
+      swapPreferences: preferences || {},
+      ownerReputation: parseFloat(row.reputation_score) || 0,
+      ownerCompletedSwaps: parseInt(row.completed_swaps) || 0,
+    };
+  }
+
+  /**
+   * Open listings of other users that the user has not proposed on yet,
+   * newest first
+   */
+  async findCandidates(
+    userId: string,
+    limit: number
+  ): Promise<RecommendationListing[]> {
+    const result = await this.pool.query(
+      `SELECT ${LISTING_COLUMNS}
+       ${LISTING_JOINS}
+       WHERE s.status = 'pending'
+         AND s.expires_at > NOW()
+         AND b.status = 'available'
+         AND b.user_id <> $1
+         AND NOT EXISTS (
+           SELECT 1 FROM swap_proposal_metadata m
+           WHERE m.target_swap_id = s.id AND m.proposer_id = $1
+         )
+         AND NOT EXISTS (
+           SELECT 1 FROM swap_targets st
+           JOIN swaps ps ON ps.id = st.source_swap_id
+           JOIN bookings pb ON pb.id = ps.source_booking_id
+           WHERE st.target_swap_id = s.id
+             AND pb.user_id = $1
+             AND st.status IN ('active', 'accepted')
+         )
+       ORDER BY s.created_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows.map(row => this.mapListingRow(row));
+  }
+
+  /**
+   * Listings of other users that were open at the given time, newest first.
+   * Current statuses say nothing about the past, so only the listing and
+   * expiry times are used.
+   */
+  async findCandidatesAsOf(
+    userId: string,
+    asOf: Date,
+    limit: number
+  ): Promise<RecommendationListing[]> {
+    const result = await this.pool.query(
+      `SELECT ${LISTING_COLUMNS}
+       ${LISTING_JOINS}
+       WHERE s.created_at <= $2
+         AND s.expires_at > $2
+         AND b.user_id <> $1
+       ORDER BY s.created_at DESC
+       LIMIT $3`,
+      [userId, asOf, limit]
+    );
+    return result.rows.map(row => this.mapListingRow(row));
+  }
+
+  /**
+   * The user's open swaps, newest first
+   */
+  async findOwnSwaps(
+    userId: string,
+    limit: number
+  ): Promise<RecommendationListing[]> {
+    const result = await this.pool.query(
+      `SELECT ${LISTING_COLUMNS}
+       ${LISTING_JOINS}
+       WHERE b.user_id = $1
+         AND s.status = 'pending'
+         AND s.expires_at > NOW()
+       ORDER BY s.created_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows.map(row => this.mapListingRow(row));
+  }
+
+  async findSwapsByIds(swapIds: string[]): Promise<RecommendationListing[]> {
+    if (swapIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT ${LISTING_COLUMNS}
+       ${LISTING_JOINS}
+       WHERE s.id = ANY($1)`,
+      [swapIds]
+    );
+    return result.rows.map(row => this.mapListingRow(row));
+  }
+
+  /**
+   * Listings the user proposed on from browse, most recent proposal first.
+   * With `before`, only proposals made before that time.
+   */
+  async findProposalHistory(
+    userId: string,
+    limit: number,
+    before?: Date
+  ): Promise<RecommendationListing[]> {
+    const result = await this.pool.query(
+      `SELECT ${LISTING_COLUMNS}
+       FROM swap_proposal_metadata m
+       JOIN swaps s ON s.id = m.target_swap_id
+       JOIN bookings b ON b.id = s.source_booking_id
+       JOIN users u ON u.id = b.user_id
+       WHERE m.proposer_id = $1
+         AND ($3::timestamptz IS NULL OR m.created_at < $3)
+       ORDER BY m.created_at DESC
+       LIMIT $2`,
+      [userId, limit, before ?? null]
+    );
+    return result.rows.map(row => this.mapListingRow(row));
+  }
+
+  /**
+   * Accepted browse proposals, oldest first
+   */
+  async findAcceptedProposals(
+    since: Date,
+    limit: number
+  ): Promise<AcceptedProposalRecord[]> {
+    const result = await this.pool.query(
+      `SELECT m.proposal_id, m.proposer_id, m.source_swap_id,
+              m.target_swap_id, m.created_at
+       FROM swap_proposal_metadata m
+       JOIN swaps ps ON ps.id = m.proposal_id
+       WHERE m.created_at >= $1
+         AND (
+           ps.status IN ('accepted', 'completed')
+           OR EXISTS (
+             SELECT 1 FROM swap_targets st
+             WHERE st.source_swap_id = m.source_swap_id
+               AND st.target_swap_id = m.target_swap_id
+               AND st.status = 'accepted'
+           )
+         )
+       ORDER BY m.created_at ASC
+       LIMIT $2`,
+      [since, limit]
+    );
+    return result.rows.map(row => ({
+      proposalId: row.proposal_id,
+      proposerId: row.proposer_id,
+      sourceSwapId: row.source_swap_id,
+      targetSwapId: row.target_swap_id,
+      proposedAt: new Date(row.created_at),
+    }));
+  }
+}
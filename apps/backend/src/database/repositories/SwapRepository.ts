@@ -154,6 +154,7 @@ export class SwapRepository extends BaseRepository<Swap> {
       acceptanceStrategy: typeof row.acceptance_strategy === 'string' ? JSON.parse(row.acceptance_strategy) : row.acceptance_strategy,
       auctionId: row.auction_id,
       cashDetails: row.cash_details ? (typeof row.cash_details === 'string' ? JSON.parse(row.cash_details) : row.cash_details) : undefined,
+      swapPreferences: row.swap_preferences ? (typeof row.swap_preferences === 'string' ? JSON.parse(row.swap_preferences) : row.swap_preferences) : undefined,
     };
   }
 
@@ -188,6 +189,7 @@ export class SwapRepository extends BaseRepository<Swap> {
       payment_types: JSON.stringify(entity.paymentTypes),
       acceptance_strategy: JSON.stringify(entity.acceptanceStrategy),
       cash_details: entity.cashDetails ? JSON.stringify(entity.cashDetails) : null,
+      swap_preferences: JSON.stringify(entity.swapPreferences || {}),
     };
   }
 
@@ -59,7 +59,7 @@ export class SwapTargetingRepository extends BaseRepository<SwapTarget> {
     /**
      * Create a new swap target
      */
-    async createTarget(target: CreateSwapTargetRequest): Promise<SwapTarget> {
+    async createTarget(target: CreateSwapTargetRequest, client?: PoolClient): Promise<SwapTarget> {
         try {
             const query = `
         INSERT INTO swap_targets (source_swap_id, target_swap_id, status)
@@ -67,7 +67,7 @@ export class SwapTargetingRepository extends BaseRepository<SwapTarget> {
         RETURNING *
       `;
 
-            const result = await this.pool.query(query, [
+            const result = await (client || this.pool).query(query, [
                 target.sourceSwapId,
                 target.targetSwapId,
                 target.status
@@ -152,6 +152,19 @@ export class SwapTargetingRepository extends BaseRepository<SwapTarget> {
         }
     }
 
+    /**
+     * Store the Hedera transaction that recorded a swap target
+     */
+    async setBlockchainTransactionId(targetId: string, transactionId: string): Promise<void> {
+        try {
+            const query = `UPDATE swap_targets SET blockchain_transaction_id = $2 WHERE id = $1`;
+            await this.pool.query(query, [targetId, transactionId]);
+        } catch (error) {
+            logger.error('Failed to store swap target blockchain transaction', { error, targetId, transactionId });
+            throw error;
+        }
+    }
+
     /**
      * Delete a swap target
      */
@@ -223,7 +236,7 @@ export class SwapTargetingRepository extends BaseRepository<SwapTarget> {
     /**
      * Create targeting history entry
      */
-    async createHistoryEntry(entry: CreateTargetingHistoryRequest): Promise<TargetingHistory> {
+    async createHistoryEntry(entry: CreateTargetingHistoryRequest, client?: PoolClient): Promise<TargetingHistory> {
         try {
             const query = `
         INSERT INTO swap_targeting_history (source_swap_id, target_swap_id, action, metadata)
@@ -231,7 +244,7 @@ export class SwapTargetingRepository extends BaseRepository<SwapTarget> {
         RETURNING *
       `;
 
-            const result = await this.pool.query(query, [
+            const result = await (client || this.pool).query(query, [
                 entry.sourceSwapId,
                 entry.targetSwapId || null,
                 entry.action,
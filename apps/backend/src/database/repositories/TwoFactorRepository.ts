@@ -0,0 +1,158 @@
+import { Pool } from 'pg';
+
+export interface TwoFactorRecord {
+  userId: string;
+  secretEncrypted: string;
+  enabledAt?: Date;
+  lastUsedStep?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * TOTP secrets and recovery codes. Rows are keyed by user rather than by a
+ * generated id, so this does not extend BaseRepository.
+ */
+export class TwoFactorRepository {
+  constructor(private pool: Pool) {}
+
+  private mapRow(row: any): TwoFactorRecord {
+    return {
+      userId: row.user_id,
+      secretEncrypted: row.secret_encrypted,
+      enabledAt: row.enabled_at ? new Date(row.enabled_at) : undefined,
+      lastUsedStep:
+        row.last_used_step !== null && row.last_used_step !== undefined
+          ? parseInt(row.last_used_step)
+          : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async findByUserId(userId: string): Promise<TwoFactorRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM user_two_factor WHERE user_id = $1`,
+      [userId]
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Start (or restart) enrolment with a new secret. 2FA stays off until
+   * the secret is confirmed with a code.
+   */
+  async savePendingSecret(
+    userId: string,
+    secretEncrypted: string
+  ): Promise<TwoFactorRecord> {
+    const result = await this.pool.query(
+      `INSERT INTO user_two_factor (user_id, secret_encrypted)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+       SET secret_encrypted = EXCLUDED.secret_encrypted, enabled_at = NULL, last_used_step = NULL
+       RETURNING *`,
+      [userId, secretEncrypted]
+    );
+    return this.mapRow(result.rows[0]);
+  }
+
+  async enable(
+    userId: string,
+    usedStep: number
+  ): Promise<TwoFactorRecord | null> {
+    const result = await this.pool.query(
+      `UPDATE user_two_factor SET enabled_at = NOW(), last_used_step = $2
+       WHERE user_id = $1 AND enabled_at IS NULL
+       RETURNING *`,
+      [userId, usedStep]
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Record the time step of an accepted code. Returns false if that step
+   * (or a later one) was already used, which means the code is a replay.
+   */
+  async markStepUsed(userId: string, step: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE user_two_factor SET last_used_step = $2
+       WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+      [userId, step]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async delete(userId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `DELETE FROM user_two_factor_recovery_codes WHERE user_id = $1`,
+        [userId]
+      );
+      await client.query(`DELETE FROM user_two_factor WHERE user_id = $1`, [
+        userId,
+      ]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Swap out all of a user's recovery codes for a fresh set
+   */
+  async replaceRecoveryCodes(
+    userId: string,
+    codeHashes: string[]
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `DELETE FROM user_two_factor_recovery_codes WHERE user_id = $1`,
+        [userId]
+      );
+      await client.query(
+        `INSERT INTO user_two_factor_recovery_codes (user_id, code_hash)
+         SELECT $1, UNNEST($2::text[])`,
+        [userId, codeHashes]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark a recovery code used. Returns false if it does not exist or was
+   * already used.
+   */
+  async consumeRecoveryCode(
+    userId: string,
+    codeHash: string
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE user_two_factor_recovery_codes SET used_at = NOW()
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+      [userId, codeHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM user_two_factor_recovery_codes
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+}
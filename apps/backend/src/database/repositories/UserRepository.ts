@@ -1,5 +1,5 @@
 import { Pool } from 'pg';
-import { User, UserVerificationLevel } from '@booking-swap/shared';
+import { DEFAULT_LOCALE, Locale, User, UserVerificationLevel } from '@booking-swap/shared';
 import { BaseRepository } from './base';
 
 export interface UserFilters {
@@ -26,12 +26,19 @@ export class UserRepository extends BaseRepository<User> {
         displayName: row.display_name,
         email: row.email,
         phone: row.phone,
+        locale: row.locale,
         preferences: {
           notifications: row.notifications_enabled,
           autoAcceptCriteria: {
             maxAdditionalPayment: row.auto_accept_max_payment ? parseFloat(row.auto_accept_max_payment) : undefined,
             preferredLocations: row.auto_accept_locations || [],
             bookingTypes: row.auto_accept_booking_types || [],
+            enabled: row.auto_accept_enabled ?? false,
+            dryRun: row.auto_accept_dry_run ?? false,
+            minCompatibilityScore: row.auto_accept_min_compatibility ?? undefined,
+            minCounterpartyReputation: row.auto_accept_min_reputation ? parseFloat(row.auto_accept_min_reputation) : undefined,
+            dailyLimit: row.auto_accept_daily_limit ?? undefined,
+            enabledAt: row.auto_accept_enabled_at ?? undefined,
           },
         },
       },
@@ -47,6 +54,7 @@ export class UserRepository extends BaseRepository<User> {
         reviews: [], // Reviews will be loaded separately
       },
       lastActiveAt: row.last_active_at,
+      deletedAt: row.deleted_at || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -60,10 +68,17 @@ export class UserRepository extends BaseRepository<User> {
       password_hash: entity.passwordHash,
       display_name: entity.profile.displayName,
       phone: entity.profile.phone,
+      locale: entity.profile.locale || DEFAULT_LOCALE,
       notifications_enabled: entity.profile.preferences.notifications,
       auto_accept_max_payment: entity.profile.preferences.autoAcceptCriteria?.maxAdditionalPayment,
       auto_accept_locations: entity.profile.preferences.autoAcceptCriteria?.preferredLocations || [],
       auto_accept_booking_types: entity.profile.preferences.autoAcceptCriteria?.bookingTypes || [],
+      auto_accept_enabled: entity.profile.preferences.autoAcceptCriteria?.enabled ?? false,
+      auto_accept_dry_run: entity.profile.preferences.autoAcceptCriteria?.dryRun ?? false,
+      auto_accept_min_compatibility: entity.profile.preferences.autoAcceptCriteria?.minCompatibilityScore,
+      auto_accept_min_reputation: entity.profile.preferences.autoAcceptCriteria?.minCounterpartyReputation,
+      auto_accept_daily_limit: entity.profile.preferences.autoAcceptCriteria?.dailyLimit,
+      auto_accept_enabled_at: entity.profile.preferences.autoAcceptCriteria?.enabledAt,
       verification_level: entity.verification.level,
       verification_documents: entity.verification.documents,
       verified_at: entity.verification.verifiedAt,
@@ -248,6 +263,7 @@ export class UserRepository extends BaseRepository<User> {
     displayName: string;
     email: string;
     phone: string;
+    locale: Locale;
     notificationsEnabled: boolean;
     verificationLevel: string;
   }>): Promise<User | null> {
@@ -275,6 +291,11 @@ export class UserRepository extends BaseRepository<User> {
       values.push(updates.phone);
     }
 
+    if (updates.locale !== undefined) {
+      updateFields.push(`locale = $${paramIndex++}`);
+      values.push(updates.locale);
+    }
+
     if (updates.notificationsEnabled !== undefined) {
       updateFields.push(`notifications_enabled = $${paramIndex++}`);
       values.push(updates.notificationsEnabled);
@@ -0,0 +1,248 @@
+import { Pool } from 'pg';
+import {
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpointWithSecret,
+  WebhookEventPayload,
+  WebhookEventType,
+} from '@booking-swap/shared';
+import { BaseRepository } from './base';
+
+export interface CreateWebhookDeliveryData {
+  endpointId: string;
+  payload: WebhookEventPayload;
+  redeliveryOf?: string;
+}
+
+export interface WebhookAttemptResult {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+}
+
+const MAX_DELIVERIES_PAGE = 100;
+
+export class WebhookRepository extends BaseRepository<WebhookEndpointWithSecret> {
+  constructor(pool: Pool) {
+    super(pool, 'webhook_endpoints');
+  }
+
+  mapRowToEntity(row: any): WebhookEndpointWithSecret {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      url: row.url,
+      description: row.description || undefined,
+      secret: row.secret,
+      eventTypes: (row.event_types || []) as WebhookEventType[],
+      enabled: row.enabled,
+      consecutiveFailures: row.consecutive_failures,
+      disabledAt: row.disabled_at ? new Date(row.disabled_at) : undefined,
+      disabledReason: row.disabled_reason || undefined,
+      lastDeliveryAt: row.last_delivery_at
+        ? new Date(row.last_delivery_at)
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  mapEntityToRow(
+    entity: Omit<WebhookEndpointWithSecret, 'id' | 'createdAt' | 'updatedAt'>
+  ): any {
+    // Edits and secret rotation update a few columns, so skip absent fields
+    const row: Record<string, any> = {};
+    if (entity.userId !== undefined) row.user_id = entity.userId;
+    if (entity.url !== undefined) row.url = entity.url;
+    if (entity.description !== undefined) row.description = entity.description;
+    if (entity.secret !== undefined) row.secret = entity.secret;
+    if (entity.eventTypes !== undefined) row.event_types = entity.eventTypes;
+    if (entity.enabled !== undefined) row.enabled = entity.enabled;
+    if (entity.consecutiveFailures !== undefined) {
+      row.consecutive_failures = entity.consecutiveFailures;
+    }
+    return row;
+  }
+
+  async findByUserId(userId: string): Promise<WebhookEndpointWithSecret[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_endpoints WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM webhook_endpoints WHERE user_id = $1`,
+      [userId]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Enabled endpoints of the user that subscribe to the event type
+   */
+  async findSubscribed(
+    userId: string,
+    eventType: WebhookEventType
+  ): Promise<WebhookEndpointWithSecret[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_endpoints
+       WHERE user_id = $1 AND enabled AND $2 = ANY(event_types)`,
+      [userId, eventType]
+    );
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Turn an endpoint back on with a clean failure count
+   */
+  async enable(id: string): Promise<WebhookEndpointWithSecret | null> {
+    const result = await this.pool.query(
+      `UPDATE webhook_endpoints
+       SET enabled = true, consecutive_failures = 0, disabled_at = NULL,
+           disabled_reason = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async disable(
+    id: string,
+    reason: string
+  ): Promise<WebhookEndpointWithSecret | null> {
+    const result = await this.pool.query(
+      `UPDATE webhook_endpoints
+       SET enabled = false, disabled_at = NOW(), disabled_reason = $2, updated_at = NOW()
+       WHERE id = $1 AND enabled
+       RETURNING *`,
+      [id, reason]
+    );
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  async recordSuccess(id: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE webhook_endpoints
+       SET consecutive_failures = 0, last_delivery_at = NOW()
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Count a delivery that used up its retries. Returns the new failure count.
+   */
+  async recordFailure(id: string): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE webhook_endpoints
+       SET consecutive_failures = consecutive_failures + 1
+       WHERE id = $1
+       RETURNING consecutive_failures`,
+      [id]
+    );
+    return result.rows[0]?.consecutive_failures ?? 0;
+  }
+
+  async createDelivery(
+    data: CreateWebhookDeliveryData
+  ): Promise<WebhookDelivery> {
+    const result = await this.pool.query(
+      `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload, redelivery_of)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        data.endpointId,
+        data.payload.id,
+        data.payload.type,
+        JSON.stringify(data.payload),
+        data.redeliveryOf || null,
+      ]
+    );
+    return this.mapRowToDelivery(result.rows[0]);
+  }
+
+  async findDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_deliveries WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? this.mapRowToDelivery(result.rows[0]) : null;
+  }
+
+  async findDeliveriesByEndpoint(
+    endpointId: string,
+    filters: WebhookDeliveryFilters = {}
+  ): Promise<WebhookDelivery[]> {
+    const limit = Math.min(
+      Math.max(filters.limit || 50, 1),
+      MAX_DELIVERIES_PAGE
+    );
+    const result = await this.pool.query(
+      `SELECT * FROM webhook_deliveries
+       WHERE endpoint_id = $1
+         AND ($2::text IS NULL OR status = $2::text)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [endpointId, filters.status || null, limit]
+    );
+    return result.rows.map(row => this.mapRowToDelivery(row));
+  }
+
+  async recordAttempt(
+    deliveryId: string,
+    attempt: WebhookAttemptResult
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE webhook_deliveries
+       SET status = $2, attempts = $3, response_status = $4, response_body = $5,
+           error = $6, duration_ms = $7,
+           delivered_at = CASE WHEN $2 = 'succeeded' THEN NOW() ELSE delivered_at END
+       WHERE id = $1`,
+      [
+        deliveryId,
+        attempt.status,
+        attempt.attempts,
+        attempt.responseStatus ?? null,
+        attempt.responseBody ?? null,
+        attempt.error ?? null,
+        attempt.durationMs,
+      ]
+    );
+  }
+
+  async markDeliveryFailed(deliveryId: string, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE webhook_deliveries SET status = 'failed', error = $2 WHERE id = $1`,
+      [deliveryId, error]
+    );
+  }
+
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload:
+        typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.response_status ?? undefined,
+      responseBody: row.response_body ?? undefined,
+      error: row.error || undefined,
+      durationMs: row.duration_ms ?? undefined,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+      redeliveryOf: row.redelivery_of || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -298,6 +298,72 @@ describe('BookingRepository', () => {
       expect(result).toHaveLength(1);
     });
 
+    it('should search bookings shifted up to a number of days', async () => {
+      (mockPool.query as any).mockResolvedValue({
+        rows: [mockBookingRow],
+      });
+
+      await repository.searchBookings({
+        dateRange: {
+          checkIn: new Date('2024-01-10'),
+          checkOut: new Date('2024-01-15'),
+          flexibleDays: 3,
+        },
+      });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'check_in_date >= $2 AND check_in_date < $3 AND check_out_date >= $4 AND check_out_date < $5'
+        ),
+        [
+          'available',
+          new Date('2024-01-07'),
+          new Date('2024-01-14'),
+          new Date('2024-01-12'),
+          new Date('2024-01-19'),
+          100,
+          0,
+        ]
+      );
+    });
+
+    it('should search bookings overlapping date windows with a stay length', async () => {
+      (mockPool.query as any).mockResolvedValue({
+        rows: [mockBookingRow],
+      });
+
+      await repository.searchBookings({
+        dateRange: {
+          windows: [
+            { start: new Date('2024-07-01'), end: new Date('2024-07-31') },
+            { start: new Date('2024-08-10'), end: new Date('2024-08-20') },
+          ],
+          minNights: 5,
+          maxNights: 7,
+        },
+      });
+
+      const [query, values] = (mockPool.query as any).mock.calls[0];
+      expect(query).toContain(
+        '(LEAST(check_out_date::date, $4::date) - GREATEST(check_in_date::date, $3::date) >= $2 OR ' +
+          'LEAST(check_out_date::date, $6::date) - GREATEST(check_in_date::date, $5::date) >= $2)'
+      );
+      expect(query).toContain('check_out_date::date - check_in_date::date >= $7');
+      expect(query).toContain('check_out_date::date - check_in_date::date <= $8');
+      expect(values).toEqual([
+        'available',
+        5,
+        new Date('2024-07-01'),
+        new Date('2024-07-31'),
+        new Date('2024-08-10'),
+        new Date('2024-08-20'),
+        5,
+        7,
+        100,
+        0,
+      ]);
+    });
+
     it('should search bookings by booking types', async () => {
       (mockPool.query as any).mockResolvedValue({
         rows: [mockBookingRow],
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Pool } from 'pg';
+import { PaymentRepository } from '../PaymentRepository';
+
+vi.mock('../../../utils/logger');
+
+const MIGRATIONS_DIR = join(__dirname, '../../migrations');
+
+/**
+ * Column names of a table as left by the forward migrations, in order
+ */
+function loadTableColumns(table: string): Set<string> {
+  const columns = new Set<string>();
+  const files = readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql') && !file.endsWith('.down.sql'))
+    .sort();
+
+  for (const file of files) {
+    const sql = readFileSync(join(MIGRATIONS_DIR, file), 'utf8');
+
+    const create = new RegExp(
+      `CREATE TABLE (?:IF NOT EXISTS )?${table} \\(([\\s\\S]*?)\\n\\);`,
+      'i'
+    ).exec(sql);
+    if (create) {
+      for (const line of create[1]!.split('\n')) {
+        const match = /^\s*([a-z_]+)\s+[A-Z]/.exec(line);
+        if (
+          match &&
+          !/^(CONSTRAINT|PRIMARY|UNIQUE|FOREIGN|CHECK)$/i.test(match[1]!)
+        ) {
+          columns.add(match[1]!);
+        }
+      }
+    }
+
+    const alter = new RegExp(
+      `ALTER TABLE ${table}\\s+(ADD|DROP) COLUMN (?:IF (?:NOT )?EXISTS )?([a-z_]+)`,
+      'gi'
+    );
+    for (const [, action, column] of sql.matchAll(alter)) {
+      if (action!.toUpperCase() === 'ADD') columns.add(column!);
+      else columns.delete(column!);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Every alias.column reference in a query, e.g. ea.status or pt.swap_id
+ */
+function qualifiedColumns(
+  sql: string,
+  aliases: string[]
+): Array<[string, string]> {
+  const pattern = new RegExp(`\\b(${aliases.join('|')})\\.([a-z_]+)\\b`, 'g');
+  return [...sql.matchAll(pattern)].map(([, alias, column]) => [
+    alias!,
+    column!,
+  ]);
+}
+
+describe('PaymentRepository escrow queries', () => {
+  const escrowColumns = loadTableColumns('escrow_accounts');
+  const paymentColumns = loadTableColumns('payment_transactions');
+  const tableByAlias: Record<string, Set<string>> = {
+    ea: escrowColumns,
+    created: escrowColumns,
+    updated: escrowColumns,
+    pt: paymentColumns,
+  };
+
+  const escrowRow = {
+    id: 'escrow-1',
+    transaction_id: 'tx-1',
+    amount: '250.00',
+    currency: 'USD',
+    status: 'funded',
+    released_at: null,
+    created_at: new Date('2025-01-01'),
+    updated_at: new Date('2025-01-01'),
+    swap_id: 'swap-1',
+    proposal_id: null,
+    payer_id: 'payer-1',
+    recipient_id: 'recipient-1',
+  };
+
+  let mockPool: Pool;
+  let repository: PaymentRepository;
+
+  const lastQuery = (): string =>
+    vi.mocked(mockPool.query).mock.calls.at(-1)![0] as any;
+
+  const expectQueryMatchesSchema = (sql: string) => {
+    const references = qualifiedColumns(sql, Object.keys(tableByAlias));
+    expect(references.length).toBeGreaterThan(0);
+    for (const [alias, column] of references) {
+      expect(tableByAlias[alias], `${alias}.${column}`).toBeDefined();
+      expect(
+        tableByAlias[alias]!.has(column),
+        `${alias}.${column} is not a column in the migrated schema`
+      ).toBe(true);
+    }
+  };
+
+  beforeEach(() => {
+    mockPool = {
+      query: vi.fn().mockResolvedValue({ rows: [escrowRow] }),
+    } as any;
+    repository = new PaymentRepository(mockPool);
+  });
+
+  it('should read the schema the queries are checked against', () => {
+    expect(escrowColumns.has('transaction_id')).toBe(true);
+    expect(escrowColumns.has('swap_id')).toBe(false);
+    expect(escrowColumns.has('recipient_id')).toBe(false);
+    expect(paymentColumns.has('swap_id')).toBe(true);
+    expect(paymentColumns.has('recipient_id')).toBe(true);
+  });
+
+  it('should filter escrows by swap through their payment transaction', async () => {
+    await repository.findEscrowAccounts({
+      id: 'escrow-1',
+      swapId: 'swap-1',
+      status: 'funded',
+      transactionId: 'tx-1',
+      amountRange: { min: 1, max: 500 },
+      createdAfter: new Date('2025-01-01'),
+      createdBefore: new Date('2025-02-01'),
+    });
+
+    const sql = lastQuery();
+    expect(sql).toContain(
+      'JOIN payment_transactions pt ON ea.transaction_id = pt.id'
+    );
+    expect(sql).toContain('pt.swap_id = $4');
+    expect(sql).not.toMatch(
+      /WHERE[\s\S]*(^|[^.\w])(swap_id|status|amount|id)\s*[=<>]/
+    );
+    expectQueryMatchesSchema(sql);
+  });
+
+  it('should only reference existing columns when creating and updating escrows', async () => {
+    await repository.createEscrow({
+      transactionId: 'tx-1',
+      amount: 250,
+      currency: 'USD',
+      status: 'created',
+    } as any);
+    const insert = lastQuery();
+    const insertedColumns = /INSERT INTO escrow_accounts \(([^)]+)\)/
+      .exec(insert)![1]!
+      .split(',')
+      .map(column => column.trim());
+    for (const column of insertedColumns) {
+      expect(escrowColumns.has(column), column).toBe(true);
+    }
+    expectQueryMatchesSchema(insert);
+
+    await repository.updateEscrowStatus('escrow-1', 'disputed');
+    expectQueryMatchesSchema(lastQuery());
+
+    await repository.transitionEscrowStatus('escrow-1', ['disputed'], 'funded');
+    expectQueryMatchesSchema(lastQuery());
+
+    await repository.findPendingEscrowReleases();
+    expectQueryMatchesSchema(lastQuery());
+  });
+
+  it('should map the swap and parties joined from the payment transaction', async () => {
+    const [escrow] = await repository.findEscrowAccounts({ swapId: 'swap-1' });
+
+    expect(escrow).toMatchObject({
+      id: 'escrow-1',
+      transactionId: 'tx-1',
+      amount: 250,
+      swapId: 'swap-1',
+      payerId: 'payer-1',
+      recipientId: 'recipient-1',
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import { ReviewRepository } from '../ReviewRepository';
+
+vi.mock('../../../utils/logger');
+
+const reviewRow = (id: string, reviewerId: string, reviewedUserId: string) => ({
+  id,
+  reviewer_id: reviewerId,
+  reviewed_user_id: reviewedUserId,
+  rating: 5,
+  comment: null,
+  swap_id: 'swap-2',
+  visible_at: new Date(),
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+describe('ReviewRepository', () => {
+  let mockClient: any;
+  let repository: ReviewRepository;
+  let state: { alreadyReviewed: boolean; otherReviewed: boolean };
+
+  const data = {
+    swapId: 'swap-2',
+    exchangeSwapIds: ['swap-1', 'swap-2'],
+    reviewerId: 'user-2',
+    reviewedUserId: 'user-1',
+    rating: 5,
+    visibleAt: new Date(),
+  };
+
+  beforeEach(() => {
+    state = { alreadyReviewed: false, otherReviewed: true };
+    mockClient = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('INSERT INTO reviews')) {
+          return { rows: [reviewRow('review-2', 'user-2', 'user-1')] };
+        }
+        if (sql.includes('UPDATE reviews')) {
+          return {
+            rows: state.otherReviewed
+              ? [
+                  reviewRow('review-1', 'user-1', 'user-2'),
+                  reviewRow('review-2', 'user-2', 'user-1'),
+                ]
+              : [],
+          };
+        }
+        // After the UPDATE check, whose EXISTS has the same subquery
+        if (sql.includes('SELECT 1 FROM reviews')) {
+          return { rows: state.alreadyReviewed ? [{}] : [] };
+        }
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    const mockPool = {
+      query: vi.fn(),
+      connect: vi.fn().mockResolvedValue(mockClient),
+    } as unknown as Pool;
+    repository = new ReviewRepository(mockPool);
+  });
+
+  const statements = (): string[] =>
+    mockClient.query.mock.calls.map(([sql]: [string]) =>
+      sql.replace(/\s+/g, ' ').trim()
+    );
+
+  describe('createReview', () => {
+    it('should lock the exchange before checking for the other review', async () => {
+      const result = await repository.createReview(data);
+
+      expect(result).toMatchObject({
+        review: { id: 'review-2' },
+        published: true,
+      });
+      const sql = statements();
+      expect(sql[0]).toBe('BEGIN');
+      expect(sql[1]).toBe(
+        'SELECT id FROM swaps WHERE id = ANY($1) ORDER BY id FOR UPDATE'
+      );
+      expect(sql[2]).toContain('SELECT 1 FROM reviews');
+      expect(sql[3]).toContain('INSERT INTO reviews');
+      expect(sql.at(-1)).toBe('COMMIT');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE reviews'),
+        [['swap-1', 'swap-2'], 'user-2', 'user-1']
+      );
+    });
+
+    it('should pair reviews left on either swap of the exchange', async () => {
+      await repository.createReview(data);
+
+      const publish = statements().find(sql =>
+        sql.startsWith('UPDATE reviews')
+      )!;
+      expect(publish).toContain('WHERE swap_id = ANY($1)');
+      expect(publish).not.toMatch(/swap_id = \$1\b/);
+    });
+
+    it('should not insert a second review from the same party', async () => {
+      state.alreadyReviewed = true;
+
+      const result = await repository.createReview(data);
+
+      expect(result).toBeNull();
+      expect(
+        statements().some(sql => sql.startsWith('INSERT INTO reviews'))
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Pool } from 'pg';
+import { SwapCycleRepository } from '../SwapCycleRepository';
+
+vi.mock('../../../utils/logger');
+
+const legRow = (status: string) => ({
+  id: 'leg-0',
+  cycle_id: 'cycle-1',
+  position: 0,
+  swap_id: 'swap-0',
+  booking_id: 'booking-0',
+  giver_user_id: 'user-0',
+  receiver_user_id: 'user-2',
+  receives_swap_id: 'swap-1',
+  receives_booking_id: 'booking-1',
+  compatibility_score: '80',
+  status,
+  responded_at: new Date(),
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+describe('SwapCycleRepository', () => {
+  let mockClient: any;
+  let repository: SwapCycleRepository;
+  let state: { cycleStatus: string; legUpdated: boolean; counts: any };
+
+  beforeEach(() => {
+    state = {
+      cycleStatus: 'proposed',
+      legUpdated: true,
+      counts: { accepted_count: '1', leg_count: '3' },
+    };
+    mockClient = {
+      query: vi.fn(async (sql: string, params: any[] = []) => {
+        if (sql.includes('FOR UPDATE')) {
+          return { rows: [{ status: state.cycleStatus }] };
+        }
+        if (sql.includes('UPDATE swap_cycle_legs')) {
+          return { rows: state.legUpdated ? [legRow(params[2])] : [] };
+        }
+        if (sql.includes('COUNT(*)')) {
+          return { rows: [state.counts] };
+        }
+        return { rows: [], rowCount: 1 };
+      }),
+      release: vi.fn(),
+    };
+    const mockPool = {
+      query: vi.fn(),
+      connect: vi.fn().mockResolvedValue(mockClient),
+    } as unknown as Pool;
+    repository = new SwapCycleRepository(mockPool);
+  });
+
+  const statements = (): string[] =>
+    mockClient.query.mock.calls.map(([sql]: [string]) =>
+      sql.replace(/\s+/g, ' ').trim()
+    );
+
+  describe('respondToLeg', () => {
+    it('should lock the cycle and recount accepted legs in one transaction', async () => {
+      const response = await repository.respondToLeg(
+        'cycle-1',
+        'leg-0',
+        'accepted'
+      );
+
+      expect(response).toMatchObject({
+        leg: { id: 'leg-0', status: 'accepted' },
+        cycleStatus: 'proposed',
+        acceptedCount: 1,
+        legCount: 3,
+      });
+      const sql = statements();
+      expect(sql[0]).toBe('BEGIN');
+      expect(sql[1]).toContain('FOR UPDATE');
+      expect(sql[2]).toContain('UPDATE swap_cycle_legs');
+      expect(sql[3]).toContain('COUNT(*)');
+      expect(sql.at(-1)).toBe('COMMIT');
+      expect(
+        sql.some(statement => statement.startsWith('UPDATE swap_cycles'))
+      ).toBe(false);
+    });
+
+    it('should move the cycle to accepted on the last acceptance', async () => {
+      state.counts = { accepted_count: '3', leg_count: '3' };
+
+      const response = await repository.respondToLeg(
+        'cycle-1',
+        'leg-0',
+        'accepted'
+      );
+
+      expect(response!.cycleStatus).toBe('accepted');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE swap_cycles'),
+        ['cycle-1', 'accepted', null]
+      );
+    });
+
+    it('should decline the cycle with the reason', async () => {
+      const response = await repository.respondToLeg(
+        'cycle-1',
+        'leg-0',
+        'declined',
+        'Declined by user user-0'
+      );
+
+      expect(response!.cycleStatus).toBe('declined');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE swap_cycles'),
+        ['cycle-1', 'declined', 'Declined by user user-0']
+      );
+    });
+
+    it('should leave the legs alone once the cycle is no longer proposed', async () => {
+      state.cycleStatus = 'declined';
+
+      const response = await repository.respondToLeg(
+        'cycle-1',
+        'leg-0',
+        'accepted'
+      );
+
+      expect(response).toMatchObject({ leg: null, cycleStatus: 'declined' });
+      expect(
+        statements().some(statement =>
+          statement.startsWith('UPDATE swap_cycle_legs')
+        )
+      ).toBe(false);
+    });
+  });
+});
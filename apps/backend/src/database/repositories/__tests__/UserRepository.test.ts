@@ -113,6 +113,7 @@ describe('UserRepository', () => {
         display_name: 'John Doe',
         email: 'john@example.com',
         phone: '+1234567890',
+        locale: 'en',
         notifications_enabled: true,
         auto_accept_criteria: JSON.stringify({ maxAdditionalPayment: 100 }),
         verification_level: 'verified',
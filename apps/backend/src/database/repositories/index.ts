@@ -7,4 +7,24 @@ export * from './SwapTargetingRepository';
 export * from './AuctionRepository';
 export * from './PaymentRepository';
 export * from './SwapProposalMetadataRepository';
-export * from './SwapProposalHistoryRepository';
\ No newline at end of file
+export * from './SwapProposalHistoryRepository';
+export * from './SwapCycleRepository';
+export * from './ProposalNegotiationRepository';
+export * from './ReviewRepository';
+export * from './ScheduledJobRepository';
+export * from './FxRateRepository';
+export * from './SavedSearchRepository';
+export * from './DisputeRepository';
+export * from './BookingVerificationRepository';
+export * from './ConversationRepository';
+export * from './AutoAcceptRepository';
+export * from './WebhookRepository';
+export * from './ApiKeyRepository';
+export * from './TwoFactorRepository';
+export * from './SessionRepository';
+export * from './CalendarRepository';
+export * from './OutboxRepository';
+export * from './LedgerReconciliationRepository';
+export * from './PrivacyRepository';
+export * from './PushSubscriptionRepository';
+export * from './SwapRecommendationRepository';
@@ -25,6 +25,11 @@ import { HederaBalanceService } from './services/hedera/HederaBalanceService';
 import { BalanceCalculator } from '@booking-swap/shared';
 import { AuthService } from './services/auth/AuthService';
 import { AuthMiddleware } from './middleware/auth';
+import { initializeAdminAuth } from './middleware/adminAuth';
+import { ApiKeyService } from './services/auth/ApiKeyService';
+import { TwoFactorService } from './services/auth/TwoFactorService';
+import { SessionService } from './services/auth/SessionService';
+import { RateLimitCacheService } from './services/cache/RateLimitCacheService';
 import { PasswordResetCleanupService } from './services/auth/PasswordResetCleanupService';
 import { getCleanupConfig, validateCleanupConfig } from './services/auth/cleanup-config';
 import { ConfigurationValidator } from './services/startup/ConfigurationValidator';
@@ -40,7 +45,11 @@ import { SwapTargetingRepository } from './database/repositories/SwapTargetingRe
 import { AuctionRepository } from './database/repositories/AuctionRepository';
 import { PaymentRepository } from './database/repositories/PaymentRepository';
 import { NotificationRepository } from './database/repositories/NotificationRepository';
+import { ApiKeyRepository } from './database/repositories/ApiKeyRepository';
+import { TwoFactorRepository } from './database/repositories/TwoFactorRepository';
+import { SessionRepository } from './database/repositories/SessionRepository';
 import { PasswordResetTokenRepository } from './database/repositories/PasswordResetTokenRepository';
+import { SwapProposalMetadataRepository } from './database/repositories/SwapProposalMetadataRepository';
 
 import { AuthController } from './controllers/AuthController';
 import { UserController } from './controllers/UserController';
@@ -48,17 +57,51 @@ import { BookingController } from './controllers/BookingController';
 import { SwapController } from './controllers/SwapController';
 import { ProposalController } from './controllers/ProposalController';
 import { CompletionController } from './controllers/CompletionController';
+import { SwapCycleController } from './controllers/SwapCycleController';
+import { ReviewController } from './controllers/ReviewController';
+import { CurrencyController } from './controllers/CurrencyController';
+import { SavedSearchController } from './controllers/SavedSearchController';
+import { DisputeController } from './controllers/DisputeController';
+import { BookingVerificationController } from './controllers/BookingVerificationController';
+import { MessagingController } from './controllers/MessagingController';
+import { AutoAcceptController } from './controllers/AutoAcceptController';
+import { WebhookController } from './controllers/WebhookController';
+import { ApiKeyController } from './controllers/ApiKeyController';
+import { TwoFactorController } from './controllers/TwoFactorController';
+import { SessionController } from './controllers/SessionController';
+import { CalendarController } from './controllers/CalendarController';
+import { PrivacyController } from './controllers/PrivacyController';
+import { PushController } from './controllers/PushController';
+import { RecommendationController } from './controllers/RecommendationController';
 import { NotificationController } from './controllers/NotificationController';
 
 import { BookingServiceFactory } from './services/booking/factory';
-import { createSwapProposalService, createSwapResponseService, createProposalAcceptanceService, createSwapExpirationService, createSwapCompletionOrchestrator } from './services/swap/factory';
+import { createSwapProposalService, createSwapResponseService, createProposalAcceptanceService, createSwapExpirationService, createSwapCompletionOrchestrator, createMultiPartySwapService, createProposalNegotiationService, createAutoAcceptService } from './services/swap/factory';
+import { createReviewService } from './services/review/factory';
+import { createCurrencyService } from './services/currency/factory';
+import { createSavedSearchService } from './services/savedSearch/factory';
+import { createDisputeService } from './services/dispute/factory';
+import { createBookingVerificationService } from './services/booking/verification/factory';
+import { createMessagingService } from './services/messaging/factory';
+import { createWebhookService } from './services/webhook/factory';
+import { createCalendarService } from './services/calendar/factory';
+import { createPrivacyService } from './services/privacy/factory';
+import { createPushService } from './services/push/factory';
+import { createSwapRecommendationService } from './services/recommendation/factory';
+import { createNotificationService } from './services/notification/factory';
+import { PaymentWebhookController } from './controllers/PaymentWebhookController';
 import { CompletionValidationService } from './services/swap/CompletionValidationService';
 import { SwapExpirationService } from './services/swap/SwapExpirationService';
 import { SwapMatchingService } from './services/swap/SwapMatchingService';
 import { SwapTargetingService } from './services/swap/SwapTargetingService';
 import { SwapTargetingController } from './controllers/SwapTargetingController';
 import { createAuctionManagementService } from './services/auction/factory';
-import { createPaymentProcessingService } from './services/payment/factory';
+import { createJobScheduler } from './services/scheduler/factory';
+import { createOutboxRelay, createOutboxService } from './services/outbox/factory';
+import { OUTBOX_EVENT_TYPES } from './services/outbox/OutboxService';
+import { createLedgerReconciliationService } from './services/reconciliation/factory';
+import { JobScheduler } from './services/scheduler/JobScheduler';
+import { createPaymentProcessingService, createPaymentWebhookService } from './services/payment/factory';
 import { SwapOfferWorkflowServiceImpl } from './services/swap/SwapOfferWorkflowService';
 import { EnhancedPaymentTransactionServiceImpl } from './services/payment/EnhancedPaymentTransactionService';
 import { EnhancedAuctionProposalServiceImpl } from './services/auction/EnhancedAuctionProposalService';
@@ -71,10 +114,27 @@ import { createBookingRoutes } from './routes/bookings';
 import { createSwapRoutes } from './routes/swaps';
 import { createProposalRoutes, createUserProposalRoutes } from './routes/proposals';
 import { createCompletionRoutes } from './routes/completions';
+import { createSwapCycleRoutes } from './routes/swapCycles';
+import { createSwapReviewRoutes, createUserReviewRoutes } from './routes/reviews';
+import { createCurrencyRoutes } from './routes/currencies';
+import { createSavedSearchRoutes } from './routes/savedSearches';
+import { createDisputeRoutes } from './routes/disputes';
+import { createBookingVerificationRoutes } from './routes/bookingVerification';
+import { createConversationRoutes } from './routes/conversations';
+import { createAutoAcceptRoutes } from './routes/autoAccept';
+import { createWebhookRoutes } from './routes/webhooks';
+import { createApiKeyRoutes } from './routes/apiKeys';
+import { createTwoFactorRoutes } from './routes/twoFactor';
+import { createSessionRoutes } from './routes/sessions';
+import { createCalendarRoutes } from './routes/calendar';
+import { createPrivacyRoutes } from './routes/privacy';
+import { createPushRoutes } from './routes/push';
+import { createSwapRecommendationRoutes } from './routes/recommendations';
 import completionAuditRoutes from './routes/completionAudit';
 import { createTargetingRoutes } from './routes/targeting';
 import { createAuctionRoutes } from './routes/auctions';
 import { createPaymentRoutes } from './routes/payments';
+import { createPaymentWebhookRoutes, captureWebhookRawBody, isPaymentWebhookRequest, PAYMENT_WEBHOOK_PATH } from './routes/paymentWebhooks';
 import { createNotificationRoutes } from './routes/notifications';
 import { createAdminRouter } from './routes/admin';
 import { createMonitoringRoutes } from './routes/monitoring';
@@ -126,10 +186,11 @@ async function createApp() {
     credentials: true,
   }));
 
-  // Rate limiting
+  // Rate limiting; payment webhooks have their own limit on their router
   const limiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // limit each IP to 100 requests per windowMs
+    skip: isPaymentWebhookRequest,
     message: {
       error: {
         code: 'RATE_LIMIT_EXCEEDED',
@@ -141,7 +202,7 @@ async function createApp() {
   app.use(limiter);
 
   // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({ limit: '10mb', verify: captureWebhookRawBody }));
   app.use(express.urlencoded({ extended: true }));
 
   // Initialize database connections
@@ -274,6 +335,7 @@ async function createApp() {
   }
 
   // Initialize authentication services
+  const twoFactorService = new TwoFactorService(new TwoFactorRepository(dbPool), userRepository);
   const authService = new AuthService(
     userRepository,
     walletService,
@@ -281,9 +343,23 @@ async function createApp() {
     emailService,
     undefined, // jwtTokenBlacklistRepository - not initialized yet
     process.env.JWT_SECRET,
-    process.env.JWT_EXPIRES_IN || '24h'
+    process.env.JWT_EXPIRES_IN || '24h',
+    twoFactorService
   );
-  const authMiddleware = new AuthMiddleware(authService, userRepository);
+  const sessionService = new SessionService(new SessionRepository(dbPool), userRepository, emailService);
+  authService.setSessionService(sessionService);
+
+  // Per-key limits are passed on each check, so only the one-minute window is configured here
+  const apiKeyService = new ApiKeyService(
+    new ApiKeyRepository(dbPool),
+    new RateLimitCacheService(
+      { emailLimit: 0, ipLimit: 0, windowMs: 60 * 1000, enableDistributedCache: true },
+      redisClient
+    )
+  );
+  const authMiddleware = new AuthMiddleware(authService, userRepository, apiKeyService, twoFactorService);
+
+  initializeAdminAuth(authService);
 
   // Initialize authentication debug utilities
   initializeAuthDebugUtils(authService, userRepository);
@@ -315,6 +391,9 @@ async function createApp() {
     hederaService,
   });
 
+  // Persistent job scheduler shared by auction timers and periodic sweeps
+  const jobScheduler = createJobScheduler(dbPool);
+
   // Initialize auction and payment services first (required by swap services)
   const auctionService = createAuctionManagementService(dbPool);
   const paymentService = createPaymentProcessingService(dbPool);
@@ -329,7 +408,7 @@ async function createApp() {
   );
 
   // Initialize SwapExpirationService with proper dependencies
-  const swapExpirationService = createSwapExpirationService(swapProposalService);
+  const swapExpirationService = createSwapExpirationService(swapProposalService, undefined, jobScheduler);
   enhancedLogger.info('SwapExpirationService initialized successfully', {
     checkIntervalMinutes: parseInt(process.env.SWAP_EXPIRATION_CHECK_INTERVAL_MINUTES || '5')
   });
@@ -397,7 +476,9 @@ async function createApp() {
     swapProposalService,
     userRepository,
     hederaService,
-    notificationService
+    notificationService,
+    undefined,
+    new SwapProposalMetadataRepository(dbPool)
   );
 
   // Initialize swap targeting service
@@ -406,7 +487,8 @@ async function createApp() {
     swapRepository,
     swapProposalService,
     auctionRepository,
-    dbPool
+    dbPool,
+    createOutboxService(dbPool)
   );
 
   // Initialize enhanced services for swap offer workflow
@@ -442,6 +524,43 @@ async function createApp() {
   );
   const completionValidationService = new CompletionValidationService(dbPool);
 
+  // Outbox relay delivering the blockchain records and notifications that
+  // completions and targeting queue in their transactions
+  const outboxRelay = createOutboxRelay(dbPool, hederaService, notificationService);
+  outboxRelay.onDelivered(OUTBOX_EVENT_TYPES.SWAP_COMPLETION_RECORD, (event, result) =>
+    completionOrchestrator.storeCompletionBlockchainRecord(
+      event.payload.context.proposalId,
+      event.payload.context.swapIds,
+      result.transactionId
+    )
+  );
+  outboxRelay.onDelivered(OUTBOX_EVENT_TYPES.SWAP_CYCLE_COMPLETION_RECORD, (event, result) =>
+    completionOrchestrator.storeCycleBlockchainRecord(
+      event.aggregateId,
+      event.payload.context.swapIds,
+      result.transactionId
+    )
+  );
+  outboxRelay.onDelivered(OUTBOX_EVENT_TYPES.TARGETING_RECORD, (event, result) =>
+    swapTargetingRepository.setBlockchainTransactionId(event.aggregateId, result.transactionId)
+  );
+
+  // Daily comparison of stored blockchain references with the mirror node
+  createLedgerReconciliationService(dbPool, hederaService);
+
+  // Cycle discovery also runs on a schedule, not only from the admin endpoint
+  const multiPartySwapService = createMultiPartySwapService(
+    dbPool,
+    completionOrchestrator,
+    notificationService,
+    jobScheduler
+  );
+  const proposalNegotiationService = createProposalNegotiationService(
+    dbPool,
+    proposalAcceptanceService,
+    notificationService
+  );
+
   // Initialize Hedera balance service
   const hederaBalanceService = new HederaBalanceService(hederaService);
 
@@ -449,18 +568,48 @@ async function createApp() {
   const balanceCalculator = new BalanceCalculator();
 
   // Initialize controllers with performance monitoring
-  const authController = new AuthController(authService);
+  const authController = new AuthController(authService, sessionService);
   const userController = new UserController(
     userRepository,
     bookingRepository,
     swapRepository
   );
-  const bookingController = new BookingController(bookingService, swapRepository);
+  const bookingVerificationService = createBookingVerificationService(dbPool);
+  const bookingController = new BookingController(bookingService, swapRepository, bookingVerificationService);
   const swapController = new SwapController(swapProposalService, swapResponseService, swapMatchingService, swapTargetingService, swapRepository, auctionService, paymentService, swapOfferWorkflowService, hederaBalanceService, balanceCalculator, performanceMonitor);
-  const proposalController = new ProposalController(proposalAcceptanceService, swapRepository, completionOrchestrator, completionValidationService);
+  const proposalController = new ProposalController(proposalAcceptanceService, swapRepository, completionOrchestrator, completionValidationService, proposalNegotiationService);
   const completionController = new CompletionController(completionOrchestrator, completionValidationService, swapRepository);
   const swapTargetingController = new SwapTargetingController(swapTargetingService);
   const notificationController = new NotificationController(notificationService);
+  const swapCycleController = new SwapCycleController(multiPartySwapService);
+  const reviewController = new ReviewController(createReviewService(dbPool));
+  const currencyController = new CurrencyController(createCurrencyService(dbPool));
+  const savedSearchController = new SavedSearchController(createSavedSearchService(dbPool));
+  const disputeController = new DisputeController(createDisputeService(dbPool));
+  const bookingVerificationController = new BookingVerificationController(bookingVerificationService);
+  const messagingController = new MessagingController(createMessagingService(dbPool, webSocketService));
+  const autoAcceptController = new AutoAcceptController(
+    createAutoAcceptService(dbPool, proposalAcceptanceService, notificationService, jobScheduler)
+  );
+  const paymentWebhookController = new PaymentWebhookController(createPaymentWebhookService(dbPool));
+
+  // Outbound webhooks are published from both notification service instances
+  const webhookService = createWebhookService(dbPool);
+  notificationService.setEventPublisher(webhookService);
+  createNotificationService(dbPool).setEventPublisher(webhookService);
+  const webhookController = new WebhookController(webhookService);
+  const apiKeyController = new ApiKeyController(apiKeyService);
+  const twoFactorController = new TwoFactorController(twoFactorService, authService);
+  const sessionController = new SessionController(sessionService, authService);
+  const calendarController = new CalendarController(createCalendarService(dbPool));
+  const privacyController = new PrivacyController(createPrivacyService(dbPool));
+
+  // Push notifications are sent from both notification service instances
+  const pushService = createPushService(dbPool);
+  notificationService.setPushService(pushService);
+  createNotificationService(dbPool).setPushService(pushService);
+  const pushController = new PushController(pushService);
+  const recommendationController = new RecommendationController(createSwapRecommendationService(dbPool));
 
   // Health check endpoints
   app.get('/health', asyncHandler(async (req, res) => {
@@ -483,17 +632,35 @@ async function createApp() {
   });
 
   // API routes
+  app.use('/api/auth/2fa', createTwoFactorRoutes(twoFactorController, authMiddleware));
+  app.use('/api/auth/sessions', createSessionRoutes(sessionController, authMiddleware));
   app.use('/api/auth', createAuthRoutes(authController, authMiddleware));
   app.use('/api/users', createUserRoutes(userController, authMiddleware));
   app.use('/api/bookings', createBookingRoutes(bookingController, authMiddleware));
+  app.use('/api/bookings', createBookingVerificationRoutes(bookingVerificationController, authMiddleware));
+  app.use('/api/swaps', createSwapReviewRoutes(reviewController, authMiddleware));
+  app.use('/api/swaps', createSwapRecommendationRoutes(recommendationController, authMiddleware));
   app.use('/api/swaps', createSwapRoutes(swapController, authMiddleware, completionController));
   app.use('/api/proposals', createProposalRoutes(proposalController, authMiddleware));
   app.use('/api/completions', createCompletionRoutes(completionController, authMiddleware));
   app.use('/api/completions', completionAuditRoutes);
+  app.use('/api/swap-cycles', createSwapCycleRoutes(swapCycleController, authMiddleware));
   app.use('/api/users', createUserProposalRoutes(proposalController, authMiddleware));
+  app.use('/api/users', createUserReviewRoutes(reviewController, authMiddleware));
   app.use('/api', createTargetingRoutes(swapTargetingController, authMiddleware));
   app.use('/api/auctions', createAuctionRoutes(swapController, authMiddleware));
+  app.use(PAYMENT_WEBHOOK_PATH, createPaymentWebhookRoutes(paymentWebhookController));
   app.use('/api/payments', createPaymentRoutes(swapController, authMiddleware));
+  app.use('/api/currencies', createCurrencyRoutes(currencyController));
+  app.use('/api/saved-searches', createSavedSearchRoutes(savedSearchController, authMiddleware));
+  app.use('/api/disputes', createDisputeRoutes(disputeController, authMiddleware));
+  app.use('/api/conversations', createConversationRoutes(messagingController, authMiddleware));
+  app.use('/api/auto-accept', createAutoAcceptRoutes(autoAcceptController, authMiddleware));
+  app.use('/api/webhooks', createWebhookRoutes(webhookController, authMiddleware));
+  app.use('/api/api-keys', createApiKeyRoutes(apiKeyController, authMiddleware));
+  app.use('/api/calendar', createCalendarRoutes(calendarController, authMiddleware));
+  app.use('/api/privacy', createPrivacyRoutes(privacyController, authMiddleware));
+  app.use('/api/push', createPushRoutes(pushController, authMiddleware));
   app.use('/api/notifications', createNotificationRoutes(notificationController, authMiddleware));
   app.use('/api/admin', createAdminRouter(dbPool));
   app.use('/api/monitoring', await createMonitoringRoutes(passwordResetCleanupService, performanceMonitor));
@@ -513,7 +680,7 @@ async function createApp() {
   // Global error handler (must be last)
   app.use(errorHandler);
 
-  return { app, server, passwordResetCleanupService, performanceMonitor, swapExpirationService };
+  return { app, server, passwordResetCleanupService, performanceMonitor, swapExpirationService, jobScheduler };
 }
 
 async function startServer() {
@@ -521,6 +688,7 @@ async function startServer() {
   let passwordResetCleanupService: PasswordResetCleanupService | undefined;
   let performanceMonitor: PerformanceMonitor | undefined;
   let swapExpirationService: SwapExpirationService | undefined;
+  let jobScheduler: JobScheduler | undefined;
   let swapExpirationConfig: any;
   let serviceHealthMonitor: any;
   let serviceRecoveryManager: any;
@@ -556,6 +724,21 @@ async function startServer() {
       process.exit(1);
     }
 
+    // Refuse to run against a schema that is behind or differs from the migration files
+    const schemaVersion = await startupIntegrityService.verifySchemaVersion();
+    if (!schemaVersion.upToDate) {
+      enhancedLogger.error('Database schema is behind or has drifted, cannot start server', {
+        latestApplied: schemaVersion.latestApplied,
+        latestAvailable: schemaVersion.latestAvailable,
+        pending: schemaVersion.pending,
+        drifted: schemaVersion.drifted,
+        missing: schemaVersion.missing,
+        conflicts: schemaVersion.conflicts,
+        error: schemaVersion.error
+      });
+      process.exit(1);
+    }
+
     // Then perform comprehensive integrity checks
     const integrityResult = await startupIntegrityService.performStartupIntegrityChecks();
 
@@ -602,12 +785,13 @@ async function startServer() {
 
     // Perform service validation before starting the server
     enhancedLogger.info('Performing service validation checks');
-    const { app, server, passwordResetCleanupService: cleanupService, performanceMonitor: perfMonitor, swapExpirationService: swapExpService } = await createApp();
+    const { app, server, passwordResetCleanupService: cleanupService, performanceMonitor: perfMonitor, swapExpirationService: swapExpService, jobScheduler: scheduler } = await createApp();
 
     // Assign to variables accessible in shutdown handler
     passwordResetCleanupService = cleanupService;
     performanceMonitor = perfMonitor;
     swapExpirationService = swapExpService;
+    jobScheduler = scheduler;
 
     // Get service validation startup instance and perform validation
     const serviceValidationStartup = ServiceValidationStartup.getInstance();
@@ -740,6 +924,20 @@ async function startServer() {
       enhancedLogger.info(`Server running on port ${PORT} in ${NODE_ENV} mode`);
       enhancedLogger.info('WebSocket server initialized');
 
+      // Start polling for scheduled jobs (auction end, auto-selection, periodic sweeps)
+      if (process.env.JOB_SCHEDULER_ENABLED !== 'false') {
+        try {
+          await scheduler.start();
+          enhancedLogger.info('Job scheduler started', { workerId: scheduler.getStatus().workerId });
+        } catch (error) {
+          enhancedLogger.error('Failed to start job scheduler', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      } else {
+        enhancedLogger.info('Job scheduler disabled by configuration');
+      }
+
       // Start SwapExpirationService with startup delay to ensure stability
       const { shouldEnableSwapExpirationService } = await import('./services/swap/expiration-config');
 
@@ -804,6 +1002,30 @@ async function startServer() {
             enhancedLogger.warn('Error stopping password reset cleanup service', { error: errorInstance.message });
           }
 
+          // Stop leasing scheduled jobs and let running ones finish; unfinished
+          // jobs are picked up by another instance when their lease expires
+          const schedulerPhaseStart = new Date();
+          try {
+            if (jobScheduler) {
+              const schedulerResult = await jobScheduler.stopGracefully(swapExpirationConfig?.shutdownTimeoutMs);
+              shutdownPhases.push({
+                name: 'job_scheduler_stop',
+                success: schedulerResult.success,
+                duration: new Date().getTime() - schedulerPhaseStart.getTime()
+              });
+              enhancedLogger.info('Job scheduler stopped', { timedOut: schedulerResult.timedOut });
+            }
+          } catch (error: unknown) {
+            const errorInstance = error instanceof Error ? error : new Error(String(error));
+            shutdownPhases.push({
+              name: 'job_scheduler_stop',
+              success: false,
+              error: errorInstance,
+              duration: new Date().getTime() - schedulerPhaseStart.getTime()
+            });
+            enhancedLogger.warn('Error stopping job scheduler', { error: errorInstance.message });
+          }
+
           // Phase 2: Stop SwapExpirationService with timeout handling
           const swapExpirationPhaseStart = new Date();
           try {
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { adminAuth, initializeAdminAuth } from '../adminAuth';
+import { AuthService } from '../../services/auth/AuthService';
+
+describe('adminAuth', () => {
+  let verifyToken: ReturnType<typeof vi.fn>;
+  let req: Partial<Request>;
+  let res: any;
+  let next: ReturnType<typeof vi.fn>;
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    verifyToken = vi.fn();
+    initializeAdminAuth({ verifyToken } as unknown as AuthService);
+
+    req = {
+      header: vi.fn().mockReturnValue('Bearer admin-token') as any,
+    };
+    res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    next = vi.fn();
+  });
+
+  const run = () => adminAuth(req as Request, res as Response, next);
+
+  it('should admit an admin who passed a second factor recently', async () => {
+    verifyToken.mockResolvedValue({
+      userId: 'admin-1',
+      walletAddress: '0.0.123456',
+      twoFactorVerifiedAt: now() - 60,
+      iat: now() - 60,
+      exp: now() + 3600,
+    });
+
+    await run();
+
+    expect(verifyToken).toHaveBeenCalledWith('admin-token');
+    expect(next).toHaveBeenCalled();
+    expect(req.admin).toMatchObject({ id: 'admin-1', role: 'admin' });
+  });
+
+  it('should refuse a second factor check older than an hour', async () => {
+    verifyToken.mockResolvedValue({
+      userId: 'admin-1',
+      walletAddress: '0.0.123456',
+      twoFactorVerifiedAt: now() - 2 * 60 * 60,
+      iat: now() - 60,
+      exp: now() + 3600,
+    });
+
+    await run();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should refuse a token whose session was revoked', async () => {
+    verifyToken.mockRejectedValue(new Error('Token has been revoked'));
+
+    await run();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should refuse wallets that are not admins', async () => {
+    verifyToken.mockResolvedValue({
+      userId: 'user-1',
+      walletAddress: '0.0.555',
+      twoFactorVerifiedAt: now(),
+      iat: now(),
+      exp: now() + 3600,
+    });
+
+    await run();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
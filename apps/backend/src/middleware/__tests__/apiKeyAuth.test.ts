@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { AuthMiddleware } from '../auth';
+import { AuthService } from '../../services/auth/AuthService';
+import { ApiKeyService } from '../../services/auth/ApiKeyService';
+import { UserRepository } from '../../database/repositories/UserRepository';
+
+vi.mock('../../utils/logger', () => ({
+  enhancedLogger: {
+    info: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logPerformanceMetric: vi.fn(),
+  },
+}));
+
+describe('AuthMiddleware API key authentication', () => {
+  const apiKey = {
+    id: 'key-1',
+    userId: 'user-1',
+    keyPrefix: 'bsk_abcd1234',
+    scopes: ['read:bookings'],
+  };
+
+  let apiKeyService: any;
+  let userRepository: any;
+  let req: Partial<Request>;
+  let res: any;
+  let next: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    apiKeyService = {
+      isApiKey: vi.fn().mockReturnValue(true),
+      authenticate: vi.fn().mockResolvedValue(apiKey),
+      isAllowed: vi.fn().mockReturnValue(true),
+      checkRateLimit: vi
+        .fn()
+        .mockResolvedValue({ allowed: true, limit: 60, remaining: 59 }),
+      recordUsage: vi.fn(),
+    };
+    userRepository = { findById: vi.fn() };
+
+    req = {
+      method: 'GET',
+      baseUrl: '/api/bookings',
+      path: '/',
+      ip: '203.0.113.10',
+      headers: { 'x-api-key': 'bsk_abcd1234secret' },
+    };
+    res = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      setHeader: vi.fn(),
+      on: vi.fn(),
+    };
+    next = vi.fn();
+  });
+
+  const run = () =>
+    new AuthMiddleware(
+      {} as AuthService,
+      userRepository as UserRepository,
+      apiKeyService as ApiKeyService
+    ).authenticate()(req as Request, res as Response, next);
+
+  it('should attach the key owner for an active account', async () => {
+    userRepository.findById.mockResolvedValue({ id: 'user-1' });
+
+    await run();
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toEqual({ id: 'user-1' });
+    expect(req.apiKey).toBe(apiKey);
+  });
+
+  it('should refuse keys of deleted accounts', async () => {
+    userRepository.findById.mockResolvedValue({
+      id: 'user-1',
+      deletedAt: new Date(),
+    });
+
+    await run();
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(req.user).toBeUndefined();
+  });
+});
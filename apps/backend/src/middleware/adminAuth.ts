@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { SwapPlatformError } from '@booking-swap/shared';
+import { AuthService } from '../services/auth/AuthService';
 
 interface AdminUser {
   id: string;
@@ -20,6 +20,7 @@ const ADMIN_PERMISSIONS = {
     'view_statistics',
     'view_disputes',
     'resolve_disputes',
+    'review_bookings',
     'flag_users',
     'view_transactions'
   ],
@@ -27,6 +28,7 @@ const ADMIN_PERMISSIONS = {
     'view_statistics',
     'view_disputes',
     'resolve_disputes',
+    'review_bookings',
     'flag_users',
     'view_transactions',
     'system_maintenance',
@@ -34,11 +36,29 @@ const ADMIN_PERMISSIONS = {
   ]
 };
 
+// How long a second factor check keeps granting admin access
+const ADMIN_TWO_FACTOR_MAX_AGE_SECONDS = 60 * 60;
+
+// Verifies admin tokens like any other, including revoked tokens and sessions
+let adminAuthService: AuthService | undefined;
+
+export const initializeAdminAuth = (authService: AuthService) => {
+  adminAuthService = authService;
+};
+
+export const isAdminWallet = (walletAddress?: string): boolean =>
+  !!walletAddress && ADMIN_WALLETS.has(walletAddress);
+
 export const adminAuth = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
+  if (!adminAuthService) {
+    res.status(500).json({ error: 'Admin authentication is not initialized' });
+    return;
+  }
+
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
     
@@ -50,10 +70,10 @@ export const adminAuth = async (
       );
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    const decoded = (await adminAuthService.verifyToken(token)) as any;
     
     // Check if wallet address is in admin list
-    if (!ADMIN_WALLETS.has(decoded.walletAddress)) {
+    if (!isAdminWallet(decoded.walletAddress)) {
       throw new SwapPlatformError(
         'ADMIN_AUTH_INSUFFICIENT_PRIVILEGES',
         'Admin privileges required',
@@ -61,6 +81,19 @@ export const adminAuth = async (
       );
     }
 
+    // Admin sessions must have passed a second factor recently
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      !decoded.twoFactorVerifiedAt ||
+      now - decoded.twoFactorVerifiedAt > ADMIN_TWO_FACTOR_MAX_AGE_SECONDS
+    ) {
+      throw new SwapPlatformError(
+        'ADMIN_AUTH_TWO_FACTOR_REQUIRED',
+        'Two-factor verification is required for admin access',
+        'validation'
+      );
+    }
+
     // Determine admin role based on wallet
     const role = decoded.walletAddress === '0.0.789012' ? 'super_admin' : 'admin';
     
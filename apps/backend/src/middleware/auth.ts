@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService, AuthTokenPayload } from '../services/auth/AuthService';
 import { UserRepository } from '../database/repositories/UserRepository';
-import { User } from '@booking-swap/shared';
+import { ApiKeyService } from '../services/auth/ApiKeyService';
+import { TwoFactorService } from '../services/auth/TwoFactorService';
+import { ApiKey, User } from '@booking-swap/shared';
 import { enhancedLogger } from '../utils/logger';
 import jwt from 'jsonwebtoken';
 
@@ -11,6 +13,8 @@ declare global {
     interface Request {
       user?: User;
       tokenPayload?: AuthTokenPayload;
+      // Set instead of tokenPayload when the request was authenticated by an API key
+      apiKey?: ApiKey;
     }
   }
 }
@@ -113,12 +117,40 @@ export const AUTH_ERROR_CODES = {
     message: 'Access denied',
     httpStatus: 403,
   },
+  INVALID_API_KEY: {
+    code: 'INVALID_API_KEY',
+    message: 'API key is invalid, revoked or expired',
+    httpStatus: 401,
+  },
+  API_KEY_SCOPE_DENIED: {
+    code: 'API_KEY_SCOPE_DENIED',
+    message: 'API key scopes do not allow this request',
+    httpStatus: 403,
+  },
+  API_KEY_RATE_LIMITED: {
+    code: 'API_KEY_RATE_LIMITED',
+    message: 'API key rate limit exceeded',
+    httpStatus: 429,
+  },
+  TWO_FACTOR_STEP_UP_REQUIRED: {
+    code: 'TWO_FACTOR_STEP_UP_REQUIRED',
+    message: 'Confirm this action with your two-factor code',
+    httpStatus: 403,
+  },
 } as const;
 
+// How long a second factor check covers sensitive operations in a session
+const STEP_UP_MAX_AGE_SECONDS = 10 * 60;
+
+// Methods whose API key requests are written to the key's audit trail
+const AUDITED_API_KEY_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
 export class AuthMiddleware {
   constructor(
     private authService: AuthService,
-    private userRepository: UserRepository
+    private userRepository: UserRepository,
+    private apiKeyService?: ApiKeyService,
+    private twoFactorService?: TwoFactorService
   ) { }
 
   /**
@@ -257,6 +289,11 @@ export class AuthMiddleware {
         // Step 1: Token Extraction
         debugInfo.step = 'token_extraction';
 
+        const apiKeyToken = this.extractApiKey(req);
+        if (apiKeyToken && this.apiKeyService) {
+          return await this.authenticateApiKey(req, res, next, apiKeyToken, options, requestId, startTime);
+        }
+
         if (!authHeader || !authHeader.startsWith('Bearer ')) {
           const errorResponse = this.createAuthErrorResponse(
             AUTH_ERROR_CODES.MISSING_TOKEN.code,
@@ -429,7 +466,8 @@ export class AuthMiddleware {
           return next();
         }
 
-        if (!user) {
+        // Deleted accounts keep their anonymized row, but can no longer sign in
+        if (!user || user.deletedAt) {
           const errorResponse = this.createAuthErrorResponse(
             AUTH_ERROR_CODES.USER_NOT_FOUND.code,
             AUTH_ERROR_CODES.USER_NOT_FOUND.message,
@@ -516,6 +554,7 @@ export class AuthMiddleware {
           {
             requestId,
             userId: user.id,
+            authMethod: 'jwt',
             endpoint: req.path,
             tokenRefreshed: !!res.getHeader('X-New-Token'),
             debugInfo,
@@ -555,6 +594,162 @@ export class AuthMiddleware {
     };
   }
 
+  /**
+   * API key from the X-API-Key header, or a bearer token that is an API key
+   */
+  private extractApiKey(req: Request): string | null {
+    const header = req.headers['x-api-key'];
+    const apiKeyHeader = Array.isArray(header) ? header[0] : header;
+    if (apiKeyHeader) {
+      return apiKeyHeader.trim();
+    }
+
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith('Bearer ') && this.apiKeyService?.isApiKey(authHeader.substring(7))) {
+      return authHeader.substring(7);
+    }
+    return null;
+  }
+
+  /**
+   * API key authentication: resolves the key's owner, then checks the key's
+   * scopes and rate limit. Requests are attached to the owner like a session
+   * but carry req.apiKey, and write requests are added to the key's audit trail.
+   */
+  private async authenticateApiKey(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    rawKey: string,
+    options: AuthMiddlewareOptions,
+    requestId: string,
+    startTime: number
+  ) {
+    const apiKeyService = this.apiKeyService!;
+    const keyPrefix = rawKey.substring(0, 12);
+    const endpoint = req.baseUrl + req.path;
+
+    const apiKey = await apiKeyService.authenticate(rawKey, req.ip);
+    const user = apiKey ? await this.userRepository.findById(apiKey.userId) : null;
+    // Keys of deleted accounts stop working along with the account's sessions
+    if (!apiKey || !user || user.deletedAt) {
+      const errorResponse = this.createAuthErrorResponse(
+        AUTH_ERROR_CODES.INVALID_API_KEY.code,
+        AUTH_ERROR_CODES.INVALID_API_KEY.message,
+        'token_verification',
+        apiKey ? `User ${apiKey.userId} of API key not found` : 'No active API key matches'
+      );
+
+      enhancedLogger.logSecurityEvent(
+        'authentication_failed_invalid_api_key',
+        'high',
+        apiKey?.userId,
+        req.ip,
+        {
+          requestId,
+          endpoint,
+          authMethod: 'api_key',
+          keyPrefix,
+        }
+      );
+
+      if (options.required) {
+        return res.status(this.getHttpStatusForError(errorResponse.error.code)).json(errorResponse);
+      }
+      return next();
+    }
+
+    if (!apiKeyService.isAllowed(apiKey, req.method, endpoint)) {
+      enhancedLogger.logSecurityEvent(
+        'api_key_scope_denied',
+        'medium',
+        user.id,
+        req.ip,
+        {
+          requestId,
+          endpoint,
+          method: req.method,
+          authMethod: 'api_key',
+          apiKeyId: apiKey.id,
+          scopes: apiKey.scopes,
+        }
+      );
+
+      if (options.required) {
+        return res.status(AUTH_ERROR_CODES.API_KEY_SCOPE_DENIED.httpStatus).json(
+          this.createAuthErrorResponse(
+            AUTH_ERROR_CODES.API_KEY_SCOPE_DENIED.code,
+            AUTH_ERROR_CODES.API_KEY_SCOPE_DENIED.message,
+            'request_attachment',
+            `Scopes ${apiKey.scopes.join(', ')} do not cover ${req.method} ${endpoint}`
+          )
+        );
+      }
+      return next();
+    }
+
+    const rateLimit = await apiKeyService.checkRateLimit(apiKey);
+    res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+    res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+    if (!rateLimit.allowed) {
+      enhancedLogger.logSecurityEvent(
+        'api_key_rate_limited',
+        'low',
+        user.id,
+        req.ip,
+        {
+          requestId,
+          endpoint,
+          authMethod: 'api_key',
+          apiKeyId: apiKey.id,
+          limit: rateLimit.limit,
+        }
+      );
+
+      res.setHeader('Retry-After', rateLimit.retryAfterSeconds);
+      return res.status(AUTH_ERROR_CODES.API_KEY_RATE_LIMITED.httpStatus).json(
+        this.createAuthErrorResponse(
+          AUTH_ERROR_CODES.API_KEY_RATE_LIMITED.code,
+          AUTH_ERROR_CODES.API_KEY_RATE_LIMITED.message,
+          'request_attachment',
+          `Limit is ${rateLimit.limit} requests per minute`
+        )
+      );
+    }
+
+    req.user = user;
+    req.apiKey = apiKey;
+
+    if (AUDITED_API_KEY_METHODS.includes(req.method)) {
+      res.on('finish', () => {
+        void apiKeyService.recordUsage({
+          apiKeyId: apiKey.id,
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: res.statusCode,
+          ip: req.ip,
+          requestId,
+        });
+      });
+    }
+
+    enhancedLogger.logPerformanceMetric(
+      'authentication_success',
+      Date.now() - startTime,
+      true,
+      {
+        requestId,
+        userId: user.id,
+        authMethod: 'api_key',
+        apiKeyId: apiKey.id,
+        keyPrefix: apiKey.keyPrefix,
+        endpoint,
+      }
+    );
+
+    return next();
+  }
+
   /**
    * Optional authentication middleware
    */
@@ -632,6 +827,61 @@ export class AuthMiddleware {
     };
   }
 
+  /**
+   * Middleware for sensitive operations: users with two-factor authentication
+   * must have checked a code in this session within the last few minutes.
+   * API keys cannot pass a second factor, so they are refused for such users.
+   */
+  requireStepUp(maxAgeSeconds: number = STEP_UP_MAX_AGE_SECONDS) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!req.user) {
+        return res.status(AUTH_ERROR_CODES.AUTHENTICATION_REQUIRED.httpStatus).json({
+          error: {
+            code: AUTH_ERROR_CODES.AUTHENTICATION_REQUIRED.code,
+            message: AUTH_ERROR_CODES.AUTHENTICATION_REQUIRED.message,
+            category: 'authentication',
+          },
+        });
+      }
+
+      if (!this.twoFactorService) {
+        return next();
+      }
+
+      try {
+        if (!(await this.twoFactorService.isEnabled(req.user.id))) {
+          return next();
+        }
+
+        const verifiedAt = req.apiKey ? undefined : req.tokenPayload?.twoFactorVerifiedAt;
+        const now = Math.floor(Date.now() / 1000);
+        if (!verifiedAt || now - verifiedAt > maxAgeSeconds) {
+          return res.status(AUTH_ERROR_CODES.TWO_FACTOR_STEP_UP_REQUIRED.httpStatus).json({
+            error: {
+              code: AUTH_ERROR_CODES.TWO_FACTOR_STEP_UP_REQUIRED.code,
+              message: AUTH_ERROR_CODES.TWO_FACTOR_STEP_UP_REQUIRED.message,
+              category: 'authentication',
+            },
+          });
+        }
+
+        return next();
+      } catch (error) {
+        enhancedLogger.error('Step-up verification check failed', {
+          userId: req.user.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return res.status(AUTH_ERROR_CODES.AUTH_ERROR.httpStatus).json({
+          error: {
+            code: AUTH_ERROR_CODES.AUTH_ERROR.code,
+            message: AUTH_ERROR_CODES.AUTH_ERROR.message,
+            category: 'authentication',
+          },
+        });
+      }
+    };
+  }
+
   /**
    * Middleware to ensure user can only access their own resources
    */
@@ -667,8 +917,13 @@ export class AuthMiddleware {
 // This will be initialized when the app starts
 let defaultAuthMiddleware: AuthMiddleware;
 
-export const initializeAuthMiddleware = (authService: AuthService, userRepository: UserRepository) => {
-  defaultAuthMiddleware = new AuthMiddleware(authService, userRepository);
+export const initializeAuthMiddleware = (
+  authService: AuthService,
+  userRepository: UserRepository,
+  apiKeyService?: ApiKeyService,
+  twoFactorService?: TwoFactorService
+) => {
+  defaultAuthMiddleware = new AuthMiddleware(authService, userRepository, apiKeyService, twoFactorService);
 };
 
 // Export convenience functions that use the default instance
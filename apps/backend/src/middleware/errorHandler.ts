@@ -110,6 +110,7 @@ export function errorHandler(
       userAgent: req.get('User-Agent'),
       ip: req.ip,
       userId: req.user?.id,
+      apiKeyId: req.apiKey?.id,
     },
     context: platformError.context,
   };
@@ -179,4 +179,77 @@ export const validateProposalResponsesQuery = (req: Request, res: Response, next
     }
 
     next();
-};
\ No newline at end of file
+};
+/**
+ * Middleware to validate a counter-offer request body
+ */
+export const validateCounterOfferRequest = (req: Request, res: Response, next: NextFunction): void => {
+    const { additionalPayment, conditions, expiresAt, cashOffer, message } = req.body;
+    let validationMessage: string | null = null;
+
+    if (additionalPayment !== undefined && (typeof additionalPayment !== 'number' || additionalPayment < 0)) {
+        validationMessage = 'Additional payment must be a non-negative number';
+    } else if (conditions !== undefined && (!Array.isArray(conditions) || conditions.some((c: unknown) => typeof c !== 'string'))) {
+        validationMessage = 'Conditions must be an array of strings';
+    } else if (expiresAt !== undefined && isNaN(new Date(expiresAt).getTime())) {
+        validationMessage = 'Invalid expiry date';
+    } else if (cashOffer !== undefined && (typeof cashOffer !== 'object' || typeof cashOffer?.amount !== 'number')) {
+        validationMessage = 'Cash offer must include a numeric amount';
+    } else if (message !== undefined && (typeof message !== 'string' || message.length > 1000)) {
+        validationMessage = 'Message must be a string of 1000 characters or less';
+    } else if ([additionalPayment, conditions, expiresAt, cashOffer].every(value => value === undefined)) {
+        validationMessage = 'Invalid counter-offer: at least one term must be changed';
+    }
+
+    if (validationMessage) {
+        const validationError = new Error(validationMessage);
+        (validationError as any).code = SWAP_ERROR_CODES.INVALID_REQUEST_DATA;
+        handleSwapError(validationError, res, {
+            operation: 'validateCounterOfferRequest',
+            userId: req.user?.id,
+            requestData: { proposalId: req.params.proposalId }
+        });
+        return;
+    }
+
+    if (expiresAt !== undefined) {
+        req.body.expiresAt = new Date(expiresAt);
+    }
+
+    next();
+};
+
+/**
+ * Middleware to validate a counter-offer response (accept or reject)
+ */
+export const validateCounterOfferResponse = (req: Request, res: Response, next: NextFunction): void => {
+    const { versionId } = req.params;
+    const { action, reason } = req.body;
+    let validationMessage: string | null = null;
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!versionId || !uuidRegex.test(versionId)) {
+        validationMessage = 'Invalid counter-offer version ID format. Expected UUID format.';
+    } else if (action !== 'accept' && action !== 'reject') {
+        validationMessage = "Invalid action. Expected 'accept' or 'reject'";
+    } else if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+        validationMessage = 'Rejection reason must be a string of 500 characters or less';
+    }
+
+    if (validationMessage) {
+        const validationError = new Error(validationMessage);
+        (validationError as any).code = SWAP_ERROR_CODES.INVALID_REQUEST_DATA;
+        handleSwapError(validationError, res, {
+            operation: 'validateCounterOfferResponse',
+            userId: req.user?.id,
+            requestData: { proposalId: req.params.proposalId, versionId, action }
+        });
+        return;
+    }
+
+    if (typeof reason === 'string') {
+        req.body.reason = reason.trim();
+    }
+
+    next();
+};
@@ -64,6 +64,13 @@ const RATE_LIMIT_CONFIGS = {
     skipSuccessfulRequests: true,
     skipFailedRequests: false,
   },
+  twoFactorVerification: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 10, // per IP
+    exponentialBackoff: true,
+    skipSuccessfulRequests: true,
+    skipFailedRequests: false,
+  },
 };
 
 /**
@@ -355,6 +362,18 @@ export const tokenValidationRateLimit = async (req: Request, res: Response, next
   }
 };
 
+/**
+ * Rate limiting middleware for two-factor code checks
+ * Six digit codes are guessable, so failed attempts are tightly capped
+ */
+export const twoFactorVerificationRateLimit = async (req: Request, res: Response, next: NextFunction) => {
+  const middleware = redisClient
+    ? createEnhancedRateLimit(RATE_LIMIT_CONFIGS.twoFactorVerification, 'twoFactorVerification')
+    : createFallbackRateLimit(RATE_LIMIT_CONFIGS.twoFactorVerification, 'twoFactorVerification');
+
+  return middleware(req, res, next);
+};
+
 /**
  * Utility function to manually reset rate limits (for testing or admin purposes)
  */
@@ -1,12 +1,25 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
 import { AdminController } from '../controllers/AdminController';
+import { ScheduledJobController } from '../controllers/ScheduledJobController';
+import { OutboxController } from '../controllers/OutboxController';
+import { LedgerReconciliationController } from '../controllers/LedgerReconciliationController';
+import { CurrencyController } from '../controllers/CurrencyController';
+import { BookingVerificationController } from '../controllers/BookingVerificationController';
+import { MessagingController } from '../controllers/MessagingController';
 import { AdminService } from '../services/admin/AdminService';
 import { adminAuth, requirePermission } from '../middleware/adminAuth';
 import { BookingRepository } from '../database/repositories/BookingRepository';
 import { SwapRepository } from '../database/repositories/SwapRepository';
 import { UserRepository } from '../database/repositories/UserRepository';
 import { createHederaService } from '../services/hedera/factory';
+import { createJobScheduler } from '../services/scheduler/factory';
+import { createOutboxService } from '../services/outbox/factory';
+import { createLedgerReconciliationService } from '../services/reconciliation/factory';
+import { createCurrencyService } from '../services/currency/factory';
+import { createDisputeService } from '../services/dispute/factory';
+import { createBookingVerificationService } from '../services/booking/verification/factory';
+import { createMessagingService } from '../services/messaging/factory';
 
 // Factory function to create admin router with dependencies
 export function createAdminRouter(dbPool: Pool): Router {
@@ -22,10 +35,21 @@ export function createAdminRouter(dbPool: Pool): Router {
     bookingRepository,
     swapRepository,
     userRepository,
-    hederaService
+    hederaService,
+    createDisputeService(dbPool)
   );
 
   const adminController = new AdminController(adminService);
+  const scheduledJobController = new ScheduledJobController(createJobScheduler(dbPool));
+  const outboxController = new OutboxController(createOutboxService(dbPool));
+  const ledgerReconciliationController = new LedgerReconciliationController(
+    createLedgerReconciliationService(dbPool, hederaService)
+  );
+  const currencyController = new CurrencyController(createCurrencyService(dbPool));
+  const bookingVerificationController = new BookingVerificationController(
+    createBookingVerificationService(dbPool)
+  );
+  const messagingController = new MessagingController(createMessagingService(dbPool));
 
 // Apply admin authentication to all routes
 router.use(adminAuth);
@@ -56,12 +80,68 @@ router.post(
   adminController.createDispute.bind(adminController)
 );
 
+router.get(
+  '/disputes/:disputeId',
+  requirePermission('view_disputes'),
+  adminController.getDispute.bind(adminController)
+);
+
+router.get(
+  '/disputes/:disputeId/evidence/:evidenceId',
+  requirePermission('view_disputes'),
+  adminController.getDisputeEvidence.bind(adminController)
+);
+
+// Threads between the dispute's parties, for moderation
+router.get(
+  '/disputes/:disputeId/conversations',
+  requirePermission('view_disputes'),
+  messagingController.getDisputeConversations
+);
+
+router.get(
+  '/conversations/:conversationId/messages/:messageId/attachment',
+  requirePermission('view_disputes'),
+  messagingController.downloadAttachmentAsAdmin
+);
+
+router.put(
+  '/disputes/:disputeId/status',
+  requirePermission('resolve_disputes'),
+  adminController.transitionDispute.bind(adminController)
+);
+
 router.put(
   '/disputes/:disputeId/resolve',
   requirePermission('resolve_disputes'),
   adminController.resolveDispute.bind(adminController)
 );
 
+// Booking verification review queue
+router.get(
+  '/booking-verifications',
+  requirePermission('review_bookings'),
+  bookingVerificationController.listAttempts
+);
+
+router.get(
+  '/booking-verifications/:attemptId',
+  requirePermission('review_bookings'),
+  bookingVerificationController.getAttempt
+);
+
+router.get(
+  '/booking-verifications/:attemptId/documents/:documentId',
+  requirePermission('review_bookings'),
+  bookingVerificationController.downloadAttemptDocument
+);
+
+router.put(
+  '/booking-verifications/:attemptId/review',
+  requirePermission('review_bookings'),
+  bookingVerificationController.reviewAttempt
+);
+
 // User management
 router.post(
   '/users/:userId/flag',
@@ -82,6 +162,82 @@ router.get(
   adminController.investigateTransaction.bind(adminController)
 );
 
+// Scheduled jobs
+router.get(
+  '/jobs',
+  requirePermission('view_statistics'),
+  scheduledJobController.getJobs.bind(scheduledJobController)
+);
+
+router.get(
+  '/jobs/:jobId',
+  requirePermission('view_statistics'),
+  scheduledJobController.getJob.bind(scheduledJobController)
+);
+
+router.post(
+  '/jobs/:jobId/cancel',
+  requirePermission('system_maintenance'),
+  scheduledJobController.cancelJob.bind(scheduledJobController)
+);
+
+router.post(
+  '/jobs/:jobId/retry',
+  requirePermission('system_maintenance'),
+  scheduledJobController.retryJob.bind(scheduledJobController)
+);
+
+// Outbox of blockchain records and notifications; `?status=dead` lists dead letters
+router.get(
+  '/outbox',
+  requirePermission('view_statistics'),
+  outboxController.getEvents.bind(outboxController)
+);
+
+router.get(
+  '/outbox/:eventId',
+  requirePermission('view_statistics'),
+  outboxController.getEvent.bind(outboxController)
+);
+
+router.post(
+  '/outbox/:eventId/retry',
+  requirePermission('system_maintenance'),
+  outboxController.retryEvent.bind(outboxController)
+);
+
+router.post(
+  '/outbox/:eventId/discard',
+  requirePermission('system_maintenance'),
+  outboxController.discardEvent.bind(outboxController)
+);
+
+// Ledger reconciliation: stored transaction IDs and NFT owners checked against the mirror node
+router.get(
+  '/ledger-reconciliation/reports',
+  requirePermission('view_statistics'),
+  ledgerReconciliationController.getReports.bind(ledgerReconciliationController)
+);
+
+router.get(
+  '/ledger-reconciliation/reports/:reportId',
+  requirePermission('view_statistics'),
+  ledgerReconciliationController.getReport.bind(ledgerReconciliationController)
+);
+
+router.post(
+  '/ledger-reconciliation/reports',
+  requirePermission('system_maintenance'),
+  ledgerReconciliationController.requestReport.bind(ledgerReconciliationController)
+);
+
+// FX rates used to compare cash offers across currencies
+router.put(
+  '/fx-rates',
+  requirePermission('system_maintenance'),
+  currencyController.updateRates
+);
+
 // System maintenance (super admin only)
 router.post(
   '/maintenance/enable',
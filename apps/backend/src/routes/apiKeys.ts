@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * API key management routes mounted under /api/api-keys. Requests made
+ * with an API key are refused here, so keys can only be managed from a
+ * user session.
+ */
+export function createApiKeyRoutes(
+  apiKeyController: ApiKeyController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/api-keys
+   * The current user's keys, including revoked and expired ones
+   */
+  router.get('/', apiKeyController.listKeys);
+
+  /**
+   * POST /api/api-keys
+   * Issue a key with a name, scopes and optional rate limit and expiry;
+   * the key itself is only returned in this response
+   */
+  router.post('/', apiKeyController.createKey);
+
+  /**
+   * DELETE /api/api-keys/:id
+   * Revoke a key; requests made with it fail straight away
+   */
+  router.delete('/:id', apiKeyController.revokeKey);
+
+  /**
+   * POST /api/api-keys/:id/rotate
+   * Issue a replacement key; the old one keeps working for a grace period
+   */
+  router.post('/:id/rotate', apiKeyController.rotateKey);
+
+  /**
+   * GET /api/api-keys/:id/usage
+   * Write requests made with a key, newest first
+   */
+  router.get('/:id/usage', apiKeyController.listUsage);
+
+  return router;
+}
@@ -4,7 +4,8 @@ import { AuthMiddleware } from '../middleware/auth';
 import { 
   passwordResetRateLimit, 
   passwordResetCompletionRateLimit, 
-  tokenValidationRateLimit 
+  tokenValidationRateLimit,
+  twoFactorVerificationRateLimit
 } from '../middleware/rateLimiting';
 
 export function createAuthRoutes(
@@ -18,6 +19,7 @@ export function createAuthRoutes(
   router.post('/login', authController.login); // Wallet-based login
   router.post('/register', authController.register); // Email/password registration
   router.post('/email-login', authController.emailLogin); // Email/password login
+  router.post('/email-login/verify', twoFactorVerificationRateLimit, authController.completeTwoFactorLogin); // Second factor for email login
   
   // Password reset routes (public) with rate limiting
   router.post('/request-password-reset', passwordResetRateLimit, authController.requestPasswordReset);
@@ -28,6 +30,8 @@ export function createAuthRoutes(
   router.post('/refresh', authMiddleware.requireAuth(), authController.refreshToken);
   router.get('/validate', authMiddleware.requireAuth(), authController.validateToken);
   router.get('/debug-wallet', authMiddleware.requireAuth(), authController.debugWalletStatus);
+  router.post('/change-password', authMiddleware.requireAuth(), authMiddleware.requireStepUp(), authController.changePassword);
+  router.post('/logout', authMiddleware.requireAuth(), authController.logout); // Ends the current session
 
   return router;
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { AutoAcceptController } from '../controllers/AutoAcceptController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Auto-accept routes mounted under /api/auto-accept. Criteria are set
+ * through PUT /api/users/profile as preferences.autoAcceptCriteria.
+ */
+export function createAutoAcceptRoutes(
+  autoAcceptController: AutoAcceptController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/auto-accept/evaluations
+   * Recent decisions on the current user's proposals, including dry-run
+   * "would have accepted" entries
+   */
+  router.get('/evaluations', autoAcceptController.listEvaluations);
+
+  return router;
+}
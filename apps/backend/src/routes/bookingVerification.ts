@@ -0,0 +1,54 @@
+import express, { Router } from 'express';
+import {
+  BOOKING_DOCUMENT_CONTENT_TYPES,
+  MAX_BOOKING_DOCUMENT_BYTES,
+} from '@booking-swap/shared';
+import { BookingVerificationController } from '../controllers/BookingVerificationController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Booking verification routes mounted under /api/bookings, next to the
+ * booking routes. Verification is requested with POST /api/bookings/:id/verify.
+ */
+export function createBookingVerificationRoutes(
+  verificationController: BookingVerificationController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/bookings/:id/verification
+   * Verification status, the latest attempt and uploaded documents
+   */
+  router.get(
+    '/:id/verification',
+    authMiddleware.requireAuth(),
+    verificationController.getVerification
+  );
+
+  /**
+   * POST /api/bookings/:id/verification/documents
+   * Upload a booking confirmation; the body is the raw file content
+   */
+  router.post(
+    '/:id/verification/documents',
+    authMiddleware.requireAuth(),
+    express.raw({
+      type: [...BOOKING_DOCUMENT_CONTENT_TYPES],
+      limit: MAX_BOOKING_DOCUMENT_BYTES,
+    }),
+    verificationController.uploadDocument
+  );
+
+  /**
+   * GET /api/bookings/:id/verification/documents/:documentId
+   * Download an uploaded document
+   */
+  router.get(
+    '/:id/verification/documents/:documentId',
+    authMiddleware.requireAuth(),
+    verificationController.downloadDocument
+  );
+
+  return router;
+}
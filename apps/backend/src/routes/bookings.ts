@@ -15,6 +15,9 @@ export function createBookingRoutes(
   // Convenience route for getting current user's bookings (must come before /:id)
   router.get('/my-bookings', authMiddleware.requireAuth(), bookingController.getMyBookings);
 
+  // Map view clusters; signed-in users don't see their own bookings (must come before /:id)
+  router.get('/map', authMiddleware.optionalAuth(), bookingController.getBookingMap);
+
   // Public routes (for searching available bookings)
   router.get('/', bookingController.getBookings);
   router.get('/:id', bookingController.getBookingById);
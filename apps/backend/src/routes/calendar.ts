@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { CalendarController } from '../controllers/CalendarController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Calendar routes mounted under /api/calendar. The feed itself is public
+ * because calendar apps cannot sign in; the secret token in its URL is the
+ * credential.
+ */
+export function createCalendarRoutes(
+  calendarController: CalendarController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/calendar/feed/:token.ics
+   * The user's stays, swap expirations, proposal deadlines and auction end
+   * dates, for subscribing in a calendar app
+   */
+  router.get('/feed/:token.ics', calendarController.serveFeed);
+
+  /**
+   * GET /api/calendar/feed
+   * Whether the user has a feed URL, and when it was last fetched
+   */
+  router.get('/feed', authMiddleware.requireAuth(), calendarController.getFeed);
+
+  /**
+   * POST /api/calendar/feed
+   * Create the feed URL, or replace it so the old one stops working. The URL
+   * is only returned here.
+   */
+  router.post(
+    '/feed',
+    authMiddleware.requireAuth(),
+    calendarController.createFeed
+  );
+
+  /**
+   * DELETE /api/calendar/feed
+   * Turn the feed off
+   */
+  router.delete(
+    '/feed',
+    authMiddleware.requireAuth(),
+    calendarController.deleteFeed
+  );
+
+  /**
+   * GET /api/calendar/swaps/:swapId.ics
+   * Download the stay and deadlines of one swap as an .ics file
+   */
+  router.get(
+    '/swaps/:swapId.ics',
+    authMiddleware.requireAuth(),
+    calendarController.downloadSwap
+  );
+
+  return router;
+}
@@ -0,0 +1,75 @@
+import express, { Router } from 'express';
+import {
+  CONVERSATION_ATTACHMENT_CONTENT_TYPES,
+  MAX_CONVERSATION_ATTACHMENT_BYTES,
+} from '@booking-swap/shared';
+import { MessagingController } from '../controllers/MessagingController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Direct messaging routes mounted under /api/conversations. New messages
+ * and read receipts are also pushed over the socket as message:new and
+ * message:read.
+ */
+export function createConversationRoutes(
+  messagingController: MessagingController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/conversations
+   * The current user's conversations, optionally for one swap or proposal
+   */
+  router.get('/', messagingController.listConversations);
+
+  /**
+   * POST /api/conversations
+   * Open the thread for a proposal, or a thread with a swap's owner
+   */
+  router.post('/', messagingController.openConversation);
+
+  /**
+   * GET /api/conversations/:id
+   * A conversation with a page of messages, oldest first
+   */
+  router.get('/:id', messagingController.getConversation);
+
+  /**
+   * POST /api/conversations/:id/messages
+   * Send a text message
+   */
+  router.post('/:id/messages', messagingController.sendMessage);
+
+  /**
+   * POST /api/conversations/:id/attachments
+   * Send a file; the body is the raw file content
+   */
+  router.post(
+    '/:id/attachments',
+    express.raw({
+      type: [...CONVERSATION_ATTACHMENT_CONTENT_TYPES],
+      limit: MAX_CONVERSATION_ATTACHMENT_BYTES,
+    }),
+    messagingController.sendAttachment
+  );
+
+  /**
+   * POST /api/conversations/:id/read
+   * Mark the conversation read up to now
+   */
+  router.post('/:id/read', messagingController.markRead);
+
+  /**
+   * GET /api/conversations/:id/messages/:messageId/attachment
+   * Download a message attachment
+   */
+  router.get(
+    '/:id/messages/:messageId/attachment',
+    messagingController.downloadAttachment
+  );
+
+  return router;
+}
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { CurrencyController } from '../controllers/CurrencyController';
+
+/**
+ * Currency routes mounted under /api/currencies. Rates are public so
+ * offer forms can show converted amounts before sign-in.
+ */
+export function createCurrencyRoutes(
+  currencyController: CurrencyController
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/currencies
+   * Supported currencies and the current FX rate table
+   */
+  router.get('/', currencyController.getCurrencies);
+
+  /**
+   * GET /api/currencies/convert
+   * Convert an amount between two supported currencies
+   */
+  router.get('/convert', currencyController.convert);
+
+  return router;
+}
@@ -0,0 +1,58 @@
+import express, { Router } from 'express';
+import {
+  DISPUTE_EVIDENCE_CONTENT_TYPES,
+  MAX_DISPUTE_EVIDENCE_BYTES,
+} from '@booking-swap/shared';
+import { DisputeController } from '../controllers/DisputeController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Dispute routes mounted under /api/disputes
+ */
+export function createDisputeRoutes(
+  disputeController: DisputeController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/disputes
+   * Disputes the current user reported or was reported in
+   */
+  router.get('/', disputeController.listDisputes);
+
+  /**
+   * POST /api/disputes
+   * Open a dispute about an accepted or completed swap
+   */
+  router.post('/', disputeController.openDispute);
+
+  /**
+   * GET /api/disputes/:id
+   * A dispute with its evidence and history
+   */
+  router.get('/:id', disputeController.getDispute);
+
+  /**
+   * POST /api/disputes/:id/evidence
+   * Attach a file; the body is the raw file content
+   */
+  router.post(
+    '/:id/evidence',
+    express.raw({
+      type: [...DISPUTE_EVIDENCE_CONTENT_TYPES],
+      limit: MAX_DISPUTE_EVIDENCE_BYTES,
+    }),
+    disputeController.uploadEvidence
+  );
+
+  /**
+   * GET /api/disputes/:id/evidence/:evidenceId
+   * Download an evidence file
+   */
+  router.get('/:id/evidence/:evidenceId', disputeController.downloadEvidence);
+
+  return router;
+}
@@ -0,0 +1,67 @@
+import { Router, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { PaymentWebhookController } from '../controllers/PaymentWebhookController';
+
+export const PAYMENT_WEBHOOK_PATH = '/api/payments/webhooks';
+
+// Gateways deliver bursts from a handful of source IPs; anything refused here
+// is retried with backoff, which delays settlement
+const WEBHOOK_RATE_LIMIT = {
+  windowMs: 60 * 1000, // 1 minute
+  max: 600, // per source IP
+};
+
+/**
+ * Whether a request is a webhook delivery. Express matches routes
+ * case-insensitively, so the path is compared the same way.
+ */
+export function isPaymentWebhookRequest(req: Request): boolean {
+  return req.originalUrl.toLowerCase().startsWith(PAYMENT_WEBHOOK_PATH);
+}
+
+/**
+ * `verify` hook for express.json that keeps the raw body of webhook
+ * deliveries; signatures are computed over the exact bytes received.
+ */
+export function captureWebhookRawBody(
+  req: Request,
+  _res: unknown,
+  buf: Buffer
+): void {
+  if (isPaymentWebhookRequest(req)) {
+    req.rawBody = buf;
+  }
+}
+
+/**
+ * Payment gateway webhook routes. These are authenticated by the gateway's
+ * signature, not by a user session, so they are mounted ahead of the
+ * authenticated /api/payments routes, and are limited separately from the
+ * global per-IP limit, which skips them.
+ */
+export function createPaymentWebhookRoutes(
+  paymentWebhookController: PaymentWebhookController
+): Router {
+  const router = Router();
+
+  router.use(
+    rateLimit({
+      ...WEBHOOK_RATE_LIMIT,
+      message: {
+        error: {
+          code: 'RATE_LIMIT_EXCEEDED',
+          message: 'Too many webhook deliveries, please try again later',
+          category: 'rate_limiting',
+        },
+      },
+    })
+  );
+
+  /**
+   * POST /api/payments/webhooks
+   * Gateway event delivery (payment, refund and chargeback updates)
+   */
+  router.post('/', paymentWebhookController.handleWebhook);
+
+  return router;
+}
@@ -15,7 +15,7 @@ export function createPaymentRoutes(
   router.post('/cash-offer', swapController.submitCashOffer);
   router.get('/methods', swapController.getUserPaymentMethods);
   router.post('/escrow', swapController.createEscrowAccount);
-  router.put('/escrow/:id/release', swapController.releaseEscrowFunds);
+  router.put('/escrow/:id/release', authMiddleware.requireStepUp(), swapController.releaseEscrowFunds);
   
   // Transaction management
   router.get('/transactions/:id/status', swapController.getPaymentTransactionStatus);
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { PrivacyController } from '../controllers/PrivacyController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Personal data export and account deletion routes mounted under
+ * /api/privacy
+ */
+export function createPrivacyRoutes(
+  privacyController: PrivacyController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * POST /api/privacy/exports
+   * Start building an archive of the user's data; returns the export already
+   * in progress if there is one
+   */
+  router.post('/exports', privacyController.requestExport);
+
+  /**
+   * GET /api/privacy/exports
+   * Recent exports, newest first
+   */
+  router.get('/exports', privacyController.listExports);
+
+  /**
+   * GET /api/privacy/exports/:id
+   * Status of one export
+   */
+  router.get('/exports/:id', privacyController.getExport);
+
+  /**
+   * GET /api/privacy/exports/:id/download
+   * The ZIP archive of JSON and CSV files, until the export expires
+   */
+  router.get(
+    '/exports/:id/download',
+    authMiddleware.requireStepUp(),
+    privacyController.downloadExport
+  );
+
+  /**
+   * GET /api/privacy/account/deletion
+   * Whether the account can be deleted, and what is still in progress
+   */
+  router.get('/account/deletion', privacyController.checkAccountDeletion);
+
+  /**
+   * DELETE /api/privacy/account
+   * Delete the account and anonymize its personal data. Requires
+   * { "confirmation": "DELETE" } and refuses while anything is in flight.
+   */
+  router.delete(
+    '/account',
+    authMiddleware.requireStepUp(),
+    privacyController.deleteAccount
+  );
+
+  return router;
+}
@@ -5,7 +5,9 @@ import {
     validateProposalId,
     validateUserId,
     validateRejectionRequest,
-    validateProposalResponsesQuery
+    validateProposalResponsesQuery,
+    validateCounterOfferRequest,
+    validateCounterOfferResponse
 } from '../middleware/proposalValidation';
 import {
     validateProposalAcceptanceWithCompletion
@@ -38,6 +40,24 @@ export function createProposalRoutes(
         proposalController.rejectProposal
     );
 
+    // Counter-offer negotiation endpoints
+    router.get('/:proposalId/negotiation',
+        validateProposalId,
+        proposalController.getNegotiation
+    );
+
+    router.post('/:proposalId/counter',
+        validateProposalId,
+        validateCounterOfferRequest,
+        proposalController.counterProposal
+    );
+
+    router.post('/:proposalId/counter/:versionId/respond',
+        validateProposalId,
+        validateCounterOfferResponse,
+        proposalController.respondToCounterOffer
+    );
+
     // Proposal status endpoint with validation
     router.get('/:proposalId/status',
         validateProposalId,
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { PushController } from '../controllers/PushController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Web Push subscription and preference routes mounted under /api/push
+ */
+export function createPushRoutes(
+  pushController: PushController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/push/vapid-public-key
+   * Application server key browsers subscribe with; 503 when push is not
+   * configured
+   */
+  router.get('/vapid-public-key', pushController.getPublicKey);
+
+  /**
+   * POST /api/push/subscriptions
+   * Register this browser. The body is PushSubscription.toJSON().
+   */
+  router.post('/subscriptions', pushController.subscribe);
+
+  /**
+   * GET /api/push/subscriptions
+   * Devices registered for push
+   */
+  router.get('/subscriptions', pushController.listSubscriptions);
+
+  /**
+   * DELETE /api/push/subscriptions
+   * Unregister the browser with { "endpoint": "..." }
+   */
+  router.delete('/subscriptions', pushController.unsubscribeEndpoint);
+
+  /**
+   * DELETE /api/push/subscriptions/:id
+   * Unregister one of the user's devices
+   */
+  router.delete('/subscriptions/:id', pushController.unsubscribe);
+
+  /**
+   * GET /api/push/preferences
+   * Whether push is on and the notification types sent as push
+   */
+  router.get('/preferences', pushController.getPreferences);
+
+  /**
+   * PUT /api/push/preferences
+   * Update { push, pushTypes }; types not listed are not pushed
+   */
+  router.put('/preferences', pushController.updatePreferences);
+
+  return router;
+}
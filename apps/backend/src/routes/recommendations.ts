@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { RecommendationController } from '../controllers/RecommendationController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Recommendation routes mounted under /api/swaps
+ */
+export function createSwapRecommendationRoutes(
+  recommendationController: RecommendationController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  /**
+   * GET /api/swaps/recommendations
+   * Listings ranked for the current user. Accepts limit and refresh=true to
+   * bypass the cached feed.
+   */
+  router.get(
+    '/recommendations',
+    authMiddleware.requireAuth(),
+    recommendationController.getRecommendations
+  );
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { ReviewController } from '../controllers/ReviewController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Review routes mounted under /api/swaps
+ */
+export function createSwapReviewRoutes(
+  reviewController: ReviewController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  /**
+   * POST /api/swaps/:id/reviews
+   * Review the other party of a completed swap
+   */
+  router.post(
+    '/:id/reviews',
+    authMiddleware.requireAuth(),
+    reviewController.submitReview
+  );
+
+  return router;
+}
+
+/**
+ * Review and reputation routes mounted under /api/users
+ */
+export function createUserReviewRoutes(
+  reviewController: ReviewController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/users/:id/reviews
+   * Visible reviews about a user with their reputation
+   */
+  router.get('/:id/reviews', reviewController.getUserReviews);
+
+  /**
+   * GET /api/users/:id/reputation
+   * Reputation score, swap counts and badges
+   */
+  router.get('/:id/reputation', reviewController.getUserReputation);
+
+  return router;
+}
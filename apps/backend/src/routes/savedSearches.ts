@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { SavedSearchController } from '../controllers/SavedSearchController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Saved search routes mounted under /api/saved-searches
+ */
+export function createSavedSearchRoutes(
+  savedSearchController: SavedSearchController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/saved-searches
+   * The current user's saved searches
+   */
+  router.get('/', savedSearchController.listSavedSearches);
+
+  /**
+   * POST /api/saved-searches
+   * Save a filter set with its alert frequency and channels
+   */
+  router.post('/', savedSearchController.createSavedSearch);
+
+  /**
+   * PATCH /api/saved-searches/:id
+   * Rename a saved search or change its filters or alerts
+   */
+  router.patch('/:id', savedSearchController.updateSavedSearch);
+
+  /**
+   * DELETE /api/saved-searches/:id
+   * Delete a saved search and its recorded matches
+   */
+  router.delete('/:id', savedSearchController.deleteSavedSearch);
+
+  return router;
+}
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { SessionController } from '../controllers/SessionController';
+import { AuthMiddleware } from '../middleware/auth';
+import { tokenValidationRateLimit } from '../middleware/rateLimiting';
+
+/**
+ * Session and device management routes mounted under /api/auth/sessions.
+ * Refresh is public since it is used once the access token has expired.
+ */
+export function createSessionRoutes(
+  sessionController: SessionController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  /**
+   * POST /api/auth/sessions/refresh
+   * Exchange a refresh token for a new access token and the next refresh
+   * token; reusing an old refresh token signs the session out
+   */
+  router.post('/refresh', tokenValidationRateLimit, sessionController.refresh);
+
+  /**
+   * GET /api/auth/sessions
+   * Devices the user is signed in on, with the requesting one marked current
+   */
+  router.get('/', authMiddleware.requireAuth(), sessionController.listSessions);
+
+  /**
+   * DELETE /api/auth/sessions
+   * Sign out everywhere except the requesting session
+   */
+  router.delete(
+    '/',
+    authMiddleware.requireAuth(),
+    sessionController.revokeOtherSessions
+  );
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Sign out one device
+   */
+  router.delete(
+    '/:id',
+    authMiddleware.requireAuth(),
+    sessionController.revokeSession
+  );
+
+  return router;
+}
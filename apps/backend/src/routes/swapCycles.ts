@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { SwapCycleController } from '../controllers/SwapCycleController';
+import { AuthMiddleware } from '../middleware/auth';
+import { adminAuth, requirePermission } from '../middleware/adminAuth';
+
+/**
+ * Routes for multi-party swap cycles
+ */
+export function createSwapCycleRoutes(
+  swapCycleController: SwapCycleController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  /**
+   * POST /api/swap-cycles/discover
+   * Run cycle detection over open swaps and propose the cycles found
+   */
+  router.post(
+    '/discover',
+    adminAuth,
+    requirePermission('system_maintenance'),
+    swapCycleController.discoverCycles
+  );
+
+  // All other swap cycle routes require authentication
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/swap-cycles
+   * List cycles the current user takes part in
+   */
+  router.get('/', swapCycleController.getUserCycles);
+
+  /**
+   * GET /api/swap-cycles/:cycleId
+   */
+  router.get('/:cycleId', swapCycleController.getCycle);
+
+  /**
+   * POST /api/swap-cycles/:cycleId/legs/:legId/accept
+   */
+  router.post('/:cycleId/legs/:legId/accept', swapCycleController.acceptLeg);
+
+  /**
+   * POST /api/swap-cycles/:cycleId/legs/:legId/decline
+   */
+  router.post('/:cycleId/legs/:legId/decline', swapCycleController.declineLeg);
+
+  return router;
+}
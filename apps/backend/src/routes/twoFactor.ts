@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { TwoFactorController } from '../controllers/TwoFactorController';
+import { AuthMiddleware } from '../middleware/auth';
+import { twoFactorVerificationRateLimit } from '../middleware/rateLimiting';
+
+/**
+ * Two-factor authentication routes mounted under /api/auth/2fa. Routes that
+ * check a code are rate limited against guessing.
+ */
+export function createTwoFactorRoutes(
+  twoFactorController: TwoFactorController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/auth/2fa
+   * Whether 2FA is on, how many recovery codes are left and whether the
+   * user's role requires it
+   */
+  router.get('/', twoFactorController.getStatus);
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Generate a secret and its QR code; 2FA stays off until confirmed
+   */
+  router.post('/setup', twoFactorController.beginSetup);
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Confirm the secret with a code; returns the recovery codes once
+   */
+  router.post(
+    '/enable',
+    twoFactorVerificationRateLimit,
+    twoFactorController.enable
+  );
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Switch 2FA off with a current code or recovery code; not allowed for admins
+   */
+  router.post(
+    '/disable',
+    twoFactorVerificationRateLimit,
+    twoFactorController.disable
+  );
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Replace all recovery codes, given a current code
+   */
+  router.post(
+    '/recovery-codes',
+    twoFactorVerificationRateLimit,
+    twoFactorController.regenerateRecoveryCodes
+  );
+
+  /**
+   * POST /api/auth/2fa/verify
+   * Step-up check: returns a session token that sensitive operations accept
+   * for the next few minutes
+   */
+  router.post(
+    '/verify',
+    twoFactorVerificationRateLimit,
+    twoFactorController.verify
+  );
+
+  return router;
+}
@@ -14,7 +14,7 @@ export function createUserRoutes(
   // User profile management
   router.get('/profile', userController.getProfile);
   router.put('/profile', userController.updateProfile);
-  router.put('/wallet', userController.updateWallet);
+  router.put('/wallet', authMiddleware.requireStepUp(), userController.updateWallet);
 
   // User dashboard and statistics
   router.get('/dashboard', userController.getDashboard);
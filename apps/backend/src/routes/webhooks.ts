@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/WebhookController';
+import { AuthMiddleware } from '../middleware/auth';
+
+/**
+ * Outbound webhook routes mounted under /api/webhooks
+ */
+export function createWebhookRoutes(
+  webhookController: WebhookController,
+  authMiddleware: AuthMiddleware
+): Router {
+  const router = Router();
+
+  router.use(authMiddleware.requireAuth());
+
+  /**
+   * GET /api/webhooks
+   * The current user's webhook endpoints, without their secrets
+   */
+  router.get('/', webhookController.listEndpoints);
+
+  /**
+   * POST /api/webhooks
+   * Register an endpoint for a set of event types; returns its signing secret
+   */
+  router.post('/', webhookController.createEndpoint);
+
+  /**
+   * POST /api/webhooks/deliveries/:deliveryId/redeliver
+   * Send an earlier delivery's event again
+   */
+  router.post('/deliveries/:deliveryId/redeliver', webhookController.redeliver);
+
+  /**
+   * PATCH /api/webhooks/:id
+   * Change an endpoint's URL, event types or description, or re-enable it
+   */
+  router.patch('/:id', webhookController.updateEndpoint);
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Delete an endpoint and its delivery log
+   */
+  router.delete('/:id', webhookController.deleteEndpoint);
+
+  /**
+   * POST /api/webhooks/:id/rotate-secret
+   * Replace the signing secret; returns the new one
+   */
+  router.post('/:id/rotate-secret', webhookController.rotateSecret);
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * Delivery log of an endpoint, newest first
+   */
+  router.get('/:id/deliveries', webhookController.listDeliveries);
+
+  return router;
+}
@@ -2,6 +2,17 @@ import { BookingRepository } from '../../database/repositories/BookingRepository
 import { SwapRepository } from '../../database/repositories/SwapRepository';
 import { UserRepository } from '../../database/repositories/UserRepository';
 import { HederaService } from '../hedera/HederaService';
+import { DisputeService } from '../dispute/DisputeService';
+import {
+  Dispute,
+  DisputeDetails,
+  DisputeEvidence,
+  DisputePriority,
+  DisputeStatus,
+  DisputeType,
+  ResolveDisputeRequest,
+  TransitionDisputeRequest,
+} from '@booking-swap/shared';
 import { logger } from '../../utils/logger';
 
 export interface PlatformStatistics {
@@ -35,27 +46,6 @@ export interface PlatformStatistics {
   };
 }
 
-export interface DisputeCase {
-  id: string;
-  swapId: string;
-  reporterId: string;
-  reportedUserId: string;
-  type: 'fraud' | 'booking_invalid' | 'payment_issue' | 'other';
-  description: string;
-  evidence: string[];
-  status: 'open' | 'investigating' | 'resolved' | 'closed';
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  assignedTo?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  resolution?: {
-    action: string;
-    notes: string;
-    resolvedBy: string;
-    resolvedAt: Date;
-  };
-}
-
 export interface UserFlag {
   userId: string;
   reason: string;
@@ -70,7 +60,8 @@ export class AdminService {
     private bookingRepository: BookingRepository,
     private swapRepository: SwapRepository,
     private userRepository: UserRepository,
-    private hederaService: HederaService
+    private hederaService: HederaService,
+    private disputeService: DisputeService
   ) {}
 
   async getPlatformStatistics(): Promise<PlatformStatistics> {
@@ -115,13 +106,13 @@ export class AdminService {
     }
   }
 
-  async getDisputes(status?: string): Promise<DisputeCase[]> {
+  async getDisputes(status?: DisputeStatus): Promise<Dispute[]> {
     try {
-      // In a real implementation, this would query a disputes table
-      // For now, we'll return mock data structure
-      const disputes: DisputeCase[] = [];
-      
-      logger.info('Fetching disputes', { status });
+      const { disputes } = await this.disputeService.listDisputes(
+        status ? { status } : {}
+      );
+
+      logger.info('Fetching disputes', { status, count: disputes.length });
       return disputes;
     } catch (error) {
       logger.error('Error fetching disputes', { error });
@@ -129,21 +120,41 @@ export class AdminService {
     }
   }
 
-  async createDispute(disputeData: Partial<DisputeCase>): Promise<DisputeCase> {
+  async getDisputeDetails(disputeId: string, adminId: string): Promise<DisputeDetails> {
+    return this.disputeService.getDisputeDetails(disputeId, {
+      userId: adminId,
+      isAdmin: true
+    });
+  }
+
+  async getDisputeEvidence(
+    disputeId: string,
+    evidenceId: string,
+    adminId: string
+  ): Promise<{ evidence: DisputeEvidence; data: Buffer }> {
+    return this.disputeService.getEvidenceFile(disputeId, evidenceId, {
+      userId: adminId,
+      isAdmin: true
+    });
+  }
+
+  /**
+   * Open a dispute on behalf of a swap party, e.g. one reported to support
+   */
+  async createDispute(disputeData: {
+    swapId: string;
+    reporterId: string;
+    type?: DisputeType;
+    description?: string;
+    priority?: DisputePriority;
+  }): Promise<Dispute> {
     try {
-      const dispute: DisputeCase = {
-        id: `dispute_${Date.now()}`,
-        swapId: disputeData.swapId!,
-        reporterId: disputeData.reporterId!,
-        reportedUserId: disputeData.reportedUserId!,
+      const dispute = await this.disputeService.openDispute(disputeData.reporterId, {
+        swapId: disputeData.swapId,
         type: disputeData.type || 'other',
         description: disputeData.description || '',
-        evidence: disputeData.evidence || [],
-        status: 'open',
-        priority: disputeData.priority || 'medium',
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+        priority: disputeData.priority || 'medium'
+      });
 
       logger.info('Created new dispute', { disputeId: dispute.id });
       return dispute;
@@ -153,31 +164,26 @@ export class AdminService {
     }
   }
 
+  async transitionDispute(
+    disputeId: string,
+    request: TransitionDisputeRequest,
+    adminId: string
+  ): Promise<Dispute> {
+    try {
+      return await this.disputeService.transitionDispute(disputeId, adminId, request);
+    } catch (error) {
+      logger.error('Error changing dispute status', { error, disputeId });
+      throw error;
+    }
+  }
+
   async resolveDispute(
     disputeId: string, 
-    resolution: DisputeCase['resolution'],
+    resolution: ResolveDisputeRequest,
     adminId: string
-  ): Promise<DisputeCase> {
+  ): Promise<Dispute> {
     try {
-      // In a real implementation, this would update the disputes table
-      const dispute: DisputeCase = {
-        id: disputeId,
-        swapId: 'mock_swap',
-        reporterId: 'mock_reporter',
-        reportedUserId: 'mock_reported',
-        type: 'fraud',
-        description: 'Mock dispute',
-        evidence: [],
-        status: 'resolved',
-        priority: 'medium',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        resolution: {
-          ...resolution!,
-          resolvedBy: adminId,
-          resolvedAt: new Date()
-        }
-      };
+      const dispute = await this.disputeService.resolveDispute(disputeId, adminId, resolution);
 
       logger.info('Resolved dispute', { disputeId, adminId });
       return dispute;
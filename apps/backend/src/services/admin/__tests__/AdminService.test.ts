@@ -7,6 +7,7 @@ describe('AdminService', () => {
   let mockSwapRepository: any;
   let mockUserRepository: any;
   let mockHederaService: any;
+  let mockDisputeService: any;
 
   beforeEach(() => {
     mockBookingRepository = {
@@ -24,12 +25,36 @@ describe('AdminService', () => {
     mockHederaService = {
       queryTransaction: vi.fn(),
     };
+    mockDisputeService = {
+      listDisputes: vi.fn(),
+      openDispute: vi.fn(async (reporterId: string, request: any) => ({
+        id: 'dispute123',
+        reporterId,
+        reportedUserId: 'user2',
+        ...request,
+        status: 'open',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })),
+      transitionDispute: vi.fn(),
+      resolveDispute: vi.fn(async (disputeId: string, adminId: string, request: any) => ({
+        id: disputeId,
+        status: request.close ? 'closed' : 'resolved',
+        resolution: {
+          action: request.action,
+          notes: request.notes,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        },
+      })),
+    };
 
     adminService = new AdminService(
       mockBookingRepository,
       mockSwapRepository,
       mockUserRepository,
-      mockHederaService
+      mockHederaService,
+      mockDisputeService
     );
   });
 
@@ -113,15 +138,25 @@ describe('AdminService', () => {
     });
   });
 
+  describe('getDisputes', () => {
+    it('should list disputes filtered by status', async () => {
+      const disputes = [{ id: 'dispute123', status: 'investigating' }];
+      mockDisputeService.listDisputes.mockResolvedValue({ disputes, total: 1 });
+
+      const result = await adminService.getDisputes('investigating');
+
+      expect(result).toEqual(disputes);
+      expect(mockDisputeService.listDisputes).toHaveBeenCalledWith({ status: 'investigating' });
+    });
+  });
+
   describe('createDispute', () => {
     it('should create a new dispute', async () => {
       const disputeData = {
         swapId: 'swap123',
         reporterId: 'user1',
-        reportedUserId: 'user2',
         type: 'fraud' as const,
         description: 'Fraudulent booking detected',
-        evidence: ['evidence1.jpg'],
         priority: 'high' as const
       };
 
@@ -133,20 +168,24 @@ describe('AdminService', () => {
       expect(dispute.status).toBe('open');
       expect(dispute.priority).toBe('high');
       expect(dispute.createdAt).toBeInstanceOf(Date);
+      expect(mockDisputeService.openDispute).toHaveBeenCalledWith('user1', {
+        swapId: 'swap123',
+        type: 'fraud',
+        description: 'Fraudulent booking detected',
+        priority: 'high'
+      });
     });
 
     it('should set default values for optional fields', async () => {
       const disputeData = {
         swapId: 'swap123',
-        reporterId: 'user1',
-        reportedUserId: 'user2'
+        reporterId: 'user1'
       };
 
       const dispute = await adminService.createDispute(disputeData);
 
       expect(dispute.type).toBe('other');
       expect(dispute.priority).toBe('medium');
-      expect(dispute.evidence).toEqual([]);
       expect(dispute.description).toBe('');
     });
   });
@@ -155,7 +194,7 @@ describe('AdminService', () => {
     it('should resolve a dispute with resolution details', async () => {
       const disputeId = 'dispute123';
       const resolution = {
-        action: 'User suspended for 7 days',
+        action: 'refund' as const,
         notes: 'Clear evidence of fraudulent activity'
       };
       const adminId = 'admin1';
@@ -168,6 +207,7 @@ describe('AdminService', () => {
         resolvedBy: adminId,
         resolvedAt: expect.any(Date)
       });
+      expect(mockDisputeService.resolveDispute).toHaveBeenCalledWith(disputeId, adminId, resolution);
     });
   });
 
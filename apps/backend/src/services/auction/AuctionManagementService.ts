@@ -11,6 +11,9 @@ import {
   AuctionTimingValidation,
   ProposalValidation,
   CashOffer,
+  ConvertedAmount,
+  EnhancedSwap,
+  MoneyAmount,
   ValidationError
 } from '@booking-swap/shared';
 import { AuctionRepository } from '../../database/repositories/AuctionRepository';
@@ -32,6 +35,8 @@ import { DateValidator } from '../../utils/DateValidator';
 import { AuctionSettingsValidator, ValidatedAuctionSettings } from '../../utils/AuctionSettingsValidator';
 import { AuctionErrorMonitoringService } from '../monitoring/AuctionErrorMonitoringService';
 import { AuctionErrorResponseBuilder } from '../../utils/AuctionErrorResponseBuilder';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { CurrencyService } from '../currency/CurrencyService';
 import {
   AuctionCreationError as AuctionCreationErrorUtil,
   ValidationError as AuctionValidationError,
@@ -101,7 +106,9 @@ export class AuctionManagementService {
     private notificationService: NotificationService,
     private auctionNotificationService: AuctionNotificationService,
     private paymentNotificationService: PaymentNotificationService,
-    private timingNotificationService: TimingNotificationService
+    private timingNotificationService: TimingNotificationService,
+    private jobScheduler?: JobScheduler,
+    private currencyService?: CurrencyService
   ) {
     this.errorMonitoringService = AuctionErrorMonitoringService.getInstance();
   }
@@ -654,6 +661,7 @@ export class AuctionManagementService {
       if (!updatedAuction) {
         throw new Error('Failed to update auction status');
       }
+      await this.cancelScheduledAuctionEnd(auctionId);
 
       // Record auction end on blockchain
       const blockchainResult = await this.hederaService.recordAuctionCompletion({
@@ -782,6 +790,7 @@ export class AuctionManagementService {
       if (!updatedAuction) {
         throw new Error('Failed to update auction status');
       }
+      await this.cancelScheduledAuctionEnd(auctionId);
 
       // Record cancellation on blockchain
       await this.hederaService.recordAuctionCancellation({
@@ -866,25 +875,87 @@ export class AuctionManagementService {
   }
 
   /**
-   * Schedule auction end timer (placeholder for timer integration)
+   * Register the scheduled jobs that end auctions, auto-select winners and
+   * convert auctions approaching their event deadline
+   */
+  registerJobHandlers(deadlineCheckIntervalMs: number = 60 * 60 * 1000): void {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    this.jobScheduler.registerHandler(SCHEDULED_JOB_TYPES.AUCTION_END, async job => {
+      const auction = await this.auctionRepository.findById(job.payload.auctionId);
+      if (!auction || auction.status !== 'active') {
+        logger.info('Skipping auction end job, auction is no longer active', {
+          auctionId: job.payload.auctionId,
+          status: auction?.status,
+        });
+        return;
+      }
+
+      await this.endAuction(auction.id);
+    });
+
+    this.jobScheduler.registerHandler(SCHEDULED_JOB_TYPES.AUCTION_AUTO_SELECTION, async job => {
+      await this.handleAutoSelection(job.payload.auctionId);
+    });
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.AUCTION_DEADLINE_CHECK,
+      () => this.processApproachingDeadlines(),
+      { intervalMs: deadlineCheckIntervalMs }
+    );
+  }
+
+  /**
+   * Schedule the job that ends the auction at its end date
    */
   private async scheduleAuctionEnd(auctionId: string, endDate: Date): Promise<void> {
-    // TODO: Integrate with timer service or job scheduler
-    logger.info('Scheduling auction end', { auctionId, endDate });
+    if (!this.jobScheduler) {
+      logger.warn('No job scheduler configured, auction end will not be scheduled', { auctionId, endDate });
+      return;
+    }
 
-    // For now, we'll rely on a periodic job to check for expired auctions
-    // In a production system, this would integrate with a job scheduler like Bull or Agenda
+    await this.jobScheduler.schedule(
+      SCHEDULED_JOB_TYPES.AUCTION_END,
+      { auctionId },
+      { runAt: endDate, dedupKey: `${SCHEDULED_JOB_TYPES.AUCTION_END}:${auctionId}` }
+    );
   }
 
   /**
-   * Schedule auto-selection timeout (placeholder for timer integration)
+   * Schedule the job that selects a winner if the owner has not chosen one in time
    */
   private async scheduleAutoSelection(auctionId: string, hoursAfterEnd: number): Promise<void> {
-    // TODO: Integrate with timer service or job scheduler
-    logger.info('Scheduling auto-selection', { auctionId, hoursAfterEnd });
+    if (!this.jobScheduler) {
+      logger.warn('No job scheduler configured, auto-selection will not be scheduled', { auctionId, hoursAfterEnd });
+      return;
+    }
 
-    // For now, we'll rely on a periodic job to check for auctions needing auto-selection
-    // In a production system, this would integrate with a job scheduler
+    await this.jobScheduler.schedule(
+      SCHEDULED_JOB_TYPES.AUCTION_AUTO_SELECTION,
+      { auctionId },
+      {
+        runAt: new Date(Date.now() + hoursAfterEnd * 60 * 60 * 1000),
+        dedupKey: `${SCHEDULED_JOB_TYPES.AUCTION_AUTO_SELECTION}:${auctionId}`,
+      }
+    );
+  }
+
+  /**
+   * Cancel the pending end job once the auction ended or was cancelled early
+   */
+  private async cancelScheduledAuctionEnd(auctionId: string): Promise<void> {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    try {
+      await this.jobScheduler.cancelByDedupKey(`${SCHEDULED_JOB_TYPES.AUCTION_END}:${auctionId}`);
+    } catch (error) {
+      // The end job skips auctions that are no longer active, so this is not fatal
+      logger.warn('Failed to cancel scheduled auction end', { error, auctionId });
+    }
   }
 
   /**
@@ -1060,8 +1131,17 @@ export class AuctionManagementService {
             errors.push('Cash offer amount must be greater than 0');
           }
 
-          if (auction.settings.minimumCashOffer && request.cashOffer.amount < auction.settings.minimumCashOffer) {
-            errors.push(`Cash offer must be at least ${auction.settings.minimumCashOffer}`);
+          if (auction.settings.minimumCashOffer) {
+            // The minimum is set in the swap owner's currency
+            const minimumCurrency = await this.getOwnerCurrency(auction.swapId);
+            try {
+              const offered = await this.normalizeCashOffer(request.cashOffer, minimumCurrency);
+              if (offered < auction.settings.minimumCashOffer) {
+                errors.push(`Cash offer must be at least ${auction.settings.minimumCashOffer} ${minimumCurrency}`);
+              }
+            } catch (error) {
+              errors.push(`Unable to compare cash offer in ${request.cashOffer.currency}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
           }
 
           if (!request.cashOffer.paymentMethodId) {
@@ -1216,7 +1296,8 @@ export class AuctionManagementService {
   }
 
   /**
-   * Compare and rank proposals for an auction
+   * Compare and rank proposals for an auction. Cash offers are ranked after
+   * converting them into the swap owner's currency.
    */
   async compareProposals(auctionId: string): Promise<{
     bookingProposals: AuctionProposal[];
@@ -1224,6 +1305,8 @@ export class AuctionManagementService {
     rankedCashProposals: AuctionProposal[];
     highestCashOffer?: CashOffer;
     recommendedProposal?: string;
+    comparisonCurrency: string;
+    normalizedCashOffers: Record<string, ConvertedAmount>;
   }> {
     try {
       const proposals = await this.getAuctionProposals(auctionId);
@@ -1231,10 +1314,42 @@ export class AuctionManagementService {
       const bookingProposals = proposals.filter(p => p.proposalType === 'booking' && p.status === 'pending');
       const cashProposals = proposals.filter(p => p.proposalType === 'cash' && p.status === 'pending');
 
-      // Rank cash proposals by amount (highest first)
+      const auction = await this.auctionRepository.findById(auctionId);
+      const comparisonCurrency = auction ? await this.getOwnerCurrency(auction.swapId) : 'USD';
+
+      const normalizedCashOffers: Record<string, ConvertedAmount> = {};
+      const normalizedAmounts = new Map<string, number>();
+      for (const proposal of cashProposals) {
+        if (!proposal.cashOffer) {
+          continue;
+        }
+        try {
+          if (this.currencyService) {
+            const converted = await this.currencyService.convert(
+              proposal.cashOffer.amount,
+              proposal.cashOffer.currency,
+              comparisonCurrency
+            );
+            normalizedCashOffers[proposal.id] = converted;
+            normalizedAmounts.set(proposal.id, converted.amount);
+          } else {
+            normalizedAmounts.set(proposal.id, proposal.cashOffer.amount);
+          }
+        } catch (error) {
+          // An offer we cannot convert is ranked last rather than failing the comparison
+          logger.warn('Unable to normalize cash offer', {
+            auctionId,
+            proposalId: proposal.id,
+            currency: proposal.cashOffer.currency,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      // Rank cash proposals by normalized amount (highest first)
       const rankedCashProposals = cashProposals.sort((a, b) => {
-        const amountA = a.cashOffer?.amount || 0;
-        const amountB = b.cashOffer?.amount || 0;
+        const amountA = normalizedAmounts.get(a.id) || 0;
+        const amountB = normalizedAmounts.get(b.id) || 0;
         return amountB - amountA;
       });
 
@@ -1254,6 +1369,8 @@ export class AuctionManagementService {
         rankedCashProposals,
         highestCashOffer,
         recommendedProposal,
+        comparisonCurrency,
+        normalizedCashOffers,
       };
     } catch (error) {
       logger.error('Failed to compare proposals', { error, auctionId });
@@ -1261,6 +1378,26 @@ export class AuctionManagementService {
     }
   }
 
+  /**
+   * Currency the swap owner set their cash amounts in
+   */
+  private async getOwnerCurrency(swapId: string): Promise<string> {
+    const swap = await this.swapRepository.findById(swapId) as EnhancedSwap | null;
+    return swap?.cashDetails?.currency || swap?.paymentTypes?.currency || 'USD';
+  }
+
+  /**
+   * A cash offer's amount in another currency. Without a currency service
+   * the amount is compared as-is.
+   */
+  private async normalizeCashOffer(cashOffer: MoneyAmount, currency: string): Promise<number> {
+    if (!this.currencyService) {
+      return cashOffer.amount;
+    }
+    const converted = await this.currencyService.convert(cashOffer.amount, cashOffer.currency, currency);
+    return converted.amount;
+  }
+
   /**
    * Handle automatic winner selection after timeout
    */
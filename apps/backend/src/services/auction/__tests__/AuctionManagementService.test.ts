@@ -5,6 +5,8 @@ import { SwapRepository } from '../../../database/repositories/SwapRepository';
 import { BookingService } from '../../booking/BookingService';
 import { HederaService } from '../../hedera/HederaService';
 import { NotificationService } from '../../notification/NotificationService';
+import { CurrencyService } from '../../currency/CurrencyService';
+import { StaticFxRateProvider } from '../../currency/FxRateProvider';
 
 // Mock dependencies
 vi.mock('../../../database/repositories/AuctionRepository');
@@ -365,4 +367,71 @@ describe('AuctionManagementService', () => {
       await expect(service.createAuction(request)).rejects.toThrow(/less than one week away/);
     });
   });
-});
\ No newline at end of file
+
+  describe('compareProposals', () => {
+    const cashProposal = (id: string, amount: number, currency: string) => ({
+      id,
+      proposalType: 'cash',
+      status: 'pending',
+      cashOffer: { amount, currency, paymentMethodId: 'pm-1', escrowRequired: true },
+    });
+
+    beforeEach(() => {
+      service = new AuctionManagementService(
+        mockAuctionRepository,
+        mockSwapRepository,
+        mockBookingService,
+        mockHederaService,
+        mockNotificationService,
+        {} as any,
+        {} as any,
+        {} as any,
+        undefined,
+        new CurrencyService(
+          new StaticFxRateProvider({
+            base: 'USD',
+            rates: { EUR: 0.5, AUD: 10 },
+            asOf: new Date(),
+            source: 'test',
+          })
+        )
+      );
+      mockAuctionRepository.findById.mockResolvedValue({ id: 'auction-1', swapId: 'swap-1' });
+      mockSwapRepository.findById.mockResolvedValue({
+        id: 'swap-1',
+        cashDetails: { currency: 'USD' },
+      });
+    });
+
+    it('should rank cash offers in the swap owner\'s currency', async () => {
+      mockAuctionRepository.getAuctionProposals.mockResolvedValue([
+        cashProposal('usd', 150, 'USD'),
+        cashProposal('eur', 100, 'EUR'),
+        cashProposal('aud', 1200, 'AUD'),
+      ]);
+
+      const result = await service.compareProposals('auction-1');
+
+      expect(result.comparisonCurrency).toBe('USD');
+      expect(result.rankedCashProposals.map(p => p.id)).toEqual(['eur', 'usd', 'aud']);
+      expect(result.recommendedProposal).toBe('eur');
+      expect(result.normalizedCashOffers.eur).toMatchObject({
+        amount: 200,
+        originalAmount: 100,
+        originalCurrency: 'EUR',
+      });
+    });
+
+    it('should rank offers that cannot be converted last', async () => {
+      mockAuctionRepository.getAuctionProposals.mockResolvedValue([
+        cashProposal('gbp', 5000, 'GBP'),
+        cashProposal('usd', 50, 'USD'),
+      ]);
+
+      const result = await service.compareProposals('auction-1');
+
+      expect(result.rankedCashProposals.map(p => p.id)).toEqual(['usd', 'gbp']);
+      expect(result.normalizedCashOffers.gbp).toBeUndefined();
+    });
+  });
+});
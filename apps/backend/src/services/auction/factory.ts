@@ -10,6 +10,8 @@ import {
   createPaymentNotificationService,
   createTimingNotificationService 
 } from '../notification/factory';
+import { createJobScheduler } from '../scheduler/factory';
+import { createCurrencyService } from '../currency/factory';
 
 let auctionManagementService: AuctionManagementService | null = null;
 
@@ -32,7 +34,12 @@ export function createAuctionManagementService(pool: Pool): AuctionManagementSer
       notificationService,
       auctionNotificationService,
       paymentNotificationService,
-      timingNotificationService
+      timingNotificationService,
+      createJobScheduler(pool),
+      createCurrencyService(pool)
+    );
+    auctionManagementService.registerJobHandlers(
+      parseInt(process.env.AUCTION_DEADLINE_CHECK_INTERVAL_MINUTES || '60') * 60 * 1000
     );
   }
 
@@ -0,0 +1,369 @@
+import crypto from 'crypto';
+import {
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyError,
+  ApiKeyErrorCodes,
+  ApiKeyScope,
+  ApiKeyUsage,
+  ApiKeyWithSecret,
+  CreateApiKeyRequest,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEY_RATE_LIMIT,
+  MAX_API_KEYS_PER_USER,
+} from '@booking-swap/shared';
+import {
+  ApiKeyRecord,
+  ApiKeyRepository,
+  CreateApiKeyUsageData,
+} from '../../database/repositories/ApiKeyRepository';
+import { RateLimitCacheService } from '../cache/RateLimitCacheService';
+import { logger } from '../../utils/logger';
+
+export const API_KEY_PREFIX = 'bsk_';
+
+const MAX_NAME_LENGTH = 100;
+// Enough of the key to tell keys apart in lists and logs
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * Routes a scope opens up. Paths not listed here cannot be reached with a
+ * key, and read-only rules only allow the methods given.
+ */
+const SCOPE_RULES: Array<{
+  prefix: string;
+  scope: ApiKeyScope;
+  methods?: string[];
+}> = [
+  { prefix: '/api/bookings', scope: 'read:bookings', methods: ['GET', 'HEAD'] },
+  { prefix: '/api/swaps', scope: 'write:swaps' },
+  { prefix: '/api/proposals', scope: 'write:swaps' },
+  { prefix: '/api/auctions', scope: 'write:swaps' },
+  { prefix: '/api/payments', scope: 'read:payments', methods: ['GET', 'HEAD'] },
+];
+
+// A leaked key must not be able to mint more keys or change credentials
+const SESSION_ONLY_PREFIXES = ['/api/api-keys', '/api/auth'];
+
+export interface ApiKeyServiceOptions {
+  maxKeysPerUser: number;
+  /** How long a rotated key keeps working next to its replacement */
+  rotationGracePeriodMs: number;
+  /** Minimum time between last-used writes for the same key */
+  lastUsedUpdateIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: ApiKeyServiceOptions = {
+  maxKeysPerUser: MAX_API_KEYS_PER_USER,
+  rotationGracePeriodMs: 60 * 60 * 1000,
+  lastUsedUpdateIntervalMs: 60 * 1000,
+};
+
+export interface ApiKeyRateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * ApiKeyService issues long-lived keys that scripts and integrations use in
+ * place of a user session. Only a hash of each key is stored; keys carry
+ * scopes that limit which routes they reach and a per-minute rate limit.
+ */
+export class ApiKeyService {
+  private readonly options: ApiKeyServiceOptions;
+
+  constructor(
+    private readonly apiKeyRepository: ApiKeyRepository,
+    private readonly rateLimitCache: RateLimitCacheService,
+    options: Partial<ApiKeyServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  async listKeys(userId: string): Promise<ApiKey[]> {
+    const keys = await this.apiKeyRepository.findByUserId(userId);
+    return keys.map(key => this.withoutHash(key));
+  }
+
+  /**
+   * Issue a key. The key itself is only returned here and when it is
+   * rotated.
+   */
+  async createKey(
+    userId: string,
+    request: CreateApiKeyRequest
+  ): Promise<ApiKeyWithSecret> {
+    this.validateRequest(request);
+
+    const active = await this.apiKeyRepository.countActiveByUserId(userId);
+    if (active >= this.options.maxKeysPerUser) {
+      throw new ApiKeyError(
+        ApiKeyErrorCodes.API_KEY_LIMIT_REACHED,
+        `You can have up to ${this.options.maxKeysPerUser} active API keys`,
+        { limit: this.options.maxKeysPerUser }
+      );
+    }
+
+    const key = this.generateKey();
+    const created = await this.apiKeyRepository.create({
+      userId,
+      name: request.name.trim(),
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes: [...new Set(request.scopes)],
+      rateLimitPerMinute:
+        request.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+      expiresAt: request.expiresAt ? new Date(request.expiresAt) : undefined,
+    });
+
+    logger.info('API key created', {
+      apiKeyId: created.id,
+      keyPrefix: created.keyPrefix,
+      userId,
+      scopes: created.scopes,
+    });
+    return { ...this.withoutHash(created), key };
+  }
+
+  async revokeKey(id: string, userId: string): Promise<ApiKey> {
+    const key = await this.getOwnedKey(id, userId);
+    const revoked = await this.apiKeyRepository.revoke(id);
+
+    logger.info('API key revoked', {
+      apiKeyId: id,
+      keyPrefix: key.keyPrefix,
+      userId,
+    });
+    return this.withoutHash(revoked || key);
+  }
+
+  /**
+   * Issue a replacement with the same name, scopes and limits. The old key
+   * keeps working for the grace period so deployments can switch over.
+   */
+  async rotateKey(id: string, userId: string): Promise<ApiKeyWithSecret> {
+    const current = await this.getOwnedKey(id, userId);
+    if (current.revokedAt) {
+      throw new ApiKeyError(
+        ApiKeyErrorCodes.API_KEY_REVOKED,
+        'Revoked API keys cannot be rotated'
+      );
+    }
+
+    const key = this.generateKey();
+    const replacement = await this.apiKeyRepository.create({
+      userId,
+      name: current.name,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes: current.scopes,
+      rateLimitPerMinute: current.rateLimitPerMinute,
+      expiresAt: current.expiresAt,
+    });
+    await this.apiKeyRepository.markReplaced(
+      id,
+      replacement.id,
+      new Date(Date.now() + this.options.rotationGracePeriodMs)
+    );
+
+    logger.info('API key rotated', {
+      apiKeyId: id,
+      replacementId: replacement.id,
+      userId,
+    });
+    return { ...this.withoutHash(replacement), key };
+  }
+
+  async listUsage(
+    id: string,
+    userId: string,
+    limit?: number
+  ): Promise<ApiKeyUsage[]> {
+    await this.getOwnedKey(id, userId);
+    return this.apiKeyRepository.findUsageByKey(id, limit);
+  }
+
+  /**
+   * Resolve a raw key to its active record. Returns null for unknown,
+   * revoked and expired keys.
+   */
+  async authenticate(rawKey: string, ip?: string): Promise<ApiKey | null> {
+    if (!this.isApiKey(rawKey)) {
+      return null;
+    }
+
+    const key = await this.apiKeyRepository.findByHash(this.hashKey(rawKey));
+    if (!key) {
+      return null;
+    }
+    if (key.revokedAt || (key.expiresAt && key.expiresAt <= new Date())) {
+      logger.debug('Inactive API key presented', {
+        apiKeyId: key.id,
+        revoked: !!key.revokedAt,
+      });
+      return null;
+    }
+
+    // Last-used is informational, so busy keys only write it once per interval
+    const now = Date.now();
+    if (
+      !key.lastUsedAt ||
+      now - key.lastUsedAt.getTime() >= this.options.lastUsedUpdateIntervalMs
+    ) {
+      try {
+        await this.apiKeyRepository.recordUse(key.id, ip);
+      } catch (error) {
+        logger.warn('Failed to record API key use', {
+          apiKeyId: key.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return this.withoutHash(key);
+  }
+
+  /**
+   * Count a request against the key's per-minute limit
+   */
+  async checkRateLimit(apiKey: ApiKey): Promise<ApiKeyRateLimitStatus> {
+    const limit = apiKey.rateLimitPerMinute;
+    const status = await this.rateLimitCache.isRateLimitExceeded(
+      apiKey.id,
+      'api_key',
+      limit
+    );
+
+    if (status.exceeded) {
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil(status.timeRemaining / 1000)),
+      };
+    }
+
+    const { count } = await this.rateLimitCache.incrementCounter(
+      apiKey.id,
+      'api_key'
+    );
+    return {
+      allowed: true,
+      limit,
+      remaining: Math.max(0, limit - count),
+      retryAfterSeconds: 0,
+    };
+  }
+
+  /**
+   * Whether the key's scopes cover the request. Express matches routes
+   * case-insensitively, so /API/Api-Keys reaches the same handlers as
+   * /api/api-keys and the path is compared in lower case.
+   */
+  isAllowed(apiKey: ApiKey, method: string, requestPath: string): boolean {
+    const path = requestPath.toLowerCase();
+    if (SESSION_ONLY_PREFIXES.some(prefix => this.matches(path, prefix))) {
+      return false;
+    }
+
+    const rule = SCOPE_RULES.find(candidate =>
+      this.matches(path, candidate.prefix)
+    );
+    if (!rule) {
+      return false;
+    }
+    if (rule.methods && !rule.methods.includes(method.toUpperCase())) {
+      return false;
+    }
+    return apiKey.scopes.includes(rule.scope);
+  }
+
+  async recordUsage(data: CreateApiKeyUsageData): Promise<void> {
+    try {
+      await this.apiKeyRepository.createUsage(data);
+    } catch (error) {
+      logger.warn('Failed to record API key usage', {
+        apiKeyId: data.apiKeyId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private matches(path: string, prefix: string): boolean {
+    return path === prefix || path.startsWith(`${prefix}/`);
+  }
+
+  private validateRequest(request: CreateApiKeyRequest): void {
+    const name = request.name?.trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw this.invalid(
+        `name is required and must be at most ${MAX_NAME_LENGTH} characters`
+      );
+    }
+
+    if (!Array.isArray(request.scopes) || request.scopes.length === 0) {
+      throw this.invalid('Choose at least one scope');
+    }
+    const unknown = request.scopes.filter(
+      scope => !API_KEY_SCOPES.includes(scope)
+    );
+    if (unknown.length > 0) {
+      throw this.invalid(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+
+    const rateLimit = request.rateLimitPerMinute;
+    if (
+      rateLimit !== undefined &&
+      (!Number.isInteger(rateLimit) ||
+        rateLimit < 1 ||
+        rateLimit > MAX_API_KEY_RATE_LIMIT)
+    ) {
+      throw this.invalid(
+        `rateLimitPerMinute must be a whole number between 1 and ${MAX_API_KEY_RATE_LIMIT}`
+      );
+    }
+
+    if (request.expiresAt !== undefined) {
+      const expiresAt = new Date(request.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw this.invalid('expiresAt must be a date in the future');
+      }
+    }
+  }
+
+  private async getOwnedKey(id: string, userId: string): Promise<ApiKeyRecord> {
+    const key = await this.apiKeyRepository.findById(id);
+    // Other users' keys look the same as missing ones
+    if (!key || key.userId !== userId) {
+      throw new ApiKeyError(
+        ApiKeyErrorCodes.API_KEY_NOT_FOUND,
+        'API key not found'
+      );
+    }
+    return key;
+  }
+
+  private generateKey(): string {
+    return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private withoutHash(key: ApiKeyRecord): ApiKey {
+    const apiKey: Partial<ApiKeyRecord> = { ...key };
+    delete apiKey.keyHash;
+    return apiKey as ApiKey;
+  }
+
+  private invalid(message: string): ApiKeyError {
+    return new ApiKeyError(ApiKeyErrorCodes.INVALID_API_KEY_REQUEST, message);
+  }
+}
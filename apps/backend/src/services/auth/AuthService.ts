@@ -1,11 +1,20 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { User } from '@booking-swap/shared';
+import {
+  SessionError,
+  SessionErrorCodes,
+  TwoFactorChallenge,
+  TwoFactorError,
+  TwoFactorErrorCodes,
+  User,
+} from '@booking-swap/shared';
 import { UserRepository } from '../../database/repositories/UserRepository';
 import { PasswordResetTokenRepository } from '../../database/repositories/PasswordResetTokenRepository';
 import { JwtTokenBlacklistRepository } from '../../database/repositories/JwtTokenBlacklistRepository';
 import { EmailService } from '../email/EmailService';
 import { WalletService } from '../hedera/WalletService';
+import { TwoFactorService } from './TwoFactorService';
+import { SessionContext, SessionService } from './SessionService';
 import { logger } from '../../utils/logger';
 import { PasswordRecoveryMonitor } from '../monitoring/PasswordRecoveryMonitor';
 import {
@@ -20,6 +29,8 @@ export interface AuthTokenPayload {
   email?: string;
   username?: string;
   jti?: string; // JWT ID for token identification
+  twoFactorVerifiedAt?: number; // Unix seconds of the last second factor check in this session
+  sid?: string; // Login session the token belongs to; revoking the session revokes the token
   iat: number;
   exp: number;
 }
@@ -50,6 +61,21 @@ export interface LoginResult {
   expiresAt: Date;
 }
 
+export interface TokenOptions {
+  twoFactorVerifiedAt?: number;
+  sessionId?: string;
+}
+
+export interface SessionLoginResult extends LoginResult {
+  refreshToken: string;
+  sessionId: string;
+}
+
+// Email login challenges are short-lived and signed under their own key, so
+// they can never be used as a session token
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN_SECONDS = 5 * 60;
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two_factor_login';
+
 export interface PasswordResetResult {
   success: boolean;
   message: string;
@@ -62,6 +88,7 @@ export class AuthService {
   private readonly jwtExpiresIn: string;
   private readonly saltRounds: number = 12;
   private readonly monitor: PasswordRecoveryMonitor;
+  private sessionService?: SessionService;
 
   constructor(
     private userRepository: UserRepository,
@@ -70,7 +97,8 @@ export class AuthService {
     private emailService?: EmailService,
     private jwtTokenBlacklistRepository?: JwtTokenBlacklistRepository,
     jwtSecret?: string,
-    jwtExpiresIn: string = '24h'
+    jwtExpiresIn: string = '24h',
+    private twoFactorService?: TwoFactorService
   ) {
     this.jwtSecret = jwtSecret || process.env.JWT_SECRET || 'default-secret-change-in-production';
     this.jwtExpiresIn = jwtExpiresIn;
@@ -81,6 +109,14 @@ export class AuthService {
     }
   }
 
+  /**
+   * Track logins as sessions; once set, tokens carrying a session id are
+   * rejected after that session is revoked
+   */
+  setSessionService(sessionService: SessionService): void {
+    this.sessionService = sessionService;
+  }
+
   /**
    * Authenticate user with wallet signature
    */
@@ -152,7 +188,10 @@ export class AuthService {
   /**
    * Generate JWT token for user
    */
-  generateToken(user: User | { id: string; username?: string; email?: string }): string {
+  generateToken(
+    user: User | { id: string; username?: string; email?: string },
+    options: TokenOptions = {}
+  ): string {
     // Generate a unique JWT ID for token identification
     const jti = require('crypto').randomBytes(16).toString('hex');
 
@@ -174,6 +213,13 @@ export class AuthService {
       payload.username = user.username;
     }
 
+    if (options.twoFactorVerifiedAt) {
+      payload.twoFactorVerifiedAt = options.twoFactorVerifiedAt;
+    }
+    if (options.sessionId) {
+      payload.sid = options.sessionId;
+    }
+
     return jwt.sign(payload, this.jwtSecret, {
       expiresIn: this.jwtExpiresIn,
     });
@@ -204,6 +250,11 @@ export class AuthService {
         }
       }
 
+      // Tokens issued for a login session die with the session
+      if (this.sessionService && payload.sid && !(await this.sessionService.isActive(payload.sid))) {
+        throw new Error('Token has been revoked');
+      }
+
       return payload;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
@@ -405,7 +456,10 @@ This request will not trigger any blockchain transaction or cost any fees.`;
       if (timeUntilExpiry < 3600) {
         const user = await this.userRepository.findById(payload.userId);
         if (user) {
-          return this.generateToken(user);
+          return this.generateToken(user, {
+            twoFactorVerifiedAt: payload.twoFactorVerifiedAt,
+            sessionId: payload.sid,
+          });
         }
       }
 
@@ -883,9 +937,10 @@ This request will not trigger any blockchain transaction or cost any fees.`;
   }
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password. Accounts with two-factor
+   * authentication get a challenge to complete with a code instead of a session.
    */
-  async authenticateWithEmail(email: string, password: string): Promise<LoginResult> {
+  async authenticateWithEmail(email: string, password: string): Promise<LoginResult | TwoFactorChallenge> {
     try {
       logger.info('AuthService.authenticateWithEmail called', { email });
 
@@ -907,6 +962,11 @@ This request will not trigger any blockchain transaction or cost any fees.`;
         throw new Error('Invalid email or password');
       }
 
+      if (this.twoFactorService && await this.twoFactorService.isEnabled(user.id)) {
+        logger.info('Two-factor challenge issued for email login', { userId: user.id });
+        return this.createTwoFactorChallenge(user.id);
+      }
+
       // Generate JWT token
       const token = this.generateToken({
         id: user.id,
@@ -927,11 +987,165 @@ This request will not trigger any blockchain transaction or cost any fees.`;
     }
   }
 
+  /**
+   * Exchange an email login challenge and a second factor for a session
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string): Promise<LoginResult> {
+    if (!this.twoFactorService) {
+      throw new Error('Two-factor authentication is not configured');
+    }
+
+    let userId: string;
+    try {
+      const payload = jwt.verify(challengeToken, this.getChallengeSecret()) as any;
+      if (payload.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE || !payload.userId) {
+        throw new Error('Unexpected challenge purpose');
+      }
+      userId = payload.userId;
+    } catch (error) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.INVALID_TWO_FACTOR_CHALLENGE,
+        'Login challenge is invalid or has expired, please sign in again'
+      );
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.INVALID_TWO_FACTOR_CHALLENGE,
+        'Login challenge is invalid or has expired, please sign in again'
+      );
+    }
+
+    const method = await this.twoFactorService.verify(user.id, code);
+    logger.info('Two-factor login completed', { userId: user.id, method });
+
+    const token = this.generateToken(
+      { id: user.id, username: user.username, email: user.email },
+      { twoFactorVerifiedAt: Math.floor(Date.now() / 1000) }
+    );
+
+    return {
+      user,
+      token,
+      expiresAt: this.getTokenExpirationDate(),
+    };
+  }
+
+  /**
+   * Check a second factor for a signed-in user and issue a session token
+   * marked as freshly verified, for step-up before sensitive operations
+   */
+  async verifySecondFactor(userId: string, code: string, sessionId?: string): Promise<LoginResult> {
+    if (!this.twoFactorService) {
+      throw new Error('Two-factor authentication is not configured');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await this.twoFactorService.verify(user.id, code);
+
+    const twoFactorVerifiedAt = Math.floor(Date.now() / 1000);
+    if (sessionId && this.sessionService) {
+      await this.sessionService.markTwoFactorVerified(sessionId, new Date(twoFactorVerifiedAt * 1000));
+    }
+
+    return {
+      user,
+      token: this.generateToken(user, { twoFactorVerifiedAt, sessionId }),
+      expiresAt: this.getTokenExpirationDate(),
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and the next refresh
+   * token of the same session
+   */
+  async refreshSession(refreshToken: string, context: SessionContext = {}): Promise<SessionLoginResult> {
+    if (!this.sessionService) {
+      throw new Error('Session tracking is not configured');
+    }
+
+    const { session, refreshToken: nextRefreshToken } = await this.sessionService.rotateRefreshToken(
+      refreshToken,
+      context
+    );
+
+    const user = await this.userRepository.findById(session.userId);
+    if (!user) {
+      throw new SessionError(SessionErrorCodes.INVALID_REFRESH_TOKEN, 'Refresh token is invalid or has expired');
+    }
+
+    const token = this.generateToken(
+      session.loginMethod === 'wallet' ? user : { id: user.id, username: user.username, email: user.email },
+      {
+        sessionId: session.id,
+        twoFactorVerifiedAt: session.twoFactorVerifiedAt
+          ? Math.floor(session.twoFactorVerifiedAt.getTime() / 1000)
+          : undefined,
+      }
+    );
+
+    return {
+      user,
+      token,
+      expiresAt: this.getTokenExpirationDate(),
+      refreshToken: nextRefreshToken,
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * Change the password of a signed-in user after checking the current one
+   */
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.passwordHash) {
+      throw new Error('Password login is not set up for this account');
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!isValidPassword) {
+      logger.warn('Password change rejected: current password did not match', { userId });
+      throw new Error('Current password is incorrect');
+    }
+
+    const passwordHash = await this.hashPassword(newPassword);
+    await this.userRepository.update(userId, { passwordHash });
+
+    logger.info('Password changed', { userId });
+  }
+
+  private createTwoFactorChallenge(userId: string): TwoFactorChallenge {
+    const challengeToken = jwt.sign(
+      { userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+      this.getChallengeSecret(),
+      { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN_SECONDS }
+    );
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_EXPIRES_IN_SECONDS * 1000),
+    };
+  }
+
+  private getChallengeSecret(): string {
+    return `${this.jwtSecret}:${TWO_FACTOR_CHALLENGE_PURPOSE}`;
+  }
+
   /**
    * Invalidate all user sessions (revoke all JWT tokens)
    */
   async invalidateAllUserSessions(userId: string, reason: string = 'Password reset'): Promise<void> {
     try {
+      if (this.sessionService) {
+        await this.sessionService.revokeAllForUser(userId, 'sessions_invalidated');
+      }
+
       if (!this.jwtTokenBlacklistRepository) {
         logger.warn('JWT token blacklist repository not configured - cannot invalidate sessions', { userId });
         return;
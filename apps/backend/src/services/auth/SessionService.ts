@@ -0,0 +1,312 @@
+import crypto from 'crypto';
+import {
+  LoginMethod,
+  SessionError,
+  SessionErrorCodes,
+  UserSession,
+} from '@booking-swap/shared';
+import {
+  SessionRecord,
+  SessionRepository,
+} from '../../database/repositories/SessionRepository';
+import { UserRepository } from '../../database/repositories/UserRepository';
+import { EmailService } from '../email/EmailService';
+import { logger } from '../../utils/logger';
+
+export interface SessionServiceOptions {
+  // How long a session lasts without being refreshed
+  sessionTtlMs: number;
+  // last_active_at is written at most this often per session
+  activityUpdateIntervalMs: number;
+}
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface StartedSession {
+  session: SessionRecord;
+  refreshToken: string;
+}
+
+const DEFAULT_OPTIONS: SessionServiceOptions = {
+  sessionTtlMs: 30 * 24 * 60 * 60 * 1000,
+  activityUpdateIntervalMs: 60 * 1000,
+};
+
+const hashToken = (value: string): string =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Short readable name for a user agent, e.g. "Firefox on Windows"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser || platform || userAgent.slice(0, 100);
+}
+
+/**
+ * Tracks where each user is signed in. Every login starts a session with a
+ * refresh token; refresh tokens are single use and each exchange issues the
+ * next one. Presenting an already used refresh token means it was copied, so
+ * the whole session is revoked.
+ */
+export class SessionService {
+  private readonly options: SessionServiceOptions;
+
+  constructor(
+    private sessionRepository: SessionRepository,
+    private userRepository: UserRepository,
+    private emailService?: EmailService,
+    options: Partial<SessionServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record a login and issue its first refresh token. The user is emailed
+   * when the login comes from a device they have not used before.
+   */
+  async startSession(
+    userId: string,
+    loginMethod: LoginMethod,
+    context: SessionContext = {},
+    twoFactorVerifiedAt?: Date
+  ): Promise<StartedSession> {
+    const deviceFingerprint = hashToken(context.userAgent || '');
+    const [knownDevice, previousSessions] = await Promise.all([
+      this.sessionRepository.hasFingerprint(userId, deviceFingerprint),
+      this.sessionRepository.countByUserId(userId),
+    ]);
+
+    const session = await this.sessionRepository.create({
+      userId,
+      loginMethod,
+      deviceName: describeDevice(context.userAgent),
+      deviceFingerprint,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      twoFactorVerifiedAt,
+      expiresAt: new Date(Date.now() + this.options.sessionTtlMs),
+    });
+    const refreshToken = await this.issueRefreshToken(session);
+
+    logger.info('Session started', {
+      userId,
+      sessionId: session.id,
+      loginMethod,
+      newDevice: !knownDevice,
+    });
+
+    // The first ever login is not a new device worth warning about
+    if (!knownDevice && previousSessions > 0) {
+      this.sendNewDeviceAlert(session).catch(error => {
+        logger.warn('Failed to send new device login alert', {
+          userId,
+          sessionId: session.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for the next one and extend the session
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<StartedSession> {
+    const consumption = await this.sessionRepository.consumeRefreshToken(
+      hashToken(refreshToken)
+    );
+
+    if (consumption.status === 'reused') {
+      await this.sessionRepository.revoke(
+        consumption.sessionId,
+        'refresh_token_reuse'
+      );
+      logger.warn('Refresh token reused, session revoked', {
+        sessionId: consumption.sessionId,
+        ipAddress: context.ipAddress,
+      });
+      throw new SessionError(
+        SessionErrorCodes.REFRESH_TOKEN_REUSED,
+        'This refresh token was already used; the session has been signed out'
+      );
+    }
+
+    if (consumption.status === 'invalid') {
+      throw new SessionError(
+        SessionErrorCodes.INVALID_REFRESH_TOKEN,
+        'Refresh token is invalid or has expired'
+      );
+    }
+
+    const session = await this.sessionRepository.extend(
+      consumption.sessionId,
+      new Date(Date.now() + this.options.sessionTtlMs),
+      context.ipAddress
+    );
+    if (!session) {
+      throw new SessionError(
+        SessionErrorCodes.INVALID_REFRESH_TOKEN,
+        'Refresh token is invalid or has expired'
+      );
+    }
+
+    return { session, refreshToken: await this.issueRefreshToken(session) };
+  }
+
+  async listSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<UserSession[]> {
+    const sessions = await this.sessionRepository.findActiveByUserId(userId);
+    return sessions.map(session => ({
+      ...this.toUserSession(session),
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(sessionId: string, userId: string): Promise<void> {
+    const revoked = await this.sessionRepository.revoke(
+      sessionId,
+      'signed_out',
+      userId
+    );
+    if (!revoked) {
+      throw new SessionError(
+        SessionErrorCodes.SESSION_NOT_FOUND,
+        'Session not found'
+      );
+    }
+    logger.info('Session revoked', { userId, sessionId });
+  }
+
+  /**
+   * Sign out everywhere except the session making the request
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<number> {
+    const count = await this.sessionRepository.revokeAllForUser(
+      userId,
+      'signed_out_elsewhere',
+      currentSessionId
+    );
+    logger.info('Other sessions revoked', { userId, currentSessionId, count });
+    return count;
+  }
+
+  async revokeAllForUser(userId: string, reason: string): Promise<number> {
+    return this.sessionRepository.revokeAllForUser(userId, reason);
+  }
+
+  /**
+   * Whether tokens of this session are still accepted. Also records the
+   * activity, at most once per activityUpdateIntervalMs.
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return false;
+    }
+
+    if (
+      Date.now() - session.lastActiveAt.getTime() >=
+      this.options.activityUpdateIntervalMs
+    ) {
+      await this.sessionRepository.touch(sessionId);
+    }
+    return true;
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    return this.sessionRepository.findById(sessionId);
+  }
+
+  async markTwoFactorVerified(
+    sessionId: string,
+    verifiedAt: Date
+  ): Promise<void> {
+    await this.sessionRepository.setTwoFactorVerified(sessionId, verifiedAt);
+  }
+
+  private async issueRefreshToken(session: SessionRecord): Promise<string> {
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    await this.sessionRepository.addRefreshToken(
+      session.id,
+      hashToken(refreshToken),
+      session.expiresAt
+    );
+    return refreshToken;
+  }
+
+  private async sendNewDeviceAlert(session: SessionRecord): Promise<void> {
+    if (!this.emailService) {
+      return;
+    }
+
+    const user = await this.userRepository.findById(session.userId);
+    // Wallet users may only have an email on their profile
+    const email = user?.email || user?.profile?.email;
+    if (!user || !email) {
+      return;
+    }
+
+    await this.emailService.sendNewDeviceLoginEmail({
+      userEmail: email,
+      userName: user.profile?.displayName || user.username || email,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      loginMethod: session.loginMethod,
+      loginTime: session.createdAt,
+    });
+  }
+
+  private toUserSession(session: SessionRecord): UserSession {
+    return {
+      id: session.id,
+      userId: session.userId,
+      loginMethod: session.loginMethod,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      lastActiveAt: session.lastActiveAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      revokedAt: session.revokedAt,
+    };
+  }
+}
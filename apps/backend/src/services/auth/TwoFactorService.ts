@@ -0,0 +1,303 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import {
+  TWO_FACTOR_RECOVERY_CODE_COUNT,
+  TwoFactorError,
+  TwoFactorErrorCodes,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from '@booking-swap/shared';
+import { TwoFactorRepository } from '../../database/repositories/TwoFactorRepository';
+import { UserRepository } from '../../database/repositories/UserRepository';
+import { isAdminWallet } from '../../middleware/adminAuth';
+import { logger } from '../../utils/logger';
+import {
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp';
+
+export interface TwoFactorServiceOptions {
+  // Shown as the account's provider in authenticator apps
+  issuer: string;
+  // Used to derive the AES-256-GCM key that secrets are stored under
+  encryptionKey: string;
+  // Time steps either side of the current one that are still accepted
+  verificationWindow: number;
+}
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+const DEFAULT_OPTIONS: TwoFactorServiceOptions = {
+  issuer: 'Booking Swap',
+  encryptionKey:
+    process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+    process.env.JWT_SECRET ||
+    'default-secret-change-in-production',
+  verificationWindow: 1,
+};
+
+const RECOVERY_CODE_LENGTH = 10;
+
+// Recovery codes are compared without case, spaces or dashes
+const normalizeRecoveryCode = (code: string): string =>
+  code.toUpperCase().replace(/[\s-]/g, '');
+
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+/**
+ * Optional TOTP second factor for user accounts. Enrolment is two-step: a
+ * secret is generated and shown as a QR code, and only once the user confirms
+ * it with a code is 2FA switched on and a set of recovery codes issued.
+ * Admins cannot switch 2FA off, since admin routes require it.
+ */
+export class TwoFactorService {
+  private readonly options: TwoFactorServiceOptions;
+  private readonly encryptionKey: Buffer;
+
+  constructor(
+    private twoFactorRepository: TwoFactorRepository,
+    private userRepository: UserRepository,
+    options: Partial<TwoFactorServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.encryptionKey = crypto
+      .createHash('sha256')
+      .update(this.options.encryptionKey)
+      .digest();
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [record, requiredForRole] = await Promise.all([
+      this.twoFactorRepository.findByUserId(userId),
+      this.isRequiredForRole(userId),
+    ]);
+    const enabled = !!record?.enabledAt;
+
+    return {
+      enabled,
+      enabledAt: record?.enabledAt,
+      recoveryCodesRemaining: enabled
+        ? await this.twoFactorRepository.countUnusedRecoveryCodes(userId)
+        : 0,
+      requiredForRole,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.twoFactorRepository.findByUserId(userId);
+    return !!record?.enabledAt;
+  }
+
+  /**
+   * Generate a new secret for the user to scan. Starting again replaces any
+   * secret that was never confirmed.
+   */
+  async beginSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const existing = await this.twoFactorRepository.findByUserId(userId);
+    if (existing?.enabledAt) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.TWO_FACTOR_ALREADY_ENABLED,
+        'Two-factor authentication is already enabled'
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorRepository.savePendingSecret(
+      userId,
+      this.encrypt(secret)
+    );
+
+    const accountName =
+      user.email || user.username || user.walletAddress || user.id;
+    const otpauthUrl = buildOtpauthUrl(
+      secret,
+      accountName,
+      this.options.issuer
+    );
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Confirm the pending secret with a code from the app and switch 2FA on.
+   * Returns the recovery codes, which are not stored in readable form.
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    const record = await this.twoFactorRepository.findByUserId(userId);
+    if (!record) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.TWO_FACTOR_SETUP_NOT_STARTED,
+        'Start two-factor setup before enabling it'
+      );
+    }
+    if (record.enabledAt) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.TWO_FACTOR_ALREADY_ENABLED,
+        'Two-factor authentication is already enabled'
+      );
+    }
+
+    const step = verifyTotp(
+      this.decrypt(record.secretEncrypted),
+      code || '',
+      this.options.verificationWindow
+    );
+    if (step === null) {
+      throw this.invalidCode();
+    }
+
+    const enabled = await this.twoFactorRepository.enable(userId, step);
+    if (!enabled) {
+      // Enabled concurrently by another request
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.TWO_FACTOR_ALREADY_ENABLED,
+        'Two-factor authentication is already enabled'
+      );
+    }
+
+    logger.info('Two-factor authentication enabled', { userId });
+    return this.issueRecoveryCodes(userId);
+  }
+
+  /**
+   * Switch 2FA off after checking a current code or recovery code
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    if (await this.isRequiredForRole(userId)) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.TWO_FACTOR_REQUIRED_FOR_ROLE,
+        'Two-factor authentication is required for admin accounts'
+      );
+    }
+
+    await this.verify(userId, code);
+    await this.twoFactorRepository.delete(userId);
+    logger.info('Two-factor authentication disabled', { userId });
+  }
+
+  /**
+   * Replace all recovery codes, after checking a current code
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<string[]> {
+    await this.verify(userId, code);
+    return this.issueRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a second factor: a code from the authenticator app, or one of the
+   * recovery codes. Each is accepted only once.
+   */
+  async verify(userId: string, code: string): Promise<SecondFactorMethod> {
+    const record = await this.twoFactorRepository.findByUserId(userId);
+    if (!record?.enabledAt) {
+      throw new TwoFactorError(
+        TwoFactorErrorCodes.TWO_FACTOR_NOT_ENABLED,
+        'Two-factor authentication is not enabled'
+      );
+    }
+
+    const trimmed = (code || '').trim();
+    if (/^\d{3}\s?\d{3}$/.test(trimmed)) {
+      const step = verifyTotp(
+        this.decrypt(record.secretEncrypted),
+        trimmed,
+        this.options.verificationWindow
+      );
+      if (
+        step !== null &&
+        (await this.twoFactorRepository.markStepUsed(userId, step))
+      ) {
+        return 'totp';
+      }
+      throw this.invalidCode();
+    }
+
+    if (
+      trimmed &&
+      (await this.twoFactorRepository.consumeRecoveryCode(
+        userId,
+        hashRecoveryCode(trimmed)
+      ))
+    ) {
+      const remaining =
+        await this.twoFactorRepository.countUnusedRecoveryCodes(userId);
+      logger.info('Recovery code used for two-factor authentication', {
+        userId,
+        remaining,
+      });
+      return 'recovery_code';
+    }
+
+    throw this.invalidCode();
+  }
+
+  private async isRequiredForRole(userId: string): Promise<boolean> {
+    const user = await this.userRepository.findById(userId);
+    return isAdminWallet(user?.walletAddress);
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: TWO_FACTOR_RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(crypto.randomBytes(8)).slice(
+        0,
+        RECOVERY_CODE_LENGTH
+      );
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.twoFactorRepository.replaceRecoveryCodes(
+      userId,
+      codes.map(hashRecoveryCode)
+    );
+    return codes;
+  }
+
+  private invalidCode(): TwoFactorError {
+    return new TwoFactorError(
+      TwoFactorErrorCodes.INVALID_TWO_FACTOR_CODE,
+      'Invalid verification code'
+    );
+  }
+
+  private encrypt(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map(part => part.toString('base64'))
+      .join(':');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload.split(':');
+    if (!iv || !tag || !encrypted) {
+      throw new Error('Stored two-factor secret is malformed');
+    }
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.encryptionKey,
+      Buffer.from(iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { ApiKeyErrorCodes } from '@booking-swap/shared';
+import { ApiKeyService } from '../ApiKeyService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const USER = 'user-1';
+
+const hash = (key: string) =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+const createKey = (overrides: Record<string, any> = {}) => ({
+  id: 'key-1',
+  userId: USER,
+  name: 'Calendar sync',
+  keyPrefix: 'bsk_abcdefgh',
+  keyHash: hash('bsk_secret'),
+  scopes: ['read:bookings'],
+  rateLimitPerMinute: 60,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('ApiKeyService', () => {
+  let repository: any;
+  let rateLimitCache: any;
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    repository = {
+      create: vi
+        .fn()
+        .mockImplementation(async data => createKey({ id: 'key-2', ...data })),
+      findById: vi.fn().mockResolvedValue(createKey()),
+      findByUserId: vi.fn().mockResolvedValue([createKey()]),
+      findByHash: vi.fn().mockResolvedValue(createKey()),
+      countActiveByUserId: vi.fn().mockResolvedValue(0),
+      revoke: vi
+        .fn()
+        .mockImplementation(async id =>
+          createKey({ id, revokedAt: new Date() })
+        ),
+      markReplaced: vi.fn(),
+      recordUse: vi.fn(),
+      createUsage: vi.fn(),
+      findUsageByKey: vi.fn().mockResolvedValue([]),
+    };
+    rateLimitCache = {
+      isRateLimitExceeded: vi.fn().mockResolvedValue({
+        exceeded: false,
+        count: 0,
+        limit: 60,
+        timeRemaining: 0,
+      }),
+      incrementCounter: vi
+        .fn()
+        .mockResolvedValue({ count: 1, isNewWindow: true }),
+    };
+
+    service = new ApiKeyService(repository, rateLimitCache, {
+      maxKeysPerUser: 2,
+      rotationGracePeriodMs: 60000,
+    });
+  });
+
+  describe('keys', () => {
+    it('issues a key and stores only its hash', async () => {
+      const apiKey = await service.createKey(USER, {
+        name: ' Calendar sync ',
+        scopes: ['read:bookings', 'read:bookings', 'write:swaps'],
+      });
+
+      expect(apiKey.key).toMatch(/^bsk_[A-Za-z0-9_-]{43}$/);
+      expect(apiKey).not.toHaveProperty('keyHash');
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Calendar sync',
+          keyPrefix: apiKey.key.slice(0, 12),
+          keyHash: hash(apiKey.key),
+          scopes: ['read:bookings', 'write:swaps'],
+          rateLimitPerMinute: 60,
+        })
+      );
+    });
+
+    it.each([
+      [{ name: '', scopes: ['read:bookings'] }, 'name is required'],
+      [{ name: 'CI', scopes: [] }, 'Choose at least one scope'],
+      [{ name: 'CI', scopes: ['delete:everything'] }, 'Unknown scopes'],
+      [
+        { name: 'CI', scopes: ['read:bookings'], rateLimitPerMinute: 0 },
+        'rateLimitPerMinute',
+      ],
+      [
+        { name: 'CI', scopes: ['read:bookings'], expiresAt: new Date(0) },
+        'expiresAt must be a date in the future',
+      ],
+    ])('rejects %j', async (request, message) => {
+      await expect(
+        service.createKey(USER, request as any)
+      ).rejects.toMatchObject({
+        code: ApiKeyErrorCodes.INVALID_API_KEY_REQUEST,
+        message: expect.stringContaining(message),
+      });
+    });
+
+    it('no longer grants the retired admin:* scope', async () => {
+      await expect(
+        service.createKey(USER, { name: 'Ops', scopes: ['admin:*'] as any })
+      ).rejects.toMatchObject({
+        code: ApiKeyErrorCodes.INVALID_API_KEY_REQUEST,
+        message: 'Unknown scopes: admin:*',
+      });
+    });
+
+    it('enforces the active key limit', async () => {
+      repository.countActiveByUserId.mockResolvedValue(2);
+
+      await expect(
+        service.createKey(USER, { name: 'CI', scopes: ['read:bookings'] })
+      ).rejects.toMatchObject({
+        code: ApiKeyErrorCodes.API_KEY_LIMIT_REACHED,
+      });
+    });
+
+    it('hides other users keys', async () => {
+      await expect(
+        service.revokeKey('key-1', 'someone-else')
+      ).rejects.toMatchObject({ code: ApiKeyErrorCodes.API_KEY_NOT_FOUND });
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('rotates a key and keeps the old one working for the grace period', async () => {
+      const before = Date.now();
+      const replacement = await service.rotateKey('key-1', USER);
+
+      expect(replacement.key).toMatch(/^bsk_/);
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Calendar sync',
+          scopes: ['read:bookings'],
+          rateLimitPerMinute: 60,
+        })
+      );
+      const [id, replacedBy, expiresAt] = repository.markReplaced.mock.calls[0];
+      expect(id).toBe('key-1');
+      expect(replacedBy).toBe('key-2');
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('refuses to rotate a revoked key', async () => {
+      repository.findById.mockResolvedValue(
+        createKey({ revokedAt: new Date() })
+      );
+
+      await expect(service.rotateKey('key-1', USER)).rejects.toMatchObject({
+        code: ApiKeyErrorCodes.API_KEY_REVOKED,
+      });
+    });
+  });
+
+  describe('authenticate', () => {
+    it('resolves an active key and records its use', async () => {
+      const apiKey = await service.authenticate('bsk_secret', '203.0.113.7');
+
+      expect(repository.findByHash).toHaveBeenCalledWith(hash('bsk_secret'));
+      expect(apiKey).toMatchObject({ id: 'key-1', userId: USER });
+      expect(apiKey).not.toHaveProperty('keyHash');
+      expect(repository.recordUse).toHaveBeenCalledWith('key-1', '203.0.113.7');
+    });
+
+    it('only records use once per interval', async () => {
+      repository.findByHash.mockResolvedValue(
+        createKey({ lastUsedAt: new Date() })
+      );
+
+      await service.authenticate('bsk_secret');
+
+      expect(repository.recordUse).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      { status: 'revoked', overrides: { revokedAt: new Date() } },
+      {
+        status: 'expired',
+        overrides: { expiresAt: new Date(Date.now() - 1000) },
+      },
+    ])('rejects $status keys', async ({ overrides }) => {
+      repository.findByHash.mockResolvedValue(createKey(overrides));
+
+      await expect(service.authenticate('bsk_secret')).resolves.toBeNull();
+    });
+
+    it('ignores tokens that are not API keys', async () => {
+      await expect(service.authenticate('eyJhbGciOi.x.y')).resolves.toBeNull();
+      expect(repository.findByHash).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rate limits', () => {
+    it('counts requests against the key limit', async () => {
+      rateLimitCache.incrementCounter.mockResolvedValue({
+        count: 10,
+        isNewWindow: false,
+      });
+
+      const status = await service.checkRateLimit(createKey() as any);
+
+      expect(rateLimitCache.isRateLimitExceeded).toHaveBeenCalledWith(
+        'key-1',
+        'api_key',
+        60
+      );
+      expect(status).toEqual({
+        allowed: true,
+        limit: 60,
+        remaining: 50,
+        retryAfterSeconds: 0,
+      });
+    });
+
+    it('rejects requests over the limit until the window ends', async () => {
+      rateLimitCache.isRateLimitExceeded.mockResolvedValue({
+        exceeded: true,
+        count: 60,
+        limit: 60,
+        timeRemaining: 12500,
+      });
+
+      const status = await service.checkRateLimit(createKey() as any);
+
+      expect(status).toMatchObject({ allowed: false, retryAfterSeconds: 13 });
+      expect(rateLimitCache.incrementCounter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scopes', () => {
+    const key = (scopes: string[]) => createKey({ scopes }) as any;
+
+    it.each([
+      [['read:bookings'], 'GET', '/api/bookings/booking-1', true],
+      [['read:bookings'], 'POST', '/api/bookings', false],
+      [['read:bookings'], 'GET', '/api/bookingsearch', false],
+      [['write:swaps'], 'POST', '/api/proposals/p-1/accept', true],
+      [['write:swaps'], 'GET', '/api/payments/escrow', false],
+      [['read:payments'], 'GET', '/api/payments/escrow', true],
+      [['read:payments'], 'GET', '/api/users/profile', false],
+      [['read:bookings'], 'GET', '/API/Bookings/booking-1', true],
+      [['write:swaps'], 'DELETE', '/api/disputes/d-1', false],
+      [['write:swaps'], 'POST', '/api/api-keys', false],
+      [['write:swaps'], 'POST', '/API/api-keys', false],
+      [['write:swaps'], 'POST', '/Api/Auth/change-password', false],
+    ])('%j %s %s allowed: %s', (scopes, method, path, allowed) => {
+      expect(service.isAllowed(key(scopes), method, path)).toBe(allowed);
+    });
+  });
+});
@@ -4,6 +4,7 @@ import { UserRepository } from '../../../database/repositories/UserRepository';
 import { WalletService } from '../../hedera/WalletService';
 import { User } from '@booking-swap/shared';
 import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
 
 // Mock dependencies
 vi.mock('../../../database/repositories/UserRepository');
@@ -433,4 +434,75 @@ describe('AuthService', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Two-Factor Login', () => {
+    let mockTwoFactorService: any;
+    const emailUser = {
+      ...mockUser,
+      email: 'test@example.com',
+      username: 'tester',
+      passwordHash: bcrypt.hashSync('correct-password', 4),
+    };
+
+    beforeEach(() => {
+      mockTwoFactorService = {
+        isEnabled: vi.fn().mockResolvedValue(true),
+        verify: vi.fn().mockResolvedValue('totp'),
+      };
+      (mockUserRepository as any).findByEmail = vi.fn().mockResolvedValue(emailUser);
+      (mockUserRepository.findById as Mock).mockResolvedValue(emailUser);
+
+      authService = new AuthService(
+        mockUserRepository,
+        mockWalletService,
+        undefined, // passwordResetTokenRepository
+        undefined, // emailService
+        undefined, // jwtTokenBlacklistRepository
+        'test-secret',
+        '24h',
+        mockTwoFactorService
+      );
+    });
+
+    it('should answer a correct password with a challenge instead of a session', async () => {
+      const result = await authService.authenticateWithEmail('test@example.com', 'correct-password');
+
+      expect(result).toMatchObject({ twoFactorRequired: true });
+      expect(result).not.toHaveProperty('token');
+    });
+
+    it('should not accept the challenge as a session token', async () => {
+      const result: any = await authService.authenticateWithEmail('test@example.com', 'correct-password');
+
+      await expect(authService.verifyToken(result.challengeToken)).rejects.toThrow('Invalid token');
+    });
+
+    it('should issue a session marked as verified once the code checks out', async () => {
+      const challenge: any = await authService.authenticateWithEmail('test@example.com', 'correct-password');
+
+      const result = await authService.completeTwoFactorLogin(challenge.challengeToken, '123456');
+
+      expect(mockTwoFactorService.verify).toHaveBeenCalledWith('user-123', '123456');
+      const payload = await authService.verifyToken(result.token);
+      expect(payload.userId).toBe('user-123');
+      expect(payload.twoFactorVerifiedAt).toBeGreaterThan(0);
+    });
+
+    it('should reject a session token used as a challenge', async () => {
+      const sessionToken = authService.generateToken(emailUser);
+
+      await expect(authService.completeTwoFactorLogin(sessionToken, '123456')).rejects.toMatchObject({
+        code: 'INVALID_TWO_FACTOR_CHALLENGE',
+      });
+      expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should log users without 2FA straight in', async () => {
+      mockTwoFactorService.isEnabled.mockResolvedValue(false);
+
+      const result = await authService.authenticateWithEmail('test@example.com', 'correct-password');
+
+      expect(result).toHaveProperty('token');
+    });
+  });
+});
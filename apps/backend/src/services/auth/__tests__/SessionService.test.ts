@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { SessionErrorCodes } from '@booking-swap/shared';
+import { SessionService, describeDevice } from '../SessionService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const USER = 'user-1';
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const hash = (value: string) =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+const session = (overrides: Record<string, any> = {}) => ({
+  id: 'session-1',
+  userId: USER,
+  loginMethod: 'email',
+  deviceName: 'Chrome on macOS',
+  deviceFingerprint: hash(CHROME_MAC),
+  ipAddress: '203.0.113.7',
+  lastActiveAt: new Date(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('SessionService', () => {
+  let repository: any;
+  let userRepository: any;
+  let emailService: any;
+  let service: SessionService;
+
+  beforeEach(() => {
+    repository = {
+      create: vi
+        .fn()
+        .mockImplementation(async (data: any) =>
+          session({ ...data, id: 'session-new' })
+        ),
+      findById: vi.fn().mockResolvedValue(session()),
+      findActiveByUserId: vi.fn().mockResolvedValue([]),
+      countByUserId: vi.fn().mockResolvedValue(0),
+      hasFingerprint: vi.fn().mockResolvedValue(false),
+      extend: vi.fn().mockResolvedValue(session()),
+      touch: vi.fn(),
+      setTwoFactorVerified: vi.fn(),
+      revoke: vi.fn().mockResolvedValue(true),
+      revokeAllForUser: vi.fn().mockResolvedValue(2),
+      addRefreshToken: vi.fn(),
+      consumeRefreshToken: vi.fn(),
+    };
+    userRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: USER,
+        email: 'ana@example.com',
+        username: 'ana',
+        profile: { displayName: 'Ana' },
+      }),
+    };
+    emailService = {
+      sendNewDeviceLoginEmail: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new SessionService(repository, userRepository, emailService);
+  });
+
+  describe('describeDevice', () => {
+    it('names the browser and platform', () => {
+      expect(describeDevice(CHROME_MAC)).toBe('Chrome on macOS');
+      expect(
+        describeDevice(
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+        )
+      ).toBe('Edge on Windows');
+      expect(describeDevice(undefined)).toBe('Unknown device');
+    });
+  });
+
+  describe('startSession', () => {
+    it('records the device and stores only a hash of the refresh token', async () => {
+      const { session: started, refreshToken } = await service.startSession(
+        USER,
+        'email',
+        { ipAddress: '203.0.113.7', userAgent: CHROME_MAC }
+      );
+
+      expect(started.id).toBe('session-new');
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: USER,
+          loginMethod: 'email',
+          deviceName: 'Chrome on macOS',
+          deviceFingerprint: hash(CHROME_MAC),
+          ipAddress: '203.0.113.7',
+        })
+      );
+      expect(repository.addRefreshToken).toHaveBeenCalledWith(
+        'session-new',
+        hash(refreshToken),
+        started.expiresAt
+      );
+    });
+
+    it('does not alert on the first ever login', async () => {
+      await service.startSession(USER, 'wallet', { userAgent: CHROME_MAC });
+
+      expect(emailService.sendNewDeviceLoginEmail).not.toHaveBeenCalled();
+    });
+
+    it('alerts when a known user signs in from a new device', async () => {
+      repository.countByUserId.mockResolvedValue(3);
+
+      await service.startSession(USER, 'email', {
+        ipAddress: '198.51.100.2',
+        userAgent: CHROME_MAC,
+      });
+      // The alert is sent without holding up the login
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(emailService.sendNewDeviceLoginEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userEmail: 'ana@example.com',
+          userName: 'Ana',
+          deviceName: 'Chrome on macOS',
+          ipAddress: '198.51.100.2',
+          loginMethod: 'email',
+        })
+      );
+    });
+
+    it('does not alert for a device already used', async () => {
+      repository.countByUserId.mockResolvedValue(3);
+      repository.hasFingerprint.mockResolvedValue(true);
+
+      await service.startSession(USER, 'email', { userAgent: CHROME_MAC });
+
+      expect(emailService.sendNewDeviceLoginEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('issues the next refresh token and extends the session', async () => {
+      repository.consumeRefreshToken.mockResolvedValue({
+        status: 'consumed',
+        sessionId: 'session-1',
+      });
+
+      const result = await service.rotateRefreshToken('old-token', {
+        ipAddress: '198.51.100.2',
+      });
+
+      expect(repository.consumeRefreshToken).toHaveBeenCalledWith(
+        hash('old-token')
+      );
+      expect(repository.extend).toHaveBeenCalledWith(
+        'session-1',
+        expect.any(Date),
+        '198.51.100.2'
+      );
+      expect(result.refreshToken).not.toBe('old-token');
+      expect(repository.addRefreshToken).toHaveBeenCalledWith(
+        'session-1',
+        hash(result.refreshToken),
+        expect.any(Date)
+      );
+    });
+
+    it('revokes the session when a used refresh token is presented again', async () => {
+      repository.consumeRefreshToken.mockResolvedValue({
+        status: 'reused',
+        sessionId: 'session-1',
+      });
+
+      await expect(
+        service.rotateRefreshToken('old-token')
+      ).rejects.toMatchObject({
+        code: SessionErrorCodes.REFRESH_TOKEN_REUSED,
+      });
+      expect(repository.revoke).toHaveBeenCalledWith(
+        'session-1',
+        'refresh_token_reuse'
+      );
+      expect(repository.addRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown or expired refresh tokens', async () => {
+      repository.consumeRefreshToken.mockResolvedValue({ status: 'invalid' });
+
+      await expect(service.rotateRefreshToken('nope')).rejects.toMatchObject({
+        code: SessionErrorCodes.INVALID_REFRESH_TOKEN,
+      });
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('rejects refresh tokens of a revoked session', async () => {
+      repository.consumeRefreshToken.mockResolvedValue({
+        status: 'consumed',
+        sessionId: 'session-1',
+      });
+      repository.extend.mockResolvedValue(null);
+
+      await expect(
+        service.rotateRefreshToken('old-token')
+      ).rejects.toMatchObject({
+        code: SessionErrorCodes.INVALID_REFRESH_TOKEN,
+      });
+    });
+  });
+
+  describe('listSessions', () => {
+    it('marks the requesting session as current', async () => {
+      repository.findActiveByUserId.mockResolvedValue([
+        session({ id: 'session-1' }),
+        session({ id: 'session-2', deviceName: 'Safari on iOS' }),
+      ]);
+
+      const sessions = await service.listSessions(USER, 'session-2');
+
+      expect(sessions.map(s => [s.id, s.current])).toEqual([
+        ['session-1', false],
+        ['session-2', true],
+      ]);
+      expect(sessions[0]).not.toHaveProperty('deviceFingerprint');
+    });
+  });
+
+  describe('revoking', () => {
+    it('only revokes sessions of the requesting user', async () => {
+      await service.revokeSession('session-1', USER);
+
+      expect(repository.revoke).toHaveBeenCalledWith(
+        'session-1',
+        'signed_out',
+        USER
+      );
+    });
+
+    it('reports sessions that do not exist or are already revoked', async () => {
+      repository.revoke.mockResolvedValue(false);
+
+      await expect(
+        service.revokeSession('session-9', USER)
+      ).rejects.toMatchObject({ code: SessionErrorCodes.SESSION_NOT_FOUND });
+    });
+
+    it('keeps the current session when signing out everywhere else', async () => {
+      const count = await service.revokeOtherSessions(USER, 'session-1');
+
+      expect(count).toBe(2);
+      expect(repository.revokeAllForUser).toHaveBeenCalledWith(
+        USER,
+        'signed_out_elsewhere',
+        'session-1'
+      );
+    });
+  });
+
+  describe('isActive', () => {
+    it('rejects revoked and expired sessions', async () => {
+      repository.findById.mockResolvedValueOnce(
+        session({ revokedAt: new Date() })
+      );
+      expect(await service.isActive('session-1')).toBe(false);
+
+      repository.findById.mockResolvedValueOnce(
+        session({ expiresAt: new Date(Date.now() - 1000) })
+      );
+      expect(await service.isActive('session-1')).toBe(false);
+
+      repository.findById.mockResolvedValueOnce(null);
+      expect(await service.isActive('session-1')).toBe(false);
+    });
+
+    it('records activity at most once a minute', async () => {
+      expect(await service.isActive('session-1')).toBe(true);
+      expect(repository.touch).not.toHaveBeenCalled();
+
+      repository.findById.mockResolvedValueOnce(
+        session({ lastActiveAt: new Date(Date.now() - 5 * 60 * 1000) })
+      );
+      expect(await service.isActive('session-1')).toBe(true);
+      expect(repository.touch).toHaveBeenCalledWith('session-1');
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { TwoFactorErrorCodes } from '@booking-swap/shared';
+import { TwoFactorService } from '../TwoFactorService';
+import { generateTotp, totpStep } from '../totp';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const USER = 'user-1';
+
+const hash = (code: string) =>
+  crypto.createHash('sha256').update(code).digest('hex');
+
+describe('TwoFactorService', () => {
+  let repository: any;
+  let userRepository: any;
+  let service: TwoFactorService;
+  let stored: any;
+
+  // Run setup and return the plain secret, leaving the pending record stored
+  const startSetup = async () => {
+    const setup = await service.beginSetup(USER);
+    stored = {
+      userId: USER,
+      secretEncrypted: repository.savePendingSecret.mock.calls[0][1],
+    };
+    return setup.secret;
+  };
+
+  // Run setup and enable, leaving an enabled record stored
+  const enrol = async () => {
+    const secret = await startSetup();
+    await service.enable(USER, generateTotp(secret));
+    stored = { ...stored, enabledAt: new Date() };
+    return secret;
+  };
+
+  beforeEach(() => {
+    // Pin the clock so codes cannot straddle a time step boundary
+    vi.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    stored = null;
+    repository = {
+      findByUserId: vi.fn().mockImplementation(async () => stored),
+      savePendingSecret: vi.fn(),
+      enable: vi.fn().mockImplementation(async () => stored),
+      markStepUsed: vi.fn().mockResolvedValue(true),
+      delete: vi.fn(),
+      replaceRecoveryCodes: vi.fn(),
+      consumeRecoveryCode: vi.fn().mockResolvedValue(false),
+      countUnusedRecoveryCodes: vi.fn().mockResolvedValue(10),
+    };
+    userRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: USER,
+        email: 'ana@example.com',
+        walletAddress: '0.0.555',
+      }),
+    };
+
+    service = new TwoFactorService(repository, userRepository, {
+      encryptionKey: 'test-key',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('enrolment', () => {
+    it('stores the secret encrypted and returns a QR code for it', async () => {
+      const setup = await service.beginSetup(USER);
+
+      expect(setup.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`);
+      expect(setup.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+
+      const [userId, encrypted] = repository.savePendingSecret.mock.calls[0];
+      expect(userId).toBe(USER);
+      expect(encrypted).not.toContain(setup.secret);
+    });
+
+    it('enables 2FA with a valid code and issues recovery codes', async () => {
+      const secret = await startSetup();
+
+      const codes = await service.enable(USER, generateTotp(secret));
+
+      expect(repository.enable).toHaveBeenCalledWith(USER, totpStep());
+      expect(codes).toHaveLength(10);
+      codes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/));
+      expect(repository.replaceRecoveryCodes).toHaveBeenCalledWith(
+        USER,
+        codes.map(code => hash(code.replace('-', '')))
+      );
+    });
+
+    it('refuses a wrong code', async () => {
+      await startSetup();
+
+      await expect(service.enable(USER, '000000')).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.INVALID_TWO_FACTOR_CODE,
+      });
+      expect(repository.enable).not.toHaveBeenCalled();
+    });
+
+    it('requires setup before enabling', async () => {
+      await expect(service.enable(USER, '123456')).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.TWO_FACTOR_SETUP_NOT_STARTED,
+      });
+    });
+
+    it('refuses to start setup again once enabled', async () => {
+      await enrol();
+
+      await expect(service.beginSetup(USER)).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.TWO_FACTOR_ALREADY_ENABLED,
+      });
+    });
+  });
+
+  describe('verify', () => {
+    it('accepts a current code once', async () => {
+      const secret = await enrol();
+
+      await expect(service.verify(USER, generateTotp(secret))).resolves.toBe(
+        'totp'
+      );
+      expect(repository.markStepUsed).toHaveBeenCalledWith(USER, totpStep());
+
+      repository.markStepUsed.mockResolvedValue(false);
+      await expect(
+        service.verify(USER, generateTotp(secret))
+      ).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.INVALID_TWO_FACTOR_CODE,
+      });
+    });
+
+    it('accepts a recovery code regardless of case and dashes', async () => {
+      await enrol();
+      repository.consumeRecoveryCode.mockResolvedValue(true);
+
+      await expect(service.verify(USER, ' abcde-fghij ')).resolves.toBe(
+        'recovery_code'
+      );
+      expect(repository.consumeRecoveryCode).toHaveBeenCalledWith(
+        USER,
+        hash('ABCDEFGHIJ')
+      );
+    });
+
+    it('rejects unknown recovery codes', async () => {
+      await enrol();
+
+      await expect(service.verify(USER, 'ABCDE-FGHIJ')).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.INVALID_TWO_FACTOR_CODE,
+      });
+    });
+
+    it('fails when 2FA is not enabled', async () => {
+      await expect(service.verify(USER, '123456')).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.TWO_FACTOR_NOT_ENABLED,
+      });
+    });
+  });
+
+  describe('disable', () => {
+    it('removes 2FA after checking a code', async () => {
+      const secret = await enrol();
+
+      await service.disable(USER, generateTotp(secret));
+
+      expect(repository.delete).toHaveBeenCalledWith(USER);
+    });
+
+    it('keeps 2FA on for admin accounts', async () => {
+      const secret = await enrol();
+      userRepository.findById.mockResolvedValue({
+        id: USER,
+        walletAddress: '0.0.123456',
+      });
+
+      await expect(
+        service.disable(USER, generateTotp(secret))
+      ).rejects.toMatchObject({
+        code: TwoFactorErrorCodes.TWO_FACTOR_REQUIRED_FOR_ROLE,
+      });
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  it('reports status with remaining recovery codes', async () => {
+    await enrol();
+    repository.countUnusedRecoveryCodes.mockResolvedValue(7);
+
+    await expect(service.getStatus(USER)).resolves.toMatchObject({
+      enabled: true,
+      recoveryCodesRemaining: 7,
+      requiredForRole: false,
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  verifyTotp,
+} from '../totp';
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    const bytes = Buffer.from('12345678901234567890');
+
+    expect(base32Encode(bytes)).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+    expect(base32Decode('gezd gnbv-gy3t')).toEqual(
+      base32Decode('GEZDGNBVGY3T')
+    );
+  });
+
+  // RFC 6238 appendix B, truncated to six digits
+  it.each([
+    { seconds: 59, code: '287082' },
+    { seconds: 1111111109, code: '081804' },
+    { seconds: 1234567890, code: '005924' },
+    { seconds: 2000000000, code: '279037' },
+  ])('matches the RFC test vector at $seconds', ({ seconds, code }) => {
+    expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('accepts codes from adjacent steps and returns the matching step', () => {
+    const now = 1234567890 * 1000;
+    const step = totpStep(now);
+    const previous = generateTotp(RFC_SECRET, step - 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+    expect(
+      verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, now)
+    ).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('generates 160-bit secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it('builds an otpauth URL for authenticator apps', () => {
+    const url = buildOtpauthUrl(RFC_SECRET, 'ana@example.com', 'Booking Swap');
+
+    expect(url).toMatch(
+      /^otpauth:\/\/totp\/Booking%20Swap%3Aana%40example\.com\?/
+    );
+    expect(url).toContain(`secret=${RFC_SECRET}`);
+    expect(url).toContain('issuer=Booking+Swap');
+  });
+});
@@ -1,5 +1,11 @@
 export { AuthService } from './AuthService';
-export type { AuthTokenPayload, WalletSignatureData, LoginResult } from './AuthService';
+export type { AuthTokenPayload, WalletSignatureData, LoginResult, TokenOptions, SessionLoginResult } from './AuthService';
 export { PasswordResetCleanupService } from './PasswordResetCleanupService';
 export type { CleanupConfig, CleanupStatistics } from './PasswordResetCleanupService';
-export { getCleanupConfig, validateCleanupConfig, DEFAULT_CLEANUP_CONFIG } from './cleanup-config';
\ No newline at end of file
+export { getCleanupConfig, validateCleanupConfig, DEFAULT_CLEANUP_CONFIG } from './cleanup-config';
+export { ApiKeyService, API_KEY_PREFIX } from './ApiKeyService';
+export type { ApiKeyServiceOptions, ApiKeyRateLimitStatus } from './ApiKeyService';
+export { TwoFactorService } from './TwoFactorService';
+export type { TwoFactorServiceOptions, SecondFactorMethod } from './TwoFactorService';
+export { SessionService, describeDevice } from './SessionService';
+export type { SessionServiceOptions, SessionContext, StartedSession } from './SessionService';
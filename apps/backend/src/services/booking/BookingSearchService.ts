@@ -1,5 +1,10 @@
 import { Booking, BookingType } from '@booking-swap/shared';
-import { BookingRepository, BookingSearchCriteria } from '../../database/repositories/BookingRepository';
+import {
+  BookingDateRangeCriteria,
+  BookingRepository,
+  BookingSearchCriteria,
+  buildDateRangeConditions,
+} from '../../database/repositories/BookingRepository';
 import { RedisService } from '../../database/cache/RedisService';
 import { CacheManager } from '../../database/cache/CacheManager';
 import { QueryOptimizer } from '../../database/optimizations/QueryOptimizer';
@@ -13,11 +18,7 @@ export interface SearchFilters {
     radius?: number; // in km
     coordinates?: [number, number];
   };
-  dateRange?: {
-    checkIn?: Date;
-    checkOut?: Date;
-    flexible?: boolean;
-  };
+  dateRange?: BookingDateRangeCriteria;
   priceRange?: {
     min?: number;
     max?: number;
@@ -486,25 +487,10 @@ export class BookingSearchService {
         paramIndex += 3;
       }
 
-      if (criteria.dateRange?.checkIn) {
-        if (criteria.dateRange.flexible) {
-          conditions.push(`check_out_date >= $${paramIndex}`);
-        } else {
-          conditions.push(`check_in_date >= $${paramIndex}`);
-        }
-        params.push(criteria.dateRange.checkIn);
-        paramIndex++;
-      }
-
-      if (criteria.dateRange?.checkOut) {
-        if (criteria.dateRange.flexible) {
-          conditions.push(`check_in_date <= $${paramIndex}`);
-        } else {
-          conditions.push(`check_out_date <= $${paramIndex}`);
-        }
-        params.push(criteria.dateRange.checkOut);
-        paramIndex++;
-      }
+      const dateFilters = buildDateRangeConditions(criteria.dateRange, paramIndex);
+      conditions.push(...dateFilters.conditions);
+      params.push(...dateFilters.values);
+      paramIndex += dateFilters.values.length;
 
       if (criteria.priceRange?.min !== undefined) {
         conditions.push(`swap_value >= $${paramIndex}`);
@@ -1,7 +1,20 @@
-import { Booking, BookingType, BookingStatus, VerificationStatus } from '@booking-swap/shared';
-import { BookingRepository, BookingFilters, BookingSearchCriteria } from '../../database/repositories/BookingRepository';
+import {
+  Booking,
+  BookingMapResponse,
+  BookingType,
+  BookingStatus,
+  MapBounds,
+  VerificationStatus,
+} from '@booking-swap/shared';
+import {
+  BookingRepository,
+  BookingFilters,
+  BookingSearchCriteria,
+  MapClusterOptions,
+} from '../../database/repositories/BookingRepository';
 import { HederaService, TransactionData } from '../hedera/HederaService';
 import { BookingValidationService } from './BookingValidationService';
+import { Geocoder } from '../geocoding/Geocoder';
 import { logger } from '../../utils/logger';
 
 export interface CreateBookingRequest {
@@ -35,11 +48,18 @@ export interface BookingListingResult {
   };
 }
 
+/**
+ * Size in degrees of the grid cells map clusters are built from. A cell is
+ * about 64 pixels wide on a 256-pixel tile map at the given zoom.
+ */
+export const getClusterCellSize = (zoom: number): number => (360 / 256 / Math.pow(2, zoom)) * 64;
+
 export class BookingService {
   constructor(
     private bookingRepository: BookingRepository,
     private hederaService: HederaService,
-    private validationService: BookingValidationService
+    private validationService: BookingValidationService,
+    private geocoder?: Geocoder
   ) {
     // Ensure all methods are properly bound to this instance
     this.bindMethods();
@@ -77,19 +97,19 @@ export class BookingService {
         throw new Error(`Booking validation failed: ${validationResult.errors.join(', ')}`);
       }
 
-      // Step 2: Create booking entity with verified status
+      // Step 2: Create booking entity, pending until the owner verifies it
       const bookingData: Omit<Booking, 'id' | 'createdAt' | 'updatedAt'> = {
         userId: request.userId,
         type: request.type,
         title: request.title,
         description: request.description,
-        location: request.location,
+        location: await this.locate(request.location),
         dateRange: request.dateRange,
         originalPrice: request.originalPrice,
         swapValue: request.swapValue,
         providerDetails: request.providerDetails,
         verification: {
-          status: 'verified',
+          status: 'pending',
           documents: validationResult.documents || [],
         },
         blockchain: {
@@ -244,6 +264,19 @@ export class BookingService {
         throw new Error('Swap value must be greater than 0');
       }
 
+      if (updateData.location) {
+        // Edit forms send the old coordinates back; drop them when the city changed
+        const previous = existingBooking.location;
+        const moved =
+          updateData.location.city !== previous.city || updateData.location.country !== previous.country;
+        const staleCoordinates =
+          moved && updateData.location.coordinates?.join() === previous.coordinates?.join();
+        const location = staleCoordinates
+          ? { ...updateData.location, coordinates: undefined }
+          : updateData.location;
+        updateData = { ...updateData, location: await this.locate(location) };
+      }
+
       // Step 3: Update booking
       const updatedBooking = await this.bookingRepository.updateBooking(bookingId, updateData);
       if (!updatedBooking) {
@@ -432,6 +465,82 @@ export class BookingService {
     }
   }
 
+  /**
+   * Clusters available bookings inside the bounds for a map at the given zoom
+   */
+  async getMapClusters(
+    bounds: MapBounds,
+    zoom: number,
+    criteria: BookingSearchCriteria = {},
+    options: MapClusterOptions = {}
+  ): Promise<BookingMapResponse> {
+    try {
+      const { clusters, truncated } = await this.bookingRepository.findMapClusters(
+        bounds,
+        getClusterCellSize(zoom),
+        criteria,
+        options
+      );
+
+      return {
+        clusters,
+        total: clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+        zoom,
+        truncated,
+      };
+    } catch (error) {
+      logger.error('Failed to get map clusters', { error, bounds, zoom });
+      throw error;
+    }
+  }
+
+  /**
+   * Geocodes bookings saved without coordinates, such as those listed before
+   * geocoding was added. Bookings that cannot be placed are marked as tried,
+   * which moves them behind the rest for the next run. Returns how many were
+   * placed on the map.
+   */
+  async geocodeMissingCoordinates(limit: number = 100): Promise<{ checked: number; located: number }> {
+    const bookings = await this.bookingRepository.findWithoutCoordinates(limit);
+    let located = 0;
+
+    for (const booking of bookings) {
+      const { coordinates } = await this.locate(booking.location);
+      if (coordinates) {
+        await this.bookingRepository.updateCoordinates(booking.id, coordinates);
+        located++;
+      } else {
+        await this.bookingRepository.recordGeocodeAttempt(booking.id);
+      }
+    }
+
+    return { checked: bookings.length, located };
+  }
+
+  /**
+   * Fills in coordinates from the city and country when the client sent
+   * none. Geocoding is best effort; a booking it cannot place is saved
+   * without coordinates.
+   */
+  private async locate<T extends Booking['location']>(location: T): Promise<T> {
+    if (location.coordinates || !this.geocoder || !location.city || !location.country) {
+      return location;
+    }
+
+    try {
+      const result = await this.geocoder.geocode({ city: location.city, country: location.country });
+      return result ? { ...location, coordinates: result.coordinates } : location;
+    } catch (error) {
+      logger.warn('Geocoding failed, saving booking without coordinates', {
+        geocoder: this.geocoder.name,
+        city: location.city,
+        country: location.country,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return location;
+    }
+  }
+
   /**
    * Get bookings with filters
    */
@@ -445,7 +554,9 @@ export class BookingService {
   }
 
   /**
-   * Verify booking with external provider
+   * Re-check the booking's listed details. Invalid bookings are marked
+   * failed; valid ones keep their status, since only the verification
+   * pipeline (BookingVerificationService) can mark a booking verified.
    */
   async verifyBooking(bookingId: string): Promise<Booking> {
     try {
@@ -468,13 +579,16 @@ export class BookingService {
         providerDetails: booking.providerDetails,
       });
 
-      const verificationStatus: VerificationStatus = validationResult.isValid ? 'verified' : 'failed';
-      const verifiedAt = validationResult.isValid ? new Date() : undefined;
+      if (validationResult.isValid) {
+        logger.info('Booking details are valid', { bookingId, status: booking.verification.status });
+        return booking;
+      }
 
+      const verificationStatus: VerificationStatus = 'failed';
       const updatedBooking = await this.bookingRepository.updateVerificationStatus(
         bookingId,
         verificationStatus,
-        verifiedAt
+        undefined
       );
 
       if (!updatedBooking) {
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { BookingService, CreateBookingRequest } from '../BookingService';
+import { BookingService, CreateBookingRequest, getClusterCellSize } from '../BookingService';
 import { BookingRepository } from '../../../database/repositories/BookingRepository';
 import { HederaService } from '../../hedera/HederaService';
 import { BookingValidationService } from '../BookingValidationService';
@@ -15,6 +15,7 @@ vi.mock('../../../utils/logger', () => ({
     info: vi.fn(),
     error: vi.fn(),
     warn: vi.fn(),
+    debug: vi.fn(),
   },
 }));
 
@@ -145,7 +146,11 @@ describe('BookingService', () => {
       expect(result.booking).toEqual(updatedBooking);
       expect(result.blockchainTransaction.transactionId).toBe('tx123');
       expect(mockValidationService.validateBooking).toHaveBeenCalledWith(mockCreateRequest);
-      expect(mockBookingRepository.create).toHaveBeenCalled();
+      expect(mockBookingRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          verification: expect.objectContaining({ status: 'pending' }),
+        })
+      );
       expect(mockHederaService.submitTransaction).toHaveBeenCalledWith(
         expect.objectContaining({
           type: 'booking_listing',
@@ -329,8 +334,123 @@ describe('BookingService', () => {
     });
   });
 
+  describe('geocoding', () => {
+    let mockGeocoder: any;
+
+    beforeEach(() => {
+      mockGeocoder = {
+        name: 'test',
+        geocode: vi.fn(),
+      };
+      bookingService = new BookingService(
+        mockBookingRepository,
+        mockHederaService,
+        mockValidationService,
+        mockGeocoder
+      );
+
+      mockValidationService.validateBooking.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      mockBookingRepository.create.mockResolvedValue(mockBooking);
+      mockHederaService.submitTransaction.mockResolvedValue({ transactionId: 'tx123', consensusTimestamp: '1234567890' });
+      mockBookingRepository.updateBlockchainInfo.mockResolvedValue(mockBooking);
+    });
+
+    it('should geocode a new booking sent without coordinates', async () => {
+      mockGeocoder.geocode.mockResolvedValueOnce({
+        coordinates: [40.7128, -74.006],
+        city: 'New York',
+        country: 'United States',
+        source: 'gazetteer',
+      });
+
+      await bookingService.createBookingListing({
+        ...mockCreateRequest,
+        location: { city: 'New York', country: 'USA' },
+      });
+
+      expect(mockGeocoder.geocode).toHaveBeenCalledWith({ city: 'New York', country: 'USA' });
+      expect(mockBookingRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          location: { city: 'New York', country: 'USA', coordinates: [40.7128, -74.006] },
+        })
+      );
+    });
+
+    it('should keep coordinates sent by the client', async () => {
+      await bookingService.createBookingListing(mockCreateRequest);
+
+      expect(mockGeocoder.geocode).not.toHaveBeenCalled();
+    });
+
+    it('should save the booking without coordinates when geocoding fails', async () => {
+      mockGeocoder.geocode.mockRejectedValueOnce(new Error('timeout'));
+
+      await bookingService.createBookingListing({
+        ...mockCreateRequest,
+        location: { city: 'New York', country: 'USA' },
+      });
+
+      expect(mockBookingRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ location: { city: 'New York', country: 'USA' } })
+      );
+      expect(logger.warn).toHaveBeenCalled();
+    });
+
+    it('should geocode stored bookings that have no coordinates', async () => {
+      mockBookingRepository.findWithoutCoordinates = vi.fn().mockResolvedValueOnce([
+        { ...mockBooking, id: 'known', location: { city: 'Paris', country: 'France' } },
+        { ...mockBooking, id: 'unknown', location: { city: 'Atlantis', country: 'Greece' } },
+      ]);
+      mockBookingRepository.updateCoordinates = vi.fn();
+      mockBookingRepository.recordGeocodeAttempt = vi.fn();
+      mockGeocoder.geocode
+        .mockResolvedValueOnce({ coordinates: [48.8566, 2.3522], city: 'Paris', country: 'France', source: 'gazetteer' })
+        .mockResolvedValueOnce(null);
+
+      const result = await bookingService.geocodeMissingCoordinates(50);
+
+      expect(result).toEqual({ checked: 2, located: 1 });
+      expect(mockBookingRepository.findWithoutCoordinates).toHaveBeenCalledWith(50);
+      expect(mockBookingRepository.updateCoordinates).toHaveBeenCalledTimes(1);
+      expect(mockBookingRepository.updateCoordinates).toHaveBeenCalledWith('known', [48.8566, 2.3522]);
+      // Tried again only after bookings that were never tried
+      expect(mockBookingRepository.recordGeocodeAttempt).toHaveBeenCalledTimes(1);
+      expect(mockBookingRepository.recordGeocodeAttempt).toHaveBeenCalledWith('unknown');
+    });
+  });
+
+  describe('getMapClusters', () => {
+    it('should size cells by zoom and total the clustered bookings', async () => {
+      const bounds = { north: 60, south: 35, east: 30, west: -10 };
+      const criteria = { types: ['hotel' as const] };
+      mockBookingRepository.findMapClusters = vi.fn().mockResolvedValueOnce({
+        clusters: [
+          { id: 'a', coordinates: [48.8, 2.3], count: 3 },
+          { id: 'b', coordinates: [51.5, -0.1], count: 1 },
+        ],
+        truncated: false,
+      });
+
+      const options = { excludeUserId: 'user123', swapAvailable: true };
+      const result = await bookingService.getMapClusters(bounds, 4, criteria, options);
+
+      expect(mockBookingRepository.findMapClusters).toHaveBeenCalledWith(
+        bounds,
+        getClusterCellSize(4),
+        criteria,
+        options
+      );
+      expect(result).toMatchObject({ total: 4, zoom: 4, truncated: false });
+      expect(result.clusters).toHaveLength(2);
+    });
+
+    it('should halve the cell size with each zoom level', () => {
+      expect(getClusterCellSize(5)).toBeCloseTo(getClusterCellSize(4) / 2);
+    });
+  });
+
   describe('verifyBooking', () => {
-    it('should verify booking successfully', async () => {
+    it('should not mark booking verified when only its details are valid', async () => {
       mockBookingRepository.findById.mockResolvedValueOnce(mockBooking);
       mockValidationService.validateBooking.mockResolvedValueOnce({
         isValid: true,
@@ -338,18 +458,11 @@ describe('BookingService', () => {
         warnings: [],
       });
 
-      const verifiedBooking = { ...mockBooking, verification: { ...mockBooking.verification, status: 'verified' as const } };
-      mockBookingRepository.updateVerificationStatus.mockResolvedValueOnce(verifiedBooking);
-
       const result = await bookingService.verifyBooking('booking123');
 
-      expect(result.verification.status).toBe('verified');
+      expect(result).toEqual(mockBooking);
       expect(mockValidationService.validateBooking).toHaveBeenCalled();
-      expect(mockBookingRepository.updateVerificationStatus).toHaveBeenCalledWith(
-        'booking123',
-        'verified',
-        expect.any(Date)
-      );
+      expect(mockBookingRepository.updateVerificationStatus).not.toHaveBeenCalled();
     });
 
     it('should mark booking as failed when validation fails', async () => {
@@ -4,6 +4,7 @@ import { BookingValidationService } from './BookingValidationService';
 import { BookingRepository } from '../../database/repositories/BookingRepository';
 import { HederaService } from '../hedera/HederaService';
 import { getHederaService } from '../hedera/factory';
+import { createGeocoder } from '../geocoding/factory';
 import { logger } from '../../utils/logger';
 
 export interface BookingServiceDependencies {
@@ -28,7 +29,8 @@ export function createBookingService(dbPool: Pool, hederaService?: HederaService
   const bookingService = new BookingService(
     bookingRepository,
     hedera,
-    validationService
+    validationService,
+    createGeocoder()
   );
 
   // Validate service integrity after creation
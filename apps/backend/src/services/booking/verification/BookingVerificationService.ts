@@ -0,0 +1,704 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BOOKING_DOCUMENT_CONTENT_TYPES,
+  Booking,
+  BookingVerificationAttempt,
+  BookingVerificationAttemptStatus,
+  BookingVerificationDetails,
+  BookingVerificationDocument,
+  BookingVerificationError,
+  BookingVerificationErrorCodes,
+  BookingVerificationFilters,
+  MAX_BOOKING_DOCUMENTS,
+  MAX_BOOKING_DOCUMENT_BYTES,
+  NotificationChannel,
+  ReviewBookingVerificationRequest,
+  VerificationCheck,
+  VerificationCheckName,
+  VerificationCheckOutcome,
+} from '@booking-swap/shared';
+import {
+  BookingVerificationRepository,
+  StoredVerificationDocument,
+} from '../../../database/repositories/BookingVerificationRepository';
+import { BookingRepository } from '../../../database/repositories/BookingRepository';
+import { UserRepository } from '../../../database/repositories/UserRepository';
+import { BookingValidationService } from '../BookingValidationService';
+import { NotificationService } from '../../notification/NotificationService';
+import { FileStore } from '../../storage/FileStore';
+import { DocumentExtractor } from './DocumentExtractor';
+import { ProviderVerifier } from './ProviderVerifier';
+import { logger } from '../../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FILE_NAME_LENGTH = 255;
+const MAX_NOTES_LENGTH = 5000;
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'in_app'];
+
+const OUTCOME_RANK: Record<VerificationCheckOutcome, number> = {
+  fail: 0,
+  inconclusive: 1,
+  pass: 2,
+};
+
+export interface VerificationDocumentUpload {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface BookingVerificationStatus {
+  booking: Booking;
+  latestAttempt: BookingVerificationAttempt | null;
+  documents: BookingVerificationDocument[];
+}
+
+const normalizeReference = (value: string) =>
+  value.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+const normalizeText = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+const isoDay = (date: Date | string) =>
+  new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Verifies that a listed booking is real before it can be auctioned or
+ * sold for cash. Owners upload their provider confirmation; extractors read
+ * the confirmation number, dates and guest names from it and these are
+ * cross-checked against the listing, alongside the provider's own API where
+ * a verifier supports the provider. Clear passes and failures are decided
+ * automatically and everything else waits in the admin review queue.
+ */
+export class BookingVerificationService {
+  constructor(
+    private verificationRepository: BookingVerificationRepository,
+    private bookingRepository: BookingRepository,
+    private userRepository: UserRepository,
+    private validationService: BookingValidationService,
+    private extractors: DocumentExtractor[],
+    private providerVerifiers: ProviderVerifier[],
+    private fileStore: FileStore,
+    private notificationService: NotificationService
+  ) {}
+
+  async uploadDocument(
+    bookingId: string,
+    userId: string,
+    upload: VerificationDocumentUpload
+  ): Promise<BookingVerificationDocument> {
+    const booking = await this.getOwnedBooking(bookingId, userId);
+    if (booking.verification.status === 'verified') {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.ALREADY_VERIFIED,
+        'Booking is already verified'
+      );
+    }
+    this.validateUpload(upload);
+
+    const existing = await this.verificationRepository.findDocuments(
+      booking.id
+    );
+    if (existing.length >= MAX_BOOKING_DOCUMENTS) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.TOO_MANY_DOCUMENTS,
+        `A booking can have at most ${MAX_BOOKING_DOCUMENTS} verification documents`
+      );
+    }
+
+    const extractor = this.extractors.find(candidate =>
+      candidate.supports(upload.contentType)
+    );
+    let extracted;
+    if (extractor) {
+      try {
+        extracted = await extractor.extract(upload.data, upload.contentType);
+      } catch (error) {
+        // The document is still kept for reviewers to read
+        logger.error('Failed to extract booking document', {
+          bookingId: booking.id,
+          extractor: extractor.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const extension = path.extname(upload.fileName).toLowerCase();
+    const storageKey = `booking-verifications/${booking.id}/${uuidv4()}${extension}`;
+    await this.fileStore.put(storageKey, upload.data);
+
+    try {
+      const document = await this.verificationRepository.addDocument({
+        bookingId: booking.id,
+        uploadedBy: userId,
+        fileName: upload.fileName,
+        contentType: upload.contentType,
+        sizeBytes: upload.data.length,
+        storageKey,
+        extractor: extracted ? extractor!.name : undefined,
+        extracted,
+      });
+      return this.toPublicDocument(document, false);
+    } catch (error) {
+      // Do not leave orphaned files behind
+      await this.fileStore.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Run every check on the booking and record the outcome. The booking's
+   * verification status follows the attempt: verified, failed, or pending
+   * while an admin reviews it.
+   */
+  async verifyBooking(
+    bookingId: string,
+    userId: string
+  ): Promise<BookingVerificationAttempt> {
+    const booking = await this.getOwnedBooking(bookingId, userId);
+    if (booking.verification.status === 'verified') {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.ALREADY_VERIFIED,
+        'Booking is already verified'
+      );
+    }
+    const latest = await this.verificationRepository.findLatestForBooking(
+      booking.id
+    );
+    if (latest?.status === 'needs_review') {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.REVIEW_PENDING,
+        'A verification attempt for this booking is already waiting for review'
+      );
+    }
+
+    const checks: VerificationCheck[] = [await this.checkFields(booking)];
+
+    const providerVerifier = this.providerVerifiers.find(verifier =>
+      verifier.supports(booking.providerDetails.provider)
+    );
+    if (providerVerifier) {
+      checks.push(await this.checkProvider(booking, providerVerifier));
+    }
+
+    const documents = await this.verificationRepository.findDocuments(
+      booking.id
+    );
+    const owner = await this.userRepository.findById(booking.userId);
+    checks.push(
+      ...this.checkDocuments(booking, documents, owner?.profile?.displayName)
+    );
+
+    // Without documents or an answer from the provider there is nothing to
+    // decide on, unless the listing itself is invalid
+    const provider = checks.find(check => check.name === 'provider');
+    if (
+      checks[0]!.outcome === 'pass' &&
+      documents.length === 0 &&
+      (!provider || provider.outcome === 'inconclusive')
+    ) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.DOCUMENT_REQUIRED,
+        'Upload your booking confirmation before requesting verification'
+      );
+    }
+
+    const { status, reviewReason } = this.decide(checks);
+    const attempt = await this.verificationRepository.recordAttempt({
+      bookingId: booking.id,
+      userId,
+      status,
+      checks,
+      providerVerifier: providerVerifier?.name,
+      reviewReason,
+    });
+
+    logger.info('Booking verification attempt recorded', {
+      bookingId: booking.id,
+      attemptId: attempt.id,
+      status,
+    });
+    await this.notifyOutcome(booking, attempt);
+    return attempt;
+  }
+
+  async getVerificationStatus(
+    bookingId: string,
+    userId: string
+  ): Promise<BookingVerificationStatus> {
+    const booking = await this.getOwnedBooking(bookingId, userId);
+    const [latestAttempt, documents] = await Promise.all([
+      this.verificationRepository.findLatestForBooking(booking.id),
+      this.verificationRepository.findDocuments(booking.id),
+    ]);
+
+    return {
+      booking,
+      latestAttempt,
+      documents: documents.map(document =>
+        this.toPublicDocument(document, false)
+      ),
+    };
+  }
+
+  /**
+   * A stored document. Admins can read any booking's documents.
+   */
+  async getDocumentFile(
+    bookingId: string,
+    documentId: string,
+    viewer: { userId: string; isAdmin?: boolean }
+  ): Promise<{ document: BookingVerificationDocument; data: Buffer }> {
+    if (!viewer.isAdmin) {
+      await this.getOwnedBooking(bookingId, viewer.userId);
+    }
+
+    const document = await this.verificationRepository.findDocumentById(
+      bookingId,
+      documentId
+    );
+    const data = document
+      ? await this.fileStore.get(document.storageKey)
+      : null;
+    if (!document || !data) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.DOCUMENT_NOT_FOUND,
+        'Verification document not found'
+      );
+    }
+
+    return {
+      document: this.toPublicDocument(document, !!viewer.isAdmin),
+      data,
+    };
+  }
+
+  async listAttempts(
+    filters: BookingVerificationFilters,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ attempts: BookingVerificationAttempt[]; total: number }> {
+    return this.verificationRepository.findByFilters(filters, limit, offset);
+  }
+
+  /**
+   * An attempt with the booking's documents, including extracted text, for
+   * the admin review queue
+   */
+  async getAttemptDetails(
+    attemptId: string
+  ): Promise<BookingVerificationDetails> {
+    const attempt = await this.getAttempt(attemptId);
+    const documents = await this.verificationRepository.findDocuments(
+      attempt.bookingId
+    );
+
+    return {
+      attempt,
+      documents: documents.map(document =>
+        this.toPublicDocument(document, true)
+      ),
+    };
+  }
+
+  async reviewAttempt(
+    attemptId: string,
+    reviewerId: string,
+    request: ReviewBookingVerificationRequest
+  ): Promise<BookingVerificationAttempt> {
+    const notes = request.notes?.trim();
+    if (typeof request.approve !== 'boolean') {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.INVALID_REVIEW,
+        'approve must be true or false'
+      );
+    }
+    if (!notes || notes.length > MAX_NOTES_LENGTH) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.INVALID_REVIEW,
+        `notes are required and at most ${MAX_NOTES_LENGTH} characters`
+      );
+    }
+
+    const attempt = await this.getAttempt(attemptId);
+    const reviewed = await this.verificationRepository.completeReview(
+      attempt.id,
+      {
+        status: request.approve ? 'verified' : 'rejected',
+        reviewedBy: reviewerId,
+        notes,
+      }
+    );
+    if (!reviewed) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.NOT_AWAITING_REVIEW,
+        `Attempt is ${attempt.status}, not waiting for review`
+      );
+    }
+
+    logger.info('Booking verification reviewed', {
+      attemptId: reviewed.id,
+      bookingId: reviewed.bookingId,
+      reviewerId,
+      status: reviewed.status,
+    });
+
+    const booking = await this.bookingRepository.findById(reviewed.bookingId);
+    if (booking) {
+      await this.notifyOutcome(booking, reviewed);
+    }
+    return reviewed;
+  }
+
+  private async checkFields(booking: Booking): Promise<VerificationCheck> {
+    const result = await this.validationService.validateBooking(booking);
+    return result.isValid
+      ? { name: 'fields', outcome: 'pass' }
+      : { name: 'fields', outcome: 'fail', detail: result.errors.join('; ') };
+  }
+
+  private async checkProvider(
+    booking: Booking,
+    verifier: ProviderVerifier
+  ): Promise<VerificationCheck> {
+    const check: VerificationCheck = {
+      name: 'provider',
+      outcome: 'inconclusive',
+      source: verifier.name,
+    };
+
+    try {
+      const result = await verifier.verify(booking);
+      check.detail = result.detail;
+      if (result.outcome === 'confirmed') {
+        check.outcome = 'pass';
+      } else if (
+        result.outcome === 'not_found' ||
+        result.outcome === 'mismatch'
+      ) {
+        check.outcome = 'fail';
+      }
+    } catch (error) {
+      // A provider outage should not reject the booking
+      logger.error('Provider verification failed', {
+        bookingId: booking.id,
+        verifier: verifier.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      check.detail = 'Provider could not be reached';
+    }
+
+    return check;
+  }
+
+  /**
+   * Cross-check each document against the listing and keep, per check, the
+   * best result any document gave. A single clear confirmation is enough
+   * even when other uploads are unrelated pages.
+   */
+  private checkDocuments(
+    booking: Booking,
+    documents: StoredVerificationDocument[],
+    guestName?: string
+  ): VerificationCheck[] {
+    const best = new Map<VerificationCheckName, VerificationCheck>();
+    const keep = (check: VerificationCheck) => {
+      const current = best.get(check.name);
+      if (
+        !current ||
+        OUTCOME_RANK[check.outcome] > OUTCOME_RANK[current.outcome]
+      ) {
+        best.set(check.name, check);
+      }
+    };
+
+    for (const document of documents) {
+      if (!document.extracted) {
+        for (const name of [
+          'confirmation_number',
+          'dates',
+        ] as VerificationCheckName[]) {
+          keep({
+            name,
+            outcome: 'inconclusive',
+            detail: `${document.fileName} could not be read`,
+            source: document.id,
+          });
+        }
+        continue;
+      }
+
+      const { confirmationNumbers, dates, names, text } = document.extracted;
+      const source = document.id;
+
+      const confirmation = normalizeReference(
+        booking.providerDetails.confirmationNumber
+      );
+      if (normalizeReference(text).includes(confirmation)) {
+        keep({ name: 'confirmation_number', outcome: 'pass', source });
+      } else {
+        keep({
+          name: 'confirmation_number',
+          outcome: confirmationNumbers.length > 0 ? 'fail' : 'inconclusive',
+          detail:
+            confirmationNumbers.length > 0
+              ? `Document shows ${confirmationNumbers.join(', ')}`
+              : 'No confirmation number found',
+          source,
+        });
+      }
+
+      keep(this.checkDates(booking, dates, source));
+
+      if (guestName && names.length > 0) {
+        const tokens = normalizeText(guestName).split(' ');
+        const matched = names.some(name => {
+          const nameTokens = normalizeText(name).split(' ');
+          return tokens.some(token => nameTokens.includes(token));
+        });
+        keep({
+          name: 'guest_name',
+          outcome: matched ? 'pass' : 'fail',
+          detail: matched ? undefined : `Document names ${names.join(', ')}`,
+          source,
+        });
+      } else {
+        keep({
+          name: 'guest_name',
+          outcome: 'inconclusive',
+          detail: guestName
+            ? 'No guest name found'
+            : 'Owner has no display name',
+          source,
+        });
+      }
+
+      // Confirmations are often sent by an agent rather than the provider,
+      // so a missing provider name is never a failure
+      const providerName = normalizeText(
+        booking.providerDetails.provider
+      ).replace(/ com$/, '');
+      keep({
+        name: 'provider_name',
+        outcome: normalizeText(text).includes(providerName)
+          ? 'pass'
+          : 'inconclusive',
+        source,
+      });
+    }
+
+    return [...best.values()];
+  }
+
+  /**
+   * Both listed dates must appear in the document. A day either side is
+   * accepted because listings are stored as UTC instants.
+   */
+  private checkDates(
+    booking: Booking,
+    dates: string[],
+    source: string
+  ): VerificationCheck {
+    if (dates.length === 0) {
+      return {
+        name: 'dates',
+        outcome: 'inconclusive',
+        detail: 'No dates found',
+        source,
+      };
+    }
+
+    const found = (date: Date) =>
+      dates.some(
+        candidate =>
+          Math.abs(
+            new Date(candidate).getTime() - new Date(isoDay(date)).getTime()
+          ) <= DAY_MS
+      );
+
+    return found(booking.dateRange.checkIn) && found(booking.dateRange.checkOut)
+      ? { name: 'dates', outcome: 'pass', source }
+      : {
+          name: 'dates',
+          outcome: 'fail',
+          detail: `Document dates are ${dates.join(', ')}`,
+          source,
+        };
+  }
+
+  private decide(checks: VerificationCheck[]): {
+    status: BookingVerificationAttemptStatus;
+    reviewReason?: string;
+  } {
+    const outcome = (name: VerificationCheckName) =>
+      checks.find(check => check.name === name)?.outcome;
+
+    if (outcome('fields') === 'fail') {
+      return { status: 'rejected' };
+    }
+    if (outcome('provider') === 'fail') {
+      return { status: 'rejected' };
+    }
+
+    const failed = checks.filter(check => check.outcome === 'fail');
+    if (outcome('provider') === 'pass' && failed.length === 0) {
+      return { status: 'verified' };
+    }
+    if (
+      outcome('confirmation_number') === 'pass' &&
+      outcome('dates') === 'pass' &&
+      outcome('guest_name') !== 'fail'
+    ) {
+      return { status: 'verified' };
+    }
+
+    return {
+      status: 'needs_review',
+      reviewReason:
+        failed.length > 0
+          ? `Documents disagree with the listing: ${failed.map(check => check.name).join(', ')}`
+          : 'Documents could not confirm the confirmation number and dates',
+    };
+  }
+
+  private async notifyOutcome(
+    booking: Booking,
+    attempt: BookingVerificationAttempt
+  ): Promise<void> {
+    try {
+      if (attempt.status === 'verified') {
+        await this.notificationService.sendNotification(
+          'booking_verified',
+          booking.userId,
+          {
+            bookingId: booking.id,
+            bookingTitle: booking.title,
+            notes: attempt.reviewNotes,
+            bookingUrl: this.bookingUrl(booking),
+          },
+          NOTIFICATION_CHANNELS
+        );
+      } else if (attempt.status === 'rejected') {
+        const failed = attempt.checks.filter(check => check.outcome === 'fail');
+        await this.notificationService.sendNotification(
+          'booking_verification_rejected',
+          booking.userId,
+          {
+            bookingId: booking.id,
+            bookingTitle: booking.title,
+            bookingUrl: this.bookingUrl(booking),
+            reason:
+              attempt.reviewNotes ||
+              failed.map(check => check.detail || check.name).join('; '),
+          },
+          NOTIFICATION_CHANNELS
+        );
+      } else {
+        await this.notificationService.sendNotification(
+          'booking_verification_review',
+          booking.userId,
+          { bookingId: booking.id, bookingTitle: booking.title },
+          ['in_app']
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to send booking verification notification', {
+        bookingId: booking.id,
+        attemptId: attempt.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private bookingUrl(booking: Booking): string {
+    return `${process.env.FRONTEND_URL}/bookings/${booking.id}`;
+  }
+
+  private async getOwnedBooking(
+    bookingId: string,
+    userId: string
+  ): Promise<Booking> {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.BOOKING_NOT_FOUND,
+        'Booking not found'
+      );
+    }
+    if (booking.userId !== userId) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.NOT_BOOKING_OWNER,
+        'Only the booking owner can verify it'
+      );
+    }
+    return booking;
+  }
+
+  private async getAttempt(
+    attemptId: string
+  ): Promise<BookingVerificationAttempt> {
+    const attempt = await this.verificationRepository.findById(attemptId);
+    if (!attempt) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.ATTEMPT_NOT_FOUND,
+        'Verification attempt not found'
+      );
+    }
+    return attempt;
+  }
+
+  private validateUpload(upload: VerificationDocumentUpload): void {
+    const fileName = upload.fileName?.trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.INVALID_DOCUMENT,
+        `fileName is required and at most ${MAX_FILE_NAME_LENGTH} characters`
+      );
+    }
+    if (
+      !(BOOKING_DOCUMENT_CONTENT_TYPES as readonly string[]).includes(
+        upload.contentType
+      )
+    ) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.INVALID_DOCUMENT,
+        `Documents must be one of ${BOOKING_DOCUMENT_CONTENT_TYPES.join(', ')}`
+      );
+    }
+    if (
+      upload.data.length === 0 ||
+      upload.data.length > MAX_BOOKING_DOCUMENT_BYTES
+    ) {
+      throw new BookingVerificationError(
+        BookingVerificationErrorCodes.INVALID_DOCUMENT,
+        `Documents must be between 1 byte and ${MAX_BOOKING_DOCUMENT_BYTES / (1024 * 1024)} MB`
+      );
+    }
+  }
+
+  /**
+   * A document without its storage key. Extracted text is only shown to
+   * reviewers.
+   */
+  private toPublicDocument(
+    document: StoredVerificationDocument,
+    includeText: boolean
+  ): BookingVerificationDocument {
+    return {
+      id: document.id,
+      bookingId: document.bookingId,
+      uploadedBy: document.uploadedBy,
+      fileName: document.fileName,
+      contentType: document.contentType,
+      sizeBytes: document.sizeBytes,
+      extractor: document.extractor,
+      extracted:
+        document.extracted && !includeText
+          ? { ...document.extracted, text: '' }
+          : document.extracted,
+      createdAt: document.createdAt,
+    };
+  }
+}
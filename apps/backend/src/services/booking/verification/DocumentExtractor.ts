@@ -0,0 +1,260 @@
+import { inflateSync } from 'zlib';
+import axios from 'axios';
+import { ExtractedBookingDetails } from '@booking-swap/shared';
+
+/**
+ * Reads booking details out of an uploaded confirmation document.
+ * BookingVerificationService uses the first extractor that supports the
+ * document's content type.
+ */
+export interface DocumentExtractor {
+  readonly name: string;
+  supports(contentType: string): boolean;
+  extract(data: Buffer, contentType: string): Promise<ExtractedBookingDetails>;
+}
+
+// Reviewers read the text, but there is no need to keep whole brochures
+const MAX_TEXT_LENGTH = 20000;
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const CONFIRMATION_PATTERN =
+  /(?:confirmation|booking|reservation|itinerary|order|ticket)\s*(?:number|no\.?|#|code|id|ref(?:erence)?\.?)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,29})\b/gi;
+const PNR_PATTERN = /\b(?:PNR|record locator)\s*[:#]?\s*([A-Z0-9]{5,8})\b/gi;
+const NAME_PATTERN =
+  /(?:lead guest|guest name|guest|passenger|traveller|traveler|booked by|attendee|ticket holder|name)\s*[:-]\s*([A-Za-z][A-Za-z'.-]+(?:[ \t]+[A-Za-z][A-Za-z'.-]+){0,3})/gi;
+
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const NUMERIC_DATE = /\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/g;
+const DAY_MONTH_YEAR =
+  /\b(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})\b/g;
+const MONTH_DAY_YEAR =
+  /\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/g;
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 1-12 for a full or three-letter month name ("Sept" is also accepted)
+ */
+function monthNumber(name: string): number | undefined {
+  const lower = name.toLowerCase();
+  const index = MONTH_NAMES.findIndex(
+    month =>
+      month === lower ||
+      month.slice(0, 3) === lower ||
+      (lower === 'sept' && month === 'september')
+  );
+  return index >= 0 ? index + 1 : undefined;
+}
+
+/**
+ * Pull confirmation numbers, dates and guest names out of confirmation text.
+ * Numeric dates such as 03/04/2025 are ambiguous between day-first and
+ * month-first, so both readings are returned.
+ */
+export function parseBookingDetails(rawText: string): ExtractedBookingDetails {
+  const text = rawText
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH);
+  const confirmationNumbers = new Set<string>();
+  const dates = new Set<string>();
+  const names = new Set<string>();
+
+  for (const pattern of [CONFIRMATION_PATTERN, PNR_PATTERN]) {
+    for (const match of text.matchAll(pattern)) {
+      // Labels such as "Booking Details" are not numbers
+      if (/\d/.test(match[1]!)) {
+        confirmationNumbers.add(match[1]!.toUpperCase());
+      }
+    }
+  }
+
+  const add = (date: string | null) => date && dates.add(date);
+  for (const match of text.matchAll(ISO_DATE)) {
+    add(toIsoDate(+match[1]!, +match[2]!, +match[3]!));
+  }
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    add(toIsoDate(+match[3]!, +match[2]!, +match[1]!));
+    add(toIsoDate(+match[3]!, +match[1]!, +match[2]!));
+  }
+  for (const match of text.matchAll(DAY_MONTH_YEAR)) {
+    const month = monthNumber(match[2]!);
+    if (month) add(toIsoDate(+match[3]!, month, +match[1]!));
+  }
+  for (const match of text.matchAll(MONTH_DAY_YEAR)) {
+    const month = monthNumber(match[1]!);
+    if (month) add(toIsoDate(+match[3]!, month, +match[2]!));
+  }
+
+  for (const match of text.matchAll(NAME_PATTERN)) {
+    names.add(match[1]!.trim());
+  }
+
+  return {
+    confirmationNumbers: [...confirmationNumbers],
+    dates: [...dates].sort(),
+    names: [...names],
+    text,
+  };
+}
+
+/**
+ * Extracts text from PDFs with their own text layer: content streams are
+ * inflated and the strings drawn by text operators are read in order.
+ * Scanned PDFs have no text layer and come out empty.
+ */
+export class PdfTextExtractor implements DocumentExtractor {
+  readonly name = 'pdf-text';
+
+  supports(contentType: string): boolean {
+    return contentType === 'application/pdf';
+  }
+
+  async extract(data: Buffer): Promise<ExtractedBookingDetails> {
+    return parseBookingDetails(this.extractText(data));
+  }
+
+  extractText(data: Buffer): string {
+    const source = data.toString('latin1');
+    const lines: string[] = [];
+    const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = streamPattern.exec(source))) {
+      const start = match.index + match[0].length;
+      const end = source.indexOf('endstream', start);
+      if (end < 0) break;
+      streamPattern.lastIndex = end;
+
+      // The match can start at an earlier object's dictionary; keep this object's
+      const dictionary = match[1]!.slice(match[1]!.lastIndexOf('obj') + 1);
+      // Images, fonts and other binary streams carry no text
+      if (
+        /\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)/.test(dictionary)
+      ) {
+        continue;
+      }
+
+      let content = data.subarray(start, end);
+      if (/\/FlateDecode/.test(dictionary)) {
+        try {
+          content = inflateSync(content);
+        } catch {
+          continue;
+        }
+      } else if (/\/Filter/.test(dictionary)) {
+        continue;
+      }
+
+      lines.push(...this.readTextOperators(content.toString('latin1')));
+    }
+
+    return lines.join('\n');
+  }
+
+  private readTextOperators(content: string): string[] {
+    const lines: string[] = [];
+    let current = '';
+    const tokens =
+      /\((?:\\[\s\S]|[^\\)])*\)|\[(?:\((?:\\[\s\S]|[^\\)])*\)|[^\]])*\]\s*TJ|\b(?:Tj|TJ|Td|TD|ET)\b|T\*|'/g;
+
+    let pending: string[] = [];
+    for (const token of content.match(tokens) || []) {
+      if (token.startsWith('(')) {
+        pending.push(this.decodeString(token));
+      } else if (token.startsWith('[')) {
+        const parts = token.match(/\((?:\\[\s\S]|[^\\)])*\)/g) || [];
+        current += parts.map(part => this.decodeString(part)).join('');
+      } else if (token === 'Tj' || token === "'") {
+        current += pending.join('');
+        pending = [];
+      } else {
+        // Moving to a new line or ending the text object
+        pending = [];
+        if (current.trim()) lines.push(current.trim());
+        current = '';
+      }
+    }
+    if (current.trim()) lines.push(current.trim());
+    return lines;
+  }
+
+  private decodeString(literal: string): string {
+    return literal
+      .slice(1, -1)
+      .replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+        switch (escape) {
+          case 'n':
+            return '\n';
+          case 'r':
+            return '\r';
+          case 't':
+            return '\t';
+          case 'b':
+          case 'f':
+            return '';
+          case '(':
+          case ')':
+          case '\\':
+            return escape;
+          default:
+            return String.fromCharCode(parseInt(escape, 8));
+        }
+      });
+  }
+}
+
+/**
+ * Sends images to an OCR service that answers `{ "text": "..." }`
+ */
+export class HttpOcrExtractor implements DocumentExtractor {
+  readonly name = 'http-ocr';
+
+  constructor(
+    private apiUrl: string,
+    private apiKey?: string,
+    private timeoutMs: number = 30000
+  ) {}
+
+  supports(contentType: string): boolean {
+    return contentType.startsWith('image/');
+  }
+
+  async extract(
+    data: Buffer,
+    contentType: string
+  ): Promise<ExtractedBookingDetails> {
+    const response = await axios.post(this.apiUrl, data, {
+      headers: {
+        'Content-Type': contentType,
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      timeout: this.timeoutMs,
+      maxBodyLength: Infinity,
+    });
+
+    if (typeof response.data?.text !== 'string') {
+      throw new Error('OCR service response has no text');
+    }
+    return parseBookingDetails(response.data.text);
+  }
+}
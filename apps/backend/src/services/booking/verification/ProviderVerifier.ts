@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import { Booking } from '@booking-swap/shared';
+
+/**
+ * confirmed: the provider knows the booking and its dates match;
+ * not_found: the provider has no such booking;
+ * mismatch: the provider knows the confirmation number but not these details;
+ * unavailable: the provider could not be asked, so nothing is known
+ */
+export type ProviderVerificationOutcome =
+  | 'confirmed'
+  | 'not_found'
+  | 'mismatch'
+  | 'unavailable';
+
+export interface ProviderVerificationResult {
+  outcome: ProviderVerificationOutcome;
+  detail?: string;
+}
+
+/**
+ * Looks a booking up with the provider it was made with
+ */
+export interface ProviderVerifier {
+  readonly name: string;
+  supports(provider: string): boolean;
+  verify(booking: Booking): Promise<ProviderVerificationResult>;
+}
+
+export interface FakeReservation {
+  provider: string;
+  confirmationNumber: string;
+  checkIn: string;
+  checkOut: string;
+}
+
+const normalize = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+const day = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Answers from a fixed list of reservations, for local development and tests.
+ * Only providers that appear in the list are supported.
+ */
+export class FakeProviderVerifier implements ProviderVerifier {
+  readonly name = 'fake';
+
+  constructor(private reservations: FakeReservation[] = []) {}
+
+  /**
+   * Reads reservations from a JSON array of
+   * `{ provider, confirmationNumber, checkIn, checkOut }`
+   */
+  static fromFile(filePath: string): FakeProviderVerifier {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error(
+        `Fake provider reservations file ${filePath} must hold an array`
+      );
+    }
+    return new FakeProviderVerifier(parsed);
+  }
+
+  addReservation(reservation: FakeReservation): void {
+    this.reservations.push(reservation);
+  }
+
+  supports(provider: string): boolean {
+    return this.reservations.some(
+      reservation =>
+        reservation.provider.toLowerCase() === provider.toLowerCase()
+    );
+  }
+
+  async verify(booking: Booking): Promise<ProviderVerificationResult> {
+    const reservation = this.reservations.find(
+      candidate =>
+        candidate.provider.toLowerCase() ===
+          booking.providerDetails.provider.toLowerCase() &&
+        normalize(candidate.confirmationNumber) ===
+          normalize(booking.providerDetails.confirmationNumber)
+    );
+
+    if (!reservation) {
+      return {
+        outcome: 'not_found',
+        detail: `${booking.providerDetails.provider} has no booking ${booking.providerDetails.confirmationNumber}`,
+      };
+    }
+
+    if (
+      day(reservation.checkIn) !== day(booking.dateRange.checkIn) ||
+      day(reservation.checkOut) !== day(booking.dateRange.checkOut)
+    ) {
+      return {
+        outcome: 'mismatch',
+        detail: `Provider dates are ${day(reservation.checkIn)} to ${day(reservation.checkOut)}`,
+      };
+    }
+
+    return { outcome: 'confirmed' };
+  }
+}
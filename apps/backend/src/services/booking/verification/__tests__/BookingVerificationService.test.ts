@@ -0,0 +1,527 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  Booking,
+  BookingVerificationAttempt,
+  BookingVerificationErrorCodes,
+  MAX_BOOKING_DOCUMENTS,
+} from '@booking-swap/shared';
+import { BookingVerificationService } from '../BookingVerificationService';
+import { FakeProviderVerifier } from '../ProviderVerifier';
+import { StoredVerificationDocument } from '../../../../database/repositories/BookingVerificationRepository';
+
+// Mock logger
+vi.mock('../../../../utils/logger');
+
+const OWNER = 'user-1';
+
+const makeBooking = (overrides: Partial<Booking> = {}): Booking => ({
+  id: 'booking-1',
+  userId: OWNER,
+  type: 'hotel',
+  title: 'Beach house',
+  description: 'Two nights by the sea',
+  location: { city: 'Lisbon', country: 'Portugal' },
+  dateRange: {
+    checkIn: new Date('2030-06-01T00:00:00Z'),
+    checkOut: new Date('2030-06-03T00:00:00Z'),
+  },
+  originalPrice: 400,
+  swapValue: 350,
+  providerDetails: {
+    provider: 'booking.com',
+    confirmationNumber: 'BK-123456',
+    bookingReference: 'REF1',
+  },
+  verification: { status: 'pending', documents: [] },
+  blockchain: { topicId: '0.0.1' },
+  status: 'available',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const makeDocument = (
+  text: string,
+  overrides: Partial<StoredVerificationDocument> = {}
+): StoredVerificationDocument => ({
+  id: 'document-1',
+  bookingId: 'booking-1',
+  uploadedBy: OWNER,
+  fileName: 'confirmation.pdf',
+  contentType: 'application/pdf',
+  sizeBytes: 100,
+  storageKey: 'booking-verifications/booking-1/file.pdf',
+  extractor: 'pdf-text',
+  extracted: {
+    confirmationNumbers: ['BK-123456'],
+    dates: ['2030-06-01', '2030-06-03'],
+    names: ['Jane Doe'],
+    text,
+  },
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const CONFIRMATION_TEXT =
+  'Booking.com confirmation BK-123456 Guest: Jane Doe 1 June 2030 - 3 June 2030';
+
+describe('BookingVerificationService', () => {
+  let service: BookingVerificationService;
+  let verificationRepository: any;
+  let bookingRepository: any;
+  let userRepository: any;
+  let validationService: any;
+  let extractor: any;
+  let providerVerifiers: FakeProviderVerifier[];
+  let fileStore: any;
+  let notificationService: any;
+
+  const createService = () =>
+    new BookingVerificationService(
+      verificationRepository,
+      bookingRepository,
+      userRepository,
+      validationService,
+      [extractor],
+      providerVerifiers,
+      fileStore,
+      notificationService
+    );
+
+  beforeEach(() => {
+    verificationRepository = {
+      findById: vi.fn(),
+      findDocuments: vi.fn().mockResolvedValue([]),
+      findDocumentById: vi.fn(),
+      findLatestForBooking: vi.fn().mockResolvedValue(null),
+      addDocument: vi.fn(async (data: any) => ({
+        ...data,
+        id: 'document-1',
+        createdAt: new Date(),
+      })),
+      recordAttempt: vi.fn(
+        async (attempt: any): Promise<BookingVerificationAttempt> => ({
+          ...attempt,
+          id: 'attempt-1',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })
+      ),
+      completeReview: vi.fn(),
+      findByFilters: vi.fn(),
+    };
+    bookingRepository = {
+      findById: vi.fn().mockResolvedValue(makeBooking()),
+    };
+    userRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: OWNER,
+        profile: { displayName: 'Jane Doe' },
+      }),
+    };
+    validationService = {
+      validateBooking: vi
+        .fn()
+        .mockResolvedValue({ isValid: true, errors: [], warnings: [] }),
+    };
+    extractor = {
+      name: 'pdf-text',
+      supports: vi.fn(
+        (contentType: string) => contentType === 'application/pdf'
+      ),
+      extract: vi
+        .fn()
+        .mockResolvedValue(makeDocument(CONFIRMATION_TEXT).extracted),
+    };
+    providerVerifiers = [];
+    fileStore = {
+      name: 'memory',
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    notificationService = { sendNotification: vi.fn() };
+
+    service = createService();
+  });
+
+  describe('uploadDocument', () => {
+    const upload = {
+      fileName: 'confirmation.pdf',
+      contentType: 'application/pdf',
+      data: Buffer.from('%PDF-1.4'),
+    };
+
+    it('stores the file with what the extractor read, hiding the text', async () => {
+      const document = await service.uploadDocument('booking-1', OWNER, upload);
+
+      expect(fileStore.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^booking-verifications\/booking-1\/.+\.pdf$/),
+        upload.data
+      );
+      expect(verificationRepository.addDocument).toHaveBeenCalledWith(
+        expect.objectContaining({
+          extractor: 'pdf-text',
+          extracted: expect.objectContaining({ text: CONFIRMATION_TEXT }),
+        })
+      );
+      expect(document.extracted?.confirmationNumbers).toEqual(['BK-123456']);
+      expect(document.extracted?.text).toBe('');
+      expect(document).not.toHaveProperty('storageKey');
+    });
+
+    it('keeps the document when extraction fails', async () => {
+      extractor.extract.mockRejectedValue(new Error('corrupt'));
+
+      await service.uploadDocument('booking-1', OWNER, upload);
+
+      expect(verificationRepository.addDocument).toHaveBeenCalledWith(
+        expect.objectContaining({ extractor: undefined, extracted: undefined })
+      );
+    });
+
+    it('rejects uploads from anyone but the owner', async () => {
+      await expect(
+        service.uploadDocument('booking-1', 'user-2', upload)
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.NOT_BOOKING_OWNER,
+      });
+    });
+
+    it('rejects unsupported and oversized files', async () => {
+      await expect(
+        service.uploadDocument('booking-1', OWNER, {
+          ...upload,
+          contentType: 'text/html',
+        })
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.INVALID_DOCUMENT,
+      });
+      await expect(
+        service.uploadDocument('booking-1', OWNER, {
+          ...upload,
+          data: Buffer.alloc(0),
+        })
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.INVALID_DOCUMENT,
+      });
+    });
+
+    it('limits the number of documents per booking', async () => {
+      verificationRepository.findDocuments.mockResolvedValue(
+        Array.from({ length: MAX_BOOKING_DOCUMENTS }, () => makeDocument(''))
+      );
+
+      await expect(
+        service.uploadDocument('booking-1', OWNER, upload)
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.TOO_MANY_DOCUMENTS,
+      });
+    });
+
+    it('removes the stored file when saving the document fails', async () => {
+      verificationRepository.addDocument.mockRejectedValue(
+        new Error('db down')
+      );
+
+      await expect(
+        service.uploadDocument('booking-1', OWNER, upload)
+      ).rejects.toThrow('db down');
+      expect(fileStore.delete).toHaveBeenCalledWith(
+        fileStore.put.mock.calls[0][0]
+      );
+    });
+  });
+
+  describe('verifyBooking', () => {
+    it('verifies a booking whose confirmation matches the listing', async () => {
+      verificationRepository.findDocuments.mockResolvedValue([
+        makeDocument(CONFIRMATION_TEXT),
+      ]);
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('verified');
+      expect(attempt.checks).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: 'confirmation_number',
+            outcome: 'pass',
+          }),
+          expect.objectContaining({ name: 'dates', outcome: 'pass' }),
+          expect.objectContaining({ name: 'guest_name', outcome: 'pass' }),
+          expect.objectContaining({ name: 'provider_name', outcome: 'pass' }),
+        ])
+      );
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'booking_verified',
+        OWNER,
+        expect.objectContaining({ bookingId: 'booking-1' }),
+        ['email', 'in_app']
+      );
+    });
+
+    it('accepts dates a day out because listings are stored in UTC', async () => {
+      verificationRepository.findDocuments.mockResolvedValue([
+        makeDocument(CONFIRMATION_TEXT, {
+          extracted: {
+            ...makeDocument('').extracted!,
+            dates: ['2030-05-31', '2030-06-02'],
+            text: CONFIRMATION_TEXT,
+          },
+        }),
+      ]);
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('verified');
+    });
+
+    it('sends mismatched documents to review', async () => {
+      verificationRepository.findDocuments.mockResolvedValue([
+        makeDocument('Confirmation ZZ-999999 for 10 July 2030', {
+          extracted: {
+            confirmationNumbers: ['ZZ-999999'],
+            dates: ['2030-07-10'],
+            names: [],
+            text: 'Confirmation ZZ-999999 for 10 July 2030',
+          },
+        }),
+      ]);
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('needs_review');
+      expect(attempt.reviewReason).toContain('confirmation_number');
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'booking_verification_review',
+        OWNER,
+        expect.anything(),
+        ['in_app']
+      );
+    });
+
+    it('sends unreadable documents to review', async () => {
+      verificationRepository.findDocuments.mockResolvedValue([
+        makeDocument('', { extractor: undefined, extracted: undefined }),
+      ]);
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('needs_review');
+    });
+
+    it('rejects bookings whose listed details are invalid', async () => {
+      validationService.validateBooking.mockResolvedValue({
+        isValid: false,
+        errors: ['Check-in date must be in the future'],
+        warnings: [],
+      });
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('rejected');
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'booking_verification_rejected',
+        OWNER,
+        expect.objectContaining({
+          reason: 'Check-in date must be in the future',
+        }),
+        ['email', 'in_app']
+      );
+    });
+
+    it('needs a document when no provider can be asked', async () => {
+      await expect(
+        service.verifyBooking('booking-1', OWNER)
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.DOCUMENT_REQUIRED,
+      });
+      expect(verificationRepository.recordAttempt).not.toHaveBeenCalled();
+    });
+
+    it('verifies bookings the provider confirms without documents', async () => {
+      providerVerifiers.push(
+        new FakeProviderVerifier([
+          {
+            provider: 'booking.com',
+            confirmationNumber: 'BK123456',
+            checkIn: '2030-06-01',
+            checkOut: '2030-06-03',
+          },
+        ])
+      );
+      service = createService();
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('verified');
+      expect(attempt.providerVerifier).toBe('fake');
+    });
+
+    it('rejects bookings the provider does not know', async () => {
+      providerVerifiers.push(
+        new FakeProviderVerifier([
+          {
+            provider: 'booking.com',
+            confirmationNumber: 'OTHER-1',
+            checkIn: '2030-06-01',
+            checkOut: '2030-06-03',
+          },
+        ])
+      );
+      service = createService();
+      verificationRepository.findDocuments.mockResolvedValue([
+        makeDocument(CONFIRMATION_TEXT),
+      ]);
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('rejected');
+      expect(attempt.checks).toContainEqual(
+        expect.objectContaining({
+          name: 'provider',
+          outcome: 'fail',
+          source: 'fake',
+        })
+      );
+    });
+
+    it('falls back to documents when the provider is unreachable', async () => {
+      const verifier = new FakeProviderVerifier([
+        {
+          provider: 'booking.com',
+          confirmationNumber: 'BK-123456',
+          checkIn: '2030-06-01',
+          checkOut: '2030-06-03',
+        },
+      ]);
+      vi.spyOn(verifier, 'verify').mockRejectedValue(new Error('timeout'));
+      providerVerifiers.push(verifier);
+      service = createService();
+      verificationRepository.findDocuments.mockResolvedValue([
+        makeDocument(CONFIRMATION_TEXT),
+      ]);
+
+      const attempt = await service.verifyBooking('booking-1', OWNER);
+
+      expect(attempt.status).toBe('verified');
+      expect(attempt.checks).toContainEqual(
+        expect.objectContaining({ name: 'provider', outcome: 'inconclusive' })
+      );
+    });
+
+    it('refuses a new attempt while one is in review', async () => {
+      verificationRepository.findLatestForBooking.mockResolvedValue({
+        id: 'attempt-0',
+        status: 'needs_review',
+      });
+
+      await expect(
+        service.verifyBooking('booking-1', OWNER)
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.REVIEW_PENDING,
+      });
+    });
+
+    it('refuses bookings that are already verified', async () => {
+      bookingRepository.findById.mockResolvedValue(
+        makeBooking({ verification: { status: 'verified', documents: [] } })
+      );
+
+      await expect(
+        service.verifyBooking('booking-1', OWNER)
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.ALREADY_VERIFIED,
+      });
+    });
+  });
+
+  describe('reviewAttempt', () => {
+    beforeEach(() => {
+      verificationRepository.findById.mockResolvedValue({
+        id: 'attempt-1',
+        bookingId: 'booking-1',
+        status: 'needs_review',
+        checks: [],
+      });
+    });
+
+    it('records the decision and tells the owner', async () => {
+      verificationRepository.completeReview.mockResolvedValue({
+        id: 'attempt-1',
+        bookingId: 'booking-1',
+        status: 'verified',
+        checks: [],
+        reviewNotes: 'Matches the hotel email',
+      });
+
+      const attempt = await service.reviewAttempt('attempt-1', 'admin-1', {
+        approve: true,
+        notes: 'Matches the hotel email',
+      });
+
+      expect(attempt.status).toBe('verified');
+      expect(verificationRepository.completeReview).toHaveBeenCalledWith(
+        'attempt-1',
+        {
+          status: 'verified',
+          reviewedBy: 'admin-1',
+          notes: 'Matches the hotel email',
+        }
+      );
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'booking_verified',
+        OWNER,
+        expect.objectContaining({ notes: 'Matches the hotel email' }),
+        ['email', 'in_app']
+      );
+    });
+
+    it('requires notes', async () => {
+      await expect(
+        service.reviewAttempt('attempt-1', 'admin-1', {
+          approve: false,
+          notes: ' ',
+        })
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.INVALID_REVIEW,
+      });
+    });
+
+    it('refuses attempts that are no longer waiting', async () => {
+      verificationRepository.completeReview.mockResolvedValue(null);
+
+      await expect(
+        service.reviewAttempt('attempt-1', 'admin-1', {
+          approve: false,
+          notes: 'Fake',
+        })
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.NOT_AWAITING_REVIEW,
+      });
+    });
+  });
+
+  describe('getDocumentFile', () => {
+    it('only lets the owner or an admin download documents', async () => {
+      verificationRepository.findDocumentById.mockResolvedValue(
+        makeDocument(CONFIRMATION_TEXT)
+      );
+      fileStore.get.mockResolvedValue(Buffer.from('%PDF'));
+
+      await expect(
+        service.getDocumentFile('booking-1', 'document-1', { userId: 'user-2' })
+      ).rejects.toMatchObject({
+        code: BookingVerificationErrorCodes.NOT_BOOKING_OWNER,
+      });
+
+      const { document } = await service.getDocumentFile(
+        'booking-1',
+        'document-1',
+        { userId: 'admin-1', isAdmin: true }
+      );
+      expect(document.extracted?.text).toBe(CONFIRMATION_TEXT);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'zlib';
+import { PdfTextExtractor, parseBookingDetails } from '../DocumentExtractor';
+
+/**
+ * A minimal PDF whose page content stream draws the given lines
+ */
+function makePdf(lines: string[], compress = true): Buffer {
+  const content = Buffer.from(
+    'BT /F1 12 Tf 72 720 Td ' +
+      lines
+        .map(line => `(${line.replace(/([()\\])/g, '\\$1')}) Tj 0 -14 Td`)
+        .join(' ') +
+      ' ET'
+  );
+  const stream = compress ? deflateSync(content) : content;
+  return Buffer.concat([
+    Buffer.from(
+      '%PDF-1.4\n' +
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n' +
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n' +
+        '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj\n' +
+        `4 0 obj << /Length ${stream.length}${compress ? ' /Filter /FlateDecode' : ''} >>\nstream\n`,
+      'latin1'
+    ),
+    stream,
+    Buffer.from(
+      '\nendstream\nendobj\ntrailer << /Root 1 0 R >>\n%%EOF',
+      'latin1'
+    ),
+  ]);
+}
+
+describe('parseBookingDetails', () => {
+  it('finds confirmation numbers, dates and guest names', () => {
+    const details = parseBookingDetails(
+      'Booking confirmation\n' +
+        'Confirmation number: BK-123456789\n' +
+        'Guest name: Jane Doe\n' +
+        'Check-in: 12 March 2030\n' +
+        'Check-out: March 15, 2030'
+    );
+
+    expect(details.confirmationNumbers).toEqual(['BK-123456789']);
+    expect(details.names).toEqual(['Jane Doe']);
+    expect(details.dates).toEqual(['2030-03-12', '2030-03-15']);
+  });
+
+  it('ignores labels that contain no digits', () => {
+    const details = parseBookingDetails('Booking Details\nReservation Summary');
+
+    expect(details.confirmationNumbers).toEqual([]);
+  });
+
+  it('returns both readings of ambiguous numeric dates', () => {
+    const details = parseBookingDetails(
+      'Arrival 03/04/2030, departure 2030-04-20'
+    );
+
+    expect(details.dates).toEqual(['2030-03-04', '2030-04-03', '2030-04-20']);
+  });
+
+  it('reads airline record locators', () => {
+    const details = parseBookingDetails('PNR: X7K2Q9');
+
+    expect(details.confirmationNumbers).toEqual(['X7K2Q9']);
+  });
+});
+
+describe('PdfTextExtractor', () => {
+  const extractor = new PdfTextExtractor();
+
+  it('only supports PDFs', () => {
+    expect(extractor.supports('application/pdf')).toBe(true);
+    expect(extractor.supports('image/png')).toBe(false);
+  });
+
+  it('reads text from compressed content streams', async () => {
+    const pdf = makePdf([
+      'Reservation number: HT-998877',
+      'Lead guest: John Smith',
+      'Check-in 2030-06-01 (Saturday)',
+    ]);
+
+    const details = await extractor.extract(pdf);
+
+    expect(details.text).toContain('Reservation number: HT-998877');
+    expect(details.text).toContain('(Saturday)');
+    expect(details.confirmationNumbers).toEqual(['HT-998877']);
+    expect(details.names).toEqual(['John Smith']);
+    expect(details.dates).toEqual(['2030-06-01']);
+  });
+
+  it('reads uncompressed content streams', () => {
+    const pdf = makePdf(['Booking ref: ABC12345'], false);
+
+    expect(extractor.extractText(pdf)).toBe('Booking ref: ABC12345');
+  });
+
+  it('returns no text for PDFs without a text layer', () => {
+    const pdf = Buffer.from(
+      '%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n%%EOF'
+    );
+
+    expect(extractor.extractText(pdf)).toBe('');
+  });
+});
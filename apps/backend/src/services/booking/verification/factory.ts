@@ -0,0 +1,68 @@
+import { Pool } from 'pg';
+import { BookingVerificationService } from './BookingVerificationService';
+import {
+  DocumentExtractor,
+  HttpOcrExtractor,
+  PdfTextExtractor,
+} from './DocumentExtractor';
+import { FakeProviderVerifier, ProviderVerifier } from './ProviderVerifier';
+import { BookingVerificationRepository } from '../../../database/repositories/BookingVerificationRepository';
+import { BookingRepository } from '../../../database/repositories/BookingRepository';
+import { UserRepository } from '../../../database/repositories/UserRepository';
+import { BookingValidationService } from '../BookingValidationService';
+import { createNotificationService } from '../../notification/factory';
+import { createFileStore } from '../../storage/factory';
+
+let bookingVerificationService: BookingVerificationService | null = null;
+
+function createExtractors(): DocumentExtractor[] {
+  const extractors: DocumentExtractor[] = [new PdfTextExtractor()];
+  // Scanned confirmations and screenshots need OCR, which is optional
+  if (process.env.VERIFICATION_OCR_API_URL) {
+    extractors.push(
+      new HttpOcrExtractor(
+        process.env.VERIFICATION_OCR_API_URL,
+        process.env.VERIFICATION_OCR_API_KEY
+      )
+    );
+  }
+  return extractors;
+}
+
+function createProviderVerifiers(): ProviderVerifier[] {
+  switch (process.env.BOOKING_PROVIDER_VERIFIER) {
+    case 'fake':
+      return [
+        process.env.FAKE_PROVIDER_RESERVATIONS_FILE
+          ? FakeProviderVerifier.fromFile(
+              process.env.FAKE_PROVIDER_RESERVATIONS_FILE
+            )
+          : new FakeProviderVerifier(),
+      ];
+    default:
+      return [];
+  }
+}
+
+export function createBookingVerificationService(
+  pool: Pool
+): BookingVerificationService {
+  if (!bookingVerificationService) {
+    bookingVerificationService = new BookingVerificationService(
+      new BookingVerificationRepository(pool),
+      new BookingRepository(pool),
+      new UserRepository(pool),
+      new BookingValidationService(),
+      createExtractors(),
+      createProviderVerifiers(),
+      createFileStore(),
+      createNotificationService(pool)
+    );
+  }
+
+  return bookingVerificationService;
+}
+
+export function resetBookingVerificationService(): void {
+  bookingVerificationService = null;
+}
@@ -0,0 +1,23 @@
+export { BookingVerificationService } from './BookingVerificationService';
+export {
+  HttpOcrExtractor,
+  PdfTextExtractor,
+  parseBookingDetails,
+} from './DocumentExtractor';
+export { FakeProviderVerifier } from './ProviderVerifier';
+export {
+  createBookingVerificationService,
+  resetBookingVerificationService,
+} from './factory';
+
+export type {
+  BookingVerificationStatus,
+  VerificationDocumentUpload,
+} from './BookingVerificationService';
+export type { DocumentExtractor } from './DocumentExtractor';
+export type {
+  FakeReservation,
+  ProviderVerificationOutcome,
+  ProviderVerificationResult,
+  ProviderVerifier,
+} from './ProviderVerifier';
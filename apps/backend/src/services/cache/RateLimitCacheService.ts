@@ -15,6 +15,9 @@ export interface RateLimitConfig {
   enableDistributedCache: boolean;
 }
 
+// api_key windows are counted per key id, with the limit passed per call
+export type RateLimitType = 'email' | 'ip' | 'api_key';
+
 export class RateLimitCacheService {
   private redis: RedisService | null = null;
   private memoryCache: Map<string, RateLimitEntry> = new Map();
@@ -34,7 +37,7 @@ export class RateLimitCacheService {
   /**
    * Get rate limit entry with caching optimization
    */
-  async getRateLimitEntry(key: string, type: 'email' | 'ip'): Promise<RateLimitEntry | null> {
+  async getRateLimitEntry(key: string, type: RateLimitType): Promise<RateLimitEntry | null> {
     const cacheKey = `rate_limit:${type}:${key}`;
 
     try {
@@ -71,7 +74,7 @@ export class RateLimitCacheService {
    */
   async setRateLimitEntry(
     key: string,
-    type: 'email' | 'ip',
+    type: RateLimitType,
     entry: RateLimitEntry
   ): Promise<boolean> {
     const cacheKey = `rate_limit:${type}:${key}`;
@@ -99,7 +102,7 @@ export class RateLimitCacheService {
    */
   async incrementCounter(
     key: string,
-    type: 'email' | 'ip'
+    type: RateLimitType
   ): Promise<{ count: number; isNewWindow: boolean }> {
     const now = new Date();
     const cacheKey = `rate_limit:${type}:${key}`;
@@ -220,14 +223,15 @@ export class RateLimitCacheService {
    */
   async isRateLimitExceeded(
     key: string,
-    type: 'email' | 'ip'
+    type: RateLimitType,
+    limitOverride?: number
   ): Promise<{
     exceeded: boolean;
     count: number;
     limit: number;
     timeRemaining: number;
   }> {
-    const limit = type === 'email' ? this.config.emailLimit : this.config.ipLimit;
+    const limit = limitOverride ?? (type === 'email' ? this.config.emailLimit : this.config.ipLimit);
     const entry = await this.getRateLimitEntry(key, type);
 
     if (!entry) {
@@ -264,7 +268,7 @@ export class RateLimitCacheService {
   /**
    * Reset rate limit for specific key (admin function)
    */
-  async resetRateLimit(key: string, type: 'email' | 'ip'): Promise<boolean> {
+  async resetRateLimit(key: string, type: RateLimitType): Promise<boolean> {
     const cacheKey = `rate_limit:${type}:${key}`;
 
     try {
@@ -316,7 +320,7 @@ export class RateLimitCacheService {
   /**
    * Preload frequently accessed rate limits
    */
-  async preloadFrequentLimits(keys: Array<{ key: string; type: 'email' | 'ip' }>): Promise<void> {
+  async preloadFrequentLimits(keys: Array<{ key: string; type: RateLimitType }>): Promise<void> {
     if (!this.redis || !this.config.enableDistributedCache) {
       return;
     }
@@ -0,0 +1,356 @@
+import crypto from 'crypto';
+import {
+  CalendarError,
+  CalendarErrorCodes,
+  CalendarEventKind,
+  CalendarFeedLink,
+  CalendarFeedStatus,
+} from '@booking-swap/shared';
+import {
+  CalendarAuctionEnd,
+  CalendarProposalDeadline,
+  CalendarRepository,
+  CalendarStay,
+  CalendarSwapDeadline,
+} from '../../database/repositories/CalendarRepository';
+import { logger } from '../../utils/logger';
+import { IcsEvent, IcsTime, buildCalendar, formatUtcDate } from './ics';
+import {
+  buildVTimeZone,
+  formatLocalDateTime,
+  resolveTimeZone,
+} from './timezones';
+
+export interface CalendarServiceOptions {
+  // Public origin of this API, used to build feed URLs
+  publicBaseUrl: string;
+  // Origin of the web app, used for links from events
+  frontendUrl: string;
+  // Stays and deadlines that ended up to this many days ago stay in the feed
+  pastWindowDays: number;
+  // Reminder before swap, proposal and auction deadlines
+  deadlineAlarmMinutes: number;
+  // Suggested polling interval for subscribed calendars
+  refreshIntervalMinutes: number;
+}
+
+const DEFAULT_OPTIONS: CalendarServiceOptions = {
+  publicBaseUrl: 'http://localhost:3001',
+  frontendUrl: 'http://localhost:3000',
+  pastWindowDays: 30,
+  deadlineAlarmMinutes: 60,
+  refreshIntervalMinutes: 60,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEADLINE_DURATION_MS = 30 * 60 * 1000;
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Dates entered without a time are stored as midnight UTC
+const isMidnightUtc = (date: Date): boolean =>
+  date.getUTCHours() === 0 &&
+  date.getUTCMinutes() === 0 &&
+  date.getUTCSeconds() === 0;
+
+const formatLocation = (city?: string, country?: string): string | undefined =>
+  [city, country].filter(Boolean).join(', ') || undefined;
+
+/**
+ * Builds iCalendar data for a user's stays, swap expirations, deadlines for
+ * answering proposals, and auction end dates. Nothing is stored per event:
+ * feeds are generated from the live rows on every fetch, and each event's UID
+ * is derived from the booking, swap or auction it describes, so completed
+ * swaps drop out and transferred stays move to the new owner's calendar the
+ * next time each side's calendar app refreshes.
+ */
+export class CalendarService {
+  private readonly options: CalendarServiceOptions;
+
+  constructor(
+    private calendarRepository: CalendarRepository,
+    options: Partial<CalendarServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async getFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+    const feed = await this.calendarRepository.findFeedByUserId(userId);
+    return {
+      enabled: !!feed,
+      createdAt: feed?.createdAt,
+      lastAccessedAt: feed?.lastAccessedAt,
+    };
+  }
+
+  /**
+   * Create the user's secret feed URL. Calling it again resets the URL, so
+   * anyone holding the old one loses access.
+   */
+  async createFeed(userId: string): Promise<CalendarFeedLink> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const feed = await this.calendarRepository.saveFeed(
+      userId,
+      hashToken(token)
+    );
+    const url = `${this.options.publicBaseUrl.replace(/\/$/, '')}/api/calendar/feed/${token}.ics`;
+
+    logger.info('Calendar feed created', { userId });
+    return {
+      url,
+      webcalUrl: url.replace(/^https?:/, 'webcal:'),
+      createdAt: feed.createdAt,
+    };
+  }
+
+  async deleteFeed(userId: string): Promise<void> {
+    const deleted = await this.calendarRepository.deleteFeed(userId);
+    if (!deleted) {
+      throw new CalendarError(
+        CalendarErrorCodes.CALENDAR_FEED_NOT_FOUND,
+        'Calendar feed not found'
+      );
+    }
+    logger.info('Calendar feed deleted', { userId });
+  }
+
+  /**
+   * Render the calendar behind a feed token
+   */
+  async renderFeed(token: string, now: Date = new Date()): Promise<string> {
+    const feed = await this.calendarRepository.findFeedByTokenHash(
+      hashToken(token)
+    );
+    if (!feed) {
+      throw new CalendarError(
+        CalendarErrorCodes.CALENDAR_FEED_NOT_FOUND,
+        'Calendar feed not found'
+      );
+    }
+
+    const since = new Date(
+      now.getTime() - this.options.pastWindowDays * DAY_MS
+    );
+    const [stays, swapDeadlines, proposalDeadlines, auctionEnds] =
+      await Promise.all([
+        this.calendarRepository.findStays(feed.userId, since),
+        this.calendarRepository.findSwapDeadlines(feed.userId, since),
+        this.calendarRepository.findProposalDeadlines(feed.userId, since),
+        this.calendarRepository.findAuctionEnds(feed.userId, since),
+      ]);
+    await this.calendarRepository.touchFeed(feed.userId);
+
+    return this.render(
+      'Booking Swap',
+      [
+        ...stays.map(stay => this.stayEvent(stay)),
+        ...swapDeadlines.map(deadline => this.swapDeadlineEvent(deadline)),
+        ...proposalDeadlines.map(deadline =>
+          this.proposalDeadlineEvent(deadline)
+        ),
+        ...auctionEnds.map(auctionEnd => this.auctionEndEvent(auctionEnd)),
+      ],
+      now
+    );
+  }
+
+  /**
+   * Render a one-off .ics file with the stay and deadlines of a single swap
+   */
+  async renderSwapCalendar(
+    swapId: string,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<string> {
+    const swap = await this.calendarRepository.findSwapForUser(swapId, userId);
+    if (!swap) {
+      throw new CalendarError(
+        CalendarErrorCodes.CALENDAR_SWAP_NOT_FOUND,
+        'Swap not found'
+      );
+    }
+
+    const events = [this.stayEvent(swap.stay)];
+    if (swap.deadline) {
+      events.push(this.swapDeadlineEvent(swap.deadline));
+    }
+    if (swap.auctionEnd) {
+      events.push(this.auctionEndEvent(swap.auctionEnd));
+    }
+
+    return this.render(swap.stay.title, events, now, false);
+  }
+
+  private render(
+    name: string,
+    events: IcsEvent[],
+    now: Date,
+    subscribed: boolean = true
+  ): string {
+    return buildCalendar(
+      {
+        name,
+        description: subscribed
+          ? 'Your stays and swap deadlines on Booking Swap'
+          : undefined,
+        events,
+        refreshIntervalMinutes: subscribed
+          ? this.options.refreshIntervalMinutes
+          : undefined,
+      },
+      this.timeZoneComponents(events),
+      now
+    );
+  }
+
+  /**
+   * VTIMEZONE components for each zone used by a local event time, covering
+   * the dates of the events in that zone
+   */
+  private timeZoneComponents(events: IcsEvent[]): string[] {
+    const ranges = new Map<string, { from: Date; to: Date }>();
+
+    for (const event of events) {
+      for (const time of [event.start, event.end]) {
+        if (!time || !('local' in time)) continue;
+
+        const at = this.parseLocal(time.local);
+        const range = ranges.get(time.timeZone);
+        if (!range) {
+          ranges.set(time.timeZone, { from: at, to: at });
+        } else {
+          if (at < range.from) range.from = at;
+          if (at > range.to) range.to = at;
+        }
+      }
+    }
+
+    return [...ranges.entries()].map(([timeZone, range]) =>
+      buildVTimeZone(
+        timeZone,
+        new Date(range.from.getTime() - DAY_MS),
+        new Date(range.to.getTime() + DAY_MS)
+      )
+    );
+  }
+
+  private parseLocal(local: string): Date {
+    const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/.exec(local);
+    if (!match) {
+      return new Date(NaN);
+    }
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return new Date(Date.UTC(year!, month! - 1, day!, hour!, minute!, second!));
+  }
+
+  private uid(kind: CalendarEventKind, id: string): string {
+    return `${kind}-${id}@booking-swap`;
+  }
+
+  /**
+   * Stays entered as dates become all-day events including the check-out
+   * day. Stays with times are shown in the local time of the destination,
+   * so a 15:00 check-in reads 15:00 wherever the user is.
+   */
+  private stayEvent(stay: CalendarStay): IcsEvent {
+    const timeZone = resolveTimeZone(stay);
+    const location = formatLocation(stay.city, stay.country);
+    let start: IcsTime;
+    let end: IcsTime;
+    let timeNote: string | undefined;
+
+    if (isMidnightUtc(stay.checkIn) && isMidnightUtc(stay.checkOut)) {
+      start = { date: formatUtcDate(stay.checkIn) };
+      end = { date: formatUtcDate(new Date(stay.checkOut.getTime() + DAY_MS)) };
+    } else if (timeZone) {
+      start = { local: formatLocalDateTime(stay.checkIn, timeZone), timeZone };
+      end = { local: formatLocalDateTime(stay.checkOut, timeZone), timeZone };
+      timeNote = `Times are local to ${location || timeZone} (${timeZone}).`;
+    } else {
+      start = { utc: stay.checkIn };
+      end = { utc: stay.checkOut };
+    }
+
+    return {
+      uid: this.uid('stay', stay.bookingId),
+      summary: `Stay: ${stay.title}`,
+      description:
+        [
+          stay.status === 'swapped'
+            ? 'This booking came to you through a swap.'
+            : undefined,
+          timeNote,
+        ]
+          .filter(Boolean)
+          .join('\n') || undefined,
+      location,
+      url: `${this.options.frontendUrl}/bookings/${stay.bookingId}`,
+      start,
+      end,
+      lastModified: stay.updatedAt,
+      categories: ['Stay'],
+    };
+  }
+
+  private swapDeadlineEvent(deadline: CalendarSwapDeadline): IcsEvent {
+    const summary = deadline.targetBookingTitle
+      ? `Proposal expires: ${deadline.bookingTitle} for ${deadline.targetBookingTitle}`
+      : `Swap expires: ${deadline.bookingTitle}`;
+
+    return this.deadlineEvent(
+      this.uid('swap_expiration', deadline.swapId),
+      summary,
+      deadline.expiresAt,
+      deadline.updatedAt,
+      `${this.options.frontendUrl}/swaps/${deadline.swapId}`,
+      formatLocation(deadline.city, deadline.country)
+    );
+  }
+
+  private proposalDeadlineEvent(deadline: CalendarProposalDeadline): IcsEvent {
+    return this.deadlineEvent(
+      this.uid('proposal_response_deadline', deadline.proposalSwapId),
+      `Respond to proposal: ${deadline.proposedBookingTitle} for ${deadline.bookingTitle}`,
+      deadline.expiresAt,
+      deadline.updatedAt,
+      `${this.options.frontendUrl}/swaps/${deadline.targetSwapId}`
+    );
+  }
+
+  private auctionEndEvent(auctionEnd: CalendarAuctionEnd): IcsEvent {
+    return this.deadlineEvent(
+      this.uid('auction_end', auctionEnd.auctionId),
+      auctionEnd.isOwner
+        ? `Auction ends: ${auctionEnd.bookingTitle}`
+        : `Auction you bid in ends: ${auctionEnd.bookingTitle}`,
+      auctionEnd.endDate,
+      auctionEnd.updatedAt,
+      `${this.options.frontendUrl}/swaps/${auctionEnd.swapId}`,
+      formatLocation(auctionEnd.city, auctionEnd.country)
+    );
+  }
+
+  // Deadlines are instants, written in UTC so each calendar app shows them
+  // in its own time zone
+  private deadlineEvent(
+    uid: string,
+    summary: string,
+    at: Date,
+    lastModified: Date,
+    url: string,
+    location?: string
+  ): IcsEvent {
+    return {
+      uid,
+      summary,
+      location,
+      url,
+      start: { utc: at },
+      end: { utc: new Date(at.getTime() + DEADLINE_DURATION_MS) },
+      lastModified,
+      alarmMinutesBefore: this.options.deadlineAlarmMinutes,
+      categories: ['Deadline'],
+    };
+  }
+}
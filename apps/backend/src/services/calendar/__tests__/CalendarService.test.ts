@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { CalendarErrorCodes } from '@booking-swap/shared';
+import { CalendarService } from '../CalendarService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const USER = 'user-1';
+const NOW = new Date('2025-05-01T10:00:00Z');
+
+const hash = (value: string) =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+const feed = (overrides: Record<string, any> = {}) => ({
+  userId: USER,
+  tokenHash: 'hash',
+  createdAt: new Date('2025-04-01T00:00:00Z'),
+  updatedAt: new Date('2025-04-01T00:00:00Z'),
+  ...overrides,
+});
+
+const stay = (overrides: Record<string, any> = {}) => ({
+  bookingId: 'booking-1',
+  title: 'Paris apartment',
+  city: 'Paris',
+  country: 'France',
+  checkIn: new Date('2025-06-01T00:00:00Z'),
+  checkOut: new Date('2025-06-05T00:00:00Z'),
+  status: 'available',
+  updatedAt: new Date('2025-04-10T08:00:00Z'),
+  ...overrides,
+});
+
+// Unfold content lines so assertions are not affected by line folding
+const unfold = (body: string) => body.replace(/\r\n /g, '');
+
+describe('CalendarService', () => {
+  let repository: any;
+  let service: CalendarService;
+
+  beforeEach(() => {
+    repository = {
+      findFeedByUserId: vi.fn().mockResolvedValue(null),
+      findFeedByTokenHash: vi.fn().mockResolvedValue(feed()),
+      saveFeed: vi
+        .fn()
+        .mockImplementation(async (userId: string, tokenHash: string) =>
+          feed({ userId, tokenHash })
+        ),
+      deleteFeed: vi.fn().mockResolvedValue(true),
+      touchFeed: vi.fn(),
+      findStays: vi.fn().mockResolvedValue([]),
+      findSwapDeadlines: vi.fn().mockResolvedValue([]),
+      findProposalDeadlines: vi.fn().mockResolvedValue([]),
+      findAuctionEnds: vi.fn().mockResolvedValue([]),
+      findSwapForUser: vi.fn().mockResolvedValue(null),
+    };
+    service = new CalendarService(repository, {
+      publicBaseUrl: 'https://api.example.com/',
+      frontendUrl: 'https://app.example.com',
+    });
+  });
+
+  describe('feeds', () => {
+    it('stores only a hash of the token in the feed URL', async () => {
+      const link = await service.createFeed(USER);
+
+      const match =
+        /^https:\/\/api\.example\.com\/api\/calendar\/feed\/([\w-]+)\.ics$/.exec(
+          link.url
+        );
+      expect(match).not.toBeNull();
+      expect(repository.saveFeed).toHaveBeenCalledWith(USER, hash(match![1]!));
+      expect(link.webcalUrl).toBe(link.url.replace('https:', 'webcal:'));
+    });
+
+    it('reports whether a feed is enabled', async () => {
+      expect(await service.getFeedStatus(USER)).toEqual({
+        enabled: false,
+        createdAt: undefined,
+        lastAccessedAt: undefined,
+      });
+
+      repository.findFeedByUserId.mockResolvedValue(feed());
+      expect((await service.getFeedStatus(USER)).enabled).toBe(true);
+    });
+
+    it('rejects deleting a feed that does not exist', async () => {
+      repository.deleteFeed.mockResolvedValue(false);
+
+      await expect(service.deleteFeed(USER)).rejects.toMatchObject({
+        code: CalendarErrorCodes.CALENDAR_FEED_NOT_FOUND,
+      });
+    });
+
+    it('rejects unknown feed tokens', async () => {
+      repository.findFeedByTokenHash.mockResolvedValue(null);
+
+      await expect(service.renderFeed('nope', NOW)).rejects.toMatchObject({
+        code: CalendarErrorCodes.CALENDAR_FEED_NOT_FOUND,
+      });
+      expect(repository.touchFeed).not.toHaveBeenCalled();
+    });
+
+    it('renders stays and deadlines for the feed owner', async () => {
+      repository.findStays.mockResolvedValue([stay()]);
+      repository.findSwapDeadlines.mockResolvedValue([
+        {
+          swapId: 'swap-1',
+          bookingId: 'booking-1',
+          bookingTitle: 'Paris apartment',
+          city: 'Paris',
+          country: 'France',
+          expiresAt: new Date('2025-05-20T18:00:00Z'),
+          updatedAt: NOW,
+        },
+      ]);
+      repository.findProposalDeadlines.mockResolvedValue([
+        {
+          proposalSwapId: 'swap-2',
+          targetSwapId: 'swap-1',
+          bookingTitle: 'Paris apartment',
+          proposedBookingTitle: 'Lisbon loft',
+          expiresAt: new Date('2025-05-18T12:00:00Z'),
+          updatedAt: NOW,
+        },
+      ]);
+      repository.findAuctionEnds.mockResolvedValue([
+        {
+          auctionId: 'auction-1',
+          swapId: 'swap-3',
+          bookingTitle: 'Rome villa',
+          city: 'Rome',
+          country: 'Italy',
+          endDate: new Date('2025-05-25T09:00:00Z'),
+          isOwner: false,
+          updatedAt: NOW,
+        },
+      ]);
+
+      const body = unfold(await service.renderFeed('token', NOW));
+
+      expect(repository.findFeedByTokenHash).toHaveBeenCalledWith(
+        hash('token')
+      );
+      expect(repository.findStays).toHaveBeenCalledWith(
+        USER,
+        new Date('2025-04-01T10:00:00Z')
+      );
+      expect(repository.touchFeed).toHaveBeenCalledWith(USER);
+
+      expect(body).toContain('UID:stay-booking-1@booking-swap');
+      // Date-only stays are all-day events that include the check-out day
+      expect(body).toContain('DTSTART;VALUE=DATE:20250601');
+      expect(body).toContain('DTEND;VALUE=DATE:20250606');
+      expect(body).toContain('UID:swap_expiration-swap-1@booking-swap');
+      expect(body).toContain('DTSTART:20250520T180000Z');
+      expect(body).toContain(
+        'UID:proposal_response_deadline-swap-2@booking-swap'
+      );
+      expect(body).toContain(
+        'SUMMARY:Respond to proposal: Lisbon loft for Paris apartment'
+      );
+      expect(body).toContain('UID:auction_end-auction-1@booking-swap');
+      expect(body).toContain('SUMMARY:Auction you bid in ends: Rome villa');
+      expect(body).toContain('URL:https://app.example.com/swaps/swap-3');
+      expect(body.match(/TRIGGER:-PT60M/g)).toHaveLength(3);
+      expect(body).not.toContain('BEGIN:VTIMEZONE');
+    });
+
+    it('shows timed stays in the local time of the destination', async () => {
+      repository.findStays.mockResolvedValue([
+        stay({
+          checkIn: new Date('2025-06-01T13:00:00Z'),
+          checkOut: new Date('2025-06-05T09:00:00Z'),
+        }),
+      ]);
+
+      const body = unfold(await service.renderFeed('token', NOW));
+
+      expect(body).toContain('DTSTART;TZID=Europe/Paris:20250601T150000');
+      expect(body).toContain('DTEND;TZID=Europe/Paris:20250605T110000');
+      expect(body).toContain('BEGIN:VTIMEZONE\r\nTZID:Europe/Paris');
+      expect(body).toContain('TZOFFSETTO:+0200');
+    });
+
+    it('falls back to UTC when the location has no known zone', async () => {
+      repository.findStays.mockResolvedValue([
+        stay({
+          country: 'Atlantis',
+          city: 'Nowhere',
+          checkIn: new Date('2025-06-01T13:00:00Z'),
+        }),
+      ]);
+
+      const body = unfold(await service.renderFeed('token', NOW));
+
+      expect(body).toContain('DTSTART:20250601T130000Z');
+      expect(body).not.toContain('BEGIN:VTIMEZONE');
+    });
+  });
+
+  describe('renderSwapCalendar', () => {
+    it('rejects swaps the user has no part in', async () => {
+      await expect(
+        service.renderSwapCalendar('swap-1', USER, NOW)
+      ).rejects.toMatchObject({
+        code: CalendarErrorCodes.CALENDAR_SWAP_NOT_FOUND,
+      });
+    });
+
+    it('renders the stay, expiry and auction end of a swap', async () => {
+      repository.findSwapForUser.mockResolvedValue({
+        stay: stay(),
+        deadline: {
+          swapId: 'swap-1',
+          bookingId: 'booking-1',
+          bookingTitle: 'Paris apartment',
+          city: 'Paris',
+          country: 'France',
+          expiresAt: new Date('2025-05-20T18:00:00Z'),
+          updatedAt: NOW,
+        },
+        auctionEnd: {
+          auctionId: 'auction-1',
+          swapId: 'swap-1',
+          bookingTitle: 'Paris apartment',
+          city: 'Paris',
+          country: 'France',
+          endDate: new Date('2025-05-15T18:00:00Z'),
+          isOwner: true,
+          updatedAt: NOW,
+        },
+      });
+
+      const body = unfold(
+        await service.renderSwapCalendar('swap-1', USER, NOW)
+      );
+
+      expect(repository.findSwapForUser).toHaveBeenCalledWith('swap-1', USER);
+      expect(body).toContain('X-WR-CALNAME:Paris apartment');
+      expect(body).not.toContain('REFRESH-INTERVAL');
+      expect(body.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+      expect(body).toContain('SUMMARY:Auction ends: Paris apartment');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendar, escapeText, foldLine } from '../ics';
+import {
+  buildVTimeZone,
+  formatLocalDateTime,
+  resolveTimeZone,
+  utcOffsetMinutes,
+} from '../timezones';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+describe('ics', () => {
+  it('escapes text values', () => {
+    expect(escapeText('Beach, house; 2\\3\nfloor')).toBe(
+      'Beach\\, house\\; 2\\\\3\\nfloor'
+    );
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+    const pieces = folded.split('\r\n');
+
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach(piece =>
+      expect(Buffer.byteLength(piece)).toBeLessThanOrEqual(75)
+    );
+    expect(pieces.slice(1).every(piece => piece.startsWith(' '))).toBe(true);
+    expect(
+      pieces.map((piece, i) => (i ? piece.slice(1) : piece)).join('')
+    ).toBe(line);
+  });
+
+  it('writes all-day, UTC and zoned events with CRLF line endings', () => {
+    const body = buildCalendar(
+      {
+        name: 'Trips',
+        refreshIntervalMinutes: 60,
+        events: [
+          {
+            uid: 'stay-1@booking-swap',
+            summary: 'Stay: Paris',
+            start: { date: '20250601' },
+            end: { date: '20250606' },
+            lastModified: NOW,
+          },
+          {
+            uid: 'swap_expiration-1@booking-swap',
+            summary: 'Swap expires',
+            start: { utc: new Date('2025-05-20T09:30:00Z') },
+            lastModified: NOW,
+            alarmMinutesBefore: 60,
+          },
+          {
+            uid: 'stay-2@booking-swap',
+            summary: 'Stay: Rome',
+            start: { local: '20250701T150000', timeZone: 'Europe/Rome' },
+            lastModified: NOW,
+          },
+        ],
+      },
+      [],
+      NOW
+    );
+
+    expect(body.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(body.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(body).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+    expect(body).toContain('DTSTART;VALUE=DATE:20250601');
+    expect(body).toContain('DTEND;VALUE=DATE:20250606');
+    expect(body).toContain('DTSTART:20250520T093000Z');
+    expect(body).toContain('TRIGGER:-PT60M');
+    expect(body).toContain('DTSTART;TZID=Europe/Rome:20250701T150000');
+    expect(body).toContain('DTSTAMP:20250301T120000Z');
+  });
+});
+
+describe('timezones', () => {
+  it('resolves zones from the country, or the city in multi-zone countries', () => {
+    expect(resolveTimeZone({ city: 'Paris', country: 'France' })).toBe(
+      'Europe/Paris'
+    );
+    expect(resolveTimeZone({ city: 'Lyon', country: 'FR' })).toBe(
+      'Europe/Paris'
+    );
+    expect(resolveTimeZone({ city: 'Los Angeles', country: 'USA' })).toBe(
+      'America/Los_Angeles'
+    );
+    expect(
+      resolveTimeZone({ city: 'Nowhere', country: 'Atlantis' })
+    ).toBeUndefined();
+  });
+
+  it('formats wall-clock times and offsets across daylight saving', () => {
+    const summer = new Date('2025-07-01T13:00:00Z');
+    const winter = new Date('2025-01-15T14:00:00Z');
+
+    expect(formatLocalDateTime(summer, 'Europe/Paris')).toBe('20250701T150000');
+    expect(utcOffsetMinutes('Europe/Paris', summer)).toBe(120);
+    expect(utcOffsetMinutes('Europe/Paris', winter)).toBe(60);
+    expect(formatLocalDateTime(new Date('2025-01-01T00:00:00Z'), 'UTC')).toBe(
+      '20250101T000000'
+    );
+  });
+
+  it('describes daylight saving changes in a VTIMEZONE', () => {
+    const component = buildVTimeZone(
+      'Europe/Paris',
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-11-30T00:00:00Z')
+    );
+
+    expect(component.split('\r\n')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Paris',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250330T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251026T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('writes a single observance for zones without changes', () => {
+    const component = buildVTimeZone(
+      'Asia/Tokyo',
+      new Date('2025-06-01T00:00:00Z'),
+      new Date('2025-06-10T00:00:00Z')
+    );
+
+    expect(component).toContain('TZOFFSETTO:+0900');
+    expect(component).not.toContain('DAYLIGHT');
+  });
+});
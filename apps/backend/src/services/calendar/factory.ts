@@ -0,0 +1,26 @@
+import { Pool } from 'pg';
+import { CalendarService } from './CalendarService';
+import { CalendarRepository } from '../../database/repositories/CalendarRepository';
+
+let calendarService: CalendarService | null = null;
+
+export function createCalendarService(pool: Pool): CalendarService {
+  if (!calendarService) {
+    calendarService = new CalendarService(new CalendarRepository(pool), {
+      publicBaseUrl:
+        process.env.PUBLIC_API_URL ||
+        `http://localhost:${process.env.PORT || 3001}`,
+      frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+      pastWindowDays: parseInt(process.env.CALENDAR_PAST_WINDOW_DAYS || '30'),
+      deadlineAlarmMinutes: parseInt(
+        process.env.CALENDAR_DEADLINE_ALARM_MINUTES || '60'
+      ),
+    });
+  }
+
+  return calendarService;
+}
+
+export function resetCalendarService(): void {
+  calendarService = null;
+}
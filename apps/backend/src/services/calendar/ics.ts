@@ -0,0 +1,188 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for the event shapes the calendar
+ * feeds need: all-day events, timed events in UTC or in a named time zone,
+ * and a display alarm.
+ */
+
+export type IcsTime =
+  // All-day, as a calendar date
+  | { date: string }
+  // An instant, written in UTC
+  | { utc: Date }
+  // Wall-clock time in a time zone described by a VTIMEZONE in the calendar
+  | { local: string; timeZone: string };
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: IcsTime;
+  end?: IcsTime;
+  lastModified: Date;
+  // Show a reminder this many minutes before the start
+  alarmMinutesBefore?: number;
+  categories?: string[];
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  events: IcsEvent[];
+  // Hint to subscribing clients how often to poll
+  refreshIntervalMinutes?: number;
+}
+
+const PRODUCT_ID = '-//Booking Swap//Calendar Feed//EN';
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number, length: number = 2): string =>
+  String(value).padStart(length, '0');
+
+/**
+ * Format a Date as a UTC date-time, e.g. 20250601T140000Z
+ */
+export function formatUtcDateTime(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Format the UTC calendar date of a Date, e.g. 20250601
+ */
+export function formatUtcDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a content line into 75-octet pieces joined by CRLF and a space,
+ * without cutting through a multi-byte character
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    if (currentOctets + octets > limit) {
+      pieces.push(current);
+      current = '';
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  pieces.push(current);
+
+  return pieces.join('\r\n ');
+}
+
+function timeProperty(name: string, time: IcsTime): string {
+  if ('date' in time) {
+    return `${name};VALUE=DATE:${time.date}`;
+  }
+  if ('utc' in time) {
+    return `${name}:${formatUtcDateTime(time.utc)}`;
+  }
+  return `${name};TZID=${time.timeZone}:${time.local}`;
+}
+
+function eventLines(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(stamp)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`,
+    timeProperty('DTSTART', event.start),
+  ];
+
+  if (event.end) {
+    lines.push(timeProperty('DTEND', event.end));
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  // Deadlines and stays should not block out time in the user's calendar
+  lines.push('TRANSP:TRANSPARENT');
+
+  if (event.alarmMinutesBefore !== undefined) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${event.alarmMinutesBefore}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialise a calendar. VTIMEZONE components are passed in already built,
+ * since they depend on the date range of the events.
+ */
+export function buildCalendar(
+  calendar: IcsCalendar,
+  timeZoneComponents: string[] = [],
+  now: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  }
+  if (calendar.refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshIntervalMinutes}M`
+    );
+  }
+
+  for (const component of timeZoneComponents) {
+    lines.push(...component.split('\r\n'));
+  }
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
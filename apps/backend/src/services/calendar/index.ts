@@ -0,0 +1,6 @@
+export { CalendarService } from './CalendarService';
+export type { CalendarServiceOptions } from './CalendarService';
+export { createCalendarService, resetCalendarService } from './factory';
+export { buildCalendar } from './ics';
+export type { IcsCalendar, IcsEvent, IcsTime } from './ics';
+export { resolveTimeZone, buildVTimeZone } from './timezones';
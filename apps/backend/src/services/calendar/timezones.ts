@@ -0,0 +1,411 @@
+import { BookingLocation } from '@booking-swap/shared';
+
+/**
+ * Resolves a booking's IANA time zone from its free-text city and country,
+ * and converts instants to wall-clock time there. Countries spanning several
+ * zones are resolved by city where the city is known, and otherwise fall back
+ * to the zone most of their population lives in.
+ */
+
+const normalize = (value: string): string =>
+  value.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+
+// Keyed by normalised country name, common short name or ISO 3166 alpha-2/3 code
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  'united states': 'America/New_York',
+  'united states of america': 'America/New_York',
+  usa: 'America/New_York',
+  us: 'America/New_York',
+  canada: 'America/Toronto',
+  ca: 'America/Toronto',
+  mexico: 'America/Mexico_City',
+  mx: 'America/Mexico_City',
+  brazil: 'America/Sao_Paulo',
+  br: 'America/Sao_Paulo',
+  argentina: 'America/Argentina/Buenos_Aires',
+  ar: 'America/Argentina/Buenos_Aires',
+  chile: 'America/Santiago',
+  colombia: 'America/Bogota',
+  peru: 'America/Lima',
+  'costa rica': 'America/Costa_Rica',
+  cuba: 'America/Havana',
+  'dominican republic': 'America/Santo_Domingo',
+  'united kingdom': 'Europe/London',
+  uk: 'Europe/London',
+  gb: 'Europe/London',
+  gbr: 'Europe/London',
+  'great britain': 'Europe/London',
+  england: 'Europe/London',
+  scotland: 'Europe/London',
+  wales: 'Europe/London',
+  ireland: 'Europe/Dublin',
+  ie: 'Europe/Dublin',
+  france: 'Europe/Paris',
+  fr: 'Europe/Paris',
+  fra: 'Europe/Paris',
+  germany: 'Europe/Berlin',
+  de: 'Europe/Berlin',
+  deu: 'Europe/Berlin',
+  italy: 'Europe/Rome',
+  it: 'Europe/Rome',
+  ita: 'Europe/Rome',
+  spain: 'Europe/Madrid',
+  es: 'Europe/Madrid',
+  esp: 'Europe/Madrid',
+  portugal: 'Europe/Lisbon',
+  pt: 'Europe/Lisbon',
+  prt: 'Europe/Lisbon',
+  netherlands: 'Europe/Amsterdam',
+  'the netherlands': 'Europe/Amsterdam',
+  nl: 'Europe/Amsterdam',
+  belgium: 'Europe/Brussels',
+  be: 'Europe/Brussels',
+  luxembourg: 'Europe/Luxembourg',
+  switzerland: 'Europe/Zurich',
+  ch: 'Europe/Zurich',
+  austria: 'Europe/Vienna',
+  at: 'Europe/Vienna',
+  'czech republic': 'Europe/Prague',
+  czechia: 'Europe/Prague',
+  cz: 'Europe/Prague',
+  poland: 'Europe/Warsaw',
+  pl: 'Europe/Warsaw',
+  hungary: 'Europe/Budapest',
+  croatia: 'Europe/Zagreb',
+  slovenia: 'Europe/Ljubljana',
+  greece: 'Europe/Athens',
+  gr: 'Europe/Athens',
+  cyprus: 'Asia/Nicosia',
+  malta: 'Europe/Malta',
+  denmark: 'Europe/Copenhagen',
+  dk: 'Europe/Copenhagen',
+  sweden: 'Europe/Stockholm',
+  se: 'Europe/Stockholm',
+  norway: 'Europe/Oslo',
+  no: 'Europe/Oslo',
+  finland: 'Europe/Helsinki',
+  fi: 'Europe/Helsinki',
+  iceland: 'Atlantic/Reykjavik',
+  estonia: 'Europe/Tallinn',
+  latvia: 'Europe/Riga',
+  lithuania: 'Europe/Vilnius',
+  romania: 'Europe/Bucharest',
+  bulgaria: 'Europe/Sofia',
+  serbia: 'Europe/Belgrade',
+  montenegro: 'Europe/Podgorica',
+  turkey: 'Europe/Istanbul',
+  turkiye: 'Europe/Istanbul',
+  tr: 'Europe/Istanbul',
+  ukraine: 'Europe/Kyiv',
+  russia: 'Europe/Moscow',
+  ru: 'Europe/Moscow',
+  morocco: 'Africa/Casablanca',
+  egypt: 'Africa/Cairo',
+  kenya: 'Africa/Nairobi',
+  tanzania: 'Africa/Dar_es_Salaam',
+  'south africa': 'Africa/Johannesburg',
+  za: 'Africa/Johannesburg',
+  israel: 'Asia/Jerusalem',
+  jordan: 'Asia/Amman',
+  'united arab emirates': 'Asia/Dubai',
+  uae: 'Asia/Dubai',
+  ae: 'Asia/Dubai',
+  qatar: 'Asia/Qatar',
+  'saudi arabia': 'Asia/Riyadh',
+  india: 'Asia/Kolkata',
+  in: 'Asia/Kolkata',
+  'sri lanka': 'Asia/Colombo',
+  maldives: 'Indian/Maldives',
+  nepal: 'Asia/Kathmandu',
+  thailand: 'Asia/Bangkok',
+  th: 'Asia/Bangkok',
+  vietnam: 'Asia/Ho_Chi_Minh',
+  'viet nam': 'Asia/Ho_Chi_Minh',
+  cambodia: 'Asia/Phnom_Penh',
+  malaysia: 'Asia/Kuala_Lumpur',
+  singapore: 'Asia/Singapore',
+  sg: 'Asia/Singapore',
+  indonesia: 'Asia/Jakarta',
+  id: 'Asia/Jakarta',
+  philippines: 'Asia/Manila',
+  china: 'Asia/Shanghai',
+  cn: 'Asia/Shanghai',
+  'hong kong': 'Asia/Hong_Kong',
+  hk: 'Asia/Hong_Kong',
+  taiwan: 'Asia/Taipei',
+  japan: 'Asia/Tokyo',
+  jp: 'Asia/Tokyo',
+  jpn: 'Asia/Tokyo',
+  'south korea': 'Asia/Seoul',
+  korea: 'Asia/Seoul',
+  kr: 'Asia/Seoul',
+  australia: 'Australia/Sydney',
+  au: 'Australia/Sydney',
+  'new zealand': 'Pacific/Auckland',
+  nz: 'Pacific/Auckland',
+  fiji: 'Pacific/Fiji',
+};
+
+// Cities in countries with more than one zone, or whose zone differs from
+// the country default
+const CITY_TIME_ZONES: Record<string, string> = {
+  // United States
+  'los angeles': 'America/Los_Angeles',
+  'san francisco': 'America/Los_Angeles',
+  'san diego': 'America/Los_Angeles',
+  seattle: 'America/Los_Angeles',
+  portland: 'America/Los_Angeles',
+  'las vegas': 'America/Los_Angeles',
+  phoenix: 'America/Phoenix',
+  denver: 'America/Denver',
+  'salt lake city': 'America/Denver',
+  chicago: 'America/Chicago',
+  houston: 'America/Chicago',
+  dallas: 'America/Chicago',
+  austin: 'America/Chicago',
+  'san antonio': 'America/Chicago',
+  'new orleans': 'America/Chicago',
+  nashville: 'America/Chicago',
+  minneapolis: 'America/Chicago',
+  anchorage: 'America/Anchorage',
+  honolulu: 'Pacific/Honolulu',
+  maui: 'Pacific/Honolulu',
+  // Canada
+  vancouver: 'America/Vancouver',
+  whistler: 'America/Vancouver',
+  calgary: 'America/Edmonton',
+  banff: 'America/Edmonton',
+  edmonton: 'America/Edmonton',
+  winnipeg: 'America/Winnipeg',
+  montreal: 'America/Toronto',
+  halifax: 'America/Halifax',
+  // Mexico
+  cancun: 'America/Cancun',
+  tijuana: 'America/Tijuana',
+  // Brazil
+  manaus: 'America/Manaus',
+  // Spain and Portugal
+  'las palmas': 'Atlantic/Canary',
+  tenerife: 'Atlantic/Canary',
+  madeira: 'Atlantic/Madeira',
+  funchal: 'Atlantic/Madeira',
+  azores: 'Atlantic/Azores',
+  // Russia
+  'saint petersburg': 'Europe/Moscow',
+  'st petersburg': 'Europe/Moscow',
+  vladivostok: 'Asia/Vladivostok',
+  // Indonesia
+  bali: 'Asia/Makassar',
+  denpasar: 'Asia/Makassar',
+  ubud: 'Asia/Makassar',
+  lombok: 'Asia/Makassar',
+  // Australia
+  melbourne: 'Australia/Melbourne',
+  brisbane: 'Australia/Brisbane',
+  'gold coast': 'Australia/Brisbane',
+  cairns: 'Australia/Brisbane',
+  perth: 'Australia/Perth',
+  adelaide: 'Australia/Adelaide',
+  darwin: 'Australia/Darwin',
+  hobart: 'Australia/Hobart',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zone for a booking location, or undefined when it cannot be told
+ */
+export function resolveTimeZone(
+  location: Pick<BookingLocation, 'city' | 'country'>
+): string | undefined {
+  const city = location.city
+    ? CITY_TIME_ZONES[normalize(location.city)]
+    : undefined;
+  const zone =
+    city ||
+    (location.country
+      ? COUNTRY_TIME_ZONES[normalize(location.country)]
+      : undefined);
+
+  return zone && isValidTimeZone(zone) ? zone : undefined;
+}
+
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function localParts(date: Date, timeZone: string): LocalParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Wall-clock time of an instant in a zone, as an iCalendar local date-time
+ * (e.g. 20250601T150000)
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const p = localParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/**
+ * Offset from UTC in minutes of a zone at an instant, e.g. 120 for CEST
+ */
+export function utcOffsetMinutes(timeZone: string, date: Date): number {
+  const p = localParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+}
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find the instants between `from` and `to` where the zone's offset changes,
+ * to the minute. Scans day by day, then narrows each change down.
+ */
+function findTransitions(
+  timeZone: string,
+  from: Date,
+  to: Date
+): Array<{ at: Date; offsetFrom: number; offsetTo: number }> {
+  const transitions: Array<{ at: Date; offsetFrom: number; offsetTo: number }> =
+    [];
+  let previousTime = from.getTime();
+  let previousOffset = utcOffsetMinutes(timeZone, from);
+
+  for (
+    let time = previousTime + DAY_MS;
+    time <= to.getTime() + DAY_MS;
+    time += DAY_MS
+  ) {
+    const offset = utcOffsetMinutes(timeZone, new Date(time));
+    if (offset !== previousOffset) {
+      let low = previousTime;
+      let high = time;
+      while (high - low > 60 * 1000) {
+        const middle = low + Math.floor((high - low) / 2);
+        if (utcOffsetMinutes(timeZone, new Date(middle)) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      // Offsets change on a minute boundary, the first one after `low`
+      const at = new Date((Math.floor(low / 60000) + 1) * 60000);
+      transitions.push({ at, offsetFrom: previousOffset, offsetTo: offset });
+      previousOffset = offset;
+    }
+    previousTime = time;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE component describing a zone over a date range, with one
+ * observance per offset change in the range. Lines are CRLF-separated.
+ */
+export function buildVTimeZone(timeZone: string, from: Date, to: Date): string {
+  const transitions = findTransitions(timeZone, from, to);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(utcOffsetMinutes(timeZone, from));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD'
+    );
+  } else {
+    // The observance in force before the first change in the range
+    const first = transitions[0]!;
+    const initialIsDaylight = first.offsetFrom > first.offsetTo;
+    const initialKind = initialIsDaylight ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${initialKind}`,
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatOffset(first.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(first.offsetFrom)}`,
+      `END:${initialKind}`
+    );
+
+    for (const transition of transitions) {
+      const kind =
+        transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+      // DTSTART is the local time just before the change, in the old offset
+      const localStart = new Date(
+        transition.at.getTime() + transition.offsetFrom * 60000
+      );
+      lines.push(
+        `BEGIN:${kind}`,
+        `DTSTART:${localStart.toISOString().replace(/[-:]/g, '').slice(0, 15)}`,
+        `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+        `END:${kind}`
+      );
+    }
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines.join('\r\n');
+}
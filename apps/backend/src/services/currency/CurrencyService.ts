@@ -0,0 +1,146 @@
+import {
+  CURRENCIES,
+  ConvertedAmount,
+  CurrencyCode,
+  CurrencyError,
+  CurrencyErrorCodes,
+  CurrencyInfo,
+  FxRateTable,
+  MoneyAmount,
+  SUPPORTED_CURRENCIES,
+  convertWithRates,
+  isSupportedCurrency,
+} from '@booking-swap/shared';
+import { FxRateProvider } from './FxRateProvider';
+import { logger } from '../../utils/logger';
+
+export interface CurrencyServiceOptions {
+  /** How long a fetched rate table is reused */
+  cacheTtlMs?: number;
+  /** Refuse to convert with rates older than this. Unset means no limit. */
+  maxRateAgeMs?: number;
+}
+
+/**
+ * Currency support and conversion for cash offers. Amounts in different
+ * currencies are compared after converting them into one currency, usually
+ * the swap owner's.
+ */
+export class CurrencyService {
+  private cached?: { table: FxRateTable; fetchedAt: number };
+
+  constructor(
+    private provider: FxRateProvider,
+    private options: CurrencyServiceOptions = {}
+  ) {}
+
+  isSupported(currency: string): boolean {
+    return isSupportedCurrency(currency);
+  }
+
+  getSupportedCurrencies(): CurrencyInfo[] {
+    return SUPPORTED_CURRENCIES.map(code => CURRENCIES[code]);
+  }
+
+  getCurrencyInfo(currency: string): CurrencyInfo {
+    if (!isSupportedCurrency(currency)) {
+      throw new CurrencyError(
+        CurrencyErrorCodes.UNSUPPORTED_CURRENCY,
+        `Currency ${currency} is not supported`
+      );
+    }
+    return CURRENCIES[currency.toUpperCase() as CurrencyCode];
+  }
+
+  async getRates(): Promise<FxRateTable> {
+    const cacheTtlMs = this.options.cacheTtlMs ?? 5 * 60 * 1000;
+    if (!this.cached || Date.now() - this.cached.fetchedAt > cacheTtlMs) {
+      const table = await this.provider.getRates();
+      this.cached = { table, fetchedAt: Date.now() };
+      logger.debug('Loaded FX rates', {
+        provider: this.provider.name,
+        base: table.base,
+        asOf: table.asOf,
+      });
+    }
+
+    const { table } = this.cached;
+    const { maxRateAgeMs } = this.options;
+    if (
+      maxRateAgeMs !== undefined &&
+      Date.now() - table.asOf.getTime() > maxRateAgeMs
+    ) {
+      throw new CurrencyError(
+        CurrencyErrorCodes.RATES_STALE,
+        `FX rates from ${table.source} are older than allowed (as of ${table.asOf.toISOString()})`
+      );
+    }
+
+    return table;
+  }
+
+  async convert(
+    amount: number,
+    from: string,
+    to: string
+  ): Promise<ConvertedAmount> {
+    // Same-currency conversions must work even when no rates are available
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return convertWithRates(amount, from, to, {
+        base: this.getCurrencyInfo(from).code,
+        rates: {},
+        asOf: new Date(),
+        source: 'identity',
+      });
+    }
+
+    return convertWithRates(amount, from, to, await this.getRates());
+  }
+
+  /**
+   * Convert amounts into one currency, keeping their order
+   */
+  async normalize(
+    amounts: MoneyAmount[],
+    target: string
+  ): Promise<ConvertedAmount[]> {
+    return Promise.all(
+      amounts.map(money => this.convert(money.amount, money.currency, target))
+    );
+  }
+
+  /**
+   * Whether an offer is at least the minimum, comparing in the minimum's currency
+   */
+  async meetsMinimum(
+    offer: MoneyAmount,
+    minimum: MoneyAmount
+  ): Promise<boolean> {
+    const converted = await this.convert(
+      offer.amount,
+      offer.currency,
+      minimum.currency
+    );
+    return converted.amount >= minimum.amount;
+  }
+
+  /**
+   * Store new rates. Only providers backed by writable storage support this.
+   */
+  async updateRates(table: FxRateTable): Promise<void> {
+    if (!this.provider.saveRates) {
+      throw new Error(`FX rate provider ${this.provider.name} is read-only`);
+    }
+
+    for (const currency of [table.base, ...Object.keys(table.rates)]) {
+      this.getCurrencyInfo(currency);
+    }
+
+    await this.provider.saveRates(table);
+    this.cached = undefined;
+    logger.info('FX rates updated', {
+      provider: this.provider.name,
+      source: table.source,
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import {
+  CurrencyCode,
+  CurrencyError,
+  CurrencyErrorCodes,
+  FxRateTable,
+} from '@booking-swap/shared';
+import { FxRateRepository } from '../../database/repositories/FxRateRepository';
+
+/**
+ * Source of exchange rates. Providers are read through CurrencyService,
+ * which caches the table they return.
+ */
+export interface FxRateProvider {
+  readonly name: string;
+  getRates(): Promise<FxRateTable>;
+  /** Providers backed by writable storage accept rate updates */
+  saveRates?(table: FxRateTable): Promise<void>;
+}
+
+/**
+ * Rates bundled with the app, used when no other source is configured
+ */
+export const DEFAULT_FX_RATES: FxRateTable = {
+  base: 'USD',
+  rates: {
+    EUR: 0.92,
+    GBP: 0.79,
+    CAD: 1.36,
+    AUD: 1.52,
+  },
+  asOf: new Date('2025-01-26T00:00:00Z'),
+  source: 'bundled',
+};
+
+export class StaticFxRateProvider implements FxRateProvider {
+  readonly name = 'static';
+
+  constructor(private table: FxRateTable = DEFAULT_FX_RATES) {}
+
+  async getRates(): Promise<FxRateTable> {
+    return this.table;
+  }
+}
+
+/**
+ * Reads rates from a JSON file of the form
+ * `{ "base": "USD", "asOf": "<ISO date>", "rates": { "EUR": 0.92 } }`
+ */
+export class FileFxRateProvider implements FxRateProvider {
+  readonly name = 'file';
+
+  constructor(private filePath: string) {}
+
+  async getRates(): Promise<FxRateTable> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      throw new CurrencyError(
+        CurrencyErrorCodes.RATE_UNAVAILABLE,
+        `Could not read FX rates from ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!parsed?.base || typeof parsed.rates !== 'object') {
+      throw new CurrencyError(
+        CurrencyErrorCodes.RATE_UNAVAILABLE,
+        `FX rates file ${this.filePath} needs "base" and "rates"`
+      );
+    }
+
+    return {
+      base: String(parsed.base).toUpperCase() as CurrencyCode,
+      rates: parsed.rates,
+      asOf: parsed.asOf ? new Date(parsed.asOf) : new Date(),
+      source: parsed.source || 'file',
+    };
+  }
+}
+
+export class DatabaseFxRateProvider implements FxRateProvider {
+  readonly name = 'database';
+
+  constructor(private fxRateRepository: FxRateRepository) {}
+
+  async getRates(): Promise<FxRateTable> {
+    const table = await this.fxRateRepository.getRateTable();
+    if (!table) {
+      throw new CurrencyError(
+        CurrencyErrorCodes.RATE_UNAVAILABLE,
+        'No FX rates have been loaded'
+      );
+    }
+    return table;
+  }
+
+  async saveRates(table: FxRateTable): Promise<void> {
+    await this.fxRateRepository.saveRateTable(table);
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CurrencyErrorCodes, FxRateTable } from '@booking-swap/shared';
+import { CurrencyService } from '../CurrencyService';
+import { FxRateProvider, StaticFxRateProvider } from '../FxRateProvider';
+
+vi.mock('../../../utils/logger');
+
+describe('CurrencyService', () => {
+  const table = (overrides: Partial<FxRateTable> = {}): FxRateTable => ({
+    base: 'USD',
+    rates: { EUR: 0.8, GBP: 0.5, AUD: 10 },
+    asOf: new Date(),
+    source: 'test',
+    ...overrides,
+  });
+
+  let provider: FxRateProvider & { getRates: ReturnType<typeof vi.fn> };
+  let service: CurrencyService;
+
+  beforeEach(() => {
+    provider = {
+      name: 'test',
+      getRates: vi.fn(async () => table()),
+      saveRates: vi.fn(),
+    };
+    service = new CurrencyService(provider);
+  });
+
+  it('should convert through the base currency', async () => {
+    const converted = await service.convert(100, 'EUR', 'GBP');
+
+    expect(converted).toMatchObject({
+      amount: 62.5,
+      currency: 'GBP',
+      originalAmount: 100,
+      originalCurrency: 'EUR',
+    });
+  });
+
+  it('should accept lower-case currency codes', async () => {
+    expect((await service.convert(20, 'USD', 'AUD')).amount).toBe(200);
+    expect((await service.convert(200, 'aud', 'usd')).amount).toBe(20);
+  });
+
+  it('should not need rates for same-currency conversions', async () => {
+    provider.getRates.mockRejectedValue(new Error('rates offline'));
+
+    expect((await service.convert(42, 'EUR', 'EUR')).amount).toBe(42);
+  });
+
+  it('should reject unsupported currencies', async () => {
+    await expect(service.convert(10, 'XYZ', 'USD')).rejects.toMatchObject({
+      code: CurrencyErrorCodes.UNSUPPORTED_CURRENCY,
+    });
+  });
+
+  it('should not offer HBAR, which cannot be settled', async () => {
+    expect(service.isSupported('HBAR')).toBe(false);
+    expect(service.getSupportedCurrencies().map(c => c.code)).not.toContain(
+      'HBAR'
+    );
+  });
+
+  it('should report a missing rate', async () => {
+    await expect(service.convert(10, 'USD', 'CAD')).rejects.toMatchObject({
+      code: CurrencyErrorCodes.RATE_UNAVAILABLE,
+    });
+  });
+
+  it('should compare an offer against a minimum in another currency', async () => {
+    const minimum = { amount: 100, currency: 'USD' };
+
+    expect(
+      await service.meetsMinimum({ amount: 80, currency: 'EUR' }, minimum)
+    ).toBe(true);
+    expect(
+      await service.meetsMinimum({ amount: 79, currency: 'EUR' }, minimum)
+    ).toBe(false);
+  });
+
+  it('should cache rates until the TTL expires', async () => {
+    service = new CurrencyService(provider, { cacheTtlMs: 60_000 });
+
+    await service.convert(1, 'USD', 'EUR');
+    await service.convert(1, 'USD', 'GBP');
+
+    expect(provider.getRates).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse rates older than the maximum age', async () => {
+    provider.getRates.mockResolvedValue(
+      table({ asOf: new Date(Date.now() - 2 * 60 * 60 * 1000) })
+    );
+    service = new CurrencyService(provider, { maxRateAgeMs: 60 * 60 * 1000 });
+
+    await expect(service.convert(1, 'USD', 'EUR')).rejects.toMatchObject({
+      code: CurrencyErrorCodes.RATES_STALE,
+    });
+  });
+
+  it('should save new rates and drop the cached table', async () => {
+    await service.getRates();
+    const updated = table({ rates: { EUR: 0.9 }, source: 'admin' });
+
+    await service.updateRates(updated);
+    await service.getRates();
+
+    expect(provider.saveRates).toHaveBeenCalledWith(updated);
+    expect(provider.getRates).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not update a read-only provider', async () => {
+    service = new CurrencyService(new StaticFxRateProvider());
+
+    await expect(service.updateRates(table())).rejects.toThrow('read-only');
+  });
+});
@@ -0,0 +1,47 @@
+import { Pool } from 'pg';
+import { CurrencyService } from './CurrencyService';
+import {
+  DatabaseFxRateProvider,
+  FileFxRateProvider,
+  FxRateProvider,
+  StaticFxRateProvider,
+} from './FxRateProvider';
+import { FxRateRepository } from '../../database/repositories/FxRateRepository';
+
+let currencyService: CurrencyService | null = null;
+
+/**
+ * Rate source selected by FX_RATE_PROVIDER: 'database' (default), 'file'
+ * (reads FX_RATES_FILE) or 'static' (bundled rates)
+ */
+function createFxRateProvider(pool: Pool): FxRateProvider {
+  switch (process.env.FX_RATE_PROVIDER) {
+    case 'file':
+      return new FileFxRateProvider(
+        process.env.FX_RATES_FILE || 'fx-rates.json'
+      );
+    case 'static':
+      return new StaticFxRateProvider();
+    default:
+      return new DatabaseFxRateProvider(new FxRateRepository(pool));
+  }
+}
+
+export function createCurrencyService(pool: Pool): CurrencyService {
+  if (!currencyService) {
+    const maxAgeHours = process.env.FX_RATES_MAX_AGE_HOURS;
+
+    currencyService = new CurrencyService(createFxRateProvider(pool), {
+      cacheTtlMs: parseInt(process.env.FX_RATES_CACHE_TTL_MS || '300000'),
+      maxRateAgeMs: maxAgeHours
+        ? parseFloat(maxAgeHours) * 60 * 60 * 1000
+        : undefined,
+    });
+  }
+
+  return currencyService;
+}
+
+export function resetCurrencyService(): void {
+  currencyService = null;
+}
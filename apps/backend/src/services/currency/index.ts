@@ -0,0 +1,11 @@
+export { CurrencyService } from './CurrencyService';
+export {
+  StaticFxRateProvider,
+  FileFxRateProvider,
+  DatabaseFxRateProvider,
+  DEFAULT_FX_RATES,
+} from './FxRateProvider';
+export { createCurrencyService, resetCurrencyService } from './factory';
+
+export type { CurrencyServiceOptions } from './CurrencyService';
+export type { FxRateProvider } from './FxRateProvider';
@@ -0,0 +1,841 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DISPUTE_EVIDENCE_CONTENT_TYPES,
+  DISPUTE_SLA_HOURS,
+  DISPUTE_TRANSITIONS,
+  Dispute,
+  DisputeDetails,
+  DisputeError,
+  DisputeErrorCodes,
+  DisputeEvidence,
+  DisputeFilters,
+  DisputePriority,
+  DisputeResolution,
+  DisputeResolutionAction,
+  DisputeStatus,
+  DisputeType,
+  EscrowAccount,
+  MAX_DISPUTE_EVIDENCE_BYTES,
+  NotificationChannel,
+  OpenDisputeRequest,
+  PaymentTransaction,
+  ResolveDisputeRequest,
+  TransitionDisputeRequest,
+} from '@booking-swap/shared';
+import {
+  DisputeRepository,
+  StoredDisputeEvidence,
+} from '../../database/repositories/DisputeRepository';
+import { ReviewRepository } from '../../database/repositories/ReviewRepository';
+import { SwapRepository } from '../../database/repositories/SwapRepository';
+import { BookingRepository } from '../../database/repositories/BookingRepository';
+import { PaymentRepository } from '../../database/repositories/PaymentRepository';
+import { PaymentProcessingService } from '../payment/PaymentProcessingService';
+import { HederaService } from '../hedera/HederaService';
+import { NotificationService } from '../notification/NotificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { FileStore } from '../storage/FileStore';
+import { logger } from '../../utils/logger';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_DESCRIPTION_LENGTH = 5000;
+const MAX_NOTES_LENGTH = 5000;
+const MAX_FILE_NAME_LENGTH = 255;
+
+const DISPUTABLE_SWAP_STATUSES = ['accepted', 'completed'];
+const DISPUTE_TYPES: DisputeType[] = [
+  'fraud',
+  'booking_invalid',
+  'payment_issue',
+  'other',
+];
+const DISPUTE_PRIORITIES: DisputePriority[] = [
+  'low',
+  'medium',
+  'high',
+  'critical',
+];
+const RESOLUTION_ACTIONS: DisputeResolutionAction[] = [
+  'release_funds',
+  'refund',
+  'partial_refund',
+  'no_action',
+];
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'in_app'];
+
+const STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'open',
+  investigating: 'under investigation',
+  awaiting_party: 'waiting on a reply',
+  resolved: 'resolved',
+  closed: 'closed',
+};
+
+const OUTCOME_LABELS: Record<DisputeResolutionAction, string> = {
+  release_funds: 'held funds were released to the recipient',
+  refund: 'held funds were refunded to the payer',
+  partial_refund: 'held funds were partially refunded to the payer',
+  no_action: 'no change to payments',
+};
+
+export interface DisputeServiceOptions {
+  /** How often active disputes are checked against their SLA */
+  slaCheckIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: DisputeServiceOptions = {
+  slaCheckIntervalMs: 15 * 60 * 1000,
+};
+
+export interface EvidenceUpload {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+  description?: string;
+}
+
+export interface DisputeViewer {
+  userId: string;
+  /** Support staff can see and act on every dispute */
+  isAdmin?: boolean;
+}
+
+/**
+ * Disputes raised by a swap party about an accepted or completed swap.
+ * Opening a dispute freezes the swap's escrow; support staff investigate,
+ * may wait on either party, and resolve it by releasing or refunding the
+ * held funds. Each active status has an SLA deadline, and breaches are
+ * flagged and escalated by a recurring job.
+ */
+export class DisputeService {
+  private options: DisputeServiceOptions;
+
+  constructor(
+    private disputeRepository: DisputeRepository,
+    private reviewRepository: ReviewRepository,
+    private swapRepository: SwapRepository,
+    private bookingRepository: BookingRepository,
+    private paymentRepository: PaymentRepository,
+    private paymentService: PaymentProcessingService,
+    private hederaService: HederaService,
+    private notificationService: NotificationService,
+    private fileStore: FileStore,
+    private jobScheduler?: JobScheduler,
+    options: Partial<DisputeServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async openDispute(
+    reporterId: string,
+    request: OpenDisputeRequest
+  ): Promise<Dispute> {
+    this.validateOpenRequest(request);
+
+    const swap = await this.reviewRepository.findReviewableSwap(request.swapId);
+    if (!swap) {
+      throw new DisputeError(
+        DisputeErrorCodes.SWAP_NOT_FOUND,
+        'Swap not found'
+      );
+    }
+    if (!DISPUTABLE_SWAP_STATUSES.includes(swap.status)) {
+      throw new DisputeError(
+        DisputeErrorCodes.SWAP_NOT_DISPUTABLE,
+        `Only accepted or completed swaps can be disputed, this one is ${swap.status}`
+      );
+    }
+    if (!swap.partyIds.includes(reporterId)) {
+      throw new DisputeError(
+        DisputeErrorCodes.NOT_SWAP_PARTY,
+        'Only the parties to a swap can dispute it'
+      );
+    }
+
+    const reportedUserId = swap.partyIds.find(id => id !== reporterId);
+    if (!reportedUserId) {
+      throw new DisputeError(
+        DisputeErrorCodes.SWAP_NOT_DISPUTABLE,
+        'This swap has no counterparty to dispute with'
+      );
+    }
+
+    const existing = await this.disputeRepository.findActiveForReporter(
+      request.swapId,
+      reporterId
+    );
+    if (existing) {
+      throw new DisputeError(
+        DisputeErrorCodes.DISPUTE_ALREADY_OPEN,
+        'You already have an open dispute about this swap',
+        { disputeId: existing.id }
+      );
+    }
+
+    const now = new Date();
+    const dispute = await this.disputeRepository.createWithEvent({
+      swapId: request.swapId,
+      reporterId,
+      reportedUserId,
+      type: request.type,
+      description: request.description.trim(),
+      status: 'open',
+      priority: request.priority || 'medium',
+      slaDueAt: this.slaDueAt('open', now),
+    });
+
+    try {
+      await this.paymentService.holdEscrowsForDispute(request.swapId);
+    } catch (error) {
+      // The dispute stands; support can still act on the escrow manually
+      logger.error('Failed to hold escrow for dispute', {
+        disputeId: dispute.id,
+        swapId: request.swapId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await this.notifyParties(
+      dispute,
+      'dispute_opened',
+      {
+        disputeType: request.type.replace('_', ' '),
+        description: dispute.description,
+      },
+      [reportedUserId]
+    );
+
+    logger.info('Dispute opened', {
+      disputeId: dispute.id,
+      swapId: dispute.swapId,
+      reporterId,
+    });
+    return dispute;
+  }
+
+  async addEvidence(
+    disputeId: string,
+    viewer: DisputeViewer,
+    upload: EvidenceUpload
+  ): Promise<DisputeEvidence> {
+    const dispute = await this.getVisibleDispute(disputeId, viewer);
+    if (this.isFinal(dispute.status)) {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_EVIDENCE,
+        `Evidence cannot be added to a ${dispute.status} dispute`
+      );
+    }
+    this.validateEvidence(upload);
+
+    const extension = path.extname(upload.fileName).toLowerCase();
+    const storageKey = `disputes/${dispute.id}/${uuidv4()}${extension}`;
+    await this.fileStore.put(storageKey, upload.data);
+
+    try {
+      const evidence = await this.disputeRepository.addEvidence({
+        disputeId: dispute.id,
+        uploadedBy: viewer.userId,
+        fileName: upload.fileName,
+        contentType: upload.contentType,
+        sizeBytes: upload.data.length,
+        storageKey,
+        description: upload.description,
+      });
+      return this.toPublicEvidence(evidence);
+    } catch (error) {
+      // Do not leave orphaned files behind
+      await this.fileStore.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async getEvidenceFile(
+    disputeId: string,
+    evidenceId: string,
+    viewer: DisputeViewer
+  ): Promise<{ evidence: DisputeEvidence; data: Buffer }> {
+    await this.getVisibleDispute(disputeId, viewer);
+
+    const evidence = await this.disputeRepository.findEvidenceById(
+      disputeId,
+      evidenceId
+    );
+    const data = evidence
+      ? await this.fileStore.get(evidence.storageKey)
+      : null;
+    if (!evidence || !data) {
+      throw new DisputeError(
+        DisputeErrorCodes.EVIDENCE_NOT_FOUND,
+        'Evidence not found'
+      );
+    }
+
+    return { evidence: this.toPublicEvidence(evidence), data };
+  }
+
+  async getDisputeDetails(
+    disputeId: string,
+    viewer: DisputeViewer
+  ): Promise<DisputeDetails> {
+    const dispute = await this.getVisibleDispute(disputeId, viewer);
+    const [evidence, events] = await Promise.all([
+      this.disputeRepository.findEvidence(dispute.id),
+      this.disputeRepository.findEvents(dispute.id),
+    ]);
+
+    return {
+      dispute,
+      evidence: evidence.map(item => this.toPublicEvidence(item)),
+      events,
+    };
+  }
+
+  async listDisputesForUser(
+    userId: string,
+    filters: Omit<DisputeFilters, 'userId'> = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ disputes: Dispute[]; total: number }> {
+    return this.disputeRepository.findByFilters(
+      { ...filters, userId },
+      limit,
+      offset
+    );
+  }
+
+  async listDisputes(
+    filters: DisputeFilters = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ disputes: Dispute[]; total: number }> {
+    return this.disputeRepository.findByFilters(filters, limit, offset);
+  }
+
+  /**
+   * Move a dispute along its workflow. Resolving goes through
+   * resolveDispute, which also settles the held funds.
+   */
+  async transitionDispute(
+    disputeId: string,
+    adminId: string,
+    request: TransitionDisputeRequest
+  ): Promise<Dispute> {
+    const dispute = await this.getDispute(disputeId);
+
+    if (request.status === 'resolved') {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_TRANSITION,
+        'Use the resolve action to resolve a dispute'
+      );
+    }
+    this.assertTransition(dispute.status, request.status);
+
+    if (request.status === 'awaiting_party') {
+      const parties = [dispute.reporterId, dispute.reportedUserId];
+      if (
+        !request.awaitingPartyId ||
+        !parties.includes(request.awaitingPartyId)
+      ) {
+        throw new DisputeError(
+          DisputeErrorCodes.INVALID_DISPUTE,
+          'awaitingPartyId must be the reporter or the reported user'
+        );
+      }
+    }
+
+    const now = new Date();
+    const slaDueAt = this.slaDueAt(request.status, now);
+    const clear: Array<'awaitingPartyId' | 'slaDueAt' | 'slaBreachedAt'> = [
+      'slaBreachedAt',
+    ];
+    if (request.status !== 'awaiting_party') {
+      clear.push('awaitingPartyId');
+    }
+    if (!slaDueAt) {
+      clear.push('slaDueAt');
+    }
+
+    const updated = await this.disputeRepository.updateWithEvent(
+      dispute.id,
+      {
+        status: request.status,
+        assignedTo: dispute.assignedTo || adminId,
+        awaitingPartyId:
+          request.status === 'awaiting_party'
+            ? request.awaitingPartyId
+            : undefined,
+        slaDueAt,
+      },
+      {
+        type: 'status_changed',
+        actorId: adminId,
+        fromStatus: dispute.status,
+        toStatus: request.status,
+        note: request.note,
+      },
+      clear
+    );
+    if (!updated) {
+      throw this.notFound();
+    }
+
+    await this.notifyParties(updated, 'dispute_status_changed', {
+      statusLabel: STATUS_LABELS[updated.status],
+      note: request.note,
+      respondBy: updated.slaDueAt?.toUTCString(),
+    });
+
+    logger.info('Dispute status changed', {
+      disputeId: dispute.id,
+      from: dispute.status,
+      to: updated.status,
+      adminId,
+    });
+    return updated;
+  }
+
+  /**
+   * Resolve (or close) a dispute and settle the escrow held for its swap.
+   * The dispute is only marked resolved once the payment side succeeded.
+   */
+  async resolveDispute(
+    disputeId: string,
+    adminId: string,
+    request: ResolveDisputeRequest
+  ): Promise<Dispute> {
+    this.validateResolveRequest(request);
+
+    const targetStatus: DisputeStatus = request.close ? 'closed' : 'resolved';
+
+    // The row stays locked while the escrow is settled, so a second admin
+    // resolving at the same time waits and then fails the status check
+    // instead of settling the escrow twice
+    const updated = await this.disputeRepository.updateLockedWithEvent(
+      disputeId,
+      async dispute => {
+        this.assertTransition(dispute.status, targetStatus);
+
+        const escrows = await this.paymentRepository.findEscrowAccounts({
+          swapId: dispute.swapId,
+        });
+        const settled = await this.settleEscrows(
+          dispute,
+          adminId,
+          request,
+          escrows
+        );
+
+        if (request.action === 'refund') {
+          await this.cancelUncompletedSwap(dispute.swapId);
+        }
+
+        const resolution: DisputeResolution = {
+          action: request.action,
+          notes: request.notes.trim(),
+          amount: settled.amount,
+          currency: settled.currency,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+          paymentTransactionId: settled.payment?.id,
+          blockchainTransactionId: settled.blockchainTransactionId,
+        };
+
+        return {
+          updates: { status: targetStatus, resolution },
+          event: {
+            type: 'resolved',
+            actorId: adminId,
+            fromStatus: dispute.status,
+            toStatus: targetStatus,
+            note: resolution.notes,
+          },
+          clear: ['awaitingPartyId', 'slaDueAt'],
+        };
+      }
+    );
+    if (!updated) {
+      throw this.notFound();
+    }
+
+    await this.notifyParties(updated, 'dispute_resolved', {
+      outcome: OUTCOME_LABELS[request.action],
+      notes: request.notes.trim(),
+    });
+
+    logger.info('Dispute resolved', {
+      disputeId: updated.id,
+      action: request.action,
+      status: targetStatus,
+      adminId,
+    });
+    return updated;
+  }
+
+  /**
+   * Flag disputes that passed their SLA deadline and raise their priority
+   * one level. Returns the number of breaches flagged.
+   */
+  async checkSlaBreaches(now: Date = new Date()): Promise<number> {
+    const overdue = await this.disputeRepository.findSlaBreaches(now);
+    let flagged = 0;
+
+    for (const dispute of overdue) {
+      const priority =
+        DISPUTE_PRIORITIES[
+          Math.min(
+            DISPUTE_PRIORITIES.indexOf(dispute.priority) + 1,
+            DISPUTE_PRIORITIES.length - 1
+          )
+        ];
+
+      try {
+        await this.disputeRepository.updateWithEvent(
+          dispute.id,
+          { slaBreachedAt: now, priority },
+          {
+            type: 'sla_breached',
+            fromStatus: dispute.status,
+            toStatus: dispute.status,
+            note: `SLA for ${dispute.status} was due at ${dispute.slaDueAt?.toISOString()}`,
+          }
+        );
+        flagged++;
+      } catch (error) {
+        logger.error('Failed to flag dispute SLA breach', {
+          disputeId: dispute.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (flagged > 0) {
+      logger.warn('Dispute SLA breaches flagged', { count: flagged });
+    }
+    return flagged;
+  }
+
+  registerJobHandlers(): void {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.DISPUTE_SLA_CHECK,
+      async () => {
+        await this.checkSlaBreaches();
+      },
+      { intervalMs: this.options.slaCheckIntervalMs }
+    );
+  }
+
+  /**
+   * Apply the resolution to the escrow held for the swap and record the
+   * outcome on Hedera. Escrows released before the dispute was opened can
+   * still be refunded.
+   */
+  private async settleEscrows(
+    dispute: Dispute,
+    adminId: string,
+    request: ResolveDisputeRequest,
+    escrows: EscrowAccount[]
+  ): Promise<{
+    amount?: number;
+    currency?: string;
+    payment?: PaymentTransaction;
+    blockchainTransactionId?: string;
+  }> {
+    const held = escrows.filter(
+      escrow => escrow.status === 'disputed' || escrow.status === 'funded'
+    );
+
+    if (request.action === 'no_action') {
+      // Unfreeze escrows so the swap can complete normally
+      for (const escrow of held.filter(e => e.status === 'disputed')) {
+        await this.paymentRepository.updateEscrowStatus(escrow.id, 'funded');
+      }
+      return {};
+    }
+
+    const refundable =
+      request.action === 'release_funds'
+        ? held
+        : [...held, ...escrows.filter(escrow => escrow.status === 'released')];
+    const escrow = refundable[0];
+    if (!escrow) {
+      throw new DisputeError(
+        DisputeErrorCodes.RESOLUTION_FAILED,
+        'There are no held funds for this swap to release or refund'
+      );
+    }
+    if (request.amount !== undefined && request.amount > escrow.amount) {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_DISPUTE,
+        `amount cannot exceed the held ${escrow.amount} ${escrow.currency}`
+      );
+    }
+
+    const reason = `Dispute ${dispute.id}: ${request.notes.trim()}`;
+    let payment: PaymentTransaction;
+    let amount: number;
+    try {
+      if (request.action === 'release_funds') {
+        amount = escrow.amount;
+        payment = await this.paymentService.releaseEscrow({
+          escrowId: escrow.id,
+          recipientId: escrow.recipientId,
+          amount,
+          reason,
+          disputeId: dispute.id,
+        });
+      } else {
+        amount =
+          request.action === 'partial_refund' ? request.amount! : escrow.amount;
+        payment = await this.paymentService.refundEscrow({
+          escrowId: escrow.id,
+          amount,
+          reason,
+          disputeId: dispute.id,
+        });
+      }
+    } catch (error) {
+      logger.error('Dispute resolution payment failed', {
+        disputeId: dispute.id,
+        escrowId: escrow.id,
+        action: request.action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new DisputeError(
+        DisputeErrorCodes.RESOLUTION_FAILED,
+        'The held funds could not be settled, the dispute was left unresolved',
+        { escrowId: escrow.id }
+      );
+    }
+
+    let blockchainTransactionId: string | undefined;
+    try {
+      blockchainTransactionId =
+        await this.hederaService.recordPaymentDisputeResolution({
+          transactionId: payment.id,
+          disputeId: dispute.id,
+          resolution:
+            request.action === 'release_funds' ? 'release' : request.action,
+          amount,
+          reason: request.notes.trim(),
+          resolvedBy: adminId,
+        });
+    } catch (error) {
+      // The money has moved; a missing ledger record must not undo that
+      logger.error('Failed to record dispute resolution on Hedera', {
+        disputeId: dispute.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return {
+      amount,
+      currency: escrow.currency,
+      payment,
+      blockchainTransactionId,
+    };
+  }
+
+  /**
+   * A full refund undoes a swap that has not completed yet: the swap is
+   * cancelled and its booking listed again
+   */
+  private async cancelUncompletedSwap(swapId: string): Promise<void> {
+    const swap = await this.swapRepository.findById(swapId);
+    if (!swap || swap.status !== 'accepted') {
+      return;
+    }
+
+    await this.swapRepository.updateStatus(swapId, 'cancelled');
+    await this.bookingRepository.updateStatus(
+      swap.sourceBookingId,
+      'available'
+    );
+  }
+
+  private async notifyParties(
+    dispute: Dispute,
+    type: 'dispute_opened' | 'dispute_status_changed' | 'dispute_resolved',
+    data: Record<string, any>,
+    recipients: string[] = [dispute.reporterId, dispute.reportedUserId]
+  ): Promise<void> {
+    const swap = await this.swapRepository
+      .findById(dispute.swapId)
+      .catch(() => null);
+    const booking = swap
+      ? await this.bookingRepository
+          .findById(swap.sourceBookingId)
+          .catch(() => null)
+      : null;
+
+    for (const userId of recipients) {
+      try {
+        await this.notificationService.sendNotification(
+          type,
+          userId,
+          {
+            disputeId: dispute.id,
+            swapId: dispute.swapId,
+            bookingTitle: booking?.title || 'your swap',
+            awaitingYou: dispute.awaitingPartyId === userId,
+            disputeUrl: `${process.env.FRONTEND_URL}/disputes/${dispute.id}`,
+            ...data,
+          },
+          NOTIFICATION_CHANNELS
+        );
+      } catch (error) {
+        logger.error('Failed to send dispute notification', {
+          disputeId: dispute.id,
+          type,
+          userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private async getDispute(disputeId: string): Promise<Dispute> {
+    const dispute = await this.disputeRepository.findById(disputeId);
+    if (!dispute) {
+      throw this.notFound();
+    }
+    return dispute;
+  }
+
+  private async getVisibleDispute(
+    disputeId: string,
+    viewer: DisputeViewer
+  ): Promise<Dispute> {
+    const dispute = await this.getDispute(disputeId);
+    const isParty =
+      dispute.reporterId === viewer.userId ||
+      dispute.reportedUserId === viewer.userId;
+    // Do not reveal disputes to users outside the swap
+    if (!isParty && !viewer.isAdmin) {
+      throw this.notFound();
+    }
+    return dispute;
+  }
+
+  private assertTransition(from: DisputeStatus, to: DisputeStatus): void {
+    if (!DISPUTE_TRANSITIONS[from]?.includes(to)) {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_TRANSITION,
+        `A ${from} dispute cannot move to ${to}`
+      );
+    }
+  }
+
+  private slaDueAt(status: DisputeStatus, from: Date): Date | undefined {
+    const hours = DISPUTE_SLA_HOURS[status];
+    return hours ? new Date(from.getTime() + hours * HOUR_MS) : undefined;
+  }
+
+  private isFinal(status: DisputeStatus): boolean {
+    return DISPUTE_TRANSITIONS[status].length === 0;
+  }
+
+  private validateOpenRequest(request: OpenDisputeRequest): void {
+    if (!request.swapId) {
+      throw this.invalid('swapId is required');
+    }
+    if (!DISPUTE_TYPES.includes(request.type)) {
+      throw this.invalid(`type must be one of ${DISPUTE_TYPES.join(', ')}`);
+    }
+    if (!request.description?.trim()) {
+      throw this.invalid('description is required');
+    }
+    if (request.description.length > MAX_DESCRIPTION_LENGTH) {
+      throw this.invalid(
+        `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+      );
+    }
+    if (request.priority && !DISPUTE_PRIORITIES.includes(request.priority)) {
+      throw this.invalid(
+        `priority must be one of ${DISPUTE_PRIORITIES.join(', ')}`
+      );
+    }
+  }
+
+  private validateResolveRequest(request: ResolveDisputeRequest): void {
+    if (!RESOLUTION_ACTIONS.includes(request.action)) {
+      throw this.invalid(
+        `action must be one of ${RESOLUTION_ACTIONS.join(', ')}`
+      );
+    }
+    if (!request.notes?.trim()) {
+      throw this.invalid('notes are required');
+    }
+    if (request.notes.length > MAX_NOTES_LENGTH) {
+      throw this.invalid(
+        `notes must be at most ${MAX_NOTES_LENGTH} characters`
+      );
+    }
+    if (
+      request.action === 'partial_refund' &&
+      !(typeof request.amount === 'number' && request.amount > 0)
+    ) {
+      throw this.invalid('A partial refund needs a positive amount');
+    }
+  }
+
+  private validateEvidence(upload: EvidenceUpload): void {
+    const fileName = upload.fileName?.trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_EVIDENCE,
+        `fileName is required and at most ${MAX_FILE_NAME_LENGTH} characters`
+      );
+    }
+    if (
+      !(DISPUTE_EVIDENCE_CONTENT_TYPES as readonly string[]).includes(
+        upload.contentType
+      )
+    ) {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_EVIDENCE,
+        `Evidence must be one of ${DISPUTE_EVIDENCE_CONTENT_TYPES.join(', ')}`
+      );
+    }
+    if (
+      upload.data.length === 0 ||
+      upload.data.length > MAX_DISPUTE_EVIDENCE_BYTES
+    ) {
+      throw new DisputeError(
+        DisputeErrorCodes.INVALID_EVIDENCE,
+        `Evidence must be between 1 byte and ${MAX_DISPUTE_EVIDENCE_BYTES / (1024 * 1024)} MB`
+      );
+    }
+  }
+
+  /**
+   * Evidence without its storage key, which stays internal
+   */
+  private toPublicEvidence(evidence: StoredDisputeEvidence): DisputeEvidence {
+    return {
+      id: evidence.id,
+      disputeId: evidence.disputeId,
+      uploadedBy: evidence.uploadedBy,
+      fileName: evidence.fileName,
+      contentType: evidence.contentType,
+      sizeBytes: evidence.sizeBytes,
+      description: evidence.description,
+      createdAt: evidence.createdAt,
+    };
+  }
+
+  private invalid(message: string): DisputeError {
+    return new DisputeError(DisputeErrorCodes.INVALID_DISPUTE, message);
+  }
+
+  private notFound(): DisputeError {
+    return new DisputeError(
+      DisputeErrorCodes.DISPUTE_NOT_FOUND,
+      'Dispute not found'
+    );
+  }
+}
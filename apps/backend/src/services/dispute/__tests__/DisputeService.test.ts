@@ -0,0 +1,499 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  Dispute,
+  DisputeErrorCodes,
+  EscrowAccount,
+  MAX_DISPUTE_EVIDENCE_BYTES,
+} from '@booking-swap/shared';
+import { DisputeService } from '../DisputeService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const REPORTER = 'user-1';
+const COUNTERPARTY = 'user-2';
+const ADMIN = 'admin-1';
+
+const makeDispute = (overrides: Partial<Dispute> = {}): Dispute => ({
+  id: 'dispute-1',
+  swapId: 'swap-1',
+  reporterId: REPORTER,
+  reportedUserId: COUNTERPARTY,
+  type: 'booking_invalid',
+  description: 'The booking was cancelled by the hotel',
+  status: 'investigating',
+  priority: 'medium',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const makeEscrow = (overrides: Partial<EscrowAccount> = {}): EscrowAccount => ({
+  id: 'escrow-1',
+  transactionId: 'placeholder-1',
+  swapId: 'swap-1',
+  proposalId: 'proposal-1',
+  payerId: REPORTER,
+  recipientId: COUNTERPARTY,
+  amount: 400,
+  currency: 'USD',
+  status: 'disputed',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('DisputeService', () => {
+  let service: DisputeService;
+  let disputeRepository: any;
+  let reviewRepository: any;
+  let swapRepository: any;
+  let bookingRepository: any;
+  let paymentRepository: any;
+  let paymentService: any;
+  let hederaService: any;
+  let notificationService: any;
+  let fileStore: any;
+
+  beforeEach(() => {
+    disputeRepository = {
+      findById: vi.fn(),
+      findActiveForReporter: vi.fn().mockResolvedValue(null),
+      createWithEvent: vi.fn(async (dispute: any) => ({
+        ...dispute,
+        id: 'dispute-1',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })),
+      updateWithEvent: vi.fn(async (id: string, updates: any) => ({
+        ...makeDispute({ id }),
+        ...updates,
+      })),
+      // Runs the change against the stored dispute, as the row lock would
+      updateLockedWithEvent: vi.fn(async (id: string, derive: any) => {
+        const current = await disputeRepository.findById(id);
+        if (!current) return null;
+        const { updates, event, clear } = await derive(current);
+        return disputeRepository.updateWithEvent(id, updates, event, clear);
+      }),
+      addEvidence: vi.fn(async (data: any) => ({
+        ...data,
+        id: 'evidence-1',
+        createdAt: new Date(),
+      })),
+      findSlaBreaches: vi.fn(),
+    };
+    reviewRepository = {
+      findReviewableSwap: vi.fn().mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'accepted',
+        partyIds: [COUNTERPARTY, REPORTER],
+      }),
+    };
+    swapRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: 'swap-1',
+        status: 'accepted',
+        sourceBookingId: 'booking-1',
+      }),
+      updateStatus: vi.fn(),
+    };
+    bookingRepository = {
+      findById: vi
+        .fn()
+        .mockResolvedValue({ id: 'booking-1', title: 'Beach house' }),
+      updateStatus: vi.fn(),
+    };
+    paymentRepository = {
+      findEscrowAccounts: vi.fn().mockResolvedValue([makeEscrow()]),
+      updateEscrowStatus: vi.fn(),
+    };
+    paymentService = {
+      holdEscrowsForDispute: vi.fn().mockResolvedValue([]),
+      releaseEscrow: vi.fn().mockResolvedValue({ id: 'payment-1' }),
+      refundEscrow: vi.fn().mockResolvedValue({ id: 'payment-1' }),
+    };
+    hederaService = {
+      recordPaymentDisputeResolution: vi.fn().mockResolvedValue('0.0.123@1'),
+    };
+    notificationService = { sendNotification: vi.fn() };
+    fileStore = {
+      name: 'memory',
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new DisputeService(
+      disputeRepository,
+      reviewRepository,
+      swapRepository,
+      bookingRepository,
+      paymentRepository,
+      paymentService,
+      hederaService,
+      notificationService,
+      fileStore
+    );
+  });
+
+  describe('openDispute', () => {
+    it('should open a dispute against the other party and hold the escrow', async () => {
+      const dispute = await service.openDispute(REPORTER, {
+        swapId: 'swap-1',
+        type: 'booking_invalid',
+        description: '  The booking was cancelled by the hotel ',
+      });
+
+      expect(dispute.reportedUserId).toBe(COUNTERPARTY);
+      expect(dispute.status).toBe('open');
+      expect(dispute.priority).toBe('medium');
+      expect(dispute.description).toBe(
+        'The booking was cancelled by the hotel'
+      );
+      // First response is due within 24 hours
+      expect(dispute.slaDueAt!.getTime() - Date.now()).toBeGreaterThan(
+        23 * 60 * 60 * 1000
+      );
+      expect(paymentService.holdEscrowsForDispute).toHaveBeenCalledWith(
+        'swap-1'
+      );
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'dispute_opened',
+        COUNTERPARTY,
+        expect.objectContaining({
+          disputeId: 'dispute-1',
+          bookingTitle: 'Beach house',
+        }),
+        ['email', 'in_app']
+      );
+    });
+
+    it('should only let the parties dispute accepted or completed swaps', async () => {
+      const request = {
+        swapId: 'swap-1',
+        type: 'fraud' as const,
+        description: 'Never heard back',
+      };
+
+      await expect(
+        service.openDispute('stranger', request)
+      ).rejects.toMatchObject({
+        code: DisputeErrorCodes.NOT_SWAP_PARTY,
+      });
+
+      reviewRepository.findReviewableSwap.mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'pending',
+        partyIds: [COUNTERPARTY, REPORTER],
+      });
+      await expect(
+        service.openDispute(REPORTER, request)
+      ).rejects.toMatchObject({
+        code: DisputeErrorCodes.SWAP_NOT_DISPUTABLE,
+      });
+      expect(disputeRepository.createWithEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second open dispute from the same reporter', async () => {
+      disputeRepository.findActiveForReporter.mockResolvedValue(makeDispute());
+
+      await expect(
+        service.openDispute(REPORTER, {
+          swapId: 'swap-1',
+          type: 'other',
+          description: 'Again',
+        })
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.DISPUTE_ALREADY_OPEN });
+    });
+  });
+
+  describe('addEvidence', () => {
+    beforeEach(() => {
+      disputeRepository.findById.mockResolvedValue(makeDispute());
+    });
+
+    it('should store the file and hide its storage key', async () => {
+      const evidence = await service.addEvidence(
+        'dispute-1',
+        { userId: COUNTERPARTY },
+        {
+          fileName: 'Confirmation.PDF',
+          contentType: 'application/pdf',
+          data: Buffer.from('%PDF-1.4'),
+        }
+      );
+
+      const [storageKey] = fileStore.put.mock.calls[0];
+      expect(storageKey).toMatch(/^disputes\/dispute-1\/[0-9a-f-]+\.pdf$/);
+      expect(evidence).not.toHaveProperty('storageKey');
+      expect(evidence.sizeBytes).toBe(8);
+    });
+
+    it('should reject unsupported or oversized files', async () => {
+      await expect(
+        service.addEvidence(
+          'dispute-1',
+          { userId: REPORTER },
+          {
+            fileName: 'payload.html',
+            contentType: 'text/html',
+            data: Buffer.from('<script>'),
+          }
+        )
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.INVALID_EVIDENCE });
+
+      await expect(
+        service.addEvidence(
+          'dispute-1',
+          { userId: REPORTER },
+          {
+            fileName: 'photo.png',
+            contentType: 'image/png',
+            data: Buffer.alloc(MAX_DISPUTE_EVIDENCE_BYTES + 1),
+          }
+        )
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.INVALID_EVIDENCE });
+      expect(fileStore.put).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal disputes to users outside the swap', async () => {
+      await expect(
+        service.addEvidence(
+          'dispute-1',
+          { userId: 'stranger' },
+          {
+            fileName: 'note.txt',
+            contentType: 'text/plain',
+            data: Buffer.from('hi'),
+          }
+        )
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.DISPUTE_NOT_FOUND });
+    });
+
+    it('should remove the stored file when saving the record fails', async () => {
+      disputeRepository.addEvidence.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        service.addEvidence(
+          'dispute-1',
+          { userId: REPORTER },
+          {
+            fileName: 'note.txt',
+            contentType: 'text/plain',
+            data: Buffer.from('hi'),
+          }
+        )
+      ).rejects.toThrow('db down');
+      expect(fileStore.delete).toHaveBeenCalledWith(
+        fileStore.put.mock.calls[0][0]
+      );
+    });
+  });
+
+  describe('transitionDispute', () => {
+    it('should wait on a party with a fresh SLA', async () => {
+      disputeRepository.findById.mockResolvedValue(makeDispute());
+
+      const updated = await service.transitionDispute('dispute-1', ADMIN, {
+        status: 'awaiting_party',
+        awaitingPartyId: COUNTERPARTY,
+        note: 'Please upload the cancellation email',
+      });
+
+      expect(updated.status).toBe('awaiting_party');
+      const [, updates, event, clear] =
+        disputeRepository.updateWithEvent.mock.calls[0];
+      expect(updates).toMatchObject({
+        status: 'awaiting_party',
+        awaitingPartyId: COUNTERPARTY,
+        assignedTo: ADMIN,
+      });
+      expect(event).toMatchObject({
+        fromStatus: 'investigating',
+        toStatus: 'awaiting_party',
+      });
+      expect(clear).toEqual(['slaBreachedAt']);
+    });
+
+    it('should reject transitions the workflow does not allow', async () => {
+      disputeRepository.findById.mockResolvedValue(
+        makeDispute({ status: 'open' })
+      );
+
+      await expect(
+        service.transitionDispute('dispute-1', ADMIN, {
+          status: 'awaiting_party',
+          awaitingPartyId: REPORTER,
+        })
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.INVALID_TRANSITION });
+      await expect(
+        service.transitionDispute('dispute-1', ADMIN, { status: 'resolved' })
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.INVALID_TRANSITION });
+    });
+  });
+
+  describe('resolveDispute', () => {
+    beforeEach(() => {
+      disputeRepository.findById.mockResolvedValue(makeDispute());
+    });
+
+    it('should refund the held escrow, cancel the swap and record the outcome', async () => {
+      const resolved = await service.resolveDispute('dispute-1', ADMIN, {
+        action: 'refund',
+        notes: 'Booking was invalid',
+      });
+
+      expect(paymentService.refundEscrow).toHaveBeenCalledWith(
+        expect.objectContaining({
+          escrowId: 'escrow-1',
+          amount: 400,
+          disputeId: 'dispute-1',
+        })
+      );
+      expect(hederaService.recordPaymentDisputeResolution).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transactionId: 'payment-1',
+          disputeId: 'dispute-1',
+          resolution: 'refund',
+          amount: 400,
+          resolvedBy: ADMIN,
+        })
+      );
+      expect(swapRepository.updateStatus).toHaveBeenCalledWith(
+        'swap-1',
+        'cancelled'
+      );
+      expect(bookingRepository.updateStatus).toHaveBeenCalledWith(
+        'booking-1',
+        'available'
+      );
+      expect(resolved.status).toBe('resolved');
+      expect(resolved.resolution).toMatchObject({
+        action: 'refund',
+        amount: 400,
+        currency: 'USD',
+        paymentTransactionId: 'payment-1',
+        blockchainTransactionId: '0.0.123@1',
+      });
+    });
+
+    it('should release the escrow to the recipient', async () => {
+      await service.resolveDispute('dispute-1', ADMIN, {
+        action: 'release_funds',
+        notes: 'Stay went ahead as booked',
+      });
+
+      expect(paymentService.releaseEscrow).toHaveBeenCalledWith(
+        expect.objectContaining({
+          escrowId: 'escrow-1',
+          recipientId: COUNTERPARTY,
+          amount: 400,
+        })
+      );
+      expect(swapRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should require an amount within the escrow for partial refunds', async () => {
+      await expect(
+        service.resolveDispute('dispute-1', ADMIN, {
+          action: 'partial_refund',
+          notes: 'Half',
+        })
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.INVALID_DISPUTE });
+      await expect(
+        service.resolveDispute('dispute-1', ADMIN, {
+          action: 'partial_refund',
+          notes: 'Too much',
+          amount: 500,
+        })
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.INVALID_DISPUTE });
+      expect(paymentService.refundEscrow).not.toHaveBeenCalled();
+    });
+
+    it('should leave the dispute unresolved when the payment fails', async () => {
+      paymentService.refundEscrow.mockRejectedValue(new Error('gateway down'));
+
+      await expect(
+        service.resolveDispute('dispute-1', ADMIN, {
+          action: 'refund',
+          notes: 'Refund',
+        })
+      ).rejects.toMatchObject({ code: DisputeErrorCodes.RESOLUTION_FAILED });
+      expect(disputeRepository.updateWithEvent).not.toHaveBeenCalled();
+    });
+
+    it('should settle the escrow only once when two resolves race', async () => {
+      // The second resolve gets the row after the first one committed
+      disputeRepository.findById
+        .mockResolvedValueOnce(makeDispute())
+        .mockResolvedValueOnce(makeDispute({ status: 'resolved' }));
+
+      const results = await Promise.allSettled([
+        service.resolveDispute('dispute-1', ADMIN, {
+          action: 'refund',
+          notes: 'Refund',
+        }),
+        service.resolveDispute('dispute-1', 'admin-2', {
+          action: 'release_funds',
+          notes: 'Release',
+        }),
+      ]);
+
+      expect(results[0]!.status).toBe('fulfilled');
+      expect(results[1]).toMatchObject({
+        status: 'rejected',
+        reason: { code: DisputeErrorCodes.INVALID_TRANSITION },
+      });
+      expect(paymentService.refundEscrow).toHaveBeenCalledTimes(1);
+      expect(paymentService.releaseEscrow).not.toHaveBeenCalled();
+      expect(disputeRepository.updateWithEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unfreeze the escrow when no payment action is taken', async () => {
+      await service.resolveDispute('dispute-1', ADMIN, {
+        action: 'no_action',
+        notes: 'Report unfounded',
+        close: true,
+      });
+
+      expect(paymentRepository.updateEscrowStatus).toHaveBeenCalledWith(
+        'escrow-1',
+        'funded'
+      );
+      expect(disputeRepository.updateWithEvent.mock.calls[0][1]).toMatchObject({
+        status: 'closed',
+      });
+    });
+  });
+
+  describe('checkSlaBreaches', () => {
+    it('should flag overdue disputes and raise their priority', async () => {
+      const now = new Date();
+      disputeRepository.findSlaBreaches.mockResolvedValue([
+        makeDispute({
+          priority: 'high',
+          slaDueAt: new Date(now.getTime() - 1000),
+        }),
+        makeDispute({
+          id: 'dispute-2',
+          priority: 'critical',
+          slaDueAt: new Date(now.getTime() - 1000),
+        }),
+      ]);
+
+      const flagged = await service.checkSlaBreaches(now);
+
+      expect(flagged).toBe(2);
+      expect(disputeRepository.updateWithEvent).toHaveBeenCalledWith(
+        'dispute-1',
+        { slaBreachedAt: now, priority: 'critical' },
+        expect.objectContaining({ type: 'sla_breached' })
+      );
+      expect(disputeRepository.updateWithEvent.mock.calls[1][1]).toEqual({
+        slaBreachedAt: now,
+        priority: 'critical',
+      });
+    });
+  });
+});
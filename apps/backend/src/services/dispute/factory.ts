@@ -0,0 +1,44 @@
+import { Pool } from 'pg';
+import { DisputeService } from './DisputeService';
+import { DisputeRepository } from '../../database/repositories/DisputeRepository';
+import { ReviewRepository } from '../../database/repositories/ReviewRepository';
+import { SwapRepository } from '../../database/repositories/SwapRepository';
+import { BookingRepository } from '../../database/repositories/BookingRepository';
+import { PaymentRepository } from '../../database/repositories/PaymentRepository';
+import { createPaymentProcessingService } from '../payment/factory';
+import { createHederaService } from '../hedera/factory';
+import { createNotificationService } from '../notification/factory';
+import { createJobScheduler } from '../scheduler/factory';
+import { createFileStore } from '../storage/factory';
+
+let disputeService: DisputeService | null = null;
+
+export function createDisputeService(pool: Pool): DisputeService {
+  if (!disputeService) {
+    disputeService = new DisputeService(
+      new DisputeRepository(pool),
+      new ReviewRepository(pool),
+      new SwapRepository(pool),
+      new BookingRepository(pool),
+      new PaymentRepository(pool),
+      createPaymentProcessingService(pool),
+      createHederaService(),
+      createNotificationService(pool),
+      createFileStore(),
+      createJobScheduler(pool),
+      {
+        slaCheckIntervalMs:
+          parseInt(process.env.DISPUTE_SLA_CHECK_INTERVAL_MINUTES || '15') *
+          60 *
+          1000,
+      }
+    );
+    disputeService.registerJobHandlers();
+  }
+
+  return disputeService;
+}
+
+export function resetDisputeService(): void {
+  disputeService = null;
+}
@@ -0,0 +1,8 @@
+export { DisputeService } from './DisputeService';
+export { createDisputeService, resetDisputeService } from './factory';
+
+export type {
+  DisputeServiceOptions,
+  DisputeViewer,
+  EvidenceUpload,
+} from './DisputeService';
@@ -25,6 +25,15 @@ export interface PasswordResetConfirmationEmailData {
     resetTime: Date;
 }
 
+export interface NewDeviceLoginEmailData {
+    userEmail: string;
+    userName: string;
+    deviceName: string;
+    ipAddress?: string;
+    loginMethod: 'wallet' | 'email';
+    loginTime: Date;
+}
+
 export class EmailService {
     private transporter: nodemailer.Transporter;
     private fromEmail: string;
@@ -482,6 +491,126 @@ For your security, all existing sessions have been invalidated. You will need to
 
 If you have any questions or concerns, please don't hesitate to contact our support team.
 
+---
+Booking Swap Platform
+`;
+    }
+
+    /**
+     * Warn a user that their account was signed in to from a device it has not been used on before
+     */
+    async sendNewDeviceLoginEmail(data: NewDeviceLoginEmailData): Promise<void> {
+        await this.sendEmail({
+            to: data.userEmail,
+            subject: 'New sign-in to your Booking Swap account',
+            html: this.generateNewDeviceLoginHtml(data),
+            text: this.generateNewDeviceLoginText(data),
+        });
+    }
+
+    /**
+     * Generate HTML template for new device login email
+     */
+    private generateNewDeviceLoginHtml(data: NewDeviceLoginEmailData): string {
+        const loginTimeFormatted = data.loginTime.toLocaleString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZoneName: 'short',
+        });
+        const loginMethod = data.loginMethod === 'wallet' ? 'Wallet signature' : 'Email and password';
+
+        return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>New Sign-in</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #2563eb; color: white; padding: 20px; text-align: center; }
+            .content { padding: 30px 20px; background: #f9fafb; }
+            .footer { padding: 20px; text-align: center; color: #666; font-size: 14px; }
+            .details { background: #ffffff; border: 1px solid #e5e7eb; padding: 15px; border-radius: 5px; margin: 20px 0; }
+            .warning { background: #fef3cd; border: 1px solid #f59e0b; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>New Sign-in Detected</h1>
+            </div>
+            
+            <div class="content">
+                <h2>Hello ${data.userName}!</h2>
+                
+                <p>Your account was just signed in to from a device we have not seen before.</p>
+                
+                <div class="details">
+                    <p><strong>Device:</strong> ${data.deviceName}</p>
+                    <p><strong>IP address:</strong> ${data.ipAddress || 'Unknown'}</p>
+                    <p><strong>Sign-in method:</strong> ${loginMethod}</p>
+                    <p><strong>Time:</strong> ${loginTimeFormatted}</p>
+                </div>
+                
+                <p>If this was you, there is nothing more to do.</p>
+                
+                <div class="warning">
+                    <strong>If this was not you:</strong>
+                    <ul>
+                        <li>Sign out the device from the Active Sessions section of your profile</li>
+                        <li>Change your password</li>
+                        <li>Consider enabling two-factor authentication for additional security</li>
+                    </ul>
+                </div>
+            </div>
+            
+            <div class="footer">
+                <p>This email was sent by Booking Swap Platform</p>
+                <p>If you need assistance, please contact our support team.</p>
+            </div>
+        </div>
+    </body>
+    </html>`;
+    }
+
+    /**
+     * Generate plain text version for new device login email
+     */
+    private generateNewDeviceLoginText(data: NewDeviceLoginEmailData): string {
+        const loginTimeFormatted = data.loginTime.toLocaleString('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZoneName: 'short',
+        });
+        const loginMethod = data.loginMethod === 'wallet' ? 'Wallet signature' : 'Email and password';
+
+        return `
+New Sign-in Detected - Booking Swap Platform
+
+Hello ${data.userName}!
+
+Your account was just signed in to from a device we have not seen before.
+
+Device: ${data.deviceName}
+IP address: ${data.ipAddress || 'Unknown'}
+Sign-in method: ${loginMethod}
+Time: ${loginTimeFormatted}
+
+If this was you, there is nothing more to do.
+
+IMPORTANT - If this was not you:
+- Sign out the device from the Active Sessions section of your profile
+- Change your password
+- Consider enabling two-factor authentication for additional security
+
 ---
 Booking Swap Platform
 `;
@@ -0,0 +1,177 @@
+import axios from 'axios';
+import { GeocodeResult } from '@booking-swap/shared';
+import {
+  GAZETTEER_CITIES,
+  GAZETTEER_COUNTRIES,
+  GazetteerCity,
+} from './gazetteer';
+import { logger } from '../../utils/logger';
+
+export interface GeocodeQuery {
+  city: string;
+  country: string;
+}
+
+/**
+ * Turns a booking's city and country into coordinates. Geocoders return null
+ * when they do not know the place; BookingService then stores the booking
+ * without coordinates and it is left off the map.
+ */
+export interface Geocoder {
+  readonly name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Lower-cases and strips accents and punctuation, so "Zürich", "zurich" and
+ * "Zurich." all match
+ */
+export const normalizePlaceName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Looks places up in the bundled city list. Needs no network access, so it
+ * is the default and the fallback for other geocoders.
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = 'gazetteer';
+
+  private citiesByName = new Map<string, GazetteerCity[]>();
+  private countryCodes = new Map<string, string>();
+
+  constructor(
+    cities: GazetteerCity[] = GAZETTEER_CITIES,
+    countries = GAZETTEER_COUNTRIES
+  ) {
+    for (const [code, country] of Object.entries(countries)) {
+      for (const name of [code, country.name, ...country.aliases]) {
+        this.countryCodes.set(normalizePlaceName(name), code);
+      }
+    }
+
+    for (const city of cities) {
+      // An alias may only differ by accents, so normalize before adding
+      const keys = new Set(
+        [city.name, ...(city.aliases || [])].map(normalizePlaceName)
+      );
+      for (const key of keys) {
+        this.citiesByName.set(key, [
+          ...(this.citiesByName.get(key) || []),
+          city,
+        ]);
+      }
+    }
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const candidates =
+      this.citiesByName.get(normalizePlaceName(query.city)) || [];
+    const countryCode = this.countryCodes.get(
+      normalizePlaceName(query.country)
+    );
+
+    // An unknown country only matches a city name that is unambiguous
+    const matches = countryCode
+      ? candidates.filter(city => city.countryCode === countryCode)
+      : candidates;
+    const city = matches[0];
+    if (matches.length !== 1 || !city) {
+      return null;
+    }
+
+    return {
+      coordinates: city.coordinates,
+      city: city.name,
+      country: GAZETTEER_COUNTRIES[city.countryCode]?.name || query.country,
+      source: 'gazetteer',
+    };
+  }
+}
+
+export interface NominatimGeocoderOptions {
+  baseUrl?: string;
+  // Nominatim's usage policy requires an identifying User-Agent
+  userAgent: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Queries an OpenStreetMap Nominatim server. The public server allows about
+ * one request per second, so heavy use needs a self-hosted instance.
+ */
+export class NominatimGeocoder implements Geocoder {
+  readonly name = 'nominatim';
+
+  constructor(private options: NominatimGeocoderOptions) {}
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const response = await axios.get(
+      `${this.options.baseUrl || 'https://nominatim.openstreetmap.org'}/search`,
+      {
+        params: {
+          city: query.city,
+          country: query.country,
+          format: 'jsonv2',
+          addressdetails: 1,
+          limit: 1,
+        },
+        headers: { 'User-Agent': this.options.userAgent },
+        timeout: this.options.timeoutMs ?? 5000,
+      }
+    );
+
+    const [place] = Array.isArray(response.data) ? response.data : [];
+    if (!place) {
+      return null;
+    }
+
+    const latitude = parseFloat(place.lat);
+    const longitude = parseFloat(place.lon);
+    if (isNaN(latitude) || isNaN(longitude)) {
+      return null;
+    }
+
+    const address = place.address || {};
+    return {
+      coordinates: [latitude, longitude],
+      city: address.city || address.town || address.village || query.city,
+      country: address.country || query.country,
+      source: 'nominatim',
+    };
+  }
+}
+
+/**
+ * Tries each geocoder in turn. A geocoder that fails is logged and skipped,
+ * so an outage of a remote service falls back to the gazetteer.
+ */
+export class ChainedGeocoder implements Geocoder {
+  readonly name: string;
+
+  constructor(private geocoders: Geocoder[]) {
+    this.name = geocoders.map(geocoder => geocoder.name).join('+');
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    for (const geocoder of this.geocoders) {
+      try {
+        const result = await geocoder.geocode(query);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        logger.warn('Geocoder failed, trying the next one', {
+          geocoder: geocoder.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GeocodeResult } from '@booking-swap/shared';
+import {
+  ChainedGeocoder,
+  GazetteerGeocoder,
+  Geocoder,
+  normalizePlaceName,
+} from '../Geocoder';
+
+vi.mock('../../../utils/logger');
+
+describe('Geocoder', () => {
+  describe('normalizePlaceName', () => {
+    it('should ignore case, accents and punctuation', () => {
+      expect(normalizePlaceName('Zürich')).toBe('zurich');
+      expect(normalizePlaceName('  St. Moritz ')).toBe('st moritz');
+      expect(normalizePlaceName('SÃO PAULO')).toBe('sao paulo');
+    });
+  });
+
+  describe('GazetteerGeocoder', () => {
+    const geocoder = new GazetteerGeocoder();
+
+    it('should find a city by name and country', async () => {
+      const result = await geocoder.geocode({
+        city: 'Paris',
+        country: 'France',
+      });
+
+      expect(result).toEqual({
+        coordinates: [48.8566, 2.3522],
+        city: 'Paris',
+        country: 'France',
+        source: 'gazetteer',
+      });
+    });
+
+    it('should match country codes, aliases and accented city names', async () => {
+      const result = await geocoder.geocode({ city: 'zürich', country: 'CH' });
+      const byAlias = await geocoder.geocode({
+        city: 'Zurich',
+        country: 'Schweiz',
+      });
+
+      expect(result?.city).toBe('Zurich');
+      expect(byAlias?.coordinates).toEqual(result?.coordinates);
+    });
+
+    it('should return null for an unknown city or a city in another country', async () => {
+      expect(
+        await geocoder.geocode({ city: 'Atlantis', country: 'Greece' })
+      ).toBeNull();
+      expect(
+        await geocoder.geocode({ city: 'Paris', country: 'Switzerland' })
+      ).toBeNull();
+    });
+
+    it('should only match an ambiguous city name when the country is known', async () => {
+      const ambiguous = new GazetteerGeocoder(
+        [
+          {
+            name: 'Valencia',
+            countryCode: 'ES',
+            coordinates: [39.4699, -0.3763],
+          },
+          {
+            name: 'Valencia',
+            countryCode: 'VE',
+            coordinates: [10.162, -68.0077],
+          },
+        ],
+        {
+          ES: { name: 'Spain', aliases: [] },
+          VE: { name: 'Venezuela', aliases: [] },
+        }
+      );
+
+      expect(
+        await ambiguous.geocode({ city: 'Valencia', country: 'Atlantis' })
+      ).toBeNull();
+      expect(
+        await ambiguous.geocode({ city: 'Valencia', country: 'Venezuela' })
+      ).toMatchObject({
+        coordinates: [10.162, -68.0077],
+      });
+    });
+  });
+
+  describe('ChainedGeocoder', () => {
+    const result: GeocodeResult = {
+      coordinates: [51.5074, -0.1278],
+      city: 'London',
+      country: 'United Kingdom',
+      source: 'gazetteer',
+    };
+
+    const stub = (name: string, geocode: Geocoder['geocode']): Geocoder => ({
+      name,
+      geocode: vi.fn(geocode),
+    });
+
+    it('should fall back to the next geocoder when one fails or finds nothing', async () => {
+      const failing = stub('remote', async () => {
+        throw new Error('timeout');
+      });
+      const empty = stub('empty', async () => null);
+      const fallback = stub('gazetteer', async () => result);
+      const geocoder = new ChainedGeocoder([failing, empty, fallback]);
+
+      await expect(
+        geocoder.geocode({ city: 'London', country: 'UK' })
+      ).resolves.toEqual(result);
+      expect(geocoder.name).toBe('remote+empty+gazetteer');
+    });
+
+    it('should stop at the first match', async () => {
+      const first = stub('first', async () => result);
+      const second = stub('second', async () => null);
+
+      await new ChainedGeocoder([first, second]).geocode({
+        city: 'London',
+        country: 'UK',
+      });
+
+      expect(second.geocode).not.toHaveBeenCalled();
+    });
+  });
+});
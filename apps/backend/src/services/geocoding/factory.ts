@@ -0,0 +1,29 @@
+import {
+  ChainedGeocoder,
+  GazetteerGeocoder,
+  Geocoder,
+  NominatimGeocoder,
+} from './Geocoder';
+
+/**
+ * Geocoder selected by GEOCODER: 'gazetteer' (default, offline city list),
+ * 'nominatim' (NOMINATIM_URL, falling back to the gazetteer) or 'none'
+ */
+export function createGeocoder(): Geocoder | undefined {
+  switch (process.env.GEOCODER) {
+    case 'none':
+      return undefined;
+    case 'nominatim':
+      return new ChainedGeocoder([
+        new NominatimGeocoder({
+          baseUrl: process.env.NOMINATIM_URL,
+          userAgent:
+            process.env.NOMINATIM_USER_AGENT ||
+            `booking-swap (${process.env.SMTP_FROM_EMAIL || 'noreply@bookingswap.com'})`,
+        }),
+        new GazetteerGeocoder(),
+      ]);
+    default:
+      return new GazetteerGeocoder();
+  }
+}
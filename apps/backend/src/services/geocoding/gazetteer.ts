@@ -0,0 +1,436 @@
+/**
+ * Offline city gazetteer used to place bookings on the map without calling
+ * an external geocoder. It covers the cities most bookings are in; anything
+ * else needs GEOCODER=nominatim or coordinates entered with the booking.
+ */
+
+export interface GazetteerCountry {
+  name: string;
+  // Other names and codes users type for the country
+  aliases: string[];
+}
+
+export interface GazetteerCity {
+  name: string;
+  countryCode: string;
+  coordinates: [number, number]; // [lat, lng]
+  // Local or former names, matched as well as the English name
+  aliases?: string[];
+}
+
+export const GAZETTEER_COUNTRIES: Record<string, GazetteerCountry> = {
+  AE: { name: 'United Arab Emirates', aliases: ['UAE', 'Emirates'] },
+  AR: { name: 'Argentina', aliases: [] },
+  AT: { name: 'Austria', aliases: ['Österreich'] },
+  AU: { name: 'Australia', aliases: [] },
+  BE: { name: 'Belgium', aliases: ['Belgique', 'België'] },
+  BR: { name: 'Brazil', aliases: ['Brasil'] },
+  CA: { name: 'Canada', aliases: [] },
+  CH: { name: 'Switzerland', aliases: ['Schweiz', 'Suisse', 'Svizzera'] },
+  CL: { name: 'Chile', aliases: [] },
+  CN: { name: 'China', aliases: ["People's Republic of China", 'PRC'] },
+  CO: { name: 'Colombia', aliases: [] },
+  CZ: { name: 'Czech Republic', aliases: ['Czechia', 'Česko'] },
+  DE: { name: 'Germany', aliases: ['Deutschland'] },
+  DK: { name: 'Denmark', aliases: ['Danmark'] },
+  EG: { name: 'Egypt', aliases: [] },
+  ES: { name: 'Spain', aliases: ['España'] },
+  FI: { name: 'Finland', aliases: ['Suomi'] },
+  FR: { name: 'France', aliases: [] },
+  GB: {
+    name: 'United Kingdom',
+    aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales'],
+  },
+  GR: { name: 'Greece', aliases: ['Hellas', 'Ελλάδα'] },
+  HK: { name: 'Hong Kong', aliases: [] },
+  HR: { name: 'Croatia', aliases: ['Hrvatska'] },
+  HU: { name: 'Hungary', aliases: ['Magyarország'] },
+  ID: { name: 'Indonesia', aliases: [] },
+  IE: { name: 'Ireland', aliases: ['Éire'] },
+  IL: { name: 'Israel', aliases: [] },
+  IN: { name: 'India', aliases: ['Bharat'] },
+  IS: { name: 'Iceland', aliases: ['Ísland'] },
+  IT: { name: 'Italy', aliases: ['Italia'] },
+  JP: { name: 'Japan', aliases: ['Nippon'] },
+  KE: { name: 'Kenya', aliases: [] },
+  KR: { name: 'South Korea', aliases: ['Korea', 'Republic of Korea'] },
+  MA: { name: 'Morocco', aliases: ['Maroc'] },
+  MX: { name: 'Mexico', aliases: ['México'] },
+  MY: { name: 'Malaysia', aliases: [] },
+  NL: {
+    name: 'Netherlands',
+    aliases: ['The Netherlands', 'Holland', 'Nederland'],
+  },
+  NO: { name: 'Norway', aliases: ['Norge'] },
+  NZ: { name: 'New Zealand', aliases: ['Aotearoa'] },
+  PE: { name: 'Peru', aliases: ['Perú'] },
+  PH: { name: 'Philippines', aliases: [] },
+  PL: { name: 'Poland', aliases: ['Polska'] },
+  PT: { name: 'Portugal', aliases: [] },
+  SE: { name: 'Sweden', aliases: ['Sverige'] },
+  SG: { name: 'Singapore', aliases: [] },
+  TH: { name: 'Thailand', aliases: [] },
+  TR: { name: 'Turkey', aliases: ['Türkiye'] },
+  US: {
+    name: 'United States',
+    aliases: ['USA', 'United States of America', 'America'],
+  },
+  VN: { name: 'Vietnam', aliases: ['Viet Nam'] },
+  ZA: { name: 'South Africa', aliases: [] },
+};
+
+export const GAZETTEER_CITIES: GazetteerCity[] = [
+  // Europe
+  { name: 'Amsterdam', countryCode: 'NL', coordinates: [52.3676, 4.9041] },
+  { name: 'Rotterdam', countryCode: 'NL', coordinates: [51.9244, 4.4777] },
+  {
+    name: 'Athens',
+    countryCode: 'GR',
+    coordinates: [37.9838, 23.7275],
+    aliases: ['Athina'],
+  },
+  {
+    name: 'Santorini',
+    countryCode: 'GR',
+    coordinates: [36.3932, 25.4615],
+    aliases: ['Thira'],
+  },
+  { name: 'Barcelona', countryCode: 'ES', coordinates: [41.3874, 2.1686] },
+  { name: 'Madrid', countryCode: 'ES', coordinates: [40.4168, -3.7038] },
+  {
+    name: 'Seville',
+    countryCode: 'ES',
+    coordinates: [37.3891, -5.9845],
+    aliases: ['Sevilla'],
+  },
+  { name: 'Valencia', countryCode: 'ES', coordinates: [39.4699, -0.3763] },
+  { name: 'Malaga', countryCode: 'ES', coordinates: [36.7213, -4.4214] },
+  {
+    name: 'Palma',
+    countryCode: 'ES',
+    coordinates: [39.5696, 2.6502],
+    aliases: ['Palma de Mallorca'],
+  },
+  {
+    name: 'Ibiza',
+    countryCode: 'ES',
+    coordinates: [38.9067, 1.4206],
+    aliases: ['Eivissa'],
+  },
+  { name: 'Berlin', countryCode: 'DE', coordinates: [52.52, 13.405] },
+  {
+    name: 'Munich',
+    countryCode: 'DE',
+    coordinates: [48.1351, 11.582],
+    aliases: ['München'],
+  },
+  { name: 'Hamburg', countryCode: 'DE', coordinates: [53.5511, 9.9937] },
+  {
+    name: 'Frankfurt',
+    countryCode: 'DE',
+    coordinates: [50.1109, 8.6821],
+    aliases: ['Frankfurt am Main'],
+  },
+  {
+    name: 'Cologne',
+    countryCode: 'DE',
+    coordinates: [50.9375, 6.9603],
+    aliases: ['Köln'],
+  },
+  {
+    name: 'Brussels',
+    countryCode: 'BE',
+    coordinates: [50.8503, 4.3517],
+    aliases: ['Bruxelles', 'Brussel'],
+  },
+  {
+    name: 'Bruges',
+    countryCode: 'BE',
+    coordinates: [51.2093, 3.2247],
+    aliases: ['Brugge'],
+  },
+  { name: 'Budapest', countryCode: 'HU', coordinates: [47.4979, 19.0402] },
+  {
+    name: 'Copenhagen',
+    countryCode: 'DK',
+    coordinates: [55.6761, 12.5683],
+    aliases: ['København'],
+  },
+  { name: 'Dublin', countryCode: 'IE', coordinates: [53.3498, -6.2603] },
+  { name: 'Dubrovnik', countryCode: 'HR', coordinates: [42.6507, 18.0944] },
+  { name: 'Split', countryCode: 'HR', coordinates: [43.5081, 16.4402] },
+  { name: 'Edinburgh', countryCode: 'GB', coordinates: [55.9533, -3.1883] },
+  { name: 'London', countryCode: 'GB', coordinates: [51.5072, -0.1276] },
+  { name: 'Manchester', countryCode: 'GB', coordinates: [53.4808, -2.2426] },
+  {
+    name: 'Florence',
+    countryCode: 'IT',
+    coordinates: [43.7696, 11.2558],
+    aliases: ['Firenze'],
+  },
+  {
+    name: 'Milan',
+    countryCode: 'IT',
+    coordinates: [45.4642, 9.19],
+    aliases: ['Milano'],
+  },
+  {
+    name: 'Naples',
+    countryCode: 'IT',
+    coordinates: [40.8518, 14.2681],
+    aliases: ['Napoli'],
+  },
+  {
+    name: 'Rome',
+    countryCode: 'IT',
+    coordinates: [41.9028, 12.4964],
+    aliases: ['Roma'],
+  },
+  {
+    name: 'Venice',
+    countryCode: 'IT',
+    coordinates: [45.4408, 12.3155],
+    aliases: ['Venezia'],
+  },
+  { name: 'Helsinki', countryCode: 'FI', coordinates: [60.1699, 24.9384] },
+  { name: 'Istanbul', countryCode: 'TR', coordinates: [41.0082, 28.9784] },
+  { name: 'Antalya', countryCode: 'TR', coordinates: [36.8969, 30.7133] },
+  {
+    name: 'Krakow',
+    countryCode: 'PL',
+    coordinates: [50.0647, 19.945],
+    aliases: ['Kraków', 'Cracow'],
+  },
+  {
+    name: 'Warsaw',
+    countryCode: 'PL',
+    coordinates: [52.2297, 21.0122],
+    aliases: ['Warszawa'],
+  },
+  {
+    name: 'Lisbon',
+    countryCode: 'PT',
+    coordinates: [38.7223, -9.1393],
+    aliases: ['Lisboa'],
+  },
+  {
+    name: 'Porto',
+    countryCode: 'PT',
+    coordinates: [41.1579, -8.6291],
+    aliases: ['Oporto'],
+  },
+  { name: 'Lyon', countryCode: 'FR', coordinates: [45.764, 4.8357] },
+  {
+    name: 'Marseille',
+    countryCode: 'FR',
+    coordinates: [43.2965, 5.3698],
+    aliases: ['Marseilles'],
+  },
+  { name: 'Nice', countryCode: 'FR', coordinates: [43.7102, 7.262] },
+  { name: 'Paris', countryCode: 'FR', coordinates: [48.8566, 2.3522] },
+  { name: 'Bordeaux', countryCode: 'FR', coordinates: [44.8378, -0.5792] },
+  { name: 'Oslo', countryCode: 'NO', coordinates: [59.9139, 10.7522] },
+  {
+    name: 'Prague',
+    countryCode: 'CZ',
+    coordinates: [50.0755, 14.4378],
+    aliases: ['Praha'],
+  },
+  {
+    name: 'Reykjavik',
+    countryCode: 'IS',
+    coordinates: [64.1466, -21.9426],
+    aliases: ['Reykjavík'],
+  },
+  { name: 'Stockholm', countryCode: 'SE', coordinates: [59.3293, 18.0686] },
+  {
+    name: 'Vienna',
+    countryCode: 'AT',
+    coordinates: [48.2082, 16.3738],
+    aliases: ['Wien'],
+  },
+  { name: 'Salzburg', countryCode: 'AT', coordinates: [47.8095, 13.055] },
+  {
+    name: 'Zurich',
+    countryCode: 'CH',
+    coordinates: [47.3769, 8.5417],
+    aliases: ['Zürich'],
+  },
+  {
+    name: 'Geneva',
+    countryCode: 'CH',
+    coordinates: [46.2044, 6.1432],
+    aliases: ['Genève', 'Genf'],
+  },
+
+  // Americas
+  {
+    name: 'New York',
+    countryCode: 'US',
+    coordinates: [40.7128, -74.006],
+    aliases: ['New York City', 'NYC'],
+  },
+  {
+    name: 'Los Angeles',
+    countryCode: 'US',
+    coordinates: [34.0522, -118.2437],
+    aliases: ['LA'],
+  },
+  {
+    name: 'San Francisco',
+    countryCode: 'US',
+    coordinates: [37.7749, -122.4194],
+  },
+  { name: 'San Diego', countryCode: 'US', coordinates: [32.7157, -117.1611] },
+  { name: 'Las Vegas', countryCode: 'US', coordinates: [36.1699, -115.1398] },
+  { name: 'Chicago', countryCode: 'US', coordinates: [41.8781, -87.6298] },
+  { name: 'Miami', countryCode: 'US', coordinates: [25.7617, -80.1918] },
+  { name: 'Orlando', countryCode: 'US', coordinates: [28.5384, -81.3789] },
+  { name: 'Boston', countryCode: 'US', coordinates: [42.3601, -71.0589] },
+  {
+    name: 'Washington',
+    countryCode: 'US',
+    coordinates: [38.9072, -77.0369],
+    aliases: ['Washington DC', 'Washington D.C.'],
+  },
+  { name: 'Seattle', countryCode: 'US', coordinates: [47.6062, -122.3321] },
+  { name: 'Austin', countryCode: 'US', coordinates: [30.2672, -97.7431] },
+  { name: 'Denver', countryCode: 'US', coordinates: [39.7392, -104.9903] },
+  { name: 'Nashville', countryCode: 'US', coordinates: [36.1627, -86.7816] },
+  { name: 'New Orleans', countryCode: 'US', coordinates: [29.9511, -90.0715] },
+  { name: 'Honolulu', countryCode: 'US', coordinates: [21.3069, -157.8583] },
+  { name: 'Toronto', countryCode: 'CA', coordinates: [43.6532, -79.3832] },
+  { name: 'Vancouver', countryCode: 'CA', coordinates: [49.2827, -123.1207] },
+  {
+    name: 'Montreal',
+    countryCode: 'CA',
+    coordinates: [45.5019, -73.5674],
+    aliases: ['Montréal'],
+  },
+  {
+    name: 'Mexico City',
+    countryCode: 'MX',
+    coordinates: [19.4326, -99.1332],
+    aliases: ['Ciudad de México', 'CDMX'],
+  },
+  {
+    name: 'Cancun',
+    countryCode: 'MX',
+    coordinates: [21.1619, -86.8515],
+    aliases: ['Cancún'],
+  },
+  { name: 'Tulum', countryCode: 'MX', coordinates: [20.2114, -87.4654] },
+  {
+    name: 'Buenos Aires',
+    countryCode: 'AR',
+    coordinates: [-34.6037, -58.3816],
+  },
+  {
+    name: 'Rio de Janeiro',
+    countryCode: 'BR',
+    coordinates: [-22.9068, -43.1729],
+    aliases: ['Rio'],
+  },
+  {
+    name: 'São Paulo',
+    countryCode: 'BR',
+    coordinates: [-23.5558, -46.6396],
+    aliases: ['Sao Paulo'],
+  },
+  { name: 'Santiago', countryCode: 'CL', coordinates: [-33.4489, -70.6693] },
+  {
+    name: 'Bogota',
+    countryCode: 'CO',
+    coordinates: [4.711, -74.0721],
+    aliases: ['Bogotá'],
+  },
+  { name: 'Cartagena', countryCode: 'CO', coordinates: [10.391, -75.4794] },
+  { name: 'Lima', countryCode: 'PE', coordinates: [-12.0464, -77.0428] },
+  {
+    name: 'Cusco',
+    countryCode: 'PE',
+    coordinates: [-13.5319, -71.9675],
+    aliases: ['Cuzco'],
+  },
+
+  // Asia and Middle East
+  { name: 'Tokyo', countryCode: 'JP', coordinates: [35.6762, 139.6503] },
+  { name: 'Kyoto', countryCode: 'JP', coordinates: [35.0116, 135.7681] },
+  { name: 'Osaka', countryCode: 'JP', coordinates: [34.6937, 135.5023] },
+  { name: 'Seoul', countryCode: 'KR', coordinates: [37.5665, 126.978] },
+  {
+    name: 'Beijing',
+    countryCode: 'CN',
+    coordinates: [39.9042, 116.4074],
+    aliases: ['Peking'],
+  },
+  { name: 'Shanghai', countryCode: 'CN', coordinates: [31.2304, 121.4737] },
+  { name: 'Hong Kong', countryCode: 'HK', coordinates: [22.3193, 114.1694] },
+  { name: 'Singapore', countryCode: 'SG', coordinates: [1.3521, 103.8198] },
+  { name: 'Bangkok', countryCode: 'TH', coordinates: [13.7563, 100.5018] },
+  { name: 'Phuket', countryCode: 'TH', coordinates: [7.8804, 98.3923] },
+  { name: 'Chiang Mai', countryCode: 'TH', coordinates: [18.7883, 98.9853] },
+  { name: 'Kuala Lumpur', countryCode: 'MY', coordinates: [3.139, 101.6869] },
+  {
+    name: 'Bali',
+    countryCode: 'ID',
+    coordinates: [-8.3405, 115.092],
+    aliases: ['Denpasar'],
+  },
+  { name: 'Jakarta', countryCode: 'ID', coordinates: [-6.2088, 106.8456] },
+  { name: 'Manila', countryCode: 'PH', coordinates: [14.5995, 120.9842] },
+  {
+    name: 'Hanoi',
+    countryCode: 'VN',
+    coordinates: [21.0278, 105.8342],
+    aliases: ['Hà Nội'],
+  },
+  {
+    name: 'Ho Chi Minh City',
+    countryCode: 'VN',
+    coordinates: [10.8231, 106.6297],
+    aliases: ['Saigon'],
+  },
+  {
+    name: 'Mumbai',
+    countryCode: 'IN',
+    coordinates: [19.076, 72.8777],
+    aliases: ['Bombay'],
+  },
+  {
+    name: 'New Delhi',
+    countryCode: 'IN',
+    coordinates: [28.6139, 77.209],
+    aliases: ['Delhi'],
+  },
+  { name: 'Goa', countryCode: 'IN', coordinates: [15.2993, 74.124] },
+  { name: 'Dubai', countryCode: 'AE', coordinates: [25.2048, 55.2708] },
+  { name: 'Abu Dhabi', countryCode: 'AE', coordinates: [24.4539, 54.3773] },
+  {
+    name: 'Tel Aviv',
+    countryCode: 'IL',
+    coordinates: [32.0853, 34.7818],
+    aliases: ['Tel Aviv-Yafo'],
+  },
+  { name: 'Jerusalem', countryCode: 'IL', coordinates: [31.7683, 35.2137] },
+
+  // Africa
+  { name: 'Cairo', countryCode: 'EG', coordinates: [30.0444, 31.2357] },
+  {
+    name: 'Marrakech',
+    countryCode: 'MA',
+    coordinates: [31.6295, -7.9811],
+    aliases: ['Marrakesh'],
+  },
+  { name: 'Cape Town', countryCode: 'ZA', coordinates: [-33.9249, 18.4241] },
+  { name: 'Johannesburg', countryCode: 'ZA', coordinates: [-26.2041, 28.0473] },
+  { name: 'Nairobi', countryCode: 'KE', coordinates: [-1.2921, 36.8219] },
+
+  // Oceania
+  { name: 'Sydney', countryCode: 'AU', coordinates: [-33.8688, 151.2093] },
+  { name: 'Melbourne', countryCode: 'AU', coordinates: [-37.8136, 144.9631] },
+  { name: 'Brisbane', countryCode: 'AU', coordinates: [-27.4698, 153.0251] },
+  { name: 'Perth', countryCode: 'AU', coordinates: [-31.9505, 115.8605] },
+  { name: 'Auckland', countryCode: 'NZ', coordinates: [-36.8485, 174.7633] },
+  { name: 'Queenstown', countryCode: 'NZ', coordinates: [-45.0312, 168.6626] },
+];
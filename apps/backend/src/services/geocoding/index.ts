@@ -0,0 +1,15 @@
+export {
+  GazetteerGeocoder,
+  NominatimGeocoder,
+  ChainedGeocoder,
+  normalizePlaceName,
+} from './Geocoder';
+export { GAZETTEER_CITIES, GAZETTEER_COUNTRIES } from './gazetteer';
+export { createGeocoder } from './factory';
+
+export type {
+  Geocoder,
+  GeocodeQuery,
+  NominatimGeocoderOptions,
+} from './Geocoder';
+export type { GazetteerCity, GazetteerCountry } from './gazetteer';
@@ -2,7 +2,6 @@ import {
   TransactionId, 
   TransactionRecord, 
   TransactionReceipt,
-  MirrorNodeClient,
   Status
 } from '@hashgraph/sdk';
 import { HederaService } from './HederaService';
@@ -48,6 +47,31 @@ export interface ProposalAuditEvent {
   eventData: Record<string, any>;
 }
 
+/**
+ * A transaction as reported by the mirror node REST API
+ */
+export interface MirrorNodeTransaction {
+  transactionId: string;
+  /** e.g. SUCCESS, INVALID_SIGNATURE */
+  result: string;
+  /** e.g. CONSENSUSSUBMITMESSAGE, TOKENMINT, CRYPTOTRANSFER */
+  name: string;
+  consensusTimestamp: string;
+  /** Topic, token or account the transaction acted on */
+  entityId?: string;
+}
+
+/**
+ * An NFT as reported by the mirror node REST API
+ */
+export interface MirrorNodeNft {
+  tokenId: string;
+  serialNumber: number;
+  /** Current owner; absent once burned */
+  accountId?: string;
+  deleted: boolean;
+}
+
 export interface BlockchainState {
   blockNumber: number;
   timestamp: string;
@@ -60,16 +84,79 @@ export interface BlockchainState {
  */
 export class BlockchainVerificationService {
   private hederaService: HederaService;
-  private mirrorNodeClient?: MirrorNodeClient;
+  private mirrorNodeUrl?: string;
+  private mirrorNodeTimeoutMs: number = 10000;
   private verificationCache: Map<string, VerificationResult> = new Map();
   private cacheExpiryMs: number = 300000; // 5 minutes
 
   constructor(hederaService: HederaService, mirrorNodeUrl?: string) {
     this.hederaService = hederaService;
-    
-    if (mirrorNodeUrl) {
-      this.mirrorNodeClient = new MirrorNodeClient(mirrorNodeUrl);
+    this.mirrorNodeUrl = mirrorNodeUrl?.replace(/\/+$/, '');
+  }
+
+  /**
+   * Look up a transaction on the mirror node. Returns null when the mirror
+   * node has no record of it; throws when the mirror node cannot be reached.
+   */
+  async getMirrorNodeTransaction(transactionId: string): Promise<MirrorNodeTransaction | null> {
+    const body = await this.queryMirrorNode(
+      `/api/v1/transactions/${encodeURIComponent(toMirrorNodeTransactionId(transactionId))}`
+    );
+    const transactions: any[] = body?.transactions || [];
+    if (transactions.length === 0) {
+      return null;
+    }
+
+    // Child transactions share the payer's transaction ID; the parent has nonce 0
+    const transaction = transactions.find(tx => !tx.nonce) || transactions[0];
+
+    return {
+      transactionId: transaction.transaction_id,
+      result: transaction.result,
+      name: transaction.name,
+      consensusTimestamp: transaction.consensus_timestamp,
+      entityId: transaction.entity_id || undefined,
+    };
+  }
+
+  /**
+   * Look up an NFT on the mirror node. Returns null when the mirror node has
+   * no record of it.
+   */
+  async getMirrorNodeNft(tokenId: string, serialNumber: number): Promise<MirrorNodeNft | null> {
+    const body = await this.queryMirrorNode(
+      `/api/v1/tokens/${encodeURIComponent(tokenId)}/nfts/${serialNumber}`
+    );
+    if (!body) {
+      return null;
     }
+
+    return {
+      tokenId: body.token_id,
+      serialNumber: body.serial_number,
+      accountId: body.account_id || undefined,
+      deleted: !!body.deleted,
+    };
+  }
+
+  private async queryMirrorNode(path: string): Promise<any | null> {
+    if (!this.mirrorNodeUrl) {
+      throw new Error('Mirror node URL not configured');
+    }
+
+    const response = await fetch(`${this.mirrorNodeUrl}${path}`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.mirrorNodeTimeoutMs),
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Mirror node returned ${response.status} for ${path}`);
+    }
+
+    return response.json();
   }
 
   /**
@@ -679,4 +766,21 @@ export class BlockchainVerificationService {
       // Hit rate would require additional tracking
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert an SDK transaction ID (0.0.1234@1700000000.000000001) to the form
+ * used by the mirror node (0.0.1234-1700000000-000000001). IDs already in
+ * mirror node form are returned unchanged.
+ */
+export function toMirrorNodeTransactionId(transactionId: string): string {
+  const match = /^(\d+\.\d+\.\d+)@(\d+)\.(\d+)$/.exec(transactionId);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : transactionId;
+}
+
+/**
+ * Whether a value looks like a Hedera transaction ID in either form
+ */
+export function isHederaTransactionId(value: string): boolean {
+  return /^\d+\.\d+\.\d+[@-]\d+[.-]\d+$/.test(value);
+}
@@ -29,10 +29,10 @@ export function getHederaConfig(): HederaConfig {
     throw new Error('HEDERA_PRIVATE_KEY environment variable is required');
   }
 
-  // Set mirror node URL based on network
-  const mirrorNodeUrl = network === 'testnet' 
+  // Set mirror node URL based on network, unless a specific mirror node is configured
+  const mirrorNodeUrl = process.env.HEDERA_MIRROR_NODE_URL || (network === 'testnet' 
     ? 'https://testnet.mirrornode.hedera.com'
-    : 'https://mainnet-public.mirrornode.hedera.com';
+    : 'https://mainnet-public.mirrornode.hedera.com');
 
   const hederaConfig: HederaConfig = {
     network,
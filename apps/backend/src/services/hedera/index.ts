@@ -1,7 +1,11 @@
 export { HederaService } from './HederaService';
 export { WalletService } from './WalletService';
 export { ContractService } from './ContractService';
-export { BlockchainVerificationService } from './BlockchainVerificationService';
+export {
+  BlockchainVerificationService,
+  toMirrorNodeTransactionId,
+  isHederaTransactionId,
+} from './BlockchainVerificationService';
 export { SwapMatchingHederaExtensions } from './SwapMatchingHederaExtensions';
 export { TargetingHederaExtensions } from './TargetingHederaExtensions';
 export { TargetingVerificationService } from './TargetingVerificationService';
@@ -38,6 +42,8 @@ export type {
   BlockchainState,
   ProposalTransactionVerification,
   ProposalAuditEvent,
+  MirrorNodeTransaction,
+  MirrorNodeNft,
 } from './BlockchainVerificationService';
 
 export type {
@@ -0,0 +1,613 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CONVERSATION_ATTACHMENT_CONTENT_TYPES,
+  Conversation,
+  ConversationDetails,
+  ConversationFilters,
+  ConversationMessage,
+  ConversationReadReceipt,
+  MAX_CONVERSATION_ATTACHMENT_BYTES,
+  MAX_MESSAGE_LENGTH,
+  MessagingError,
+  MessagingErrorCodes,
+  OpenConversationRequest,
+} from '@booking-swap/shared';
+import {
+  ConversationRecord,
+  ConversationRepository,
+  StoredConversationMessage,
+} from '../../database/repositories/ConversationRepository';
+import { ReviewRepository } from '../../database/repositories/ReviewRepository';
+import { DisputeRepository } from '../../database/repositories/DisputeRepository';
+import { UserRepository } from '../../database/repositories/UserRepository';
+import { SwapRepository } from '../../database/repositories/SwapRepository';
+import { BookingRepository } from '../../database/repositories/BookingRepository';
+import { NotificationService } from '../notification/NotificationService';
+import { WebSocketService } from '../notification/WebSocketService';
+import { FileStore } from '../storage/FileStore';
+import { maskContactDetails } from './contactDetails';
+import { logger } from '../../utils/logger';
+
+const MAX_FILE_NAME_LENGTH = 255;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_MODERATION_MESSAGES = 500;
+
+// Swaps whose parties may share contact details with each other
+const UNLOCKED_SWAP_STATUSES = ['accepted', 'completed'];
+
+export interface MessageAttachmentUpload {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+  // Optional text sent with the file
+  caption?: string;
+}
+
+export interface MessagePage {
+  limit?: number;
+  // Only messages sent before this time, for loading older history
+  before?: Date;
+}
+
+export interface MessagingViewer {
+  userId: string;
+  /** Support staff can read every thread for moderation */
+  isAdmin?: boolean;
+}
+
+/**
+ * Direct messages between a swap owner and a counterparty, either about a
+ * swap or tied to a proposal. Messages are stored as written, but contact
+ * details are masked for both parties until the proposal or swap between
+ * them is accepted. Support staff see threads unmasked when moderating a
+ * dispute between the two parties.
+ */
+export class MessagingService {
+  constructor(
+    private conversationRepository: ConversationRepository,
+    private reviewRepository: ReviewRepository,
+    private disputeRepository: DisputeRepository,
+    private userRepository: UserRepository,
+    private swapRepository: SwapRepository,
+    private bookingRepository: BookingRepository,
+    private notificationService: NotificationService,
+    private fileStore: FileStore,
+    private webSocketService?: WebSocketService
+  ) {}
+
+  /**
+   * Open the thread for a proposal, or a thread with the owner about a
+   * swap, creating it the first time
+   */
+  async openConversation(
+    userId: string,
+    request: OpenConversationRequest
+  ): Promise<Conversation> {
+    if (!!request.swapId === !!request.proposalId) {
+      throw new MessagingError(
+        MessagingErrorCodes.INVALID_CONVERSATION,
+        'Provide either swapId or proposalId'
+      );
+    }
+
+    let participants: {
+      swapId: string;
+      proposalId?: string;
+      ownerId: string;
+      counterpartyId: string;
+    };
+
+    if (request.proposalId) {
+      const proposal = await this.conversationRepository.findProposalContext(
+        request.proposalId
+      );
+      if (!proposal) {
+        throw new MessagingError(
+          MessagingErrorCodes.PROPOSAL_NOT_FOUND,
+          'Proposal not found'
+        );
+      }
+      if (userId !== proposal.ownerId && userId !== proposal.counterpartyId) {
+        throw this.notParticipant();
+      }
+      participants = proposal;
+    } else {
+      const swap = await this.conversationRepository.findSwapContext(
+        request.swapId!
+      );
+      if (!swap) {
+        throw new MessagingError(
+          MessagingErrorCodes.SWAP_NOT_FOUND,
+          'Swap not found'
+        );
+      }
+      // Owners answer the threads others open about their swap
+      if (swap.ownerId === userId) {
+        throw new MessagingError(
+          MessagingErrorCodes.CANNOT_MESSAGE_SELF,
+          'You cannot start a conversation about your own swap'
+        );
+      }
+      participants = {
+        swapId: swap.swapId,
+        ownerId: swap.ownerId,
+        counterpartyId: userId,
+      };
+    }
+
+    const { conversation, created } =
+      await this.conversationRepository.findOrCreate(participants);
+    if (created) {
+      logger.info('Conversation opened', {
+        conversationId: conversation.id,
+        swapId: conversation.swapId,
+        proposalId: conversation.proposalId,
+        userId,
+      });
+    }
+
+    return this.toConversation(
+      conversation,
+      await this.conversationRepository.countUnread(conversation.id, userId)
+    );
+  }
+
+  async listConversations(
+    userId: string,
+    filters: ConversationFilters = {}
+  ): Promise<Conversation[]> {
+    const rows = await this.conversationRepository.findForUser(userId, filters);
+    return Promise.all(
+      rows.map(({ conversation, unreadCount }) =>
+        this.toConversation(conversation, unreadCount)
+      )
+    );
+  }
+
+  /**
+   * A conversation with a page of its messages. Opening it also subscribes
+   * the participant's sockets to its typing indicators.
+   */
+  async getConversation(
+    conversationId: string,
+    userId: string,
+    page: MessagePage = {}
+  ): Promise<ConversationDetails> {
+    const record = await this.getParticipantConversation(
+      conversationId,
+      userId
+    );
+    const limit = Math.min(page.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    // Fetch one extra message to tell whether there is older history
+    const [stored, unlocked, unreadCount] = await Promise.all([
+      this.conversationRepository.findMessages(
+        record.id,
+        limit + 1,
+        page.before
+      ),
+      this.isUnlocked(record),
+      this.conversationRepository.countUnread(record.id, userId),
+    ]);
+    const hasMore = stored.length > limit;
+
+    this.webSocketService?.joinConversationRoom(userId, record.id);
+
+    return {
+      conversation: this.buildConversation(record, unlocked, unreadCount),
+      messages: stored
+        .slice(0, limit)
+        .reverse()
+        .map(message => this.toPublicMessage(message, unlocked)),
+      hasMore,
+    };
+  }
+
+  async sendMessage(
+    conversationId: string,
+    senderId: string,
+    body: string
+  ): Promise<ConversationMessage> {
+    const text = this.validateBody(body, true);
+    const record = await this.getParticipantConversation(
+      conversationId,
+      senderId
+    );
+
+    const stored = await this.conversationRepository.addMessage({
+      conversationId: record.id,
+      senderId,
+      body: text,
+      containsContactDetails: maskContactDetails(text).masked,
+    });
+    return this.deliver(record, stored);
+  }
+
+  async sendAttachment(
+    conversationId: string,
+    senderId: string,
+    upload: MessageAttachmentUpload
+  ): Promise<ConversationMessage> {
+    const caption = this.validateBody(upload.caption || '', false);
+    this.validateAttachment(upload);
+    const record = await this.getParticipantConversation(
+      conversationId,
+      senderId
+    );
+
+    const fileName = upload.fileName.trim();
+    const extension = path.extname(fileName).toLowerCase();
+    const storageKey = `conversations/${record.id}/${uuidv4()}${extension}`;
+    await this.fileStore.put(storageKey, upload.data);
+
+    let stored: StoredConversationMessage;
+    try {
+      stored = await this.conversationRepository.addMessage({
+        conversationId: record.id,
+        senderId,
+        body: caption,
+        containsContactDetails:
+          maskContactDetails(caption).masked ||
+          maskContactDetails(fileName).masked,
+        attachment: {
+          fileName,
+          contentType: upload.contentType,
+          sizeBytes: upload.data.length,
+          storageKey,
+        },
+      });
+    } catch (error) {
+      await this.fileStore.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+    return this.deliver(record, stored);
+  }
+
+  /**
+   * Mark everything up to now as read and let the other party know
+   */
+  async markRead(
+    conversationId: string,
+    userId: string
+  ): Promise<ConversationReadReceipt> {
+    const record = await this.getParticipantConversation(
+      conversationId,
+      userId
+    );
+    const readAt = new Date();
+    const updated =
+      (await this.conversationRepository.markRead(record.id, userId, readAt)) ||
+      record;
+
+    const lastReadAt =
+      (updated.ownerId === userId
+        ? updated.ownerLastReadAt
+        : updated.counterpartyLastReadAt) || readAt;
+    this.webSocketService?.sendConversationRead(
+      [updated.ownerId, updated.counterpartyId],
+      { conversationId: updated.id, userId, lastReadAt }
+    );
+    return { userId, lastReadAt };
+  }
+
+  async getAttachmentFile(
+    conversationId: string,
+    messageId: string,
+    viewer: MessagingViewer
+  ): Promise<{ fileName: string; contentType: string; data: Buffer }> {
+    const record = viewer.isAdmin
+      ? await this.conversationRepository.findById(conversationId)
+      : await this.getParticipantConversation(conversationId, viewer.userId);
+    if (!record) {
+      throw this.notFound();
+    }
+
+    const message = await this.conversationRepository.findMessageById(
+      record.id,
+      messageId
+    );
+    const data = message?.attachment
+      ? await this.fileStore.get(message.attachment.storageKey)
+      : null;
+    if (!message?.attachment || !data) {
+      throw new MessagingError(
+        MessagingErrorCodes.ATTACHMENT_NOT_FOUND,
+        'Attachment not found'
+      );
+    }
+
+    const unlocked = viewer.isAdmin || (await this.isUnlocked(record));
+    return {
+      fileName: unlocked
+        ? message.attachment.fileName
+        : maskContactDetails(message.attachment.fileName).text,
+      contentType: message.attachment.contentType,
+      data,
+    };
+  }
+
+  /**
+   * Every thread between the two parties of a dispute, unmasked, for support
+   * staff investigating it
+   */
+  async getDisputeConversations(
+    disputeId: string,
+    adminId: string
+  ): Promise<ConversationDetails[]> {
+    const dispute = await this.disputeRepository.findById(disputeId);
+    if (!dispute) {
+      throw new MessagingError(
+        MessagingErrorCodes.DISPUTE_NOT_FOUND,
+        'Dispute not found'
+      );
+    }
+
+    const records = await this.conversationRepository.findBetweenUsers(
+      dispute.reporterId,
+      dispute.reportedUserId
+    );
+    logger.info('Dispute conversations viewed for moderation', {
+      disputeId,
+      adminId,
+      conversationCount: records.length,
+    });
+
+    return Promise.all(
+      records.map(async record => {
+        const stored = await this.conversationRepository.findMessages(
+          record.id,
+          MAX_MODERATION_MESSAGES + 1
+        );
+        return {
+          conversation: this.buildConversation(
+            record,
+            await this.isUnlocked(record),
+            0
+          ),
+          messages: stored
+            .slice(0, MAX_MODERATION_MESSAGES)
+            .reverse()
+            .map(message => this.toPublicMessage(message, true)),
+          hasMore: stored.length > MAX_MODERATION_MESSAGES,
+        };
+      })
+    );
+  }
+
+  /**
+   * Push a new message to both parties and notify the recipient if they
+   * are away and have caught up on the thread so far
+   */
+  private async deliver(
+    record: ConversationRecord,
+    stored: StoredConversationMessage
+  ): Promise<ConversationMessage> {
+    const message = this.toPublicMessage(stored, await this.isUnlocked(record));
+    const recipientId =
+      stored.senderId === record.ownerId
+        ? record.counterpartyId
+        : record.ownerId;
+
+    this.webSocketService?.sendConversationMessage(
+      [record.ownerId, record.counterpartyId],
+      { conversationId: record.id, message }
+    );
+
+    const recipientLastReadAt =
+      recipientId === record.ownerId
+        ? record.ownerLastReadAt
+        : record.counterpartyLastReadAt;
+    const caughtUp =
+      !record.lastMessageAt ||
+      (!!recipientLastReadAt && recipientLastReadAt >= record.lastMessageAt);
+    if (caughtUp && !this.webSocketService?.isUserConnected(recipientId)) {
+      await this.notifyRecipient(record, stored.senderId, recipientId);
+    }
+
+    return message;
+  }
+
+  private async notifyRecipient(
+    record: ConversationRecord,
+    senderId: string,
+    recipientId: string
+  ): Promise<void> {
+    try {
+      const sender = await this.userRepository.findById(senderId);
+      const swap = await this.swapRepository.findById(record.swapId);
+      const booking = swap
+        ? await this.bookingRepository.findById(swap.sourceBookingId)
+        : null;
+
+      await this.notificationService.sendNotification(
+        'message_received',
+        recipientId,
+        {
+          conversationId: record.id,
+          swapId: record.swapId,
+          proposalId: record.proposalId,
+          senderName: sender?.profile?.displayName || 'A swap partner',
+          bookingTitle: booking?.title || 'your swap',
+        },
+        ['in_app']
+      );
+    } catch (error) {
+      logger.error('Failed to send message notification', {
+        conversationId: record.id,
+        recipientId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Contact details may be shared once the proposal behind the thread is
+   * accepted, or once the swap is accepted with both users as its parties
+   */
+  private async isUnlocked(record: ConversationRecord): Promise<boolean> {
+    if (record.proposalId) {
+      const proposal = await this.conversationRepository.findProposalContext(
+        record.proposalId
+      );
+      if (proposal?.accepted) {
+        return true;
+      }
+    }
+
+    const swap = await this.reviewRepository.findReviewableSwap(record.swapId);
+    return (
+      !!swap &&
+      UNLOCKED_SWAP_STATUSES.includes(swap.status) &&
+      swap.partyIds.includes(record.ownerId) &&
+      swap.partyIds.includes(record.counterpartyId)
+    );
+  }
+
+  private async getParticipantConversation(
+    conversationId: string,
+    userId: string
+  ): Promise<ConversationRecord> {
+    const record = await this.conversationRepository.findById(conversationId);
+    if (!record) {
+      throw this.notFound();
+    }
+    if (record.ownerId !== userId && record.counterpartyId !== userId) {
+      throw this.notParticipant();
+    }
+    return record;
+  }
+
+  private async toConversation(
+    record: ConversationRecord,
+    unreadCount: number
+  ): Promise<Conversation> {
+    return this.buildConversation(
+      record,
+      await this.isUnlocked(record),
+      unreadCount
+    );
+  }
+
+  private buildConversation(
+    record: ConversationRecord,
+    unlocked: boolean,
+    unreadCount: number
+  ): Conversation {
+    const readReceipts: ConversationReadReceipt[] = [];
+    if (record.ownerLastReadAt) {
+      readReceipts.push({
+        userId: record.ownerId,
+        lastReadAt: record.ownerLastReadAt,
+      });
+    }
+    if (record.counterpartyLastReadAt) {
+      readReceipts.push({
+        userId: record.counterpartyId,
+        lastReadAt: record.counterpartyLastReadAt,
+      });
+    }
+
+    return {
+      id: record.id,
+      swapId: record.swapId,
+      proposalId: record.proposalId,
+      ownerId: record.ownerId,
+      counterpartyId: record.counterpartyId,
+      contactDetailsUnlocked: unlocked,
+      readReceipts,
+      unreadCount,
+      lastMessageAt: record.lastMessageAt,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  /**
+   * A message without its storage key, masked unless the thread is unlocked
+   */
+  private toPublicMessage(
+    message: StoredConversationMessage,
+    unlocked: boolean
+  ): ConversationMessage {
+    const show = (text: string) =>
+      unlocked ? text : maskContactDetails(text).text;
+
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      body: show(message.body),
+      containsContactDetails: message.containsContactDetails,
+      attachment: message.attachment
+        ? {
+            fileName: show(message.attachment.fileName),
+            contentType: message.attachment.contentType,
+            sizeBytes: message.attachment.sizeBytes,
+          }
+        : undefined,
+      createdAt: message.createdAt,
+    };
+  }
+
+  private validateBody(body: string, required: boolean): string {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (required && !text) {
+      throw new MessagingError(
+        MessagingErrorCodes.INVALID_MESSAGE,
+        'Message text is required'
+      );
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new MessagingError(
+        MessagingErrorCodes.INVALID_MESSAGE,
+        `Messages are at most ${MAX_MESSAGE_LENGTH} characters`
+      );
+    }
+    return text;
+  }
+
+  private validateAttachment(upload: MessageAttachmentUpload): void {
+    const fileName = upload.fileName?.trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      throw new MessagingError(
+        MessagingErrorCodes.INVALID_ATTACHMENT,
+        `fileName is required and at most ${MAX_FILE_NAME_LENGTH} characters`
+      );
+    }
+    if (
+      !(CONVERSATION_ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(
+        upload.contentType
+      )
+    ) {
+      throw new MessagingError(
+        MessagingErrorCodes.INVALID_ATTACHMENT,
+        `Attachments must be one of ${CONVERSATION_ATTACHMENT_CONTENT_TYPES.join(', ')}`
+      );
+    }
+    if (
+      upload.data.length === 0 ||
+      upload.data.length > MAX_CONVERSATION_ATTACHMENT_BYTES
+    ) {
+      throw new MessagingError(
+        MessagingErrorCodes.INVALID_ATTACHMENT,
+        `Attachments must be between 1 byte and ${MAX_CONVERSATION_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+      );
+    }
+  }
+
+  private notParticipant(): MessagingError {
+    return new MessagingError(
+      MessagingErrorCodes.NOT_PARTICIPANT,
+      'You are not part of this conversation'
+    );
+  }
+
+  private notFound(): MessagingError {
+    return new MessagingError(
+      MessagingErrorCodes.CONVERSATION_NOT_FOUND,
+      'Conversation not found'
+    );
+  }
+}
@@ -0,0 +1,486 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MAX_CONVERSATION_ATTACHMENT_BYTES,
+  MessagingErrorCodes,
+} from '@booking-swap/shared';
+import { MessagingService } from '../MessagingService';
+import { CONTACT_DETAILS_PLACEHOLDER } from '../contactDetails';
+import { ConversationRecord } from '../../../database/repositories/ConversationRepository';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const OWNER = 'user-1';
+const COUNTERPARTY = 'user-2';
+const OUTSIDER = 'user-3';
+const ADMIN = 'admin-1';
+
+const makeConversation = (
+  overrides: Partial<ConversationRecord> = {}
+): ConversationRecord => ({
+  id: 'conversation-1',
+  swapId: 'swap-1',
+  ownerId: OWNER,
+  counterpartyId: COUNTERPARTY,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const makeMessage = (overrides: Record<string, any> = {}) => ({
+  id: 'message-1',
+  conversationId: 'conversation-1',
+  senderId: COUNTERPARTY,
+  body: 'Call me on 0207 946 0958',
+  containsContactDetails: true,
+  createdAt: new Date('2025-01-02T00:00:00Z'),
+  ...overrides,
+});
+
+describe('MessagingService', () => {
+  let service: MessagingService;
+  let conversationRepository: any;
+  let reviewRepository: any;
+  let disputeRepository: any;
+  let userRepository: any;
+  let swapRepository: any;
+  let bookingRepository: any;
+  let notificationService: any;
+  let fileStore: any;
+  let webSocketService: any;
+
+  beforeEach(() => {
+    conversationRepository = {
+      findById: vi.fn().mockResolvedValue(makeConversation()),
+      findOrCreate: vi.fn(async (data: any) => ({
+        conversation: makeConversation(data),
+        created: true,
+      })),
+      findForUser: vi.fn().mockResolvedValue([]),
+      countUnread: vi.fn().mockResolvedValue(0),
+      findBetweenUsers: vi.fn().mockResolvedValue([]),
+      addMessage: vi.fn(async (data: any) => ({
+        ...data,
+        id: 'message-1',
+        createdAt: new Date('2025-01-02T00:00:00Z'),
+      })),
+      findMessages: vi.fn().mockResolvedValue([]),
+      findMessageById: vi.fn(),
+      markRead: vi.fn(),
+      findSwapContext: vi.fn().mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'pending',
+        ownerId: OWNER,
+      }),
+      findProposalContext: vi.fn().mockResolvedValue(null),
+    };
+    reviewRepository = {
+      findReviewableSwap: vi.fn().mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'pending',
+        partyIds: [OWNER],
+      }),
+    };
+    disputeRepository = { findById: vi.fn() };
+    userRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: COUNTERPARTY,
+        profile: { displayName: 'Sam' },
+      }),
+    };
+    swapRepository = {
+      findById: vi
+        .fn()
+        .mockResolvedValue({ id: 'swap-1', sourceBookingId: 'booking-1' }),
+    };
+    bookingRepository = {
+      findById: vi
+        .fn()
+        .mockResolvedValue({ id: 'booking-1', title: 'Beach house' }),
+    };
+    notificationService = { sendNotification: vi.fn() };
+    fileStore = {
+      name: 'memory',
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    webSocketService = {
+      sendConversationMessage: vi.fn(),
+      sendConversationRead: vi.fn(),
+      joinConversationRoom: vi.fn(),
+      isUserConnected: vi.fn().mockReturnValue(false),
+    };
+
+    service = new MessagingService(
+      conversationRepository,
+      reviewRepository,
+      disputeRepository,
+      userRepository,
+      swapRepository,
+      bookingRepository,
+      notificationService,
+      fileStore,
+      webSocketService
+    );
+  });
+
+  describe('openConversation', () => {
+    it('opens a swap thread between the owner and the requesting user', async () => {
+      const conversation = await service.openConversation(COUNTERPARTY, {
+        swapId: 'swap-1',
+      });
+
+      expect(conversationRepository.findOrCreate).toHaveBeenCalledWith({
+        swapId: 'swap-1',
+        ownerId: OWNER,
+        counterpartyId: COUNTERPARTY,
+      });
+      expect(conversation.contactDetailsUnlocked).toBe(false);
+    });
+
+    it('does not let owners open a thread about their own swap', async () => {
+      await expect(
+        service.openConversation(OWNER, { swapId: 'swap-1' })
+      ).rejects.toMatchObject({
+        code: MessagingErrorCodes.CANNOT_MESSAGE_SELF,
+      });
+    });
+
+    it('opens proposal threads only for the proposal parties', async () => {
+      conversationRepository.findProposalContext.mockResolvedValue({
+        proposalId: 'proposal-1',
+        swapId: 'swap-1',
+        ownerId: OWNER,
+        counterpartyId: COUNTERPARTY,
+        accepted: false,
+      });
+
+      await expect(
+        service.openConversation(OUTSIDER, { proposalId: 'proposal-1' })
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.NOT_PARTICIPANT });
+
+      await service.openConversation(OWNER, { proposalId: 'proposal-1' });
+      expect(conversationRepository.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          proposalId: 'proposal-1',
+          ownerId: OWNER,
+          counterpartyId: COUNTERPARTY,
+        })
+      );
+    });
+
+    it('requires exactly one of swapId and proposalId', async () => {
+      await expect(
+        service.openConversation(COUNTERPARTY, {})
+      ).rejects.toMatchObject({
+        code: MessagingErrorCodes.INVALID_CONVERSATION,
+      });
+      await expect(
+        service.openConversation(COUNTERPARTY, {
+          swapId: 'swap-1',
+          proposalId: 'proposal-1',
+        })
+      ).rejects.toMatchObject({
+        code: MessagingErrorCodes.INVALID_CONVERSATION,
+      });
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('stores the text as written and delivers it masked while locked', async () => {
+      const message = await service.sendMessage(
+        'conversation-1',
+        COUNTERPARTY,
+        ' Call me on 0207 946 0958 '
+      );
+
+      expect(conversationRepository.addMessage).toHaveBeenCalledWith({
+        conversationId: 'conversation-1',
+        senderId: COUNTERPARTY,
+        body: 'Call me on 0207 946 0958',
+        containsContactDetails: true,
+      });
+      expect(message.body).toBe(`Call me on ${CONTACT_DETAILS_PLACEHOLDER}`);
+      expect(webSocketService.sendConversationMessage).toHaveBeenCalledWith(
+        [OWNER, COUNTERPARTY],
+        { conversationId: 'conversation-1', message }
+      );
+    });
+
+    it('delivers contact details once the swap between the parties is accepted', async () => {
+      reviewRepository.findReviewableSwap.mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'accepted',
+        partyIds: [OWNER, COUNTERPARTY],
+      });
+
+      const message = await service.sendMessage(
+        'conversation-1',
+        COUNTERPARTY,
+        'Call me on 0207 946 0958'
+      );
+
+      expect(message.body).toBe('Call me on 0207 946 0958');
+    });
+
+    it('keeps masking when the swap was accepted with someone else', async () => {
+      reviewRepository.findReviewableSwap.mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'accepted',
+        partyIds: [OWNER, OUTSIDER],
+      });
+
+      const message = await service.sendMessage(
+        'conversation-1',
+        COUNTERPARTY,
+        'Call me on 0207 946 0958'
+      );
+
+      expect(message.body).toContain(CONTACT_DETAILS_PLACEHOLDER);
+    });
+
+    it('unlocks proposal threads when the proposal is accepted', async () => {
+      conversationRepository.findById.mockResolvedValue(
+        makeConversation({ proposalId: 'proposal-1' })
+      );
+      conversationRepository.findProposalContext.mockResolvedValue({
+        proposalId: 'proposal-1',
+        swapId: 'swap-1',
+        ownerId: OWNER,
+        counterpartyId: COUNTERPARTY,
+        accepted: true,
+      });
+
+      const message = await service.sendMessage(
+        'conversation-1',
+        OWNER,
+        'jane@example.com'
+      );
+
+      expect(message.body).toBe('jane@example.com');
+    });
+
+    it('rejects senders who are not in the conversation', async () => {
+      await expect(
+        service.sendMessage('conversation-1', OUTSIDER, 'Hello')
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.NOT_PARTICIPANT });
+      expect(conversationRepository.addMessage).not.toHaveBeenCalled();
+    });
+
+    it('rejects empty and overlong messages', async () => {
+      await expect(
+        service.sendMessage('conversation-1', OWNER, '   ')
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.INVALID_MESSAGE });
+      await expect(
+        service.sendMessage('conversation-1', OWNER, 'x'.repeat(2001))
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.INVALID_MESSAGE });
+    });
+
+    it('notifies an offline recipient who has caught up on the thread', async () => {
+      await service.sendMessage('conversation-1', COUNTERPARTY, 'Hello');
+
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'message_received',
+        OWNER,
+        expect.objectContaining({
+          conversationId: 'conversation-1',
+          senderName: 'Sam',
+          bookingTitle: 'Beach house',
+        }),
+        ['in_app']
+      );
+    });
+
+    it('does not notify again while earlier messages are unread', async () => {
+      conversationRepository.findById.mockResolvedValue(
+        makeConversation({
+          lastMessageAt: new Date('2025-01-02T00:00:00Z'),
+          ownerLastReadAt: new Date('2025-01-01T12:00:00Z'),
+        })
+      );
+
+      await service.sendMessage('conversation-1', COUNTERPARTY, 'Hello again');
+
+      expect(notificationService.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('does not notify recipients who are connected', async () => {
+      webSocketService.isUserConnected.mockReturnValue(true);
+
+      await service.sendMessage('conversation-1', COUNTERPARTY, 'Hello');
+
+      expect(notificationService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendAttachment', () => {
+    const upload = {
+      fileName: 'Confirmation.PDF',
+      contentType: 'application/pdf',
+      data: Buffer.from('%PDF-1.4'),
+    };
+
+    it('stores the file and records it on a message', async () => {
+      const message = await service.sendAttachment(
+        'conversation-1',
+        OWNER,
+        upload
+      );
+
+      const storageKey = fileStore.put.mock.calls[0][0];
+      expect(storageKey).toMatch(/^conversations\/conversation-1\/.+\.pdf$/);
+      expect(conversationRepository.addMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: '',
+          attachment: {
+            fileName: 'Confirmation.PDF',
+            contentType: 'application/pdf',
+            sizeBytes: upload.data.length,
+            storageKey,
+          },
+        })
+      );
+      expect(message.attachment).toEqual({
+        fileName: 'Confirmation.PDF',
+        contentType: 'application/pdf',
+        sizeBytes: upload.data.length,
+      });
+    });
+
+    it('removes the stored file when the message cannot be saved', async () => {
+      conversationRepository.addMessage.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        service.sendAttachment('conversation-1', OWNER, upload)
+      ).rejects.toThrow('db down');
+      expect(fileStore.delete).toHaveBeenCalledWith(
+        fileStore.put.mock.calls[0][0]
+      );
+    });
+
+    it('rejects unsupported and oversized files', async () => {
+      await expect(
+        service.sendAttachment('conversation-1', OWNER, {
+          ...upload,
+          contentType: 'application/zip',
+        })
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.INVALID_ATTACHMENT });
+      await expect(
+        service.sendAttachment('conversation-1', OWNER, {
+          ...upload,
+          data: Buffer.alloc(MAX_CONVERSATION_ATTACHMENT_BYTES + 1),
+        })
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.INVALID_ATTACHMENT });
+      expect(fileStore.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getConversation', () => {
+    it('returns messages oldest first with a flag for older history', async () => {
+      conversationRepository.findMessages.mockResolvedValue([
+        makeMessage({ id: 'message-3', body: 'Third' }),
+        makeMessage({ id: 'message-2', body: 'Second' }),
+        makeMessage({ id: 'message-1', body: 'First' }),
+      ]);
+
+      const details = await service.getConversation('conversation-1', OWNER, {
+        limit: 2,
+      });
+
+      expect(conversationRepository.findMessages).toHaveBeenCalledWith(
+        'conversation-1',
+        3,
+        undefined
+      );
+      expect(details.messages.map(message => message.id)).toEqual([
+        'message-2',
+        'message-3',
+      ]);
+      expect(details.hasMore).toBe(true);
+      expect(webSocketService.joinConversationRoom).toHaveBeenCalledWith(
+        OWNER,
+        'conversation-1'
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it('records the read receipt and tells both participants', async () => {
+      const readAt = new Date('2025-01-03T00:00:00Z');
+      conversationRepository.markRead.mockResolvedValue(
+        makeConversation({ ownerLastReadAt: readAt })
+      );
+
+      const receipt = await service.markRead('conversation-1', OWNER);
+
+      expect(receipt).toEqual({ userId: OWNER, lastReadAt: readAt });
+      expect(webSocketService.sendConversationRead).toHaveBeenCalledWith(
+        [OWNER, COUNTERPARTY],
+        { conversationId: 'conversation-1', userId: OWNER, lastReadAt: readAt }
+      );
+    });
+  });
+
+  describe('getDisputeConversations', () => {
+    it('shows support staff the unmasked threads between the dispute parties', async () => {
+      disputeRepository.findById.mockResolvedValue({
+        id: 'dispute-1',
+        reporterId: COUNTERPARTY,
+        reportedUserId: OWNER,
+      });
+      conversationRepository.findBetweenUsers.mockResolvedValue([
+        makeConversation(),
+      ]);
+      conversationRepository.findMessages.mockResolvedValue([makeMessage()]);
+
+      const threads = await service.getDisputeConversations('dispute-1', ADMIN);
+
+      expect(conversationRepository.findBetweenUsers).toHaveBeenCalledWith(
+        COUNTERPARTY,
+        OWNER
+      );
+      expect(threads).toHaveLength(1);
+      expect(threads[0].messages[0].body).toBe('Call me on 0207 946 0958');
+      expect(threads[0].messages[0].containsContactDetails).toBe(true);
+    });
+
+    it('fails for unknown disputes', async () => {
+      disputeRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.getDisputeConversations('missing', ADMIN)
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.DISPUTE_NOT_FOUND });
+    });
+  });
+
+  describe('getAttachmentFile', () => {
+    it('lets support staff download attachments from any thread', async () => {
+      conversationRepository.findMessageById.mockResolvedValue(
+        makeMessage({
+          senderId: OUTSIDER,
+          attachment: {
+            fileName: 'passport.png',
+            contentType: 'image/png',
+            sizeBytes: 4,
+            storageKey: 'conversations/conversation-1/file.png',
+          },
+        })
+      );
+      fileStore.get.mockResolvedValue(Buffer.from('data'));
+
+      const file = await service.getAttachmentFile(
+        'conversation-1',
+        'message-1',
+        { userId: ADMIN, isAdmin: true }
+      );
+
+      expect(file.fileName).toBe('passport.png');
+      await expect(
+        service.getAttachmentFile('conversation-1', 'message-1', {
+          userId: OUTSIDER,
+        })
+      ).rejects.toMatchObject({ code: MessagingErrorCodes.NOT_PARTICIPANT });
+    });
+  });
+});
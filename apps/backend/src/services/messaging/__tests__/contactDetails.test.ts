@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONTACT_DETAILS_PLACEHOLDER,
+  maskContactDetails,
+} from '../contactDetails';
+
+describe('maskContactDetails', () => {
+  it('masks email addresses, including spelled-out ones', () => {
+    expect(maskContactDetails('Mail me at jane.doe@example.com').text).toBe(
+      `Mail me at ${CONTACT_DETAILS_PLACEHOLDER}`
+    );
+    expect(maskContactDetails('jane (at) example (dot) com').masked).toBe(true);
+  });
+
+  it('masks phone numbers written with separators', () => {
+    const result = maskContactDetails('Call +44 (20) 7946-0958 tonight');
+
+    expect(result.masked).toBe(true);
+    expect(result.text).toBe(`Call ${CONTACT_DETAILS_PLACEHOLDER} tonight`);
+  });
+
+  it('masks links and messenger handles', () => {
+    expect(maskContactDetails('See www.my-site.example/profile').masked).toBe(
+      true
+    );
+    expect(maskContactDetails('WhatsApp: janedoe99').text).toBe(
+      CONTACT_DETAILS_PLACEHOLDER
+    );
+    expect(maskContactDetails('find me @jane_doe').text).toBe(
+      `find me ${CONTACT_DETAILS_PLACEHOLDER}`
+    );
+  });
+
+  it('leaves dates, short numbers and ordinary text alone', () => {
+    const text =
+      'Check-in is 2025-06-01, room 1204 for 2 guests, about 350 USD. Signal me when ready';
+    const result = maskContactDetails(text);
+
+    expect(result.masked).toBe(false);
+    expect(result.text).toBe(text);
+  });
+});
@@ -0,0 +1,53 @@
+export const CONTACT_DETAILS_PLACEHOLDER = '[contact details hidden]';
+
+const MIN_PHONE_DIGITS = 7;
+
+const EMAIL_PATTERN =
+  /[A-Z0-9._%+-]+\s*(?:@|\(at\)|\[at\])\s*[A-Z0-9-]+(?:\s*(?:\.|\(dot\)|\[dot\])\s*[A-Z0-9-]+)*\s*(?:\.|\(dot\)|\[dot\])\s*[A-Z]{2,}/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+// Messaging apps named together with a handle or number, e.g. "whatsapp: +44..."
+const MESSENGER_PATTERN =
+  /\b(?:whats\s?app|telegram|signal|wechat|viber|instagram|insta|snapchat|skype|facebook|fb)\s*(?::|-|@|\bis\b|\bat\b)\s*@?[\w.+-]{3,}/gi;
+const HANDLE_PATTERN = /(^|[\s(])@[A-Z0-9_.]{3,}/gi;
+// Runs of digits with phone separators; short runs and dates are left alone
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/g;
+const DATE_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}$|^\d{1,2}[.-]\d{1,2}[.-]\d{2,4}$/;
+
+export interface MaskResult {
+  text: string;
+  masked: boolean;
+}
+
+/**
+ * Replace email addresses, phone numbers, links and messenger handles so
+ * counterparties cannot take the conversation off the platform before the
+ * swap is accepted
+ */
+export function maskContactDetails(text: string): MaskResult {
+  let masked = false;
+  const replace = (value: string) => {
+    masked = true;
+    return value;
+  };
+
+  const result = text
+    .replace(EMAIL_PATTERN, () => replace(CONTACT_DETAILS_PLACEHOLDER))
+    .replace(URL_PATTERN, () => replace(CONTACT_DETAILS_PLACEHOLDER))
+    .replace(MESSENGER_PATTERN, () => replace(CONTACT_DETAILS_PLACEHOLDER))
+    .replace(HANDLE_PATTERN, (_match, prefix: string) =>
+      replace(`${prefix}${CONTACT_DETAILS_PLACEHOLDER}`)
+    )
+    .replace(PHONE_PATTERN, match => {
+      const digits = match.replace(/\D/g, '');
+      if (digits.length < MIN_PHONE_DIGITS || DATE_PATTERN.test(match.trim())) {
+        return match;
+      }
+      return replace(CONTACT_DETAILS_PLACEHOLDER);
+    });
+
+  return { text: result, masked };
+}
+
+export function containsContactDetails(text: string): boolean {
+  return maskContactDetails(text).masked;
+}
@@ -0,0 +1,42 @@
+import { Pool } from 'pg';
+import { MessagingService } from './MessagingService';
+import { ConversationRepository } from '../../database/repositories/ConversationRepository';
+import { ReviewRepository } from '../../database/repositories/ReviewRepository';
+import { DisputeRepository } from '../../database/repositories/DisputeRepository';
+import { UserRepository } from '../../database/repositories/UserRepository';
+import { SwapRepository } from '../../database/repositories/SwapRepository';
+import { BookingRepository } from '../../database/repositories/BookingRepository';
+import { createNotificationService } from '../notification/factory';
+import { WebSocketService } from '../notification/WebSocketService';
+import { createFileStore } from '../storage/factory';
+
+let messagingService: MessagingService | null = null;
+
+/**
+ * Messages are only pushed over sockets when the server's WebSocketService
+ * is passed on first creation; later calls return the same instance
+ */
+export function createMessagingService(
+  pool: Pool,
+  webSocketService?: WebSocketService
+): MessagingService {
+  if (!messagingService) {
+    messagingService = new MessagingService(
+      new ConversationRepository(pool),
+      new ReviewRepository(pool),
+      new DisputeRepository(pool),
+      new UserRepository(pool),
+      new SwapRepository(pool),
+      new BookingRepository(pool),
+      createNotificationService(pool, webSocketService),
+      createFileStore(),
+      webSocketService
+    );
+  }
+
+  return messagingService;
+}
+
+export function resetMessagingService(): void {
+  messagingService = null;
+}
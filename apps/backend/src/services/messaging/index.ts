@@ -0,0 +1,14 @@
+export { MessagingService } from './MessagingService';
+export { createMessagingService, resetMessagingService } from './factory';
+export {
+  CONTACT_DETAILS_PLACEHOLDER,
+  containsContactDetails,
+  maskContactDetails,
+} from './contactDetails';
+
+export type {
+  MessageAttachmentUpload,
+  MessagePage,
+  MessagingViewer,
+} from './MessagingService';
+export type { MaskResult } from './contactDetails';
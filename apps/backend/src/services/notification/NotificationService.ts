@@ -9,6 +9,7 @@ import {
   NotificationDeliveryResult,
   EmailNotificationData,
   SMSNotificationData,
+  PushNotificationData,
   WebSocketNotificationData
 } from '@booking-swap/shared';
 import { logger } from '../../utils/logger';
@@ -18,6 +19,7 @@ import { WebSocketService } from './WebSocketService';
 import { NotificationTemplateService } from './NotificationTemplateService';
 import { NotificationRepository } from '../../database/repositories/NotificationRepository';
 import { UserRepository } from '../../database/repositories/UserRepository';
+import { PushService, notificationUrl } from '../push/PushService';
 
 export interface SwapProposalNotificationData {
   swapId: string;
@@ -108,10 +110,89 @@ export interface SwapCreatedNotificationData {
   acceptanceStrategy: any;
 }
 
+export interface NotificationSwapDetails {
+  title: string;
+  location: string;
+  dates: string;
+  value: number;
+  accommodationType: string;
+  guests: number;
+}
+
+export interface SwapCompletionSuccessNotificationData {
+  proposalId: string;
+  completionType: 'booking_exchange' | 'cash_payment';
+  completedSwaps: Array<{
+    swapId: string;
+    previousStatus: string;
+    newStatus: string;
+    completedAt: Date;
+  }>;
+  updatedBookings: Array<{
+    bookingId: string;
+    previousStatus: string;
+    newStatus: string;
+    swappedAt: Date;
+    newOwnerId?: string;
+  }>;
+  blockchainTransaction?: {
+    transactionId: string;
+    consensusTimestamp?: string;
+  };
+  completionTimestamp: Date;
+  proposerId: string;
+  targetUserId: string;
+  sourceSwapDetails: NotificationSwapDetails;
+  targetSwapDetails?: NotificationSwapDetails;
+  cashOffer?: {
+    amount: number;
+    currency: string;
+  };
+}
+
+export interface BookingOwnershipTransferNotificationData {
+  proposalId: string;
+  bookingId: string;
+  previousOwnerId: string;
+  newOwnerId: string;
+  transferredAt: Date;
+  bookingDetails: NotificationSwapDetails;
+  exchangePartnerDetails: {
+    name: string;
+    bookingTitle: string;
+    bookingLocation: string;
+    bookingDates: string;
+  };
+}
+
+/**
+ * A notification ready to send, for callers that queue notifications instead
+ * of sending them right away
+ */
+export interface PreparedNotification {
+  type: NotificationType;
+  userId: string;
+  data: NotificationData;
+}
+
+/**
+ * Receives every notification as it is sent, so integrations such as outbound
+ * webhooks see the same state changes users are told about
+ */
+export interface NotificationEventPublisher {
+  publishNotificationEvent(
+    type: NotificationType,
+    userId: string,
+    data: NotificationData
+  ): Promise<void>;
+}
+
 export class NotificationService {
   private emailService: EmailService;
   private smsService: SMSService | null = null;
   private templateService: NotificationTemplateService;
+  private eventPublisher?: NotificationEventPublisher;
+  private pushService?: PushService;
   public webSocketService?: WebSocketService;
 
   constructor(
@@ -131,6 +212,14 @@ export class NotificationService {
     }
   }
 
+  setEventPublisher(publisher: NotificationEventPublisher): void {
+    this.eventPublisher = publisher;
+  }
+
+  setPushService(pushService: PushService): void {
+    this.pushService = pushService;
+  }
+
   /**
    * Send notification when a swap proposal is created
    */
@@ -677,50 +766,16 @@ export class NotificationService {
    * Send swap completion success notification to all involved users
    * Requirements: 8.1, 8.2, 8.3
    */
-  async sendSwapCompletionSuccessNotification(data: {
-    proposalId: string;
-    completionType: 'booking_exchange' | 'cash_payment';
-    completedSwaps: Array<{
-      swapId: string;
-      previousStatus: string;
-      newStatus: string;
-      completedAt: Date;
-    }>;
-    updatedBookings: Array<{
-      bookingId: string;
-      previousStatus: string;
-      newStatus: string;
-      swappedAt: Date;
-      newOwnerId?: string;
-    }>;
-    blockchainTransaction?: {
-      transactionId: string;
-      consensusTimestamp?: string;
-    };
-    completionTimestamp: Date;
-    proposerId: string;
-    targetUserId: string;
-    sourceSwapDetails: {
-      title: string;
-      location: string;
-      dates: string;
-      value: number;
-      accommodationType: string;
-      guests: number;
-    };
-    targetSwapDetails?: {
-      title: string;
-      location: string;
-      dates: string;
-      value: number;
-      accommodationType: string;
-      guests: number;
-    };
-    cashOffer?: {
-      amount: number;
-      currency: string;
-    };
-  }): Promise<void> {
+  async sendSwapCompletionSuccessNotification(data: SwapCompletionSuccessNotificationData): Promise<void> {
+    for (const notification of this.buildSwapCompletionSuccessNotifications(data)) {
+      await this.sendNotification(notification.type, notification.userId, notification.data);
+    }
+  }
+
+  /**
+   * Build the completion notifications for the proposer and the accepter
+   */
+  buildSwapCompletionSuccessNotifications(data: SwapCompletionSuccessNotificationData): PreparedNotification[] {
     const notificationData = {
       proposalId: data.proposalId,
       completionType: data.completionType,
@@ -740,52 +795,50 @@ export class NotificationService {
       dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`,
     };
 
-    // Send notification to proposer
-    await this.sendNotification('swap_completion_success', data.proposerId, {
-      ...notificationData,
-      role: 'proposer',
-      title: 'Swap Proposal Accepted and Completed',
-      message: data.completionType === 'booking_exchange'
-        ? `Your booking exchange proposal has been accepted! ${data.completedSwaps.length} swap(s) completed and ${data.updatedBookings.length} booking(s) updated.`
-        : `Your cash offer has been accepted! Payment of ${data.cashOffer?.amount} ${data.cashOffer?.currency} has been processed.`,
-    });
-
-    // Send notification to target user (accepter)
-    await this.sendNotification('swap_completion_success', data.targetUserId, {
-      ...notificationData,
-      role: 'accepter',
-      title: 'Swap Completed Successfully',
-      message: data.completionType === 'booking_exchange'
-        ? `You have successfully completed a booking exchange! ${data.completedSwaps.length} swap(s) completed and ${data.updatedBookings.length} booking(s) updated.`
-        : `You have successfully accepted a cash offer of ${data.cashOffer?.amount} ${data.cashOffer?.currency}.`,
-    });
+    return [
+      // Notification to proposer
+      {
+        type: 'swap_completion_success',
+        userId: data.proposerId,
+        data: {
+          ...notificationData,
+          role: 'proposer',
+          title: 'Swap Proposal Accepted and Completed',
+          message: data.completionType === 'booking_exchange'
+            ? `Your booking exchange proposal has been accepted! ${data.completedSwaps.length} swap(s) completed and ${data.updatedBookings.length} booking(s) updated.`
+            : `Your cash offer has been accepted! Payment of ${data.cashOffer?.amount} ${data.cashOffer?.currency} has been processed.`,
+        },
+      },
+      // Notification to target user (accepter)
+      {
+        type: 'swap_completion_success',
+        userId: data.targetUserId,
+        data: {
+          ...notificationData,
+          role: 'accepter',
+          title: 'Swap Completed Successfully',
+          message: data.completionType === 'booking_exchange'
+            ? `You have successfully completed a booking exchange! ${data.completedSwaps.length} swap(s) completed and ${data.updatedBookings.length} booking(s) updated.`
+            : `You have successfully accepted a cash offer of ${data.cashOffer?.amount} ${data.cashOffer?.currency}.`,
+        },
+      },
+    ];
   }
 
   /**
    * Send booking ownership transfer notifications for booking exchanges
    * Requirements: 8.3, 8.4
    */
-  async sendBookingOwnershipTransferNotification(data: {
-    proposalId: string;
-    bookingId: string;
-    previousOwnerId: string;
-    newOwnerId: string;
-    transferredAt: Date;
-    bookingDetails: {
-      title: string;
-      location: string;
-      dates: string;
-      value: number;
-      accommodationType: string;
-      guests: number;
-    };
-    exchangePartnerDetails: {
-      name: string;
-      bookingTitle: string;
-      bookingLocation: string;
-      bookingDates: string;
-    };
-  }): Promise<void> {
+  async sendBookingOwnershipTransferNotification(data: BookingOwnershipTransferNotificationData): Promise<void> {
+    for (const notification of this.buildBookingOwnershipTransferNotifications(data)) {
+      await this.sendNotification(notification.type, notification.userId, notification.data);
+    }
+  }
+
+  /**
+   * Build the ownership transfer notifications for the new and previous owner
+   */
+  buildBookingOwnershipTransferNotifications(data: BookingOwnershipTransferNotificationData): PreparedNotification[] {
     const notificationData = {
       proposalId: data.proposalId,
       bookingId: data.bookingId,
@@ -797,21 +850,30 @@ export class NotificationService {
       dashboardUrl: `${process.env.FRONTEND_URL}/bookings/${data.bookingId}`,
     };
 
-    // Send notification to new owner
-    await this.sendNotification('booking_ownership_transferred', data.newOwnerId, {
-      ...notificationData,
-      role: 'new_owner',
-      title: 'Booking Ownership Transferred to You',
-      message: `You are now the owner of "${data.bookingDetails.title}" in ${data.bookingDetails.location} (${data.bookingDetails.dates}) through a booking exchange with ${data.exchangePartnerDetails.name}.`,
-    });
-
-    // Send notification to previous owner
-    await this.sendNotification('booking_ownership_transferred', data.previousOwnerId, {
-      ...notificationData,
-      role: 'previous_owner',
-      title: 'Booking Ownership Transferred',
-      message: `Ownership of "${data.bookingDetails.title}" has been transferred to ${data.exchangePartnerDetails.name} as part of your booking exchange for "${data.exchangePartnerDetails.bookingTitle}".`,
-    });
+    return [
+      // Notification to new owner
+      {
+        type: 'booking_ownership_transferred',
+        userId: data.newOwnerId,
+        data: {
+          ...notificationData,
+          role: 'new_owner',
+          title: 'Booking Ownership Transferred to You',
+          message: `You are now the owner of "${data.bookingDetails.title}" in ${data.bookingDetails.location} (${data.bookingDetails.dates}) through a booking exchange with ${data.exchangePartnerDetails.name}.`,
+        },
+      },
+      // Notification to previous owner
+      {
+        type: 'booking_ownership_transferred',
+        userId: data.previousOwnerId,
+        data: {
+          ...notificationData,
+          role: 'previous_owner',
+          title: 'Booking Ownership Transferred',
+          message: `Ownership of "${data.bookingDetails.title}" has been transferred to ${data.exchangePartnerDetails.name} as part of your booking exchange for "${data.exchangePartnerDetails.bookingTitle}".`,
+        },
+      },
+    ];
   }
 
   /**
@@ -905,12 +967,15 @@ export class NotificationService {
   }
 
   /**
-   * Generic method to send notifications across all channels
+   * Generic method to send notifications across all channels.
+   * Pass `channelOverride` to deliver only on those channels instead of the
+   * user's per-type channel preferences (disabled channels are still skipped).
    */
   async sendNotification(
     type: NotificationType,
     userId: string,
-    data: NotificationData
+    data: NotificationData,
+    channelOverride?: NotificationChannel[]
   ): Promise<void> {
     try {
       logger.info('Sending notification', { type, userId });
@@ -922,26 +987,39 @@ export class NotificationService {
         return;
       }
 
+      await this.publishEvent(type, userId, data);
+
       const preferences = user.profile.preferences.notifications;
-      const channels = preferences.channels[type] || [];
+      const channels = channelOverride || preferences.channels[type] || [];
 
       // Add recipient name to data
       data.recipientName = user.profile.displayName || 'User';
 
       // Send notifications on enabled channels
-      const deliveryPromises: Promise<void>[] = [];
+      const deliveryPromises: Promise<NotificationDeliveryResult | null>[] = [];
 
       for (const channel of channels) {
-        if (this.isChannelEnabled(preferences, channel)) {
+        if (channel !== 'push' && this.isChannelEnabled(preferences, channel)) {
           deliveryPromises.push(this.sendOnChannel(type, channel, user, data));
         }
       }
 
       // Always send in-app notification if enabled
-      if (preferences.in_app && !channels.includes('in_app')) {
+      if (!channelOverride && preferences.in_app && !channels.includes('in_app')) {
         deliveryPromises.push(this.sendOnChannel(type, 'in_app', user, data));
       }
 
+      // Push follows the user's per-type push opt-in rather than the channel list
+      if (!channelOverride || channelOverride.includes('push')) {
+        const wantsPush = await this.wantsPush(userId, type).catch(error => {
+          logger.warn('Failed to read push preferences', { userId, type, error });
+          return false;
+        });
+        if (wantsPush) {
+          deliveryPromises.push(this.sendOnChannel(type, 'push', user, data));
+        }
+      }
+
       await Promise.allSettled(deliveryPromises);
 
       logger.info('Notification sent successfully', { type, userId, channels });
@@ -951,6 +1029,73 @@ export class NotificationService {
     }
   }
 
+  private async publishEvent(
+    type: NotificationType,
+    userId: string,
+    data: NotificationData
+  ): Promise<void> {
+    if (!this.eventPublisher) {
+      return;
+    }
+
+    // A failing integration must not stop the user from being notified
+    try {
+      await this.eventPublisher.publishNotificationEvent(type, userId, { ...data });
+    } catch (error) {
+      logger.warn('Failed to publish notification event', {
+        type,
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deliver a notification on one channel only, for the outbox relay. Channels
+   * the user has turned off are skipped and return null. Unlike
+   * sendNotification, a failed delivery throws so the caller can retry it.
+   * Webhook events are published with the in-app delivery, so each
+   * notification is published once.
+   */
+  async deliverOnChannel(
+    type: NotificationType,
+    channel: NotificationChannel,
+    userId: string,
+    data: NotificationData
+  ): Promise<NotificationDeliveryResult | null> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      logger.warn('User not found for notification', { userId, type, channel });
+      return null;
+    }
+
+    if (channel === 'in_app') {
+      await this.publishEvent(type, userId, data);
+    }
+
+    const preferences = user.profile.preferences.notifications;
+    const channels = preferences.channels[type] || [];
+    const wanted =
+      channel === 'push'
+        ? await this.wantsPush(userId, type)
+        : // In-app notifications go out whenever the in-app channel is on
+          (channel === 'in_app' || channels.includes(channel)) &&
+          this.isChannelEnabled(preferences, channel);
+    if (!wanted) {
+      return null;
+    }
+
+    const result = await this.sendOnChannel(type, channel, user, {
+      ...data,
+      recipientName: user.profile.displayName || 'User',
+    });
+    if (result && !result.success) {
+      throw new Error(result.error || `Notification delivery on ${channel} failed`);
+    }
+
+    return result;
+  }
+
   /**
    * Send notification on a specific channel
    */
@@ -959,15 +1104,19 @@ export class NotificationService {
     channel: NotificationChannel,
     user: User,
     data: NotificationData
-  ): Promise<void> {
+  ): Promise<NotificationDeliveryResult | null> {
     try {
-      const template = this.templateService.getTemplate(type, channel);
+      // Push notifications reuse the short in-app text
+      const locale = user.profile?.locale;
+      const template =
+        this.templateService.getTemplate(type, channel, locale) ||
+        (channel === 'push' ? this.templateService.getTemplate(type, 'in_app', locale) : undefined);
       if (!template) {
         logger.warn('No template found for notification', { type, channel });
-        return;
+        return null;
       }
 
-      const rendered = this.templateService.renderTemplate(template, data);
+      const rendered = this.templateService.renderTemplate(template, data, locale);
 
       // Create notification record
       const notification = await this.notificationRepository.create({
@@ -1026,6 +1175,22 @@ export class NotificationService {
           }
           break;
 
+        case 'push':
+          if (this.pushService) {
+            deliveryResult = await this.pushService.sendToUser(user.id, type, {
+              title: rendered.subject || this.getDefaultTitle(type),
+              body: rendered.content,
+              data: {
+                type,
+                notificationId: notification.id,
+                url: notificationUrl(data),
+              },
+            } as PushNotificationData);
+          } else {
+            throw new Error('Push service not available');
+          }
+          break;
+
         default:
           throw new Error(`Unsupported notification channel: ${channel}`);
       }
@@ -1045,6 +1210,7 @@ export class NotificationService {
         });
       }
 
+      return deliveryResult;
     } catch (error) {
       logger.error('Failed to send notification on channel', { error, type, channel, userId: user.id });
       throw error;
@@ -1112,6 +1278,10 @@ export class NotificationService {
     return preferences[channel] === true;
   }
 
+  private async wantsPush(userId: string, type: NotificationType): Promise<boolean> {
+    return this.pushService ? this.pushService.isEnabledFor(userId, type) : false;
+  }
+
   /**
    * Send notification when a browse proposal is received
    * Requirements: 6.1, 6.2, 6.3
@@ -1284,6 +1454,32 @@ export class NotificationService {
       swap_completion_failed: 'Swap Completion Failed',
       booking_ownership_transferred: 'Booking Ownership Transferred',
       completion_validation_warning: 'Completion Validation Warning',
+      // Multi-party swap cycle notifications
+      swap_cycle_proposed: 'Multi-party Swap Found',
+      swap_cycle_leg_accepted: 'Multi-party Swap Update',
+      swap_cycle_declined: 'Multi-party Swap Cancelled',
+      swap_cycle_completed: 'Multi-party Swap Completed',
+      // Proposal negotiation notifications
+      proposal_countered: 'Counter-offer Received',
+      counter_offer_accepted: 'Counter-offer Accepted',
+      counter_offer_rejected: 'Counter-offer Rejected',
+      proposal_auto_accepted: 'Proposal Auto-Accepted',
+      // Saved search alerts
+      saved_search_match: 'New Listing Matches Your Search',
+      saved_search_digest: 'Your Saved Search Digest',
+      // Disputes
+      dispute_opened: 'Dispute Opened',
+      dispute_status_changed: 'Dispute Update',
+      dispute_resolved: 'Dispute Resolved',
+      // Booking verification
+      booking_verification_rejected: 'Booking Verification Failed',
+      booking_verification_review: 'Booking Verification In Review',
+      // Direct messages
+      message_received: 'New Message',
+      // Webhooks
+      webhook_endpoint_disabled: 'Webhook Endpoint Disabled',
+      // Personal data exports
+      data_export_ready: 'Your Data Export Is Ready',
     };
     return titles[type] || 'Notification';
   }
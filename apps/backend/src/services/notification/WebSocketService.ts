@@ -1,7 +1,12 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
-import { WebSocketNotificationData, NotificationDeliveryResult } from '@booking-swap/shared';
+import {
+  WebSocketNotificationData,
+  NotificationDeliveryResult,
+  ConversationMessageEvent,
+  ConversationReadEvent,
+} from '@booking-swap/shared';
 import { logger } from '../../utils/logger';
 
 export class WebSocketService {
@@ -124,17 +129,37 @@ export class WebSocketService {
         socket.to(`user:${userId}`).emit('ownership:transfer_acknowledged', data);
       });
 
-      // Handle typing indicators for chat (future feature)
-      socket.on('typing:start', (data: { swapId: string }) => {
-        socket.to(`swap:${data.swapId}`).emit('typing:start', { userId });
+      // Handle typing indicators; conversation rooms are joined when a
+      // participant opens the conversation, so only they can relay to it
+      socket.on('typing:start', (data: { swapId?: string; conversationId?: string }) => {
+        this.relayTyping(socket, 'typing:start', userId, data);
       });
 
-      socket.on('typing:stop', (data: { swapId: string }) => {
-        socket.to(`swap:${data.swapId}`).emit('typing:stop', { userId });
+      socket.on('typing:stop', (data: { swapId?: string; conversationId?: string }) => {
+        this.relayTyping(socket, 'typing:stop', userId, data);
       });
     });
   }
 
+  private relayTyping(
+    socket: Socket,
+    event: 'typing:start' | 'typing:stop',
+    userId: string,
+    data: { swapId?: string; conversationId?: string }
+  ): void {
+    if (data?.conversationId) {
+      const room = `conversation:${data.conversationId}`;
+      if (socket.rooms.has(room)) {
+        socket.to(room).emit(event, { userId, conversationId: data.conversationId });
+      }
+      return;
+    }
+
+    if (data?.swapId) {
+      socket.to(`swap:${data.swapId}`).emit(event, { userId });
+    }
+  }
+
   private async authenticateSocket(socket: Socket, next: (err?: Error) => void): Promise<void> {
     try {
       const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.replace('Bearer ', '');
@@ -550,6 +575,41 @@ export class WebSocketService {
     }
   }
 
+  // Direct messaging methods
+
+  /**
+   * Deliver a new direct message to every participant's sockets
+   */
+  sendConversationMessage(participantIds: string[], event: ConversationMessageEvent): void {
+    participantIds.forEach(participantId => {
+      this.io.to(`user:${participantId}`).emit('message:new', event);
+    });
+  }
+
+  /**
+   * Tell participants that one of them has read the conversation
+   */
+  sendConversationRead(participantIds: string[], event: ConversationReadEvent): void {
+    participantIds.forEach(participantId => {
+      this.io.to(`user:${participantId}`).emit('message:read', event);
+    });
+  }
+
+  /**
+   * Join user to conversation room for typing indicators
+   */
+  joinConversationRoom(userId: string, conversationId: string): void {
+    const userSocketSet = this.userSockets.get(userId);
+    if (userSocketSet) {
+      userSocketSet.forEach(socketId => {
+        const socket = this.io.sockets.sockets.get(socketId);
+        if (socket) {
+          socket.join(`conversation:${conversationId}`);
+        }
+      });
+    }
+  }
+
   /**
    * Get the io instance for direct access (used by TargetingNotificationService)
    */
@@ -360,6 +360,121 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('event publishing', () => {
+    it('should publish each notification to the event publisher', async () => {
+      // Arrange
+      const publisher = { publishNotificationEvent: vi.fn().mockResolvedValue(undefined) };
+      notificationService.setEventPublisher(publisher);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockNotificationRepository.create.mockResolvedValue({ id: 'notification-1' } as any);
+      mockWebSocketService.sendNotification.mockResolvedValue({ success: true } as any);
+
+      // Act
+      await notificationService.sendNotification('swap_rejected', 'user-1', { swapId: 'swap-1' });
+
+      // Assert
+      expect(publisher.publishNotificationEvent).toHaveBeenCalledWith('swap_rejected', 'user-1', {
+        swapId: 'swap-1',
+      });
+    });
+
+    it('should still notify the user when publishing fails', async () => {
+      // Arrange
+      const publisher = {
+        publishNotificationEvent: vi.fn().mockRejectedValue(new Error('Database unavailable')),
+      };
+      notificationService.setEventPublisher(publisher);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockNotificationRepository.create.mockResolvedValue({ id: 'notification-1' } as any);
+      mockWebSocketService.sendNotification.mockResolvedValue({ success: true } as any);
+
+      // Act
+      await notificationService.sendNotification('swap_rejected', 'user-1', { swapId: 'swap-1' });
+
+      // Assert
+      expect(mockNotificationRepository.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('push notifications', () => {
+    it('should push types the user opted in to, linking to the swap', async () => {
+      // Arrange
+      const pushService = {
+        isEnabledFor: vi.fn().mockResolvedValue(true),
+        sendToUser: vi.fn().mockResolvedValue({ success: true, deliveredAt: new Date() }),
+      };
+      notificationService.setPushService(pushService as any);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockNotificationRepository.create.mockResolvedValue({ id: 'notification-1' } as any);
+      mockWebSocketService.sendNotification.mockResolvedValue({ success: true } as any);
+
+      // Act
+      await notificationService.sendNotification('swap_rejected', 'user-1', { swapId: 'swap-1' });
+
+      // Assert
+      expect(pushService.isEnabledFor).toHaveBeenCalledWith('user-1', 'swap_rejected');
+      expect(mockNotificationRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'push', status: 'pending' })
+      );
+      expect(pushService.sendToUser).toHaveBeenCalledWith(
+        'user-1',
+        'swap_rejected',
+        expect.objectContaining({
+          data: { type: 'swap_rejected', notificationId: 'notification-1', url: '/swaps/swap-1' },
+        })
+      );
+      expect(mockNotificationRepository.updateStatus).toHaveBeenCalledWith(
+        'notification-1',
+        'sent',
+        expect.any(Date)
+      );
+    });
+
+    it('should not push types the user did not opt in to', async () => {
+      // Arrange
+      const pushService = {
+        isEnabledFor: vi.fn().mockResolvedValue(false),
+        sendToUser: vi.fn(),
+      };
+      notificationService.setPushService(pushService as any);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockNotificationRepository.create.mockResolvedValue({ id: 'notification-1' } as any);
+      mockWebSocketService.sendNotification.mockResolvedValue({ success: true } as any);
+
+      // Act
+      await notificationService.sendNotification('swap_rejected', 'user-1', { swapId: 'swap-1' });
+
+      // Assert
+      expect(pushService.sendToUser).not.toHaveBeenCalled();
+      expect(mockNotificationRepository.create).not.toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'push' })
+      );
+    });
+
+    it('should record failed push deliveries', async () => {
+      // Arrange
+      const pushService = {
+        isEnabledFor: vi.fn().mockResolvedValue(true),
+        sendToUser: vi.fn().mockResolvedValue({
+          success: false,
+          error: 'Subscription no longer exists',
+          deliveredAt: new Date(),
+        }),
+      };
+      notificationService.setPushService(pushService as any);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockNotificationRepository.create.mockResolvedValue({ id: 'notification-2' } as any);
+
+      // Act
+      await expect(
+        notificationService.deliverOnChannel('swap_rejected', 'push', 'user-1', { swapId: 'swap-1' })
+      ).rejects.toThrow('Subscription no longer exists');
+
+      // Assert
+      expect(mockNotificationRepository.updateStatus).toHaveBeenCalledWith('notification-2', 'failed');
+    });
+  });
+
   describe('cleanupExpiredNotifications', () => {
     it('should delete expired notifications', async () => {
       // Arrange
@@ -122,6 +122,36 @@ describe('NotificationTemplateService', () => {
       expect(renderedWithoutPayment.content).not.toContain('Additional Payment');
     });
 
+    it('should format amounts with their currency for the locale', () => {
+      const template = templateService.getTemplate('proposal_payment_failed', 'in_app', 'fr')!;
+
+      const rendered = templateService.renderTemplate(
+        template,
+        { amount: 1234.5, currency: 'EUR' },
+        'fr'
+      );
+      const hbar = templateService.renderTemplate(
+        template,
+        { amount: '12', currency: 'HBAR' },
+        'fr'
+      );
+
+      expect(rendered.content).toMatch(/1\s234,50\s€/);
+      expect(hbar.content).toContain('12,00 HBAR');
+    });
+
+    it('should format other numbers for the locale', () => {
+      const template = {
+        ...templateService.getTemplate('swap_proposal', 'sms')!,
+        template: '{{count}} matches',
+        variables: ['count'],
+      };
+
+      const rendered = templateService.renderTemplate(template, { count: 12000 }, 'es');
+
+      expect(rendered.content).toBe('12.000 matches');
+    });
+
     it('should handle loop blocks', () => {
       // Arrange
       const template = templateService.getTemplate('swap_proposal', 'email')!;
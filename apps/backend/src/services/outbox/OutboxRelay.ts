@@ -0,0 +1,229 @@
+import {
+  OutboxDestination,
+  OutboxEvent,
+  OutboxRepository,
+} from '../../database/repositories/OutboxRepository';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+
+/**
+ * Deliver one event. Resolve with what the destination returned (stored on
+ * the event), or null when there was nothing to send. Throw to retry.
+ */
+export type OutboxDeliveryHandler = (
+  event: OutboxEvent
+) => Promise<Record<string, any> | null>;
+
+/** Runs after an event of a given type has been delivered */
+export type OutboxDeliveredHook = (
+  event: OutboxEvent,
+  result: Record<string, any>
+) => Promise<void>;
+
+export interface OutboxRelayOptions {
+  workerId: string;
+  /** How often the relay job runs */
+  intervalMs: number;
+  batchSize: number;
+  leaseMs: number;
+  retryBaseDelayMs: number;
+  maxRetryDelayMs: number;
+  /** Delivered events are deleted after this many days */
+  retentionDays: number;
+}
+
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * OutboxRelay delivers events written by OutboxService. It runs as a
+ * recurring scheduler job, leases due events so several backend instances
+ * never deliver the same event at once, and retries failures with
+ * exponential backoff. Events that run out of attempts become dead letters
+ * for an admin to retry or discard.
+ *
+ * Delivery is at least once: an event can be delivered again if the relay
+ * stops between delivering it and recording the delivery. Destinations
+ * receive the event's idempotency key so they can tell repeats apart.
+ */
+export class OutboxRelay {
+  private destinations = new Map<OutboxDestination, OutboxDeliveryHandler>();
+  private deliveredHooks = new Map<string, OutboxDeliveredHook[]>();
+
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly jobScheduler: JobScheduler,
+    private readonly options: OutboxRelayOptions
+  ) {}
+
+  registerDestination(
+    destination: OutboxDestination,
+    handler: OutboxDeliveryHandler
+  ): void {
+    this.destinations.set(destination, handler);
+  }
+
+  /**
+   * Run `hook` after each delivered event of `eventType`. Hook failures are
+   * logged and do not affect the event, which has already been delivered.
+   */
+  onDelivered(eventType: string, hook: OutboxDeliveredHook): void {
+    const hooks = this.deliveredHooks.get(eventType) || [];
+    hooks.push(hook);
+    this.deliveredHooks.set(eventType, hooks);
+  }
+
+  registerJobHandlers(): void {
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.OUTBOX_RELAY,
+      async () => {
+        await this.relayOnce();
+      },
+      { intervalMs: this.options.intervalMs }
+    );
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.OUTBOX_CLEANUP,
+      async () => {
+        const before = new Date(
+          Date.now() - this.options.retentionDays * 24 * 60 * 60 * 1000
+        );
+        const deleted =
+          await this.outboxRepository.deleteFinishedBefore(before);
+        if (deleted > 0) {
+          logger.info('Old outbox events deleted', { deleted });
+        }
+      },
+      { intervalMs: CLEANUP_INTERVAL_MS }
+    );
+  }
+
+  /**
+   * Lease and deliver one batch of due events. Returns the number delivered
+   * or skipped.
+   */
+  async relayOnce(): Promise<number> {
+    const events = await this.outboxRepository.leaseDue(
+      this.options.workerId,
+      this.options.batchSize,
+      this.options.leaseMs
+    );
+
+    let delivered = 0;
+    for (const event of events) {
+      if (await this.deliver(event)) {
+        delivered++;
+      }
+    }
+
+    return delivered;
+  }
+
+  private async deliver(event: OutboxEvent): Promise<boolean> {
+    let result: Record<string, any> | null;
+
+    try {
+      const handler = this.destinations.get(event.destination);
+      if (!handler) {
+        throw new Error(
+          `No handler registered for destination ${event.destination}`
+        );
+      }
+
+      result = await handler(event);
+    } catch (error) {
+      await this.recordFailure(event, error);
+      return false;
+    }
+
+    const recorded = await this.outboxRepository.markDelivered(
+      event.id,
+      this.options.workerId,
+      result ? 'delivered' : 'skipped',
+      result
+    );
+    if (!recorded) {
+      logger.warn('Lost lease before outbox event delivery was recorded', {
+        eventId: event.id,
+        eventType: event.eventType,
+      });
+      return true;
+    }
+
+    logger.info(result ? 'Outbox event delivered' : 'Outbox event skipped', {
+      eventId: event.id,
+      eventType: event.eventType,
+      destination: event.destination,
+      attempt: event.attempts,
+    });
+
+    if (result) {
+      await this.runDeliveredHooks(event, result);
+    }
+
+    return true;
+  }
+
+  private async recordFailure(
+    event: OutboxEvent,
+    error: unknown
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt =
+      event.attempts < event.maxAttempts
+        ? new Date(Date.now() + this.getRetryDelay(event.attempts))
+        : null;
+
+    logger.error(
+      retryAt
+        ? 'Outbox delivery failed, will retry'
+        : 'Outbox delivery failed, moved to dead letters',
+      {
+        eventId: event.id,
+        eventType: event.eventType,
+        destination: event.destination,
+        attempt: event.attempts,
+        maxAttempts: event.maxAttempts,
+        retryAt: retryAt?.toISOString(),
+        error: message,
+      }
+    );
+
+    try {
+      await this.outboxRepository.markFailed(
+        event.id,
+        this.options.workerId,
+        message,
+        retryAt
+      );
+    } catch (markError) {
+      logger.error('Failed to record outbox delivery failure', {
+        eventId: event.id,
+        error: markError instanceof Error ? markError.message : markError,
+      });
+    }
+  }
+
+  private async runDeliveredHooks(
+    event: OutboxEvent,
+    result: Record<string, any>
+  ): Promise<void> {
+    for (const hook of this.deliveredHooks.get(event.eventType) || []) {
+      try {
+        await hook(event, result);
+      } catch (error) {
+        logger.error('Outbox delivered hook failed', {
+          eventId: event.id,
+          eventType: event.eventType,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private getRetryDelay(attempt: number): number {
+    return Math.min(
+      this.options.retryBaseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)),
+      this.options.maxRetryDelayMs
+    );
+  }
+}
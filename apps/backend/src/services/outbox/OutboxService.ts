@@ -0,0 +1,249 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  NewOutboxEvent,
+  OutboxEvent,
+  OutboxEventFilters,
+  OutboxEventStatus,
+  OutboxRepository,
+} from '../../database/repositories/OutboxRepository';
+import { TransactionData } from '../hedera/HederaService';
+import { PreparedNotification } from '../notification/NotificationService';
+import { logger } from '../../utils/logger';
+
+/**
+ * Event types for outbox events that are not notifications. Notification
+ * events use `notification.<notification type>`.
+ */
+export const OUTBOX_EVENT_TYPES = {
+  SWAP_COMPLETION_RECORD: 'swap_completion.blockchain_record',
+  SWAP_COMPLETION_STATUS_UPDATE: 'swap_completion.status_update',
+  SWAP_CYCLE_COMPLETION_RECORD: 'swap_cycle_completion.blockchain_record',
+  TARGETING_RECORD: 'targeting.blockchain_record',
+} as const;
+
+/** Notification channels written to the outbox, and the destination of each */
+const NOTIFICATION_DESTINATIONS = [
+  { channel: 'email', destination: 'email' },
+  { channel: 'sms', destination: 'sms' },
+  { channel: 'in_app', destination: 'websocket' },
+  { channel: 'push', destination: 'push' },
+] as const;
+
+export interface OutboxAggregate {
+  type: string;
+  id: string;
+}
+
+/** Payload of `hedera` events */
+export interface BlockchainRecordPayload {
+  transaction: {
+    type: TransactionData['type'];
+    payload: Record<string, any>;
+    timestamp: string;
+  };
+  /** Passed to delivered hooks, not sent to Hedera */
+  context?: Record<string, any>;
+}
+
+/** Payload of notification events on the `email`, `sms`, `websocket` and `push` destinations */
+export interface NotificationEventPayload {
+  notificationType: string;
+  channel: string;
+  userId: string;
+  data: Record<string, any>;
+}
+
+/** Payload of `websocket` events broadcast to a room */
+export interface RealtimeEventPayload {
+  room: string;
+  event: string;
+  data: Record<string, any>;
+}
+
+export interface OutboxServiceOptions {
+  maxAttempts: number;
+}
+
+/**
+ * OutboxService writes side effects to the outbox in the caller's database
+ * transaction, so Hedera records and notifications are sent if and only if
+ * the state change they describe commits. OutboxRelay delivers them.
+ *
+ * Every event has an idempotency key built from the caller's key; writing the
+ * same key twice queues the event once.
+ */
+export class OutboxService {
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly options: OutboxServiceOptions
+  ) {}
+
+  /**
+   * Queue a Hedera consensus record
+   */
+  async addBlockchainRecord(
+    client: Pool | PoolClient,
+    key: string,
+    aggregate: OutboxAggregate,
+    eventType: string,
+    transaction: TransactionData,
+    context?: Record<string, any>
+  ): Promise<void> {
+    const payload: BlockchainRecordPayload = {
+      transaction: {
+        type: transaction.type,
+        payload: transaction.payload,
+        timestamp: transaction.timestamp.toISOString(),
+      },
+      context,
+    };
+
+    await this.add(client, [
+      this.toEvent('hedera', eventType, aggregate, payload, `${key}:hedera`),
+    ]);
+  }
+
+  /**
+   * Queue notifications, one event per channel. Whether the user wants each
+   * channel is checked at delivery time.
+   */
+  async addNotifications(
+    client: Pool | PoolClient,
+    key: string,
+    aggregate: OutboxAggregate,
+    notifications: PreparedNotification[]
+  ): Promise<void> {
+    const events = notifications.flatMap((notification, index) =>
+      NOTIFICATION_DESTINATIONS.map(({ channel, destination }) => {
+        const payload: NotificationEventPayload = {
+          notificationType: notification.type,
+          channel,
+          userId: notification.userId,
+          data: notification.data,
+        };
+
+        return this.toEvent(
+          destination,
+          `notification.${notification.type}`,
+          aggregate,
+          payload,
+          `${key}:notification:${index}:${channel}`
+        );
+      })
+    );
+
+    await this.add(client, events);
+  }
+
+  /**
+   * Queue a WebSocket event for everyone in a room
+   */
+  async addRealtimeEvent(
+    client: Pool | PoolClient,
+    key: string,
+    aggregate: OutboxAggregate,
+    eventType: string,
+    payload: RealtimeEventPayload
+  ): Promise<void> {
+    await this.add(client, [
+      this.toEvent(
+        'websocket',
+        eventType,
+        aggregate,
+        payload,
+        `${key}:websocket`
+      ),
+    ]);
+  }
+
+  async getEvent(eventId: string): Promise<OutboxEvent> {
+    const event = await this.outboxRepository.findById(eventId);
+    if (!event) {
+      throw new Error('Outbox event not found');
+    }
+    return event;
+  }
+
+  async listEvents(
+    filters: OutboxEventFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ events: OutboxEvent[]; total: number }> {
+    return this.outboxRepository.findEvents(filters, limit, offset);
+  }
+
+  async getQueueCounts(): Promise<Record<OutboxEventStatus, number>> {
+    return this.outboxRepository.countByStatus();
+  }
+
+  /**
+   * Queue a dead or discarded event for delivery again, with fresh attempts
+   */
+  async retryEvent(eventId: string): Promise<OutboxEvent> {
+    const event = await this.getEvent(eventId);
+    const requeued = await this.outboxRepository.requeue(eventId);
+    if (!requeued) {
+      throw new Error(
+        `Invalid event status: ${event.status}. Only dead or discarded events can be retried`
+      );
+    }
+
+    logger.info('Outbox event requeued', {
+      eventId,
+      eventType: event.eventType,
+      destination: event.destination,
+    });
+    return requeued;
+  }
+
+  /**
+   * Mark a dead event as handled so it no longer shows as a dead letter
+   */
+  async discardEvent(eventId: string): Promise<OutboxEvent> {
+    const event = await this.getEvent(eventId);
+    const discarded = await this.outboxRepository.discard(eventId);
+    if (!discarded) {
+      throw new Error(
+        `Invalid event status: ${event.status}. Only dead events can be discarded`
+      );
+    }
+
+    logger.info('Outbox event discarded', {
+      eventId,
+      eventType: event.eventType,
+      destination: event.destination,
+    });
+    return discarded;
+  }
+
+  private async add(
+    client: Pool | PoolClient,
+    events: NewOutboxEvent[]
+  ): Promise<void> {
+    const inserted = await this.outboxRepository.insert(client, events);
+
+    logger.debug('Outbox events queued', {
+      queued: inserted.length,
+      duplicates: events.length - inserted.length,
+      eventTypes: Array.from(new Set(events.map(event => event.eventType))),
+    });
+  }
+
+  private toEvent(
+    destination: NewOutboxEvent['destination'],
+    eventType: string,
+    aggregate: OutboxAggregate,
+    payload: object,
+    idempotencyKey: string
+  ): NewOutboxEvent {
+    return {
+      destination,
+      eventType,
+      aggregateType: aggregate.type,
+      aggregateId: aggregate.id,
+      payload: payload as Record<string, any>,
+      idempotencyKey,
+      maxAttempts: this.options.maxAttempts,
+    };
+  }
+}
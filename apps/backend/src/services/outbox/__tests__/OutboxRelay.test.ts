@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OutboxRelay } from '../OutboxRelay';
+import { SCHEDULED_JOB_TYPES } from '../../scheduler/JobScheduler';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const createEvent = (overrides: Record<string, any> = {}) => ({
+  id: 'event-1',
+  destination: 'hedera',
+  eventType: 'swap_completion.blockchain_record',
+  aggregateType: 'proposal',
+  aggregateId: 'proposal-1',
+  payload: { transaction: { type: 'swap_execution', payload: {} } },
+  idempotencyKey: 'swap-completion:proposal-1:hedera',
+  status: 'processing',
+  attempts: 1,
+  maxAttempts: 5,
+  availableAt: NOW,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+describe('OutboxRelay', () => {
+  let repository: any;
+  let jobScheduler: any;
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+
+    repository = {
+      leaseDue: vi.fn().mockResolvedValue([createEvent()]),
+      markDelivered: vi.fn().mockResolvedValue(true),
+      markFailed: vi.fn().mockResolvedValue(true),
+      deleteFinishedBefore: vi.fn().mockResolvedValue(0),
+    };
+    jobScheduler = { registerHandler: vi.fn() };
+    relay = new OutboxRelay(repository, jobScheduler, {
+      workerId: 'worker-1',
+      intervalMs: 5000,
+      batchSize: 20,
+      leaseMs: 60000,
+      retryBaseDelayMs: 10000,
+      maxRetryDelayMs: 60000,
+      retentionDays: 30,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers the relay and cleanup as recurring jobs', () => {
+    relay.registerJobHandlers();
+
+    expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+      SCHEDULED_JOB_TYPES.OUTBOX_RELAY,
+      expect.any(Function),
+      { intervalMs: 5000 }
+    );
+    expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+      SCHEDULED_JOB_TYPES.OUTBOX_CLEANUP,
+      expect.any(Function),
+      { intervalMs: 24 * 60 * 60 * 1000 }
+    );
+  });
+
+  it('records the delivery result and runs delivered hooks', async () => {
+    const hook = vi.fn().mockResolvedValue(undefined);
+    relay.registerDestination(
+      'hedera',
+      vi.fn().mockResolvedValue({ transactionId: 'tx-1' })
+    );
+    relay.onDelivered('swap_completion.blockchain_record', hook);
+
+    expect(await relay.relayOnce()).toBe(1);
+
+    expect(repository.leaseDue).toHaveBeenCalledWith('worker-1', 20, 60000);
+    expect(repository.markDelivered).toHaveBeenCalledWith(
+      'event-1',
+      'worker-1',
+      'delivered',
+      { transactionId: 'tx-1' }
+    );
+    expect(hook).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'event-1' }),
+      { transactionId: 'tx-1' }
+    );
+  });
+
+  it('marks events with nothing to send as skipped without running hooks', async () => {
+    const hook = vi.fn();
+    relay.registerDestination('hedera', vi.fn().mockResolvedValue(null));
+    relay.onDelivered('swap_completion.blockchain_record', hook);
+
+    await relay.relayOnce();
+
+    expect(repository.markDelivered).toHaveBeenCalledWith(
+      'event-1',
+      'worker-1',
+      'skipped',
+      null
+    );
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  it('does not fail the delivery when a hook throws', async () => {
+    relay.registerDestination(
+      'hedera',
+      vi.fn().mockResolvedValue({ transactionId: 'tx-1' })
+    );
+    relay.onDelivered(
+      'swap_completion.blockchain_record',
+      vi.fn().mockRejectedValue(new Error('audit update failed'))
+    );
+
+    expect(await relay.relayOnce()).toBe(1);
+    expect(repository.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    repository.leaseDue.mockResolvedValue([createEvent({ attempts: 3 })]);
+    relay.registerDestination(
+      'hedera',
+      vi.fn().mockRejectedValue(new Error('Hedera unavailable'))
+    );
+
+    expect(await relay.relayOnce()).toBe(0);
+
+    expect(repository.markFailed).toHaveBeenCalledWith(
+      'event-1',
+      'worker-1',
+      'Hedera unavailable',
+      new Date(NOW.getTime() + 40000)
+    );
+    expect(repository.markDelivered).not.toHaveBeenCalled();
+  });
+
+  it('moves events that run out of attempts to the dead letters', async () => {
+    repository.leaseDue.mockResolvedValue([createEvent({ attempts: 5 })]);
+    relay.registerDestination(
+      'hedera',
+      vi.fn().mockRejectedValue(new Error('Hedera unavailable'))
+    );
+
+    await relay.relayOnce();
+
+    expect(repository.markFailed).toHaveBeenCalledWith(
+      'event-1',
+      'worker-1',
+      'Hedera unavailable',
+      null
+    );
+  });
+
+  it('fails events for destinations without a handler', async () => {
+    repository.leaseDue.mockResolvedValue([
+      createEvent({ destination: 'sms' }),
+    ]);
+
+    await relay.relayOnce();
+
+    expect(repository.markFailed).toHaveBeenCalledWith(
+      'event-1',
+      'worker-1',
+      'No handler registered for destination sms',
+      expect.any(Date)
+    );
+  });
+
+  it('keeps delivering the batch after a failure', async () => {
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce({ messageId: 'message-2' });
+    repository.leaseDue.mockResolvedValue([
+      createEvent({ id: 'event-1', destination: 'email' }),
+      createEvent({ id: 'event-2', destination: 'email' }),
+    ]);
+    relay.registerDestination('email', handler);
+
+    expect(await relay.relayOnce()).toBe(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(repository.markDelivered).toHaveBeenCalledWith(
+      'event-2',
+      'worker-1',
+      'delivered',
+      { messageId: 'message-2' }
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutboxService } from '../OutboxService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const client = { query: vi.fn() } as any;
+const aggregate = { type: 'proposal', id: 'proposal-1' };
+
+describe('OutboxService', () => {
+  let repository: any;
+  let service: OutboxService;
+
+  beforeEach(() => {
+    repository = {
+      insert: vi.fn().mockImplementation(async (_client, events) => events),
+      findById: vi.fn().mockResolvedValue({ id: 'event-1', status: 'dead' }),
+      requeue: vi.fn().mockResolvedValue({ id: 'event-1', status: 'pending' }),
+      discard: vi
+        .fn()
+        .mockResolvedValue({ id: 'event-1', status: 'discarded' }),
+    };
+    service = new OutboxService(repository, { maxAttempts: 8 });
+  });
+
+  it('writes blockchain records through the caller transaction', async () => {
+    const timestamp = new Date('2025-06-01T12:00:00Z');
+
+    await service.addBlockchainRecord(
+      client,
+      'swap-completion:proposal-1',
+      aggregate,
+      'swap_completion.blockchain_record',
+      {
+        type: 'swap_execution',
+        payload: { proposalId: 'proposal-1' },
+        timestamp,
+      },
+      { swapIds: ['swap-1'] }
+    );
+
+    expect(repository.insert).toHaveBeenCalledWith(client, [
+      {
+        destination: 'hedera',
+        eventType: 'swap_completion.blockchain_record',
+        aggregateType: 'proposal',
+        aggregateId: 'proposal-1',
+        payload: {
+          transaction: {
+            type: 'swap_execution',
+            payload: { proposalId: 'proposal-1' },
+            timestamp: '2025-06-01T12:00:00.000Z',
+          },
+          context: { swapIds: ['swap-1'] },
+        },
+        idempotencyKey: 'swap-completion:proposal-1:hedera',
+        maxAttempts: 8,
+      },
+    ]);
+  });
+
+  it('queues each notification once per channel with distinct keys', async () => {
+    await service.addNotifications(
+      client,
+      'swap-completion:proposal-1',
+      aggregate,
+      [
+        { type: 'swap_completion_success', userId: 'user-1', data: {} },
+        { type: 'swap_completion_success', userId: 'user-2', data: {} },
+      ]
+    );
+
+    const events = repository.insert.mock.calls[0][1];
+    expect(
+      events.map((event: any) => [event.destination, event.idempotencyKey])
+    ).toEqual([
+      ['email', 'swap-completion:proposal-1:notification:0:email'],
+      ['sms', 'swap-completion:proposal-1:notification:0:sms'],
+      ['websocket', 'swap-completion:proposal-1:notification:0:in_app'],
+      ['push', 'swap-completion:proposal-1:notification:0:push'],
+      ['email', 'swap-completion:proposal-1:notification:1:email'],
+      ['sms', 'swap-completion:proposal-1:notification:1:sms'],
+      ['websocket', 'swap-completion:proposal-1:notification:1:in_app'],
+      ['push', 'swap-completion:proposal-1:notification:1:push'],
+    ]);
+    expect(events[6].payload).toEqual({
+      notificationType: 'swap_completion_success',
+      channel: 'in_app',
+      userId: 'user-2',
+      data: {},
+    });
+  });
+
+  it('retries dead events', async () => {
+    await expect(service.retryEvent('event-1')).resolves.toMatchObject({
+      status: 'pending',
+    });
+    expect(repository.requeue).toHaveBeenCalledWith('event-1');
+  });
+
+  it('rejects retrying events that are not dead', async () => {
+    repository.findById.mockResolvedValue({ id: 'event-1', status: 'pending' });
+    repository.requeue.mockResolvedValue(null);
+
+    await expect(service.retryEvent('event-1')).rejects.toThrow(
+      'Invalid event status: pending'
+    );
+  });
+
+  it('rejects discarding unknown events', async () => {
+    repository.findById.mockResolvedValue(null);
+
+    await expect(service.discardEvent('missing')).rejects.toThrow(
+      'Outbox event not found'
+    );
+    expect(repository.discard).not.toHaveBeenCalled();
+  });
+});
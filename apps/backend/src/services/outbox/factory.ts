@@ -0,0 +1,116 @@
+import { Pool } from 'pg';
+import os from 'os';
+import { NotificationChannel, NotificationType } from '@booking-swap/shared';
+import { OutboxRepository } from '../../database/repositories/OutboxRepository';
+import { HederaService } from '../hedera/HederaService';
+import { NotificationService } from '../notification/NotificationService';
+import { createJobScheduler } from '../scheduler/factory';
+import {
+  BlockchainRecordPayload,
+  NotificationEventPayload,
+  OutboxService,
+  RealtimeEventPayload,
+} from './OutboxService';
+import { OutboxDeliveryHandler, OutboxRelay } from './OutboxRelay';
+
+let outboxService: OutboxService | null = null;
+let outboxRelay: OutboxRelay | null = null;
+
+export function createOutboxService(pool: Pool): OutboxService {
+  if (!outboxService) {
+    outboxService = new OutboxService(new OutboxRepository(pool), {
+      maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10'),
+    });
+  }
+
+  return outboxService;
+}
+
+/**
+ * Relay delivering outbox events to Hedera and to users. Its handlers run on
+ * the shared job scheduler, so create it before the scheduler starts.
+ */
+export function createOutboxRelay(
+  pool: Pool,
+  hederaService: HederaService,
+  notificationService: NotificationService
+): OutboxRelay {
+  if (!outboxRelay) {
+    outboxRelay = new OutboxRelay(
+      new OutboxRepository(pool),
+      createJobScheduler(pool),
+      {
+        workerId: `${os.hostname()}:${process.pid}`,
+        intervalMs: parseInt(process.env.OUTBOX_RELAY_INTERVAL_MS || '5000'),
+        batchSize: parseInt(process.env.OUTBOX_RELAY_BATCH_SIZE || '50'),
+        leaseMs: parseInt(process.env.OUTBOX_RELAY_LEASE_MS || '60000'),
+        retryBaseDelayMs: parseInt(
+          process.env.OUTBOX_RETRY_BASE_DELAY_MS || '10000'
+        ),
+        maxRetryDelayMs: parseInt(
+          process.env.OUTBOX_MAX_RETRY_DELAY_MS || '3600000'
+        ),
+        retentionDays: parseInt(process.env.OUTBOX_RETENTION_DAYS || '30'),
+      }
+    );
+
+    const deliverNotification: OutboxDeliveryHandler = async event => {
+      const payload = event.payload as NotificationEventPayload;
+      const result = await notificationService.deliverOnChannel(
+        payload.notificationType as NotificationType,
+        payload.channel as NotificationChannel,
+        payload.userId,
+        payload.data
+      );
+      return result
+        ? { messageId: result.messageId, deliveredAt: result.deliveredAt }
+        : null;
+    };
+
+    outboxRelay.registerDestination('hedera', async event => {
+      const payload = event.payload as BlockchainRecordPayload;
+      const result = await hederaService.submitTransaction({
+        type: payload.transaction.type,
+        payload: {
+          ...payload.transaction.payload,
+          idempotencyKey: event.idempotencyKey,
+        },
+        timestamp: new Date(payload.transaction.timestamp),
+      });
+      if (result.status !== 'SUCCESS') {
+        throw new Error(
+          `Blockchain transaction failed with status: ${result.status}`
+        );
+      }
+      return {
+        transactionId: result.transactionId,
+        consensusTimestamp: result.consensusTimestamp,
+      };
+    });
+    outboxRelay.registerDestination('email', deliverNotification);
+    outboxRelay.registerDestination('sms', deliverNotification);
+    outboxRelay.registerDestination('push', deliverNotification);
+    outboxRelay.registerDestination('websocket', async event => {
+      if (!('room' in event.payload)) {
+        return deliverNotification(event);
+      }
+
+      const payload = event.payload as RealtimeEventPayload;
+      const io = notificationService.webSocketService?.getIOInstance();
+      if (!io) {
+        return null;
+      }
+      io.to(payload.room).emit(payload.event, payload.data);
+      return { room: payload.room, event: payload.event };
+    });
+
+    outboxRelay.registerJobHandlers();
+  }
+
+  return outboxRelay;
+}
+
+export function resetOutboxServices(): void {
+  outboxService = null;
+  outboxRelay = null;
+}
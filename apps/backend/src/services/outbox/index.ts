@@ -0,0 +1,19 @@
+export { OutboxService, OUTBOX_EVENT_TYPES } from './OutboxService';
+export type {
+  OutboxAggregate,
+  OutboxServiceOptions,
+  BlockchainRecordPayload,
+  NotificationEventPayload,
+  RealtimeEventPayload,
+} from './OutboxService';
+export { OutboxRelay } from './OutboxRelay';
+export type {
+  OutboxDeliveryHandler,
+  OutboxDeliveredHook,
+  OutboxRelayOptions,
+} from './OutboxRelay';
+export {
+  createOutboxService,
+  createOutboxRelay,
+  resetOutboxServices,
+} from './factory';
@@ -6,6 +6,7 @@ import {
   EscrowAccount,
   EscrowRequest,
   EscrowReleaseRequest,
+  EscrowRefundRequest,
   EscrowCreationResult,
   PaymentMethod,
   PaymentFees,
@@ -15,14 +16,23 @@ import {
   PaymentSecurityContext,
   FraudDetectionResult,
   PaymentStatus,
-  EscrowStatus
+  EscrowStatus,
+  MoneyAmount
 } from '@booking-swap/shared';
 import { PaymentRepository } from '../../database/repositories/PaymentRepository';
 import { HederaService } from '../hedera/HederaService';
+import { CurrencyService } from '../currency/CurrencyService';
+import { StaticFxRateProvider } from '../currency/FxRateProvider';
 import { FraudDetectionService } from './FraudDetectionService';
 import { PaymentSecurityService } from './PaymentSecurityService';
 import { PaymentErrorHandler, PaymentError } from './PaymentErrorHandler';
 import { PaymentNotificationService } from '../notification/PaymentNotificationService';
+import {
+  GatewayChargeResult,
+  PaymentGateway,
+  PaymentGatewayError,
+  SandboxPaymentGateway
+} from './gateway';
 import { logger } from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -46,21 +56,31 @@ export class PaymentProcessingService {
     maximumFee: 50.00
   };
 
+  // Platform limits, in LIMITS_CURRENCY
   private readonly MINIMUM_CASH_AMOUNT = 10.00;
   private readonly MAXIMUM_CASH_AMOUNT = 10000.00;
+  private readonly LIMITS_CURRENCY = 'USD';
   private readonly ESCROW_TIMEOUT_HOURS = 72; // 3 days
 
   private fraudDetectionService: FraudDetectionService;
   private paymentSecurityService: PaymentSecurityService;
   private errorHandler: PaymentErrorHandler;
+  private paymentGateway: PaymentGateway;
+  private currencyService: CurrencyService;
 
   constructor(
     private paymentRepository: PaymentRepository,
     private hederaService: HederaService,
     private gatewayConfig: PaymentGatewayConfig,
     private paymentNotificationService: PaymentNotificationService,
-    encryptionKey: string = process.env.PAYMENT_ENCRYPTION_KEY || 'default-key-change-in-production'
+    encryptionKey: string = process.env.PAYMENT_ENCRYPTION_KEY || 'default-key-change-in-production',
+    paymentGateway?: PaymentGateway,
+    currencyService?: CurrencyService
   ) {
+    this.paymentGateway = paymentGateway || new SandboxPaymentGateway({
+      webhookSecret: gatewayConfig?.webhookSecret || 'test-webhook-secret'
+    });
+    this.currencyService = currencyService || new CurrencyService(new StaticFxRateProvider());
     this.fraudDetectionService = new FraudDetectionService(paymentRepository);
     this.paymentSecurityService = new PaymentSecurityService(
       paymentRepository,
@@ -174,30 +194,42 @@ export class PaymentProcessingService {
     currency: string,
     minimumRequired: number,
     paymentMethodId: string,
-    userId: string
+    userId: string,
+    minimumCurrency: string = currency
   ): Promise<PaymentValidation> {
     try {
-      logger.info('Validating cash offer', { amount, currency, minimumRequired, userId });
+      logger.info('Validating cash offer', { amount, currency, minimumRequired, minimumCurrency, userId });
 
       const errors: string[] = [];
       const warnings: string[] = [];
 
-      // Validate amount range
-      if (amount < this.MINIMUM_CASH_AMOUNT) {
-        errors.push(`Minimum cash amount is ${this.MINIMUM_CASH_AMOUNT} ${currency}`);
-      }
-
-      if (amount > this.MAXIMUM_CASH_AMOUNT) {
-        errors.push(`Maximum cash amount is ${this.MAXIMUM_CASH_AMOUNT} ${currency}`);
-      }
-
-      if (amount < minimumRequired) {
-        errors.push(`Amount must be at least ${minimumRequired} ${currency} as specified by swap owner`);
-      }
-
       // Validate currency
       if (!this.isSupportedCurrency(currency)) {
         errors.push(`Currency ${currency} is not supported`);
+      } else {
+        try {
+          // Validate amount range, with the platform limits converted into the offer currency
+          const minimumAmount = await this.convertLimit(this.MINIMUM_CASH_AMOUNT, currency);
+          const maximumAmount = await this.convertLimit(this.MAXIMUM_CASH_AMOUNT, currency);
+
+          if (amount < minimumAmount) {
+            errors.push(`Minimum cash amount is ${minimumAmount} ${currency}`);
+          }
+
+          if (amount > maximumAmount) {
+            errors.push(`Maximum cash amount is ${maximumAmount} ${currency}`);
+          }
+
+          // The swap owner's minimum is in their own currency
+          if (minimumRequired > 0 && !(await this.currencyService.meetsMinimum(
+            { amount, currency },
+            { amount: minimumRequired, currency: minimumCurrency }
+          ))) {
+            errors.push(`Amount must be at least ${minimumRequired} ${minimumCurrency} as specified by swap owner`);
+          }
+        } catch (conversionError) {
+          errors.push(`Unable to convert ${currency}: ${conversionError instanceof Error ? conversionError.message : String(conversionError)}`);
+        }
       }
 
       // Validate payment method
@@ -435,9 +467,9 @@ export class PaymentProcessingService {
         }
 
         // Process payment through gateway
-        let gatewayTransactionId: string;
+        let gatewayResult: GatewayChargeResult;
         try {
-          gatewayTransactionId = await this.processPaymentThroughGateway(
+          gatewayResult = await this.processPaymentThroughGateway(
             request,
             paymentMethod,
             fees
@@ -453,11 +485,27 @@ export class PaymentProcessingService {
               currency: request.currency,
               operation: 'gateway_processing'
             },
-            true // retryable
+            // Declines are final, outages are worth retrying
+            gatewayError instanceof PaymentGatewayError ? gatewayError.retryable : true
           );
           throw error;
         }
 
+        const gatewayTransactionId = gatewayResult.gatewayTransactionId;
+        if (gatewayResult.status === 'failed') {
+          throw this.errorHandler.createPaymentError(
+            'PAYMENT_PROCESSING_FAILED',
+            'Payment was declined by the gateway',
+            {
+              userId: request.payerId,
+              paymentMethodId: request.paymentMethodId,
+              amount: request.amount,
+              currency: request.currency,
+              operation: 'gateway_processing'
+            }
+          );
+        }
+
         // Create payment transaction record
         const transactionData: Omit<PaymentTransaction, 'id' | 'createdAt' | 'updatedAt'> = {
           swapId: request.swapId,
@@ -466,7 +514,8 @@ export class PaymentProcessingService {
           recipientId: request.recipientId,
           amount: request.amount,
           currency: request.currency,
-          status: 'processing',
+          // Waits for the payer's 3DS challenge; the gateway webhook moves it on
+          status: gatewayResult.status === 'requires_action' ? 'pending' : 'processing',
           escrowId,
           gatewayTransactionId,
           platformFee: fees.platformFee,
@@ -519,7 +568,8 @@ export class PaymentProcessingService {
           gatewayTransactionId,
           escrowId,
           fees,
-          estimatedCompletionTime: new Date(Date.now() + 5 * 60 * 1000) // 5 minutes
+          estimatedCompletionTime: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
+          requiresAction: gatewayResult.nextAction
         };
       } catch (error) {
         // Send payment failure notification
@@ -554,7 +604,7 @@ export class PaymentProcessingService {
 
       // Find escrow account
       const escrowAccounts = await this.paymentRepository.findEscrowAccounts({
-        transactionId: request.escrowId
+        id: request.escrowId
       });
 
       const escrow = escrowAccounts.find(e => e.id === request.escrowId);
@@ -562,16 +612,25 @@ export class PaymentProcessingService {
         throw new Error('Escrow account not found');
       }
 
-      if (escrow.status !== 'funded') {
+      // Escrows frozen by a dispute can only be released by its resolution
+      const releasable = escrow.status === 'funded' ||
+        (escrow.status === 'disputed' && !!request.disputeId);
+      if (!releasable) {
         throw new Error(`Cannot release escrow with status: ${escrow.status}`);
       }
 
+      const releaseAmount = request.amount ?? escrow.amount;
+      if (releaseAmount <= 0 || releaseAmount > escrow.amount) {
+        throw new Error(`Release amount must be between 0 and ${escrow.amount}`);
+      }
+
       // Find associated payment transaction
       const payments = await this.paymentRepository.findPayments({
         escrowId: request.escrowId
       });
 
-      const payment = payments[0];
+      // Skip the placeholder transaction created alongside the escrow account
+      const payment = payments.find(p => p.id !== escrow.transactionId) || payments[0];
       if (!payment) {
         throw new Error('Associated payment transaction not found');
       }
@@ -582,8 +641,12 @@ export class PaymentProcessingService {
       }
 
       // Process escrow release through gateway
-      const releaseAmount = request.releaseAmount || escrow.amount;
-      await this.processEscrowReleaseThoughGateway(escrow.id, releaseAmount, request.recipientId);
+      await this.processEscrowReleaseThoughGateway(
+        escrow,
+        payment.gatewayTransactionId,
+        releaseAmount,
+        request.recipientId
+      );
 
       // Update escrow status
       await this.paymentRepository.updateEscrowStatus(
@@ -626,6 +689,107 @@ export class PaymentProcessingService {
     }
   }
 
+  /**
+   * Freeze the funded escrows of a swap while a dispute about it is open,
+   * so they cannot be released until the dispute is resolved
+   */
+  async holdEscrowsForDispute(swapId: string): Promise<EscrowAccount[]> {
+    const escrows = await this.paymentRepository.findEscrowAccounts({
+      swapId,
+      status: 'funded'
+    });
+
+    const held: EscrowAccount[] = [];
+    for (const escrow of escrows) {
+      const updated = await this.paymentRepository.updateEscrowStatus(escrow.id, 'disputed');
+      if (updated) {
+        held.push(updated);
+      }
+    }
+
+    logger.info('Escrows held for dispute', { swapId, count: held.length });
+    return held;
+  }
+
+  /**
+   * Return escrowed funds to the payer, fully or in part. A hold that was
+   * never captured is voided for a full refund; for a partial refund the
+   * rest is released to the recipient. Released escrows are refunded from
+   * the captured charge.
+   */
+  async refundEscrow(request: EscrowRefundRequest): Promise<PaymentTransaction> {
+    try {
+      logger.info('Refunding escrow funds', { request });
+
+      const escrowAccounts = await this.paymentRepository.findEscrowAccounts({
+        id: request.escrowId
+      });
+
+      const escrow = escrowAccounts.find(e => e.id === request.escrowId);
+      if (!escrow) {
+        throw new Error('Escrow account not found');
+      }
+
+      const refundAmount = request.amount ?? escrow.amount;
+      if (refundAmount <= 0 || refundAmount > escrow.amount) {
+        throw new Error(`Refund amount must be between 0 and ${escrow.amount}`);
+      }
+
+      const payments = await this.paymentRepository.findPayments({
+        escrowId: escrow.id
+      });
+      const payment = payments.find(p => p.id !== escrow.transactionId) || payments[0];
+      if (!payment) {
+        throw new Error('Associated payment transaction not found');
+      }
+
+      const held = escrow.status === 'funded' || escrow.status === 'disputed';
+
+      if (held && refundAmount === escrow.amount) {
+        await this.paymentGateway.cancel(payment.gatewayTransactionId, `escrow_cancel_${escrow.id}`);
+      } else if (held) {
+        await this.processEscrowReleaseThoughGateway(
+          escrow,
+          payment.gatewayTransactionId,
+          escrow.amount - refundAmount,
+          escrow.recipientId
+        );
+      } else if (escrow.status === 'released') {
+        await this.processRefundThroughGateway(payment, refundAmount, request.reason);
+      } else {
+        throw new Error(`Cannot refund escrow with status: ${escrow.status}`);
+      }
+
+      await this.paymentRepository.updateEscrowStatus(
+        escrow.id,
+        'refunded',
+        escrow.releasedAt || new Date()
+      );
+
+      const updatedPayment = await this.paymentRepository.updatePaymentStatus(
+        payment.id,
+        'refunded',
+        new Date()
+      );
+      if (!updatedPayment) {
+        throw new Error('Failed to update payment transaction');
+      }
+
+      await this.hederaService.recordPaymentRefund(payment.id, refundAmount, request.reason);
+
+      logger.info('Escrow funds refunded successfully', {
+        escrowId: escrow.id,
+        transactionId: payment.id,
+        refundAmount
+      });
+
+      return updatedPayment;
+    } catch (error) {
+      logger.error('Escrow refund failed', { error, request });
+      throw error;
+    }
+  }
+
   /**
    * Generate payment receipt
    */
@@ -791,8 +955,8 @@ export class PaymentProcessingService {
 
         const actualRefundAmount = refundAmount || transaction.amount;
 
-        // Process refund through gateway (mock implementation)
-        await this.processRefundThroughGateway(transaction.gatewayTransactionId, actualRefundAmount);
+        // Process refund through gateway
+        await this.processRefundThroughGateway(transaction, actualRefundAmount, reason);
 
         // Update transaction status
         const updatedTransaction = await this.paymentRepository.updatePaymentStatus(
@@ -887,65 +1051,119 @@ export class PaymentProcessingService {
     }
   }
 
+  /**
+   * Whether a cash offer covers a minimum set in another currency
+   */
+  async meetsMinimumCashAmount(offer: MoneyAmount, minimum: MoneyAmount): Promise<boolean> {
+    return this.currencyService.meetsMinimum(offer, minimum);
+  }
+
   /**
    * Check if currency is supported
    */
   private isSupportedCurrency(currency: string): boolean {
-    const supportedCurrencies = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'];
-    return supportedCurrencies.includes(currency.toUpperCase());
+    return this.currencyService.isSupported(currency);
+  }
+
+  /**
+   * A platform limit expressed in another currency
+   */
+  private async convertLimit(limit: number, currency: string): Promise<number> {
+    const converted = await this.currencyService.convert(limit, this.LIMITS_CURRENCY, currency);
+    return converted.amount;
   }
 
 
 
   /**
-   * Process payment through external gateway (mock implementation)
+   * Authorize the payment with the gateway. Escrowed payments are held
+   * rather than captured so the funds can be released once the swap completes.
    */
   private async processPaymentThroughGateway(
     request: PaymentRequest,
     paymentMethod: PaymentMethod,
     fees: PaymentFees
-  ): Promise<string> {
-    // This would integrate with actual payment gateway (Stripe, PayPal, etc.)
-    // For now, return a mock transaction ID
-    const gatewayTransactionId = `gw_${uuidv4()}`;
+  ): Promise<GatewayChargeResult> {
+    const result = await this.paymentGateway.authorize({
+      amount: request.amount,
+      currency: request.currency,
+      paymentMethodToken: this.getGatewayToken(paymentMethod),
+      idempotencyKey: `payment_${request.proposalId}_${request.paymentMethodId}`,
+      capture: !request.escrowRequired,
+      metadata: {
+        swapId: request.swapId,
+        proposalId: request.proposalId,
+        platformFee: fees.platformFee.toFixed(2)
+      }
+    });
 
     logger.info('Payment processed through gateway', {
-      gatewayTransactionId,
+      gateway: this.paymentGateway.name,
+      gatewayTransactionId: result.gatewayTransactionId,
+      status: result.status,
       amount: request.amount,
       currency: request.currency,
       paymentMethodType: paymentMethod.type
     });
 
-    return gatewayTransactionId;
+    return result;
   }
 
   /**
-   * Process escrow release through gateway (mock implementation)
+   * Capture the escrow hold for the recipient
    */
   private async processEscrowReleaseThoughGateway(
-    escrowId: string,
+    escrow: EscrowAccount,
+    gatewayTransactionId: string,
     amount: number,
     recipientId: string
   ): Promise<void> {
-    // This would integrate with actual payment gateway for escrow release
+    const result = await this.paymentGateway.release({
+      gatewayTransactionId,
+      amount,
+      currency: escrow.currency,
+      recipientId,
+      idempotencyKey: `escrow_release_${escrow.id}`
+    });
+
     logger.info('Escrow release processed through gateway', {
-      escrowId,
+      escrowId: escrow.id,
+      gatewayTransactionId,
+      status: result.status,
       amount,
       recipientId
     });
   }
 
   /**
-   * Process refund through gateway (mock implementation)
+   * Refund a captured payment, fully or in part
    */
   private async processRefundThroughGateway(
-    gatewayTransactionId: string,
-    refundAmount: number
+    transaction: PaymentTransaction,
+    refundAmount: number,
+    reason: string
   ): Promise<void> {
-    // This would integrate with actual payment gateway for refunds
+    const result = await this.paymentGateway.refund({
+      gatewayTransactionId: transaction.gatewayTransactionId,
+      amount: refundAmount < transaction.amount ? refundAmount : undefined,
+      currency: transaction.currency,
+      reason,
+      idempotencyKey: `refund_${transaction.id}_${refundAmount}`
+    });
+
     logger.info('Refund processed through gateway', {
-      gatewayTransactionId,
-      refundAmount
+      gatewayTransactionId: transaction.gatewayTransactionId,
+      refundId: result.refundId,
+      refundAmount: result.amount,
+      partial: result.partial
     });
   }
+
+  /**
+   * Gateway token stored with the payment method when it was tokenized
+   */
+  private getGatewayToken(paymentMethod: PaymentMethod): string {
+    const metadata = paymentMethod.metadata || {};
+    return String(metadata.gatewayToken || metadata.cardToken || metadata.walletId || paymentMethod.id);
+  }
 }
\ No newline at end of file
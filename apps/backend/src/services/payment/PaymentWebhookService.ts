@@ -0,0 +1,222 @@
+import { PaymentStatus, PaymentTransaction } from '@booking-swap/shared';
+import { PaymentRepository } from '../../database/repositories/PaymentRepository';
+import { GatewayWebhookEvent, PaymentGateway } from './gateway';
+import { logger } from '../../utils/logger';
+
+/** Statuses a payment is in before the gateway settles it either way */
+const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ['pending', 'processing'];
+
+export interface WebhookHandlingResult {
+  eventId?: string;
+  /** The event was already processed; the delivery is a replay */
+  duplicate: boolean;
+  /** The event type is not one we act on, or its payment is unknown */
+  ignored: boolean;
+}
+
+/**
+ * Applies payment gateway webhooks to payment transactions and escrow
+ * accounts. Each event is recorded before it is applied, so replayed
+ * deliveries are acknowledged without being applied twice.
+ */
+export class PaymentWebhookService {
+  constructor(
+    private paymentRepository: PaymentRepository,
+    private paymentGateway: PaymentGateway
+  ) {}
+
+  get signatureHeader(): string {
+    return this.paymentGateway.signatureHeader;
+  }
+
+  /**
+   * Verify and apply a webhook delivery. Throws PaymentGatewayError
+   * INVALID_SIGNATURE for forged or stale deliveries.
+   */
+  async handleWebhook(
+    rawBody: string,
+    signature: string
+  ): Promise<WebhookHandlingResult> {
+    const event = this.paymentGateway.parseWebhookEvent(rawBody, signature);
+    if (!event) {
+      return { duplicate: false, ignored: true };
+    }
+
+    const isNew = await this.paymentRepository.recordWebhookEvent(
+      this.paymentGateway.name,
+      event,
+      rawBody
+    );
+    if (!isNew) {
+      logger.info('Ignoring replayed payment webhook', {
+        eventId: event.id,
+        type: event.type,
+      });
+      return { eventId: event.id, duplicate: true, ignored: false };
+    }
+
+    try {
+      const applied = await this.applyEvent(event);
+      return { eventId: event.id, duplicate: false, ignored: !applied };
+    } catch (error) {
+      // Forget the event so the gateway's redelivery is applied
+      await this.paymentRepository.deleteWebhookEvent(
+        this.paymentGateway.name,
+        event.id
+      );
+      logger.error('Failed to apply payment webhook', {
+        error,
+        eventId: event.id,
+        type: event.type,
+      });
+      throw error;
+    }
+  }
+
+  private async applyEvent(event: GatewayWebhookEvent): Promise<boolean> {
+    const transaction = await this.paymentRepository.findByGatewayTransactionId(
+      event.gatewayTransactionId
+    );
+    if (!transaction) {
+      logger.warn('Payment webhook for unknown gateway transaction', {
+        eventId: event.id,
+        gatewayTransactionId: event.gatewayTransactionId,
+      });
+      return false;
+    }
+
+    logger.info('Applying payment webhook', {
+      eventId: event.id,
+      type: event.type,
+      transactionId: transaction.id,
+    });
+
+    // Each transition is conditional on the current status, so an event
+    // arriving late or out of order cannot undo a later one
+    switch (event.type) {
+      case 'payment.authorized':
+        // Escrow holds are authorizations; the funds are now secured
+        if (transaction.escrowId) {
+          await this.paymentRepository.transitionEscrowStatus(
+            transaction.escrowId,
+            ['created'],
+            'funded'
+          );
+        }
+        return true;
+
+      case 'payment.succeeded':
+        return this.handlePaymentSucceeded(transaction, event);
+
+      case 'payment.failed':
+        await this.paymentRepository.transitionPaymentStatus(
+          transaction.id,
+          OPEN_PAYMENT_STATUSES,
+          'failed'
+        );
+        return true;
+
+      case 'refund.succeeded':
+        return this.handleRefundSucceeded(transaction, event);
+
+      case 'chargeback.opened':
+        if (transaction.escrowId) {
+          await this.paymentRepository.transitionEscrowStatus(
+            transaction.escrowId,
+            ['funded'],
+            'disputed'
+          );
+        }
+        logger.warn('Chargeback opened for payment', {
+          transactionId: transaction.id,
+        });
+        return true;
+
+      case 'chargeback.lost':
+        await this.paymentRepository.transitionPaymentStatus(
+          transaction.id,
+          [...OPEN_PAYMENT_STATUSES, 'completed'],
+          'refunded',
+          event.occurredAt
+        );
+        if (transaction.escrowId) {
+          await this.paymentRepository.transitionEscrowStatus(
+            transaction.escrowId,
+            ['funded', 'disputed', 'released'],
+            'refunded'
+          );
+        }
+        return true;
+
+      case 'chargeback.won':
+        if (transaction.escrowId) {
+          await this.paymentRepository.transitionEscrowStatus(
+            transaction.escrowId,
+            ['disputed'],
+            'funded'
+          );
+        }
+        logger.info('Chargeback resolved in our favour', {
+          transactionId: transaction.id,
+        });
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * A capture settled. For escrowed payments this is the release going
+   * through (releaseEscrow already completed the transaction) or an early
+   * capture; direct payments are complete.
+   */
+  private async handlePaymentSucceeded(
+    transaction: PaymentTransaction,
+    event: GatewayWebhookEvent
+  ): Promise<boolean> {
+    if (transaction.escrowId) {
+      await this.paymentRepository.transitionEscrowStatus(
+        transaction.escrowId,
+        ['created'],
+        'funded'
+      );
+      return true;
+    }
+
+    await this.paymentRepository.transitionPaymentStatus(
+      transaction.id,
+      OPEN_PAYMENT_STATUSES,
+      'completed',
+      event.occurredAt
+    );
+    return true;
+  }
+
+  /**
+   * The event amount is the total refunded so far. Only a refund of the
+   * whole amount makes the payment refunded; partial refunds are logged and
+   * leave the payment as it is.
+   */
+  private async handleRefundSucceeded(
+    transaction: PaymentTransaction,
+    event: GatewayWebhookEvent
+  ): Promise<boolean> {
+    if (event.amount !== undefined && event.amount < transaction.amount) {
+      logger.info('Partial refund for payment', {
+        transactionId: transaction.id,
+        refundedAmount: event.amount,
+        amount: transaction.amount,
+      });
+      return true;
+    }
+
+    await this.paymentRepository.transitionPaymentStatus(
+      transaction.id,
+      [...OPEN_PAYMENT_STATUSES, 'completed'],
+      'refunded',
+      event.occurredAt
+    );
+    return true;
+  }
+}
@@ -20,6 +20,7 @@ describe('PaymentProcessingService', () => {
   let paymentService: PaymentProcessingService;
   let mockPaymentRepository: any;
   let mockHederaService: any;
+  let mockPaymentGateway: any;
 
   const mockGatewayConfig = {
     apiKey: 'test-api-key',
@@ -48,10 +49,24 @@ describe('PaymentProcessingService', () => {
       recordEscrowRelease: vi.fn()
     };
     
+    mockPaymentGateway = {
+      name: 'mock',
+      signatureHeader: 'x-mock-signature',
+      authorize: vi.fn(),
+      capture: vi.fn(),
+      release: vi.fn(),
+      cancel: vi.fn(),
+      refund: vi.fn(),
+      parseWebhookEvent: vi.fn()
+    };
+
     paymentService = new PaymentProcessingService(
       mockPaymentRepository,
       mockHederaService,
-      mockGatewayConfig
+      mockGatewayConfig,
+      undefined as any,
+      undefined,
+      mockPaymentGateway
     );
 
     // Reset all mocks
@@ -486,6 +501,7 @@ describe('PaymentProcessingService', () => {
       });
       mockPaymentRepository.updatePaymentStatus.mockResolvedValue(updatedPayment);
       mockHederaService.recordEscrowRelease.mockResolvedValue('blockchain-release-123');
+      mockPaymentGateway.release.mockResolvedValue({ gatewayTransactionId: 'gw-123', status: 'succeeded' });
 
       const releaseRequest = {
         escrowId: 'escrow-123',
@@ -498,6 +514,9 @@ describe('PaymentProcessingService', () => {
       expect(result.status).toBe('completed');
       expect(result.completedAt).toBeDefined();
 
+      expect(mockPaymentGateway.release).toHaveBeenCalledWith(
+        expect.objectContaining({ gatewayTransactionId: 'gw-123', amount: 500, recipientId: 'user-456' })
+      );
       expect(mockPaymentRepository.updateEscrowStatus).toHaveBeenCalledWith(
         'escrow-123',
         'released',
@@ -511,6 +530,60 @@ describe('PaymentProcessingService', () => {
       expect(mockHederaService.recordEscrowRelease).toHaveBeenCalled();
     });
 
+    it('should release only the requested amount for a partial release', async () => {
+      const mockEscrow: EscrowAccount = {
+        id: 'escrow-123',
+        transactionId: 'tx-escrow',
+        amount: 500,
+        currency: 'USD',
+        status: 'funded',
+        releasedAt: undefined,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      } as EscrowAccount;
+
+      mockPaymentRepository.findEscrowAccounts.mockResolvedValue([mockEscrow]);
+      mockPaymentRepository.findPayments.mockResolvedValue([
+        { id: 'tx-123', recipientId: 'user-456', gatewayTransactionId: 'gw-123' }
+      ]);
+      mockPaymentRepository.updatePaymentStatus.mockResolvedValue({ id: 'tx-123', status: 'completed' });
+      mockPaymentGateway.release.mockResolvedValue({ gatewayTransactionId: 'gw-123', status: 'succeeded' });
+
+      await paymentService.releaseEscrow({
+        escrowId: 'escrow-123',
+        recipientId: 'user-456',
+        amount: 200,
+        reason: 'Partial release'
+      });
+
+      expect(mockPaymentGateway.release).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 200 })
+      );
+      expect(mockHederaService.recordEscrowRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ releaseAmount: 200 })
+      );
+    });
+
+    it('should reject a release amount above the escrowed amount', async () => {
+      mockPaymentRepository.findEscrowAccounts.mockResolvedValue([{
+        id: 'escrow-123',
+        transactionId: 'tx-escrow',
+        amount: 500,
+        currency: 'USD',
+        status: 'funded'
+      }]);
+
+      await expect(
+        paymentService.releaseEscrow({
+          escrowId: 'escrow-123',
+          recipientId: 'user-456',
+          amount: 800,
+          reason: 'Too much'
+        })
+      ).rejects.toThrow('Release amount must be between 0 and 500');
+      expect(mockPaymentGateway.release).not.toHaveBeenCalled();
+    });
+
     it('should throw error for non-existent escrow', async () => {
       mockPaymentRepository.findEscrowAccounts.mockResolvedValue([]);
 
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PaymentWebhookService } from '../PaymentWebhookService';
+import { SandboxPaymentGateway, SANDBOX_TOKENS } from '../gateway';
+
+vi.mock('../../../utils/logger');
+
+describe('PaymentWebhookService', () => {
+  let gateway: SandboxPaymentGateway;
+  let service: PaymentWebhookService;
+  let mockPaymentRepository: any;
+  let recordedEvents: Set<string>;
+  let payment: Record<string, any> | null;
+  let escrowStatus: string;
+
+  const transaction = (overrides: Record<string, any> = {}) => ({
+    id: 'tx-1',
+    status: 'processing',
+    amount: 100,
+    escrowId: undefined,
+    ...overrides,
+  });
+
+  const deliverAll = async () => {
+    const results = [];
+    for (const delivery of gateway.takeWebhookDeliveries()) {
+      results.push(
+        await service.handleWebhook(delivery.payload, delivery.signature)
+      );
+    }
+    return results;
+  };
+
+  beforeEach(() => {
+    gateway = new SandboxPaymentGateway({ webhookSecret: 'whsec_test' });
+    recordedEvents = new Set();
+
+    mockPaymentRepository = {
+      recordWebhookEvent: vi.fn(
+        async (_gateway: string, event: { id: string }) => {
+          if (recordedEvents.has(event.id)) {
+            return false;
+          }
+          recordedEvents.add(event.id);
+          return true;
+        }
+      ),
+      deleteWebhookEvent: vi.fn(async (_gateway: string, eventId: string) => {
+        recordedEvents.delete(eventId);
+      }),
+      findByGatewayTransactionId: vi.fn(async () =>
+        payment ? { ...payment } : null
+      ),
+      // Conditional like the SQL: only applied from one of the given statuses
+      transitionPaymentStatus: vi.fn(
+        async (_id: string, from: string[], to: string) => {
+          if (!payment || !from.includes(payment.status)) {
+            return null;
+          }
+          payment.status = to;
+          return { ...payment };
+        }
+      ),
+      transitionEscrowStatus: vi.fn(
+        async (id: string, from: string[], to: string) => {
+          if (!from.includes(escrowStatus)) {
+            return null;
+          }
+          escrowStatus = to;
+          return { id, status: to };
+        }
+      ),
+    };
+    payment = transaction();
+    escrowStatus = 'created';
+
+    service = new PaymentWebhookService(mockPaymentRepository, gateway);
+  });
+
+  it('should complete a direct payment when the capture settles', async () => {
+    await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+
+    const [result] = await deliverAll();
+
+    expect(result).toMatchObject({ duplicate: false, ignored: false });
+    expect(mockPaymentRepository.transitionPaymentStatus).toHaveBeenCalledWith(
+      'tx-1',
+      ['pending', 'processing'],
+      'completed',
+      expect.any(Date)
+    );
+    expect(payment!.status).toBe('completed');
+  });
+
+  it('should mark the escrow funded when the hold is authorized', async () => {
+    await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: false,
+    });
+    payment = transaction({ escrowId: 'escrow-1' });
+
+    await deliverAll();
+
+    expect(mockPaymentRepository.transitionEscrowStatus).toHaveBeenCalledWith(
+      'escrow-1',
+      ['created'],
+      'funded'
+    );
+    expect(escrowStatus).toBe('funded');
+    expect(
+      mockPaymentRepository.transitionPaymentStatus
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should acknowledge replayed deliveries without applying them again', async () => {
+    await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    const [delivery] = gateway.takeWebhookDeliveries();
+
+    await service.handleWebhook(delivery.payload, delivery.signature);
+    const replay = await service.handleWebhook(
+      delivery.payload,
+      delivery.signature
+    );
+
+    expect(replay.duplicate).toBe(true);
+    expect(mockPaymentRepository.transitionPaymentStatus).toHaveBeenCalledTimes(
+      1
+    );
+  });
+
+  it('should reject deliveries with an invalid signature', async () => {
+    await expect(
+      service.handleWebhook('{"id":"evt_1"}', 't=1,v1=deadbeef')
+    ).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(mockPaymentRepository.recordWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should dispute the escrow and refund the payment when a chargeback is lost', async () => {
+    const charge = await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: SANDBOX_TOKENS.CHARGEBACK,
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    gateway.resolveChargeback(charge.gatewayTransactionId, false);
+    payment = transaction({ escrowId: 'escrow-1' });
+    escrowStatus = 'funded';
+
+    await deliverAll();
+
+    expect(mockPaymentRepository.transitionEscrowStatus).toHaveBeenCalledWith(
+      'escrow-1',
+      ['funded'],
+      'disputed'
+    );
+    expect(payment!.status).toBe('refunded');
+    expect(escrowStatus).toBe('refunded');
+  });
+
+  it('should forget the event when applying it fails so the redelivery is processed', async () => {
+    await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    mockPaymentRepository.transitionPaymentStatus.mockRejectedValueOnce(
+      new Error('connection lost')
+    );
+    const [delivery] = gateway.takeWebhookDeliveries();
+
+    await expect(
+      service.handleWebhook(delivery.payload, delivery.signature)
+    ).rejects.toThrow('connection lost');
+    const retry = await service.handleWebhook(
+      delivery.payload,
+      delivery.signature
+    );
+
+    expect(retry.duplicate).toBe(false);
+    expect(mockPaymentRepository.transitionPaymentStatus).toHaveBeenCalledTimes(
+      2
+    );
+  });
+
+  it('should ignore events for unknown transactions', async () => {
+    await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    payment = null;
+
+    const [result] = await deliverAll();
+
+    expect(result.ignored).toBe(true);
+    expect(
+      mockPaymentRepository.transitionPaymentStatus
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should not let a late failure regress a completed payment', async () => {
+    const charge = await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: SANDBOX_TOKENS.THREE_D_SECURE,
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    gateway.completeChallenge(charge.gatewayTransactionId, false);
+    payment = transaction({ status: 'completed' });
+
+    const [result] = await deliverAll();
+
+    expect(result.ignored).toBe(false);
+    expect(payment!.status).toBe('completed');
+  });
+
+  it('should only mark the payment refunded once the whole amount is refunded', async () => {
+    const charge = await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    await deliverAll();
+    expect(payment!.status).toBe('completed');
+
+    await gateway.refund({
+      gatewayTransactionId: charge.gatewayTransactionId,
+      amount: 40,
+      currency: 'USD',
+      idempotencyKey: 'refund-1',
+    });
+    await deliverAll();
+    expect(payment!.status).toBe('completed');
+
+    await gateway.refund({
+      gatewayTransactionId: charge.gatewayTransactionId,
+      currency: 'USD',
+      idempotencyKey: 'refund-2',
+    });
+    await deliverAll();
+    expect(payment!.status).toBe('refunded');
+  });
+
+  it('should restore the escrow when a chargeback is won', async () => {
+    const charge = await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: SANDBOX_TOKENS.CHARGEBACK,
+      idempotencyKey: 'pay-1',
+      capture: true,
+    });
+    gateway.resolveChargeback(charge.gatewayTransactionId, true);
+    payment = transaction({ escrowId: 'escrow-1' });
+    escrowStatus = 'funded';
+
+    await deliverAll();
+
+    expect(mockPaymentRepository.transitionEscrowStatus).toHaveBeenCalledWith(
+      'escrow-1',
+      ['disputed'],
+      'funded'
+    );
+    expect(escrowStatus).toBe('funded');
+    expect(payment!.status).not.toBe('refunded');
+  });
+
+  it('should not fund an escrow that was already released', async () => {
+    await gateway.authorize({
+      amount: 100,
+      currency: 'USD',
+      paymentMethodToken: 'tok_visa',
+      idempotencyKey: 'pay-1',
+      capture: false,
+    });
+    payment = transaction({ status: 'completed', escrowId: 'escrow-1' });
+    escrowStatus = 'released';
+
+    await deliverAll();
+
+    expect(escrowStatus).toBe('released');
+  });
+});
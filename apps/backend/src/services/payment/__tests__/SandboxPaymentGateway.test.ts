@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SandboxPaymentGateway,
+  SANDBOX_TOKENS,
+  PaymentGatewayError,
+  signWebhookPayload,
+} from '../gateway';
+
+const WEBHOOK_SECRET = 'whsec_test';
+
+describe('SandboxPaymentGateway', () => {
+  let gateway: SandboxPaymentGateway;
+
+  const authorize = (
+    token: string,
+    capture = true,
+    idempotencyKey = `key-${token}-${capture}`
+  ) =>
+    gateway.authorize({
+      amount: 200,
+      currency: 'USD',
+      paymentMethodToken: token,
+      idempotencyKey,
+      capture,
+    });
+
+  const eventTypes = () =>
+    gateway
+      .takeWebhookDeliveries()
+      .map(
+        delivery =>
+          gateway.parseWebhookEvent(delivery.payload, delivery.signature)!.type
+      );
+
+  beforeEach(() => {
+    gateway = new SandboxPaymentGateway({
+      webhookSecret: WEBHOOK_SECRET,
+      settlementDelayMs: 1000,
+    });
+  });
+
+  it('should capture immediately and emit payment.succeeded', async () => {
+    const result = await authorize('tok_visa');
+
+    expect(result.status).toBe('succeeded');
+    expect(eventTypes()).toEqual(['payment.succeeded']);
+  });
+
+  it('should return the same charge for a repeated idempotency key', async () => {
+    const first = await authorize('tok_visa', true, 'same-key');
+    const second = await authorize('tok_visa', true, 'same-key');
+
+    expect(second.gatewayTransactionId).toBe(first.gatewayTransactionId);
+  });
+
+  it('should decline with a non-retryable error', async () => {
+    await expect(authorize(SANDBOX_TOKENS.DECLINE)).rejects.toMatchObject({
+      code: 'CARD_DECLINED',
+      retryable: false,
+    });
+    await expect(
+      authorize(SANDBOX_TOKENS.INSUFFICIENT_FUNDS)
+    ).rejects.toMatchObject({
+      code: 'INSUFFICIENT_FUNDS',
+    });
+  });
+
+  it('should require a 3DS challenge before the charge goes through', async () => {
+    const result = await authorize(SANDBOX_TOKENS.THREE_D_SECURE);
+
+    expect(result.status).toBe('requires_action');
+    expect(result.nextAction?.type).toBe('three_d_secure');
+    expect(eventTypes()).toEqual([]);
+
+    const completed = gateway.completeChallenge(
+      result.gatewayTransactionId,
+      true
+    );
+    expect(completed.status).toBe('succeeded');
+    expect(eventTypes()).toEqual(['payment.succeeded']);
+  });
+
+  it('should fail the charge when the 3DS challenge is rejected', async () => {
+    const result = await authorize(SANDBOX_TOKENS.THREE_D_SECURE);
+
+    expect(
+      gateway.completeChallenge(result.gatewayTransactionId, false).status
+    ).toBe('failed');
+    expect(eventTypes()).toEqual(['payment.failed']);
+  });
+
+  it('should hold escrow funds until release captures them', async () => {
+    const hold = await authorize('tok_visa', false);
+    expect(hold.status).toBe('authorized');
+    expect(eventTypes()).toEqual(['payment.authorized']);
+
+    const released = await gateway.release({
+      gatewayTransactionId: hold.gatewayTransactionId,
+      amount: 150,
+      currency: 'USD',
+      recipientId: 'user-2',
+      idempotencyKey: 'release-1',
+    });
+
+    expect(released.status).toBe('succeeded');
+    expect(eventTypes()).toEqual(['payment.succeeded']);
+  });
+
+  it('should settle delayed captures once the settlement delay has passed', async () => {
+    const result = await authorize(SANDBOX_TOKENS.DELAYED_SETTLEMENT);
+    expect(result.status).toBe('processing');
+
+    expect(gateway.settlePending(new Date())).toBe(0);
+    expect(gateway.settlePending(new Date(Date.now() + 2000))).toBe(1);
+    expect(eventTypes()).toEqual(['payment.succeeded']);
+  });
+
+  it('should support partial refunds up to the captured amount', async () => {
+    const charge = await authorize('tok_visa');
+    gateway.takeWebhookDeliveries();
+
+    const partial = await gateway.refund({
+      gatewayTransactionId: charge.gatewayTransactionId,
+      amount: 50,
+      currency: 'USD',
+      idempotencyKey: 'refund-1',
+    });
+    expect(partial).toMatchObject({ amount: 50, partial: true });
+
+    const rest = await gateway.refund({
+      gatewayTransactionId: charge.gatewayTransactionId,
+      currency: 'USD',
+      idempotencyKey: 'refund-2',
+    });
+    expect(rest).toMatchObject({ amount: 150, partial: false });
+
+    await expect(
+      gateway.refund({
+        gatewayTransactionId: charge.gatewayTransactionId,
+        amount: 1,
+        currency: 'USD',
+        idempotencyKey: 'refund-3',
+      })
+    ).rejects.toBeInstanceOf(PaymentGatewayError);
+    const refunds = gateway
+      .takeWebhookDeliveries()
+      .map(delivery =>
+        gateway.parseWebhookEvent(delivery.payload, delivery.signature)
+      );
+    expect(refunds.map(event => event!.type)).toEqual([
+      'refund.succeeded',
+      'refund.succeeded',
+    ]);
+    // Cumulative, like the gateway's own refund events
+    expect(refunds.map(event => event!.amount)).toEqual([50, 200]);
+  });
+
+  it('should open a chargeback after settling a chargeback token', async () => {
+    const charge = await authorize(SANDBOX_TOKENS.CHARGEBACK);
+    gateway.resolveChargeback(charge.gatewayTransactionId, false);
+
+    expect(eventTypes()).toEqual([
+      'payment.succeeded',
+      'chargeback.opened',
+      'chargeback.lost',
+    ]);
+  });
+
+  describe('parseWebhookEvent', () => {
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      type: 'payment.succeeded',
+      gatewayTransactionId: 'sandbox_pi_1',
+      amount: 200,
+      occurredAt: new Date().toISOString(),
+    });
+
+    it('should reject a signature made with another secret', () => {
+      expect(() =>
+        gateway.parseWebhookEvent(
+          payload,
+          signWebhookPayload(payload, 'other-secret')
+        )
+      ).toThrow('Webhook signature does not match');
+    });
+
+    it('should reject a tampered payload', () => {
+      const signature = signWebhookPayload(payload, WEBHOOK_SECRET);
+
+      expect(() =>
+        gateway.parseWebhookEvent(payload.replace('200', '2000'), signature)
+      ).toThrow(PaymentGatewayError);
+    });
+
+    it('should reject a delivery outside the tolerance window', () => {
+      const staleTimestamp = Math.floor(Date.now() / 1000) - 3600;
+
+      expect(() =>
+        gateway.parseWebhookEvent(
+          payload,
+          signWebhookPayload(payload, WEBHOOK_SECRET, staleTimestamp)
+        )
+      ).toThrow('outside the tolerance window');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createPaymentGateway,
+  resetPaymentProcessingService,
+} from '../factory';
+import { SandboxPaymentGateway, StripePaymentGateway } from '../gateway';
+import { ConfigValidationError } from '../../../config/validation';
+
+vi.mock('../../../utils/logger');
+
+describe('Payment factory', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.PAYMENT_GATEWAY;
+    delete process.env.PAYMENT_GATEWAY_SECRET_KEY;
+    delete process.env.PAYMENT_WEBHOOK_SECRET;
+    resetPaymentProcessingService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    resetPaymentProcessingService();
+  });
+
+  describe('createPaymentGateway', () => {
+    it('should fall back to the sandbox gateway outside production', () => {
+      process.env.NODE_ENV = 'development';
+
+      expect(createPaymentGateway()).toBeInstanceOf(SandboxPaymentGateway);
+    });
+
+    it('should refuse to start without a webhook secret in production', () => {
+      process.env.NODE_ENV = 'production';
+      process.env.PAYMENT_GATEWAY = 'stripe';
+      process.env.PAYMENT_GATEWAY_SECRET_KEY = 'sk_live_123';
+
+      expect(() => createPaymentGateway()).toThrow(ConfigValidationError);
+      expect(() => createPaymentGateway()).toThrow(
+        'PAYMENT_WEBHOOK_SECRET is required in production environment'
+      );
+    });
+
+    it('should refuse to start without a gateway key in production', () => {
+      process.env.NODE_ENV = 'production';
+      process.env.PAYMENT_GATEWAY = 'stripe';
+      process.env.PAYMENT_WEBHOOK_SECRET = 'whsec_live';
+
+      expect(() => createPaymentGateway()).toThrow(
+        'PAYMENT_GATEWAY_SECRET_KEY is required in production environment'
+      );
+    });
+
+    it('should refuse the sandbox gateway in production', () => {
+      process.env.NODE_ENV = 'production';
+      process.env.PAYMENT_WEBHOOK_SECRET = 'whsec_live';
+
+      expect(() => createPaymentGateway()).toThrow(
+        expect.objectContaining({ field: 'PAYMENT_GATEWAY' })
+      );
+    });
+
+    it('should use the configured gateway in production', () => {
+      process.env.NODE_ENV = 'production';
+      process.env.PAYMENT_GATEWAY = 'stripe';
+      process.env.PAYMENT_GATEWAY_SECRET_KEY = 'sk_live_123';
+      process.env.PAYMENT_WEBHOOK_SECRET = 'whsec_live';
+
+      expect(createPaymentGateway()).toBeInstanceOf(StripePaymentGateway);
+    });
+  });
+});
@@ -1,14 +1,87 @@
 import { Pool } from 'pg';
-import { PaymentProcessingService, PaymentGatewayConfig } from './PaymentProcessingService';
+import {
+  PaymentProcessingService,
+  PaymentGatewayConfig,
+} from './PaymentProcessingService';
 import { EnhancedPaymentTransactionServiceImpl } from './EnhancedPaymentTransactionService';
+import { PaymentWebhookService } from './PaymentWebhookService';
+import {
+  PaymentGateway,
+  SandboxPaymentGateway,
+  StripePaymentGateway,
+} from './gateway';
 import { PaymentRepository } from '../../database/repositories/PaymentRepository';
 import { createHederaService } from '../hedera/factory';
+import { createCurrencyService } from '../currency/factory';
 import { createPaymentNotificationService } from '../notification/factory';
+import { ConfigValidationError } from '../../config/validation';
 
 let paymentProcessingService: PaymentProcessingService | null = null;
-let enhancedPaymentTransactionService: EnhancedPaymentTransactionServiceImpl | null = null;
+let enhancedPaymentTransactionService: EnhancedPaymentTransactionServiceImpl | null =
+  null;
+let paymentWebhookService: PaymentWebhookService | null = null;
+let paymentGateway: PaymentGateway | null = null;
 
-export function createPaymentProcessingService(pool: Pool): PaymentProcessingService {
+/**
+ * A payment setting from the environment. Outside production a missing value
+ * falls back to a test value; in production it stops startup instead of
+ * taking payments with test credentials.
+ */
+function paymentSetting(name: string, testValue: string): string {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new ConfigValidationError(
+      `${name} is required in production environment`,
+      name
+    );
+  }
+  return testValue;
+}
+
+/**
+ * Gateway selected by PAYMENT_GATEWAY: 'stripe' or 'sandbox' (default).
+ * Production must use a real gateway.
+ */
+export function createPaymentGateway(): PaymentGateway {
+  if (!paymentGateway) {
+    const webhookSecret = paymentSetting(
+      'PAYMENT_WEBHOOK_SECRET',
+      'test-webhook-secret'
+    );
+
+    if (process.env.PAYMENT_GATEWAY === 'stripe') {
+      paymentGateway = new StripePaymentGateway({
+        secretKey: paymentSetting(
+          'PAYMENT_GATEWAY_SECRET_KEY',
+          'test-secret-key'
+        ),
+        webhookSecret,
+        returnUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/payments/return`,
+      });
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new ConfigValidationError(
+        'PAYMENT_GATEWAY must be set to a real gateway in production environment',
+        'PAYMENT_GATEWAY'
+      );
+    } else {
+      paymentGateway = new SandboxPaymentGateway({
+        webhookSecret,
+        settlementDelayMs: parseInt(
+          process.env.SANDBOX_SETTLEMENT_DELAY_MS || '60000'
+        ),
+      });
+    }
+  }
+
+  return paymentGateway;
+}
+
+export function createPaymentProcessingService(
+  pool: Pool
+): PaymentProcessingService {
   if (!paymentProcessingService) {
     const paymentRepository = new PaymentRepository(pool);
     const hederaService = createHederaService();
@@ -17,35 +90,65 @@ export function createPaymentProcessingService(pool: Pool): PaymentProcessingSer
     // Payment gateway configuration from environment
     const gatewayConfig: PaymentGatewayConfig = {
       apiKey: process.env.PAYMENT_GATEWAY_API_KEY || 'test-api-key',
-      secretKey: process.env.PAYMENT_GATEWAY_SECRET_KEY || 'test-secret-key',
-      environment: (process.env.NODE_ENV === 'production' ? 'production' : 'sandbox') as 'sandbox' | 'production',
-      webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || 'test-webhook-secret'
+      secretKey: paymentSetting(
+        'PAYMENT_GATEWAY_SECRET_KEY',
+        'test-secret-key'
+      ),
+      environment: (process.env.NODE_ENV === 'production'
+        ? 'production'
+        : 'sandbox') as 'sandbox' | 'production',
+      webhookSecret: paymentSetting(
+        'PAYMENT_WEBHOOK_SECRET',
+        'test-webhook-secret'
+      ),
     };
 
     paymentProcessingService = new PaymentProcessingService(
       paymentRepository,
       hederaService,
       gatewayConfig,
-      paymentNotificationService
+      paymentNotificationService,
+      undefined,
+      createPaymentGateway(),
+      createCurrencyService(pool)
     );
   }
 
   return paymentProcessingService;
 }
 
-export function createEnhancedPaymentTransactionService(pool: Pool): EnhancedPaymentTransactionServiceImpl {
+export function createEnhancedPaymentTransactionService(
+  pool: Pool
+): EnhancedPaymentTransactionServiceImpl {
   if (!enhancedPaymentTransactionService) {
     const paymentRepository = new PaymentRepository(pool);
-    enhancedPaymentTransactionService = new EnhancedPaymentTransactionServiceImpl(pool, paymentRepository);
+    enhancedPaymentTransactionService =
+      new EnhancedPaymentTransactionServiceImpl(pool, paymentRepository);
   }
 
   return enhancedPaymentTransactionService;
 }
 
+export function createPaymentWebhookService(pool: Pool): PaymentWebhookService {
+  if (!paymentWebhookService) {
+    paymentWebhookService = new PaymentWebhookService(
+      new PaymentRepository(pool),
+      createPaymentGateway()
+    );
+  }
+
+  return paymentWebhookService;
+}
+
 export function resetPaymentProcessingService(): void {
   paymentProcessingService = null;
+  paymentGateway = null;
+}
+
+export function resetPaymentWebhookService(): void {
+  paymentWebhookService = null;
 }
 
 export function resetEnhancedPaymentTransactionService(): void {
   enhancedPaymentTransactionService = null;
-}
\ No newline at end of file
+}
@@ -0,0 +1,126 @@
+/**
+ * Status of a charge as reported by the gateway
+ */
+export type GatewayChargeStatus =
+  | 'requires_action' // Waiting for the payer to complete a 3DS challenge
+  | 'authorized' // Funds held, not captured (escrow)
+  | 'processing' // Captured, settlement still pending
+  | 'succeeded' // Captured and settled
+  | 'failed';
+
+export type GatewayEventType =
+  | 'payment.authorized'
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'refund.succeeded'
+  | 'chargeback.opened'
+  | 'chargeback.won'
+  | 'chargeback.lost';
+
+export interface GatewayNextAction {
+  type: 'three_d_secure';
+  redirectUrl: string;
+}
+
+export interface GatewayAuthorizeRequest {
+  amount: number;
+  currency: string;
+  /** Gateway token of the payer's payment method */
+  paymentMethodToken: string;
+  /** Makes retries of the same authorization safe */
+  idempotencyKey: string;
+  /** Capture straight away instead of holding the funds */
+  capture: boolean;
+  metadata?: Record<string, string>;
+}
+
+export interface GatewayChargeResult {
+  gatewayTransactionId: string;
+  status: GatewayChargeStatus;
+  nextAction?: GatewayNextAction;
+}
+
+export interface GatewayReleaseRequest {
+  gatewayTransactionId: string;
+  /** Amount to release; the remainder of the hold is returned to the payer */
+  amount: number;
+  currency: string;
+  recipientId: string;
+  idempotencyKey: string;
+}
+
+export interface GatewayRefundRequest {
+  gatewayTransactionId: string;
+  /** Omit for a full refund */
+  amount?: number;
+  currency: string;
+  reason?: string;
+  idempotencyKey: string;
+}
+
+export interface GatewayRefundResult {
+  refundId: string;
+  amount: number;
+  partial: boolean;
+}
+
+export interface GatewayWebhookEvent {
+  id: string;
+  type: GatewayEventType;
+  gatewayTransactionId: string;
+  /** For refund events, the total refunded so far rather than this refund */
+  amount?: number;
+  occurredAt: Date;
+}
+
+/**
+ * Adapter to an external payment provider. Escrow is modelled as an
+ * authorization hold: `authorize` with `capture: false` holds the payer's
+ * funds and `release` captures them once the swap completes.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  /** Request header carrying the webhook signature */
+  readonly signatureHeader: string;
+
+  authorize(request: GatewayAuthorizeRequest): Promise<GatewayChargeResult>;
+  capture(
+    gatewayTransactionId: string,
+    amount?: number
+  ): Promise<GatewayChargeResult>;
+  release(request: GatewayReleaseRequest): Promise<GatewayChargeResult>;
+  /** Void an authorization hold, returning all of it to the payer */
+  cancel(
+    gatewayTransactionId: string,
+    idempotencyKey: string
+  ): Promise<GatewayChargeResult>;
+  /** Full or partial refund of a captured charge */
+  refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+  /**
+   * Verify the signature of a webhook delivery and parse it. Throws
+   * INVALID_SIGNATURE for forged or stale deliveries.
+   */
+  parseWebhookEvent(
+    rawBody: string,
+    signature: string
+  ): GatewayWebhookEvent | null;
+}
+
+export type PaymentGatewayErrorCode =
+  | 'CARD_DECLINED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'INVALID_REQUEST'
+  | 'INVALID_SIGNATURE'
+  | 'GATEWAY_UNAVAILABLE';
+
+export class PaymentGatewayError extends Error {
+  constructor(
+    public code: PaymentGatewayErrorCode,
+    message: string,
+    public declineCode?: string,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
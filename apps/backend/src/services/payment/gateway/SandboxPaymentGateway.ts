@@ -0,0 +1,349 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  GatewayAuthorizeRequest,
+  GatewayChargeResult,
+  GatewayChargeStatus,
+  GatewayEventType,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayReleaseRequest,
+  GatewayWebhookEvent,
+  PaymentGateway,
+  PaymentGatewayError,
+} from './PaymentGateway';
+import { signWebhookPayload, verifyWebhookSignature } from './webhookSignature';
+
+/**
+ * Payment method tokens that trigger simulated gateway behaviour. Any other
+ * token succeeds immediately.
+ */
+export const SANDBOX_TOKENS = {
+  DECLINE: 'tok_sandbox_decline',
+  INSUFFICIENT_FUNDS: 'tok_sandbox_insufficient_funds',
+  THREE_D_SECURE: 'tok_sandbox_3ds',
+  DELAYED_SETTLEMENT: 'tok_sandbox_delayed',
+  CHARGEBACK: 'tok_sandbox_chargeback',
+} as const;
+
+export interface SandboxGatewayConfig {
+  webhookSecret: string;
+  /** How long captures with the delayed token stay in processing */
+  settlementDelayMs?: number;
+  webhookToleranceSeconds?: number;
+}
+
+export interface SandboxWebhookDelivery {
+  payload: string;
+  signature: string;
+}
+
+interface SandboxCharge {
+  id: string;
+  amount: number;
+  currency: string;
+  token: string;
+  status: GatewayChargeStatus;
+  captureOnConfirm: boolean;
+  capturedAmount: number;
+  refundedAmount: number;
+  settleAt?: Date;
+}
+
+/**
+ * In-memory gateway for local development and tests. It emits signed webhook
+ * deliveries the same way a real gateway would; callers collect them with
+ * takeWebhookDeliveries() and feed them to the webhook endpoint.
+ */
+export class SandboxPaymentGateway implements PaymentGateway {
+  readonly name = 'sandbox';
+  readonly signatureHeader = 'x-sandbox-signature';
+
+  private charges = new Map<string, SandboxCharge>();
+  private idempotentResults = new Map<string, unknown>();
+  private deliveries: SandboxWebhookDelivery[] = [];
+
+  constructor(private readonly config: SandboxGatewayConfig) {}
+
+  async authorize(
+    request: GatewayAuthorizeRequest
+  ): Promise<GatewayChargeResult> {
+    return this.idempotent(request.idempotencyKey, async () => {
+      if (request.paymentMethodToken === SANDBOX_TOKENS.DECLINE) {
+        throw new PaymentGatewayError(
+          'CARD_DECLINED',
+          'Your card was declined',
+          'generic_decline'
+        );
+      }
+      if (request.paymentMethodToken === SANDBOX_TOKENS.INSUFFICIENT_FUNDS) {
+        throw new PaymentGatewayError(
+          'INSUFFICIENT_FUNDS',
+          'Your card has insufficient funds',
+          'insufficient_funds'
+        );
+      }
+
+      const charge: SandboxCharge = {
+        id: `sandbox_pi_${uuidv4()}`,
+        amount: request.amount,
+        currency: request.currency,
+        token: request.paymentMethodToken,
+        status: 'authorized',
+        captureOnConfirm: request.capture,
+        capturedAmount: 0,
+        refundedAmount: 0,
+      };
+      this.charges.set(charge.id, charge);
+
+      if (request.paymentMethodToken === SANDBOX_TOKENS.THREE_D_SECURE) {
+        charge.status = 'requires_action';
+        return {
+          gatewayTransactionId: charge.id,
+          status: charge.status,
+          nextAction: {
+            type: 'three_d_secure',
+            redirectUrl: `https://sandbox.gateway.local/3ds/${charge.id}`,
+          },
+        };
+      }
+
+      return this.confirm(charge);
+    });
+  }
+
+  async capture(
+    gatewayTransactionId: string,
+    amount?: number
+  ): Promise<GatewayChargeResult> {
+    const charge = this.getCharge(gatewayTransactionId);
+    if (charge.status !== 'authorized') {
+      throw new PaymentGatewayError(
+        'INVALID_REQUEST',
+        `Cannot capture a charge that is ${charge.status}`
+      );
+    }
+
+    const captureAmount = amount ?? charge.amount;
+    if (captureAmount <= 0 || captureAmount > charge.amount) {
+      throw new PaymentGatewayError(
+        'INVALID_REQUEST',
+        'Capture amount exceeds the authorized amount'
+      );
+    }
+
+    this.applyCapture(charge, captureAmount);
+    return { gatewayTransactionId: charge.id, status: charge.status };
+  }
+
+  async release(request: GatewayReleaseRequest): Promise<GatewayChargeResult> {
+    return this.idempotent(request.idempotencyKey, () =>
+      this.capture(request.gatewayTransactionId, request.amount)
+    );
+  }
+
+  async cancel(
+    gatewayTransactionId: string,
+    idempotencyKey: string
+  ): Promise<GatewayChargeResult> {
+    return this.idempotent(idempotencyKey, async () => {
+      const charge = this.getCharge(gatewayTransactionId);
+      if (charge.status !== 'authorized') {
+        throw new PaymentGatewayError(
+          'INVALID_REQUEST',
+          `Cannot cancel a charge that is ${charge.status}`
+        );
+      }
+
+      charge.status = 'failed';
+      return { gatewayTransactionId: charge.id, status: charge.status };
+    });
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    return this.idempotent(request.idempotencyKey, async () => {
+      const charge = this.getCharge(request.gatewayTransactionId);
+      if (charge.status !== 'succeeded' && charge.status !== 'processing') {
+        throw new PaymentGatewayError(
+          'INVALID_REQUEST',
+          `Cannot refund a charge that is ${charge.status}`
+        );
+      }
+
+      const refundable = charge.capturedAmount - charge.refundedAmount;
+      const amount = request.amount ?? refundable;
+      if (amount <= 0 || amount > refundable) {
+        throw new PaymentGatewayError(
+          'INVALID_REQUEST',
+          `Refund amount exceeds the refundable ${refundable}`
+        );
+      }
+
+      charge.refundedAmount += amount;
+      this.emit('refund.succeeded', charge, charge.refundedAmount);
+
+      return {
+        refundId: `sandbox_re_${uuidv4()}`,
+        amount,
+        partial: charge.refundedAmount < charge.capturedAmount,
+      };
+    });
+  }
+
+  parseWebhookEvent(
+    rawBody: string,
+    signature: string
+  ): GatewayWebhookEvent | null {
+    verifyWebhookSignature(
+      rawBody,
+      signature,
+      this.config.webhookSecret,
+      this.config.webhookToleranceSeconds
+    );
+
+    const event = JSON.parse(rawBody);
+    return {
+      id: event.id,
+      type: event.type,
+      gatewayTransactionId: event.gatewayTransactionId,
+      amount: event.amount,
+      occurredAt: new Date(event.occurredAt),
+    };
+  }
+
+  /**
+   * Simulate the payer finishing (or failing) a 3DS challenge
+   */
+  completeChallenge(
+    gatewayTransactionId: string,
+    approved: boolean
+  ): GatewayChargeResult {
+    const charge = this.getCharge(gatewayTransactionId);
+    if (charge.status !== 'requires_action') {
+      throw new PaymentGatewayError(
+        'INVALID_REQUEST',
+        `Charge ${gatewayTransactionId} has no pending challenge`
+      );
+    }
+
+    if (!approved) {
+      charge.status = 'failed';
+      this.emit('payment.failed', charge);
+      return { gatewayTransactionId: charge.id, status: charge.status };
+    }
+
+    charge.status = 'authorized';
+    return this.confirm(charge);
+  }
+
+  /**
+   * Settle delayed captures whose settlement time has passed. Returns the
+   * number of charges settled.
+   */
+  settlePending(now: Date = new Date()): number {
+    let settled = 0;
+    for (const charge of this.charges.values()) {
+      if (
+        charge.status === 'processing' &&
+        charge.settleAt &&
+        charge.settleAt <= now
+      ) {
+        this.settle(charge);
+        settled++;
+      }
+    }
+    return settled;
+  }
+
+  openChargeback(gatewayTransactionId: string): void {
+    this.emit('chargeback.opened', this.getCharge(gatewayTransactionId));
+  }
+
+  resolveChargeback(gatewayTransactionId: string, won: boolean): void {
+    const charge = this.getCharge(gatewayTransactionId);
+    this.emit(won ? 'chargeback.won' : 'chargeback.lost', charge);
+  }
+
+  /**
+   * Return and clear the webhook deliveries emitted so far
+   */
+  takeWebhookDeliveries(): SandboxWebhookDelivery[] {
+    const deliveries = this.deliveries;
+    this.deliveries = [];
+    return deliveries;
+  }
+
+  private confirm(charge: SandboxCharge): GatewayChargeResult {
+    if (charge.captureOnConfirm) {
+      this.applyCapture(charge, charge.amount);
+    } else {
+      this.emit('payment.authorized', charge);
+    }
+
+    return { gatewayTransactionId: charge.id, status: charge.status };
+  }
+
+  private applyCapture(charge: SandboxCharge, amount: number): void {
+    charge.capturedAmount = amount;
+    if (charge.token === SANDBOX_TOKENS.DELAYED_SETTLEMENT) {
+      charge.status = 'processing';
+      charge.settleAt = new Date(
+        Date.now() + (this.config.settlementDelayMs ?? 60000)
+      );
+    } else {
+      this.settle(charge);
+    }
+  }
+
+  private settle(charge: SandboxCharge): void {
+    charge.status = 'succeeded';
+    charge.settleAt = undefined;
+    this.emit('payment.succeeded', charge, charge.capturedAmount);
+
+    if (charge.token === SANDBOX_TOKENS.CHARGEBACK) {
+      this.emit('chargeback.opened', charge);
+    }
+  }
+
+  private emit(
+    type: GatewayEventType,
+    charge: SandboxCharge,
+    amount: number = charge.amount
+  ): void {
+    const payload = JSON.stringify({
+      id: `sandbox_evt_${uuidv4()}`,
+      type,
+      gatewayTransactionId: charge.id,
+      amount,
+      occurredAt: new Date().toISOString(),
+    });
+
+    this.deliveries.push({
+      payload,
+      signature: signWebhookPayload(payload, this.config.webhookSecret),
+    });
+  }
+
+  private getCharge(gatewayTransactionId: string): SandboxCharge {
+    const charge = this.charges.get(gatewayTransactionId);
+    if (!charge) {
+      throw new PaymentGatewayError(
+        'INVALID_REQUEST',
+        `No such charge: ${gatewayTransactionId}`
+      );
+    }
+    return charge;
+  }
+
+  private async idempotent<T>(
+    key: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    if (this.idempotentResults.has(key)) {
+      return this.idempotentResults.get(key) as T;
+    }
+
+    const result = await operation();
+    this.idempotentResults.set(key, result);
+    return result;
+  }
+}
@@ -0,0 +1,281 @@
+import fetch from 'node-fetch';
+import {
+  GatewayAuthorizeRequest,
+  GatewayChargeResult,
+  GatewayChargeStatus,
+  GatewayEventType,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayReleaseRequest,
+  GatewayWebhookEvent,
+  PaymentGateway,
+  PaymentGatewayError,
+} from './PaymentGateway';
+import { verifyWebhookSignature } from './webhookSignature';
+import { logger } from '../../../utils/logger';
+
+export interface StripeGatewayConfig {
+  secretKey: string;
+  webhookSecret: string;
+  /** Where Stripe sends the payer back after a 3DS challenge */
+  returnUrl: string;
+  apiBaseUrl?: string;
+  webhookToleranceSeconds?: number;
+}
+
+const PAYMENT_INTENT_STATUS: Record<string, GatewayChargeStatus> = {
+  requires_action: 'requires_action',
+  requires_capture: 'authorized',
+  processing: 'processing',
+  succeeded: 'succeeded',
+  requires_payment_method: 'failed',
+  canceled: 'failed',
+};
+
+/**
+ * Stripe adapter using the PaymentIntents REST API. Escrow holds are
+ * PaymentIntents with manual capture.
+ */
+export class StripePaymentGateway implements PaymentGateway {
+  readonly name = 'stripe';
+  readonly signatureHeader = 'stripe-signature';
+
+  private readonly apiBaseUrl: string;
+
+  constructor(private readonly config: StripeGatewayConfig) {
+    this.apiBaseUrl = config.apiBaseUrl || 'https://api.stripe.com/v1';
+  }
+
+  async authorize(
+    request: GatewayAuthorizeRequest
+  ): Promise<GatewayChargeResult> {
+    const intent = await this.post(
+      '/payment_intents',
+      {
+        amount: this.toMinorUnits(request.amount),
+        currency: request.currency.toLowerCase(),
+        payment_method: request.paymentMethodToken,
+        confirm: 'true',
+        capture_method: request.capture ? 'automatic' : 'manual',
+        return_url: this.config.returnUrl,
+        ...this.encodeMetadata(request.metadata),
+      },
+      request.idempotencyKey
+    );
+
+    return this.toChargeResult(intent);
+  }
+
+  async capture(
+    gatewayTransactionId: string,
+    amount?: number
+  ): Promise<GatewayChargeResult> {
+    const intent = await this.post(
+      `/payment_intents/${encodeURIComponent(gatewayTransactionId)}/capture`,
+      amount !== undefined
+        ? { amount_to_capture: this.toMinorUnits(amount) }
+        : {},
+      `capture_${gatewayTransactionId}`
+    );
+
+    return this.toChargeResult(intent);
+  }
+
+  async release(request: GatewayReleaseRequest): Promise<GatewayChargeResult> {
+    const intent = await this.post(
+      `/payment_intents/${encodeURIComponent(request.gatewayTransactionId)}/capture`,
+      {
+        amount_to_capture: this.toMinorUnits(request.amount),
+        ...this.encodeMetadata({ recipient_id: request.recipientId }),
+      },
+      request.idempotencyKey
+    );
+
+    return this.toChargeResult(intent);
+  }
+
+  async cancel(
+    gatewayTransactionId: string,
+    idempotencyKey: string
+  ): Promise<GatewayChargeResult> {
+    const intent = await this.post(
+      `/payment_intents/${encodeURIComponent(gatewayTransactionId)}/cancel`,
+      {},
+      idempotencyKey
+    );
+
+    return this.toChargeResult(intent);
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const refund = await this.post(
+      '/refunds',
+      {
+        payment_intent: request.gatewayTransactionId,
+        ...(request.amount !== undefined
+          ? { amount: this.toMinorUnits(request.amount) }
+          : {}),
+        ...this.encodeMetadata(
+          request.reason ? { reason: request.reason } : undefined
+        ),
+      },
+      request.idempotencyKey
+    );
+
+    return {
+      refundId: refund.id,
+      amount: refund.amount / 100,
+      partial: request.amount !== undefined,
+    };
+  }
+
+  parseWebhookEvent(
+    rawBody: string,
+    signature: string
+  ): GatewayWebhookEvent | null {
+    verifyWebhookSignature(
+      rawBody,
+      signature,
+      this.config.webhookSecret,
+      this.config.webhookToleranceSeconds
+    );
+
+    const event = JSON.parse(rawBody);
+    const object = event.data?.object || {};
+    let type: GatewayEventType | null = null;
+
+    switch (event.type) {
+      case 'payment_intent.amount_capturable_updated':
+        type = 'payment.authorized';
+        break;
+      case 'payment_intent.succeeded':
+        type = 'payment.succeeded';
+        break;
+      case 'payment_intent.payment_failed':
+        type = 'payment.failed';
+        break;
+      case 'charge.refunded':
+        type = 'refund.succeeded';
+        break;
+      case 'charge.dispute.created':
+        type = 'chargeback.opened';
+        break;
+      case 'charge.dispute.closed':
+        type = object.status === 'won' ? 'chargeback.won' : 'chargeback.lost';
+        break;
+    }
+
+    if (!type) {
+      return null;
+    }
+
+    const amount =
+      type === 'refund.succeeded' ? object.amount_refunded : object.amount;
+
+    return {
+      id: event.id,
+      type,
+      // Charge and dispute objects point back at their PaymentIntent
+      gatewayTransactionId:
+        object.object === 'payment_intent' ? object.id : object.payment_intent,
+      amount: typeof amount === 'number' ? amount / 100 : undefined,
+      occurredAt: new Date(event.created * 1000),
+    };
+  }
+
+  private toChargeResult(intent: any): GatewayChargeResult {
+    return {
+      gatewayTransactionId: intent.id,
+      status: PAYMENT_INTENT_STATUS[intent.status] || 'failed',
+      nextAction: intent.next_action?.redirect_to_url?.url
+        ? {
+            type: 'three_d_secure',
+            redirectUrl: intent.next_action.redirect_to_url.url,
+          }
+        : undefined,
+    };
+  }
+
+  private async post(
+    path: string,
+    params: Record<string, any>,
+    idempotencyKey: string
+  ): Promise<any> {
+    let response;
+    try {
+      response = await fetch(`${this.apiBaseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.secretKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Idempotency-Key': idempotencyKey,
+        },
+        body: new URLSearchParams(
+          Object.entries(params).map(([key, value]): [string, string] => [
+            key,
+            String(value),
+          ])
+        ).toString(),
+      });
+    } catch (error) {
+      throw new PaymentGatewayError(
+        'GATEWAY_UNAVAILABLE',
+        `Stripe request failed: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        true
+      );
+    }
+
+    const body: any = await response.json();
+    if (response.ok) {
+      return body;
+    }
+
+    const stripeError = body?.error || {};
+    logger.warn('Stripe request rejected', {
+      path,
+      status: response.status,
+      type: stripeError.type,
+      code: stripeError.code,
+      declineCode: stripeError.decline_code,
+    });
+
+    if (stripeError.type === 'card_error') {
+      throw new PaymentGatewayError(
+        stripeError.decline_code === 'insufficient_funds'
+          ? 'INSUFFICIENT_FUNDS'
+          : 'CARD_DECLINED',
+        stripeError.message || 'Card was declined',
+        stripeError.decline_code || stripeError.code
+      );
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new PaymentGatewayError(
+        'GATEWAY_UNAVAILABLE',
+        stripeError.message || `Stripe returned ${response.status}`,
+        undefined,
+        true
+      );
+    }
+
+    throw new PaymentGatewayError(
+      'INVALID_REQUEST',
+      stripeError.message || `Stripe returned ${response.status}`
+    );
+  }
+
+  private encodeMetadata(
+    metadata?: Record<string, string>
+  ): Record<string, string> {
+    const encoded: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata || {})) {
+      encoded[`metadata[${key}]`] = value;
+    }
+    return encoded;
+  }
+
+  private toMinorUnits(amount: number): number {
+    return Math.round(amount * 100);
+  }
+}
@@ -0,0 +1,22 @@
+export { PaymentGatewayError } from './PaymentGateway';
+export { StripePaymentGateway } from './StripePaymentGateway';
+export { SandboxPaymentGateway, SANDBOX_TOKENS } from './SandboxPaymentGateway';
+export { signWebhookPayload, verifyWebhookSignature } from './webhookSignature';
+
+export type {
+  PaymentGateway,
+  PaymentGatewayErrorCode,
+  GatewayAuthorizeRequest,
+  GatewayChargeResult,
+  GatewayChargeStatus,
+  GatewayEventType,
+  GatewayReleaseRequest,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayWebhookEvent,
+} from './PaymentGateway';
+export type { StripeGatewayConfig } from './StripePaymentGateway';
+export type {
+  SandboxGatewayConfig,
+  SandboxWebhookDelivery,
+} from './SandboxPaymentGateway';
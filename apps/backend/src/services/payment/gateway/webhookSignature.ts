@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { PaymentGatewayError } from './PaymentGateway';
+
+/** Deliveries older than this are rejected to limit replays */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Sign a webhook payload the way Stripe does: `t=<unix seconds>,v1=<hex hmac>`
+ * where the HMAC-SHA256 covers `<t>.<payload>`.
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a `t=...,v1=...` signature header and its timestamp
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+): void {
+  const parts = (header || '').split(',').map(part => part.trim().split('='));
+  const timestamp = parseInt(parts.find(([key]) => key === 't')?.[1] || '');
+  const signatures = parts
+    .filter(([key]) => key === 'v1')
+    .map(([, value]) => value || '');
+
+  if (isNaN(timestamp) || signatures.length === 0) {
+    throw new PaymentGatewayError(
+      'INVALID_SIGNATURE',
+      'Malformed webhook signature header'
+    );
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    throw new PaymentGatewayError(
+      'INVALID_SIGNATURE',
+      'Webhook timestamp is outside the tolerance window'
+    );
+  }
+
+  const expected = Buffer.from(
+    crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex')
+  );
+  const matches = signatures.some(signature => {
+    const candidate = Buffer.from(signature);
+    return (
+      candidate.length === expected.length &&
+      crypto.timingSafeEqual(candidate, expected)
+    );
+  });
+
+  if (!matches) {
+    throw new PaymentGatewayError(
+      'INVALID_SIGNATURE',
+      'Webhook signature does not match'
+    );
+  }
+}
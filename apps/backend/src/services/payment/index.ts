@@ -2,6 +2,8 @@ export { PaymentProcessingService } from './PaymentProcessingService';
 export { FraudDetectionService } from './FraudDetectionService';
 export { PaymentSecurityService } from './PaymentSecurityService';
 export { PaymentErrorHandler, PaymentError } from './PaymentErrorHandler';
+export { PaymentWebhookService } from './PaymentWebhookService';
+export * from './gateway';
 export {
   EnhancedPaymentTransactionServiceImpl,
   type EnhancedPaymentTransactionService,
@@ -25,6 +27,8 @@ export type {
   PaymentMethodValidationResult
 } from './PaymentSecurityService';
 
+export type { WebhookHandlingResult } from './PaymentWebhookService';
+
 export type {
   PaymentErrorContext,
   ErrorResponse
@@ -32,6 +36,9 @@ export type {
 
   createPaymentProcessingService,
   createEnhancedPaymentTransactionService,
+  createPaymentGateway,
+  createPaymentWebhookService,
   resetPaymentProcessingService,
-  resetEnhancedPaymentTransactionService
+  resetEnhancedPaymentTransactionService,
+  resetPaymentWebhookService
 } from './factory';
\ No newline at end of file
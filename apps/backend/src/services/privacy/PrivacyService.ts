@@ -0,0 +1,366 @@
+import {
+  AccountDeletionCheck,
+  DataExportRequest,
+  PrivacyError,
+  PrivacyErrorCodes,
+} from '@booking-swap/shared';
+import {
+  DataExportRecord,
+  PersonalDataSections,
+  PrivacyRepository,
+} from '../../database/repositories/PrivacyRepository';
+import { FileStore } from '../storage/FileStore';
+import { NotificationService } from '../notification/NotificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+import { ArchiveEntry, buildZip, toCsv } from './archive';
+
+/** Text the user has to send to confirm deleting their account */
+export const ACCOUNT_DELETION_CONFIRMATION = 'DELETE';
+
+export interface PrivacyServiceOptions {
+  /** How long a finished export can be downloaded */
+  exportTtlHours: number;
+  /** Exports listed per user, newest first */
+  exportHistoryLimit: number;
+  /** How often expired archives are removed */
+  cleanupIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: PrivacyServiceOptions = {
+  exportTtlHours: 72,
+  exportHistoryLimit: 10,
+  cleanupIntervalMs: 60 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// CSV file per section, in archive order
+const SECTION_FILES: Array<[keyof PersonalDataSections, string]> = [
+  ['profile', 'profile.csv'],
+  ['bookings', 'bookings.csv'],
+  ['swaps', 'swaps.csv'],
+  ['proposals', 'proposals.csv'],
+  ['auctionProposals', 'auction-proposals.csv'],
+  ['payments', 'payments.csv'],
+  ['notifications', 'notifications.csv'],
+  ['targetingHistory', 'targeting-history.csv'],
+];
+
+const README = [
+  'Booking Swap personal data export',
+  '',
+  'data.json holds everything in this archive in one file. The CSV files',
+  'hold the same records, one file per section, for spreadsheet apps:',
+  '',
+  '  profile.csv            Your account and preferences',
+  '  bookings.csv           Bookings you listed or transferred through a swap',
+  '  swaps.csv              Swaps of your bookings',
+  '  proposals.csv          Swap proposals you made or received',
+  '  auction-proposals.csv  Proposals you made in auctions',
+  '  payments.csv           Payments you made or received, with escrow status',
+  '  notifications.csv      Notifications sent to you',
+  '  targeting-history.csv  Targeting actions on your swaps',
+  '',
+].join('\r\n');
+
+const toRequest = ({
+  fileKey: _fileKey,
+  ...request
+}: DataExportRecord): DataExportRequest => request;
+
+/**
+ * Self-service personal data exports and account deletion.
+ *
+ * Exports are built by a background job into a ZIP archive of JSON and CSV
+ * files, kept in the file store until they expire.
+ *
+ * Deleting an account does not delete the users row: swaps, payments,
+ * reviews and their blockchain references must stay intact for the other
+ * party and for financial audits. Instead, deletion waits until nothing is
+ * in flight, then clears contact details, wallet, credentials, integrations
+ * and notifications, cancels open listings, and renames the account so it
+ * shows as a deleted user wherever it is still referenced.
+ */
+export class PrivacyService {
+  private readonly options: PrivacyServiceOptions;
+
+  constructor(
+    private readonly privacyRepository: PrivacyRepository,
+    private readonly fileStore: FileStore,
+    private readonly jobScheduler: JobScheduler,
+    private readonly notificationService?: NotificationService,
+    options: Partial<PrivacyServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  registerJobHandlers(): void {
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.DATA_EXPORT_GENERATE,
+      async job => {
+        await this.generateExport(job.payload.exportId);
+      }
+    );
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.DATA_EXPORT_CLEANUP,
+      async () => {
+        await this.cleanupExpiredExports();
+      },
+      { intervalMs: this.options.cleanupIntervalMs }
+    );
+  }
+
+  /**
+   * Queue an export of the user's data. If one is already queued or being
+   * built, that request is returned instead.
+   */
+  async requestExport(userId: string): Promise<DataExportRequest> {
+    const active = await this.privacyRepository.findActiveExport(userId);
+    if (active) {
+      return toRequest(active);
+    }
+
+    const request = await this.privacyRepository.createExport(userId);
+    await this.jobScheduler.schedule(
+      SCHEDULED_JOB_TYPES.DATA_EXPORT_GENERATE,
+      { exportId: request.id },
+      { dedupKey: `data-export:${request.id}`, maxAttempts: 1 }
+    );
+
+    logger.info('Data export requested', { exportId: request.id, userId });
+    return toRequest(request);
+  }
+
+  async listExports(userId: string): Promise<DataExportRequest[]> {
+    const exports = await this.privacyRepository.findExportsByUserId(
+      userId,
+      this.options.exportHistoryLimit
+    );
+    return exports.map(toRequest);
+  }
+
+  async getExport(
+    userId: string,
+    exportId: string
+  ): Promise<DataExportRequest> {
+    return toRequest(await this.findOwnExport(userId, exportId));
+  }
+
+  /**
+   * The finished archive, while it has not expired
+   */
+  async downloadExport(
+    userId: string,
+    exportId: string
+  ): Promise<{ fileName: string; data: Buffer }> {
+    const request = await this.findOwnExport(userId, exportId);
+
+    if (
+      request.status === 'expired' ||
+      (request.expiresAt && request.expiresAt.getTime() <= Date.now())
+    ) {
+      throw new PrivacyError(
+        PrivacyErrorCodes.DATA_EXPORT_EXPIRED,
+        'This export has expired; request a new one'
+      );
+    }
+    if (request.status !== 'ready' || !request.fileKey) {
+      throw new PrivacyError(
+        PrivacyErrorCodes.DATA_EXPORT_NOT_READY,
+        'This export is not ready yet',
+        { status: request.status }
+      );
+    }
+
+    const data = await this.fileStore.get(request.fileKey);
+    if (!data) {
+      throw new PrivacyError(
+        PrivacyErrorCodes.DATA_EXPORT_EXPIRED,
+        'This export is no longer available; request a new one'
+      );
+    }
+
+    const date = (request.completedAt || request.createdAt)
+      .toISOString()
+      .slice(0, 10);
+    return { fileName: `booking-swap-data-${date}.zip`, data };
+  }
+
+  /**
+   * Build the archive for a queued export. Returns null if the export is no
+   * longer queued.
+   */
+  async generateExport(exportId: string): Promise<DataExportRequest | null> {
+    const request = await this.privacyRepository.startExport(exportId);
+    if (!request) {
+      return null;
+    }
+
+    try {
+      const sections = await this.privacyRepository.findPersonalData(
+        request.userId
+      );
+      const exportedAt = new Date();
+      const archive = this.buildArchive(request.userId, sections, exportedAt);
+
+      const fileKey = `data-exports/${request.userId}/${exportId}.zip`;
+      await this.fileStore.put(fileKey, archive);
+
+      const expiresAt = new Date(
+        exportedAt.getTime() + this.options.exportTtlHours * HOUR_MS
+      );
+      const ready = await this.privacyRepository.completeExport(
+        exportId,
+        fileKey,
+        archive.length,
+        expiresAt
+      );
+
+      logger.info('Data export ready', {
+        exportId,
+        userId: request.userId,
+        fileSize: archive.length,
+      });
+      await this.notifyExportReady(ready);
+      return toRequest(ready);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Data export failed', { exportId, error: message });
+      return toRequest(
+        await this.privacyRepository.failExport(exportId, message)
+      );
+    }
+  }
+
+  /**
+   * Expire downloadable exports past their expiry and remove their archives
+   */
+  async cleanupExpiredExports(now: Date = new Date()): Promise<number> {
+    const fileKeys = await this.privacyRepository.expireExports(now);
+    await this.deleteFiles(fileKeys);
+
+    if (fileKeys.length > 0) {
+      logger.info('Expired data exports removed', { count: fileKeys.length });
+    }
+    return fileKeys.length;
+  }
+
+  /**
+   * Whether the account can be deleted now, and if not, what is still in
+   * flight
+   */
+  async checkAccountDeletion(userId: string): Promise<AccountDeletionCheck> {
+    const blockers = await this.privacyRepository.findDeletionBlockers(userId);
+    return { canDelete: blockers.length === 0, blockers };
+  }
+
+  async deleteAccount(userId: string, confirmation?: string): Promise<void> {
+    if (confirmation !== ACCOUNT_DELETION_CONFIRMATION) {
+      throw new PrivacyError(
+        PrivacyErrorCodes.ACCOUNT_DELETION_CONFIRMATION_REQUIRED,
+        `Send confirmation "${ACCOUNT_DELETION_CONFIRMATION}" to delete the account`
+      );
+    }
+
+    const outcome = await this.privacyRepository.anonymizeUser(userId);
+    if (outcome.status === 'not_found') {
+      throw new PrivacyError(
+        PrivacyErrorCodes.ACCOUNT_ALREADY_DELETED,
+        'This account has already been deleted'
+      );
+    }
+    if (outcome.status === 'blocked') {
+      throw new PrivacyError(
+        PrivacyErrorCodes.ACCOUNT_DELETION_BLOCKED,
+        'The account cannot be deleted while swaps, payments or disputes are in progress',
+        { blockers: outcome.blockers }
+      );
+    }
+
+    await this.deleteFiles([
+      ...outcome.exportFileKeys,
+      ...outcome.attachmentFileKeys,
+    ]);
+
+    logger.info('Account deleted and anonymized', {
+      userId,
+      cancelledBookings: outcome.cancelledBookings,
+      cancelledSwaps: outcome.cancelledSwaps,
+    });
+  }
+
+  private async findOwnExport(
+    userId: string,
+    exportId: string
+  ): Promise<DataExportRecord> {
+    const request = await this.privacyRepository.findExportById(exportId);
+    if (!request || request.userId !== userId) {
+      throw new PrivacyError(
+        PrivacyErrorCodes.DATA_EXPORT_NOT_FOUND,
+        'Data export not found'
+      );
+    }
+    return request;
+  }
+
+  private buildArchive(
+    userId: string,
+    sections: PersonalDataSections,
+    exportedAt: Date
+  ): Buffer {
+    const entries: ArchiveEntry[] = [
+      { name: 'README.txt', data: README },
+      {
+        name: 'data.json',
+        data: JSON.stringify(
+          { exportedAt: exportedAt.toISOString(), userId, ...sections },
+          null,
+          2
+        ),
+      },
+      ...SECTION_FILES.map(([section, name]) => ({
+        name,
+        data: toCsv(sections[section]),
+      })),
+    ];
+
+    return buildZip(entries, exportedAt);
+  }
+
+  private async notifyExportReady(request: DataExportRecord): Promise<void> {
+    if (!this.notificationService) {
+      return;
+    }
+    try {
+      await this.notificationService.sendNotification(
+        'data_export_ready',
+        request.userId,
+        {
+          exportId: request.id,
+          expiresAt: request.expiresAt?.toUTCString(),
+        }
+      );
+    } catch (error) {
+      logger.warn('Failed to send data export notification', {
+        exportId: request.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Archives are removed best effort; a leftover file is never served again
+  private async deleteFiles(fileKeys: string[]): Promise<void> {
+    for (const fileKey of fileKeys) {
+      try {
+        await this.fileStore.delete(fileKey);
+      } catch (error) {
+        logger.warn('Failed to delete stored file', {
+          fileKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import zlib from 'zlib';
+import { PrivacyError, PrivacyErrorCodes } from '@booking-swap/shared';
+import { PrivacyService } from '../PrivacyService';
+import { SCHEDULED_JOB_TYPES } from '../../scheduler/JobScheduler';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const USER = 'user-1';
+
+const exportRecord = (overrides: Record<string, any> = {}) => ({
+  id: 'export-1',
+  userId: USER,
+  status: 'queued',
+  createdAt: new Date('2025-02-12T10:00:00Z'),
+  updatedAt: new Date('2025-02-12T10:00:00Z'),
+  ...overrides,
+});
+
+const sections = () => ({
+  profile: [{ id: USER, email: 'ana@example.com', display_name: 'Ana' }],
+  bookings: [{ id: 'booking-1', title: 'Paris, "Left Bank"' }],
+  swaps: [],
+  proposals: [],
+  auctionProposals: [],
+  payments: [{ id: 'payment-1', amount: '120.00', escrow_status: 'released' }],
+  notifications: [],
+  targetingHistory: [],
+});
+
+// File names and contents of a ZIP archive written by buildZip
+const unzip = (archive: Buffer): Record<string, string> => {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString(
+      'utf8',
+      offset + 30,
+      offset + 30 + nameLength
+    );
+    const start = offset + 30 + nameLength;
+    files[name] = zlib
+      .inflateRawSync(archive.subarray(start, start + compressedSize))
+      .toString('utf8');
+    offset = start + compressedSize;
+  }
+  return files;
+};
+
+describe('PrivacyService', () => {
+  let repository: any;
+  let fileStore: any;
+  let jobScheduler: any;
+  let notificationService: any;
+  let service: PrivacyService;
+
+  beforeEach(() => {
+    repository = {
+      createExport: vi.fn().mockResolvedValue(exportRecord()),
+      startExport: vi
+        .fn()
+        .mockResolvedValue(exportRecord({ status: 'processing' })),
+      completeExport: vi
+        .fn()
+        .mockImplementation(async (id, fileKey, fileSize, expiresAt) =>
+          exportRecord({ id, status: 'ready', fileKey, fileSize, expiresAt })
+        ),
+      failExport: vi
+        .fn()
+        .mockImplementation(async (id, error) =>
+          exportRecord({ id, status: 'failed', error })
+        ),
+      findExportById: vi.fn().mockResolvedValue(null),
+      findActiveExport: vi.fn().mockResolvedValue(null),
+      findExportsByUserId: vi.fn().mockResolvedValue([]),
+      expireExports: vi.fn().mockResolvedValue([]),
+      findPersonalData: vi.fn().mockResolvedValue(sections()),
+      findDeletionBlockers: vi.fn().mockResolvedValue([]),
+      anonymizeUser: vi.fn().mockResolvedValue({
+        status: 'anonymized',
+        cancelledBookings: 1,
+        cancelledSwaps: 1,
+        exportFileKeys: [],
+        attachmentFileKeys: [],
+      }),
+    };
+    fileStore = {
+      name: 'memory',
+      put: vi.fn(),
+      get: vi.fn().mockResolvedValue(null),
+      delete: vi.fn(),
+    };
+    jobScheduler = {
+      registerHandler: vi.fn(),
+      schedule: vi.fn(),
+    };
+    notificationService = {
+      sendNotification: vi.fn(),
+    };
+    service = new PrivacyService(
+      repository,
+      fileStore,
+      jobScheduler,
+      notificationService,
+      { exportTtlHours: 48 }
+    );
+  });
+
+  describe('exports', () => {
+    it('queues a job to build a requested export', async () => {
+      const request = await service.requestExport(USER);
+
+      expect(request.status).toBe('queued');
+      expect(jobScheduler.schedule).toHaveBeenCalledWith(
+        SCHEDULED_JOB_TYPES.DATA_EXPORT_GENERATE,
+        { exportId: 'export-1' },
+        expect.objectContaining({ dedupKey: 'data-export:export-1' })
+      );
+    });
+
+    it('returns the export in progress instead of queueing another', async () => {
+      repository.findActiveExport.mockResolvedValue(
+        exportRecord({ id: 'export-0', status: 'processing' })
+      );
+
+      const request = await service.requestExport(USER);
+
+      expect(request.id).toBe('export-0');
+      expect(repository.createExport).not.toHaveBeenCalled();
+      expect(jobScheduler.schedule).not.toHaveBeenCalled();
+    });
+
+    it('stores an archive of JSON and CSV files and notifies the user', async () => {
+      const result = await service.generateExport('export-1');
+
+      expect(result?.status).toBe('ready');
+      expect(result).not.toHaveProperty('fileKey');
+
+      const [fileKey, archive] = fileStore.put.mock.calls[0];
+      expect(fileKey).toBe(`data-exports/${USER}/export-1.zip`);
+
+      const files = unzip(archive);
+      expect(Object.keys(files)).toEqual([
+        'README.txt',
+        'data.json',
+        'profile.csv',
+        'bookings.csv',
+        'swaps.csv',
+        'proposals.csv',
+        'auction-proposals.csv',
+        'payments.csv',
+        'notifications.csv',
+        'targeting-history.csv',
+      ]);
+
+      const data = JSON.parse(files['data.json']!);
+      expect(data.userId).toBe(USER);
+      expect(data.profile[0].email).toBe('ana@example.com');
+      expect(data.payments[0].escrow_status).toBe('released');
+      expect(files['bookings.csv']).toContain(
+        'booking-1,"Paris, ""Left Bank"""'
+      );
+
+      const [, , fileSize, expiresAt] = repository.completeExport.mock.calls[0];
+      expect(fileSize).toBe(archive.length);
+      expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(
+        47 * 3600 * 1000
+      );
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'data_export_ready',
+        USER,
+        expect.objectContaining({ exportId: 'export-1' })
+      );
+    });
+
+    it('does nothing for exports that are no longer queued', async () => {
+      repository.startExport.mockResolvedValue(null);
+
+      expect(await service.generateExport('export-1')).toBeNull();
+      expect(repository.findPersonalData).not.toHaveBeenCalled();
+    });
+
+    it('marks the export failed when it cannot be built', async () => {
+      repository.findPersonalData.mockRejectedValue(
+        new Error('connection lost')
+      );
+
+      const result = await service.generateExport('export-1');
+
+      expect(result?.status).toBe('failed');
+      expect(repository.failExport).toHaveBeenCalledWith(
+        'export-1',
+        'connection lost'
+      );
+      expect(fileStore.put).not.toHaveBeenCalled();
+    });
+
+    it("hides other users' exports", async () => {
+      repository.findExportById.mockResolvedValue(
+        exportRecord({ userId: 'user-2' })
+      );
+
+      await expect(service.getExport(USER, 'export-1')).rejects.toMatchObject({
+        code: PrivacyErrorCodes.DATA_EXPORT_NOT_FOUND,
+      });
+    });
+
+    it('serves a ready archive', async () => {
+      repository.findExportById.mockResolvedValue(
+        exportRecord({
+          status: 'ready',
+          fileKey: 'data-exports/user-1/export-1.zip',
+          completedAt: new Date('2025-02-12T10:05:00Z'),
+          expiresAt: new Date(Date.now() + 3600 * 1000),
+        })
+      );
+      fileStore.get.mockResolvedValue(Buffer.from('zip'));
+
+      const download = await service.downloadExport(USER, 'export-1');
+
+      expect(download.fileName).toBe('booking-swap-data-2025-02-12.zip');
+      expect(download.data.toString()).toBe('zip');
+    });
+
+    it('refuses to serve exports that are not ready or have expired', async () => {
+      repository.findExportById.mockResolvedValueOnce(
+        exportRecord({ status: 'processing' })
+      );
+      await expect(
+        service.downloadExport(USER, 'export-1')
+      ).rejects.toMatchObject({
+        code: PrivacyErrorCodes.DATA_EXPORT_NOT_READY,
+      });
+
+      repository.findExportById.mockResolvedValueOnce(
+        exportRecord({
+          status: 'ready',
+          fileKey: 'key',
+          expiresAt: new Date(Date.now() - 1000),
+        })
+      );
+      await expect(
+        service.downloadExport(USER, 'export-1')
+      ).rejects.toMatchObject({
+        code: PrivacyErrorCodes.DATA_EXPORT_EXPIRED,
+      });
+      expect(fileStore.get).not.toHaveBeenCalled();
+    });
+
+    it('removes the archives of expired exports', async () => {
+      repository.expireExports.mockResolvedValue(['a.zip', 'b.zip']);
+      fileStore.delete.mockRejectedValueOnce(new Error('disk error'));
+
+      expect(await service.cleanupExpiredExports()).toBe(2);
+      expect(fileStore.delete).toHaveBeenCalledWith('a.zip');
+      expect(fileStore.delete).toHaveBeenCalledWith('b.zip');
+    });
+
+    it('registers the build job and the recurring cleanup', () => {
+      service.registerJobHandlers();
+
+      expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+        SCHEDULED_JOB_TYPES.DATA_EXPORT_GENERATE,
+        expect.any(Function)
+      );
+      expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+        SCHEDULED_JOB_TYPES.DATA_EXPORT_CLEANUP,
+        expect.any(Function),
+        { intervalMs: 60 * 60 * 1000 }
+      );
+    });
+  });
+
+  describe('account deletion', () => {
+    const blocker = {
+      kind: 'escrow_funded',
+      ids: ['escrow-1'],
+      message: 'Escrowed funds have not been released or refunded',
+    };
+
+    it('reports what is still in flight', async () => {
+      repository.findDeletionBlockers.mockResolvedValue([blocker]);
+
+      expect(await service.checkAccountDeletion(USER)).toEqual({
+        canDelete: false,
+        blockers: [blocker],
+      });
+    });
+
+    it('requires explicit confirmation', async () => {
+      await expect(service.deleteAccount(USER, 'yes')).rejects.toMatchObject({
+        code: PrivacyErrorCodes.ACCOUNT_DELETION_CONFIRMATION_REQUIRED,
+      });
+      expect(repository.anonymizeUser).not.toHaveBeenCalled();
+    });
+
+    it('anonymizes the account and removes its export archives and attachments', async () => {
+      repository.anonymizeUser.mockResolvedValue({
+        status: 'anonymized',
+        cancelledBookings: 2,
+        cancelledSwaps: 1,
+        exportFileKeys: ['data-exports/user-1/export-1.zip'],
+        attachmentFileKeys: ['conversations/conversation-1/photo.jpg'],
+      });
+
+      await service.deleteAccount(USER, 'DELETE');
+
+      expect(repository.anonymizeUser).toHaveBeenCalledWith(USER);
+      expect(fileStore.delete).toHaveBeenCalledWith(
+        'data-exports/user-1/export-1.zip'
+      );
+      expect(fileStore.delete).toHaveBeenCalledWith(
+        'conversations/conversation-1/photo.jpg'
+      );
+    });
+
+    it('refuses while swaps, escrows or disputes are in flight', async () => {
+      repository.anonymizeUser.mockResolvedValue({
+        status: 'blocked',
+        blockers: [blocker],
+      });
+
+      const error = await service
+        .deleteAccount(USER, 'DELETE')
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(PrivacyError);
+      expect(error.code).toBe(PrivacyErrorCodes.ACCOUNT_DELETION_BLOCKED);
+      expect(error.details).toEqual({ blockers: [blocker] });
+    });
+
+    it('reports accounts that are already deleted', async () => {
+      repository.anonymizeUser.mockResolvedValue({ status: 'not_found' });
+
+      await expect(service.deleteAccount(USER, 'DELETE')).rejects.toMatchObject(
+        {
+          code: PrivacyErrorCodes.ACCOUNT_ALREADY_DELETED,
+        }
+      );
+    });
+  });
+});
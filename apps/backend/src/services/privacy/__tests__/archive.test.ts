@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'zlib';
+import { buildZip, crc32, toCsv } from '../archive';
+
+// Read entries back through the central directory, as archive tools do
+const readZip = (archive: Buffer): Record<string, string> => {
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const checksum = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString(
+      'utf8',
+      offset + 46,
+      offset + 46 + nameLength
+    );
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = zlib.inflateRawSync(
+      archive.subarray(dataStart, dataStart + compressedSize)
+    );
+    expect(crc32(data)).toBe(checksum);
+
+    files[name] = data.toString('utf8');
+    offset += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('archive', () => {
+  describe('crc32', () => {
+    it('matches the standard check value', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('buildZip', () => {
+    it('writes deflated entries that read back unchanged', () => {
+      const archive = buildZip(
+        [
+          { name: 'data.json', data: JSON.stringify({ hello: 'world' }) },
+          { name: 'café.csv', data: Buffer.from('a,b\r\n1,2\r\n') },
+        ],
+        new Date(2025, 1, 12, 9, 30, 10)
+      );
+
+      expect(readZip(archive)).toEqual({
+        'data.json': '{"hello":"world"}',
+        'café.csv': 'a,b\r\n1,2\r\n',
+      });
+    });
+
+    it('stores the modification time in MS-DOS format', () => {
+      const archive = buildZip(
+        [{ name: 'a.txt', data: 'a' }],
+        new Date(2025, 1, 12, 9, 30, 10)
+      );
+
+      expect(archive.readUInt16LE(10)).toBe((9 << 11) | (30 << 5) | 5);
+      expect(archive.readUInt16LE(12)).toBe((45 << 9) | (2 << 5) | 12);
+    });
+  });
+
+  describe('toCsv', () => {
+    const lines = (csv: string) => csv.replace(/^\uFEFF/, '').split('\r\n');
+
+    it('writes a header from the union of row keys', () => {
+      expect(
+        lines(
+          toCsv([
+            { id: 1, name: 'a' },
+            { id: 2, city: 'Paris' },
+          ])
+        )
+      ).toEqual(['id,name,city', '1,a,', '2,,Paris', '']);
+    });
+
+    it('quotes cells with separators, quotes and line breaks', () => {
+      expect(lines(toCsv([{ text: 'a, "b"\nc' }]))[1]).toBe('"a, ""b""\nc"');
+    });
+
+    it('writes dates as ISO strings and nested values as JSON', () => {
+      const [, row] = lines(
+        toCsv([
+          {
+            at: new Date('2025-02-12T10:00:00Z'),
+            data: { a: 1, b: [2] },
+          },
+        ])
+      );
+      expect(row).toBe('2025-02-12T10:00:00.000Z,"{""a"":1,""b"":[2]}"');
+    });
+
+    it('neutralizes cells that spreadsheet apps would run as formulas', () => {
+      const [, row] = lines(
+        toCsv([{ a: '=HYPERLINK("x")', b: '-12.50', c: '@cmd' }])
+      );
+      expect(row).toBe(`"'=HYPERLINK(""x"")",-12.50,'@cmd`);
+    });
+
+    it('starts with a byte order mark', () => {
+      expect(toCsv([]).charCodeAt(0)).toBe(0xfeff);
+    });
+  });
+});
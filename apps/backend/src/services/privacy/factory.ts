@@ -0,0 +1,32 @@
+import { Pool } from 'pg';
+import { PrivacyService } from './PrivacyService';
+import { PrivacyRepository } from '../../database/repositories/PrivacyRepository';
+import { createFileStore } from '../storage/factory';
+import { createJobScheduler } from '../scheduler/factory';
+import { createNotificationService } from '../notification/factory';
+
+let privacyService: PrivacyService | null = null;
+
+export function createPrivacyService(pool: Pool): PrivacyService {
+  if (!privacyService) {
+    privacyService = new PrivacyService(
+      new PrivacyRepository(pool),
+      createFileStore(),
+      createJobScheduler(pool),
+      createNotificationService(pool),
+      {
+        exportTtlHours: parseInt(process.env.DATA_EXPORT_TTL_HOURS || '72'),
+        cleanupIntervalMs: parseInt(
+          process.env.DATA_EXPORT_CLEANUP_INTERVAL_MS || '3600000'
+        ),
+      }
+    );
+    privacyService.registerJobHandlers();
+  }
+
+  return privacyService;
+}
+
+export function resetPrivacyService(): void {
+  privacyService = null;
+}
@@ -0,0 +1,8 @@
+export {
+  PrivacyService,
+  ACCOUNT_DELETION_CONFIRMATION,
+} from './PrivacyService';
+export type { PrivacyServiceOptions } from './PrivacyService';
+export { createPrivacyService, resetPrivacyService } from './factory';
+export { buildZip, toCsv } from './archive';
+export type { ArchiveEntry } from './archive';
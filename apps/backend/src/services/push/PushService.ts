@@ -0,0 +1,410 @@
+import {
+  NotificationData,
+  NotificationDeliveryResult,
+  NotificationType,
+  PUSH_NOTIFICATION_TYPES,
+  PushError,
+  PushErrorCodes,
+  PushNotificationData,
+  PushPreferences,
+  PushSubscriptionRegistration,
+  WebPushSubscription,
+} from '@booking-swap/shared';
+import {
+  PushSubscriptionRecord,
+  PushSubscriptionRepository,
+} from '../../database/repositories/PushSubscriptionRepository';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { describeDevice } from '../auth/SessionService';
+import { logger } from '../../utils/logger';
+import {
+  PushUrgency,
+  VapidDetails,
+  isP256PublicKey,
+  sendPushMessage,
+} from './webPush';
+import {
+  WebhookFetch,
+  createPinnedFetch,
+  hostnameAddress,
+  isPublicAddress,
+} from '../webhook/pinnedFetch';
+
+export interface PushServiceOptions {
+  /** How long push services keep a message for a device that is offline */
+  ttlSeconds: number;
+  /** Failed deliveries in a row before a subscription is pruned */
+  maxFailures: number;
+  /** How often expired and failing subscriptions are pruned */
+  pruneIntervalMs: number;
+  /** Notification bodies are cut to this many characters */
+  maxBodyLength: number;
+}
+
+const DEFAULT_OPTIONS: PushServiceOptions = {
+  ttlSeconds: 24 * 60 * 60,
+  maxFailures: 5,
+  pruneIntervalMs: 6 * 60 * 60 * 1000,
+  maxBodyLength: 240,
+};
+
+const DEFAULT_PREFERENCES: PushPreferences = { push: true, pushTypes: [] };
+
+// Types that need a response soon are delivered ahead of other traffic
+const HIGH_URGENCY_TYPES: NotificationType[] = [
+  'swap_proposal',
+  'browse_proposal_received',
+  'targeting_received',
+  'proposal_countered',
+  'proposal_payment_failed',
+];
+
+// Push services answer these when a subscription no longer exists
+const GONE_STATUSES = [404, 410];
+
+const toSubscription = ({
+  p256dh: _p256dh,
+  auth: _auth,
+  userAgent: _userAgent,
+  failureCount: _failureCount,
+  ...subscription
+}: PushSubscriptionRecord): WebPushSubscription => subscription;
+
+/**
+ * Page a push notification opens: the swap or booking it is about, falling
+ * back to the dashboard
+ */
+export function notificationUrl(data: NotificationData): string {
+  const swapId = data.swapId || data.targetSwapId;
+  if (typeof swapId === 'string' && swapId) {
+    return `/swaps/${encodeURIComponent(swapId)}`;
+  }
+  if (typeof data.bookingId === 'string' && data.bookingId) {
+    return `/bookings/${encodeURIComponent(data.bookingId)}`;
+  }
+  return '/dashboard';
+}
+
+/**
+ * Web Push notifications to the browsers a user registered.
+ *
+ * Push is opt-in per notification type. Each device subscribes separately;
+ * a message is sent to every subscription of the user, and counts as
+ * delivered if at least one push service accepts it. Subscriptions the push
+ * service reports as gone are removed straight away, and those that expire
+ * or keep failing are pruned by a recurring job.
+ *
+ * Without VAPID keys the service stays disabled: registration is refused and
+ * no push notifications are sent.
+ */
+export class PushService {
+  private readonly options: PushServiceOptions;
+  private readonly fetch: WebhookFetch;
+
+  constructor(
+    private readonly pushSubscriptionRepository: PushSubscriptionRepository,
+    private readonly jobScheduler: JobScheduler,
+    private readonly vapid: VapidDetails | null,
+    options: Partial<PushServiceOptions> = {},
+    fetch?: WebhookFetch
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    // Endpoints come from browsers; hosts are resolved and checked on every send
+    this.fetch = fetch || createPinnedFetch({ allowPrivateAddresses: false });
+  }
+
+  registerJobHandlers(): void {
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.PUSH_SUBSCRIPTION_PRUNE,
+      async () => {
+        await this.pruneSubscriptions();
+      },
+      { intervalMs: this.options.pruneIntervalMs }
+    );
+  }
+
+  isConfigured(): boolean {
+    return this.vapid !== null;
+  }
+
+  /**
+   * Key browsers need to subscribe (the applicationServerKey)
+   */
+  getPublicKey(): string {
+    return this.requireVapid().publicKey;
+  }
+
+  /**
+   * Register this device's subscription, or refresh it when the browser
+   * subscribes again
+   */
+  async subscribe(
+    userId: string,
+    registration: PushSubscriptionRegistration,
+    userAgent?: string
+  ): Promise<WebPushSubscription> {
+    this.requireVapid();
+    this.validateRegistration(registration);
+
+    const subscription = await this.pushSubscriptionRepository.saveSubscription(
+      userId,
+      {
+        endpoint: registration.endpoint,
+        p256dh: registration.keys.p256dh,
+        auth: registration.keys.auth,
+        deviceName: describeDevice(userAgent),
+        userAgent,
+        expiresAt: registration.expirationTime
+          ? new Date(registration.expirationTime)
+          : undefined,
+      }
+    );
+
+    logger.info('Push subscription registered', {
+      userId,
+      subscriptionId: subscription.id,
+    });
+    return toSubscription(subscription);
+  }
+
+  async listSubscriptions(userId: string): Promise<WebPushSubscription[]> {
+    const subscriptions =
+      await this.pushSubscriptionRepository.findByUserId(userId);
+    return subscriptions.map(toSubscription);
+  }
+
+  async unsubscribe(userId: string, subscriptionId: string): Promise<void> {
+    const deleted = await this.pushSubscriptionRepository.deleteSubscription(
+      userId,
+      subscriptionId
+    );
+    if (!deleted) {
+      throw new PushError(
+        PushErrorCodes.SUBSCRIPTION_NOT_FOUND,
+        'Push subscription not found'
+      );
+    }
+  }
+
+  /**
+   * Remove the subscription of the calling browser, which knows its endpoint
+   * but not the subscription id. Succeeds if it was already gone.
+   */
+  async unsubscribeEndpoint(userId: string, endpoint: string): Promise<void> {
+    await this.pushSubscriptionRepository.deleteByEndpoint(userId, endpoint);
+  }
+
+  async getPreferences(userId: string): Promise<PushPreferences> {
+    return (
+      (await this.pushSubscriptionRepository.findPreferences(userId)) ||
+      DEFAULT_PREFERENCES
+    );
+  }
+
+  async updatePreferences(
+    userId: string,
+    update: Partial<PushPreferences>
+  ): Promise<PushPreferences> {
+    if (update.pushTypes !== undefined) {
+      const invalid = Array.isArray(update.pushTypes)
+        ? update.pushTypes.filter(
+            type => !PUSH_NOTIFICATION_TYPES.includes(type)
+          )
+        : [String(update.pushTypes)];
+      if (invalid.length > 0) {
+        throw new PushError(
+          PushErrorCodes.INVALID_NOTIFICATION_TYPE,
+          'These notification types cannot be sent as push notifications',
+          { invalidTypes: invalid, allowedTypes: PUSH_NOTIFICATION_TYPES }
+        );
+      }
+    }
+
+    const current = await this.getPreferences(userId);
+    return this.pushSubscriptionRepository.savePreferences(userId, {
+      push: update.push ?? current.push,
+      pushTypes: update.pushTypes
+        ? Array.from(new Set(update.pushTypes))
+        : current.pushTypes,
+    });
+  }
+
+  /**
+   * Whether the user wants notifications of this type as push notifications
+   * and has a device to receive them
+   */
+  async isEnabledFor(userId: string, type: NotificationType): Promise<boolean> {
+    if (!this.vapid) {
+      return false;
+    }
+    const preferences = await this.getPreferences(userId);
+    if (!preferences.push || !preferences.pushTypes.includes(type)) {
+      return false;
+    }
+    return this.pushSubscriptionRepository.hasSubscriptions(userId);
+  }
+
+  /**
+   * Send a notification to every device the user subscribed
+   */
+  async sendToUser(
+    userId: string,
+    type: NotificationType,
+    notification: PushNotificationData
+  ): Promise<NotificationDeliveryResult> {
+    if (!this.vapid) {
+      return this.failure('Push notifications are not configured');
+    }
+
+    const subscriptions =
+      await this.pushSubscriptionRepository.findByUserId(userId);
+    if (subscriptions.length === 0) {
+      return this.failure('No push subscriptions for user');
+    }
+
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: this.truncate(notification.body),
+      data: notification.data,
+    });
+    const urgency: PushUrgency = HIGH_URGENCY_TYPES.includes(type)
+      ? 'high'
+      : 'normal';
+
+    const messageIds: string[] = [];
+    const errors: string[] = [];
+    for (const subscription of subscriptions) {
+      const outcome = await this.deliver(subscription, payload, urgency);
+      if (outcome.delivered) {
+        messageIds.push(outcome.messageId || subscription.id);
+      } else {
+        errors.push(outcome.error);
+      }
+    }
+
+    if (messageIds.length === 0) {
+      return this.failure(errors.join('; '));
+    }
+    return {
+      success: true,
+      messageId: messageIds[0],
+      deliveredAt: new Date(),
+    };
+  }
+
+  /**
+   * Remove subscriptions that have expired or keep failing
+   */
+  async pruneSubscriptions(now: Date = new Date()): Promise<number> {
+    const removed = await this.pushSubscriptionRepository.deleteStale(
+      now,
+      this.options.maxFailures
+    );
+    if (removed > 0) {
+      logger.info('Stale push subscriptions removed', { count: removed });
+    }
+    return removed;
+  }
+
+  private async deliver(
+    subscription: PushSubscriptionRecord,
+    payload: string,
+    urgency: PushUrgency
+  ): Promise<
+    | { delivered: true; messageId?: string }
+    | { delivered: false; error: string }
+  > {
+    try {
+      const result = await sendPushMessage(
+        subscription,
+        payload,
+        this.vapid!,
+        { ttlSeconds: this.options.ttlSeconds, urgency },
+        this.fetch
+      );
+
+      if (result.statusCode >= 200 && result.statusCode < 300) {
+        await this.pushSubscriptionRepository.recordSuccess(subscription.id);
+        return { delivered: true, messageId: result.messageId };
+      }
+
+      if (GONE_STATUSES.includes(result.statusCode)) {
+        await this.pushSubscriptionRepository.deleteById(subscription.id);
+        logger.info('Push subscription gone, removed', {
+          subscriptionId: subscription.id,
+          userId: subscription.userId,
+        });
+        return { delivered: false, error: 'Subscription no longer exists' };
+      }
+
+      await this.pushSubscriptionRepository.recordFailure(subscription.id);
+      return {
+        delivered: false,
+        error: `Push service responded ${result.statusCode}${result.body ? `: ${result.body}` : ''}`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Push delivery failed', {
+        subscriptionId: subscription.id,
+        error: message,
+      });
+      await this.pushSubscriptionRepository.recordFailure(subscription.id);
+      return { delivered: false, error: message };
+    }
+  }
+
+  private validateRegistration(
+    registration: PushSubscriptionRegistration
+  ): void {
+    let endpoint: URL | null = null;
+    try {
+      endpoint = new URL(registration?.endpoint);
+    } catch {
+      // Reported below
+    }
+
+    const keys = registration?.keys;
+    const valid =
+      endpoint?.protocol === 'https:' &&
+      typeof keys?.p256dh === 'string' &&
+      typeof keys?.auth === 'string' &&
+      isP256PublicKey(keys.p256dh) &&
+      Buffer.from(keys.auth, 'base64url').length === 16;
+
+    if (!valid) {
+      throw new PushError(
+        PushErrorCodes.INVALID_SUBSCRIPTION,
+        'Send the subscription from PushSubscription.toJSON(): an https endpoint with p256dh and auth keys'
+      );
+    }
+
+    // Names are only resolved when sending, since what they resolve to can change
+    const address = hostnameAddress(endpoint!.hostname);
+    if (address !== null && !isPublicAddress(address)) {
+      throw new PushError(
+        PushErrorCodes.INVALID_SUBSCRIPTION,
+        'The push endpoint must be a public host'
+      );
+    }
+  }
+
+  private requireVapid(): VapidDetails {
+    if (!this.vapid) {
+      throw new PushError(
+        PushErrorCodes.PUSH_NOT_CONFIGURED,
+        'Push notifications are not available'
+      );
+    }
+    return this.vapid;
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.options.maxBodyLength
+      ? `${text.slice(0, this.options.maxBodyLength - 1)}…`
+      : text;
+  }
+
+  private failure(error: string): NotificationDeliveryResult {
+    return { success: false, error, deliveredAt: new Date() };
+  }
+}
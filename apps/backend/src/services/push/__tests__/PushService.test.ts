@@ -0,0 +1,311 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { PushErrorCodes } from '@booking-swap/shared';
+import { PushService, notificationUrl } from '../PushService';
+import { generateVapidKeys, sendPushMessage } from '../webPush';
+import { SCHEDULED_JOB_TYPES } from '../../scheduler/JobScheduler';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+vi.mock('../webPush', async importOriginal => ({
+  ...(await importOriginal<typeof import('../webPush')>()),
+  sendPushMessage: vi.fn(),
+}));
+
+const USER = 'user-1';
+
+const registration = () => ({
+  endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+  expirationTime: null,
+  keys: {
+    p256dh: crypto
+      .createECDH('prime256v1')
+      .generateKeys()
+      .toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  },
+});
+
+const subscriptionRecord = (overrides: Record<string, any> = {}) => ({
+  id: 'subscription-1',
+  userId: USER,
+  endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+  p256dh: 'p256dh',
+  auth: 'auth',
+  deviceName: 'Chrome on macOS',
+  failureCount: 0,
+  createdAt: new Date('2025-02-13T10:00:00Z'),
+  updatedAt: new Date('2025-02-13T10:00:00Z'),
+  ...overrides,
+});
+
+const notification = {
+  title: 'Swap accepted',
+  body: 'Your swap was accepted',
+  data: { url: '/swaps/swap-1' },
+};
+
+describe('PushService', () => {
+  let repository: any;
+  let jobScheduler: any;
+  let service: PushService;
+  const send = vi.mocked(sendPushMessage);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = {
+      saveSubscription: vi
+        .fn()
+        .mockImplementation(async (userId, subscription) =>
+          subscriptionRecord({ userId, ...subscription })
+        ),
+      findByUserId: vi.fn().mockResolvedValue([subscriptionRecord()]),
+      hasSubscriptions: vi.fn().mockResolvedValue(true),
+      deleteSubscription: vi.fn().mockResolvedValue(true),
+      deleteByEndpoint: vi.fn().mockResolvedValue(true),
+      deleteById: vi.fn(),
+      recordSuccess: vi.fn(),
+      recordFailure: vi.fn(),
+      deleteStale: vi.fn().mockResolvedValue(0),
+      findPreferences: vi.fn().mockResolvedValue(null),
+      savePreferences: vi
+        .fn()
+        .mockImplementation(async (_userId, preferences) => preferences),
+    };
+    jobScheduler = {
+      registerHandler: vi.fn(),
+      schedule: vi.fn(),
+    };
+    service = new PushService(
+      repository,
+      jobScheduler,
+      { ...generateVapidKeys(), subject: 'mailto:ops@example.com' },
+      { maxFailures: 3 }
+    );
+  });
+
+  describe('subscriptions', () => {
+    it('registers a browser subscription without exposing its keys', async () => {
+      const subscription = await service.subscribe(
+        USER,
+        registration(),
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'
+      );
+
+      expect(repository.saveSubscription).toHaveBeenCalledWith(
+        USER,
+        expect.objectContaining({
+          endpoint: 'https://fcm.googleapis.com/fcm/send/abc',
+          deviceName: 'Chrome on macOS',
+          expiresAt: undefined,
+        })
+      );
+      expect(subscription).not.toHaveProperty('p256dh');
+      expect(subscription).not.toHaveProperty('auth');
+    });
+
+    it('rejects subscriptions without valid keys or an https endpoint', async () => {
+      await expect(
+        service.subscribe(USER, {
+          ...registration(),
+          endpoint: 'http://push.example.com/abc',
+        })
+      ).rejects.toMatchObject({ code: PushErrorCodes.INVALID_SUBSCRIPTION });
+
+      await expect(
+        service.subscribe(USER, {
+          ...registration(),
+          keys: { p256dh: 'short', auth: 'short' },
+        })
+      ).rejects.toMatchObject({ code: PushErrorCodes.INVALID_SUBSCRIPTION });
+
+      expect(repository.saveSubscription).not.toHaveBeenCalled();
+    });
+
+    it('rejects endpoints on private addresses', async () => {
+      for (const endpoint of [
+        'https://127.0.0.1/push/abc',
+        'https://169.254.169.254/latest',
+        'https://[::1]/push/abc',
+      ]) {
+        await expect(
+          service.subscribe(USER, { ...registration(), endpoint })
+        ).rejects.toMatchObject({ code: PushErrorCodes.INVALID_SUBSCRIPTION });
+      }
+
+      expect(repository.saveSubscription).not.toHaveBeenCalled();
+    });
+
+    it('refuses registration when VAPID keys are not configured', async () => {
+      service = new PushService(repository, jobScheduler, null);
+
+      expect(() => service.getPublicKey()).toThrow();
+      await expect(
+        service.subscribe(USER, registration())
+      ).rejects.toMatchObject({ code: PushErrorCodes.PUSH_NOT_CONFIGURED });
+    });
+
+    it("reports other users' subscriptions as not found", async () => {
+      repository.deleteSubscription.mockResolvedValue(false);
+
+      await expect(
+        service.unsubscribe(USER, 'subscription-2')
+      ).rejects.toMatchObject({ code: PushErrorCodes.SUBSCRIPTION_NOT_FOUND });
+    });
+  });
+
+  describe('preferences', () => {
+    it('is off for every type until the user opts in', async () => {
+      expect(await service.getPreferences(USER)).toEqual({
+        push: true,
+        pushTypes: [],
+      });
+      expect(await service.isEnabledFor(USER, 'swap_accepted')).toBe(false);
+    });
+
+    it('pushes opted-in types to users with a device', async () => {
+      repository.findPreferences.mockResolvedValue({
+        push: true,
+        pushTypes: ['swap_accepted'],
+      });
+
+      expect(await service.isEnabledFor(USER, 'swap_accepted')).toBe(true);
+      expect(await service.isEnabledFor(USER, 'swap_rejected')).toBe(false);
+
+      repository.hasSubscriptions.mockResolvedValue(false);
+      expect(await service.isEnabledFor(USER, 'swap_accepted')).toBe(false);
+    });
+
+    it('rejects types that cannot be pushed', async () => {
+      await expect(
+        service.updatePreferences(USER, {
+          pushTypes: ['swap_accepted', 'webhook_endpoint_disabled'],
+        })
+      ).rejects.toMatchObject({
+        code: PushErrorCodes.INVALID_NOTIFICATION_TYPE,
+        details: expect.objectContaining({
+          invalidTypes: ['webhook_endpoint_disabled'],
+        }),
+      });
+      expect(repository.savePreferences).not.toHaveBeenCalled();
+    });
+
+    it('keeps the settings that are not updated', async () => {
+      repository.findPreferences.mockResolvedValue({
+        push: true,
+        pushTypes: ['swap_accepted'],
+      });
+
+      expect(await service.updatePreferences(USER, { push: false })).toEqual({
+        push: false,
+        pushTypes: ['swap_accepted'],
+      });
+    });
+  });
+
+  describe('sendToUser', () => {
+    it('sends to every device and reports the delivery', async () => {
+      repository.findByUserId.mockResolvedValue([
+        subscriptionRecord(),
+        subscriptionRecord({ id: 'subscription-2' }),
+      ]);
+      send.mockResolvedValue({
+        statusCode: 201,
+        messageId: 'https://fcm.googleapis.com/message/1',
+      });
+
+      const result = await service.sendToUser(
+        USER,
+        'swap_proposal',
+        notification
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        messageId: 'https://fcm.googleapis.com/message/1',
+      });
+      expect(send).toHaveBeenCalledTimes(2);
+      const [, payload, , options] = send.mock.calls[0]!;
+      expect(JSON.parse(payload)).toEqual(notification);
+      expect(options).toMatchObject({ ttlSeconds: 86400, urgency: 'high' });
+      expect(repository.recordSuccess).toHaveBeenCalledWith('subscription-2');
+    });
+
+    it('removes subscriptions the push service reports as gone', async () => {
+      send.mockResolvedValue({ statusCode: 410 });
+
+      const result = await service.sendToUser(
+        USER,
+        'swap_accepted',
+        notification
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Subscription no longer exists');
+      expect(repository.deleteById).toHaveBeenCalledWith('subscription-1');
+      expect(repository.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('counts failures and succeeds if any device received it', async () => {
+      repository.findByUserId.mockResolvedValue([
+        subscriptionRecord(),
+        subscriptionRecord({ id: 'subscription-2' }),
+      ]);
+      send
+        .mockRejectedValueOnce(new Error('network down'))
+        .mockResolvedValueOnce({ statusCode: 201 });
+
+      const result = await service.sendToUser(
+        USER,
+        'swap_accepted',
+        notification
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        messageId: 'subscription-2',
+      });
+      expect(repository.recordFailure).toHaveBeenCalledWith('subscription-1');
+    });
+
+    it('fails without subscriptions', async () => {
+      repository.findByUserId.mockResolvedValue([]);
+
+      const result = await service.sendToUser(
+        USER,
+        'swap_accepted',
+        notification
+      );
+
+      expect(result.success).toBe(false);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  it('prunes expired and failing subscriptions on a schedule', async () => {
+    service.registerJobHandlers();
+
+    expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+      SCHEDULED_JOB_TYPES.PUSH_SUBSCRIPTION_PRUNE,
+      expect.any(Function),
+      { intervalMs: 6 * 60 * 60 * 1000 }
+    );
+
+    const now = new Date('2025-02-13T10:00:00Z');
+    repository.deleteStale.mockResolvedValue(2);
+    expect(await service.pruneSubscriptions(now)).toBe(2);
+    expect(repository.deleteStale).toHaveBeenCalledWith(now, 3);
+  });
+
+  it('links notifications to the swap or booking they are about', () => {
+    expect(notificationUrl({ swapId: 'swap-1', bookingId: 'booking-1' })).toBe(
+      '/swaps/swap-1'
+    );
+    expect(notificationUrl({ targetSwapId: 'swap-2' })).toBe('/swaps/swap-2');
+    expect(notificationUrl({ bookingId: 'booking-1' })).toBe(
+      '/bookings/booking-1'
+    );
+    expect(notificationUrl({})).toBe('/dashboard');
+  });
+});
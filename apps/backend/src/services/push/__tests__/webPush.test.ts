@@ -0,0 +1,214 @@
+import { describe, it, expect, vi } from 'vitest';
+import crypto from 'crypto';
+import {
+  MAX_PUSH_PAYLOAD_BYTES,
+  createVapidAuthorization,
+  encryptPayload,
+  generateVapidKeys,
+  sendPushMessage,
+  validateVapidKeys,
+} from '../webPush';
+import { createPinnedFetch } from '../../webhook/pinnedFetch';
+
+const ENDPOINT = 'https://push.example.com/send/abc123';
+
+// A browser's subscription keys, with the private key kept for decrypting
+const browserKeys = () => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    ecdh,
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+  };
+};
+
+const hkdf = (
+  ikm: Buffer,
+  salt: Buffer,
+  info: string | Buffer,
+  length: number
+) => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+// What the browser does with an aes128gcm push message (RFC 8291)
+const decrypt = (
+  message: Buffer,
+  keys: ReturnType<typeof browserKeys>
+): Buffer => {
+  const salt = message.subarray(0, 16);
+  const keyLength = message.readUInt8(20);
+  const senderKey = message.subarray(21, 21 + keyLength);
+  const ciphertext = message.subarray(21 + keyLength);
+
+  const ikm = hkdf(
+    keys.ecdh.computeSecret(senderKey),
+    Buffer.from(keys.auth, 'base64url'),
+    Buffer.concat([
+      Buffer.from('WebPush: info\0'),
+      keys.ecdh.getPublicKey(),
+      senderKey,
+    ]),
+    32
+  );
+  const decipher = crypto.createDecipheriv(
+    'aes-128-gcm',
+    hkdf(ikm, salt, 'Content-Encoding: aes128gcm\0', 16),
+    hkdf(ikm, salt, 'Content-Encoding: nonce\0', 12)
+  );
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  return Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+};
+
+describe('webPush', () => {
+  describe('VAPID keys', () => {
+    it('generates a P-256 key pair that validates', () => {
+      const keys = generateVapidKeys();
+
+      expect(Buffer.from(keys.publicKey, 'base64url')).toHaveLength(65);
+      expect(Buffer.from(keys.privateKey, 'base64url')).toHaveLength(32);
+      expect(() => validateVapidKeys(keys)).not.toThrow();
+    });
+
+    it('rejects a public key from another pair', () => {
+      const keys = generateVapidKeys();
+
+      expect(() =>
+        validateVapidKeys({
+          ...keys,
+          publicKey: generateVapidKeys().publicKey,
+        })
+      ).toThrow('does not match');
+    });
+
+    it('signs an ES256 token for the push service origin', () => {
+      const keys = generateVapidKeys();
+      const now = new Date('2025-02-13T10:00:00Z');
+
+      const header = createVapidAuthorization(
+        ENDPOINT,
+        { ...keys, subject: 'mailto:ops@example.com' },
+        now
+      );
+
+      const match = /^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/.exec(header);
+      expect(match).not.toBeNull();
+      const [, encodedHeader, encodedClaims, signature, publicKey] = match!;
+      expect(publicKey).toBe(keys.publicKey);
+      expect(
+        JSON.parse(Buffer.from(encodedClaims!, 'base64url').toString())
+      ).toEqual({
+        aud: 'https://push.example.com',
+        exp: now.getTime() / 1000 + 12 * 60 * 60,
+        sub: 'mailto:ops@example.com',
+      });
+
+      const key = Buffer.from(keys.publicKey, 'base64url');
+      const verified = crypto.verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        {
+          key: crypto.createPublicKey({
+            key: {
+              kty: 'EC',
+              crv: 'P-256',
+              x: key.subarray(1, 33).toString('base64url'),
+              y: key.subarray(33).toString('base64url'),
+            },
+            format: 'jwk',
+          }),
+          dsaEncoding: 'ieee-p1363',
+        },
+        Buffer.from(signature!, 'base64url')
+      );
+      expect(verified).toBe(true);
+    });
+  });
+
+  describe('encryptPayload', () => {
+    it('encrypts a single record the browser can decrypt', () => {
+      const keys = browserKeys();
+      const payload = JSON.stringify({ title: 'Swap accepted', body: '🎉' });
+
+      const message = encryptPayload(Buffer.from(payload), keys);
+
+      expect(message.readUInt32BE(16)).toBe(4096);
+      const plaintext = decrypt(message, keys);
+      expect(plaintext[plaintext.length - 1]).toBe(0x02);
+      expect(plaintext.subarray(0, -1).toString()).toBe(payload);
+    });
+
+    it('uses a new key and salt for every message', () => {
+      const keys = browserKeys();
+      const payload = Buffer.from('same');
+
+      const first = encryptPayload(payload, keys);
+      const second = encryptPayload(payload, keys);
+
+      expect(first.subarray(0, 86).equals(second.subarray(0, 86))).toBe(false);
+    });
+
+    it('refuses payloads larger than one record', () => {
+      expect(() =>
+        encryptPayload(Buffer.alloc(MAX_PUSH_PAYLOAD_BYTES + 1), browserKeys())
+      ).toThrow('limit');
+    });
+  });
+
+  describe('sendPushMessage', () => {
+    const vapid = () => ({
+      ...generateVapidKeys(),
+      subject: 'mailto:ops@example.com',
+    });
+    const target = (endpoint: string) => {
+      const { p256dh, auth } = browserKeys();
+      return { endpoint, p256dh, auth };
+    };
+
+    it('posts through the given fetch and reads the message URL', async () => {
+      const fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        headers: { location: 'https://push.example.com/message/1' },
+        text: async () => '',
+      });
+
+      const result = await sendPushMessage(
+        target(ENDPOINT),
+        'hello',
+        vapid(),
+        { ttlSeconds: 60 },
+        fetch
+      );
+
+      expect(result).toEqual({
+        statusCode: 201,
+        messageId: 'https://push.example.com/message/1',
+        body: undefined,
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        ENDPOINT,
+        expect.objectContaining({ method: 'POST', redirect: 'manual' })
+      );
+    });
+
+    it('refuses endpoints that resolve to private addresses', async () => {
+      const fetch = createPinnedFetch({
+        allowPrivateAddresses: false,
+        lookup: async () => [{ address: '10.0.0.5', family: 4 }],
+      });
+
+      await expect(
+        sendPushMessage(
+          target(ENDPOINT),
+          'hello',
+          vapid(),
+          { ttlSeconds: 60 },
+          fetch
+        )
+      ).rejects.toThrow('non-public address');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { Pool } from 'pg';
+import { PushService } from './PushService';
+import { VapidDetails, validateVapidKeys } from './webPush';
+import { PushSubscriptionRepository } from '../../database/repositories/PushSubscriptionRepository';
+import { createJobScheduler } from '../scheduler/factory';
+import { logger } from '../../utils/logger';
+
+let pushService: PushService | null = null;
+
+// Push stays off unless a valid key pair is configured; generate one with
+// `npm run push:vapid-keys`
+function loadVapidDetails(): VapidDetails | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    logger.warn('VAPID keys not configured, push notifications are disabled');
+    return null;
+  }
+
+  try {
+    validateVapidKeys({ publicKey, privateKey });
+  } catch (error) {
+    logger.error('Invalid VAPID keys, push notifications are disabled', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    subject:
+      process.env.VAPID_SUBJECT ||
+      `mailto:${process.env.FROM_EMAIL || 'noreply@bookingswap.com'}`,
+  };
+}
+
+export function createPushService(pool: Pool): PushService {
+  if (!pushService) {
+    pushService = new PushService(
+      new PushSubscriptionRepository(pool),
+      createJobScheduler(pool),
+      loadVapidDetails(),
+      {
+        ttlSeconds: parseInt(process.env.PUSH_TTL_SECONDS || '86400'),
+        maxFailures: parseInt(process.env.PUSH_MAX_FAILURES || '5'),
+        pruneIntervalMs: parseInt(
+          process.env.PUSH_PRUNE_INTERVAL_MS || '21600000'
+        ),
+      }
+    );
+    pushService.registerJobHandlers();
+  }
+
+  return pushService;
+}
+
+export function resetPushService(): void {
+  pushService = null;
+}
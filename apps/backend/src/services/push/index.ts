@@ -0,0 +1,12 @@
+export { PushService, notificationUrl } from './PushService';
+export type { PushServiceOptions } from './PushService';
+export { createPushService, resetPushService } from './factory';
+export {
+  generateVapidKeys,
+  validateVapidKeys,
+  createVapidAuthorization,
+  encryptPayload,
+  sendPushMessage,
+  MAX_PUSH_PAYLOAD_BYTES,
+} from './webPush';
+export type { VapidKeys, VapidDetails, PushTarget } from './webPush';
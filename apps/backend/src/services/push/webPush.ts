@@ -0,0 +1,230 @@
+/**
+ * Web Push protocol: VAPID authentication (RFC 8292) and aes128gcm payload
+ * encryption (RFC 8291, RFC 8188), using only Node's crypto module.
+ */
+import crypto from 'crypto';
+import { WebhookFetch } from '../webhook/pinnedFetch';
+
+export interface VapidKeys {
+  // Uncompressed P-256 public key, base64url; handed to browsers as the
+  // applicationServerKey
+  publicKey: string;
+  // P-256 private key scalar, base64url
+  privateKey: string;
+}
+
+export interface VapidDetails extends VapidKeys {
+  // Contact for the push service operator, a mailto: or https: URL
+  subject: string;
+}
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+export interface PushMessageOptions {
+  // How long the push service keeps the message for an offline device
+  ttlSeconds: number;
+  urgency?: PushUrgency;
+  timeoutMs?: number;
+}
+
+export interface PushSendResult {
+  statusCode: number;
+  // Message URL returned by the push service
+  messageId?: string;
+  body?: string;
+}
+
+// Largest payload that fits in a single 4096-byte record with the header
+export const MAX_PUSH_PAYLOAD_BYTES = 3993;
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+const base64url = (data: Buffer): string => data.toString('base64url');
+const fromBase64url = (value: string): Buffer =>
+  Buffer.from(value, 'base64url');
+
+/**
+ * Generate a VAPID key pair, for VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const privateKey = Buffer.alloc(32);
+  const scalar = ecdh.getPrivateKey();
+  scalar.copy(privateKey, 32 - scalar.length);
+
+  return {
+    publicKey: base64url(ecdh.getPublicKey()),
+    privateKey: base64url(privateKey),
+  };
+}
+
+/**
+ * Whether a base64url string decodes to an uncompressed P-256 public key
+ */
+export function isP256PublicKey(value: string): boolean {
+  const key = fromBase64url(value);
+  return key.length === 65 && key[0] === 0x04;
+}
+
+/**
+ * Check that a key pair is well formed and that the public key belongs to
+ * the private key
+ */
+export function validateVapidKeys(keys: VapidKeys): void {
+  const privateKey = fromBase64url(keys.privateKey);
+  if (privateKey.length !== 32 || !isP256PublicKey(keys.publicKey)) {
+    throw new Error('VAPID keys must be a base64url P-256 key pair');
+  }
+
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.setPrivateKey(privateKey);
+  if (base64url(ecdh.getPublicKey()) !== keys.publicKey) {
+    throw new Error('VAPID public key does not match the private key');
+  }
+}
+
+/**
+ * Authorization header value for a push request to `endpoint`, signed with
+ * the application server's VAPID key
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidDetails,
+  now: Date = new Date()
+): string {
+  const publicKey = fromBase64url(vapid.publicKey);
+  const signingKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = base64url(
+    Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' }))
+  );
+  const claims = base64url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + JWT_LIFETIME_SECONDS,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: signingKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${vapid.publicKey}`;
+}
+
+const hkdf = (
+  ikm: Buffer,
+  salt: Buffer,
+  info: Buffer,
+  length: number
+): Buffer => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record. A
+ * fresh key pair and salt are used for every message.
+ */
+export function encryptPayload(
+  payload: Buffer,
+  target: Pick<PushTarget, 'p256dh' | 'auth'>
+): Buffer {
+  if (payload.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error(
+      `Push payload is ${payload.length} bytes; the limit is ${MAX_PUSH_PAYLOAD_BYTES}`
+    );
+  }
+
+  const receiverKey = fromBase64url(target.p256dh);
+  const authSecret = fromBase64url(target.auth);
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const senderKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(receiverKey);
+
+  const ikm = hkdf(
+    sharedSecret,
+    authSecret,
+    Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]),
+    32
+  );
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(
+    ikm,
+    salt,
+    Buffer.from('Content-Encoding: aes128gcm\0'),
+    16
+  );
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderKey.length, 20);
+
+  return Buffer.concat([header, senderKey, ciphertext]);
+}
+
+/**
+ * Send an encrypted message to a push service. Resolves with the response
+ * status whatever it is; the caller decides what a failure means for the
+ * subscription. The endpoint comes from the browser, so send with a fetch
+ * that refuses private addresses (createPinnedFetch).
+ */
+export async function sendPushMessage(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidDetails,
+  options: PushMessageOptions,
+  fetch: WebhookFetch
+): Promise<PushSendResult> {
+  const body = encryptPayload(Buffer.from(payload, 'utf8'), target);
+
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: createVapidAuthorization(target.endpoint, vapid),
+      TTL: String(options.ttlSeconds),
+      Urgency: options.urgency || 'normal',
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+    },
+    body,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(options.timeoutMs ?? 10000),
+  });
+
+  return {
+    statusCode: response.status,
+    messageId: response.headers?.location || undefined,
+    body: response.ok
+      ? undefined
+      : await response.text().catch(() => undefined),
+  };
+}
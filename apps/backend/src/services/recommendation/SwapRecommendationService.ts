@@ -0,0 +1,292 @@
+import {
+  DEFAULT_RECOMMENDATION_LIMIT,
+  MAX_RECOMMENDATION_LIMIT,
+  RecommendationSignals,
+  SwapRecommendation,
+  SwapRecommendationFeed,
+} from '@booking-swap/shared';
+import {
+  RecommendationListing,
+  SwapRecommendationRepository,
+} from '../../database/repositories/SwapRecommendationRepository';
+import {
+  CompatibilityAnalysisEngine,
+  SwapBookingDetails,
+} from '../swap/CompatibilityAnalysisEngine';
+import {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  RecommendationWeights,
+  buildBehaviourProfile,
+  combineSignals,
+  diversify,
+  explainSignals,
+  scoreBehaviour,
+  scoreFreshness,
+  scorePreferences,
+  scoreReputation,
+} from './scoring';
+import { logger } from '../../utils/logger';
+
+export interface SwapRecommendationServiceOptions {
+  /** How long a user's feed is reused */
+  cacheTtlMs?: number;
+  /** Feeds kept in memory at most; the oldest are dropped first */
+  maxCachedFeeds?: number;
+  /** Newest open listings considered for each feed */
+  candidateLimit?: number;
+  /** Own swaps and past proposals used to describe the user */
+  ownSwapLimit?: number;
+  historyLimit?: number;
+  weights?: Partial<RecommendationWeights>;
+  /** Age at which a listing's freshness score has halved */
+  freshnessHalfLifeDays?: number;
+  /** Listings younger than this are labelled new */
+  newListingDays?: number;
+  /** 0 to 1; how strongly repeated cities and owners are pushed down */
+  diversityPenalty?: number;
+}
+
+/**
+ * What the ranking knows about the user: their open swaps, with the swap
+ * preferences saved on them, and the listings they proposed on before
+ */
+export interface RecommendationContext {
+  ownSwaps: RecommendationListing[];
+  history: RecommendationListing[];
+}
+
+export interface GetRecommendationsOptions {
+  limit?: number;
+  /** Skip the cached feed and rank again */
+  refresh?: boolean;
+}
+
+/**
+ * Personalised "For you" feed of listings a user could propose a swap on.
+ * Listings are ranked on how compatible they are with the user's own swaps,
+ * how much they resemble listings the user proposed on, the user's swap
+ * preferences, the owner's reputation and how recently they were listed,
+ * then reordered so no single city or owner dominates. Feeds are cached per
+ * user in memory.
+ */
+export class SwapRecommendationService {
+  private cache = new Map<
+    string,
+    { recommendations: SwapRecommendation[]; generatedAt: Date }
+  >();
+  private weights: RecommendationWeights;
+
+  constructor(
+    private repository: SwapRecommendationRepository,
+    private options: SwapRecommendationServiceOptions = {},
+    private compatibilityEngine = new CompatibilityAnalysisEngine()
+  ) {
+    this.weights = { ...DEFAULT_RECOMMENDATION_WEIGHTS, ...options.weights };
+  }
+
+  async getRecommendations(
+    userId: string,
+    options: GetRecommendationsOptions = {}
+  ): Promise<SwapRecommendationFeed> {
+    const limit = Math.max(
+      1,
+      Math.min(
+        MAX_RECOMMENDATION_LIMIT,
+        options.limit ?? DEFAULT_RECOMMENDATION_LIMIT
+      )
+    );
+
+    const cached = options.refresh ? undefined : this.getCachedFeed(userId);
+    if (cached) {
+      return {
+        recommendations: cached.recommendations.slice(0, limit),
+        generatedAt: cached.generatedAt,
+        cached: true,
+      };
+    }
+
+    const [ownSwaps, history, candidates] = await Promise.all([
+      this.repository.findOwnSwaps(userId, this.options.ownSwapLimit ?? 5),
+      this.repository.findProposalHistory(
+        userId,
+        this.options.historyLimit ?? 50
+      ),
+      this.repository.findCandidates(
+        userId,
+        this.options.candidateLimit ?? 200
+      ),
+    ]);
+
+    const generatedAt = new Date();
+    // The whole feed is cached, so a later request with a higher limit is
+    // still served from the cache
+    const recommendations = await this.rankCandidates(
+      { ownSwaps, history },
+      candidates,
+      generatedAt
+    );
+    this.setCachedFeed(userId, { recommendations, generatedAt });
+
+    logger.info('Generated swap recommendations', {
+      userId,
+      candidates: candidates.length,
+      ownSwaps: ownSwaps.length,
+      history: history.length,
+      recommendations: recommendations.length,
+    });
+
+    return {
+      recommendations: recommendations.slice(0, limit),
+      generatedAt,
+      cached: false,
+    };
+  }
+
+  /**
+   * Drops the user's cached feed, e.g. after they proposed on a listing
+   */
+  invalidate(userId: string): void {
+    this.cache.delete(userId);
+  }
+
+  /**
+   * Scores and orders candidates for the user as of `now`. Also used by the
+   * offline evaluation, which replays past proposals.
+   */
+  async rankCandidates(
+    context: RecommendationContext,
+    candidates: RecommendationListing[],
+    now: Date
+  ): Promise<SwapRecommendation[]> {
+    const profile = buildBehaviourProfile(context.history);
+    const preferences = context.ownSwaps.map(swap => swap.swapPreferences);
+    const halfLifeDays = this.options.freshnessHalfLifeDays ?? 14;
+    const newListingDays = this.options.newListingDays ?? 3;
+
+    const scored = await Promise.all(
+      candidates.map(async listing => {
+        const { score: compatibility, matchedSwapId } =
+          await this.scoreCompatibility(context.ownSwaps, listing);
+
+        const signals: RecommendationSignals = {
+          compatibility,
+          behaviour: scoreBehaviour(profile, listing),
+          preferences: scorePreferences(preferences, listing),
+          reputation: scoreReputation(listing),
+          freshness: scoreFreshness(listing.listedAt, now, halfLifeDays),
+        };
+
+        const recommendation: SwapRecommendation = {
+          swapId: listing.swapId,
+          booking: {
+            id: listing.bookingId,
+            title: listing.title,
+            type: listing.type,
+            city: listing.city,
+            country: listing.country,
+            checkIn: listing.checkIn,
+            checkOut: listing.checkOut,
+            swapValue: listing.swapValue,
+          },
+          ownerId: listing.ownerId,
+          ownerReputation:
+            listing.ownerCompletedSwaps > 0
+              ? listing.ownerReputation
+              : undefined,
+          score: combineSignals(signals, this.weights),
+          signals,
+          reasons: explainSignals(signals, listing, now, newListingDays),
+          matchedSwapId,
+          listedAt: listing.listedAt,
+        };
+        return recommendation;
+      })
+    );
+
+    const ordered = diversify(
+      scored
+        .map(recommendation => ({
+          recommendation,
+          score: recommendation.score,
+          city: recommendation.booking.city,
+          country: recommendation.booking.country,
+          ownerId: recommendation.ownerId,
+        }))
+        .sort((a, b) => b.score - a.score),
+      this.options.diversityPenalty ?? 0.15
+    );
+
+    return ordered
+      .slice(0, MAX_RECOMMENDATION_LIMIT)
+      .map(item => item.recommendation);
+  }
+
+  /**
+   * Best compatibility with any of the user's swaps, on a 0 to 1 scale
+   */
+  private async scoreCompatibility(
+    ownSwaps: RecommendationListing[],
+    listing: RecommendationListing
+  ): Promise<{ score: number; matchedSwapId?: string }> {
+    let best: { score: number; matchedSwapId?: string } = { score: 0 };
+
+    for (const own of ownSwaps) {
+      try {
+        const analysis = await this.compatibilityEngine.analyzeCompatibility(
+          this.toBookingDetails(own),
+          this.toBookingDetails(listing)
+        );
+        const score = analysis.overallScore / 100;
+        if (score > best.score) {
+          best = { score, matchedSwapId: own.swapId };
+        }
+      } catch (error) {
+        logger.warn('Skipping compatibility for recommendation', {
+          swapId: own.swapId,
+          candidateSwapId: listing.swapId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return best;
+  }
+
+  private toBookingDetails(listing: RecommendationListing): SwapBookingDetails {
+    return {
+      location: `${listing.city}, ${listing.country}`,
+      dateRange: { checkIn: listing.checkIn, checkOut: listing.checkOut },
+      totalPrice: listing.swapValue,
+      accommodationType: listing.type,
+      guests: 1,
+      dateFlexibility: listing.swapPreferences.dateFlexibility,
+    };
+  }
+
+  private getCachedFeed(userId: string) {
+    const entry = this.cache.get(userId);
+    const cacheTtlMs = this.options.cacheTtlMs ?? 10 * 60 * 1000;
+    if (!entry || Date.now() - entry.generatedAt.getTime() > cacheTtlMs) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  private setCachedFeed(
+    userId: string,
+    entry: { recommendations: SwapRecommendation[]; generatedAt: Date }
+  ): void {
+    // Re-inserting moves the user to the end, so the first key is the oldest
+    this.cache.delete(userId);
+    this.cache.set(userId, entry);
+
+    const maxCachedFeeds = this.options.maxCachedFeeds ?? 1000;
+    while (this.cache.size > maxCachedFeeds) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.cache.delete(oldest);
+    }
+  }
+}
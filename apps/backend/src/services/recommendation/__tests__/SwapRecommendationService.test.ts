@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  RecommendationListing,
+  SwapRecommendationRepository,
+} from '../../../database/repositories/SwapRecommendationRepository';
+import { CompatibilityAnalysisEngine } from '../../swap/CompatibilityAnalysisEngine';
+import { SwapRecommendationService } from '../SwapRecommendationService';
+import { evaluateRecommendations } from '../evaluation';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const USER = 'user-1';
+const NOW = new Date();
+
+const makeListing = (
+  overrides: Partial<RecommendationListing> = {}
+): RecommendationListing => ({
+  swapId: 'swap-1',
+  bookingId: 'booking-1',
+  ownerId: 'owner-1',
+  title: 'Riverside apartment',
+  type: 'hotel',
+  city: 'Lisbon',
+  country: 'Portugal',
+  checkIn: new Date('2025-06-10'),
+  checkOut: new Date('2025-06-15'),
+  swapValue: 800,
+  listedAt: NOW,
+  swapPreferences: {},
+  ownerReputation: 0,
+  ownerCompletedSwaps: 0,
+  ...overrides,
+});
+
+describe('SwapRecommendationService', () => {
+  let repository: {
+    findCandidates: ReturnType<typeof vi.fn>;
+    findCandidatesAsOf: ReturnType<typeof vi.fn>;
+    findOwnSwaps: ReturnType<typeof vi.fn>;
+    findSwapsByIds: ReturnType<typeof vi.fn>;
+    findProposalHistory: ReturnType<typeof vi.fn>;
+    findAcceptedProposals: ReturnType<typeof vi.fn>;
+  };
+  let engine: { analyzeCompatibility: ReturnType<typeof vi.fn> };
+  let service: SwapRecommendationService;
+
+  const ownSwap = makeListing({
+    swapId: 'own-1',
+    ownerId: USER,
+    city: 'Porto',
+    swapPreferences: { preferredLocations: ['Paris'] },
+  });
+  const paris = makeListing({
+    swapId: 'paris',
+    ownerId: 'owner-2',
+    city: 'Paris',
+    country: 'France',
+  });
+  const lisbon = makeListing({ swapId: 'lisbon' });
+  const faro = makeListing({
+    swapId: 'faro',
+    city: 'Faro',
+    listedAt: new Date(NOW.getTime() - 60 * 24 * 60 * 60 * 1000),
+  });
+
+  beforeEach(() => {
+    repository = {
+      findCandidates: vi.fn().mockResolvedValue([faro, lisbon, paris]),
+      findCandidatesAsOf: vi.fn(),
+      findOwnSwaps: vi.fn().mockResolvedValue([ownSwap]),
+      findSwapsByIds: vi.fn(),
+      findProposalHistory: vi.fn().mockResolvedValue([]),
+      findAcceptedProposals: vi.fn(),
+    };
+    // Lisbon is the most compatible with the user's Porto swap
+    engine = {
+      analyzeCompatibility: vi.fn(async (_source, target) => ({
+        overallScore: target.location.startsWith('Lisbon') ? 90 : 50,
+      })),
+    };
+    service = new SwapRecommendationService(
+      repository as unknown as SwapRecommendationRepository,
+      { diversityPenalty: 0 },
+      engine as unknown as CompatibilityAnalysisEngine
+    );
+  });
+
+  it('should rank listings on compatibility, preferences and freshness', async () => {
+    const feed = await service.getRecommendations(USER);
+
+    expect(feed.cached).toBe(false);
+    expect(feed.recommendations.map(r => r.swapId)).toEqual([
+      'lisbon',
+      'paris',
+      'faro',
+    ]);
+    expect(feed.recommendations[0]).toMatchObject({
+      matchedSwapId: 'own-1',
+      reasons: ['compatible_with_your_swap', 'new_listing'],
+    });
+    expect(feed.recommendations[1]?.reasons).toContain(
+      'matches_your_preferences'
+    );
+  });
+
+  it('should rank past proposal destinations higher', async () => {
+    repository.findProposalHistory.mockResolvedValue([
+      makeListing({ city: 'Faro' }),
+      makeListing({ city: 'Faro' }),
+    ]);
+    engine.analyzeCompatibility.mockResolvedValue({ overallScore: 50 });
+    repository.findCandidates.mockResolvedValue([
+      lisbon,
+      { ...faro, listedAt: NOW },
+    ]);
+
+    const feed = await service.getRecommendations(USER);
+
+    expect(feed.recommendations[0]?.swapId).toBe('faro');
+    expect(feed.recommendations[0]?.reasons).toContain(
+      'similar_to_past_proposals'
+    );
+  });
+
+  it('should serve the cached feed until it expires or is refreshed', async () => {
+    await service.getRecommendations(USER);
+    const cached = await service.getRecommendations(USER, { limit: 1 });
+
+    expect(cached.cached).toBe(true);
+    expect(cached.recommendations).toHaveLength(1);
+    expect(repository.findCandidates).toHaveBeenCalledTimes(1);
+
+    const refreshed = await service.getRecommendations(USER, {
+      refresh: true,
+    });
+    expect(refreshed.cached).toBe(false);
+
+    service.invalidate(USER);
+    await service.getRecommendations(USER);
+    expect(repository.findCandidates).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop the oldest cached feeds beyond the limit', async () => {
+    service = new SwapRecommendationService(
+      repository as unknown as SwapRecommendationRepository,
+      { maxCachedFeeds: 1 },
+      engine as unknown as CompatibilityAnalysisEngine
+    );
+
+    await service.getRecommendations('user-a');
+    await service.getRecommendations('user-b');
+    const again = await service.getRecommendations('user-a');
+
+    expect(again.cached).toBe(false);
+  });
+
+  it('should recommend by the other signals when the user has no swaps', async () => {
+    repository.findOwnSwaps.mockResolvedValue([]);
+
+    const feed = await service.getRecommendations(USER);
+
+    expect(engine.analyzeCompatibility).not.toHaveBeenCalled();
+    expect(feed.recommendations).toHaveLength(3);
+    expect(feed.recommendations[0]?.matchedSwapId).toBeUndefined();
+  });
+
+  it('should evaluate hit rate against accepted proposals', async () => {
+    const proposedAt = new Date('2025-01-10');
+    repository.findAcceptedProposals.mockResolvedValue([
+      {
+        proposalId: 'proposal-1',
+        proposerId: USER,
+        sourceSwapId: 'own-1',
+        targetSwapId: 'lisbon',
+        proposedAt,
+      },
+      {
+        proposalId: 'proposal-2',
+        proposerId: USER,
+        sourceSwapId: 'gone',
+        targetSwapId: 'paris',
+        proposedAt,
+      },
+    ]);
+    repository.findSwapsByIds.mockImplementation(async (ids: string[]) =>
+      ids[0] === 'own-1' ? [ownSwap] : []
+    );
+    repository.findCandidatesAsOf.mockResolvedValue([
+      { ...faro, listedAt: proposedAt },
+      { ...paris, listedAt: proposedAt },
+      { ...lisbon, listedAt: proposedAt },
+    ]);
+
+    const report = await evaluateRecommendations(
+      service,
+      repository as unknown as SwapRecommendationRepository,
+      {
+        since: new Date('2025-01-01'),
+        limit: 100,
+        k: 1,
+        candidateLimit: 200,
+        historyLimit: 50,
+      }
+    );
+
+    expect(repository.findProposalHistory).toHaveBeenCalledWith(
+      USER,
+      50,
+      proposedAt
+    );
+    expect(report).toMatchObject({
+      evaluated: 1,
+      skipped: 1,
+      outsideCandidatePool: 0,
+      recommender: { hits: 1, hitRate: 1, mrr: 1 },
+      newestFirst: { hits: 0, hitRate: 0 },
+    });
+    expect(report.newestFirst.mrr).toBeCloseTo(1 / 3);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { RecommendationListing } from '../../../database/repositories/SwapRecommendationRepository';
+import {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  buildBehaviourProfile,
+  combineSignals,
+  diversify,
+  explainSignals,
+  scoreBehaviour,
+  scoreFreshness,
+  scorePreferences,
+  scoreReputation,
+} from '../scoring';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const makeListing = (
+  overrides: Partial<RecommendationListing> = {}
+): RecommendationListing => ({
+  swapId: 'swap-1',
+  bookingId: 'booking-1',
+  ownerId: 'owner-1',
+  title: 'Riverside apartment',
+  type: 'hotel',
+  city: 'Lisbon',
+  country: 'Portugal',
+  checkIn: new Date('2025-06-10'),
+  checkOut: new Date('2025-06-15'),
+  swapValue: 800,
+  listedAt: new Date('2025-02-28T12:00:00Z'),
+  swapPreferences: {},
+  ownerReputation: 0,
+  ownerCompletedSwaps: 0,
+  ...overrides,
+});
+
+describe('recommendation scoring', () => {
+  describe('scoreBehaviour', () => {
+    it('should score 0 without past proposals', () => {
+      expect(scoreBehaviour(buildBehaviourProfile([]), makeListing())).toBe(0);
+    });
+
+    it('should favour the city, type and value the user proposed on most', () => {
+      const profile = buildBehaviourProfile([
+        makeListing({ city: 'Lisbon' }),
+        makeListing({ city: 'lisbon' }),
+        makeListing({ city: 'Paris', country: 'France', type: 'event' }),
+      ]);
+
+      const lisbon = scoreBehaviour(profile, makeListing());
+      const paris = scoreBehaviour(
+        profile,
+        makeListing({ city: 'Paris', country: 'France', type: 'event' })
+      );
+      const tokyo = scoreBehaviour(
+        profile,
+        makeListing({
+          city: 'Tokyo',
+          country: 'Japan',
+          type: 'event',
+          swapValue: 5000,
+        })
+      );
+
+      expect(lisbon).toBeCloseTo(1);
+      expect(paris).toBeLessThan(lisbon);
+      expect(tokyo).toBeLessThan(paris);
+    });
+  });
+
+  describe('scorePreferences', () => {
+    it('should match preferred locations by city or country, ignoring accents', () => {
+      const listing = makeListing({ city: 'Zürich', country: 'Switzerland' });
+
+      expect(
+        scorePreferences([{ preferredLocations: ['zurich'] }], listing)
+      ).toBe(1);
+      expect(
+        scorePreferences([{ preferredLocations: ['Switzerland'] }], listing)
+      ).toBe(1);
+      expect(
+        scorePreferences([{ preferredLocations: ['Geneva'] }], listing)
+      ).toBe(0);
+    });
+
+    it('should average location and date matches across the user swaps', () => {
+      const score = scorePreferences(
+        [
+          { preferredLocations: ['Lisbon'] },
+          { preferredDates: [new Date('2025-08-01')] },
+        ],
+        makeListing()
+      );
+
+      expect(score).toBe(0.5);
+      expect(scorePreferences([{}], makeListing())).toBe(0);
+    });
+  });
+
+  it('should give owners without completed swaps a neutral reputation', () => {
+    expect(
+      scoreReputation({ ownerReputation: 0, ownerCompletedSwaps: 0 })
+    ).toBe(0.5);
+    expect(
+      scoreReputation({ ownerReputation: 4.5, ownerCompletedSwaps: 3 })
+    ).toBe(0.9);
+  });
+
+  it('should halve freshness every half-life', () => {
+    const listedAt = new Date(NOW.getTime() - 14 * 24 * 60 * 60 * 1000);
+
+    expect(scoreFreshness(NOW, NOW, 14)).toBe(1);
+    expect(scoreFreshness(listedAt, NOW, 14)).toBeCloseTo(0.5);
+  });
+
+  it('should combine signals into a score out of 100', () => {
+    const perfect = {
+      compatibility: 1,
+      behaviour: 1,
+      preferences: 1,
+      reputation: 1,
+      freshness: 1,
+    };
+
+    expect(combineSignals(perfect, DEFAULT_RECOMMENDATION_WEIGHTS)).toBe(100);
+    expect(
+      combineSignals(
+        { ...perfect, behaviour: 0, preferences: 0 },
+        DEFAULT_RECOMMENDATION_WEIGHTS
+      )
+    ).toBe(65);
+  });
+
+  it('should explain strong signals, trusted owners and new listings', () => {
+    const reasons = explainSignals(
+      {
+        compatibility: 0.8,
+        behaviour: 0.1,
+        preferences: 1,
+        reputation: 0.9,
+        freshness: 0.95,
+      },
+      makeListing({ ownerReputation: 4.5, ownerCompletedSwaps: 2 }),
+      NOW,
+      3
+    );
+
+    expect(reasons).toEqual([
+      'compatible_with_your_swap',
+      'matches_your_preferences',
+      'trusted_owner',
+      'new_listing',
+    ]);
+  });
+
+  describe('diversify', () => {
+    const item = (
+      id: string,
+      score: number,
+      city: string,
+      ownerId: string
+    ) => ({
+      id,
+      score,
+      city,
+      country: 'Portugal',
+      ownerId,
+    });
+
+    it('should push down repeated cities and owners', () => {
+      const ordered = diversify(
+        [
+          item('a', 90, 'Lisbon', 'owner-1'),
+          item('b', 88, 'Lisbon', 'owner-2'),
+          item('c', 85, 'Porto', 'owner-1'),
+          item('d', 80, 'Faro', 'owner-3'),
+        ],
+        0.2
+      );
+
+      expect(ordered.map(i => i.id)).toEqual(['a', 'd', 'b', 'c']);
+    });
+
+    it('should keep the score order without a penalty', () => {
+      const items = [
+        item('a', 90, 'Lisbon', 'owner-1'),
+        item('b', 88, 'Lisbon', 'owner-1'),
+      ];
+
+      expect(diversify(items, 0).map(i => i.id)).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { SwapRecommendationRepository } from '../../database/repositories/SwapRecommendationRepository';
+import { SwapRecommendationService } from './SwapRecommendationService';
+
+export interface RecommendationEvaluationOptions {
+  /** Only replay proposals made since this time */
+  since: Date;
+  /** Proposals replayed at most */
+  limit: number;
+  /** A proposal is a hit when its listing ranks within the top k */
+  k: number;
+  /** Listings ranked for each proposal, as the live feed does */
+  candidateLimit: number;
+  historyLimit: number;
+}
+
+export interface RankingMetrics {
+  hits: number;
+  hitRate: number;
+  // Mean reciprocal rank, where a listing missing from the ranking counts 0
+  mrr: number;
+}
+
+export interface RecommendationEvaluationReport {
+  evaluated: number;
+  // Proposals whose listing was not among the candidates open at the time
+  outsideCandidatePool: number;
+  // Proposals whose own swap no longer exists
+  skipped: number;
+  k: number;
+  recommender: RankingMetrics;
+  // Newest listings first, the order browse shows
+  newestFirst: RankingMetrics;
+}
+
+const summarize = (ranks: (number | null)[], k: number): RankingMetrics => {
+  const hits = ranks.filter(rank => rank !== null && rank <= k).length;
+  const reciprocal = ranks.reduce<number>(
+    (sum, rank) => sum + (rank === null ? 0 : 1 / rank),
+    0
+  );
+
+  return {
+    hits,
+    hitRate: ranks.length === 0 ? 0 : hits / ranks.length,
+    mrr: ranks.length === 0 ? 0 : reciprocal / ranks.length,
+  };
+};
+
+const rankOf = (swapIds: string[], swapId: string): number | null => {
+  const index = swapIds.indexOf(swapId);
+  return index === -1 ? null : index + 1;
+};
+
+/**
+ * Replays accepted browse proposals: for each one, ranks the listings that
+ * were open when it was made, using only what was known about the proposer
+ * then, and checks where the accepted listing lands. The recommender is
+ * compared with the newest-first order browse uses.
+ */
+export async function evaluateRecommendations(
+  service: SwapRecommendationService,
+  repository: SwapRecommendationRepository,
+  options: RecommendationEvaluationOptions
+): Promise<RecommendationEvaluationReport> {
+  const proposals = await repository.findAcceptedProposals(
+    options.since,
+    options.limit
+  );
+  const recommenderRanks: (number | null)[] = [];
+  const newestFirstRanks: (number | null)[] = [];
+  let outsideCandidatePool = 0;
+  let skipped = 0;
+
+  for (const proposal of proposals) {
+    const [sourceSwap] = await repository.findSwapsByIds([
+      proposal.sourceSwapId,
+    ]);
+    if (!sourceSwap) {
+      skipped++;
+      continue;
+    }
+
+    const history = await repository.findProposalHistory(
+      proposal.proposerId,
+      options.historyLimit,
+      proposal.proposedAt
+    );
+    const proposedBefore = new Set(history.map(listing => listing.swapId));
+    const candidates = (
+      await repository.findCandidatesAsOf(
+        proposal.proposerId,
+        proposal.proposedAt,
+        options.candidateLimit
+      )
+    ).filter(listing => !proposedBefore.has(listing.swapId));
+
+    if (!candidates.some(listing => listing.swapId === proposal.targetSwapId)) {
+      outsideCandidatePool++;
+    }
+
+    const ranked = await service.rankCandidates(
+      { ownSwaps: [sourceSwap], history },
+      candidates,
+      proposal.proposedAt
+    );
+    recommenderRanks.push(
+      rankOf(
+        ranked.map(recommendation => recommendation.swapId),
+        proposal.targetSwapId
+      )
+    );
+    newestFirstRanks.push(
+      rankOf(
+        candidates.map(listing => listing.swapId),
+        proposal.targetSwapId
+      )
+    );
+  }
+
+  return {
+    evaluated: recommenderRanks.length,
+    outsideCandidatePool,
+    skipped,
+    k: options.k,
+    recommender: summarize(recommenderRanks, options.k),
+    newestFirst: summarize(newestFirstRanks, options.k),
+  };
+}
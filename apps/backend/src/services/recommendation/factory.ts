@@ -0,0 +1,35 @@
+import { Pool } from 'pg';
+import { SwapRecommendationService } from './SwapRecommendationService';
+import { SwapRecommendationRepository } from '../../database/repositories/SwapRecommendationRepository';
+
+let swapRecommendationService: SwapRecommendationService | null = null;
+
+export function createSwapRecommendationService(
+  pool: Pool
+): SwapRecommendationService {
+  if (!swapRecommendationService) {
+    swapRecommendationService = new SwapRecommendationService(
+      new SwapRecommendationRepository(pool),
+      {
+        cacheTtlMs: parseInt(
+          process.env.RECOMMENDATIONS_CACHE_TTL_MS || '600000'
+        ),
+        candidateLimit: parseInt(
+          process.env.RECOMMENDATIONS_CANDIDATE_LIMIT || '200'
+        ),
+        freshnessHalfLifeDays: parseFloat(
+          process.env.RECOMMENDATIONS_FRESHNESS_HALF_LIFE_DAYS || '14'
+        ),
+        diversityPenalty: parseFloat(
+          process.env.RECOMMENDATIONS_DIVERSITY_PENALTY || '0.15'
+        ),
+      }
+    );
+  }
+
+  return swapRecommendationService;
+}
+
+export function resetSwapRecommendationService(): void {
+  swapRecommendationService = null;
+}
@@ -0,0 +1,33 @@
+export { SwapRecommendationService } from './SwapRecommendationService';
+export {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  buildBehaviourProfile,
+  scoreBehaviour,
+  scorePreferences,
+  scoreReputation,
+  scoreFreshness,
+  combineSignals,
+  explainSignals,
+  diversify,
+} from './scoring';
+export { evaluateRecommendations } from './evaluation';
+export {
+  createSwapRecommendationService,
+  resetSwapRecommendationService,
+} from './factory';
+
+export type {
+  SwapRecommendationServiceOptions,
+  RecommendationContext,
+  GetRecommendationsOptions,
+} from './SwapRecommendationService';
+export type {
+  RecommendationWeights,
+  BehaviourProfile,
+  DiversifiableItem,
+} from './scoring';
+export type {
+  RecommendationEvaluationOptions,
+  RecommendationEvaluationReport,
+  RankingMetrics,
+} from './evaluation';
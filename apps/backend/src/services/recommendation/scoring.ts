@@ -0,0 +1,273 @@
+import {
+  RecommendationReason,
+  RecommendationSignals,
+  SwapPreferences,
+} from '@booking-swap/shared';
+import { RecommendationListing } from '../../database/repositories/SwapRecommendationRepository';
+import { normalizePlaceName } from '../geocoding';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RecommendationWeights = RecommendationSignals;
+
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+  compatibility: 0.4,
+  behaviour: 0.2,
+  preferences: 0.15,
+  reputation: 0.1,
+  freshness: 0.15,
+};
+
+/**
+ * What the user's past proposals say about their taste: how often they
+ * proposed on each city, country and booking type, and the swap values they
+ * went for
+ */
+export interface BehaviourProfile {
+  proposalCount: number;
+  cities: Map<string, number>;
+  countries: Map<string, number>;
+  types: Map<string, number>;
+  averageSwapValue: number;
+}
+
+const increment = (counts: Map<string, number>, key: string): void => {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+};
+
+// Share of the most frequent key, so the user's favourite scores 1
+const relativeFrequency = (
+  counts: Map<string, number>,
+  key: string
+): number => {
+  const max = Math.max(0, ...counts.values());
+  return max === 0 ? 0 : (counts.get(key) ?? 0) / max;
+};
+
+const cityKey = (listing: Pick<RecommendationListing, 'city' | 'country'>) =>
+  `${normalizePlaceName(listing.city)}|${normalizePlaceName(listing.country)}`;
+
+export function buildBehaviourProfile(
+  history: RecommendationListing[]
+): BehaviourProfile {
+  const profile: BehaviourProfile = {
+    proposalCount: history.length,
+    cities: new Map(),
+    countries: new Map(),
+    types: new Map(),
+    averageSwapValue: 0,
+  };
+
+  for (const listing of history) {
+    increment(profile.cities, cityKey(listing));
+    increment(profile.countries, normalizePlaceName(listing.country));
+    increment(profile.types, listing.type);
+  }
+  if (history.length > 0) {
+    profile.averageSwapValue =
+      history.reduce((sum, listing) => sum + listing.swapValue, 0) /
+      history.length;
+  }
+
+  return profile;
+}
+
+/**
+ * How closely a listing resembles those the user proposed on. Users without
+ * proposals score 0 for every listing, which leaves the order to the other
+ * signals.
+ */
+export function scoreBehaviour(
+  profile: BehaviourProfile,
+  listing: RecommendationListing
+): number {
+  if (profile.proposalCount === 0) {
+    return 0;
+  }
+
+  const valueCloseness =
+    profile.averageSwapValue > 0
+      ? 1 -
+        Math.min(
+          1,
+          Math.abs(listing.swapValue - profile.averageSwapValue) /
+            profile.averageSwapValue
+        )
+      : 0;
+
+  return (
+    0.4 * relativeFrequency(profile.cities, cityKey(listing)) +
+    0.2 *
+      relativeFrequency(
+        profile.countries,
+        normalizePlaceName(listing.country)
+      ) +
+    0.2 * relativeFrequency(profile.types, listing.type) +
+    0.2 * valueCloseness
+  );
+}
+
+/**
+ * Match with the locations and dates the user asked for on their own swaps.
+ * A preferred location matches the listing's city or country; a preferred
+ * date matches when it falls within the stay. Each kind of preference the
+ * user set counts equally.
+ */
+export function scorePreferences(
+  preferences: SwapPreferences[],
+  listing: RecommendationListing
+): number {
+  const locations = preferences.flatMap(p => p.preferredLocations ?? []);
+  const dates = preferences.flatMap(p => p.preferredDates ?? []);
+  const parts: number[] = [];
+
+  if (locations.length > 0) {
+    const city = normalizePlaceName(listing.city);
+    const country = normalizePlaceName(listing.country);
+    const matches = locations.some(location => {
+      const wanted = normalizePlaceName(location);
+      return (
+        wanted === city || wanted === country || wanted === `${city} ${country}`
+      );
+    });
+    parts.push(matches ? 1 : 0);
+  }
+
+  if (dates.length > 0) {
+    const checkIn = listing.checkIn.getTime();
+    const checkOut = listing.checkOut.getTime();
+    const matches = dates.some(date => {
+      const time = new Date(date).getTime();
+      return time >= checkIn && time <= checkOut;
+    });
+    parts.push(matches ? 1 : 0);
+  }
+
+  return parts.length === 0
+    ? 0
+    : parts.reduce((sum, part) => sum + part, 0) / parts.length;
+}
+
+/**
+ * Reputation on a 0 to 1 scale. Owners who have not completed a swap have
+ * no reviews yet, so they get a neutral score rather than the lowest one.
+ */
+export function scoreReputation(
+  listing: Pick<
+    RecommendationListing,
+    'ownerReputation' | 'ownerCompletedSwaps'
+  >
+): number {
+  if (listing.ownerCompletedSwaps === 0) {
+    return 0.5;
+  }
+  return Math.max(0, Math.min(1, listing.ownerReputation / 5));
+}
+
+/**
+ * Halves every `halfLifeDays` after the listing was created
+ */
+export function scoreFreshness(
+  listedAt: Date,
+  now: Date,
+  halfLifeDays: number
+): number {
+  const ageDays = Math.max(0, now.getTime() - listedAt.getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Weighted score from 0 to 100
+ */
+export function combineSignals(
+  signals: RecommendationSignals,
+  weights: RecommendationWeights
+): number {
+  const keys = Object.keys(weights) as (keyof RecommendationSignals)[];
+  const totalWeight = keys.reduce((sum, key) => sum + weights[key], 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
+  const weighted = keys.reduce(
+    (sum, key) => sum + weights[key] * signals[key],
+    0
+  );
+  return Math.round((weighted / totalWeight) * 10000) / 100;
+}
+
+export function explainSignals(
+  signals: RecommendationSignals,
+  listing: RecommendationListing,
+  now: Date,
+  newListingDays: number
+): RecommendationReason[] {
+  const reasons: RecommendationReason[] = [];
+
+  if (signals.compatibility >= 0.7) {
+    reasons.push('compatible_with_your_swap');
+  }
+  if (signals.preferences >= 0.5) {
+    reasons.push('matches_your_preferences');
+  }
+  if (signals.behaviour >= 0.5) {
+    reasons.push('similar_to_past_proposals');
+  }
+  if (listing.ownerCompletedSwaps > 0 && listing.ownerReputation >= 4) {
+    reasons.push('trusted_owner');
+  }
+  if (now.getTime() - listing.listedAt.getTime() <= newListingDays * DAY_MS) {
+    reasons.push('new_listing');
+  }
+
+  return reasons;
+}
+
+export interface DiversifiableItem {
+  score: number;
+  city: string;
+  country: string;
+  ownerId: string;
+}
+
+/**
+ * Reorders items so one city or one owner does not fill the top of the feed.
+ * Picks greedily by score, where each item already picked from the same city
+ * or owner multiplies the score by (1 - penalty). A penalty of 0 keeps the
+ * score order.
+ */
+export function diversify<T extends DiversifiableItem>(
+  items: T[],
+  penalty: number
+): T[] {
+  const remaining = [...items];
+  const picked: T[] = [];
+  const cityCounts = new Map<string, number>();
+  const ownerCounts = new Map<string, number>();
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((item, index) => {
+      const repeats =
+        (cityCounts.get(cityKey(item)) ?? 0) +
+        (ownerCounts.get(item.ownerId) ?? 0);
+      const adjusted = item.score * Math.pow(1 - penalty, repeats);
+      if (adjusted > bestScore) {
+        bestScore = adjusted;
+        bestIndex = index;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    if (!best) {
+      break;
+    }
+    picked.push(best);
+    increment(cityCounts, cityKey(best));
+    increment(ownerCounts, best.ownerId);
+  }
+
+  return picked;
+}
@@ -0,0 +1,575 @@
+import {
+  LedgerCheckError,
+  LedgerDiscrepancy,
+  LedgerReconciliationReport,
+  LedgerReconciliationRepository,
+  LedgerReconciliationResult,
+  LedgerReconciliationTrigger,
+  LedgerSource,
+  LedgerSourceSummary,
+} from '../../database/repositories/LedgerReconciliationRepository';
+import {
+  BlockchainVerificationService,
+  isHederaTransactionId,
+} from '../hedera/BlockchainVerificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+
+export const LEDGER_SOURCES: LedgerSource[] = [
+  'bookings',
+  'swaps',
+  'payments',
+  'targeting',
+];
+
+/** Prefix of placeholder transaction IDs stored until the record is on-ledger */
+const PENDING_TRANSACTION_PREFIX = 'pending_';
+
+const TOPIC_MESSAGE = 'CONSENSUSSUBMITMESSAGE';
+
+export interface LedgerReconciliationOptions {
+  mirrorNodeUrl: string;
+  /** Records read from the database per query */
+  pageSize: number;
+  /** Topic the platform's consensus records are expected on */
+  topicId?: string;
+  /** Account expected to hold the NFTs of owners without a wallet */
+  treasuryAccountId?: string;
+  /** Give up once this many records could not be checked */
+  maxCheckErrors: number;
+  /** How often the scheduled reconciliation runs */
+  intervalMs: number;
+}
+
+export interface ReconcileRequest {
+  sources?: LedgerSource[];
+  /** Check at most this many records of each source */
+  limit?: number;
+}
+
+interface ExpectedTransaction {
+  required: boolean;
+  names: string[];
+  entityId?: string;
+  consensusTimestamp?: string;
+}
+
+interface ReconciliationRun {
+  summary: Partial<Record<LedgerSource, LedgerSourceSummary>>;
+  discrepancies: LedgerDiscrepancy[];
+  checkErrors: LedgerCheckError[];
+  recordsChecked: number;
+}
+
+/**
+ * LedgerReconciliationService checks that the blockchain references stored
+ * with bookings, swaps, payments and swap targets match what the Hedera
+ * mirror node reports: each transaction must exist, have succeeded and be of
+ * the expected kind on the expected topic or token, and each booking NFT must
+ * still exist and be held by the booking's owner.
+ *
+ * Runs are stored as reports. One runs on a schedule; admins can queue more.
+ */
+export class LedgerReconciliationService {
+  constructor(
+    private readonly repository: LedgerReconciliationRepository,
+    private readonly verificationService: BlockchainVerificationService,
+    private readonly jobScheduler: JobScheduler,
+    private readonly options: LedgerReconciliationOptions
+  ) {}
+
+  registerJobHandlers(): void {
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.LEDGER_RECONCILIATION,
+      async () => {
+        const active = await this.repository.findActiveReport();
+        if (active) {
+          logger.info('Ledger reconciliation already in progress, skipping', {
+            reportId: active.id,
+          });
+          return;
+        }
+
+        await this.runNewReport('schedule');
+      },
+      { intervalMs: this.options.intervalMs }
+    );
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.LEDGER_RECONCILIATION_REQUEST,
+      async job => {
+        await this.runReport(job.payload.reportId);
+      }
+    );
+  }
+
+  /**
+   * Queue a reconciliation run. If one is already queued or running, that
+   * report is returned instead.
+   */
+  async requestReport(
+    adminId: string | undefined,
+    sources: LedgerSource[] = LEDGER_SOURCES
+  ): Promise<LedgerReconciliationReport> {
+    const active = await this.repository.findActiveReport();
+    if (active) {
+      return active;
+    }
+
+    const report = await this.repository.createReport(
+      'admin',
+      sources,
+      adminId
+    );
+    await this.jobScheduler.schedule(
+      SCHEDULED_JOB_TYPES.LEDGER_RECONCILIATION_REQUEST,
+      { reportId: report.id },
+      { dedupKey: `ledger-reconciliation:${report.id}`, maxAttempts: 1 }
+    );
+
+    logger.info('Ledger reconciliation requested', {
+      reportId: report.id,
+      adminId,
+      sources,
+    });
+    return report;
+  }
+
+  /**
+   * Create a report and run it straight away
+   */
+  async runNewReport(
+    trigger: LedgerReconciliationTrigger,
+    sources: LedgerSource[] = LEDGER_SOURCES
+  ): Promise<LedgerReconciliationReport> {
+    const report = await this.repository.createReport(trigger, sources);
+    return (await this.runReport(report.id)) || report;
+  }
+
+  /**
+   * Run a queued report. Returns null if the report is no longer queued.
+   */
+  async runReport(
+    reportId: string
+  ): Promise<LedgerReconciliationReport | null> {
+    const report = await this.repository.startReport(
+      reportId,
+      this.options.mirrorNodeUrl
+    );
+    if (!report) {
+      return null;
+    }
+
+    try {
+      const result = await this.reconcile({ sources: report.sources });
+      const completed = await this.repository.completeReport(reportId, result);
+
+      logger.info('Ledger reconciliation completed', {
+        reportId,
+        recordsChecked: completed.recordsChecked,
+        discrepancies: completed.discrepancyCount,
+        checkErrors: completed.checkErrors.length,
+      });
+      return completed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Ledger reconciliation failed', {
+        reportId,
+        error: message,
+      });
+      return this.repository.failReport(reportId, message);
+    }
+  }
+
+  async getReport(reportId: string): Promise<LedgerReconciliationReport> {
+    const report = await this.repository.findReportById(reportId);
+    if (!report) {
+      throw new Error('Ledger reconciliation report not found');
+    }
+    return report;
+  }
+
+  async listReports(
+    limit: number,
+    offset: number
+  ): Promise<{ reports: LedgerReconciliationReport[]; total: number }> {
+    return this.repository.findReports(limit, offset);
+  }
+
+  /**
+   * Compare the database with the mirror node without storing a report
+   */
+  async reconcile(
+    request: ReconcileRequest = {}
+  ): Promise<LedgerReconciliationResult> {
+    const run: ReconciliationRun = {
+      summary: {},
+      discrepancies: [],
+      checkErrors: [],
+      recordsChecked: 0,
+    };
+
+    for (const source of request.sources || LEDGER_SOURCES) {
+      run.summary[source] = {
+        records: 0,
+        transactionsChecked: 0,
+        nftsChecked: 0,
+        pending: 0,
+        missing: 0,
+        failed: 0,
+        mismatched: 0,
+        nftOwnershipDrift: 0,
+        errors: 0,
+      };
+
+      switch (source) {
+        case 'bookings':
+          await this.forEachRecord(
+            run,
+            source,
+            (afterId, limit) => this.repository.findBookings(afterId, limit),
+            request.limit,
+            async booking => {
+              await this.checkTransaction(
+                run,
+                source,
+                booking.id,
+                'transactionId',
+                booking.transactionId,
+                {
+                  required: true,
+                  names: [TOPIC_MESSAGE],
+                  entityId: booking.topicId || this.options.topicId,
+                  consensusTimestamp: booking.consensusTimestamp,
+                }
+              );
+
+              if (booking.nftTokenId && booking.nftSerialNumber !== undefined) {
+                await this.checkTransaction(
+                  run,
+                  source,
+                  booking.id,
+                  'nftTransactionId',
+                  booking.nftTransactionId,
+                  {
+                    required: true,
+                    names: ['TOKENMINT'],
+                    entityId: booking.nftTokenId,
+                  }
+                );
+                await this.checkNftOwnership(
+                  run,
+                  booking.id,
+                  booking.nftTokenId,
+                  booking.nftSerialNumber,
+                  booking.ownerAccountId || this.options.treasuryAccountId
+                );
+              }
+            }
+          );
+          break;
+
+        case 'swaps':
+          await this.forEachRecord(
+            run,
+            source,
+            (afterId, limit) => this.repository.findSwaps(afterId, limit),
+            request.limit,
+            async swap => {
+              const expected = {
+                names: [TOPIC_MESSAGE],
+                entityId: this.options.topicId,
+              };
+              await this.checkTransaction(
+                run,
+                source,
+                swap.id,
+                'proposalTransactionId',
+                swap.proposalTransactionId,
+                {
+                  ...expected,
+                  required: true,
+                }
+              );
+              await this.checkTransaction(
+                run,
+                source,
+                swap.id,
+                'executionTransactionId',
+                swap.executionTransactionId,
+                {
+                  ...expected,
+                  required: false,
+                }
+              );
+              await this.checkTransaction(
+                run,
+                source,
+                swap.id,
+                'completionTransactionId',
+                swap.completionTransactionId,
+                {
+                  ...expected,
+                  required: false,
+                }
+              );
+            }
+          );
+          break;
+
+        case 'payments':
+          await this.forEachRecord(
+            run,
+            source,
+            (afterId, limit) => this.repository.findPayments(afterId, limit),
+            request.limit,
+            async payment => {
+              await this.checkTransaction(
+                run,
+                source,
+                payment.id,
+                'transactionId',
+                payment.transactionId,
+                {
+                  required: true,
+                  names: [TOPIC_MESSAGE],
+                }
+              );
+            }
+          );
+          break;
+
+        case 'targeting':
+          await this.forEachRecord(
+            run,
+            source,
+            (afterId, limit) => this.repository.findTargets(afterId, limit),
+            request.limit,
+            async target => {
+              if (
+                !target.transactionId &&
+                (target.recordStatus === 'pending' ||
+                  target.recordStatus === 'processing')
+              ) {
+                run.summary[source]!.pending++;
+                return;
+              }
+
+              await this.checkTransaction(
+                run,
+                source,
+                target.id,
+                'transactionId',
+                target.transactionId,
+                {
+                  required: true,
+                  names: [TOPIC_MESSAGE],
+                  entityId: this.options.topicId,
+                }
+              );
+            }
+          );
+          break;
+      }
+    }
+
+    return run;
+  }
+
+  private async forEachRecord<T extends { id: string }>(
+    run: ReconciliationRun,
+    source: LedgerSource,
+    findPage: (afterId: string | null, limit: number) => Promise<T[]>,
+    limit: number | undefined,
+    check: (record: T) => Promise<void>
+  ): Promise<void> {
+    const summary = run.summary[source]!;
+    let afterId: string | null = null;
+
+    while (limit === undefined || summary.records < limit) {
+      const pageSize =
+        limit === undefined
+          ? this.options.pageSize
+          : Math.min(this.options.pageSize, limit - summary.records);
+      const records = await findPage(afterId, pageSize);
+
+      for (const record of records) {
+        await check(record);
+        summary.records++;
+        run.recordsChecked++;
+      }
+
+      if (records.length < pageSize) {
+        break;
+      }
+      afterId = records[records.length - 1]!.id;
+    }
+  }
+
+  private async checkTransaction(
+    run: ReconciliationRun,
+    source: LedgerSource,
+    recordId: string,
+    field: string,
+    transactionId: string | undefined,
+    expected: ExpectedTransaction
+  ): Promise<void> {
+    const summary = run.summary[source]!;
+    const addDiscrepancy = (
+      kind: 'missing' | 'failed' | 'mismatched',
+      message: string,
+      values: { expected?: string; actual?: string } = {}
+    ) => {
+      summary[kind]++;
+      run.discrepancies.push({
+        kind,
+        source,
+        recordId,
+        field,
+        transactionId,
+        ...values,
+        message,
+      });
+    };
+
+    if (!transactionId) {
+      if (expected.required) {
+        addDiscrepancy('missing', 'No transaction recorded');
+      }
+      return;
+    }
+    if (transactionId.startsWith(PENDING_TRANSACTION_PREFIX)) {
+      summary.pending++;
+      return;
+    }
+    if (!isHederaTransactionId(transactionId)) {
+      addDiscrepancy('missing', 'Stored value is not a Hedera transaction ID');
+      return;
+    }
+
+    summary.transactionsChecked++;
+    let transaction;
+    try {
+      transaction =
+        await this.verificationService.getMirrorNodeTransaction(transactionId);
+    } catch (error) {
+      this.recordCheckError(run, source, recordId, field, error);
+      return;
+    }
+
+    if (!transaction) {
+      addDiscrepancy('missing', 'Transaction not found on the mirror node');
+      return;
+    }
+    if (transaction.result !== 'SUCCESS') {
+      addDiscrepancy('failed', 'Transaction did not succeed', {
+        expected: 'SUCCESS',
+        actual: transaction.result,
+      });
+      return;
+    }
+    if (!expected.names.includes(transaction.name)) {
+      addDiscrepancy('mismatched', 'Transaction is of an unexpected type', {
+        expected: expected.names.join(' or '),
+        actual: transaction.name,
+      });
+    }
+    if (expected.entityId && transaction.entityId !== expected.entityId) {
+      addDiscrepancy(
+        'mismatched',
+        'Transaction is for a different topic or token',
+        {
+          expected: expected.entityId,
+          actual: transaction.entityId,
+        }
+      );
+    }
+    if (
+      expected.consensusTimestamp &&
+      transaction.consensusTimestamp !== expected.consensusTimestamp
+    ) {
+      addDiscrepancy(
+        'mismatched',
+        'Consensus timestamp differs from the ledger',
+        {
+          expected: expected.consensusTimestamp,
+          actual: transaction.consensusTimestamp,
+        }
+      );
+    }
+  }
+
+  private async checkNftOwnership(
+    run: ReconciliationRun,
+    bookingId: string,
+    tokenId: string,
+    serialNumber: number,
+    expectedOwner: string | undefined
+  ): Promise<void> {
+    const summary = run.summary.bookings!;
+    const discrepancy = {
+      source: 'bookings' as const,
+      recordId: bookingId,
+      field: 'nftTokenId',
+      tokenId,
+      serialNumber,
+    };
+
+    summary.nftsChecked++;
+    let nft;
+    try {
+      nft = await this.verificationService.getMirrorNodeNft(
+        tokenId,
+        serialNumber
+      );
+    } catch (error) {
+      this.recordCheckError(run, 'bookings', bookingId, 'nftTokenId', error);
+      return;
+    }
+
+    if (!nft || nft.deleted) {
+      summary.missing++;
+      run.discrepancies.push({
+        ...discrepancy,
+        kind: 'missing',
+        message: nft
+          ? 'NFT has been burned on the ledger'
+          : 'NFT not found on the mirror node',
+      });
+      return;
+    }
+
+    if (expectedOwner && nft.accountId !== expectedOwner) {
+      summary.nftOwnershipDrift++;
+      run.discrepancies.push({
+        ...discrepancy,
+        kind: 'nft_ownership_drift',
+        expected: expectedOwner,
+        actual: nft.accountId,
+        message: 'NFT is held by a different account than the booking owner',
+      });
+    }
+  }
+
+  /**
+   * Note a record that could not be checked. Too many in one run means the
+   * mirror node is unavailable, so the run stops.
+   */
+  private recordCheckError(
+    run: ReconciliationRun,
+    source: LedgerSource,
+    recordId: string,
+    field: string,
+    error: unknown
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    run.summary[source]!.errors++;
+    run.checkErrors.push({ source, recordId, field, message });
+
+    if (run.checkErrors.length >= this.options.maxCheckErrors) {
+      throw new Error(
+        `Stopped after ${run.checkErrors.length} records could not be checked: ${message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,459 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LedgerReconciliationService } from '../LedgerReconciliationService';
+import { BlockchainVerificationService } from '../../hedera/BlockchainVerificationService';
+import { SCHEDULED_JOB_TYPES } from '../../scheduler/JobScheduler';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const TOPIC = '0.0.5000';
+const TOKEN = '0.0.7000';
+const TREASURY = '0.0.2';
+
+// Mirror node contents, keyed by the path the service requests
+let transactions: Record<string, any>;
+let nfts: Record<string, any>;
+let mirrorStatus: number;
+
+const topicMessage = (id: string, overrides: Record<string, any> = {}) => ({
+  transaction_id: id,
+  result: 'SUCCESS',
+  name: 'CONSENSUSSUBMITMESSAGE',
+  consensus_timestamp: '1700000001.000000001',
+  entity_id: TOPIC,
+  nonce: 0,
+  ...overrides,
+});
+
+const booking = (overrides: Record<string, any> = {}) => ({
+  id: 'booking-1',
+  status: 'available',
+  transactionId: '0.0.2@1700000000.000000001',
+  consensusTimestamp: '1700000001.000000001',
+  topicId: TOPIC,
+  ...overrides,
+});
+
+const page = (records: any[]) =>
+  vi.fn().mockImplementation(async (afterId: string | null, limit: number) => {
+    const start = afterId
+      ? records.findIndex(record => record.id === afterId) + 1
+      : 0;
+    return records.slice(start, start + limit);
+  });
+
+describe('LedgerReconciliationService', () => {
+  let server: http.Server;
+  let mirrorNodeUrl: string;
+  let repository: any;
+  let jobScheduler: any;
+  let service: LedgerReconciliationService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const path = decodeURIComponent(req.url || '');
+      const txMatch = /^\/api\/v1\/transactions\/(.+)$/.exec(path);
+      const nftMatch = /^\/api\/v1\/tokens\/(.+)\/nfts\/(\d+)$/.exec(path);
+      const body = txMatch
+        ? transactions[txMatch[1]!] && {
+            transactions: transactions[txMatch[1]!],
+          }
+        : nftMatch && nfts[`${nftMatch[1]}/${nftMatch[2]}`];
+
+      const status = mirrorStatus !== 200 ? mirrorStatus : body ? 200 : 404;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(
+          status === 200
+            ? body
+            : { _status: { messages: [{ message: 'Not found' }] } }
+        )
+      );
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    mirrorNodeUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mirrorStatus = 200;
+    transactions = {
+      '0.0.2-1700000000-000000001': [
+        topicMessage('0.0.2-1700000000-000000001'),
+      ],
+    };
+    nfts = {};
+
+    repository = {
+      findBookings: page([]),
+      findSwaps: page([]),
+      findPayments: page([]),
+      findTargets: page([]),
+      createReport: vi
+        .fn()
+        .mockImplementation(async (trigger, sources, requestedBy) => ({
+          id: 'report-1',
+          status: 'queued',
+          trigger,
+          sources,
+          requestedBy,
+        })),
+      startReport: vi.fn().mockImplementation(async (id, url) => ({
+        id,
+        status: 'running',
+        sources: ['bookings'],
+        mirrorNodeUrl: url,
+      })),
+      completeReport: vi.fn().mockImplementation(async (id, result) => ({
+        id,
+        status: 'completed',
+        ...result,
+      })),
+      failReport: vi.fn().mockImplementation(async (id, error) => ({
+        id,
+        status: 'failed',
+        error,
+      })),
+      findActiveReport: vi.fn().mockResolvedValue(null),
+    };
+    jobScheduler = {
+      registerHandler: vi.fn(),
+      schedule: vi.fn().mockResolvedValue({ id: 'job-1' }),
+    };
+
+    service = new LedgerReconciliationService(
+      repository,
+      new BlockchainVerificationService({} as any, mirrorNodeUrl),
+      jobScheduler,
+      {
+        mirrorNodeUrl,
+        pageSize: 2,
+        topicId: TOPIC,
+        treasuryAccountId: TREASURY,
+        maxCheckErrors: 3,
+        intervalMs: 86400000,
+      }
+    );
+  });
+
+  it('finds no discrepancies when the database matches the ledger', async () => {
+    transactions['0.0.2-1700000100-000000002'] = [
+      topicMessage('0.0.2-1700000100-000000002', {
+        name: 'TOKENMINT',
+        entity_id: TOKEN,
+      }),
+      // Child record of the same transaction
+      topicMessage('0.0.2-1700000100-000000002', {
+        name: 'CRYPTOTRANSFER',
+        entity_id: null,
+        nonce: 1,
+      }),
+    ];
+    nfts[`${TOKEN}/1`] = {
+      token_id: TOKEN,
+      serial_number: 1,
+      account_id: '0.0.9001',
+      deleted: false,
+    };
+    repository.findBookings = page([
+      booking({
+        nftTokenId: TOKEN,
+        nftSerialNumber: 1,
+        nftTransactionId: '0.0.2@1700000100.000000002',
+        ownerAccountId: '0.0.9001',
+      }),
+    ]);
+    repository.findPayments = page([
+      {
+        id: 'payment-1',
+        status: 'completed',
+        transactionId: '0.0.2-1700000000-000000001',
+      },
+    ]);
+
+    const result = await service.reconcile({
+      sources: ['bookings', 'payments'],
+    });
+
+    expect(result.discrepancies).toEqual([]);
+    expect(result.checkErrors).toEqual([]);
+    expect(result.recordsChecked).toBe(2);
+    expect(result.summary.bookings).toMatchObject({
+      records: 1,
+      transactionsChecked: 2,
+      nftsChecked: 1,
+    });
+  });
+
+  it('reports missing, failed and mismatched transactions', async () => {
+    transactions['0.0.2-1700000200-000000003'] = [
+      topicMessage('0.0.2-1700000200-000000003', {
+        result: 'INVALID_SIGNATURE',
+      }),
+    ];
+    transactions['0.0.2-1700000300-000000004'] = [
+      topicMessage('0.0.2-1700000300-000000004', { entity_id: '0.0.6000' }),
+    ];
+    repository.findSwaps = page([
+      {
+        id: 'swap-1',
+        status: 'pending',
+        proposalTransactionId: '0.0.2@1700000400.000000005',
+      },
+      {
+        id: 'swap-2',
+        status: 'pending',
+        proposalTransactionId: '0.0.2@1700000200.000000003',
+      },
+      {
+        id: 'swap-3',
+        status: 'completed',
+        proposalTransactionId: '0.0.2@1700000300.000000004',
+      },
+      { id: 'swap-4', status: 'pending', proposalTransactionId: '' },
+      { id: 'swap-5', status: 'pending', proposalTransactionId: 'tx-123' },
+    ]);
+    repository.findBookings = page([
+      booking({ consensusTimestamp: '1700000009.000000000' }),
+    ]);
+
+    const result = await service.reconcile({ sources: ['swaps', 'bookings'] });
+
+    expect(result.discrepancies).toEqual([
+      expect.objectContaining({
+        kind: 'missing',
+        recordId: 'swap-1',
+        message: 'Transaction not found on the mirror node',
+      }),
+      expect.objectContaining({
+        kind: 'failed',
+        recordId: 'swap-2',
+        actual: 'INVALID_SIGNATURE',
+      }),
+      expect.objectContaining({
+        kind: 'mismatched',
+        recordId: 'swap-3',
+        expected: TOPIC,
+        actual: '0.0.6000',
+      }),
+      expect.objectContaining({
+        kind: 'missing',
+        recordId: 'swap-4',
+        message: 'No transaction recorded',
+      }),
+      expect.objectContaining({
+        kind: 'missing',
+        recordId: 'swap-5',
+        transactionId: 'tx-123',
+      }),
+      expect.objectContaining({
+        kind: 'mismatched',
+        source: 'bookings',
+        field: 'transactionId',
+        expected: '1700000009.000000000',
+        actual: '1700000001.000000001',
+      }),
+    ]);
+    expect(result.summary.swaps).toMatchObject({
+      records: 5,
+      missing: 3,
+      failed: 1,
+      mismatched: 1,
+    });
+  });
+
+  it('reports NFTs that were burned or are held by another account', async () => {
+    transactions['0.0.2-1700000100-000000002'] = [
+      topicMessage('0.0.2-1700000100-000000002', {
+        name: 'TOKENMINT',
+        entity_id: TOKEN,
+      }),
+    ];
+    nfts[`${TOKEN}/1`] = {
+      token_id: TOKEN,
+      serial_number: 1,
+      account_id: TREASURY,
+      deleted: false,
+    };
+    nfts[`${TOKEN}/2`] = {
+      token_id: TOKEN,
+      serial_number: 2,
+      account_id: null,
+      deleted: true,
+    };
+    nfts[`${TOKEN}/3`] = {
+      token_id: TOKEN,
+      serial_number: 3,
+      account_id: TREASURY,
+      deleted: false,
+    };
+    const nft = (id: string, serial: number, ownerAccountId?: string) =>
+      booking({
+        id,
+        nftTokenId: TOKEN,
+        nftSerialNumber: serial,
+        nftTransactionId: '0.0.2@1700000100.000000002',
+        ownerAccountId,
+      });
+    repository.findBookings = page([
+      nft('booking-1', 1, '0.0.9001'),
+      nft('booking-2', 2, '0.0.9002'),
+      // Owner has no wallet, so the NFT stays with the treasury
+      nft('booking-3', 3),
+    ]);
+
+    const result = await service.reconcile({ sources: ['bookings'] });
+
+    expect(result.discrepancies).toEqual([
+      expect.objectContaining({
+        kind: 'nft_ownership_drift',
+        recordId: 'booking-1',
+        tokenId: TOKEN,
+        serialNumber: 1,
+        expected: '0.0.9001',
+        actual: TREASURY,
+      }),
+      expect.objectContaining({
+        kind: 'missing',
+        recordId: 'booking-2',
+        message: 'NFT has been burned on the ledger',
+      }),
+    ]);
+    expect(result.summary.bookings).toMatchObject({
+      nftsChecked: 3,
+      nftOwnershipDrift: 1,
+      missing: 1,
+    });
+  });
+
+  it('counts records not yet written to the ledger as pending', async () => {
+    repository.findPayments = page([
+      { id: 'payment-1', status: 'pending', transactionId: 'pending_4f1c' },
+    ]);
+    repository.findTargets = page([
+      { id: 'target-1', status: 'active', recordStatus: 'pending' },
+      { id: 'target-2', status: 'active', recordStatus: 'dead' },
+    ]);
+
+    const result = await service.reconcile({
+      sources: ['payments', 'targeting'],
+    });
+
+    expect(result.summary.payments).toMatchObject({ pending: 1, missing: 0 });
+    expect(result.summary.targeting).toMatchObject({ pending: 1, missing: 1 });
+    expect(result.discrepancies).toEqual([
+      expect.objectContaining({
+        source: 'targeting',
+        recordId: 'target-2',
+        kind: 'missing',
+      }),
+    ]);
+  });
+
+  it('pages through records up to the limit', async () => {
+    const swaps = ['a', 'b', 'c', 'd', 'e'].map(id => ({
+      id,
+      status: 'pending',
+      proposalTransactionId: '0.0.2@1700000000.000000001',
+    }));
+    repository.findSwaps = page(swaps);
+
+    const result = await service.reconcile({ sources: ['swaps'], limit: 3 });
+
+    expect(repository.findSwaps.mock.calls).toEqual([
+      [null, 2],
+      ['b', 1],
+    ]);
+    expect(result.summary.swaps!.records).toBe(3);
+  });
+
+  it('stops once too many records could not be checked', async () => {
+    mirrorStatus = 503;
+    repository.findPayments = page(
+      ['p1', 'p2', 'p3', 'p4'].map(id => ({
+        id,
+        status: 'completed',
+        transactionId: '0.0.2@1700000000.000000001',
+      }))
+    );
+
+    await expect(service.reconcile({ sources: ['payments'] })).rejects.toThrow(
+      'Stopped after 3 records could not be checked'
+    );
+  });
+
+  describe('reports', () => {
+    it('stores the result of a run', async () => {
+      repository.findBookings = page([booking()]);
+
+      const report = await service.runReport('report-1');
+
+      expect(repository.startReport).toHaveBeenCalledWith(
+        'report-1',
+        mirrorNodeUrl
+      );
+      expect(repository.completeReport).toHaveBeenCalledWith(
+        'report-1',
+        expect.objectContaining({ recordsChecked: 1, discrepancies: [] })
+      );
+      expect(report!.status).toBe('completed');
+    });
+
+    it('marks the report failed when the run stops', async () => {
+      mirrorStatus = 500;
+      repository.findBookings = page(
+        ['b1', 'b2', 'b3'].map(id => booking({ id }))
+      );
+
+      const report = await service.runReport('report-1');
+
+      expect(repository.failReport).toHaveBeenCalledWith(
+        'report-1',
+        expect.stringContaining('Mirror node returned 500')
+      );
+      expect(report!.status).toBe('failed');
+    });
+
+    it('skips reports another instance already started', async () => {
+      repository.startReport.mockResolvedValue(null);
+
+      expect(await service.runReport('report-1')).toBeNull();
+      expect(repository.findBookings).not.toHaveBeenCalled();
+    });
+
+    it('queues a requested run unless one is in progress', async () => {
+      const report = await service.requestReport('admin-1', ['swaps']);
+
+      expect(repository.createReport).toHaveBeenCalledWith(
+        'admin',
+        ['swaps'],
+        'admin-1'
+      );
+      expect(jobScheduler.schedule).toHaveBeenCalledWith(
+        SCHEDULED_JOB_TYPES.LEDGER_RECONCILIATION_REQUEST,
+        { reportId: report.id },
+        expect.objectContaining({ maxAttempts: 1 })
+      );
+
+      repository.findActiveReport.mockResolvedValue({
+        id: 'report-0',
+        status: 'running',
+      });
+      expect((await service.requestReport('admin-1')).id).toBe('report-0');
+      expect(jobScheduler.schedule).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { Pool } from 'pg';
+import { LedgerReconciliationRepository } from '../../database/repositories/LedgerReconciliationRepository';
+import { BlockchainVerificationService } from '../hedera/BlockchainVerificationService';
+import { HederaService } from '../hedera/HederaService';
+import { getHederaConfig } from '../hedera/config';
+import { createJobScheduler } from '../scheduler/factory';
+import { LedgerReconciliationService } from './LedgerReconciliationService';
+
+let ledgerReconciliationService: LedgerReconciliationService | null = null;
+
+/**
+ * Reconciliation against the mirror node of the configured Hedera network.
+ * Its scheduled run is registered on the shared job scheduler, so create it
+ * before the scheduler starts.
+ */
+export function createLedgerReconciliationService(
+  pool: Pool,
+  hederaService: HederaService
+): LedgerReconciliationService {
+  if (!ledgerReconciliationService) {
+    const hederaConfig = getHederaConfig();
+
+    ledgerReconciliationService = new LedgerReconciliationService(
+      new LedgerReconciliationRepository(pool),
+      new BlockchainVerificationService(
+        hederaService,
+        hederaConfig.mirrorNodeUrl
+      ),
+      createJobScheduler(pool),
+      {
+        mirrorNodeUrl: hederaConfig.mirrorNodeUrl,
+        pageSize: parseInt(
+          process.env.LEDGER_RECONCILIATION_PAGE_SIZE || '100'
+        ),
+        topicId: hederaConfig.topicId,
+        treasuryAccountId: hederaConfig.accountId,
+        maxCheckErrors: parseInt(
+          process.env.LEDGER_RECONCILIATION_MAX_CHECK_ERRORS || '50'
+        ),
+        intervalMs: parseInt(
+          process.env.LEDGER_RECONCILIATION_INTERVAL_MS || '86400000'
+        ),
+      }
+    );
+    ledgerReconciliationService.registerJobHandlers();
+  }
+
+  return ledgerReconciliationService;
+}
+
+export function resetLedgerReconciliationService(): void {
+  ledgerReconciliationService = null;
+}
@@ -0,0 +1,12 @@
+export {
+  LedgerReconciliationService,
+  LEDGER_SOURCES,
+} from './LedgerReconciliationService';
+export type {
+  LedgerReconciliationOptions,
+  ReconcileRequest,
+} from './LedgerReconciliationService';
+export {
+  createLedgerReconciliationService,
+  resetLedgerReconciliationService,
+} from './factory';
@@ -0,0 +1,184 @@
+import {
+  ReputationBadge,
+  ReputationBadgeId,
+  UserReputationSummary,
+} from '@booking-swap/shared';
+import {
+  ReviewRatingStats,
+  ReviewRepository,
+  SwapOutcomeCounts,
+} from '../../database/repositories/ReviewRepository';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+
+// Ratings are pulled towards a neutral prior until a user has a few reviews,
+// so a single 5-star (or 1-star) review does not dominate the score.
+const PRIOR_RATING = 3.5;
+const PRIOR_WEIGHT = 3;
+// Share of the score that comes from completing rather than cancelling swaps
+const RELIABILITY_WEIGHT = 0.2;
+const MAX_SCORE = 5;
+// Users recomputed per scheduled refresh run
+const REFRESH_BATCH_SIZE = 100;
+const DEFAULT_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+const BADGES: Record<ReputationBadgeId, ReputationBadge> = {
+  new_member: {
+    id: 'new_member',
+    label: 'New member',
+    description: 'Has not completed a swap yet',
+  },
+  top_rated: {
+    id: 'top_rated',
+    label: 'Top rated',
+    description: 'Average rating of 4.5 or more from at least 5 reviews',
+  },
+  reliable: {
+    id: 'reliable',
+    label: 'Reliable',
+    description: 'Completed at least 5 swaps without cancelling any',
+  },
+  trusted_swapper: {
+    id: 'trusted_swapper',
+    label: 'Trusted swapper',
+    description: 'Completed at least 10 swaps with fewer than 10% cancelled',
+  },
+};
+
+/**
+ * Pure scoring function: 0-5, combining a smoothed average rating with the
+ * share of swaps the user completed instead of cancelling.
+ */
+export function calculateReputationScore(
+  ratings: ReviewRatingStats,
+  counts: SwapOutcomeCounts
+): number {
+  const finishedSwaps = counts.completedSwaps + counts.cancelledSwaps;
+  if (ratings.reviewCount === 0 && finishedSwaps === 0) {
+    return 0;
+  }
+
+  const ratingSum = (ratings.averageRating ?? 0) * ratings.reviewCount;
+  const smoothedRating =
+    (ratingSum + PRIOR_RATING * PRIOR_WEIGHT) /
+    (ratings.reviewCount + PRIOR_WEIGHT);
+  const completionRate =
+    finishedSwaps > 0 ? counts.completedSwaps / finishedSwaps : 1;
+
+  const score =
+    smoothedRating * (1 - RELIABILITY_WEIGHT) +
+    completionRate * MAX_SCORE * RELIABILITY_WEIGHT;
+
+  return Math.round(Math.min(MAX_SCORE, Math.max(0, score)) * 100) / 100;
+}
+
+export function determineBadges(
+  ratings: ReviewRatingStats,
+  counts: SwapOutcomeCounts
+): ReputationBadge[] {
+  const badges: ReputationBadge[] = [];
+  const finishedSwaps = counts.completedSwaps + counts.cancelledSwaps;
+
+  if (counts.completedSwaps === 0) {
+    badges.push(BADGES.new_member);
+  }
+  if (ratings.reviewCount >= 5 && (ratings.averageRating ?? 0) >= 4.5) {
+    badges.push(BADGES.top_rated);
+  }
+  if (counts.completedSwaps >= 5 && counts.cancelledSwaps === 0) {
+    badges.push(BADGES.reliable);
+  }
+  if (
+    counts.completedSwaps >= 10 &&
+    counts.cancelledSwaps / finishedSwaps < 0.1
+  ) {
+    badges.push(BADGES.trusted_swapper);
+  }
+
+  return badges;
+}
+
+/**
+ * ReputationService recomputes a user's reputation from their visible reviews
+ * and completed/cancelled swap counts, and stores it on the user row.
+ */
+export class ReputationService {
+  constructor(
+    private readonly reviewRepository: ReviewRepository,
+    private readonly jobScheduler?: JobScheduler,
+    private readonly refreshIntervalMs: number = DEFAULT_REFRESH_INTERVAL_MS
+  ) {}
+
+  registerJobHandlers(): void {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.REPUTATION_REFRESH,
+      async () => {
+        await this.refreshUncountedReputations();
+      },
+      { intervalMs: this.refreshIntervalMs }
+    );
+  }
+
+  async getReputation(userId: string): Promise<UserReputationSummary> {
+    const [ratings, counts] = await Promise.all([
+      this.reviewRepository.getVisibleRatingStats(userId),
+      this.reviewRepository.getSwapOutcomeCounts(userId),
+    ]);
+
+    return {
+      userId,
+      score: calculateReputationScore(ratings, counts),
+      averageRating:
+        ratings.averageRating !== null
+          ? Math.round(ratings.averageRating * 100) / 100
+          : null,
+      reviewCount: ratings.reviewCount,
+      completedSwaps: counts.completedSwaps,
+      cancelledSwaps: counts.cancelledSwaps,
+      badges: determineBadges(ratings, counts),
+    };
+  }
+
+  /**
+   * Recompute and persist the user's reputation
+   */
+  async recomputeReputation(userId: string): Promise<UserReputationSummary> {
+    const reputation = await this.getReputation(userId);
+    await this.reviewRepository.updateUserReputation(userId, reputation.score, {
+      completedSwaps: reputation.completedSwaps,
+      cancelledSwaps: reputation.cancelledSwaps,
+    });
+
+    logger.debug('Reputation recomputed', {
+      userId,
+      score: reputation.score,
+      reviewCount: reputation.reviewCount,
+    });
+
+    return reputation;
+  }
+
+  /**
+   * Recompute the stored reputation of users whose reviews became visible
+   * since it was stored, e.g. when a review window closed without the other
+   * party reviewing. Returns how many users were recomputed.
+   */
+  async refreshUncountedReputations(): Promise<number> {
+    const userIds =
+      await this.reviewRepository.findUsersWithUncountedReviews(
+        REFRESH_BATCH_SIZE
+      );
+    for (const userId of userIds) {
+      await this.recomputeReputation(userId);
+    }
+
+    if (userIds.length > 0) {
+      logger.info('Reputations refreshed', { count: userIds.length });
+    }
+    return userIds.length;
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  REVIEW_WINDOW_DAYS,
+  ReviewError,
+  ReviewErrorCodes,
+  SubmitReviewRequest,
+  SubmitReviewResult,
+  UserReputationSummary,
+  UserReviewsResult,
+} from '@booking-swap/shared';
+import { ReviewRepository } from '../../database/repositories/ReviewRepository';
+import { ReputationService } from './ReputationService';
+import { logger } from '../../utils/logger';
+import {
+  POSTGRES_ERROR_CODES,
+  PostgresError,
+} from '../../utils/postgresErrorHandling';
+
+const MAX_COMMENT_LENGTH = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ReviewService handles reviews left by the parties of a completed swap.
+ * Each party reviews the other once; reviews stay hidden until both have
+ * reviewed or the review window closes.
+ */
+export class ReviewService {
+  constructor(
+    private readonly reviewRepository: ReviewRepository,
+    private readonly reputationService: ReputationService,
+    private readonly reviewWindowDays: number = REVIEW_WINDOW_DAYS
+  ) {}
+
+  async submitReview(
+    swapId: string,
+    reviewerId: string,
+    request: SubmitReviewRequest
+  ): Promise<SubmitReviewResult> {
+    this.validateRequest(request);
+
+    const swap = await this.reviewRepository.findReviewableSwap(swapId);
+    if (!swap) {
+      throw new ReviewError(ReviewErrorCodes.SWAP_NOT_FOUND, 'Swap not found');
+    }
+
+    if (!swap.partyIds.includes(reviewerId)) {
+      throw new ReviewError(
+        ReviewErrorCodes.NOT_SWAP_PARTY,
+        'Only the parties to a swap can review it'
+      );
+    }
+
+    if (swap.status !== 'completed') {
+      throw new ReviewError(
+        ReviewErrorCodes.SWAP_NOT_COMPLETED,
+        'Swaps can only be reviewed once they are completed'
+      );
+    }
+
+    const reviewedUserId = swap.partyIds.find(id => id !== reviewerId);
+    if (!reviewedUserId) {
+      throw new ReviewError(
+        ReviewErrorCodes.INVALID_REVIEW,
+        'The other party of this swap could not be determined'
+      );
+    }
+
+    const windowClosesAt = new Date(
+      (swap.completedAt ?? new Date()).getTime() +
+        this.reviewWindowDays * DAY_MS
+    );
+    if (windowClosesAt.getTime() <= Date.now()) {
+      throw new ReviewError(
+        ReviewErrorCodes.REVIEW_WINDOW_CLOSED,
+        `Reviews must be submitted within ${this.reviewWindowDays} days of completion`
+      );
+    }
+
+    let result: SubmitReviewResult | null;
+    try {
+      result = await this.reviewRepository.createReview({
+        swapId,
+        exchangeSwapIds: swap.exchangeSwapIds,
+        reviewerId,
+        reviewedUserId,
+        rating: request.rating,
+        comment: request.comment?.trim() || undefined,
+        visibleAt: windowClosesAt,
+      });
+    } catch (error) {
+      // The unique index on reviewer and swap backs up the check under the lock
+      if (
+        (error as PostgresError).code === POSTGRES_ERROR_CODES.UNIQUE_VIOLATION
+      ) {
+        throw this.alreadyReviewed();
+      }
+      throw error;
+    }
+    if (!result) {
+      throw this.alreadyReviewed();
+    }
+
+    logger.info('Review submitted', {
+      swapId,
+      reviewerId,
+      reviewedUserId,
+      published: result.published,
+    });
+
+    if (result.published) {
+      await Promise.all([
+        this.reputationService.recomputeReputation(reviewedUserId),
+        this.reputationService.recomputeReputation(reviewerId),
+      ]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Visible reviews about a user plus their reputation. The reputation is
+   * read live, so reviews whose window has just closed are counted without
+   * writing on every read; the stored score catches up on its schedule.
+   */
+  async getUserReviews(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<UserReviewsResult> {
+    const [{ reviews, total }, reputation] = await Promise.all([
+      this.reviewRepository.findVisibleByReviewedUser(userId, limit, offset),
+      this.reputationService.getReputation(userId),
+    ]);
+
+    return { reviews, reputation, total };
+  }
+
+  async getUserReputation(userId: string): Promise<UserReputationSummary> {
+    return this.reputationService.getReputation(userId);
+  }
+
+  private validateRequest(request: SubmitReviewRequest): void {
+    if (
+      !Number.isInteger(request.rating) ||
+      request.rating < 1 ||
+      request.rating > 5
+    ) {
+      throw new ReviewError(
+        ReviewErrorCodes.INVALID_REVIEW,
+        'Rating must be a whole number between 1 and 5'
+      );
+    }
+
+    if (
+      request.comment !== undefined &&
+      (typeof request.comment !== 'string' ||
+        request.comment.length > MAX_COMMENT_LENGTH)
+    ) {
+      throw new ReviewError(
+        ReviewErrorCodes.INVALID_REVIEW,
+        `Comment must be ${MAX_COMMENT_LENGTH} characters or less`
+      );
+    }
+  }
+
+  private alreadyReviewed(): ReviewError {
+    return new ReviewError(
+      ReviewErrorCodes.ALREADY_REVIEWED,
+      'You have already reviewed this swap'
+    );
+  }
+}
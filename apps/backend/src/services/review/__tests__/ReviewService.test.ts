@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReviewErrorCodes } from '@booking-swap/shared';
+import { ReviewService } from '../ReviewService';
+import {
+  ReputationService,
+  calculateReputationScore,
+  determineBadges,
+} from '../ReputationService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const OWNER = 'owner-1';
+const COUNTERPARTY = 'counterparty-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ReviewService', () => {
+  let repository: any;
+  let reputationService: any;
+  let service: ReviewService;
+
+  beforeEach(() => {
+    repository = {
+      findReviewableSwap: vi.fn().mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'completed',
+        completedAt: new Date(Date.now() - DAY_MS),
+        partyIds: [OWNER, COUNTERPARTY],
+        exchangeSwapIds: ['swap-1', 'swap-2'],
+      }),
+      createReview: vi.fn().mockImplementation(async data => ({
+        review: { id: 'review-1', ...data, createdAt: new Date() },
+        published: false,
+      })),
+      findVisibleByReviewedUser: vi
+        .fn()
+        .mockResolvedValue({ reviews: [], total: 0 }),
+    };
+    reputationService = {
+      recomputeReputation: vi.fn().mockResolvedValue({ score: 4 }),
+      getReputation: vi.fn(),
+    };
+    service = new ReviewService(repository, reputationService, 14);
+  });
+
+  describe('submitReview', () => {
+    it('should review the other party and keep the review hidden until the window closes', async () => {
+      const result = await service.submitReview('swap-1', OWNER, {
+        rating: 5,
+        comment: '  Great swap  ',
+      });
+
+      const data = repository.createReview.mock.calls[0][0];
+      expect(data).toMatchObject({
+        swapId: 'swap-1',
+        exchangeSwapIds: ['swap-1', 'swap-2'],
+        reviewerId: OWNER,
+        reviewedUserId: COUNTERPARTY,
+        rating: 5,
+        comment: 'Great swap',
+      });
+      expect(data.visibleAt.getTime()).toBeGreaterThan(
+        Date.now() + 12 * DAY_MS
+      );
+      expect(result.published).toBe(false);
+      expect(reputationService.recomputeReputation).not.toHaveBeenCalled();
+    });
+
+    it('should recompute both reputations once both reviews are published', async () => {
+      repository.createReview.mockResolvedValue({
+        review: { id: 'review-2' },
+        published: true,
+      });
+
+      await service.submitReview('swap-1', COUNTERPARTY, { rating: 4 });
+
+      expect(reputationService.recomputeReputation).toHaveBeenCalledWith(OWNER);
+      expect(reputationService.recomputeReputation).toHaveBeenCalledWith(
+        COUNTERPARTY
+      );
+    });
+
+    it('should reject reviews before the swap is completed', async () => {
+      repository.findReviewableSwap.mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'accepted',
+        partyIds: [OWNER, COUNTERPARTY],
+      });
+
+      await expect(
+        service.submitReview('swap-1', OWNER, { rating: 4 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.SWAP_NOT_COMPLETED });
+    });
+
+    it('should reject users who did not take part in the swap', async () => {
+      await expect(
+        service.submitReview('swap-1', 'stranger', { rating: 4 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.NOT_SWAP_PARTY });
+    });
+
+    it('should only allow one review per party', async () => {
+      // Already reviewed on either swap record of the exchange
+      repository.createReview.mockResolvedValue(null);
+
+      await expect(
+        service.submitReview('swap-1', OWNER, { rating: 4 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.ALREADY_REVIEWED });
+    });
+
+    it('should map a unique violation to already reviewed', async () => {
+      repository.createReview.mockRejectedValue({ code: '23505' });
+
+      await expect(
+        service.submitReview('swap-1', OWNER, { rating: 4 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.ALREADY_REVIEWED });
+    });
+
+    it('should reject reviews after the review window closed', async () => {
+      repository.findReviewableSwap.mockResolvedValue({
+        swapId: 'swap-1',
+        status: 'completed',
+        completedAt: new Date(Date.now() - 15 * DAY_MS),
+        partyIds: [OWNER, COUNTERPARTY],
+      });
+
+      await expect(
+        service.submitReview('swap-1', OWNER, { rating: 4 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.REVIEW_WINDOW_CLOSED });
+    });
+
+    it('should reject ratings outside 1-5', async () => {
+      await expect(
+        service.submitReview('swap-1', OWNER, { rating: 6 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.INVALID_REVIEW });
+      await expect(
+        service.submitReview('swap-1', OWNER, { rating: 3.5 })
+      ).rejects.toMatchObject({ code: ReviewErrorCodes.INVALID_REVIEW });
+      expect(repository.findReviewableSwap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserReviews', () => {
+    it('should read the reputation without storing it', async () => {
+      reputationService.getReputation.mockResolvedValue({ score: 4.2 });
+
+      const result = await service.getUserReviews(OWNER);
+
+      expect(result.reputation).toEqual({ score: 4.2 });
+      expect(reputationService.getReputation).toHaveBeenCalledWith(OWNER);
+      expect(reputationService.recomputeReputation).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('ReputationService', () => {
+  describe('calculateReputationScore', () => {
+    it('should be 0 for users without reviews or finished swaps', () => {
+      expect(
+        calculateReputationScore(
+          { reviewCount: 0, averageRating: null },
+          { completedSwaps: 0, cancelledSwaps: 0 }
+        )
+      ).toBe(0);
+    });
+
+    it('should pull a single rating towards the prior', () => {
+      const score = calculateReputationScore(
+        { reviewCount: 1, averageRating: 5 },
+        { completedSwaps: 1, cancelledSwaps: 0 }
+      );
+
+      expect(score).toBeGreaterThan(3.5);
+      expect(score).toBeLessThan(5);
+    });
+
+    it('should lower the score for cancelled swaps', () => {
+      const ratings = { reviewCount: 10, averageRating: 4.8 };
+      const reliable = calculateReputationScore(ratings, {
+        completedSwaps: 10,
+        cancelledSwaps: 0,
+      });
+      const unreliable = calculateReputationScore(ratings, {
+        completedSwaps: 5,
+        cancelledSwaps: 5,
+      });
+
+      expect(unreliable).toBeLessThan(reliable);
+      expect(reliable).toBeLessThanOrEqual(5);
+    });
+  });
+
+  describe('determineBadges', () => {
+    it('should award badges from ratings and swap history', () => {
+      const badges = determineBadges(
+        { reviewCount: 8, averageRating: 4.7 },
+        { completedSwaps: 12, cancelledSwaps: 0 }
+      ).map(badge => badge.id);
+
+      expect(badges).toEqual(['top_rated', 'reliable', 'trusted_swapper']);
+    });
+
+    it('should mark users without completed swaps as new members', () => {
+      const badges = determineBadges(
+        { reviewCount: 0, averageRating: null },
+        { completedSwaps: 0, cancelledSwaps: 0 }
+      ).map(badge => badge.id);
+
+      expect(badges).toEqual(['new_member']);
+    });
+  });
+
+  it('should persist the recomputed score and counts', async () => {
+    const repository: any = {
+      getVisibleRatingStats: vi
+        .fn()
+        .mockResolvedValue({ reviewCount: 2, averageRating: 4 }),
+      getSwapOutcomeCounts: vi
+        .fn()
+        .mockResolvedValue({ completedSwaps: 3, cancelledSwaps: 1 }),
+      updateUserReputation: vi.fn().mockResolvedValue(undefined),
+    };
+    const service = new ReputationService(repository);
+
+    const reputation = await service.recomputeReputation('user-1');
+
+    expect(repository.updateUserReputation).toHaveBeenCalledWith(
+      'user-1',
+      reputation.score,
+      { completedSwaps: 3, cancelledSwaps: 1 }
+    );
+    expect(reputation.reviewCount).toBe(2);
+  });
+
+  it('should refresh reputations with reviews made visible since they were stored', async () => {
+    const repository: any = {
+      findUsersWithUncountedReviews: vi
+        .fn()
+        .mockResolvedValue(['user-1', 'user-2']),
+      getVisibleRatingStats: vi
+        .fn()
+        .mockResolvedValue({ reviewCount: 1, averageRating: 5 }),
+      getSwapOutcomeCounts: vi
+        .fn()
+        .mockResolvedValue({ completedSwaps: 1, cancelledSwaps: 0 }),
+      updateUserReputation: vi.fn().mockResolvedValue(undefined),
+    };
+    const jobScheduler = { registerHandler: vi.fn() };
+    const service = new ReputationService(
+      repository,
+      jobScheduler as any,
+      60000
+    );
+
+    service.registerJobHandlers();
+    expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+      'reputation.refresh',
+      expect.any(Function),
+      { intervalMs: 60000 }
+    );
+
+    await jobScheduler.registerHandler.mock.calls[0][1]({});
+    expect(repository.updateUserReputation).toHaveBeenCalledTimes(2);
+    expect(repository.updateUserReputation).toHaveBeenCalledWith(
+      'user-2',
+      expect.any(Number),
+      { completedSwaps: 1, cancelledSwaps: 0 }
+    );
+  });
+});
@@ -0,0 +1,27 @@
+import { Pool } from 'pg';
+import { ReviewRepository } from '../../database/repositories/ReviewRepository';
+import { ReputationService } from './ReputationService';
+import { ReviewService } from './ReviewService';
+import { createJobScheduler } from '../scheduler/factory';
+
+export function createReputationService(pool: Pool): ReputationService {
+  return new ReputationService(new ReviewRepository(pool));
+}
+
+export function createReviewService(pool: Pool): ReviewService {
+  const reviewRepository = new ReviewRepository(pool);
+  const reputationService = new ReputationService(
+    reviewRepository,
+    createJobScheduler(pool),
+    parseInt(process.env.REPUTATION_REFRESH_INTERVAL_MINUTES || '15') *
+      60 *
+      1000
+  );
+  reputationService.registerJobHandlers();
+
+  return new ReviewService(
+    reviewRepository,
+    reputationService,
+    parseInt(process.env.REVIEW_WINDOW_DAYS || '14')
+  );
+}
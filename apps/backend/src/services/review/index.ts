@@ -0,0 +1,7 @@
+export { ReviewService } from './ReviewService';
+export {
+  ReputationService,
+  calculateReputationScore,
+  determineBadges,
+} from './ReputationService';
+export { createReviewService, createReputationService } from './factory';
@@ -0,0 +1,595 @@
+import {
+  Booking,
+  CreateSavedSearchRequest,
+  MAX_SAVED_SEARCHES_PER_USER,
+  NotificationChannel,
+  SavedSearch,
+  SavedSearchAlertFrequency,
+  SavedSearchError,
+  SavedSearchErrorCodes,
+  SavedSearchFilters,
+  UpdateSavedSearchRequest,
+} from '@booking-swap/shared';
+import {
+  PendingSavedSearchMatch,
+  SavedSearchRepository,
+} from '../../database/repositories/SavedSearchRepository';
+import { BookingRepository } from '../../database/repositories/BookingRepository';
+import { NotificationService } from '../notification/NotificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_RADIUS_KM = 500;
+const EARTH_RADIUS_KM = 6371;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ALERT_FREQUENCIES: SavedSearchAlertFrequency[] = [
+  'instant',
+  'daily',
+  'off',
+];
+const ALERT_CHANNELS: NotificationChannel[] = [
+  'email',
+  'sms',
+  'push',
+  'in_app',
+];
+const DEFAULT_CHANNELS: NotificationChannel[] = ['email', 'in_app'];
+
+export interface SavedSearchServiceOptions {
+  maxSearchesPerUser: number;
+  /** How often newly listed bookings are checked against saved searches */
+  evaluationIntervalMs: number;
+  digestIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: SavedSearchServiceOptions = {
+  maxSearchesPerUser: MAX_SAVED_SEARCHES_PER_USER,
+  evaluationIntervalMs: 15 * 60 * 1000,
+  digestIntervalMs: DAY_MS,
+};
+
+export interface SavedSearchEvaluationResult {
+  bookingsEvaluated: number;
+  matchesRecorded: number;
+  alertsSent: number;
+}
+
+export interface SavedSearchDigestResult {
+  usersNotified: number;
+  matchesSent: number;
+}
+
+/**
+ * Great-circle distance in km between two [lat, lng] points
+ */
+export function distanceKm(
+  [lat1, lng1]: [number, number],
+  [lat2, lng2]: [number, number]
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Whether a booking satisfies a saved filter set. Uses the same semantics as
+ * the browse search: flexible dates match any overlapping stay, otherwise the
+ * stay has to fall inside the range.
+ */
+export function matchesSavedSearch(
+  filters: SavedSearchFilters,
+  booking: Booking
+): boolean {
+  if (filters.query?.trim()) {
+    const haystack = [
+      booking.title,
+      booking.description,
+      booking.location?.city,
+      booking.location?.country,
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every(term => haystack.includes(term))) {
+      return false;
+    }
+  }
+
+  const location = filters.location;
+  if (location?.coordinates && location.radius) {
+    if (!booking.location?.coordinates) {
+      return false;
+    }
+    if (
+      distanceKm(location.coordinates, booking.location.coordinates) >
+      location.radius
+    ) {
+      return false;
+    }
+  } else {
+    if (
+      location?.city &&
+      location.city.toLowerCase() !== booking.location?.city?.toLowerCase()
+    ) {
+      return false;
+    }
+    if (
+      location?.country &&
+      location.country.toLowerCase() !==
+        booking.location?.country?.toLowerCase()
+    ) {
+      return false;
+    }
+  }
+
+  const dateRange = filters.dateRange;
+  if (dateRange) {
+    const checkIn = new Date(booking.dateRange.checkIn).getTime();
+    const checkOut = new Date(booking.dateRange.checkOut).getTime();
+    const from = dateRange.checkIn
+      ? new Date(dateRange.checkIn).getTime()
+      : undefined;
+    const to = dateRange.checkOut
+      ? new Date(dateRange.checkOut).getTime()
+      : undefined;
+
+    if (dateRange.flexible) {
+      if (from !== undefined && checkOut < from) return false;
+      if (to !== undefined && checkIn > to) return false;
+    } else {
+      if (from !== undefined && checkIn < from) return false;
+      if (to !== undefined && checkOut > to) return false;
+    }
+  }
+
+  if (
+    filters.priceRange?.min !== undefined &&
+    booking.swapValue < filters.priceRange.min
+  ) {
+    return false;
+  }
+  if (
+    filters.priceRange?.max !== undefined &&
+    booking.swapValue > filters.priceRange.max
+  ) {
+    return false;
+  }
+
+  if (
+    filters.types &&
+    filters.types.length > 0 &&
+    !filters.types.includes(booking.type)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * SavedSearchService stores users' browse filters and alerts them when new
+ * listings match. A recurring job checks bookings that were listed, or put up
+ * for swap, since the previous run. Instant searches are notified straight
+ * away; daily searches collect matches that go out in one digest per user.
+ */
+export class SavedSearchService {
+  private readonly options: SavedSearchServiceOptions;
+
+  constructor(
+    private readonly savedSearchRepository: SavedSearchRepository,
+    private readonly bookingRepository: BookingRepository,
+    private readonly notificationService: NotificationService,
+    private readonly jobScheduler?: JobScheduler,
+    options: Partial<SavedSearchServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.savedSearchRepository.findByUserId(userId);
+  }
+
+  async createSavedSearch(
+    userId: string,
+    request: CreateSavedSearchRequest
+  ): Promise<SavedSearch> {
+    this.validateRequest(request, true);
+
+    const existing = await this.savedSearchRepository.countByUserId(userId);
+    if (existing >= this.options.maxSearchesPerUser) {
+      throw new SavedSearchError(
+        SavedSearchErrorCodes.SAVED_SEARCH_LIMIT_REACHED,
+        `You can save up to ${this.options.maxSearchesPerUser} searches`,
+        { limit: this.options.maxSearchesPerUser }
+      );
+    }
+
+    const savedSearch = await this.savedSearchRepository.create({
+      userId,
+      name: request.name.trim(),
+      filters: this.normalizeFilters(request.filters),
+      alertFrequency: request.alertFrequency || 'daily',
+      channels: this.normalizeChannels(request.channels),
+    });
+
+    logger.info('Saved search created', {
+      savedSearchId: savedSearch.id,
+      userId,
+      alertFrequency: savedSearch.alertFrequency,
+    });
+    return savedSearch;
+  }
+
+  async updateSavedSearch(
+    id: string,
+    userId: string,
+    request: UpdateSavedSearchRequest
+  ): Promise<SavedSearch> {
+    this.validateRequest(request, false);
+    await this.getOwnedSearch(id, userId);
+
+    const updated = await this.savedSearchRepository.update(id, {
+      name: request.name?.trim(),
+      filters: request.filters
+        ? this.normalizeFilters(request.filters)
+        : undefined,
+      alertFrequency: request.alertFrequency,
+      channels: request.channels
+        ? this.normalizeChannels(request.channels)
+        : undefined,
+    });
+    if (!updated) {
+      throw this.notFound();
+    }
+    return updated;
+  }
+
+  async deleteSavedSearch(id: string, userId: string): Promise<void> {
+    await this.getOwnedSearch(id, userId);
+    await this.savedSearchRepository.delete(id);
+    logger.info('Saved search deleted', { savedSearchId: id, userId });
+  }
+
+  /**
+   * Match one booking against every alerting search and send instant alerts.
+   * Matches are recorded once per search, so re-evaluating never re-alerts.
+   */
+  async evaluateBooking(
+    booking: Booking
+  ): Promise<{ matches: number; alerts: number }> {
+    if (booking.status !== 'available') {
+      return { matches: 0, alerts: 0 };
+    }
+
+    const searches = await this.savedSearchRepository.findAlerting(
+      booking.userId
+    );
+    let matches = 0;
+    let alerts = 0;
+
+    for (const search of searches) {
+      if (!matchesSavedSearch(search.filters, booking)) {
+        continue;
+      }
+
+      const matchId = await this.savedSearchRepository.recordMatch(
+        search.id,
+        booking.id
+      );
+      if (!matchId) {
+        continue;
+      }
+      matches++;
+
+      if (
+        search.alertFrequency === 'instant' &&
+        (await this.sendInstantAlert(search, booking, matchId))
+      ) {
+        alerts++;
+      }
+    }
+
+    return { matches, alerts };
+  }
+
+  /**
+   * Evaluate every booking listed or put up for swap since the given time
+   */
+  async evaluateNewListings(since: Date): Promise<SavedSearchEvaluationResult> {
+    const bookings = await this.bookingRepository.findListedSince(since);
+    const result: SavedSearchEvaluationResult = {
+      bookingsEvaluated: bookings.length,
+      matchesRecorded: 0,
+      alertsSent: 0,
+    };
+
+    for (const booking of bookings) {
+      try {
+        const { matches, alerts } = await this.evaluateBooking(booking);
+        result.matchesRecorded += matches;
+        result.alertsSent += alerts;
+      } catch (error) {
+        logger.error('Failed to evaluate booking against saved searches', {
+          bookingId: booking.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (result.matchesRecorded > 0) {
+      logger.info('Saved searches evaluated', { since, ...result });
+    }
+    return result;
+  }
+
+  /**
+   * Send each user one digest of the matches collected by their daily searches
+   */
+  async sendDailyDigests(): Promise<SavedSearchDigestResult> {
+    const pending = await this.savedSearchRepository.findPendingDigestMatches();
+    const byUser = new Map<string, PendingSavedSearchMatch[]>();
+    for (const match of pending) {
+      const matches = byUser.get(match.userId) || [];
+      matches.push(match);
+      byUser.set(match.userId, matches);
+    }
+
+    const result: SavedSearchDigestResult = {
+      usersNotified: 0,
+      matchesSent: 0,
+    };
+
+    for (const [userId, matches] of byUser) {
+      const searchIds = new Set(matches.map(match => match.savedSearchId));
+      const searches = await Promise.all(
+        [...searchIds].map(id => this.savedSearchRepository.findById(id))
+      );
+      const channels = [
+        ...new Set(searches.flatMap(search => search?.channels || [])),
+      ];
+
+      try {
+        await this.notificationService.sendNotification(
+          'saved_search_digest',
+          userId,
+          {
+            matchCount: matches.length,
+            searchCount: searchIds.size,
+            matchSummaries: matches.map(
+              match =>
+                `${match.searchName}: ${match.bookingTitle} – ${match.city}, ${match.country} ` +
+                `(${this.formatDate(match.checkIn)} – ${this.formatDate(match.checkOut)})`
+            ),
+            browseUrl: `${process.env.FRONTEND_URL}/browse`,
+          },
+          channels.length > 0 ? channels : DEFAULT_CHANNELS
+        );
+        await this.savedSearchRepository.markMatchesNotified(
+          matches.map(match => match.matchId)
+        );
+        result.usersNotified++;
+        result.matchesSent += matches.length;
+      } catch (error) {
+        // Leave the matches pending so they go out in the next digest
+        logger.error('Failed to send saved search digest', {
+          userId,
+          matchCount: matches.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info('Saved search digests sent', result);
+    return result;
+  }
+
+  /**
+   * Register the recurring evaluation and digest jobs with the scheduler
+   */
+  registerJobHandlers(): void {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    // Look back two intervals so a delayed run does not miss listings;
+    // recorded matches keep the overlap from alerting twice
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.SAVED_SEARCH_EVALUATION,
+      async () => {
+        await this.evaluateNewListings(
+          new Date(Date.now() - 2 * this.options.evaluationIntervalMs)
+        );
+      },
+      { intervalMs: this.options.evaluationIntervalMs }
+    );
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.SAVED_SEARCH_DIGEST,
+      async () => {
+        await this.sendDailyDigests();
+      },
+      { intervalMs: this.options.digestIntervalMs }
+    );
+  }
+
+  private async sendInstantAlert(
+    search: SavedSearch,
+    booking: Booking,
+    matchId: string
+  ): Promise<boolean> {
+    try {
+      await this.notificationService.sendNotification(
+        'saved_search_match',
+        search.userId,
+        {
+          savedSearchId: search.id,
+          searchName: search.name,
+          bookingId: booking.id,
+          bookingTitle: booking.title,
+          bookingLocation: `${booking.location.city}, ${booking.location.country}`,
+          checkIn: this.formatDate(booking.dateRange.checkIn),
+          checkOut: this.formatDate(booking.dateRange.checkOut),
+          swapValue: booking.swapValue,
+          bookingUrl: `${process.env.FRONTEND_URL}/browse?booking=${booking.id}`,
+        },
+        search.channels.length > 0 ? search.channels : DEFAULT_CHANNELS
+      );
+      await this.savedSearchRepository.markMatchesNotified([matchId]);
+      return true;
+    } catch (error) {
+      logger.error('Failed to send saved search alert', {
+        savedSearchId: search.id,
+        bookingId: booking.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  private async getOwnedSearch(
+    id: string,
+    userId: string
+  ): Promise<SavedSearch> {
+    const search = await this.savedSearchRepository.findById(id);
+    // Do not reveal other users' searches
+    if (!search || search.userId !== userId) {
+      throw this.notFound();
+    }
+    return search;
+  }
+
+  private validateRequest(
+    request: UpdateSavedSearchRequest,
+    isCreate: boolean
+  ): void {
+    const invalid = (message: string) =>
+      new SavedSearchError(SavedSearchErrorCodes.INVALID_SAVED_SEARCH, message);
+
+    if (isCreate || request.name !== undefined) {
+      const name = request.name?.trim();
+      if (!name) {
+        throw invalid('A name is required');
+      }
+      if (name.length > MAX_NAME_LENGTH) {
+        throw invalid(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+
+    if (isCreate && !request.filters) {
+      throw invalid('Filters are required');
+    }
+
+    if (
+      request.alertFrequency &&
+      !ALERT_FREQUENCIES.includes(request.alertFrequency)
+    ) {
+      throw invalid(
+        `alertFrequency must be one of ${ALERT_FREQUENCIES.join(', ')}`
+      );
+    }
+
+    if (request.channels) {
+      const unknown = request.channels.filter(
+        channel => !ALERT_CHANNELS.includes(channel)
+      );
+      if (unknown.length > 0) {
+        throw invalid(`Unsupported channels: ${unknown.join(', ')}`);
+      }
+    }
+
+    const filters = request.filters;
+    if (!filters) {
+      return;
+    }
+
+    const { location, dateRange, priceRange } = filters;
+    if (location?.radius !== undefined) {
+      if (!(location.radius > 0) || location.radius > MAX_RADIUS_KM) {
+        throw invalid(`Radius must be between 0 and ${MAX_RADIUS_KM} km`);
+      }
+      if (!location.coordinates) {
+        throw invalid('A radius requires coordinates');
+      }
+    }
+    if (location?.coordinates) {
+      const [lat, lng] = location.coordinates;
+      if (!(Math.abs(lat) <= 90) || !(Math.abs(lng) <= 180)) {
+        throw invalid('Coordinates must be a valid [lat, lng] pair');
+      }
+    }
+
+    const checkIn = dateRange?.checkIn
+      ? new Date(dateRange.checkIn)
+      : undefined;
+    const checkOut = dateRange?.checkOut
+      ? new Date(dateRange.checkOut)
+      : undefined;
+    if (
+      (checkIn && isNaN(checkIn.getTime())) ||
+      (checkOut && isNaN(checkOut.getTime()))
+    ) {
+      throw invalid('Dates must be valid');
+    }
+    if (checkIn && checkOut && checkIn > checkOut) {
+      throw invalid('Check-in must be before check-out');
+    }
+
+    if (
+      (priceRange?.min !== undefined && !(priceRange.min >= 0)) ||
+      (priceRange?.max !== undefined && !(priceRange.max >= 0))
+    ) {
+      throw invalid('Prices must be non-negative numbers');
+    }
+    if (
+      priceRange?.min !== undefined &&
+      priceRange?.max !== undefined &&
+      priceRange.min > priceRange.max
+    ) {
+      throw invalid('Minimum price must not exceed maximum price');
+    }
+  }
+
+  private normalizeFilters(filters: SavedSearchFilters): SavedSearchFilters {
+    return {
+      ...filters,
+      query: filters.query?.trim() || undefined,
+      dateRange: filters.dateRange
+        ? {
+            ...filters.dateRange,
+            checkIn: filters.dateRange.checkIn
+              ? new Date(filters.dateRange.checkIn)
+              : undefined,
+            checkOut: filters.dateRange.checkOut
+              ? new Date(filters.dateRange.checkOut)
+              : undefined,
+          }
+        : undefined,
+    };
+  }
+
+  private normalizeChannels(
+    channels?: NotificationChannel[]
+  ): NotificationChannel[] {
+    return channels && channels.length > 0
+      ? [...new Set(channels)]
+      : DEFAULT_CHANNELS;
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toDateString();
+  }
+
+  private notFound(): SavedSearchError {
+    return new SavedSearchError(
+      SavedSearchErrorCodes.SAVED_SEARCH_NOT_FOUND,
+      'Saved search not found'
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  Booking,
+  SavedSearch,
+  SavedSearchErrorCodes,
+} from '@booking-swap/shared';
+import {
+  SavedSearchService,
+  distanceKm,
+  matchesSavedSearch,
+} from '../SavedSearchService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const OWNER = 'owner-1';
+const SEARCHER = 'searcher-1';
+
+const LISBON: [number, number] = [38.7223, -9.1393];
+const SINTRA: [number, number] = [38.8029, -9.3817];
+const PORTO: [number, number] = [41.1579, -8.6291];
+
+const makeBooking = (overrides: Partial<Booking> = {}): Booking =>
+  ({
+    id: 'booking-1',
+    userId: OWNER,
+    type: 'hotel',
+    title: 'Riverside apartment',
+    description: 'Two bedrooms near the river',
+    location: { city: 'Lisbon', country: 'Portugal', coordinates: LISBON },
+    dateRange: {
+      checkIn: new Date('2025-06-10'),
+      checkOut: new Date('2025-06-15'),
+    },
+    originalPrice: 900,
+    swapValue: 800,
+    status: 'available',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }) as Booking;
+
+const makeSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 'search-1',
+  userId: SEARCHER,
+  name: 'Lisbon in June',
+  filters: { location: { city: 'lisbon' } },
+  alertFrequency: 'instant',
+  channels: ['email'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('matchesSavedSearch', () => {
+  it('should measure distances between coordinates in km', () => {
+    expect(distanceKm(LISBON, SINTRA)).toBeGreaterThan(20);
+    expect(distanceKm(LISBON, SINTRA)).toBeLessThan(30);
+  });
+
+  it('should match bookings within the radius', () => {
+    const filters = { location: { coordinates: SINTRA, radius: 50 } };
+
+    expect(matchesSavedSearch(filters, makeBooking())).toBe(true);
+    expect(
+      matchesSavedSearch(
+        filters,
+        makeBooking({
+          location: { city: 'Porto', country: 'Portugal', coordinates: PORTO },
+        })
+      )
+    ).toBe(false);
+  });
+
+  it('should require the stay inside the range unless dates are flexible', () => {
+    const dateRange = {
+      checkIn: new Date('2025-06-12'),
+      checkOut: new Date('2025-06-30'),
+    };
+
+    expect(matchesSavedSearch({ dateRange }, makeBooking())).toBe(false);
+    expect(
+      matchesSavedSearch(
+        { dateRange: { ...dateRange, flexible: true } },
+        makeBooking()
+      )
+    ).toBe(true);
+  });
+
+  it('should apply price, type and text filters', () => {
+    const booking = makeBooking();
+
+    expect(
+      matchesSavedSearch({ priceRange: { min: 500, max: 800 } }, booking)
+    ).toBe(true);
+    expect(matchesSavedSearch({ priceRange: { max: 700 } }, booking)).toBe(
+      false
+    );
+    expect(matchesSavedSearch({ types: ['vacation_rental'] }, booking)).toBe(
+      false
+    );
+    expect(matchesSavedSearch({ query: 'river LISBON' }, booking)).toBe(true);
+    expect(matchesSavedSearch({ query: 'beach' }, booking)).toBe(false);
+  });
+});
+
+describe('SavedSearchService', () => {
+  let repository: any;
+  let bookingRepository: any;
+  let notificationService: any;
+  let service: SavedSearchService;
+
+  beforeEach(() => {
+    repository = {
+      findByUserId: vi.fn().mockResolvedValue([]),
+      countByUserId: vi.fn().mockResolvedValue(0),
+      findById: vi.fn().mockResolvedValue(makeSearch()),
+      create: vi.fn().mockImplementation(async data => makeSearch(data)),
+      update: vi.fn(),
+      delete: vi.fn().mockResolvedValue(true),
+      findAlerting: vi.fn().mockResolvedValue([makeSearch()]),
+      recordMatch: vi.fn().mockResolvedValue('match-1'),
+      markMatchesNotified: vi.fn(),
+      findPendingDigestMatches: vi.fn().mockResolvedValue([]),
+    };
+    bookingRepository = {
+      findListedSince: vi.fn().mockResolvedValue([makeBooking()]),
+    };
+    notificationService = {
+      sendNotification: vi.fn(),
+    };
+    service = new SavedSearchService(
+      repository,
+      bookingRepository,
+      notificationService,
+      undefined,
+      {
+        maxSearchesPerUser: 2,
+      }
+    );
+  });
+
+  describe('createSavedSearch', () => {
+    it('should save the filters with default alerts', async () => {
+      await service.createSavedSearch(SEARCHER, {
+        name: '  Lisbon in June ',
+        filters: { location: { city: 'Lisbon' }, query: '  ' },
+      });
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: SEARCHER,
+          name: 'Lisbon in June',
+          alertFrequency: 'daily',
+          channels: ['email', 'in_app'],
+          filters: expect.objectContaining({ query: undefined }),
+        })
+      );
+    });
+
+    it('should enforce the per-user limit', async () => {
+      repository.countByUserId.mockResolvedValue(2);
+
+      await expect(
+        service.createSavedSearch(SEARCHER, { name: 'Third', filters: {} })
+      ).rejects.toMatchObject({
+        code: SavedSearchErrorCodes.SAVED_SEARCH_LIMIT_REACHED,
+      });
+    });
+
+    it('should reject a radius without coordinates', async () => {
+      await expect(
+        service.createSavedSearch(SEARCHER, {
+          name: 'Nearby',
+          filters: { location: { radius: 10 } },
+        })
+      ).rejects.toMatchObject({
+        code: SavedSearchErrorCodes.INVALID_SAVED_SEARCH,
+      });
+    });
+  });
+
+  it("should not delete another user's saved search", async () => {
+    await expect(
+      service.deleteSavedSearch('search-1', 'someone-else')
+    ).rejects.toMatchObject({
+      code: SavedSearchErrorCodes.SAVED_SEARCH_NOT_FOUND,
+    });
+    expect(repository.delete).not.toHaveBeenCalled();
+  });
+
+  describe('evaluateNewListings', () => {
+    it('should send instant alerts on the search channels', async () => {
+      const result = await service.evaluateNewListings(new Date(0));
+
+      expect(repository.findAlerting).toHaveBeenCalledWith(OWNER);
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'saved_search_match',
+        SEARCHER,
+        expect.objectContaining({
+          searchName: 'Lisbon in June',
+          bookingId: 'booking-1',
+        }),
+        ['email']
+      );
+      expect(repository.markMatchesNotified).toHaveBeenCalledWith(['match-1']);
+      expect(result).toEqual({
+        bookingsEvaluated: 1,
+        matchesRecorded: 1,
+        alertsSent: 1,
+      });
+    });
+
+    it('should not alert twice for a booking already matched', async () => {
+      repository.recordMatch.mockResolvedValue(null);
+
+      const result = await service.evaluateNewListings(new Date(0));
+
+      expect(notificationService.sendNotification).not.toHaveBeenCalled();
+      expect(result.matchesRecorded).toBe(0);
+    });
+
+    it('should only record matches for daily searches', async () => {
+      repository.findAlerting.mockResolvedValue([
+        makeSearch({ alertFrequency: 'daily' }),
+      ]);
+
+      const result = await service.evaluateNewListings(new Date(0));
+
+      expect(repository.recordMatch).toHaveBeenCalledWith(
+        'search-1',
+        'booking-1'
+      );
+      expect(notificationService.sendNotification).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ matchesRecorded: 1, alertsSent: 0 });
+    });
+  });
+
+  describe('sendDailyDigests', () => {
+    const pendingMatch = (matchId: string, savedSearchId: string) => ({
+      matchId,
+      savedSearchId,
+      searchName: 'Lisbon in June',
+      userId: SEARCHER,
+      bookingId: `booking-${matchId}`,
+      bookingTitle: 'Riverside apartment',
+      city: 'Lisbon',
+      country: 'Portugal',
+      checkIn: new Date('2025-06-10'),
+      checkOut: new Date('2025-06-15'),
+      swapValue: 800,
+      matchedAt: new Date(),
+    });
+
+    it('should send one digest per user on the union of search channels', async () => {
+      repository.findPendingDigestMatches.mockResolvedValue([
+        pendingMatch('m1', 'search-1'),
+        pendingMatch('m2', 'search-2'),
+      ]);
+      repository.findById.mockImplementation(async (id: string) =>
+        makeSearch({
+          id,
+          channels: id === 'search-1' ? ['email'] : ['push', 'email'],
+        })
+      );
+
+      const result = await service.sendDailyDigests();
+
+      expect(notificationService.sendNotification).toHaveBeenCalledTimes(1);
+      const [type, userId, data, channels] =
+        notificationService.sendNotification.mock.calls[0];
+      expect(type).toBe('saved_search_digest');
+      expect(userId).toBe(SEARCHER);
+      expect(data).toMatchObject({ matchCount: 2, searchCount: 2 });
+      expect(channels).toEqual(['email', 'push']);
+      expect(repository.markMatchesNotified).toHaveBeenCalledWith(['m1', 'm2']);
+      expect(result).toEqual({ usersNotified: 1, matchesSent: 2 });
+    });
+
+    it('should keep matches pending when the digest fails', async () => {
+      repository.findPendingDigestMatches.mockResolvedValue([
+        pendingMatch('m1', 'search-1'),
+      ]);
+      notificationService.sendNotification.mockRejectedValue(
+        new Error('smtp down')
+      );
+
+      const result = await service.sendDailyDigests();
+
+      expect(repository.markMatchesNotified).not.toHaveBeenCalled();
+      expect(result.usersNotified).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+import { SavedSearchService } from './SavedSearchService';
+import { SavedSearchRepository } from '../../database/repositories/SavedSearchRepository';
+import { BookingRepository } from '../../database/repositories/BookingRepository';
+import { createNotificationService } from '../notification/factory';
+import { createJobScheduler } from '../scheduler/factory';
+
+let savedSearchService: SavedSearchService | null = null;
+
+export function createSavedSearchService(pool: Pool): SavedSearchService {
+  if (!savedSearchService) {
+    savedSearchService = new SavedSearchService(
+      new SavedSearchRepository(pool),
+      new BookingRepository(pool),
+      createNotificationService(pool),
+      createJobScheduler(pool),
+      {
+        maxSearchesPerUser: parseInt(
+          process.env.MAX_SAVED_SEARCHES_PER_USER || '20'
+        ),
+        evaluationIntervalMs:
+          parseInt(
+            process.env.SAVED_SEARCH_EVALUATION_INTERVAL_MINUTES || '15'
+          ) *
+          60 *
+          1000,
+      }
+    );
+    savedSearchService.registerJobHandlers();
+  }
+
+  return savedSearchService;
+}
+
+export function resetSavedSearchService(): void {
+  savedSearchService = null;
+}
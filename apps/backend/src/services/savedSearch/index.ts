@@ -0,0 +1,6 @@
+export {
+  SavedSearchService,
+  matchesSavedSearch,
+  distanceKm,
+} from './SavedSearchService';
+export { createSavedSearchService, resetSavedSearchService } from './factory';
@@ -0,0 +1,449 @@
+import {
+  ScheduledJob,
+  ScheduledJobFilters,
+  ScheduledJobRepository,
+  ScheduledJobStatus,
+} from '../../database/repositories/ScheduledJobRepository';
+import { logger } from '../../utils/logger';
+
+/**
+ * Job types driven by the scheduler
+ */
+export const SCHEDULED_JOB_TYPES = {
+  AUCTION_END: 'auction.end',
+  AUCTION_AUTO_SELECTION: 'auction.auto_selection',
+  AUCTION_DEADLINE_CHECK: 'auction.deadline_check',
+  PROPOSAL_EXPIRATION: 'proposal.expiration',
+  SAVED_SEARCH_EVALUATION: 'saved_search.evaluation',
+  SAVED_SEARCH_DIGEST: 'saved_search.digest',
+  DISPUTE_SLA_CHECK: 'dispute.sla_check',
+  PROPOSAL_AUTO_ACCEPT: 'proposal.auto_accept',
+  WEBHOOK_DELIVERY: 'webhook.delivery',
+  OUTBOX_RELAY: 'outbox.relay',
+  OUTBOX_CLEANUP: 'outbox.cleanup',
+  LEDGER_RECONCILIATION: 'ledger.reconciliation',
+  LEDGER_RECONCILIATION_REQUEST: 'ledger.reconciliation_request',
+  DATA_EXPORT_GENERATE: 'data_export.generate',
+  DATA_EXPORT_CLEANUP: 'data_export.cleanup',
+  PUSH_SUBSCRIPTION_PRUNE: 'push.subscription_prune',
+  SWAP_CYCLE_DISCOVERY: 'swap_cycle.discovery',
+  REPUTATION_REFRESH: 'reputation.refresh',
+} as const;
+
+export type JobHandler = (job: ScheduledJob) => Promise<void>;
+
+export interface RegisterHandlerOptions {
+  /** Run the job every `intervalMs`; one instance is kept queued at all times */
+  intervalMs?: number;
+}
+
+export interface ScheduleJobOptions {
+  runAt?: Date;
+  /** Only one pending or running job may exist per dedup key */
+  dedupKey?: string;
+  maxAttempts?: number;
+}
+
+export interface JobSchedulerOptions {
+  workerId: string;
+  pollIntervalMs: number;
+  batchSize: number;
+  leaseMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+export interface JobSchedulerStatus {
+  isRunning: boolean;
+  workerId: string;
+  pollIntervalMs: number;
+  registeredTypes: string[];
+  startedAt?: Date;
+  lastPollAt?: Date;
+  totalJobsRun: number;
+  totalJobsFailed: number;
+  lastError?: {
+    message: string;
+    jobId?: string;
+    timestamp: Date;
+  };
+  isShuttingDown: boolean;
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  intervalMs?: number;
+}
+
+/**
+ * JobScheduler runs delayed and recurring jobs stored in Postgres. Each
+ * instance polls for due jobs and leases them, so jobs survive restarts and
+ * several backend instances never run the same job at once. Failed jobs are
+ * retried with exponential backoff until they run out of attempts.
+ */
+export class JobScheduler {
+  private handlers = new Map<string, RegisteredHandler>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private startedAt?: Date;
+  private lastPollAt?: Date;
+  private totalJobsRun: number = 0;
+  private totalJobsFailed: number = 0;
+  private lastError?: { message: string; jobId?: string; timestamp: Date };
+  private isShuttingDown: boolean = false;
+  private currentPollPromise?: Promise<number>;
+  private readonly jobRepository: ScheduledJobRepository;
+  private readonly options: JobSchedulerOptions;
+
+  constructor(
+    jobRepository: ScheduledJobRepository,
+    options: JobSchedulerOptions
+  ) {
+    this.jobRepository = jobRepository;
+    this.options = options;
+  }
+
+  /**
+   * Register the handler for a job type. Handlers should return quietly when
+   * the job no longer applies and throw only for errors worth retrying.
+   */
+  registerHandler(
+    type: string,
+    handler: JobHandler,
+    options: RegisterHandlerOptions = {}
+  ): void {
+    if (this.handlers.has(type)) {
+      logger.warn('Replacing scheduled job handler', { type });
+    }
+    this.handlers.set(type, { handler, intervalMs: options.intervalMs });
+
+    // Recurring handlers registered after start() still need their first run queued
+    if (options.intervalMs && this.startedAt) {
+      this.scheduleRecurring(type, new Date()).catch(error => {
+        logger.error('Failed to queue recurring job', {
+          type,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    }
+  }
+
+  async schedule(
+    type: string,
+    payload: Record<string, any> = {},
+    options: ScheduleJobOptions = {}
+  ): Promise<ScheduledJob> {
+    const { job, created } = await this.jobRepository.enqueue({
+      type,
+      payload,
+      runAt: options.runAt || new Date(),
+      dedupKey: options.dedupKey,
+      maxAttempts: options.maxAttempts || this.options.maxAttempts,
+    });
+
+    logger.info(created ? 'Job scheduled' : 'Job already scheduled', {
+      jobId: job.id,
+      type,
+      runAt: job.runAt.toISOString(),
+      dedupKey: options.dedupKey,
+    });
+
+    return job;
+  }
+
+  /**
+   * Cancel the pending job with the given dedup key, if any
+   */
+  async cancelByDedupKey(dedupKey: string): Promise<boolean> {
+    const cancelled = await this.jobRepository.cancelByDedupKey(dedupKey);
+    if (cancelled > 0) {
+      logger.info('Scheduled job cancelled', { dedupKey });
+    }
+    return cancelled > 0;
+  }
+
+  async getJob(jobId: string): Promise<ScheduledJob> {
+    const job = await this.jobRepository.findById(jobId);
+    if (!job) {
+      throw new Error('Scheduled job not found');
+    }
+    return job;
+  }
+
+  async listJobs(
+    filters: ScheduledJobFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ jobs: ScheduledJob[]; total: number }> {
+    return this.jobRepository.findJobs(filters, limit, offset);
+  }
+
+  async getQueueCounts(): Promise<Record<ScheduledJobStatus, number>> {
+    return this.jobRepository.countByStatus();
+  }
+
+  async cancelJob(jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(jobId);
+    const cancelled = await this.jobRepository.cancel(jobId);
+    if (!cancelled) {
+      throw new Error(
+        `Invalid job status: ${job.status}. Only pending jobs can be cancelled`
+      );
+    }
+
+    logger.info('Scheduled job cancelled', { jobId, type: job.type });
+    return cancelled;
+  }
+
+  /**
+   * Queue a failed or cancelled job to run again now
+   */
+  async retryJob(jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(jobId);
+    const requeued = await this.jobRepository.requeue(jobId);
+    if (!requeued) {
+      throw new Error(
+        `Invalid job status: ${job.status}. Only failed or cancelled jobs without a queued duplicate can be retried`
+      );
+    }
+
+    logger.info('Scheduled job requeued', { jobId, type: job.type });
+    return requeued;
+  }
+
+  /**
+   * Start polling. Recurring jobs are queued if no instance has queued them yet.
+   */
+  async start(): Promise<void> {
+    if (this.timer || this.startedAt) {
+      logger.warn('Job scheduler is already running');
+      return;
+    }
+
+    this.startedAt = new Date();
+    this.isShuttingDown = false;
+
+    for (const [type, registered] of this.handlers) {
+      if (registered.intervalMs) {
+        await this.scheduleRecurring(type, new Date());
+      }
+    }
+
+    logger.info('Job scheduler started', {
+      workerId: this.options.workerId,
+      pollIntervalMs: this.options.pollIntervalMs,
+      registeredTypes: Array.from(this.handlers.keys()),
+    });
+
+    this.scheduleNextPoll(0);
+  }
+
+  /**
+   * Stop polling and wait for jobs in progress to finish. Jobs still running
+   * after the timeout are picked up by another instance once their lease expires.
+   */
+  async stopGracefully(
+    timeoutMs: number = 30000
+  ): Promise<{ success: boolean; timedOut: boolean }> {
+    this.isShuttingDown = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    try {
+      if (this.currentPollPromise) {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const timedOut = await Promise.race([
+          this.currentPollPromise.then(() => false),
+          new Promise<boolean>(resolve => {
+            timeoutId = setTimeout(() => resolve(true), timeoutMs);
+          }),
+        ]);
+        clearTimeout(timeoutId);
+
+        if (timedOut) {
+          logger.warn(
+            'Job scheduler shutdown timed out with jobs in progress',
+            { timeoutMs }
+          );
+          return { success: false, timedOut: true };
+        }
+      }
+
+      logger.info('Job scheduler stopped', {
+        totalJobsRun: this.totalJobsRun,
+        totalJobsFailed: this.totalJobsFailed,
+      });
+      return { success: true, timedOut: false };
+    } finally {
+      this.startedAt = undefined;
+    }
+  }
+
+  /**
+   * Run up to a batch of due jobs. Returns the number of jobs run.
+   *
+   * Jobs run one after another, so each is leased just before it runs. Leasing
+   * the whole batch up front would start every lease at once, and the jobs at
+   * the back could see their lease expire, and another instance pick them up,
+   * while the jobs in front were still running.
+   */
+  async pollOnce(): Promise<number> {
+    this.lastPollAt = new Date();
+
+    let jobsRun = 0;
+    while (jobsRun < this.options.batchSize && !this.isShuttingDown) {
+      const [job] = await this.jobRepository.leaseDueJobs(
+        this.options.workerId,
+        1,
+        this.options.leaseMs
+      );
+      if (!job) {
+        break;
+      }
+
+      await this.runJob(job);
+      jobsRun++;
+    }
+
+    return jobsRun;
+  }
+
+  getStatus(): JobSchedulerStatus {
+    return {
+      isRunning: this.startedAt !== undefined && !this.isShuttingDown,
+      workerId: this.options.workerId,
+      pollIntervalMs: this.options.pollIntervalMs,
+      registeredTypes: Array.from(this.handlers.keys()),
+      startedAt: this.startedAt,
+      lastPollAt: this.lastPollAt,
+      totalJobsRun: this.totalJobsRun,
+      totalJobsFailed: this.totalJobsFailed,
+      lastError: this.lastError,
+      isShuttingDown: this.isShuttingDown,
+    };
+  }
+
+  private scheduleNextPoll(delayMs: number): void {
+    if (this.isShuttingDown) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      let jobsRun = 0;
+
+      this.currentPollPromise = this.pollOnce();
+      try {
+        jobsRun = await this.currentPollPromise;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.lastError = { message, timestamp: new Date() };
+        logger.error('Job scheduler poll failed', { error: message });
+      } finally {
+        this.currentPollPromise = undefined;
+      }
+
+      // A full batch means more jobs may be due, so poll again right away
+      this.scheduleNextPoll(
+        jobsRun >= this.options.batchSize ? 0 : this.options.pollIntervalMs
+      );
+    }, delayMs);
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const registered = this.handlers.get(job.type);
+    const startTime = Date.now();
+    let finished = false;
+
+    try {
+      if (!registered) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      await registered.handler(job);
+
+      const completed = await this.jobRepository.markCompleted(
+        job.id,
+        this.options.workerId
+      );
+      if (!completed) {
+        logger.warn('Lost lease before job completed', {
+          jobId: job.id,
+          type: job.type,
+        });
+      }
+
+      this.totalJobsRun++;
+      finished = true;
+      logger.info('Scheduled job completed', {
+        jobId: job.id,
+        type: job.type,
+        attempt: job.attempts,
+        duration: Date.now() - startTime,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        job.attempts < job.maxAttempts
+          ? new Date(Date.now() + this.getRetryDelay(job.attempts))
+          : null;
+
+      this.totalJobsFailed++;
+      this.lastError = { message, jobId: job.id, timestamp: new Date() };
+      finished = retryAt === null;
+
+      logger.error(
+        retryAt ? 'Scheduled job failed, will retry' : 'Scheduled job failed',
+        {
+          jobId: job.id,
+          type: job.type,
+          attempt: job.attempts,
+          maxAttempts: job.maxAttempts,
+          retryAt: retryAt?.toISOString(),
+          error: message,
+        }
+      );
+
+      try {
+        await this.jobRepository.markFailed(
+          job.id,
+          this.options.workerId,
+          message,
+          retryAt
+        );
+      } catch (markError) {
+        logger.error('Failed to record scheduled job failure', {
+          jobId: job.id,
+          error: markError instanceof Error ? markError.message : markError,
+        });
+      }
+    }
+
+    if (finished && registered?.intervalMs) {
+      try {
+        await this.scheduleRecurring(
+          job.type,
+          new Date(Date.now() + registered.intervalMs)
+        );
+      } catch (error) {
+        logger.error('Failed to queue next run of recurring job', {
+          type: job.type,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+  }
+
+  private async scheduleRecurring(type: string, runAt: Date): Promise<void> {
+    await this.schedule(type, {}, { runAt, dedupKey: `recurring:${type}` });
+  }
+
+  private getRetryDelay(attempt: number): number {
+    return Math.min(
+      this.options.retryBaseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)),
+      this.options.maxRetryDelayMs
+    );
+  }
+}
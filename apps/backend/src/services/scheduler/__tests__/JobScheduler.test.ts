@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JobScheduler } from '../JobScheduler';
+import { ScheduledJob } from '../../../database/repositories/ScheduledJobRepository';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const createJob = (overrides: Partial<ScheduledJob> = {}): ScheduledJob => ({
+  id: 'job-1',
+  type: 'auction.end',
+  payload: { auctionId: 'auction-1' },
+  status: 'running',
+  runAt: new Date(),
+  attempts: 1,
+  maxAttempts: 3,
+  lockedBy: 'worker-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('JobScheduler', () => {
+  let repository: any;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    repository = {
+      enqueue: vi.fn().mockImplementation(async data => ({
+        job: createJob({ ...data, status: 'pending', attempts: 0 }),
+        created: true,
+      })),
+      leaseDueJobs: vi.fn().mockResolvedValue([]),
+      markCompleted: vi.fn().mockResolvedValue(true),
+      markFailed: vi.fn().mockResolvedValue(true),
+      findById: vi.fn().mockResolvedValue(null),
+      cancel: vi.fn(),
+      cancelByDedupKey: vi.fn().mockResolvedValue(1),
+      requeue: vi.fn(),
+    };
+
+    scheduler = new JobScheduler(repository, {
+      workerId: 'worker-1',
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      leaseMs: 60000,
+      maxAttempts: 3,
+      retryBaseDelayMs: 1000,
+      maxRetryDelayMs: 10000,
+    });
+  });
+
+  describe('schedule', () => {
+    it('should enqueue the job with its dedup key and default attempts', async () => {
+      const runAt = new Date(Date.now() + 60000);
+
+      await scheduler.schedule(
+        'auction.end',
+        { auctionId: 'auction-1' },
+        { runAt, dedupKey: 'auction.end:auction-1' }
+      );
+
+      expect(repository.enqueue).toHaveBeenCalledWith({
+        type: 'auction.end',
+        payload: { auctionId: 'auction-1' },
+        runAt,
+        dedupKey: 'auction.end:auction-1',
+        maxAttempts: 3,
+      });
+    });
+  });
+
+  describe('pollOnce', () => {
+    it('should run leased jobs and mark them completed', async () => {
+      const handler = vi.fn().mockResolvedValue(undefined);
+      scheduler.registerHandler('auction.end', handler);
+      repository.leaseDueJobs.mockResolvedValueOnce([createJob()]);
+
+      const jobsRun = await scheduler.pollOnce();
+
+      expect(jobsRun).toBe(1);
+      expect(repository.leaseDueJobs).toHaveBeenCalledWith(
+        'worker-1',
+        1,
+        60000
+      );
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job-1' })
+      );
+      expect(repository.markCompleted).toHaveBeenCalledWith(
+        'job-1',
+        'worker-1'
+      );
+      expect(scheduler.getStatus().totalJobsRun).toBe(1);
+    });
+
+    it('should lease each job just before running it', async () => {
+      const handler = vi.fn().mockResolvedValue(undefined);
+      scheduler.registerHandler('auction.end', handler);
+      repository.leaseDueJobs
+        .mockResolvedValueOnce([createJob({ id: 'job-1' })])
+        .mockResolvedValueOnce([createJob({ id: 'job-2' })]);
+
+      const jobsRun = await scheduler.pollOnce();
+
+      expect(jobsRun).toBe(2);
+      expect(repository.leaseDueJobs).toHaveBeenCalledTimes(3);
+      expect(
+        repository.leaseDueJobs.mock.invocationCallOrder[1]
+      ).toBeGreaterThan(repository.markCompleted.mock.invocationCallOrder[0]);
+    });
+
+    it('should stop after a full batch', async () => {
+      scheduler.registerHandler(
+        'auction.end',
+        vi.fn().mockResolvedValue(undefined)
+      );
+      repository.leaseDueJobs.mockResolvedValue([createJob()]);
+
+      const jobsRun = await scheduler.pollOnce();
+
+      expect(jobsRun).toBe(10);
+      expect(repository.leaseDueJobs).toHaveBeenCalledTimes(10);
+    });
+
+    it('should retry failed jobs with exponential backoff', async () => {
+      scheduler.registerHandler(
+        'auction.end',
+        vi.fn().mockRejectedValue(new Error('Hedera unavailable'))
+      );
+      repository.leaseDueJobs.mockResolvedValueOnce([
+        createJob({ attempts: 2 }),
+      ]);
+
+      const before = Date.now();
+      await scheduler.pollOnce();
+
+      const [jobId, workerId, message, retryAt] =
+        repository.markFailed.mock.calls[0];
+      expect(jobId).toBe('job-1');
+      expect(workerId).toBe('worker-1');
+      expect(message).toBe('Hedera unavailable');
+      expect(retryAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+      expect(repository.markCompleted).not.toHaveBeenCalled();
+    });
+
+    it('should fail the job for good once it runs out of attempts', async () => {
+      scheduler.registerHandler(
+        'auction.end',
+        vi.fn().mockRejectedValue(new Error('Still failing'))
+      );
+      repository.leaseDueJobs.mockResolvedValueOnce([
+        createJob({ attempts: 3 }),
+      ]);
+
+      await scheduler.pollOnce();
+
+      expect(repository.markFailed).toHaveBeenCalledWith(
+        'job-1',
+        'worker-1',
+        'Still failing',
+        null
+      );
+      expect(scheduler.getStatus().lastError?.jobId).toBe('job-1');
+    });
+
+    it('should fail jobs that have no registered handler', async () => {
+      repository.leaseDueJobs.mockResolvedValueOnce([
+        createJob({ type: 'unknown.type' }),
+      ]);
+
+      await scheduler.pollOnce();
+
+      expect(repository.markFailed).toHaveBeenCalledWith(
+        'job-1',
+        'worker-1',
+        'No handler registered for job type unknown.type',
+        expect.any(Date)
+      );
+    });
+
+    it('should queue the next run of a recurring job after it completes', async () => {
+      scheduler.registerHandler(
+        'auction.deadline_check',
+        vi.fn().mockResolvedValue(undefined),
+        { intervalMs: 60000 }
+      );
+      repository.leaseDueJobs.mockResolvedValueOnce([
+        createJob({ type: 'auction.deadline_check', payload: {} }),
+      ]);
+
+      await scheduler.pollOnce();
+
+      expect(repository.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'auction.deadline_check',
+          dedupKey: 'recurring:auction.deadline_check',
+        })
+      );
+      const { runAt } = repository.enqueue.mock.calls[0][0];
+      expect(runAt.getTime()).toBeGreaterThan(Date.now() + 50000);
+    });
+  });
+
+  describe('start', () => {
+    it('should queue recurring jobs once started', async () => {
+      scheduler.registerHandler('proposal.expiration', vi.fn(), {
+        intervalMs: 300000,
+      });
+      scheduler.registerHandler('auction.end', vi.fn());
+
+      await scheduler.start();
+      await scheduler.stopGracefully(1000);
+
+      expect(repository.enqueue).toHaveBeenCalledTimes(1);
+      expect(repository.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'proposal.expiration',
+          dedupKey: 'recurring:proposal.expiration',
+        })
+      );
+    });
+  });
+
+  describe('admin operations', () => {
+    it('should only cancel pending jobs', async () => {
+      repository.findById.mockResolvedValue(createJob({ status: 'running' }));
+      repository.cancel.mockResolvedValue(null);
+
+      await expect(scheduler.cancelJob('job-1')).rejects.toThrow(
+        'Invalid job status: running'
+      );
+    });
+
+    it('should report missing jobs as not found', async () => {
+      await expect(scheduler.retryJob('missing')).rejects.toThrow(
+        'Scheduled job not found'
+      );
+      expect(repository.requeue).not.toHaveBeenCalled();
+    });
+  });
+});
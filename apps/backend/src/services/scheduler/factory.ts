@@ -0,0 +1,36 @@
+import { Pool } from 'pg';
+import os from 'os';
+import { ScheduledJobRepository } from '../../database/repositories/ScheduledJobRepository';
+import { JobScheduler } from './JobScheduler';
+
+let jobScheduler: JobScheduler | null = null;
+
+/**
+ * Shared scheduler instance so every service registers its handlers on the
+ * same poller
+ */
+export function createJobScheduler(pool: Pool): JobScheduler {
+  if (!jobScheduler) {
+    jobScheduler = new JobScheduler(new ScheduledJobRepository(pool), {
+      workerId: `${os.hostname()}:${process.pid}`,
+      pollIntervalMs: parseInt(
+        process.env.JOB_SCHEDULER_POLL_INTERVAL_MS || '5000'
+      ),
+      batchSize: parseInt(process.env.JOB_SCHEDULER_BATCH_SIZE || '10'),
+      leaseMs: parseInt(process.env.JOB_SCHEDULER_LEASE_MS || '300000'),
+      maxAttempts: parseInt(process.env.JOB_SCHEDULER_MAX_ATTEMPTS || '5'),
+      retryBaseDelayMs: parseInt(
+        process.env.JOB_SCHEDULER_RETRY_BASE_DELAY_MS || '30000'
+      ),
+      maxRetryDelayMs: parseInt(
+        process.env.JOB_SCHEDULER_MAX_RETRY_DELAY_MS || '3600000'
+      ),
+    });
+  }
+
+  return jobScheduler;
+}
+
+export function resetJobScheduler(): void {
+  jobScheduler = null;
+}
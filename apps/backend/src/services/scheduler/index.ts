@@ -0,0 +1,9 @@
+export { JobScheduler, SCHEDULED_JOB_TYPES } from './JobScheduler';
+export { createJobScheduler, resetJobScheduler } from './factory';
+
+export type {
+  JobHandler,
+  JobSchedulerOptions,
+  JobSchedulerStatus,
+  ScheduleJobOptions,
+} from './JobScheduler';
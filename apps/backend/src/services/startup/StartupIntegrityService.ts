@@ -3,6 +3,7 @@ import { CriticalErrorAlertService } from '../alerting/CriticalErrorAlertService
 import { ForeignKeyValidationOptimizer, IndexVerificationResult } from '../../database/optimizations/ForeignKeyValidationOptimizer';
 import { Pool } from 'pg';
 import { getPool } from '../../database/config';
+import { DatabaseMigrator } from '../../database/migrate';
 import { logger } from '../../utils/logger';
 
 export interface StartupIntegrityResult {
@@ -24,6 +25,19 @@ export interface StartupIntegrityIssue {
     requiresImmedateAction: boolean;
 }
 
+export interface SchemaVersionResult {
+    upToDate: boolean;
+    latestApplied?: string;
+    latestAvailable?: string;
+    pending: string[];
+    drifted: string[];
+    missing: string[];
+    conflicts: string[];
+    // Applied before checksums were recorded; filled in by the next migrate run
+    unverified: string[];
+    error?: string;
+}
+
 /**
  * Startup Integrity Service
  * 
@@ -36,6 +50,7 @@ export class StartupIntegrityService {
     private integrityMonitor: DatabaseIntegrityMonitor;
     private alertService: CriticalErrorAlertService;
     private validationOptimizer: ForeignKeyValidationOptimizer;
+    private migrator: DatabaseMigrator;
     private pool: Pool;
 
     private constructor(
@@ -46,6 +61,7 @@ export class StartupIntegrityService {
         this.alertService = alertService || new CriticalErrorAlertService(logger);
         this.integrityMonitor = new DatabaseIntegrityMonitor(this.pool, this.alertService);
         this.validationOptimizer = new ForeignKeyValidationOptimizer(this.pool);
+        this.migrator = new DatabaseMigrator(this.pool);
     }
 
     public static getInstance(
@@ -261,6 +277,71 @@ export class StartupIntegrityService {
         }
     }
 
+    /**
+     * Check that every migration file has been applied and that none changed after it ran.
+     * The server should not start on a schema that is behind or has drifted.
+     */
+    async verifySchemaVersion(): Promise<SchemaVersionResult> {
+        logger.info('Verifying database schema version against migration files');
+
+        try {
+            const status = await this.migrator.getStatus();
+            const allMigrations = [
+                ...status.applied.map(migration => migration.id),
+                ...status.pending.map(migration => migration.id)
+            ].sort();
+
+            const result: SchemaVersionResult = {
+                upToDate: status.pending.length === 0 &&
+                    status.drifted.length === 0 &&
+                    status.missing.length === 0 &&
+                    status.conflicts.length === 0,
+                latestApplied: status.applied[status.applied.length - 1]?.id,
+                latestAvailable: allMigrations[allMigrations.length - 1],
+                pending: status.pending.map(migration => migration.id),
+                drifted: status.drifted.map(migration => migration.id),
+                missing: status.missing.map(migration => migration.id),
+                conflicts: status.conflicts.flatMap(conflict => conflict.filenames),
+                unverified: status.unverified
+            };
+
+            if (!result.upToDate) {
+                logger.error('Database schema does not match the migration files', {
+                    latestApplied: result.latestApplied,
+                    pending: result.pending,
+                    drifted: result.drifted,
+                    missing: result.missing,
+                    conflicts: result.conflicts
+                });
+            } else if (result.unverified.length > 0) {
+                logger.warn('Some applied migrations have no recorded checksum', {
+                    count: result.unverified.length,
+                    recommendation: 'Run npm run migrate to record them'
+                });
+            } else {
+                logger.info('Database schema is up to date', {
+                    latestApplied: result.latestApplied
+                });
+            }
+
+            return result;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error('Failed to verify database schema version', { error: errorMessage });
+
+            return {
+                upToDate: false,
+                pending: [],
+                drifted: [],
+                missing: [],
+                conflicts: [],
+                unverified: [],
+                error: errorMessage
+            };
+        }
+    }
+
     /**
      * Verify and optionally create missing foreign key validation indexes
      * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Storage for uploaded files. Keys are relative, slash-separated paths
+ * chosen by the caller, e.g. `disputes/<disputeId>/<uuid>.pdf`.
+ */
+export interface FileStore {
+  readonly name: string;
+
+  put(key: string, data: Buffer): Promise<void>;
+  /** Null when nothing is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps files on the local disk under a root directory
+ */
+export class LocalFileStore implements FileStore {
+  readonly name = 'local';
+
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path inside the root directory, rejecting keys that
+   * would escape it
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
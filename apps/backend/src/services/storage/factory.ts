@@ -0,0 +1,15 @@
+import { FileStore, LocalFileStore } from './FileStore';
+
+let fileStore: FileStore | null = null;
+
+export function createFileStore(): FileStore {
+  if (!fileStore) {
+    fileStore = new LocalFileStore(process.env.FILE_STORAGE_DIR || 'uploads');
+  }
+
+  return fileStore;
+}
+
+export function resetFileStore(): void {
+  fileStore = null;
+}
@@ -0,0 +1,4 @@
+export { LocalFileStore } from './FileStore';
+export { createFileStore, resetFileStore } from './factory';
+
+export type { FileStore } from './FileStore';
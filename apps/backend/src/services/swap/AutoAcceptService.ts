@@ -0,0 +1,395 @@
+import {
+  AutoAcceptEvaluation,
+  AutoAcceptEvaluationFilters,
+  AutoAcceptOutcome,
+  AutoAcceptRuleResult,
+  DEFAULT_AUTO_ACCEPT_DAILY_LIMIT,
+  SwapCriteria,
+} from '@booking-swap/shared';
+import {
+  AutoAcceptBooking,
+  AutoAcceptCandidate,
+  AutoAcceptRepository,
+} from '../../database/repositories/AutoAcceptRepository';
+import { ProposalAcceptanceService } from './ProposalAcceptanceService';
+import {
+  CompatibilityAnalysisEngine,
+  SwapBookingDetails,
+} from './CompatibilityAnalysisEngine';
+import { NotificationService } from '../notification/NotificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AutoAcceptServiceOptions {
+  /** How often pending proposals are checked against their owner's criteria */
+  evaluationIntervalMs: number;
+  batchSize: number;
+}
+
+const DEFAULT_OPTIONS: AutoAcceptServiceOptions = {
+  evaluationIntervalMs: 2 * 60 * 1000,
+  batchSize: 100,
+};
+
+export interface AutoAcceptRunResult {
+  evaluated: number;
+  accepted: number;
+  wouldAccept: number;
+  skipped: number;
+  deferred: number;
+  failed: number;
+}
+
+export interface AutoAcceptFacts {
+  compatibilityScore?: number;
+  // Proposals already accepted for the owner in the last 24 hours
+  acceptedToday: number;
+}
+
+const formatLocation = (booking: AutoAcceptBooking) =>
+  `${booking.city}, ${booking.country}`;
+
+/**
+ * Check a proposal against the owner's auto-accept criteria. Only rules the
+ * owner configured are checked, plus the daily limit; each result carries a
+ * sentence explaining it so the owner can see why a proposal was or was not
+ * accepted.
+ */
+export function checkAutoAcceptRules(
+  criteria: SwapCriteria,
+  candidate: AutoAcceptCandidate,
+  facts: AutoAcceptFacts
+): AutoAcceptRuleResult[] {
+  const rules: AutoAcceptRuleResult[] = [];
+  const offered = candidate.offeredBooking;
+
+  if (criteria.bookingTypes && criteria.bookingTypes.length > 0) {
+    const passed = criteria.bookingTypes.some(
+      type => type.toLowerCase() === offered.type?.toLowerCase()
+    );
+    rules.push({
+      rule: 'booking_type',
+      passed,
+      detail: passed
+        ? `${offered.type} is one of your accepted booking types`
+        : `${offered.type} is not one of your accepted booking types`,
+    });
+  }
+
+  if (criteria.preferredLocations && criteria.preferredLocations.length > 0) {
+    // Same matching as swap preferences: "Paris" matches "Paris, France"
+    const offeredLocation = formatLocation(offered).toLowerCase();
+    const matched = criteria.preferredLocations.find(location => {
+      const preferred = location.trim().toLowerCase();
+      return (
+        preferred.length > 0 &&
+        (offeredLocation.includes(preferred) ||
+          preferred.includes(offered.city.toLowerCase()))
+      );
+    });
+    rules.push({
+      rule: 'location',
+      passed: !!matched,
+      detail: matched
+        ? `${formatLocation(offered)} matches your preferred location ${matched}`
+        : `${formatLocation(offered)} is not one of your preferred locations`,
+    });
+  }
+
+  if (criteria.maxAdditionalPayment !== undefined) {
+    const payment = candidate.additionalPayment || 0;
+    const passed = payment <= criteria.maxAdditionalPayment;
+    rules.push({
+      rule: 'additional_payment',
+      passed,
+      detail: passed
+        ? `additional payment of ${payment} is within your limit of ${criteria.maxAdditionalPayment}`
+        : `additional payment of ${payment} is over your limit of ${criteria.maxAdditionalPayment}`,
+    });
+  }
+
+  if (criteria.minCounterpartyReputation !== undefined) {
+    const reputation = candidate.proposerReputation;
+    const passed = reputation >= criteria.minCounterpartyReputation;
+    rules.push({
+      rule: 'reputation',
+      passed,
+      detail: passed
+        ? `proposer reputation ${reputation} meets your minimum of ${criteria.minCounterpartyReputation}`
+        : `proposer reputation ${reputation} is below your minimum of ${criteria.minCounterpartyReputation}`,
+    });
+  }
+
+  if (criteria.minCompatibilityScore !== undefined) {
+    const score = facts.compatibilityScore ?? 0;
+    const passed = score >= criteria.minCompatibilityScore;
+    rules.push({
+      rule: 'compatibility',
+      passed,
+      detail: passed
+        ? `compatibility score ${score} meets your minimum of ${criteria.minCompatibilityScore}`
+        : `compatibility score ${score} is below your minimum of ${criteria.minCompatibilityScore}`,
+    });
+  }
+
+  const dailyLimit = criteria.dailyLimit ?? DEFAULT_AUTO_ACCEPT_DAILY_LIMIT;
+  const underLimit = facts.acceptedToday < dailyLimit;
+  rules.push({
+    rule: 'daily_limit',
+    passed: underLimit,
+    detail: underLimit
+      ? `${facts.acceptedToday} of ${dailyLimit} auto-accepts used today`
+      : `daily limit of ${dailyLimit} auto-accepts reached`,
+  });
+
+  return rules;
+}
+
+/**
+ * AutoAcceptService accepts proposals to first-match swaps on the owner's
+ * behalf when they match the owner's auto-accept criteria. Every decision is
+ * recorded, so each proposal is decided once and owners in dry-run mode can
+ * review what would have been accepted.
+ */
+export class AutoAcceptService {
+  private readonly options: AutoAcceptServiceOptions;
+
+  constructor(
+    private readonly autoAcceptRepository: AutoAcceptRepository,
+    private readonly proposalAcceptanceService: ProposalAcceptanceService,
+    private readonly compatibilityEngine: CompatibilityAnalysisEngine,
+    private readonly notificationService: NotificationService,
+    private readonly jobScheduler?: JobScheduler,
+    options: Partial<AutoAcceptServiceOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  registerJobHandlers(): void {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.PROPOSAL_AUTO_ACCEPT,
+      async () => {
+        await this.evaluatePendingProposals();
+      },
+      { intervalMs: this.options.evaluationIntervalMs }
+    );
+  }
+
+  /**
+   * Decide every undecided proposal whose owner has auto-accept on
+   */
+  async evaluatePendingProposals(): Promise<AutoAcceptRunResult> {
+    const candidates = await this.autoAcceptRepository.findCandidates(
+      this.options.batchSize
+    );
+    const result: AutoAcceptRunResult = {
+      evaluated: 0,
+      accepted: 0,
+      wouldAccept: 0,
+      skipped: 0,
+      deferred: 0,
+      failed: 0,
+    };
+
+    for (const candidate of candidates) {
+      try {
+        const outcome = await this.evaluateCandidate(candidate);
+        if (!outcome) {
+          continue;
+        }
+        result.evaluated++;
+        if (outcome === 'accepted') result.accepted++;
+        if (outcome === 'would_accept') result.wouldAccept++;
+        if (outcome === 'skipped') result.skipped++;
+        if (outcome === 'deferred') result.deferred++;
+        if (outcome === 'failed') result.failed++;
+      } catch (error) {
+        logger.error('Failed to evaluate proposal for auto-accept', {
+          proposalId: candidate.proposalId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (result.evaluated > 0) {
+      logger.info('Auto-accept evaluation completed', { ...result });
+    }
+    return result;
+  }
+
+  async listEvaluations(
+    userId: string,
+    filters: AutoAcceptEvaluationFilters = {}
+  ): Promise<AutoAcceptEvaluation[]> {
+    return this.autoAcceptRepository.findByOwner(userId, filters);
+  }
+
+  /**
+   * Returns the recorded outcome, or null when another run decided the
+   * proposal first
+   */
+  private async evaluateCandidate(
+    candidate: AutoAcceptCandidate
+  ): Promise<AutoAcceptOutcome | null> {
+    const { criteria } = candidate;
+
+    const compatibilityScore =
+      criteria.minCompatibilityScore !== undefined
+        ? (
+            await this.compatibilityEngine.analyzeCompatibility(
+              this.toBookingDetails(candidate.ownerBooking),
+              this.toBookingDetails(candidate.offeredBooking)
+            )
+          ).overallScore
+        : undefined;
+    const dayStart = new Date(Date.now() - DAY_MS);
+    const acceptedToday = await this.autoAcceptRepository.countAcceptedSince(
+      candidate.ownerId,
+      dayStart
+    );
+
+    const rules = checkAutoAcceptRules(criteria, candidate, {
+      compatibilityScore,
+      acceptedToday,
+    });
+    const matched = rules.every(rule => rule.passed);
+    // A proposal that only missed the daily limit still matches the owner's
+    // criteria, so it waits for the limit to reset instead of being skipped
+    const capped =
+      !matched &&
+      rules.every(rule => rule.passed || rule.rule === 'daily_limit');
+    const outcome: AutoAcceptOutcome = matched
+      ? criteria.dryRun
+        ? 'would_accept'
+        : 'accepted'
+      : capped
+        ? 'deferred'
+        : 'skipped';
+    const retryAt = capped
+      ? await this.findDailyLimitReset(candidate.ownerId, dayStart)
+      : undefined;
+
+    const evaluation = await this.autoAcceptRepository.recordEvaluation({
+      proposalId: candidate.proposalId,
+      swapId: candidate.swapId,
+      ownerId: candidate.ownerId,
+      proposerId: candidate.proposerId,
+      outcome,
+      rules,
+      compatibilityScore,
+      proposerReputation: candidate.proposerReputation,
+      retryAt,
+    });
+    if (!evaluation) {
+      return null;
+    }
+
+    if (outcome === 'would_accept') {
+      logger.info('Proposal would have been auto-accepted (dry run)', {
+        proposalId: candidate.proposalId,
+        ownerId: candidate.ownerId,
+        rules: rules.map(rule => rule.rule),
+      });
+      return outcome;
+    }
+
+    if (outcome === 'deferred') {
+      logger.info('Auto-accept deferred until the daily limit resets', {
+        proposalId: candidate.proposalId,
+        ownerId: candidate.ownerId,
+        retryAt: retryAt?.toISOString(),
+      });
+      return outcome;
+    }
+
+    if (outcome === 'skipped') {
+      return outcome;
+    }
+
+    try {
+      await this.proposalAcceptanceService.acceptProposal({
+        proposalId: candidate.proposalId,
+        userId: candidate.ownerId,
+        action: 'accept',
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Auto-accepting proposal failed', {
+        proposalId: candidate.proposalId,
+        ownerId: candidate.ownerId,
+        error: message,
+      });
+      await this.autoAcceptRepository.markFailed(evaluation.id, message);
+      return 'failed';
+    }
+
+    logger.info('Proposal auto-accepted', {
+      proposalId: candidate.proposalId,
+      ownerId: candidate.ownerId,
+      rules: rules.map(rule => rule.rule),
+    });
+    await this.notifyAccepted(candidate, rules);
+    return outcome;
+  }
+
+  /**
+   * The limit is a rolling 24 hours, so a slot frees up a day after the
+   * oldest acceptance in the window
+   */
+  private async findDailyLimitReset(
+    ownerId: string,
+    dayStart: Date
+  ): Promise<Date> {
+    const oldest = await this.autoAcceptRepository.findOldestAcceptedSince(
+      ownerId,
+      dayStart
+    );
+    return new Date((oldest ? oldest.getTime() : Date.now()) + DAY_MS);
+  }
+
+  private async notifyAccepted(
+    candidate: AutoAcceptCandidate,
+    rules: AutoAcceptRuleResult[]
+  ): Promise<void> {
+    try {
+      await this.notificationService.sendNotification(
+        'proposal_auto_accepted',
+        candidate.ownerId,
+        {
+          proposalId: candidate.proposalId,
+          swapId: candidate.swapId,
+          bookingTitle: candidate.ownerBooking.title || 'your booking',
+          offeredBookingTitle: candidate.offeredBooking.title,
+          reason: rules.map(rule => rule.detail).join('; '),
+          rules: rules.map(rule => rule.rule),
+          dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`,
+        }
+      );
+    } catch (error) {
+      logger.warn('Failed to send auto-accept notification', {
+        proposalId: candidate.proposalId,
+        ownerId: candidate.ownerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private toBookingDetails(booking: AutoAcceptBooking): SwapBookingDetails {
+    return {
+      location: formatLocation(booking),
+      dateRange: {
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+      },
+      totalPrice: booking.swapValue,
+      accommodationType: booking.type,
+      guests: 1,
+    };
+  }
+}
@@ -1,6 +1,9 @@
 import {
   CompatibilityAnalysis,
   CompatibilityFactor,
+  DateFit,
+  DateFlexibility,
+  evaluateDateFit,
 } from '@booking-swap/shared';
 import { logger } from '../../utils/logger';
 
@@ -13,6 +16,8 @@ export interface SwapBookingDetails {
   totalPrice: number;
   accommodationType: string;
   guests: number;
+  // When the owner can travel, from their swap preferences
+  dateFlexibility?: DateFlexibility;
 }
 
 export interface LocationAnalysisConfig {
@@ -28,6 +33,7 @@ export interface DateAnalysisConfig {
   sameDurationScore: number;
   similarDurationThreshold: number; // days
   moderateDurationThreshold: number; // days
+  unfitDateScore: number; // stays outside someone's date flexibility
 }
 
 export interface ValueAnalysisConfig {
@@ -67,6 +73,7 @@ export class CompatibilityAnalysisEngine {
     sameDurationScore: 100,
     similarDurationThreshold: 3,
     moderateDurationThreshold: 7,
+    unfitDateScore: 10,
   };
 
   private readonly valueConfig: ValueAnalysisConfig = {
@@ -89,7 +96,7 @@ export class CompatibilityAnalysisEngine {
     targetBooking: SwapBookingDetails
   ): Promise<CompatibilityAnalysis> {
     try {
-      logger.info('Starting compatibility analysis', {
+      logger.debug('Starting compatibility analysis', {
         sourceLocation: sourceBooking.location,
         targetLocation: targetBooking.location,
         sourceValue: sourceBooking.totalPrice,
@@ -98,10 +105,14 @@ export class CompatibilityAnalysisEngine {
 
       const weights = { ...this.defaultWeights, ...this.customWeights };
 
+      const dateFit = this.analyzeDateFit(sourceBooking, targetBooking);
+
       // Calculate individual compatibility factors
       const factors = {
         locationCompatibility: this.analyzeLocationCompatibility(sourceBooking, targetBooking),
-        dateCompatibility: this.analyzeDateCompatibility(sourceBooking, targetBooking),
+        dateCompatibility: dateFit
+          ? this.createDateFitFactor(dateFit)
+          : this.analyzeDateCompatibility(sourceBooking, targetBooking),
         valueCompatibility: this.analyzeValueCompatibility(sourceBooking, targetBooking),
         accommodationCompatibility: this.analyzeAccommodationCompatibility(sourceBooking, targetBooking),
         guestCompatibility: this.analyzeGuestCompatibility(sourceBooking, targetBooking),
@@ -118,17 +129,18 @@ export class CompatibilityAnalysisEngine {
       const overallScore = this.calculateOverallScore(factors);
 
       // Generate insights
-      const recommendations = this.generateRecommendations(factors);
-      const potentialIssues = this.identifyPotentialIssues(factors);
+      const recommendations = this.generateRecommendations(factors, dateFit);
+      const potentialIssues = this.identifyPotentialIssues(factors, dateFit);
 
       const analysis: CompatibilityAnalysis = {
         overallScore,
         factors,
+        ...(dateFit && { dateFit }),
         recommendations,
         potentialIssues,
       };
 
-      logger.info('Compatibility analysis completed', {
+      logger.debug('Compatibility analysis completed', {
         overallScore,
         locationScore: factors.locationCompatibility.score,
         dateScore: factors.dateCompatibility.score,
@@ -277,6 +289,63 @@ export class CompatibilityAnalysisEngine {
     }
   }
 
+  /**
+   * How each stay fits the other owner's date flexibility, if either set any.
+   * Each owner's shift is measured from their own dates; when both set some,
+   * the worse fit is reported since both owners have to travel.
+   */
+  private analyzeDateFit(
+    sourceBooking: SwapBookingDetails,
+    targetBooking: SwapBookingDetails
+  ): DateFit | undefined {
+    try {
+      const fits: DateFit[] = [];
+      if (sourceBooking.dateFlexibility) {
+        fits.push(evaluateDateFit(
+          targetBooking.dateRange,
+          sourceBooking.dateFlexibility,
+          sourceBooking.dateRange
+        ));
+      }
+      if (targetBooking.dateFlexibility) {
+        fits.push(evaluateDateFit(
+          sourceBooking.dateRange,
+          targetBooking.dateFlexibility,
+          targetBooking.dateRange
+        ));
+      }
+
+      if (fits.length === 0) {
+        return undefined;
+      }
+
+      return fits.reduce((worst, fit) => (fit.score < worst.score ? fit : worst));
+    } catch (error) {
+      logger.warn('Failed to analyze date fit', { error });
+      return undefined;
+    }
+  }
+
+  private createDateFitFactor(dateFit: DateFit): CompatibilityFactor {
+    const score = dateFit.fits ? dateFit.score : this.dateConfig.unfitDateScore;
+
+    let status: CompatibilityFactor['status'] = 'poor';
+    if (score >= 90) {
+      status = 'excellent';
+    } else if (score >= 75) {
+      status = 'good';
+    } else if (score >= 50) {
+      status = 'fair';
+    }
+
+    return {
+      score,
+      weight: this.defaultWeights.date,
+      details: `Date fit: ${dateFit.explanation}`,
+      status,
+    };
+  }
+
   /**
    * Analyze value compatibility with price range comparison
    * Requirements: 2.6, 2.7
@@ -490,7 +559,10 @@ export class CompatibilityAnalysisEngine {
   /**
    * Generate compatibility recommendations based on factors
    */
-  private generateRecommendations(factors: CompatibilityAnalysis['factors']): string[] {
+  private generateRecommendations(
+    factors: CompatibilityAnalysis['factors'],
+    dateFit?: DateFit
+  ): string[] {
     const recommendations: string[] = [];
 
     // Location recommendations
@@ -501,7 +573,13 @@ export class CompatibilityAnalysisEngine {
     }
 
     // Date recommendations
-    if (factors.dateCompatibility.score >= 80) {
+    if (dateFit) {
+      if (dateFit.fits && dateFit.score >= 80) {
+        recommendations.push('Dates fit the flexibility set in swap preferences');
+      } else if (dateFit.fits) {
+        recommendations.push('Dates only partly fit the flexibility set in swap preferences');
+      }
+    } else if (factors.dateCompatibility.score >= 80) {
       recommendations.push('Great date compatibility - similar stay durations');
     } else if (factors.dateCompatibility.score < 60) {
       recommendations.push('Review date flexibility and coordination requirements');
@@ -544,14 +622,19 @@ export class CompatibilityAnalysisEngine {
   /**
    * Identify potential issues based on compatibility factors
    */
-  private identifyPotentialIssues(factors: CompatibilityAnalysis['factors']): string[] {
+  private identifyPotentialIssues(
+    factors: CompatibilityAnalysis['factors'],
+    dateFit?: DateFit
+  ): string[] {
     const issues: string[] = [];
 
     if (factors.locationCompatibility.score < 40) {
       issues.push('Significant location difference may affect travel costs and logistics');
     }
 
-    if (factors.dateCompatibility.score < 40) {
+    if (dateFit && !dateFit.fits) {
+      issues.push(`Dates don't fit swap preferences: ${dateFit.explanation}`);
+    } else if (factors.dateCompatibility.score < 40) {
       issues.push('Date incompatibility may require complex coordination or flexibility');
     }
 
@@ -3,7 +3,8 @@ import {
     RelatedEntities,
     CompletionTransactionData,
     SwapCompletionErrorCodes,
-    SwapCompletionError
+    SwapCompletionError,
+    SwapCycle
 } from '@booking-swap/shared';
 import { logger } from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
@@ -14,6 +15,16 @@ export interface CompletionTransactionResult {
     updatedProposal: any; // Will be typed as SwapProposal when available
 }
 
+export interface CycleCompletionTransactionResult {
+    transactionId: string;
+    completedSwapIds: string[];
+    transferredBookings: Array<{
+        bookingId: string;
+        previousOwnerId: string;
+        newOwnerId: string;
+    }>;
+}
+
 /**
  * CompletionTransactionManager handles atomic database operations for swap completion workflows.
  * Ensures data integrity through proper transaction management and rollback capabilities.
@@ -25,13 +36,16 @@ export class CompletionTransactionManager {
 
     /**
      * Execute completion transaction with atomic updates to all related entities
-     * Updates swaps, bookings, and proposal status in a single transaction
+     * Updates swaps, bookings, and proposal status in a single transaction.
+     * `beforeCommit` runs on the same client after the updates, so whatever it
+     * writes (such as outbox events) commits or rolls back with them.
      * 
      * Requirements: 1.1, 1.2, 4.1, 4.2
      */
     async executeCompletionTransaction(
         entities: RelatedEntities,
-        transactionData: CompletionTransactionData
+        transactionData: CompletionTransactionData,
+        beforeCommit?: (client: PoolClient, result: CompletionTransactionResult) => Promise<void>
     ): Promise<CompletionTransactionResult> {
         return await this.executeInTransaction(async (client: PoolClient) => {
             try {
@@ -66,6 +80,16 @@ export class CompletionTransactionManager {
                 // Note: Audit record creation is now handled by SwapCompletionAuditService
                 // in the SwapCompletionOrchestrator before transaction execution
 
+                const result = {
+                    updatedSwaps,
+                    updatedBookings,
+                    updatedProposal
+                };
+
+                if (beforeCommit) {
+                    await beforeCommit(client, result);
+                }
+
                 logger.info('Completion transaction completed successfully', {
                     transactionId,
                     proposalId: entities.proposal.id,
@@ -73,11 +97,7 @@ export class CompletionTransactionManager {
                     updatedBookings: updatedBookings.length
                 });
 
-                return {
-                    updatedSwaps,
-                    updatedBookings,
-                    updatedProposal
-                };
+                return result;
             } catch (error) {
                 logger.error('Completion transaction failed', {
                     error: error instanceof Error ? error.message : String(error),
@@ -552,6 +572,170 @@ export class CompletionTransactionManager {
         });
     }
 
+    /**
+     * Execute an all-or-nothing completion of a multi-party swap cycle.
+     * Locks the cycle, its swaps and bookings, re-validates that nothing changed since
+     * the legs were accepted, then completes every swap and hands each booking to the
+     * party that receives it. beforeCommit runs inside the transaction once the updates succeed.
+     */
+    async executeCycleCompletionTransaction(
+        cycle: SwapCycle,
+        beforeCommit?: (client: PoolClient, result: CycleCompletionTransactionResult) => Promise<void>
+    ): Promise<CycleCompletionTransactionResult> {
+        return await this.executeInTransaction(async (client: PoolClient) => {
+            const transactionId = uuidv4();
+            const swapIds = cycle.legs.map(leg => leg.swapId);
+            const bookingIds = cycle.legs.map(leg => leg.bookingId);
+
+            logger.info('Starting swap cycle completion transaction', {
+                transactionId,
+                cycleId: cycle.id,
+                cycleLength: cycle.legs.length
+            });
+
+            const cycleResult = await client.query(
+                'SELECT status FROM swap_cycles WHERE id = $1 FOR UPDATE',
+                [cycle.id]
+            );
+
+            if (cycleResult.rows[0]?.status !== 'accepted') {
+                throw new SwapCompletionError(
+                    SwapCompletionErrorCodes.INVALID_PROPOSAL_STATE,
+                    `Swap cycle ${cycle.id} is not ready for completion (status: ${cycleResult.rows[0]?.status ?? 'missing'})`,
+                    [cycle.id]
+                );
+            }
+
+            const entityResult = await client.query(`
+                SELECT s.id AS swap_id, s.status AS swap_status,
+                       b.id AS booking_id, b.status AS booking_status, b.user_id
+                FROM swaps s
+                JOIN bookings b ON s.source_booking_id = b.id
+                WHERE s.id = ANY($1)
+                FOR UPDATE OF s, b
+            `, [swapIds]);
+
+            const entitiesBySwapId = new Map<string, any>(
+                entityResult.rows.map(row => [row.swap_id, row])
+            );
+
+            const errors: string[] = [];
+            for (const leg of cycle.legs) {
+                const row = entitiesBySwapId.get(leg.swapId);
+                if (!row) {
+                    errors.push(`Swap ${leg.swapId} no longer exists`);
+                } else if (row.swap_status !== 'pending') {
+                    errors.push(`Swap ${leg.swapId} is ${row.swap_status}`);
+                } else if (row.booking_id !== leg.bookingId || row.booking_status !== 'available') {
+                    errors.push(`Booking ${leg.bookingId} is no longer available`);
+                } else if (row.user_id !== leg.giverUserId) {
+                    errors.push(`Booking ${leg.bookingId} has changed owner`);
+                }
+            }
+
+            if (errors.length > 0) {
+                throw new SwapCompletionError(
+                    SwapCompletionErrorCodes.INCONSISTENT_ENTITY_STATES,
+                    `Swap cycle entities changed since acceptance: ${errors.join(', ')}`,
+                    [cycle.id, ...swapIds],
+                    { validationErrors: errors }
+                );
+            }
+
+            const completedSwapIds: string[] = [];
+            const transferredBookings: CycleCompletionTransactionResult['transferredBookings'] = [];
+
+            for (const leg of cycle.legs) {
+                const swapResult = await client.query(`
+                    UPDATE swaps
+                    SET
+                        status = 'completed',
+                        completed_at = NOW(),
+                        completion_transaction_id = $2,
+                        related_swap_completions = $3,
+                        completed_by = $4,
+                        updated_at = NOW()
+                    WHERE id = $1
+                    RETURNING id
+                `, [
+                    leg.swapId,
+                    transactionId,
+                    swapIds.filter(id => id !== leg.swapId),
+                    leg.giverUserId
+                ]);
+
+                if (swapResult.rows.length === 0) {
+                    throw new SwapCompletionError(
+                        SwapCompletionErrorCodes.DATABASE_TRANSACTION_FAILED,
+                        `Failed to update swap: ${leg.swapId}`,
+                        [leg.swapId]
+                    );
+                }
+                completedSwapIds.push(leg.swapId);
+
+                // original_owner_id keeps the first owner if the booking has been swapped before
+                const bookingResult = await client.query(`
+                    UPDATE bookings
+                    SET
+                        status = 'swapped',
+                        swapped_at = NOW(),
+                        swap_transaction_id = $2,
+                        swap_completion_id = $3,
+                        original_owner_id = COALESCE(original_owner_id, user_id),
+                        user_id = $4,
+                        related_booking_swaps = $5,
+                        updated_at = NOW()
+                    WHERE id = $1
+                    RETURNING id
+                `, [
+                    leg.bookingId,
+                    transactionId,
+                    cycle.id,
+                    leg.receiverUserId,
+                    bookingIds.filter(id => id !== leg.bookingId)
+                ]);
+
+                if (bookingResult.rows.length === 0) {
+                    throw new SwapCompletionError(
+                        SwapCompletionErrorCodes.DATABASE_TRANSACTION_FAILED,
+                        `Failed to update booking: ${leg.bookingId}`,
+                        [leg.bookingId]
+                    );
+                }
+                transferredBookings.push({
+                    bookingId: leg.bookingId,
+                    previousOwnerId: leg.giverUserId,
+                    newOwnerId: leg.receiverUserId
+                });
+            }
+
+            await client.query(`
+                UPDATE swap_cycles
+                SET status = 'completed', completion_transaction_id = $2, completed_at = NOW()
+                WHERE id = $1
+            `, [cycle.id, transactionId]);
+
+            const result = {
+                transactionId,
+                completedSwapIds,
+                transferredBookings
+            };
+
+            if (beforeCommit) {
+                await beforeCommit(client, result);
+            }
+
+            logger.info('Swap cycle completion transaction completed successfully', {
+                transactionId,
+                cycleId: cycle.id,
+                completedSwaps: completedSwapIds.length,
+                transferredBookings: transferredBookings.length
+            });
+
+            return result;
+        });
+    }
+
     // Private helper methods
     private async executeInTransaction<T>(
         operation: (client: PoolClient) => Promise<T>
@@ -0,0 +1,434 @@
+import {
+  NotificationType,
+  SwapCycle,
+  SwapCycleCandidate,
+  SwapCycleDiscoveryResult,
+  SwapCycleError,
+  SwapCycleErrorCodes,
+  SwapCycleLeg,
+  SwapCycleLegResponseResult,
+} from '@booking-swap/shared';
+import {
+  SwapCycleRepository,
+  SwapCycleCandidateSwap,
+  SwapCycleLegResponse,
+} from '../../database/repositories/SwapCycleRepository';
+import { SwapCycleDetectionService } from './SwapCycleDetectionService';
+import { SwapCompletionOrchestrator } from './SwapCompletionOrchestrator';
+import {
+  NotificationService,
+  PreparedNotification,
+} from '../notification/NotificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { logger } from '../../utils/logger';
+
+export interface MultiPartySwapServiceConfig {
+  proposalTtlHours: number;
+  maxCandidateSwaps: number;
+  /** How often the scheduler looks for new cycles among open swaps */
+  discoveryIntervalMs: number;
+}
+
+const DEFAULT_CONFIG: MultiPartySwapServiceConfig = {
+  proposalTtlHours: 48,
+  maxCandidateSwaps: 200,
+  discoveryIntervalMs: 60 * 60 * 1000,
+};
+
+/**
+ * MultiPartySwapService proposes 3- and 4-party swap cycles and drives them to completion.
+ * Every party accepts or declines their own leg; a single decline cancels the cycle and
+ * the swap only executes once all legs are accepted.
+ */
+export class MultiPartySwapService {
+  private readonly config: MultiPartySwapServiceConfig;
+
+  constructor(
+    private readonly cycleRepository: SwapCycleRepository,
+    private readonly detectionService: SwapCycleDetectionService,
+    private readonly completionOrchestrator: SwapCompletionOrchestrator,
+    private readonly notificationService: NotificationService,
+    private readonly jobScheduler?: JobScheduler,
+    config: Partial<MultiPartySwapServiceConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  registerJobHandlers(): void {
+    if (!this.jobScheduler) {
+      return;
+    }
+
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.SWAP_CYCLE_DISCOVERY,
+      async () => {
+        await this.discoverAndProposeCycles();
+      },
+      { intervalMs: this.config.discoveryIntervalMs }
+    );
+  }
+
+  /**
+   * Detect cycles among open swaps and propose each one to its participants
+   */
+  async discoverAndProposeCycles(): Promise<SwapCycleDiscoveryResult> {
+    await this.expireStaleCycles();
+
+    const candidates = await this.cycleRepository.findCandidateSwaps(
+      this.config.maxCandidateSwaps
+    );
+    const detected = await this.detectionService.detectCycles(candidates);
+    const swapsById = new Map(
+      candidates.map(candidate => [candidate.swapId, candidate])
+    );
+
+    const proposedCycles: SwapCycle[] = [];
+    for (const candidate of detected) {
+      try {
+        const cycle = await this.proposeCycle(candidate, swapsById);
+        proposedCycles.push(cycle);
+      } catch (error) {
+        logger.error('Failed to propose swap cycle', {
+          swapIds: candidate.swapIds,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info('Swap cycle discovery completed', {
+      candidatesEvaluated: candidates.length,
+      cyclesFound: detected.length,
+      cyclesProposed: proposedCycles.length,
+    });
+
+    return {
+      proposedCycles,
+      candidatesEvaluated: candidates.length,
+      cyclesFound: detected.length,
+    };
+  }
+
+  async getUserCycles(userId: string): Promise<SwapCycle[]> {
+    return this.cycleRepository.findByUserId(userId);
+  }
+
+  async getCycleForUser(cycleId: string, userId: string): Promise<SwapCycle> {
+    const cycle = await this.cycleRepository.findById(cycleId);
+    if (!cycle || !cycle.legs.some(leg => leg.giverUserId === userId)) {
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.CYCLE_NOT_FOUND,
+        'Swap cycle not found'
+      );
+    }
+
+    return cycle;
+  }
+
+  /**
+   * Accept the user's leg. When this is the last pending leg the cycle is completed atomically.
+   */
+  async acceptLeg(
+    cycleId: string,
+    legId: string,
+    userId: string
+  ): Promise<SwapCycleLegResponseResult> {
+    const { cycle, leg } = await this.getRespondableLeg(cycleId, legId, userId);
+
+    const response = await this.respondToLeg(cycle, leg, 'accepted');
+    cycle.legs = cycle.legs.map(existing =>
+      existing.id === response.leg.id ? response.leg : existing
+    );
+
+    // The count comes from the database after the update, so of two parties
+    // accepting at the same time only the later one sees every leg accepted
+    if (response.cycleStatus !== 'accepted') {
+      await this.notifyParticipants(
+        cycle,
+        'swap_cycle_leg_accepted',
+        () => ({
+          acceptedCount: response.acceptedCount,
+          cycleLength: cycle.cycleLength,
+        }),
+        userId
+      );
+
+      return { cycle, completed: false };
+    }
+    cycle.status = 'accepted';
+
+    return this.completeCycle(cycle, userId);
+  }
+
+  /**
+   * Decline the user's leg, which cancels the whole cycle
+   */
+  async declineLeg(
+    cycleId: string,
+    legId: string,
+    userId: string
+  ): Promise<SwapCycleLegResponseResult> {
+    const { cycle, leg } = await this.getRespondableLeg(cycleId, legId, userId);
+
+    await this.respondToLeg(
+      cycle,
+      leg,
+      'declined',
+      `Declined by user ${userId}`
+    );
+
+    const declinedCycle = await this.getCycleForUser(cycle.id, userId);
+    await this.notifyParticipants(
+      declinedCycle,
+      'swap_cycle_declined',
+      () => ({
+        cycleLength: declinedCycle.cycleLength,
+      }),
+      userId
+    );
+
+    return { cycle: declinedCycle, completed: false };
+  }
+
+  async expireStaleCycles(): Promise<number> {
+    const expiredIds = await this.cycleRepository.expireStaleCycles();
+    if (expiredIds.length > 0) {
+      logger.info('Expired stale swap cycles', {
+        count: expiredIds.length,
+        cycleIds: expiredIds,
+      });
+    }
+
+    return expiredIds.length;
+  }
+
+  private async proposeCycle(
+    candidate: SwapCycleCandidate,
+    swapsById: Map<string, SwapCycleCandidateSwap>
+  ): Promise<SwapCycle> {
+    const swaps = candidate.swapIds.map(id => swapsById.get(id)!);
+    const expiresAt = new Date(
+      Date.now() + this.config.proposalTtlHours * 60 * 60 * 1000
+    );
+
+    // Position i gives its booking to position i - 1 and receives the booking of position i + 1
+    const legs = swaps.map((swap, index) => {
+      const receives = swaps[(index + 1) % swaps.length]!;
+      const givesTo = swaps[(index - 1 + swaps.length) % swaps.length]!;
+      return {
+        position: index,
+        swapId: swap.swapId,
+        bookingId: swap.bookingId,
+        giverUserId: swap.ownerId,
+        receiverUserId: givesTo.ownerId,
+        receivesSwapId: receives.swapId,
+        receivesBookingId: receives.bookingId,
+        compatibilityScore: candidate.edges[index]?.score ?? 0,
+      };
+    });
+
+    const cycle = await this.cycleRepository.createCycle({
+      cycleLength: swaps.length,
+      totalScore: candidate.score,
+      expiresAt,
+      legs,
+    });
+
+    const titles = new Map(swaps.map(swap => [swap.bookingId, swap.title]));
+    await this.notifyParticipants(cycle, 'swap_cycle_proposed', leg => ({
+      cycleLength: cycle.cycleLength,
+      givesBookingTitle: titles.get(leg.bookingId),
+      receivesBookingTitle: titles.get(leg.receivesBookingId),
+      compatibilityScore: Math.round(leg.compatibilityScore),
+      expiresAt: expiresAt.toISOString(),
+      cycleUrl: `${process.env.FRONTEND_URL}/swap-cycles/${cycle.id}`,
+    }));
+
+    return cycle;
+  }
+
+  private async completeCycle(
+    cycle: SwapCycle,
+    userId: string
+  ): Promise<SwapCycleLegResponseResult> {
+    try {
+      const titles = await this.cycleRepository.findBookingTitles(
+        cycle.legs.map(leg => leg.receivesBookingId)
+      );
+
+      // Queued by the completion transaction, so they only go out if the cycle completes
+      await this.completionOrchestrator.completeMultiPartyCycle(
+        cycle,
+        this.buildParticipantNotifications(
+          cycle,
+          'swap_cycle_completed',
+          leg => ({
+            cycleLength: cycle.cycleLength,
+            receivesBookingTitle: titles.get(leg.receivesBookingId),
+            dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`,
+          })
+        )
+      );
+
+      return {
+        cycle: await this.getCycleForUser(cycle.id, userId),
+        completed: true,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Swap cycle completion failed', {
+        cycleId: cycle.id,
+        error: message,
+      });
+
+      await this.cycleRepository.transitionStatus(
+        cycle.id,
+        'accepted',
+        'failed',
+        message
+      );
+
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.CYCLE_COMPLETION_FAILED,
+        `Swap cycle could not be completed: ${message}`,
+        { cycleId: cycle.id }
+      );
+    }
+  }
+
+  private async getRespondableLeg(
+    cycleId: string,
+    legId: string,
+    userId: string
+  ): Promise<{ cycle: SwapCycle; leg: SwapCycleLeg }> {
+    const cycle = await this.getCycleForUser(cycleId, userId);
+
+    const leg = cycle.legs.find(existing => existing.id === legId);
+    if (!leg) {
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.LEG_NOT_FOUND,
+        'Swap cycle leg not found'
+      );
+    }
+
+    if (leg.giverUserId !== userId) {
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.NOT_LEG_OWNER,
+        'You can only respond to your own leg of the swap'
+      );
+    }
+
+    if (cycle.status !== 'proposed') {
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.INVALID_CYCLE_STATUS,
+        `Swap cycle is ${cycle.status} and can no longer be answered`
+      );
+    }
+
+    if (cycle.expiresAt.getTime() <= Date.now()) {
+      await this.cycleRepository.transitionStatus(
+        cycle.id,
+        'proposed',
+        'expired'
+      );
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.CYCLE_EXPIRED,
+        'Swap cycle has expired'
+      );
+    }
+
+    if (leg.status !== 'pending') {
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.LEG_ALREADY_RESPONDED,
+        'This leg has already been answered'
+      );
+    }
+
+    return { cycle, leg };
+  }
+
+  private async respondToLeg(
+    cycle: SwapCycle,
+    leg: SwapCycleLeg,
+    status: 'accepted' | 'declined',
+    reason?: string
+  ): Promise<SwapCycleLegResponse & { leg: SwapCycleLeg }> {
+    const response = await this.cycleRepository.respondToLeg(
+      cycle.id,
+      leg.id,
+      status,
+      reason
+    );
+    if (!response) {
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.CYCLE_NOT_FOUND,
+        'Swap cycle not found'
+      );
+    }
+    if (!response.leg) {
+      // Another party declined, or the cycle expired, since it was loaded
+      if (response.cycleStatus !== 'proposed') {
+        throw new SwapCycleError(
+          SwapCycleErrorCodes.INVALID_CYCLE_STATUS,
+          `Swap cycle is ${response.cycleStatus} and can no longer be answered`
+        );
+      }
+      throw new SwapCycleError(
+        SwapCycleErrorCodes.LEG_ALREADY_RESPONDED,
+        'This leg has already been answered'
+      );
+    }
+
+    return { ...response, leg: response.leg };
+  }
+
+  private buildParticipantNotifications(
+    cycle: SwapCycle,
+    type: NotificationType,
+    buildData: (leg: SwapCycleLeg) => Record<string, any>,
+    excludeUserId?: string
+  ): PreparedNotification[] {
+    return cycle.legs
+      .filter(leg => leg.giverUserId !== excludeUserId)
+      .map(leg => ({
+        type,
+        userId: leg.giverUserId,
+        data: {
+          cycleId: cycle.id,
+          swapId: leg.swapId,
+          legId: leg.id,
+          ...buildData(leg),
+        },
+      }));
+  }
+
+  private async notifyParticipants(
+    cycle: SwapCycle,
+    type: NotificationType,
+    buildData: (leg: SwapCycleLeg) => Record<string, any>,
+    excludeUserId?: string
+  ): Promise<void> {
+    const results = await Promise.allSettled(
+      this.buildParticipantNotifications(
+        cycle,
+        type,
+        buildData,
+        excludeUserId
+      ).map(notification =>
+        this.notificationService.sendNotification(
+          notification.type,
+          notification.userId,
+          notification.data
+        )
+      )
+    );
+
+    const failures = results.filter(result => result.status === 'rejected');
+    if (failures.length > 0) {
+      logger.warn('Some swap cycle notifications failed', {
+        cycleId: cycle.id,
+        type,
+        failed: failures.length,
+      });
+    }
+  }
+}
@@ -11,6 +11,7 @@ import { SwapProposalService, CreateSwapProposalRequest } from './SwapProposalSe
 import { SwapMatchingService } from './SwapMatchingService';
 import { HederaService, TransactionData } from '../hedera/HederaService';
 import { NotificationService } from '../notification/NotificationService';
+import { SwapProposalMetadataRepository } from '../../database/repositories/SwapProposalMetadataRepository';
 import { logger } from '../../utils/logger';
 
 export interface SwapLockInfo {
@@ -30,7 +31,8 @@ export class ProposalCreationWorkflow {
     private swapProposalService: SwapProposalService,
     private swapMatchingService: SwapMatchingService,
     private hederaService: HederaService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private proposalMetadataRepository?: SwapProposalMetadataRepository
   ) {
     // Clean up expired locks every minute
     setInterval(() => this.cleanupExpiredLocks(), 60 * 1000);
@@ -278,10 +280,16 @@ export class ProposalCreationWorkflow {
         compatibilityScore: metadata.compatibilityScore 
       });
 
-      // In a production system, this would store metadata in a dedicated table
-      // For now, we'll log it for tracking purposes
-      // TODO: Implement actual metadata storage if needed for analytics or features
-      
+      // Stored proposals feed the user's recommendations
+      if (this.proposalMetadataRepository && metadata.proposerId && metadata.targetOwnerId) {
+        await this.proposalMetadataRepository.createProposalMetadata({
+          ...metadata,
+          proposerId: metadata.proposerId,
+          targetOwnerId: metadata.targetOwnerId,
+          blockchainTransactionId: metadata.blockchainTransactionId || '',
+        });
+      }
+
       logger.info('Browse proposal metadata recorded', metadata);
     } catch (error) {
       logger.warn('Failed to record browse proposal metadata', { error, metadata });
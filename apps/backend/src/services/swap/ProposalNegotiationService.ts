@@ -0,0 +1,367 @@
+import {
+  CounterOfferResponseRequest,
+  CreateCounterOfferRequest,
+  NegotiatedTerms,
+  NotificationType,
+  ProposalNegotiationThread,
+  ProposalNegotiationVersion,
+} from '@booking-swap/shared';
+import {
+  NegotiableProposal,
+  ProposalNegotiationRepository,
+} from '../../database/repositories/ProposalNegotiationRepository';
+import {
+  ProposalAcceptanceResult,
+  ProposalAcceptanceService,
+} from './ProposalAcceptanceService';
+import { NotificationService } from '../notification/NotificationService';
+import { logger } from '../../utils/logger';
+
+export interface CounterOfferResponseResult {
+  version: ProposalNegotiationVersion;
+  acceptance?: ProposalAcceptanceResult;
+}
+
+const MAX_CONDITIONS = 20;
+const MAX_CONDITION_LENGTH = 500;
+
+/**
+ * ProposalNegotiationService lets the proposer and the booking owner exchange
+ * counter-offers on a pending proposal. Counters alternate between the two
+ * parties; accepting a counter completes the swap on that version's terms,
+ * rejecting it leaves the original proposal pending.
+ */
+export class ProposalNegotiationService {
+  constructor(
+    private readonly negotiationRepository: ProposalNegotiationRepository,
+    private readonly proposalAcceptanceService: ProposalAcceptanceService,
+    private readonly notificationService: NotificationService
+  ) {}
+
+  async getNegotiationThread(
+    proposalId: string,
+    userId: string
+  ): Promise<ProposalNegotiationThread> {
+    const proposal = await this.getProposalForParty(proposalId, userId);
+    const versions =
+      await this.negotiationRepository.findByProposalId(proposalId);
+
+    return {
+      proposalId,
+      proposerId: proposal.proposerId,
+      targetUserId: proposal.targetUserId,
+      proposalStatus: proposal.status,
+      originalTerms: proposal.terms,
+      openVersion: versions.find(version => version.status === 'open'),
+      acceptedVersion: versions.find(version => version.status === 'accepted'),
+      versions,
+    };
+  }
+
+  /**
+   * Send a counter-offer. The booking owner makes the first counter; after that
+   * only the recipient of the open counter may counter again.
+   */
+  async counterOffer(
+    proposalId: string,
+    userId: string,
+    request: CreateCounterOfferRequest
+  ): Promise<ProposalNegotiationVersion> {
+    const proposal = await this.getProposalForParty(proposalId, userId);
+    this.assertPending(proposal);
+
+    const versions =
+      await this.negotiationRepository.findByProposalId(proposalId);
+    const openVersion = versions.find(version => version.status === 'open');
+
+    if (openVersion) {
+      if (openVersion.recipientId !== userId) {
+        throw new Error(
+          'Access denied: waiting for the other party to respond to your counter-offer'
+        );
+      }
+    } else if (proposal.targetUserId !== userId) {
+      throw new Error(
+        'Access denied: only the booking owner can make the first counter-offer'
+      );
+    }
+
+    // A counter starts from the terms currently on the table
+    const baseTerms = openVersion ? openVersion.terms : proposal.terms;
+    const terms = this.buildTerms(baseTerms, request);
+    const recipientId =
+      userId === proposal.proposerId
+        ? proposal.targetUserId
+        : proposal.proposerId;
+
+    const version = await this.negotiationRepository.createCounterOffer(
+      {
+        proposalId,
+        authorId: userId,
+        recipientId,
+        terms,
+        message: request.message?.trim() || undefined,
+      },
+      openVersion?.id ?? null
+    );
+    if (!version) {
+      throw new Error(
+        'Invalid counter-offer: the negotiation changed, please reload and try again'
+      );
+    }
+
+    logger.info('Counter-offer created', {
+      proposalId,
+      versionId: version.id,
+      version: version.version,
+      authorId: userId,
+    });
+
+    await this.notify('proposal_countered', recipientId, proposal, version, {
+      cashOfferAmount: terms.cashOffer?.amount,
+      cashOfferCurrency: terms.cashOffer?.currency,
+      additionalPayment: terms.additionalPayment,
+      conditions: terms.conditions.join(', '),
+      expiresAt: terms.expiresAt.toISOString(),
+      message: version.message,
+      negotiationUrl: `${process.env.FRONTEND_URL}/proposals/${proposalId}`,
+    });
+
+    return version;
+  }
+
+  /**
+   * Accept or reject the open counter-offer addressed to the user
+   */
+  async respondToCounterOffer(
+    proposalId: string,
+    versionId: string,
+    userId: string,
+    response: CounterOfferResponseRequest
+  ): Promise<CounterOfferResponseResult> {
+    const proposal = await this.getProposalForParty(proposalId, userId);
+    this.assertPending(proposal);
+
+    const versions =
+      await this.negotiationRepository.findByProposalId(proposalId);
+    const version = versions.find(existing => existing.id === versionId);
+    if (!version) {
+      throw new Error('Counter-offer not found');
+    }
+    if (version.recipientId !== userId) {
+      throw new Error(
+        'Access denied: only the recipient can respond to a counter-offer'
+      );
+    }
+    if (version.status !== 'open') {
+      throw new Error(
+        `Invalid counter-offer: version ${version.version} is ${version.status}`
+      );
+    }
+
+    if (response.action === 'reject') {
+      return this.rejectCounterOffer(proposal, version, response.reason);
+    }
+
+    if (response.action === 'accept') {
+      return this.acceptCounterOffer(proposal, version);
+    }
+
+    throw new Error(`Invalid action: ${response.action}`);
+  }
+
+  private async acceptCounterOffer(
+    proposal: NegotiableProposal,
+    version: ProposalNegotiationVersion
+  ): Promise<CounterOfferResponseResult> {
+    if (version.terms.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Invalid counter-offer: it has expired');
+    }
+
+    const accepted = await this.negotiationRepository.acceptVersion(version.id);
+    if (!accepted) {
+      throw new Error('Invalid counter-offer: it has already been answered');
+    }
+
+    // The completion workflow is driven by the booking owner's acceptance,
+    // whichever party accepted the final version
+    let acceptance: ProposalAcceptanceResult;
+    try {
+      acceptance = await this.proposalAcceptanceService.acceptProposal({
+        proposalId: proposal.proposalId,
+        userId: proposal.targetUserId,
+        action: 'accept',
+      });
+    } catch (error) {
+      logger.error(
+        'Completing negotiated proposal failed, reopening counter-offer',
+        {
+          proposalId: proposal.proposalId,
+          versionId: version.id,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      );
+      await this.negotiationRepository.revertAcceptedVersion(
+        accepted,
+        proposal.terms
+      );
+      throw error;
+    }
+
+    logger.info('Counter-offer accepted', {
+      proposalId: proposal.proposalId,
+      versionId: accepted.id,
+      version: accepted.version,
+    });
+
+    await this.notify(
+      'counter_offer_accepted',
+      accepted.authorId,
+      proposal,
+      accepted,
+      { dashboardUrl: `${process.env.FRONTEND_URL}/dashboard` }
+    );
+
+    return { version: accepted, acceptance };
+  }
+
+  private async rejectCounterOffer(
+    proposal: NegotiableProposal,
+    version: ProposalNegotiationVersion,
+    reason?: string
+  ): Promise<CounterOfferResponseResult> {
+    const rejected = await this.negotiationRepository.rejectVersion(version.id);
+    if (!rejected) {
+      throw new Error('Invalid counter-offer: it has already been answered');
+    }
+
+    logger.info('Counter-offer rejected', {
+      proposalId: proposal.proposalId,
+      versionId: rejected.id,
+      version: rejected.version,
+    });
+
+    await this.notify(
+      'counter_offer_rejected',
+      rejected.authorId,
+      proposal,
+      rejected,
+      { reason }
+    );
+
+    return { version: rejected };
+  }
+
+  private buildTerms(
+    base: NegotiatedTerms,
+    request: CreateCounterOfferRequest
+  ): NegotiatedTerms {
+    const expiresAt =
+      request.expiresAt !== undefined
+        ? new Date(request.expiresAt)
+        : base.expiresAt;
+    if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+      throw new Error('Invalid counter-offer: expiry must be in the future');
+    }
+
+    const additionalPayment =
+      request.additionalPayment !== undefined
+        ? request.additionalPayment
+        : base.additionalPayment;
+    if (
+      additionalPayment !== undefined &&
+      (!Number.isFinite(additionalPayment) || additionalPayment < 0)
+    ) {
+      throw new Error(
+        'Invalid counter-offer: additional payment must be a positive amount'
+      );
+    }
+
+    const conditions = (request.conditions ?? base.conditions)
+      .map(condition => condition.trim())
+      .filter(condition => condition.length > 0);
+    if (
+      conditions.length > MAX_CONDITIONS ||
+      conditions.some(condition => condition.length > MAX_CONDITION_LENGTH)
+    ) {
+      throw new Error(
+        `Invalid counter-offer: at most ${MAX_CONDITIONS} conditions of up to ${MAX_CONDITION_LENGTH} characters`
+      );
+    }
+
+    let cashOffer = base.cashOffer;
+    if (request.cashOffer) {
+      if (!base.cashOffer) {
+        throw new Error(
+          'Invalid counter-offer: cash amounts can only be countered on cash proposals'
+        );
+      }
+      if (
+        !Number.isFinite(request.cashOffer.amount) ||
+        request.cashOffer.amount <= 0
+      ) {
+        throw new Error(
+          'Invalid counter-offer: cash offer must be a positive amount'
+        );
+      }
+      cashOffer = {
+        amount: request.cashOffer.amount,
+        currency: request.cashOffer.currency || base.cashOffer.currency,
+      };
+    }
+
+    return { additionalPayment, conditions, expiresAt, cashOffer };
+  }
+
+  private async getProposalForParty(
+    proposalId: string,
+    userId: string
+  ): Promise<NegotiableProposal> {
+    const proposal =
+      await this.negotiationRepository.findNegotiableProposal(proposalId);
+    if (!proposal) {
+      throw new Error('Proposal not found');
+    }
+
+    if (proposal.proposerId !== userId && proposal.targetUserId !== userId) {
+      throw new Error(
+        'Access denied: only the parties to a proposal can negotiate it'
+      );
+    }
+
+    return proposal;
+  }
+
+  private assertPending(proposal: NegotiableProposal): void {
+    if (proposal.status !== 'pending') {
+      throw new Error(
+        `Invalid proposal status: ${proposal.status}. Only pending proposals can be negotiated`
+      );
+    }
+  }
+
+  private async notify(
+    type: NotificationType,
+    userId: string,
+    proposal: NegotiableProposal,
+    version: ProposalNegotiationVersion,
+    data: Record<string, any>
+  ): Promise<void> {
+    try {
+      await this.notificationService.sendNotification(type, userId, {
+        proposalId: proposal.proposalId,
+        versionId: version.id,
+        version: version.version,
+        bookingTitle: proposal.bookingTitle || 'your booking',
+        ...data,
+      });
+    } catch (error) {
+      logger.warn('Failed to send negotiation notification', {
+        type,
+        proposalId: proposal.proposalId,
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -169,7 +169,7 @@ export class SwapCompletionAuditService {
                     status = $2,
                     post_validation_result = $3,
                     error_details = $4,
-                    blockchain_transaction_id = $5,
+                    blockchain_transaction_id = COALESCE($5, blockchain_transaction_id),
                     updated_at = NOW()
                 WHERE proposal_id = $1
                 RETURNING 
@@ -239,6 +239,29 @@ export class SwapCompletionAuditService {
         }
     }
 
+    /**
+     * Store the blockchain transaction ID of a completion recorded after the
+     * audit record was finalised
+     * 
+     * Requirements: 7.4
+     */
+    async recordBlockchainTransaction(
+        proposalId: string,
+        blockchainTransactionId: string
+    ): Promise<void> {
+        await this.pool.query(
+            `UPDATE swap_completion_audits
+             SET blockchain_transaction_id = $2, updated_at = NOW()
+             WHERE proposal_id = $1`,
+            [proposalId, blockchainTransactionId]
+        );
+
+        logger.info('Completion audit record linked to blockchain transaction', {
+            proposalId,
+            blockchainTransactionId
+        });
+    }
+
     /**
      * Get audit record by proposal ID
      * Retrieves complete audit trail for a specific completion
@@ -7,10 +7,11 @@ import {
     CompletedBookingInfo,
     CompletionTransactionData,
     CompletionValidationResult,
-    SwapCompletionErrorCodes
+    SwapCompletionErrorCodes,
+    SwapCycle
 } from '@booking-swap/shared';
 import { SwapCompletionError } from '../../utils/SwapCompletionError';
-import { CompletionTransactionManager } from './CompletionTransactionManager';
+import { CompletionTransactionManager, CompletionTransactionResult, CycleCompletionTransactionResult } from './CompletionTransactionManager';
 import { CompletionValidationService } from './CompletionValidationService';
 import { CompletionRollbackManager } from './CompletionRollbackManager';
 import { SwapCompletionAuditService } from './SwapCompletionAuditService';
@@ -19,10 +20,27 @@ import { CompletionErrorLoggingService } from '../logging/CompletionErrorLogging
 import { CompletionAlertingService } from '../alerting/CompletionAlertingService';
 import { CompletionPerformanceMonitoringService, PerformanceSample } from '../monitoring/CompletionPerformanceMonitoringService';
 import { HederaService } from '../hedera/HederaService';
-import { NotificationService } from '../notification/NotificationService';
+import {
+    BookingOwnershipTransferNotificationData,
+    NotificationService,
+    NotificationSwapDetails,
+    PreparedNotification
+} from '../notification/NotificationService';
+import { OutboxService, OUTBOX_EVENT_TYPES } from '../outbox/OutboxService';
+import { createOutboxService } from '../outbox/factory';
 import { logger } from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Details shown in the notifications of one completion
+ */
+interface CompletionNotificationDetails {
+    sourceSwapDetails: NotificationSwapDetails;
+    targetSwapDetails?: NotificationSwapDetails;
+    /** Ownership transfer details by booking ID */
+    transfers: Map<string, Pick<BookingOwnershipTransferNotificationData, 'bookingDetails' | 'exchangePartnerDetails'>>;
+}
+
 /**
  * SwapCompletionOrchestrator manages the complete swap completion workflow.
  * Coordinates atomic updates across all related entities when a swap proposal is accepted.
@@ -39,6 +57,7 @@ export class SwapCompletionOrchestrator {
     private errorLoggingService: CompletionErrorLoggingService;
     private alertingService: CompletionAlertingService;
     private performanceMonitoringService: CompletionPerformanceMonitoringService;
+    private outboxService: OutboxService;
 
     constructor(
         private readonly pool: Pool,
@@ -53,6 +72,7 @@ export class SwapCompletionOrchestrator {
         this.errorLoggingService = CompletionErrorLoggingService.getInstance();
         this.alertingService = CompletionAlertingService.getInstance();
         this.performanceMonitoringService = CompletionPerformanceMonitoringService.getInstance();
+        this.outboxService = createOutboxService(pool);
     }
 
     /**
@@ -235,6 +255,41 @@ export class SwapCompletionOrchestrator {
         }
     }
 
+    /**
+     * Complete a multi-party swap cycle once every leg has been accepted.
+     * The database update is all-or-nothing. The blockchain record and the
+     * participants' notifications are queued in the outbox by the same
+     * transaction, so they are sent if and only if the cycle completes.
+     */
+    async completeMultiPartyCycle(
+        cycle: SwapCycle,
+        notifications: PreparedNotification[] = []
+    ): Promise<CycleCompletionTransactionResult> {
+        const operationId = uuidv4();
+        const startTime = Date.now();
+
+        logger.info('Starting multi-party swap cycle completion', {
+            operationId,
+            cycleId: cycle.id,
+            cycleLength: cycle.legs.length
+        });
+
+        const result = await this.transactionManager.executeCycleCompletionTransaction(
+            cycle,
+            (client, transactionResult) =>
+                this.queueCycleCompletionEvents(client, cycle, transactionResult, notifications)
+        );
+
+        logger.info('Multi-party swap cycle completion successful', {
+            operationId,
+            cycleId: cycle.id,
+            completedSwaps: result.completedSwapIds.length,
+            duration: Date.now() - startTime
+        });
+
+        return result;
+    }
+
     /**
      * Identify all related entities for a proposal
      * Fetches proposal, swaps, bookings, and payment transactions
@@ -261,6 +316,8 @@ export class SwapCompletionOrchestrator {
                     cash_offer_currency,
                     message,
                     conditions,
+                    additional_payment,
+                    accepted_negotiation_version_id,
                     expires_at,
                     created_at,
                     updated_at
@@ -319,6 +376,20 @@ export class SwapCompletionOrchestrator {
                 }
             }
 
+            // Step 5: Fetch the accepted counter-offer so the negotiated terms are recorded
+            if (proposal.accepted_negotiation_version_id) {
+                const negotiationResult = await client.query(
+                    `SELECT id, version, author_id, additional_payment, conditions,
+                            cash_offer_amount, cash_offer_currency, expires_at
+                     FROM proposal_negotiation_versions
+                     WHERE id = $1 AND status = 'accepted'`,
+                    [proposal.accepted_negotiation_version_id]
+                );
+                if (negotiationResult.rows.length > 0) {
+                    entities.negotiatedVersion = negotiationResult.rows[0];
+                }
+            }
+
             logger.debug('Related entities identified successfully', {
                 proposalId,
                 hasSourceSwap: !!entities.sourceSwap,
@@ -417,82 +488,34 @@ export class SwapCompletionOrchestrator {
             // Step 4: Validate transaction data
             this.transactionManager.validateCompletionTransactionData(entities, transactionData);
 
-            // Step 5: Execute atomic database transaction
+            // Step 5: Load notification details while the bookings still belong to their owners
+            const notificationDetails = await this.loadCompletionNotificationDetails(entities);
+
+            // Step 6: Execute atomic database transaction. The blockchain record and
+            // notifications are queued in the outbox by the same transaction, so they
+            // are sent if and only if the completion commits.
             const transactionResult = await this.transactionManager.executeCompletionTransaction(
                 entities,
-                transactionData
-            );
-
-            // Step 6: Prepare completion result
-            const completedSwaps: CompletedSwapInfo[] = transactionResult.updatedSwaps.map(swap => ({
-                swapId: swap.id,
-                previousStatus: entities.sourceSwap.id === swap.id ? entities.sourceSwap.status : entities.targetSwap?.status || 'unknown',
-                newStatus: swap.status,
-                completedAt: new Date(swap.completed_at)
-            }));
-
-            const updatedBookings: CompletedBookingInfo[] = transactionResult.updatedBookings.map(booking => ({
-                bookingId: booking.id,
-                previousStatus: entities.sourceBooking.id === booking.id ? entities.sourceBooking.status : entities.targetBooking?.status || 'unknown',
-                newStatus: booking.status,
-                swappedAt: new Date(booking.swapped_at),
-                newOwnerId: booking.user_id !== booking.original_owner_id ? booking.user_id : undefined
-            }));
-
-            // Step 7: Record blockchain transaction with retry logic
-            let blockchainTransaction: { transactionId: string; consensusTimestamp?: string };
-
-            try {
-                blockchainTransaction = await this.recordCompletionTransaction(
-                    entities,
-                    completedSwaps,
-                    updatedBookings,
-                    operationId
-                );
-
-                // Update swap records with blockchain completion ID
-                await this.updateSwapBlockchainCompletionIds(
-                    completedSwaps,
-                    blockchainTransaction.transactionId
-                );
-
-                logger.info('Blockchain completion transaction recorded and stored', {
-                    operationId,
-                    proposalId: entities.proposal.id,
-                    blockchainTransactionId: blockchainTransaction.transactionId,
-                    consensusTimestamp: blockchainTransaction.consensusTimestamp
-                });
-
-            } catch (blockchainError) {
-                logger.error('Blockchain recording failed after all retries', {
-                    operationId,
-                    proposalId: entities.proposal.id,
-                    error: blockchainError instanceof Error ? blockchainError.message : String(blockchainError)
-                });
-
-                // Check if this is a critical failure that should rollback the entire completion
-                if (blockchainError instanceof SwapCompletionError &&
-                    blockchainError.code === SwapCompletionErrorCodes.BLOCKCHAIN_RECORDING_FAILED) {
-
-                    // For critical blockchain failures, we might want to rollback
-                    // For now, we'll continue but mark the completion as having blockchain issues
-                    blockchainTransaction = {
-                        transactionId: `failed_${operationId}`,
-                        consensusTimestamp: undefined
-                    };
-
-                    // Store the failure in completion audit
-                    await this.auditService.updateAuditRecordStatus(
-                        entities.proposal.id,
-                        'completed',
-                        undefined,
-                        `Blockchain recording failed: ${blockchainError.message}`
+                transactionData,
+                async (client, result) => {
+                    const summary = this.summarizeCompletion(entities, result);
+                    await this.queueCompletionEvents(
+                        client,
+                        entities,
+                        summary.completedSwaps,
+                        summary.updatedBookings,
+                        operationId,
+                        notificationDetails
                     );
-                } else {
-                    // Re-throw unexpected errors
-                    throw blockchainError;
                 }
-            }
+            );
+
+            // Step 7: Prepare completion result. The outbox relay submits the blockchain
+            // record after commit and stores its transaction ID once it is delivered.
+            const { completedSwaps, updatedBookings } = this.summarizeCompletion(entities, transactionResult);
+            const blockchainTransaction: { transactionId: string; consensusTimestamp?: string } = {
+                transactionId: `pending_${operationId}`
+            };
 
             // Step 8: Post-completion validation
             const postValidationResult = await this.validationService.validatePostCompletion(
@@ -517,18 +540,7 @@ export class SwapCompletionOrchestrator {
             await this.auditService.updateAuditRecordStatus(
                 entities.proposal.id,
                 'completed',
-                postValidationResult,
-                undefined,
-                blockchainTransaction.transactionId.startsWith('failed_') ? undefined : blockchainTransaction.transactionId
-            );
-
-            // Step 10: Send notifications
-            await this.sendCompletionNotifications(
-                entities,
-                completedSwaps,
-                updatedBookings,
-                transactionResult.updatedProposal,
-                blockchainTransaction
+                postValidationResult
             );
 
             const result: SwapCompletionResult = {
@@ -543,8 +555,7 @@ export class SwapCompletionOrchestrator {
                 operationId,
                 proposalId: entities.proposal.id,
                 completedSwaps: completedSwaps.length,
-                updatedBookings: updatedBookings.length,
-                blockchainRecorded: !blockchainTransaction.transactionId.startsWith('failed_')
+                updatedBookings: updatedBookings.length
             });
 
             return result;
@@ -1007,7 +1018,24 @@ export class SwapCompletionOrchestrator {
                 totalSwapsCompleted: completedSwaps.length,
                 totalBookingsUpdated: updatedBookings.length,
                 ownershipTransfersCount: updatedBookings.filter(b => b.newOwnerId).length
-            }
+            },
+
+            // Final terms when the proposal was accepted through a counter-offer
+            ...(entities.negotiatedVersion && {
+                negotiatedTerms: {
+                    versionId: entities.negotiatedVersion.id,
+                    version: entities.negotiatedVersion.version,
+                    counteredBy: entities.negotiatedVersion.author_id,
+                    additionalPayment: entities.negotiatedVersion.additional_payment !== null
+                        ? parseFloat(entities.negotiatedVersion.additional_payment)
+                        : undefined,
+                    cashOfferAmount: entities.negotiatedVersion.cash_offer_amount !== null
+                        ? parseFloat(entities.negotiatedVersion.cash_offer_amount)
+                        : undefined,
+                    cashOfferCurrency: entities.negotiatedVersion.cash_offer_currency || undefined,
+                    conditions: entities.negotiatedVersion.conditions || []
+                }
+            })
         };
 
         // Add completion-specific data based on type
@@ -1154,216 +1182,269 @@ export class SwapCompletionOrchestrator {
     }
 
     /**
-     * Send completion notifications to all involved users
-     * Requirements: 8.1, 8.2, 8.3, 8.4, 8.5
+     * Map the rows updated by the completion transaction to the completion result
      */
-    private async sendCompletionNotifications(
+    private summarizeCompletion(
         entities: RelatedEntities,
-        completedSwaps: CompletedSwapInfo[],
-        updatedBookings: CompletedBookingInfo[],
-        proposal: any,
-        blockchainTransaction?: { transactionId: string; consensusTimestamp?: string }
-    ): Promise<void> {
-        try {
-            logger.info('Sending comprehensive completion notifications', {
-                proposalId: entities.proposal.id,
-                completionType: entities.targetSwap ? 'booking_exchange' : 'cash_payment',
-                completedSwapsCount: completedSwaps.length,
-                updatedBookingsCount: updatedBookings.length,
-                hasOwnershipTransfers: updatedBookings.some(b => b.newOwnerId)
-            });
+        transactionResult: CompletionTransactionResult
+    ): { completedSwaps: CompletedSwapInfo[]; updatedBookings: CompletedBookingInfo[] } {
+        const completedSwaps: CompletedSwapInfo[] = transactionResult.updatedSwaps.map(swap => ({
+            swapId: swap.id,
+            previousStatus: entities.sourceSwap.id === swap.id ? entities.sourceSwap.status : entities.targetSwap?.status || 'unknown',
+            newStatus: swap.status,
+            completedAt: new Date(swap.completed_at)
+        }));
+
+        const updatedBookings: CompletedBookingInfo[] = transactionResult.updatedBookings.map(booking => ({
+            bookingId: booking.id,
+            previousStatus: entities.sourceBooking.id === booking.id ? entities.sourceBooking.status : entities.targetBooking?.status || 'unknown',
+            newStatus: booking.status,
+            swappedAt: new Date(booking.swapped_at),
+            newOwnerId: booking.user_id !== booking.original_owner_id ? booking.user_id : undefined
+        }));
+
+        return { completedSwaps, updatedBookings };
+    }
 
-            // Prepare swap details for notifications
+    /**
+     * Load the swap and booking details shown in completion notifications.
+     * Returns null if they cannot be loaded, in which case users get a short
+     * notification pointing them to their dashboard instead.
+     */
+    private async loadCompletionNotificationDetails(
+        entities: RelatedEntities
+    ): Promise<CompletionNotificationDetails | null> {
+        try {
             const sourceSwapDetails = await this.getSwapDetailsForNotification(entities.sourceSwap.id);
             const targetSwapDetails = entities.targetSwap
                 ? await this.getSwapDetailsForNotification(entities.targetSwap.id)
                 : undefined;
 
-            // Send main completion success notifications
-            await this.notificationService.sendSwapCompletionSuccessNotification({
+            // Either booking may change owner in an exchange
+            const transfers: CompletionNotificationDetails['transfers'] = new Map();
+            if (entities.targetSwap && entities.targetBooking) {
+                for (const bookingId of [entities.sourceBooking.id, entities.targetBooking.id]) {
+                    transfers.set(bookingId, {
+                        bookingDetails: await this.getBookingDetailsForNotification(bookingId),
+                        exchangePartnerDetails: await this.getExchangePartnerDetails(bookingId, entities)
+                    });
+                }
+            }
+
+            return { sourceSwapDetails, targetSwapDetails, transfers };
+        } catch (error) {
+            logger.error('Failed to load completion notification details', {
                 proposalId: entities.proposal.id,
-                completionType: entities.targetSwap ? 'booking_exchange' : 'cash_payment',
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Queue the blockchain record, notifications and real-time update of a
+     * completion in the outbox, inside the completion transaction
+     * Requirements: 7.1, 7.2, 8.1, 8.2, 8.3, 8.4, 8.5
+     */
+    private async queueCompletionEvents(
+        client: PoolClient,
+        entities: RelatedEntities,
+        completedSwaps: CompletedSwapInfo[],
+        updatedBookings: CompletedBookingInfo[],
+        operationId: string,
+        notificationDetails: CompletionNotificationDetails | null
+    ): Promise<void> {
+        const proposalId = entities.proposal.id;
+        const key = `swap-completion:${proposalId}`;
+        const aggregate = { type: 'proposal', id: proposalId };
+        const completionType = entities.targetSwap ? 'booking_exchange' : 'cash_payment';
+
+        await this.outboxService.addBlockchainRecord(
+            client,
+            key,
+            aggregate,
+            OUTBOX_EVENT_TYPES.SWAP_COMPLETION_RECORD,
+            this.createCompletionTransactionData(entities, completedSwaps, updatedBookings, operationId),
+            { proposalId, swapIds: completedSwaps.map(swap => swap.swapId) }
+        );
+
+        const notifications: PreparedNotification[] = [];
+        if (notificationDetails) {
+            notifications.push(...this.notificationService.buildSwapCompletionSuccessNotifications({
+                proposalId,
+                completionType,
                 completedSwaps,
                 updatedBookings,
-                blockchainTransaction,
                 completionTimestamp: new Date(),
                 proposerId: entities.proposal.proposer_id,
                 targetUserId: entities.proposal.target_user_id,
-                sourceSwapDetails,
-                targetSwapDetails,
+                sourceSwapDetails: notificationDetails.sourceSwapDetails,
+                targetSwapDetails: notificationDetails.targetSwapDetails,
                 cashOffer: entities.proposal.cash_offer_amount ? {
                     amount: entities.proposal.cash_offer_amount,
                     currency: entities.proposal.cash_offer_currency || 'USD'
                 } : undefined
-            });
+            }));
 
-            // Send ownership transfer notifications for booking exchanges
+            // Ownership transfer notifications for booking exchanges
             if (entities.targetSwap && entities.targetBooking) {
-                const ownershipTransfers = updatedBookings.filter(b => b.newOwnerId);
-
-                for (const transfer of ownershipTransfers) {
-                    const bookingDetails = await this.getBookingDetailsForNotification(transfer.bookingId);
-                    const exchangePartnerDetails = await this.getExchangePartnerDetails(
-                        transfer.bookingId,
-                        entities
-                    );
+                for (const transfer of updatedBookings.filter(b => b.newOwnerId)) {
+                    const details = notificationDetails.transfers.get(transfer.bookingId);
+                    if (!details) {
+                        continue;
+                    }
 
-                    await this.notificationService.sendBookingOwnershipTransferNotification({
-                        proposalId: entities.proposal.id,
+                    notifications.push(...this.notificationService.buildBookingOwnershipTransferNotifications({
+                        proposalId,
                         bookingId: transfer.bookingId,
                         previousOwnerId: transfer.bookingId === entities.sourceBooking.id
                             ? entities.sourceBooking.user_id
                             : entities.targetBooking.user_id,
                         newOwnerId: transfer.newOwnerId!,
                         transferredAt: transfer.swappedAt,
-                        bookingDetails,
-                        exchangePartnerDetails
-                    });
+                        ...details
+                    }));
                 }
             }
-
-            // Send real-time WebSocket updates
-            await this.sendCompletionWebSocketUpdates(
-                entities,
-                completedSwaps,
-                updatedBookings,
-                blockchainTransaction
-            );
-
-            logger.info('All completion notifications sent successfully', {
-                proposalId: entities.proposal.id,
-                notifiedUsers: [entities.proposal.target_user_id, entities.proposal.proposer_id],
-                ownershipTransferNotifications: updatedBookings.filter(b => b.newOwnerId).length
-            });
-
-        } catch (error) {
-            logger.error('Failed to send completion notifications', {
-                proposalId: entities.proposal.id,
-                error: error instanceof Error ? error.message : String(error)
-            });
-
-            // Don't fail the completion for notification errors
-            // But send a failure notification to users
-            try {
-                await this.sendNotificationFailureAlert(entities, error);
-            } catch (alertError) {
-                logger.error('Failed to send notification failure alert', {
-                    proposalId: entities.proposal.id,
-                    alertError: alertError instanceof Error ? alertError.message : String(alertError)
+        } else {
+            for (const userId of [entities.proposal.proposer_id, entities.proposal.target_user_id]) {
+                notifications.push({
+                    type: 'swap_completion_success',
+                    userId,
+                    data: {
+                        proposalId,
+                        title: 'Swap Completed',
+                        message: 'Your swap was completed successfully. Please check your dashboard for complete details.',
+                        dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`
+                    }
                 });
             }
         }
+
+        await this.outboxService.addNotifications(client, key, aggregate, notifications);
+
+        // Real-time status update for clients watching the proposal
+        await this.outboxService.addRealtimeEvent(
+            client,
+            key,
+            aggregate,
+            OUTBOX_EVENT_TYPES.SWAP_COMPLETION_STATUS_UPDATE,
+            {
+                room: `proposal:${proposalId}`,
+                event: 'completion:status_update',
+                data: {
+                    type: 'swap_completion_update',
+                    proposalId,
+                    status: 'completed',
+                    completionType,
+                    completedSwaps: completedSwaps.map(swap => ({
+                        swapId: swap.swapId,
+                        newStatus: swap.newStatus,
+                        completedAt: swap.completedAt
+                    })),
+                    updatedBookings: updatedBookings.map(booking => ({
+                        bookingId: booking.bookingId,
+                        newStatus: booking.newStatus,
+                        swappedAt: booking.swappedAt,
+                        ownershipTransferred: !!booking.newOwnerId
+                    })),
+                    timestamp: new Date()
+                }
+            }
+        );
+
+        logger.info('Completion events queued', {
+            operationId,
+            proposalId,
+            notifications: notifications.length
+        });
     }
 
     /**
-     * Send real-time WebSocket events for completion status updates
-     * Requirements: 8.5
+     * Queue the blockchain record and notifications of a multi-party cycle
+     * completion in the outbox, inside the completion transaction
      */
-    private async sendCompletionWebSocketUpdates(
-        entities: RelatedEntities,
-        completedSwaps: CompletedSwapInfo[],
-        updatedBookings: CompletedBookingInfo[],
-        blockchainTransaction?: { transactionId: string; consensusTimestamp?: string }
+    private async queueCycleCompletionEvents(
+        client: PoolClient,
+        cycle: SwapCycle,
+        result: CycleCompletionTransactionResult,
+        notifications: PreparedNotification[]
     ): Promise<void> {
-        try {
-            if (!this.notificationService.webSocketService) {
-                logger.warn('WebSocket service not available for completion updates');
-                return;
-            }
-
-            const completionUpdate = {
-                type: 'swap_completion_update',
-                proposalId: entities.proposal.id,
-                status: 'completed',
-                completionType: entities.targetSwap ? 'booking_exchange' : 'cash_payment',
-                completedSwaps: completedSwaps.map(swap => ({
-                    swapId: swap.swapId,
-                    newStatus: swap.newStatus,
-                    completedAt: swap.completedAt
-                })),
-                updatedBookings: updatedBookings.map(booking => ({
-                    bookingId: booking.bookingId,
-                    newStatus: booking.newStatus,
-                    swappedAt: booking.swappedAt,
-                    ownershipTransferred: !!booking.newOwnerId
-                })),
-                blockchainTransaction,
+        const key = `swap-cycle-completion:${cycle.id}`;
+        const aggregate = { type: 'swap_cycle', id: cycle.id };
+
+        await this.outboxService.addBlockchainRecord(
+            client,
+            key,
+            aggregate,
+            OUTBOX_EVENT_TYPES.SWAP_CYCLE_COMPLETION_RECORD,
+            {
+                type: 'swap_execution',
+                payload: {
+                    operationType: 'multi_party_swap_completion',
+                    cycleId: cycle.id,
+                    databaseTransactionId: result.transactionId,
+                    legs: cycle.legs.map(leg => ({
+                        swapId: leg.swapId,
+                        bookingId: leg.bookingId,
+                        fromUserId: leg.giverUserId,
+                        toUserId: leg.receiverUserId
+                    })),
+                    completedAt: new Date().toISOString()
+                },
                 timestamp: new Date()
-            };
-
-            // Send to both users involved in the completion
-            const userIds = [entities.proposal.proposer_id, entities.proposal.target_user_id];
-
-            for (const userId of userIds) {
-                await this.notificationService.webSocketService.sendNotification({
-                    userId,
-                    notification: {
-                        id: `completion_${entities.proposal.id}`,
-                        userId,
-                        type: 'swap_completion_success',
-                        title: 'Swap Completed',
-                        message: 'Your swap has been completed successfully',
-                        data: completionUpdate,
-                        channel: 'in_app',
-                        status: 'delivered',
-                        createdAt: new Date(),
-                        updatedAt: new Date()
-                    } as any
-                });
-            }
-
-            // Send to proposal-specific room if users are subscribed
-            if (this.notificationService.webSocketService.getIOInstance) {
-                this.notificationService.webSocketService.getIOInstance()
-                    .to(`proposal:${entities.proposal.id}`)
-                    .emit('completion:status_update', completionUpdate);
-            }
-
-            logger.debug('WebSocket completion updates sent successfully', {
-                proposalId: entities.proposal.id,
-                notifiedUsers: userIds.length
-            });
+            },
+            { cycleId: cycle.id, swapIds: result.completedSwapIds }
+        );
 
-        } catch (error) {
-            logger.error('Failed to send WebSocket completion updates', {
-                proposalId: entities.proposal.id,
-                error: error instanceof Error ? error.message : String(error)
-            });
-        }
+        await this.outboxService.addNotifications(client, key, aggregate, notifications);
     }
 
     /**
-     * Send notification failure alert to users
+     * Store the blockchain transaction ID of a completion once the outbox relay
+     * has recorded it on Hedera
+     * 
+     * Requirements: 7.4
      */
-    private async sendNotificationFailureAlert(
-        entities: RelatedEntities,
-        originalError: Error | unknown
+    async storeCompletionBlockchainRecord(
+        proposalId: string,
+        swapIds: string[],
+        blockchainTransactionId: string
     ): Promise<void> {
-        try {
-            const errorMessage = originalError instanceof Error ? originalError.message : String(originalError);
-
-            // Send basic notification about completion success but notification failure
-            const userIds = [entities.proposal.proposer_id, entities.proposal.target_user_id];
+        await this.updateSwapBlockchainCompletionIds(
+            swapIds.map(swapId => ({
+                swapId,
+                previousStatus: 'pending',
+                newStatus: 'completed',
+                completedAt: new Date()
+            })),
+            blockchainTransactionId
+        );
+        await this.auditService.recordBlockchainTransaction(proposalId, blockchainTransactionId);
+    }
 
-            for (const userId of userIds) {
-                await this.notificationService.sendNotification(
-                    'swap_completion_success',
-                    userId,
-                    {
-                        proposalId: entities.proposal.id,
-                        title: 'Swap Completed (Notification Issue)',
-                        message: 'Your swap was completed successfully, but there was an issue sending detailed notifications. Please check your dashboard for complete details.',
-                        notificationError: errorMessage,
-                        dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`
-                    }
-                );
-            }
-        } catch (alertError) {
-            logger.error('Failed to send notification failure alert', {
-                proposalId: entities.proposal.id,
-                alertError: alertError instanceof Error ? alertError.message : String(alertError)
-            });
-        }
+    /**
+     * Store the blockchain transaction ID of a multi-party cycle completion
+     * once the outbox relay has recorded it on Hedera
+     */
+    async storeCycleBlockchainRecord(
+        cycleId: string,
+        swapIds: string[],
+        blockchainTransactionId: string
+    ): Promise<void> {
+        await this.pool.query(
+            'UPDATE swap_cycles SET blockchain_transaction_id = $2 WHERE id = $1',
+            [cycleId, blockchainTransactionId]
+        );
+        await this.updateSwapBlockchainCompletionIds(
+            swapIds.map(swapId => ({
+                swapId,
+                previousStatus: 'pending',
+                newStatus: 'completed',
+                completedAt: new Date()
+            })),
+            blockchainTransactionId
+        );
     }
 
     /**
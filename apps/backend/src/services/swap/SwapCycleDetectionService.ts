@@ -0,0 +1,267 @@
+import {
+  MAX_SWAP_CYCLE_LENGTH,
+  MIN_SWAP_CYCLE_LENGTH,
+  SwapCycleCandidate,
+  SwapCycleCandidateEdge,
+  SwapCycleDetectionOptions,
+  evaluateDateFit,
+} from '@booking-swap/shared';
+import { SwapCycleCandidateSwap } from '../../database/repositories/SwapCycleRepository';
+import {
+  CompatibilityAnalysisEngine,
+  SwapBookingDetails,
+} from './CompatibilityAnalysisEngine';
+import { logger } from '../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: Required<SwapCycleDetectionOptions> = {
+  minCompatibilityScore: 60,
+  maxCycleLength: MAX_SWAP_CYCLE_LENGTH,
+  maxCandidateSwaps: 200,
+  dateFlexibilityDays: 3,
+};
+
+/**
+ * SwapCycleDetectionService finds multi-party swap cycles among open swaps.
+ *
+ * It builds a directed "would accept" graph where an edge u -> v means the owner
+ * of swap u would accept the booking behind swap v: v matches u's swap preferences
+ * and the compatibility score between the two bookings clears the threshold.
+ * Cycles of length 3-4 in that graph are swaps where every party gives one booking
+ * and receives one they want.
+ */
+export class SwapCycleDetectionService {
+  private readonly options: Required<SwapCycleDetectionOptions>;
+
+  constructor(
+    private readonly compatibilityEngine: CompatibilityAnalysisEngine,
+    options: SwapCycleDetectionOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.options.maxCycleLength = Math.min(
+      Math.max(this.options.maxCycleLength, MIN_SWAP_CYCLE_LENGTH),
+      MAX_SWAP_CYCLE_LENGTH
+    );
+  }
+
+  /**
+   * Detect non-overlapping cycles, best scoring first
+   */
+  async detectCycles(
+    candidates: SwapCycleCandidateSwap[]
+  ): Promise<SwapCycleCandidate[]> {
+    const swaps = candidates.slice(0, this.options.maxCandidateSwaps);
+    const graph = await this.buildAcceptanceGraph(swaps);
+    const cycles = this.findCycles(swaps, graph);
+    const selected = this.selectDisjointCycles(cycles);
+
+    logger.info('Swap cycle detection completed', {
+      candidateSwaps: swaps.length,
+      edges: Array.from(graph.values()).reduce(
+        (total, edges) => total + edges.size,
+        0
+      ),
+      cyclesFound: cycles.length,
+      cyclesSelected: selected.length,
+    });
+
+    return selected;
+  }
+
+  /**
+   * Build adjacency map: swap index -> (accepted swap index -> compatibility score)
+   */
+  async buildAcceptanceGraph(
+    swaps: SwapCycleCandidateSwap[]
+  ): Promise<Map<number, Map<number, number>>> {
+    const graph = new Map<number, Map<number, number>>();
+
+    for (let u = 0; u < swaps.length; u++) {
+      const edges = new Map<number, number>();
+      const giver = swaps[u]!;
+
+      for (let v = 0; v < swaps.length; v++) {
+        const offered = swaps[v]!;
+        if (u === v || giver.ownerId === offered.ownerId) {
+          continue;
+        }
+
+        if (!this.matchesPreferences(giver, offered)) {
+          continue;
+        }
+
+        const analysis = await this.compatibilityEngine.analyzeCompatibility(
+          this.toBookingDetails(giver),
+          this.toBookingDetails(offered)
+        );
+
+        if (analysis.overallScore >= this.options.minCompatibilityScore) {
+          edges.set(v, analysis.overallScore);
+        }
+      }
+
+      graph.set(u, edges);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Check the offered booking against the giver's preferred locations, dates
+   * and date flexibility. Empty preferences accept anything.
+   */
+  matchesPreferences(
+    giver: SwapCycleCandidateSwap,
+    offered: SwapCycleCandidateSwap
+  ): boolean {
+    const { preferredLocations, preferredDates, dateFlexibility } =
+      giver.swapPreferences || {};
+
+    if (preferredLocations && preferredLocations.length > 0) {
+      const offeredLocation =
+        `${offered.city}, ${offered.country}`.toLowerCase();
+      const locationMatch = preferredLocations.some(location => {
+        const preferred = location.trim().toLowerCase();
+        return (
+          preferred.length > 0 &&
+          (offeredLocation.includes(preferred) ||
+            preferred.includes(offered.city.toLowerCase()))
+        );
+      });
+
+      if (!locationMatch) {
+        return false;
+      }
+    }
+
+    if (preferredDates && preferredDates.length > 0) {
+      const flexibility = this.options.dateFlexibilityDays * DAY_MS;
+      const windowStart = offered.checkIn.getTime() - flexibility;
+      const windowEnd = offered.checkOut.getTime() + flexibility;
+      const dateMatch = preferredDates.some(date => {
+        const time = new Date(date).getTime();
+        return time >= windowStart && time <= windowEnd;
+      });
+
+      if (!dateMatch) {
+        return false;
+      }
+    }
+
+    if (
+      dateFlexibility &&
+      !evaluateDateFit(offered, dateFlexibility, giver).fits
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Enumerate each simple cycle once by only starting from its lowest index node.
+   * Owners must be distinct so nobody gives and receives twice in the same cycle.
+   */
+  findCycles(
+    swaps: SwapCycleCandidateSwap[],
+    graph: Map<number, Map<number, number>>
+  ): SwapCycleCandidate[] {
+    const cycles: SwapCycleCandidate[] = [];
+    const maxLength = this.options.maxCycleLength;
+
+    const visit = (start: number, path: number[], owners: Set<string>) => {
+      const current = path[path.length - 1]!;
+      const edges = graph.get(current) || new Map<number, number>();
+
+      for (const [next] of edges) {
+        if (next === start && path.length >= MIN_SWAP_CYCLE_LENGTH) {
+          cycles.push(this.toCandidate(swaps, graph, path));
+          continue;
+        }
+
+        if (next <= start || path.includes(next) || path.length >= maxLength) {
+          continue;
+        }
+
+        const owner = swaps[next]!.ownerId;
+        if (owners.has(owner)) {
+          continue;
+        }
+
+        owners.add(owner);
+        path.push(next);
+        visit(start, path, owners);
+        path.pop();
+        owners.delete(owner);
+      }
+    };
+
+    for (let start = 0; start < swaps.length; start++) {
+      visit(start, [start], new Set([swaps[start]!.ownerId]));
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Greedily pick the best cycles so that no swap appears in more than one.
+   * Shorter cycles win ties since they need fewer parties to agree.
+   */
+  selectDisjointCycles(cycles: SwapCycleCandidate[]): SwapCycleCandidate[] {
+    const sorted = [...cycles].sort(
+      (a, b) => b.score - a.score || a.swapIds.length - b.swapIds.length
+    );
+    const used = new Set<string>();
+    const selected: SwapCycleCandidate[] = [];
+
+    for (const cycle of sorted) {
+      if (cycle.swapIds.some(id => used.has(id))) {
+        continue;
+      }
+
+      cycle.swapIds.forEach(id => used.add(id));
+      selected.push(cycle);
+    }
+
+    return selected;
+  }
+
+  private toCandidate(
+    swaps: SwapCycleCandidateSwap[],
+    graph: Map<number, Map<number, number>>,
+    path: number[]
+  ): SwapCycleCandidate {
+    const edges: SwapCycleCandidateEdge[] = path.map((from, index) => {
+      const to = path[(index + 1) % path.length]!;
+      return {
+        fromSwapId: swaps[from]!.swapId,
+        toSwapId: swaps[to]!.swapId,
+        score: graph.get(from)?.get(to) ?? 0,
+      };
+    });
+
+    const score =
+      edges.reduce((total, edge) => total + edge.score, 0) / edges.length;
+
+    return {
+      swapIds: path.map(index => swaps[index]!.swapId),
+      score: Math.round(score * 100) / 100,
+      edges,
+    };
+  }
+
+  private toBookingDetails(swap: SwapCycleCandidateSwap): SwapBookingDetails {
+    return {
+      location: `${swap.city}, ${swap.country}`,
+      dateRange: {
+        checkIn: swap.checkIn,
+        checkOut: swap.checkOut,
+      },
+      totalPrice: swap.swapValue,
+      accommodationType: swap.bookingType,
+      guests: 1,
+      dateFlexibility: swap.swapPreferences?.dateFlexibility,
+    };
+  }
+}
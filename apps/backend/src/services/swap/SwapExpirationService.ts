@@ -1,4 +1,5 @@
 import { SwapProposalService } from './SwapProposalService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
 import { logger } from '../../utils/logger';
 
 export interface SwapExpirationServiceStatus {
@@ -31,7 +32,8 @@ export class SwapExpirationService {
 
   constructor(
     private swapProposalService: SwapProposalService,
-    checkIntervalMinutes: number = 5 // Check every 5 minutes by default
+    checkIntervalMinutes: number = 5, // Check every 5 minutes by default
+    private jobScheduler?: JobScheduler // Run checks as a recurring scheduled job instead of an interval
   ) {
     this.checkIntervalMs = checkIntervalMinutes * 60 * 1000;
   }
@@ -40,7 +42,7 @@ export class SwapExpirationService {
    * Start the automatic expiration check service
    */
   start(): void {
-    if (this.intervalId) {
+    if (this.intervalId || (this.jobScheduler && this.startedAt)) {
       logger.warn('Swap expiration service is already running');
       return;
     }
@@ -48,6 +50,20 @@ export class SwapExpirationService {
     this.startedAt = new Date();
     this.lastError = undefined;
 
+    if (this.jobScheduler) {
+      logger.info('Starting swap expiration service on the job scheduler', {
+        checkIntervalMinutes: this.checkIntervalMs / (60 * 1000),
+        startedAt: this.startedAt.toISOString(),
+      });
+
+      this.jobScheduler.registerHandler(
+        SCHEDULED_JOB_TYPES.PROPOSAL_EXPIRATION,
+        () => this.runScheduledCheck(),
+        { intervalMs: this.checkIntervalMs }
+      );
+      return;
+    }
+
     logger.info('Starting swap expiration service', {
       checkIntervalMinutes: this.checkIntervalMs / (60 * 1000),
       startedAt: this.startedAt.toISOString(),
@@ -66,9 +82,11 @@ export class SwapExpirationService {
    * Stop the automatic expiration check service
    */
   stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    if (this.intervalId || (this.jobScheduler && this.startedAt)) {
+      if (this.intervalId) {
+        clearInterval(this.intervalId);
+        this.intervalId = null;
+      }
       this.startedAt = undefined;
       logger.info('Swap expiration service stopped', {
         totalChecksPerformed: this.totalChecksPerformed,
@@ -84,6 +102,7 @@ export class SwapExpirationService {
    */
   async stopGracefully(timeoutMs: number = 30000): Promise<{ success: boolean; timedOut: boolean; error?: Error }> {
     if (!this.intervalId && !this.currentCheckPromise) {
+      this.startedAt = undefined;
       logger.info('SwapExpirationService is already stopped');
       return { success: true, timedOut: false };
     }
@@ -169,6 +188,17 @@ export class SwapExpirationService {
     }
   }
 
+  /**
+   * Scheduled job handler; does nothing while the service is stopped
+   */
+  private async runScheduledCheck(): Promise<void> {
+    if (!this.startedAt) {
+      return;
+    }
+
+    await this.checkExpiredProposals();
+  }
+
   /**
    * Check for and handle expired proposals
    */
@@ -259,10 +289,14 @@ export class SwapExpirationService {
    * Get service status
    */
   getStatus(): SwapExpirationServiceStatus {
+    const isRunning =
+      this.intervalId !== null ||
+      (this.jobScheduler !== undefined && this.startedAt !== undefined);
+
     return {
-      isRunning: this.intervalId !== null,
+      isRunning,
       checkIntervalMs: this.checkIntervalMs,
-      nextCheckIn: this.intervalId ? this.checkIntervalMs : undefined,
+      nextCheckIn: isRunning ? this.checkIntervalMs : undefined,
       startedAt: this.startedAt,
       lastCheckAt: this.lastCheckAt,
       totalChecksPerformed: this.totalChecksPerformed,
@@ -10,6 +10,7 @@ import {
 } from '@booking-swap/shared';
 import { SwapRepository, DatabaseSchemaError, SwapMatchingError } from '../../database/repositories/SwapRepository';
 import { UserRepository } from '../../database/repositories/UserRepository';
+import { SwapProposalMetadataRepository } from '../../database/repositories/SwapProposalMetadataRepository';
 import { BookingService } from '../booking/BookingService';
 import { SwapProposalService, CreateSwapProposalRequest } from './SwapProposalService';
 import { CompatibilityAnalysisEngine, SwapBookingDetails } from './CompatibilityAnalysisEngine';
@@ -31,7 +32,8 @@ export class SwapMatchingService {
     private userRepository?: UserRepository,
     hederaService?: any,
     notificationService?: any,
-    cacheService?: SwapMatchingCacheService
+    cacheService?: SwapMatchingCacheService,
+    private proposalMetadataRepository?: SwapProposalMetadataRepository
   ) {
     this.compatibilityEngine = new CompatibilityAnalysisEngine();
     this.cacheService = cacheService;
@@ -44,7 +46,8 @@ export class SwapMatchingService {
         swapProposalService,
         this,
         hederaService,
-        notificationService
+        notificationService,
+        proposalMetadataRepository
       );
 
       // Initialize browse proposal notification service if userRepository is available
@@ -330,7 +333,8 @@ export class SwapMatchingService {
         },
         totalPrice: sourceSwapDetails.booking.totalPrice || 0,
         accommodationType: sourceSwapDetails.booking.accommodationType || '',
-        guests: sourceSwapDetails.booking.guests || 1
+        guests: sourceSwapDetails.booking.guests || 1,
+        dateFlexibility: sourceSwapDetails.swap.swapPreferences?.dateFlexibility
       };
 
       const targetBookingDetails: SwapBookingDetails = {
@@ -341,7 +345,8 @@ export class SwapMatchingService {
         },
         totalPrice: targetSwapDetails.booking.totalPrice || 0,
         accommodationType: targetSwapDetails.booking.accommodationType || '',
-        guests: targetSwapDetails.booking.guests || 1
+        guests: targetSwapDetails.booking.guests || 1,
+        dateFlexibility: targetSwapDetails.swap.swapPreferences?.dateFlexibility
       };
 
       // Use the compatibility engine for analysis
@@ -481,11 +486,16 @@ export class SwapMatchingService {
         }
       }
 
-      // Step 6: Record browse-specific metadata (if needed for future features)
+      // Step 6: Record browse-specific metadata, used by the recommendations feed
+      // The target owner is derived from the booking relationship
+      const targetBooking = await this.bookingService.getBookingById(targetSwap.sourceBookingId);
       await this.recordBrowseProposalMetadata({
         proposalId: proposalResult.swap.id,
         sourceSwapId: request.sourceSwapId,
         targetSwapId: request.targetSwapId,
+        proposerId: request.proposerId,
+        targetOwnerId: targetBooking?.userId,
+        blockchainTransactionId: proposalResult.blockchainTransaction.transactionId || '',
         message: request.message,
         compatibilityScore: await this.getCompatibilityScore(request.sourceSwapId, request.targetSwapId),
       });
@@ -600,15 +610,25 @@ export class SwapMatchingService {
     proposalId: string;
     sourceSwapId: string;
     targetSwapId: string;
+    proposerId: string;
+    targetOwnerId?: string;
+    blockchainTransactionId: string;
     message?: string;
     compatibilityScore: number;
   }): Promise<void> {
     try {
-      // This would store additional metadata about browse-initiated proposals
-      // For now, we'll just log it - in production, this might go to a separate table
       logger.info('Recording browse proposal metadata', metadata);
 
-      // TODO: Implement actual metadata storage if needed for analytics or features
+      if (!this.proposalMetadataRepository || !metadata.targetOwnerId) {
+        return;
+      }
+
+      await this.proposalMetadataRepository.createProposalMetadata({
+        ...metadata,
+        targetOwnerId: metadata.targetOwnerId,
+        createdFromBrowse: true,
+        proposalSource: 'browse',
+      });
     } catch (error) {
       logger.warn('Failed to record browse proposal metadata', { error, metadata });
       // Don't throw error as this is not critical for proposal creation
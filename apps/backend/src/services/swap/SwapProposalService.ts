@@ -24,7 +24,8 @@ import {
   TargetingCapabilities,
   TargetingDisplayData,
   SwapTargetStatus,
-  TargetingRestriction
+  TargetingRestriction,
+  isSupportedCurrency
 } from '@booking-swap/shared';
 import { TargetingDataTransformer, BidirectionalQueryResult } from './TargetingDataTransformer';
 import { SimpleTargetingTransformer, SimpleTargetingData, RawTargetingData } from './SimpleTargetingTransformer';
@@ -193,6 +194,7 @@ export class SwapProposalService {
         paymentTypes: request.paymentTypes,
         acceptanceStrategy: request.acceptanceStrategy,
         cashDetails: this.createCashConfiguration(request.paymentTypes),
+        swapPreferences: request.swapPreferences,
       };
 
       // Step 5: Save to database
@@ -2719,8 +2721,13 @@ export class SwapProposalService {
       throw new Error(`Source booking is not available for swap (status: ${sourceBooking.status})`);
     }
 
-    if (sourceBooking.verification.status !== 'verified') {
-      throw new Error('Source booking must be verified before creating a swap');
+    // Auctions and cash sales are only open to bookings proven real;
+    // plain booking exchanges can be listed while verification is pending
+    if (
+      (request.acceptanceStrategy?.type === 'auction' || request.paymentTypes?.cashPayment) &&
+      sourceBooking.verification.status !== 'verified'
+    ) {
+      throw new Error('Only verified bookings can be auctioned or offered for cash. Verify this booking first.');
     }
 
     // Validate that booking doesn't already have an incomplete or matched swap
@@ -2747,6 +2754,10 @@ export class SwapProposalService {
       if (!request.paymentTypes.minimumCashAmount || request.paymentTypes.minimumCashAmount <= 0) {
         throw new Error('Minimum cash amount must be specified and greater than 0 when cash payments are enabled');
       }
+
+      if (request.paymentTypes.currency && !isSupportedCurrency(request.paymentTypes.currency)) {
+        throw new Error(`Currency ${request.paymentTypes.currency} is not supported for cash payments`);
+      }
     }
 
     // Validate acceptance strategy
@@ -2998,9 +3009,19 @@ export class SwapProposalService {
           errors.push('Cash offer amount must be greater than 0');
         }
 
-        if (swap.paymentTypes.minimumCashAmount &&
-          request.cashOffer.amount < swap.paymentTypes.minimumCashAmount) {
-          errors.push(`Cash offer must be at least ${swap.paymentTypes.minimumCashAmount}`);
+        if (swap.paymentTypes.minimumCashAmount) {
+          const minimumCurrency = this.getSwapCurrency(swap);
+          try {
+            const meetsMinimum = await this.paymentService.meetsMinimumCashAmount(
+              { amount: request.cashOffer.amount, currency: request.cashOffer.currency },
+              { amount: swap.paymentTypes.minimumCashAmount, currency: minimumCurrency }
+            );
+            if (!meetsMinimum) {
+              errors.push(`Cash offer must be at least ${swap.paymentTypes.minimumCashAmount} ${minimumCurrency}`);
+            }
+          } catch (error) {
+            errors.push(`Unable to compare cash offer in ${request.cashOffer.currency}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
         }
 
         // Skip payment method validation for now - allow any payment method ID
@@ -3032,12 +3053,19 @@ export class SwapProposalService {
       enabled: true,
       minimumAmount: paymentTypes.minimumCashAmount || 0,
       preferredAmount: paymentTypes.preferredCashAmount,
-      currency: 'USD', // Default currency, could be configurable
+      currency: (paymentTypes.currency || 'USD').toUpperCase(),
       escrowRequired: (paymentTypes.minimumCashAmount || 0) >= 100, // Require escrow for amounts >= $100
       platformFeePercentage: 0.05, // 5% platform fee
     };
   }
 
+  /**
+   * Currency the swap owner set their cash amounts in
+   */
+  private getSwapCurrency(swap: EnhancedSwap): string {
+    return swap.cashDetails?.currency || swap.paymentTypes.currency || 'USD';
+  }
+
   /**
    * Check if booking is last-minute (less than one week to event)
    */
@@ -3093,7 +3121,8 @@ export class SwapProposalService {
       request.cashOffer.currency,
       swap.paymentTypes.minimumCashAmount || 0,
       request.cashOffer.paymentMethodId,
-      userId
+      userId,
+      this.getSwapCurrency(swap)
     );
 
     if (!validation.isValid) {
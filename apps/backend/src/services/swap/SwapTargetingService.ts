@@ -15,6 +15,7 @@ import { SwapTargetingRepository } from '../../database/repositories/SwapTargeti
 import { SwapRepository } from '../../database/repositories/SwapRepository';
 import { SwapProposalService } from './SwapProposalService';
 import { AuctionRepository } from '../../database/repositories/AuctionRepository';
+import { OutboxService, OUTBOX_EVENT_TYPES } from '../outbox/OutboxService';
 import { logger } from '../../utils/logger';
 import { Pool, PoolClient } from 'pg';
 
@@ -24,7 +25,8 @@ export class SwapTargetingService {
         private swapRepository: SwapRepository,
         private swapProposalService: SwapProposalService,
         private auctionRepository: AuctionRepository,
-        private pool: Pool
+        private pool: Pool,
+        private outboxService?: OutboxService
     ) { }
 
     /**
@@ -66,7 +68,7 @@ export class SwapTargetingService {
                     targetSwapId,
                     proposalId: proposalResult.proposalId!,
                     status: 'active'
-                });
+                }, client);
 
                 // Create history entry
                 await this.swapTargetingRepository.createHistoryEntry({
@@ -78,7 +80,13 @@ export class SwapTargetingService {
                         userId,
                         timestamp: new Date()
                     }
-                });
+                }, client);
+
+                // Queue the blockchain record and the target owner's notification,
+                // so they are sent only if the targeting commits
+                if (this.outboxService) {
+                    await this.queueTargetingEvents(client, this.outboxService, target, userId);
+                }
 
                 logger.info('Successfully targeted swap', {
                     targetId: target.id,
@@ -1264,6 +1272,91 @@ export class SwapTargetingService {
         }
     }
 
+    /**
+     * Queue the blockchain record of a new target and the notification to the
+     * owner of the targeted swap
+     * Requirements: 1.1, 5.4
+     */
+    private async queueTargetingEvents(
+        client: PoolClient,
+        outboxService: OutboxService,
+        target: SwapTarget,
+        userId: string
+    ): Promise<void> {
+        const key = `swap-target:${target.id}`;
+        const aggregate = { type: 'swap_target', id: target.id };
+        const timestamp = new Date();
+
+        await outboxService.addBlockchainRecord(
+            client,
+            key,
+            aggregate,
+            OUTBOX_EVENT_TYPES.TARGETING_RECORD,
+            {
+                type: 'targeting_created',
+                payload: {
+                    targetingId: target.id,
+                    sourceSwapId: target.sourceSwapId,
+                    targetSwapId: target.targetSwapId,
+                    proposalId: target.id,
+                    userId,
+                    timestamp: timestamp.toISOString(),
+                    metadata: {},
+                    eventType: 'targeting_creation',
+                    version: '1.0'
+                },
+                timestamp
+            }
+        );
+
+        const result = await client.query(
+            `SELECT s.id, b.user_id, b.title, b.city, b.country, b.check_in_date, b.check_out_date,
+                    b.swap_value, b.type, u.display_name
+             FROM swaps s
+             JOIN bookings b ON s.source_booking_id = b.id
+             JOIN users u ON b.user_id = u.id
+             WHERE s.id = ANY($1)`,
+            [[target.sourceSwapId, target.targetSwapId]]
+        );
+        const details = new Map(result.rows.map(row => [row.id, {
+            ownerId: row.user_id,
+            swapDetails: {
+                title: row.title || 'Unknown Booking',
+                location: `${row.city}, ${row.country}`,
+                dates: `${new Date(row.check_in_date).toDateString()} - ${new Date(row.check_out_date).toDateString()}`,
+                value: parseFloat(row.swap_value) || 0,
+                accommodationType: row.type || 'Unknown',
+                guests: 1,
+                ownerName: row.display_name || 'Unknown User'
+            }
+        }]));
+
+        const source = details.get(target.sourceSwapId);
+        const targeted = details.get(target.targetSwapId);
+        if (!source || !targeted) {
+            logger.warn('Cannot find swaps for targeting notification', {
+                targetId: target.id,
+                sourceSwapId: target.sourceSwapId,
+                targetSwapId: target.targetSwapId
+            });
+            return;
+        }
+
+        await outboxService.addNotifications(client, key, aggregate, [{
+            type: 'targeting_received',
+            userId: targeted.ownerId,
+            data: {
+                targetId: target.id,
+                sourceSwapId: target.sourceSwapId,
+                targetSwapId: target.targetSwapId,
+                proposalId: target.id,
+                sourceSwapDetails: source.swapDetails,
+                targetSwapDetails: targeted.swapDetails,
+                dashboardUrl: `${process.env.FRONTEND_URL}/dashboard`
+            }
+        }]);
+    }
+
     /**
      * Execute operation in database transaction
      */
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AutoAcceptService, checkAutoAcceptRules } from '../AutoAcceptService';
+import { AutoAcceptCandidate } from '../../../database/repositories/AutoAcceptRepository';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const OWNER = 'owner-1';
+const PROPOSER = 'proposer-1';
+
+const createCandidate = (
+  overrides: Partial<AutoAcceptCandidate> = {}
+): AutoAcceptCandidate => ({
+  proposalId: 'proposal-1',
+  swapId: 'swap-1',
+  ownerId: OWNER,
+  proposerId: PROPOSER,
+  criteria: {
+    enabled: true,
+    preferredLocations: ['Paris'],
+    bookingTypes: ['hotel'],
+    maxAdditionalPayment: 100,
+    enabledAt: new Date('2025-01-01'),
+  },
+  additionalPayment: 50,
+  proposerReputation: 4.2,
+  ownerBooking: {
+    title: 'London flat',
+    type: 'vacation_rental',
+    city: 'London',
+    country: 'UK',
+    checkIn: new Date('2025-06-01'),
+    checkOut: new Date('2025-06-07'),
+    swapValue: 1000,
+  },
+  offeredBooking: {
+    title: 'Paris hotel',
+    type: 'hotel',
+    city: 'Paris',
+    country: 'France',
+    checkIn: new Date('2025-06-01'),
+    checkOut: new Date('2025-06-07'),
+    swapValue: 950,
+  },
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('checkAutoAcceptRules', () => {
+  it('passes and explains every configured rule', () => {
+    const candidate = createCandidate();
+    const rules = checkAutoAcceptRules(candidate.criteria, candidate, {
+      acceptedToday: 0,
+    });
+
+    expect(rules.map(rule => rule.rule)).toEqual([
+      'booking_type',
+      'location',
+      'additional_payment',
+      'daily_limit',
+    ]);
+    expect(rules.every(rule => rule.passed)).toBe(true);
+    expect(rules[1]!.detail).toContain(
+      'Paris, France matches your preferred location Paris'
+    );
+  });
+
+  it('fails rules the proposal does not meet', () => {
+    const candidate = createCandidate({
+      additionalPayment: 150,
+      proposerReputation: 2,
+      criteria: {
+        enabled: true,
+        maxAdditionalPayment: 100,
+        minCounterpartyReputation: 4,
+        minCompatibilityScore: 80,
+      },
+    });
+    const rules = checkAutoAcceptRules(candidate.criteria, candidate, {
+      compatibilityScore: 60,
+      acceptedToday: 0,
+    });
+
+    expect(rules.filter(rule => !rule.passed).map(rule => rule.rule)).toEqual([
+      'additional_payment',
+      'reputation',
+      'compatibility',
+    ]);
+  });
+
+  it('enforces the default daily limit', () => {
+    const candidate = createCandidate({ criteria: { enabled: true } });
+    const rules = checkAutoAcceptRules(candidate.criteria, candidate, {
+      acceptedToday: 3,
+    });
+
+    expect(rules).toEqual([
+      {
+        rule: 'daily_limit',
+        passed: false,
+        detail: 'daily limit of 3 auto-accepts reached',
+      },
+    ]);
+  });
+});
+
+describe('AutoAcceptService', () => {
+  let repository: any;
+  let acceptanceService: any;
+  let compatibilityEngine: any;
+  let notificationService: any;
+  let service: AutoAcceptService;
+
+  beforeEach(() => {
+    repository = {
+      findCandidates: vi.fn().mockResolvedValue([createCandidate()]),
+      countAcceptedSince: vi.fn().mockResolvedValue(0),
+      findOldestAcceptedSince: vi.fn().mockResolvedValue(null),
+      recordEvaluation: vi
+        .fn()
+        .mockImplementation(async data => ({ id: 'evaluation-1', ...data })),
+      markFailed: vi.fn().mockResolvedValue(undefined),
+      findByOwner: vi.fn().mockResolvedValue([]),
+    };
+    acceptanceService = {
+      acceptProposal: vi.fn().mockResolvedValue({
+        proposal: { id: 'proposal-1', status: 'accepted' },
+        blockchainTransaction: { transactionId: 'tx-1' },
+      }),
+    };
+    compatibilityEngine = {
+      analyzeCompatibility: vi.fn().mockResolvedValue({ overallScore: 85 }),
+    };
+    notificationService = {
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new AutoAcceptService(
+      repository,
+      acceptanceService,
+      compatibilityEngine,
+      notificationService
+    );
+  });
+
+  it('accepts a matching proposal as the owner and explains why', async () => {
+    const result = await service.evaluatePendingProposals();
+
+    expect(result).toEqual({
+      evaluated: 1,
+      accepted: 1,
+      wouldAccept: 0,
+      skipped: 0,
+      deferred: 0,
+      failed: 0,
+    });
+    expect(repository.recordEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({ proposalId: 'proposal-1', outcome: 'accepted' })
+    );
+    expect(acceptanceService.acceptProposal).toHaveBeenCalledWith({
+      proposalId: 'proposal-1',
+      userId: OWNER,
+      action: 'accept',
+    });
+    expect(notificationService.sendNotification).toHaveBeenCalledWith(
+      'proposal_auto_accepted',
+      OWNER,
+      expect.objectContaining({
+        proposalId: 'proposal-1',
+        bookingTitle: 'London flat',
+        reason: expect.stringContaining(
+          'hotel is one of your accepted booking types'
+        ),
+      })
+    );
+    // No compatibility minimum configured, so no analysis is run
+    expect(compatibilityEngine.analyzeCompatibility).not.toHaveBeenCalled();
+  });
+
+  it('only records a dry-run match', async () => {
+    const candidate = createCandidate();
+    candidate.criteria.dryRun = true;
+    repository.findCandidates.mockResolvedValue([candidate]);
+
+    const result = await service.evaluatePendingProposals();
+
+    expect(result.wouldAccept).toBe(1);
+    expect(repository.recordEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'would_accept' })
+    );
+    expect(acceptanceService.acceptProposal).not.toHaveBeenCalled();
+    expect(notificationService.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('skips a proposal below the compatibility minimum', async () => {
+    const candidate = createCandidate();
+    candidate.criteria.minCompatibilityScore = 90;
+    repository.findCandidates.mockResolvedValue([candidate]);
+
+    const result = await service.evaluatePendingProposals();
+
+    expect(result.skipped).toBe(1);
+    expect(repository.recordEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'skipped', compatibilityScore: 85 })
+    );
+    expect(acceptanceService.acceptProposal).not.toHaveBeenCalled();
+  });
+
+  it('defers a match until the daily limit resets', async () => {
+    const oldest = new Date(Date.now() - 20 * 60 * 60 * 1000);
+    repository.countAcceptedSince.mockResolvedValue(3);
+    repository.findOldestAcceptedSince.mockResolvedValue(oldest);
+
+    const result = await service.evaluatePendingProposals();
+
+    expect(result.deferred).toBe(1);
+    expect(repository.recordEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: 'deferred',
+        retryAt: new Date(oldest.getTime() + 24 * 60 * 60 * 1000),
+      })
+    );
+    expect(acceptanceService.acceptProposal).not.toHaveBeenCalled();
+  });
+
+  it('skips rather than defers when another rule fails too', async () => {
+    const candidate = createCandidate();
+    candidate.criteria.minCompatibilityScore = 90;
+    repository.findCandidates.mockResolvedValue([candidate]);
+    repository.countAcceptedSince.mockResolvedValue(3);
+
+    const result = await service.evaluatePendingProposals();
+
+    expect(result.skipped).toBe(1);
+    expect(repository.recordEvaluation).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'skipped', retryAt: undefined })
+    );
+    expect(repository.findOldestAcceptedSince).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when another run already decided the proposal', async () => {
+    repository.recordEvaluation.mockResolvedValue(null);
+
+    const result = await service.evaluatePendingProposals();
+
+    expect(result.evaluated).toBe(0);
+    expect(acceptanceService.acceptProposal).not.toHaveBeenCalled();
+  });
+
+  it('records a failed acceptance', async () => {
+    acceptanceService.acceptProposal.mockRejectedValue(
+      new Error('Swap is no longer available')
+    );
+
+    const result = await service.evaluatePendingProposals();
+
+    expect(result.failed).toBe(1);
+    expect(repository.markFailed).toHaveBeenCalledWith(
+      'evaluation-1',
+      'Swap is no longer available'
+    );
+    expect(notificationService.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('registers a recurring evaluation job', () => {
+    const jobScheduler = { registerHandler: vi.fn() };
+    service = new AutoAcceptService(
+      repository,
+      acceptanceService,
+      compatibilityEngine,
+      notificationService,
+      jobScheduler as any,
+      { evaluationIntervalMs: 60000 }
+    );
+
+    service.registerJobHandlers();
+
+    expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+      'proposal.auto_accept',
+      expect.any(Function),
+      { intervalMs: 60000 }
+    );
+  });
+});
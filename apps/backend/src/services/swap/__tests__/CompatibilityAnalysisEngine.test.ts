@@ -241,6 +241,88 @@ describe('CompatibilityAnalysisEngine', () => {
     });
   });
 
+  describe('Date Fit', () => {
+    it('should not report a date fit without date flexibility', async () => {
+      const result = await engine.analyzeCompatibility(mockSourceBooking, mockTargetBooking);
+
+      expect(result.dateFit).toBeUndefined();
+    });
+
+    it('should accept overlapping dates within the shift the owner allows', async () => {
+      const flexibleSource = {
+        ...mockSourceBooking,
+        dateFlexibility: { shiftDays: 3 }
+      };
+      const shiftedTarget = {
+        ...mockTargetBooking,
+        dateRange: {
+          checkIn: new Date('2024-06-03'),
+          checkOut: new Date('2024-06-07')
+        }
+      };
+
+      const result = await engine.analyzeCompatibility(flexibleSource, shiftedTarget);
+
+      expect(result.dateFit).toMatchObject({ kind: 'shifted', fits: true, shiftDays: 2 });
+      expect(result.factors.dateCompatibility.score).toBe(87);
+      expect(result.factors.dateCompatibility.details).toBe(
+        'Date fit: Dates are 2 days from yours, within ±3 days'
+      );
+      expect(result.recommendations).toContain('Dates fit the flexibility set in swap preferences');
+    });
+
+    it('should match a partial overlap with a date window', async () => {
+      // "Any 5 nights in July" with a stay from June 28 to July 6
+      const flexibleSource = {
+        ...mockSourceBooking,
+        dateFlexibility: {
+          windows: [{ start: new Date('2024-07-01'), end: new Date('2024-07-31') }],
+          minNights: 5
+        }
+      };
+      const target = {
+        ...mockTargetBooking,
+        dateRange: {
+          checkIn: new Date('2024-06-28'),
+          checkOut: new Date('2024-07-06')
+        }
+      };
+
+      const result = await engine.analyzeCompatibility(flexibleSource, target);
+
+      expect(result.dateFit).toMatchObject({
+        kind: 'partial_window',
+        fits: true,
+        nights: 8,
+        overlapNights: 5
+      });
+      expect(result.factors.dateCompatibility.details).toBe(
+        'Date fit: 5 of 8 nights fall within 2024-07-01 – 2024-07-31'
+      );
+      expect(result.factors.dateCompatibility.score).toBe(75);
+    });
+
+    it('should report the worse fit and flag stays the other owner cannot take', async () => {
+      const flexibleSource = {
+        ...mockSourceBooking,
+        dateFlexibility: { shiftDays: 30 }
+      };
+      const strictTarget = {
+        ...mockTargetBooking,
+        dateFlexibility: { minNights: 7 }
+      };
+
+      const result = await engine.analyzeCompatibility(flexibleSource, strictTarget);
+
+      expect(result.dateFit).toMatchObject({ kind: 'none', fits: false, nights: 4 });
+      expect(result.factors.dateCompatibility.score).toBe(10);
+      expect(result.factors.dateCompatibility.status).toBe('poor');
+      expect(result.potentialIssues).toContain(
+        "Dates don't fit swap preferences: 4-night stay is shorter than the 7 nights wanted"
+      );
+    });
+  });
+
   describe('Value Compatibility', () => {
     it('should give high score for similar values', async () => {
       // Arrange - very similar values
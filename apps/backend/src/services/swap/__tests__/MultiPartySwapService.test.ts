@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SwapCycle,
+  SwapCycleErrorCodes,
+  SwapCycleLeg,
+} from '@booking-swap/shared';
+import { MultiPartySwapService } from '../MultiPartySwapService';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const createLeg = (
+  position: number,
+  overrides: Partial<SwapCycleLeg> = {}
+): SwapCycleLeg => ({
+  id: `leg-${position}`,
+  cycleId: 'cycle-1',
+  position,
+  swapId: `swap-${position}`,
+  bookingId: `booking-${position}`,
+  giverUserId: `user-${position}`,
+  receiverUserId: `user-${(position + 2) % 3}`,
+  receivesSwapId: `swap-${(position + 1) % 3}`,
+  receivesBookingId: `booking-${(position + 1) % 3}`,
+  compatibilityScore: 80,
+  status: 'pending',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const createCycle = (overrides: Partial<SwapCycle> = {}): SwapCycle => ({
+  id: 'cycle-1',
+  status: 'proposed',
+  cycleLength: 3,
+  totalScore: 80,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  legs: [createLeg(0), createLeg(1), createLeg(2)],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('MultiPartySwapService', () => {
+  let cycleRepository: any;
+  let detectionService: any;
+  let completionOrchestrator: any;
+  let notificationService: any;
+  let jobScheduler: any;
+  let service: MultiPartySwapService;
+
+  beforeEach(() => {
+    cycleRepository = {
+      findById: vi.fn().mockResolvedValue(createCycle()),
+      findCandidateSwaps: vi.fn().mockResolvedValue([]),
+      createCycle: vi.fn(),
+      respondToLeg: vi.fn(),
+      transitionStatus: vi.fn().mockResolvedValue(true),
+      expireStaleCycles: vi.fn().mockResolvedValue([]),
+      findBookingTitles: vi.fn().mockResolvedValue(new Map()),
+    };
+    detectionService = {
+      detectCycles: vi.fn().mockResolvedValue([]),
+    };
+    completionOrchestrator = {
+      completeMultiPartyCycle: vi
+        .fn()
+        .mockResolvedValue({
+          completedSwapIds: ['swap-0', 'swap-1', 'swap-2'],
+        }),
+    };
+    notificationService = {
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+    };
+    jobScheduler = {
+      registerHandler: vi.fn(),
+    };
+
+    service = new MultiPartySwapService(
+      cycleRepository,
+      detectionService,
+      completionOrchestrator,
+      notificationService,
+      jobScheduler
+    );
+  });
+
+  describe('acceptLeg', () => {
+    it('should record the acceptance and tell the other parties', async () => {
+      cycleRepository.respondToLeg.mockResolvedValue({
+        leg: createLeg(0, { status: 'accepted' }),
+        cycleStatus: 'proposed',
+        acceptedCount: 1,
+        legCount: 3,
+      });
+
+      const result = await service.acceptLeg('cycle-1', 'leg-0', 'user-0');
+
+      expect(cycleRepository.respondToLeg).toHaveBeenCalledWith(
+        'cycle-1',
+        'leg-0',
+        'accepted',
+        undefined
+      );
+      expect(result.completed).toBe(false);
+      expect(
+        completionOrchestrator.completeMultiPartyCycle
+      ).not.toHaveBeenCalled();
+      expect(notificationService.sendNotification).toHaveBeenCalledTimes(2);
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'swap_cycle_leg_accepted',
+        'user-1',
+        expect.objectContaining({ acceptedCount: 1, cycleLength: 3 })
+      );
+    });
+
+    it('should use the database count rather than the legs it loaded', async () => {
+      // Loaded before a concurrent acceptance of leg 1 committed
+      cycleRepository.findById.mockResolvedValue(
+        createCycle({
+          legs: [
+            createLeg(0),
+            createLeg(1),
+            createLeg(2, { status: 'accepted' }),
+          ],
+        })
+      );
+      cycleRepository.respondToLeg.mockResolvedValue({
+        leg: createLeg(0, { status: 'accepted' }),
+        cycleStatus: 'accepted',
+        acceptedCount: 3,
+        legCount: 3,
+      });
+
+      const result = await service.acceptLeg('cycle-1', 'leg-0', 'user-0');
+
+      expect(result.completed).toBe(true);
+      expect(
+        completionOrchestrator.completeMultiPartyCycle
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'cycle-1', status: 'accepted' }),
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: 'swap_cycle_completed',
+            userId: 'user-0',
+            data: expect.objectContaining({
+              cycleId: 'cycle-1',
+              legId: 'leg-0',
+            }),
+          }),
+        ])
+      );
+      // Completion notifications go through the completion transaction's outbox
+      expect(notificationService.sendNotification).not.toHaveBeenCalledWith(
+        'swap_cycle_completed',
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('should reject an answer when another party declined meanwhile', async () => {
+      cycleRepository.respondToLeg.mockResolvedValue({
+        leg: null,
+        cycleStatus: 'declined',
+        acceptedCount: 0,
+        legCount: 3,
+      });
+
+      await expect(
+        service.acceptLeg('cycle-1', 'leg-0', 'user-0')
+      ).rejects.toMatchObject({
+        code: SwapCycleErrorCodes.INVALID_CYCLE_STATUS,
+      });
+      expect(
+        completionOrchestrator.completeMultiPartyCycle
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject a leg that was already answered', async () => {
+      cycleRepository.respondToLeg.mockResolvedValue({
+        leg: null,
+        cycleStatus: 'proposed',
+        acceptedCount: 1,
+        legCount: 3,
+      });
+
+      await expect(
+        service.acceptLeg('cycle-1', 'leg-0', 'user-0')
+      ).rejects.toMatchObject({
+        code: SwapCycleErrorCodes.LEG_ALREADY_RESPONDED,
+      });
+    });
+
+    it('should only let the owner of a leg answer it', async () => {
+      await expect(
+        service.acceptLeg('cycle-1', 'leg-1', 'user-0')
+      ).rejects.toMatchObject({ code: SwapCycleErrorCodes.NOT_LEG_OWNER });
+      expect(cycleRepository.respondToLeg).not.toHaveBeenCalled();
+    });
+
+    it('should mark the cycle failed when completion fails', async () => {
+      cycleRepository.respondToLeg.mockResolvedValue({
+        leg: createLeg(0, { status: 'accepted' }),
+        cycleStatus: 'accepted',
+        acceptedCount: 3,
+        legCount: 3,
+      });
+      completionOrchestrator.completeMultiPartyCycle.mockRejectedValue(
+        new Error('booking no longer available')
+      );
+
+      await expect(
+        service.acceptLeg('cycle-1', 'leg-0', 'user-0')
+      ).rejects.toMatchObject({
+        code: SwapCycleErrorCodes.CYCLE_COMPLETION_FAILED,
+      });
+      expect(cycleRepository.transitionStatus).toHaveBeenCalledWith(
+        'cycle-1',
+        'accepted',
+        'failed',
+        'booking no longer available'
+      );
+    });
+  });
+
+  describe('declineLeg', () => {
+    it('should decline the cycle and tell the other parties', async () => {
+      cycleRepository.respondToLeg.mockResolvedValue({
+        leg: createLeg(1, { status: 'declined' }),
+        cycleStatus: 'declined',
+        acceptedCount: 0,
+        legCount: 3,
+      });
+      cycleRepository.findById
+        .mockResolvedValueOnce(createCycle())
+        .mockResolvedValueOnce(createCycle({ status: 'declined' }));
+
+      const result = await service.declineLeg('cycle-1', 'leg-1', 'user-1');
+
+      expect(cycleRepository.respondToLeg).toHaveBeenCalledWith(
+        'cycle-1',
+        'leg-1',
+        'declined',
+        'Declined by user user-1'
+      );
+      expect(result).toMatchObject({
+        completed: false,
+        cycle: { status: 'declined' },
+      });
+      expect(notificationService.sendNotification).toHaveBeenCalledTimes(2);
+      expect(notificationService.sendNotification).not.toHaveBeenCalledWith(
+        'swap_cycle_declined',
+        'user-1',
+        expect.anything()
+      );
+    });
+  });
+
+  describe('expiry', () => {
+    it('should expire a cycle whose response window has passed', async () => {
+      cycleRepository.findById.mockResolvedValue(
+        createCycle({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(
+        service.acceptLeg('cycle-1', 'leg-0', 'user-0')
+      ).rejects.toMatchObject({ code: SwapCycleErrorCodes.CYCLE_EXPIRED });
+      expect(cycleRepository.transitionStatus).toHaveBeenCalledWith(
+        'cycle-1',
+        'proposed',
+        'expired'
+      );
+      expect(cycleRepository.respondToLeg).not.toHaveBeenCalled();
+    });
+
+    it('should expire stale cycles before each discovery run', async () => {
+      cycleRepository.expireStaleCycles.mockResolvedValue(['cycle-1']);
+
+      await service.discoverAndProposeCycles();
+
+      expect(cycleRepository.expireStaleCycles).toHaveBeenCalled();
+      expect(
+        cycleRepository.expireStaleCycles.mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        cycleRepository.findCandidateSwaps.mock.invocationCallOrder[0]
+      );
+    });
+  });
+
+  describe('discovery', () => {
+    it('should run discovery on a schedule', async () => {
+      service.registerJobHandlers();
+
+      expect(jobScheduler.registerHandler).toHaveBeenCalledWith(
+        'swap_cycle.discovery',
+        expect.any(Function),
+        { intervalMs: 60 * 60 * 1000 }
+      );
+
+      const handler = jobScheduler.registerHandler.mock.calls[0][1];
+      await handler({});
+      expect(detectionService.detectCycles).toHaveBeenCalled();
+    });
+
+    it('should propose each detected cycle to its participants', async () => {
+      const candidates = [0, 1, 2].map(position => ({
+        swapId: `swap-${position}`,
+        bookingId: `booking-${position}`,
+        ownerId: `user-${position}`,
+        title: `Stay ${position}`,
+      }));
+      cycleRepository.findCandidateSwaps.mockResolvedValue(candidates);
+      detectionService.detectCycles.mockResolvedValue([
+        {
+          swapIds: ['swap-0', 'swap-1', 'swap-2'],
+          score: 80,
+          edges: [{ score: 80 }, { score: 75 }, { score: 85 }],
+        },
+      ]);
+      cycleRepository.createCycle.mockImplementation(async (data: any) =>
+        createCycle({
+          legs: data.legs.map((leg: any) =>
+            createLeg(leg.position, { ...leg })
+          ),
+        })
+      );
+
+      const result = await service.discoverAndProposeCycles();
+
+      expect(result.proposedCycles).toHaveLength(1);
+      const { legs } = cycleRepository.createCycle.mock.calls[0][0];
+      expect(legs[0]).toMatchObject({
+        giverUserId: 'user-0',
+        receiverUserId: 'user-2',
+        receivesSwapId: 'swap-1',
+      });
+      expect(notificationService.sendNotification).toHaveBeenCalledTimes(3);
+    });
+  });
+});
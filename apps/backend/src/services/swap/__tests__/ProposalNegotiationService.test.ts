@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProposalNegotiationVersion } from '@booking-swap/shared';
+import { ProposalNegotiationService } from '../ProposalNegotiationService';
+import { NegotiableProposal } from '../../../database/repositories/ProposalNegotiationRepository';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const PROPOSER = 'proposer-1';
+const OWNER = 'owner-1';
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+const createProposal = (
+  overrides: Partial<NegotiableProposal> = {}
+): NegotiableProposal => ({
+  proposalId: 'proposal-1',
+  sourceTable: 'swap_proposals',
+  proposerId: PROPOSER,
+  targetUserId: OWNER,
+  status: 'pending',
+  bookingTitle: 'Paris apartment',
+  terms: {
+    conditions: ['No pets'],
+    expiresAt: inOneDay(),
+    cashOffer: { amount: 500, currency: 'USD' },
+  },
+  ...overrides,
+});
+
+const createVersion = (
+  overrides: Partial<ProposalNegotiationVersion> = {}
+): ProposalNegotiationVersion => ({
+  id: 'version-1',
+  proposalId: 'proposal-1',
+  version: 1,
+  authorId: OWNER,
+  recipientId: PROPOSER,
+  status: 'open',
+  terms: {
+    conditions: ['No pets'],
+    expiresAt: inOneDay(),
+    cashOffer: { amount: 650, currency: 'USD' },
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('ProposalNegotiationService', () => {
+  let repository: any;
+  let acceptanceService: any;
+  let notificationService: any;
+  let service: ProposalNegotiationService;
+
+  beforeEach(() => {
+    repository = {
+      findNegotiableProposal: vi.fn().mockResolvedValue(createProposal()),
+      findByProposalId: vi.fn().mockResolvedValue([]),
+      createCounterOffer: vi.fn().mockImplementation(async data =>
+        createVersion({
+          authorId: data.authorId,
+          recipientId: data.recipientId,
+          terms: data.terms,
+        })
+      ),
+      acceptVersion: vi
+        .fn()
+        .mockImplementation(async () => createVersion({ status: 'accepted' })),
+      rejectVersion: vi
+        .fn()
+        .mockImplementation(async () => createVersion({ status: 'rejected' })),
+      revertAcceptedVersion: vi.fn().mockResolvedValue(undefined),
+    };
+    acceptanceService = {
+      acceptProposal: vi.fn().mockResolvedValue({
+        proposal: { id: 'proposal-1', status: 'accepted' },
+        blockchainTransaction: { transactionId: 'tx-1' },
+      }),
+    };
+    notificationService = {
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new ProposalNegotiationService(
+      repository,
+      acceptanceService,
+      notificationService
+    );
+  });
+
+  describe('counterOffer', () => {
+    it('should let the owner make the first counter and notify the proposer', async () => {
+      const version = await service.counterOffer('proposal-1', OWNER, {
+        cashOffer: { amount: 650, currency: 'USD' },
+        message: 'A bit more please',
+      });
+
+      expect(repository.createCounterOffer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          authorId: OWNER,
+          recipientId: PROPOSER,
+          message: 'A bit more please',
+          terms: expect.objectContaining({
+            cashOffer: { amount: 650, currency: 'USD' },
+            conditions: ['No pets'],
+          }),
+        }),
+        null
+      );
+      expect(version.recipientId).toBe(PROPOSER);
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'proposal_countered',
+        PROPOSER,
+        expect.objectContaining({ proposalId: 'proposal-1', version: 1 })
+      );
+    });
+
+    it('should not let the proposer make the first counter', async () => {
+      await expect(
+        service.counterOffer('proposal-1', PROPOSER, { additionalPayment: 50 })
+      ).rejects.toThrow('Access denied');
+      expect(repository.createCounterOffer).not.toHaveBeenCalled();
+    });
+
+    it('should only let the recipient of the open counter counter again', async () => {
+      repository.findByProposalId.mockResolvedValue([createVersion()]);
+
+      await expect(
+        service.counterOffer('proposal-1', OWNER, { additionalPayment: 50 })
+      ).rejects.toThrow('Access denied');
+
+      await service.counterOffer('proposal-1', PROPOSER, {
+        cashOffer: { amount: 600, currency: 'USD' },
+      });
+      expect(repository.createCounterOffer).toHaveBeenCalledWith(
+        expect.objectContaining({ authorId: PROPOSER, recipientId: OWNER }),
+        'version-1'
+      );
+    });
+
+    it('should reject users who are not party to the proposal', async () => {
+      await expect(
+        service.counterOffer('proposal-1', 'stranger', {
+          additionalPayment: 50,
+        })
+      ).rejects.toThrow('Access denied');
+    });
+
+    it('should reject counters on proposals that are no longer pending', async () => {
+      repository.findNegotiableProposal.mockResolvedValue(
+        createProposal({ status: 'accepted' })
+      );
+
+      await expect(
+        service.counterOffer('proposal-1', OWNER, { additionalPayment: 50 })
+      ).rejects.toThrow('Invalid proposal status');
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.counterOffer('proposal-1', OWNER, {
+          expiresAt: new Date(Date.now() - 1000),
+        })
+      ).rejects.toThrow('expiry must be in the future');
+    });
+
+    it('should reject cash counters on booking proposals', async () => {
+      repository.findNegotiableProposal.mockResolvedValue(
+        createProposal({
+          sourceTable: 'swap_targets',
+          terms: { conditions: [], expiresAt: inOneDay() },
+        })
+      );
+
+      await expect(
+        service.counterOffer('proposal-1', OWNER, {
+          cashOffer: { amount: 100, currency: 'USD' },
+        })
+      ).rejects.toThrow('cash amounts can only be countered on cash proposals');
+    });
+  });
+
+  describe('respondToCounterOffer', () => {
+    beforeEach(() => {
+      repository.findByProposalId.mockResolvedValue([createVersion()]);
+    });
+
+    it('should complete the swap on the accepted version as the owner', async () => {
+      const result = await service.respondToCounterOffer(
+        'proposal-1',
+        'version-1',
+        PROPOSER,
+        { action: 'accept' }
+      );
+
+      expect(repository.acceptVersion).toHaveBeenCalledWith('version-1');
+      expect(acceptanceService.acceptProposal).toHaveBeenCalledWith({
+        proposalId: 'proposal-1',
+        userId: OWNER,
+        action: 'accept',
+      });
+      expect(result.version.status).toBe('accepted');
+      expect(result.acceptance?.blockchainTransaction.transactionId).toBe(
+        'tx-1'
+      );
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'counter_offer_accepted',
+        OWNER,
+        expect.any(Object)
+      );
+    });
+
+    it('should reopen the counter-offer when completion fails', async () => {
+      acceptanceService.acceptProposal.mockRejectedValue(
+        new Error('Swap completion failed')
+      );
+
+      await expect(
+        service.respondToCounterOffer('proposal-1', 'version-1', PROPOSER, {
+          action: 'accept',
+        })
+      ).rejects.toThrow('Swap completion failed');
+      expect(repository.revertAcceptedVersion).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'accepted' }),
+        expect.objectContaining({
+          cashOffer: { amount: 500, currency: 'USD' },
+        })
+      );
+    });
+
+    it('should keep the original proposal pending when a counter is rejected', async () => {
+      const result = await service.respondToCounterOffer(
+        'proposal-1',
+        'version-1',
+        PROPOSER,
+        { action: 'reject', reason: 'Too expensive' }
+      );
+
+      expect(result.version.status).toBe('rejected');
+      expect(acceptanceService.acceptProposal).not.toHaveBeenCalled();
+      expect(notificationService.sendNotification).toHaveBeenCalledWith(
+        'counter_offer_rejected',
+        OWNER,
+        expect.objectContaining({ reason: 'Too expensive' })
+      );
+    });
+
+    it('should not let the author answer their own counter-offer', async () => {
+      await expect(
+        service.respondToCounterOffer('proposal-1', 'version-1', OWNER, {
+          action: 'accept',
+        })
+      ).rejects.toThrow('Access denied');
+      expect(repository.acceptVersion).not.toHaveBeenCalled();
+    });
+
+    it('should not answer a counter-offer that was superseded', async () => {
+      repository.findByProposalId.mockResolvedValue([
+        createVersion({ status: 'superseded' }),
+      ]);
+
+      await expect(
+        service.respondToCounterOffer('proposal-1', 'version-1', PROPOSER, {
+          action: 'reject',
+        })
+      ).rejects.toThrow('is superseded');
+    });
+  });
+});
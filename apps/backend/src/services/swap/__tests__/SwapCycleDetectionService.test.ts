@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SwapCycleDetectionService } from '../SwapCycleDetectionService';
+import { CompatibilityAnalysisEngine } from '../CompatibilityAnalysisEngine';
+import { SwapCycleCandidateSwap } from '../../../database/repositories/SwapCycleRepository';
+
+// Mock logger
+vi.mock('../../../utils/logger');
+
+const createSwap = (
+  swapId: string,
+  ownerId: string,
+  city: string,
+  preferredLocations: string[] = []
+): SwapCycleCandidateSwap => ({
+  swapId,
+  bookingId: `booking-${swapId}`,
+  ownerId,
+  title: `${city} stay`,
+  city,
+  country: 'Testland',
+  bookingType: 'hotel',
+  checkIn: new Date('2025-07-01'),
+  checkOut: new Date('2025-07-05'),
+  swapValue: 500,
+  swapPreferences: { preferredLocations },
+});
+
+describe('SwapCycleDetectionService', () => {
+  let compatibilityEngine: CompatibilityAnalysisEngine;
+  let service: SwapCycleDetectionService;
+
+  beforeEach(() => {
+    compatibilityEngine = {
+      analyzeCompatibility: vi.fn().mockResolvedValue({ overallScore: 80 }),
+    } as any;
+    service = new SwapCycleDetectionService(compatibilityEngine);
+  });
+
+  describe('detectCycles', () => {
+    it('should find a three-party cycle when each owner wants the next booking', async () => {
+      const swaps = [
+        createSwap('a', 'user-a', 'Paris', ['Rome']),
+        createSwap('b', 'user-b', 'Rome', ['Lisbon']),
+        createSwap('c', 'user-c', 'Lisbon', ['Paris']),
+      ];
+
+      const cycles = await service.detectCycles(swaps);
+
+      expect(cycles).toHaveLength(1);
+      expect(cycles[0]!.swapIds).toEqual(['a', 'b', 'c']);
+      expect(
+        cycles[0]!.edges.map(edge => [edge.fromSwapId, edge.toSwapId])
+      ).toEqual([
+        ['a', 'b'],
+        ['b', 'c'],
+        ['c', 'a'],
+      ]);
+      expect(cycles[0]!.score).toBe(80);
+    });
+
+    it('should find a four-party cycle', async () => {
+      const swaps = [
+        createSwap('a', 'user-a', 'Paris', ['Rome']),
+        createSwap('b', 'user-b', 'Rome', ['Lisbon']),
+        createSwap('c', 'user-c', 'Lisbon', ['Berlin']),
+        createSwap('d', 'user-d', 'Berlin', ['Paris']),
+      ];
+
+      const cycles = await service.detectCycles(swaps);
+
+      expect(cycles).toHaveLength(1);
+      expect(cycles[0]!.swapIds).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should ignore two-party cycles which are handled as direct proposals', async () => {
+      const swaps = [
+        createSwap('a', 'user-a', 'Paris', ['Rome']),
+        createSwap('b', 'user-b', 'Rome', ['Paris']),
+      ];
+
+      const cycles = await service.detectCycles(swaps);
+
+      expect(cycles).toHaveLength(0);
+    });
+
+    it('should not build cycles in which one owner appears twice', async () => {
+      const swaps = [
+        createSwap('a', 'user-a', 'Paris', ['Rome']),
+        createSwap('b', 'user-b', 'Rome', ['Lisbon']),
+        createSwap('c', 'user-a', 'Lisbon', ['Paris']),
+      ];
+
+      const cycles = await service.detectCycles(swaps);
+
+      expect(cycles).toHaveLength(0);
+    });
+
+    it('should drop edges below the minimum compatibility score', async () => {
+      vi.mocked(compatibilityEngine.analyzeCompatibility).mockResolvedValue({
+        overallScore: 40,
+      } as any);
+      const swaps = [
+        createSwap('a', 'user-a', 'Paris', ['Rome']),
+        createSwap('b', 'user-b', 'Rome', ['Lisbon']),
+        createSwap('c', 'user-c', 'Lisbon', ['Paris']),
+      ];
+
+      const cycles = await service.detectCycles(swaps);
+
+      expect(cycles).toHaveLength(0);
+    });
+
+    it('should not place a swap in more than one selected cycle', async () => {
+      // Everyone accepts everything, so many overlapping cycles exist
+      const swaps = [
+        createSwap('a', 'user-a', 'Paris'),
+        createSwap('b', 'user-b', 'Rome'),
+        createSwap('c', 'user-c', 'Lisbon'),
+        createSwap('d', 'user-d', 'Berlin'),
+      ];
+
+      const cycles = await service.detectCycles(swaps);
+      const usedSwapIds = cycles.flatMap(cycle => cycle.swapIds);
+
+      expect(cycles.length).toBeGreaterThan(0);
+      expect(new Set(usedSwapIds).size).toBe(usedSwapIds.length);
+    });
+  });
+
+  describe('matchesPreferences', () => {
+    it('should accept any booking when the giver has no preferences', () => {
+      const giver = createSwap('a', 'user-a', 'Paris');
+      const offered = createSwap('b', 'user-b', 'Rome');
+
+      expect(service.matchesPreferences(giver, offered)).toBe(true);
+    });
+
+    it('should match preferred dates within the flexibility window', () => {
+      const giver = createSwap('a', 'user-a', 'Paris');
+      const offered = createSwap('b', 'user-b', 'Rome');
+
+      giver.swapPreferences = { preferredDates: [new Date('2025-07-07')] };
+      expect(service.matchesPreferences(giver, offered)).toBe(true);
+
+      giver.swapPreferences = { preferredDates: [new Date('2025-08-01')] };
+      expect(service.matchesPreferences(giver, offered)).toBe(false);
+    });
+
+    it('should require the offered stay to fit the giver date flexibility', () => {
+      const giver = createSwap('a', 'user-a', 'Paris');
+      const offered = createSwap('b', 'user-b', 'Rome');
+
+      giver.swapPreferences = { dateFlexibility: { shiftDays: 2 } };
+      expect(service.matchesPreferences(giver, offered)).toBe(true);
+
+      giver.swapPreferences = { dateFlexibility: { minNights: 10 } };
+      expect(service.matchesPreferences(giver, offered)).toBe(false);
+    });
+  });
+});
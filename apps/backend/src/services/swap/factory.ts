@@ -18,6 +18,7 @@ import { PaymentNotificationService } from '../notification/PaymentNotificationS
 import { TimingNotificationService } from '../notification/TimingNotificationService';
 import { AuctionManagementService } from '../auction/AuctionManagementService';
 import { PaymentProcessingService } from '../payment/PaymentProcessingService';
+import { JobScheduler } from '../scheduler/JobScheduler';
 import { RedisService } from '../../database/cache/RedisService';
 import { getCacheService } from '../../database/cache/config';
 import { getSwapMatchingCacheConfig } from './cache-config';
@@ -27,6 +28,14 @@ import { ProposalTransactionManager } from './ProposalTransactionManager';
 import { SwapCompletionOrchestrator } from './SwapCompletionOrchestrator';
 import { SwapCompletionAuditService } from './SwapCompletionAuditService';
 import { SwapCompletionAuditCleanupService } from './SwapCompletionAuditCleanupService';
+import { SwapCycleDetectionService } from './SwapCycleDetectionService';
+import { MultiPartySwapService } from './MultiPartySwapService';
+import { CompatibilityAnalysisEngine } from './CompatibilityAnalysisEngine';
+import { SwapCycleRepository } from '../../database/repositories/SwapCycleRepository';
+import { ProposalNegotiationService } from './ProposalNegotiationService';
+import { ProposalNegotiationRepository } from '../../database/repositories/ProposalNegotiationRepository';
+import { AutoAcceptService } from './AutoAcceptService';
+import { AutoAcceptRepository } from '../../database/repositories/AutoAcceptRepository';
 import {
   createNotificationService,
   createAuctionNotificationService,
@@ -121,7 +130,8 @@ export function createSwapResponseService(
 
 export function createSwapExpirationService(
   swapProposalService: SwapProposalService,
-  checkIntervalMinutes?: number
+  checkIntervalMinutes?: number,
+  jobScheduler?: JobScheduler
 ): SwapExpirationService {
   const { getSwapExpirationConfig } = require('./expiration-config');
 
@@ -129,7 +139,7 @@ export function createSwapExpirationService(
   const config = getSwapExpirationConfig();
   const intervalMinutes = checkIntervalMinutes || config.checkIntervalMinutes;
 
-  return new SwapExpirationService(swapProposalService, intervalMinutes);
+  return new SwapExpirationService(swapProposalService, intervalMinutes, jobScheduler);
 }
 
 export function createSwapMatchingCacheService(): SwapMatchingCacheService {
@@ -192,6 +202,67 @@ export function createSwapCompletionOrchestrator(
   );
 }
 
+export function createMultiPartySwapService(
+  pool: Pool,
+  completionOrchestrator: SwapCompletionOrchestrator,
+  notificationService: NotificationService,
+  jobScheduler?: JobScheduler
+): MultiPartySwapService {
+  const detectionService = new SwapCycleDetectionService(new CompatibilityAnalysisEngine(), {
+    minCompatibilityScore: parseInt(process.env.SWAP_CYCLE_MIN_COMPATIBILITY || '60'),
+  });
+
+  const multiPartySwapService = new MultiPartySwapService(
+    new SwapCycleRepository(pool),
+    detectionService,
+    completionOrchestrator,
+    notificationService,
+    jobScheduler,
+    {
+      proposalTtlHours: parseInt(process.env.SWAP_CYCLE_PROPOSAL_TTL_HOURS || '48'),
+      discoveryIntervalMs:
+        parseInt(process.env.SWAP_CYCLE_DISCOVERY_INTERVAL_MINUTES || '60') * 60 * 1000,
+    }
+  );
+  multiPartySwapService.registerJobHandlers();
+
+  return multiPartySwapService;
+}
+
+export function createProposalNegotiationService(
+  pool: Pool,
+  proposalAcceptanceService: ProposalAcceptanceService,
+  notificationService: NotificationService
+): ProposalNegotiationService {
+  return new ProposalNegotiationService(
+    new ProposalNegotiationRepository(pool),
+    proposalAcceptanceService,
+    notificationService
+  );
+}
+
+export function createAutoAcceptService(
+  pool: Pool,
+  proposalAcceptanceService: ProposalAcceptanceService,
+  notificationService: NotificationService,
+  jobScheduler?: JobScheduler
+): AutoAcceptService {
+  const autoAcceptService = new AutoAcceptService(
+    new AutoAcceptRepository(pool),
+    proposalAcceptanceService,
+    new CompatibilityAnalysisEngine(),
+    notificationService,
+    jobScheduler,
+    {
+      evaluationIntervalMs:
+        parseInt(process.env.AUTO_ACCEPT_EVALUATION_INTERVAL_MINUTES || '2') * 60 * 1000,
+    }
+  );
+  autoAcceptService.registerJobHandlers();
+
+  return autoAcceptService;
+}
+
 export function createSwapCompletionAuditService(pool: Pool): SwapCompletionAuditService {
   return new SwapCompletionAuditService(pool);
 }
@@ -102,4 +102,17 @@ export { SwapCompletionOrchestrator } from './SwapCompletionOrchestrator';
 
 // Swap Completion Audit Services
 export { SwapCompletionAuditService } from './SwapCompletionAuditService';
-export { SwapCompletionAuditCleanupService } from './SwapCompletionAuditCleanupService';
\ No newline at end of file
+export { SwapCompletionAuditCleanupService } from './SwapCompletionAuditCleanupService';
+
+// Multi-party Swap Cycles
+export { SwapCycleDetectionService } from './SwapCycleDetectionService';
+export { MultiPartySwapService } from './MultiPartySwapService';
+export type { MultiPartySwapServiceConfig } from './MultiPartySwapService';
+
+// Proposal Negotiation (counter-offers)
+export { ProposalNegotiationService } from './ProposalNegotiationService';
+export type { CounterOfferResponseResult } from './ProposalNegotiationService';
+
+// Proposal auto-accept
+export { AutoAcceptService, checkAutoAcceptRules } from './AutoAcceptService';
+export type { AutoAcceptRunResult, AutoAcceptServiceOptions } from './AutoAcceptService';
@@ -0,0 +1,638 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import {
+  CreateWebhookEndpointRequest,
+  MAX_WEBHOOK_ENDPOINTS_PER_USER,
+  NotificationData,
+  NotificationType,
+  UpdateWebhookEndpointRequest,
+  WEBHOOK_EVENT_TYPES,
+  WebhookDelivery,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointWithSecret,
+  WebhookError,
+  WebhookErrorCodes,
+  WebhookEventPayload,
+  WebhookEventType,
+} from '@booking-swap/shared';
+import { WebhookRepository } from '../../database/repositories/WebhookRepository';
+import {
+  NotificationEventPublisher,
+  NotificationService,
+} from '../notification/NotificationService';
+import { JobScheduler, SCHEDULED_JOB_TYPES } from '../scheduler/JobScheduler';
+import { signWebhookPayload } from '../payment/gateway/webhookSignature';
+import {
+  WebhookFetch,
+  createPinnedFetch,
+  hostnameAddress,
+  isPublicAddress,
+} from './pinnedFetch';
+import { logger } from '../../utils/logger';
+
+const MAX_URL_LENGTH = 2048;
+const MAX_DESCRIPTION_LENGTH = 255;
+// Only the start of a response is kept in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'succeeded',
+  'failed',
+];
+
+/**
+ * Notification types that mean a webhook-worthy state change. Events are
+ * published from NotificationService, so every code path that tells a user
+ * about one of these also tells their endpoints.
+ */
+const NOTIFICATION_EVENT_TYPES: Partial<
+  Record<NotificationType, WebhookEventType>
+> = {
+  swap_proposal: 'proposal.created',
+  cash_proposal: 'proposal.created',
+  auction_proposal: 'proposal.created',
+  browse_proposal_received: 'proposal.created',
+  targeting_received: 'proposal.created',
+  swap_accepted: 'proposal.accepted',
+  proposal_accepted: 'proposal.accepted',
+  proposal_auto_accepted: 'proposal.accepted',
+  swap_rejected: 'proposal.rejected',
+  proposal_rejected: 'proposal.rejected',
+  auction_proposal_rejected: 'proposal.rejected',
+  swap_completion_success: 'swap.completed',
+  swap_cycle_completed: 'swap.completed',
+  auction_ended: 'auction.ended',
+  escrow_released: 'payment.released',
+  payment_completed: 'payment.released',
+  proposal_payment_completed: 'payment.released',
+};
+
+export interface WebhookServiceOptions {
+  maxEndpointsPerUser: number;
+  /** Attempts per delivery, retried by the job scheduler with exponential backoff */
+  maxAttempts: number;
+  requestTimeoutMs: number;
+  /** Deliveries in a row that may fail after all retries before the endpoint is disabled */
+  disableAfterFailures: number;
+  /** Allow plain http and private hosts, for local development */
+  allowInsecureUrls: boolean;
+}
+
+const DEFAULT_OPTIONS: WebhookServiceOptions = {
+  maxEndpointsPerUser: MAX_WEBHOOK_ENDPOINTS_PER_USER,
+  maxAttempts: 8,
+  requestTimeoutMs: 10000,
+  disableAfterFailures: 5,
+  allowInsecureUrls: false,
+};
+
+interface DeliveryAttempt {
+  ok: boolean;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * WebhookService lets users register endpoints for swap, proposal, auction
+ * and payment events and delivers those events as HMAC-signed POSTs. Each
+ * delivery is logged; failed deliveries are retried and endpoints that keep
+ * failing are disabled until their owner turns them back on.
+ */
+export class WebhookService implements NotificationEventPublisher {
+  private readonly options: WebhookServiceOptions;
+  private readonly fetch: WebhookFetch;
+
+  constructor(
+    private readonly webhookRepository: WebhookRepository,
+    private readonly jobScheduler: JobScheduler,
+    private readonly notificationService?: NotificationService,
+    options: Partial<WebhookServiceOptions> = {},
+    fetch?: WebhookFetch
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    // Hosts are resolved and checked again on every send, see pinnedFetch
+    this.fetch =
+      fetch ||
+      createPinnedFetch({
+        allowPrivateAddresses: this.options.allowInsecureUrls,
+      });
+  }
+
+  registerJobHandlers(): void {
+    this.jobScheduler.registerHandler(
+      SCHEDULED_JOB_TYPES.WEBHOOK_DELIVERY,
+      async job => {
+        await this.deliver(
+          job.payload.deliveryId,
+          job.attempts,
+          job.maxAttempts
+        );
+      }
+    );
+  }
+
+  async listEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    const endpoints = await this.webhookRepository.findByUserId(userId);
+    return endpoints.map(endpoint => this.withoutSecret(endpoint));
+  }
+
+  /**
+   * Register an endpoint. The signing secret is only returned here and when
+   * it is rotated.
+   */
+  async createEndpoint(
+    userId: string,
+    request: CreateWebhookEndpointRequest
+  ): Promise<WebhookEndpointWithSecret> {
+    this.validateRequest(request, true);
+
+    const existing = await this.webhookRepository.countByUserId(userId);
+    if (existing >= this.options.maxEndpointsPerUser) {
+      throw new WebhookError(
+        WebhookErrorCodes.WEBHOOK_ENDPOINT_LIMIT_REACHED,
+        `You can register up to ${this.options.maxEndpointsPerUser} webhook endpoints`,
+        { limit: this.options.maxEndpointsPerUser }
+      );
+    }
+
+    const endpoint = await this.webhookRepository.create({
+      userId,
+      url: request.url.trim(),
+      description: request.description?.trim() || undefined,
+      secret: this.generateSecret(),
+      eventTypes: [...new Set(request.eventTypes)],
+      enabled: true,
+      consecutiveFailures: 0,
+    });
+
+    logger.info('Webhook endpoint created', {
+      endpointId: endpoint.id,
+      userId,
+      eventTypes: endpoint.eventTypes,
+    });
+    return endpoint;
+  }
+
+  async updateEndpoint(
+    id: string,
+    userId: string,
+    request: UpdateWebhookEndpointRequest
+  ): Promise<WebhookEndpoint> {
+    this.validateRequest(request, false);
+    const endpoint = await this.getOwnedEndpoint(id, userId);
+
+    if (request.enabled === true && !endpoint.enabled) {
+      await this.webhookRepository.enable(id);
+      logger.info('Webhook endpoint re-enabled', { endpointId: id, userId });
+    } else if (request.enabled === false && endpoint.enabled) {
+      await this.webhookRepository.disable(id, 'Disabled by owner');
+    }
+
+    const updated = await this.webhookRepository.update(id, {
+      url: request.url?.trim(),
+      description: request.description?.trim(),
+      eventTypes: request.eventTypes
+        ? [...new Set(request.eventTypes)]
+        : undefined,
+    });
+    if (!updated) {
+      throw this.endpointNotFound();
+    }
+    return this.withoutSecret(updated);
+  }
+
+  async deleteEndpoint(id: string, userId: string): Promise<void> {
+    await this.getOwnedEndpoint(id, userId);
+    await this.webhookRepository.delete(id);
+    logger.info('Webhook endpoint deleted', { endpointId: id, userId });
+  }
+
+  /**
+   * Replace the signing secret. Deliveries already queued are signed with
+   * the new secret when they are sent.
+   */
+  async rotateSecret(
+    id: string,
+    userId: string
+  ): Promise<WebhookEndpointWithSecret> {
+    await this.getOwnedEndpoint(id, userId);
+    const updated = await this.webhookRepository.update(id, {
+      secret: this.generateSecret(),
+    });
+    if (!updated) {
+      throw this.endpointNotFound();
+    }
+
+    logger.info('Webhook secret rotated', { endpointId: id, userId });
+    return updated;
+  }
+
+  async listDeliveries(
+    endpointId: string,
+    userId: string,
+    filters: WebhookDeliveryFilters = {}
+  ): Promise<WebhookDelivery[]> {
+    if (filters.status && !DELIVERY_STATUSES.includes(filters.status)) {
+      throw new WebhookError(
+        WebhookErrorCodes.INVALID_WEBHOOK_ENDPOINT,
+        `status must be one of ${DELIVERY_STATUSES.join(', ')}`
+      );
+    }
+
+    await this.getOwnedEndpoint(endpointId, userId);
+    return this.webhookRepository.findDeliveriesByEndpoint(endpointId, filters);
+  }
+
+  /**
+   * Send an earlier delivery's event again. The new delivery keeps the event
+   * id so receivers can recognise it as a duplicate.
+   */
+  async redeliver(
+    deliveryId: string,
+    userId: string
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.webhookRepository.findDeliveryById(deliveryId);
+    const endpoint = delivery
+      ? await this.webhookRepository.findById(delivery.endpointId)
+      : null;
+    if (!delivery || !endpoint || endpoint.userId !== userId) {
+      throw new WebhookError(
+        WebhookErrorCodes.WEBHOOK_DELIVERY_NOT_FOUND,
+        'Webhook delivery not found'
+      );
+    }
+
+    if (!endpoint.enabled) {
+      throw new WebhookError(
+        WebhookErrorCodes.WEBHOOK_ENDPOINT_DISABLED,
+        'Re-enable the endpoint before redelivering events to it'
+      );
+    }
+
+    const redelivery = await this.webhookRepository.createDelivery({
+      endpointId: endpoint.id,
+      payload: delivery.payload,
+      redeliveryOf: delivery.id,
+    });
+    await this.enqueue(redelivery.id);
+
+    logger.info('Webhook delivery requeued', {
+      deliveryId: redelivery.id,
+      redeliveryOf: delivery.id,
+      endpointId: endpoint.id,
+    });
+    return redelivery;
+  }
+
+  async publishNotificationEvent(
+    type: NotificationType,
+    userId: string,
+    data: NotificationData
+  ): Promise<void> {
+    const eventType = NOTIFICATION_EVENT_TYPES[type];
+    if (!eventType) {
+      return;
+    }
+
+    const eventData: Record<string, any> = { ...data };
+    delete eventData.recipientName;
+    await this.publish(eventType, userId, eventData);
+  }
+
+  /**
+   * Queue a delivery of the event to each of the user's subscribed endpoints.
+   * Returns the number of deliveries queued.
+   */
+  async publish(
+    eventType: WebhookEventType,
+    userId: string,
+    data: Record<string, any>
+  ): Promise<number> {
+    const endpoints = await this.webhookRepository.findSubscribed(
+      userId,
+      eventType
+    );
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const payload: WebhookEventPayload = {
+      id: uuidv4(),
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      userId,
+      data,
+    };
+
+    for (const endpoint of endpoints) {
+      const delivery = await this.webhookRepository.createDelivery({
+        endpointId: endpoint.id,
+        payload,
+      });
+      await this.enqueue(delivery.id);
+    }
+
+    logger.info('Webhook event published', {
+      eventId: payload.id,
+      eventType,
+      userId,
+      endpoints: endpoints.length,
+    });
+    return endpoints.length;
+  }
+
+  /**
+   * Attempt one delivery. Throws while retries remain so the job scheduler
+   * tries again with backoff; the last failure counts against the endpoint.
+   */
+  async deliver(
+    deliveryId: string,
+    attempt: number,
+    maxAttempts: number
+  ): Promise<void> {
+    const delivery = await this.webhookRepository.findDeliveryById(deliveryId);
+    if (!delivery || delivery.status !== 'pending') {
+      return;
+    }
+
+    const endpoint = await this.webhookRepository.findById(delivery.endpointId);
+    if (!endpoint || !endpoint.enabled) {
+      await this.webhookRepository.markDeliveryFailed(
+        deliveryId,
+        'Endpoint is disabled'
+      );
+      return;
+    }
+
+    const result = await this.send(endpoint, delivery);
+
+    if (result.ok) {
+      await this.webhookRepository.recordAttempt(deliveryId, {
+        ...result,
+        status: 'succeeded',
+        attempts: attempt,
+      });
+      await this.webhookRepository.recordSuccess(endpoint.id);
+      return;
+    }
+
+    // 410 Gone means the receiver has removed the endpoint for good
+    const gone = result.responseStatus === 410;
+    const finalAttempt = gone || attempt >= maxAttempts;
+    await this.webhookRepository.recordAttempt(deliveryId, {
+      ...result,
+      status: finalAttempt ? 'failed' : 'pending',
+      attempts: attempt,
+    });
+
+    if (!finalAttempt) {
+      throw new Error(`Webhook delivery ${deliveryId} failed: ${result.error}`);
+    }
+
+    logger.warn('Webhook delivery failed', {
+      deliveryId,
+      endpointId: endpoint.id,
+      attempts: attempt,
+      error: result.error,
+    });
+
+    if (gone) {
+      await this.disableEndpoint(
+        endpoint,
+        'The endpoint responded with 410 Gone'
+      );
+      return;
+    }
+
+    const failures = await this.webhookRepository.recordFailure(endpoint.id);
+    if (failures >= this.options.disableAfterFailures) {
+      await this.disableEndpoint(
+        endpoint,
+        `${failures} deliveries in a row failed; the last error was: ${result.error}`
+      );
+    }
+  }
+
+  private async send(
+    endpoint: WebhookEndpointWithSecret,
+    delivery: WebhookDelivery
+  ): Promise<DeliveryAttempt> {
+    const body = JSON.stringify(delivery.payload);
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      this.options.requestTimeoutMs
+    );
+    const startTime = Date.now();
+
+    try {
+      const response = await this.fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'BookingSwap-Webhooks/1.0',
+          'X-BookingSwap-Event': delivery.eventType,
+          'X-BookingSwap-Delivery': delivery.id,
+          'X-BookingSwap-Signature': signWebhookPayload(body, endpoint.secret),
+        },
+        body,
+        // A redirect could point anywhere, including internal hosts
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+      const responseBody = await response.text().catch(() => '');
+
+      return {
+        ok: response.ok,
+        responseStatus: response.status,
+        responseBody:
+          responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH) || undefined,
+        error: response.ok
+          ? undefined
+          : `Endpoint responded with ${response.status}`,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: controller.signal.aborted
+          ? `Request timed out after ${this.options.requestTimeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error),
+        durationMs: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async disableEndpoint(
+    endpoint: WebhookEndpointWithSecret,
+    reason: string
+  ): Promise<void> {
+    const disabled = await this.webhookRepository.disable(endpoint.id, reason);
+    if (!disabled) {
+      // Already disabled by an earlier delivery
+      return;
+    }
+
+    logger.warn('Webhook endpoint disabled', {
+      endpointId: endpoint.id,
+      reason,
+    });
+
+    if (!this.notificationService) {
+      return;
+    }
+    try {
+      await this.notificationService.sendNotification(
+        'webhook_endpoint_disabled',
+        endpoint.userId,
+        {
+          endpointId: endpoint.id,
+          endpointUrl: endpoint.url,
+          reason,
+        }
+      );
+    } catch (error) {
+      logger.warn('Failed to send webhook disabled notification', {
+        endpointId: endpoint.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async enqueue(deliveryId: string): Promise<void> {
+    await this.jobScheduler.schedule(
+      SCHEDULED_JOB_TYPES.WEBHOOK_DELIVERY,
+      { deliveryId },
+      {
+        dedupKey: `webhook-delivery:${deliveryId}`,
+        maxAttempts: this.options.maxAttempts,
+      }
+    );
+  }
+
+  private async getOwnedEndpoint(
+    id: string,
+    userId: string
+  ): Promise<WebhookEndpointWithSecret> {
+    const endpoint = await this.webhookRepository.findById(id);
+    // Do not reveal other users' endpoints
+    if (!endpoint || endpoint.userId !== userId) {
+      throw this.endpointNotFound();
+    }
+    return endpoint;
+  }
+
+  private validateRequest(
+    request: UpdateWebhookEndpointRequest,
+    isCreate: boolean
+  ): void {
+    const invalid = (message: string) =>
+      new WebhookError(WebhookErrorCodes.INVALID_WEBHOOK_ENDPOINT, message);
+
+    if (isCreate || request.url !== undefined) {
+      const problem = this.checkUrl(request.url);
+      if (problem) {
+        throw invalid(problem);
+      }
+    }
+
+    if (isCreate || request.eventTypes !== undefined) {
+      if (
+        !Array.isArray(request.eventTypes) ||
+        request.eventTypes.length === 0
+      ) {
+        throw invalid('Subscribe to at least one event type');
+      }
+      const unknown = request.eventTypes.filter(
+        type => !WEBHOOK_EVENT_TYPES.includes(type)
+      );
+      if (unknown.length > 0) {
+        throw invalid(`Unsupported event types: ${unknown.join(', ')}`);
+      }
+    }
+
+    if (
+      request.description !== undefined &&
+      String(request.description).length > MAX_DESCRIPTION_LENGTH
+    ) {
+      throw invalid(
+        `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+      );
+    }
+
+    if (request.enabled !== undefined && typeof request.enabled !== 'boolean') {
+      throw invalid('enabled must be true or false');
+    }
+  }
+
+  /**
+   * Returns why the URL cannot be used, or null when it is fine
+   */
+  private checkUrl(value: string | undefined): string | null {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    if (!trimmed) {
+      return 'A URL is required';
+    }
+    if (trimmed.length > MAX_URL_LENGTH) {
+      return `URL must be at most ${MAX_URL_LENGTH} characters`;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch {
+      return 'URL must be a valid absolute URL';
+    }
+
+    const allowedProtocols = this.options.allowInsecureUrls
+      ? ['https:', 'http:']
+      : ['https:'];
+    if (!allowedProtocols.includes(url.protocol)) {
+      return 'URL must use https';
+    }
+    if (url.username || url.password) {
+      return 'URL must not contain credentials';
+    }
+    if (!this.options.allowInsecureUrls && !this.isPublicHost(url.hostname)) {
+      return 'URL must point at a public host';
+    }
+    return null;
+  }
+
+  /**
+   * Catches hosts that are private on their face. Names are only resolved
+   * when sending, since what they resolve to can change after registration.
+   */
+  private isPublicHost(hostname: string): boolean {
+    if (/(^|\.)localhost$/i.test(hostname)) {
+      return false;
+    }
+    const address = hostnameAddress(hostname);
+    return address === null || isPublicAddress(address);
+  }
+
+  private withoutSecret(endpoint: WebhookEndpointWithSecret): WebhookEndpoint {
+    const publicEndpoint: Partial<WebhookEndpointWithSecret> = { ...endpoint };
+    delete publicEndpoint.secret;
+    return publicEndpoint as WebhookEndpoint;
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private endpointNotFound(): WebhookError {
+    return new WebhookError(
+      WebhookErrorCodes.WEBHOOK_ENDPOINT_NOT_FOUND,
+      'Webhook endpoint not found'
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createPinnedFetch, isPublicAddress } from '../pinnedFetch';
+
+const post = {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: '{"id":"event-1"}',
+  redirect: 'manual' as const,
+};
+
+describe('pinnedFetch', () => {
+  describe('isPublicAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      '::ffff:7f00:1',
+      '::ffff:127.0.0.1',
+      'fd00::1',
+      'fe80::1',
+      'not-an-ip',
+    ])('rejects %s', address => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+
+    it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])(
+      'accepts %s',
+      address => {
+        expect(isPublicAddress(address)).toBe(true);
+      }
+    );
+  });
+
+  describe('createPinnedFetch', () => {
+    let server: http.Server;
+    let port: number;
+    const received: Array<{ host?: string; body: string }> = [];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          received.push({ host: req.headers.host, body });
+          if (req.url === '/redirect') {
+            res.writeHead(302, { Location: 'http://169.254.169.254/' });
+            res.end();
+            return;
+          }
+          res.writeHead(200);
+          res.end('ok');
+        });
+      });
+      await new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('refuses hosts that resolve to a private address', async () => {
+      const lookup = vi
+        .fn()
+        .mockResolvedValue([{ address: '127.0.0.1', family: 4 }]);
+      const fetch = createPinnedFetch({ allowPrivateAddresses: false, lookup });
+
+      await expect(
+        fetch(`http://hooks.example.com:${port}/`, post)
+      ).rejects.toThrow(
+        'hooks.example.com resolves to a non-public address (127.0.0.1)'
+      );
+      expect(received).toHaveLength(0);
+    });
+
+    it('refuses when any resolved address is private', async () => {
+      const lookup = vi.fn().mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '::ffff:7f00:1', family: 6 },
+      ]);
+      const fetch = createPinnedFetch({ allowPrivateAddresses: false, lookup });
+
+      await expect(fetch('https://hooks.example.com/', post)).rejects.toThrow(
+        'non-public address (::ffff:7f00:1)'
+      );
+    });
+
+    it('refuses private address literals without resolving them', async () => {
+      const lookup = vi.fn();
+      const fetch = createPinnedFetch({ allowPrivateAddresses: false, lookup });
+
+      await expect(
+        fetch('https://[::ffff:7f00:1]/hooks', post)
+      ).rejects.toThrow('non-public address');
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('connects to the checked address and keeps the original host', async () => {
+      const lookup = vi
+        .fn()
+        .mockResolvedValue([{ address: '127.0.0.1', family: 4 }]);
+      const fetch = createPinnedFetch({ allowPrivateAddresses: true, lookup });
+
+      const response = await fetch(`http://hooks.test:${port}/`, post);
+
+      expect(lookup).toHaveBeenCalledTimes(1);
+      expect(response.ok).toBe(true);
+      expect(await response.text()).toBe('ok');
+      expect(received.at(-1)).toEqual({
+        host: `hooks.test:${port}`,
+        body: '{"id":"event-1"}',
+      });
+    });
+
+    it('returns redirects instead of following them', async () => {
+      const lookup = vi
+        .fn()
+        .mockResolvedValue([{ address: '127.0.0.1', family: 4 }]);
+      const fetch = createPinnedFetch({ allowPrivateAddresses: true, lookup });
+
+      const response = await fetch(`http://hooks.test:${port}/redirect`, post);
+
+      expect(response.ok).toBe(false);
+      expect(response.status).toBe(302);
+      expect(lookup).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { Pool } from 'pg';
+import { WebhookService } from './WebhookService';
+import { WebhookRepository } from '../../database/repositories/WebhookRepository';
+import { createNotificationService } from '../notification/factory';
+import { createJobScheduler } from '../scheduler/factory';
+
+let webhookService: WebhookService | null = null;
+
+export function createWebhookService(pool: Pool): WebhookService {
+  if (!webhookService) {
+    webhookService = new WebhookService(
+      new WebhookRepository(pool),
+      createJobScheduler(pool),
+      createNotificationService(pool),
+      {
+        maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+        requestTimeoutMs: parseInt(
+          process.env.WEBHOOK_REQUEST_TIMEOUT_MS || '10000'
+        ),
+        disableAfterFailures: parseInt(
+          process.env.WEBHOOK_DISABLE_AFTER_FAILURES || '5'
+        ),
+        allowInsecureUrls: process.env.NODE_ENV !== 'production',
+      }
+    );
+    webhookService.registerJobHandlers();
+  }
+
+  return webhookService;
+}
+
+export function resetWebhookService(): void {
+  webhookService = null;
+}
@@ -0,0 +1,3 @@
+export { WebhookService } from './WebhookService';
+export type { WebhookServiceOptions } from './WebhookService';
+export { createWebhookService, resetWebhookService } from './factory';
@@ -0,0 +1,172 @@
+import { promises as dns, LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Only the start of a response is of interest, the rest is dropped unread
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+const PRIVATE_IPV4 = new BlockList();
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+].forEach(([network, prefix]) =>
+  PRIVATE_IPV4.addSubnet(network as string, prefix as number, 'ipv4')
+);
+
+const PRIVATE_IPV6 = new BlockList();
+[
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96], // IPv4-mapped, e.g. [::ffff:7f00:1] for 127.0.0.1
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+].forEach(([network, prefix]) =>
+  PRIVATE_IPV6.addSubnet(network as string, prefix as number, 'ipv6')
+);
+
+export interface WebhookRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body: string | Buffer;
+  redirect: 'manual';
+  signal?: AbortSignal;
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number;
+  /** Header names are in lower case */
+  headers?: http.IncomingHttpHeaders;
+  text(): Promise<string>;
+}
+
+/** The subset of fetch WebhookService and PushService deliver with */
+export type WebhookFetch = (
+  url: string,
+  init: WebhookRequestInit
+) => Promise<WebhookResponse>;
+
+export interface PinnedFetchOptions {
+  /** Allow loopback and private addresses, for local development */
+  allowPrivateAddresses: boolean;
+  lookup?: (hostname: string) => Promise<LookupAddress[]>;
+}
+
+/**
+ * Whether an IP address is publicly routable. Loopback, private, link-local,
+ * CGNAT, multicast and IPv4-mapped IPv6 addresses are not.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return !PRIVATE_IPV4.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    return !PRIVATE_IPV6.check(address, 'ipv6');
+  }
+  return false;
+}
+
+/**
+ * The IP address in a URL hostname, without IPv6 brackets, or null when the
+ * hostname is a name
+ */
+export function hostnameAddress(hostname: string): string | null {
+  const bare = hostname.replace(/^\[|\]$/g, '');
+  return isIP(bare) ? bare : null;
+}
+
+/**
+ * Build a fetch that resolves the host itself, refuses non-public addresses
+ * and connects to exactly the address it checked. Checking the URL when the
+ * endpoint is saved is not enough: the name can later resolve somewhere else,
+ * or resolve differently between a check and the connection (DNS rebinding).
+ *
+ * Redirects are never followed; a 3xx is returned like any other response.
+ */
+export function createPinnedFetch(options: PinnedFetchOptions): WebhookFetch {
+  const lookup =
+    options.lookup ||
+    ((hostname: string) => dns.lookup(hostname, { all: true, verbatim: true }));
+
+  return async (url, init) => {
+    const target = new URL(url);
+    const literal = hostnameAddress(target.hostname);
+    const addresses: LookupAddress[] = literal
+      ? [{ address: literal, family: isIP(literal) }]
+      : await lookup(target.hostname);
+
+    if (addresses.length === 0) {
+      throw new Error(`Could not resolve ${target.hostname}`);
+    }
+    if (!options.allowPrivateAddresses) {
+      const blocked = addresses.find(
+        ({ address }) => !isPublicAddress(address)
+      );
+      if (blocked) {
+        throw new Error(
+          `${target.hostname} resolves to a non-public address (${blocked.address})`
+        );
+      }
+    }
+
+    const pinned = addresses[0]!;
+    const pinnedLookup = ((_hostname, lookupOptions, callback) => {
+      if (lookupOptions.all) {
+        callback(null, [pinned]);
+      } else {
+        callback(null, pinned.address, pinned.family);
+      }
+    }) as LookupFunction;
+
+    return new Promise<WebhookResponse>((resolve, reject) => {
+      const client = target.protocol === 'https:' ? https : http;
+      const request = client.request(
+        target,
+        {
+          method: init.method,
+          headers: {
+            ...init.headers,
+            'Content-Length': String(Buffer.byteLength(init.body)),
+          },
+          lookup: pinnedLookup,
+          signal: init.signal,
+        },
+        response => {
+          const chunks: Buffer[] = [];
+          let received = 0;
+          response.on('data', (chunk: Buffer) => {
+            if (received < MAX_RESPONSE_BYTES) {
+              chunks.push(chunk);
+              received += chunk.length;
+            }
+          });
+          response.on('error', reject);
+          response.on('end', () => {
+            const status = response.statusCode || 0;
+            const body = Buffer.concat(chunks).toString('utf8');
+            resolve({
+              ok: status >= 200 && status < 300,
+              status,
+              headers: response.headers,
+              text: async () => body,
+            });
+          });
+        }
+      );
+      request.on('error', reject);
+      request.end(init.body);
+    });
+  };
+}
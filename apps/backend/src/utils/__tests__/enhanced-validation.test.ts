@@ -4,6 +4,7 @@ import {
   validatePaymentTypePreference,
   validateCashOfferAmount,
   validateAcceptanceStrategy,
+  validateDateFlexibility,
   validateEnhancedSwapRequest
 } from '../../validation/enhanced-swap-validation';
 import { 
@@ -322,6 +323,35 @@ describe('Enhanced Swap Validation', () => {
     });
   });
 
+  describe('validateDateFlexibility', () => {
+    it('should accept date windows, a shift and a stay length', () => {
+      const result = validateDateFlexibility({
+        shiftDays: 3,
+        windows: [{ start: new Date('2025-07-01'), end: new Date('2025-07-31') }],
+        minNights: 5,
+        maxNights: 7,
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject reversed windows, large shifts and inverted stay lengths', () => {
+      const result = validateDateFlexibility({
+        shiftDays: 45,
+        windows: [{ start: new Date('2025-07-31'), end: new Date('2025-07-01') }],
+        minNights: 7,
+        maxNights: 5,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        'Dates can shift by at most 30 days',
+        'Maximum nights must be at least the minimum',
+        'Date window must end after it starts',
+      ]);
+    });
+  });
+
   describe('validateEnhancedSwapRequest', () => {
     const validRequest: EnhancedCreateSwapRequest = {
       sourceBookingId: 'booking-123',
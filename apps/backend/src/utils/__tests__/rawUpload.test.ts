@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { Request } from 'express';
+import { readRawUpload } from '../rawUpload';
+
+const request = (contentType: string | undefined, body: unknown): Request =>
+  ({
+    query: { fileName: 'receipt.pdf' },
+    headers: contentType ? { 'content-type': contentType } : {},
+    body,
+  }) as unknown as Request;
+
+describe('readRawUpload', () => {
+  it('should read the file name, bare content type and body', () => {
+    const data = Buffer.from('%PDF-1.7');
+
+    expect(
+      readRawUpload(request('application/pdf; charset=binary', data))
+    ).toEqual({
+      fileName: 'receipt.pdf',
+      contentType: 'application/pdf',
+      data,
+    });
+  });
+
+  it('should read an unparsed body as an empty file', () => {
+    const upload = readRawUpload(request('text/html', {}));
+
+    expect(upload.contentType).toBe('text/html');
+    expect(upload.data).toHaveLength(0);
+  });
+
+  it('should read a missing content type as empty', () => {
+    expect(readRawUpload(request(undefined, {})).contentType).toBe('');
+  });
+});
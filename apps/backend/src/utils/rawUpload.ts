@@ -0,0 +1,24 @@
+import { Request } from 'express';
+
+/**
+ * A file sent as the raw request body, named by the fileName query parameter
+ */
+export interface RawUpload {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Read a file upload from a route mounted behind express.raw. express.raw
+ * leaves an empty object when the Content-Type is not one it accepts, so
+ * such a request reads as an empty file and fails the service's validation.
+ */
+export function readRawUpload(req: Request): RawUpload {
+  return {
+    fileName: req.query.fileName as string,
+    contentType:
+      (req.headers['content-type'] || '').split(';')[0]?.trim() || '',
+    data: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+  };
+}
@@ -56,6 +56,7 @@ export const SWAP_ERROR_CODES = {
     BOOKING_ACCESS_DENIED: 'BOOKING_ACCESS_DENIED',
     BOOKING_NOT_AVAILABLE: 'BOOKING_NOT_AVAILABLE',
     BOOKING_VALIDATION_FAILED: 'BOOKING_VALIDATION_FAILED',
+    BOOKING_NOT_VERIFIED: 'BOOKING_NOT_VERIFIED',
 
     // Authentication and authorization
     UNAUTHORIZED: 'UNAUTHORIZED',
@@ -87,6 +88,7 @@ const ERROR_STATUS_CODES: Record<string, number> = {
     [SWAP_ERROR_CODES.INVALID_DATE_FORMAT]: 400,
     [SWAP_ERROR_CODES.SWAP_VALIDATION_FAILED]: 422,
     [SWAP_ERROR_CODES.BOOKING_VALIDATION_FAILED]: 422,
+    [SWAP_ERROR_CODES.BOOKING_NOT_VERIFIED]: 422,
     [SWAP_ERROR_CODES.BOOKING_SERVICE_UNAVAILABLE]: 503,
     [SWAP_ERROR_CODES.SERVICE_INTEGRATION_FAILED]: 502,
     [SWAP_ERROR_CODES.NETWORK_ERROR]: 502,
@@ -126,6 +128,10 @@ export function analyzeError(error: any): { code: string; category: SwapErrorRes
     }
 
     // Booking-related errors
+    if (errorMessage.includes('only verified bookings')) {
+        return { code: SWAP_ERROR_CODES.BOOKING_NOT_VERIFIED, category: 'business', recoverable: false };
+    }
+
     if (errorMessage.includes('booking not found') || errorMessage.includes('not found')) {
         return { code: SWAP_ERROR_CODES.BOOKING_NOT_FOUND, category: 'business', recoverable: false };
     }
@@ -228,6 +234,11 @@ export function getUserGuidance(code: string, error: any): string[] {
             guidance.push('Check that dates are valid and in the future');
             break;
 
+        case SWAP_ERROR_CODES.BOOKING_NOT_VERIFIED:
+            guidance.push('Upload your booking confirmation and request verification');
+            guidance.push('Use booking exchange with first-match acceptance until it is verified');
+            break;
+
         case SWAP_ERROR_CODES.SWAP_TIMING_RESTRICTION:
             guidance.push('Use first-match acceptance instead of auction mode');
             guidance.push('Auctions require at least one week before the event');
@@ -2,7 +2,8 @@ import {
   EnhancedCreateSwapRequest,
   PaymentTypePreference,
   AcceptanceStrategy,
-  AuctionTimingValidation
+  AuctionTimingValidation,
+  DateFlexibility
 } from '@booking-swap/shared';
 
 // Platform constants
@@ -10,6 +11,8 @@ const PLATFORM_MIN_CASH_AMOUNT = 100;
 const PLATFORM_MAX_CASH_AMOUNT = 10000;
 const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP'];
 const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SHIFT_DAYS = 30;
+const MAX_DATE_WINDOWS = 5;
 
 export interface ValidationResult {
   isValid: boolean;
@@ -154,6 +157,61 @@ export function validateAcceptanceStrategy(
   };
 }
 
+export function validateDateFlexibility(
+  flexibility: DateFlexibility
+): ValidationResult {
+  const errors: string[] = [];
+  const isWholeNumber = (value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+  if (flexibility.shiftDays !== undefined) {
+    if (!isWholeNumber(flexibility.shiftDays)) {
+      errors.push('Date shift must be a whole number of days');
+    } else if (flexibility.shiftDays > MAX_SHIFT_DAYS) {
+      errors.push(`Dates can shift by at most ${MAX_SHIFT_DAYS} days`);
+    }
+  }
+
+  if (flexibility.minNights !== undefined && !isWholeNumber(flexibility.minNights)) {
+    errors.push('Minimum nights must be a whole number');
+  }
+
+  if (flexibility.maxNights !== undefined && !isWholeNumber(flexibility.maxNights)) {
+    errors.push('Maximum nights must be a whole number');
+  }
+
+  if (flexibility.minNights !== undefined &&
+      flexibility.maxNights !== undefined &&
+      flexibility.maxNights < flexibility.minNights) {
+    errors.push('Maximum nights must be at least the minimum');
+  }
+
+  if (flexibility.windows !== undefined) {
+    if (!Array.isArray(flexibility.windows)) {
+      errors.push('Date windows must be a list');
+    } else {
+      if (flexibility.windows.length > MAX_DATE_WINDOWS) {
+        errors.push(`At most ${MAX_DATE_WINDOWS} date windows can be added`);
+      }
+
+      for (const window of flexibility.windows) {
+        const start = new Date(window?.start);
+        const end = new Date(window?.end);
+        if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+          errors.push('Date windows need a valid start and end date');
+        } else if (end <= start) {
+          errors.push('Date window must end after it starts');
+        }
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 export function validateEnhancedSwapRequest(
   request: EnhancedCreateSwapRequest,
   eventDate: Date
@@ -234,6 +292,10 @@ export function validateEnhancedSwapRequest(
         request.swapPreferences.additionalRequirements.length > 5) {
       warnings.push('Too many additional requirements may limit potential matches');
     }
+
+    if (request.swapPreferences.dateFlexibility) {
+      errors.push(...validateDateFlexibility(request.swapPreferences.dateFlexibility).errors);
+    }
   }
   
   return {
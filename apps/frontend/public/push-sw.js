@@ -0,0 +1,74 @@
+/**
+ * Web Push service worker. Shows the notifications the backend pushes and
+ * opens the swap or booking a notification is about when it is clicked.
+ *
+ * Messages are JSON: { title, body, data: { type, notificationId, url } }
+ */
+
+const DEFAULT_URL = '/dashboard';
+
+// Only paths on this site are opened, never another origin
+const safeUrl = path => {
+  const url =
+    typeof path === 'string' && /^\/(?!\/)/.test(path) ? path : DEFAULT_URL;
+  return new URL(url, self.location.origin).href;
+};
+
+self.addEventListener('push', event => {
+  let message = {};
+  if (event.data) {
+    try {
+      message = event.data.json();
+    } catch {
+      message = { body: event.data.text() };
+    }
+  }
+
+  const data = message.data || {};
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Booking Swap', {
+      body: message.body || '',
+      icon: '/favicon-32x32.png',
+      badge: '/favicon-32x32.png',
+      // Replaces an earlier notification for the same record
+      tag: data.notificationId,
+      data,
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = safeUrl(event.notification.data && event.notification.data.url);
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then(windows => {
+        const open = windows.find(client => client.url === url);
+        if (open) {
+          return open.focus();
+        }
+
+        // Reuse a tab that already has the app open
+        const appWindow = windows.find(
+          client =>
+            new URL(client.url).origin === self.location.origin &&
+            'navigate' in client
+        );
+        if (appWindow) {
+          return appWindow.navigate(url).then(client => client && client.focus());
+        }
+
+        return self.clients.openWindow(url);
+      })
+  );
+});
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
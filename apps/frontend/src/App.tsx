@@ -4,6 +4,7 @@ import { AppRouter } from '@/router';
 import { WalletModal } from '@/components/wallet';
 import { WalletContextProvider } from '@/contexts/WalletContext';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { I18nProvider } from '@/contexts/I18nContext';
 import { WalletAuthIntegration } from '@/components/auth';
 import { PerformanceMonitorWrapper } from '@/components/debug/PerformanceMonitor';
 import { ComponentErrorBoundary } from '@/components/error/ComponentErrorBoundary';
@@ -32,14 +33,16 @@ function App() {
       }}
     >
       <Provider store={store}>
-        <AuthProvider>
-          <WalletContextProvider>
-            <WalletAuthIntegration />
-            <AppRouter />
-            <WalletModal />
-            <PerformanceMonitorWrapper />
-          </WalletContextProvider>
-        </AuthProvider>
+        <I18nProvider>
+          <AuthProvider>
+            <WalletContextProvider>
+              <WalletAuthIntegration />
+              <AppRouter />
+              <WalletModal />
+              <PerformanceMonitorWrapper />
+            </WalletContextProvider>
+          </AuthProvider>
+        </I18nProvider>
       </Provider>
     </ComponentErrorBoundary>
   );
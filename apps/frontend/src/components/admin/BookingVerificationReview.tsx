@@ -0,0 +1,414 @@
+import React, { useState, useEffect } from 'react';
+import {
+  BookingVerificationAttempt,
+  BookingVerificationAttemptStatus,
+  BookingVerificationDetails,
+  VerificationCheckOutcome,
+} from '@booking-swap/shared';
+import { adminService } from '../../services/adminService';
+import {
+  parseVerificationAttempt,
+  parseVerificationDetails,
+} from '../../services/bookingVerificationService';
+
+const CHECK_LABELS: Record<string, string> = {
+  fields: 'Listing details',
+  provider: 'Provider lookup',
+  confirmation_number: 'Confirmation number',
+  dates: 'Dates',
+  guest_name: 'Guest name',
+  provider_name: 'Provider name',
+};
+
+const OUTCOME_COLORS: Record<VerificationCheckOutcome, string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800',
+  inconclusive: 'bg-yellow-100 text-yellow-800',
+};
+
+export const BookingVerificationReview: React.FC = () => {
+  const [attempts, setAttempts] = useState<BookingVerificationAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filterStatus, setFilterStatus] = useState<
+    BookingVerificationAttemptStatus | 'all'
+  >('needs_review');
+  const [selectedAttempt, setSelectedAttempt] =
+    useState<BookingVerificationAttempt | null>(null);
+  const [details, setDetails] = useState<BookingVerificationDetails | null>(
+    null
+  );
+  const [reviewNotes, setReviewNotes] = useState('');
+
+  useEffect(() => {
+    loadAttempts();
+  }, [filterStatus]);
+
+  const loadAttempts = async () => {
+    try {
+      setLoading(true);
+      const response = await adminService.getBookingVerifications(
+        filterStatus === 'all' ? undefined : filterStatus
+      );
+      setAttempts(response.data.attempts.map(parseVerificationAttempt));
+    } catch (err) {
+      setError('Failed to load booking verifications');
+      console.error('Booking verifications error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAttempt = async (attempt: BookingVerificationAttempt) => {
+    setSelectedAttempt(attempt);
+    setDetails(null);
+    try {
+      const response = await adminService.getBookingVerification(attempt.id);
+      setDetails(parseVerificationDetails(response.data));
+    } catch (err) {
+      console.error('Error loading verification details:', err);
+    }
+  };
+
+  const closeAttempt = () => {
+    setSelectedAttempt(null);
+    setDetails(null);
+    setReviewNotes('');
+  };
+
+  const handleReview = async (attemptId: string, approve: boolean) => {
+    if (!reviewNotes.trim()) {
+      alert('Please explain your decision in the notes');
+      return;
+    }
+
+    try {
+      await adminService.reviewBookingVerification(attemptId, {
+        approve,
+        notes: reviewNotes,
+      });
+      closeAttempt();
+      loadAttempts();
+    } catch (err: any) {
+      console.error('Error reviewing booking verification:', err);
+      alert(
+        err.response?.data?.error?.message ||
+          'Failed to review booking verification'
+      );
+    }
+  };
+
+  const handleDownloadDocument = async (
+    attemptId: string,
+    documentId: string,
+    fileName: string
+  ) => {
+    try {
+      const blob = await adminService.downloadBookingVerificationDocument(
+        attemptId,
+        documentId
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading document:', err);
+      alert('Failed to download document');
+    }
+  };
+
+  const getStatusColor = (status: BookingVerificationAttemptStatus) => {
+    switch (status) {
+      case 'needs_review':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'verified':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Booking Verification
+            </h2>
+            <select
+              value={filterStatus}
+              onChange={e =>
+                setFilterStatus(
+                  e.target.value as BookingVerificationAttemptStatus | 'all'
+                )
+              }
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="needs_review">Needs Review</option>
+              <option value="verified">Verified</option>
+              <option value="rejected">Rejected</option>
+              <option value="all">All Attempts</option>
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-6 py-4 bg-red-50 border-b border-red-200">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Booking
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reason
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Submitted
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {attempts.map(attempt => (
+                <tr key={attempt.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {attempt.bookingId.slice(-8)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(attempt.status)}`}
+                    >
+                      {attempt.status.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {attempt.reviewReason || '–'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {attempt.createdAt.toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => openAttempt(attempt)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      {attempt.status === 'needs_review' ? 'Review' : 'View'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {attempts.length === 0 && !loading && (
+          <div className="px-6 py-12 text-center">
+            <p className="text-gray-500">No verification attempts found</p>
+          </div>
+        )}
+      </div>
+
+      {/* Attempt Detail Modal */}
+      {selectedAttempt && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-medium text-gray-900">
+                  Booking {selectedAttempt.bookingId.slice(-8)} Verification
+                </h3>
+                <button
+                  onClick={closeAttempt}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                {selectedAttempt.reviewReason && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Sent to Review Because
+                    </label>
+                    <p className="mt-1 text-sm text-gray-900">
+                      {selectedAttempt.reviewReason}
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Checks
+                  </label>
+                  <ul className="mt-1 text-sm text-gray-900 space-y-1">
+                    {selectedAttempt.checks.map(check => (
+                      <li key={check.name}>
+                        <span
+                          className={`inline-flex px-2 py-1 mr-2 text-xs font-semibold rounded-full ${OUTCOME_COLORS[check.outcome]}`}
+                        >
+                          {check.outcome}
+                        </span>
+                        {CHECK_LABELS[check.name] || check.name}
+                        {check.detail && (
+                          <span className="text-gray-500">
+                            {' '}
+                            – {check.detail}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {details && details.documents.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Documents
+                    </label>
+                    <ul className="mt-1 text-sm text-gray-900 space-y-3">
+                      {details.documents.map(document => (
+                        <li key={document.id}>
+                          <button
+                            onClick={() =>
+                              handleDownloadDocument(
+                                selectedAttempt.id,
+                                document.id,
+                                document.fileName
+                              )
+                            }
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            {document.fileName}
+                          </button>
+                          {document.extracted ? (
+                            <div className="mt-1 text-gray-600">
+                              <p>
+                                Confirmation numbers:{' '}
+                                {document.extracted.confirmationNumbers.join(
+                                  ', '
+                                ) || 'none found'}
+                              </p>
+                              <p>
+                                Dates:{' '}
+                                {document.extracted.dates.join(', ') ||
+                                  'none found'}
+                              </p>
+                              <p>
+                                Names:{' '}
+                                {document.extracted.names.join(', ') ||
+                                  'none found'}
+                              </p>
+                              {document.extracted.text && (
+                                <pre className="mt-1 p-2 max-h-40 overflow-y-auto bg-gray-50 rounded text-xs whitespace-pre-wrap">
+                                  {document.extracted.text}
+                                </pre>
+                              )}
+                            </div>
+                          ) : (
+                            <p className="mt-1 text-gray-500">
+                              No text could be read from this file
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {selectedAttempt.reviewedAt && (
+                  <div className="bg-gray-50 p-4 rounded-md">
+                    <h4 className="font-medium text-gray-800">Review</h4>
+                    <p className="text-sm text-gray-700 mt-1">
+                      {selectedAttempt.reviewNotes}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      Reviewed by {selectedAttempt.reviewedBy} on{' '}
+                      {selectedAttempt.reviewedAt.toLocaleDateString()}
+                    </p>
+                  </div>
+                )}
+
+                {selectedAttempt.status === 'needs_review' && (
+                  <div className="border-t pt-4">
+                    <h4 className="font-medium text-gray-900 mb-3">
+                      Decision
+                    </h4>
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Notes to Owner
+                        </label>
+                        <textarea
+                          value={reviewNotes}
+                          onChange={e => setReviewNotes(e.target.value)}
+                          rows={3}
+                          className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                          placeholder="e.g., Confirmation matches the hotel's email"
+                        />
+                      </div>
+                      <div className="flex justify-end space-x-3">
+                        <button
+                          onClick={closeAttempt}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() =>
+                            handleReview(selectedAttempt.id, false)
+                          }
+                          className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => handleReview(selectedAttempt.id, true)}
+                          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+                        >
+                          Verify Booking
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,39 +1,55 @@
 import React, { useState, useEffect } from 'react';
+import {
+  ConversationDetails,
+  DISPUTE_TRANSITIONS,
+  Dispute,
+  DisputeDetails,
+  DisputeResolutionAction,
+  DisputeStatus,
+} from '@booking-swap/shared';
 import { adminService } from '../../services/adminService';
+import {
+  parseDispute,
+  parseDisputeDetails,
+} from '../../services/disputeService';
+import { parseConversationDetails } from '../../services/messagingService';
 
-interface DisputeCase {
-  id: string;
-  swapId: string;
-  reporterId: string;
-  reportedUserId: string;
-  type: 'fraud' | 'booking_invalid' | 'payment_issue' | 'other';
-  description: string;
-  evidence: string[];
-  status: 'open' | 'investigating' | 'resolved' | 'closed';
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  assignedTo?: string;
-  createdAt: string;
-  updatedAt: string;
-  resolution?: {
-    action: string;
-    notes: string;
-    resolvedBy: string;
-    resolvedAt: string;
-  };
-}
+const RESOLUTION_ACTIONS: { value: DisputeResolutionAction; label: string }[] =
+  [
+    { value: 'release_funds', label: 'Release held funds to recipient' },
+    { value: 'refund', label: 'Refund payer in full' },
+    { value: 'partial_refund', label: 'Refund payer in part' },
+    { value: 'no_action', label: 'No payment change' },
+  ];
+
+const STATUS_ACTIONS: Partial<Record<DisputeStatus, string>> = {
+  investigating: 'Start investigation',
+  awaiting_party: 'Wait on party',
+};
 
 export const DisputeManagement: React.FC = () => {
-  const [disputes, setDisputes] = useState<DisputeCase[]>([]);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedDispute, setSelectedDispute] = useState<DisputeCase | null>(
-    null
+  const [selectedDispute, setSelectedDispute] = useState<Dispute | null>(null);
+  const [details, setDetails] = useState<DisputeDetails | null>(null);
+  const [conversations, setConversations] = useState<ConversationDetails[]>(
+    []
   );
   const [filterStatus, setFilterStatus] = useState<string>('all');
-  const [resolutionForm, setResolutionForm] = useState({
+  const [resolutionForm, setResolutionForm] = useState<{
+    action: DisputeResolutionAction | '';
+    notes: string;
+    amount: string;
+    close: boolean;
+  }>({
     action: '',
     notes: '',
+    amount: '',
+    close: false,
   });
+  const [transitionNote, setTransitionNote] = useState('');
+  const [awaitingPartyId, setAwaitingPartyId] = useState('');
 
   useEffect(() => {
     loadDisputes();
@@ -45,7 +61,7 @@ export const DisputeManagement: React.FC = () => {
       const response = await adminService.getDisputes(
         filterStatus === 'all' ? undefined : filterStatus
       );
-      setDisputes(response.data);
+      setDisputes(response.data.map(parseDispute));
     } catch (err) {
       setError('Failed to load disputes');
       console.error('Disputes error:', err);
@@ -54,20 +70,120 @@ export const DisputeManagement: React.FC = () => {
     }
   };
 
+  const openDispute = async (dispute: Dispute) => {
+    setSelectedDispute(dispute);
+    setDetails(null);
+    setConversations([]);
+    setAwaitingPartyId(dispute.reportedUserId);
+    try {
+      const response = await adminService.getDispute(dispute.id);
+      setDetails(parseDisputeDetails(response.data));
+    } catch (err) {
+      console.error('Error loading dispute details:', err);
+    }
+    try {
+      const response = await adminService.getDisputeConversations(dispute.id);
+      setConversations(
+        response.data.conversations.map(parseConversationDetails)
+      );
+    } catch (err) {
+      console.error('Error loading dispute conversations:', err);
+    }
+  };
+
+  const closeDispute = () => {
+    setSelectedDispute(null);
+    setDetails(null);
+    setConversations([]);
+    setTransitionNote('');
+    setResolutionForm({ action: '', notes: '', amount: '', close: false });
+  };
+
+  const handleTransition = async (disputeId: string, status: DisputeStatus) => {
+    try {
+      await adminService.transitionDispute(disputeId, {
+        status,
+        note: transitionNote || undefined,
+        awaitingPartyId:
+          status === 'awaiting_party' ? awaitingPartyId : undefined,
+      });
+      closeDispute();
+      loadDisputes();
+    } catch (err: any) {
+      console.error('Error changing dispute status:', err);
+      alert(err.response?.data?.error || 'Failed to change dispute status');
+    }
+  };
+
   const handleResolveDispute = async (disputeId: string) => {
     if (!resolutionForm.action || !resolutionForm.notes) {
       alert('Please provide both action and notes');
       return;
     }
+    if (resolutionForm.action === 'partial_refund' && !resolutionForm.amount) {
+      alert('Please provide the amount to refund');
+      return;
+    }
 
     try {
-      await adminService.resolveDispute(disputeId, resolutionForm);
-      setSelectedDispute(null);
-      setResolutionForm({ action: '', notes: '' });
+      await adminService.resolveDispute(disputeId, {
+        action: resolutionForm.action,
+        notes: resolutionForm.notes,
+        amount:
+          resolutionForm.action === 'partial_refund'
+            ? Number(resolutionForm.amount)
+            : undefined,
+        close: resolutionForm.close,
+      });
+      closeDispute();
       loadDisputes();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error resolving dispute:', err);
-      alert('Failed to resolve dispute');
+      alert(err.response?.data?.error || 'Failed to resolve dispute');
+    }
+  };
+
+  const handleDownloadEvidence = async (
+    disputeId: string,
+    evidenceId: string,
+    fileName: string
+  ) => {
+    try {
+      const blob = await adminService.downloadDisputeEvidence(
+        disputeId,
+        evidenceId
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading evidence:', err);
+      alert('Failed to download evidence');
+    }
+  };
+
+  const handleDownloadAttachment = async (
+    conversationId: string,
+    messageId: string,
+    fileName: string
+  ) => {
+    try {
+      const blob = await adminService.downloadConversationAttachment(
+        conversationId,
+        messageId
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading attachment:', err);
+      alert('Failed to download attachment');
     }
   };
 
@@ -92,6 +208,8 @@ export const DisputeManagement: React.FC = () => {
         return 'bg-red-100 text-red-800';
       case 'investigating':
         return 'bg-yellow-100 text-yellow-800';
+      case 'awaiting_party':
+        return 'bg-blue-100 text-blue-800';
       case 'resolved':
         return 'bg-green-100 text-green-800';
       case 'closed':
@@ -133,6 +251,7 @@ export const DisputeManagement: React.FC = () => {
                 <option value="all">All Disputes</option>
                 <option value="open">Open</option>
                 <option value="investigating">Investigating</option>
+                <option value="awaiting_party">Awaiting Party</option>
                 <option value="resolved">Resolved</option>
                 <option value="closed">Closed</option>
               </select>
@@ -190,15 +309,20 @@ export const DisputeManagement: React.FC = () => {
                     <span
                       className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(dispute.status)}`}
                     >
-                      {dispute.status}
+                      {dispute.status.replace('_', ' ')}
                     </span>
+                    {dispute.slaBreachedAt && (
+                      <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                        SLA breached
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {new Date(dispute.createdAt).toLocaleDateString()}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <button
-                      onClick={() => setSelectedDispute(dispute)}
+                      onClick={() => openDispute(dispute)}
                       className="text-blue-600 hover:text-blue-900 mr-4"
                     >
                       View
@@ -206,7 +330,7 @@ export const DisputeManagement: React.FC = () => {
                     {dispute.status !== 'resolved' &&
                       dispute.status !== 'closed' && (
                         <button
-                          onClick={() => setSelectedDispute(dispute)}
+                          onClick={() => openDispute(dispute)}
                           className="text-green-600 hover:text-green-900"
                         >
                           Resolve
@@ -236,7 +360,7 @@ export const DisputeManagement: React.FC = () => {
                   Dispute Details - {selectedDispute.id.slice(-8)}
                 </h3>
                 <button
-                  onClick={() => setSelectedDispute(null)}
+                  onClick={closeDispute}
                   className="text-gray-400 hover:text-gray-600"
                 >
                   ✕
@@ -283,24 +407,131 @@ export const DisputeManagement: React.FC = () => {
                   </p>
                 </div>
 
-                {selectedDispute.evidence.length > 0 && (
+                {selectedDispute.slaDueAt &&
+                  selectedDispute.status !== 'resolved' &&
+                  selectedDispute.status !== 'closed' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        SLA Due
+                      </label>
+                      <p
+                        className={`mt-1 text-sm ${selectedDispute.slaBreachedAt ? 'text-red-600' : 'text-gray-900'}`}
+                      >
+                        {selectedDispute.slaDueAt.toLocaleString()}
+                        {selectedDispute.slaBreachedAt && ' (breached)'}
+                      </p>
+                    </div>
+                  )}
+
+                {details && details.evidence.length > 0 && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700">
                       Evidence
                     </label>
                     <ul className="mt-1 text-sm text-gray-900">
-                      {selectedDispute.evidence.map((evidence, index) => (
-                        <li
-                          key={index}
-                          className="text-blue-600 hover:text-blue-800"
-                        >
-                          <a
-                            href={evidence}
-                            target="_blank"
-                            rel="noopener noreferrer"
+                      {details.evidence.map(evidence => (
+                        <li key={evidence.id}>
+                          <button
+                            onClick={() =>
+                              handleDownloadEvidence(
+                                selectedDispute.id,
+                                evidence.id,
+                                evidence.fileName
+                              )
+                            }
+                            className="text-blue-600 hover:text-blue-800"
                           >
-                            Evidence {index + 1}
-                          </a>
+                            {evidence.fileName}
+                          </button>
+                          <span className="text-gray-500">
+                            {' '}
+                            by{' '}
+                            {evidence.uploadedBy === selectedDispute.reporterId
+                              ? 'reporter'
+                              : evidence.uploadedBy ===
+                                  selectedDispute.reportedUserId
+                                ? 'reported user'
+                                : 'support'}
+                            {evidence.description && ` – ${evidence.description}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {conversations.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Conversations
+                    </label>
+                    {conversations.map(({ conversation, messages, hasMore }) => (
+                      <div
+                        key={conversation.id}
+                        className="mt-1 border border-gray-200 rounded-md p-2 max-h-64 overflow-y-auto"
+                      >
+                        {hasMore && (
+                          <p className="text-xs text-gray-500 mb-1">
+                            Showing the latest {messages.length} messages
+                          </p>
+                        )}
+                        {messages.length === 0 && (
+                          <p className="text-sm text-gray-500">No messages</p>
+                        )}
+                        <ul className="text-sm text-gray-900 space-y-1">
+                          {messages.map(message => (
+                            <li key={message.id}>
+                              <span className="text-gray-500">
+                                {message.createdAt.toLocaleString()}{' '}
+                                {message.senderId === selectedDispute.reporterId
+                                  ? 'reporter'
+                                  : 'reported user'}
+                                :
+                              </span>{' '}
+                              <span className="whitespace-pre-wrap">
+                                {message.body}
+                              </span>
+                              {message.attachment && (
+                                <button
+                                  onClick={() =>
+                                    handleDownloadAttachment(
+                                      conversation.id,
+                                      message.id,
+                                      message.attachment!.fileName
+                                    )
+                                  }
+                                  className="ml-1 text-blue-600 hover:text-blue-800"
+                                >
+                                  📎 {message.attachment.fileName}
+                                </button>
+                              )}
+                              {message.containsContactDetails && (
+                                <span className="ml-1 text-xs text-orange-600">
+                                  (shared contact details)
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {details && details.events.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      History
+                    </label>
+                    <ul className="mt-1 text-sm text-gray-600 space-y-1">
+                      {details.events.map(event => (
+                        <li key={event.id}>
+                          {event.createdAt.toLocaleString()} –{' '}
+                          {event.type.replace('_', ' ')}
+                          {event.toStatus &&
+                            event.fromStatus !== event.toStatus &&
+                            ` → ${event.toStatus.replace('_', ' ')}`}
+                          {event.note && `: ${event.note}`}
                         </li>
                       ))}
                     </ul>
@@ -312,7 +543,9 @@ export const DisputeManagement: React.FC = () => {
                     <h4 className="font-medium text-green-800">Resolution</h4>
                     <p className="text-sm text-green-700 mt-1">
                       <strong>Action:</strong>{' '}
-                      {selectedDispute.resolution.action}
+                      {selectedDispute.resolution.action.replace('_', ' ')}
+                      {selectedDispute.resolution.amount !== undefined &&
+                        ` (${selectedDispute.resolution.amount} ${selectedDispute.resolution.currency || ''})`}
                     </p>
                     <p className="text-sm text-green-700 mt-1">
                       <strong>Notes:</strong> {selectedDispute.resolution.notes}
@@ -330,26 +563,110 @@ export const DisputeManagement: React.FC = () => {
                   selectedDispute.status !== 'closed' && (
                     <div className="border-t pt-4">
                       <h4 className="font-medium text-gray-900 mb-3">
-                        Resolve Dispute
+                        Workflow
                       </h4>
                       <div className="space-y-3">
                         <div>
                           <label className="block text-sm font-medium text-gray-700">
-                            Action Taken
+                            Note to Parties
                           </label>
                           <input
                             type="text"
+                            value={transitionNote}
+                            onChange={e => setTransitionNote(e.target.value)}
+                            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                            placeholder="e.g., Please upload the cancellation email"
+                          />
+                        </div>
+                        {DISPUTE_TRANSITIONS[selectedDispute.status].includes(
+                          'awaiting_party'
+                        ) && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">
+                              Party to Wait On
+                            </label>
+                            <select
+                              value={awaitingPartyId}
+                              onChange={e => setAwaitingPartyId(e.target.value)}
+                              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                            >
+                              <option value={selectedDispute.reporterId}>
+                                Reporter
+                              </option>
+                              <option value={selectedDispute.reportedUserId}>
+                                Reported user
+                              </option>
+                            </select>
+                          </div>
+                        )}
+                        <div className="flex justify-end space-x-3">
+                          {DISPUTE_TRANSITIONS[selectedDispute.status]
+                            .filter(status => STATUS_ACTIONS[status])
+                            .map(status => (
+                              <button
+                                key={status}
+                                onClick={() =>
+                                  handleTransition(selectedDispute.id, status)
+                                }
+                                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                              >
+                                {STATUS_ACTIONS[status]}
+                              </button>
+                            ))}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                {selectedDispute.status !== 'resolved' &&
+                  selectedDispute.status !== 'closed' && (
+                    <div className="border-t pt-4">
+                      <h4 className="font-medium text-gray-900 mb-3">
+                        Resolve Dispute
+                      </h4>
+                      <div className="space-y-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">
+                            Payment Outcome
+                          </label>
+                          <select
                             value={resolutionForm.action}
                             onChange={e =>
                               setResolutionForm({
                                 ...resolutionForm,
-                                action: e.target.value,
+                                action: e.target.value as DisputeResolutionAction,
                               })
                             }
                             className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
-                            placeholder="e.g., User suspended, Refund issued"
-                          />
+                          >
+                            <option value="">Select an outcome</option>
+                            {RESOLUTION_ACTIONS.map(action => (
+                              <option key={action.value} value={action.value}>
+                                {action.label}
+                              </option>
+                            ))}
+                          </select>
                         </div>
+                        {resolutionForm.action === 'partial_refund' && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">
+                              Amount to Refund
+                            </label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={resolutionForm.amount}
+                              onChange={e =>
+                                setResolutionForm({
+                                  ...resolutionForm,
+                                  amount: e.target.value,
+                                })
+                              }
+                              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                            />
+                          </div>
+                        )}
                         <div>
                           <label className="block text-sm font-medium text-gray-700">
                             Resolution Notes
@@ -367,9 +684,27 @@ export const DisputeManagement: React.FC = () => {
                             placeholder="Detailed explanation of the resolution"
                           />
                         </div>
+                        {DISPUTE_TRANSITIONS[selectedDispute.status].includes(
+                          'closed'
+                        ) && (
+                          <label className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={resolutionForm.close}
+                              onChange={e =>
+                                setResolutionForm({
+                                  ...resolutionForm,
+                                  close: e.target.checked,
+                                })
+                              }
+                              className="mr-2"
+                            />
+                            Close as unfounded instead of resolving
+                          </label>
+                        )}
                         <div className="flex justify-end space-x-3">
                           <button
-                            onClick={() => setSelectedDispute(null)}
+                            onClick={closeDispute}
                             className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
                           >
                             Cancel
@@ -380,7 +715,9 @@ export const DisputeManagement: React.FC = () => {
                             }
                             className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
                           >
-                            Resolve Dispute
+                            {resolutionForm.close
+                              ? 'Close Dispute'
+                              : 'Resolve Dispute'}
                           </button>
                         </div>
                       </div>
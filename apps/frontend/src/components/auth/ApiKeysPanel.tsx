@@ -0,0 +1,383 @@
+import React, { useEffect, useState } from 'react';
+import {
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyScope,
+  ApiKeyWithSecret,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEY_RATE_LIMIT,
+} from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { tokens } from '../../design-system/tokens';
+import { apiKeyService } from '../../services/apiKeyService';
+
+interface ApiKeyFormData {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: string;
+  expiresAt: string;
+}
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'read:bookings': 'Read bookings',
+  'write:swaps': 'Manage swaps and proposals',
+  'read:payments': 'Read payments',
+};
+
+const emptyForm = (): ApiKeyFormData => ({
+  name: '',
+  scopes: ['read:bookings'],
+  rateLimitPerMinute: String(DEFAULT_API_KEY_RATE_LIMIT),
+  expiresAt: '',
+});
+
+const keyStatus = (apiKey: ApiKey): { label: string; active: boolean } => {
+  if (apiKey.revokedAt) return { label: 'Revoked', active: false };
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+    return { label: 'Expired', active: false };
+  }
+  if (apiKey.replacedBy) return { label: 'Rotated, expires soon', active: true };
+  return { label: 'Active', active: true };
+};
+
+/**
+ * Lets users issue scoped API keys for scripts and integrations, and rotate
+ * or revoke them. A new key is shown once, right after it is issued.
+ */
+export const ApiKeysPanel: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ApiKeyFormData>(emptyForm());
+  const [newKey, setNewKey] = useState<ApiKeyWithSecret | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = () =>
+    apiKeyService
+      .listApiKeys()
+      .then(setApiKeys)
+      .catch(() => setError('Could not load your API keys'));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiKeyService
+      .listApiKeys()
+      .then(result => {
+        if (!cancelled) setApiKeys(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your API keys');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || fallback;
+
+  const showNewKey = (apiKey: ApiKeyWithSecret) => {
+    setNewKey(apiKey);
+    setCopied(false);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setForm(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter(s => s !== scope)
+        : [...prev.scopes, scope],
+    }));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setError('Give your key a name');
+      return;
+    }
+    if (form.scopes.length === 0) {
+      setError('Choose at least one scope');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const created = await apiKeyService.createApiKey({
+        name: form.name.trim(),
+        scopes: form.scopes,
+        rateLimitPerMinute: form.rateLimitPerMinute
+          ? parseInt(form.rateLimitPerMinute)
+          : undefined,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt) : undefined,
+      });
+      setApiKeys(prev => [created, ...prev]);
+      showNewKey(created);
+      setShowForm(false);
+      setForm(emptyForm());
+    } catch (err) {
+      setError(errorMessage(err, 'Could not create this key'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotate = async (apiKey: ApiKey) => {
+    try {
+      const replacement = await apiKeyService.rotateApiKey(apiKey.id);
+      showNewKey(replacement);
+      // The old key's expiry changed, so reload rather than patch the list
+      await loadKeys();
+    } catch (err) {
+      setError(errorMessage(err, 'Could not rotate this key'));
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Requests using it will fail immediately.`)) {
+      return;
+    }
+    try {
+      const revoked = await apiKeyService.revokeApiKey(apiKey.id);
+      setApiKeys(prev => prev.map(k => (k.id === revoked.id ? revoked : k)));
+    } catch (err) {
+      setError(errorMessage(err, 'Could not revoke this key'));
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    try {
+      await navigator.clipboard.writeText(newKey.key);
+      setCopied(true);
+    } catch {
+      setError('Could not copy the key; select it and copy it manually');
+    }
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[700],
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing[1],
+  };
+
+  const mutedStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  return (
+    <section aria-label="API keys">
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: tokens.spacing[3],
+        }}
+      >
+        <p style={{ ...mutedStyle, margin: 0 }}>
+          Keys let scripts and integrations call the API on your behalf. Send
+          them in the <code>X-API-Key</code> header.
+        </p>
+        {!showForm && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setForm(emptyForm());
+              setError(null);
+              setShowForm(true);
+            }}
+          >
+            New key
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `0 0 ${tokens.spacing[3]} 0`,
+          }}
+        >
+          {error}
+        </p>
+      )}
+
+      {newKey && (
+        <div
+          role="status"
+          style={{
+            padding: tokens.spacing[3],
+            marginBottom: tokens.spacing[4],
+            borderRadius: tokens.borderRadius.md,
+            backgroundColor: tokens.colors.success[50],
+            border: `1px solid ${tokens.colors.success[200]}`,
+          }}
+        >
+          <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[2]} 0` }}>
+            Copy your new key for <strong>{newKey.name}</strong> now. You
+            won't be able to see it again.
+          </p>
+          <div style={{ display: 'flex', gap: tokens.spacing[2], alignItems: 'center' }}>
+            <code
+              style={{
+                flex: 1,
+                padding: tokens.spacing[2],
+                backgroundColor: 'white',
+                borderRadius: tokens.borderRadius.md,
+                fontFamily: 'JetBrains Mono, monospace',
+                fontSize: tokens.typography.fontSize.sm,
+                wordBreak: 'break-all',
+              }}
+            >
+              {newKey.key}
+            </code>
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setNewKey(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleCreate}
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+            gap: tokens.spacing[3],
+            marginBottom: tokens.spacing[4],
+          }}
+        >
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Calendar sync"
+          />
+          <Input
+            label="Requests per minute"
+            type="number"
+            min={1}
+            max={MAX_API_KEY_RATE_LIMIT}
+            value={form.rateLimitPerMinute}
+            onChange={e => setForm({ ...form, rateLimitPerMinute: e.target.value })}
+          />
+          <Input
+            label="Expires on"
+            type="date"
+            value={form.expiresAt}
+            onChange={e => setForm({ ...form, expiresAt: e.target.value })}
+            helperText="Leave empty for a key that does not expire"
+          />
+
+          <fieldset style={{ border: 'none', padding: 0, margin: 0 }}>
+            <legend style={labelStyle}>Scopes</legend>
+            {API_KEY_SCOPES.map(scope => (
+              <label key={scope} style={labelStyle}>
+                <input
+                  type="checkbox"
+                  checked={form.scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                {SCOPE_LABELS[scope]}
+              </label>
+            ))}
+          </fieldset>
+
+          <div style={{ display: 'flex', gap: tokens.spacing[2], alignItems: 'flex-end' }}>
+            <Button type="submit" size="sm" loading={saving}>
+              Create key
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p style={mutedStyle}>Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <p style={{ ...mutedStyle, margin: 0 }}>You have no API keys yet.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+          {apiKeys.map(apiKey => {
+            const status = keyStatus(apiKey);
+            return (
+              <li
+                key={apiKey.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: tokens.spacing[3],
+                  padding: `${tokens.spacing[2]} 0`,
+                  borderTop: `1px solid ${tokens.colors.neutral[100]}`,
+                  flexWrap: 'wrap',
+                  opacity: status.active ? 1 : 0.6,
+                }}
+              >
+                <div style={{ flex: 1, minWidth: '220px' }}>
+                  <div
+                    style={{
+                      fontWeight: tokens.typography.fontWeight.medium,
+                      color: tokens.colors.neutral[900],
+                    }}
+                  >
+                    {apiKey.name}{' '}
+                    <code style={{ ...mutedStyle, fontFamily: 'JetBrains Mono, monospace' }}>
+                      {apiKey.keyPrefix}…
+                    </code>
+                  </div>
+                  <div style={mutedStyle}>
+                    {apiKey.scopes.join(', ')} · {apiKey.rateLimitPerMinute}/min ·{' '}
+                    {apiKey.lastUsedAt
+                      ? `last used ${apiKey.lastUsedAt.toLocaleString()}`
+                      : 'never used'}
+                    {apiKey.expiresAt && ` · expires ${apiKey.expiresAt.toLocaleString()}`}
+                  </div>
+                </div>
+                <span style={mutedStyle}>{status.label}</span>
+                {status.active && !apiKey.replacedBy && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRotate(apiKey)}>
+                    Rotate
+                  </Button>
+                )}
+                {!apiKey.revokedAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Revoke ${apiKey.name}`}
+                    onClick={() => handleRevoke(apiKey)}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ApiKeysPanel;
@@ -4,6 +4,7 @@ import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/I18nContext';
 import { tokens } from '@/design-system/tokens';
 
 interface LoginRedirectState {
@@ -19,11 +20,15 @@ interface LoginRedirectState {
 export const LoginForm: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login, isLoading } = useAuth();
+  const { login, completeTwoFactorLogin, isLoading } = useAuth();
+  const { t } = useTranslation();
   const [formData, setFormData] = useState({
     email: '',
     password: '',
   });
+  // Set once the password is accepted for an account with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -54,15 +59,15 @@ export const LoginForm: React.FC = () => {
     const newErrors: Record<string, string> = {};
 
     if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('auth.emailRequired');
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = t('auth.emailInvalid');
     }
 
     if (!formData.password) {
-      newErrors.password = 'Password is required';
+      newErrors.password = t('auth.passwordRequired');
     } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+      newErrors.password = t('auth.passwordTooShort', { min: 6 });
     }
 
     setErrors(newErrors);
@@ -78,7 +83,13 @@ export const LoginForm: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      await login(formData.email, formData.password);
+      const outcome = await login(formData.email, formData.password);
+      if (outcome.twoFactorRequired) {
+        setChallengeToken(outcome.challengeToken);
+        setCode('');
+        setErrors({});
+        return;
+      }
 
       // Redirect to the intended destination or default to /browse
       const redirectPath = getRedirectPath();
@@ -86,15 +97,41 @@ export const LoginForm: React.FC = () => {
     } catch (error) {
       setErrors({
         submit:
-          error instanceof Error
-            ? error.message
-            : 'Login failed. Please try again.',
+          error instanceof Error ? error.message : t('auth.loginFailed'),
       });
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) {
+      return;
+    }
+
+    if (!code.trim()) {
+      setErrors({ code: t('auth.codeRequired') });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await completeTwoFactorLogin(challengeToken, code.trim());
+      navigate(getRedirectPath(), { replace: true });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : t('auth.verificationFailed');
+      setErrors({ submit: message });
+      // An expired challenge cannot be retried, so start the login again
+      if (/expired|sign in again/i.test(message)) {
+        setChallengeToken(null);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     // Clear field error when user starts typing
@@ -158,8 +195,14 @@ export const LoginForm: React.FC = () => {
       <Card variant="elevated" style={cardStyles}>
         <CardContent>
           <div style={headerStyles}>
-            <h1 style={titleStyles}>Welcome Back</h1>
-            <p style={subtitleStyles}>Sign in to your account to continue</p>
+            <h1 style={titleStyles}>
+              {challengeToken ? t('auth.twoFactorTitle') : t('auth.welcomeBack')}
+            </h1>
+            <p style={subtitleStyles}>
+              {challengeToken
+                ? t('auth.twoFactorSubtitle')
+                : t('auth.signInSubtitle')}
+            </p>
           </div>
 
           {errors.submit && (
@@ -178,54 +221,96 @@ export const LoginForm: React.FC = () => {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} style={formStyles}>
-            <Input
-              label="Email Address"
-              type="email"
-              value={formData.email}
-              onChange={e => handleInputChange('email', e.target.value)}
-              error={errors.email}
-              placeholder="Enter your email"
-              required
-              autoComplete="email"
-            />
-
-            <Input
-              label="Password"
-              type="password"
-              value={formData.password}
-              onChange={e => handleInputChange('password', e.target.value)}
-              error={errors.password}
-              placeholder="Enter your password"
-              required
-              autoComplete="current-password"
-            />
-
-            <Button
-              type="submit"
-              variant="primary"
-              loading={isSubmitting || isLoading}
-              disabled={isSubmitting || isLoading}
-              style={{ marginTop: tokens.spacing[2] }}
-            >
-              {isSubmitting ? 'Signing In...' : 'Sign In'}
-            </Button>
-          </form>
+          {challengeToken ? (
+            <form onSubmit={handleCodeSubmit} style={formStyles}>
+              <Input
+                label={t('auth.authenticationCode')}
+                value={code}
+                onChange={e => {
+                  setCode(e.target.value);
+                  if (errors.code) {
+                    setErrors(prev => ({ ...prev, code: '' }));
+                  }
+                }}
+                error={errors.code}
+                placeholder="123456"
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode="text"
+              />
+
+              <Button
+                type="submit"
+                variant="primary"
+                loading={isSubmitting || isLoading}
+                disabled={isSubmitting || isLoading}
+                style={{ marginTop: tokens.spacing[2] }}
+              >
+                {isSubmitting ? t('auth.verifying') : t('auth.verify')}
+              </Button>
+
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setChallengeToken(null);
+                  setErrors({});
+                }}
+              >
+                {t('auth.backToSignIn')}
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} style={formStyles}>
+              <Input
+                label={t('auth.email')}
+                type="email"
+                value={formData.email}
+                onChange={e => handleInputChange('email', e.target.value)}
+                error={errors.email}
+                placeholder={t('auth.emailPlaceholder')}
+                required
+                autoComplete="email"
+              />
+
+              <Input
+                label={t('auth.password')}
+                type="password"
+                value={formData.password}
+                onChange={e => handleInputChange('password', e.target.value)}
+                error={errors.password}
+                placeholder={t('auth.passwordPlaceholder')}
+                required
+                autoComplete="current-password"
+              />
+
+              <Button
+                type="submit"
+                variant="primary"
+                loading={isSubmitting || isLoading}
+                disabled={isSubmitting || isLoading}
+                style={{ marginTop: tokens.spacing[2] }}
+              >
+                {isSubmitting ? t('auth.signingIn') : t('nav.signIn')}
+              </Button>
+            </form>
+          )}
 
           <div style={linkStyles}>
             <Link to="/auth/forgot-password" style={linkButtonStyles}>
-              Forgot your password?
+              {t('auth.forgotPassword')}
             </Link>
           </div>
 
           <div style={linkStyles}>
-            Don't have an account?{' '}
+            {t('auth.noAccount')}{' '}
             <Link
               to="/register"
               state={redirectState}
               style={linkButtonStyles}
             >
-              Sign up here
+              {t('auth.signUpHere')}
             </Link>
           </div>
         </CardContent>
@@ -4,6 +4,7 @@ import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/I18nContext';
 import { tokens } from '@/design-system/tokens';
 
 interface LoginRedirectState {
@@ -20,6 +21,7 @@ export const RegisterForm: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { register, isLoading } = useAuth();
+  const { t } = useTranslation();
   const [formData, setFormData] = useState({
     displayName: '',
     username: '',
@@ -57,38 +59,38 @@ export const RegisterForm: React.FC = () => {
     const newErrors: Record<string, string> = {};
 
     if (formData.displayName && formData.displayName.length > 100) {
-      newErrors.displayName = 'Display name must be less than 100 characters';
+      newErrors.displayName = t('auth.displayNameTooLong', { max: 100 });
     }
 
     if (!formData.username.trim()) {
-      newErrors.username = 'Username is required';
+      newErrors.username = t('auth.usernameRequired');
     } else if (formData.username.length < 3) {
-      newErrors.username = 'Username must be at least 3 characters';
+      newErrors.username = t('auth.usernameTooShort', { min: 3 });
     } else if (formData.username.length > 50) {
-      newErrors.username = 'Username must be less than 50 characters';
+      newErrors.username = t('auth.usernameTooLong', { max: 50 });
     } else if (!/^[a-zA-Z0-9_-]+$/.test(formData.username)) {
       newErrors.username =
-        'Username can only contain letters, numbers, hyphens, and underscores';
+        t('auth.usernameInvalid');
     }
 
     if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
+      newErrors.email = t('auth.emailRequired');
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+      newErrors.email = t('auth.emailInvalid');
     }
 
     if (!formData.password) {
-      newErrors.password = 'Password is required';
+      newErrors.password = t('auth.passwordRequired');
     } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+      newErrors.password = t('auth.passwordTooShort', { min: 6 });
     } else if (formData.password.length > 100) {
-      newErrors.password = 'Password must be less than 100 characters';
+      newErrors.password = t('auth.passwordTooLong', { max: 100 });
     }
 
     if (!formData.confirmPassword) {
-      newErrors.confirmPassword = 'Please confirm your password';
+      newErrors.confirmPassword = t('auth.confirmPasswordRequired');
     } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
+      newErrors.confirmPassword = t('auth.passwordsDoNotMatch');
     }
 
     setErrors(newErrors);
@@ -119,7 +121,7 @@ export const RegisterForm: React.FC = () => {
         submit:
           error instanceof Error
             ? error.message
-            : 'Registration failed. Please try again.',
+            : t('auth.registrationFailed'),
       });
     } finally {
       setIsSubmitting(false);
@@ -204,10 +206,8 @@ export const RegisterForm: React.FC = () => {
       <Card variant="elevated" style={cardStyles}>
         <CardContent>
           <div style={headerStyles}>
-            <h1 style={titleStyles}>Create Account</h1>
-            <p style={subtitleStyles}>
-              Sign up to start swapping your bookings
-            </p>
+            <h1 style={titleStyles}>{t('auth.createAccount')}</h1>
+            <p style={subtitleStyles}>{t('auth.signUpSubtitle')}</p>
           </div>
 
           {errors.submit && (
@@ -228,58 +228,58 @@ export const RegisterForm: React.FC = () => {
 
           <form onSubmit={handleSubmit} style={formStyles}>
             <Input
-              label="Display Name"
+              label={t('auth.displayName')}
               type="text"
               value={formData.displayName}
               onChange={e => handleInputChange('displayName', e.target.value)}
               error={errors.displayName}
-              placeholder="Enter your display name (optional)"
+              placeholder={t('auth.displayNamePlaceholder')}
               autoComplete="name"
-              helperText="This is how other users will see you. If not provided, your username will be used."
+              helperText={t('auth.displayNameHelp')}
             />
 
             <Input
-              label="Username"
+              label={t('auth.username')}
               type="text"
               value={formData.username}
               onChange={e => handleInputChange('username', e.target.value)}
               error={errors.username}
-              placeholder="Choose a username"
+              placeholder={t('auth.usernamePlaceholder')}
               required
               autoComplete="username"
             />
 
             <Input
-              label="Email Address"
+              label={t('auth.email')}
               type="email"
               value={formData.email}
               onChange={e => handleInputChange('email', e.target.value)}
               error={errors.email}
-              placeholder="Enter your email"
+              placeholder={t('auth.emailPlaceholder')}
               required
               autoComplete="email"
             />
 
             <Input
-              label="Password"
+              label={t('auth.password')}
               type="password"
               value={formData.password}
               onChange={e => handleInputChange('password', e.target.value)}
               error={errors.password}
-              placeholder="Create a password"
+              placeholder={t('auth.newPasswordPlaceholder')}
               required
               autoComplete="new-password"
             />
 
             <Input
-              label="Confirm Password"
+              label={t('auth.confirmPassword')}
               type="password"
               value={formData.confirmPassword}
               onChange={e =>
                 handleInputChange('confirmPassword', e.target.value)
               }
               error={errors.confirmPassword}
-              placeholder="Confirm your password"
+              placeholder={t('auth.confirmPasswordPlaceholder')}
               required
               autoComplete="new-password"
             />
@@ -291,18 +291,18 @@ export const RegisterForm: React.FC = () => {
               disabled={isSubmitting || isLoading}
               style={{ marginTop: tokens.spacing[2] }}
             >
-              {isSubmitting ? 'Creating Account...' : 'Create Account'}
+              {isSubmitting ? t('auth.creatingAccount') : t('auth.createAccount')}
             </Button>
           </form>
 
           <div style={linkStyles}>
-            Already have an account?{' '}
+            {t('auth.haveAccount')}{' '}
             <Link
               to="/login"
               state={redirectState}
               style={linkButtonStyles}
             >
-              Sign in here
+              {t('auth.signInHere')}
             </Link>
           </div>
         </CardContent>
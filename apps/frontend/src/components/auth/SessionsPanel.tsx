@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { UserSession } from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { tokens } from '../../design-system/tokens';
+import { sessionService } from '../../services/sessionService';
+
+/**
+ * Lists the devices the user is signed in on and lets them sign out any of
+ * them, or every device except this one
+ */
+export const SessionsPanel: React.FC = () => {
+  const [sessions, setSessions] = useState<UserSession[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadSessions = () =>
+    sessionService
+      .listSessions()
+      .then(setSessions)
+      .catch(() => setError('Could not load your active sessions'));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    sessionService
+      .listSessions()
+      .then(result => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your active sessions');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || fallback;
+
+  const handleRevoke = async (session: UserSession) => {
+    if (!confirm(`Sign out ${session.deviceName}?`)) {
+      return;
+    }
+
+    setBusyId(session.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await sessionService.revokeSession(session.id);
+      await loadSessions();
+    } catch (err) {
+      setError(errorMessage(err, 'Could not sign out that session'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out of every other device?')) {
+      return;
+    }
+
+    setBusyId('others');
+    setError(null);
+    setNotice(null);
+    try {
+      const count = await sessionService.revokeOtherSessions();
+      setNotice(
+        count === 1 ? 'Signed out 1 other session.' : `Signed out ${count} other sessions.`
+      );
+      await loadSessions();
+    } catch (err) {
+      setError(errorMessage(err, 'Could not sign out your other sessions'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const mutedStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  const otherSessions = sessions?.filter(session => !session.current) ?? [];
+
+  return (
+    <section aria-label="Active sessions">
+      {error && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `0 0 ${tokens.spacing[3]} 0`,
+          }}
+        >
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p role="status" style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[3]} 0` }}>
+          {notice}
+        </p>
+      )}
+
+      {!sessions ? (
+        <p style={mutedStyle}>Loading active sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p style={mutedStyle}>No active sessions.</p>
+      ) : (
+        <ul
+          style={{
+            listStyle: 'none',
+            padding: 0,
+            margin: `0 0 ${tokens.spacing[4]} 0`,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: tokens.spacing[3],
+          }}
+        >
+          {sessions.map(session => (
+            <li
+              key={session.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: tokens.spacing[3],
+                paddingBottom: tokens.spacing[3],
+                borderBottom: `1px solid ${tokens.colors.neutral[200]}`,
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: tokens.typography.fontWeight.medium }}>
+                  {session.deviceName}
+                  {session.current && (
+                    <span style={{ ...mutedStyle, marginLeft: tokens.spacing[2] }}>
+                      (this device)
+                    </span>
+                  )}
+                </div>
+                <div style={mutedStyle}>
+                  {session.loginMethod === 'wallet' ? 'Wallet' : 'Email'} sign-in
+                  {session.ipAddress && ` from ${session.ipAddress}`} · last active{' '}
+                  {session.lastActiveAt.toLocaleString()}
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  loading={busyId === session.id}
+                  disabled={busyId !== null}
+                  onClick={() => handleRevoke(session)}
+                >
+                  Sign out
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {otherSessions.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          loading={busyId === 'others'}
+          disabled={busyId !== null}
+          onClick={handleRevokeOthers}
+        >
+          Sign out everywhere else
+        </Button>
+      )}
+    </section>
+  );
+};
+
+export default SessionsPanel;
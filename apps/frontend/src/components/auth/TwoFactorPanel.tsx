@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { TwoFactorSetup, TwoFactorStatus } from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { tokens } from '../../design-system/tokens';
+import { twoFactorService } from '../../services/twoFactorService';
+
+/**
+ * Lets users turn on TOTP two-factor authentication by scanning a QR code,
+ * shows their recovery codes once, and lets them replace the codes or turn
+ * 2FA off again. Admin accounts cannot turn it off.
+ */
+export const TwoFactorPanel: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = () =>
+    twoFactorService
+      .getStatus()
+      .then(setStatus)
+      .catch(() => setError('Could not load your two-factor settings'));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    twoFactorService
+      .getStatus()
+      .then(result => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your two-factor settings');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || fallback;
+
+  // Runs an action that needs a code, clearing the code field afterwards
+  const withCode = async (action: () => Promise<void>, fallback: string) => {
+    if (!code.trim()) {
+      setError('Enter a code from your authenticator app');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      setCode('');
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBeginSetup = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      setSetup(await twoFactorService.beginSetup());
+      setCode('');
+    } catch (err) {
+      setError(errorMessage(err, 'Could not start two-factor setup'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return withCode(async () => {
+      setRecoveryCodes(await twoFactorService.enable(code.trim()));
+      setSetup(null);
+      await loadStatus();
+    }, 'Could not enable two-factor authentication');
+  };
+
+  const handleRegenerate = () =>
+    withCode(async () => {
+      setRecoveryCodes(await twoFactorService.regenerateRecoveryCodes(code.trim()));
+      await loadStatus();
+    }, 'Could not replace your recovery codes');
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication for your account?')) {
+      return;
+    }
+    return withCode(async () => {
+      await twoFactorService.disable(code.trim());
+      setRecoveryCodes(null);
+      await loadStatus();
+    }, 'Could not disable two-factor authentication');
+  };
+
+  const mutedStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  const codeInput = (
+    <Input
+      label="Authentication code"
+      value={code}
+      onChange={e => setCode(e.target.value)}
+      placeholder="123456"
+      autoComplete="one-time-code"
+    />
+  );
+
+  return (
+    <section aria-label="Two-factor authentication">
+      {error && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `0 0 ${tokens.spacing[3]} 0`,
+          }}
+        >
+          {error}
+        </p>
+      )}
+
+      {recoveryCodes && (
+        <div
+          role="status"
+          style={{
+            padding: tokens.spacing[3],
+            marginBottom: tokens.spacing[4],
+            borderRadius: tokens.borderRadius.md,
+            backgroundColor: tokens.colors.success[50],
+            border: `1px solid ${tokens.colors.success[200]}`,
+          }}
+        >
+          <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[2]} 0` }}>
+            Save these recovery codes somewhere safe. Each one can be used once
+            to sign in if you lose your authenticator. You won't be able to see
+            them again.
+          </p>
+          <ul
+            style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(2, minmax(0, 1fr))',
+              gap: tokens.spacing[1],
+              listStyle: 'none',
+              padding: 0,
+              margin: `0 0 ${tokens.spacing[2]} 0`,
+              fontFamily: 'JetBrains Mono, monospace',
+            }}
+          >
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+            I've saved them
+          </Button>
+        </div>
+      )}
+
+      {!status ? (
+        <p style={mutedStyle}>Loading two-factor settings...</p>
+      ) : setup ? (
+        <form
+          onSubmit={handleEnable}
+          style={{ display: 'flex', flexDirection: 'column', gap: tokens.spacing[3] }}
+        >
+          <p style={{ ...mutedStyle, margin: 0 }}>
+            Scan this QR code with an authenticator app, then enter the code it
+            shows to finish.
+          </p>
+          <img
+            src={setup.qrCodeDataUrl}
+            alt="QR code for your authenticator app"
+            width={180}
+            height={180}
+          />
+          <p style={{ ...mutedStyle, margin: 0 }}>
+            Can't scan it? Enter this key instead:{' '}
+            <code style={{ fontFamily: 'JetBrains Mono, monospace', wordBreak: 'break-all' }}>
+              {setup.secret}
+            </code>
+          </p>
+          {codeInput}
+          <div style={{ display: 'flex', gap: tokens.spacing[2] }}>
+            <Button type="submit" size="sm" loading={saving}>
+              Enable
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : status.enabled ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: tokens.spacing[3] }}>
+          <p style={{ ...mutedStyle, margin: 0 }}>
+            Two-factor authentication is on
+            {status.enabledAt && ` since ${status.enabledAt.toLocaleDateString()}`}.{' '}
+            {status.recoveryCodesRemaining} recovery codes left.
+          </p>
+          {codeInput}
+          <div style={{ display: 'flex', gap: tokens.spacing[2] }}>
+            <Button variant="outline" size="sm" loading={saving} onClick={handleRegenerate}>
+              New recovery codes
+            </Button>
+            {!status.requiredForRole && (
+              <Button variant="ghost" size="sm" disabled={saving} onClick={handleDisable}>
+                Turn off
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <p style={{ ...mutedStyle, margin: 0 }}>
+            {status.requiredForRole
+              ? 'Admin accounts must use two-factor authentication to reach admin tools.'
+              : 'Add a code from an authenticator app to your sign-in and to sensitive actions.'}
+          </p>
+          <Button variant="outline" size="sm" loading={saving} onClick={handleBeginSetup}>
+            Set up
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TwoFactorPanel;
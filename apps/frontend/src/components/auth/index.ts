@@ -9,3 +9,6 @@ export { PasswordResetRequest } from './PasswordResetRequest';
 export { PasswordStrengthValidator } from './PasswordStrengthValidator';
 export { AuthErrorDisplay, AuthSuccessDisplay } from './AuthErrorDisplay';
 export { AuthLoadingState, AuthButtonLoading, AuthStepIndicator } from './AuthLoadingState';
+export { ApiKeysPanel } from './ApiKeysPanel';
+export { TwoFactorPanel } from './TwoFactorPanel';
+export { SessionsPanel } from './SessionsPanel';
@@ -5,6 +5,7 @@ import { tokens } from '@/design-system/tokens';
 import { Booking } from '@booking-swap/shared';
 import { CompletionStatusIndicator } from '../swap/CompletionStatusIndicator';
 import { CompletionDetailsModal } from '../swap/CompletionDetailsModal';
+import { BookingVerificationPanel } from './BookingVerificationPanel';
 import { CompletionAPI, CompletionStatus } from '@/services/completionAPI';
 
 export interface BookingDetailsModalProps {
@@ -657,6 +658,9 @@ export const BookingDetailsModal: React.FC<BookingDetailsModalProps> = ({
             </div>
           )}
 
+          {/* Verification */}
+          {variant === 'own' && <BookingVerificationPanel booking={booking} />}
+
           {/* Actions */}
           <div style={actionsStyles}>
             <Button variant="outline" onClick={onClose}>
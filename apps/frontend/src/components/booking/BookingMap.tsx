@@ -0,0 +1,391 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { MapCluster, MAX_MAP_ZOOM, MIN_MAP_ZOOM } from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { tokens } from '../../design-system/tokens';
+import { bookingService, BookingMapFilters } from '../../services/bookingService';
+import { swapApiService } from '../../services/swapApiService';
+import { FinancialDataHandler } from '../../utils/financialDataHandler';
+import {
+  clampZoom,
+  getViewportBounds,
+  getZoomForBounds,
+  MapCenter,
+  project,
+  TILE_SIZE,
+  unproject,
+  worldSize,
+  wrapLongitude,
+} from '../../utils/mapProjection';
+
+interface BookingMapProps {
+  // The same filters as the list view, from IntegratedFilterPanel. Memoize them:
+  // the map loads its clusters again whenever the object changes.
+  filters: BookingMapFilters;
+  // One of the user's own swaps; bookings on the map show how well they match it
+  compatibilitySwapId?: string;
+  onSelectBooking?: (booking: NonNullable<MapCluster['booking']>) => void;
+  height?: number;
+}
+
+const TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+const INITIAL_CENTER: MapCenter = { lat: 30, lng: 0 };
+const INITIAL_ZOOM = 2;
+
+// Wait for panning to settle before asking for clusters
+const FETCH_DELAY_MS = 300;
+
+// Compatibility is scored per booking, so only the first few markers get a score
+const MAX_COMPATIBILITY_LOOKUPS = 20;
+
+const scoreColor = (score: number): string => {
+  if (score >= 70) return tokens.colors.success[600];
+  if (score >= 40) return tokens.colors.warning[600];
+  return tokens.colors.neutral[500];
+};
+
+export const BookingMap: React.FC<BookingMapProps> = ({
+  filters,
+  compatibilitySwapId,
+  onSelectBooking,
+  height = 480,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const requestRef = useRef(0);
+
+  const [width, setWidth] = useState(0);
+  const [center, setCenter] = useState<MapCenter>(INITIAL_CENTER);
+  const [zoom, setZoom] = useState(INITIAL_ZOOM);
+  const [clusters, setClusters] = useState<MapCluster[]>([]);
+  const [total, setTotal] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Keyed by `${compatibilitySwapId}:${swapId}`, so switching swaps keeps earlier scores;
+  // null marks a lookup that failed, which is not tried again
+  const [scores, setScores] = useState<Record<string, number | null>>({});
+
+  useEffect(() => {
+    const measure = () => setWidth(containerRef.current?.clientWidth || 0);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  useEffect(() => {
+    if (!width) return;
+
+    const requestId = ++requestRef.current;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const map = await bookingService.getMapClusters(
+          getViewportBounds(center, zoom, width, height),
+          zoom,
+          filters
+        );
+        // A slower response for an earlier viewport must not replace a newer one
+        if (requestId !== requestRef.current) return;
+        setClusters(map.clusters);
+        setTotal(map.total);
+        setTruncated(map.truncated);
+        setError(null);
+      } catch (err) {
+        if (requestId !== requestRef.current) return;
+        setError(err instanceof Error ? err.message : 'Failed to load the map');
+      } finally {
+        if (requestId === requestRef.current) setLoading(false);
+      }
+    }, FETCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [center, zoom, width, height, filters]);
+
+  // Swaps on the map that still need a score; empty once every lookup has an answer
+  const unscoredSwapIds = useMemo(() => {
+    if (!compatibilitySwapId) return [];
+    return clusters
+      .map(cluster => cluster.booking?.swapId)
+      .filter((swapId): swapId is string => !!swapId)
+      .slice(0, MAX_COMPATIBILITY_LOOKUPS)
+      .filter(swapId => !(`${compatibilitySwapId}:${swapId}` in scores));
+  }, [clusters, compatibilitySwapId, scores]);
+
+  useEffect(() => {
+    if (!compatibilitySwapId || unscoredSwapIds.length === 0) return;
+
+    let cancelled = false;
+    Promise.allSettled(
+      unscoredSwapIds.map(swapId => swapApiService.getSwapCompatibility(compatibilitySwapId, swapId))
+    ).then(results => {
+      if (cancelled) return;
+      const looked = unscoredSwapIds.map((swapId, index) => {
+        const result = results[index]!;
+        return [
+          `${compatibilitySwapId}:${swapId}`,
+          result.status === 'fulfilled' ? result.value.overallScore : null,
+        ] as const;
+      });
+      setScores(previous => ({ ...previous, ...Object.fromEntries(looked) }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [unscoredSwapIds, compatibilitySwapId]);
+
+  const changeZoom = useCallback((next: number) => setZoom(clampZoom(next)), []);
+
+  const zoomToCluster = (cluster: MapCluster) => {
+    const fitted = getZoomForBounds(cluster.bounds, width * 0.8, height * 0.8);
+    setCenter({ lat: cluster.coordinates[0], lng: cluster.coordinates[1] });
+    // Bookings in the same place never separate, so zoom in a few steps instead
+    changeZoom(Math.max(fitted, zoom + 2));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest('button')) return;
+    const point = project(center.lat, center.lng, zoom);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: point.x, y: point.y };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const next = unproject(
+      {
+        x: drag.x - (event.clientX - drag.pointerX),
+        y: Math.max(0, Math.min(worldSize(zoom), drag.y - (event.clientY - drag.pointerY))),
+      },
+      zoom
+    );
+    setCenter({ lat: next.lat, lng: wrapLongitude(next.lng) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // World pixel at the top-left corner of the viewport
+  const middle = project(center.lat, center.lng, zoom);
+  const left = middle.x - width / 2;
+  const top = middle.y - height / 2;
+  const size = worldSize(zoom);
+  const tileCount = Math.pow(2, zoom);
+
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  for (let tileX = Math.floor(left / TILE_SIZE); tileX * TILE_SIZE < left + width; tileX++) {
+    for (let tileY = Math.max(0, Math.floor(top / TILE_SIZE)); tileY * TILE_SIZE < top + height && tileY < tileCount; tileY++) {
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${zoom}/${tileX}/${tileY}`,
+        url: TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(tileY)),
+        x: tileX * TILE_SIZE - left,
+        y: tileY * TILE_SIZE - top,
+      });
+    }
+  }
+
+  // Places a point on the copy of the world nearest the viewport
+  const toScreen = (lat: number, lng: number) => {
+    const point = project(lat, lng, zoom);
+    let x = point.x - left;
+    while (x < -size / 2 + width / 2) x += size;
+    while (x > size / 2 + width / 2) x -= size;
+    return { x, y: point.y - top };
+  };
+
+  const markerStyles = {
+    position: 'absolute' as const,
+    transform: 'translate(-50%, -50%)',
+    border: '2px solid white',
+    boxShadow: tokens.shadows.md,
+    cursor: 'pointer',
+    fontWeight: tokens.typography.fontWeight.semibold,
+    whiteSpace: 'nowrap' as const,
+  };
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        data-testid="booking-map"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        style={{
+          position: 'relative',
+          height: `${height}px`,
+          overflow: 'hidden',
+          borderRadius: tokens.borderRadius.lg,
+          border: `1px solid ${tokens.colors.neutral[200]}`,
+          backgroundColor: tokens.colors.neutral[100],
+          cursor: 'grab',
+          touchAction: 'none',
+          userSelect: 'none',
+        }}
+      >
+        {tiles.map(tile => (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            style={{
+              position: 'absolute',
+              left: `${tile.x}px`,
+              top: `${tile.y}px`,
+              width: `${TILE_SIZE}px`,
+              height: `${TILE_SIZE}px`,
+            }}
+          />
+        ))}
+
+        {clusters.map(cluster => {
+          const { x, y } = toScreen(cluster.coordinates[0], cluster.coordinates[1]);
+          if (x < -40 || x > width + 40 || y < -40 || y > height + 40) return null;
+
+          if (cluster.booking) {
+            const booking = cluster.booking;
+            const score = booking.swapId && compatibilitySwapId
+              ? scores[`${compatibilitySwapId}:${booking.swapId}`]
+              : undefined;
+            return (
+              <button
+                key={cluster.id}
+                type="button"
+                onClick={() => onSelectBooking?.(booking)}
+                title={`${booking.title} · ${booking.city}, ${booking.country}`}
+                aria-label={`${booking.title}, ${booking.city}`}
+                style={{
+                  ...markerStyles,
+                  left: `${x}px`,
+                  top: `${y}px`,
+                  padding: `${tokens.spacing[1]} ${tokens.spacing[2]}`,
+                  borderRadius: tokens.borderRadius.full,
+                  backgroundColor: tokens.colors.primary[600],
+                  color: 'white',
+                  fontSize: tokens.typography.fontSize.xs,
+                }}
+              >
+                {FinancialDataHandler.formatCurrency(booking.swapValue, 'USD')}
+                {typeof score === 'number' && (
+                  <span
+                    style={{
+                      marginLeft: tokens.spacing[1],
+                      padding: `0 ${tokens.spacing[1]}`,
+                      borderRadius: tokens.borderRadius.full,
+                      backgroundColor: 'white',
+                      color: scoreColor(score),
+                    }}
+                  >
+                    {Math.round(score)}% match
+                  </span>
+                )}
+              </button>
+            );
+          }
+
+          const diameter = Math.min(64, 28 + Math.log2(cluster.count) * 6);
+          return (
+            <button
+              key={cluster.id}
+              type="button"
+              onClick={() => zoomToCluster(cluster)}
+              title={`${cluster.count} bookings, ${FinancialDataHandler.formatCurrency(cluster.minSwapValue, 'USD')} – ${FinancialDataHandler.formatCurrency(cluster.maxSwapValue, 'USD')}`}
+              aria-label={`${cluster.count} bookings, zoom in`}
+              style={{
+                ...markerStyles,
+                left: `${x}px`,
+                top: `${y}px`,
+                width: `${diameter}px`,
+                height: `${diameter}px`,
+                borderRadius: '50%',
+                backgroundColor: tokens.colors.secondary[600],
+                color: 'white',
+                fontSize: tokens.typography.fontSize.sm,
+              }}
+            >
+              {cluster.count}
+            </button>
+          );
+        })}
+
+        <div
+          style={{
+            position: 'absolute',
+            top: tokens.spacing[3],
+            right: tokens.spacing[3],
+            display: 'flex',
+            flexDirection: 'column',
+            gap: tokens.spacing[1],
+          }}
+        >
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => changeZoom(zoom + 1)}
+            disabled={zoom >= MAX_MAP_ZOOM}
+            aria-label="Zoom in"
+            style={{ backgroundColor: 'white' }}
+          >
+            +
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => changeZoom(zoom - 1)}
+            disabled={zoom <= MIN_MAP_ZOOM}
+            aria-label="Zoom out"
+            style={{ backgroundColor: 'white' }}
+          >
+            −
+          </Button>
+        </div>
+
+        <div
+          style={{
+            position: 'absolute',
+            right: 0,
+            bottom: 0,
+            padding: `0 ${tokens.spacing[1]}`,
+            backgroundColor: 'rgba(255, 255, 255, 0.8)',
+            fontSize: tokens.typography.fontSize.xs,
+            color: tokens.colors.neutral[700],
+          }}
+        >
+          ©{' '}
+          <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer">
+            OpenStreetMap
+          </a>{' '}
+          contributors
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          marginTop: tokens.spacing[2],
+          fontSize: tokens.typography.fontSize.sm,
+          color: error ? tokens.colors.error[700] : tokens.colors.neutral[600],
+        }}
+      >
+        <span>
+          {error
+            ? error
+            : loading
+              ? 'Loading map…'
+              : `${total} booking${total !== 1 ? 's' : ''} in this area${truncated ? ' (zoom in to see all)' : ''}`}
+        </span>
+        <span>Bookings without a known location are only shown in the list</span>
+      </div>
+    </div>
+  );
+};
+
+export default BookingMap;
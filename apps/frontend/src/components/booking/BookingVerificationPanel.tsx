@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { tokens } from '@/design-system/tokens';
+import {
+  BOOKING_DOCUMENT_CONTENT_TYPES,
+  Booking,
+  MAX_BOOKING_DOCUMENTS,
+} from '@booking-swap/shared';
+import {
+  BookingVerificationState,
+  bookingVerificationService,
+} from '@/services/bookingVerificationService';
+
+export interface BookingVerificationPanelProps {
+  booking: Booking;
+  onVerified?: (booking: Booking) => void;
+}
+
+const STATUS_TEXT = {
+  verified: {
+    icon: '✓',
+    title: 'Verified booking',
+    description: 'You can auction this booking or accept cash for it.',
+  },
+  pending: {
+    icon: '⏳',
+    title: 'Not verified yet',
+    description:
+      'Upload your booking confirmation to auction it or accept cash offers.',
+  },
+  failed: {
+    icon: '✕',
+    title: 'Verification failed',
+    description:
+      'Check the listing matches your confirmation, then upload it and try again.',
+  },
+};
+
+/**
+ * Lets the owner upload confirmation documents and request verification.
+ * Only verified bookings can be auctioned or offered for cash.
+ */
+export const BookingVerificationPanel: React.FC<BookingVerificationPanelProps> = ({
+  booking,
+  onVerified,
+}) => {
+  const [state, setState] = useState<BookingVerificationState | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    bookingVerificationService
+      .getVerification(booking.id)
+      .then(result => {
+        if (!cancelled) setState(result);
+      })
+      .catch(err => {
+        console.error('Failed to load booking verification:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id]);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || fallback;
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const document = await bookingVerificationService.uploadDocument(booking.id, file);
+      setState(current =>
+        current ? { ...current, documents: [...current.documents, document] } : current
+      );
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to upload document'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { booking: updated, verification } =
+        await bookingVerificationService.requestVerification(booking.id);
+      setState(current =>
+        current
+          ? { ...current, status: updated.verification.status, latestAttempt: verification }
+          : current
+      );
+      if (verification.status === 'verified') {
+        onVerified?.(updated);
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to verify booking'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!state) return null;
+
+  const inReview = state.latestAttempt?.status === 'needs_review';
+  const text = STATUS_TEXT[state.status];
+  const canUpload =
+    state.status !== 'verified' && state.documents.length < MAX_BOOKING_DOCUMENTS;
+
+  return (
+    <div
+      style={{
+        marginBottom: tokens.spacing[6],
+        padding: tokens.spacing[4],
+        backgroundColor:
+          state.status === 'verified' ? tokens.colors.success[50] : tokens.colors.neutral[50],
+        border: `1px solid ${
+          state.status === 'verified' ? tokens.colors.success[200] : tokens.colors.neutral[200]
+        }`,
+        borderRadius: tokens.borderRadius.md,
+      }}
+    >
+      <div
+        style={{
+          fontWeight: tokens.typography.fontWeight.medium,
+          color: tokens.colors.neutral[900],
+        }}
+      >
+        {text.icon} {inReview ? 'Verification in review' : text.title}
+      </div>
+      <div
+        style={{
+          fontSize: tokens.typography.fontSize.sm,
+          color: tokens.colors.neutral[600],
+          marginTop: tokens.spacing[1],
+        }}
+      >
+        {inReview
+          ? 'Our team is checking your confirmation and will let you know the outcome.'
+          : text.description}
+      </div>
+
+      {state.latestAttempt?.reviewNotes && (
+        <div
+          style={{
+            fontSize: tokens.typography.fontSize.sm,
+            color: tokens.colors.neutral[700],
+            marginTop: tokens.spacing[2],
+          }}
+        >
+          Reviewer notes: {state.latestAttempt.reviewNotes}
+        </div>
+      )}
+
+      {state.documents.length > 0 && (
+        <ul
+          style={{
+            fontSize: tokens.typography.fontSize.sm,
+            color: tokens.colors.neutral[700],
+            marginTop: tokens.spacing[3],
+            paddingLeft: tokens.spacing[4],
+          }}
+        >
+          {state.documents.map(document => (
+            <li key={document.id}>📄 {document.fileName}</li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div
+          style={{
+            fontSize: tokens.typography.fontSize.sm,
+            color: tokens.colors.error[600],
+            marginTop: tokens.spacing[2],
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {state.status !== 'verified' && !inReview && (
+        <div
+          style={{
+            display: 'flex',
+            gap: tokens.spacing[2],
+            marginTop: tokens.spacing[3],
+          }}
+        >
+          <input
+            ref={fileInput}
+            type="file"
+            accept={BOOKING_DOCUMENT_CONTENT_TYPES.join(',')}
+            onChange={handleUpload}
+            style={{ display: 'none' }}
+          />
+          {canUpload && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isBusy}
+              onClick={() => fileInput.current?.click()}
+            >
+              Upload Confirmation
+            </Button>
+          )}
+          <Button size="sm" loading={isBusy} onClick={handleVerify}>
+            Verify Booking
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { DateFlexibility, DateWindow } from '@booking-swap/shared';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { tokens } from '@/design-system/tokens';
+
+interface DateFlexibilityInputProps {
+  value?: DateFlexibility;
+  onChange: (flexibility: DateFlexibility | undefined) => void;
+  errors?: Record<string, string>;
+}
+
+const MAX_DATE_WINDOWS = 5;
+
+const toDateInputValue = (date: Date | string): string =>
+  new Date(date).toISOString().slice(0, 10);
+
+const parseWholeNumber = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+// Drop empty fields so bookings without flexibility keep plain preferences
+const compact = (flexibility: DateFlexibility): DateFlexibility | undefined => {
+  const result: DateFlexibility = {};
+  if (flexibility.shiftDays !== undefined) result.shiftDays = flexibility.shiftDays;
+  if (flexibility.windows && flexibility.windows.length > 0) result.windows = flexibility.windows;
+  if (flexibility.minNights !== undefined) result.minNights = flexibility.minNights;
+  if (flexibility.maxNights !== undefined) result.maxNights = flexibility.maxNights;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+export const DateFlexibilityInput: React.FC<DateFlexibilityInputProps> = ({
+  value,
+  onChange,
+  errors = {},
+}) => {
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+
+  const current = value || {};
+  const windows = current.windows || [];
+
+  const update = (updates: Partial<DateFlexibility>) => {
+    onChange(compact({ ...current, ...updates }));
+  };
+
+  const canAddWindow =
+    windowStart !== '' &&
+    windowEnd !== '' &&
+    windowEnd > windowStart &&
+    windows.length < MAX_DATE_WINDOWS;
+
+  const addWindow = () => {
+    if (!canAddWindow) return;
+    const window: DateWindow = {
+      start: new Date(windowStart),
+      end: new Date(windowEnd),
+    };
+    update({ windows: [...windows, window] });
+    setWindowStart('');
+    setWindowEnd('');
+  };
+
+  const removeWindow = (index: number) => {
+    update({ windows: windows.filter((_, i) => i !== index) });
+  };
+
+  const containerStyles = {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing[3],
+  };
+
+  const labelStyles = {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: tokens.typography.fontWeight.medium,
+    color: tokens.colors.neutral[700],
+    marginBottom: tokens.spacing[2],
+  };
+
+  const helpStyles = {
+    fontSize: tokens.typography.fontSize.xs,
+    color: tokens.colors.neutral[600],
+  };
+
+  const rowStyles = {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(3, 1fr)',
+    gap: tokens.spacing[3],
+  };
+
+  const windowInputStyles = {
+    display: 'flex',
+    gap: tokens.spacing[2],
+    alignItems: 'flex-end',
+  };
+
+  const windowItemStyles = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: tokens.spacing[3],
+    backgroundColor: tokens.colors.neutral[100],
+    borderRadius: tokens.borderRadius.md,
+    border: `1px solid ${tokens.colors.neutral[200]}`,
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[800],
+  };
+
+  const removeButtonStyles = {
+    background: 'none',
+    border: 'none',
+    color: tokens.colors.error[600],
+    cursor: 'pointer',
+    padding: tokens.spacing[1],
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: tokens.typography.fontWeight.medium,
+  };
+
+  const errorStyles = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.error[600],
+  };
+
+  const windowsError =
+    errors['dateFlexibility.windows'] ||
+    Object.entries(errors).find(([key]) =>
+      key.startsWith('dateFlexibility.windows.')
+    )?.[1];
+
+  return (
+    <div style={containerStyles} role="group" aria-labelledby="date-flexibility-label">
+      <div>
+        <div id="date-flexibility-label" style={labelStyles}>
+          Date Flexibility (Optional)
+        </div>
+        <div style={helpStyles}>
+          Tell others which stays suit you, e.g. your own dates ±3 days or
+          any 5 nights in July.
+        </div>
+      </div>
+
+      <div style={rowStyles}>
+        <Input
+          label="Shift my dates by up to (days)"
+          type="number"
+          min={0}
+          max={30}
+          value={current.shiftDays ?? ''}
+          onChange={e => update({ shiftDays: parseWholeNumber(e.target.value) })}
+          error={errors['dateFlexibility.shiftDays']}
+        />
+        <Input
+          label="Minimum nights"
+          type="number"
+          min={1}
+          value={current.minNights ?? ''}
+          onChange={e => update({ minNights: parseWholeNumber(e.target.value) })}
+          error={errors['dateFlexibility.minNights']}
+        />
+        <Input
+          label="Maximum nights"
+          type="number"
+          min={1}
+          value={current.maxNights ?? ''}
+          onChange={e => update({ maxNights: parseWholeNumber(e.target.value) })}
+          error={errors['dateFlexibility.maxNights']}
+        />
+      </div>
+
+      <div style={windowInputStyles}>
+        <div style={{ flex: 1 }}>
+          <Input
+            label="Available from"
+            type="date"
+            value={windowStart}
+            onChange={e => setWindowStart(e.target.value)}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <Input
+            label="Available until"
+            type="date"
+            value={windowEnd}
+            min={windowStart || undefined}
+            onChange={e => setWindowEnd(e.target.value)}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addWindow}
+          disabled={!canAddWindow}
+        >
+          Add window
+        </Button>
+      </div>
+
+      {windows.length > 0 && (
+        <div style={containerStyles}>
+          {windows.map((window, index) => (
+            <div key={index} style={windowItemStyles}>
+              <span>
+                {toDateInputValue(window.start)} – {toDateInputValue(window.end)}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeWindow(index)}
+                style={removeButtonStyles}
+                title="Remove date window"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {windowsError && (
+        <div style={errorStyles} role="alert">
+          {windowsError}
+        </div>
+      )}
+    </div>
+  );
+};
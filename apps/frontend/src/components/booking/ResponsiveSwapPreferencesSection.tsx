@@ -7,6 +7,7 @@ import { CashAmountInput } from './CashAmountInput';
 import { AcceptanceStrategySelector } from './AcceptanceStrategySelector';
 import { AuctionEndDatePicker } from './AuctionEndDatePicker';
 import { SwapConditionsInput } from './SwapConditionsInput';
+import { DateFlexibilityInput } from './DateFlexibilityInput';
 
 // Fix for white color token
 const whiteColor = '#ffffff';
@@ -532,6 +533,12 @@ export const ResponsiveSwapPreferencesSection: React.FC<ResponsiveSwapPreference
               </div>
             )}
 
+            <DateFlexibilityInput
+              value={currentPreferences.dateFlexibility}
+              onChange={(flexibility) => updatePreferences({ dateFlexibility: flexibility })}
+              errors={errors}
+            />
+
             <SwapConditionsInput
               value={currentPreferences.swapConditions}
               onChange={(conditions) => updatePreferences({ swapConditions: conditions })}
@@ -676,6 +683,12 @@ export const ResponsiveSwapPreferencesSection: React.FC<ResponsiveSwapPreference
             />
           )}
 
+          <DateFlexibilityInput
+            value={currentPreferences.dateFlexibility}
+            onChange={(flexibility) => updatePreferences({ dateFlexibility: flexibility })}
+            errors={errors}
+          />
+
           <SwapConditionsInput
             value={currentPreferences.swapConditions}
             onChange={(conditions) => updatePreferences({ swapConditions: conditions })}
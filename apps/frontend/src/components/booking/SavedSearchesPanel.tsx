@@ -0,0 +1,499 @@
+import React, { useEffect, useState } from 'react';
+import {
+  NotificationChannel,
+  SavedSearch,
+  SavedSearchAlertFrequency,
+  SavedSearchFilters,
+  getEnabledBookingTypeConfigs,
+} from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { tokens } from '../../design-system/tokens';
+import { savedSearchService } from '../../services/savedSearchService';
+
+interface SavedSearchesPanelProps {
+  // Current browse search text, prefilled into new searches
+  query?: string;
+  // Load a saved search's text back into the browse search box
+  onApply?: (search: SavedSearch) => void;
+}
+
+interface SavedSearchFormData {
+  name: string;
+  query: string;
+  city: string;
+  country: string;
+  radius: string;
+  coordinates?: [number, number];
+  checkIn: string;
+  checkOut: string;
+  flexible: boolean;
+  minPrice: string;
+  maxPrice: string;
+  types: string[];
+  alertFrequency: SavedSearchAlertFrequency;
+  channels: NotificationChannel[];
+}
+
+const FREQUENCY_LABELS: Record<SavedSearchAlertFrequency, string> = {
+  instant: 'Instant alerts',
+  daily: 'Daily digest',
+  off: 'No alerts',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  push: 'Push',
+  sms: 'SMS',
+  in_app: 'In-app',
+};
+
+const emptyForm = (query = ''): SavedSearchFormData => ({
+  name: '',
+  query,
+  city: '',
+  country: '',
+  radius: '',
+  checkIn: '',
+  checkOut: '',
+  flexible: false,
+  minPrice: '',
+  maxPrice: '',
+  types: [],
+  alertFrequency: 'daily',
+  channels: ['email', 'in_app'],
+});
+
+const toFilters = (form: SavedSearchFormData): SavedSearchFilters => {
+  const filters: SavedSearchFilters = {};
+
+  if (form.query.trim()) filters.query = form.query.trim();
+
+  if (form.city.trim() || form.country.trim() || form.coordinates) {
+    filters.location = {
+      city: form.city.trim() || undefined,
+      country: form.country.trim() || undefined,
+      coordinates: form.coordinates,
+      radius: form.coordinates && form.radius ? parseFloat(form.radius) : undefined,
+    };
+  }
+
+  if (form.checkIn || form.checkOut) {
+    filters.dateRange = {
+      checkIn: form.checkIn ? new Date(form.checkIn) : undefined,
+      checkOut: form.checkOut ? new Date(form.checkOut) : undefined,
+      flexible: form.flexible,
+    };
+  }
+
+  if (form.minPrice || form.maxPrice) {
+    filters.priceRange = {
+      min: form.minPrice ? parseFloat(form.minPrice) : undefined,
+      max: form.maxPrice ? parseFloat(form.maxPrice) : undefined,
+    };
+  }
+
+  if (form.types.length > 0) filters.types = form.types as SavedSearchFilters['types'];
+
+  return filters;
+};
+
+const describeFilters = (filters: SavedSearchFilters): string => {
+  const parts: string[] = [];
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.location?.radius) {
+    parts.push(`within ${filters.location.radius} km`);
+  } else if (filters.location?.city || filters.location?.country) {
+    parts.push([filters.location.city, filters.location.country].filter(Boolean).join(', '));
+  }
+  if (filters.dateRange?.checkIn || filters.dateRange?.checkOut) {
+    const from = filters.dateRange.checkIn?.toLocaleDateString() || 'any';
+    const to = filters.dateRange.checkOut?.toLocaleDateString() || 'any';
+    parts.push(`${from} – ${to}${filters.dateRange.flexible ? ' (flexible)' : ''}`);
+  }
+  if (filters.priceRange?.min !== undefined || filters.priceRange?.max !== undefined) {
+    parts.push(`${filters.priceRange.min ?? 0} – ${filters.priceRange.max ?? '∞'}`);
+  }
+  if (filters.types?.length) parts.push(filters.types.join(', '));
+  return parts.join(' · ') || 'All listings';
+};
+
+/**
+ * Lets signed-in users save browse filters and choose how they are alerted
+ * about new listings that match them
+ */
+export const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({
+  query = '',
+  onApply,
+}) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<SavedSearchFormData>(emptyForm(query));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    savedSearchService
+      .listSavedSearches()
+      .then(result => {
+        if (!cancelled) setSearches(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your saved searches');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || fallback;
+
+  const openForm = () => {
+    setForm(emptyForm(query));
+    setError(null);
+    setShowForm(true);
+  };
+
+  const useMyLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Location is not available in this browser');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position =>
+        setForm(prev => ({
+          ...prev,
+          coordinates: [position.coords.latitude, position.coords.longitude],
+          radius: prev.radius || '25',
+        })),
+      () => setError('Could not determine your location')
+    );
+  };
+
+  const toggleValue = <T extends string>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setError('Give your search a name');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const created = await savedSearchService.createSavedSearch({
+        name: form.name.trim(),
+        filters: toFilters(form),
+        alertFrequency: form.alertFrequency,
+        channels: form.channels,
+      });
+      setSearches(prev => [created, ...prev]);
+      setShowForm(false);
+    } catch (err) {
+      setError(errorMessage(err, 'Could not save this search'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFrequencyChange = async (
+    search: SavedSearch,
+    alertFrequency: SavedSearchAlertFrequency
+  ) => {
+    try {
+      const updated = await savedSearchService.updateSavedSearch(search.id, { alertFrequency });
+      setSearches(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      setError(errorMessage(err, 'Could not update alerts'));
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    try {
+      await savedSearchService.deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+    } catch (err) {
+      setError(errorMessage(err, 'Could not delete this search'));
+    }
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[700],
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing[1],
+  };
+
+  const selectStyle: React.CSSProperties = {
+    padding: `${tokens.spacing[1]} ${tokens.spacing[2]}`,
+    border: `1px solid ${tokens.colors.neutral[300]}`,
+    borderRadius: tokens.borderRadius.md,
+    fontSize: tokens.typography.fontSize.sm,
+  };
+
+  return (
+    <section
+      aria-label="Saved searches"
+      style={{
+        border: `1px solid ${tokens.colors.neutral[200]}`,
+        borderRadius: tokens.borderRadius.lg,
+        padding: tokens.spacing[4],
+        marginBottom: tokens.spacing[6],
+        backgroundColor: 'white',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: tokens.spacing[3],
+        }}
+      >
+        <h2
+          style={{
+            fontSize: tokens.typography.fontSize.lg,
+            fontWeight: tokens.typography.fontWeight.semibold,
+            color: tokens.colors.neutral[900],
+            margin: 0,
+          }}
+        >
+          🔎 Saved searches
+        </h2>
+        {!showForm && (
+          <Button variant="outline" size="sm" onClick={openForm}>
+            Save this search
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `0 0 ${tokens.spacing[3]} 0`,
+          }}
+        >
+          {error}
+        </p>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSave}
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+            gap: tokens.spacing[3],
+            marginBottom: tokens.spacing[4],
+          }}
+        >
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Lisbon in June"
+          />
+          <Input
+            label="Keywords"
+            value={form.query}
+            onChange={e => setForm({ ...form, query: e.target.value })}
+          />
+          <Input
+            label="City"
+            value={form.city}
+            onChange={e => setForm({ ...form, city: e.target.value })}
+          />
+          <Input
+            label="Country"
+            value={form.country}
+            onChange={e => setForm({ ...form, country: e.target.value })}
+          />
+          <div>
+            <Input
+              label="Radius (km)"
+              type="number"
+              min={1}
+              max={500}
+              value={form.radius}
+              onChange={e => setForm({ ...form, radius: e.target.value })}
+              helperText={form.coordinates ? 'Around your location' : undefined}
+            />
+            <Button type="button" variant="ghost" size="sm" onClick={useMyLocation}>
+              📍 Use my location
+            </Button>
+          </div>
+          <Input
+            label="Check-in"
+            type="date"
+            value={form.checkIn}
+            onChange={e => setForm({ ...form, checkIn: e.target.value })}
+          />
+          <Input
+            label="Check-out"
+            type="date"
+            value={form.checkOut}
+            onChange={e => setForm({ ...form, checkOut: e.target.value })}
+          />
+          <label style={labelStyle}>
+            <input
+              type="checkbox"
+              checked={form.flexible}
+              onChange={e => setForm({ ...form, flexible: e.target.checked })}
+            />
+            Flexible dates (any overlapping stay)
+          </label>
+          <Input
+            label="Min value"
+            type="number"
+            min={0}
+            value={form.minPrice}
+            onChange={e => setForm({ ...form, minPrice: e.target.value })}
+          />
+          <Input
+            label="Max value"
+            type="number"
+            min={0}
+            value={form.maxPrice}
+            onChange={e => setForm({ ...form, maxPrice: e.target.value })}
+          />
+
+          <fieldset style={{ border: 'none', padding: 0, margin: 0 }}>
+            <legend style={labelStyle}>Types</legend>
+            {Object.values(getEnabledBookingTypeConfigs()).map(config => (
+              <label key={config.value} style={labelStyle}>
+                <input
+                  type="checkbox"
+                  checked={form.types.includes(config.value)}
+                  onChange={() => setForm({ ...form, types: toggleValue(form.types, config.value) })}
+                />
+                {config.icon} {config.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset style={{ border: 'none', padding: 0, margin: 0 }}>
+            <legend style={labelStyle}>Alerts</legend>
+            <select
+              value={form.alertFrequency}
+              onChange={e =>
+                setForm({ ...form, alertFrequency: e.target.value as SavedSearchAlertFrequency })
+              }
+              style={selectStyle}
+            >
+              {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+              <label key={channel} style={labelStyle}>
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes(channel)}
+                  disabled={form.alertFrequency === 'off'}
+                  onChange={() =>
+                    setForm({ ...form, channels: toggleValue(form.channels, channel) })
+                  }
+                />
+                {CHANNEL_LABELS[channel]}
+              </label>
+            ))}
+          </fieldset>
+
+          <div style={{ display: 'flex', gap: tokens.spacing[2], alignItems: 'flex-end' }}>
+            <Button type="submit" size="sm" loading={saving}>
+              Save search
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p style={{ color: tokens.colors.neutral[500], fontSize: tokens.typography.fontSize.sm }}>
+          Loading saved searches...
+        </p>
+      ) : searches.length === 0 ? (
+        <p style={{ color: tokens.colors.neutral[500], fontSize: tokens.typography.fontSize.sm, margin: 0 }}>
+          Save a search to get alerted when new listings match it.
+        </p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+          {searches.map(search => (
+            <li
+              key={search.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: tokens.spacing[3],
+                padding: `${tokens.spacing[2]} 0`,
+                borderTop: `1px solid ${tokens.colors.neutral[100]}`,
+                flexWrap: 'wrap',
+              }}
+            >
+              <div style={{ flex: 1, minWidth: '200px' }}>
+                <div
+                  style={{
+                    fontWeight: tokens.typography.fontWeight.medium,
+                    color: tokens.colors.neutral[900],
+                  }}
+                >
+                  {search.name}
+                </div>
+                <div style={{ fontSize: tokens.typography.fontSize.sm, color: tokens.colors.neutral[600] }}>
+                  {describeFilters(search.filters)}
+                </div>
+              </div>
+              <select
+                aria-label={`Alerts for ${search.name}`}
+                value={search.alertFrequency}
+                onChange={e =>
+                  handleFrequencyChange(search, e.target.value as SavedSearchAlertFrequency)
+                }
+                style={selectStyle}
+              >
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {onApply && (
+                <Button variant="ghost" size="sm" onClick={() => onApply(search)}>
+                  Apply
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={`Delete ${search.name}`}
+                onClick={() => handleDelete(search)}
+              >
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default SavedSearchesPanel;
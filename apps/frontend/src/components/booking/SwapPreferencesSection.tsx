@@ -6,6 +6,7 @@ import { CashAmountInput } from './CashAmountInput';
 import { AcceptanceStrategySelector } from './AcceptanceStrategySelector';
 import { AuctionEndDatePicker } from './AuctionEndDatePicker';
 import { SwapConditionsInput } from './SwapConditionsInput';
+import { DateFlexibilityInput } from './DateFlexibilityInput';
 import { useSwapPreferencesAccessibility, useSwapHighContrast } from '@/hooks/useSwapAccessibility';
 
 interface SwapPreferencesSectionProps {
@@ -114,7 +115,7 @@ export const SwapPreferencesSection: React.FC<SwapPreferencesSectionProps> = ({
       {/* Screen reader description */}
       <div id={`${sectionId}-description`} className="sr-only">
         Enable swap functionality to allow other users to propose exchanges for this booking. 
-        You can configure payment types, acceptance strategy, and additional conditions.
+        You can configure payment types, acceptance strategy, date flexibility, and additional conditions.
       </div>
       
       <div 
@@ -241,6 +242,12 @@ export const SwapPreferencesSection: React.FC<SwapPreferencesSectionProps> = ({
             Set when the auction should end. Must be at least one week before your event date.
           </div>
 
+          <DateFlexibilityInput
+            value={currentPreferences.dateFlexibility}
+            onChange={(flexibility) => updatePreferences({ dateFlexibility: flexibility })}
+            errors={errors}
+          />
+
           <SwapConditionsInput
             value={currentPreferences.swapConditions}
             onChange={(conditions) => updatePreferences({ swapConditions: conditions })}
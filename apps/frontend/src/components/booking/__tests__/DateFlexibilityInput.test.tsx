@@ -0,0 +1,85 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { DateFlexibilityInput } from '../DateFlexibilityInput';
+
+describe('DateFlexibilityInput', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('updates the date shift and stay length', () => {
+    render(
+      <DateFlexibilityInput value={{ minNights: 3 }} onChange={mockOnChange} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Shift my dates by up to (days)'), {
+      target: { value: '3' },
+    });
+    expect(mockOnChange).toHaveBeenLastCalledWith({ shiftDays: 3, minNights: 3 });
+
+    fireEvent.change(screen.getByLabelText('Minimum nights'), {
+      target: { value: '' },
+    });
+    expect(mockOnChange).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it('adds and removes date windows', () => {
+    const { rerender } = render(
+      <DateFlexibilityInput onChange={mockOnChange} />
+    );
+
+    const addButton = screen.getByRole('button', { name: 'Add window' });
+    fireEvent.change(screen.getByLabelText('Available from'), {
+      target: { value: '2025-07-31' },
+    });
+    fireEvent.change(screen.getByLabelText('Available until'), {
+      target: { value: '2025-07-01' },
+    });
+    expect(addButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Available from'), {
+      target: { value: '2025-07-01' },
+    });
+    fireEvent.change(screen.getByLabelText('Available until'), {
+      target: { value: '2025-07-31' },
+    });
+    fireEvent.click(addButton);
+
+    const window = { start: new Date('2025-07-01'), end: new Date('2025-07-31') };
+    expect(mockOnChange).toHaveBeenLastCalledWith({ windows: [window] });
+
+    rerender(
+      <DateFlexibilityInput
+        value={{ windows: [window], minNights: 5 }}
+        onChange={mockOnChange}
+      />
+    );
+    expect(screen.getByText('2025-07-01 – 2025-07-31')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Remove'));
+    expect(mockOnChange).toHaveBeenLastCalledWith({ minNights: 5 });
+  });
+
+  it('shows validation errors', () => {
+    render(
+      <DateFlexibilityInput
+        value={{ minNights: 7, maxNights: 5 }}
+        onChange={mockOnChange}
+        errors={{
+          'dateFlexibility.maxNights': 'Maximum nights must be at least the minimum',
+          'dateFlexibility.windows.0.end': 'Date window must end after it starts',
+        }}
+      />
+    );
+
+    expect(
+      screen.getByText('Maximum nights must be at least the minimum')
+    ).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Date window must end after it starts'
+    );
+  });
+});
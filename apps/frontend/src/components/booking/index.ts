@@ -9,6 +9,7 @@ export { CashAmountInput } from './CashAmountInput';
 export { AcceptanceStrategySelector } from './AcceptanceStrategySelector';
 export { AuctionEndDatePicker } from './AuctionEndDatePicker';
 export { SwapConditionsInput } from './SwapConditionsInput';
+export { DateFlexibilityInput } from './DateFlexibilityInput';
 export { SwapStatusSection } from './SwapStatusSection';
 export { FilterPanel } from './FilterPanel';
 // Note: IntegratedFilterPanel removed - replaced with MyBookingsFilterBar for simplified filtering
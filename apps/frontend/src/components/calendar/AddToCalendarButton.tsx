@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/Button';
+import { calendarService } from '../../services/calendarService';
+
+interface AddToCalendarButtonProps {
+  swapId: string;
+}
+
+/**
+ * Downloads the stay and deadlines of a swap as an .ics file
+ */
+export const AddToCalendarButton: React.FC<AddToCalendarButtonProps> = ({ swapId }) => {
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    setLoading(true);
+    try {
+      const blob = await calendarService.downloadSwapCalendar(swapId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `swap-${swapId}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading calendar file:', err);
+      alert('Failed to download calendar file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" loading={loading} disabled={loading} onClick={handleClick}>
+      📅 Add to calendar
+    </Button>
+  );
+};
+
+export default AddToCalendarButton;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarFeedLink, CalendarFeedStatus } from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { tokens } from '../../design-system/tokens';
+import { calendarService } from '../../services/calendarService';
+
+/**
+ * Lets the user subscribe to their stays and swap deadlines in a calendar
+ * app through a secret feed URL, and reset or turn off that URL
+ */
+export const CalendarFeedPanel: React.FC = () => {
+  const [status, setStatus] = useState<CalendarFeedStatus | null>(null);
+  const [link, setLink] = useState<CalendarFeedLink | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    calendarService
+      .getFeedStatus()
+      .then(result => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load your calendar feed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || fallback;
+
+  const handleCreate = async () => {
+    if (
+      status?.enabled &&
+      !confirm(
+        'Reset your calendar link? Calendars subscribed to the old link will stop updating.'
+      )
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const created = await calendarService.createFeed();
+      setLink(created);
+      setStatus({ enabled: true, createdAt: created.createdAt });
+    } catch (err) {
+      setError(errorMessage(err, 'Could not create your calendar link'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Turn off your calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      await calendarService.deleteFeed();
+      setLink(null);
+      setStatus({ enabled: false });
+    } catch (err) {
+      setError(errorMessage(err, 'Could not turn off your calendar feed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+    } catch {
+      setError('Could not copy the link, select it and copy it manually');
+    }
+  };
+
+  const mutedStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  return (
+    <section aria-label="Calendar feed">
+      <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[3]} 0` }}>
+        Subscribe in Google Calendar, Apple Calendar or Outlook to see your stays, swap
+        expirations, proposal deadlines and auction end dates. Stays show in the local time
+        of the destination, and the calendar updates when swaps complete.
+      </p>
+
+      {error && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `0 0 ${tokens.spacing[3]} 0`,
+          }}
+        >
+          {error}
+        </p>
+      )}
+
+      {link && (
+        <div
+          style={{
+            padding: tokens.spacing[3],
+            marginBottom: tokens.spacing[4],
+            backgroundColor: tokens.colors.neutral[50],
+            border: `1px solid ${tokens.colors.neutral[200]}`,
+            borderRadius: tokens.borderRadius.md,
+          }}
+        >
+          <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[2]} 0` }}>
+            Copy this link now, it will not be shown again. Anyone with it can see your
+            calendar.
+          </p>
+          <code
+            style={{
+              display: 'block',
+              wordBreak: 'break-all',
+              fontSize: tokens.typography.fontSize.sm,
+              marginBottom: tokens.spacing[3],
+            }}
+          >
+            {link.url}
+          </code>
+          <div style={{ display: 'flex', gap: tokens.spacing[2] }}>
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              {copied ? 'Copied' : 'Copy link'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                window.location.href = link.webcalUrl;
+              }}
+            >
+              Open in calendar app
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!status ? (
+        !error && <p style={mutedStyle}>Loading calendar feed...</p>
+      ) : (
+        <>
+          {status.enabled && !link && (
+            <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[3]} 0` }}>
+              Your calendar feed is on
+              {status.lastAccessedAt
+                ? `, last fetched ${status.lastAccessedAt.toLocaleString()}`
+                : ' but has not been fetched yet'}
+              .
+            </p>
+          )}
+          <div style={{ display: 'flex', gap: tokens.spacing[2] }}>
+            <Button variant="outline" size="sm" loading={busy} disabled={busy} onClick={handleCreate}>
+              {status.enabled ? 'Reset link' : 'Create calendar link'}
+            </Button>
+            {status.enabled && (
+              <Button variant="ghost" size="sm" disabled={busy} onClick={handleDelete}>
+                Turn off
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CalendarFeedPanel;
@@ -0,0 +1,2 @@
+export { CalendarFeedPanel } from './CalendarFeedPanel';
+export { AddToCalendarButton } from './AddToCalendarButton';
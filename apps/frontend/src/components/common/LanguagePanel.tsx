@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { isSupportedLocale, Locale, LOCALE_NAMES, SUPPORTED_LOCALES } from '@booking-swap/shared';
+import { tokens } from '../../design-system/tokens';
+import { useTranslation } from '../../contexts/I18nContext';
+import { userService } from '../../services/userService';
+
+/**
+ * Picks the language for the app and saves it to the profile, so emails,
+ * texts and push notifications are sent in the same language
+ */
+export const LanguagePanel: React.FC = () => {
+  const { locale, setLocale, t } = useTranslation();
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<'saved' | 'failed' | null>(null);
+
+  // Another device may have saved a different language. setLocale is stable,
+  // so this only runs on mount, and setting the current language is a no-op.
+  useEffect(() => {
+    let cancelled = false;
+
+    userService
+      .getProfile()
+      .then(user => {
+        const saved = user.profile?.locale;
+        if (!cancelled && saved) {
+          setLocale(saved);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setLocale]);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = event.target.value;
+    if (!isSupportedLocale(next)) return;
+
+    const previous: Locale = locale;
+    setLocale(next);
+    setSaving(true);
+    setStatus(null);
+    try {
+      await userService.updateLocale(next);
+      setStatus('saved');
+    } catch {
+      setLocale(previous);
+      setStatus('failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const mutedStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  return (
+    <section aria-label={t('profile.language')}>
+      <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[3]} 0` }}>
+        {t('language.description')}
+      </p>
+
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: tokens.spacing[3],
+          fontSize: tokens.typography.fontSize.sm,
+          color: tokens.colors.neutral[700],
+        }}
+      >
+        {t('language.label')}
+        <select
+          value={locale}
+          disabled={saving}
+          onChange={handleChange}
+          style={{
+            padding: `${tokens.spacing[2]} ${tokens.spacing[3]}`,
+            borderRadius: tokens.borderRadius.md,
+            border: `1px solid ${tokens.colors.neutral[300]}`,
+            fontSize: tokens.typography.fontSize.sm,
+          }}
+        >
+          {SUPPORTED_LOCALES.map(option => (
+            <option key={option} value={option} lang={option}>
+              {LOCALE_NAMES[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {status === 'saved' && (
+        <p role="status" style={{ ...mutedStyle, margin: `${tokens.spacing[2]} 0 0 0` }}>
+          {t('language.saved')}
+        </p>
+      )}
+      {status === 'failed' && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `${tokens.spacing[2]} 0 0 0`,
+          }}
+        >
+          {t('language.saveFailed')}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default LanguagePanel;
@@ -0,0 +1,182 @@
+import React from 'react';
+import { RecommendationReason, SwapRecommendation } from '@booking-swap/shared';
+import { Card, CardHeader, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { tokens } from '@/design-system/tokens';
+
+interface RecommendedSwapsProps {
+  recommendations: SwapRecommendation[];
+  isLoading: boolean;
+  error?: string | null;
+  onRefresh: () => void;
+  onViewSwap: (swapId: string) => void;
+}
+
+const REASON_LABELS: Record<RecommendationReason, string> = {
+  compatible_with_your_swap: 'Great match for your swap',
+  matches_your_preferences: 'Matches your preferences',
+  similar_to_past_proposals: 'Like places you proposed on',
+  trusted_owner: 'Trusted owner',
+  new_listing: 'New',
+};
+
+const formatDateRange = (checkIn: Date, checkOut: Date): string => {
+  const format = (date: Date) =>
+    date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${format(checkIn)} – ${format(checkOut)}`;
+};
+
+/**
+ * "For you" section listing swaps ranked for the user
+ */
+export const RecommendedSwaps: React.FC<RecommendedSwapsProps> = ({
+  recommendations,
+  isLoading,
+  error,
+  onRefresh,
+  onViewSwap,
+}) => {
+  const gridStyles = {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+    gap: tokens.spacing[4],
+  };
+
+  const itemStyles = {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing[2],
+    padding: tokens.spacing[4],
+    border: `1px solid ${tokens.colors.neutral[200]}`,
+    borderRadius: tokens.borderRadius.md,
+    cursor: 'pointer',
+    textAlign: 'left' as const,
+    backgroundColor: 'white',
+  };
+
+  const titleStyles = {
+    fontSize: tokens.typography.fontSize.base,
+    fontWeight: tokens.typography.fontWeight.medium,
+    color: tokens.colors.neutral[900],
+  };
+
+  const detailsStyles = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  const reasonStyles = {
+    padding: `${tokens.spacing[1]} ${tokens.spacing[2]}`,
+    borderRadius: tokens.borderRadius.md,
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: tokens.typography.fontWeight.medium,
+    backgroundColor: tokens.colors.primary[100],
+    color: tokens.colors.primary[800],
+  };
+
+  const emptyStateStyles = {
+    textAlign: 'center' as const,
+    padding: tokens.spacing[8],
+    color: tokens.colors.neutral[500],
+  };
+
+  const renderContent = () => {
+    if (isLoading && recommendations.length === 0) {
+      return <div style={emptyStateStyles}>Finding swaps for you...</div>;
+    }
+
+    if (error) {
+      return (
+        <div style={{ ...emptyStateStyles, color: tokens.colors.error[600] }}>
+          {error}
+        </div>
+      );
+    }
+
+    if (recommendations.length === 0) {
+      return (
+        <div style={emptyStateStyles}>
+          <p>No recommendations yet</p>
+          <p style={detailsStyles}>
+            List a booking for swap or browse swaps to get suggestions
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div style={gridStyles}>
+        {recommendations.map(recommendation => (
+          <button
+            key={recommendation.swapId}
+            type="button"
+            style={itemStyles}
+            onClick={() => onViewSwap(recommendation.swapId)}
+            aria-label={`View ${recommendation.booking.title}`}
+          >
+            <div style={titleStyles}>{recommendation.booking.title}</div>
+            <div style={detailsStyles}>
+              📍 {recommendation.booking.city}, {recommendation.booking.country}
+            </div>
+            <div style={detailsStyles}>
+              📅{' '}
+              {formatDateRange(
+                recommendation.booking.checkIn,
+                recommendation.booking.checkOut
+              )}
+            </div>
+            <div style={detailsStyles}>
+              Swap value: ${recommendation.booking.swapValue.toLocaleString()}
+            </div>
+            <div
+              style={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: tokens.spacing[1],
+              }}
+            >
+              {recommendation.reasons.map(reason => (
+                <span key={reason} style={reasonStyles}>
+                  {REASON_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card variant="outlined" style={{ marginBottom: tokens.spacing[6] }}>
+      <CardHeader>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            For you
+          </h2>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRefresh}
+            disabled={isLoading}
+          >
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+    </Card>
+  );
+};
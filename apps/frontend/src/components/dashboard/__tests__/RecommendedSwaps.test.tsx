@@ -0,0 +1,110 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { SwapRecommendation } from '@booking-swap/shared';
+import { RecommendedSwaps } from '../RecommendedSwaps';
+
+describe('RecommendedSwaps', () => {
+  const recommendation: SwapRecommendation = {
+    swapId: 'swap-1',
+    booking: {
+      id: 'booking-1',
+      title: 'Riverside apartment',
+      type: 'hotel',
+      city: 'Lisbon',
+      country: 'Portugal',
+      checkIn: new Date('2025-06-10'),
+      checkOut: new Date('2025-06-15'),
+      swapValue: 800,
+    },
+    ownerId: 'owner-1',
+    ownerReputation: 4.6,
+    score: 82.5,
+    signals: {
+      compatibility: 0.9,
+      behaviour: 0.2,
+      preferences: 1,
+      reputation: 0.92,
+      freshness: 0.8,
+    },
+    reasons: ['compatible_with_your_swap', 'trusted_owner'],
+    matchedSwapId: 'own-1',
+    listedAt: new Date(),
+  };
+
+  const mockOnRefresh = vi.fn();
+  const mockOnViewSwap = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders recommendations with their reasons', () => {
+    render(
+      <RecommendedSwaps
+        recommendations={[recommendation]}
+        isLoading={false}
+        onRefresh={mockOnRefresh}
+        onViewSwap={mockOnViewSwap}
+      />
+    );
+
+    expect(screen.getByText('For you')).toBeInTheDocument();
+    expect(screen.getByText('Riverside apartment')).toBeInTheDocument();
+    expect(screen.getByText(/Lisbon, Portugal/)).toBeInTheDocument();
+    expect(screen.getByText('Great match for your swap')).toBeInTheDocument();
+    expect(screen.getByText('Trusted owner')).toBeInTheDocument();
+  });
+
+  it('opens the swap when a recommendation is clicked', () => {
+    render(
+      <RecommendedSwaps
+        recommendations={[recommendation]}
+        isLoading={false}
+        onRefresh={mockOnRefresh}
+        onViewSwap={mockOnViewSwap}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('View Riverside apartment'));
+    fireEvent.click(screen.getByText('Refresh'));
+
+    expect(mockOnViewSwap).toHaveBeenCalledWith('swap-1');
+    expect(mockOnRefresh).toHaveBeenCalled();
+  });
+
+  it('shows loading, error and empty states', () => {
+    const { rerender } = render(
+      <RecommendedSwaps
+        recommendations={[]}
+        isLoading
+        onRefresh={mockOnRefresh}
+        onViewSwap={mockOnViewSwap}
+      />
+    );
+    expect(screen.getByText('Finding swaps for you...')).toBeInTheDocument();
+
+    rerender(
+      <RecommendedSwaps
+        recommendations={[]}
+        isLoading={false}
+        error="Recommendations are unavailable right now"
+        onRefresh={mockOnRefresh}
+        onViewSwap={mockOnViewSwap}
+      />
+    );
+    expect(
+      screen.getByText('Recommendations are unavailable right now')
+    ).toBeInTheDocument();
+
+    rerender(
+      <RecommendedSwaps
+        recommendations={[]}
+        isLoading={false}
+        onRefresh={mockOnRefresh}
+        onViewSwap={mockOnViewSwap}
+      />
+    );
+    expect(screen.getByText('No recommendations yet')).toBeInTheDocument();
+  });
+});
@@ -3,6 +3,7 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/Button';
 import { Logo } from '@/components/common';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/I18nContext';
 import { useWalletAuth } from '@/hooks/useWalletAuth';
 import { WalletConnectButton } from '@/components/wallet';
 import { tokens } from '@/design-system/tokens';
@@ -13,6 +14,7 @@ interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
   const { user } = useAuth();
+  const { t } = useTranslation();
   const { logout: logoutAll } = useWalletAuth();
   const navigate = useNavigate();
   const location = useLocation();
@@ -123,12 +125,12 @@ export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
           <div style={navStyles}>
             <Link to="/login">
               <Button variant="outline" size="sm">
-                Sign In
+                {t('nav.signIn')}
               </Button>
             </Link>
             <Link to="/register">
               <Button variant="primary" size="sm">
-                Sign Up
+                {t('nav.signUp')}
               </Button>
             </Link>
           </div>
@@ -158,7 +160,7 @@ export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
               e.currentTarget.style.backgroundColor = 'transparent';
             }}
           >
-            Browse Swaps
+            {t('nav.browseSwaps')}
           </Link>
           <Link
             to="/bookings"
@@ -172,7 +174,7 @@ export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
               e.currentTarget.style.backgroundColor = 'transparent';
             }}
           >
-            My Bookings
+            {t('nav.myBookings')}
           </Link>
           <Link
             to="/swaps"
@@ -186,7 +188,7 @@ export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
               e.currentTarget.style.backgroundColor = 'transparent';
             }}
           >
-            My Swaps
+            {t('nav.mySwaps')}
           </Link>
 
           {/* Wallet Connect Button */}
@@ -263,7 +265,7 @@ export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
                 }}
                 onClick={() => setShowUserMenu(false)}
               >
-                Profile Settings
+                {t('nav.profileSettings')}
               </Link>
 
               <button
@@ -277,7 +279,7 @@ export const Header: React.FC<HeaderProps> = ({ isAuthenticated }) => {
                   e.currentTarget.style.backgroundColor = 'transparent';
                 }}
               >
-                Sign Out
+                {t('nav.signOut')}
               </button>
             </div>
           )}
@@ -1,12 +1,14 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
+import { MessageKey } from '@booking-swap/shared';
 import { Logo } from '@/components/common';
 import { useAppSelector } from '@/store/hooks';
+import { useTranslation } from '@/contexts/I18nContext';
 import { tokens } from '@/design-system/tokens';
 
 interface NavItem {
   to: string;
-  label: string;
+  labelKey: MessageKey;
   icon: React.ReactNode;
   public?: boolean; // Whether the item is accessible to unauthenticated users
 }
@@ -15,7 +17,7 @@ interface NavItem {
 const allNavItems: NavItem[] = [
   {
     to: '/browse',
-    label: 'Browse Swaps',
+    labelKey: 'nav.browseSwaps',
     public: true, // Available to all users
     icon: (
       <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
@@ -32,7 +34,7 @@ const allNavItems: NavItem[] = [
   },
   {
     to: '/bookings',
-    label: 'My Bookings',
+    labelKey: 'nav.myBookings',
     public: false, // Protected route - authenticated users only
     icon: (
       <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
@@ -49,7 +51,7 @@ const allNavItems: NavItem[] = [
   },
   {
     to: '/swaps',
-    label: 'My Swaps',
+    labelKey: 'nav.mySwaps',
     public: false, // Protected route - authenticated users only
     icon: (
       <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
@@ -84,6 +86,7 @@ interface SidebarProps {
 
 export const Sidebar: React.FC<SidebarProps> = ({ isAuthenticated }) => {
   const sidebarOpen = useAppSelector(state => state.ui.sidebarOpen);
+  const { t } = useTranslation();
   const navigationItems = getNavigationItems(isAuthenticated);
 
   const sidebarStyles = {
@@ -168,7 +171,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ isAuthenticated }) => {
             }}
           >
             {item.icon}
-            {item.label}
+            {t(item.labelKey)}
           </NavLink>
         ))}
       </nav>
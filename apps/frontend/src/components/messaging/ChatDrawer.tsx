@@ -0,0 +1,682 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import {
+  CONVERSATION_ATTACHMENT_CONTENT_TYPES,
+  Conversation,
+  ConversationMessage,
+  ConversationMessageEvent,
+  ConversationReadEvent,
+  MAX_MESSAGE_LENGTH,
+} from '@booking-swap/shared';
+import { RootState } from '@/store';
+import { Button } from '@/components/ui/Button';
+import { tokens } from '@/design-system/tokens';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  messagingService,
+  parseConversationMessage,
+} from '@/services/messagingService';
+
+export interface ChatDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Opens the thread for this proposal
+  proposalId?: string;
+  // Otherwise the threads about this swap: owners pick one, others open theirs
+  swapId?: string;
+  title?: string;
+}
+
+const TYPING_IDLE_MS = 3000;
+
+const formatTime = (date: Date): string =>
+  date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const errorMessage = (err: any, fallback: string) =>
+  err?.response?.data?.error?.message || fallback;
+
+/**
+ * Slide-in panel with the direct messages between swap counterparties.
+ * Contact details stay hidden until the swap or proposal is accepted.
+ */
+export const ChatDrawer: React.FC<ChatDrawerProps> = ({
+  isOpen,
+  onClose,
+  proposalId,
+  swapId,
+  title = 'Messages',
+}) => {
+  const currentUserId = useSelector((state: RootState) => state.auth.user?.id);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [otherIsTyping, setOtherIsTyping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const messagesEnd = useRef<HTMLDivElement>(null);
+  const typingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const conversationId = conversation?.id;
+
+  const markRead = useCallback(async (id: string) => {
+    try {
+      await messagingService.markRead(id);
+    } catch (err) {
+      console.error('Failed to mark conversation read:', err);
+    }
+  }, []);
+
+  const handleConversationMessage = useCallback(
+    (event: ConversationMessageEvent) => {
+      if (event.conversationId === conversationId) {
+        const message = parseConversationMessage(event.message);
+        setMessages(current =>
+          current.some(existing => existing.id === message.id)
+            ? current
+            : [...current, message]
+        );
+        if (message.senderId !== currentUserId) {
+          setOtherIsTyping(false);
+          markRead(event.conversationId);
+        }
+        return;
+      }
+
+      setConversations(current =>
+        current.map(item =>
+          item.id === event.conversationId &&
+          event.message.senderId !== currentUserId
+            ? { ...item, unreadCount: item.unreadCount + 1 }
+            : item
+        )
+      );
+    },
+    [conversationId, currentUserId, markRead]
+  );
+
+  const handleConversationRead = useCallback(
+    (event: ConversationReadEvent) => {
+      if (event.conversationId !== conversationId) return;
+      const receipt = {
+        userId: event.userId,
+        lastReadAt: new Date(event.lastReadAt),
+      };
+      setConversation(current =>
+        current
+          ? {
+              ...current,
+              readReceipts: [
+                ...current.readReceipts.filter(
+                  item => item.userId !== event.userId
+                ),
+                receipt,
+              ],
+            }
+          : current
+      );
+    },
+    [conversationId]
+  );
+
+  const handleTyping = useCallback(
+    (typing: boolean) =>
+      (data: { userId: string; conversationId?: string }) => {
+        if (
+          data.conversationId === conversationId &&
+          data.userId !== currentUserId
+        ) {
+          setOtherIsTyping(typing);
+        }
+      },
+    [conversationId, currentUserId]
+  );
+
+  const { startConversationTyping, stopConversationTyping } = useWebSocket({
+    onConversationMessage: handleConversationMessage,
+    onConversationRead: handleConversationRead,
+    onTypingStart: handleTyping(true),
+    onTypingStop: handleTyping(false),
+    enableHealthMonitoring: false,
+  });
+
+  const selectConversation = useCallback(
+    async (selected: Conversation) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const details = await messagingService.getConversation(selected.id);
+        setConversation(details.conversation);
+        setMessages(details.messages);
+        setHasMore(details.hasMore);
+        setOtherIsTyping(false);
+        if (details.conversation.unreadCount > 0) {
+          markRead(details.conversation.id);
+        }
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to load messages'));
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [markRead]
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setConversation(null);
+      setMessages([]);
+      try {
+        if (proposalId) {
+          const opened = await messagingService.openConversation({
+            proposalId,
+          });
+          if (!cancelled) await selectConversation(opened);
+          return;
+        }
+        if (!swapId) return;
+
+        const existing = await messagingService.listConversations({ swapId });
+        if (cancelled) return;
+        setConversations(existing);
+
+        // Users who don't own the swap have at most one thread about it
+        const ownsSwap = existing.some(item => item.ownerId === currentUserId);
+        if (existing.length === 1) {
+          await selectConversation(existing[0]);
+        } else if (existing.length === 0) {
+          const opened = await messagingService
+            .openConversation({ swapId })
+            .catch(() => null);
+          if (opened && !cancelled) await selectConversation(opened);
+        } else if (!ownsSwap) {
+          await selectConversation(existing[0]);
+        }
+      } catch (err) {
+        if (!cancelled)
+          setError(errorMessage(err, 'Failed to load conversations'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, proposalId, swapId, currentUserId, selectConversation]);
+
+  useEffect(() => {
+    messagesEnd.current?.scrollIntoView?.({ behavior: 'smooth' });
+  }, [messages.length, otherIsTyping]);
+
+  useEffect(() => {
+    return () => {
+      if (typingTimer.current) clearTimeout(typingTimer.current);
+    };
+  }, []);
+
+  const stopTyping = () => {
+    if (typingTimer.current && conversationId) {
+      clearTimeout(typingTimer.current);
+      typingTimer.current = null;
+      stopConversationTyping(conversationId);
+    }
+  };
+
+  const handleDraftChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setDraft(event.target.value);
+    if (!conversationId) return;
+
+    if (!typingTimer.current) {
+      startConversationTyping(conversationId);
+    } else {
+      clearTimeout(typingTimer.current);
+    }
+    typingTimer.current = setTimeout(() => {
+      typingTimer.current = null;
+      stopConversationTyping(conversationId);
+    }, TYPING_IDLE_MS);
+  };
+
+  const appendMessage = (message: ConversationMessage) => {
+    setMessages(current =>
+      current.some(existing => existing.id === message.id)
+        ? current
+        : [...current, message]
+    );
+  };
+
+  const handleSend = async () => {
+    if (!conversationId || !draft.trim()) return;
+
+    stopTyping();
+    setIsSending(true);
+    setError(null);
+    try {
+      appendMessage(await messagingService.sendMessage(conversationId, draft));
+      setDraft('');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to send message'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleAttach = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !conversationId) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      appendMessage(
+        await messagingService.sendAttachment(
+          conversationId,
+          file,
+          draft.trim() || undefined
+        )
+      );
+      setDraft('');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to send attachment'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleLoadEarlier = async () => {
+    if (!conversationId || messages.length === 0) return;
+
+    try {
+      const details = await messagingService.getConversation(
+        conversationId,
+        messages[0].createdAt
+      );
+      setMessages(current => [...details.messages, ...current]);
+      setHasMore(details.hasMore);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load earlier messages'));
+    }
+  };
+
+  const handleDownload = async (message: ConversationMessage) => {
+    if (!message.attachment) return;
+
+    try {
+      const blob = await messagingService.downloadAttachment(
+        message.conversationId,
+        message.id
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = message.attachment.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to download attachment'));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const otherReceipt = conversation?.readReceipts.find(
+    receipt => receipt.userId !== currentUserId
+  );
+  const lastOwnMessage = [...messages]
+    .reverse()
+    .find(message => message.senderId === currentUserId);
+  const lastOwnMessageSeen =
+    !!lastOwnMessage &&
+    !!otherReceipt &&
+    otherReceipt.lastReadAt >= lastOwnMessage.createdAt;
+  const showList = !conversation && conversations.length > 1;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.3)',
+        zIndex: 1100,
+      }}
+      onClick={onClose}
+    >
+      <aside
+        role="dialog"
+        aria-label={title}
+        aria-modal="true"
+        onClick={event => event.stopPropagation()}
+        style={{
+          position: 'absolute',
+          top: 0,
+          right: 0,
+          bottom: 0,
+          width: '100%',
+          maxWidth: '420px',
+          display: 'flex',
+          flexDirection: 'column',
+          backgroundColor: 'white',
+          boxShadow: '-10px 0 25px -5px rgba(0, 0, 0, 0.1)',
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: tokens.spacing[2],
+            padding: tokens.spacing[4],
+            borderBottom: `1px solid ${tokens.colors.neutral[200]}`,
+          }}
+        >
+          {conversation && conversations.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setConversation(null)}
+            >
+              ←
+            </Button>
+          )}
+          <h2
+            style={{
+              flex: 1,
+              margin: 0,
+              fontSize: tokens.typography.fontSize.lg,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              color: tokens.colors.neutral[900],
+            }}
+          >
+            💬 {title}
+          </h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            aria-label="Close messages"
+          >
+            ✕
+          </Button>
+        </div>
+
+        {conversation && !conversation.contactDetailsUnlocked && (
+          <div
+            style={{
+              padding: `${tokens.spacing[2]} ${tokens.spacing[4]}`,
+              fontSize: tokens.typography.fontSize.sm,
+              color: tokens.colors.neutral[700],
+              backgroundColor: tokens.colors.neutral[50],
+              borderBottom: `1px solid ${tokens.colors.neutral[200]}`,
+            }}
+          >
+            🔒 Phone numbers, emails and links are hidden until the swap is
+            accepted.
+          </div>
+        )}
+
+        {/* Body */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: tokens.spacing[4] }}>
+          {isLoading && (
+            <div
+              style={{ textAlign: 'center', color: tokens.colors.neutral[500] }}
+            >
+              Loading messages...
+            </div>
+          )}
+
+          {!isLoading && showList && (
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {conversations.map(item => (
+                <li key={item.id}>
+                  <button
+                    onClick={() => selectConversation(item)}
+                    style={{
+                      width: '100%',
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      padding: tokens.spacing[3],
+                      marginBottom: tokens.spacing[2],
+                      border: `1px solid ${tokens.colors.neutral[200]}`,
+                      borderRadius: tokens.borderRadius.md,
+                      backgroundColor: 'white',
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                    }}
+                  >
+                    <span>
+                      {item.proposalId ? 'About a proposal' : 'About this swap'}
+                      <span
+                        style={{
+                          display: 'block',
+                          fontSize: tokens.typography.fontSize.xs,
+                          color: tokens.colors.neutral[500],
+                        }}
+                      >
+                        {formatTime(item.lastMessageAt || item.createdAt)}
+                      </span>
+                    </span>
+                    {item.unreadCount > 0 && (
+                      <span
+                        style={{
+                          alignSelf: 'center',
+                          padding: `0 ${tokens.spacing[2]}`,
+                          borderRadius: tokens.borderRadius.full,
+                          backgroundColor: tokens.colors.primary[600],
+                          color: 'white',
+                          fontSize: tokens.typography.fontSize.xs,
+                        }}
+                      >
+                        {item.unreadCount}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!isLoading && !conversation && !showList && !error && (
+            <div
+              style={{ textAlign: 'center', color: tokens.colors.neutral[500] }}
+            >
+              No one has messaged you about this swap yet.
+            </div>
+          )}
+
+          {!isLoading && conversation && (
+            <>
+              {hasMore && (
+                <div
+                  style={{
+                    textAlign: 'center',
+                    marginBottom: tokens.spacing[3],
+                  }}
+                >
+                  <Button variant="ghost" size="sm" onClick={handleLoadEarlier}>
+                    Load earlier messages
+                  </Button>
+                </div>
+              )}
+
+              {messages.length === 0 && (
+                <div
+                  style={{
+                    textAlign: 'center',
+                    color: tokens.colors.neutral[500],
+                  }}
+                >
+                  No messages yet. Say hello!
+                </div>
+              )}
+
+              {messages.map(message => {
+                const own = message.senderId === currentUserId;
+                return (
+                  <div
+                    key={message.id}
+                    style={{
+                      display: 'flex',
+                      flexDirection: 'column',
+                      alignItems: own ? 'flex-end' : 'flex-start',
+                      marginBottom: tokens.spacing[3],
+                    }}
+                  >
+                    <div
+                      style={{
+                        maxWidth: '80%',
+                        padding: `${tokens.spacing[2]} ${tokens.spacing[3]}`,
+                        borderRadius: tokens.borderRadius.lg,
+                        backgroundColor: own
+                          ? tokens.colors.primary[600]
+                          : tokens.colors.neutral[100],
+                        color: own ? 'white' : tokens.colors.neutral[900],
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-word',
+                      }}
+                    >
+                      {message.body}
+                      {message.attachment && (
+                        <button
+                          onClick={() => handleDownload(message)}
+                          style={{
+                            display: 'block',
+                            marginTop: message.body ? tokens.spacing[1] : 0,
+                            padding: 0,
+                            border: 'none',
+                            background: 'none',
+                            color: 'inherit',
+                            textDecoration: 'underline',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          📎 {message.attachment.fileName}
+                        </button>
+                      )}
+                    </div>
+                    <span
+                      style={{
+                        marginTop: tokens.spacing[1],
+                        fontSize: tokens.typography.fontSize.xs,
+                        color: tokens.colors.neutral[500],
+                      }}
+                    >
+                      {formatTime(message.createdAt)}
+                      {message === lastOwnMessage &&
+                        lastOwnMessageSeen &&
+                        ' · Seen'}
+                    </span>
+                  </div>
+                );
+              })}
+
+              {otherIsTyping && (
+                <div
+                  style={{
+                    fontSize: tokens.typography.fontSize.sm,
+                    color: tokens.colors.neutral[500],
+                  }}
+                >
+                  Typing…
+                </div>
+              )}
+              <div ref={messagesEnd} />
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div
+            style={{
+              padding: `0 ${tokens.spacing[4]}`,
+              fontSize: tokens.typography.fontSize.sm,
+              color: tokens.colors.error[600],
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {/* Composer */}
+        {conversation && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'flex-end',
+              gap: tokens.spacing[2],
+              padding: tokens.spacing[4],
+              borderTop: `1px solid ${tokens.colors.neutral[200]}`,
+            }}
+          >
+            <input
+              ref={fileInput}
+              type="file"
+              accept={CONVERSATION_ATTACHMENT_CONTENT_TYPES.join(',')}
+              onChange={handleAttach}
+              style={{ display: 'none' }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isSending}
+              onClick={() => fileInput.current?.click()}
+              aria-label="Attach a file"
+            >
+              📎
+            </Button>
+            <textarea
+              value={draft}
+              onChange={handleDraftChange}
+              onKeyDown={handleKeyDown}
+              onBlur={stopTyping}
+              maxLength={MAX_MESSAGE_LENGTH}
+              rows={2}
+              placeholder="Write a message..."
+              aria-label="Message"
+              style={{
+                flex: 1,
+                resize: 'none',
+                padding: tokens.spacing[2],
+                border: `1px solid ${tokens.colors.neutral[300]}`,
+                borderRadius: tokens.borderRadius.md,
+                fontSize: tokens.typography.fontSize.sm,
+                fontFamily: 'inherit',
+              }}
+            />
+            <Button
+              size="sm"
+              loading={isSending}
+              disabled={!draft.trim()}
+              onClick={handleSend}
+            >
+              Send
+            </Button>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default ChatDrawer;
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import {
+  MessageKey,
+  NotificationType,
+  PUSH_NOTIFICATION_TYPES,
+  PushPreferences,
+  WebPushSubscription,
+} from '@booking-swap/shared';
+import { Button } from '../ui/Button';
+import { useTranslation } from '../../contexts/I18nContext';
+import { tokens } from '../../design-system/tokens';
+import { pushNotificationService } from '../../services/pushNotificationService';
+
+/**
+ * Turns push notifications on or off for this browser, chooses which
+ * notifications are pushed, and lists the other devices receiving them
+ */
+export const PushNotificationsPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const supported = pushNotificationService.isSupported();
+  const [preferences, setPreferences] = useState<PushPreferences | null>(null);
+  const [subscriptions, setSubscriptions] = useState<WebPushSubscription[]>([]);
+  const [browserEndpoint, setBrowserEndpoint] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      pushNotificationService.getPreferences(),
+      pushNotificationService.listSubscriptions(),
+      pushNotificationService.syncSubscription().catch(() => undefined),
+      pushNotificationService.getBrowserSubscription(),
+    ])
+      .then(([loadedPreferences, loadedSubscriptions, , browserSubscription]) => {
+        if (cancelled) return;
+        setPreferences(loadedPreferences);
+        setSubscriptions(loadedSubscriptions);
+        setBrowserEndpoint(browserSubscription?.endpoint || null);
+      })
+      .catch(() => {
+        if (!cancelled) setError(t('push.loadFailed'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const errorMessage = (err: any, fallback: string) =>
+    err?.response?.data?.error?.message || err?.message || fallback;
+
+  const thisBrowserEnabled =
+    browserEndpoint !== null &&
+    subscriptions.some(subscription => subscription.endpoint === browserEndpoint);
+
+  const handleEnable = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const subscription = await pushNotificationService.enable();
+      setBrowserEndpoint(subscription.endpoint);
+      setSubscriptions(await pushNotificationService.listSubscriptions());
+    } catch (err) {
+      setError(errorMessage(err, t('push.enableFailed')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await pushNotificationService.disable();
+      setBrowserEndpoint(null);
+      setSubscriptions(await pushNotificationService.listSubscriptions());
+    } catch (err) {
+      setError(errorMessage(err, t('push.disableFailed')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (subscription: WebPushSubscription) => {
+    if (!confirm(t('push.confirmRemove', { device: subscription.deviceName }))) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      await pushNotificationService.removeSubscription(subscription.id);
+      setSubscriptions(await pushNotificationService.listSubscriptions());
+    } catch (err) {
+      setError(errorMessage(err, t('push.removeFailed')));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggleType = async (type: NotificationType) => {
+    if (!preferences) return;
+
+    const pushTypes = preferences.pushTypes.includes(type)
+      ? preferences.pushTypes.filter(selected => selected !== type)
+      : [...preferences.pushTypes, type];
+    setError(null);
+    try {
+      setPreferences(await pushNotificationService.updatePreferences({ pushTypes }));
+    } catch (err) {
+      setError(errorMessage(err, t('push.saveFailed')));
+    }
+  };
+
+  const mutedStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[600],
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.neutral[700],
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing[1],
+  };
+
+  return (
+    <section aria-label={t('profile.pushNotifications')}>
+      <p style={{ ...mutedStyle, margin: `0 0 ${tokens.spacing[3]} 0` }}>
+        {t('push.description')}
+      </p>
+
+      {error && (
+        <p
+          role="alert"
+          style={{
+            color: tokens.colors.error[600],
+            fontSize: tokens.typography.fontSize.sm,
+            margin: `0 0 ${tokens.spacing[3]} 0`,
+          }}
+        >
+          {error}
+        </p>
+      )}
+
+      {!supported ? (
+        <p style={mutedStyle}>{t('push.notSupported')}</p>
+      ) : (
+        <div style={{ display: 'flex', gap: tokens.spacing[2], marginBottom: tokens.spacing[4] }}>
+          {thisBrowserEnabled ? (
+            <Button variant="ghost" size="sm" loading={busy} disabled={busy} onClick={handleDisable}>
+              {t('push.turnOff')}
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              loading={busy}
+              disabled={busy || pushNotificationService.getPermission() === 'denied'}
+              onClick={handleEnable}
+            >
+              {t('push.turnOn')}
+            </Button>
+          )}
+          {pushNotificationService.getPermission() === 'denied' && (
+            <span style={mutedStyle}>
+              {t('push.blocked')}
+            </span>
+          )}
+        </div>
+      )}
+
+      {!preferences ? (
+        !error && <p style={mutedStyle}>{t('push.loading')}</p>
+      ) : (
+        <fieldset
+          style={{
+            border: 'none',
+            padding: 0,
+            margin: `0 0 ${tokens.spacing[4]} 0`,
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+            gap: tokens.spacing[2],
+          }}
+        >
+          <legend style={{ ...labelStyle, marginBottom: tokens.spacing[2] }}>
+            {t('push.typesLegend')}
+          </legend>
+          {PUSH_NOTIFICATION_TYPES.map(type => (
+            <label key={type} style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={preferences.pushTypes.includes(type)}
+                onChange={() => handleToggleType(type)}
+              />
+              {t(`notificationType.${type}` as MessageKey)}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {subscriptions.length > 0 && (
+        <ul
+          style={{
+            listStyle: 'none',
+            padding: 0,
+            margin: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: tokens.spacing[3],
+          }}
+        >
+          {subscriptions.map(subscription => (
+            <li
+              key={subscription.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: tokens.spacing[3],
+                paddingBottom: tokens.spacing[3],
+                borderBottom: `1px solid ${tokens.colors.neutral[200]}`,
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: tokens.typography.fontWeight.medium }}>
+                  {subscription.deviceName}
+                  {subscription.endpoint === browserEndpoint && (
+                    <span style={{ ...mutedStyle, marginLeft: tokens.spacing[2] }}>
+                      {t('push.thisBrowser')}
+                    </span>
+                  )}
+                </div>
+                <div style={mutedStyle}>
+                  {t('push.added', { date: subscription.createdAt })}
+                  {subscription.lastSuccessAt &&
+                    ` · ${t('push.lastNotified', { date: subscription.lastSuccessAt })}`}
+                </div>
+              </div>
+              {subscription.endpoint !== browserEndpoint && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => handleRemove(subscription)}
+                >
+                  {t('common.remove')}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default PushNotificationsPanel;
@@ -3,5 +3,6 @@ export { NotificationBell } from './NotificationBell';
 export { NotificationCenter } from './NotificationCenter';
 export { NotificationToast } from './NotificationToast';
 export { NotificationPreferences } from './NotificationPreferences';
+export { PushNotificationsPanel } from './PushNotificationsPanel';
 export { SwapNotificationHandler } from './SwapNotificationHandler';
 export { ToastContainer } from './ToastContainer';
@@ -1,8 +1,18 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import {
+  CURRENCIES,
+  ConvertedAmount,
+  CurrencyCode,
+  FxRateTable,
+  SUPPORTED_CURRENCIES,
+  convertWithRates,
+  formatCurrencyAmount,
+} from '@booking-swap/shared';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader } from '../ui/Card';
 import { tokens } from '../../design-system/tokens';
 import { FEATURE_FLAGS } from '../../config/featureFlags';
+import { currencyService } from '../../services/currencyService';
 
 interface CashOfferFormProps {
   targetSwap: any;
@@ -18,6 +28,7 @@ interface CashOfferFormProps {
 
 interface CashOfferFormData {
   cashAmount: number;
+  currency: string;
   message?: string;
   conditions: string[];
   agreedToTerms: boolean;
@@ -37,8 +48,12 @@ export const CashOfferForm: React.FC<CashOfferFormProps> = ({
     return null;
   }
 
+  // The swap owner's minimum and preferred amounts are in their currency
+  const ownerCurrency = cashDetails?.currency || 'USD';
+
   const [formData, setFormData] = useState<CashOfferFormData>({
     cashAmount: cashDetails?.preferredAmount || cashDetails?.minimumAmount || 0,
+    currency: ownerCurrency,
     message: '',
     conditions: [],
     agreedToTerms: false,
@@ -47,15 +62,54 @@ export const CashOfferForm: React.FC<CashOfferFormProps> = ({
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [rates, setRates] = useState<FxRateTable | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    currencyService
+      .getRates()
+      .then(result => {
+        if (!cancelled) {
+          setRates(result.rates);
+        }
+      })
+      .catch(() => {
+        // Offers in the owner's currency still work without rates
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The offer in the owner's currency, when it is made in another one
+  const convertToOwnerCurrency = (amount: number): ConvertedAmount | null => {
+    if (formData.currency === ownerCurrency || !rates) {
+      return null;
+    }
+    try {
+      return convertWithRates(amount, formData.currency, ownerCurrency, rates);
+    } catch {
+      return null;
+    }
+  };
+
+  const convertedOffer = formData.cashAmount > 0 ? convertToOwnerCurrency(formData.cashAmount) : null;
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
-    // Validate cash amount
+    // Validate cash amount, comparing against the minimum in the owner's currency
+    const offeredInOwnerCurrency =
+      formData.currency === ownerCurrency ? formData.cashAmount : convertedOffer?.amount;
+
     if (!formData.cashAmount || formData.cashAmount <= 0) {
       newErrors.cashAmount = 'Please enter a valid cash amount';
-    } else if (cashDetails?.minimumAmount && formData.cashAmount < cashDetails.minimumAmount) {
-      newErrors.cashAmount = `Minimum amount is $${cashDetails.minimumAmount}`;
+    } else if (offeredInOwnerCurrency === undefined) {
+      newErrors.cashAmount = `Exchange rates are unavailable, please offer in ${ownerCurrency}`;
+    } else if (cashDetails?.minimumAmount && offeredInOwnerCurrency < cashDetails.minimumAmount) {
+      newErrors.cashAmount = `Minimum amount is ${formatCurrency(cashDetails.minimumAmount)}`;
     }
 
     // Validate terms agreement
@@ -75,11 +129,16 @@ export const CashOfferForm: React.FC<CashOfferFormProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: cashDetails?.currency || 'USD',
-    }).format(amount);
+  const formatCurrency = (amount: number, currency: string = ownerCurrency): string => {
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+      }).format(amount);
+    } catch {
+      // Intl rejects currency codes it does not know
+      return formatCurrencyAmount(amount, currency);
+    }
   };
 
   return (
@@ -196,7 +255,7 @@ export const CashOfferForm: React.FC<CashOfferFormProps> = ({
                   fontSize: tokens.typography.fontSize.base,
                   color: tokens.colors.neutral[500],
                 }}>
-                  $
+                  {CURRENCIES[formData.currency as CurrencyCode]?.symbol || formData.currency}
                 </span>
                 <input
                   id="cashAmount"
@@ -220,6 +279,43 @@ export const CashOfferForm: React.FC<CashOfferFormProps> = ({
                   placeholder="Enter your cash offer amount"
                 />
               </div>
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: tokens.spacing[3],
+                marginTop: tokens.spacing[2],
+              }}>
+                <select
+                  id="cashCurrency"
+                  aria-label="Offer currency"
+                  value={formData.currency}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    currency: e.target.value
+                  }))}
+                  style={{
+                    padding: tokens.spacing[2],
+                    border: `1px solid ${tokens.colors.neutral[300]}`,
+                    borderRadius: tokens.borderRadius.md,
+                    fontSize: tokens.typography.fontSize.sm,
+                  }}
+                >
+                  {SUPPORTED_CURRENCIES.map(code => (
+                    <option key={code} value={code}>
+                      {code} - {CURRENCIES[code].name}
+                    </option>
+                  ))}
+                </select>
+                {convertedOffer && (
+                  <span style={{
+                    fontSize: tokens.typography.fontSize.sm,
+                    color: tokens.colors.neutral[600],
+                  }}>
+                    ≈ {formatCurrency(convertedOffer.amount)} in the owner's currency
+                  </span>
+                )}
+              </div>
               {errors.cashAmount && (
                 <p style={{
                   fontSize: tokens.typography.fontSize.sm,
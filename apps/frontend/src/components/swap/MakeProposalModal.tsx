@@ -19,7 +19,8 @@ import { addNotification } from '../../store/slices/notificationSlice';
 import {
   MakeProposalModalProps,
   CreateProposalFromBrowseRequest,
-  Notification
+  Notification,
+  formatCurrencyAmount
 } from '@booking-swap/shared';
 import { EligibleSwap, CreateProposalRequest } from '../../types/api';
 import { ProposalCreationForm } from './ProposalCreationForm';
@@ -245,6 +246,10 @@ export const MakeProposalModal: React.FC<MakeProposalModalProps> = ({
     announce('Returned to swap selection. Choose a different swap or modify your selection.', 'polite');
   };
 
+  // Currency the swap owner set their cash amounts in
+  const ownerCurrency: string =
+    (targetSwap as any)?.cashDetails?.currency || (targetSwap as any)?.paymentTypes?.currency || 'USD';
+
   const handleFormSubmit = async (formData: any) => {
     console.log('🔵 handleFormSubmit called with:', {
       formData,
@@ -334,7 +339,7 @@ export const MakeProposalModal: React.FC<MakeProposalModalProps> = ({
       const cashOfferData = {
         swapId: targetSwap.id,
         amount: formData.cashAmount,
-        currency: 'USD', // Default to USD, could be configurable
+        currency: formData.currency || ownerCurrency,
         paymentMethodId: formData.paymentMethodId || 'default-payment-method', // TODO: Get from user's payment methods
         escrowAgreement: formData.escrowAgreement || true,
         message: formData.message,
@@ -432,7 +437,7 @@ export const MakeProposalModal: React.FC<MakeProposalModalProps> = ({
         type: 'swap_proposal',
         title: isCashProposal ? 'Cash Offer Submitted Successfully' : 'Proposal Submitted Successfully',
         message: isCashProposal
-          ? `Your cash offer of $${formData.cashAmount} for "${targetSwap.title || 'the selected swap'}" has been submitted and is now pending review.`
+          ? `Your cash offer of ${formatCurrencyAmount(formData.cashAmount, formData.currency || ownerCurrency)} for "${targetSwap.title || 'the selected swap'}" has been submitted and is now pending review.`
           : `Your proposal for "${targetSwap.title || 'the selected swap'}" has been submitted and is now pending review.`,
         data: {
           proposalId: result.proposalId,
@@ -454,7 +459,7 @@ export const MakeProposalModal: React.FC<MakeProposalModalProps> = ({
       // Announce success for accessibility
       announce(
         isCashProposal
-          ? `Cash offer of $${formData.cashAmount} submitted successfully. The swap owner will review your offer and respond within ${result.estimatedResponseTime}.`
+          ? `Cash offer of ${formatCurrencyAmount(formData.cashAmount, formData.currency || ownerCurrency)} submitted successfully. The swap owner will review your offer and respond within ${result.estimatedResponseTime}.`
           : `Proposal submitted successfully. The swap owner will review your proposal and respond within ${result.estimatedResponseTime}.`,
         'polite'
       );
@@ -467,7 +472,7 @@ export const MakeProposalModal: React.FC<MakeProposalModalProps> = ({
         message: formData.message,
         conditions: formData.conditions,
         agreedToTerms: formData.agreedToTerms,
-        ...(isCashProposal && { cashOffer: { amount: formData.cashAmount, currency: 'USD' } }),
+        ...(isCashProposal && { cashOffer: { amount: formData.cashAmount, currency: formData.currency || ownerCurrency } }),
       };
 
       // Call the original onSubmit for parent component handling
@@ -1475,7 +1480,7 @@ export const MakeProposalModal: React.FC<MakeProposalModalProps> = ({
                       cashDetails={{
                         minimumAmount: (targetSwap as any)?.paymentTypes?.minimumCashAmount || 0,
                         preferredAmount: (targetSwap as any)?.paymentTypes?.preferredCashAmount || undefined,
-                        currency: 'USD'
+                        currency: ownerCurrency
                       }}
                     />
                   ) : (
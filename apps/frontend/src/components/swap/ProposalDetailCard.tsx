@@ -1,10 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardFooter } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { tokens } from '../../design-system/tokens';
 import { useResponsive } from '../../hooks/useResponsive';
 import { useId, useAnnouncements, useHighContrast } from '../../hooks/useAccessibility';
-import { IncomingTargetInfo, BookingType } from '@booking-swap/shared';
+import { IncomingTargetInfo, BookingType, ConvertedAmount } from '@booking-swap/shared';
 
 // Extended booking details interface for proposal display
 interface ExtendedBookingDetails {
@@ -30,6 +30,8 @@ interface ExtendedBookingDetails {
 import { FinancialDataHandler } from '../../utils/financialDataHandler';
 import { proposalService } from '../../services/proposalService';
 import ProposalDetailsModal from './ProposalDetailsModal';
+import { ReputationBadge } from './ReputationBadge';
+import { currencyService } from '../../services/currencyService';
 import { getButtonAria, getHighContrastStyles } from '../../utils/accessibility';
 
 interface ProposalDetailCardProps {
@@ -38,6 +40,8 @@ interface ProposalDetailCardProps {
     onReject: (proposalId: string) => void;
     isProcessing?: boolean;
     showActions?: boolean;
+    /** Also show the proposal's value converted into this currency */
+    displayCurrency?: string;
 }
 
 const getBookingTypeIcon = (type: BookingType): string => {
@@ -151,6 +155,7 @@ export const ProposalDetailCard: React.FC<ProposalDetailCardProps> = ({
     onReject,
     isProcessing = false,
     showActions = true,
+    displayCurrency,
 }) => {
     const { isMobile } = useResponsive();
     const { announce } = useAnnouncements();
@@ -159,6 +164,37 @@ export const ProposalDetailCard: React.FC<ProposalDetailCardProps> = ({
     const titleId = useId('proposal-title');
     const [actionLoading, setActionLoading] = useState<'accept' | 'reject' | null>(null);
     const [showDetailsModal, setShowDetailsModal] = useState(false);
+    const [convertedValue, setConvertedValue] = useState<ConvertedAmount | null>(null);
+
+    // Cash proposals are valued by the offer, booking proposals by the booking
+    const proposalValue = proposal.cashOffer || {
+        amount: proposal.sourceSwap.bookingDetails.swapValue || 0,
+        currency: (proposal.sourceSwap.bookingDetails as ExtendedBookingDetails).currency || 'USD',
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        setConvertedValue(null);
+
+        if (!displayCurrency || displayCurrency.toUpperCase() === proposalValue.currency.toUpperCase()) {
+            return;
+        }
+
+        currencyService
+            .convert(proposalValue.amount, proposalValue.currency, displayCurrency)
+            .then(converted => {
+                if (!cancelled) {
+                    setConvertedValue(converted);
+                }
+            })
+            .catch(() => {
+                // The original amount is still shown
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [proposalValue.amount, proposalValue.currency, displayCurrency]);
 
     const statusColor = getStatusColor(proposal.status);
     const statusIcon = getStatusIcon(proposal.status);
@@ -323,6 +359,9 @@ export const ProposalDetailCard: React.FC<ProposalDetailCardProps> = ({
                             >
                                 Proposed {formatDate(proposal.createdAt)}
                             </div>
+                            <div style={{ marginTop: tokens.spacing[1] }}>
+                                <ReputationBadge userId={proposal.sourceSwap.ownerId} />
+                            </div>
                         </div>
                     </div>
 
@@ -468,11 +507,25 @@ export const ProposalDetailCard: React.FC<ProposalDetailCardProps> = ({
                                 }}
                             >
                                 {FinancialDataHandler.formatCurrencyForContext(
-                                    proposal.sourceSwap.bookingDetails.swapValue || 0,
-                                    (proposal.sourceSwap.bookingDetails as ExtendedBookingDetails).currency || 'USD',
+                                    proposalValue.amount,
+                                    proposalValue.currency,
                                     'detail'
                                 )}
                             </div>
+                            {convertedValue && (
+                                <div
+                                    style={{
+                                        fontSize: tokens.typography.fontSize.sm,
+                                        color: tokens.colors.neutral[600],
+                                    }}
+                                >
+                                    ≈ {FinancialDataHandler.formatCurrencyForContext(
+                                        convertedValue.amount,
+                                        convertedValue.currency,
+                                        'detail'
+                                    )}
+                                </div>
+                            )}
                             <div
                                 style={{
                                     fontSize: tokens.typography.fontSize.xs,
@@ -480,7 +533,7 @@ export const ProposalDetailCard: React.FC<ProposalDetailCardProps> = ({
                                     marginTop: tokens.spacing[1],
                                 }}
                             >
-                                Proposed swap value
+                                {proposal.cashOffer ? 'Cash offer' : 'Proposed swap value'}
                             </div>
                         </div>
 
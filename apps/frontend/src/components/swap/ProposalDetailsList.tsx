@@ -17,6 +17,7 @@ interface ProposalDetailsListProps {
     emptyStateMessage?: string;
     showActions?: boolean;
     maxVisible?: number;
+    displayCurrency?: string;
 }
 
 export const ProposalDetailsList: React.FC<ProposalDetailsListProps> = ({
@@ -28,6 +29,7 @@ export const ProposalDetailsList: React.FC<ProposalDetailsListProps> = ({
     emptyStateMessage = 'No proposals received yet',
     showActions = true,
     maxVisible = 5,
+    displayCurrency,
 }) => {
     const { isMobile } = useResponsive();
     const { announce } = useAnnouncements();
@@ -263,6 +265,7 @@ export const ProposalDetailsList: React.FC<ProposalDetailsListProps> = ({
                             onReject={handleRejectProposal}
                             isProcessing={isProcessing || processingProposalId === proposal.proposalId}
                             showActions={showActions && proposal.status === 'active'}
+                            displayCurrency={displayCurrency}
                         />
                     </div>
                 ))}
@@ -30,6 +30,7 @@ interface ExtendedBookingDetails {
 import { FinancialDataHandler } from '../../utils/financialDataHandler';
 import { proposalService, ProposalDetailsResponse } from '../../services/proposalService';
 import { getButtonAria, getHighContrastStyles } from '../../utils/accessibility';
+import { ChatDrawer } from '../messaging/ChatDrawer';
 
 interface ProposalDetailsModalProps {
     proposalId: string;
@@ -117,6 +118,7 @@ export const ProposalDetailsModal: React.FC<ProposalDetailsModalProps> = ({
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [actionLoading, setActionLoading] = useState<'accept' | 'reject' | null>(null);
+    const [showMessages, setShowMessages] = useState(false);
 
     // Load proposal details when modal opens
     useEffect(() => {
@@ -253,16 +255,37 @@ export const ProposalDetailsModal: React.FC<ProposalDetailsModalProps> = ({
                         Proposal Details
                     </h2>
 
-                    <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={onClose}
-                        {...getButtonAria('Close modal')}
-                    >
-                        ✕
-                    </Button>
+                    <div style={{ display: 'flex', gap: tokens.spacing[2] }}>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowMessages(true)}
+                            {...getButtonAria('Message the proposer')}
+                        >
+                            💬 Message
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={onClose}
+                            {...getButtonAria('Close modal')}
+                        >
+                            ✕
+                        </Button>
+                    </div>
                 </div>
 
+                <ChatDrawer
+                    isOpen={showMessages}
+                    onClose={() => setShowMessages(false)}
+                    proposalId={proposalId}
+                    title={
+                        proposalDetails
+                            ? `Messages with ${proposalDetails.proposal.sourceSwap.ownerName}`
+                            : 'Messages'
+                    }
+                />
+
                 {/* Content */}
                 <div style={{ padding: tokens.spacing[6] }}>
                     {loading && (
@@ -15,6 +15,7 @@ import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardHeader } from '@/components/ui/Card';
 import { tokens } from '@/design-system/tokens';
 import { SwapWithBookings, SwapProposal } from '@/services/swapService';
+import { proposalAcceptanceAPI } from '@/services/proposalAcceptanceAPI';
 import { BookingType } from '@booking-swap/shared';
 
 interface ProposalResponseModalProps {
@@ -24,6 +25,7 @@ interface ProposalResponseModalProps {
   proposals: SwapProposal[];
   onProposalAccepted?: (proposalId: string) => void;
   onProposalRejected?: (proposalId: string) => void;
+  onProposalCountered?: (proposalId: string) => void;
 }
 
 interface ProposalWithBooking extends SwapProposal {
@@ -80,6 +82,7 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
   proposals,
   onProposalAccepted,
   onProposalRejected,
+  onProposalCountered,
 }) => {
   const dispatch = useAppDispatch();
   const loading = useAppSelector(selectSwapsLoading);
@@ -88,6 +91,12 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
   const [selectedProposal, setSelectedProposal] = useState<string | null>(null);
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
+  const [showCounterModal, setShowCounterModal] = useState(false);
+  const [counterPayment, setCounterPayment] = useState('');
+  const [counterConditions, setCounterConditions] = useState('');
+  const [counterExpiresAt, setCounterExpiresAt] = useState('');
+  const [counterMessage, setCounterMessage] = useState('');
+  const [counterError, setCounterError] = useState<string | null>(null);
   const [processingProposal, setProcessingProposal] = useState<string | null>(
     null
   );
@@ -98,6 +107,7 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
       setSelectedProposal(null);
       setShowRejectModal(false);
       setRejectReason('');
+      resetCounterForm();
       setProcessingProposal(null);
     }
   }, [isOpen]);
@@ -157,6 +167,57 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
     setRejectReason('');
   };
 
+  // Clear counter-offer form
+  const resetCounterForm = () => {
+    setShowCounterModal(false);
+    setCounterPayment('');
+    setCounterConditions('');
+    setCounterExpiresAt('');
+    setCounterMessage('');
+    setCounterError(null);
+  };
+
+  // Open counter-offer modal
+  const openCounterModal = (proposalId: string) => {
+    setSelectedProposal(proposalId);
+    setShowCounterModal(true);
+  };
+
+  // Close counter-offer modal
+  const closeCounterModal = () => {
+    resetCounterForm();
+    setSelectedProposal(null);
+  };
+
+  // Handle counter-offer with amended terms
+  const handleCounterProposal = async (proposalId: string) => {
+    const conditions = counterConditions
+      .split(';')
+      .map(condition => condition.trim())
+      .filter(Boolean);
+
+    try {
+      setProcessingProposal(proposalId);
+      setCounterError(null);
+      await proposalAcceptanceAPI.counterProposal(proposalId, {
+        additionalPayment: counterPayment ? Number(counterPayment) : undefined,
+        conditions: conditions.length > 0 ? conditions : undefined,
+        expiresAt: counterExpiresAt ? new Date(counterExpiresAt) : undefined,
+        message: counterMessage.trim() || undefined,
+      });
+      onProposalCountered?.(proposalId);
+      closeCounterModal();
+      dispatch(fetchProposals(swap.id));
+    } catch (error) {
+      console.error('Failed to send counter-offer:', error);
+      setCounterError(
+        error instanceof Error ? error.message : 'Failed to send counter-offer'
+      );
+    } finally {
+      setProcessingProposal(null);
+    }
+  };
+
   // Filter pending proposals
   const pendingProposals = proposals.filter(p => p.status === 'pending');
 
@@ -583,6 +644,14 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
                       >
                         Reject
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openCounterModal(proposal.id)}
+                        disabled={processingProposal === proposal.id}
+                      >
+                        Counter
+                      </Button>
                       <Button
                         variant="primary"
                         size="sm"
@@ -665,6 +734,87 @@ export const ProposalResponseModal: React.FC<ProposalResponseModalProps> = ({
           </div>
         </div>
       </Modal>
+
+      {/* Counter-offer Modal */}
+      <Modal
+        isOpen={showCounterModal}
+        onClose={closeCounterModal}
+        title="Counter Proposal"
+        size="md"
+      >
+        <div>
+          <p
+            style={{
+              fontSize: tokens.typography.fontSize.base,
+              color: tokens.colors.neutral[700],
+              marginBottom: tokens.spacing[4],
+            }}
+          >
+            Suggest different terms. Anything you leave blank keeps the
+            current terms.
+          </p>
+
+          <Input
+            label="Additional payment (optional)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={counterPayment}
+            onChange={e => setCounterPayment(e.target.value)}
+            style={{ marginBottom: tokens.spacing[4] }}
+          />
+
+          <Input
+            label="Conditions (optional)"
+            placeholder="Late check-out; Pets allowed"
+            helperText="Separate conditions with a semicolon"
+            value={counterConditions}
+            onChange={e => setCounterConditions(e.target.value)}
+            style={{ marginBottom: tokens.spacing[4] }}
+          />
+
+          <Input
+            label="Respond by (optional)"
+            type="datetime-local"
+            value={counterExpiresAt}
+            onChange={e => setCounterExpiresAt(e.target.value)}
+            style={{ marginBottom: tokens.spacing[4] }}
+          />
+
+          <Input
+            label="Message (optional)"
+            placeholder="Explain your counter-offer..."
+            value={counterMessage}
+            onChange={e => setCounterMessage(e.target.value)}
+            error={counterError || undefined}
+            style={{ marginBottom: tokens.spacing[6] }}
+          />
+
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'flex-end',
+              gap: tokens.spacing[3],
+            }}
+          >
+            <Button variant="outline" onClick={closeCounterModal}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={() =>
+                selectedProposal && handleCounterProposal(selectedProposal)
+              }
+              loading={processingProposal === selectedProposal}
+              disabled={
+                !counterPayment && !counterConditions && !counterExpiresAt
+              }
+            >
+              Send Counter-offer
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </>
   );
 };
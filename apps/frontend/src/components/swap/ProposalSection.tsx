@@ -15,6 +15,7 @@ interface ProposalSectionProps {
     isProcessing?: boolean;
     showInCard?: boolean;
     maxVisibleInCard?: number;
+    displayCurrency?: string;
 }
 
 export const ProposalSection: React.FC<ProposalSectionProps> = ({
@@ -24,6 +25,7 @@ export const ProposalSection: React.FC<ProposalSectionProps> = ({
     isProcessing = false,
     showInCard = true,
     maxVisibleInCard = 2,
+    displayCurrency,
 }) => {
     const { isMobile } = useResponsive();
     const { announce } = useAnnouncements();
@@ -98,6 +100,7 @@ export const ProposalSection: React.FC<ProposalSectionProps> = ({
                     title="All Proposals"
                     emptyStateMessage="No proposals received yet"
                     showActions={true}
+                    displayCurrency={displayCurrency}
                 />
             </div>
         );
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { UserReputationSummary } from '@booking-swap/shared';
+import { tokens } from '@/design-system/tokens';
+import { reviewService } from '@/services/reviewService';
+
+interface ReputationBadgeProps {
+  userId?: string;
+  // Hide the badge labels and only show the score
+  compact?: boolean;
+}
+
+/**
+ * Shows a user's reputation score, review count and reputation badges.
+ * Renders nothing while loading or if the reputation cannot be fetched.
+ */
+export const ReputationBadge: React.FC<ReputationBadgeProps> = ({
+  userId,
+  compact = false,
+}) => {
+  const [reputation, setReputation] = useState<UserReputationSummary | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+    reviewService
+      .getUserReputation(userId)
+      .then(result => {
+        if (!cancelled) {
+          setReputation(result);
+        }
+      })
+      .catch(() => {
+        // Reputation is supplementary; the card works without it
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (!reputation) {
+    return null;
+  }
+
+  const chipStyles = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    padding: `${tokens.spacing[1]} ${tokens.spacing[2]}`,
+    borderRadius: tokens.borderRadius.full,
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: tokens.typography.fontWeight.medium,
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: tokens.spacing[1],
+      }}
+      aria-label={`Reputation ${reputation.score.toFixed(1)} out of 5 from ${reputation.reviewCount} reviews`}
+    >
+      <span
+        style={{
+          ...chipStyles,
+          backgroundColor: tokens.colors.warning[50],
+          color: tokens.colors.warning[700],
+        }}
+      >
+        ★ {reputation.reviewCount > 0 ? reputation.score.toFixed(1) : '–'}
+        <span style={{ marginLeft: tokens.spacing[1], opacity: 0.8 }}>
+          ({reputation.reviewCount})
+        </span>
+      </span>
+
+      {!compact &&
+        reputation.badges.map(badge => (
+          <span
+            key={badge.id}
+            title={badge.description}
+            style={{
+              ...chipStyles,
+              backgroundColor:
+                badge.id === 'new_member'
+                  ? tokens.colors.neutral[100]
+                  : tokens.colors.success[50],
+              color:
+                badge.id === 'new_member'
+                  ? tokens.colors.neutral[700]
+                  : tokens.colors.success[700],
+            }}
+          >
+            {badge.label}
+          </span>
+        ))}
+    </div>
+  );
+};
+
+export default ReputationBadge;
@@ -14,6 +14,7 @@ import {
 } from '@booking-swap/shared';
 import { aria, screenReader, highContrast, touchTargets, KEYS } from '../../utils/accessibility';
 import { EnhancedSwapCard } from './SwapCard.enhanced';
+import { ReputationBadge } from './ReputationBadge';
 
 interface SwapCardProps {
   // Legacy props for backward compatibility
@@ -505,6 +506,18 @@ export const SwapCard: React.FC<SwapCardProps> = ({
               ? formatDate(currentSwap.timeline.proposedAt)
               : 'Unknown date'}
           </div>
+
+          {/* Reputation of the other party */}
+          <div style={{ marginTop: tokens.spacing[2] }}>
+            <ReputationBadge
+              userId={
+                userRole === 'owner'
+                  ? currentSwap.proposerId
+                  : currentSwap.ownerId
+              }
+              compact={variant === 'compact'}
+            />
+          </div>
         </div>
       </CardHeader>
 
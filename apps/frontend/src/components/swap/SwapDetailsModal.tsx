@@ -12,6 +12,8 @@ import { ProposalDetailsModal } from './ProposalDetailsModal';
 import { CompletionStatusIndicator } from './CompletionStatusIndicator';
 import { CompletionDetailsModal } from './CompletionDetailsModal';
 import { CompletionAPI, CompletionStatus } from '@/services/completionAPI';
+import { ChatDrawer } from '@/components/messaging/ChatDrawer';
+import { AddToCalendarButton } from '@/components/calendar/AddToCalendarButton';
 
 interface SwapDetailsModalProps {
     isOpen: boolean;
@@ -131,6 +133,7 @@ export const SwapDetailsModal: React.FC<SwapDetailsModalProps> = ({
     const [isLoadingCompletion, setIsLoadingCompletion] = useState(false);
     const [showCompletionDetails, setShowCompletionDetails] = useState(false);
     const [completionError, setCompletionError] = useState<string | null>(null);
+    const [showMessages, setShowMessages] = useState(false);
 
     // Fetch enhanced swap details when modal opens
     useEffect(() => {
@@ -1249,6 +1252,13 @@ export const SwapDetailsModal: React.FC<SwapDetailsModalProps> = ({
                             borderTop: `1px solid ${tokens.colors.neutral[200]}`,
                         }}
                     >
+                        <Button
+                            variant="outline"
+                            onClick={() => setShowMessages(true)}
+                        >
+                            💬 Messages
+                        </Button>
+                        <AddToCalendarButton swapId={userSwap.id} />
                         <Button
                             variant="outline"
                             onClick={onClose}
@@ -1260,6 +1270,14 @@ export const SwapDetailsModal: React.FC<SwapDetailsModalProps> = ({
                 </div>
             </Modal>
 
+            {/* Direct messages about this swap */}
+            <ChatDrawer
+                isOpen={showMessages}
+                onClose={() => setShowMessages(false)}
+                swapId={userSwap.id}
+                title={`Messages about ${bookingDetails?.title || 'this swap'}`}
+            />
+
             {/* Proposal Details Modal */}
             {selectedProposalId && (
                 <ProposalDetailsModal
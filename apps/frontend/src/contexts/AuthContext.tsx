@@ -34,14 +34,22 @@ interface TokenPayload {
   email?: string;
   username?: string;
   walletAddress?: string;
+  twoFactorVerifiedAt?: number;
   exp: number;
   iat: number;
 }
 
+// Email login either signs the user in or asks for a second factor first
+export type LoginOutcome =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string; expiresAt: string };
+
 export interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginOutcome>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
+  verifySecondFactor: (code: string) => Promise<void>; // Step-up before sensitive actions
   register: (
     username: string,
     email: string,
@@ -159,6 +167,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Helper function to clear authentication storage consistently
   const clearAuthStorage = () => {
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_refresh_token');
     localStorage.removeItem('auth_user');
     setUser(null);
     setToken(null);
@@ -254,6 +263,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (!validation.isValid) {
         console.log(`Token ${validation.reason} during session`);
 
+        // An expired token can be renewed with the session's refresh token
+        if (validation.reason === 'expired' && await renewSession()) {
+          return;
+        }
+
         const handlingResult = await handleAuthError(
           { reason: validation.reason, message: `Token ${validation.reason}` },
           createErrorContext('/auth/periodic-check', 'token_validation')
@@ -294,7 +308,53 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, []);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  // Store a session returned by the backend and sync it to Redux
+  const establishSession = (
+    sessionUser: User,
+    sessionToken: string,
+    operation: string,
+    refreshToken?: string
+  ) => {
+    // Validate token before setting auth state
+    const validation = validateToken(sessionToken);
+    if (!validation.isValid) {
+      console.warn(`${operation} received invalid token from backend:`, validation.reason);
+      throw new Error('Received invalid authentication token');
+    }
+
+    setUser(sessionUser);
+    setToken(sessionToken);
+    setLastValidation(new Date());
+
+    // Save to localStorage
+    localStorage.setItem('auth_token', sessionToken);
+    localStorage.setItem('auth_user', JSON.stringify(sessionUser));
+    if (refreshToken) {
+      localStorage.setItem('auth_refresh_token', refreshToken);
+    }
+
+    // Immediately sync to Redux store
+    try {
+      const reduxUser = convertUserForRedux(sessionUser);
+      dispatch(initializeFromAuthContext({
+        user: reduxUser,
+        isAuthenticated: true,
+        syncSource: 'api'
+      }));
+
+      dispatch(setSyncStatus({
+        lastSyncTime: new Date(),
+        syncSource: 'api',
+        hasSyncError: false,
+        syncErrorMessage: null,
+      }));
+    } catch (syncError) {
+      console.error(`Failed to sync ${operation.toLowerCase()} data to Redux:`, syncError);
+      dispatch(setSyncError(`Failed to sync ${operation.toLowerCase()} data: ${syncError instanceof Error ? syncError.message : 'Unknown error'}`));
+    }
+  };
+
+  const login = async (email: string, password: string): Promise<LoginOutcome> => {
     setIsLoading(true);
     setIsStable(false); // Mark as unstable during login
 
@@ -314,55 +374,120 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const data = await response.json();
 
-      if (data.success && data.user && data.token) {
-        // Validate token before setting auth state
-        const validation = validateToken(data.token);
-        if (!validation.isValid) {
-          console.warn('Login received invalid token from backend:', validation.reason);
-          throw new Error('Received invalid authentication token');
-        }
+      if (data.success && data.twoFactorRequired && data.challengeToken) {
+        // No session yet: the caller asks for a code and completes the login
+        setIsStable(true);
+        return {
+          twoFactorRequired: true,
+          challengeToken: data.challengeToken,
+          expiresAt: data.expiresAt,
+        };
+      }
 
-        setUser(data.user);
-        setToken(data.token);
-        setLastValidation(new Date());
+      if (data.success && data.user && data.token) {
+        establishSession(data.user, data.token, 'Login', data.refreshToken);
+        setIsStable(true); // Mark as stable after successful login
+        return { twoFactorRequired: false };
+      } else {
+        throw new Error('Invalid response format');
+      }
+    } catch (error) {
+      console.error('Login error:', error);
+      setIsStable(true); // Mark as stable even on error (no auth state)
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        // Save to localStorage
-        localStorage.setItem('auth_token', data.token);
-        localStorage.setItem('auth_user', JSON.stringify(data.user));
+  const completeTwoFactorLogin = async (challengeToken: string, code: string): Promise<void> => {
+    setIsLoading(true);
+    setIsStable(false);
 
-        // Immediately sync to Redux store
-        try {
-          const reduxUser = convertUserForRedux(data.user);
-          dispatch(initializeFromAuthContext({
-            user: reduxUser,
-            isAuthenticated: true,
-            syncSource: 'api'
-          }));
+    try {
+      const response = await fetch(getApiUrl('/auth/email-login/verify'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
 
-          dispatch(setSyncStatus({
-            lastSyncTime: new Date(),
-            syncSource: 'api',
-            hasSyncError: false,
-            syncErrorMessage: null,
-          }));
-        } catch (syncError) {
-          console.error('Failed to sync login data to Redux:', syncError);
-          dispatch(setSyncError(`Failed to sync login data: ${syncError instanceof Error ? syncError.message : 'Unknown error'}`));
-        }
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Verification failed');
+      }
 
-        setIsStable(true); // Mark as stable after successful login
+      if (data.success && data.user && data.token) {
+        establishSession(data.user, data.token, 'Two-factor login', data.refreshToken);
+        setIsStable(true);
       } else {
         throw new Error('Invalid response format');
       }
     } catch (error) {
-      console.error('Login error:', error);
-      setIsStable(true); // Mark as stable even on error (no auth state)
+      console.error('Two-factor login error:', error);
+      setIsStable(true);
       throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Swap the session token for one that sensitive actions accept for a few minutes
+  const verifySecondFactor = async (code: string): Promise<void> => {
+    if (!token || !user) {
+      throw new Error('You need to be signed in');
+    }
+
+    const response = await fetch(getApiUrl('/auth/2fa/verify'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ code }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success || !data.data?.token) {
+      throw new Error(data.error?.message || 'Verification failed');
+    }
+
+    establishSession(user, data.data.token, 'Step-up verification');
+  };
+
+  // Exchange the stored refresh token for a new session token. The refresh
+  // token is single use, so the one returned replaces it.
+  const renewSession = async (): Promise<boolean> => {
+    const refreshToken = localStorage.getItem('auth_refresh_token');
+    const savedUser = localStorage.getItem('auth_user');
+    if (!refreshToken || !savedUser) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(getApiUrl('/auth/sessions/refresh'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success || !data.data?.token) {
+        localStorage.removeItem('auth_refresh_token');
+        return false;
+      }
+
+      establishSession(JSON.parse(savedUser), data.data.token, 'Session refresh', data.data.refreshToken);
+      return true;
+    } catch (error) {
+      console.error('Session refresh error:', error);
+      return false;
+    }
+  };
+
   const register = async (
     username: string,
     email: string,
@@ -403,6 +528,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Save to localStorage
         localStorage.setItem('auth_token', data.token);
         localStorage.setItem('auth_user', JSON.stringify(data.user));
+        if (data.refreshToken) {
+          localStorage.setItem('auth_refresh_token', data.refreshToken);
+        }
 
         // Immediately sync to Redux store
         try {
@@ -446,6 +574,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
     authOperationInProgress.current = true;
     try {
+      // End the session on the server too; sign-out goes ahead locally either way
+      const currentToken = localStorage.getItem('auth_token');
+      if (currentToken) {
+        fetch(getApiUrl('/auth/logout'), {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${currentToken}`,
+          },
+        }).catch(error => console.warn('Server sign-out failed:', error));
+      }
+
       clearAuthStorage();
       setIsStable(true); // Reset to stable state after logout
       setLastValidation(null);
@@ -515,6 +654,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     user,
     token,
     login,
+    completeTwoFactorLogin,
+    verifySecondFactor,
     register,
     logout,
     isLoading,
@@ -0,0 +1,79 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from 'react';
+import {
+  createTranslator,
+  formatLocalizedCurrency,
+  formatLocalizedDate,
+  formatLocalizedNumber,
+  Locale,
+  resolveLocale,
+  Translate,
+} from '@booking-swap/shared';
+import { getStoredLocale, storeLocale } from '@/utils/localeStorage';
+
+export interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const useTranslation = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within an I18nProvider');
+  }
+  return context;
+};
+
+// A saved choice wins over the browser language
+const getInitialLocale = (): Locale =>
+  getStoredLocale() || resolveLocale(navigator.languages?.join(',') || navigator.language);
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    storeLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextType>(
+    () => ({
+      locale,
+      setLocale,
+      t: createTranslator(locale, {
+        onMissingKey: (key, missingLocale) => {
+          if (process.env.NODE_ENV === 'development') {
+            console.warn(`Missing ${missingLocale} translation for "${key}"`);
+          }
+        },
+      }),
+      formatDate: (value, options) => formatLocalizedDate(locale, value, options),
+      formatNumber: (value, options) => formatLocalizedNumber(locale, value, options),
+      formatCurrency: (amount, currency) => formatLocalizedCurrency(locale, amount, currency),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
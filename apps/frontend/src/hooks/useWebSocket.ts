@@ -2,7 +2,11 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { Notification } from '@booking-swap/shared';
+import {
+  Notification,
+  ConversationMessageEvent,
+  ConversationReadEvent,
+} from '@booking-swap/shared';
 import { SwapEvent } from '../services/swapService';
 import { useWebSocketHealth } from './useWebSocketHealth';
 import {
@@ -69,6 +73,11 @@ interface UseWebSocketOptions {
   onTargetingRetargeted?: (data: TargetingUpdateData) => void;
   onTargetingCancelled?: (data: TargetingUpdateData) => void;
   onAuctionCountdownUpdate?: (data: TargetingUpdateData) => void;
+  // Direct messaging
+  onConversationMessage?: (data: ConversationMessageEvent) => void;
+  onConversationRead?: (data: ConversationReadEvent) => void;
+  onTypingStart?: (data: { userId: string; conversationId?: string }) => void;
+  onTypingStop?: (data: { userId: string; conversationId?: string }) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onReconnect?: () => void;
@@ -301,13 +310,23 @@ export const useWebSocket = (options: UseWebSocketOptions = {}) => {
     eventHandlers.onAuctionCountdownUpdate?.(data);
   }, [eventHandlers.onAuctionCountdownUpdate]);
 
-  const handleTypingStart = useCallback((data: { userId: string }) => {
+  const handleTypingStart = useCallback((data: { userId: string; conversationId?: string }) => {
     console.log('User started typing:', data.userId);
-  }, []);
+    eventHandlers.onTypingStart?.(data);
+  }, [eventHandlers.onTypingStart]);
 
-  const handleTypingStop = useCallback((data: { userId: string }) => {
+  const handleTypingStop = useCallback((data: { userId: string; conversationId?: string }) => {
     console.log('User stopped typing:', data.userId);
-  }, []);
+    eventHandlers.onTypingStop?.(data);
+  }, [eventHandlers.onTypingStop]);
+
+  const handleConversationMessage = useCallback((data: ConversationMessageEvent) => {
+    eventHandlers.onConversationMessage?.(data);
+  }, [eventHandlers.onConversationMessage]);
+
+  const handleConversationRead = useCallback((data: ConversationReadEvent) => {
+    eventHandlers.onConversationRead?.(data);
+  }, [eventHandlers.onConversationRead]);
 
   useEffect(() => {
     const token = getAuthToken();
@@ -377,6 +396,10 @@ export const useWebSocket = (options: UseWebSocketOptions = {}) => {
         socketRef.current.on('typing:start', handleTypingStart);
         socketRef.current.on('typing:stop', handleTypingStop);
 
+        // Direct messages
+        socketRef.current.on('message:new', handleConversationMessage);
+        socketRef.current.on('message:read', handleConversationRead);
+
       } catch (error) {
         console.error('Failed to establish throttled WebSocket connection:', error);
         setConnectionError(error instanceof Error ? error.message : 'Connection failed');
@@ -425,6 +448,8 @@ export const useWebSocket = (options: UseWebSocketOptions = {}) => {
     handleAuctionEnded,
     handleTypingStart,
     handleTypingStop,
+    handleConversationMessage,
+    handleConversationRead,
   ]);
 
   // Helper functions
@@ -458,6 +483,19 @@ export const useWebSocket = (options: UseWebSocketOptions = {}) => {
     }
   };
 
+  // Typing indicators only reach conversations the user has opened
+  const startConversationTyping = (conversationId: string) => {
+    if (socketRef.current?.connected) {
+      socketRef.current.emit('typing:start', { conversationId });
+    }
+  };
+
+  const stopConversationTyping = (conversationId: string) => {
+    if (socketRef.current?.connected) {
+      socketRef.current.emit('typing:stop', { conversationId });
+    }
+  };
+
   // Targeting-specific helper functions
   const subscribeToTargeting = (swapId: string) => {
     if (socketRef.current?.connected) {
@@ -486,6 +524,8 @@ export const useWebSocket = (options: UseWebSocketOptions = {}) => {
     leaveSwapRoom,
     startTyping,
     stopTyping,
+    startConversationTyping,
+    stopConversationTyping,
     subscribeToTargeting,
     unsubscribeFromTargeting,
     markTargetingAsRead,
@@ -2,12 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { AdminDashboard } from '../components/admin/AdminDashboard';
 import { DisputeManagement } from '../components/admin/DisputeManagement';
+import { BookingVerificationReview } from '../components/admin/BookingVerificationReview';
 import { UserManagement } from '../components/admin/UserManagement';
 import { SystemMaintenance } from '../components/admin/SystemMaintenance';
 import { useAppSelector } from '../store/hooks';
 import { WALLET_CONFIG } from '../../tests/fixtures/wallet-config';
 
-type AdminTab = 'dashboard' | 'disputes' | 'users' | 'maintenance';
+type AdminTab = 'dashboard' | 'disputes' | 'verifications' | 'users' | 'maintenance';
 
 export const AdminPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AdminTab>('dashboard');
@@ -45,6 +46,7 @@ export const AdminPage: React.FC = () => {
   const tabs = [
     { id: 'dashboard' as AdminTab, label: 'Dashboard', icon: '📊' },
     { id: 'disputes' as AdminTab, label: 'Disputes', icon: '⚖️' },
+    { id: 'verifications' as AdminTab, label: 'Verifications', icon: '🔍' },
     { id: 'users' as AdminTab, label: 'Users', icon: '👥' },
     { id: 'maintenance' as AdminTab, label: 'Maintenance', icon: '🔧' },
   ];
@@ -55,6 +57,8 @@ export const AdminPage: React.FC = () => {
         return <AdminDashboard />;
       case 'disputes':
         return <DisputeManagement />;
+      case 'verifications':
+        return <BookingVerificationReview />;
       case 'users':
         return <UserManagement />;
       case 'maintenance':
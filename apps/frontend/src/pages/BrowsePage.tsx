@@ -1,10 +1,14 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { tokens } from '@/design-system/tokens';
 import { Button, Input, CallToActionBanner, MessageBanner } from '@/components/ui';
 import { MakeProposalModal } from '@/components/swap/MakeProposalModal';
+import { SavedSearchesPanel } from '@/components/booking/SavedSearchesPanel';
+import { IntegratedFilterPanel, EnhancedBookingFilters } from '@/components/booking/IntegratedFilterPanel';
+import { BookingMap } from '@/components/booking/BookingMap';
+import { swapService, SwapWithBookings } from '@/services/swapService';
 import { FinancialDataHandler } from '../utils/financialDataHandler';
 import { useBrowseData } from '../hooks/useBrowseData';
 import { BookingWithProposalStatus, canUserPropose, getProposalStatusConfig } from '../types/browsePageFiltering';
@@ -346,6 +350,15 @@ export const BrowsePage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'created' | 'price' | 'proposals'>('created');
 
+  // Filters are shared by the list and the map, so switching views keeps them
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [filters, setFilters] = useState<EnhancedBookingFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+
+  // The user's own open swaps, to score map bookings against
+  const [mySwaps, setMySwaps] = useState<SwapWithBookings[]>([]);
+  const [compatibilitySwapId, setCompatibilitySwapId] = useState('');
+
   // Modal state
   const [isProposalModalOpen, setIsProposalModalOpen] = useState(false);
   const [selectedBookingForProposal, setSelectedBookingForProposal] = useState<BookingWithProposalStatus | null>(null);
@@ -359,6 +372,14 @@ export const BrowsePage: React.FC = () => {
   const [isSwapDetailsModalOpen, setIsSwapDetailsModalOpen] = useState(false);
   const [selectedSwapForDetails, setSelectedSwapForDetails] = useState<SwapWithProposalInfo | null>(null);
 
+  useEffect(() => {
+    if (viewMode !== 'map' || !isAuthenticated || !user) return;
+
+    swapService.getSwaps(user.id, { status: ['pending'] })
+      .then(swaps => setMySwaps(swaps.filter(swap => swap.sourceBooking?.userId === user.id)))
+      .catch(error => console.error('Failed to load your swaps for compatibility scores:', error));
+  }, [viewMode, isAuthenticated, user]);
+
   /**
    * Show a temporary message to the user
    */
@@ -455,6 +476,36 @@ export const BrowsePage: React.FC = () => {
       );
     }
 
+    // Apply the filter panel, matching what the map endpoint filters on
+    if (filters.type && filters.type.length > 0) {
+      filtered = filtered.filter(booking => filters.type!.includes(booking.type));
+    }
+
+    if (filters.location?.city) {
+      const city = filters.location.city.toLowerCase();
+      filtered = filtered.filter(booking => booking.location?.city?.toLowerCase().includes(city));
+    }
+
+    if (filters.location?.country) {
+      const country = filters.location.country.toLowerCase();
+      filtered = filtered.filter(booking => booking.location?.country?.toLowerCase().includes(country));
+    }
+
+    if (filters.priceRange) {
+      const { min, max } = filters.priceRange;
+      filtered = filtered.filter(booking =>
+        (!min || (booking.swapValue || 0) >= min) && (!max || (booking.swapValue || 0) <= max)
+      );
+    }
+
+    if (filters.dateRange) {
+      const { start, end } = filters.dateRange;
+      filtered = filtered.filter(booking =>
+        !booking.dateRange ||
+        (new Date(booking.dateRange.checkIn) <= end && new Date(booking.dateRange.checkOut) >= start)
+      );
+    }
+
     // Apply sorting
     filtered.sort((a, b) => {
       switch (sortBy) {
@@ -472,7 +523,13 @@ export const BrowsePage: React.FC = () => {
     });
 
     return filtered;
-  }, [bookings, searchQuery, sortBy]);
+  }, [bookings, searchQuery, sortBy, filters]);
+
+  // The map reloads whenever its filters object changes, so only build a new one when they do
+  const mapFilters = useMemo(
+    () => ({ ...filters, query: searchQuery.trim() || undefined }),
+    [filters, searchQuery]
+  );
 
   /**
    * Handle booking selection for details view (keeping existing functionality)
@@ -516,6 +573,36 @@ export const BrowsePage: React.FC = () => {
     }
   };
 
+  /**
+   * Handle a booking picked on the map. Bookings outside the loaded list
+   * are shown with the details the map has.
+   */
+  const handleMapBookingSelect = (marker: { id: string; title: string; type: string; city: string; country: string; swapValue: number }) => {
+    const booking = bookings.find(candidate => candidate.id === marker.id);
+    if (booking) {
+      handleBookingSelect(booking);
+      return;
+    }
+
+    setSelectedSwapForDetails({
+      id: marker.id,
+      sourceBooking: {
+        id: marker.id,
+        title: marker.title,
+        location: { city: marker.city, country: marker.country },
+        swapValue: marker.swapValue,
+        type: marker.type,
+        userId: '',
+      },
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      proposalCount: 0,
+      userHasProposed: false,
+      userProposalStatus: 'none',
+    });
+    setIsSwapDetailsModalOpen(true);
+  };
+
   /**
    * Handle closing the proposal modal
    */
@@ -741,6 +828,14 @@ export const BrowsePage: React.FC = () => {
           />
         )}
 
+        {/* Saved searches with alerts for new matching listings */}
+        {isAuthenticated && (
+          <SavedSearchesPanel
+            query={searchQuery}
+            onApply={(search) => setSearchQuery(search.filters.query || '')}
+          />
+        )}
+
         {/* Search and Sort Controls */}
         <div style={{
           display: 'flex',
@@ -781,10 +876,96 @@ export const BrowsePage: React.FC = () => {
               <option value="proposals">Most Proposals</option>
             </select>
           </div>
+
+          <div style={{ display: 'flex', gap: tokens.spacing[2] }}>
+            <Button
+              variant={showFilters ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setShowFilters(!showFilters)}
+              aria-expanded={showFilters}
+            >
+              Filters{Object.keys(filters).length > 0 ? ` (${Object.keys(filters).length})` : ''}
+            </Button>
+            <Button
+              variant={viewMode === 'list' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setViewMode('list')}
+              aria-pressed={viewMode === 'list'}
+            >
+              List
+            </Button>
+            <Button
+              variant={viewMode === 'map' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setViewMode('map')}
+              aria-pressed={viewMode === 'map'}
+            >
+              Map
+            </Button>
+          </div>
         </div>
 
+        {showFilters && (
+          <div style={{ marginBottom: tokens.spacing[6] }}>
+            <IntegratedFilterPanel
+              filters={filters}
+              onChange={setFilters}
+              onReset={() => setFilters({})}
+            />
+          </div>
+        )}
+
+        {/* Map View */}
+        {viewMode === 'map' && (
+          <div style={{ marginBottom: tokens.spacing[6] }}>
+            {isAuthenticated && mySwaps.length > 0 && (
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: tokens.spacing[2],
+                marginBottom: tokens.spacing[3],
+              }}>
+                <label
+                  htmlFor="compatibility-swap"
+                  style={{
+                    fontSize: tokens.typography.fontSize.sm,
+                    fontWeight: tokens.typography.fontWeight.medium,
+                    color: tokens.colors.neutral[700],
+                  }}
+                >
+                  Show matches for:
+                </label>
+                <select
+                  id="compatibility-swap"
+                  value={compatibilitySwapId}
+                  onChange={(e) => setCompatibilitySwapId(e.target.value)}
+                  style={{
+                    padding: `${tokens.spacing[2]} ${tokens.spacing[3]}`,
+                    border: `1px solid ${tokens.colors.neutral[300]}`,
+                    borderRadius: tokens.borderRadius.md,
+                    fontSize: tokens.typography.fontSize.sm,
+                  }}
+                >
+                  <option value="">None</option>
+                  {mySwaps.map(swap => (
+                    <option key={swap.id} value={swap.id}>
+                      {swap.sourceBooking.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <BookingMap
+              filters={mapFilters}
+              compatibilitySwapId={compatibilitySwapId || undefined}
+              onSelectBooking={handleMapBookingSelect}
+            />
+          </div>
+        )}
+
         {/* Loading State */}
-        {loading && (
+        {viewMode === 'list' && loading && (
           <div style={{
             display: 'flex',
             justifyContent: 'center',
@@ -806,7 +987,7 @@ export const BrowsePage: React.FC = () => {
         )}
 
         {/* Error State */}
-        {error && (
+        {viewMode === 'list' && error && (
           <div style={{
             padding: tokens.spacing[6],
             backgroundColor: tokens.colors.error[50],
@@ -881,7 +1062,7 @@ export const BrowsePage: React.FC = () => {
         )}
 
         {/* Results Count and Last Refresh */}
-        {!loading && !error && (
+        {viewMode === 'list' && !loading && !error && (
           <div style={{
             display: 'flex',
             justifyContent: 'space-between',
@@ -919,7 +1100,7 @@ export const BrowsePage: React.FC = () => {
         )}
 
         {/* Bookings Grid */}
-        {!loading && !error && filteredAndSortedBookings.length > 0 && (
+        {viewMode === 'list' && !loading && !error && filteredAndSortedBookings.length > 0 && (
           <div style={{
             display: 'grid',
             gridTemplateColumns: 'repeat(auto-fill, minmax(400px, 1fr))',
@@ -1138,7 +1319,7 @@ export const BrowsePage: React.FC = () => {
         )}
 
         {/* Empty State */}
-        {!loading && !error && filteredAndSortedBookings.length === 0 && (
+        {viewMode === 'list' && !loading && !error && filteredAndSortedBookings.length === 0 && (
           <div style={{
             textAlign: 'center',
             padding: tokens.spacing[12],
@@ -1169,10 +1350,13 @@ export const BrowsePage: React.FC = () => {
                 : 'Try adjusting your search terms to find more results.'
               }
             </p>
-            {searchQuery && (
+            {(searchQuery || Object.keys(filters).length > 0) && (
               <Button
                 variant="outline"
-                onClick={() => setSearchQuery('')}
+                onClick={() => {
+                  setSearchQuery('');
+                  setFilters({});
+                }}
                 style={{ marginTop: tokens.spacing[4] }}
               >
                 Clear Search
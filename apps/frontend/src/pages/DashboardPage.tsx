@@ -7,12 +7,18 @@ import { BookingOverview } from '@/components/dashboard/BookingOverview';
 import { TransactionHistory } from '@/components/dashboard/TransactionHistory';
 import { SwapStatusCenter } from '@/components/dashboard/SwapStatusCenter';
 import { NotificationCenter } from '@/components/dashboard/NotificationCenter';
+import { RecommendedSwaps } from '@/components/dashboard/RecommendedSwaps';
 import { UnifiedBookingForm } from '@/components/booking/UnifiedBookingForm';
 import { Card, CardContent, CardHeader } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { tokens } from '@/design-system/tokens';
 import { UnifiedBookingService } from '@/services/UnifiedBookingService';
-import { UnifiedBookingData, BookingWithSwapInfo } from '@booking-swap/shared';
+import { recommendationService } from '@/services/recommendationService';
+import {
+  UnifiedBookingData,
+  BookingWithSwapInfo,
+  SwapRecommendation,
+} from '@booking-swap/shared';
 import {
   setStats,
   setTransactions,
@@ -38,6 +44,9 @@ export const DashboardPage: React.FC = () => {
   const [unifiedBookings, setUnifiedBookings] = useState<BookingWithSwapInfo[]>([]);
   const [unifiedService] = useState(() => new UnifiedBookingService());
   const [dashboardStats, setDashboardStats] = useState<any>(null);
+  const [recommendations, setRecommendations] = useState<SwapRecommendation[]>([]);
+  const [recommendationsLoading, setRecommendationsLoading] = useState(false);
+  const [recommendationsError, setRecommendationsError] = useState<string | null>(null);
 
   const headerStyles = {
     marginBottom: tokens.spacing[6],
@@ -98,6 +107,22 @@ export const DashboardPage: React.FC = () => {
     }
   };
 
+  // Load the "For you" feed; refresh skips the server's cached feed
+  const loadRecommendations = async (refresh = false) => {
+    setRecommendationsLoading(true);
+    setRecommendationsError(null);
+
+    try {
+      const feed = await recommendationService.getRecommendations({ refresh });
+      setRecommendations(feed.recommendations);
+    } catch (error) {
+      console.error('Failed to load recommendations:', error);
+      setRecommendationsError('Recommendations are unavailable right now');
+    } finally {
+      setRecommendationsLoading(false);
+    }
+  };
+
   // Legacy data initialization - fallback for compatibility
   const loadLegacyDashboardData = () => {
     dispatch(
@@ -211,6 +236,12 @@ export const DashboardPage: React.FC = () => {
     }
   }, [dispatch, bookings, user?.id]);
 
+  useEffect(() => {
+    if (user?.id) {
+      loadRecommendations();
+    }
+  }, [user?.id]);
+
   const handleViewAllBookings = () => {
     navigate('/bookings');
   };
@@ -290,6 +321,17 @@ export const DashboardPage: React.FC = () => {
       {/* Dashboard Stats */}
       <DashboardStats stats={stats} />
 
+      {/* Personalized swap recommendations */}
+      {user?.id && (
+        <RecommendedSwaps
+          recommendations={recommendations}
+          isLoading={recommendationsLoading}
+          error={recommendationsError}
+          onRefresh={() => loadRecommendations(true)}
+          onViewSwap={handleViewSwap}
+        />
+      )}
+
       {/* Main Content Grid */}
       <div style={contentGridStyles}>
         {/* Left Column */}
@@ -3,9 +3,17 @@ import { Card, CardContent, CardHeader } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { tokens } from '@/design-system/tokens';
+import { ApiKeysPanel } from '@/components/auth/ApiKeysPanel';
+import { TwoFactorPanel } from '@/components/auth/TwoFactorPanel';
+import { SessionsPanel } from '@/components/auth/SessionsPanel';
+import { CalendarFeedPanel } from '@/components/calendar/CalendarFeedPanel';
+import { PushNotificationsPanel } from '@/components/notifications/PushNotificationsPanel';
+import { LanguagePanel } from '@/components/common/LanguagePanel';
+import { useTranslation } from '@/contexts/I18nContext';
 import { WALLET_CONFIG } from '../../tests/fixtures/wallet-config';
 
 export const ProfilePage: React.FC = () => {
+  const { t, formatDate, formatNumber } = useTranslation();
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     firstName: 'John',
@@ -103,7 +111,7 @@ export const ProfilePage: React.FC = () => {
   return (
     <div>
       <div style={headerStyles}>
-        <h1 style={titleStyles}>Profile Settings</h1>
+        <h1 style={titleStyles}>{t('profile.title')}</h1>
       </div>
 
       <div style={profileGridStyles}>
@@ -125,7 +133,12 @@ export const ProfilePage: React.FC = () => {
                 marginBottom: tokens.spacing[4],
               }}
             >
-              Member since December 2024
+              {t('profile.memberSince', {
+                date: formatDate(new Date(2024, 11, 1), {
+                  month: 'long',
+                  year: 'numeric',
+                }),
+              })}
             </p>
 
             <div style={reputationStyles}>
@@ -142,13 +155,13 @@ export const ProfilePage: React.FC = () => {
                   color: tokens.colors.neutral[600],
                 }}
               >
-                4.8 (24 reviews)
+                {t('profile.reviews', { rating: 4.8, count: 24 })}
               </span>
             </div>
 
             <div style={{ marginBottom: tokens.spacing[4] }}>
-              <span style={badgeStyles}>✅ Verified User</span>
-              <span style={badgeStyles}>🏆 Top Swapper</span>
+              <span style={badgeStyles}>✅ {t('profile.verifiedUser')}</span>
+              <span style={badgeStyles}>🏆 {t('profile.topSwapper')}</span>
             </div>
 
             <Button
@@ -156,10 +169,10 @@ export const ProfilePage: React.FC = () => {
               style={{ width: '100%' }}
               onClick={() => {
                 // TODO: Implement avatar upload
-                alert('Avatar upload functionality coming soon!');
+                alert(t('profile.avatarComingSoon'));
               }}
             >
-              Change Avatar
+              {t('profile.changeAvatar')}
             </Button>
           </CardContent>
         </Card>
@@ -180,13 +193,13 @@ export const ProfilePage: React.FC = () => {
                   margin: 0,
                 }}
               >
-                Personal Information
+                {t('profile.personalInformation')}
               </h2>
             </CardHeader>
             <CardContent>
               <div style={formGridStyles}>
                 <Input
-                  label="First Name"
+                  label={t('profile.firstName')}
                   value={formData.firstName}
                   onChange={e =>
                     setFormData({ ...formData, firstName: e.target.value })
@@ -194,7 +207,7 @@ export const ProfilePage: React.FC = () => {
                   disabled={!isEditing}
                 />
                 <Input
-                  label="Last Name"
+                  label={t('profile.lastName')}
                   value={formData.lastName}
                   onChange={e =>
                     setFormData({ ...formData, lastName: e.target.value })
@@ -202,7 +215,7 @@ export const ProfilePage: React.FC = () => {
                   disabled={!isEditing}
                 />
                 <Input
-                  label="Email"
+                  label={t('profile.email')}
                   type="email"
                   value={formData.email}
                   onChange={e =>
@@ -212,7 +225,7 @@ export const ProfilePage: React.FC = () => {
                   style={fullWidthStyles}
                 />
                 <Input
-                  label="Phone"
+                  label={t('profile.phone')}
                   type="tel"
                   value={formData.phone}
                   onChange={e =>
@@ -221,7 +234,7 @@ export const ProfilePage: React.FC = () => {
                   disabled={!isEditing}
                 />
                 <Input
-                  label="Location"
+                  label={t('profile.location')}
                   value={formData.location}
                   onChange={e =>
                     setFormData({ ...formData, location: e.target.value })
@@ -232,7 +245,7 @@ export const ProfilePage: React.FC = () => {
               <div style={{ display: 'flex', gap: tokens.spacing[3] }}>
                 {!isEditing ? (
                   <Button variant="primary" onClick={() => setIsEditing(true)}>
-                    Edit Profile
+                    {t('profile.edit')}
                   </Button>
                 ) : (
                   <>
@@ -242,16 +255,16 @@ export const ProfilePage: React.FC = () => {
                         // TODO: Implement save functionality
                         console.log('Saving profile:', formData);
                         setIsEditing(false);
-                        alert('Profile updated successfully!');
+                        alert(t('profile.updated'));
                       }}
                     >
-                      Save Changes
+                      {t('profile.saveChanges')}
                     </Button>
                     <Button
                       variant="outline"
                       onClick={() => setIsEditing(false)}
                     >
-                      Cancel
+                      {t('common.cancel')}
                     </Button>
                   </>
                 )}
@@ -268,7 +281,7 @@ export const ProfilePage: React.FC = () => {
                   margin: 0,
                 }}
               >
-                Wallet Information
+                {t('profile.walletInformation')}
               </h2>
             </CardHeader>
             <CardContent>
@@ -282,7 +295,7 @@ export const ProfilePage: React.FC = () => {
                     display: 'block',
                   }}
                 >
-                  Wallet Address
+                  {t('profile.walletAddress')}
                 </label>
                 <div
                   style={{
@@ -302,17 +315,15 @@ export const ProfilePage: React.FC = () => {
                   variant="outline"
                   onClick={() => {
                     if (
-                      confirm(
-                        'Are you sure you want to disconnect your wallet?'
-                      )
+                      confirm(t('profile.confirmDisconnectWallet'))
                     ) {
                       // TODO: Implement wallet disconnect
                       console.log('Disconnecting wallet...');
-                      alert('Wallet disconnected successfully!');
+                      alert(t('profile.walletDisconnected'));
                     }
                   }}
                 >
-                  Disconnect Wallet
+                  {t('profile.disconnectWallet')}
                 </Button>
                 <Button
                   variant="ghost"
@@ -323,7 +334,7 @@ export const ProfilePage: React.FC = () => {
                     )
                   }
                 >
-                  View on Explorer
+                  {t('profile.viewOnExplorer')}
                 </Button>
               </div>
             </CardContent>
@@ -340,34 +351,158 @@ export const ProfilePage: React.FC = () => {
               margin: 0,
             }}
           >
-            Account Statistics
+            {t('profile.accountStatistics')}
           </h2>
         </CardHeader>
         <CardContent>
           <div>
             <div style={statItemStyles}>
-              <span style={statLabelStyles}>Total Swaps Completed</span>
-              <span style={statValueStyles}>24</span>
+              <span style={statLabelStyles}>
+                {t('profile.totalSwapsCompleted')}
+              </span>
+              <span style={statValueStyles}>{formatNumber(24)}</span>
             </div>
             <div style={statItemStyles}>
-              <span style={statLabelStyles}>Success Rate</span>
-              <span style={statValueStyles}>96%</span>
+              <span style={statLabelStyles}>
+                {t('profile.successRate')}
+              </span>
+              <span style={statValueStyles}>
+                {formatNumber(0.96, { style: 'percent' })}
+              </span>
             </div>
             <div style={statItemStyles}>
-              <span style={statLabelStyles}>Average Response Time</span>
-              <span style={statValueStyles}>2.3 hours</span>
+              <span style={statLabelStyles}>
+                {t('profile.averageResponseTime')}
+              </span>
+              <span style={statValueStyles}>
+                {t('profile.responseTime', { hours: 2.3 })}
+              </span>
             </div>
             <div style={statItemStyles}>
-              <span style={statLabelStyles}>Total Value Exchanged</span>
-              <span style={statValueStyles}>$18,450</span>
+              <span style={statLabelStyles}>
+                {t('profile.totalValueExchanged')}
+              </span>
+              <span style={statValueStyles}>
+                {formatNumber(18450, {
+                  style: 'currency',
+                  currency: 'USD',
+                  maximumFractionDigits: 0,
+                })}
+              </span>
             </div>
             <div style={{ ...statItemStyles, borderBottom: 'none' }}>
-              <span style={statLabelStyles}>Account Level</span>
-              <span style={statValueStyles}>Premium</span>
+              <span style={statLabelStyles}>
+                {t('profile.accountLevel')}
+              </span>
+              <span style={statValueStyles}>
+                {t('profile.accountLevel.premium')}
+              </span>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <Card variant="outlined" style={{ marginTop: tokens.spacing[6] }}>
+        <CardHeader>
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            {t('profile.twoFactor')}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorPanel />
+        </CardContent>
+      </Card>
+
+      <Card variant="outlined" style={{ marginTop: tokens.spacing[6] }}>
+        <CardHeader>
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            {t('profile.activeSessions')}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <SessionsPanel />
+        </CardContent>
+      </Card>
+
+      <Card variant="outlined" style={{ marginTop: tokens.spacing[6] }}>
+        <CardHeader>
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            {t('profile.calendar')}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <CalendarFeedPanel />
+        </CardContent>
+      </Card>
+
+      <Card variant="outlined" style={{ marginTop: tokens.spacing[6] }}>
+        <CardHeader>
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            {t('profile.language')}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <LanguagePanel />
+        </CardContent>
+      </Card>
+
+      <Card variant="outlined" style={{ marginTop: tokens.spacing[6] }}>
+        <CardHeader>
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            {t('profile.pushNotifications')}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <PushNotificationsPanel />
+        </CardContent>
+      </Card>
+
+      <Card variant="outlined" style={{ marginTop: tokens.spacing[6] }}>
+        <CardHeader>
+          <h2
+            style={{
+              fontSize: tokens.typography.fontSize.xl,
+              fontWeight: tokens.typography.fontWeight.semibold,
+              margin: 0,
+            }}
+          >
+            {t('profile.apiKeys')}
+          </h2>
+        </CardHeader>
+        <CardContent>
+          <ApiKeysPanel />
+        </CardContent>
+      </Card>
     </div>
   );
 };
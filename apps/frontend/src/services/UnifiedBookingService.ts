@@ -1199,6 +1199,9 @@ export class UnifiedBookingService {
         autoSelectHighest: preferences.acceptanceStrategy === 'auction',
       },
       swapConditions: preferences.swapConditions || [],
+      swapPreferences: preferences.dateFlexibility
+        ? { dateFlexibility: preferences.dateFlexibility }
+        : {},
       expirationDate: preferences.auctionEndDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days default
     };
   }
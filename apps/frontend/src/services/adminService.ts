@@ -1,4 +1,12 @@
 import axios from 'axios';
+import {
+  BookingVerificationAttemptStatus,
+  DisputePriority,
+  DisputeType,
+  ResolveDisputeRequest,
+  ReviewBookingVerificationRequest,
+  TransitionDisputeRequest,
+} from '@booking-swap/shared';
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
@@ -35,14 +43,57 @@ class AdminService {
     return response.data;
   }
 
+  async getDispute(disputeId: string) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/disputes/${disputeId}`,
+      {
+        headers: this.getAuthHeaders(),
+      }
+    );
+    return response.data;
+  }
+
+  async downloadDisputeEvidence(disputeId: string, evidenceId: string) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/disputes/${disputeId}/evidence/${evidenceId}`,
+      {
+        headers: this.getAuthHeaders(),
+        responseType: 'blob',
+      }
+    );
+    return response.data as Blob;
+  }
+
+  async getDisputeConversations(disputeId: string) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/disputes/${disputeId}/conversations`,
+      {
+        headers: this.getAuthHeaders(),
+      }
+    );
+    return response.data;
+  }
+
+  async downloadConversationAttachment(
+    conversationId: string,
+    messageId: string
+  ) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/conversations/${conversationId}/messages/${messageId}/attachment`,
+      {
+        headers: this.getAuthHeaders(),
+        responseType: 'blob',
+      }
+    );
+    return response.data as Blob;
+  }
+
   async createDispute(disputeData: {
     swapId: string;
     reporterId: string;
-    reportedUserId: string;
-    type: 'fraud' | 'booking_invalid' | 'payment_issue' | 'other';
+    type: DisputeType;
     description: string;
-    evidence?: string[];
-    priority?: 'low' | 'medium' | 'high' | 'critical';
+    priority?: DisputePriority;
   }) {
     const response = await axios.post(
       `${API_BASE_URL}/admin/disputes`,
@@ -54,13 +105,18 @@ class AdminService {
     return response.data;
   }
 
-  async resolveDispute(
-    disputeId: string,
-    resolution: {
-      action: string;
-      notes: string;
-    }
-  ) {
+  async transitionDispute(disputeId: string, request: TransitionDisputeRequest) {
+    const response = await axios.put(
+      `${API_BASE_URL}/admin/disputes/${disputeId}/status`,
+      request,
+      {
+        headers: this.getAuthHeaders(),
+      }
+    );
+    return response.data;
+  }
+
+  async resolveDispute(disputeId: string, resolution: ResolveDisputeRequest) {
     const response = await axios.put(
       `${API_BASE_URL}/admin/disputes/${disputeId}/resolve`,
       resolution,
@@ -71,6 +127,55 @@ class AdminService {
     return response.data;
   }
 
+  async getBookingVerifications(status?: BookingVerificationAttemptStatus) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/booking-verifications`,
+      {
+        headers: this.getAuthHeaders(),
+        params: status ? { status } : {},
+      }
+    );
+    return response.data;
+  }
+
+  async getBookingVerification(attemptId: string) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/booking-verifications/${attemptId}`,
+      {
+        headers: this.getAuthHeaders(),
+      }
+    );
+    return response.data;
+  }
+
+  async downloadBookingVerificationDocument(
+    attemptId: string,
+    documentId: string
+  ) {
+    const response = await axios.get(
+      `${API_BASE_URL}/admin/booking-verifications/${attemptId}/documents/${documentId}`,
+      {
+        headers: this.getAuthHeaders(),
+        responseType: 'blob',
+      }
+    );
+    return response.data as Blob;
+  }
+
+  async reviewBookingVerification(
+    attemptId: string,
+    review: ReviewBookingVerificationRequest
+  ) {
+    const response = await axios.put(
+      `${API_BASE_URL}/admin/booking-verifications/${attemptId}/review`,
+      review,
+      {
+        headers: this.getAuthHeaders(),
+      }
+    );
+    return response.data;
+  }
+
   async flagUser(
     userId: string,
     flag: {
@@ -7,6 +7,7 @@ import {
     shouldTargetingErrorTriggerLogout,
     logTargetingError
 } from '@/utils/targetingErrorUtils';
+import { getStoredLocale } from '@/utils/localeStorage';
 
 class ApiClient {
     private client: AxiosInstance;
@@ -29,6 +30,12 @@ class ApiClient {
                     config.headers.Authorization = `Bearer ${token}`;
                 }
 
+                // Server-side messages come back in the chosen language
+                const locale = getStoredLocale();
+                if (locale) {
+                    config.headers['Accept-Language'] = locale;
+                }
+
                 // Identify targeting operations and add metadata
                 const url = config.url || '';
                 const method = config.method || 'GET';
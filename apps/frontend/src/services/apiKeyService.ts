@@ -0,0 +1,62 @@
+import { apiClient } from './apiClient';
+import { ApiKey, ApiKeyUsage, ApiKeyWithSecret, CreateApiKeyRequest } from '@booking-swap/shared';
+
+// Revive the usage, expiry and revocation timestamps the API sends as strings
+const parseApiKey = <T extends ApiKey>(apiKey: T): T => ({
+    ...apiKey,
+    lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt) : undefined,
+    expiresAt: apiKey.expiresAt ? new Date(apiKey.expiresAt) : undefined,
+    revokedAt: apiKey.revokedAt ? new Date(apiKey.revokedAt) : undefined,
+    createdAt: new Date(apiKey.createdAt),
+    updatedAt: new Date(apiKey.updatedAt),
+});
+
+export class ApiKeyService {
+    /**
+     * The current user's keys, newest first, including revoked and expired ones
+     */
+    async listApiKeys(): Promise<ApiKey[]> {
+        const response = await apiClient.get<{ data: { apiKeys: ApiKey[] } }>('/api-keys');
+        return response.data.data.apiKeys.map(parseApiKey);
+    }
+
+    /**
+     * Issue a key; the returned key is the only time it can be read
+     */
+    async createApiKey(request: CreateApiKeyRequest): Promise<ApiKeyWithSecret> {
+        const response = await apiClient.post<{ data: { apiKey: ApiKeyWithSecret } }>(
+            '/api-keys',
+            request
+        );
+        return parseApiKey(response.data.data.apiKey);
+    }
+
+    async revokeApiKey(id: string): Promise<ApiKey> {
+        const response = await apiClient.delete<{ data: { apiKey: ApiKey } }>(`/api-keys/${id}`);
+        return parseApiKey(response.data.data.apiKey);
+    }
+
+    /**
+     * Replace a key; the old one keeps working for a short grace period
+     */
+    async rotateApiKey(id: string): Promise<ApiKeyWithSecret> {
+        const response = await apiClient.post<{ data: { apiKey: ApiKeyWithSecret } }>(
+            `/api-keys/${id}/rotate`
+        );
+        return parseApiKey(response.data.data.apiKey);
+    }
+
+    async listUsage(id: string, limit?: number): Promise<ApiKeyUsage[]> {
+        const response = await apiClient.get<{ data: { usage: ApiKeyUsage[] } }>(
+            `/api-keys/${id}/usage`,
+            { params: { limit } }
+        );
+        return response.data.data.usage.map(usage => ({
+            ...usage,
+            createdAt: new Date(usage.createdAt),
+        }));
+    }
+}
+
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
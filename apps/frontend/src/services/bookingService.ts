@@ -10,6 +10,8 @@ import {
   ValidationError,
   BusinessLogicError,
   ERROR_CODES,
+  BookingMapResponse,
+  MapBounds,
 } from '@booking-swap/shared';
 
 // API Request/Response Types
@@ -61,6 +63,11 @@ export interface SearchQuery {
   limit?: number;
 }
 
+export interface BookingMapFilters extends BookingFilters {
+  query?: string;
+  swapAvailable?: boolean;
+}
+
 export interface BookingSearchResult {
   bookings: Booking[];
   total: number;
@@ -463,6 +470,33 @@ class BookingService {
     }
   }
 
+  /**
+   * Get booking clusters for a map viewport. The server groups nearby
+   * bookings by zoom level, so the response stays small at any zoom.
+   */
+  async getMapClusters(
+    bounds: MapBounds,
+    zoom: number,
+    filters?: BookingMapFilters
+  ): Promise<BookingMapResponse> {
+    try {
+      const response: AxiosResponse<{
+        success: boolean;
+        data: BookingMapResponse;
+      }> = await this.axiosInstance.get('/bookings/map', {
+        params: {
+          ...this.buildMapParams(filters),
+          ...bounds,
+          zoom,
+        },
+      });
+
+      return response.data.data;
+    } catch (error) {
+      throw error;
+    }
+  }
+
   // Validation
   async validateBooking(data: CreateBookingRequest): Promise<ValidationResult> {
     const errors: Array<{ field: string; message: string }> = [];
@@ -665,6 +699,49 @@ class BookingService {
     return params;
   }
 
+  // The map endpoint takes the search parameters of GET /bookings
+  private buildMapParams(filters?: BookingMapFilters): Record<string, any> {
+    if (!filters) return {};
+
+    const params: Record<string, any> = {};
+
+    if (filters.query) {
+      params.query = filters.query;
+    }
+
+    if (filters.type && filters.type.length > 0) {
+      params.types = filters.type.join(',');
+    }
+
+    if (filters.location?.city) {
+      params.city = filters.location.city;
+    }
+    if (filters.location?.country) {
+      params.country = filters.location.country;
+    }
+
+    if (filters.dateRange) {
+      params.checkIn = filters.dateRange.start.toISOString();
+      params.checkOut = filters.dateRange.end.toISOString();
+      if (filters.dateRange.flexible) {
+        params.flexible = 'true';
+      }
+    }
+
+    if (filters.priceRange?.min) {
+      params.minPrice = filters.priceRange.min;
+    }
+    if (filters.priceRange?.max) {
+      params.maxPrice = filters.priceRange.max;
+    }
+
+    if (filters.swapAvailable) {
+      params.swapAvailable = 'true';
+    }
+
+    return params;
+  }
+
   // Utility method to check if booking can be modified
   async canModifyBooking(bookingId: string): Promise<boolean> {
     try {
@@ -0,0 +1,93 @@
+import { apiClient } from './apiClient';
+import {
+    Booking,
+    BookingVerificationAttempt,
+    BookingVerificationDetails,
+    BookingVerificationDocument,
+    VerificationStatus,
+} from '@booking-swap/shared';
+
+export interface BookingVerificationState {
+    status: VerificationStatus;
+    latestAttempt: BookingVerificationAttempt | null;
+    documents: BookingVerificationDocument[];
+}
+
+// Exported so the admin review queue can turn the string dates into Dates too
+export const parseVerificationAttempt = (
+    attempt: BookingVerificationAttempt
+): BookingVerificationAttempt => ({
+    ...attempt,
+    reviewedAt: attempt.reviewedAt ? new Date(attempt.reviewedAt) : undefined,
+    createdAt: new Date(attempt.createdAt),
+    updatedAt: new Date(attempt.updatedAt),
+});
+
+export const parseVerificationDocument = (
+    document: BookingVerificationDocument
+): BookingVerificationDocument => ({
+    ...document,
+    createdAt: new Date(document.createdAt),
+});
+
+export const parseVerificationDetails = (
+    details: BookingVerificationDetails
+): BookingVerificationDetails => ({
+    attempt: parseVerificationAttempt(details.attempt),
+    documents: details.documents.map(parseVerificationDocument),
+});
+
+export class BookingVerificationService {
+    async getVerification(bookingId: string): Promise<BookingVerificationState> {
+        const response = await apiClient.get<{ data: BookingVerificationState }>(
+            `/bookings/${bookingId}/verification`
+        );
+        const state = response.data.data;
+        return {
+            status: state.status,
+            latestAttempt: state.latestAttempt ? parseVerificationAttempt(state.latestAttempt) : null,
+            documents: state.documents.map(parseVerificationDocument),
+        };
+    }
+
+    /**
+     * Upload a booking confirmation; the file is sent as the raw request body
+     */
+    async uploadDocument(bookingId: string, file: File): Promise<BookingVerificationDocument> {
+        const response = await apiClient.post<{ data: { document: BookingVerificationDocument } }>(
+            `/bookings/${bookingId}/verification/documents`,
+            file,
+            {
+                headers: { 'Content-Type': file.type },
+                params: { fileName: file.name },
+            }
+        );
+        return parseVerificationDocument(response.data.data.document);
+    }
+
+    /**
+     * Check the booking against its uploaded documents and the provider
+     */
+    async requestVerification(
+        bookingId: string
+    ): Promise<{ booking: Booking; verification: BookingVerificationAttempt }> {
+        const response = await apiClient.post<{
+            data: { booking: Booking; verification: BookingVerificationAttempt };
+        }>(`/bookings/${bookingId}/verify`);
+        return {
+            booking: response.data.data.booking,
+            verification: parseVerificationAttempt(response.data.data.verification),
+        };
+    }
+
+    async downloadDocument(bookingId: string, documentId: string): Promise<Blob> {
+        const response = await apiClient.get<Blob>(
+            `/bookings/${bookingId}/verification/documents/${documentId}`,
+            { responseType: 'blob' }
+        );
+        return response.data;
+    }
+}
+
+export const bookingVerificationService = new BookingVerificationService();
+export default bookingVerificationService;
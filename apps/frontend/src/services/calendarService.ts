@@ -0,0 +1,38 @@
+import { apiClient } from './apiClient';
+import { CalendarFeedLink, CalendarFeedStatus } from '@booking-swap/shared';
+
+export class CalendarService {
+    async getFeedStatus(): Promise<CalendarFeedStatus> {
+        const response = await apiClient.get<{ data: { feed: CalendarFeedStatus } }>('/calendar/feed');
+        const feed = response.data.data.feed;
+        return {
+            ...feed,
+            createdAt: feed.createdAt ? new Date(feed.createdAt) : undefined,
+            lastAccessedAt: feed.lastAccessedAt ? new Date(feed.lastAccessedAt) : undefined,
+        };
+    }
+
+    /**
+     * Create the feed URL, or replace an existing one. The URL is only shown
+     * once, so the caller has to display it straight away.
+     */
+    async createFeed(): Promise<CalendarFeedLink> {
+        const response = await apiClient.post<{ data: { link: CalendarFeedLink } }>('/calendar/feed');
+        const link = response.data.data.link;
+        return { ...link, createdAt: new Date(link.createdAt) };
+    }
+
+    async deleteFeed(): Promise<void> {
+        await apiClient.delete('/calendar/feed');
+    }
+
+    async downloadSwapCalendar(swapId: string): Promise<Blob> {
+        const response = await apiClient.get<Blob>(`/calendar/swaps/${swapId}.ics`, {
+            responseType: 'blob',
+        });
+        return response.data;
+    }
+}
+
+export const calendarService = new CalendarService();
+export default calendarService;
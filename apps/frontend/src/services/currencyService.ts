@@ -0,0 +1,57 @@
+import { apiClient } from './apiClient';
+import {
+    ConvertedAmount,
+    CurrencyInfo,
+    FxRateTable,
+    convertWithRates,
+} from '@booking-swap/shared';
+
+// Rates are refreshed server-side at most every few minutes
+const RATES_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface CurrencyRates {
+    currencies: CurrencyInfo[];
+    rates: FxRateTable;
+}
+
+export class CurrencyService {
+    private cached?: { promise: Promise<CurrencyRates>; fetchedAt: number };
+
+    /**
+     * Supported currencies and the current FX rate table (cached)
+     */
+    getRates(): Promise<CurrencyRates> {
+        if (this.cached && Date.now() - this.cached.fetchedAt < RATES_CACHE_TTL_MS) {
+            return this.cached.promise;
+        }
+
+        const promise = apiClient
+            .get<{ data: CurrencyRates }>('/currencies')
+            .then(response => ({
+                ...response.data.data,
+                rates: {
+                    ...response.data.data.rates,
+                    asOf: new Date(response.data.data.rates.asOf),
+                },
+            }));
+
+        // Do not cache failures
+        promise.catch(() => {
+            this.cached = undefined;
+        });
+        this.cached = { promise, fetchedAt: Date.now() };
+
+        return promise;
+    }
+
+    /**
+     * Convert an amount locally with the cached rate table
+     */
+    async convert(amount: number, from: string, to: string): Promise<ConvertedAmount> {
+        const { rates } = await this.getRates();
+        return convertWithRates(amount, from, to, rates);
+    }
+}
+
+export const currencyService = new CurrencyService();
+export default currencyService;
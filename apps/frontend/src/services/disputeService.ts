@@ -0,0 +1,84 @@
+import { apiClient } from './apiClient';
+import {
+    Dispute,
+    DisputeDetails,
+    DisputeEvidence,
+    DisputeStatus,
+    OpenDisputeRequest,
+} from '@booking-swap/shared';
+
+// SLA deadlines and the resolution time are ISO strings until parsed here
+export const parseDispute = (dispute: Dispute): Dispute => ({
+    ...dispute,
+    slaDueAt: dispute.slaDueAt ? new Date(dispute.slaDueAt) : undefined,
+    slaBreachedAt: dispute.slaBreachedAt ? new Date(dispute.slaBreachedAt) : undefined,
+    resolution: dispute.resolution
+        ? { ...dispute.resolution, resolvedAt: new Date(dispute.resolution.resolvedAt) }
+        : undefined,
+    createdAt: new Date(dispute.createdAt),
+    updatedAt: new Date(dispute.updatedAt),
+});
+
+export const parseDisputeDetails = (details: DisputeDetails): DisputeDetails => ({
+    dispute: parseDispute(details.dispute),
+    evidence: details.evidence.map(item => ({ ...item, createdAt: new Date(item.createdAt) })),
+    events: details.events.map(event => ({ ...event, createdAt: new Date(event.createdAt) })),
+});
+
+export class DisputeService {
+    /**
+     * Disputes the current user reported or was reported in
+     */
+    async listDisputes(status?: DisputeStatus): Promise<{ disputes: Dispute[]; total: number }> {
+        const response = await apiClient.get<{ data: { disputes: Dispute[]; total: number } }>(
+            '/disputes',
+            { params: status ? { status } : {} }
+        );
+        return {
+            disputes: response.data.data.disputes.map(parseDispute),
+            total: response.data.data.total,
+        };
+    }
+
+    async getDispute(id: string): Promise<DisputeDetails> {
+        const response = await apiClient.get<{ data: DisputeDetails }>(`/disputes/${id}`);
+        return parseDisputeDetails(response.data.data);
+    }
+
+    /**
+     * Open a dispute about an accepted or completed swap
+     */
+    async openDispute(request: OpenDisputeRequest): Promise<Dispute> {
+        const response = await apiClient.post<{ data: { dispute: Dispute } }>(
+            '/disputes',
+            request
+        );
+        return parseDispute(response.data.data.dispute);
+    }
+
+    /**
+     * Upload a file as evidence; the file is sent as the raw request body
+     */
+    async uploadEvidence(id: string, file: File, description?: string): Promise<DisputeEvidence> {
+        const response = await apiClient.post<{ data: { evidence: DisputeEvidence } }>(
+            `/disputes/${id}/evidence`,
+            file,
+            {
+                headers: { 'Content-Type': file.type },
+                params: { fileName: file.name, description },
+            }
+        );
+        const evidence = response.data.data.evidence;
+        return { ...evidence, createdAt: new Date(evidence.createdAt) };
+    }
+
+    async downloadEvidence(id: string, evidenceId: string): Promise<Blob> {
+        const response = await apiClient.get<Blob>(`/disputes/${id}/evidence/${evidenceId}`, {
+            responseType: 'blob',
+        });
+        return response.data;
+    }
+}
+
+export const disputeService = new DisputeService();
+export default disputeService;
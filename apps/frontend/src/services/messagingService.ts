@@ -0,0 +1,103 @@
+import { apiClient } from './apiClient';
+import {
+    Conversation,
+    ConversationDetails,
+    ConversationFilters,
+    ConversationMessage,
+    ConversationReadReceipt,
+    OpenConversationRequest,
+} from '@booking-swap/shared';
+
+// JSON responses and socket events carry dates as strings
+export const parseConversationMessage = (message: ConversationMessage): ConversationMessage => ({
+    ...message,
+    createdAt: new Date(message.createdAt),
+});
+
+export const parseReadReceipt = (receipt: ConversationReadReceipt): ConversationReadReceipt => ({
+    ...receipt,
+    lastReadAt: new Date(receipt.lastReadAt),
+});
+
+export const parseConversation = (conversation: Conversation): Conversation => ({
+    ...conversation,
+    readReceipts: conversation.readReceipts.map(parseReadReceipt),
+    lastMessageAt: conversation.lastMessageAt ? new Date(conversation.lastMessageAt) : undefined,
+    createdAt: new Date(conversation.createdAt),
+    updatedAt: new Date(conversation.updatedAt),
+});
+
+export const parseConversationDetails = (details: ConversationDetails): ConversationDetails => ({
+    conversation: parseConversation(details.conversation),
+    messages: details.messages.map(parseConversationMessage),
+    hasMore: details.hasMore,
+});
+
+export class MessagingService {
+    async listConversations(filters: ConversationFilters = {}): Promise<Conversation[]> {
+        const response = await apiClient.get<{
+            data: { conversations: Conversation[] };
+        }>('/conversations', { params: filters });
+        return response.data.data.conversations.map(parseConversation);
+    }
+
+    /**
+     * Open the thread for a proposal, or a thread with a swap's owner
+     */
+    async openConversation(request: OpenConversationRequest): Promise<Conversation> {
+        const response = await apiClient.post<{
+            data: { conversation: Conversation };
+        }>('/conversations', request);
+        return parseConversation(response.data.data.conversation);
+    }
+
+    async getConversation(conversationId: string, before?: Date): Promise<ConversationDetails> {
+        const response = await apiClient.get<{ data: ConversationDetails }>(
+            `/conversations/${conversationId}`,
+            { params: before ? { before: before.toISOString() } : {} }
+        );
+        return parseConversationDetails(response.data.data);
+    }
+
+    async sendMessage(conversationId: string, body: string): Promise<ConversationMessage> {
+        const response = await apiClient.post<{
+            data: { message: ConversationMessage };
+        }>(`/conversations/${conversationId}/messages`, { body });
+        return parseConversationMessage(response.data.data.message);
+    }
+
+    /**
+     * Send a file; it goes as the raw request body
+     */
+    async sendAttachment(
+        conversationId: string,
+        file: File,
+        caption?: string
+    ): Promise<ConversationMessage> {
+        const response = await apiClient.post<{
+            data: { message: ConversationMessage };
+        }>(`/conversations/${conversationId}/attachments`, file, {
+            headers: { 'Content-Type': file.type },
+            params: { fileName: file.name, caption: caption || undefined },
+        });
+        return parseConversationMessage(response.data.data.message);
+    }
+
+    async markRead(conversationId: string): Promise<ConversationReadReceipt> {
+        const response = await apiClient.post<{
+            data: { receipt: ConversationReadReceipt };
+        }>(`/conversations/${conversationId}/read`);
+        return parseReadReceipt(response.data.data.receipt);
+    }
+
+    async downloadAttachment(conversationId: string, messageId: string): Promise<Blob> {
+        const response = await apiClient.get<Blob>(
+            `/conversations/${conversationId}/messages/${messageId}/attachment`,
+            { responseType: 'blob' }
+        );
+        return response.data;
+    }
+}
+
+export const messagingService = new MessagingService();
+export default messagingService;
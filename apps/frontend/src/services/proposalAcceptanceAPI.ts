@@ -1,7 +1,15 @@
 import { apiClient } from './apiClient';
 import { logger } from '@/utils/logger';
 import { ProposalErrorHandler } from './proposalErrorHandler';
-import { SwapCompletionResult, CompletionValidationResult, SwapCompletionErrorCodes } from '@booking-swap/shared';
+import {
+    SwapCompletionResult,
+    CompletionValidationResult,
+    SwapCompletionErrorCodes,
+    CreateCounterOfferRequest,
+    CounterOfferResponseRequest,
+    ProposalNegotiationThread,
+    ProposalNegotiationVersion
+} from '@booking-swap/shared';
 
 /**
  * Request interface for accepting a proposal
@@ -55,6 +63,15 @@ export interface ProposalActionResponse {
     validation?: CompletionValidationResult; // New validation results
 }
 
+/**
+ * Response interface for accepting or rejecting a counter-offer
+ */
+export interface CounterOfferActionResponse {
+    version: ProposalNegotiationVersion;
+    proposal?: ProposalActionResponse['proposal'];
+    blockchain?: ProposalActionResponse['blockchainTransaction'];
+}
+
 /**
  * Response interface for proposal status
  */
@@ -288,6 +305,98 @@ export class ProposalAcceptanceAPI {
         }, `getProposalStatus-${proposalId}`);
     }
 
+    /**
+     * Get the counter-offer history of a proposal
+     */
+    async getNegotiation(proposalId: string): Promise<ProposalNegotiationThread> {
+        logger.debug('Getting proposal negotiation', { proposalId });
+
+        return this.executeWithRetry(async () => {
+            try {
+                const response = await apiClient.get<{ data: { negotiation: ProposalNegotiationThread } }>(
+                    `/proposals/${proposalId}/negotiation`
+                );
+
+                return response.data.data.negotiation;
+            } catch (error: any) {
+                logger.error('Failed to get proposal negotiation', {
+                    proposalId,
+                    error: error.message,
+                    status: error.response?.status
+                });
+
+                throw this.handleApiError(error);
+            }
+        }, `getNegotiation-${proposalId}`);
+    }
+
+    /**
+     * Send a counter-offer with amended terms
+     */
+    async counterProposal(
+        proposalId: string,
+        request: CreateCounterOfferRequest
+    ): Promise<ProposalNegotiationVersion> {
+        logger.info('Sending counter-offer', { proposalId });
+
+        return this.executeWithRetry(async () => {
+            try {
+                const response = await apiClient.post<{ data: { version: ProposalNegotiationVersion } }>(
+                    `/proposals/${proposalId}/counter`,
+                    request
+                );
+
+                logger.info('Counter-offer sent', {
+                    proposalId,
+                    version: response.data.data.version.version
+                });
+
+                return response.data.data.version;
+            } catch (error: any) {
+                logger.error('Failed to send counter-offer', {
+                    proposalId,
+                    error: error.message,
+                    status: error.response?.status,
+                    data: error.response?.data
+                });
+
+                throw this.handleApiError(error);
+            }
+        }, `counterProposal-${proposalId}`);
+    }
+
+    /**
+     * Accept or reject a counter-offer addressed to the current user
+     */
+    async respondToCounterOffer(
+        proposalId: string,
+        versionId: string,
+        request: CounterOfferResponseRequest
+    ): Promise<CounterOfferActionResponse> {
+        logger.info('Responding to counter-offer', { proposalId, versionId, action: request.action });
+
+        return this.executeWithRetry(async () => {
+            try {
+                const response = await apiClient.post<{ data: CounterOfferActionResponse }>(
+                    `/proposals/${proposalId}/counter/${versionId}/respond`,
+                    request
+                );
+
+                return response.data.data;
+            } catch (error: any) {
+                logger.error('Failed to respond to counter-offer', {
+                    proposalId,
+                    versionId,
+                    error: error.message,
+                    status: error.response?.status,
+                    data: error.response?.data
+                });
+
+                throw this.handleApiError(error);
+            }
+        }, `respondToCounterOffer-${versionId}`);
+    }
+
     /**
      * Execute API call with retry logic for failed requests
      */
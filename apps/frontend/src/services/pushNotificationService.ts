@@ -0,0 +1,136 @@
+import { apiClient } from './apiClient';
+import {
+    PushPreferences,
+    PushSubscriptionRegistration,
+    WebPushSubscription,
+} from '@booking-swap/shared';
+
+const SERVICE_WORKER_URL = '/push-sw.js';
+
+// PushManager.subscribe wants the raw bytes of the base64url VAPID key
+const decodeKey = (base64url: string): Uint8Array => {
+    const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const toSubscription = (subscription: WebPushSubscription): WebPushSubscription => ({
+    ...subscription,
+    expiresAt: subscription.expiresAt ? new Date(subscription.expiresAt) : undefined,
+    lastSuccessAt: subscription.lastSuccessAt ? new Date(subscription.lastSuccessAt) : undefined,
+    createdAt: new Date(subscription.createdAt),
+    updatedAt: new Date(subscription.updatedAt),
+});
+
+export class PushNotificationService {
+    isSupported(): boolean {
+        return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+    }
+
+    getPermission(): NotificationPermission {
+        return this.isSupported() ? Notification.permission : 'denied';
+    }
+
+    /**
+     * This browser's push subscription, if push was turned on here
+     */
+    async getBrowserSubscription(): Promise<PushSubscription | null> {
+        if (!this.isSupported()) {
+            return null;
+        }
+        const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+        return registration ? registration.pushManager.getSubscription() : null;
+    }
+
+    /**
+     * Ask for permission, subscribe this browser and register it with the
+     * backend
+     */
+    async enable(): Promise<WebPushSubscription> {
+        if (!this.isSupported()) {
+            throw new Error('This browser does not support push notifications');
+        }
+
+        const permission = await Notification.requestPermission();
+        if (permission !== 'granted') {
+            throw new Error('Notifications are blocked for this site in your browser settings');
+        }
+
+        await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        const registration = await navigator.serviceWorker.ready;
+        const subscription =
+            (await registration.pushManager.getSubscription()) ||
+            (await registration.pushManager.subscribe({
+                userVisibleOnly: true,
+                applicationServerKey: decodeKey(await this.getPublicKey()),
+            }));
+
+        return this.register(subscription);
+    }
+
+    /**
+     * Unsubscribe this browser and remove it from the backend
+     */
+    async disable(): Promise<void> {
+        const subscription = await this.getBrowserSubscription();
+        if (!subscription) {
+            return;
+        }
+        await apiClient.delete('/push/subscriptions', { data: { endpoint: subscription.endpoint } });
+        await subscription.unsubscribe();
+    }
+
+    /**
+     * Send this browser's current subscription again, so the backend picks up
+     * subscriptions the browser renewed
+     */
+    async syncSubscription(): Promise<void> {
+        if (this.getPermission() !== 'granted') {
+            return;
+        }
+        const subscription = await this.getBrowserSubscription();
+        if (subscription) {
+            await this.register(subscription);
+        }
+    }
+
+    async getPublicKey(): Promise<string> {
+        const response = await apiClient.get<{ data: { publicKey: string } }>('/push/vapid-public-key');
+        return response.data.data.publicKey;
+    }
+
+    async listSubscriptions(): Promise<WebPushSubscription[]> {
+        const response = await apiClient.get<{ data: { subscriptions: WebPushSubscription[] } }>(
+            '/push/subscriptions'
+        );
+        return response.data.data.subscriptions.map(toSubscription);
+    }
+
+    async removeSubscription(subscriptionId: string): Promise<void> {
+        await apiClient.delete(`/push/subscriptions/${subscriptionId}`);
+    }
+
+    async getPreferences(): Promise<PushPreferences> {
+        const response = await apiClient.get<{ data: { preferences: PushPreferences } }>('/push/preferences');
+        return response.data.data.preferences;
+    }
+
+    async updatePreferences(preferences: Partial<PushPreferences>): Promise<PushPreferences> {
+        const response = await apiClient.put<{ data: { preferences: PushPreferences } }>(
+            '/push/preferences',
+            preferences
+        );
+        return response.data.data.preferences;
+    }
+
+    private async register(subscription: PushSubscription): Promise<WebPushSubscription> {
+        const response = await apiClient.post<{ data: { subscription: WebPushSubscription } }>(
+            '/push/subscriptions',
+            subscription.toJSON() as PushSubscriptionRegistration
+        );
+        return toSubscription(response.data.data.subscription);
+    }
+}
+
+export const pushNotificationService = new PushNotificationService();
+export default pushNotificationService;
@@ -0,0 +1,42 @@
+import { apiClient } from './apiClient';
+import { SwapRecommendation, SwapRecommendationFeed } from '@booking-swap/shared';
+
+// Stay dates and listing times come over the wire as ISO strings
+const parseRecommendation = (recommendation: SwapRecommendation): SwapRecommendation => ({
+    ...recommendation,
+    booking: {
+        ...recommendation.booking,
+        checkIn: new Date(recommendation.booking.checkIn),
+        checkOut: new Date(recommendation.booking.checkOut),
+    },
+    listedAt: new Date(recommendation.listedAt),
+});
+
+export class RecommendationService {
+    /**
+     * Listings ranked for the current user. The feed is cached on the server
+     * for a few minutes; `refresh` ranks it again.
+     */
+    async getRecommendations(
+        options: { limit?: number; refresh?: boolean } = {}
+    ): Promise<SwapRecommendationFeed> {
+        const response = await apiClient.get<{ data: SwapRecommendationFeed }>(
+            '/swaps/recommendations',
+            {
+                params: {
+                    limit: options.limit,
+                    refresh: options.refresh ? 'true' : undefined,
+                },
+            }
+        );
+        const feed = response.data.data;
+        return {
+            ...feed,
+            recommendations: feed.recommendations.map(parseRecommendation),
+            generatedAt: new Date(feed.generatedAt),
+        };
+    }
+}
+
+export const recommendationService = new RecommendationService();
+export default recommendationService;
@@ -0,0 +1,71 @@
+import { apiClient } from './apiClient';
+import {
+    SubmitReviewRequest,
+    SubmitReviewResult,
+    UserReputationSummary,
+    UserReviewsResult,
+} from '@booking-swap/shared';
+
+// Reputation changes slowly, so cards showing the same user share one request
+const REPUTATION_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CachedReputation {
+    promise: Promise<UserReputationSummary>;
+    fetchedAt: number;
+}
+
+export class ReviewService {
+    private reputationCache = new Map<string, CachedReputation>();
+
+    /**
+     * Review the other party of a completed swap
+     */
+    async submitReview(swapId: string, request: SubmitReviewRequest): Promise<SubmitReviewResult> {
+        const response = await apiClient.post<{ data: SubmitReviewResult }>(
+            `/swaps/${swapId}/reviews`,
+            request
+        );
+
+        const { review } = response.data.data;
+        if (review.reviewedUserId) {
+            this.reputationCache.delete(review.reviewedUserId);
+        }
+
+        return response.data.data;
+    }
+
+    /**
+     * Visible reviews about a user together with their reputation
+     */
+    async getUserReviews(userId: string, limit = 20, offset = 0): Promise<UserReviewsResult> {
+        const response = await apiClient.get<{ data: UserReviewsResult }>(
+            `/users/${userId}/reviews`,
+            { params: { limit, offset } }
+        );
+
+        return response.data.data;
+    }
+
+    /**
+     * Reputation score and badges for a user (cached)
+     */
+    getUserReputation(userId: string): Promise<UserReputationSummary> {
+        const cached = this.reputationCache.get(userId);
+        if (cached && Date.now() - cached.fetchedAt < REPUTATION_CACHE_TTL_MS) {
+            return cached.promise;
+        }
+
+        const promise = apiClient
+            .get<{ data: { reputation: UserReputationSummary } }>(`/users/${userId}/reputation`)
+            .then(response => response.data.data.reputation);
+
+        // Do not cache failures
+        promise.catch(() => this.reputationCache.delete(userId));
+        this.reputationCache.set(userId, { promise, fetchedAt: Date.now() });
+
+        return promise;
+    }
+}
+
+export const reviewService = new ReviewService();
+export default reviewService;
@@ -0,0 +1,69 @@
+import { apiClient } from './apiClient';
+import {
+    CreateSavedSearchRequest,
+    SavedSearch,
+    UpdateSavedSearchRequest,
+} from '@booking-swap/shared';
+
+// The date range filter is stored as JSON, so its bounds come back as strings
+const parseSavedSearch = (search: SavedSearch): SavedSearch => ({
+    ...search,
+    filters: {
+        ...search.filters,
+        dateRange: search.filters.dateRange
+            ? {
+                ...search.filters.dateRange,
+                checkIn: search.filters.dateRange.checkIn
+                    ? new Date(search.filters.dateRange.checkIn)
+                    : undefined,
+                checkOut: search.filters.dateRange.checkOut
+                    ? new Date(search.filters.dateRange.checkOut)
+                    : undefined,
+            }
+            : undefined,
+    },
+    lastNotifiedAt: search.lastNotifiedAt ? new Date(search.lastNotifiedAt) : undefined,
+    createdAt: new Date(search.createdAt),
+    updatedAt: new Date(search.updatedAt),
+});
+
+export class SavedSearchService {
+    /**
+     * The current user's saved searches, newest first
+     */
+    async listSavedSearches(): Promise<SavedSearch[]> {
+        const response = await apiClient.get<{ data: { savedSearches: SavedSearch[] } }>(
+            '/saved-searches'
+        );
+        return response.data.data.savedSearches.map(parseSavedSearch);
+    }
+
+    /**
+     * Save a filter set with its alert settings
+     */
+    async createSavedSearch(request: CreateSavedSearchRequest): Promise<SavedSearch> {
+        const response = await apiClient.post<{ data: { savedSearch: SavedSearch } }>(
+            '/saved-searches',
+            request
+        );
+        return parseSavedSearch(response.data.data.savedSearch);
+    }
+
+    /**
+     * Rename a saved search or change its filters or alerts
+     */
+    async updateSavedSearch(id: string, request: UpdateSavedSearchRequest): Promise<SavedSearch> {
+        const response = await apiClient.patch<{ data: { savedSearch: SavedSearch } }>(
+            `/saved-searches/${id}`,
+            request
+        );
+        return parseSavedSearch(response.data.data.savedSearch);
+    }
+
+    async deleteSavedSearch(id: string): Promise<void> {
+        await apiClient.delete(`/saved-searches/${id}`);
+    }
+}
+
+export const savedSearchService = new SavedSearchService();
+export default savedSearchService;
@@ -0,0 +1,29 @@
+import { apiClient } from './apiClient';
+import { UserSession } from '@booking-swap/shared';
+
+export class SessionService {
+    async listSessions(): Promise<UserSession[]> {
+        const response = await apiClient.get<{ data: { sessions: UserSession[] } }>('/auth/sessions');
+        return response.data.data.sessions.map(session => ({
+            ...session,
+            lastActiveAt: new Date(session.lastActiveAt),
+            createdAt: new Date(session.createdAt),
+            expiresAt: new Date(session.expiresAt),
+        }));
+    }
+
+    async revokeSession(id: string): Promise<void> {
+        await apiClient.delete(`/auth/sessions/${id}`);
+    }
+
+    /**
+     * Sign out every device except this one; returns how many were signed out
+     */
+    async revokeOtherSessions(): Promise<number> {
+        const response = await apiClient.delete<{ data: { revokedCount: number } }>('/auth/sessions');
+        return response.data.data.revokedCount;
+    }
+}
+
+export const sessionService = new SessionService();
+export default sessionService;
@@ -0,0 +1,47 @@
+import { apiClient } from './apiClient';
+import { TwoFactorSetup, TwoFactorStatus } from '@booking-swap/shared';
+
+export class TwoFactorService {
+    async getStatus(): Promise<TwoFactorStatus> {
+        const response = await apiClient.get<{ data: { status: TwoFactorStatus } }>('/auth/2fa');
+        const status = response.data.data.status;
+        return {
+            ...status,
+            enabledAt: status.enabledAt ? new Date(status.enabledAt) : undefined,
+        };
+    }
+
+    /**
+     * Start enrolment; 2FA stays off until enable() confirms a code
+     */
+    async beginSetup(): Promise<TwoFactorSetup> {
+        const response = await apiClient.post<{ data: { setup: TwoFactorSetup } }>('/auth/2fa/setup');
+        return response.data.data.setup;
+    }
+
+    /**
+     * Confirm enrolment; the returned recovery codes are only shown this once
+     */
+    async enable(code: string): Promise<string[]> {
+        const response = await apiClient.post<{ data: { recoveryCodes: string[] } }>(
+            '/auth/2fa/enable',
+            { code }
+        );
+        return response.data.data.recoveryCodes;
+    }
+
+    async disable(code: string): Promise<void> {
+        await apiClient.post('/auth/2fa/disable', { code });
+    }
+
+    async regenerateRecoveryCodes(code: string): Promise<string[]> {
+        const response = await apiClient.post<{ data: { recoveryCodes: string[] } }>(
+            '/auth/2fa/recovery-codes',
+            { code }
+        );
+        return response.data.data.recoveryCodes;
+    }
+}
+
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
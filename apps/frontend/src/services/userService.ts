@@ -1,5 +1,5 @@
 import axios, { AxiosResponse } from 'axios';
-import { User } from '@booking-swap/shared';
+import { Locale, User } from '@booking-swap/shared';
 import { proposalCacheService } from './proposalCacheService';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
@@ -82,6 +82,19 @@ export class UserService {
         }
     }
 
+    /**
+     * Update the language used for the app and for notifications
+     */
+    async updateLocale(locale: Locale): Promise<User> {
+        try {
+            const response: AxiosResponse<UserResponse> = await this.axiosInstance.put('/users/profile', { locale });
+            return response.data.user;
+        } catch (error) {
+            console.error('Failed to update locale:', error);
+            throw error;
+        }
+    }
+
     /**
      * Update user's wallet address
      */
@@ -5,6 +5,7 @@ import { BrowserRouter } from 'react-router-dom';
 import { configureStore, PreloadedState } from '@reduxjs/toolkit';
 import { vi } from 'vitest';
 import { RootState } from '../store';
+import { I18nProvider } from '../contexts/I18nContext';
 import { authSlice } from '../store/slices/authSlice';
 import { bookingsSlice } from '../store/slices/bookingsSlice';
 import { swapsSlice } from '../store/slices/swapsSlice';
@@ -52,7 +53,11 @@ export function renderWithProviders(
   }: ExtendedRenderOptions = {}
 ) {
   function Wrapper({ children }: { children: React.ReactNode }) {
-    const content = <Provider store={store}>{children}</Provider>;
+    const content = (
+      <Provider store={store}>
+        <I18nProvider>{children}</I18nProvider>
+      </Provider>
+    );
 
     if (withRouter) {
       return <BrowserRouter>{content}</BrowserRouter>;
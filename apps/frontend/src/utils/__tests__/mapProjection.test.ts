@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampZoom,
+  getViewportBounds,
+  getZoomForBounds,
+  project,
+  unproject,
+  worldSize,
+  wrapLongitude,
+} from '../mapProjection';
+
+describe('mapProjection', () => {
+  it('should put the origin in the middle of the world', () => {
+    expect(project(0, 0, 1)).toEqual({ x: 256, y: 256 });
+    expect(worldSize(1)).toBe(512);
+  });
+
+  it('should round-trip coordinates', () => {
+    const point = project(48.8566, 2.3522, 10);
+    const center = unproject(point, 10);
+
+    expect(center.lat).toBeCloseTo(48.8566, 6);
+    expect(center.lng).toBeCloseTo(2.3522, 6);
+  });
+
+  it('should wrap longitudes and clamp zoom', () => {
+    expect(wrapLongitude(190)).toBe(-170);
+    expect(wrapLongitude(-190)).toBe(170);
+    expect(clampZoom(0)).toBe(1);
+    expect(clampZoom(25)).toBe(18);
+  });
+
+  it('should return the bounds around the center', () => {
+    const bounds = getViewportBounds({ lat: 0, lng: 0 }, 3, 512, 512);
+
+    expect(bounds.west).toBeCloseTo(-45);
+    expect(bounds.east).toBeCloseTo(45);
+    expect(bounds.north).toBeCloseTo(-bounds.south);
+  });
+
+  it('should report a viewport crossing the antimeridian with west greater than east', () => {
+    const bounds = getViewportBounds({ lat: 0, lng: 180 }, 3, 512, 512);
+
+    expect(bounds.west).toBeCloseTo(135);
+    expect(bounds.east).toBeCloseTo(-135);
+  });
+
+  it('should cover every longitude when the world is narrower than the viewport', () => {
+    const bounds = getViewportBounds({ lat: 0, lng: 0 }, 1, 1200, 400);
+
+    expect(bounds).toMatchObject({ west: -180, east: 180 });
+  });
+
+  it('should find the highest zoom that fits the bounds', () => {
+    const bounds = { north: 49, south: 48.5, east: 2.6, west: 2.1 };
+    const zoom = getZoomForBounds(bounds, 400, 400);
+    const northWest = project(bounds.north, bounds.west, zoom + 1);
+    const southEast = project(bounds.south, bounds.east, zoom + 1);
+
+    expect(zoom).toBeGreaterThan(1);
+    expect(Math.max(southEast.x - northWest.x, southEast.y - northWest.y)).toBeGreaterThan(400);
+  });
+});
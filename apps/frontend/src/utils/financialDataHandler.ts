@@ -78,7 +78,8 @@ export class FinancialDataHandler {
             'MXN': 'MX$',
             'ZAR': 'R',
             'TRY': '₺',
-            'ILS': '₪'
+            'ILS': '₪',
+            'HBAR': 'ℏ'
         };
 
         return currencySymbols[currency.toUpperCase()] || `${currency.toUpperCase()} `;
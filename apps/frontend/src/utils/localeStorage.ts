@@ -0,0 +1,27 @@
+/**
+ * Utilities for remembering the language the user picked on this device
+ */
+
+import { isSupportedLocale, Locale } from '@booking-swap/shared';
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+/**
+ * The saved locale, or null when none was chosen yet
+ */
+export const getStoredLocale = (): Locale | null => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    return stored && isSupportedLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn('Failed to save locale:', error);
+  }
+};
@@ -0,0 +1,98 @@
+import { MapBounds, MAX_MAP_ZOOM, MIN_MAP_ZOOM } from '@booking-swap/shared';
+
+/**
+ * Web Mercator helpers for the browse map. Positions are in pixels of the
+ * whole world at a zoom level, which is 256 * 2^zoom pixels wide, the same
+ * grid the OpenStreetMap tiles use.
+ */
+
+export const TILE_SIZE = 256;
+
+// Mercator cannot show the poles; tiles stop at this latitude
+const MAX_LATITUDE = 85.0511;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapCenter {
+  lat: number;
+  lng: number;
+}
+
+export const worldSize = (zoom: number): number => TILE_SIZE * Math.pow(2, zoom);
+
+const clampLatitude = (lat: number): number =>
+  Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+
+export const clampZoom = (zoom: number): number =>
+  Math.max(MIN_MAP_ZOOM, Math.min(MAX_MAP_ZOOM, Math.round(zoom)));
+
+// Wraps a longitude into [-180, 180)
+export const wrapLongitude = (lng: number): number =>
+  ((((lng + 180) % 360) + 360) % 360) - 180;
+
+export const project = (lat: number, lng: number, zoom: number): MapPoint => {
+  const size = worldSize(zoom);
+  const sin = Math.sin((clampLatitude(lat) * Math.PI) / 180);
+
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = (point: MapPoint, zoom: number): MapCenter => {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * point.y) / size;
+
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (point.x / size) * 360 - 180,
+  };
+};
+
+/**
+ * Bounds shown by a viewport of width x height pixels. West is greater than
+ * east when the viewport crosses the antimeridian, as the map endpoint
+ * expects.
+ */
+export const getViewportBounds = (
+  center: MapCenter,
+  zoom: number,
+  width: number,
+  height: number
+): MapBounds => {
+  const middle = project(center.lat, center.lng, zoom);
+  const northWest = unproject({ x: middle.x - width / 2, y: middle.y - height / 2 }, zoom);
+  const southEast = unproject({ x: middle.x + width / 2, y: middle.y + height / 2 }, zoom);
+
+  // The whole world fits, so no box is needed
+  if (width >= worldSize(zoom)) {
+    return { north: clampLatitude(northWest.lat), south: clampLatitude(southEast.lat), west: -180, east: 180 };
+  }
+
+  return {
+    north: clampLatitude(northWest.lat),
+    south: clampLatitude(southEast.lat),
+    west: wrapLongitude(northWest.lng),
+    east: wrapLongitude(southEast.lng),
+  };
+};
+
+/**
+ * Highest zoom at which the bounds fit in the viewport, used to zoom into a
+ * cluster
+ */
+export const getZoomForBounds = (bounds: MapBounds, width: number, height: number): number => {
+  for (let zoom = MAX_MAP_ZOOM; zoom > MIN_MAP_ZOOM; zoom--) {
+    const northWest = project(bounds.north, bounds.west, zoom);
+    const southEast = project(bounds.south, bounds.east, zoom);
+    if (southEast.x - northWest.x <= width && southEast.y - northWest.y <= height) {
+      return zoom;
+    }
+  }
+
+  return MIN_MAP_ZOOM;
+};
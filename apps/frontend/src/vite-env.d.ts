@@ -5,6 +5,7 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
   readonly VITE_HEDERA_NETWORK: string;
   readonly VITE_HEDERA_MIRROR_NODE_URL: string;
+  readonly VITE_MAP_TILE_URL?: string;
 }
 
 interface ImportMeta {
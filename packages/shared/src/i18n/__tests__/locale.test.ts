@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { isSupportedLocale, resolveLocale } from '../locale';
+
+describe('locale', () => {
+  it('recognises supported locales', () => {
+    expect(isSupportedLocale('es')).toBe(true);
+    expect(isSupportedLocale('de')).toBe(false);
+    expect(isSupportedLocale(undefined)).toBe(false);
+  });
+
+  it('resolves language tags to their base language', () => {
+    expect(resolveLocale('fr-CA')).toBe('fr');
+    expect(resolveLocale('es_MX')).toBe('es');
+  });
+
+  it('picks the highest weighted supported language from Accept-Language', () => {
+    expect(resolveLocale('de-DE,de;q=0.9,fr;q=0.8,en;q=0.7')).toBe('fr');
+    expect(resolveLocale('en;q=0.5, es;q=0.9')).toBe('es');
+  });
+
+  it('falls back to English', () => {
+    expect(resolveLocale(undefined)).toBe('en');
+    expect(resolveLocale('')).toBe('en');
+    expect(resolveLocale('de,it;q=0.8')).toBe('en');
+    expect(resolveLocale('fr;q=0')).toBe('en');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatMessage,
+  formatLocalizedCurrency,
+  formatLocalizedNumber,
+  getMessageArguments,
+  MessageFormatError,
+} from '../messageFormat';
+
+describe('messageFormat', () => {
+  describe('formatMessage', () => {
+    it('substitutes plain arguments', () => {
+      expect(formatMessage('en', 'Hello {name}!', { name: 'Ana' })).toBe(
+        'Hello Ana!'
+      );
+    });
+
+    it('leaves missing arguments visible', () => {
+      expect(formatMessage('en', 'Hello {name}!')).toBe('Hello {name}!');
+    });
+
+    it('selects plural forms with the locale rules', () => {
+      const pattern =
+        '{count, plural, =0 {no nights} one {# night} other {# nights}}';
+
+      expect(formatMessage('en', pattern, { count: 0 })).toBe('no nights');
+      expect(formatMessage('en', pattern, { count: 1 })).toBe('1 night');
+      expect(formatMessage('en', pattern, { count: 1500 })).toBe(
+        '1,500 nights'
+      );
+    });
+
+    it('uses French plural rules, where 0 is singular', () => {
+      const pattern = '{count, plural, one {# nuit} other {# nuits}}';
+
+      expect(formatMessage('fr', pattern, { count: 0 })).toBe('0 nuit');
+      expect(formatMessage('fr', pattern, { count: 2 })).toBe('2 nuits');
+    });
+
+    it('supports ordinals', () => {
+      const pattern =
+        '{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+
+      expect(formatMessage('en', pattern, { place: 2 })).toBe('2nd');
+      expect(formatMessage('en', pattern, { place: 11 })).toBe('11th');
+    });
+
+    it('supports select, with # still counting an enclosing plural', () => {
+      const pattern =
+        '{count, plural, one {{role, select, owner {# booking you own} other {# booking}}} other {# bookings}}';
+
+      expect(formatMessage('en', pattern, { count: 1, role: 'owner' })).toBe(
+        '1 booking you own'
+      );
+      expect(formatMessage('en', pattern, { count: 1, role: 'guest' })).toBe(
+        '1 booking'
+      );
+    });
+
+    it('formats numbers, percentages and currencies for the locale', () => {
+      expect(formatMessage('en', '{n, number}', { n: 1234.5 })).toBe('1,234.5');
+      expect(formatMessage('en', '{n, number, percent}', { n: 0.25 })).toBe(
+        '25%'
+      );
+      expect(formatMessage('en', '{n, number, ::group-off}', { n: 1000 })).toBe(
+        '1000'
+      );
+      expect(
+        formatMessage('en', '{price, number, ::currency/EUR}', { price: 12 })
+      ).toBe('€12.00');
+      expect(
+        formatMessage('en', '{price, number, currency}', {
+          price: 12,
+          currency: 'GBP',
+        })
+      ).toBe('£12.00');
+    });
+
+    it('formats dates for the locale', () => {
+      const date = new Date(Date.UTC(2025, 6, 14, 12));
+
+      expect(formatMessage('en', '{d, date, long}', { d: date })).toContain(
+        'July'
+      );
+      expect(formatMessage('es', '{d, date, long}', { d: date })).toContain(
+        'julio'
+      );
+      expect(formatMessage('fr', '{d, date, long}', { d: date })).toContain(
+        'juillet'
+      );
+    });
+
+    it('follows the ICU apostrophe rules', () => {
+      expect(formatMessage('fr', "l'échange {name}", { name: 'A' })).toBe(
+        "l'échange A"
+      );
+      expect(formatMessage('en', "It''s '{literal}'")).toBe("It's {literal}");
+    });
+
+    it('rejects malformed patterns', () => {
+      expect(() =>
+        formatMessage('en', '{count, plural, one {#}}', { count: 1 })
+      ).toThrow(MessageFormatError);
+      expect(() => formatMessage('en', '{name, bogus}')).toThrow(
+        MessageFormatError
+      );
+    });
+  });
+
+  describe('number helpers', () => {
+    it('formats currencies per locale', () => {
+      expect(formatLocalizedCurrency('en', 1234.5, 'USD')).toBe('$1,234.50');
+      expect(formatLocalizedCurrency('es', 1234.5, 'EUR')).toMatch(
+        /1234,50\s€/
+      );
+      expect(formatLocalizedCurrency('fr', 1234.5, 'EUR')).toMatch(
+        /1\s234,50\s€/
+      );
+    });
+
+    it('writes currencies Intl does not know after the number', () => {
+      expect(formatLocalizedCurrency('en', 1234.5, 'HBAR')).toBe(
+        '1,234.50 HBAR'
+      );
+      expect(formatLocalizedCurrency('fr', 12, 'HBAR')).toBe('12,00 HBAR');
+    });
+
+    it('formats numbers per locale', () => {
+      expect(formatLocalizedNumber('fr', 0.5, { style: 'percent' })).toMatch(
+        /50\s%/
+      );
+    });
+  });
+
+  describe('getMessageArguments', () => {
+    it('lists every argument, including nested ones', () => {
+      expect(
+        getMessageArguments(
+          '{rating, number} ({count, plural, one {# for {name}} other {# reviews}})'
+        )
+      ).toEqual(['count', 'name', 'rating']);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getMissingTranslations, isTranslationComplete } from '../missingKeys';
+import { MESSAGE_CATALOGS } from '../translator';
+import { NOTIFICATION_TEMPLATES } from '../notificationTemplates';
+
+describe('getMissingTranslations', () => {
+  it('finds nothing missing in the shipped catalogs', () => {
+    const reports = getMissingTranslations();
+
+    expect(reports.map(report => report.locale)).toEqual(['es', 'fr']);
+    for (const report of reports) {
+      expect(report).toMatchObject({
+        missingKeys: [],
+        staleKeys: [],
+        mismatchedArguments: [],
+        invalidMessages: [],
+        missingTemplates: [],
+        mismatchedTemplates: [],
+      });
+      expect(isTranslationComplete(report)).toBe(true);
+    }
+  });
+
+  it('reports missing, stale, mismatched and invalid messages', () => {
+    const catalog = MESSAGE_CATALOGS.es as Record<string, string | undefined>;
+    const saved = { ...catalog };
+
+    delete catalog['nav.signIn'];
+    catalog['nav.removedKey'] = 'Viejo';
+    catalog['push.confirmRemove'] =
+      '¿Dejar de enviar notificaciones push a {dispositivo}?';
+    catalog['profile.responseTime'] = '{hours, plural, one {# hora}}';
+
+    try {
+      const [report] = getMissingTranslations(['es']);
+
+      expect(report!.missingKeys).toEqual(['nav.signIn']);
+      expect(report!.staleKeys).toEqual(['nav.removedKey']);
+      expect(report!.mismatchedArguments).toEqual([
+        {
+          key: 'push.confirmRemove',
+          expected: ['device'],
+          actual: ['dispositivo'],
+        },
+      ]);
+      expect(report!.invalidMessages.map(invalid => invalid.key)).toEqual([
+        'profile.responseTime',
+      ]);
+      expect(isTranslationComplete(report!)).toBe(false);
+    } finally {
+      for (const key of Object.keys(catalog)) {
+        delete catalog[key];
+      }
+      Object.assign(catalog, saved);
+    }
+  });
+
+  it('reports missing templates and placeholder mismatches', () => {
+    const templates = NOTIFICATION_TEMPLATES.fr;
+    const saved = [...templates];
+    const acceptedEmail = templates.findIndex(
+      t => t.type === 'swap_accepted' && t.channel === 'email'
+    );
+
+    templates[acceptedEmail] = {
+      ...templates[acceptedEmail]!,
+      template: '<p>Bonjour {{recipient}}</p>',
+    };
+    templates.splice(
+      templates.findIndex(t => t.type === 'message_received'),
+      1
+    );
+
+    try {
+      const [report] = getMissingTranslations(['fr']);
+
+      expect(report!.missingTemplates).toEqual(['message_received_in_app']);
+      expect(report!.mismatchedTemplates).toHaveLength(1);
+      expect(report!.mismatchedTemplates[0]!.key).toBe('swap_accepted_email');
+      expect(report!.mismatchedTemplates[0]!.actual).toContain('{{recipient}}');
+    } finally {
+      templates.splice(0, templates.length, ...saved);
+    }
+  });
+});
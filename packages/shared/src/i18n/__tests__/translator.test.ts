@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createTranslator, MESSAGE_CATALOGS } from '../translator';
+import {
+  getNotificationTemplate,
+  getNotificationTemplates,
+  NOTIFICATION_TEMPLATES,
+} from '../notificationTemplates';
+
+describe('translator', () => {
+  it('translates into the requested locale', () => {
+    expect(createTranslator('en')('nav.signIn')).toBe('Sign In');
+    expect(createTranslator('es')('nav.signIn')).toBe('Iniciar sesión');
+    expect(createTranslator('fr')('nav.signIn')).toBe('Se connecter');
+  });
+
+  it('formats ICU arguments', () => {
+    expect(
+      createTranslator('en')('profile.reviews', { rating: 4.5, count: 1 })
+    ).toBe('4.5 (1 review)');
+    expect(createTranslator('es')('profile.responseTime', { hours: 2 })).toBe(
+      '2 horas'
+    );
+  });
+
+  it('falls back to English and reports the missing key', () => {
+    const original = MESSAGE_CATALOGS.fr['nav.signOut'];
+    delete MESSAGE_CATALOGS.fr['nav.signOut'];
+    const onMissingKey = vi.fn();
+
+    try {
+      expect(createTranslator('fr', { onMissingKey })('nav.signOut')).toBe(
+        'Sign Out'
+      );
+      expect(onMissingKey).toHaveBeenCalledWith('nav.signOut', 'fr');
+    } finally {
+      MESSAGE_CATALOGS.fr['nav.signOut'] = original;
+    }
+  });
+});
+
+describe('notification templates', () => {
+  it('returns the template in the recipient language with the English variables', () => {
+    const english = getNotificationTemplate('swap_accepted', 'email', 'en')!;
+    const spanish = getNotificationTemplate('swap_accepted', 'email', 'es')!;
+
+    expect(spanish.subject).not.toBe(english.subject);
+    expect(spanish.template).toContain('Hola');
+    expect(spanish.variables).toEqual(english.variables);
+  });
+
+  it('has an English template for every lookup', () => {
+    expect(getNotificationTemplates('es')).toHaveLength(
+      NOTIFICATION_TEMPLATES.en.length
+    );
+    expect(
+      getNotificationTemplate('swap_proposal', 'push', 'fr')
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * English interface and validation messages in ICU MessageFormat. This is the
+ * reference catalog: every key starts here and the other locales translate it.
+ */
+export const en = {
+  // Shared actions
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.remove': 'Remove',
+  'common.loading': 'Loading...',
+
+  // Header navigation
+  'nav.browseSwaps': 'Browse Swaps',
+  'nav.myBookings': 'My Bookings',
+  'nav.mySwaps': 'My Swaps',
+  'nav.signIn': 'Sign In',
+  'nav.signUp': 'Sign Up',
+  'nav.profileSettings': 'Profile Settings',
+  'nav.signOut': 'Sign Out',
+
+  // Sign in and registration
+  'auth.welcomeBack': 'Welcome Back',
+  'auth.signInSubtitle': 'Sign in to your account to continue',
+  'auth.twoFactorTitle': 'Two-Factor Verification',
+  'auth.twoFactorSubtitle':
+    'Enter the 6-digit code from your authenticator app, or one of your recovery codes',
+  'auth.authenticationCode': 'Authentication Code',
+  'auth.codeRequired': 'Enter the code from your authenticator app',
+  'auth.verify': 'Verify',
+  'auth.verifying': 'Verifying...',
+  'auth.verificationFailed': 'Verification failed. Please try again.',
+  'auth.backToSignIn': 'Back to sign in',
+  'auth.signingIn': 'Signing In...',
+  'auth.loginFailed': 'Login failed. Please try again.',
+  'auth.forgotPassword': 'Forgot your password?',
+  'auth.noAccount': "Don't have an account?",
+  'auth.signUpHere': 'Sign up here',
+  'auth.createAccount': 'Create Account',
+  'auth.creatingAccount': 'Creating Account...',
+  'auth.signUpSubtitle': 'Sign up to start swapping your bookings',
+  'auth.registrationFailed': 'Registration failed. Please try again.',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.signInHere': 'Sign in here',
+  'auth.displayName': 'Display Name',
+  'auth.displayNamePlaceholder': 'Enter your display name (optional)',
+  'auth.displayNameHelp':
+    'This is how other users will see you. If not provided, your username will be used.',
+  'auth.displayNameTooLong':
+    'Display name must be less than {max, number} characters',
+  'auth.username': 'Username',
+  'auth.usernamePlaceholder': 'Choose a username',
+  'auth.usernameRequired': 'Username is required',
+  'auth.usernameTooShort': 'Username must be at least {min, number} characters',
+  'auth.usernameTooLong': 'Username must be less than {max, number} characters',
+  'auth.usernameInvalid':
+    'Username can only contain letters, numbers, hyphens, and underscores',
+  'auth.email': 'Email Address',
+  'auth.emailPlaceholder': 'Enter your email',
+  'auth.emailRequired': 'Email is required',
+  'auth.emailInvalid': 'Please enter a valid email address',
+  'auth.password': 'Password',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.newPasswordPlaceholder': 'Create a password',
+  'auth.passwordRequired': 'Password is required',
+  'auth.passwordTooShort': 'Password must be at least {min, number} characters',
+  'auth.passwordTooLong': 'Password must be less than {max, number} characters',
+  'auth.confirmPassword': 'Confirm Password',
+  'auth.confirmPasswordPlaceholder': 'Confirm your password',
+  'auth.confirmPasswordRequired': 'Please confirm your password',
+  'auth.passwordsDoNotMatch': 'Passwords do not match',
+
+  // Profile page
+  'profile.title': 'Profile Settings',
+  'profile.memberSince': 'Member since {date}',
+  'profile.reviews':
+    '{rating, number} ({count, plural, one {# review} other {# reviews}})',
+  'profile.verifiedUser': 'Verified User',
+  'profile.topSwapper': 'Top Swapper',
+  'profile.changeAvatar': 'Change Avatar',
+  'profile.avatarComingSoon': 'Avatar upload functionality coming soon!',
+  'profile.personalInformation': 'Personal Information',
+  'profile.firstName': 'First Name',
+  'profile.lastName': 'Last Name',
+  'profile.email': 'Email',
+  'profile.phone': 'Phone',
+  'profile.location': 'Location',
+  'profile.edit': 'Edit Profile',
+  'profile.saveChanges': 'Save Changes',
+  'profile.updated': 'Profile updated successfully!',
+  'profile.walletInformation': 'Wallet Information',
+  'profile.walletAddress': 'Wallet Address',
+  'profile.disconnectWallet': 'Disconnect Wallet',
+  'profile.confirmDisconnectWallet':
+    'Are you sure you want to disconnect your wallet?',
+  'profile.walletDisconnected': 'Wallet disconnected successfully!',
+  'profile.viewOnExplorer': 'View on Explorer',
+  'profile.accountStatistics': 'Account Statistics',
+  'profile.totalSwapsCompleted': 'Total Swaps Completed',
+  'profile.successRate': 'Success Rate',
+  'profile.averageResponseTime': 'Average Response Time',
+  'profile.responseTime': '{hours, plural, one {# hour} other {# hours}}',
+  'profile.totalValueExchanged': 'Total Value Exchanged',
+  'profile.accountLevel': 'Account Level',
+  'profile.accountLevel.premium': 'Premium',
+  'profile.twoFactor': 'Two-Factor Authentication',
+  'profile.activeSessions': 'Active Sessions',
+  'profile.calendar': 'Calendar',
+  'profile.pushNotifications': 'Push Notifications',
+  'profile.apiKeys': 'API Keys',
+  'profile.language': 'Language',
+
+  // Language preference
+  'language.description':
+    'Choose the language for Booking Swap and for the emails, texts and notifications we send you.',
+  'language.label': 'Language',
+  'language.saved': 'Language saved',
+  'language.saveFailed': 'Could not save your language',
+
+  // Push notification settings
+  'push.description':
+    'Get notifications on this device even when Booking Swap is closed. Clicking one opens the swap or booking it is about.',
+  'push.loadFailed': 'Could not load your push notification settings',
+  'push.enableFailed': 'Could not turn on push notifications',
+  'push.disableFailed': 'Could not turn off push notifications',
+  'push.removeFailed': 'Could not remove that device',
+  'push.saveFailed': 'Could not save your push notification settings',
+  'push.notSupported': 'This browser does not support push notifications.',
+  'push.turnOn': 'Turn on for this browser',
+  'push.turnOff': 'Turn off for this browser',
+  'push.blocked':
+    'Notifications are blocked for this site in your browser settings.',
+  'push.loading': 'Loading push notification settings...',
+  'push.typesLegend': 'Push these notifications',
+  'push.thisBrowser': '(this browser)',
+  'push.added': 'Added {date, date, medium}',
+  'push.lastNotified': 'last notified {date, date, medium} {date, time, short}',
+  'push.confirmRemove': 'Stop push notifications on {device}?',
+
+  // Notification types, as users choose them in settings
+  'notificationType.swap_proposal': 'New swap proposals',
+  'notificationType.swap_accepted': 'Swap accepted',
+  'notificationType.swap_rejected': 'Swap rejected',
+  'notificationType.swap_cancelled': 'Swap cancelled',
+  'notificationType.swap_expired': 'Swap expired',
+  'notificationType.browse_proposal_received': 'Proposals for your listings',
+  'notificationType.targeting_received': 'Swaps targeting yours',
+  'notificationType.proposal_accepted': 'Proposal accepted',
+  'notificationType.proposal_rejected': 'Proposal rejected',
+  'notificationType.proposal_countered': 'Counter offers',
+  'notificationType.counter_offer_accepted': 'Counter offer accepted',
+  'notificationType.proposal_payment_completed': 'Payment completed',
+  'notificationType.proposal_payment_failed': 'Payment failed',
+  'notificationType.swap_completion_success': 'Swap completed',
+  'notificationType.swap_completion_failed': 'Swap completion failed',
+  'notificationType.swap_cycle_proposed': 'Multi-party swap proposed',
+  'notificationType.saved_search_match': 'Saved search matches',
+  'notificationType.dispute_opened': 'Dispute opened',
+  'notificationType.dispute_status_changed': 'Dispute updates',
+  'notificationType.message_received': 'New messages',
+
+  // Booking edit validation
+  'validation.booking.titleRequired': 'Title is required',
+  'validation.booking.titleEmpty': 'Title cannot be empty',
+  'validation.booking.titleTooLong':
+    'Title must be less than {max, number, ::group-off} characters',
+  'validation.booking.descriptionRequired': 'Description is required',
+  'validation.booking.descriptionEmpty': 'Description cannot be empty',
+  'validation.booking.descriptionTooLong':
+    'Description must be less than {max, number, ::group-off} characters',
+  'validation.booking.typeUnsupported':
+    'Only accommodation bookings are currently supported: {types}. Event, flight, and rental bookings are temporarily disabled.',
+  'validation.booking.cityRequired': 'City is required',
+  'validation.booking.countryRequired': 'Country is required',
+  'validation.booking.checkInRequired': 'Check-in date is required',
+  'validation.booking.checkInInFuture': 'Check-in date must be in the future',
+  'validation.booking.checkOutRequired': 'Check-out date is required',
+  'validation.booking.checkOutAfterCheckIn':
+    'Check-out date must be after check-in date',
+  'validation.booking.originalPricePositive':
+    'Original price must be greater than 0',
+  'validation.booking.swapValuePositive': 'Swap value must be greater than 0',
+  'validation.booking.providerRequired': 'Provider name is required',
+  'validation.booking.confirmationNumberRequired':
+    'Confirmation number is required',
+  'validation.booking.bookingReferenceRequired':
+    'Booking reference is required',
+
+  // Swap validation
+  'validation.swap.connection.cashEnabled':
+    'Wallet connection required for cash-enabled swap. This is needed for blockchain transaction fees, escrow deposits, and platform fees.',
+  'validation.swap.connection.bookingExchange':
+    'Wallet connection required for booking exchange swap. This is needed for blockchain transaction fees.',
+  'validation.swap.connection.default':
+    'Wallet connection required for swap creation. This is needed for blockchain transaction fees and escrow.',
+  'validation.swap.balance.cashEnabled':
+    'Insufficient wallet balance for cash-enabled swap creation.',
+  'validation.swap.balance.bookingExchange':
+    'Insufficient wallet balance for booking exchange swap creation.',
+  'validation.swap.balance.default':
+    'Insufficient wallet balance for swap creation.',
+  'validation.swap.balanceReason.cashEnabled':
+    'Cash-enabled swaps require funds for escrow deposits, platform fees, and transaction costs.',
+  'validation.swap.balanceReason.bookingExchange':
+    'Booking exchange swaps require funds for transaction costs only.',
+  'validation.swap.currentBalance': 'Current Balance: {amount}',
+  'validation.swap.requiredAmount': 'Required Amount: {amount}',
+  'validation.swap.transactionFee': 'Transaction Fee: {amount}',
+  'validation.swap.escrowAmount': 'Escrow Amount: {amount}',
+  'validation.swap.platformFee': 'Platform Fee: {amount}',
+  'validation.swap.shortfall': 'Shortfall: {amount}',
+  'validation.swap.addFunds':
+    'Please add funds to your wallet before creating this swap.',
+  'validation.swap.guidance.cashEnabled':
+    'For cash-enabled swaps, you need funds for escrow deposits, platform fees, and transaction costs. Please add funds to your wallet before creating this swap.',
+  'validation.swap.guidance.bookingExchange':
+    'For booking exchange swaps, you only need to cover transaction fees. Please add funds to your wallet before creating this swap.',
+  'validation.swap.title.cashEnabled': 'Cash-Enabled Swap Configuration Issues',
+  'validation.swap.title.bookingExchange':
+    'Booking Exchange Swap Configuration Issues',
+  'validation.swap.title.default': 'Swap Configuration Issues',
+  'validation.swap.minimumCashRequired':
+    'Cash-enabled swaps must specify a minimum cash amount greater than 0',
+  'validation.swap.minimumCashTooLow':
+    'Minimum cash amount should be at least 1 HBAR to cover platform fees',
+  'validation.swap.bookingExchangeRequired':
+    'Booking exchange must be enabled for booking-only swaps',
+  'validation.swap.cashWithoutMinimum':
+    'Cash payment is enabled but no minimum amount is specified. This will be treated as a booking-only swap.',
+} as const;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,242 @@
+import type { MessageCatalog } from '../translator.js';
+
+/**
+ * Spanish interface and validation messages
+ */
+export const es: MessageCatalog = {
+  // Shared actions
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.remove': 'Quitar',
+  'common.loading': 'Cargando...',
+
+  // Header navigation
+  'nav.browseSwaps': 'Explorar intercambios',
+  'nav.myBookings': 'Mis reservas',
+  'nav.mySwaps': 'Mis intercambios',
+  'nav.signIn': 'Iniciar sesión',
+  'nav.signUp': 'Registrarse',
+  'nav.profileSettings': 'Configuración del perfil',
+  'nav.signOut': 'Cerrar sesión',
+
+  // Sign in and registration
+  'auth.welcomeBack': 'Bienvenido de nuevo',
+  'auth.signInSubtitle': 'Inicia sesión en tu cuenta para continuar',
+  'auth.twoFactorTitle': 'Verificación en dos pasos',
+  'auth.twoFactorSubtitle':
+    'Introduce el código de 6 dígitos de tu aplicación de autenticación o uno de tus códigos de recuperación',
+  'auth.authenticationCode': 'Código de autenticación',
+  'auth.codeRequired': 'Introduce el código de tu aplicación de autenticación',
+  'auth.verify': 'Verificar',
+  'auth.verifying': 'Verificando...',
+  'auth.verificationFailed': 'La verificación ha fallado. Inténtalo de nuevo.',
+  'auth.backToSignIn': 'Volver a iniciar sesión',
+  'auth.signingIn': 'Iniciando sesión...',
+  'auth.loginFailed': 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+  'auth.forgotPassword': '¿Has olvidado tu contraseña?',
+  'auth.noAccount': '¿No tienes una cuenta?',
+  'auth.signUpHere': 'Regístrate aquí',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.creatingAccount': 'Creando cuenta...',
+  'auth.signUpSubtitle': 'Regístrate para empezar a intercambiar tus reservas',
+  'auth.registrationFailed':
+    'No se pudo completar el registro. Inténtalo de nuevo.',
+  'auth.haveAccount': '¿Ya tienes una cuenta?',
+  'auth.signInHere': 'Inicia sesión aquí',
+  'auth.displayName': 'Nombre visible',
+  'auth.displayNamePlaceholder': 'Introduce tu nombre visible (opcional)',
+  'auth.displayNameHelp':
+    'Así te verán los demás usuarios. Si no lo indicas, se usará tu nombre de usuario.',
+  'auth.displayNameTooLong':
+    'El nombre visible debe tener menos de {max, number} caracteres',
+  'auth.username': 'Nombre de usuario',
+  'auth.usernamePlaceholder': 'Elige un nombre de usuario',
+  'auth.usernameRequired': 'El nombre de usuario es obligatorio',
+  'auth.usernameTooShort':
+    'El nombre de usuario debe tener al menos {min, number} caracteres',
+  'auth.usernameTooLong':
+    'El nombre de usuario debe tener menos de {max, number} caracteres',
+  'auth.usernameInvalid':
+    'El nombre de usuario solo puede contener letras, números, guiones y guiones bajos',
+  'auth.email': 'Correo electrónico',
+  'auth.emailPlaceholder': 'Introduce tu correo electrónico',
+  'auth.emailRequired': 'El correo electrónico es obligatorio',
+  'auth.emailInvalid': 'Introduce un correo electrónico válido',
+  'auth.password': 'Contraseña',
+  'auth.passwordPlaceholder': 'Introduce tu contraseña',
+  'auth.newPasswordPlaceholder': 'Crea una contraseña',
+  'auth.passwordRequired': 'La contraseña es obligatoria',
+  'auth.passwordTooShort':
+    'La contraseña debe tener al menos {min, number} caracteres',
+  'auth.passwordTooLong':
+    'La contraseña debe tener menos de {max, number} caracteres',
+  'auth.confirmPassword': 'Confirmar contraseña',
+  'auth.confirmPasswordPlaceholder': 'Confirma tu contraseña',
+  'auth.confirmPasswordRequired': 'Confirma tu contraseña',
+  'auth.passwordsDoNotMatch': 'Las contraseñas no coinciden',
+
+  // Profile page
+  'profile.title': 'Configuración del perfil',
+  'profile.memberSince': 'Miembro desde {date}',
+  'profile.reviews':
+    '{rating, number} ({count, plural, one {# reseña} other {# reseñas}})',
+  'profile.verifiedUser': 'Usuario verificado',
+  'profile.topSwapper': 'Gran intercambiador',
+  'profile.changeAvatar': 'Cambiar avatar',
+  'profile.avatarComingSoon': '¡Pronto podrás subir tu avatar!',
+  'profile.personalInformation': 'Información personal',
+  'profile.firstName': 'Nombre',
+  'profile.lastName': 'Apellidos',
+  'profile.email': 'Correo electrónico',
+  'profile.phone': 'Teléfono',
+  'profile.location': 'Ubicación',
+  'profile.edit': 'Editar perfil',
+  'profile.saveChanges': 'Guardar cambios',
+  'profile.updated': '¡Perfil actualizado correctamente!',
+  'profile.walletInformation': 'Información de la billetera',
+  'profile.walletAddress': 'Dirección de la billetera',
+  'profile.disconnectWallet': 'Desconectar billetera',
+  'profile.confirmDisconnectWallet':
+    '¿Seguro que quieres desconectar tu billetera?',
+  'profile.walletDisconnected': '¡Billetera desconectada correctamente!',
+  'profile.viewOnExplorer': 'Ver en el explorador',
+  'profile.accountStatistics': 'Estadísticas de la cuenta',
+  'profile.totalSwapsCompleted': 'Intercambios completados',
+  'profile.successRate': 'Tasa de éxito',
+  'profile.averageResponseTime': 'Tiempo medio de respuesta',
+  'profile.responseTime': '{hours, plural, one {# hora} other {# horas}}',
+  'profile.totalValueExchanged': 'Valor total intercambiado',
+  'profile.accountLevel': 'Nivel de la cuenta',
+  'profile.accountLevel.premium': 'Premium',
+  'profile.twoFactor': 'Autenticación en dos pasos',
+  'profile.activeSessions': 'Sesiones activas',
+  'profile.calendar': 'Calendario',
+  'profile.pushNotifications': 'Notificaciones push',
+  'profile.apiKeys': 'Claves de API',
+  'profile.language': 'Idioma',
+
+  // Language preference
+  'language.description':
+    'Elige el idioma de Booking Swap y de los correos, SMS y notificaciones que te enviamos.',
+  'language.label': 'Idioma',
+  'language.saved': 'Idioma guardado',
+  'language.saveFailed': 'No se pudo guardar tu idioma',
+
+  // Push notification settings
+  'push.description':
+    'Recibe notificaciones en este dispositivo aunque Booking Swap esté cerrado. Al pulsar una se abre el intercambio o la reserva correspondiente.',
+  'push.loadFailed':
+    'No se pudo cargar tu configuración de notificaciones push',
+  'push.enableFailed': 'No se pudieron activar las notificaciones push',
+  'push.disableFailed': 'No se pudieron desactivar las notificaciones push',
+  'push.removeFailed': 'No se pudo quitar ese dispositivo',
+  'push.saveFailed':
+    'No se pudo guardar tu configuración de notificaciones push',
+  'push.notSupported': 'Este navegador no admite notificaciones push.',
+  'push.turnOn': 'Activar en este navegador',
+  'push.turnOff': 'Desactivar en este navegador',
+  'push.blocked':
+    'Las notificaciones de este sitio están bloqueadas en la configuración de tu navegador.',
+  'push.loading': 'Cargando la configuración de notificaciones push...',
+  'push.typesLegend': 'Enviar estas notificaciones',
+  'push.thisBrowser': '(este navegador)',
+  'push.added': 'Añadido el {date, date, medium}',
+  'push.lastNotified':
+    'última notificación el {date, date, medium} a las {date, time, short}',
+  'push.confirmRemove': '¿Dejar de enviar notificaciones push a {device}?',
+
+  // Notification types, as users choose them in settings
+  'notificationType.swap_proposal': 'Nuevas propuestas de intercambio',
+  'notificationType.swap_accepted': 'Intercambio aceptado',
+  'notificationType.swap_rejected': 'Intercambio rechazado',
+  'notificationType.swap_cancelled': 'Intercambio cancelado',
+  'notificationType.swap_expired': 'Intercambio caducado',
+  'notificationType.browse_proposal_received': 'Propuestas para tus anuncios',
+  'notificationType.targeting_received': 'Intercambios dirigidos a los tuyos',
+  'notificationType.proposal_accepted': 'Propuesta aceptada',
+  'notificationType.proposal_rejected': 'Propuesta rechazada',
+  'notificationType.proposal_countered': 'Contraofertas',
+  'notificationType.counter_offer_accepted': 'Contraoferta aceptada',
+  'notificationType.proposal_payment_completed': 'Pago completado',
+  'notificationType.proposal_payment_failed': 'Pago fallido',
+  'notificationType.swap_completion_success': 'Intercambio completado',
+  'notificationType.swap_completion_failed':
+    'Error al completar el intercambio',
+  'notificationType.swap_cycle_proposed': 'Intercambio múltiple propuesto',
+  'notificationType.saved_search_match': 'Coincidencias de búsquedas guardadas',
+  'notificationType.dispute_opened': 'Disputa abierta',
+  'notificationType.dispute_status_changed': 'Novedades de disputas',
+  'notificationType.message_received': 'Mensajes nuevos',
+
+  // Booking edit validation
+  'validation.booking.titleRequired': 'El título es obligatorio',
+  'validation.booking.titleEmpty': 'El título no puede estar vacío',
+  'validation.booking.titleTooLong':
+    'El título debe tener menos de {max, number, ::group-off} caracteres',
+  'validation.booking.descriptionRequired': 'La descripción es obligatoria',
+  'validation.booking.descriptionEmpty': 'La descripción no puede estar vacía',
+  'validation.booking.descriptionTooLong':
+    'La descripción debe tener menos de {max, number, ::group-off} caracteres',
+  'validation.booking.typeUnsupported':
+    'Por ahora solo se admiten reservas de alojamiento: {types}. Las reservas de eventos, vuelos y alquileres están desactivadas temporalmente.',
+  'validation.booking.cityRequired': 'La ciudad es obligatoria',
+  'validation.booking.countryRequired': 'El país es obligatorio',
+  'validation.booking.checkInRequired': 'La fecha de entrada es obligatoria',
+  'validation.booking.checkInInFuture': 'La fecha de entrada debe ser futura',
+  'validation.booking.checkOutRequired': 'La fecha de salida es obligatoria',
+  'validation.booking.checkOutAfterCheckIn':
+    'La fecha de salida debe ser posterior a la de entrada',
+  'validation.booking.originalPricePositive':
+    'El precio original debe ser mayor que 0',
+  'validation.booking.swapValuePositive':
+    'El valor de intercambio debe ser mayor que 0',
+  'validation.booking.providerRequired':
+    'El nombre del proveedor es obligatorio',
+  'validation.booking.confirmationNumberRequired':
+    'El número de confirmación es obligatorio',
+  'validation.booking.bookingReferenceRequired':
+    'La referencia de la reserva es obligatoria',
+
+  // Swap validation
+  'validation.swap.connection.cashEnabled':
+    'Debes conectar tu billetera para un intercambio con efectivo. Es necesaria para las comisiones de transacción en blockchain, los depósitos en garantía y las comisiones de la plataforma.',
+  'validation.swap.connection.bookingExchange':
+    'Debes conectar tu billetera para un intercambio de reservas. Es necesaria para las comisiones de transacción en blockchain.',
+  'validation.swap.connection.default':
+    'Debes conectar tu billetera para crear un intercambio. Es necesaria para las comisiones de transacción en blockchain y el depósito en garantía.',
+  'validation.swap.balance.cashEnabled':
+    'Saldo insuficiente en la billetera para crear un intercambio con efectivo.',
+  'validation.swap.balance.bookingExchange':
+    'Saldo insuficiente en la billetera para crear un intercambio de reservas.',
+  'validation.swap.balance.default':
+    'Saldo insuficiente en la billetera para crear el intercambio.',
+  'validation.swap.balanceReason.cashEnabled':
+    'Los intercambios con efectivo requieren fondos para los depósitos en garantía, las comisiones de la plataforma y los costes de transacción.',
+  'validation.swap.balanceReason.bookingExchange':
+    'Los intercambios de reservas solo requieren fondos para los costes de transacción.',
+  'validation.swap.currentBalance': 'Saldo actual: {amount}',
+  'validation.swap.requiredAmount': 'Importe necesario: {amount}',
+  'validation.swap.transactionFee': 'Comisión de transacción: {amount}',
+  'validation.swap.escrowAmount': 'Importe en garantía: {amount}',
+  'validation.swap.platformFee': 'Comisión de la plataforma: {amount}',
+  'validation.swap.shortfall': 'Faltan: {amount}',
+  'validation.swap.addFunds':
+    'Añade fondos a tu billetera antes de crear este intercambio.',
+  'validation.swap.guidance.cashEnabled':
+    'Para los intercambios con efectivo necesitas fondos para los depósitos en garantía, las comisiones de la plataforma y los costes de transacción. Añade fondos a tu billetera antes de crear este intercambio.',
+  'validation.swap.guidance.bookingExchange':
+    'Para los intercambios de reservas solo necesitas cubrir las comisiones de transacción. Añade fondos a tu billetera antes de crear este intercambio.',
+  'validation.swap.title.cashEnabled':
+    'Problemas de configuración del intercambio con efectivo',
+  'validation.swap.title.bookingExchange':
+    'Problemas de configuración del intercambio de reservas',
+  'validation.swap.title.default': 'Problemas de configuración del intercambio',
+  'validation.swap.minimumCashRequired':
+    'Los intercambios con efectivo deben indicar un importe mínimo mayor que 0',
+  'validation.swap.minimumCashTooLow':
+    'El importe mínimo debe ser de al menos 1 HBAR para cubrir las comisiones de la plataforma',
+  'validation.swap.bookingExchangeRequired':
+    'El intercambio de reservas debe estar activado en los intercambios solo de reservas',
+  'validation.swap.cashWithoutMinimum':
+    'El pago en efectivo está activado pero no se ha indicado un importe mínimo. Se tratará como un intercambio solo de reservas.',
+};
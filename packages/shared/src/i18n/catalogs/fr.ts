@@ -0,0 +1,246 @@
+import type { MessageCatalog } from '../translator.js';
+
+/**
+ * French interface and validation messages
+ */
+export const fr: MessageCatalog = {
+  // Shared actions
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.remove': 'Retirer',
+  'common.loading': 'Chargement...',
+
+  // Header navigation
+  'nav.browseSwaps': 'Parcourir les échanges',
+  'nav.myBookings': 'Mes réservations',
+  'nav.mySwaps': 'Mes échanges',
+  'nav.signIn': 'Se connecter',
+  'nav.signUp': "S'inscrire",
+  'nav.profileSettings': 'Paramètres du profil',
+  'nav.signOut': 'Se déconnecter',
+
+  // Sign in and registration
+  'auth.welcomeBack': 'Bon retour parmi nous',
+  'auth.signInSubtitle': 'Connectez-vous à votre compte pour continuer',
+  'auth.twoFactorTitle': 'Vérification en deux étapes',
+  'auth.twoFactorSubtitle':
+    "Saisissez le code à 6 chiffres de votre application d'authentification, ou l'un de vos codes de récupération",
+  'auth.authenticationCode': "Code d'authentification",
+  'auth.codeRequired':
+    "Saisissez le code de votre application d'authentification",
+  'auth.verify': 'Vérifier',
+  'auth.verifying': 'Vérification...',
+  'auth.verificationFailed': 'La vérification a échoué. Veuillez réessayer.',
+  'auth.backToSignIn': 'Retour à la connexion',
+  'auth.signingIn': 'Connexion...',
+  'auth.loginFailed': 'La connexion a échoué. Veuillez réessayer.',
+  'auth.forgotPassword': 'Mot de passe oublié ?',
+  'auth.noAccount': "Vous n'avez pas de compte ?",
+  'auth.signUpHere': 'Inscrivez-vous ici',
+  'auth.createAccount': 'Créer un compte',
+  'auth.creatingAccount': 'Création du compte...',
+  'auth.signUpSubtitle':
+    'Inscrivez-vous pour commencer à échanger vos réservations',
+  'auth.registrationFailed': "L'inscription a échoué. Veuillez réessayer.",
+  'auth.haveAccount': 'Vous avez déjà un compte ?',
+  'auth.signInHere': 'Connectez-vous ici',
+  'auth.displayName': 'Nom affiché',
+  'auth.displayNamePlaceholder': 'Saisissez votre nom affiché (facultatif)',
+  'auth.displayNameHelp':
+    "C'est ainsi que les autres utilisateurs vous verront. À défaut, votre nom d'utilisateur sera utilisé.",
+  'auth.displayNameTooLong':
+    'Le nom affiché doit contenir moins de {max, number} caractères',
+  'auth.username': "Nom d'utilisateur",
+  'auth.usernamePlaceholder': "Choisissez un nom d'utilisateur",
+  'auth.usernameRequired': "Le nom d'utilisateur est obligatoire",
+  'auth.usernameTooShort':
+    "Le nom d'utilisateur doit contenir au moins {min, number} caractères",
+  'auth.usernameTooLong':
+    "Le nom d'utilisateur doit contenir moins de {max, number} caractères",
+  'auth.usernameInvalid':
+    "Le nom d'utilisateur ne peut contenir que des lettres, des chiffres, des tirets et des tirets bas",
+  'auth.email': 'Adresse e-mail',
+  'auth.emailPlaceholder': 'Saisissez votre e-mail',
+  'auth.emailRequired': "L'e-mail est obligatoire",
+  'auth.emailInvalid': 'Veuillez saisir une adresse e-mail valide',
+  'auth.password': 'Mot de passe',
+  'auth.passwordPlaceholder': 'Saisissez votre mot de passe',
+  'auth.newPasswordPlaceholder': 'Créez un mot de passe',
+  'auth.passwordRequired': 'Le mot de passe est obligatoire',
+  'auth.passwordTooShort':
+    'Le mot de passe doit contenir au moins {min, number} caractères',
+  'auth.passwordTooLong':
+    'Le mot de passe doit contenir moins de {max, number} caractères',
+  'auth.confirmPassword': 'Confirmer le mot de passe',
+  'auth.confirmPasswordPlaceholder': 'Confirmez votre mot de passe',
+  'auth.confirmPasswordRequired': 'Veuillez confirmer votre mot de passe',
+  'auth.passwordsDoNotMatch': 'Les mots de passe ne correspondent pas',
+
+  // Profile page
+  'profile.title': 'Paramètres du profil',
+  'profile.memberSince': 'Membre depuis {date}',
+  'profile.reviews':
+    '{rating, number} ({count, plural, one {# avis} other {# avis}})',
+  'profile.verifiedUser': 'Utilisateur vérifié',
+  'profile.topSwapper': "As de l'échange",
+  'profile.changeAvatar': "Changer d'avatar",
+  'profile.avatarComingSoon': "L'envoi d'avatar arrive bientôt !",
+  'profile.personalInformation': 'Informations personnelles',
+  'profile.firstName': 'Prénom',
+  'profile.lastName': 'Nom',
+  'profile.email': 'E-mail',
+  'profile.phone': 'Téléphone',
+  'profile.location': 'Localisation',
+  'profile.edit': 'Modifier le profil',
+  'profile.saveChanges': 'Enregistrer les modifications',
+  'profile.updated': 'Profil mis à jour !',
+  'profile.walletInformation': 'Informations du portefeuille',
+  'profile.walletAddress': 'Adresse du portefeuille',
+  'profile.disconnectWallet': 'Déconnecter le portefeuille',
+  'profile.confirmDisconnectWallet':
+    'Voulez-vous vraiment déconnecter votre portefeuille ?',
+  'profile.walletDisconnected': 'Portefeuille déconnecté !',
+  'profile.viewOnExplorer': "Voir dans l'explorateur",
+  'profile.accountStatistics': 'Statistiques du compte',
+  'profile.totalSwapsCompleted': 'Échanges réalisés',
+  'profile.successRate': 'Taux de réussite',
+  'profile.averageResponseTime': 'Délai de réponse moyen',
+  'profile.responseTime': '{hours, plural, one {# heure} other {# heures}}',
+  'profile.totalValueExchanged': 'Valeur totale échangée',
+  'profile.accountLevel': 'Niveau du compte',
+  'profile.accountLevel.premium': 'Premium',
+  'profile.twoFactor': 'Authentification à deux facteurs',
+  'profile.activeSessions': 'Sessions actives',
+  'profile.calendar': 'Calendrier',
+  'profile.pushNotifications': 'Notifications push',
+  'profile.apiKeys': "Clés d'API",
+  'profile.language': 'Langue',
+
+  // Language preference
+  'language.description':
+    'Choisissez la langue de Booking Swap ainsi que des e-mails, SMS et notifications que nous vous envoyons.',
+  'language.label': 'Langue',
+  'language.saved': 'Langue enregistrée',
+  'language.saveFailed': "Impossible d'enregistrer votre langue",
+
+  // Push notification settings
+  'push.description':
+    "Recevez des notifications sur cet appareil même lorsque Booking Swap est fermé. Un clic ouvre l'échange ou la réservation concerné.",
+  'push.loadFailed':
+    'Impossible de charger vos paramètres de notifications push',
+  'push.enableFailed': "Impossible d'activer les notifications push",
+  'push.disableFailed': 'Impossible de désactiver les notifications push',
+  'push.removeFailed': 'Impossible de retirer cet appareil',
+  'push.saveFailed':
+    "Impossible d'enregistrer vos paramètres de notifications push",
+  'push.notSupported':
+    'Ce navigateur ne prend pas en charge les notifications push.',
+  'push.turnOn': 'Activer sur ce navigateur',
+  'push.turnOff': 'Désactiver sur ce navigateur',
+  'push.blocked':
+    'Les notifications de ce site sont bloquées dans les paramètres de votre navigateur.',
+  'push.loading': 'Chargement des paramètres de notifications push...',
+  'push.typesLegend': 'Envoyer ces notifications',
+  'push.thisBrowser': '(ce navigateur)',
+  'push.added': 'Ajouté le {date, date, medium}',
+  'push.lastNotified':
+    'dernière notification le {date, date, medium} à {date, time, short}',
+  'push.confirmRemove': 'Arrêter les notifications push sur {device} ?',
+
+  // Notification types, as users choose them in settings
+  'notificationType.swap_proposal': "Nouvelles propositions d'échange",
+  'notificationType.swap_accepted': 'Échange accepté',
+  'notificationType.swap_rejected': 'Échange refusé',
+  'notificationType.swap_cancelled': 'Échange annulé',
+  'notificationType.swap_expired': 'Échange expiré',
+  'notificationType.browse_proposal_received': 'Propositions pour vos annonces',
+  'notificationType.targeting_received': 'Échanges ciblant les vôtres',
+  'notificationType.proposal_accepted': 'Proposition acceptée',
+  'notificationType.proposal_rejected': 'Proposition refusée',
+  'notificationType.proposal_countered': 'Contre-offres',
+  'notificationType.counter_offer_accepted': 'Contre-offre acceptée',
+  'notificationType.proposal_payment_completed': 'Paiement effectué',
+  'notificationType.proposal_payment_failed': 'Échec du paiement',
+  'notificationType.swap_completion_success': 'Échange finalisé',
+  'notificationType.swap_completion_failed':
+    "Échec de la finalisation de l'échange",
+  'notificationType.swap_cycle_proposed': 'Échange à plusieurs proposé',
+  'notificationType.saved_search_match':
+    'Résultats des recherches enregistrées',
+  'notificationType.dispute_opened': 'Litige ouvert',
+  'notificationType.dispute_status_changed': 'Suivi des litiges',
+  'notificationType.message_received': 'Nouveaux messages',
+
+  // Booking edit validation
+  'validation.booking.titleRequired': 'Le titre est obligatoire',
+  'validation.booking.titleEmpty': 'Le titre ne peut pas être vide',
+  'validation.booking.titleTooLong':
+    'Le titre doit contenir moins de {max, number, ::group-off} caractères',
+  'validation.booking.descriptionRequired': 'La description est obligatoire',
+  'validation.booking.descriptionEmpty': 'La description ne peut pas être vide',
+  'validation.booking.descriptionTooLong':
+    'La description doit contenir moins de {max, number, ::group-off} caractères',
+  'validation.booking.typeUnsupported':
+    "Seules les réservations d'hébergement sont prises en charge pour le moment : {types}. Les réservations d'événements, de vols et de locations sont temporairement désactivées.",
+  'validation.booking.cityRequired': 'La ville est obligatoire',
+  'validation.booking.countryRequired': 'Le pays est obligatoire',
+  'validation.booking.checkInRequired': "La date d'arrivée est obligatoire",
+  'validation.booking.checkInInFuture':
+    "La date d'arrivée doit être dans le futur",
+  'validation.booking.checkOutRequired': 'La date de départ est obligatoire',
+  'validation.booking.checkOutAfterCheckIn':
+    "La date de départ doit être postérieure à la date d'arrivée",
+  'validation.booking.originalPricePositive':
+    "Le prix d'origine doit être supérieur à 0",
+  'validation.booking.swapValuePositive':
+    "La valeur d'échange doit être supérieure à 0",
+  'validation.booking.providerRequired':
+    'Le nom du prestataire est obligatoire',
+  'validation.booking.confirmationNumberRequired':
+    'Le numéro de confirmation est obligatoire',
+  'validation.booking.bookingReferenceRequired':
+    'La référence de réservation est obligatoire',
+
+  // Swap validation
+  'validation.swap.connection.cashEnabled':
+    'Connexion du portefeuille requise pour un échange avec paiement. Elle sert aux frais de transaction blockchain, aux dépôts sous séquestre et aux frais de plateforme.',
+  'validation.swap.connection.bookingExchange':
+    'Connexion du portefeuille requise pour un échange de réservations. Elle sert aux frais de transaction blockchain.',
+  'validation.swap.connection.default':
+    'Connexion du portefeuille requise pour créer un échange. Elle sert aux frais de transaction blockchain et au séquestre.',
+  'validation.swap.balance.cashEnabled':
+    'Solde du portefeuille insuffisant pour créer un échange avec paiement.',
+  'validation.swap.balance.bookingExchange':
+    'Solde du portefeuille insuffisant pour créer un échange de réservations.',
+  'validation.swap.balance.default':
+    "Solde du portefeuille insuffisant pour créer l'échange.",
+  'validation.swap.balanceReason.cashEnabled':
+    'Les échanges avec paiement nécessitent des fonds pour les dépôts sous séquestre, les frais de plateforme et les frais de transaction.',
+  'validation.swap.balanceReason.bookingExchange':
+    'Les échanges de réservations ne nécessitent des fonds que pour les frais de transaction.',
+  'validation.swap.currentBalance': 'Solde actuel : {amount}',
+  'validation.swap.requiredAmount': 'Montant requis : {amount}',
+  'validation.swap.transactionFee': 'Frais de transaction : {amount}',
+  'validation.swap.escrowAmount': 'Montant sous séquestre : {amount}',
+  'validation.swap.platformFee': 'Frais de plateforme : {amount}',
+  'validation.swap.shortfall': 'Montant manquant : {amount}',
+  'validation.swap.addFunds':
+    'Veuillez approvisionner votre portefeuille avant de créer cet échange.',
+  'validation.swap.guidance.cashEnabled':
+    'Pour les échanges avec paiement, il vous faut des fonds pour les dépôts sous séquestre, les frais de plateforme et les frais de transaction. Veuillez approvisionner votre portefeuille avant de créer cet échange.',
+  'validation.swap.guidance.bookingExchange':
+    'Pour les échanges de réservations, seuls les frais de transaction sont à couvrir. Veuillez approvisionner votre portefeuille avant de créer cet échange.',
+  'validation.swap.title.cashEnabled':
+    "Problèmes de configuration de l'échange avec paiement",
+  'validation.swap.title.bookingExchange':
+    "Problèmes de configuration de l'échange de réservations",
+  'validation.swap.title.default': "Problèmes de configuration de l'échange",
+  'validation.swap.minimumCashRequired':
+    'Les échanges avec paiement doivent indiquer un montant minimum supérieur à 0',
+  'validation.swap.minimumCashTooLow':
+    "Le montant minimum doit être d'au moins 1 HBAR pour couvrir les frais de plateforme",
+  'validation.swap.bookingExchangeRequired':
+    "L'échange de réservations doit être activé pour les échanges sans paiement",
+  'validation.swap.cashWithoutMinimum':
+    "Le paiement est activé mais aucun montant minimum n'est indiqué. L'échange sera traité comme un échange de réservations uniquement.",
+};
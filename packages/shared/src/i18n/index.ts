@@ -0,0 +1,7 @@
+// Locales, ICU message formatting and the translation catalogs shared by the
+// frontend and the backend notification templates
+export * from './locale.js';
+export * from './messageFormat.js';
+export * from './translator.js';
+export * from './notificationTemplates/index.js';
+export * from './missingKeys.js';
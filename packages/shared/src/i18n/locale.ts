@@ -0,0 +1,50 @@
+/**
+ * Locales the platform has translation catalogs for
+ */
+export const SUPPORTED_LOCALES = ['en', 'es', 'fr'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language picker, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+};
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' &&
+  (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+/**
+ * Picks the best supported locale from a language tag ("fr-CA") or an
+ * Accept-Language header ("es-MX,es;q=0.9,en;q=0.8"), falling back to English
+ */
+export const resolveLocale = (preference?: string | null): Locale => {
+  if (!preference) {
+    return DEFAULT_LOCALE;
+  }
+
+  const ranges = preference
+    .split(',')
+    .map((part, index) => {
+      const [tag = '', ...params] = part.trim().split(';');
+      const quality = params
+        .map(param => param.trim())
+        .find(param => param.startsWith('q='));
+      return {
+        language: tag.trim().toLowerCase().split(/[-_]/)[0] || '',
+        quality: quality ? parseFloat(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(
+      range => range.language && !isNaN(range.quality) && range.quality > 0
+    )
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  const match = ranges.find(range => isSupportedLocale(range.language));
+  return match ? (match.language as Locale) : DEFAULT_LOCALE;
+};
@@ -0,0 +1,463 @@
+import { Locale } from './locale.js';
+
+/**
+ * A small ICU MessageFormat implementation on top of the Intl APIs, covering
+ * what the catalogs use:
+ *
+ *   {name}                                  plain argument
+ *   {count, number}                         also integer, percent, currency
+ *   {amount, number, ::currency/EUR}        fixed currency
+ *   {limit, number, ::group-off}            no thousands separator
+ *   {amount, number, currency}              currency taken from {currency}
+ *   {date, date, medium}                    short, medium, long, full
+ *   {date, time, short}
+ *   {count, plural, =0 {none} one {# night} other {# nights}}
+ *   {place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}
+ *   {role, select, owner {...} other {...}}
+ *
+ * Apostrophes follow the ICU rule: '' is a literal apostrophe and a single
+ * one only quotes when it precedes a brace, so "l'échange" needs no escaping.
+ */
+
+export type MessageValue = string | number | boolean | Date | null | undefined;
+
+export type MessageValues = Record<string, MessageValue>;
+
+type Node =
+  | { kind: 'text'; value: string }
+  | { kind: 'pound' }
+  | { kind: 'argument'; name: string; format?: string; style?: string }
+  | {
+      kind: 'plural';
+      name: string;
+      ordinal: boolean;
+      options: Record<string, Node[]>;
+    }
+  | { kind: 'select'; name: string; options: Record<string, Node[]> };
+
+export class MessageFormatError extends Error {
+  constructor(
+    message: string,
+    public pattern: string
+  ) {
+    super(`${message} in "${pattern}"`);
+    this.name = 'MessageFormatError';
+  }
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private pattern: string) {}
+
+  parse(): Node[] {
+    const nodes = this.parseMessage(false);
+    if (this.position < this.pattern.length) {
+      throw new MessageFormatError(
+        `Unexpected "}" at ${this.position}`,
+        this.pattern
+      );
+    }
+    return nodes;
+  }
+
+  private parseMessage(inPlural: boolean): Node[] {
+    const nodes: Node[] = [];
+    let text = '';
+
+    const flush = () => {
+      if (text) {
+        nodes.push({ kind: 'text', value: text });
+        text = '';
+      }
+    };
+
+    while (this.position < this.pattern.length) {
+      const char = this.pattern[this.position]!;
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === '{') {
+        flush();
+        nodes.push(this.parseArgument(inPlural));
+        continue;
+      }
+
+      if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ kind: 'pound' });
+        this.position++;
+        continue;
+      }
+
+      if (char === "'") {
+        text += this.parseApostrophe(inPlural);
+        continue;
+      }
+
+      text += char;
+      this.position++;
+    }
+
+    flush();
+    return nodes;
+  }
+
+  private parseApostrophe(inPlural: boolean): string {
+    const next = this.pattern[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+
+    if (next === '{' || next === '}' || (inPlural && next === '#')) {
+      const end = this.pattern.indexOf("'", this.position + 1);
+      const quoted = this.pattern.slice(
+        this.position + 1,
+        end === -1 ? undefined : end
+      );
+      this.position = end === -1 ? this.pattern.length : end + 1;
+      return quoted;
+    }
+
+    this.position++;
+    return "'";
+  }
+
+  private parseArgument(inPlural: boolean): Node {
+    this.expect('{');
+    const name = this.readToken();
+    if (!name) {
+      throw new MessageFormatError(
+        `Missing argument name at ${this.position}`,
+        this.pattern
+      );
+    }
+
+    if (this.consume('}')) {
+      return { kind: 'argument', name };
+    }
+
+    this.expect(',');
+    const format = this.readToken();
+
+    if (
+      format === 'plural' ||
+      format === 'selectordinal' ||
+      format === 'select'
+    ) {
+      this.expect(',');
+      // # inside a select still means the count of an enclosing plural
+      const options = this.parseOptions(inPlural || format !== 'select');
+      this.expect('}');
+      return format === 'select'
+        ? { kind: 'select', name, options }
+        : {
+            kind: 'plural',
+            name,
+            ordinal: format === 'selectordinal',
+            options,
+          };
+    }
+
+    if (format !== 'number' && format !== 'date' && format !== 'time') {
+      throw new MessageFormatError(`Unknown format "${format}"`, this.pattern);
+    }
+
+    let style: string | undefined;
+    if (this.consume(',')) {
+      const end = this.pattern.indexOf('}', this.position);
+      if (end === -1) {
+        throw new MessageFormatError('Unclosed argument', this.pattern);
+      }
+      style = this.pattern.slice(this.position, end).trim();
+      this.position = end;
+    }
+    this.expect('}');
+    return { kind: 'argument', name, format, style };
+  }
+
+  private parseOptions(inPlural: boolean): Record<string, Node[]> {
+    const options: Record<string, Node[]> = {};
+
+    this.skipWhitespace();
+    while (this.pattern[this.position] !== '}') {
+      const selector = this.readToken();
+      if (!selector) {
+        throw new MessageFormatError(
+          `Missing selector at ${this.position}`,
+          this.pattern
+        );
+      }
+      if (selector.startsWith('offset:')) {
+        throw new MessageFormatError(
+          'Plural offsets are not supported',
+          this.pattern
+        );
+      }
+
+      this.skipWhitespace();
+      this.expect('{');
+      options[selector] = this.parseMessage(inPlural);
+      this.expect('}');
+      this.skipWhitespace();
+    }
+
+    if (!options.other) {
+      throw new MessageFormatError('Missing "other" option', this.pattern);
+    }
+    return options;
+  }
+
+  private readToken(): string {
+    this.skipWhitespace();
+    const start = this.position;
+    while (
+      this.position < this.pattern.length &&
+      !/[\s,{}]/.test(this.pattern[this.position]!)
+    ) {
+      this.position++;
+    }
+    const token = this.pattern.slice(start, this.position);
+    this.skipWhitespace();
+    return token;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.pattern[this.position] || '')) {
+      this.position++;
+    }
+  }
+
+  private consume(char: string): boolean {
+    this.skipWhitespace();
+    if (this.pattern[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      throw new MessageFormatError(
+        `Expected "${char}" at ${this.position}`,
+        this.pattern
+      );
+    }
+  }
+}
+
+const parsed = new Map<string, Node[]>();
+
+const parse = (pattern: string): Node[] => {
+  let nodes = parsed.get(pattern);
+  if (!nodes) {
+    nodes = new Parser(pattern).parse();
+    parsed.set(pattern, nodes);
+  }
+  return nodes;
+};
+
+const toDate = (value: MessageValue): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const;
+type DateStyle = (typeof DATE_STYLES)[number];
+
+const dateStyle = (style?: string): DateStyle =>
+  DATE_STYLES.includes(style as DateStyle) ? (style as DateStyle) : 'medium';
+
+export const formatLocalizedNumber = (
+  locale: Locale,
+  value: number,
+  options: Intl.NumberFormatOptions = {}
+): string => new Intl.NumberFormat(locale, options).format(value);
+
+export const formatLocalizedCurrency = (
+  locale: Locale,
+  amount: number,
+  currency = 'USD'
+): string => {
+  try {
+    return formatLocalizedNumber(locale, amount, {
+      style: 'currency',
+      currency,
+    });
+  } catch {
+    // Intl only knows ISO 4217 codes, so HBAR is written after the number
+    const number = formatLocalizedNumber(locale, amount, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    return `${number} ${currency}`;
+  }
+};
+
+export const formatLocalizedDate = (
+  locale: Locale,
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string => {
+  const date = toDate(value);
+  return date
+    ? new Intl.DateTimeFormat(locale, options).format(date)
+    : String(value);
+};
+
+const numberOptions = (
+  style: string | undefined,
+  values: MessageValues
+): Intl.NumberFormatOptions => {
+  if (!style) {
+    return {};
+  }
+  if (style === 'integer') {
+    return { maximumFractionDigits: 0 };
+  }
+  if (style === 'percent') {
+    return { style: 'percent' };
+  }
+  if (style === 'currency') {
+    return { style: 'currency', currency: String(values.currency || 'USD') };
+  }
+  if (!style.startsWith('::')) {
+    return {};
+  }
+
+  // Number skeletons, of which the catalogs use currency/XXX and group-off
+  const options: Intl.NumberFormatOptions = {};
+  for (const stem of style.slice(2).trim().split(/\s+/)) {
+    const currency = /^currency\/([A-Za-z]{3})$/.exec(stem);
+    if (currency) {
+      options.style = 'currency';
+      options.currency = currency[1]!.toUpperCase();
+    } else if (stem === 'group-off') {
+      options.useGrouping = false;
+    }
+  }
+  return options;
+};
+
+const formatArgument = (
+  locale: Locale,
+  node: Extract<Node, { kind: 'argument' }>,
+  values: MessageValues
+): string => {
+  const value = values[node.name];
+  if (value === undefined || value === null) {
+    return `{${node.name}}`;
+  }
+
+  if (node.format === 'number') {
+    const number = Number(value);
+    return isNaN(number)
+      ? String(value)
+      : formatLocalizedNumber(
+          locale,
+          number,
+          numberOptions(node.style, values)
+        );
+  }
+
+  if (node.format === 'date' || node.format === 'time') {
+    const date = toDate(value);
+    if (!date) {
+      return String(value);
+    }
+    return new Intl.DateTimeFormat(
+      locale,
+      node.format === 'date'
+        ? { dateStyle: dateStyle(node.style) }
+        : { timeStyle: dateStyle(node.style) }
+    ).format(date);
+  }
+
+  if (value instanceof Date) {
+    return formatLocalizedDate(locale, value);
+  }
+  if (typeof value === 'number') {
+    return formatLocalizedNumber(locale, value);
+  }
+  return String(value);
+};
+
+const render = (
+  locale: Locale,
+  nodes: Node[],
+  values: MessageValues,
+  count?: number
+): string =>
+  nodes
+    .map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.value;
+        case 'pound':
+          return count === undefined
+            ? '#'
+            : formatLocalizedNumber(locale, count);
+        case 'argument':
+          return formatArgument(locale, node, values);
+        case 'plural': {
+          const value = Number(values[node.name]);
+          if (isNaN(value)) {
+            return render(locale, node.options.other!, values);
+          }
+          const category = new Intl.PluralRules(locale, {
+            type: node.ordinal ? 'ordinal' : 'cardinal',
+          }).select(value);
+          const option =
+            node.options[`=${value}`] ||
+            node.options[category] ||
+            node.options.other!;
+          return render(locale, option, values, value);
+        }
+        case 'select': {
+          const option =
+            node.options[String(values[node.name])] || node.options.other!;
+          return render(locale, option, values, count);
+        }
+      }
+    })
+    .join('');
+
+/**
+ * Formats an ICU message for a locale. Missing values are left as {name} so a
+ * gap shows up in the text instead of throwing.
+ */
+export const formatMessage = (
+  locale: Locale,
+  pattern: string,
+  values: MessageValues = {}
+): string => render(locale, parse(pattern), values);
+
+/**
+ * The argument names a message uses, for checking translations keep them
+ */
+export const getMessageArguments = (pattern: string): string[] => {
+  const names = new Set<string>();
+  const visit = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'argument') {
+        names.add(node.name);
+      } else if (node.kind === 'plural' || node.kind === 'select') {
+        names.add(node.name);
+        Object.values(node.options).forEach(visit);
+      }
+    }
+  };
+  visit(parse(pattern));
+  return [...names].sort();
+};
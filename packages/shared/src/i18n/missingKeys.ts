@@ -0,0 +1,132 @@
+import { en, MessageKey } from './catalogs/en.js';
+import { DEFAULT_LOCALE, Locale, SUPPORTED_LOCALES } from './locale.js';
+import { getMessageArguments } from './messageFormat.js';
+import {
+  NOTIFICATION_TEMPLATES,
+  notificationTemplateKey,
+} from './notificationTemplates/index.js';
+import { MESSAGE_CATALOGS } from './translator.js';
+
+export interface PlaceholderMismatch {
+  key: string;
+  expected: string[];
+  actual: string[];
+}
+
+export interface MissingTranslationsReport {
+  locale: Locale;
+  // Message keys English has and this locale does not
+  missingKeys: MessageKey[];
+  // Keys left behind after English dropped them
+  staleKeys: string[];
+  // Messages whose ICU arguments differ from English
+  mismatchedArguments: PlaceholderMismatch[];
+  // Messages that are not valid ICU MessageFormat
+  invalidMessages: Array<{ key: string; error: string }>;
+  // type_channel of notification templates with no translation
+  missingTemplates: string[];
+  // Templates whose {{...}} placeholders differ from English
+  mismatchedTemplates: PlaceholderMismatch[];
+}
+
+const sameItems = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+const templatePlaceholders = (...parts: Array<string | undefined>): string[] =>
+  [
+    ...new Set(parts.flatMap(part => part?.match(/\{\{[^}]*\}\}/g) || [])),
+  ].sort();
+
+const compareMessages = (report: MissingTranslationsReport): void => {
+  const catalog: Record<string, string | undefined> =
+    MESSAGE_CATALOGS[report.locale];
+  const reference: Record<string, string> = en;
+
+  for (const key of Object.keys(reference) as MessageKey[]) {
+    const translation = catalog[key];
+    if (translation === undefined) {
+      report.missingKeys.push(key);
+      continue;
+    }
+
+    try {
+      const expected = getMessageArguments(reference[key]!);
+      const actual = getMessageArguments(translation);
+      if (!sameItems(expected, actual)) {
+        report.mismatchedArguments.push({ key, expected, actual });
+      }
+    } catch (error) {
+      report.invalidMessages.push({
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  report.staleKeys = Object.keys(catalog).filter(key => !(key in reference));
+};
+
+const compareTemplates = (report: MissingTranslationsReport): void => {
+  const translated = new Map(
+    NOTIFICATION_TEMPLATES[report.locale].map(template => [
+      notificationTemplateKey(template.type, template.channel),
+      template,
+    ])
+  );
+
+  for (const reference of NOTIFICATION_TEMPLATES.en) {
+    const key = notificationTemplateKey(reference.type, reference.channel);
+    const translation = translated.get(key);
+    if (!translation) {
+      report.missingTemplates.push(key);
+      continue;
+    }
+
+    const expected = templatePlaceholders(
+      reference.subject,
+      reference.template
+    );
+    const actual = templatePlaceholders(
+      translation.subject,
+      translation.template
+    );
+    if (!sameItems(expected, actual)) {
+      report.mismatchedTemplates.push({ key, expected, actual });
+    }
+  }
+};
+
+/**
+ * Checks every translated locale against English: message keys and
+ * notification templates that are missing, plus translations whose
+ * placeholders no longer match the English text they were made from
+ */
+export const getMissingTranslations = (
+  locales: readonly Locale[] = SUPPORTED_LOCALES.filter(
+    locale => locale !== DEFAULT_LOCALE
+  )
+): MissingTranslationsReport[] =>
+  locales.map(locale => {
+    const report: MissingTranslationsReport = {
+      locale,
+      missingKeys: [],
+      staleKeys: [],
+      mismatchedArguments: [],
+      invalidMessages: [],
+      missingTemplates: [],
+      mismatchedTemplates: [],
+    };
+    compareMessages(report);
+    compareTemplates(report);
+    return report;
+  });
+
+export const isTranslationComplete = (
+  report: MissingTranslationsReport
+): boolean =>
+  report.missingKeys.length === 0 &&
+  report.staleKeys.length === 0 &&
+  report.mismatchedArguments.length === 0 &&
+  report.invalidMessages.length === 0 &&
+  report.missingTemplates.length === 0 &&
+  report.mismatchedTemplates.length === 0;
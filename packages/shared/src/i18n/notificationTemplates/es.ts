@@ -0,0 +1,1844 @@
+import type { LocalizedNotificationTemplate } from './index.js';
+
+/**
+ * Spanish notification templates. Placeholders must match the English ones.
+ */
+export const es: LocalizedNotificationTemplate[] = [
+  // Swap Proposal Templates
+  {
+    type: 'swap_proposal',
+    channel: 'email',
+    subject: 'Nueva propuesta de intercambio para tu {{targetBookingTitle}}',
+    template:
+      '<h2>¡Has recibido una nueva propuesta de intercambio!</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Alguien quiere intercambiar su reserva por tu <strong>{{targetBookingTitle}}</strong>.</p>' +
+      '<h3>Su reserva:</h3>' +
+      '<ul>' +
+      '<li><strong>Título:</strong> {{sourceBookingTitle}}</li>' +
+      '<li><strong>Ubicación:</strong> {{sourceBookingLocation}}</li>' +
+      '<li><strong>Fechas:</strong> {{sourceBookingDates}}</li>' +
+      '<li><strong>Valor:</strong> {{sourceBookingValue}}</li>' +
+      '</ul>' +
+      '<h3>Tu reserva:</h3>' +
+      '<ul>' +
+      '<li><strong>Título:</strong> {{targetBookingTitle}}</li>' +
+      '<li><strong>Ubicación:</strong> {{targetBookingLocation}}</li>' +
+      '<li><strong>Fechas:</strong> {{targetBookingDates}}</li>' +
+      '<li><strong>Valor:</strong> {{targetBookingValue}}</li>' +
+      '</ul>' +
+      '{{#if additionalPayment}}<p><strong>Pago adicional:</strong> {{additionalPayment}}</p>{{/if}}' +
+      '{{#if conditions}}<h3>Condiciones:</h3><ul>{{#each conditions}}<li>{{this}}</li>{{/each}}</ul>{{/if}}' +
+      '<p><strong>La propuesta caduca:</strong> {{expiresAt}}</p>' +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Revisar propuesta</a></p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_proposal',
+    channel: 'sms',
+    template:
+      '¡Nueva propuesta de intercambio para tu {{targetBookingTitle}}! Alguien quiere cambiar su {{sourceBookingTitle}} ({{sourceBookingLocation}}) por tu reserva. Revísala en tu panel: {{dashboardUrl}}',
+  },
+
+  // Swap Accepted Templates
+  {
+    type: 'swap_accepted',
+    channel: 'email',
+    subject: '¡Han aceptado tu propuesta de intercambio!',
+    template:
+      '<h2>¡Buenas noticias! Han aceptado tu propuesta de intercambio</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Han aceptado tu propuesta de intercambio. El intercambio entre tu <strong>{{sourceBookingTitle}}</strong> y <strong>{{targetBookingTitle}}</strong> se procesará en breve.</p>' +
+      '<h3>Detalles del intercambio:</h3>' +
+      '<ul>' +
+      '<li><strong>Tu reserva:</strong> {{sourceBookingTitle}} ({{sourceBookingLocation}})</li>' +
+      '<li><strong>Su reserva:</strong> {{targetBookingTitle}} ({{targetBookingLocation}})</li>' +
+      '<li><strong>ID del intercambio:</strong> {{swapId}}</li>' +
+      '</ul>' +
+      '<p>Recibirás otra notificación cuando se complete la transacción en la blockchain.</p>' +
+      '<p><a href="{{swapUrl}}" style="background-color: #28a745; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Ver detalles del intercambio</a></p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_accepted',
+    channel: 'sms',
+    template:
+      '¡Buenas noticias! Han aceptado tu propuesta de intercambio para {{targetBookingTitle}}. Estamos procesando el intercambio de tu {{sourceBookingTitle}}. Ver detalles: {{swapUrl}}',
+  },
+
+  // Swap Rejected Templates
+  {
+    type: 'swap_rejected',
+    channel: 'email',
+    subject: 'Novedades sobre tu propuesta de intercambio',
+    template:
+      '<h2>Novedades sobre tu propuesta de intercambio</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Han rechazado tu propuesta de intercambio para <strong>{{targetBookingTitle}}</strong>.</p>' +
+      '<p>Tu reserva <strong>{{sourceBookingTitle}}</strong> vuelve a estar disponible y puedes usarla en otras propuestas de intercambio.</p>' +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Explorar otras reservas</a></p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_rejected',
+    channel: 'sms',
+    template:
+      'Han rechazado tu propuesta de intercambio para {{targetBookingTitle}}. Tu {{sourceBookingTitle}} vuelve a estar disponible. Explora más: {{dashboardUrl}}',
+  },
+
+  // Swap Expired Templates
+  {
+    type: 'swap_expired',
+    channel: 'email',
+    subject: 'La propuesta de intercambio ha caducado',
+    template:
+      '<h2>La propuesta de intercambio ha caducado</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>{{#if isProposer}}Tu propuesta de intercambio (ID: {{swapId}}) ha caducado y se ha cancelado automáticamente.{{else}}Una propuesta de intercambio (ID: {{swapId}}) para tu reserva ha caducado.{{/if}}</p>' +
+      '<p>Tu reserva vuelve a estar disponible para nuevas propuestas de intercambio.</p>' +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Ver panel</a></p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_expired',
+    channel: 'sms',
+    template:
+      'La propuesta de intercambio {{swapId}} ha caducado. Tu reserva vuelve a estar disponible. Ver panel: {{dashboardUrl}}',
+  },
+
+  // Swap Cancelled Templates
+  {
+    type: 'swap_cancelled',
+    channel: 'email',
+    subject: 'Propuesta de intercambio cancelada',
+    template:
+      '<h2>Propuesta de intercambio cancelada</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Quien la envió ha cancelado una propuesta de intercambio (ID: {{swapId}}).</p>' +
+      '<p>Tu reserva vuelve a estar disponible para nuevas propuestas de intercambio.</p>' +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Ver panel</a></p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_cancelled',
+    channel: 'sms',
+    template:
+      'Se ha cancelado la propuesta de intercambio {{swapId}}. Tu reserva vuelve a estar disponible. Ver panel: {{dashboardUrl}}',
+  },
+
+  // In-app notification templates (simple text versions)
+  {
+    type: 'swap_proposal',
+    channel: 'in_app',
+    template: 'Nueva propuesta de intercambio para tu {{targetBookingTitle}}',
+  },
+
+  {
+    type: 'swap_accepted',
+    channel: 'in_app',
+    template:
+      '¡Han aceptado tu propuesta de intercambio para {{targetBookingTitle}}!',
+  },
+
+  {
+    type: 'swap_rejected',
+    channel: 'in_app',
+    template:
+      'Han rechazado tu propuesta de intercambio para {{targetBookingTitle}}',
+  },
+
+  {
+    type: 'swap_expired',
+    channel: 'in_app',
+    template: 'La propuesta de intercambio {{swapId}} ha caducado',
+  },
+
+  {
+    type: 'swap_cancelled',
+    channel: 'in_app',
+    template: 'Se ha cancelado la propuesta de intercambio {{swapId}}',
+  },
+
+  // Browse Proposal Templates
+  {
+    type: 'browse_proposal_received',
+    channel: 'email',
+    subject:
+      'Nueva propuesta de intercambio desde Explorar - {{sourceSwapDetails.title}}',
+    template:
+      '<h2>¡Has recibido una nueva propuesta de intercambio!</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Alguien ha encontrado tu <strong>{{targetSwapDetails.title}}</strong> mientras exploraba y quiere proponerte un intercambio.</p>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏨 La reserva que ofrece:</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Ubicación:</strong> {{sourceSwapDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{sourceSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{sourceSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{sourceSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{sourceSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🎯 Tu reserva:</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Ubicación:</strong> {{targetSwapDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{targetSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{targetSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{targetSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{targetSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{#if compatibilityAnalysis}}' +
+      '<div style="background-color: #e8f5e8; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📊 Análisis de compatibilidad:</h3>' +
+      '<p><strong>Compatibilidad global:</strong> {{compatibilityAnalysis.overallScore}} %</p>' +
+      '<ul>' +
+      '<li>Compatibilidad de ubicación: {{compatibilityAnalysis.locationScore}} %</li>' +
+      '<li>Compatibilidad de fechas: {{compatibilityAnalysis.dateScore}} %</li>' +
+      '<li>Compatibilidad de valor: {{compatibilityAnalysis.valueScore}} %</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if message}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💬 Mensaje personal:</h3>' +
+      '<p style="font-style: italic;">«{{message}}»</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Revisar propuesta</a>' +
+      '</div>' +
+      '<p style="color: #666; font-size: 14px;">Esta propuesta se hizo desde la página Explorar: ¡hay un interés real en tu reserva!</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'browse_proposal_received',
+    channel: 'sms',
+    template:
+      '¡Nueva propuesta de intercambio! Alguien quiere cambiar su {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}}) por tu {{targetSwapDetails.title}}. {{#if compatibilityAnalysis}}¡{{compatibilityAnalysis.overallScore}} % de compatibilidad!{{/if}} Revísala: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'browse_proposal_received',
+    channel: 'in_app',
+    template:
+      'Nueva propuesta desde Explorar para {{targetSwapDetails.title}} desde {{sourceSwapDetails.location}}{{#if compatibilityAnalysis}} ({{compatibilityAnalysis.overallScore}} % de compatibilidad){{/if}}',
+  },
+
+  // Browse Proposal Confirmed Templates
+  {
+    type: 'browse_proposal_confirmed',
+    channel: 'email',
+    subject: 'Propuesta enviada correctamente - {{targetSwapDetails.title}}',
+    template:
+      '<h2>✅ ¡Tu propuesta de intercambio se ha enviado!</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>¡Buenas noticias! Tu propuesta de intercambio se ha enviado correctamente y ya está en revisión.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>📋 Resumen de la propuesta:</h3>' +
+      '<p><strong>Tu oferta:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Intercambio solicitado:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Estado:</strong> {{status}}</p>' +
+      '</div>' +
+      '{{#if compatibilityAnalysis}}' +
+      '<div style="background-color: #e8f5e8; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📊 Tu puntuación de compatibilidad: {{compatibilityAnalysis.overallScore}} %</h3>' +
+      '<p>Indica cuánto encajan vuestras reservas según la ubicación, las fechas, el valor y otros factores.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Próximos pasos:</h3>' +
+      '<ul>' +
+      '{{#each nextSteps}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '<p><strong>Tiempo de respuesta estimado:</strong> {{estimatedResponseTime}}</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Seguir tu propuesta</a>' +
+      '</div>' +
+      '<p>Te avisaremos en cuanto el propietario del intercambio responda a tu propuesta.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'browse_proposal_confirmed',
+    channel: 'sms',
+    template:
+      '¡Propuesta enviada! Tu propuesta de {{sourceSwapDetails.title}} para {{targetSwapDetails.title}} está en revisión. Consulta el estado: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'browse_proposal_confirmed',
+    channel: 'in_app',
+    template:
+      'Propuesta enviada para {{targetSwapDetails.title}}: ya está en revisión',
+  },
+
+  // Browse Proposal Status Update Templates
+  {
+    type: 'browse_proposal_status_update',
+    channel: 'email',
+    subject:
+      'Novedades de tu propuesta: {{targetSwapDetails.title}} - {{status}}',
+    template:
+      '<h2>📬 Cambio de estado de tu propuesta</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>El estado de tu propuesta de intercambio ha cambiado:</p>' +
+      '<div style="background-color: {{#if actionRequired}}#fff3cd{{else}}#f8f9fa{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>Estado: {{status}}</h3>' +
+      '<p>{{statusMessage}}</p>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Detalles de la propuesta:</h3>' +
+      '<p><strong>Tu oferta:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Intercambio solicitado:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '</div>' +
+      '{{#if actionRequired}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #17a2b8;">' +
+      '<h3>⚡ Acción necesaria</h3>' +
+      '<p>¡Han aceptado tu propuesta! Consulta tu panel para ver los siguientes pasos.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver detalles</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'browse_proposal_status_update',
+    channel: 'sms',
+    template:
+      'Novedades de tu propuesta: {{targetSwapDetails.title}} - {{status}}. {{statusMessage}} Detalles: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'browse_proposal_status_update',
+    channel: 'in_app',
+    template: 'Propuesta {{status}}: {{targetSwapDetails.title}}',
+  },
+
+  // Browse Proposal Reminder Templates
+  {
+    type: 'browse_proposal_reminder',
+    channel: 'email',
+    subject:
+      '⏰ Recordatorio: una propuesta de intercambio espera tu respuesta - {{targetSwapTitle}}',
+    template:
+      '<h2>⏰ Recordatorio de propuesta{{#if isUrgent}} - Urgente{{/if}}</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>{{#if isUrgent}}Te recordamos con urgencia que tienes{{else}}Tienes{{/if}} una propuesta de intercambio pendiente de revisar:</p>' +
+      '<div style="background-color: {{#if isUrgent}}#f8d7da{{else}}#fff3cd{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid {{#if isUrgent}}#dc3545{{else}}#ffc107{{/if}};">' +
+      '<h3>📋 Propuesta pendiente:</h3>' +
+      '<p><strong>Su oferta:</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Tu reserva:</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Tiempo restante:</strong> {{hoursRemaining}} horas</p>' +
+      '{{#if expirationWarning}}<p style="color: #dc3545; font-weight: bold;">⚠️ {{expirationWarning}}</p>{{/if}}' +
+      '</div>' +
+      '{{#if isUrgent}}' +
+      '<div style="background-color: #f8d7da; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🚨 Último aviso</h3>' +
+      '<p>Esta propuesta caduca en {{hoursRemaining}} horas. Revísala y responde para no perder esta oportunidad.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: {{#if isUrgent}}#dc3545{{else}}#ffc107{{/if}}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Revisar ahora</a>' +
+      '</div>' +
+      '<p>¡No dejes escapar esta oportunidad de intercambio!</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'browse_proposal_reminder',
+    channel: 'sms',
+    template:
+      '{{#if isUrgent}}URGENTE: {{/if}}¡Recordatorio! La propuesta de {{sourceSwapTitle}} para tu {{targetSwapTitle}} caduca en {{hoursRemaining}} h. Revísala: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'browse_proposal_reminder',
+    channel: 'in_app',
+    template:
+      '{{#if isUrgent}}⚠️ Urgente: {{/if}}La propuesta para {{targetSwapTitle}} caduca en {{hoursRemaining}} h',
+  },
+
+  // Targeting Notification Templates
+
+  // Targeting Received Templates
+  {
+    type: 'targeting_received',
+    channel: 'email',
+    subject: '¡Alguien quiere apuntar a tu {{targetSwapDetails.title}}!',
+    template:
+      '<h2>🎯 ¡Has recibido una nueva solicitud de intercambio dirigido!</h2>' +
+      '<p>Hola, {{targetSwapDetails.ownerName}}:</p>' +
+      '<p>¡Buenas noticias! Alguien ha dirigido su propuesta de intercambio a tu <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #e8f5e8; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>🏨 El intercambio que ofrece:</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Ubicación:</strong> {{sourceSwapDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{sourceSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{sourceSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{sourceSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{sourceSwapDetails.value}} $</li>' +
+      '<li><strong>👤 Propietario:</strong> {{sourceSwapDetails.ownerName}}</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🎯 Tu intercambio elegido:</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Ubicación:</strong> {{targetSwapDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{targetSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{targetSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{targetSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{targetSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{#if message}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💬 Mensaje personal:</h3>' +
+      '<p style="font-style: italic;">«{{message}}»</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if auctionInfo}}' +
+      '{{#if auctionInfo.isAuctionMode}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏆 Modo subasta activo</h3>' +
+      '<p>Tu intercambio está en modo subasta. Propuestas actuales: {{auctionInfo.currentProposalCount}}</p>' +
+      '<p>La subasta termina: {{auctionInfo.endDate}}</p>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⚡ Modo uno a uno</h3>' +
+      '<p>Es una solicitud directa. Puedes aceptar o rechazar esta propuesta.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Revisar solicitud</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_received',
+    channel: 'sms',
+    template:
+      '¡Nueva solicitud dirigida! {{sourceSwapDetails.ownerName}} quiere cambiar su {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}}) por tu {{targetSwapDetails.title}}. Revísala: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'targeting_received',
+    channel: 'in_app',
+    template:
+      '🎯 {{sourceSwapDetails.ownerName}} ha elegido tu {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Accepted Templates
+  {
+    type: 'targeting_accepted',
+    channel: 'email',
+    subject: '🎉 ¡Han aceptado tu solicitud de intercambio dirigido!',
+    template:
+      '<h2>🎉 ¡Noticias fantásticas! Han aceptado tu solicitud</h2>' +
+      '<p>Hola, {{sourceSwapDetails.ownerName}}:</p>' +
+      '<p>¡Buenas noticias! Han aceptado tu solicitud para <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Intercambio confirmado</h3>' +
+      '<p><strong>Tu intercambio:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Su intercambio:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Estado:</strong> Aceptado y en proceso</p>' +
+      '</div>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Próximos pasos:</h3>' +
+      '<ul>' +
+      '<li>Se procesarán ambas reservas para el intercambio</li>' +
+      '<li>Recibirás una confirmación cuando se complete la transacción en la blockchain</li>' +
+      '<li>Compartiremos los datos de contacto para que os coordinéis</li>' +
+      '<li>Empezará el procesamiento del pago (si corresponde)</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{swapUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver detalles del intercambio</a>' +
+      '</div>' +
+      '<p>¡Enhorabuena por tu intercambio!</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_accepted',
+    channel: 'sms',
+    template:
+      '🎉 ¡Buenas noticias! Han aceptado tu solicitud para {{targetSwapDetails.title}}. Estamos procesando el intercambio de tu {{sourceSwapDetails.title}}. Detalles: {{swapUrl}}',
+  },
+
+  {
+    type: 'targeting_accepted',
+    channel: 'in_app',
+    template:
+      '🎉 ¡Solicitud aceptada! Tu {{sourceSwapDetails.title}} ↔ {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Rejected Templates
+  {
+    type: 'targeting_rejected',
+    channel: 'email',
+    subject: 'Novedades de tu solicitud - {{targetSwapDetails.title}}',
+    template:
+      '<h2>📬 Novedades de tu solicitud de intercambio dirigido</h2>' +
+      '<p>Hola, {{sourceSwapDetails.ownerName}}:</p>' +
+      '<p>Han rechazado tu solicitud para <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Solicitud rechazada</h3>' +
+      '<p><strong>Tu intercambio:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Intercambio elegido:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '{{#if reason}}<p><strong>Motivo:</strong> {{reason}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Tu intercambio vuelve a estar disponible</h3>' +
+      '<p>Tu <strong>{{sourceSwapDetails.title}}</strong> ya está disponible para nuevas solicitudes.</p>' +
+      '<p>¡Puedes explorar otros intercambios y elegir nuevas oportunidades ahora mismo!</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{browseUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Explorar otros intercambios</a>' +
+      '</div>' +
+      '<p>No te rindas: ¡hay muchas otras oportunidades de intercambio esperándote!</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_rejected',
+    channel: 'sms',
+    template:
+      'Han rechazado tu solicitud para {{targetSwapDetails.title}}. Tu {{sourceSwapDetails.title}} vuelve a estar disponible. Explora más: {{browseUrl}}',
+  },
+
+  {
+    type: 'targeting_rejected',
+    channel: 'in_app',
+    template: '❌ Solicitud rechazada: {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Cancelled Templates
+  {
+    type: 'targeting_cancelled',
+    channel: 'email',
+    subject: 'Solicitud cancelada - {{targetSwapDetails.title}}',
+    template:
+      '<h2>🚫 Solicitud de intercambio dirigido cancelada</h2>' +
+      '<p>Hola, {{targetSwapDetails.ownerName}}:</p>' +
+      '<p>Quien la envió ha cancelado una solicitud para tu <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>📋 Detalles de la solicitud cancelada</h3>' +
+      '<p><strong>Su intercambio:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Tu intercambio:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Cancelada por:</strong> {{sourceSwapDetails.ownerName}}</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✨ Tu intercambio sigue disponible</h3>' +
+      '<p>Tu intercambio sigue disponible para nuevas solicitudes y propuestas.</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver panel</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_cancelled',
+    channel: 'sms',
+    template:
+      '{{sourceSwapDetails.ownerName}} ha cancelado su solicitud para tu {{targetSwapDetails.title}}. Tu intercambio sigue disponible.',
+  },
+
+  {
+    type: 'targeting_cancelled',
+    channel: 'in_app',
+    template:
+      '🚫 Solicitud cancelada: {{sourceSwapDetails.ownerName}} ha cancelado su solicitud',
+  },
+
+  // Retargeting Occurred Templates
+  {
+    type: 'retargeting_occurred',
+    channel: 'email',
+    subject: 'Novedades: solicitud redirigida',
+    template:
+      '<h2>🔄 Solicitud de intercambio redirigida</h2>' +
+      '<p>Hola, {{targetSwapDetails.ownerName}}:</p>' +
+      '<p>Un usuario que había elegido tu <strong>{{previousTargetTitle}}</strong> ha redirigido su solicitud a otro intercambio.</p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>📋 Detalles del cambio</h3>' +
+      '<p><strong>Su intercambio:</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Elegido antes:</strong> {{previousTargetTitle}}</p>' +
+      '<p><strong>Elegido ahora:</strong> {{newTargetTitle}}</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✨ Estado de tu intercambio</h3>' +
+      '<p>Tu intercambio ya está disponible para nuevas solicitudes.</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver panel</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'retargeting_occurred',
+    channel: 'sms',
+    template:
+      'Novedades: un usuario ha cambiado tu {{previousTargetTitle}} por {{newTargetTitle}}. Tu intercambio vuelve a estar disponible.',
+  },
+
+  {
+    type: 'retargeting_occurred',
+    channel: 'in_app',
+    template:
+      '🔄 Cambio de elección: un usuario ha pasado de tu intercambio a {{newTargetTitle}}',
+  },
+
+  // Targeting Removed Templates
+  {
+    type: 'targeting_removed',
+    channel: 'email',
+    subject: 'Solicitud eliminada - {{targetSwapDetails.title}}',
+    template:
+      '<h2>🗑️ Solicitud de intercambio dirigido eliminada</h2>' +
+      '<p>Hola, {{targetSwapDetails.ownerName}}:</p>' +
+      '<p>Se ha eliminado una solicitud para tu <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #6c757d;">' +
+      '<h3>📋 Detalles de la solicitud eliminada</h3>' +
+      '<p><strong>Su intercambio:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Tu intercambio:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✨ Estado de tu intercambio</h3>' +
+      '<p>Tu intercambio sigue disponible para nuevas solicitudes y propuestas.</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver panel</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_removed',
+    channel: 'sms',
+    template:
+      'Se ha eliminado una solicitud para tu {{targetSwapDetails.title}}. Tu intercambio sigue disponible.',
+  },
+
+  {
+    type: 'targeting_removed',
+    channel: 'in_app',
+    template: '🗑️ Solicitud eliminada de tu {{targetSwapDetails.title}}',
+  },
+
+  // Auction Targeting Update Templates
+  {
+    type: 'auction_targeting_update',
+    channel: 'email',
+    subject: 'Novedades de la subasta - {{targetSwapTitle}} ({{updateType}})',
+    template:
+      '<h2>🏆 Novedades de la subasta</h2>' +
+      '<p>Hola, {{sourceSwapTitle}}:</p>' +
+      '<p>Hay novedades en la subasta que has elegido: <strong>{{targetSwapTitle}}</strong></p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>📋 Estado de la subasta</h3>' +
+      '<p><strong>Tipo de novedad:</strong> {{updateType}}</p>' +
+      '<p><strong>Tu intercambio ofrecido:</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Subasta elegida:</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Propuestas actuales:</strong> {{auctionInfo.currentProposalCount}}</p>' +
+      '<p><strong>Tiempo restante:</strong> {{auctionInfo.timeRemaining}}</p>' +
+      '</div>' +
+      '{{#if auctionInfo.isEnding}}' +
+      '<div style="background-color: #f8d7da; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ ¡La subasta termina pronto!</h3>' +
+      '<p>Esta subasta termina el {{auctionInfo.endDate}}. ¡Comprueba que tu solicitud sigue activa!</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #ffc107; color: black; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver subasta</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'auction_targeting_update',
+    channel: 'sms',
+    template:
+      'Novedades de la subasta: {{targetSwapTitle}} - {{updateType}}. {{auctionInfo.currentProposalCount}} propuestas, quedan {{auctionInfo.timeRemaining}}. Ver: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'auction_targeting_update',
+    channel: 'in_app',
+    template:
+      '🏆 Novedades de la subasta: {{targetSwapTitle}} - {{updateType}}',
+  },
+
+  // Auction Targeting Ended Templates
+  {
+    type: 'auction_targeting_ended',
+    channel: 'email',
+    subject: 'Subasta finalizada - {{targetSwapTitle}}',
+    template:
+      '<h2>🏁 La subasta ha terminado</h2>' +
+      '<p>Hola, {{sourceSwapTitle}}:</p>' +
+      '<p>Ha terminado la subasta que habías elegido: <strong>{{targetSwapTitle}}</strong></p>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #6c757d;">' +
+      '<h3>📋 Resultado final de la subasta</h3>' +
+      '<p><strong>Tu intercambio ofrecido:</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Subasta finalizada:</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Número final de propuestas:</strong> {{auctionInfo.currentProposalCount}}</p>' +
+      '<p><strong>Fecha de cierre:</strong> {{auctionInfo.endDate}}</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Tu intercambio vuelve a estar disponible</h3>' +
+      '<p>Tu <strong>{{sourceSwapTitle}}</strong> ya está disponible para nuevas solicitudes.</p>' +
+      '<p>¡Puedes explorar otros intercambios y elegir nuevas oportunidades!</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{browseUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Explorar otros intercambios</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'auction_targeting_ended',
+    channel: 'sms',
+    template:
+      'Subasta finalizada: {{targetSwapTitle}}. Tu {{sourceSwapTitle}} vuelve a estar disponible. Explora más: {{browseUrl}}',
+  },
+
+  {
+    type: 'auction_targeting_ended',
+    channel: 'in_app',
+    template:
+      '🏁 Subasta finalizada: {{targetSwapTitle}} - tu intercambio vuelve a estar disponible',
+  },
+
+  // Proposal from Targeting Templates
+  {
+    type: 'proposal_from_targeting',
+    channel: 'email',
+    subject:
+      'Propuesta creada a partir de tu solicitud - {{targetSwapDetails.title}}',
+    template:
+      '<h2>📝 Propuesta creada a partir de tu solicitud</h2>' +
+      '<p>Hola, {{sourceSwapDetails.ownerName}}:</p>' +
+      '<p>Tu solicitud se ha convertido en una propuesta formal para <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Detalles de la propuesta</h3>' +
+      '<p><strong>Tu intercambio:</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Intercambio elegido:</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Estado de la propuesta:</strong> {{proposalInfo.status}}</p>' +
+      '<p><strong>Creada:</strong> {{proposalInfo.createdAt}}</p>' +
+      '</div>' +
+      '{{#if proposalInfo.message}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💬 Mensaje de la propuesta</h3>' +
+      '<p style="font-style: italic;">«{{proposalInfo.message}}»</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Próximos pasos</h3>' +
+      '<ul>' +
+      '<li>El propietario del intercambio revisará tu propuesta</li>' +
+      '<li>Te avisaremos de su decisión</li>' +
+      '<li>Si la acepta, empezará el proceso de intercambio</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{proposalUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver propuesta</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_from_targeting',
+    channel: 'sms',
+    template:
+      '¡Propuesta creada! Tu solicitud para {{targetSwapDetails.title}} ya es una propuesta formal. Estado: {{proposalInfo.status}}. Ver: {{proposalUrl}}',
+  },
+
+  {
+    type: 'proposal_from_targeting',
+    channel: 'in_app',
+    template:
+      '📝 Propuesta creada a partir de tu solicitud: {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Restriction Warning Templates
+  {
+    type: 'targeting_restriction_warning',
+    channel: 'email',
+    subject: 'Restricción de intercambio dirigido - {{targetSwapTitle}}',
+    template:
+      '<h2>⚠️ Aviso de restricción</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Queremos informarte de una restricción para elegir <strong>{{targetSwapTitle}}</strong>.</p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>🚫 Detalles de la restricción</h3>' +
+      '<p><strong>Tu intercambio:</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Intercambio elegido:</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Tipo de restricción:</strong> {{restrictionType}}</p>' +
+      '<p><strong>Mensaje:</strong> {{message}}</p>' +
+      '</div>' +
+      '{{#if suggestedActions}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Acciones sugeridas</h3>' +
+      '<ul>' +
+      '{{#each suggestedActions}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{browseUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Explorar otros intercambios</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_restriction_warning',
+    channel: 'sms',
+    template:
+      'Restricción: no puedes elegir {{targetSwapTitle}} - {{restrictionType}}. {{message}}',
+  },
+
+  {
+    type: 'targeting_restriction_warning',
+    channel: 'in_app',
+    template: '⚠️ No puedes elegir {{targetSwapTitle}}: {{restrictionType}}',
+  },
+
+  // Targeting Eligibility Changed Templates
+  {
+    type: 'targeting_eligibility_changed',
+    channel: 'email',
+    subject: 'Cambio de disponibilidad para solicitudes - {{targetSwapTitle}}',
+    template:
+      '<h2>🔄 Ha cambiado la disponibilidad para solicitudes</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Ha cambiado la posibilidad de enviar solicitudes a <strong>{{targetSwapTitle}}</strong>.</p>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2196f3;">' +
+      '<h3>📋 Detalles del cambio</h3>' +
+      '<p><strong>Intercambio elegido:</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Estado anterior:</strong> {{previousStatus}}</p>' +
+      '<p><strong>Estado nuevo:</strong> {{newStatus}}</p>' +
+      '<p><strong>Motivo:</strong> {{reason}}</p>' +
+      '</div>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Qué significa</h3>' +
+      '<p>{{#if canStillTarget}}Puedes seguir eligiendo este intercambio con tu solicitud actual.{{else}}Este cambio puede afectar a tu solicitud.{{/if}}</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Revisar tus solicitudes</a>' +
+      '</div>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'targeting_eligibility_changed',
+    channel: 'sms',
+    template:
+      'Cambio de disponibilidad: {{targetSwapTitle}} - {{newStatus}}. {{reason}}',
+  },
+
+  {
+    type: 'targeting_eligibility_changed',
+    channel: 'in_app',
+    template: '🔄 Disponibilidad cambiada: {{targetSwapTitle}} - {{newStatus}}',
+  },
+
+  // Proposal Response Templates
+
+  // Proposal Accepted Templates
+  {
+    type: 'proposal_accepted',
+    channel: 'email',
+    subject: '🎉 ¡Han aceptado tu propuesta!',
+    template:
+      '<h2>🎉 ¡Noticias fantásticas! Han aceptado tu propuesta</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>¡Buenas noticias! Han aceptado tu propuesta de tipo {{proposalType}}.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Detalles de la propuesta</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '<p><strong>Tipo:</strong> {{#if (eq proposalType "booking")}}Intercambio de reservas{{else}}Oferta en efectivo{{/if}}</p>' +
+      '<p><strong>Estado:</strong> Aceptada</p>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏨 Detalles del intercambio</h3>' +
+      '<p><strong>Tu reserva:</strong> {{sourceSwapTitle}} ({{sourceSwapLocation}})</p>' +
+      '<p><strong>Fechas:</strong> {{sourceSwapDates}}</p>' +
+      '{{#if targetSwapTitle}}' +
+      '<p><strong>Su reserva:</strong> {{targetSwapTitle}} ({{targetSwapLocation}})</p>' +
+      '<p><strong>Fechas:</strong> {{targetSwapDates}}</p>' +
+      '{{/if}}' +
+      '</div>' +
+      '{{#if cashAmount}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💰 Detalles del pago</h3>' +
+      '<p><strong>Importe:</strong> {{cashAmount}}</p>' +
+      '{{#if escrowRequired}}<p><strong>Depósito en garantía:</strong> Se liberarán los fondos del depósito</p>{{/if}}' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Próximos pasos</h3>' +
+      '<ul>' +
+      '<li>{{#if role}}Recibirás{{else}}Quien hizo la propuesta recibirá{{/if}} una confirmación cuando se complete el registro en la blockchain</li>' +
+      '{{#if cashAmount}}<li>El procesamiento del pago empezará de inmediato</li>{{/if}}' +
+      '<li>Compartiremos los datos de contacto para que os coordinéis</li>' +
+      '<li>Puedes seguir el progreso en tu panel</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver detalles</a>' +
+      '</div>' +
+      '<p>¡Enhorabuena por tu propuesta!</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_accepted',
+    channel: 'sms',
+    template:
+      '🎉 ¡Buenas noticias! Han aceptado tu propuesta de tipo {{proposalType}} para {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}. {{#if cashAmount}}Pago: {{cashAmount}}. {{/if}}Detalles: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_accepted',
+    channel: 'in_app',
+    template:
+      '🎉 ¡Propuesta aceptada! {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}{{#if cashAmount}} ({{cashAmount}}){{/if}}',
+  },
+
+  // Proposal Rejected Templates
+  {
+    type: 'proposal_rejected',
+    channel: 'email',
+    subject:
+      'Novedades de la propuesta - {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}',
+    template:
+      '<h2>📬 Novedades de la propuesta</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>{{#if role}}Has rechazado{{else}}Han rechazado{{/if}} la propuesta de tipo {{proposalType}}{{#if targetSwapTitle}} para {{targetSwapTitle}}{{/if}}.</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Detalles de la propuesta</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '<p><strong>Tipo:</strong> {{#if (eq proposalType "booking")}}Intercambio de reservas{{else}}Oferta en efectivo{{/if}}</p>' +
+      '<p><strong>Estado:</strong> Rechazada</p>' +
+      '{{#if rejectionReason}}<p><strong>Motivo:</strong> {{rejectionReason}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏨 Detalles del intercambio</h3>' +
+      '<p><strong>{{#if role}}Su{{else}}Tu{{/if}} reserva:</strong> {{sourceSwapTitle}} ({{sourceSwapLocation}})</p>' +
+      '<p><strong>Fechas:</strong> {{sourceSwapDates}}</p>' +
+      '{{#if targetSwapTitle}}' +
+      '<p><strong>{{#if role}}Tu{{else}}Su{{/if}} reserva:</strong> {{targetSwapTitle}} ({{targetSwapLocation}})</p>' +
+      '<p><strong>Fechas:</strong> {{targetSwapDates}}</p>' +
+      '{{/if}}' +
+      '</div>' +
+      '{{#if cashAmount}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💰 Detalles de la oferta en efectivo</h3>' +
+      '<p><strong>Importe:</strong> {{cashAmount}}</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Tu {{#if role}}reserva{{else}}intercambio{{/if}} vuelve a estar disponible</h3>' +
+      '<p>{{#if role}}Tu reserva sigue disponible para nuevas propuestas.{{else}}Tu intercambio ya está disponible para nuevas solicitudes y propuestas.{{/if}}</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">{{#if role}}Ver panel{{else}}Explorar otros intercambios{{/if}}</a>' +
+      '</div>' +
+      '<p>{{#if role}}Gracias por tu respuesta.{{else}}No te rindas: ¡hay muchas otras oportunidades esperándote!{{/if}}</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_rejected',
+    channel: 'sms',
+    template:
+      '{{#if role}}Propuesta para{{else}}Tu propuesta para{{/if}} {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}} {{#if role}}rechazada por ti{{else}}ha sido rechazada{{/if}}. {{#if rejectionReason}}Motivo: {{rejectionReason}}. {{/if}}{{#if role}}Panel{{else}}Explora más{{/if}}: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_rejected',
+    channel: 'in_app',
+    template:
+      '❌ Propuesta {{#if role}}rechazada por ti{{else}}rechazada{{/if}}: {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}{{#if rejectionReason}} - {{rejectionReason}}{{/if}}',
+  },
+
+  // Proposal Payment Completed Templates
+  {
+    type: 'proposal_payment_completed',
+    channel: 'email',
+    subject: '💰 Pago completado - {{amount}}',
+    template:
+      '<h2>💰 ¡Pago completado correctamente!</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>¡Buenas noticias! Se ha procesado correctamente el pago de tu propuesta aceptada.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Detalles del pago</h3>' +
+      '<p><strong>ID de la transacción:</strong> {{transactionId}}</p>' +
+      '<p><strong>Importe:</strong> {{amount}}</p>' +
+      '<p><strong>Estado:</strong> Completado</p>' +
+      '<p><strong>{{#if (eq role "recipient")}}Recibido{{else}}Enviado{{/if}} el:</strong> {{timestamp}}</p>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Propuesta relacionada</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '{{#if swapId}}<p><strong>ID del intercambio:</strong> {{swapId}}</p>{{/if}}' +
+      '</div>' +
+      '{{#if (eq role "recipient")}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Qué significa</h3>' +
+      '<p>Los fondos se han transferido correctamente a tu cuenta. Ya puedes coordinarte con la otra parte para completar el intercambio.</p>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Qué significa</h3>' +
+      '<p>Tu pago se ha enviado correctamente. Hemos avisado a quien lo recibe y ya podéis coordinaros para completar el intercambio.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver transacción</a>' +
+      '</div>' +
+      '<p>¡Gracias por usar nuestro sistema de pago seguro!</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_payment_completed',
+    channel: 'sms',
+    template:
+      '💰 Pago {{#if (eq role "recipient")}}recibido{{else}}enviado{{/if}}: {{amount}} por la propuesta {{proposalId}}. Transacción: {{transactionId}}. Detalles: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_payment_completed',
+    channel: 'in_app',
+    template:
+      '💰 Pago {{#if (eq role "recipient")}}recibido{{else}}completado{{/if}}: {{amount}}',
+  },
+
+  // Proposal Payment Failed Templates
+  {
+    type: 'proposal_payment_failed',
+    channel: 'email',
+    subject: '⚠️ Pago fallido - {{amount}}',
+    template:
+      '<h2>⚠️ No se ha podido procesar el pago</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Hemos tenido un problema al procesar el pago de tu propuesta. Revisa los detalles a continuación.</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Detalles del pago</h3>' +
+      '<p><strong>ID de la transacción:</strong> {{transactionId}}</p>' +
+      '<p><strong>Importe:</strong> {{amount}}</p>' +
+      '<p><strong>Estado:</strong> Fallido</p>' +
+      '{{#if errorMessage}}<p><strong>Error:</strong> {{errorMessage}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Propuesta relacionada</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '{{#if swapId}}<p><strong>ID del intercambio:</strong> {{swapId}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Próximos pasos</h3>' +
+      '<ul>' +
+      '<li>{{#if (eq role "payer")}}Revisa tu método de pago e inténtalo de nuevo{{else}}Hemos avisado a quien paga para que resuelva el problema{{/if}}</li>' +
+      '<li>Hemos restablecido el estado de tu propuesta para que se pueda reintentar</li>' +
+      '<li>Contacta con soporte si necesitas ayuda</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #dc3545; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">{{#if (eq role "payer")}}Reintentar pago{{else}}Ver detalles{{/if}}</a>' +
+      '</div>' +
+      '<p>Sentimos las molestias. Nuestro equipo está aquí para ayudarte a resolverlo cuanto antes.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_payment_failed',
+    channel: 'sms',
+    template:
+      '⚠️ Pago fallido: {{amount}} por la propuesta {{proposalId}}. {{#if errorMessage}}Error: {{errorMessage}}. {{/if}}{{#if (eq role "payer")}}Reintentar{{else}}Detalles{{/if}}: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_payment_failed',
+    channel: 'in_app',
+    template:
+      '⚠️ Pago fallido: {{amount}}{{#if errorMessage}} - {{errorMessage}}{{/if}}',
+  },
+
+  // Swap Completion Notification Templates
+
+  // Swap Completion Success Templates
+  {
+    type: 'swap_completion_success',
+    channel: 'email',
+    subject:
+      '🎉 Intercambio completado - {{#if isBookingExchange}}Intercambio de reservas{{else}}Pago en efectivo{{/if}}',
+    template:
+      '<h2>🎉 ¡Enhorabuena! Tu intercambio se ha completado</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>{{#if (eq role "proposer")}}Tu propuesta de {{#if isBookingExchange}}intercambio de reservas{{else}}oferta en efectivo{{/if}} se ha aceptado y completado.{{else}}Has completado un {{#if isBookingExchange}}intercambio de reservas{{else}}pago en efectivo{{/if}}.{{/if}}</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Resumen</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '<p><strong>Tipo:</strong> {{#if isBookingExchange}}Intercambio de reservas{{else}}Pago en efectivo{{/if}}</p>' +
+      '<p><strong>Completado el:</strong> {{completionTimestamp}}</p>' +
+      '<p><strong>Intercambios completados:</strong> {{totalSwapsCompleted}}</p>' +
+      '<p><strong>Reservas actualizadas:</strong> {{totalBookingsUpdated}}</p>' +
+      '{{#if ownershipTransfersCount}}<p><strong>Transferencias de titularidad:</strong> {{ownershipTransfersCount}}</p>{{/if}}' +
+      '{{#if hasBlockchainRecord}}<p><strong>Registro en blockchain:</strong> ✅ Creado</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏨 {{#if (eq role "proposer")}}Tu oferta{{else}}Reserva de origen{{/if}}</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Ubicación:</strong> {{sourceSwapDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{sourceSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{sourceSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{sourceSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{sourceSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{#if targetSwapDetails}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🎯 {{#if (eq role "proposer")}}Su reserva{{else}}Reserva elegida{{/if}}</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Ubicación:</strong> {{targetSwapDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{targetSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{targetSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{targetSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{targetSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if cashOffer}}' +
+      '<div style="background-color: #e8f5e8; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💰 Detalles del pago en efectivo</h3>' +
+      '<p><strong>Importe:</strong> {{cashOffer.amount}} {{cashOffer.currency}}</p>' +
+      '<p><strong>Estado:</strong> {{#if (eq role "proposer")}}Pago enviado{{else}}Pago recibido{{/if}}</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if blockchainTransaction}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔗 Registro en blockchain</h3>' +
+      '<p><strong>ID de la transacción:</strong> {{blockchainTransaction.transactionId}}</p>' +
+      '{{#if blockchainTransaction.consensusTimestamp}}<p><strong>Hora de consenso:</strong> {{blockchainTransaction.consensusTimestamp}}</p>{{/if}}' +
+      '<p>La finalización de tu intercambio ha quedado registrada de forma permanente en la blockchain por seguridad y transparencia.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Próximos pasos</h3>' +
+      '<ul>' +
+      '{{#if isBookingExchange}}' +
+      '<li>Ambas reservas se han actualizado con la nueva titularidad</li>' +
+      '<li>Recibirás avisos aparte sobre las transferencias de titularidad</li>' +
+      '<li>Compartiremos los datos de contacto para que os coordinéis</li>' +
+      '{{else}}' +
+      '<li>El estado de tu reserva ha cambiado a "intercambiada"</li>' +
+      '<li>El pago se ha procesado por completo</li>' +
+      '{{/if}}' +
+      '<li>Puedes ver todos los detalles en tu panel</li>' +
+      '<li>Valora tu experiencia de intercambio (opcional)</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver todos los detalles</a>' +
+      '</div>' +
+      '<p>{{#if (eq role "proposer")}}¡Gracias por usar nuestra plataforma! Esperamos que disfrutes de tu nueva reserva.{{else}}¡Enhorabuena por completar tu intercambio! Esperamos que lo disfrutes.{{/if}}</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_completion_success',
+    channel: 'sms',
+    template:
+      '🎉 ¡Intercambio completado! {{#if isBookingExchange}}Intercambio de reservas{{else}}Pago en efectivo{{/if}} correcto. Intercambios: {{totalSwapsCompleted}}, reservas actualizadas: {{totalBookingsUpdated}}. {{#if cashOffer}}{{cashOffer.amount}} {{cashOffer.currency}} {{#if (eq role "proposer")}}enviados{{else}}recibidos{{/if}}. {{/if}}Detalles: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'swap_completion_success',
+    channel: 'in_app',
+    template:
+      '🎉 ¡{{#if isBookingExchange}}Intercambio de reservas{{else}}Pago en efectivo{{/if}} completado! Intercambios: {{totalSwapsCompleted}}, reservas actualizadas: {{totalBookingsUpdated}}{{#if cashOffer}} ({{cashOffer.amount}} {{cashOffer.currency}}){{/if}}',
+  },
+
+  // Booking Ownership Transferred Templates
+  {
+    type: 'booking_ownership_transferred',
+    channel: 'email',
+    subject:
+      '🔄 {{#if (eq role "new_owner")}}Ahora eres titular de la reserva{{else}}Titularidad de la reserva transferida{{/if}} - {{bookingDetails.title}}',
+    template:
+      '<h2>🔄 Transferencia de titularidad {{#if (eq role "new_owner")}}completada: ¡ahora la reserva es tuya!{{else}}completada{{/if}}</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>{{#if (eq role "new_owner")}}¡Buenas noticias! Se te ha transferido la titularidad de una reserva como parte de tu intercambio.{{else}}La titularidad de tu reserva se ha transferido correctamente como parte de tu intercambio.{{/if}}</p>' +
+      '<div style="background-color: {{#if (eq role "new_owner")}}#d4edda{{else}}#e3f2fd{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid {{#if (eq role "new_owner")}}#28a745{{else}}#2196f3{{/if}};">' +
+      '<h3>🏨 Detalles de {{#if (eq role "new_owner")}}tu nueva{{/if}} reserva</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📋 Título:</strong> {{bookingDetails.title}}</li>' +
+      '<li><strong>📍 Ubicación:</strong> {{bookingDetails.location}}</li>' +
+      '<li><strong>📅 Fechas:</strong> {{bookingDetails.dates}}</li>' +
+      '<li><strong>🏠 Tipo:</strong> {{bookingDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Huéspedes:</strong> {{bookingDetails.guests}}</li>' +
+      '<li><strong>💰 Valor:</strong> {{bookingDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🤝 Tu contraparte</h3>' +
+      '<p><strong>Nombre:</strong> {{exchangePartnerDetails.name}}</p>' +
+      '<p><strong>Su reserva:</strong> {{exchangePartnerDetails.bookingTitle}}</p>' +
+      '<p><strong>Ubicación:</strong> {{exchangePartnerDetails.bookingLocation}}</p>' +
+      '<p><strong>Fechas:</strong> {{exchangePartnerDetails.bookingDates}}</p>' +
+      '</div>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Detalles de la transferencia</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '<p><strong>Fecha de transferencia:</strong> {{transferredAt}}</p>' +
+      '<p><strong>{{#if (eq role "new_owner")}}Titular anterior{{else}}Nuevo titular{{/if}}:</strong> {{#if (eq role "new_owner")}}{{previousOwnerId}}{{else}}{{newOwnerId}}{{/if}}</p>' +
+      '</div>' +
+      '{{#if (eq role "new_owner")}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Qué tienes que hacer</h3>' +
+      '<ul>' +
+      '<li>Revisa los detalles de tu nueva reserva en tu panel</li>' +
+      '<li>Contacta con el alojamiento si es necesario</li>' +
+      '<li>Coordina con {{exchangePartnerDetails.name}} los detalles de la entrega</li>' +
+      '<li>Actualiza tus planes de viaje</li>' +
+      '<li>Asegúrate de tener todas las confirmaciones de la reserva</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✅ Transferencia completada</h3>' +
+      '<ul>' +
+      '<li>{{exchangePartnerDetails.name}} es ahora titular de esta reserva</li>' +
+      '<li>A cambio, has recibido la titularidad de su reserva</li>' +
+      '<li>Todas las confirmaciones de reserva se han actualizado</li>' +
+      '<li>Podéis coordinar los detalles de la entrega si hace falta</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: {{#if (eq role "new_owner")}}#28a745{{else}}#007bff{{/if}}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">{{#if (eq role "new_owner")}}Ver tu nueva reserva{{else}}Ver panel{{/if}}</a>' +
+      '</div>' +
+      '<p>{{#if (eq role "new_owner")}}¡Enhorabuena por tu nueva reserva! Disfruta del viaje.{{else}}Gracias por completar el intercambio. Esperamos que disfrutes de tu nueva reserva.{{/if}}</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'booking_ownership_transferred',
+    channel: 'sms',
+    template:
+      '🔄 {{#if (eq role "new_owner")}}Te han transferido la reserva{{else}}Reserva transferida{{/if}}: {{bookingDetails.title}} ({{bookingDetails.location}}) {{#if (eq role "new_owner")}}de{{else}}a{{/if}} {{exchangePartnerDetails.name}}. Ver: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'booking_ownership_transferred',
+    channel: 'in_app',
+    template:
+      '🔄 {{#if (eq role "new_owner")}}Ahora eres titular de{{else}}Titularidad transferida:{{/if}} {{bookingDetails.title}} {{#if (eq role "new_owner")}}(de {{exchangePartnerDetails.name}}){{else}}(a {{exchangePartnerDetails.name}}){{/if}}',
+  },
+
+  // Completion Validation Warning Templates
+  {
+    type: 'completion_validation_warning',
+    channel: 'email',
+    subject:
+      '⚠️ {{#if requiresManualReview}}Problemas al validar la finalización{{else}}Avisos menores de finalización{{/if}} - Propuesta {{proposalId}}',
+    template:
+      '<h2>⚠️ {{#if requiresManualReview}}Hemos detectado problemas al validar la finalización{{else}}Avisos menores al validar la finalización{{/if}}</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>{{#if requiresManualReview}}Hemos detectado problemas de validación en la finalización de tu intercambio que requieren atención.{{else}}Tu intercambio se ha completado, pero hemos detectado algunos avisos menores de validación.{{/if}}</p>' +
+      '<div style="background-color: {{#if requiresManualReview}}#f8d7da{{else}}#fff3cd{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid {{#if requiresManualReview}}#dc3545{{else}}#ffc107{{/if}};">' +
+      '<h3>{{#if requiresManualReview}}🚨 Problemas detectados{{else}}⚠️ Avisos detectados{{/if}}</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '<p><strong>Errores de validación:</strong> {{errorCount}}</p>' +
+      '<p><strong>Avisos de validación:</strong> {{warningCount}}</p>' +
+      '<p><strong>Entidades incoherentes:</strong> {{inconsistentEntityCount}}</p>' +
+      '{{#if requiresManualReview}}<p><strong>Estado:</strong> Requiere revisión manual</p>{{else}}<p><strong>Estado:</strong> Completado con avisos</p>{{/if}}' +
+      '</div>' +
+      '{{#if validationErrors}}' +
+      '<div style="background-color: #f8d7da; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>❌ Errores de validación</h3>' +
+      '<ul>' +
+      '{{#each validationErrors}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if validationWarnings}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⚠️ Avisos de validación</h3>' +
+      '<ul>' +
+      '{{#each validationWarnings}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if correctionAttempts}}' +
+      '<div style="background-color: #e3f2fd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔧 Intentos de corrección automática</h3>' +
+      '<p><strong>Intentos totales:</strong> {{correctionAttemptCount}}</p>' +
+      '<p><strong>Correcciones con éxito:</strong> {{successfulCorrections}}</p>' +
+      '<ul>' +
+      '{{#each correctionAttempts}}' +
+      '<li>{{entityType}} {{entityId}}: {{#if correctionApplied}}✅ Corregido{{else}}❌ Fallido{{#if correctionError}} - {{correctionError}}{{/if}}{{/if}}</li>' +
+      '{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if requiresManualReview}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🛠️ Próximos pasos</h3>' +
+      '<ul>' +
+      '<li>Hemos avisado a nuestro equipo de soporte</li>' +
+      '<li>Revisaremos y resolveremos los problemas de validación</li>' +
+      '<li>Te contactaremos si necesitamos algo de ti</li>' +
+      '<li>Actualizaremos el estado de tu intercambio cuando esté resuelto</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✅ Estado de la finalización</h3>' +
+      '<p>A pesar de los avisos, tu intercambio se ha completado. Los avisos son menores y no afectan a la validez del intercambio.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: {{#if requiresManualReview}}#dc3545{{else}}#ffc107{{/if}}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver detalles</a>' +
+      '{{#if requiresManualReview}}' +
+      '<a href="/support" style="background-color: #6c757d; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin-left: 10px;">Contactar con soporte</a>' +
+      '{{/if}}' +
+      '</div>' +
+      '<p>{{#if requiresManualReview}}Sentimos las molestias; resolveremos estos problemas lo antes posible.{{else}}Gracias por tu paciencia. Tu intercambio está completo y es válido.{{/if}}</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'completion_validation_warning',
+    channel: 'sms',
+    template:
+      '⚠️ {{#if requiresManualReview}}Problemas al completar{{else}}Avisos menores al completar{{/if}} la propuesta {{proposalId}}. Errores: {{errorCount}}, avisos: {{warningCount}}. {{#if requiresManualReview}}Soporte te contactará.{{else}}El intercambio se ha completado.{{/if}} Detalles: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'completion_validation_warning',
+    channel: 'in_app',
+    template:
+      '⚠️ {{#if requiresManualReview}}Problemas de validación al completar{{else}}Avisos menores al completar{{/if}}: errores: {{errorCount}}, avisos: {{warningCount}}{{#if requiresManualReview}} - requiere revisión manual{{/if}}',
+  },
+
+  // Swap Completion Failed Templates
+  {
+    type: 'swap_completion_failed',
+    channel: 'email',
+    subject:
+      '❌ No se ha podido completar el intercambio - Propuesta {{proposalId}}',
+    template:
+      '<h2>❌ No se ha podido completar el intercambio</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Hemos tenido un problema al completar tu intercambio. {{#if rollbackSuccessful}}Todos los cambios se han revertido de forma segura.{{else}}Algunos cambios pueden requerir intervención manual.{{/if}}</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Detalles del fallo</h3>' +
+      '<p><strong>ID de la propuesta:</strong> {{proposalId}}</p>' +
+      '<p><strong>Mensaje de error:</strong> {{errorMessage}}</p>' +
+      '{{#if errorCode}}<p><strong>Código de error:</strong> {{errorCode}}</p>{{/if}}' +
+      '<p><strong>Estado de la reversión:</strong> {{#if rollbackSuccessful}}✅ Correcta{{else}}❌ Fallida{{/if}}</p>' +
+      '{{#if affectedEntities}}<p><strong>Entidades afectadas:</strong> {{affectedEntityCount}}</p>{{/if}}' +
+      '</div>' +
+      '{{#if affectedEntities}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Componentes afectados</h3>' +
+      '<ul>' +
+      '{{#each affectedEntities}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if rollbackSuccessful}}' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✅ Recuperación del sistema</h3>' +
+      '<p>Todos los cambios se han revertido. Tus reservas e intercambios están como antes del intento.</p>' +
+      '<ul>' +
+      '<li>No se ha perdido ni dañado ningún dato</li>' +
+      '<li>Tu propuesta sigue en su estado anterior</li>' +
+      '<li>Puedes volver a intentar completarlo</li>' +
+      '<li>Todos los elementos relacionados se han restaurado</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🚨 Se requiere intervención manual</h3>' +
+      '<p>No se ha podido revertir. Hemos avisado automáticamente a nuestro equipo de soporte, que lo resolverá cuanto antes.</p>' +
+      '<ul>' +
+      '<li>No vuelvas a intentar completarlo</li>' +
+      '<li>Nuestro equipo te contactará en menos de 24 horas</li>' +
+      '<li>La integridad de tus datos es nuestra prioridad</li>' +
+      '<li>Te mantendremos al tanto de la resolución</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Próximos pasos</h3>' +
+      '<ul>' +
+      '{{#if rollbackSuccessful}}' +
+      '<li>Puedes revisar el error y volver a intentarlo</li>' +
+      '<li>Comprueba si hay que actualizar algún dato</li>' +
+      '<li>Contacta con soporte si el problema continúa</li>' +
+      '{{else}}' +
+      '<li>Nuestro equipo de soporte investigará el problema</li>' +
+      '<li>Te contactaremos con novedades y próximos pasos</li>' +
+      '<li>No modifiques las reservas relacionadas</li>' +
+      '{{/if}}' +
+      '<li>Consulta tu panel para ver el estado</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver panel</a>' +
+      '{{#if rollbackSuccessful}}' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin-left: 10px;">Reintentar</a>' +
+      '{{/if}}' +
+      '{{#if requiresManualIntervention}}' +
+      '<a href="/support" style="background-color: #dc3545; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin-left: 10px;">Contactar con soporte</a>' +
+      '{{/if}}' +
+      '</div>' +
+      '<p>{{#if rollbackSuccessful}}Sentimos las molestias. Vuelve a intentarlo o contacta con soporte si el problema continúa.{{else}}Sentimos mucho este problema y estamos trabajando para resolverlo lo antes posible.{{/if}}</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_completion_failed',
+    channel: 'sms',
+    template:
+      '❌ No se pudo completar el intercambio de la propuesta {{proposalId}}. {{#if rollbackSuccessful}}Cambios revertidos. Puedes reintentarlo.{{else}}Requiere intervención manual. Soporte te contactará.{{/if}} Error: {{errorMessage}}. Panel: {{dashboardUrl}}',
+  },
+
+  {
+    type: 'swap_completion_failed',
+    channel: 'in_app',
+    template:
+      '❌ No se pudo completar: {{errorMessage}}{{#if rollbackSuccessful}} - cambios revertidos, puedes reintentarlo{{else}} - soporte te contactará{{/if}}',
+  },
+
+  // Multi-party Swap Cycle Templates
+
+  {
+    type: 'swap_cycle_proposed',
+    channel: 'email',
+    subject:
+      '🔁 Hemos encontrado un intercambio entre {{cycleLength}} para {{givesBookingTitle}}',
+    template:
+      '<h2>🔁 Nueva oportunidad de intercambio múltiple</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Hemos encontrado un intercambio entre {{cycleLength}} en el que cada persona recibe una reserva que aceptaría.</p>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2196f3;">' +
+      '<p><strong>Das:</strong> {{givesBookingTitle}}</p>' +
+      '<p><strong>Recibes:</strong> {{receivesBookingTitle}}</p>' +
+      '<p><strong>Compatibilidad:</strong> {{compatibilityScore}} %</p>' +
+      '<p><strong>Responde antes del:</strong> {{expiresAt}}</p>' +
+      '</div>' +
+      '<p>El intercambio solo se realiza si todas las partes aceptan.</p>' +
+      '<a href="{{cycleUrl}}" style="background-color: #2196f3; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Revisar intercambio</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_cycle_proposed',
+    channel: 'in_app',
+    template:
+      '🔁 Intercambio entre {{cycleLength}}: das {{givesBookingTitle}} y recibes {{receivesBookingTitle}}',
+  },
+
+  {
+    type: 'swap_cycle_leg_accepted',
+    channel: 'in_app',
+    template:
+      '✅ {{acceptedCount}} de {{cycleLength}} partes han aceptado el intercambio múltiple',
+  },
+
+  {
+    type: 'swap_cycle_declined',
+    channel: 'email',
+    subject: '🚫 Intercambio múltiple cancelado',
+    template:
+      '<h2>🚫 Intercambio múltiple cancelado</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Una de las partes ha rechazado el intercambio entre {{cycleLength}}, así que no se realizará. Tu intercambio sigue abierto a otras ofertas.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_cycle_declined',
+    channel: 'in_app',
+    template:
+      '🚫 Otra parte ha rechazado un intercambio entre {{cycleLength}}. Tu intercambio sigue abierto.',
+  },
+
+  {
+    type: 'swap_cycle_completed',
+    channel: 'email',
+    subject:
+      '🎉 Intercambio múltiple completado: ahora eres titular de {{receivesBookingTitle}}',
+    template:
+      '<h2>🎉 Intercambio múltiple completado</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Las {{cycleLength}} partes han aceptado y el intercambio se ha completado.</p>' +
+      '<p><strong>Has recibido:</strong> {{receivesBookingTitle}}</p>' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver detalles</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'swap_cycle_completed',
+    channel: 'in_app',
+    template:
+      '🎉 ¡Intercambio entre {{cycleLength}} completado! Ahora eres titular de {{receivesBookingTitle}}',
+  },
+
+  // Proposal Negotiation Templates
+
+  {
+    type: 'proposal_countered',
+    channel: 'email',
+    subject: '↔️ Contraoferta recibida para {{bookingTitle}}',
+    template:
+      '<h2>↔️ Nueva contraoferta</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Has recibido una contraoferta (versión {{version}}) a la propuesta para {{bookingTitle}}.</p>' +
+      '<div style="background-color: #fff8e1; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffb300;">' +
+      '{{#if cashOfferAmount}}<p><strong>Oferta en efectivo:</strong> {{cashOfferAmount}}</p>{{/if}}' +
+      '{{#if additionalPayment}}<p><strong>Pago adicional:</strong> {{additionalPayment}}</p>{{/if}}' +
+      '{{#if conditions}}<p><strong>Condiciones:</strong> {{conditions}}</p>{{/if}}' +
+      '<p><strong>Responde antes del:</strong> {{expiresAt}}</p>' +
+      '{{#if message}}<p><strong>Mensaje:</strong> {{message}}</p>{{/if}}' +
+      '</div>' +
+      '<p>Puedes aceptarla, rechazarla o hacer otra contraoferta.</p>' +
+      '<a href="{{negotiationUrl}}" style="background-color: #ffb300; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Revisar contraoferta</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_countered',
+    channel: 'in_app',
+    template:
+      '↔️ Nueva contraoferta (versión {{version}}) para {{bookingTitle}}',
+  },
+
+  {
+    type: 'counter_offer_accepted',
+    channel: 'email',
+    subject: '✅ Han aceptado tu contraoferta para {{bookingTitle}}',
+    template:
+      '<h2>✅ Contraoferta aceptada</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Han aceptado tu contraoferta (versión {{version}}) para {{bookingTitle}}. El intercambio se está completando en las condiciones acordadas.</p>' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver detalles</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'counter_offer_accepted',
+    channel: 'in_app',
+    template: '✅ Han aceptado tu contraoferta para {{bookingTitle}}',
+  },
+
+  {
+    type: 'counter_offer_rejected',
+    channel: 'email',
+    subject: '❌ Han rechazado tu contraoferta para {{bookingTitle}}',
+    template:
+      '<h2>❌ Contraoferta rechazada</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Han rechazado tu contraoferta (versión {{version}}) para {{bookingTitle}}. La propuesta original sigue pendiente.</p>' +
+      '{{#if reason}}<p><strong>Motivo:</strong> {{reason}}</p>{{/if}}' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'counter_offer_rejected',
+    channel: 'in_app',
+    template: '❌ Han rechazado tu contraoferta para {{bookingTitle}}',
+  },
+
+  {
+    type: 'proposal_auto_accepted',
+    channel: 'email',
+    subject:
+      '⚡ Se ha aceptado automáticamente una propuesta para {{bookingTitle}}',
+    template:
+      '<h2>⚡ Propuesta aceptada automáticamente</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Una propuesta para {{bookingTitle}} cumplía tus criterios de aceptación automática y se ha aceptado en tu nombre.</p>' +
+      '<p><strong>Por qué coincidía:</strong> {{reason}}</p>' +
+      '<p>Puedes cambiar o desactivar la aceptación automática en la configuración de tu perfil.</p>' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver intercambio</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'proposal_auto_accepted',
+    channel: 'in_app',
+    template:
+      '⚡ Se ha aceptado automáticamente una propuesta para {{bookingTitle}}: {{reason}}',
+  },
+
+  // Saved Search Alert Templates
+
+  {
+    type: 'saved_search_match',
+    channel: 'email',
+    subject: '🔎 Nueva coincidencia para "{{searchName}}": {{bookingTitle}}',
+    template:
+      '<h2>🔎 Un nuevo anuncio coincide con tu búsqueda guardada</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Se acaba de publicar un anuncio que coincide con tu búsqueda guardada <strong>{{searchName}}</strong>.</p>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #1976d2;">' +
+      '<p><strong>{{bookingTitle}}</strong></p>' +
+      '<p><strong>Ubicación:</strong> {{bookingLocation}}</p>' +
+      '<p><strong>Fechas:</strong> {{checkIn}} – {{checkOut}}</p>' +
+      '<p><strong>Valor de intercambio:</strong> {{swapValue}}</p>' +
+      '</div>' +
+      '<a href="{{bookingUrl}}" style="background-color: #1976d2; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver anuncio</a>' +
+      '<p style="font-size: 12px; color: #666;">Puedes cambiar o desactivar las alertas de esta búsqueda en la página de exploración.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'saved_search_match',
+    channel: 'sms',
+    template:
+      'Nueva coincidencia para "{{searchName}}": {{bookingTitle}} en {{bookingLocation}}. {{bookingUrl}}',
+  },
+
+  {
+    type: 'saved_search_match',
+    channel: 'in_app',
+    template:
+      '🔎 Nueva coincidencia para "{{searchName}}": {{bookingTitle}} en {{bookingLocation}}',
+  },
+
+  {
+    type: 'saved_search_digest',
+    channel: 'email',
+    subject:
+      '🔎 Anuncios nuevos que coinciden con tus búsquedas guardadas: {{matchCount}}',
+    template:
+      '<h2>🔎 Tu resumen diario de búsquedas guardadas</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Desde el último resumen, {{matchCount}} anuncios nuevos coinciden con tus búsquedas guardadas.</p>' +
+      '<ul>{{#each matchSummaries}}<li>{{this}}</li>{{/each}}</ul>' +
+      '<a href="{{browseUrl}}" style="background-color: #1976d2; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Explorar anuncios</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'saved_search_digest',
+    channel: 'sms',
+    template:
+      'Anuncios nuevos que coinciden con tus búsquedas guardadas: {{matchCount}}. {{browseUrl}}',
+  },
+
+  {
+    type: 'saved_search_digest',
+    channel: 'in_app',
+    template:
+      '🔎 Anuncios nuevos que coinciden con tus búsquedas guardadas: {{matchCount}}',
+  },
+
+  // Dispute Templates
+
+  {
+    type: 'dispute_opened',
+    channel: 'email',
+    subject: '⚖️ Se ha abierto una disputa sobre tu intercambio',
+    template:
+      '<h2>⚖️ Disputa abierta</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Se ha abierto una disputa sobre el intercambio de <strong>{{bookingTitle}}</strong> y nuestro equipo de soporte la revisará.</p>' +
+      '<div style="background-color: #fff3e0; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #f57c00;">' +
+      '<p><strong>Motivo:</strong> {{disputeType}}</p>' +
+      '<p>{{description}}</p>' +
+      '</div>' +
+      '<p>Los fondos retenidos para este intercambio siguen en depósito hasta que se resuelva la disputa. Puedes añadir pruebas desde la página de la disputa.</p>' +
+      '<a href="{{disputeUrl}}" style="background-color: #f57c00; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver disputa</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'dispute_opened',
+    channel: 'in_app',
+    template:
+      '⚖️ Se ha abierto una disputa sobre el intercambio de {{bookingTitle}}',
+  },
+
+  {
+    type: 'dispute_status_changed',
+    channel: 'email',
+    subject: '⚖️ Tu disputa ahora está en estado: {{statusLabel}}',
+    template:
+      '<h2>⚖️ Novedades de tu disputa</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>La disputa sobre el intercambio de <strong>{{bookingTitle}}</strong> ahora está en estado <strong>{{statusLabel}}</strong>.</p>' +
+      '{{#if note}}<p>{{note}}</p>{{/if}}' +
+      '{{#if awaitingYou}}<p><strong>Soporte está esperando tu respuesta.</strong> Añade tu respuesta o tus pruebas antes del {{respondBy}}.</p>{{/if}}' +
+      '<a href="{{disputeUrl}}" style="background-color: #f57c00; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver disputa</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'dispute_status_changed',
+    channel: 'in_app',
+    template:
+      '⚖️ Tu disputa sobre {{bookingTitle}} ahora está en estado: {{statusLabel}}',
+  },
+
+  {
+    type: 'dispute_resolved',
+    channel: 'email',
+    subject: '⚖️ Tu disputa se ha resuelto',
+    template:
+      '<h2>⚖️ Disputa resuelta</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Se ha resuelto la disputa sobre el intercambio de <strong>{{bookingTitle}}</strong>.</p>' +
+      '<div style="background-color: #e8f5e9; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #388e3c;">' +
+      '<p><strong>Resultado:</strong> {{outcome}}</p>' +
+      '{{#if notes}}<p>{{notes}}</p>{{/if}}' +
+      '</div>' +
+      '<a href="{{disputeUrl}}" style="background-color: #388e3c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver disputa</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'dispute_resolved',
+    channel: 'in_app',
+    template:
+      '⚖️ Tu disputa sobre {{bookingTitle}} se ha resuelto: {{outcome}}',
+  },
+
+  // Booking Verification Templates
+
+  {
+    type: 'booking_verified',
+    channel: 'email',
+    subject: '✅ Tu reserva {{bookingTitle}} está verificada',
+    template:
+      '<h2>✅ Reserva verificada</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Hemos verificado tu reserva <strong>{{bookingTitle}}</strong>.</p>' +
+      '{{#if notes}}<p>{{notes}}</p>{{/if}}' +
+      '<p>Ya puedes subastarla o aceptar ofertas en efectivo por ella.</p>' +
+      '<a href="{{bookingUrl}}" style="background-color: #388e3c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver reserva</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'booking_verified',
+    channel: 'in_app',
+    template: '✅ Tu reserva {{bookingTitle}} está verificada',
+  },
+
+  {
+    type: 'booking_verification_rejected',
+    channel: 'email',
+    subject: '❌ No hemos podido verificar {{bookingTitle}}',
+    template:
+      '<h2>❌ No se ha podido verificar la reserva</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>No hemos podido verificar tu reserva <strong>{{bookingTitle}}</strong>.</p>' +
+      '<div style="background-color: #ffebee; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #d32f2f;">' +
+      '<p>{{reason}}</p>' +
+      '</div>' +
+      '<p>Comprueba el número de confirmación y las fechas del anuncio y vuelve a subir tu confirmación.</p>' +
+      '<a href="{{bookingUrl}}" style="background-color: #d32f2f; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Ver reserva</a>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'booking_verification_rejected',
+    channel: 'in_app',
+    template: '❌ No hemos podido verificar tu reserva {{bookingTitle}}',
+  },
+
+  {
+    type: 'booking_verification_review',
+    channel: 'email',
+    subject: '🔍 Estamos revisando tu reserva {{bookingTitle}}',
+    template:
+      '<h2>🔍 Reserva en revisión</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>No hemos podido verificar <strong>{{bookingTitle}}</strong> automáticamente, así que nuestro equipo revisará tu confirmación a mano.</p>' +
+      '<p>Te avisaremos en cuanto termine la revisión.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'booking_verification_review',
+    channel: 'in_app',
+    template: '🔍 Estamos revisando tu reserva {{bookingTitle}}',
+  },
+
+  // Direct Message Templates
+
+  {
+    type: 'message_received',
+    channel: 'in_app',
+    template:
+      '💬 {{senderName}} te ha enviado un mensaje sobre {{bookingTitle}}',
+  },
+
+  // Webhook Templates
+
+  {
+    type: 'webhook_endpoint_disabled',
+    channel: 'email',
+    subject: '⚠️ Hemos desactivado tu endpoint de webhook',
+    template:
+      '<h2>⚠️ Endpoint de webhook desactivado</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>Hemos dejado de enviar eventos a <strong>{{endpointUrl}}</strong> porque las entregas fallaban continuamente.</p>' +
+      '<div style="background-color: #fff3e0; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #f57c00;">' +
+      '<p>{{reason}}</p>' +
+      '</div>' +
+      '<p>Cuando el endpoint vuelva a estar accesible, reactívalo y reenvía desde el registro de entregas los eventos que se haya perdido.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'webhook_endpoint_disabled',
+    channel: 'in_app',
+    template:
+      '⚠️ Se ha desactivado el endpoint de webhook {{endpointUrl}} tras varios fallos de entrega',
+  },
+
+  // Data Export Templates
+
+  {
+    type: 'data_export_ready',
+    channel: 'email',
+    subject: '📦 Tu exportación de datos está lista',
+    template:
+      '<h2>📦 Tu exportación de datos está lista</h2>' +
+      '<p>Hola, {{recipientName}}:</p>' +
+      '<p>La copia de tus datos de Booking Swap que pediste está lista. Descárgala desde la sección de privacidad de la configuración de tu cuenta.</p>' +
+      '<p>La descarga estará disponible hasta el <strong>{{expiresAt}}</strong>. Después tendrás que pedir una nueva exportación.</p>' +
+      '<p>Si no pediste esta exportación, cambia tu contraseña y cierra la sesión en tus otros dispositivos.</p>' +
+      '<p>Un saludo,<br>El equipo de Booking Swap</p>',
+  },
+
+  {
+    type: 'data_export_ready',
+    channel: 'in_app',
+    template:
+      '📦 Tu exportación de datos se puede descargar hasta el {{expiresAt}}',
+  },
+];
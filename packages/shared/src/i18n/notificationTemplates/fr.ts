@@ -0,0 +1,1846 @@
+import type { LocalizedNotificationTemplate } from './index.js';
+
+/**
+ * French notification templates. Placeholders must match the English ones.
+ */
+export const fr: LocalizedNotificationTemplate[] = [
+  // Swap Proposal Templates
+  {
+    type: 'swap_proposal',
+    channel: 'email',
+    subject: "Nouvelle proposition d'échange pour votre {{targetBookingTitle}}",
+    template:
+      "<h2>Vous avez reçu une nouvelle proposition d'échange !</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Quelqu'un souhaite échanger sa réservation contre votre <strong>{{targetBookingTitle}}</strong>.</p>" +
+      '<h3>Sa réservation :</h3>' +
+      '<ul>' +
+      '<li><strong>Titre :</strong> {{sourceBookingTitle}}</li>' +
+      '<li><strong>Lieu :</strong> {{sourceBookingLocation}}</li>' +
+      '<li><strong>Dates :</strong> {{sourceBookingDates}}</li>' +
+      '<li><strong>Valeur :</strong> {{sourceBookingValue}}</li>' +
+      '</ul>' +
+      '<h3>Votre réservation :</h3>' +
+      '<ul>' +
+      '<li><strong>Titre :</strong> {{targetBookingTitle}}</li>' +
+      '<li><strong>Lieu :</strong> {{targetBookingLocation}}</li>' +
+      '<li><strong>Dates :</strong> {{targetBookingDates}}</li>' +
+      '<li><strong>Valeur :</strong> {{targetBookingValue}}</li>' +
+      '</ul>' +
+      '{{#if additionalPayment}}<p><strong>Paiement complémentaire :</strong> {{additionalPayment}}</p>{{/if}}' +
+      '{{#if conditions}}<h3>Conditions :</h3><ul>{{#each conditions}}<li>{{this}}</li>{{/each}}</ul>{{/if}}' +
+      '<p><strong>La proposition expire le :</strong> {{expiresAt}}</p>' +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Examiner la proposition</a></p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_proposal',
+    channel: 'sms',
+    template:
+      "Nouvelle proposition d'échange pour votre {{targetBookingTitle}} ! Quelqu'un souhaite échanger son {{sourceBookingTitle}} ({{sourceBookingLocation}}) contre votre réservation. Consultez votre tableau de bord : {{dashboardUrl}}",
+  },
+
+  // Swap Accepted Templates
+  {
+    type: 'swap_accepted',
+    channel: 'email',
+    subject: "Votre proposition d'échange a été acceptée !",
+    template:
+      "<h2>Bonne nouvelle ! Votre proposition d'échange a été acceptée</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Votre proposition d'échange a été acceptée. L'échange entre votre <strong>{{sourceBookingTitle}}</strong> et <strong>{{targetBookingTitle}}</strong> va être traité sous peu.</p>" +
+      "<h3>Détails de l'échange :</h3>" +
+      '<ul>' +
+      '<li><strong>Votre réservation :</strong> {{sourceBookingTitle}} ({{sourceBookingLocation}})</li>' +
+      '<li><strong>Sa réservation :</strong> {{targetBookingTitle}} ({{targetBookingLocation}})</li>' +
+      "<li><strong>ID de l'échange :</strong> {{swapId}}</li>" +
+      '</ul>' +
+      '<p>Vous recevrez une autre notification une fois la transaction blockchain terminée.</p>' +
+      '<p><a href="{{swapUrl}}" style="background-color: #28a745; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Voir les détails de l\'échange</a></p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_accepted',
+    channel: 'sms',
+    template:
+      "Bonne nouvelle ! Votre proposition d'échange pour {{targetBookingTitle}} a été acceptée. L'échange de votre {{sourceBookingTitle}} est en cours de traitement. Détails : {{swapUrl}}",
+  },
+
+  // Swap Rejected Templates
+  {
+    type: 'swap_rejected',
+    channel: 'email',
+    subject: "Suivi de votre proposition d'échange",
+    template:
+      "<h2>Suivi de votre proposition d'échange</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Votre proposition d'échange pour <strong>{{targetBookingTitle}}</strong> a été refusée.</p>" +
+      "<p>Votre réservation <strong>{{sourceBookingTitle}}</strong> est de nouveau disponible et peut servir à d'autres propositions d'échange.</p>" +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Parcourir d\'autres réservations</a></p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_rejected',
+    channel: 'sms',
+    template:
+      "Votre proposition d'échange pour {{targetBookingTitle}} a été refusée. Votre {{sourceBookingTitle}} est de nouveau disponible. Découvrez d'autres offres : {{dashboardUrl}}",
+  },
+
+  // Swap Expired Templates
+  {
+    type: 'swap_expired',
+    channel: 'email',
+    subject: "Proposition d'échange expirée",
+    template:
+      "<h2>Proposition d'échange expirée</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>{{#if isProposer}}Votre proposition d'échange (ID : {{swapId}}) a expiré et a été annulée automatiquement.{{else}}Une proposition d'échange (ID : {{swapId}}) pour votre réservation a expiré.{{/if}}</p>" +
+      "<p>Votre réservation est de nouveau disponible pour de nouvelles propositions d'échange.</p>" +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Voir le tableau de bord</a></p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_expired',
+    channel: 'sms',
+    template:
+      "La proposition d'échange {{swapId}} a expiré. Votre réservation est de nouveau disponible. Tableau de bord : {{dashboardUrl}}",
+  },
+
+  // Swap Cancelled Templates
+  {
+    type: 'swap_cancelled',
+    channel: 'email',
+    subject: "Proposition d'échange annulée",
+    template:
+      "<h2>Proposition d'échange annulée</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Une proposition d'échange (ID : {{swapId}}) a été annulée par son auteur.</p>" +
+      "<p>Votre réservation est de nouveau disponible pour de nouvelles propositions d'échange.</p>" +
+      '<p><a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Voir le tableau de bord</a></p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_cancelled',
+    channel: 'sms',
+    template:
+      "La proposition d'échange {{swapId}} a été annulée. Votre réservation est de nouveau disponible. Tableau de bord : {{dashboardUrl}}",
+  },
+
+  // In-app notification templates (simple text versions)
+  {
+    type: 'swap_proposal',
+    channel: 'in_app',
+    template:
+      "Nouvelle proposition d'échange pour votre {{targetBookingTitle}}",
+  },
+
+  {
+    type: 'swap_accepted',
+    channel: 'in_app',
+    template:
+      "Votre proposition d'échange pour {{targetBookingTitle}} a été acceptée !",
+  },
+
+  {
+    type: 'swap_rejected',
+    channel: 'in_app',
+    template:
+      "Votre proposition d'échange pour {{targetBookingTitle}} a été refusée",
+  },
+
+  {
+    type: 'swap_expired',
+    channel: 'in_app',
+    template: "La proposition d'échange {{swapId}} a expiré",
+  },
+
+  {
+    type: 'swap_cancelled',
+    channel: 'in_app',
+    template: "La proposition d'échange {{swapId}} a été annulée",
+  },
+
+  // Browse Proposal Templates
+  {
+    type: 'browse_proposal_received',
+    channel: 'email',
+    subject:
+      "Nouvelle proposition d'échange depuis Parcourir - {{sourceSwapDetails.title}}",
+    template:
+      "<h2>Vous avez reçu une nouvelle proposition d'échange !</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Quelqu'un a trouvé votre <strong>{{targetSwapDetails.title}}</strong> en parcourant les annonces et souhaite vous proposer un échange !</p>" +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏨 La réservation proposée :</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Lieu :</strong> {{sourceSwapDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{sourceSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{sourceSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{sourceSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{sourceSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🎯 Votre réservation :</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Lieu :</strong> {{targetSwapDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{targetSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{targetSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{targetSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{targetSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{#if compatibilityAnalysis}}' +
+      '<div style="background-color: #e8f5e8; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📊 Analyse de compatibilité :</h3>' +
+      '<p><strong>Compatibilité globale :</strong> {{compatibilityAnalysis.overallScore}} %</p>' +
+      '<ul>' +
+      '<li>Compatibilité du lieu : {{compatibilityAnalysis.locationScore}} %</li>' +
+      '<li>Compatibilité des dates : {{compatibilityAnalysis.dateScore}} %</li>' +
+      '<li>Compatibilité de la valeur : {{compatibilityAnalysis.valueScore}} %</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if message}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💬 Message personnel :</h3>' +
+      '<p style="font-style: italic;">« {{message}} »</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Examiner la proposition</a>' +
+      '</div>' +
+      '<p style="color: #666; font-size: 14px;">Cette proposition vient de la page Parcourir : votre réservation suscite un réel intérêt !</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'browse_proposal_received',
+    channel: 'sms',
+    template:
+      "Nouvelle proposition d'échange ! Quelqu'un souhaite échanger son {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}}) contre votre {{targetSwapDetails.title}}. {{#if compatibilityAnalysis}}Compatibilité de {{compatibilityAnalysis.overallScore}} % !{{/if}} À examiner : {{dashboardUrl}}",
+  },
+
+  {
+    type: 'browse_proposal_received',
+    channel: 'in_app',
+    template:
+      'Nouvelle proposition depuis Parcourir pour {{targetSwapDetails.title}} depuis {{sourceSwapDetails.location}}{{#if compatibilityAnalysis}} ({{compatibilityAnalysis.overallScore}} % de compatibilité){{/if}}',
+  },
+
+  // Browse Proposal Confirmed Templates
+  {
+    type: 'browse_proposal_confirmed',
+    channel: 'email',
+    subject: 'Proposition envoyée - {{targetSwapDetails.title}}',
+    template:
+      "<h2>✅ Votre proposition d'échange a été envoyée !</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Bonne nouvelle ! Votre proposition d'échange a bien été envoyée et est en cours d'examen.</p>" +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>📋 Récapitulatif de la proposition :</h3>' +
+      '<p><strong>Votre offre :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Échange demandé :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Statut :</strong> {{status}}</p>' +
+      '</div>' +
+      '{{#if compatibilityAnalysis}}' +
+      '<div style="background-color: #e8f5e8; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📊 Votre score de compatibilité : {{compatibilityAnalysis.overallScore}} %</h3>' +
+      "<p>Il indique à quel point vos réservations correspondent selon le lieu, les dates, la valeur et d'autres critères.</p>" +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Et ensuite :</h3>' +
+      '<ul>' +
+      '{{#each nextSteps}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '<p><strong>Délai de réponse estimé :</strong> {{estimatedResponseTime}}</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Suivre votre proposition</a>' +
+      '</div>' +
+      "<p>Nous vous préviendrons dès que le propriétaire de l'échange aura répondu à votre proposition.</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'browse_proposal_confirmed',
+    channel: 'sms',
+    template:
+      "Proposition envoyée ! Votre proposition de {{sourceSwapDetails.title}} pour {{targetSwapDetails.title}} est en cours d'examen. Suivi : {{dashboardUrl}}",
+  },
+
+  {
+    type: 'browse_proposal_confirmed',
+    channel: 'in_app',
+    template:
+      "Proposition envoyée pour {{targetSwapDetails.title}} - en cours d'examen",
+  },
+
+  // Browse Proposal Status Update Templates
+  {
+    type: 'browse_proposal_status_update',
+    channel: 'email',
+    subject:
+      'Suivi de votre proposition : {{targetSwapDetails.title}} - {{status}}',
+    template:
+      '<h2>📬 Changement de statut de votre proposition</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Le statut de votre proposition d'échange a changé :</p>" +
+      '<div style="background-color: {{#if actionRequired}}#fff3cd{{else}}#f8f9fa{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>Statut : {{status}}</h3>' +
+      '<p>{{statusMessage}}</p>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Détails de la proposition :</h3>' +
+      '<p><strong>Votre offre :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Échange demandé :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '</div>' +
+      '{{#if actionRequired}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #17a2b8;">' +
+      '<h3>⚡ Action requise</h3>' +
+      '<p>Votre proposition a été acceptée ! Consultez votre tableau de bord pour la suite.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les détails</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'browse_proposal_status_update',
+    channel: 'sms',
+    template:
+      'Suivi de votre proposition : {{targetSwapDetails.title}} - {{status}}. {{statusMessage}} Détails : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'browse_proposal_status_update',
+    channel: 'in_app',
+    template: 'Proposition {{status}} : {{targetSwapDetails.title}}',
+  },
+
+  // Browse Proposal Reminder Templates
+  {
+    type: 'browse_proposal_reminder',
+    channel: 'email',
+    subject:
+      "⏰ Rappel : une proposition d'échange attend votre réponse - {{targetSwapTitle}}",
+    template:
+      '<h2>⏰ Rappel de proposition{{#if isUrgent}} - Urgent{{/if}}</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>{{#if isUrgent}}Rappel urgent : vous avez{{else}}Vous avez{{/if}} une proposition d'échange en attente d'examen :</p>" +
+      '<div style="background-color: {{#if isUrgent}}#f8d7da{{else}}#fff3cd{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid {{#if isUrgent}}#dc3545{{else}}#ffc107{{/if}};">' +
+      '<h3>📋 Proposition en attente :</h3>' +
+      '<p><strong>Son offre :</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Votre réservation :</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Temps restant :</strong> {{hoursRemaining}} heures</p>' +
+      '{{#if expirationWarning}}<p style="color: #dc3545; font-weight: bold;">⚠️ {{expirationWarning}}</p>{{/if}}' +
+      '</div>' +
+      '{{#if isUrgent}}' +
+      '<div style="background-color: #f8d7da; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🚨 Dernier rappel</h3>' +
+      '<p>Cette proposition expire dans {{hoursRemaining}} heures. Examinez-la et répondez pour ne pas manquer cette occasion.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: {{#if isUrgent}}#dc3545{{else}}#ffc107{{/if}}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Examiner maintenant</a>' +
+      '</div>' +
+      "<p>Ne manquez pas cette occasion d'échange !</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'browse_proposal_reminder',
+    channel: 'sms',
+    template:
+      '{{#if isUrgent}}URGENT : {{/if}}Rappel ! La proposition de {{sourceSwapTitle}} pour votre {{targetSwapTitle}} expire dans {{hoursRemaining}} h. À examiner : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'browse_proposal_reminder',
+    channel: 'in_app',
+    template:
+      '{{#if isUrgent}}⚠️ Urgent : {{/if}}La proposition pour {{targetSwapTitle}} expire dans {{hoursRemaining}} h',
+  },
+
+  // Targeting Notification Templates
+
+  // Targeting Received Templates
+  {
+    type: 'targeting_received',
+    channel: 'email',
+    subject: "Quelqu'un cible votre {{targetSwapDetails.title}} !",
+    template:
+      '<h2>🎯 Vous avez reçu une nouvelle demande de ciblage !</h2>' +
+      '<p>Bonjour {{targetSwapDetails.ownerName}},</p>' +
+      "<p>Bonne nouvelle ! Quelqu'un a ciblé votre <strong>{{targetSwapDetails.title}}</strong> avec sa proposition d'échange.</p>" +
+      '<div style="background-color: #e8f5e8; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      "<h3>🏨 Son offre d'échange :</h3>" +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Lieu :</strong> {{sourceSwapDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{sourceSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{sourceSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{sourceSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{sourceSwapDetails.value}} $</li>' +
+      '<li><strong>👤 Propriétaire :</strong> {{sourceSwapDetails.ownerName}}</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🎯 Votre échange ciblé :</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Lieu :</strong> {{targetSwapDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{targetSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{targetSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{targetSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{targetSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{#if message}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💬 Message personnel :</h3>' +
+      '<p style="font-style: italic;">« {{message}} »</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if auctionInfo}}' +
+      '{{#if auctionInfo.isAuctionMode}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏆 Mode enchères actif</h3>' +
+      '<p>Votre échange est en mode enchères. Propositions actuelles : {{auctionInfo.currentProposalCount}}</p>' +
+      '<p>Fin des enchères : {{auctionInfo.endDate}}</p>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⚡ Mode un pour un</h3>' +
+      "<p>Il s'agit d'une demande de ciblage directe. Vous pouvez accepter ou refuser cette proposition.</p>" +
+      '</div>' +
+      '{{/if}}' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Examiner la demande</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_received',
+    channel: 'sms',
+    template:
+      'Nouveau ciblage ! {{sourceSwapDetails.ownerName}} souhaite échanger son {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}}) contre votre {{targetSwapDetails.title}}. À examiner : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'targeting_received',
+    channel: 'in_app',
+    template:
+      '🎯 {{sourceSwapDetails.ownerName}} a ciblé votre {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Accepted Templates
+  {
+    type: 'targeting_accepted',
+    channel: 'email',
+    subject: '🎉 Votre demande de ciblage a été acceptée !',
+    template:
+      '<h2>🎉 Excellente nouvelle ! Votre demande de ciblage a été acceptée</h2>' +
+      '<p>Bonjour {{sourceSwapDetails.ownerName}},</p>' +
+      '<p>Bonne nouvelle ! Votre demande de ciblage pour <strong>{{targetSwapDetails.title}}</strong> a été acceptée !</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Échange confirmé</h3>' +
+      '<p><strong>Votre échange :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Son échange :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Statut :</strong> Accepté, en cours de traitement</p>' +
+      '</div>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Et ensuite :</h3>' +
+      '<ul>' +
+      "<li>Les deux réservations seront traitées pour l'échange</li>" +
+      '<li>Vous recevrez une confirmation une fois la transaction blockchain terminée</li>' +
+      '<li>Les coordonnées seront partagées pour vous organiser</li>' +
+      '<li>Le traitement du paiement (le cas échéant) commencera</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{swapUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les détails de l\'échange</a>' +
+      '</div>' +
+      '<p>Félicitations pour cet échange réussi !</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_accepted',
+    channel: 'sms',
+    template:
+      "🎉 Bonne nouvelle ! Votre demande de ciblage pour {{targetSwapDetails.title}} a été acceptée. L'échange de votre {{sourceSwapDetails.title}} est en cours de traitement. Détails : {{swapUrl}}",
+  },
+
+  {
+    type: 'targeting_accepted',
+    channel: 'in_app',
+    template:
+      '🎉 Ciblage accepté ! Votre {{sourceSwapDetails.title}} ↔ {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Rejected Templates
+  {
+    type: 'targeting_rejected',
+    channel: 'email',
+    subject: 'Suivi de votre demande de ciblage - {{targetSwapDetails.title}}',
+    template:
+      '<h2>📬 Suivi de votre demande de ciblage</h2>' +
+      '<p>Bonjour {{sourceSwapDetails.ownerName}},</p>' +
+      '<p>Votre demande de ciblage pour <strong>{{targetSwapDetails.title}}</strong> a été refusée.</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Demande refusée</h3>' +
+      '<p><strong>Votre échange :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Échange ciblé :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '{{#if reason}}<p><strong>Motif :</strong> {{reason}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Votre échange est de nouveau disponible</h3>' +
+      '<p>Votre <strong>{{sourceSwapDetails.title}}</strong> est disponible pour de nouvelles demandes de ciblage.</p>' +
+      "<p>Vous pouvez parcourir d'autres échanges et cibler de nouvelles occasions dès maintenant !</p>" +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{browseUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Parcourir d\'autres échanges</a>' +
+      '</div>' +
+      "<p>Ne baissez pas les bras : bien d'autres belles occasions d'échange vous attendent !</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_rejected',
+    channel: 'sms',
+    template:
+      "Votre demande de ciblage pour {{targetSwapDetails.title}} a été refusée. Votre {{sourceSwapDetails.title}} est de nouveau disponible. Découvrez d'autres offres : {{browseUrl}}",
+  },
+
+  {
+    type: 'targeting_rejected',
+    channel: 'in_app',
+    template: '❌ Ciblage refusé : {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Cancelled Templates
+  {
+    type: 'targeting_cancelled',
+    channel: 'email',
+    subject: 'Demande de ciblage annulée - {{targetSwapDetails.title}}',
+    template:
+      '<h2>🚫 Demande de ciblage annulée</h2>' +
+      '<p>Bonjour {{targetSwapDetails.ownerName}},</p>' +
+      '<p>Une demande de ciblage pour votre <strong>{{targetSwapDetails.title}}</strong> a été annulée par son auteur.</p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>📋 Détails de la demande annulée</h3>' +
+      '<p><strong>Son échange :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Votre échange :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Annulée par :</strong> {{sourceSwapDetails.ownerName}}</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✨ Votre échange reste disponible</h3>' +
+      '<p>Votre échange reste disponible pour de nouvelles demandes de ciblage et propositions.</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le tableau de bord</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_cancelled',
+    channel: 'sms',
+    template:
+      'La demande de ciblage pour votre {{targetSwapDetails.title}} a été annulée par {{sourceSwapDetails.ownerName}}. Votre échange reste disponible.',
+  },
+
+  {
+    type: 'targeting_cancelled',
+    channel: 'in_app',
+    template:
+      '🚫 Ciblage annulé : {{sourceSwapDetails.ownerName}} a annulé sa demande',
+  },
+
+  // Retargeting Occurred Templates
+  {
+    type: 'retargeting_occurred',
+    channel: 'email',
+    subject: 'Suivi du ciblage - demande redirigée',
+    template:
+      '<h2>🔄 Demande de ciblage redirigée</h2>' +
+      '<p>Bonjour {{targetSwapDetails.ownerName}},</p>' +
+      '<p>Un utilisateur qui ciblait votre <strong>{{previousTargetTitle}}</strong> a redirigé sa demande vers un autre échange.</p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>📋 Détails du changement</h3>' +
+      '<p><strong>Son échange :</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Ciblait auparavant :</strong> {{previousTargetTitle}}</p>' +
+      '<p><strong>Cible désormais :</strong> {{newTargetTitle}}</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✨ Statut de votre échange</h3>' +
+      '<p>Votre échange est désormais disponible pour de nouvelles demandes de ciblage.</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le tableau de bord</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'retargeting_occurred',
+    channel: 'sms',
+    template:
+      'Suivi du ciblage : un utilisateur est passé de votre {{previousTargetTitle}} à {{newTargetTitle}}. Votre échange est de nouveau disponible.',
+  },
+
+  {
+    type: 'retargeting_occurred',
+    channel: 'in_app',
+    template:
+      '🔄 Nouveau ciblage : un utilisateur est passé de votre échange à {{newTargetTitle}}',
+  },
+
+  // Targeting Removed Templates
+  {
+    type: 'targeting_removed',
+    channel: 'email',
+    subject: 'Demande de ciblage retirée - {{targetSwapDetails.title}}',
+    template:
+      '<h2>🗑️ Demande de ciblage retirée</h2>' +
+      '<p>Bonjour {{targetSwapDetails.ownerName}},</p>' +
+      '<p>Une demande de ciblage pour votre <strong>{{targetSwapDetails.title}}</strong> a été retirée.</p>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #6c757d;">' +
+      '<h3>📋 Détails de la demande retirée</h3>' +
+      '<p><strong>Son échange :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Votre échange :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✨ Statut de votre échange</h3>' +
+      '<p>Votre échange reste disponible pour de nouvelles demandes de ciblage et propositions.</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le tableau de bord</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_removed',
+    channel: 'sms',
+    template:
+      'Une demande de ciblage pour votre {{targetSwapDetails.title}} a été retirée. Votre échange reste disponible.',
+  },
+
+  {
+    type: 'targeting_removed',
+    channel: 'in_app',
+    template: '🗑️ Ciblage retiré de votre {{targetSwapDetails.title}}',
+  },
+
+  // Auction Targeting Update Templates
+  {
+    type: 'auction_targeting_update',
+    channel: 'email',
+    subject: 'Suivi des enchères - {{targetSwapTitle}} ({{updateType}})',
+    template:
+      '<h2>🏆 Suivi des enchères ciblées</h2>' +
+      '<p>Bonjour {{sourceSwapTitle}},</p>' +
+      '<p>Du nouveau sur les enchères que vous ciblez : <strong>{{targetSwapTitle}}</strong></p>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>📋 État des enchères</h3>' +
+      '<p><strong>Type de mise à jour :</strong> {{updateType}}</p>' +
+      '<p><strong>Votre échange proposé :</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Enchères ciblées :</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Propositions actuelles :</strong> {{auctionInfo.currentProposalCount}}</p>' +
+      '<p><strong>Temps restant :</strong> {{auctionInfo.timeRemaining}}</p>' +
+      '</div>' +
+      '{{#if auctionInfo.isEnding}}' +
+      '<div style="background-color: #f8d7da; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Les enchères se terminent bientôt !</h3>' +
+      '<p>Ces enchères se terminent le {{auctionInfo.endDate}}. Vérifiez que votre ciblage est toujours actif !</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #ffc107; color: black; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les enchères</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'auction_targeting_update',
+    channel: 'sms',
+    template:
+      'Suivi des enchères : {{targetSwapTitle}} - {{updateType}}. {{auctionInfo.currentProposalCount}} propositions, encore {{auctionInfo.timeRemaining}}. Voir : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'auction_targeting_update',
+    channel: 'in_app',
+    template: '🏆 Suivi des enchères : {{targetSwapTitle}} - {{updateType}}',
+  },
+
+  // Auction Targeting Ended Templates
+  {
+    type: 'auction_targeting_ended',
+    channel: 'email',
+    subject: 'Enchères terminées - {{targetSwapTitle}}',
+    template:
+      '<h2>🏁 Les enchères sont terminées</h2>' +
+      '<p>Bonjour {{sourceSwapTitle}},</p>' +
+      '<p>Les enchères que vous cibliez sont terminées : <strong>{{targetSwapTitle}}</strong></p>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #6c757d;">' +
+      '<h3>📋 Résultats finaux</h3>' +
+      '<p><strong>Votre échange proposé :</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Enchères terminées :</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Nombre final de propositions :</strong> {{auctionInfo.currentProposalCount}}</p>' +
+      '<p><strong>Date de fin :</strong> {{auctionInfo.endDate}}</p>' +
+      '</div>' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Votre échange est de nouveau disponible</h3>' +
+      '<p>Votre <strong>{{sourceSwapTitle}}</strong> est disponible pour de nouvelles demandes de ciblage.</p>' +
+      "<p>Vous pouvez parcourir d'autres échanges et cibler de nouvelles occasions !</p>" +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{browseUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Parcourir d\'autres échanges</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'auction_targeting_ended',
+    channel: 'sms',
+    template:
+      "Enchères terminées : {{targetSwapTitle}}. Votre {{sourceSwapTitle}} est de nouveau disponible. Découvrez d'autres offres : {{browseUrl}}",
+  },
+
+  {
+    type: 'auction_targeting_ended',
+    channel: 'in_app',
+    template:
+      '🏁 Enchères terminées : {{targetSwapTitle}} - votre échange est de nouveau disponible',
+  },
+
+  // Proposal from Targeting Templates
+  {
+    type: 'proposal_from_targeting',
+    channel: 'email',
+    subject:
+      'Proposition créée à partir de votre ciblage - {{targetSwapDetails.title}}',
+    template:
+      '<h2>📝 Proposition créée à partir de votre ciblage</h2>' +
+      '<p>Bonjour {{sourceSwapDetails.ownerName}},</p>' +
+      '<p>Votre demande de ciblage est devenue une proposition officielle pour <strong>{{targetSwapDetails.title}}</strong>.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Détails de la proposition</h3>' +
+      '<p><strong>Votre échange :</strong> {{sourceSwapDetails.title}} ({{sourceSwapDetails.location}})</p>' +
+      '<p><strong>Échange ciblé :</strong> {{targetSwapDetails.title}} ({{targetSwapDetails.location}})</p>' +
+      '<p><strong>Statut de la proposition :</strong> {{proposalInfo.status}}</p>' +
+      '<p><strong>Créée le :</strong> {{proposalInfo.createdAt}}</p>' +
+      '</div>' +
+      '{{#if proposalInfo.message}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💬 Message de la proposition</h3>' +
+      '<p style="font-style: italic;">« {{proposalInfo.message}} »</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Et ensuite</h3>' +
+      '<ul>' +
+      "<li>Le propriétaire de l'échange examinera votre proposition</li>" +
+      '<li>Vous serez informé de sa décision</li>' +
+      "<li>En cas d'acceptation, le processus d'échange commencera</li>" +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{proposalUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir la proposition</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_from_targeting',
+    channel: 'sms',
+    template:
+      'Proposition créée ! Votre ciblage de {{targetSwapDetails.title}} est devenu une proposition officielle. Statut : {{proposalInfo.status}}. Voir : {{proposalUrl}}',
+  },
+
+  {
+    type: 'proposal_from_targeting',
+    channel: 'in_app',
+    template:
+      '📝 Proposition créée à partir du ciblage : {{targetSwapDetails.title}}',
+  },
+
+  // Targeting Restriction Warning Templates
+  {
+    type: 'targeting_restriction_warning',
+    channel: 'email',
+    subject: 'Restriction de ciblage - {{targetSwapTitle}}',
+    template:
+      '<h2>⚠️ Avis de restriction de ciblage</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Nous souhaitons vous informer d'une restriction de ciblage concernant <strong>{{targetSwapTitle}}</strong>.</p>" +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffc107;">' +
+      '<h3>🚫 Détails de la restriction</h3>' +
+      '<p><strong>Votre échange :</strong> {{sourceSwapTitle}}</p>' +
+      '<p><strong>Échange ciblé :</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Type de restriction :</strong> {{restrictionType}}</p>' +
+      '<p><strong>Message :</strong> {{message}}</p>' +
+      '</div>' +
+      '{{#if suggestedActions}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Actions suggérées</h3>' +
+      '<ul>' +
+      '{{#each suggestedActions}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{browseUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Parcourir d\'autres échanges</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_restriction_warning',
+    channel: 'sms',
+    template:
+      'Restriction de ciblage : impossible de cibler {{targetSwapTitle}} - {{restrictionType}}. {{message}}',
+  },
+
+  {
+    type: 'targeting_restriction_warning',
+    channel: 'in_app',
+    template:
+      '⚠️ Impossible de cibler {{targetSwapTitle}} : {{restrictionType}}',
+  },
+
+  // Targeting Eligibility Changed Templates
+  {
+    type: 'targeting_eligibility_changed',
+    channel: 'email',
+    subject: "Changement d'éligibilité au ciblage - {{targetSwapTitle}}",
+    template:
+      "<h2>🔄 L'éligibilité au ciblage a changé</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>L'éligibilité au ciblage de <strong>{{targetSwapTitle}}</strong> a changé.</p>" +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2196f3;">' +
+      '<h3>📋 Détails du changement</h3>' +
+      '<p><strong>Échange ciblé :</strong> {{targetSwapTitle}}</p>' +
+      '<p><strong>Statut précédent :</strong> {{previousStatus}}</p>' +
+      '<p><strong>Nouveau statut :</strong> {{newStatus}}</p>' +
+      '<p><strong>Raison :</strong> {{reason}}</p>' +
+      '</div>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Ce que cela signifie</h3>' +
+      '<p>{{#if canStillTarget}}Vous pouvez toujours cibler cet échange avec votre demande actuelle.{{else}}Votre demande de ciblage peut être affectée par ce changement.{{/if}}</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Vérifier vos ciblages</a>' +
+      '</div>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'targeting_eligibility_changed',
+    channel: 'sms',
+    template:
+      'Éligibilité au ciblage modifiée : {{targetSwapTitle}} - {{newStatus}}. {{reason}}',
+  },
+
+  {
+    type: 'targeting_eligibility_changed',
+    channel: 'in_app',
+    template: '🔄 Éligibilité modifiée : {{targetSwapTitle}} - {{newStatus}}',
+  },
+
+  // Proposal Response Templates
+
+  // Proposal Accepted Templates
+  {
+    type: 'proposal_accepted',
+    channel: 'email',
+    subject: '🎉 Votre proposition a été acceptée !',
+    template:
+      '<h2>🎉 Excellente nouvelle ! Votre proposition a été acceptée</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Bonne nouvelle ! Votre proposition de type {{proposalType}} a été acceptée.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Détails de la proposition</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      '<p><strong>Type :</strong> {{#if (eq proposalType "booking")}}Échange de réservations{{else}}Offre en espèces{{/if}}</p>' +
+      '<p><strong>Statut :</strong> Acceptée</p>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      "<h3>🏨 Détails de l'échange</h3>" +
+      '<p><strong>Votre réservation :</strong> {{sourceSwapTitle}} ({{sourceSwapLocation}})</p>' +
+      '<p><strong>Dates :</strong> {{sourceSwapDates}}</p>' +
+      '{{#if targetSwapTitle}}' +
+      '<p><strong>Sa réservation :</strong> {{targetSwapTitle}} ({{targetSwapLocation}})</p>' +
+      '<p><strong>Dates :</strong> {{targetSwapDates}}</p>' +
+      '{{/if}}' +
+      '</div>' +
+      '{{#if cashAmount}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💰 Détails du paiement</h3>' +
+      '<p><strong>Montant :</strong> {{cashAmount}}</p>' +
+      '{{#if escrowRequired}}<p><strong>Séquestre :</strong> Les fonds seront libérés du séquestre</p>{{/if}}' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Et maintenant ?</h3>' +
+      '<ul>' +
+      "<li>{{#if role}}Vous recevrez{{else}}L'auteur de la proposition recevra{{/if}} une confirmation dès l'enregistrement sur la blockchain</li>" +
+      '{{#if cashAmount}}<li>Le traitement du paiement commence immédiatement</li>{{/if}}' +
+      '<li>Les coordonnées seront partagées pour vous organiser</li>' +
+      "<li>Vous pouvez suivre l'avancement depuis votre tableau de bord</li>" +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les détails</a>' +
+      '</div>' +
+      '<p>Félicitations pour votre proposition !</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_accepted',
+    channel: 'sms',
+    template:
+      '🎉 Bonne nouvelle ! Votre proposition de type {{proposalType}} pour {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}} a été acceptée ! {{#if cashAmount}}Paiement : {{cashAmount}}. {{/if}}Détails : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_accepted',
+    channel: 'in_app',
+    template:
+      '🎉 Proposition acceptée ! {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}{{#if cashAmount}} ({{cashAmount}}){{/if}}',
+  },
+
+  // Proposal Rejected Templates
+  {
+    type: 'proposal_rejected',
+    channel: 'email',
+    subject:
+      'Suivi de la proposition - {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}',
+    template:
+      '<h2>📬 Suivi de la proposition</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>{{#if role}}Vous avez refusé{{else}}L'autre partie a refusé{{/if}} la proposition de type {{proposalType}}{{#if targetSwapTitle}} pour {{targetSwapTitle}}{{/if}}.</p>" +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Détails de la proposition</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      '<p><strong>Type :</strong> {{#if (eq proposalType "booking")}}Échange de réservations{{else}}Offre en espèces{{/if}}</p>' +
+      '<p><strong>Statut :</strong> Refusée</p>' +
+      '{{#if rejectionReason}}<p><strong>Raison :</strong> {{rejectionReason}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      "<h3>🏨 Détails de l'échange</h3>" +
+      '<p><strong>{{#if role}}Sa{{else}}Votre{{/if}} réservation :</strong> {{sourceSwapTitle}} ({{sourceSwapLocation}})</p>' +
+      '<p><strong>Dates :</strong> {{sourceSwapDates}}</p>' +
+      '{{#if targetSwapTitle}}' +
+      '<p><strong>{{#if role}}Votre{{else}}Sa{{/if}} réservation :</strong> {{targetSwapTitle}} ({{targetSwapLocation}})</p>' +
+      '<p><strong>Dates :</strong> {{targetSwapDates}}</p>' +
+      '{{/if}}' +
+      '</div>' +
+      '{{#if cashAmount}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      "<h3>💰 Détails de l'offre en espèces</h3>" +
+      '<p><strong>Montant :</strong> {{cashAmount}}</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Votre {{#if role}}réservation{{else}}échange{{/if}} est de nouveau disponible</h3>' +
+      '<p>{{#if role}}Votre réservation reste disponible pour de nouvelles propositions.{{else}}Votre échange est de nouveau disponible pour de nouveaux ciblages et propositions.{{/if}}</p>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">{{#if role}}Voir le tableau de bord{{else}}Parcourir d\'autres échanges{{/if}}</a>' +
+      '</div>' +
+      "<p>{{#if role}}Merci pour votre réponse.{{else}}Ne vous découragez pas : bien d'autres belles occasions vous attendent !{{/if}}</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_rejected',
+    channel: 'sms',
+    template:
+      '{{#if role}}Proposition pour{{else}}Votre proposition pour{{/if}} {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}} {{#if role}}refusée par vous{{else}}a été refusée{{/if}}. {{#if rejectionReason}}Raison : {{rejectionReason}}. {{/if}}{{#if role}}Tableau de bord{{else}}Parcourir{{/if}} : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_rejected',
+    channel: 'in_app',
+    template:
+      '❌ Proposition {{#if role}}refusée par vous{{else}}refusée{{/if}} : {{#if targetSwapTitle}}{{targetSwapTitle}}{{else}}{{sourceSwapTitle}}{{/if}}{{#if rejectionReason}} - {{rejectionReason}}{{/if}}',
+  },
+
+  // Proposal Payment Completed Templates
+  {
+    type: 'proposal_payment_completed',
+    channel: 'email',
+    subject: '💰 Paiement effectué - {{amount}}',
+    template:
+      '<h2>💰 Paiement effectué avec succès !</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Bonne nouvelle ! Le paiement de votre proposition acceptée a bien été traité.</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Détails du paiement</h3>' +
+      '<p><strong>Identifiant de transaction :</strong> {{transactionId}}</p>' +
+      '<p><strong>Montant :</strong> {{amount}}</p>' +
+      '<p><strong>Statut :</strong> Effectué</p>' +
+      '<p><strong>{{#if (eq role "recipient")}}Reçu{{else}}Envoyé{{/if}} le :</strong> {{timestamp}}</p>' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Proposition concernée</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      "{{#if swapId}}<p><strong>Identifiant de l'échange :</strong> {{swapId}}</p>{{/if}}" +
+      '</div>' +
+      '{{#if (eq role "recipient")}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Ce que cela signifie</h3>' +
+      "<p>Les fonds ont bien été transférés sur votre compte. Vous pouvez maintenant vous organiser avec l'autre partie pour finaliser l'échange.</p>" +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💡 Ce que cela signifie</h3>' +
+      "<p>Votre paiement a bien été envoyé. Le destinataire a été prévenu et vous pouvez maintenant vous organiser pour finaliser l'échange.</p>" +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir la transaction</a>' +
+      '</div>' +
+      "<p>Merci d'utiliser notre système de paiement sécurisé !</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_payment_completed',
+    channel: 'sms',
+    template:
+      '💰 Paiement {{#if (eq role "recipient")}}reçu{{else}}envoyé{{/if}} : {{amount}} pour la proposition {{proposalId}}. Transaction : {{transactionId}}. Détails : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_payment_completed',
+    channel: 'in_app',
+    template:
+      '💰 Paiement {{#if (eq role "recipient")}}reçu{{else}}effectué{{/if}} : {{amount}}',
+  },
+
+  // Proposal Payment Failed Templates
+  {
+    type: 'proposal_payment_failed',
+    channel: 'email',
+    subject: '⚠️ Échec du paiement - {{amount}}',
+    template:
+      "<h2>⚠️ Le paiement n'a pas pu être traité</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Nous avons rencontré un problème lors du traitement du paiement de votre proposition. Consultez les détails ci-dessous.</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      '<h3>❌ Détails du paiement</h3>' +
+      '<p><strong>Identifiant de transaction :</strong> {{transactionId}}</p>' +
+      '<p><strong>Montant :</strong> {{amount}}</p>' +
+      '<p><strong>Statut :</strong> Échec</p>' +
+      '{{#if errorMessage}}<p><strong>Erreur :</strong> {{errorMessage}}</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Proposition concernée</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      "{{#if swapId}}<p><strong>Identifiant de l'échange :</strong> {{swapId}}</p>{{/if}}" +
+      '</div>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔄 Prochaines étapes</h3>' +
+      '<ul>' +
+      '<li>{{#if (eq role "payer")}}Vérifiez votre moyen de paiement puis réessayez{{else}}Le payeur a été prévenu afin de résoudre le problème{{/if}}</li>' +
+      '<li>Le statut de votre proposition a été rétabli pour permettre une nouvelle tentative</li>' +
+      "<li>Contactez le support si vous avez besoin d'aide</li>" +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #dc3545; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">{{#if (eq role "payer")}}Réessayer le paiement{{else}}Voir les détails{{/if}}</a>' +
+      '</div>' +
+      '<p>Veuillez nous excuser pour la gêne occasionnée. Notre équipe est là pour régler cela rapidement.</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_payment_failed',
+    channel: 'sms',
+    template:
+      '⚠️ Échec du paiement : {{amount}} pour la proposition {{proposalId}}. {{#if errorMessage}}Erreur : {{errorMessage}}. {{/if}}{{#if (eq role "payer")}}Réessayer{{else}}Détails{{/if}} : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'proposal_payment_failed',
+    channel: 'in_app',
+    template:
+      '⚠️ Échec du paiement : {{amount}}{{#if errorMessage}} - {{errorMessage}}{{/if}}',
+  },
+
+  // Swap Completion Notification Templates
+
+  // Swap Completion Success Templates
+  {
+    type: 'swap_completion_success',
+    channel: 'email',
+    subject:
+      '🎉 Échange finalisé - {{#if isBookingExchange}}Échange de réservations{{else}}Paiement en espèces{{/if}}',
+    template:
+      '<h2>🎉 Félicitations ! Votre échange est finalisé</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>{{#if (eq role "proposer")}}Votre proposition d\'{{#if isBookingExchange}}échange de réservations{{else}}offre en espèces{{/if}} a été acceptée et finalisée !{{else}}Vous avez finalisé un {{#if isBookingExchange}}échange de réservations{{else}}paiement en espèces{{/if}} !{{/if}}</p>' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #28a745;">' +
+      '<h3>✅ Récapitulatif</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      '<p><strong>Type :</strong> {{#if isBookingExchange}}Échange de réservations{{else}}Paiement en espèces{{/if}}</p>' +
+      '<p><strong>Finalisé le :</strong> {{completionTimestamp}}</p>' +
+      '<p><strong>Échanges finalisés :</strong> {{totalSwapsCompleted}}</p>' +
+      '<p><strong>Réservations mises à jour :</strong> {{totalBookingsUpdated}}</p>' +
+      '{{#if ownershipTransfersCount}}<p><strong>Transferts de propriété :</strong> {{ownershipTransfersCount}}</p>{{/if}}' +
+      '{{#if hasBlockchainRecord}}<p><strong>Enregistrement blockchain :</strong> ✅ Créé</p>{{/if}}' +
+      '</div>' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🏨 {{#if (eq role "proposer")}}Votre offre{{else}}Réservation d\'origine{{/if}}</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Lieu :</strong> {{sourceSwapDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{sourceSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{sourceSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{sourceSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{sourceSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{#if targetSwapDetails}}' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🎯 {{#if (eq role "proposer")}}Sa réservation{{else}}Réservation ciblée{{/if}}</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📍 Lieu :</strong> {{targetSwapDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{targetSwapDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{targetSwapDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{targetSwapDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{targetSwapDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if cashOffer}}' +
+      '<div style="background-color: #e8f5e8; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>💰 Détails du paiement en espèces</h3>' +
+      '<p><strong>Montant :</strong> {{cashOffer.amount}} {{cashOffer.currency}}</p>' +
+      '<p><strong>Statut :</strong> {{#if (eq role "proposer")}}Paiement envoyé{{else}}Paiement reçu{{/if}}</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if blockchainTransaction}}' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔗 Enregistrement blockchain</h3>' +
+      '<p><strong>Identifiant de transaction :</strong> {{blockchainTransaction.transactionId}}</p>' +
+      '{{#if blockchainTransaction.consensusTimestamp}}<p><strong>Horodatage de consensus :</strong> {{blockchainTransaction.consensusTimestamp}}</p>{{/if}}' +
+      '<p>La finalisation de votre échange est enregistrée de façon permanente sur la blockchain, pour plus de sécurité et de transparence.</p>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Et maintenant ?</h3>' +
+      '<ul>' +
+      '{{#if isBookingExchange}}' +
+      '<li>Les deux réservations ont été mises à jour avec leurs nouveaux propriétaires</li>' +
+      '<li>Vous recevrez des notifications distinctes pour les transferts de propriété</li>' +
+      '<li>Les coordonnées seront partagées pour vous organiser</li>' +
+      '{{else}}' +
+      '<li>Le statut de votre réservation est passé à « échangée »</li>' +
+      '<li>Le paiement est entièrement traité</li>' +
+      '{{/if}}' +
+      '<li>Tous les détails sont disponibles dans votre tableau de bord</li>' +
+      '<li>Évaluez votre échange (facultatif)</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir tous les détails</a>' +
+      '</div>' +
+      '<p>{{#if (eq role "proposer")}}Merci d\'utiliser notre plateforme ! Nous espérons que votre nouvelle réservation vous plaira.{{else}}Félicitations pour cet échange ! Nous espérons qu\'il vous plaira.{{/if}}</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_completion_success',
+    channel: 'sms',
+    template:
+      '🎉 Échange finalisé ! {{#if isBookingExchange}}Échange de réservations{{else}}Paiement en espèces{{/if}} réussi. Échanges : {{totalSwapsCompleted}}, réservations mises à jour : {{totalBookingsUpdated}}. {{#if cashOffer}}{{cashOffer.amount}} {{cashOffer.currency}} {{#if (eq role "proposer")}}envoyés{{else}}reçus{{/if}}. {{/if}}Détails : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'swap_completion_success',
+    channel: 'in_app',
+    template:
+      '🎉 {{#if isBookingExchange}}Échange de réservations{{else}}Paiement en espèces{{/if}} finalisé ! Échanges : {{totalSwapsCompleted}}, réservations mises à jour : {{totalBookingsUpdated}}{{#if cashOffer}} ({{cashOffer.amount}} {{cashOffer.currency}}){{/if}}',
+  },
+
+  // Booking Ownership Transferred Templates
+  {
+    type: 'booking_ownership_transferred',
+    channel: 'email',
+    subject:
+      '🔄 {{#if (eq role "new_owner")}}Cette réservation est désormais à vous{{else}}Propriété de la réservation transférée{{/if}} - {{bookingDetails.title}}',
+    template:
+      '<h2>🔄 Transfert de propriété {{#if (eq role "new_owner")}}terminé : la réservation est à vous !{{else}}terminé{{/if}}</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>{{#if (eq role "new_owner")}}Bonne nouvelle ! La propriété d\'une réservation vous a été transférée dans le cadre de votre échange.{{else}}La propriété de votre réservation a bien été transférée dans le cadre de votre échange.{{/if}}</p>' +
+      '<div style="background-color: {{#if (eq role "new_owner")}}#d4edda{{else}}#e3f2fd{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid {{#if (eq role "new_owner")}}#28a745{{else}}#2196f3{{/if}};">' +
+      '<h3>🏨 Détails de {{#if (eq role "new_owner")}}votre nouvelle{{/if}} réservation</h3>' +
+      '<ul style="list-style: none; padding: 0;">' +
+      '<li><strong>📋 Titre :</strong> {{bookingDetails.title}}</li>' +
+      '<li><strong>📍 Lieu :</strong> {{bookingDetails.location}}</li>' +
+      '<li><strong>📅 Dates :</strong> {{bookingDetails.dates}}</li>' +
+      '<li><strong>🏠 Type :</strong> {{bookingDetails.accommodationType}}</li>' +
+      '<li><strong>👥 Voyageurs :</strong> {{bookingDetails.guests}}</li>' +
+      '<li><strong>💰 Valeur :</strong> {{bookingDetails.value}} $</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="background-color: #fff3cd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      "<h3>🤝 Votre partenaire d'échange</h3>" +
+      '<p><strong>Nom :</strong> {{exchangePartnerDetails.name}}</p>' +
+      '<p><strong>Sa réservation :</strong> {{exchangePartnerDetails.bookingTitle}}</p>' +
+      '<p><strong>Lieu :</strong> {{exchangePartnerDetails.bookingLocation}}</p>' +
+      '<p><strong>Dates :</strong> {{exchangePartnerDetails.bookingDates}}</p>' +
+      '</div>' +
+      '<div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Détails du transfert</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      '<p><strong>Date du transfert :</strong> {{transferredAt}}</p>' +
+      '<p><strong>{{#if (eq role "new_owner")}}Ancien propriétaire{{else}}Nouveau propriétaire{{/if}} :</strong> {{#if (eq role "new_owner")}}{{previousOwnerId}}{{else}}{{newOwnerId}}{{/if}}</p>' +
+      '</div>' +
+      '{{#if (eq role "new_owner")}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Ce que vous devez faire</h3>' +
+      '<ul>' +
+      '<li>Consultez les détails de votre nouvelle réservation dans votre tableau de bord</li>' +
+      "<li>Contactez l'établissement si nécessaire</li>" +
+      '<li>Organisez la passation avec {{exchangePartnerDetails.name}}</li>' +
+      '<li>Mettez à jour vos projets de voyage</li>' +
+      '<li>Assurez-vous de disposer de toutes les confirmations de réservation</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✅ Transfert terminé</h3>' +
+      '<ul>' +
+      '<li>{{exchangePartnerDetails.name}} est désormais propriétaire de cette réservation</li>' +
+      '<li>Vous avez reçu en retour la propriété de sa réservation</li>' +
+      '<li>Toutes les confirmations de réservation ont été mises à jour</li>' +
+      '<li>Vous pouvez organiser la passation si nécessaire</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: {{#if (eq role "new_owner")}}#28a745{{else}}#007bff{{/if}}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">{{#if (eq role "new_owner")}}Voir votre nouvelle réservation{{else}}Voir le tableau de bord{{/if}}</a>' +
+      '</div>' +
+      '<p>{{#if (eq role "new_owner")}}Félicitations pour votre nouvelle réservation ! Bon voyage.{{else}}Merci d\'avoir finalisé cet échange. Nous espérons que votre nouvelle réservation vous plaira.{{/if}}</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'booking_ownership_transferred',
+    channel: 'sms',
+    template:
+      '🔄 {{#if (eq role "new_owner")}}Réservation transférée à votre nom{{else}}Réservation transférée{{/if}} : {{bookingDetails.title}} ({{bookingDetails.location}}) {{#if (eq role "new_owner")}}de{{else}}à{{/if}} {{exchangePartnerDetails.name}}. Voir : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'booking_ownership_transferred',
+    channel: 'in_app',
+    template:
+      '🔄 {{#if (eq role "new_owner")}}Vous êtes désormais propriétaire de{{else}}Propriété transférée :{{/if}} {{bookingDetails.title}} {{#if (eq role "new_owner")}}(de {{exchangePartnerDetails.name}}){{else}}(à {{exchangePartnerDetails.name}}){{/if}}',
+  },
+
+  // Completion Validation Warning Templates
+  {
+    type: 'completion_validation_warning',
+    channel: 'email',
+    subject:
+      '⚠️ {{#if requiresManualReview}}Problèmes de validation de la finalisation{{else}}Avertissements mineurs de finalisation{{/if}} - Proposition {{proposalId}}',
+    template:
+      '<h2>⚠️ {{#if requiresManualReview}}Problèmes détectés lors de la validation de la finalisation{{else}}Avertissements mineurs lors de la validation de la finalisation{{/if}}</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>{{#if requiresManualReview}}Nous avons détecté des problèmes de validation dans la finalisation de votre échange qui nécessitent votre attention.{{else}}Votre échange a bien été finalisé, mais nous avons détecté quelques avertissements mineurs.{{/if}}</p>' +
+      '<div style="background-color: {{#if requiresManualReview}}#f8d7da{{else}}#fff3cd{{/if}}; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid {{#if requiresManualReview}}#dc3545{{else}}#ffc107{{/if}};">' +
+      '<h3>{{#if requiresManualReview}}🚨 Problèmes détectés{{else}}⚠️ Avertissements détectés{{/if}}</h3>' +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      '<p><strong>Erreurs de validation :</strong> {{errorCount}}</p>' +
+      '<p><strong>Avertissements de validation :</strong> {{warningCount}}</p>' +
+      '<p><strong>Entités incohérentes :</strong> {{inconsistentEntityCount}}</p>' +
+      '{{#if requiresManualReview}}<p><strong>Statut :</strong> Vérification manuelle requise</p>{{else}}<p><strong>Statut :</strong> Finalisé avec avertissements</p>{{/if}}' +
+      '</div>' +
+      '{{#if validationErrors}}' +
+      '<div style="background-color: #f8d7da; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>❌ Erreurs de validation</h3>' +
+      '<ul>' +
+      '{{#each validationErrors}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if validationWarnings}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⚠️ Avertissements de validation</h3>' +
+      '<ul>' +
+      '{{#each validationWarnings}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if correctionAttempts}}' +
+      '<div style="background-color: #e3f2fd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🔧 Tentatives de correction automatique</h3>' +
+      '<p><strong>Tentatives :</strong> {{correctionAttemptCount}}</p>' +
+      '<p><strong>Corrections réussies :</strong> {{successfulCorrections}}</p>' +
+      '<ul>' +
+      '{{#each correctionAttempts}}' +
+      '<li>{{entityType}} {{entityId}} : {{#if correctionApplied}}✅ Corrigé{{else}}❌ Échec{{#if correctionError}} - {{correctionError}}{{/if}}{{/if}}</li>' +
+      '{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if requiresManualReview}}' +
+      '<div style="background-color: #d1ecf1; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🛠️ Prochaines étapes</h3>' +
+      '<ul>' +
+      '<li>Notre équipe support a été prévenue de ces problèmes</li>' +
+      '<li>Nous allons examiner et corriger les problèmes de validation</li>' +
+      '<li>Nous vous contacterons si une action de votre part est nécessaire</li>' +
+      '<li>Le statut de votre échange sera mis à jour une fois le problème résolu</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✅ Statut de la finalisation</h3>' +
+      "<p>Malgré ces avertissements, votre échange a bien été finalisé. Ils sont mineurs et n'affectent pas la validité de l'échange.</p>" +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: {{#if requiresManualReview}}#dc3545{{else}}#ffc107{{/if}}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les détails</a>' +
+      '{{#if requiresManualReview}}' +
+      '<a href="/support" style="background-color: #6c757d; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin-left: 10px;">Contacter le support</a>' +
+      '{{/if}}' +
+      '</div>' +
+      '<p>{{#if requiresManualReview}}Veuillez nous excuser pour la gêne occasionnée ; nous réglerons ces problèmes rapidement.{{else}}Merci de votre patience. Votre échange est finalisé et valide.{{/if}}</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'completion_validation_warning',
+    channel: 'sms',
+    template:
+      '⚠️ {{#if requiresManualReview}}Problèmes de finalisation{{else}}Avertissements mineurs de finalisation{{/if}} pour la proposition {{proposalId}}. Erreurs : {{errorCount}}, avertissements : {{warningCount}}. {{#if requiresManualReview}}Le support vous contactera.{{else}}Échange finalisé avec succès.{{/if}} Détails : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'completion_validation_warning',
+    channel: 'in_app',
+    template:
+      '⚠️ {{#if requiresManualReview}}Problèmes de validation de la finalisation{{else}}Avertissements mineurs de finalisation{{/if}} : erreurs : {{errorCount}}, avertissements : {{warningCount}}{{#if requiresManualReview}} - vérification manuelle requise{{/if}}',
+  },
+
+  // Swap Completion Failed Templates
+  {
+    type: 'swap_completion_failed',
+    channel: 'email',
+    subject:
+      "❌ Échec de la finalisation de l'échange - Proposition {{proposalId}}",
+    template:
+      "<h2>❌ Échec de la finalisation de l'échange</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Nous avons rencontré un problème lors de la finalisation de votre échange. {{#if rollbackSuccessful}}Toutes les modifications ont été annulées en toute sécurité.{{else}}Certaines modifications peuvent nécessiter une intervention manuelle.{{/if}}</p>' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #dc3545;">' +
+      "<h3>❌ Détails de l'échec</h3>" +
+      '<p><strong>Identifiant de la proposition :</strong> {{proposalId}}</p>' +
+      "<p><strong>Message d'erreur :</strong> {{errorMessage}}</p>" +
+      "{{#if errorCode}}<p><strong>Code d'erreur :</strong> {{errorCode}}</p>{{/if}}" +
+      '<p><strong>Annulation :</strong> {{#if rollbackSuccessful}}✅ Réussie{{else}}❌ Échec{{/if}}</p>' +
+      '{{#if affectedEntities}}<p><strong>Entités concernées :</strong> {{affectedEntityCount}}</p>{{/if}}' +
+      '</div>' +
+      '{{#if affectedEntities}}' +
+      '<div style="background-color: #fff3cd; padding: 15px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>📋 Éléments concernés</h3>' +
+      '<ul>' +
+      '{{#each affectedEntities}}<li>{{this}}</li>{{/each}}' +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '{{#if rollbackSuccessful}}' +
+      '<div style="background-color: #d4edda; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>✅ Rétablissement du système</h3>' +
+      "<p>Toutes les modifications ont été annulées. Vos réservations et échanges sont revenus à leur état d'avant la tentative.</p>" +
+      '<ul>' +
+      "<li>Aucune donnée n'a été perdue ni corrompue</li>" +
+      '<li>Votre proposition reste dans son état précédent</li>' +
+      '<li>Vous pouvez relancer la finalisation</li>' +
+      '<li>Tous les éléments liés ont été restaurés</li>' +
+      '</ul>' +
+      '</div>' +
+      '{{else}}' +
+      '<div style="background-color: #f8d7da; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>🚨 Intervention manuelle requise</h3>' +
+      "<p>L'annulation a échoué. Notre équipe support a été prévenue automatiquement et va régler ce problème rapidement.</p>" +
+      '<ul>' +
+      '<li>Ne relancez pas la finalisation</li>' +
+      '<li>Notre équipe vous contactera sous 24 heures</li>' +
+      "<li>L'intégrité de vos données est notre priorité</li>" +
+      "<li>Nous vous tiendrons informé de l'avancement</li>" +
+      '</ul>' +
+      '</div>' +
+      '{{/if}}' +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px;">' +
+      '<h3>⏰ Et maintenant ?</h3>' +
+      '<ul>' +
+      '{{#if rollbackSuccessful}}' +
+      "<li>Vous pouvez consulter l'erreur et réessayer</li>" +
+      '<li>Vérifiez si certaines informations doivent être mises à jour</li>' +
+      '<li>Contactez le support si le problème persiste</li>' +
+      '{{else}}' +
+      '<li>Notre équipe support va analyser le problème</li>' +
+      '<li>Nous vous contacterons avec des nouvelles et les prochaines étapes</li>' +
+      '<li>Ne modifiez pas les réservations concernées</li>' +
+      '{{/if}}' +
+      '<li>Suivez le statut depuis votre tableau de bord</li>' +
+      '</ul>' +
+      '</div>' +
+      '<div style="text-align: center; margin: 30px 0;">' +
+      '<a href="{{dashboardUrl}}" style="background-color: #007bff; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le tableau de bord</a>' +
+      '{{#if rollbackSuccessful}}' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin-left: 10px;">Relancer la finalisation</a>' +
+      '{{/if}}' +
+      '{{#if requiresManualIntervention}}' +
+      '<a href="/support" style="background-color: #dc3545; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin-left: 10px;">Contacter le support</a>' +
+      '{{/if}}' +
+      '</div>' +
+      '<p>{{#if rollbackSuccessful}}Veuillez nous excuser pour la gêne occasionnée. Réessayez ou contactez le support si le problème persiste.{{else}}Nous sommes sincèrement désolés pour ce problème et faisons le nécessaire pour le résoudre au plus vite.{{/if}}</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_completion_failed',
+    channel: 'sms',
+    template:
+      '❌ Échec de la finalisation pour la proposition {{proposalId}}. {{#if rollbackSuccessful}}Modifications annulées. Vous pouvez réessayer.{{else}}Intervention manuelle requise. Le support vous contactera.{{/if}} Erreur : {{errorMessage}}. Tableau de bord : {{dashboardUrl}}',
+  },
+
+  {
+    type: 'swap_completion_failed',
+    channel: 'in_app',
+    template:
+      '❌ Échec de la finalisation : {{errorMessage}}{{#if rollbackSuccessful}} - modifications annulées, vous pouvez réessayer{{else}} - le support vous contactera{{/if}}',
+  },
+
+  // Multi-party Swap Cycle Templates
+
+  {
+    type: 'swap_cycle_proposed',
+    channel: 'email',
+    subject:
+      '🔁 Un échange à {{cycleLength}} a été trouvé pour {{givesBookingTitle}}',
+    template:
+      "<h2>🔁 Nouvelle occasion d'échange à plusieurs</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Nous avons trouvé un échange à {{cycleLength}} dans lequel chacun reçoit une réservation qu'il accepterait.</p>" +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #2196f3;">' +
+      '<p><strong>Vous cédez :</strong> {{givesBookingTitle}}</p>' +
+      '<p><strong>Vous recevez :</strong> {{receivesBookingTitle}}</p>' +
+      '<p><strong>Compatibilité :</strong> {{compatibilityScore}} %</p>' +
+      '<p><strong>Répondez avant le :</strong> {{expiresAt}}</p>' +
+      '</div>' +
+      "<p>L'échange n'a lieu que si chaque participant accepte sa part.</p>" +
+      '<a href="{{cycleUrl}}" style="background-color: #2196f3; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Examiner l\'échange</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_cycle_proposed',
+    channel: 'in_app',
+    template:
+      '🔁 Échange à {{cycleLength}} trouvé : vous cédez {{givesBookingTitle}} et recevez {{receivesBookingTitle}}',
+  },
+
+  {
+    type: 'swap_cycle_leg_accepted',
+    channel: 'in_app',
+    template:
+      "✅ {{acceptedCount}} participants sur {{cycleLength}} ont accepté l'échange à plusieurs",
+  },
+
+  {
+    type: 'swap_cycle_declined',
+    channel: 'email',
+    subject: '🚫 Échange à plusieurs annulé',
+    template:
+      '<h2>🚫 Échange à plusieurs annulé</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>L'un des participants a refusé l'échange à {{cycleLength}}, il n'aura donc pas lieu. Votre échange reste ouvert à d'autres offres.</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_cycle_declined',
+    channel: 'in_app',
+    template:
+      '🚫 Un autre participant a refusé un échange à {{cycleLength}}. Votre échange reste ouvert.',
+  },
+
+  {
+    type: 'swap_cycle_completed',
+    channel: 'email',
+    subject:
+      '🎉 Échange à plusieurs finalisé : {{receivesBookingTitle}} est désormais à vous',
+    template:
+      '<h2>🎉 Échange à plusieurs finalisé</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Les {{cycleLength}} participants ont accepté et l'échange est finalisé.</p>" +
+      '<p><strong>Vous avez reçu :</strong> {{receivesBookingTitle}}</p>' +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les détails</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'swap_cycle_completed',
+    channel: 'in_app',
+    template:
+      '🎉 Échange à {{cycleLength}} finalisé ! {{receivesBookingTitle}} est désormais à vous',
+  },
+
+  // Proposal Negotiation Templates
+
+  {
+    type: 'proposal_countered',
+    channel: 'email',
+    subject: '↔️ Contre-offre reçue pour {{bookingTitle}}',
+    template:
+      '<h2>↔️ Nouvelle contre-offre</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Vous avez reçu une contre-offre (version {{version}}) sur la proposition pour {{bookingTitle}}.</p>' +
+      '<div style="background-color: #fff8e1; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #ffb300;">' +
+      '{{#if cashOfferAmount}}<p><strong>Offre en espèces :</strong> {{cashOfferAmount}}</p>{{/if}}' +
+      '{{#if additionalPayment}}<p><strong>Paiement supplémentaire :</strong> {{additionalPayment}}</p>{{/if}}' +
+      '{{#if conditions}}<p><strong>Conditions :</strong> {{conditions}}</p>{{/if}}' +
+      '<p><strong>Répondez avant le :</strong> {{expiresAt}}</p>' +
+      '{{#if message}}<p><strong>Message :</strong> {{message}}</p>{{/if}}' +
+      '</div>' +
+      "<p>Vous pouvez l'accepter, la refuser ou faire une nouvelle contre-offre.</p>" +
+      '<a href="{{negotiationUrl}}" style="background-color: #ffb300; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Examiner la contre-offre</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_countered',
+    channel: 'in_app',
+    template:
+      '↔️ Nouvelle contre-offre (version {{version}}) pour {{bookingTitle}}',
+  },
+
+  {
+    type: 'counter_offer_accepted',
+    channel: 'email',
+    subject: '✅ Votre contre-offre pour {{bookingTitle}} a été acceptée',
+    template:
+      '<h2>✅ Contre-offre acceptée</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Votre contre-offre (version {{version}}) pour {{bookingTitle}} a été acceptée. L'échange est en cours de finalisation aux conditions convenues.</p>" +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir les détails</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'counter_offer_accepted',
+    channel: 'in_app',
+    template: '✅ Votre contre-offre pour {{bookingTitle}} a été acceptée',
+  },
+
+  {
+    type: 'counter_offer_rejected',
+    channel: 'email',
+    subject: '❌ Votre contre-offre pour {{bookingTitle}} a été refusée',
+    template:
+      '<h2>❌ Contre-offre refusée</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Votre contre-offre (version {{version}}) pour {{bookingTitle}} a été refusée. La proposition initiale reste en attente.</p>' +
+      '{{#if reason}}<p><strong>Raison :</strong> {{reason}}</p>{{/if}}' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'counter_offer_rejected',
+    channel: 'in_app',
+    template: '❌ Votre contre-offre pour {{bookingTitle}} a été refusée',
+  },
+
+  {
+    type: 'proposal_auto_accepted',
+    channel: 'email',
+    subject:
+      '⚡ Une proposition pour {{bookingTitle}} a été acceptée automatiquement',
+    template:
+      '<h2>⚡ Proposition acceptée automatiquement</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Une proposition pour {{bookingTitle}} correspondait à vos critères d'acceptation automatique et a été acceptée en votre nom.</p>" +
+      '<p><strong>Pourquoi elle correspondait :</strong> {{reason}}</p>' +
+      "<p>Vous pouvez modifier ou désactiver l'acceptation automatique dans les paramètres de votre profil.</p>" +
+      '<a href="{{dashboardUrl}}" style="background-color: #28a745; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir l\'échange</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'proposal_auto_accepted',
+    channel: 'in_app',
+    template:
+      '⚡ Une proposition pour {{bookingTitle}} a été acceptée automatiquement : {{reason}}',
+  },
+
+  // Saved Search Alert Templates
+
+  {
+    type: 'saved_search_match',
+    channel: 'email',
+    subject: '🔎 Nouveau résultat pour « {{searchName}} » : {{bookingTitle}}',
+    template:
+      '<h2>🔎 Une nouvelle annonce correspond à votre recherche enregistrée</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Une annonce correspondant à votre recherche enregistrée <strong>{{searchName}}</strong> vient d'être publiée.</p>" +
+      '<div style="background-color: #e3f2fd; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #1976d2;">' +
+      '<p><strong>{{bookingTitle}}</strong></p>' +
+      '<p><strong>Lieu :</strong> {{bookingLocation}}</p>' +
+      '<p><strong>Dates :</strong> {{checkIn}} – {{checkOut}}</p>' +
+      "<p><strong>Valeur d'échange :</strong> {{swapValue}}</p>" +
+      '</div>' +
+      '<a href="{{bookingUrl}}" style="background-color: #1976d2; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir l\'annonce</a>' +
+      '<p style="font-size: 12px; color: #666;">Vous pouvez modifier ou désactiver les alertes de cette recherche depuis la page de recherche.</p>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'saved_search_match',
+    channel: 'sms',
+    template:
+      'Nouveau résultat pour « {{searchName}} » : {{bookingTitle}} à {{bookingLocation}}. {{bookingUrl}}',
+  },
+
+  {
+    type: 'saved_search_match',
+    channel: 'in_app',
+    template:
+      '🔎 Nouveau résultat pour « {{searchName}} » : {{bookingTitle}} à {{bookingLocation}}',
+  },
+
+  {
+    type: 'saved_search_digest',
+    channel: 'email',
+    subject:
+      '🔎 Nouvelles annonces correspondant à vos recherches enregistrées : {{matchCount}}',
+    template:
+      '<h2>🔎 Votre récapitulatif quotidien des recherches enregistrées</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Depuis le dernier récapitulatif, {{matchCount}} nouvelles annonces correspondent à vos recherches enregistrées.</p>' +
+      '<ul>{{#each matchSummaries}}<li>{{this}}</li>{{/each}}</ul>' +
+      '<a href="{{browseUrl}}" style="background-color: #1976d2; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Parcourir les annonces</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'saved_search_digest',
+    channel: 'sms',
+    template:
+      'Nouvelles annonces correspondant à vos recherches enregistrées : {{matchCount}}. {{browseUrl}}',
+  },
+
+  {
+    type: 'saved_search_digest',
+    channel: 'in_app',
+    template:
+      '🔎 Nouvelles annonces correspondant à vos recherches enregistrées : {{matchCount}}',
+  },
+
+  // Dispute Templates
+
+  {
+    type: 'dispute_opened',
+    channel: 'email',
+    subject: '⚖️ Un litige a été ouvert concernant votre échange',
+    template:
+      '<h2>⚖️ Litige ouvert</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Un litige concernant l'échange de <strong>{{bookingTitle}}</strong> a été ouvert et notre équipe support va l'examiner.</p>" +
+      '<div style="background-color: #fff3e0; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #f57c00;">' +
+      '<p><strong>Motif :</strong> {{disputeType}}</p>' +
+      '<p>{{description}}</p>' +
+      '</div>' +
+      "<p>Les fonds bloqués pour cet échange restent sous séquestre jusqu'à la résolution du litige. Vous pouvez ajouter des preuves depuis la page du litige.</p>" +
+      '<a href="{{disputeUrl}}" style="background-color: #f57c00; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le litige</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'dispute_opened',
+    channel: 'in_app',
+    template:
+      "⚖️ Un litige a été ouvert concernant l'échange de {{bookingTitle}}",
+  },
+
+  {
+    type: 'dispute_status_changed',
+    channel: 'email',
+    subject: '⚖️ Nouveau statut de votre litige : {{statusLabel}}',
+    template:
+      '<h2>⚖️ Suivi du litige</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Le litige concernant l'échange de <strong>{{bookingTitle}}</strong> a désormais le statut <strong>{{statusLabel}}</strong>.</p>" +
+      '{{#if note}}<p>{{note}}</p>{{/if}}' +
+      '{{#if awaitingYou}}<p><strong>Le support attend votre réponse.</strong> Ajoutez votre réponse ou vos preuves avant le {{respondBy}}.</p>{{/if}}' +
+      '<a href="{{disputeUrl}}" style="background-color: #f57c00; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le litige</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'dispute_status_changed',
+    channel: 'in_app',
+    template:
+      '⚖️ Nouveau statut de votre litige concernant {{bookingTitle}} : {{statusLabel}}',
+  },
+
+  {
+    type: 'dispute_resolved',
+    channel: 'email',
+    subject: '⚖️ Votre litige a été résolu',
+    template:
+      '<h2>⚖️ Litige résolu</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Le litige concernant l'échange de <strong>{{bookingTitle}}</strong> a été résolu.</p>" +
+      '<div style="background-color: #e8f5e9; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #388e3c;">' +
+      '<p><strong>Issue :</strong> {{outcome}}</p>' +
+      '{{#if notes}}<p>{{notes}}</p>{{/if}}' +
+      '</div>' +
+      '<a href="{{disputeUrl}}" style="background-color: #388e3c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir le litige</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'dispute_resolved',
+    channel: 'in_app',
+    template:
+      '⚖️ Votre litige concernant {{bookingTitle}} a été résolu : {{outcome}}',
+  },
+
+  // Booking Verification Templates
+
+  {
+    type: 'booking_verified',
+    channel: 'email',
+    subject: '✅ Votre réservation {{bookingTitle}} est vérifiée',
+    template:
+      '<h2>✅ Réservation vérifiée</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>Votre réservation <strong>{{bookingTitle}}</strong> a été vérifiée.</p>' +
+      '{{#if notes}}<p>{{notes}}</p>{{/if}}' +
+      '<p>Vous pouvez désormais la mettre aux enchères ou accepter des offres en espèces.</p>' +
+      '<a href="{{bookingUrl}}" style="background-color: #388e3c; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir la réservation</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'booking_verified',
+    channel: 'in_app',
+    template: '✅ Votre réservation {{bookingTitle}} est vérifiée',
+  },
+
+  {
+    type: 'booking_verification_rejected',
+    channel: 'email',
+    subject: "❌ Nous n'avons pas pu vérifier {{bookingTitle}}",
+    template:
+      '<h2>❌ Échec de la vérification de la réservation</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Nous n'avons pas pu vérifier votre réservation <strong>{{bookingTitle}}</strong>.</p>" +
+      '<div style="background-color: #ffebee; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #d32f2f;">' +
+      '<p>{{reason}}</p>' +
+      '</div>' +
+      "<p>Vérifiez le numéro de confirmation et les dates de l'annonce, puis envoyez de nouveau votre confirmation.</p>" +
+      '<a href="{{bookingUrl}}" style="background-color: #d32f2f; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Voir la réservation</a>' +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'booking_verification_rejected',
+    channel: 'in_app',
+    template:
+      "❌ Nous n'avons pas pu vérifier votre réservation {{bookingTitle}}",
+  },
+
+  {
+    type: 'booking_verification_review',
+    channel: 'email',
+    subject: "🔍 Votre réservation {{bookingTitle}} est en cours d'examen",
+    template:
+      "<h2>🔍 Réservation en cours d'examen</h2>" +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Nous n'avons pas pu vérifier <strong>{{bookingTitle}}</strong> automatiquement ; notre équipe va donc examiner votre confirmation manuellement.</p>" +
+      "<p>Nous vous préviendrons dès que l'examen sera terminé.</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'booking_verification_review',
+    channel: 'in_app',
+    template: "🔍 Votre réservation {{bookingTitle}} est en cours d'examen",
+  },
+
+  // Direct Message Templates
+
+  {
+    type: 'message_received',
+    channel: 'in_app',
+    template:
+      '💬 {{senderName}} vous a envoyé un message à propos de {{bookingTitle}}',
+  },
+
+  // Webhook Templates
+
+  {
+    type: 'webhook_endpoint_disabled',
+    channel: 'email',
+    subject: '⚠️ Votre endpoint de webhook a été désactivé',
+    template:
+      '<h2>⚠️ Endpoint de webhook désactivé</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      "<p>Nous avons cessé d'envoyer des événements à <strong>{{endpointUrl}}</strong> car les livraisons échouaient de façon répétée.</p>" +
+      '<div style="background-color: #fff3e0; padding: 20px; margin: 20px 0; border-radius: 8px; border-left: 4px solid #f57c00;">' +
+      '<p>{{reason}}</p>' +
+      '</div>' +
+      "<p>Une fois l'endpoint de nouveau joignable, réactivez-le et renvoyez depuis le journal de livraison les événements manqués.</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'webhook_endpoint_disabled',
+    channel: 'in_app',
+    template:
+      "⚠️ L'endpoint de webhook {{endpointUrl}} a été désactivé après plusieurs échecs de livraison",
+  },
+
+  // Data Export Templates
+
+  {
+    type: 'data_export_ready',
+    channel: 'email',
+    subject: '📦 Votre export de données est prêt',
+    template:
+      '<h2>📦 Votre export de données est prêt</h2>' +
+      '<p>Bonjour {{recipientName}},</p>' +
+      '<p>La copie de vos données Booking Swap que vous avez demandée est prête. Téléchargez-la depuis la rubrique confidentialité des paramètres de votre compte.</p>' +
+      "<p>Le téléchargement est disponible jusqu'au <strong>{{expiresAt}}</strong>. Passé ce délai, demandez un nouvel export.</p>" +
+      "<p>Si vous n'êtes pas à l'origine de cette demande, changez votre mot de passe et déconnectez vos autres appareils.</p>" +
+      "<p>Cordialement,<br>L'équipe Booking Swap</p>",
+  },
+
+  {
+    type: 'data_export_ready',
+    channel: 'in_app',
+    template:
+      "📦 Votre export de données est téléchargeable jusqu'au {{expiresAt}}",
+  },
+];
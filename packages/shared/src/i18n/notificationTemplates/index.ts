@@ -0,0 +1,81 @@
+import type {
+  NotificationChannel,
+  NotificationTemplate,
+  NotificationType,
+} from '../../types/notification.js';
+import { DEFAULT_LOCALE, Locale } from '../locale.js';
+import { en } from './en.js';
+import { es } from './es.js';
+import { fr } from './fr.js';
+
+/**
+ * A translated template. The variables a template fills in are the same in
+ * every language, so only the English catalog lists them.
+ */
+export type LocalizedNotificationTemplate = Omit<
+  NotificationTemplate,
+  'variables'
+>;
+
+export const NOTIFICATION_TEMPLATES: Record<
+  Locale,
+  LocalizedNotificationTemplate[]
+> = { en, es, fr };
+
+export const notificationTemplateKey = (
+  type: NotificationType,
+  channel: NotificationChannel
+): string => `${type}_${channel}`;
+
+const byKey = <T extends LocalizedNotificationTemplate>(
+  templates: T[]
+): Map<string, T> =>
+  new Map(
+    templates.map(template => [
+      notificationTemplateKey(template.type, template.channel),
+      template,
+    ])
+  );
+
+const reference = byKey(en);
+
+const translated: Record<Locale, Map<string, LocalizedNotificationTemplate>> = {
+  en: reference,
+  es: byKey(es),
+  fr: byKey(fr),
+};
+
+/**
+ * Looks up a template in the recipient's language, falling back to English
+ * when it has not been translated yet
+ */
+export const getNotificationTemplate = (
+  type: NotificationType,
+  channel: NotificationChannel,
+  locale: Locale = DEFAULT_LOCALE
+): NotificationTemplate | undefined => {
+  const key = notificationTemplateKey(type, channel);
+  const english = reference.get(key);
+  const localized = translated[locale].get(key);
+
+  if (!english || !localized || locale === DEFAULT_LOCALE) {
+    return english;
+  }
+
+  return {
+    ...english,
+    subject: localized.subject ?? english.subject,
+    template: localized.template,
+  };
+};
+
+/**
+ * Every template for a locale, English ones filling the gaps
+ */
+export const getNotificationTemplates = (
+  locale: Locale = DEFAULT_LOCALE
+): NotificationTemplate[] =>
+  en.map(
+    template =>
+      getNotificationTemplate(template.type, template.channel, locale)!
+  );
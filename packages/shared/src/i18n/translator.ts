@@ -0,0 +1,44 @@
+import { en, MessageKey } from './catalogs/en.js';
+import { es } from './catalogs/es.js';
+import { fr } from './catalogs/fr.js';
+import { DEFAULT_LOCALE, Locale } from './locale.js';
+import { formatMessage, MessageValues } from './messageFormat.js';
+
+export type { MessageKey };
+
+/**
+ * A translated catalog. Keys it leaves out fall back to English, and the
+ * missing-key report lists them.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+export const MESSAGE_CATALOGS: Record<Locale, MessageCatalog> = { en, es, fr };
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export interface TranslatorOptions {
+  // Called when a key has no translation for the locale, before falling back
+  onMissingKey?: (key: MessageKey, locale: Locale) => void;
+}
+
+/**
+ * Creates a translate function bound to a locale. Lookups fall back to the
+ * English catalog and then to the key itself, so a gap never breaks a page.
+ */
+export const createTranslator = (
+  locale: Locale,
+  options: TranslatorOptions = {}
+): Translate => {
+  const catalog = MESSAGE_CATALOGS[locale];
+
+  return (key, values) => {
+    let pattern = catalog[key];
+    if (pattern === undefined) {
+      if (locale !== DEFAULT_LOCALE) {
+        options.onMissingKey?.(key, locale);
+      }
+      pattern = (en as Record<string, string>)[key];
+    }
+    return pattern === undefined ? key : formatMessage(locale, pattern, values);
+  };
+};
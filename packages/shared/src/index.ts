@@ -3,3 +3,4 @@ export * from './types/index.js';
 export * from './validation/index.js';
 export * from './utils/index.js';
 export * from './config/booking-types.js';
+export * from './i18n/index.js';
@@ -0,0 +1,81 @@
+// Caps how many active keys each user can hold
+export const MAX_API_KEYS_PER_USER = 10;
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 1000;
+
+/**
+ * read:bookings: read booking listings and the user's own bookings
+ * write:swaps: create, update and respond to swaps and proposals
+ * read:payments: read payment and escrow status
+ */
+export const API_KEY_SCOPES = [
+  'read:bookings',
+  'write:swaps',
+  'read:payments',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  // First characters of the key, shown so users can tell their keys apart
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  // Requests allowed per minute before the key gets 429 responses
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  // Set on a rotated key; it keeps working until expiresAt
+  replacedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Only returned when a key is created or rotated; the key is never stored
+export interface ApiKeyWithSecret extends ApiKey {
+  key: string;
+}
+
+/**
+ * One request made with a key that changed data, kept as its audit trail
+ */
+export interface ApiKeyUsage {
+  id: string;
+  apiKeyId: string;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+  requestId?: string;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  expiresAt?: Date;
+}
+
+export enum ApiKeyErrorCodes {
+  API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+  API_KEY_LIMIT_REACHED = 'API_KEY_LIMIT_REACHED',
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+  INVALID_API_KEY_REQUEST = 'INVALID_API_KEY_REQUEST',
+}
+
+export class ApiKeyError extends Error {
+  constructor(
+    public code: ApiKeyErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
@@ -0,0 +1,52 @@
+// Default and upper bound for how many proposals a user's criteria may accept per day
+export const DEFAULT_AUTO_ACCEPT_DAILY_LIMIT = 3;
+export const MAX_AUTO_ACCEPT_DAILY_LIMIT = 20;
+
+/**
+ * accepted: the proposal was accepted on the owner's behalf
+ * would_accept: dry run, the criteria matched but nothing was changed
+ * skipped: a rule did not match, the proposal is left for the owner
+ * deferred: only the daily limit stood in the way, evaluated again at retryAt
+ * failed: the criteria matched but the acceptance itself failed
+ */
+export type AutoAcceptOutcome =
+  | 'accepted'
+  | 'would_accept'
+  | 'skipped'
+  | 'deferred'
+  | 'failed';
+
+export type AutoAcceptRule =
+  | 'booking_type'
+  | 'location'
+  | 'additional_payment'
+  | 'compatibility'
+  | 'reputation'
+  | 'daily_limit';
+
+export interface AutoAcceptRuleResult {
+  rule: AutoAcceptRule;
+  passed: boolean;
+  // Human readable explanation, e.g. "Paris, France matches preferred location Paris"
+  detail: string;
+}
+
+export interface AutoAcceptEvaluation {
+  id: string;
+  proposalId: string;
+  swapId: string;
+  ownerId: string;
+  proposerId: string;
+  outcome: AutoAcceptOutcome;
+  rules: AutoAcceptRuleResult[];
+  compatibilityScore?: number;
+  proposerReputation?: number;
+  error?: string;
+  retryAt?: Date;
+  createdAt: Date;
+}
+
+export interface AutoAcceptEvaluationFilters {
+  outcome?: AutoAcceptOutcome;
+  limit?: number;
+}
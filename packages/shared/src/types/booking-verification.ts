@@ -0,0 +1,119 @@
+/**
+ * Outcome of a verification attempt. Attempts the system cannot decide on
+ * wait in the admin review queue as needs_review.
+ */
+export type BookingVerificationAttemptStatus =
+  | 'verified'
+  | 'rejected'
+  | 'needs_review';
+
+export type VerificationCheckName =
+  | 'fields'
+  | 'provider'
+  | 'confirmation_number'
+  | 'dates'
+  | 'guest_name'
+  | 'provider_name';
+
+export type VerificationCheckOutcome = 'pass' | 'fail' | 'inconclusive';
+
+export interface VerificationCheck {
+  name: VerificationCheckName;
+  outcome: VerificationCheckOutcome;
+  detail?: string;
+  // Document id or provider verifier the check was made against
+  source?: string;
+}
+
+/**
+ * What an extractor found in a confirmation document
+ */
+export interface ExtractedBookingDetails {
+  confirmationNumbers: string[];
+  // Calendar dates as YYYY-MM-DD
+  dates: string[];
+  names: string[];
+  // Full text, kept so checks can be re-run and read by reviewers
+  text: string;
+}
+
+export interface BookingVerificationDocument {
+  id: string;
+  bookingId: string;
+  uploadedBy: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  // Missing when no extractor handles the file type
+  extractor?: string;
+  extracted?: ExtractedBookingDetails;
+  createdAt: Date;
+}
+
+export interface BookingVerificationAttempt {
+  id: string;
+  bookingId: string;
+  userId: string;
+  status: BookingVerificationAttemptStatus;
+  checks: VerificationCheck[];
+  providerVerifier?: string;
+  // Why the attempt was sent to review
+  reviewReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BookingVerificationDetails {
+  attempt: BookingVerificationAttempt;
+  documents: BookingVerificationDocument[];
+}
+
+export interface ReviewBookingVerificationRequest {
+  approve: boolean;
+  notes: string;
+}
+
+export interface BookingVerificationFilters {
+  status?: BookingVerificationAttemptStatus;
+  bookingId?: string;
+  userId?: string;
+}
+
+export const BOOKING_DOCUMENT_CONTENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+] as const;
+
+export const MAX_BOOKING_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const MAX_BOOKING_DOCUMENTS = 5;
+
+export enum BookingVerificationErrorCodes {
+  BOOKING_NOT_FOUND = 'BOOKING_NOT_FOUND',
+  NOT_BOOKING_OWNER = 'NOT_BOOKING_OWNER',
+  ALREADY_VERIFIED = 'ALREADY_VERIFIED',
+  REVIEW_PENDING = 'REVIEW_PENDING',
+  INVALID_DOCUMENT = 'INVALID_DOCUMENT',
+  TOO_MANY_DOCUMENTS = 'TOO_MANY_DOCUMENTS',
+  DOCUMENT_NOT_FOUND = 'DOCUMENT_NOT_FOUND',
+  DOCUMENT_REQUIRED = 'DOCUMENT_REQUIRED',
+  ATTEMPT_NOT_FOUND = 'ATTEMPT_NOT_FOUND',
+  NOT_AWAITING_REVIEW = 'NOT_AWAITING_REVIEW',
+  INVALID_REVIEW = 'INVALID_REVIEW',
+}
+
+export class BookingVerificationError extends Error {
+  constructor(
+    public code: BookingVerificationErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'BookingVerificationError';
+  }
+}
@@ -0,0 +1,39 @@
+export type CalendarEventKind =
+  | 'stay'
+  | 'swap_expiration'
+  | 'proposal_response_deadline'
+  | 'auction_end';
+
+/**
+ * The user's secret calendar feed. Only a hash of the feed token is stored,
+ * so the full URL is returned once, when the feed is created or reset.
+ */
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt?: Date;
+  lastAccessedAt?: Date;
+}
+
+export interface CalendarFeedLink {
+  // https URL for "subscribe by URL" in calendar apps
+  url: string;
+  // Same feed as webcal://, which most calendar apps open directly
+  webcalUrl: string;
+  createdAt: Date;
+}
+
+export enum CalendarErrorCodes {
+  CALENDAR_FEED_NOT_FOUND = 'CALENDAR_FEED_NOT_FOUND',
+  CALENDAR_SWAP_NOT_FOUND = 'CALENDAR_SWAP_NOT_FOUND',
+}
+
+export class CalendarError extends Error {
+  constructor(
+    public code: CalendarErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'CalendarError';
+  }
+}
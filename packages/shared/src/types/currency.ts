@@ -0,0 +1,91 @@
+// Currencies cash offers can be made and settled in
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  symbol: string;
+  /** Decimal places amounts are rounded to */
+  decimals: number;
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: {
+    code: 'USD',
+    name: 'US Dollar',
+    symbol: '$',
+    decimals: 2,
+  },
+  EUR: {
+    code: 'EUR',
+    name: 'Euro',
+    symbol: '€',
+    decimals: 2,
+  },
+  GBP: {
+    code: 'GBP',
+    name: 'British Pound',
+    symbol: '£',
+    decimals: 2,
+  },
+  CAD: {
+    code: 'CAD',
+    name: 'Canadian Dollar',
+    symbol: 'CA$',
+    decimals: 2,
+  },
+  AUD: {
+    code: 'AUD',
+    name: 'Australian Dollar',
+    symbol: 'A$',
+    decimals: 2,
+  },
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+/**
+ * Exchange rates quoted against a single base currency: one unit of `base`
+ * buys `rates[code]` units of `code`.
+ */
+export interface FxRateTable {
+  base: CurrencyCode;
+  rates: Partial<Record<CurrencyCode, number>>;
+  asOf: Date;
+  source: string;
+}
+
+export interface MoneyAmount {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * An amount converted into another currency, keeping the original
+ */
+export interface ConvertedAmount {
+  amount: number;
+  currency: CurrencyCode;
+  originalAmount: number;
+  originalCurrency: CurrencyCode;
+  /** Units of `currency` per unit of `originalCurrency` */
+  rate: number;
+  asOf: Date;
+}
+
+export enum CurrencyErrorCodes {
+  UNSUPPORTED_CURRENCY = 'UNSUPPORTED_CURRENCY',
+  RATE_UNAVAILABLE = 'RATE_UNAVAILABLE',
+  RATES_STALE = 'RATES_STALE',
+}
+
+export class CurrencyError extends Error {
+  constructor(
+    public code: CurrencyErrorCodes,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CurrencyError';
+  }
+}
@@ -0,0 +1,178 @@
+export type DisputeType =
+  | 'fraud'
+  | 'booking_invalid'
+  | 'payment_issue'
+  | 'other';
+
+export type DisputeStatus =
+  | 'open'
+  | 'investigating'
+  | 'awaiting_party'
+  | 'resolved'
+  | 'closed';
+
+export type DisputePriority = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * What happens to money held for the swap when a dispute is resolved:
+ * release it to the recipient, refund the payer in full or in part, or
+ * leave payments untouched
+ */
+export type DisputeResolutionAction =
+  | 'release_funds'
+  | 'refund'
+  | 'partial_refund'
+  | 'no_action';
+
+/**
+ * Allowed status changes. Resolved and closed disputes are final.
+ */
+export const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  open: ['investigating', 'closed'],
+  investigating: ['awaiting_party', 'resolved', 'closed'],
+  awaiting_party: ['investigating', 'resolved', 'closed'],
+  resolved: [],
+  closed: [],
+};
+
+/**
+ * Hours allowed in each active status before the dispute breaches its SLA:
+ * first response by support, the investigation itself, and the reply from
+ * the party support is waiting on
+ */
+export const DISPUTE_SLA_HOURS: Partial<Record<DisputeStatus, number>> = {
+  open: 24,
+  investigating: 72,
+  awaiting_party: 48,
+};
+
+export const DISPUTE_EVIDENCE_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+] as const;
+
+export const MAX_DISPUTE_EVIDENCE_BYTES = 5 * 1024 * 1024;
+
+export interface DisputeEvidence {
+  id: string;
+  disputeId: string;
+  uploadedBy: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  description?: string;
+  createdAt: Date;
+}
+
+export type DisputeEventType =
+  | 'opened'
+  | 'status_changed'
+  | 'evidence_added'
+  | 'sla_breached'
+  | 'resolved';
+
+export interface DisputeEvent {
+  id: string;
+  disputeId: string;
+  type: DisputeEventType;
+  // Missing for events raised by the system, such as SLA breaches
+  actorId?: string;
+  fromStatus?: DisputeStatus;
+  toStatus?: DisputeStatus;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface DisputeResolution {
+  action: DisputeResolutionAction;
+  notes: string;
+  amount?: number;
+  currency?: string;
+  resolvedBy: string;
+  resolvedAt: Date;
+  paymentTransactionId?: string;
+  blockchainTransactionId?: string;
+}
+
+export interface Dispute {
+  id: string;
+  swapId: string;
+  reporterId: string;
+  reportedUserId: string;
+  type: DisputeType;
+  description: string;
+  status: DisputeStatus;
+  priority: DisputePriority;
+  assignedTo?: string;
+  // Party support is waiting on while the dispute is awaiting_party
+  awaitingPartyId?: string;
+  slaDueAt?: Date;
+  slaBreachedAt?: Date;
+  resolution?: DisputeResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DisputeDetails {
+  dispute: Dispute;
+  evidence: DisputeEvidence[];
+  events: DisputeEvent[];
+}
+
+export interface OpenDisputeRequest {
+  swapId: string;
+  type: DisputeType;
+  description: string;
+  priority?: DisputePriority;
+}
+
+export interface TransitionDisputeRequest {
+  status: DisputeStatus;
+  note?: string;
+  // Required when moving to awaiting_party
+  awaitingPartyId?: string;
+}
+
+export interface ResolveDisputeRequest {
+  action: DisputeResolutionAction;
+  notes: string;
+  // Required for partial refunds, in the currency of the held payment
+  amount?: number;
+  // Close instead of resolve, e.g. when the report was unfounded
+  close?: boolean;
+}
+
+export interface DisputeFilters {
+  status?: DisputeStatus;
+  priority?: DisputePriority;
+  swapId?: string;
+  userId?: string;
+  slaBreached?: boolean;
+}
+
+export enum DisputeErrorCodes {
+  DISPUTE_NOT_FOUND = 'DISPUTE_NOT_FOUND',
+  SWAP_NOT_FOUND = 'SWAP_NOT_FOUND',
+  SWAP_NOT_DISPUTABLE = 'SWAP_NOT_DISPUTABLE',
+  NOT_SWAP_PARTY = 'NOT_SWAP_PARTY',
+  DISPUTE_ALREADY_OPEN = 'DISPUTE_ALREADY_OPEN',
+  INVALID_TRANSITION = 'INVALID_TRANSITION',
+  INVALID_DISPUTE = 'INVALID_DISPUTE',
+  INVALID_EVIDENCE = 'INVALID_EVIDENCE',
+  EVIDENCE_NOT_FOUND = 'EVIDENCE_NOT_FOUND',
+  RESOLUTION_FAILED = 'RESOLUTION_FAILED',
+}
+
+export class DisputeError extends Error {
+  constructor(
+    public code: DisputeErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
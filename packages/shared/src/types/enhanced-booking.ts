@@ -4,7 +4,7 @@
  */
 
 import { Booking, BookingLocation, BookingDateRange, BookingProviderDetails, BookingType } from './booking.js';
-import { SwapPreferences, PaymentTypePreference, AcceptanceStrategy } from './swap.js';
+import { SwapPreferences, PaymentTypePreference, AcceptanceStrategy, DateFlexibility } from './swap.js';
 
 // Enhanced swap preferences for unified booking form
 export interface SwapPreferencesData {
@@ -14,6 +14,7 @@ export interface SwapPreferencesData {
   acceptanceStrategy: 'first-match' | 'auction';
   auctionEndDate?: Date;
   swapConditions: string[];
+  dateFlexibility?: DateFlexibility;
 }
 
 // Unified booking data interface that combines booking and swap creation
@@ -1,6 +1,7 @@
 import { SwapCardData, SwapStatus, AcceptanceStrategy, SwapProposal, SwapProposalCard } from './swap.js';
 import { SwapTargetStatus, TargetingRestriction } from './swap-targeting.js';
 import { BookingDetails } from './swap-with-booking-details.js';
+import { MoneyAmount } from './currency.js';
 
 /**
  * Enhanced swap card data that extends the existing SwapCardData
@@ -52,6 +53,9 @@ export interface IncomingTargetInfo {
     createdAt: Date;
     updatedAt: Date;
 
+    // Cash offered with the proposal, in the proposer's currency
+    cashOffer?: MoneyAmount;
+
     // Auction context if applicable
     auctionInfo?: {
         isAuction: boolean;
@@ -0,0 +1,66 @@
+import { BookingType } from './booking.js';
+
+export const MIN_MAP_ZOOM = 1;
+export const MAX_MAP_ZOOM = 18;
+
+// Caps how many clusters one map request returns
+export const MAX_MAP_CLUSTERS = 500;
+
+/**
+ * Visible map area in degrees. When west is greater than east the box
+ * crosses the antimeridian.
+ */
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export type GeocodeSource = 'gazetteer' | 'nominatim';
+
+export interface GeocodeResult {
+  coordinates: [number, number]; // [lat, lng]
+  // Place names as the geocoder knows them, which may differ from the input
+  city: string;
+  country: string;
+  source: GeocodeSource;
+}
+
+/**
+ * Booking shown for a cluster of one, so the map can render it without a
+ * second request
+ */
+export interface MapClusterBooking {
+  id: string;
+  title: string;
+  type: BookingType;
+  city: string;
+  country: string;
+  swapValue: number;
+  // Pending swap listing the booking, used for compatibility scores
+  swapId?: string;
+}
+
+/**
+ * Bookings that fall in the same grid cell at the requested zoom
+ */
+export interface MapCluster {
+  id: string;
+  coordinates: [number, number]; // [lat, lng] of the cluster's centroid
+  count: number;
+  // Area covered by the cluster's bookings; zooming to it splits the cluster
+  bounds: MapBounds;
+  minSwapValue: number;
+  maxSwapValue: number;
+  booking?: MapClusterBooking;
+}
+
+export interface BookingMapResponse {
+  clusters: MapCluster[];
+  // Bookings inside the bounds, summed over the clusters
+  total: number;
+  zoom: number;
+  // Clusters were cut off at MAX_MAP_CLUSTERS
+  truncated: boolean;
+}
@@ -35,3 +35,57 @@ export * from './wallet-validation.js';
 
 // Export swap completion types
 export * from './swap-completion.js';
+
+// Export multi-party swap cycle types
+export * from './swap-cycle.js';
+
+// Export proposal negotiation types
+export * from './proposal-negotiation.js';
+
+// Export review and reputation types
+export * from './review.js';
+
+// Export currency and FX rate types
+export * from './currency.js';
+
+// Export saved search types
+export * from './saved-search.js';
+
+// Export dispute types
+export * from './dispute.js';
+
+// Export booking verification pipeline types
+export * from './booking-verification.js';
+
+// Export direct messaging types
+export * from './messaging.js';
+
+// Export proposal auto-accept types
+export * from './auto-accept.js';
+
+// Export outbound webhook types
+export * from './webhook.js';
+
+// Export API key types
+export * from './api-key.js';
+
+// Export two-factor authentication types
+export * from './two-factor.js';
+
+// Export session and device management types
+export * from './session.js';
+
+// Export calendar feed types
+export * from './calendar.js';
+
+// Export data export and account deletion types
+export * from './privacy.js';
+
+// Export Web Push subscription types
+export * from './push.js';
+
+// Export geocoding and map clustering types
+export * from './geo.js';
+
+// Export swap recommendation feed types
+export * from './recommendation.js';
@@ -0,0 +1,115 @@
+export const CONVERSATION_ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+] as const;
+
+export const MAX_CONVERSATION_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * A conversation between a swap owner and one other user. Threads opened
+ * from a proposal are tied to it; otherwise there is one thread per swap
+ * and counterparty.
+ */
+export interface Conversation {
+  id: string;
+  swapId: string;
+  // Swap target or swap proposal the thread was opened from
+  proposalId?: string;
+  ownerId: string;
+  counterpartyId: string;
+  // Contact details are masked for both parties until this is true
+  contactDetailsUnlocked: boolean;
+  readReceipts: ConversationReadReceipt[];
+  // Messages from the other party the viewer has not read yet
+  unreadCount: number;
+  lastMessageAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationReadReceipt {
+  userId: string;
+  lastReadAt: Date;
+}
+
+export interface MessageAttachment {
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  // Contact details are replaced while the conversation is locked,
+  // except in the moderation view
+  body: string;
+  // Set when the original text contained contact details
+  containsContactDetails: boolean;
+  attachment?: MessageAttachment;
+  createdAt: Date;
+}
+
+export interface ConversationDetails {
+  conversation: Conversation;
+  // Oldest first
+  messages: ConversationMessage[];
+  hasMore: boolean;
+}
+
+export interface OpenConversationRequest {
+  // One of the two: a proposal thread, or a thread about a swap
+  swapId?: string;
+  proposalId?: string;
+}
+
+export interface ConversationFilters {
+  swapId?: string;
+  proposalId?: string;
+}
+
+/**
+ * Payload of the message:new socket event
+ */
+export interface ConversationMessageEvent {
+  conversationId: string;
+  message: ConversationMessage;
+}
+
+/**
+ * Payload of the message:read socket event
+ */
+export interface ConversationReadEvent {
+  conversationId: string;
+  userId: string;
+  lastReadAt: Date;
+}
+
+export enum MessagingErrorCodes {
+  CONVERSATION_NOT_FOUND = 'CONVERSATION_NOT_FOUND',
+  SWAP_NOT_FOUND = 'SWAP_NOT_FOUND',
+  PROPOSAL_NOT_FOUND = 'PROPOSAL_NOT_FOUND',
+  NOT_PARTICIPANT = 'NOT_PARTICIPANT',
+  CANNOT_MESSAGE_SELF = 'CANNOT_MESSAGE_SELF',
+  INVALID_CONVERSATION = 'INVALID_CONVERSATION',
+  INVALID_MESSAGE = 'INVALID_MESSAGE',
+  INVALID_ATTACHMENT = 'INVALID_ATTACHMENT',
+  ATTACHMENT_NOT_FOUND = 'ATTACHMENT_NOT_FOUND',
+  DISPUTE_NOT_FOUND = 'DISPUTE_NOT_FOUND',
+}
+
+export class MessagingError extends Error {
+  constructor(
+    public code: MessagingErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'MessagingError';
+  }
+}
@@ -53,11 +53,36 @@ export type NotificationType =
   | 'proposal_rejected'
   | 'proposal_payment_completed'
   | 'proposal_payment_failed'
+  | 'proposal_countered'
+  | 'counter_offer_accepted'
+  | 'counter_offer_rejected'
+  | 'proposal_auto_accepted'
   // Swap completion notifications
   | 'swap_completion_success'
   | 'swap_completion_failed'
   | 'booking_ownership_transferred'
-  | 'completion_validation_warning';
+  | 'completion_validation_warning'
+  // Multi-party swap cycle notifications
+  | 'swap_cycle_proposed'
+  | 'swap_cycle_leg_accepted'
+  | 'swap_cycle_declined'
+  | 'swap_cycle_completed'
+  // Saved search alerts
+  | 'saved_search_match'
+  | 'saved_search_digest'
+  // Dispute notifications
+  | 'dispute_opened'
+  | 'dispute_status_changed'
+  | 'dispute_resolved'
+  // Booking verification notifications
+  | 'booking_verification_rejected'
+  | 'booking_verification_review'
+  // Direct messages
+  | 'message_received'
+  // Outbound webhooks
+  | 'webhook_endpoint_disabled'
+  // Personal data exports
+  | 'data_export_ready';
 
 export type NotificationChannel = 'email' | 'sms' | 'push' | 'in_app';
 
@@ -74,6 +99,8 @@ export interface NotificationPreferences {
   push: boolean;
   in_app: boolean;
   channels: Record<NotificationType, NotificationChannel[]>;
+  // Types sent as push notifications; push is opt-in per type
+  pushTypes?: NotificationType[];
 }
 
 export interface NotificationTemplate {
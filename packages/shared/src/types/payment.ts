@@ -111,8 +111,19 @@ export interface EscrowRequest {
 export interface EscrowReleaseRequest {
   escrowId: string;
   recipientId: string;
-  amount: number;
+  // Defaults to the full escrow amount
+  amount?: number;
+  reason: string;
+  // Set when resolving a dispute, which may release an escrow frozen by it
+  disputeId?: string;
+}
+
+export interface EscrowRefundRequest {
+  escrowId: string;
+  // Omit to refund the whole escrow to the payer
+  amount?: number;
   reason: string;
+  disputeId?: string;
 }
 
 // Payment Validation Types
@@ -139,6 +150,11 @@ export interface PaymentProcessingResult {
   escrowId?: string;
   fees: PaymentFees;
   estimatedCompletionTime?: Date;
+  /** Set when the payer must complete a 3DS challenge before the charge goes through */
+  requiresAction?: {
+    type: 'three_d_secure';
+    redirectUrl: string;
+  };
 }
 
 export interface EscrowCreationResult {
@@ -0,0 +1,69 @@
+export type DataExportStatus =
+  | 'queued'
+  | 'processing'
+  | 'ready'
+  | 'failed'
+  | 'expired';
+
+/**
+ * A request for a copy of the user's data. The archive is built in the
+ * background and can be downloaded until it expires.
+ */
+export interface DataExportRequest {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  // Size of the archive in bytes, once ready
+  fileSize?: number;
+  error?: string;
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AccountDeletionBlockerKind =
+  | 'swap_in_progress'
+  | 'swap_targeting_active'
+  | 'proposal_pending'
+  | 'swap_cycle_in_progress'
+  | 'auction_active'
+  | 'payment_in_progress'
+  | 'escrow_funded'
+  | 'dispute_open';
+
+/**
+ * Something that has to finish, or be cancelled, before the account can be
+ * deleted
+ */
+export interface AccountDeletionBlocker {
+  kind: AccountDeletionBlockerKind;
+  // Ids of the swaps, proposals, payments etc. involved
+  ids: string[];
+  message: string;
+}
+
+export interface AccountDeletionCheck {
+  canDelete: boolean;
+  blockers: AccountDeletionBlocker[];
+}
+
+export enum PrivacyErrorCodes {
+  DATA_EXPORT_NOT_FOUND = 'DATA_EXPORT_NOT_FOUND',
+  DATA_EXPORT_NOT_READY = 'DATA_EXPORT_NOT_READY',
+  DATA_EXPORT_EXPIRED = 'DATA_EXPORT_EXPIRED',
+  ACCOUNT_DELETION_BLOCKED = 'ACCOUNT_DELETION_BLOCKED',
+  ACCOUNT_DELETION_CONFIRMATION_REQUIRED = 'ACCOUNT_DELETION_CONFIRMATION_REQUIRED',
+  ACCOUNT_ALREADY_DELETED = 'ACCOUNT_ALREADY_DELETED',
+}
+
+export class PrivacyError extends Error {
+  constructor(
+    public code: PrivacyErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'PrivacyError';
+  }
+}
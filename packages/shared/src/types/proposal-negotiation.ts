@@ -0,0 +1,56 @@
+import { BaseEntity } from './base.js';
+
+// Counter-offers on pending proposals. Each counter creates a new version;
+// the version that gets accepted is the one the swap is completed with.
+export type NegotiationVersionStatus =
+  | 'open'
+  | 'superseded'
+  | 'accepted'
+  | 'rejected';
+
+export interface NegotiatedCashOffer {
+  amount: number;
+  currency: string;
+}
+
+export interface NegotiatedTerms {
+  additionalPayment?: number;
+  conditions: string[];
+  expiresAt: Date;
+  cashOffer?: NegotiatedCashOffer;
+}
+
+export interface ProposalNegotiationVersion extends BaseEntity {
+  proposalId: string;
+  version: number;
+  authorId: string;
+  recipientId: string;
+  status: NegotiationVersionStatus;
+  terms: NegotiatedTerms;
+  message?: string;
+  respondedAt?: Date;
+}
+
+export interface ProposalNegotiationThread {
+  proposalId: string;
+  proposerId: string;
+  targetUserId: string;
+  proposalStatus: string;
+  originalTerms: NegotiatedTerms;
+  openVersion?: ProposalNegotiationVersion;
+  acceptedVersion?: ProposalNegotiationVersion;
+  versions: ProposalNegotiationVersion[];
+}
+
+export interface CreateCounterOfferRequest {
+  additionalPayment?: number;
+  conditions?: string[];
+  expiresAt?: Date;
+  cashOffer?: NegotiatedCashOffer;
+  message?: string;
+}
+
+export interface CounterOfferResponseRequest {
+  action: 'accept' | 'reject';
+  reason?: string;
+}
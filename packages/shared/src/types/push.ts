@@ -0,0 +1,83 @@
+import { NotificationPreferences, NotificationType } from './notification.js';
+
+/**
+ * A browser registered to receive Web Push notifications. Each device the
+ * user turns push on for has its own subscription.
+ */
+export interface WebPushSubscription {
+  id: string;
+  userId: string;
+  endpoint: string;
+  // Readable summary of the user agent, e.g. "Chrome on macOS"
+  deviceName: string;
+  // Set by browsers that rotate subscriptions
+  expiresAt?: Date;
+  lastSuccessAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Body of a subscription registration, as returned by
+ * PushSubscription.toJSON() in the browser
+ */
+export interface PushSubscriptionRegistration {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * Notification types users can opt in to as push notifications: the ones
+ * that ask for a response or report a change to a swap, payment or message
+ */
+export const PUSH_NOTIFICATION_TYPES: NotificationType[] = [
+  'swap_proposal',
+  'swap_accepted',
+  'swap_rejected',
+  'swap_cancelled',
+  'swap_expired',
+  'browse_proposal_received',
+  'targeting_received',
+  'proposal_accepted',
+  'proposal_rejected',
+  'proposal_countered',
+  'counter_offer_accepted',
+  'proposal_payment_completed',
+  'proposal_payment_failed',
+  'swap_completion_success',
+  'swap_completion_failed',
+  'swap_cycle_proposed',
+  'saved_search_match',
+  'dispute_opened',
+  'dispute_status_changed',
+  'message_received',
+];
+
+/**
+ * Whether push is on, and the notification types the user opted in to
+ */
+export type PushPreferences = Required<
+  Pick<NotificationPreferences, 'push' | 'pushTypes'>
+>;
+
+export enum PushErrorCodes {
+  PUSH_NOT_CONFIGURED = 'PUSH_NOT_CONFIGURED',
+  INVALID_SUBSCRIPTION = 'INVALID_SUBSCRIPTION',
+  SUBSCRIPTION_NOT_FOUND = 'SUBSCRIPTION_NOT_FOUND',
+  INVALID_NOTIFICATION_TYPE = 'INVALID_NOTIFICATION_TYPE',
+}
+
+export class PushError extends Error {
+  constructor(
+    public code: PushErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'PushError';
+  }
+}
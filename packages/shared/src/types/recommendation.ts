@@ -0,0 +1,62 @@
+import { BookingType } from './booking.js';
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 12;
+export const MAX_RECOMMENDATION_LIMIT = 50;
+
+/**
+ * Why a listing was recommended, shown as a short label on the feed card
+ */
+export type RecommendationReason =
+  | 'compatible_with_your_swap'
+  | 'matches_your_preferences'
+  | 'similar_to_past_proposals'
+  | 'trusted_owner'
+  | 'new_listing';
+
+/**
+ * Per-signal scores between 0 and 1 that make up a recommendation's score
+ */
+export interface RecommendationSignals {
+  // Best CompatibilityAnalysisEngine score against the user's own swaps
+  compatibility: number;
+  // Similarity to listings the user proposed on before
+  behaviour: number;
+  // Match with the locations and dates in the user's swap preferences
+  preferences: number;
+  // Owner reputation, neutral for owners without reviews
+  reputation: number;
+  // Decays with the listing's age
+  freshness: number;
+}
+
+export interface RecommendedBooking {
+  id: string;
+  title: string;
+  type: BookingType;
+  city: string;
+  country: string;
+  checkIn: Date;
+  checkOut: Date;
+  swapValue: number;
+}
+
+export interface SwapRecommendation {
+  swapId: string;
+  booking: RecommendedBooking;
+  ownerId: string;
+  ownerReputation?: number;
+  // Weighted score from 0 to 100
+  score: number;
+  signals: RecommendationSignals;
+  reasons: RecommendationReason[];
+  // The user's own swap that fits this listing best, to propose with
+  matchedSwapId?: string;
+  listedAt: Date;
+}
+
+export interface SwapRecommendationFeed {
+  recommendations: SwapRecommendation[];
+  generatedAt: Date;
+  // True when the feed was served from the per-user cache
+  cached: boolean;
+}
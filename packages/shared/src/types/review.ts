@@ -0,0 +1,64 @@
+import { Review } from './user.js';
+
+// Reviews stay hidden until both parties have reviewed the swap or the
+// review window closes, so neither side can retaliate after reading the other.
+export const REVIEW_WINDOW_DAYS = 14;
+
+export type ReputationBadgeId =
+  | 'new_member'
+  | 'top_rated'
+  | 'reliable'
+  | 'trusted_swapper';
+
+export interface ReputationBadge {
+  id: ReputationBadgeId;
+  label: string;
+  description: string;
+}
+
+export interface UserReputationSummary {
+  userId: string;
+  score: number;
+  averageRating: number | null;
+  reviewCount: number;
+  completedSwaps: number;
+  cancelledSwaps: number;
+  badges: ReputationBadge[];
+}
+
+export interface SubmitReviewRequest {
+  rating: number;
+  comment?: string;
+}
+
+export interface SubmitReviewResult {
+  review: Review;
+  // True once both parties have reviewed and the reviews are visible
+  published: boolean;
+}
+
+export interface UserReviewsResult {
+  reviews: Review[];
+  reputation: UserReputationSummary;
+  total: number;
+}
+
+export enum ReviewErrorCodes {
+  SWAP_NOT_FOUND = 'SWAP_NOT_FOUND',
+  SWAP_NOT_COMPLETED = 'SWAP_NOT_COMPLETED',
+  NOT_SWAP_PARTY = 'NOT_SWAP_PARTY',
+  ALREADY_REVIEWED = 'ALREADY_REVIEWED',
+  REVIEW_WINDOW_CLOSED = 'REVIEW_WINDOW_CLOSED',
+  INVALID_REVIEW = 'INVALID_REVIEW',
+}
+
+export class ReviewError extends Error {
+  constructor(
+    public code: ReviewErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
@@ -0,0 +1,70 @@
+import { BookingType } from './booking.js';
+import { NotificationChannel } from './notification.js';
+
+// Caps how many searches each user can evaluate against every new listing
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+
+export type SavedSearchAlertFrequency = 'instant' | 'daily' | 'off';
+
+/**
+ * Filter set stored with a saved search. Mirrors the browse search filters
+ * without the sort options, which do not affect matching.
+ */
+export interface SavedSearchFilters {
+  query?: string;
+  location?: {
+    city?: string;
+    country?: string;
+    radius?: number; // in km, requires coordinates
+    coordinates?: [number, number]; // [lat, lng]
+  };
+  dateRange?: {
+    checkIn?: Date;
+    checkOut?: Date;
+    // Match any stay that overlaps the range instead of one inside it
+    flexible?: boolean;
+  };
+  priceRange?: {
+    min?: number;
+    max?: number;
+  };
+  types?: BookingType[];
+}
+
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alertFrequency: SavedSearchAlertFrequency;
+  channels: NotificationChannel[];
+  lastNotifiedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSavedSearchRequest {
+  name: string;
+  filters: SavedSearchFilters;
+  alertFrequency?: SavedSearchAlertFrequency;
+  channels?: NotificationChannel[];
+}
+
+export type UpdateSavedSearchRequest = Partial<CreateSavedSearchRequest>;
+
+export enum SavedSearchErrorCodes {
+  SAVED_SEARCH_NOT_FOUND = 'SAVED_SEARCH_NOT_FOUND',
+  SAVED_SEARCH_LIMIT_REACHED = 'SAVED_SEARCH_LIMIT_REACHED',
+  INVALID_SAVED_SEARCH = 'INVALID_SAVED_SEARCH',
+}
+
+export class SavedSearchError extends Error {
+  constructor(
+    public code: SavedSearchErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
@@ -0,0 +1,48 @@
+export type LoginMethod = 'wallet' | 'email';
+
+/**
+ * A signed-in device. Each login starts a session; access tokens carry its id
+ * so that revoking the session signs that device out.
+ */
+export interface UserSession {
+  id: string;
+  userId: string;
+  loginMethod: LoginMethod;
+  // Readable summary of the user agent, e.g. "Chrome on macOS"
+  deviceName: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastActiveAt: Date;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  // Set when listing, for the session making the request
+  current?: boolean;
+}
+
+/**
+ * Returned when a refresh token is exchanged. The old refresh token stops
+ * working; presenting it again revokes the whole session.
+ */
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export enum SessionErrorCodes {
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+  INVALID_REFRESH_TOKEN = 'INVALID_REFRESH_TOKEN',
+  REFRESH_TOKEN_REUSED = 'REFRESH_TOKEN_REUSED',
+}
+
+export class SessionError extends Error {
+  constructor(
+    public code: SessionErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
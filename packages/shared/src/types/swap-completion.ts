@@ -104,6 +104,7 @@ export interface RelatedEntities {
     targetSwap?: any; // Swap type
     targetBooking?: any; // Booking type
     paymentTransaction?: any; // PaymentTransaction type
+    negotiatedVersion?: any; // Accepted proposal_negotiation_versions row
 }
 
 // Completion transaction data for atomic operations
@@ -0,0 +1,98 @@
+import { BaseEntity } from './base.js';
+
+// Multi-party swap cycles: A gives to B, B gives to C, ... and the last party gives to A
+export type SwapCycleStatus =
+  | 'proposed'
+  | 'accepted'
+  | 'completed'
+  | 'declined'
+  | 'expired'
+  | 'failed';
+
+export type SwapCycleLegStatus = 'pending' | 'accepted' | 'declined';
+
+export const MIN_SWAP_CYCLE_LENGTH = 3;
+export const MAX_SWAP_CYCLE_LENGTH = 4;
+
+/**
+ * One leg of a cycle: the giver hands over the booking behind `swapId`
+ * and receives the booking behind `receivesSwapId` in exchange.
+ */
+export interface SwapCycleLeg extends BaseEntity {
+  cycleId: string;
+  position: number;
+  swapId: string;
+  bookingId: string;
+  giverUserId: string;
+  receiverUserId: string;
+  receivesSwapId: string;
+  receivesBookingId: string;
+  compatibilityScore: number;
+  status: SwapCycleLegStatus;
+  respondedAt?: Date;
+}
+
+export interface SwapCycle extends BaseEntity {
+  status: SwapCycleStatus;
+  cycleLength: number;
+  totalScore: number;
+  expiresAt: Date;
+  completionTransactionId?: string;
+  blockchainTransactionId?: string;
+  completedAt?: Date;
+  failureReason?: string;
+  legs: SwapCycleLeg[];
+}
+
+// A cycle found by the detector, before it is persisted and proposed
+export interface SwapCycleCandidate {
+  swapIds: string[];
+  score: number;
+  edges: SwapCycleCandidateEdge[];
+}
+
+export interface SwapCycleCandidateEdge {
+  // The owner of fromSwapId would accept the booking behind toSwapId
+  fromSwapId: string;
+  toSwapId: string;
+  score: number;
+}
+
+export interface SwapCycleDetectionOptions {
+  minCompatibilityScore?: number;
+  maxCycleLength?: number;
+  maxCandidateSwaps?: number;
+  dateFlexibilityDays?: number;
+}
+
+export interface SwapCycleDiscoveryResult {
+  proposedCycles: SwapCycle[];
+  candidatesEvaluated: number;
+  cyclesFound: number;
+}
+
+export interface SwapCycleLegResponseResult {
+  cycle: SwapCycle;
+  completed: boolean;
+}
+
+export enum SwapCycleErrorCodes {
+  CYCLE_NOT_FOUND = 'CYCLE_NOT_FOUND',
+  LEG_NOT_FOUND = 'LEG_NOT_FOUND',
+  NOT_LEG_OWNER = 'NOT_LEG_OWNER',
+  INVALID_CYCLE_STATUS = 'INVALID_CYCLE_STATUS',
+  LEG_ALREADY_RESPONDED = 'LEG_ALREADY_RESPONDED',
+  CYCLE_EXPIRED = 'CYCLE_EXPIRED',
+  CYCLE_COMPLETION_FAILED = 'CYCLE_COMPLETION_FAILED',
+}
+
+export class SwapCycleError extends Error {
+  constructor(
+    public code: SwapCycleErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'SwapCycleError';
+  }
+}
@@ -66,6 +66,25 @@ export interface CompatibilityFactor {
   status: 'excellent' | 'good' | 'fair' | 'poor';
 }
 
+export type DateFitKind =
+  | 'exact'
+  | 'shifted'
+  | 'within_window'
+  | 'partial_window'
+  | 'stay_length'
+  | 'none';
+
+// How a stay fits someone's date flexibility, with a readable explanation
+export interface DateFit {
+  kind: DateFitKind;
+  fits: boolean;
+  score: number; // 0-100
+  nights: number;
+  shiftDays?: number;
+  overlapNights?: number;
+  explanation: string;
+}
+
 export interface CompatibilityAnalysis {
   overallScore: number; // 0-100
   factors: {
@@ -75,6 +94,7 @@ export interface CompatibilityAnalysis {
     accommodationCompatibility: CompatibilityFactor;
     guestCompatibility: CompatibilityFactor;
   };
+  dateFit?: DateFit;
   recommendations: string[];
   potentialIssues: string[];
 }
@@ -57,6 +57,8 @@ export interface PaymentTypePreference {
   cashPayment: boolean;
   minimumCashAmount?: number;
   preferredCashAmount?: number;
+  /** Currency the cash amounts are expressed in (defaults to USD) */
+  currency?: string;
 }
 
 export type AcceptanceStrategyType = 'first_match' | 'auction';
@@ -83,6 +85,7 @@ export interface EnhancedSwap extends Swap {
   acceptanceStrategy: AcceptanceStrategy;
   auctionId?: string;
   cashDetails?: CashSwapConfiguration;
+  swapPreferences?: SwapPreferences;
   completion?: SwapCompletion;
 }
 
@@ -105,9 +108,23 @@ export interface EnhancedCreateSwapRequest {
   walletAddress: string;
 }
 
+// A period the user can travel in, e.g. "any time in July"
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface DateFlexibility {
+  shiftDays?: number; // stays up to ±N days from the user's own dates
+  windows?: DateWindow[]; // stays overlapping any of these periods
+  minNights?: number;
+  maxNights?: number;
+}
+
 export interface SwapPreferences {
   preferredLocations?: string[];
   preferredDates?: Date[];
+  dateFlexibility?: DateFlexibility;
   additionalRequirements?: string[];
 }
 
@@ -0,0 +1,50 @@
+// One-time codes handed out when 2FA is enabled, each usable once
+export const TWO_FACTOR_RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+  // Admins cannot turn 2FA off, and must use it to reach admin routes
+  requiredForRole: boolean;
+}
+
+/**
+ * Returned when enrolment starts. The secret is shown for manual entry next
+ * to the QR code of the otpauth URL that authenticator apps scan.
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * Returned by email login in place of a session when the account has 2FA;
+ * exchanged for the session together with a code
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: Date;
+}
+
+export enum TwoFactorErrorCodes {
+  TWO_FACTOR_NOT_ENABLED = 'TWO_FACTOR_NOT_ENABLED',
+  TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_SETUP_NOT_STARTED = 'TWO_FACTOR_SETUP_NOT_STARTED',
+  TWO_FACTOR_REQUIRED_FOR_ROLE = 'TWO_FACTOR_REQUIRED_FOR_ROLE',
+  INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE',
+  INVALID_TWO_FACTOR_CHALLENGE = 'INVALID_TWO_FACTOR_CHALLENGE',
+}
+
+export class TwoFactorError extends Error {
+  constructor(
+    public code: TwoFactorErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseEntity } from './index.js';
 import { NotificationPreferences } from './notification.js';
+import type { Locale } from '../i18n/locale.js';
 
 export type UserVerificationLevel = 'basic' | 'verified' | 'premium';
 
@@ -7,6 +8,15 @@ export interface SwapCriteria {
   maxAdditionalPayment?: number;
   preferredLocations?: string[];
   bookingTypes?: string[];
+  // Accept matching proposals to first-match swaps automatically
+  enabled?: boolean;
+  // Only record what would have been accepted
+  dryRun?: boolean;
+  minCompatibilityScore?: number; // 0-100
+  minCounterpartyReputation?: number; // 0-5
+  dailyLimit?: number;
+  // Set by the server; proposals received earlier are left to the owner
+  enabledAt?: Date;
 }
 
 export interface UserPreferences {
@@ -18,6 +28,8 @@ export interface UserProfile {
   displayName?: string;
   email?: string;
   phone?: string;
+  // Language for the interface and for notifications sent to the user
+  locale?: Locale;
   preferences: UserPreferences;
 }
 
@@ -30,9 +42,11 @@ export interface UserVerification {
 export interface Review {
   id: string;
   reviewerId: string;
+  reviewedUserId?: string;
   rating: number;
   comment?: string;
   swapId: string;
+  visibleAt?: Date;
   createdAt: Date;
 }
 
@@ -52,4 +66,6 @@ export interface User extends BaseEntity {
   verification: UserVerification;
   reputation: UserReputation;
   lastActiveAt: Date;
+  // Set once the account is deleted and its personal data anonymized
+  deletedAt?: Date;
 }
\ No newline at end of file
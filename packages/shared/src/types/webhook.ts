@@ -0,0 +1,111 @@
+// Caps how many endpoints each user can have every matching event fanned out to
+export const MAX_WEBHOOK_ENDPOINTS_PER_USER = 10;
+
+export const WEBHOOK_EVENT_TYPES = [
+  'proposal.created',
+  'proposal.accepted',
+  'proposal.rejected',
+  'swap.completed',
+  'auction.ended',
+  'payment.released',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * pending: queued or waiting for a retry
+ * succeeded: the endpoint answered with a 2xx status
+ * failed: every attempt failed, or the endpoint was disabled before delivery
+ */
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  description?: string;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  // Deliveries in a row that failed after all their retries
+  consecutiveFailures: number;
+  disabledAt?: Date;
+  disabledReason?: string;
+  lastDeliveryAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Returned only when an endpoint is created or its secret rotated; the secret
+ * is used to check the X-BookingSwap-Signature header of each delivery
+ */
+export interface WebhookEndpointWithSecret extends WebhookEndpoint {
+  secret: string;
+}
+
+/**
+ * JSON body posted to endpoints. Redeliveries reuse the event id so receivers
+ * can drop duplicates.
+ */
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  userId: string;
+  data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEventPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  deliveredAt?: Date;
+  // Set when the delivery was requested manually from an earlier one
+  redeliveryOf?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  eventTypes: WebhookEventType[];
+  description?: string;
+}
+
+export interface UpdateWebhookEndpointRequest
+  extends Partial<CreateWebhookEndpointRequest> {
+  // Re-enabling a disabled endpoint clears its failure count
+  enabled?: boolean;
+}
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export enum WebhookErrorCodes {
+  WEBHOOK_ENDPOINT_NOT_FOUND = 'WEBHOOK_ENDPOINT_NOT_FOUND',
+  WEBHOOK_DELIVERY_NOT_FOUND = 'WEBHOOK_DELIVERY_NOT_FOUND',
+  WEBHOOK_ENDPOINT_LIMIT_REACHED = 'WEBHOOK_ENDPOINT_LIMIT_REACHED',
+  WEBHOOK_ENDPOINT_DISABLED = 'WEBHOOK_ENDPOINT_DISABLED',
+  INVALID_WEBHOOK_ENDPOINT = 'INVALID_WEBHOOK_ENDPOINT',
+}
+
+export class WebhookError extends Error {
+  constructor(
+    public code: WebhookErrorCodes,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
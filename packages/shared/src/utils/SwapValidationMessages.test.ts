@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SwapType, SwapValidationMessages } from './SwapValidationMessages';
+
+describe('SwapValidationMessages', () => {
+  const requirement = {
+    transactionFee: 0.5,
+    escrowAmount: 100,
+    platformFee: 2.5,
+    totalRequired: 103,
+    currency: 'HBAR',
+  };
+
+  it('should default to English', () => {
+    expect(
+      SwapValidationMessages.getBalanceError(SwapType.BOOKING_EXCHANGE)
+    ).toBe('Insufficient wallet balance for booking exchange swap creation.');
+  });
+
+  it('should return messages in the requested locale', () => {
+    expect(
+      SwapValidationMessages.getValidationErrorTitle(
+        SwapType.CASH_ENABLED,
+        'es'
+      )
+    ).toBe('Problemas de configuración del intercambio con efectivo');
+    expect(
+      SwapValidationMessages.validateSwapType(
+        SwapType.BOOKING_EXCHANGE,
+        { bookingExchange: false, cashPayment: false },
+        'fr'
+      )
+    ).toEqual([
+      "L'échange de réservations doit être activé pour les échanges sans paiement",
+    ]);
+  });
+
+  it('should format the balance breakdown for the locale', () => {
+    const en = SwapValidationMessages.getDetailedBalanceError(
+      SwapType.CASH_ENABLED,
+      1234.5,
+      requirement,
+      5
+    );
+    const fr = SwapValidationMessages.getDetailedBalanceError(
+      SwapType.CASH_ENABLED,
+      1234.5,
+      requirement,
+      5,
+      'fr'
+    );
+
+    expect(en).toContain('Current Balance: 1,234.50 HBAR');
+    expect(en).toContain('  - Escrow Amount: 100.00 HBAR');
+    expect(fr).toMatch(/Solde actuel : 1\s234,50 HBAR/);
+    expect(fr).toContain('Montant manquant : 5,00 HBAR');
+  });
+});
@@ -1,3 +1,7 @@
+import { DEFAULT_LOCALE, Locale } from '../i18n/locale.js';
+import { formatLocalizedCurrency } from '../i18n/messageFormat.js';
+import { createTranslator } from '../i18n/translator.js';
+
 /**
  * Swap type enumeration for validation messages
  */
@@ -7,34 +11,36 @@ export enum SwapType {
 }
 
 /**
- * Standardized error messages for swap validation
+ * Standardized error messages for swap validation, in the given locale
  */
 export class SwapValidationMessages {
     /**
      * Get connection error message based on swap type
      */
-    static getConnectionError(swapType: SwapType): string {
+    static getConnectionError(swapType: SwapType, locale: Locale = DEFAULT_LOCALE): string {
+        const t = createTranslator(locale);
         switch (swapType) {
             case SwapType.CASH_ENABLED:
-                return 'Wallet connection required for cash-enabled swap. This is needed for blockchain transaction fees, escrow deposits, and platform fees.';
+                return t('validation.swap.connection.cashEnabled');
             case SwapType.BOOKING_EXCHANGE:
-                return 'Wallet connection required for booking exchange swap. This is needed for blockchain transaction fees.';
+                return t('validation.swap.connection.bookingExchange');
             default:
-                return 'Wallet connection required for swap creation. This is needed for blockchain transaction fees and escrow.';
+                return t('validation.swap.connection.default');
         }
     }
 
     /**
      * Get balance error message based on swap type
      */
-    static getBalanceError(swapType: SwapType): string {
+    static getBalanceError(swapType: SwapType, locale: Locale = DEFAULT_LOCALE): string {
+        const t = createTranslator(locale);
         switch (swapType) {
             case SwapType.CASH_ENABLED:
-                return 'Insufficient wallet balance for cash-enabled swap creation.';
+                return t('validation.swap.balance.cashEnabled');
             case SwapType.BOOKING_EXCHANGE:
-                return 'Insufficient wallet balance for booking exchange swap creation.';
+                return t('validation.swap.balance.bookingExchange');
             default:
-                return 'Insufficient wallet balance for swap creation.';
+                return t('validation.swap.balance.default');
         }
     }
 
@@ -51,27 +57,32 @@ export class SwapValidationMessages {
             totalRequired: number;
             currency: string;
         },
-        shortfall: number
+        shortfall: number,
+        locale: Locale = DEFAULT_LOCALE
     ): string {
-        let message = this.getBalanceError(swapType) + '\n\n';
+        const t = createTranslator(locale);
+        const amount = (value: number) => ({
+            amount: formatLocalizedCurrency(locale, value, requirement.currency)
+        });
+        let message = this.getBalanceError(swapType, locale) + '\n\n';
 
         if (swapType === SwapType.CASH_ENABLED) {
-            message += 'Cash-enabled swaps require funds for escrow deposits, platform fees, and transaction costs.\n\n';
+            message += t('validation.swap.balanceReason.cashEnabled') + '\n\n';
         } else if (swapType === SwapType.BOOKING_EXCHANGE) {
-            message += 'Booking exchange swaps require funds for transaction costs only.\n\n';
+            message += t('validation.swap.balanceReason.bookingExchange') + '\n\n';
         }
 
-        message += `Current Balance: ${currentBalance.toFixed(2)} ${requirement.currency}\n`;
-        message += `Required Amount: ${requirement.totalRequired.toFixed(2)} ${requirement.currency}\n`;
-        message += `  - Transaction Fee: ${requirement.transactionFee.toFixed(2)} ${requirement.currency}\n`;
+        message += t('validation.swap.currentBalance', amount(currentBalance)) + '\n';
+        message += t('validation.swap.requiredAmount', amount(requirement.totalRequired)) + '\n';
+        message += '  - ' + t('validation.swap.transactionFee', amount(requirement.transactionFee)) + '\n';
 
         if (requirement.escrowAmount > 0) {
-            message += `  - Escrow Amount: ${requirement.escrowAmount.toFixed(2)} ${requirement.currency}\n`;
-            message += `  - Platform Fee: ${requirement.platformFee.toFixed(2)} ${requirement.currency}\n`;
+            message += '  - ' + t('validation.swap.escrowAmount', amount(requirement.escrowAmount)) + '\n';
+            message += '  - ' + t('validation.swap.platformFee', amount(requirement.platformFee)) + '\n';
         }
 
-        message += `\nShortfall: ${shortfall.toFixed(2)} ${requirement.currency}\n\n`;
-        message += 'Please add funds to your wallet before creating this swap.';
+        message += '\n' + t('validation.swap.shortfall', amount(shortfall)) + '\n\n';
+        message += t('validation.swap.addFunds');
 
         return message;
     }
@@ -79,48 +90,54 @@ export class SwapValidationMessages {
     /**
      * Get guidance message based on swap type
      */
-    static getGuidanceMessage(swapType: SwapType): string {
+    static getGuidanceMessage(swapType: SwapType, locale: Locale = DEFAULT_LOCALE): string {
+        const t = createTranslator(locale);
         switch (swapType) {
             case SwapType.CASH_ENABLED:
-                return 'For cash-enabled swaps, you need funds for escrow deposits, platform fees, and transaction costs. Please add funds to your wallet before creating this swap.';
+                return t('validation.swap.guidance.cashEnabled');
             case SwapType.BOOKING_EXCHANGE:
-                return 'For booking exchange swaps, you only need to cover transaction fees. Please add funds to your wallet before creating this swap.';
+                return t('validation.swap.guidance.bookingExchange');
             default:
-                return 'Please add funds to your wallet before creating this swap.';
+                return t('validation.swap.addFunds');
         }
     }
 
     /**
      * Get swap type specific validation error title
      */
-    static getValidationErrorTitle(swapType: SwapType): string {
+    static getValidationErrorTitle(swapType: SwapType, locale: Locale = DEFAULT_LOCALE): string {
+        const t = createTranslator(locale);
         switch (swapType) {
             case SwapType.CASH_ENABLED:
-                return 'Cash-Enabled Swap Configuration Issues';
+                return t('validation.swap.title.cashEnabled');
             case SwapType.BOOKING_EXCHANGE:
-                return 'Booking Exchange Swap Configuration Issues';
+                return t('validation.swap.title.bookingExchange');
             default:
-                return 'Swap Configuration Issues';
+                return t('validation.swap.title.default');
         }
     }
 
     /**
      * Get cash-enabled swap validation errors
      */
-    static validateCashEnabledSwap(paymentTypes: {
-        cashPayment: boolean;
-        minimumCashAmount?: number;
-    }): string[] {
+    static validateCashEnabledSwap(
+        paymentTypes: {
+            cashPayment: boolean;
+            minimumCashAmount?: number;
+        },
+        locale: Locale = DEFAULT_LOCALE
+    ): string[] {
+        const t = createTranslator(locale);
         const errors: string[] = [];
 
         // Validate minimum cash amount
         if (!paymentTypes.minimumCashAmount || paymentTypes.minimumCashAmount <= 0) {
-            errors.push('Cash-enabled swaps must specify a minimum cash amount greater than 0');
+            errors.push(t('validation.swap.minimumCashRequired'));
         }
 
         // Validate cash amount is reasonable (not too small for escrow fees)
         if (paymentTypes.minimumCashAmount && paymentTypes.minimumCashAmount < 1) {
-            errors.push('Minimum cash amount should be at least 1 HBAR to cover platform fees');
+            errors.push(t('validation.swap.minimumCashTooLow'));
         }
 
         return errors;
@@ -129,21 +146,25 @@ export class SwapValidationMessages {
     /**
      * Get booking exchange swap validation errors
      */
-    static validateBookingExchangeSwap(paymentTypes: {
-        bookingExchange: boolean;
-        cashPayment: boolean;
-        minimumCashAmount?: number;
-    }): string[] {
+    static validateBookingExchangeSwap(
+        paymentTypes: {
+            bookingExchange: boolean;
+            cashPayment: boolean;
+            minimumCashAmount?: number;
+        },
+        locale: Locale = DEFAULT_LOCALE
+    ): string[] {
+        const t = createTranslator(locale);
         const errors: string[] = [];
 
         // Ensure booking exchange is enabled for booking-only swaps
         if (!paymentTypes.bookingExchange) {
-            errors.push('Booking exchange must be enabled for booking-only swaps');
+            errors.push(t('validation.swap.bookingExchangeRequired'));
         }
 
         // Warn if cash payment is enabled but no minimum amount is set
         if (paymentTypes.cashPayment && !paymentTypes.minimumCashAmount) {
-            errors.push('Cash payment is enabled but no minimum amount is specified. This will be treated as a booking-only swap.');
+            errors.push(t('validation.swap.cashWithoutMinimum'));
         }
 
         return errors;
@@ -174,12 +195,13 @@ export class SwapValidationMessages {
             bookingExchange: boolean;
             cashPayment: boolean;
             minimumCashAmount?: number;
-        }
+        },
+        locale: Locale = DEFAULT_LOCALE
     ): string[] {
         if (swapType === SwapType.CASH_ENABLED) {
-            return this.validateCashEnabledSwap(paymentTypes);
+            return this.validateCashEnabledSwap(paymentTypes, locale);
         } else if (swapType === SwapType.BOOKING_EXCHANGE) {
-            return this.validateBookingExchangeSwap(paymentTypes);
+            return this.validateBookingExchangeSwap(paymentTypes, locale);
         }
         return [];
     }
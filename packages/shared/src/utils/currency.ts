@@ -0,0 +1,100 @@
+import {
+  CURRENCIES,
+  ConvertedAmount,
+  CurrencyCode,
+  CurrencyError,
+  CurrencyErrorCodes,
+  FxRateTable,
+} from '../types/currency.js';
+
+export const isSupportedCurrency = (
+  currency: string
+): currency is CurrencyCode =>
+  Object.prototype.hasOwnProperty.call(CURRENCIES, currency.toUpperCase());
+
+/**
+ * Round an amount to the number of decimals used by its currency
+ */
+export const roundCurrencyAmount = (
+  amount: number,
+  currency: string
+): number => {
+  const decimals = isSupportedCurrency(currency)
+    ? CURRENCIES[currency.toUpperCase() as CurrencyCode].decimals
+    : 2;
+  const factor = Math.pow(10, decimals);
+  return Math.round(amount * factor) / factor;
+};
+
+const rateAgainstBase = (
+  table: FxRateTable,
+  currency: CurrencyCode
+): number => {
+  if (currency === table.base) {
+    return 1;
+  }
+
+  const rate = table.rates[currency];
+  if (!rate || rate <= 0) {
+    throw new CurrencyError(
+      CurrencyErrorCodes.RATE_UNAVAILABLE,
+      `No exchange rate for ${currency} in ${table.source} rates`
+    );
+  }
+  return rate;
+};
+
+/**
+ * Convert an amount between two currencies using a rate table. Rates for
+ * currency pairs are derived through the table's base currency.
+ */
+export const convertWithRates = (
+  amount: number,
+  from: string,
+  to: string,
+  table: FxRateTable
+): ConvertedAmount => {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+
+  for (const currency of [source, target]) {
+    if (!isSupportedCurrency(currency)) {
+      throw new CurrencyError(
+        CurrencyErrorCodes.UNSUPPORTED_CURRENCY,
+        `Currency ${currency} is not supported`
+      );
+    }
+  }
+
+  const rate =
+    source === target
+      ? 1
+      : rateAgainstBase(table, target as CurrencyCode) /
+        rateAgainstBase(table, source as CurrencyCode);
+
+  return {
+    amount: roundCurrencyAmount(amount * rate, target),
+    currency: target as CurrencyCode,
+    originalAmount: amount,
+    originalCurrency: source as CurrencyCode,
+    rate,
+    asOf: table.asOf,
+  };
+};
+
+/**
+ * Format an amount with its currency symbol, e.g. "€12.50" or "ℏ150.00"
+ */
+export const formatCurrencyAmount = (
+  amount: number,
+  currency: string
+): string => {
+  const info = isSupportedCurrency(currency)
+    ? CURRENCIES[currency.toUpperCase() as CurrencyCode]
+    : undefined;
+  if (!info) {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+
+  return `${info.symbol}${amount.toFixed(info.decimals)}`;
+};
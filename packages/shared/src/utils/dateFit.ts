@@ -0,0 +1,164 @@
+import { DateFlexibility, DateWindow } from '../types/swap.js';
+import { DateFit } from '../types/swap-matching.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateFitStay {
+  checkIn: Date;
+  checkOut: Date;
+}
+
+// Whole calendar days, so daylight saving changes don't skew the count
+const toUtcDay = (date: Date): number => {
+  const d = new Date(date);
+  return Math.floor(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / DAY_MS
+  );
+};
+
+const formatDay = (date: Date): string =>
+  new Date(date).toISOString().slice(0, 10);
+
+const formatWindow = (window: DateWindow): string =>
+  `${formatDay(window.start)} – ${formatDay(window.end)}`;
+
+export const countNights = (checkIn: Date, checkOut: Date): number =>
+  toUtcDay(checkOut) - toUtcDay(checkIn);
+
+/**
+ * Nights of a stay that fall inside a window, 0 when they don't overlap
+ */
+export const countOverlapNights = (
+  stay: DateFitStay,
+  window: DateWindow
+): number =>
+  Math.max(
+    0,
+    Math.min(toUtcDay(stay.checkOut), toUtcDay(window.end)) -
+      Math.max(toUtcDay(stay.checkIn), toUtcDay(window.start))
+  );
+
+/**
+ * Evaluate how well a stay fits someone's date flexibility.
+ * `anchor` is the user's own dates that `shiftDays` is measured from. A stay
+ * fits when it is within the shift, lies in a window, or overlaps a window by
+ * at least `minNights` (one night by default) - the same rules search applies.
+ */
+export const evaluateDateFit = (
+  stay: DateFitStay,
+  flexibility: DateFlexibility,
+  anchor?: DateFitStay
+): DateFit => {
+  const nights = countNights(stay.checkIn, stay.checkOut);
+  const { minNights, maxNights, shiftDays, windows = [] } = flexibility;
+
+  if (minNights !== undefined && nights < minNights) {
+    return {
+      kind: 'none',
+      fits: false,
+      score: 0,
+      nights,
+      explanation: `${nights}-night stay is shorter than the ${minNights} nights wanted`,
+    };
+  }
+  if (maxNights !== undefined && nights > maxNights) {
+    return {
+      kind: 'none',
+      fits: false,
+      score: 0,
+      nights,
+      explanation: `${nights}-night stay is longer than the ${maxNights} nights wanted`,
+    };
+  }
+
+  const candidates: DateFit[] = [];
+  const misses: string[] = [];
+
+  if (anchor && shiftDays !== undefined) {
+    const shift = Math.max(
+      Math.abs(countNights(anchor.checkIn, stay.checkIn)),
+      Math.abs(countNights(anchor.checkOut, stay.checkOut))
+    );
+    if (shift === 0) {
+      candidates.push({
+        kind: 'exact',
+        fits: true,
+        score: 100,
+        nights,
+        shiftDays: 0,
+        explanation: 'Same dates as yours',
+      });
+    } else if (shift <= shiftDays) {
+      candidates.push({
+        kind: 'shifted',
+        fits: true,
+        score: Math.round(100 - (20 * shift) / shiftDays),
+        nights,
+        shiftDays: shift,
+        explanation: `Dates are ${shift} day${shift === 1 ? '' : 's'} from yours, within ±${shiftDays} days`,
+      });
+    } else {
+      misses.push(`dates are ${shift} days from yours, beyond ±${shiftDays} days`);
+    }
+  }
+
+  const minOverlap = Math.max(minNights ?? 1, 1);
+  let inWindow = false;
+  for (const window of windows) {
+    const overlapNights = countOverlapNights(stay, window);
+    const contained =
+      toUtcDay(stay.checkIn) >= toUtcDay(window.start) &&
+      toUtcDay(stay.checkOut) <= toUtcDay(window.end);
+
+    if (contained) {
+      inWindow = true;
+      candidates.push({
+        kind: 'within_window',
+        fits: true,
+        score: 100,
+        nights,
+        overlapNights,
+        explanation: `${nights}-night stay is within ${formatWindow(window)}`,
+      });
+    } else if (overlapNights >= minOverlap) {
+      inWindow = true;
+      candidates.push({
+        kind: 'partial_window',
+        fits: true,
+        score: Math.round(50 + (40 * overlapNights) / Math.max(nights, 1)),
+        nights,
+        overlapNights,
+        explanation: `${overlapNights} of ${nights} nights fall within ${formatWindow(window)}`,
+      });
+    }
+  }
+  if (windows.length > 0 && !inWindow) {
+    misses.push('stay falls outside your date windows');
+  }
+
+  if (candidates.length > 0) {
+    return candidates.reduce((best, candidate) =>
+      candidate.score > best.score ? candidate : best
+    );
+  }
+
+  if (misses.length > 0) {
+    const explanation = misses.join(' and ');
+    return {
+      kind: 'none',
+      fits: false,
+      score: 0,
+      nights,
+      explanation: explanation.charAt(0).toUpperCase() + explanation.slice(1),
+    };
+  }
+
+  // Only a stay length was given
+  return {
+    kind: 'stay_length',
+    fits: true,
+    score: 100,
+    nights,
+    explanation: `${nights}-night stay suits the length wanted`,
+  };
+};
@@ -8,3 +8,9 @@ export { BalanceCalculator, balanceCalculator, DEFAULT_FEE_CONFIG, type FeeConfi
 
 // Export swap validation messages
 export { SwapValidationMessages, SwapType } from './SwapValidationMessages.js';
+
+// Export currency conversion helpers
+export { isSupportedCurrency, roundCurrencyAmount, convertWithRates, formatCurrencyAmount } from './currency.js';
+
+// Export date flexibility matching
+export { evaluateDateFit, countNights, countOverlapNights, type DateFitStay } from './dateFit.js';
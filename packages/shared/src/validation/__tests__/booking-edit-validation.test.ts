@@ -128,6 +128,14 @@ describe('booking-edit-validation', () => {
       const errors = validateBookingEditData(data);
       expect(errors.providerDetails).toBeDefined();
     });
+
+    it('should return messages in the requested locale', () => {
+      const data = { ...validBookingData, title: 'a'.repeat(201), originalPrice: 0 };
+
+      expect(validateBookingEditData(data).title).toBe('Title must be less than 200 characters');
+      expect(validateBookingEditData(data, 'es').title).toBe('El título debe tener menos de 200 caracteres');
+      expect(validateBookingEditData(data, 'fr').originalPrice).toBe("Le prix d'origine doit être supérieur à 0");
+    });
   });
 
   describe('validateBookingEditUpdateData', () => {
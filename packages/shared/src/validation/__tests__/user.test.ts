@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { userSchema, createUserSchema, updateUserProfileSchema } from '../user';
+import { getValidationOptions } from '../messages';
 import { User } from '../../types/user';
 
 describe('User Validation', () => {
@@ -211,5 +212,21 @@ describe('User Validation', () => {
       const { error } = updateUserProfileSchema.validate(updateData);
       expect(error).toBeDefined();
     });
+
+    it('should accept supported locales only', () => {
+      expect(updateUserProfileSchema.validate({ locale: 'fr' }).error).toBeUndefined();
+      expect(updateUserProfileSchema.validate({ locale: 'de' }).error).toBeDefined();
+    });
+
+    it('should report errors in the requested locale', () => {
+      const updateData = { displayName: '' };
+
+      expect(updateUserProfileSchema.validate(updateData, getValidationOptions('en')).error?.message)
+        .toBe('"displayName" is not allowed to be empty');
+      expect(updateUserProfileSchema.validate(updateData, getValidationOptions('es')).error?.message)
+        .toBe('"displayName" no puede estar vacío');
+      expect(updateUserProfileSchema.validate({ email: 'invalid-email' }, getValidationOptions('fr')).error?.message)
+        .toBe('"email" doit être une adresse e-mail valide');
+    });
   });
 });
\ No newline at end of file
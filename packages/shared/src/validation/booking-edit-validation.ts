@@ -7,68 +7,78 @@ import { BookingEditData, BookingEditUpdateData, BookingEditErrors, CreateBookin
 import { BookingType } from '../types/booking';
 import {
   validateBookingType,
-  getBookingTypeValidationMessage
+  getEnabledBookingTypes,
+  getBookingTypeLabel
 } from '../config/booking-types.js';
+import { DEFAULT_LOCALE, Locale } from '../i18n/locale.js';
+import { createTranslator } from '../i18n/translator.js';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 1000;
 
 /**
- * Validates booking edit data for completeness and correctness
+ * Validates booking edit data for completeness and correctness, with messages
+ * in the given locale
  */
-export function validateBookingEditData(data: BookingEditData): BookingEditErrors {
+export function validateBookingEditData(data: BookingEditData, locale: Locale = DEFAULT_LOCALE): BookingEditErrors {
   const errors: BookingEditErrors = {};
+  const t = createTranslator(locale);
 
   // Title validation
   if (!data.title || data.title.trim().length === 0) {
-    errors.title = 'Title is required';
-  } else if (data.title.length > 200) {
-    errors.title = 'Title must be less than 200 characters';
+    errors.title = t('validation.booking.titleRequired');
+  } else if (data.title.length > MAX_TITLE_LENGTH) {
+    errors.title = t('validation.booking.titleTooLong', { max: MAX_TITLE_LENGTH });
   }
 
   // Description validation
   if (!data.description || data.description.trim().length === 0) {
-    errors.description = 'Description is required';
-  } else if (data.description.length > 1000) {
-    errors.description = 'Description must be less than 1000 characters';
+    errors.description = t('validation.booking.descriptionRequired');
+  } else if (data.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = t('validation.booking.descriptionTooLong', { max: MAX_DESCRIPTION_LENGTH });
   }
 
   // Type validation
   if (!data.type || !validateBookingType(data.type)) {
-    errors.type = getBookingTypeValidationMessage();
+    errors.type = t('validation.booking.typeUnsupported', {
+      types: getEnabledBookingTypes().map(getBookingTypeLabel).join(', '),
+    });
   }
 
   // Location validation
   if (!data.location?.city || data.location.city.trim().length === 0) {
-    errors.location = 'City is required';
+    errors.location = t('validation.booking.cityRequired');
   } else if (!data.location?.country || data.location.country.trim().length === 0) {
-    errors.location = 'Country is required';
+    errors.location = t('validation.booking.countryRequired');
   }
 
   // Date range validation
   if (!data.dateRange?.checkIn) {
-    errors.dateRange = 'Check-in date is required';
+    errors.dateRange = t('validation.booking.checkInRequired');
   } else if (new Date(data.dateRange.checkIn) <= new Date()) {
-    errors.dateRange = 'Check-in date must be in the future';
+    errors.dateRange = t('validation.booking.checkInInFuture');
   } else if (!data.dateRange?.checkOut) {
-    errors.dateRange = 'Check-out date is required';
+    errors.dateRange = t('validation.booking.checkOutRequired');
   } else if (new Date(data.dateRange.checkOut) <= new Date(data.dateRange.checkIn)) {
-    errors.dateRange = 'Check-out date must be after check-in date';
+    errors.dateRange = t('validation.booking.checkOutAfterCheckIn');
   }
 
   // Price validation
   if (!data.originalPrice || data.originalPrice <= 0) {
-    errors.originalPrice = 'Original price must be greater than 0';
+    errors.originalPrice = t('validation.booking.originalPricePositive');
   }
 
   if (!data.swapValue || data.swapValue <= 0) {
-    errors.swapValue = 'Swap value must be greater than 0';
+    errors.swapValue = t('validation.booking.swapValuePositive');
   }
 
   // Provider details validation
   if (!data.providerDetails?.provider || data.providerDetails.provider.trim().length === 0) {
-    errors.providerDetails = 'Provider name is required';
+    errors.providerDetails = t('validation.booking.providerRequired');
   } else if (!data.providerDetails?.confirmationNumber || data.providerDetails.confirmationNumber.trim().length === 0) {
-    errors.providerDetails = 'Confirmation number is required';
+    errors.providerDetails = t('validation.booking.confirmationNumberRequired');
   } else if (!data.providerDetails?.bookingReference || data.providerDetails.bookingReference.trim().length === 0) {
-    errors.providerDetails = 'Booking reference is required';
+    errors.providerDetails = t('validation.booking.bookingReferenceRequired');
   }
 
   return errors;
@@ -77,65 +87,69 @@ export function validateBookingEditData(data: BookingEditData): BookingEditError
 /**
  * Validates partial booking edit data for updates
  */
-export function validateBookingEditUpdateData(data: BookingEditUpdateData): BookingEditErrors {
+export function validateBookingEditUpdateData(
+  data: BookingEditUpdateData,
+  locale: Locale = DEFAULT_LOCALE
+): BookingEditErrors {
   const errors: BookingEditErrors = {};
+  const t = createTranslator(locale);
 
   // Only validate fields that are present
   if (data.title !== undefined) {
     if (!data.title || data.title.trim().length === 0) {
-      errors.title = 'Title cannot be empty';
-    } else if (data.title.length > 200) {
-      errors.title = 'Title must be less than 200 characters';
+      errors.title = t('validation.booking.titleEmpty');
+    } else if (data.title.length > MAX_TITLE_LENGTH) {
+      errors.title = t('validation.booking.titleTooLong', { max: MAX_TITLE_LENGTH });
     }
   }
 
   if (data.description !== undefined) {
     if (!data.description || data.description.trim().length === 0) {
-      errors.description = 'Description cannot be empty';
-    } else if (data.description.length > 1000) {
-      errors.description = 'Description must be less than 1000 characters';
+      errors.description = t('validation.booking.descriptionEmpty');
+    } else if (data.description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.description = t('validation.booking.descriptionTooLong', { max: MAX_DESCRIPTION_LENGTH });
     }
   }
 
   if (data.location !== undefined) {
     if (!data.location?.city || data.location.city.trim().length === 0) {
-      errors.location = 'City is required';
+      errors.location = t('validation.booking.cityRequired');
     } else if (!data.location?.country || data.location.country.trim().length === 0) {
-      errors.location = 'Country is required';
+      errors.location = t('validation.booking.countryRequired');
     }
   }
 
   if (data.dateRange !== undefined) {
     if (!data.dateRange?.checkIn) {
-      errors.dateRange = 'Check-in date is required';
+      errors.dateRange = t('validation.booking.checkInRequired');
     } else if (new Date(data.dateRange.checkIn) <= new Date()) {
-      errors.dateRange = 'Check-in date must be in the future';
+      errors.dateRange = t('validation.booking.checkInInFuture');
     } else if (!data.dateRange?.checkOut) {
-      errors.dateRange = 'Check-out date is required';
+      errors.dateRange = t('validation.booking.checkOutRequired');
     } else if (new Date(data.dateRange.checkOut) <= new Date(data.dateRange.checkIn)) {
-      errors.dateRange = 'Check-out date must be after check-in date';
+      errors.dateRange = t('validation.booking.checkOutAfterCheckIn');
     }
   }
 
   if (data.originalPrice !== undefined) {
     if (!data.originalPrice || data.originalPrice <= 0) {
-      errors.originalPrice = 'Original price must be greater than 0';
+      errors.originalPrice = t('validation.booking.originalPricePositive');
     }
   }
 
   if (data.swapValue !== undefined) {
     if (!data.swapValue || data.swapValue <= 0) {
-      errors.swapValue = 'Swap value must be greater than 0';
+      errors.swapValue = t('validation.booking.swapValuePositive');
     }
   }
 
   if (data.providerDetails !== undefined) {
     if (!data.providerDetails?.provider || data.providerDetails.provider.trim().length === 0) {
-      errors.providerDetails = 'Provider name is required';
+      errors.providerDetails = t('validation.booking.providerRequired');
     } else if (!data.providerDetails?.confirmationNumber || data.providerDetails.confirmationNumber.trim().length === 0) {
-      errors.providerDetails = 'Confirmation number is required';
+      errors.providerDetails = t('validation.booking.confirmationNumberRequired');
     } else if (!data.providerDetails?.bookingReference || data.providerDetails.bookingReference.trim().length === 0) {
-      errors.providerDetails = 'Booking reference is required';
+      errors.providerDetails = t('validation.booking.bookingReferenceRequired');
     }
   }
 
@@ -7,6 +7,9 @@ export * from './auction.js';
 export * from './payment.js';
 export * from './unified-booking.js';
 
+// Locale-aware Joi error messages
+export * from './messages.js';
+
 // Export separated data model validation
 export * from './booking-edit-validation.js';
 export * from './swap-specification-validation.js';
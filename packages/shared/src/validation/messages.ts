@@ -0,0 +1,82 @@
+import Joi from '@hapi/joi';
+import { DEFAULT_LOCALE, Locale } from '../i18n/locale.js';
+
+/**
+ * Joi error messages per locale, for the rules our schemas use. They follow
+ * Joi's template syntax ({{#label}}, {{#limit}}, {{#valids}}); English keeps
+ * Joi's built-in wording so existing API responses stay the same. Messages a
+ * schema sets with .messages() still take precedence.
+ */
+export const VALIDATION_MESSAGES: Record<Locale, Joi.LanguageMessages> = {
+  en: {},
+  es: {
+    'any.required': '{{#label}} es obligatorio',
+    'any.only': '{{#label}} debe ser uno de estos valores: {{#valids}}',
+    'any.invalid': '{{#label}} contiene un valor no válido',
+    'string.base': '{{#label}} debe ser un texto',
+    'string.empty': '{{#label}} no puede estar vacío',
+    'string.min': '{{#label}} debe tener al menos {{#limit}} caracteres',
+    'string.max': '{{#label}} debe tener como máximo {{#limit}} caracteres',
+    'string.length': '{{#label}} debe tener {{#limit}} caracteres',
+    'string.email': '{{#label}} debe ser un correo electrónico válido',
+    'string.uri': '{{#label}} debe ser una URL válida',
+    'string.guid': '{{#label}} debe ser un identificador válido',
+    'string.pattern.base': '{{#label}} no tiene un formato válido',
+    'number.base': '{{#label}} debe ser un número',
+    'number.integer': '{{#label}} debe ser un número entero',
+    'number.min': '{{#label}} debe ser mayor o igual que {{#limit}}',
+    'number.max': '{{#label}} debe ser menor o igual que {{#limit}}',
+    'number.positive': '{{#label}} debe ser un número positivo',
+    'boolean.base': '{{#label}} debe ser verdadero o falso',
+    'date.base': '{{#label}} debe ser una fecha válida',
+    'date.min': '{{#label}} debe ser igual o posterior a {{#limit}}',
+    'date.max': '{{#label}} debe ser igual o anterior a {{#limit}}',
+    'date.greater': '{{#label}} debe ser posterior a {{#limit}}',
+    'array.base': '{{#label}} debe ser una lista',
+    'array.min': '{{#label}} debe contener al menos {{#limit}} elementos',
+    'array.max': '{{#label}} debe contener como máximo {{#limit}} elementos',
+    'object.base': '{{#label}} debe ser de tipo {{#type}}',
+    'object.unknown': '{{#label}} no está permitido',
+  },
+  fr: {
+    'any.required': '{{#label}} est obligatoire',
+    'any.only': '{{#label}} doit être l\'une de ces valeurs : {{#valids}}',
+    'any.invalid': '{{#label}} contient une valeur non valide',
+    'string.base': '{{#label}} doit être un texte',
+    'string.empty': '{{#label}} ne peut pas être vide',
+    'string.min': '{{#label}} doit contenir au moins {{#limit}} caractères',
+    'string.max': '{{#label}} doit contenir au plus {{#limit}} caractères',
+    'string.length': '{{#label}} doit contenir {{#limit}} caractères',
+    'string.email': '{{#label}} doit être une adresse e-mail valide',
+    'string.uri': '{{#label}} doit être une URL valide',
+    'string.guid': '{{#label}} doit être un identifiant valide',
+    'string.pattern.base': '{{#label}} n\'a pas un format valide',
+    'number.base': '{{#label}} doit être un nombre',
+    'number.integer': '{{#label}} doit être un nombre entier',
+    'number.min': '{{#label}} doit être supérieur ou égal à {{#limit}}',
+    'number.max': '{{#label}} doit être inférieur ou égal à {{#limit}}',
+    'number.positive': '{{#label}} doit être un nombre positif',
+    'boolean.base': '{{#label}} doit être vrai ou faux',
+    'date.base': '{{#label}} doit être une date valide',
+    'date.min': '{{#label}} doit être postérieur ou égal à {{#limit}}',
+    'date.max': '{{#label}} doit être antérieur ou égal à {{#limit}}',
+    'date.greater': '{{#label}} doit être postérieur à {{#limit}}',
+    'array.base': '{{#label}} doit être une liste',
+    'array.min': '{{#label}} doit contenir au moins {{#limit}} éléments',
+    'array.max': '{{#label}} doit contenir au plus {{#limit}} éléments',
+    'object.base': '{{#label}} doit être de type {{#type}}',
+    'object.unknown': '{{#label}} n\'est pas autorisé',
+  },
+};
+
+/**
+ * Adds the locale's messages to Joi validation options, for
+ * schema.validate(value, getValidationOptions(locale, { abortEarly: false }))
+ */
+export const getValidationOptions = (
+  locale: Locale = DEFAULT_LOCALE,
+  options: Joi.ValidationOptions = {}
+): Joi.ValidationOptions =>
+  locale === DEFAULT_LOCALE
+    ? options
+    : { ...options, messages: { ...VALIDATION_MESSAGES[locale], ...options.messages } };
@@ -61,6 +61,36 @@ const swapPreferencesSchema = Joi.object({
   }),
 
   swapConditions: Joi.array().items(Joi.string().max(500)).max(10).default([]),
+
+  dateFlexibility: Joi.object({
+    shiftDays: Joi.number().integer().min(0).max(30).optional().messages({
+      'number.max': 'Dates can shift by at most 30 days',
+    }),
+    windows: Joi.array()
+      .items(
+        Joi.object({
+          start: Joi.date().required(),
+          end: Joi.date().greater(Joi.ref('start')).required().messages({
+            'date.greater': 'Date window must end after it starts',
+          }),
+        })
+      )
+      .max(5)
+      .optional()
+      .messages({
+        'array.max': 'At most 5 date windows can be added',
+      }),
+    minNights: Joi.number().integer().min(1).optional().messages({
+      'number.min': 'Minimum nights must be at least 1',
+    }),
+    maxNights: Joi.when('minNights', {
+      is: Joi.exist(),
+      then: Joi.number().integer().min(Joi.ref('minNights')).optional().messages({
+        'number.min': 'Maximum nights must be at least the minimum',
+      }),
+      otherwise: Joi.number().integer().min(1).optional(),
+    }),
+  }).optional(),
 });
 
 // Enhanced unified booking validation schema
@@ -3,13 +3,21 @@ import {
   getBookingTypeValidationValues,
   getBookingTypeValidationMessage
 } from '../config/booking-types.js';
+import { MAX_AUTO_ACCEPT_DAILY_LIMIT } from '../types/auto-accept.js';
+import { SUPPORTED_LOCALES } from '../i18n/locale.js';
 
 const swapCriteriaSchema = Joi.object({
   maxAdditionalPayment: Joi.number().min(0).optional(),
   preferredLocations: Joi.array().items(Joi.string().min(1).max(100)).optional(),
   bookingTypes: Joi.array().items(Joi.string().valid(...getBookingTypeValidationValues())).optional().messages({
     'any.only': getBookingTypeValidationMessage(),
-  })
+  }),
+  enabled: Joi.boolean().optional(),
+  dryRun: Joi.boolean().optional(),
+  minCompatibilityScore: Joi.number().min(0).max(100).optional(),
+  minCounterpartyReputation: Joi.number().min(0).max(5).optional(),
+  dailyLimit: Joi.number().integer().min(1).max(MAX_AUTO_ACCEPT_DAILY_LIMIT).optional(),
+  enabledAt: Joi.date().optional()
 });
 
 const userPreferencesSchema = Joi.object({
@@ -21,6 +29,7 @@ const userProfileSchema = Joi.object({
   displayName: Joi.string().min(1).max(100).optional(),
   email: Joi.string().email({ tlds: false }).optional(),
   phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional(),
+  locale: Joi.string().valid(...SUPPORTED_LOCALES).optional(),
   preferences: userPreferencesSchema.required()
 });
 
@@ -65,5 +74,6 @@ export const updateUserProfileSchema = Joi.object({
   displayName: Joi.string().min(1).max(100).optional(),
   email: Joi.string().email({ tlds: false }).optional(),
   phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional(),
+  locale: Joi.string().valid(...SUPPORTED_LOCALES).optional(),
   preferences: userPreferencesSchema.optional()
 });
\ No newline at end of file